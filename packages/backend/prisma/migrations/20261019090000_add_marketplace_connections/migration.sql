@@ -0,0 +1,27 @@
+-- Marketplace connections (GoFood / GrabFood / ShopeeFood per outlet)
+-- Credentials are stored AES-256-GCM encrypted by the application layer
+CREATE TABLE IF NOT EXISTS "marketplace_connections" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "outlet_id" UUID NOT NULL,
+    "platform" "online_order_platform" NOT NULL,
+    "merchant_id" VARCHAR(100) NOT NULL,
+    "credentials" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "token_expires_at" TIMESTAMPTZ,
+    "connected_at" TIMESTAMPTZ,
+    "connected_by" UUID,
+    "disconnected_at" TIMESTAMPTZ,
+    "last_sync_at" TIMESTAMPTZ,
+    "last_menu_sync_at" TIMESTAMPTZ,
+    "last_error" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "marketplace_connections_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_marketplace_connection_outlet_platform" ON "marketplace_connections"("outlet_id", "platform");
+CREATE INDEX IF NOT EXISTS "idx_marketplace_connections_platform" ON "marketplace_connections"("platform", "is_active");
+
+-- Foreign keys
+ALTER TABLE "marketplace_connections" ADD CONSTRAINT "fk_mc_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id") ON DELETE CASCADE;
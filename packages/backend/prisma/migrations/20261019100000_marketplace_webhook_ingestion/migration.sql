@@ -0,0 +1,10 @@
+-- Marketplace webhook ingestion
+-- Webhook deliveries are deduplicated by platform order ID, and incoming
+-- webhooks are routed to an outlet by the platform merchant ID.
+
+-- Online orders: one row per platform order
+DROP INDEX IF EXISTS "idx_online_orders_platform";
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_online_orders_platform_order" ON "online_orders"("platform", "platform_order_id");
+
+-- Marketplace connections: lookup by merchant
+CREATE INDEX IF NOT EXISTS "idx_marketplace_connections_merchant" ON "marketplace_connections"("platform", "merchant_id");
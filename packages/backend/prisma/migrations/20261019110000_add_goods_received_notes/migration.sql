@@ -0,0 +1,43 @@
+-- Goods received notes (GRN) for partial purchase order receiving
+-- Each GRN records one delivery; landed cost (freight + other) is allocated
+-- over the received lines.
+CREATE TABLE IF NOT EXISTS "goods_received_notes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "purchase_order_id" UUID NOT NULL,
+    "outlet_id" UUID NOT NULL,
+    "grn_number" VARCHAR(50) NOT NULL,
+    "freight_cost" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "other_cost" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "received_by" UUID,
+    "received_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "goods_received_notes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "goods_received_note_items" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "grn_id" UUID NOT NULL,
+    "purchase_order_item_id" UUID NOT NULL,
+    "quantity_received" DECIMAL(15,3) NOT NULL,
+    "quantity_rejected" DECIMAL(15,3) NOT NULL DEFAULT 0,
+    "quantity_damaged" DECIMAL(15,3) NOT NULL DEFAULT 0,
+    "unit_cost" DECIMAL(15,4) NOT NULL,
+    "landed_cost" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    CONSTRAINT "goods_received_note_items_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "goods_received_notes_grn_number_key" ON "goods_received_notes"("grn_number");
+CREATE INDEX IF NOT EXISTS "idx_grn_po" ON "goods_received_notes"("purchase_order_id");
+CREATE INDEX IF NOT EXISTS "idx_grn_outlet_date" ON "goods_received_notes"("outlet_id", "received_at" DESC);
+CREATE INDEX IF NOT EXISTS "idx_grn_items_grn" ON "goods_received_note_items"("grn_id");
+CREATE INDEX IF NOT EXISTS "idx_grn_items_po_item" ON "goods_received_note_items"("purchase_order_item_id");
+
+-- Foreign keys
+ALTER TABLE "goods_received_notes" ADD CONSTRAINT "fk_grn_po" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE CASCADE;
+ALTER TABLE "goods_received_notes" ADD CONSTRAINT "fk_grn_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "goods_received_notes" ADD CONSTRAINT "fk_grn_employee" FOREIGN KEY ("received_by") REFERENCES "employees"("id");
+ALTER TABLE "goods_received_note_items" ADD CONSTRAINT "fk_grn_items_grn" FOREIGN KEY ("grn_id") REFERENCES "goods_received_notes"("id") ON DELETE CASCADE;
+ALTER TABLE "goods_received_note_items" ADD CONSTRAINT "fk_grn_items_po_item" FOREIGN KEY ("purchase_order_item_id") REFERENCES "purchase_order_items"("id") ON DELETE CASCADE;
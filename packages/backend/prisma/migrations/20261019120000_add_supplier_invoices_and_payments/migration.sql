@@ -0,0 +1,87 @@
+-- Supplier invoices with three-way match (PO / GRN / invoice) and supplier
+-- payments that settle invoices fully or partially via allocations.
+CREATE TYPE "supplier_invoice_status" AS ENUM ('unpaid', 'partially_paid', 'paid', 'void');
+CREATE TYPE "invoice_match_status" AS ENUM ('unmatched', 'matched', 'mismatch');
+
+CREATE TABLE IF NOT EXISTS "supplier_invoices" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "supplier_id" UUID NOT NULL,
+    "purchase_order_id" UUID,
+    "goods_received_note_id" UUID,
+    "invoice_number" VARCHAR(100) NOT NULL,
+    "invoice_date" TIMESTAMPTZ NOT NULL,
+    "due_date" TIMESTAMPTZ NOT NULL,
+    "subtotal" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "tax_amount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "total_amount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "paid_amount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "status" "supplier_invoice_status" NOT NULL DEFAULT 'unpaid',
+    "match_status" "invoice_match_status" NOT NULL DEFAULT 'unmatched',
+    "match_details" JSONB,
+    "notes" TEXT,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "supplier_invoices_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "supplier_invoice_items" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "invoice_id" UUID NOT NULL,
+    "purchase_order_item_id" UUID,
+    "description" VARCHAR(255) NOT NULL,
+    "quantity" DECIMAL(15,3) NOT NULL,
+    "unit_price" DECIMAL(15,4) NOT NULL,
+    "subtotal" DECIMAL(15,2) NOT NULL,
+    CONSTRAINT "supplier_invoice_items_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "supplier_payments" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "supplier_id" UUID NOT NULL,
+    "payment_number" VARCHAR(50) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "payment_method" VARCHAR(30) NOT NULL,
+    "reference" VARCHAR(100),
+    "paid_at" TIMESTAMPTZ NOT NULL,
+    "notes" TEXT,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "supplier_payments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "supplier_payment_allocations" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "payment_id" UUID NOT NULL,
+    "invoice_id" UUID NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    CONSTRAINT "supplier_payment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_supplier_invoices_number" ON "supplier_invoices"("supplier_id", "invoice_number");
+CREATE INDEX IF NOT EXISTS "idx_supplier_invoices_business_due" ON "supplier_invoices"("business_id", "status", "due_date");
+CREATE INDEX IF NOT EXISTS "idx_supplier_invoices_po" ON "supplier_invoices"("purchase_order_id");
+CREATE INDEX IF NOT EXISTS "idx_supplier_invoice_items_invoice" ON "supplier_invoice_items"("invoice_id");
+CREATE INDEX IF NOT EXISTS "idx_supplier_invoice_items_po_item" ON "supplier_invoice_items"("purchase_order_item_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "supplier_payments_payment_number_key" ON "supplier_payments"("payment_number");
+CREATE INDEX IF NOT EXISTS "idx_supplier_payments_business_date" ON "supplier_payments"("business_id", "paid_at");
+CREATE INDEX IF NOT EXISTS "idx_supplier_payments_supplier" ON "supplier_payments"("supplier_id");
+CREATE INDEX IF NOT EXISTS "idx_supplier_payment_alloc_payment" ON "supplier_payment_allocations"("payment_id");
+CREATE INDEX IF NOT EXISTS "idx_supplier_payment_alloc_invoice" ON "supplier_payment_allocations"("invoice_id");
+
+-- Foreign keys
+ALTER TABLE "supplier_invoices" ADD CONSTRAINT "fk_supplier_invoices_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "supplier_invoices" ADD CONSTRAINT "fk_supplier_invoices_supplier" FOREIGN KEY ("supplier_id") REFERENCES "suppliers"("id");
+ALTER TABLE "supplier_invoices" ADD CONSTRAINT "fk_supplier_invoices_po" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id");
+ALTER TABLE "supplier_invoices" ADD CONSTRAINT "fk_supplier_invoices_grn" FOREIGN KEY ("goods_received_note_id") REFERENCES "goods_received_notes"("id");
+ALTER TABLE "supplier_invoices" ADD CONSTRAINT "fk_supplier_invoices_employee" FOREIGN KEY ("created_by") REFERENCES "employees"("id");
+ALTER TABLE "supplier_invoice_items" ADD CONSTRAINT "fk_supplier_invoice_items_invoice" FOREIGN KEY ("invoice_id") REFERENCES "supplier_invoices"("id") ON DELETE CASCADE;
+ALTER TABLE "supplier_invoice_items" ADD CONSTRAINT "fk_supplier_invoice_items_po_item" FOREIGN KEY ("purchase_order_item_id") REFERENCES "purchase_order_items"("id");
+ALTER TABLE "supplier_payments" ADD CONSTRAINT "fk_supplier_payments_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "supplier_payments" ADD CONSTRAINT "fk_supplier_payments_supplier" FOREIGN KEY ("supplier_id") REFERENCES "suppliers"("id");
+ALTER TABLE "supplier_payments" ADD CONSTRAINT "fk_supplier_payments_employee" FOREIGN KEY ("created_by") REFERENCES "employees"("id");
+ALTER TABLE "supplier_payment_allocations" ADD CONSTRAINT "fk_supplier_payment_alloc_payment" FOREIGN KEY ("payment_id") REFERENCES "supplier_payments"("id") ON DELETE CASCADE;
+ALTER TABLE "supplier_payment_allocations" ADD CONSTRAINT "fk_supplier_payment_alloc_invoice" FOREIGN KEY ("invoice_id") REFERENCES "supplier_invoices"("id");
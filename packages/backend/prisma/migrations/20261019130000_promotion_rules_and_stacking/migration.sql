@@ -0,0 +1,6 @@
+-- Promotion rule language (conditions + reward) and stacking controls.
+-- Promotions without rules keep using discount_type / applicable_to.
+ALTER TABLE "promotions" ADD COLUMN IF NOT EXISTS "rules" JSONB;
+ALTER TABLE "promotions" ADD COLUMN IF NOT EXISTS "priority" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "promotions" ADD COLUMN IF NOT EXISTS "stackable" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "promotions" ADD COLUMN IF NOT EXISTS "exclusivity_group" VARCHAR(50);
@@ -0,0 +1,88 @@
+-- Gift cards and customer wallets: stored-value balances redeemable as a
+-- payment tender, with an append-only ledger per card / wallet.
+ALTER TYPE "payment_method" ADD VALUE IF NOT EXISTS 'gift_card';
+ALTER TYPE "payment_method" ADD VALUE IF NOT EXISTS 'wallet';
+
+CREATE TYPE "gift_card_type" AS ENUM ('physical', 'digital');
+CREATE TYPE "gift_card_status" AS ENUM ('active', 'expired', 'void');
+CREATE TYPE "stored_value_entry_type" AS ENUM ('issue', 'top_up', 'redeem', 'reversal', 'expiry', 'adjustment');
+
+CREATE TABLE IF NOT EXISTS "gift_cards" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "code" VARCHAR(32) NOT NULL,
+    "card_type" "gift_card_type" NOT NULL DEFAULT 'physical',
+    "initial_balance" DECIMAL(15,2) NOT NULL,
+    "balance" DECIMAL(15,2) NOT NULL,
+    "status" "gift_card_status" NOT NULL DEFAULT 'active',
+    "expires_at" TIMESTAMPTZ,
+    "customer_id" UUID,
+    "recipient_name" VARCHAR(255),
+    "recipient_email" VARCHAR(255),
+    "issued_at_outlet_id" UUID,
+    "issued_by" UUID,
+    "notes" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "gift_cards_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "gift_card_ledger" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "gift_card_id" UUID NOT NULL,
+    "entry_type" "stored_value_entry_type" NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "balance_after" DECIMAL(15,2) NOT NULL,
+    "transaction_id" UUID,
+    "outlet_id" UUID,
+    "employee_id" UUID,
+    "notes" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "gift_card_ledger_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "customer_wallets" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "customer_id" UUID NOT NULL,
+    "balance" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "customer_wallets_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "wallet_ledger" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "wallet_id" UUID NOT NULL,
+    "entry_type" "stored_value_entry_type" NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "balance_after" DECIMAL(15,2) NOT NULL,
+    "transaction_id" UUID,
+    "outlet_id" UUID,
+    "employee_id" UUID,
+    "notes" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "wallet_ledger_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_gift_cards_business_code" ON "gift_cards"("business_id", "code");
+CREATE INDEX IF NOT EXISTS "idx_gift_cards_business_status" ON "gift_cards"("business_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_gift_cards_expires" ON "gift_cards"("expires_at");
+CREATE INDEX IF NOT EXISTS "idx_gift_card_ledger_card" ON "gift_card_ledger"("gift_card_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_gift_card_ledger_transaction" ON "gift_card_ledger"("transaction_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "customer_wallets_customer_id_key" ON "customer_wallets"("customer_id");
+CREATE INDEX IF NOT EXISTS "idx_customer_wallets_business" ON "customer_wallets"("business_id");
+CREATE INDEX IF NOT EXISTS "idx_wallet_ledger_wallet" ON "wallet_ledger"("wallet_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_wallet_ledger_transaction" ON "wallet_ledger"("transaction_id");
+
+-- Foreign keys
+ALTER TABLE "gift_cards" ADD CONSTRAINT "fk_gift_cards_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "gift_cards" ADD CONSTRAINT "fk_gift_cards_customer" FOREIGN KEY ("customer_id") REFERENCES "customers"("id");
+ALTER TABLE "gift_card_ledger" ADD CONSTRAINT "fk_gift_card_ledger_card" FOREIGN KEY ("gift_card_id") REFERENCES "gift_cards"("id") ON DELETE CASCADE;
+ALTER TABLE "gift_card_ledger" ADD CONSTRAINT "fk_gift_card_ledger_transaction" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id");
+ALTER TABLE "customer_wallets" ADD CONSTRAINT "fk_customer_wallets_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "customer_wallets" ADD CONSTRAINT "fk_customer_wallets_customer" FOREIGN KEY ("customer_id") REFERENCES "customers"("id");
+ALTER TABLE "wallet_ledger" ADD CONSTRAINT "fk_wallet_ledger_wallet" FOREIGN KEY ("wallet_id") REFERENCES "customer_wallets"("id") ON DELETE CASCADE;
+ALTER TABLE "wallet_ledger" ADD CONSTRAINT "fk_wallet_ledger_transaction" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id");
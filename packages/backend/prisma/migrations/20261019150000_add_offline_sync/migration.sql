@@ -0,0 +1,34 @@
+-- Offline sync: change cursors over (updated_at, id), idempotency log for
+-- pushed operations and the receipt number a device assigned while offline.
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE "transactions" ADD COLUMN IF NOT EXISTS "offline_receipt_number" VARCHAR(50);
+
+-- Cursors compare at millisecond precision; backfill from created_at
+-- rather than the microsecond DEFAULT
+UPDATE "categories" SET "updated_at" = "created_at";
+
+CREATE INDEX IF NOT EXISTS "idx_categories_business_updated" ON "categories"("business_id", "updated_at", "id");
+CREATE INDEX IF NOT EXISTS "idx_products_business_updated" ON "products"("business_id", "updated_at", "id");
+CREATE INDEX IF NOT EXISTS "idx_customers_business_updated" ON "customers"("business_id", "updated_at", "id");
+CREATE INDEX IF NOT EXISTS "idx_transactions_outlet_updated" ON "transactions"("outlet_id", "updated_at", "id");
+CREATE INDEX IF NOT EXISTS "idx_transactions_offline_receipt" ON "transactions"("outlet_id", "offline_receipt_number");
+
+CREATE TABLE IF NOT EXISTS "sync_operation_logs" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "idempotency_key" VARCHAR(100) NOT NULL,
+    "device_id" UUID,
+    "employee_id" UUID,
+    "entity_type" VARCHAR(30) NOT NULL,
+    "operation" VARCHAR(10) NOT NULL,
+    "client_entity_id" VARCHAR(100),
+    "entity_id" UUID,
+    "result" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "sync_operation_logs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_sync_operation_logs_key" ON "sync_operation_logs"("business_id", "idempotency_key");
+CREATE INDEX IF NOT EXISTS "idx_sync_operation_logs_client_entity" ON "sync_operation_logs"("business_id", "entity_type", "client_entity_id");
+
+ALTER TABLE "sync_operation_logs" ADD CONSTRAINT "fk_sync_operation_logs_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
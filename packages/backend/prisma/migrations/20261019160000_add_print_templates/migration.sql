@@ -0,0 +1,29 @@
+-- Print templates: block-based ESC/POS layouts for receipts and kitchen tickets
+
+CREATE TYPE "print_template_kind" AS ENUM ('receipt', 'kitchen_ticket');
+
+CREATE TABLE IF NOT EXISTS "print_templates" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "outlet_id" UUID,
+    "name" VARCHAR(100) NOT NULL,
+    "kind" "print_template_kind" NOT NULL,
+    "paper_width" INTEGER NOT NULL DEFAULT 80,
+    "blocks" JSONB NOT NULL DEFAULT '[]',
+    "variables" JSONB NOT NULL DEFAULT '{}',
+    "logo_bitmap" BYTEA,
+    "logo_width" INTEGER,
+    "logo_height" INTEGER,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "print_templates_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_print_templates_business_kind" ON "print_templates"("business_id", "kind");
+CREATE INDEX IF NOT EXISTS "idx_print_templates_outlet" ON "print_templates"("outlet_id");
+
+ALTER TABLE "print_templates" ADD CONSTRAINT "fk_print_templates_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "print_templates" ADD CONSTRAINT "fk_print_templates_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
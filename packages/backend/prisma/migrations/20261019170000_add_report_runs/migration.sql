@@ -0,0 +1,34 @@
+-- Report runs: one row per scheduled (or manual) report execution
+
+CREATE TYPE "report_run_status" AS ENUM ('queued', 'running', 'retrying', 'completed', 'failed');
+
+CREATE TABLE IF NOT EXISTS "report_runs" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "schedule_id" VARCHAR(50),
+    "report_type" VARCHAR(20) NOT NULL,
+    "format" VARCHAR(10) NOT NULL,
+    "outlet_id" UUID,
+    "period_start" TIMESTAMPTZ NOT NULL,
+    "period_end" TIMESTAMPTZ NOT NULL,
+    "status" "report_run_status" NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "recipients" TEXT[],
+    "file_path" VARCHAR(500),
+    "file_url" VARCHAR(1000),
+    "file_name" VARCHAR(255),
+    "emailed_at" TIMESTAMPTZ,
+    "error" TEXT,
+    "triggered_by" UUID,
+    "started_at" TIMESTAMPTZ,
+    "completed_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "report_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- A schedule produces at most one run per period, so re-ticks of the scheduler are harmless
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_report_runs_schedule_period" ON "report_runs"("schedule_id", "period_start");
+CREATE INDEX IF NOT EXISTS "idx_report_runs_business_created" ON "report_runs"("business_id", "created_at");
+
+ALTER TABLE "report_runs" ADD CONSTRAINT "fk_report_runs_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
@@ -0,0 +1,100 @@
+-- e-Faktur: buyer NPWP on customers, NSFP ranges and tax invoices
+
+ALTER TABLE "customers" ADD COLUMN IF NOT EXISTS "npwp" VARCHAR(16);
+ALTER TABLE "customers" ADD COLUMN IF NOT EXISTS "npwp_name" VARCHAR(255);
+ALTER TABLE "customers" ADD COLUMN IF NOT EXISTS "npwp_address" TEXT;
+
+CREATE TYPE "tax_invoice_status" AS ENUM ('issued', 'replaced', 'cancelled');
+
+CREATE TABLE IF NOT EXISTS "faktur_number_ranges" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "prefix" VARCHAR(5) NOT NULL,
+    "start_serial" INTEGER NOT NULL,
+    "end_serial" INTEGER NOT NULL,
+    "next_serial" INTEGER NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "faktur_number_ranges_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_faktur_ranges_start" ON "faktur_number_ranges"("business_id", "prefix", "start_serial");
+CREATE INDEX IF NOT EXISTS "idx_faktur_ranges_business_active" ON "faktur_number_ranges"("business_id", "is_active");
+
+ALTER TABLE "faktur_number_ranges" ADD CONSTRAINT "fk_faktur_ranges_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+
+CREATE TABLE IF NOT EXISTS "tax_invoices" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "outlet_id" UUID,
+    "customer_id" UUID,
+    "range_id" UUID,
+    "nsfp" VARCHAR(20) NOT NULL,
+    "transaction_code" VARCHAR(2) NOT NULL DEFAULT '01',
+    "revision" INTEGER NOT NULL DEFAULT 0,
+    "invoice_date" DATE NOT NULL,
+    "status" "tax_invoice_status" NOT NULL DEFAULT 'issued',
+    "seller_npwp" VARCHAR(16) NOT NULL,
+    "seller_name" VARCHAR(255) NOT NULL,
+    "seller_address" TEXT,
+    "buyer_npwp" VARCHAR(16) NOT NULL,
+    "buyer_name" VARCHAR(255) NOT NULL,
+    "buyer_address" TEXT,
+    "dpp" DECIMAL(15,2) NOT NULL,
+    "ppn" DECIMAL(15,2) NOT NULL,
+    "ppnbm" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "reference" VARCHAR(100),
+    "replaces_id" UUID,
+    "cancelled_at" TIMESTAMPTZ,
+    "cancel_reason" TEXT,
+    "last_exported_at" TIMESTAMPTZ,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "tax_invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- A replacement keeps the NSFP and bumps the revision
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_tax_invoices_nsfp_revision" ON "tax_invoices"("business_id", "nsfp", "revision");
+CREATE UNIQUE INDEX IF NOT EXISTS "tax_invoices_replaces_id_key" ON "tax_invoices"("replaces_id");
+CREATE INDEX IF NOT EXISTS "idx_tax_invoices_business_date" ON "tax_invoices"("business_id", "invoice_date");
+CREATE INDEX IF NOT EXISTS "idx_tax_invoices_customer" ON "tax_invoices"("customer_id");
+
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "fk_tax_invoices_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "fk_tax_invoices_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "fk_tax_invoices_customer" FOREIGN KEY ("customer_id") REFERENCES "customers"("id");
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "fk_tax_invoices_range" FOREIGN KEY ("range_id") REFERENCES "faktur_number_ranges"("id");
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "fk_tax_invoices_replaces" FOREIGN KEY ("replaces_id") REFERENCES "tax_invoices"("id");
+
+CREATE TABLE IF NOT EXISTS "tax_invoice_items" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tax_invoice_id" UUID NOT NULL,
+    "transaction_id" UUID,
+    "product_id" UUID,
+    "name" VARCHAR(255) NOT NULL,
+    "unit_price" DECIMAL(15,2) NOT NULL,
+    "quantity" DECIMAL(10,3) NOT NULL,
+    "total_price" DECIMAL(15,2) NOT NULL,
+    "discount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "dpp" DECIMAL(15,2) NOT NULL,
+    "ppn" DECIMAL(15,2) NOT NULL,
+    CONSTRAINT "tax_invoice_items_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_tax_invoice_items_invoice" ON "tax_invoice_items"("tax_invoice_id");
+
+ALTER TABLE "tax_invoice_items" ADD CONSTRAINT "fk_tax_invoice_items_invoice" FOREIGN KEY ("tax_invoice_id") REFERENCES "tax_invoices"("id") ON DELETE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "tax_invoice_transactions" (
+    "tax_invoice_id" UUID NOT NULL,
+    "transaction_id" UUID NOT NULL,
+    CONSTRAINT "tax_invoice_transactions_pkey" PRIMARY KEY ("tax_invoice_id", "transaction_id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_tax_invoice_transactions_transaction" ON "tax_invoice_transactions"("transaction_id");
+
+ALTER TABLE "tax_invoice_transactions" ADD CONSTRAINT "fk_tax_invoice_transactions_invoice" FOREIGN KEY ("tax_invoice_id") REFERENCES "tax_invoices"("id") ON DELETE CASCADE;
+ALTER TABLE "tax_invoice_transactions" ADD CONSTRAINT "fk_tax_invoice_transactions_transaction" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id");
@@ -0,0 +1,122 @@
+-- Table reservations: reservations with combined tables and gateway deposits,
+-- replacing the "[RESERVATION]" rows kept in waiting_list
+
+ALTER TYPE "payment_method" ADD VALUE IF NOT EXISTS 'reservation_deposit';
+ALTER TYPE "notification_type" ADD VALUE IF NOT EXISTS 'reservation_reminder';
+
+ALTER TABLE "tables" ADD COLUMN IF NOT EXISTS "is_combinable" BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TYPE "reservation_status" AS ENUM ('pending_deposit', 'confirmed', 'seated', 'completed', 'cancelled', 'no_show');
+CREATE TYPE "reservation_deposit_status" AS ENUM ('pending', 'paid', 'applied', 'refunded', 'forfeited', 'expired');
+
+CREATE TABLE IF NOT EXISTS "reservations" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "outlet_id" UUID NOT NULL,
+    "customer_id" UUID,
+    "customer_name" VARCHAR(255) NOT NULL,
+    "customer_phone" VARCHAR(20) NOT NULL,
+    "customer_email" VARCHAR(255),
+    "party_size" INTEGER NOT NULL,
+    "section" VARCHAR(50),
+    "starts_at" TIMESTAMPTZ NOT NULL,
+    "ends_at" TIMESTAMPTZ NOT NULL,
+    "duration_minutes" INTEGER NOT NULL,
+    "status" "reservation_status" NOT NULL DEFAULT 'confirmed',
+    "source" VARCHAR(20) NOT NULL DEFAULT 'staff',
+    "notes" TEXT,
+    "arrived_at" TIMESTAMPTZ,
+    "late_minutes" INTEGER,
+    "completed_at" TIMESTAMPTZ,
+    "no_show_at" TIMESTAMPTZ,
+    "cancelled_at" TIMESTAMPTZ,
+    "cancel_reason" TEXT,
+    "reminder_sent_at" TIMESTAMPTZ,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "reservations_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_reservations_outlet_starts" ON "reservations"("outlet_id", "starts_at");
+CREATE INDEX IF NOT EXISTS "idx_reservations_status_starts" ON "reservations"("status", "starts_at");
+CREATE INDEX IF NOT EXISTS "idx_reservations_customer" ON "reservations"("customer_id");
+
+ALTER TABLE "reservations" ADD CONSTRAINT "fk_reservations_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "reservations" ADD CONSTRAINT "fk_reservations_customer" FOREIGN KEY ("customer_id") REFERENCES "customers"("id");
+
+CREATE TABLE IF NOT EXISTS "reservation_tables" (
+    "reservation_id" UUID NOT NULL,
+    "table_id" UUID NOT NULL,
+    CONSTRAINT "reservation_tables_pkey" PRIMARY KEY ("reservation_id", "table_id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_reservation_tables_table" ON "reservation_tables"("table_id");
+
+ALTER TABLE "reservation_tables" ADD CONSTRAINT "fk_reservation_tables_reservation" FOREIGN KEY ("reservation_id") REFERENCES "reservations"("id") ON DELETE CASCADE;
+ALTER TABLE "reservation_tables" ADD CONSTRAINT "fk_reservation_tables_table" FOREIGN KEY ("table_id") REFERENCES "tables"("id");
+
+CREATE TABLE IF NOT EXISTS "reservation_deposits" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "reservation_id" UUID NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "status" "reservation_deposit_status" NOT NULL DEFAULT 'pending',
+    "provider" VARCHAR(20) NOT NULL,
+    "method" VARCHAR(30) NOT NULL,
+    "reference_number" VARCHAR(100) NOT NULL,
+    "gateway_ref" VARCHAR(255),
+    "payment_data" JSONB,
+    "expires_at" TIMESTAMPTZ,
+    "paid_at" TIMESTAMPTZ,
+    "transaction_id" UUID,
+    "applied_amount" DECIMAL(15,2),
+    "applied_at" TIMESTAMPTZ,
+    "refunded_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "reservation_deposits_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "reservation_deposits_reservation_id_key" ON "reservation_deposits"("reservation_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "reservation_deposits_reference_number_key" ON "reservation_deposits"("reference_number");
+CREATE INDEX IF NOT EXISTS "idx_reservation_deposits_status" ON "reservation_deposits"("status", "expires_at");
+CREATE INDEX IF NOT EXISTS "idx_reservation_deposits_transaction" ON "reservation_deposits"("transaction_id");
+
+ALTER TABLE "reservation_deposits" ADD CONSTRAINT "fk_reservation_deposits_reservation" FOREIGN KEY ("reservation_id") REFERENCES "reservations"("id") ON DELETE CASCADE;
+ALTER TABLE "reservation_deposits" ADD CONSTRAINT "fk_reservation_deposits_transaction" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id");
+
+-- Move reservations kept in the waiting list over, with the fixed two-hour
+-- slot they used to block
+INSERT INTO "reservations" (
+    "id", "outlet_id", "customer_name", "customer_phone", "party_size", "starts_at", "ends_at",
+    "duration_minutes", "status", "notes", "arrived_at", "created_at", "updated_at"
+)
+SELECT
+    "id",
+    "outlet_id",
+    "customer_name",
+    COALESCE("customer_phone", ''),
+    "party_size",
+    "queued_at",
+    "queued_at" + INTERVAL '120 minutes',
+    120,
+    (CASE "status"
+        WHEN 'seated' THEN 'seated'
+        WHEN 'cancelled' THEN 'cancelled'
+        WHEN 'no_show' THEN 'no_show'
+        ELSE 'confirmed'
+    END)::"reservation_status",
+    NULLIF(btrim(substr("notes", length('[RESERVATION]') + 1)), ''),
+    "seated_at",
+    "created_at",
+    "created_at"
+FROM "waiting_list"
+WHERE "notes" LIKE '[RESERVATION]%'
+ON CONFLICT ("id") DO NOTHING;
+
+INSERT INTO "reservation_tables" ("reservation_id", "table_id")
+SELECT "id", "table_id"
+FROM "waiting_list"
+WHERE "notes" LIKE '[RESERVATION]%' AND "table_id" IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+DELETE FROM "waiting_list" WHERE "notes" LIKE '[RESERVATION]%';
@@ -0,0 +1,72 @@
+-- Gap-free document numbering: per-outlet series, the number ledger and offline blocks
+
+CREATE TYPE "document_type" AS ENUM ('sale', 'refund', 'void', 'credit_note');
+CREATE TYPE "numbering_reset_period" AS ENUM ('never', 'daily', 'monthly', 'yearly');
+CREATE TYPE "document_number_status" AS ENUM ('issued', 'reserved', 'unused');
+CREATE TYPE "number_block_status" AS ENUM ('active', 'released', 'expired');
+
+ALTER TABLE "transactions" ADD COLUMN IF NOT EXISTS "void_number" VARCHAR(50);
+CREATE UNIQUE INDEX IF NOT EXISTS "transactions_void_number_key" ON "transactions"("void_number");
+
+CREATE TABLE IF NOT EXISTS "numbering_series" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "outlet_id" UUID NOT NULL,
+    "document_type" "document_type" NOT NULL,
+    "prefix" VARCHAR(20) NOT NULL,
+    "format" VARCHAR(100) NOT NULL,
+    "padding" INTEGER NOT NULL DEFAULT 5,
+    "reset_period" "numbering_reset_period" NOT NULL DEFAULT 'monthly',
+    "current_period" VARCHAR(8) NOT NULL DEFAULT '',
+    "last_number" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "numbering_series_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_numbering_series_outlet_type" ON "numbering_series"("outlet_id", "document_type");
+
+ALTER TABLE "numbering_series" ADD CONSTRAINT "fk_numbering_series_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+
+CREATE TABLE IF NOT EXISTS "number_blocks" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "series_id" UUID NOT NULL,
+    "device_id" UUID NOT NULL,
+    "period" VARCHAR(8) NOT NULL,
+    "start_sequence" INTEGER NOT NULL,
+    "end_sequence" INTEGER NOT NULL,
+    "status" "number_block_status" NOT NULL DEFAULT 'active',
+    "expires_at" TIMESTAMPTZ NOT NULL,
+    "closed_at" TIMESTAMPTZ,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "number_blocks_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_number_blocks_device" ON "number_blocks"("device_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_number_blocks_expiry" ON "number_blocks"("status", "expires_at");
+
+ALTER TABLE "number_blocks" ADD CONSTRAINT "fk_number_blocks_series" FOREIGN KEY ("series_id") REFERENCES "numbering_series"("id");
+ALTER TABLE "number_blocks" ADD CONSTRAINT "fk_number_blocks_device" FOREIGN KEY ("device_id") REFERENCES "devices"("id");
+
+-- One row per number handed out, so a missing sequence is visible
+CREATE TABLE IF NOT EXISTS "document_numbers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "series_id" UUID NOT NULL,
+    "period" VARCHAR(8) NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "number" VARCHAR(50) NOT NULL,
+    "status" "document_number_status" NOT NULL DEFAULT 'issued',
+    "document_id" UUID,
+    "block_id" UUID,
+    "issued_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "document_numbers_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "document_numbers_number_key" ON "document_numbers"("number");
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_document_numbers_sequence" ON "document_numbers"("series_id", "period", "sequence");
+CREATE INDEX IF NOT EXISTS "idx_document_numbers_block" ON "document_numbers"("block_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_document_numbers_document" ON "document_numbers"("document_id");
+
+ALTER TABLE "document_numbers" ADD CONSTRAINT "fk_document_numbers_series" FOREIGN KEY ("series_id") REFERENCES "numbering_series"("id");
+ALTER TABLE "document_numbers" ADD CONSTRAINT "fk_document_numbers_block" FOREIGN KEY ("block_id") REFERENCES "number_blocks"("id");
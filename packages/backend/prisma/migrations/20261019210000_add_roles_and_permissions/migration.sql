@@ -0,0 +1,36 @@
+-- Permission-based roles: per-business overrides of the built-in roles,
+-- custom roles, and role assignments per employee and outlet
+
+CREATE TABLE IF NOT EXISTS "roles" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "description" VARCHAR(255),
+    "base_role" "employee_role",
+    "permissions" JSONB NOT NULL DEFAULT '[]',
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "roles_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_roles_business_name" ON "roles"("business_id", "name");
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_roles_business_base_role" ON "roles"("business_id", "base_role");
+
+ALTER TABLE "roles" ADD CONSTRAINT "fk_roles_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+
+CREATE TABLE IF NOT EXISTS "employee_role_assignments" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "employee_id" UUID NOT NULL,
+    "role_id" UUID NOT NULL,
+    "outlet_id" UUID,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "employee_role_assignments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_role_assignments_employee" ON "employee_role_assignments"("employee_id");
+CREATE INDEX IF NOT EXISTS "idx_role_assignments_role" ON "employee_role_assignments"("role_id");
+
+ALTER TABLE "employee_role_assignments" ADD CONSTRAINT "fk_role_assignments_employee" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE;
+ALTER TABLE "employee_role_assignments" ADD CONSTRAINT "fk_role_assignments_role" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE CASCADE;
+ALTER TABLE "employee_role_assignments" ADD CONSTRAINT "fk_role_assignments_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id") ON DELETE CASCADE;
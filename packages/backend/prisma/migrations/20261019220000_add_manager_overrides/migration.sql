@@ -0,0 +1,28 @@
+-- Manager overrides: supervisor approvals (PIN or TOTP) of restricted POS
+-- actions, redeemed once by the requesting cashier
+
+CREATE TABLE IF NOT EXISTS "manager_overrides" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "outlet_id" UUID NOT NULL,
+    "action" VARCHAR(30) NOT NULL,
+    "requested_by" UUID NOT NULL,
+    "approved_by" UUID NOT NULL,
+    "method" VARCHAR(10) NOT NULL,
+    "token_hash" VARCHAR(64) NOT NULL,
+    "reference_id" UUID,
+    "reason" TEXT,
+    "expires_at" TIMESTAMPTZ NOT NULL,
+    "used_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "manager_overrides_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_manager_overrides_token" ON "manager_overrides"("token_hash");
+CREATE INDEX IF NOT EXISTS "idx_manager_overrides_outlet" ON "manager_overrides"("outlet_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_manager_overrides_approver" ON "manager_overrides"("approved_by");
+
+ALTER TABLE "manager_overrides" ADD CONSTRAINT "fk_manager_overrides_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "manager_overrides" ADD CONSTRAINT "fk_manager_overrides_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "manager_overrides" ADD CONSTRAINT "fk_manager_overrides_requester" FOREIGN KEY ("requested_by") REFERENCES "employees"("id");
+ALTER TABLE "manager_overrides" ADD CONSTRAINT "fk_manager_overrides_approver" FOREIGN KEY ("approved_by") REFERENCES "employees"("id");
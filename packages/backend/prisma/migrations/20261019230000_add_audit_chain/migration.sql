@@ -0,0 +1,60 @@
+-- Tamper-evident audit log: per-business hash chain over audit_logs, signed
+-- checkpoints, archives written by the retention policy
+
+ALTER TABLE "audit_logs" ADD COLUMN IF NOT EXISTS "sequence" INTEGER;
+ALTER TABLE "audit_logs" ADD COLUMN IF NOT EXISTS "prev_hash" VARCHAR(64);
+ALTER TABLE "audit_logs" ADD COLUMN IF NOT EXISTS "hash" VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_audit_business_sequence" ON "audit_logs"("business_id", "sequence");
+
+CREATE TABLE IF NOT EXISTS "audit_chain_heads" (
+    "business_id" UUID NOT NULL,
+    "last_sequence" INTEGER NOT NULL DEFAULT 0,
+    "last_hash" VARCHAR(64) NOT NULL,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "audit_chain_heads_pkey" PRIMARY KEY ("business_id")
+);
+
+CREATE TABLE IF NOT EXISTS "audit_checkpoints" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "hash" VARCHAR(64) NOT NULL,
+    "signature" VARCHAR(64) NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "audit_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_audit_checkpoints_sequence" ON "audit_checkpoints"("business_id", "sequence");
+
+CREATE TABLE IF NOT EXISTS "audit_archives" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "from_sequence" INTEGER NOT NULL,
+    "to_sequence" INTEGER NOT NULL,
+    "entry_count" INTEGER NOT NULL,
+    "first_entry_at" TIMESTAMPTZ NOT NULL,
+    "last_entry_at" TIMESTAMPTZ NOT NULL,
+    "last_hash" VARCHAR(64) NOT NULL,
+    "file_path" VARCHAR(500) NOT NULL,
+    "file_hash" VARCHAR(64) NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "audit_archives_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_audit_archives_to_sequence" ON "audit_archives"("business_id", "to_sequence");
+
+CREATE TABLE IF NOT EXISTS "audit_retention_policies" (
+    "business_id" UUID NOT NULL,
+    "retention_days" INTEGER NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "updated_by" UUID,
+    "last_run_at" TIMESTAMPTZ,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "audit_retention_policies_pkey" PRIMARY KEY ("business_id")
+);
+
+ALTER TABLE "audit_chain_heads" ADD CONSTRAINT "fk_audit_chain_heads_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "audit_checkpoints" ADD CONSTRAINT "fk_audit_checkpoints_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "audit_archives" ADD CONSTRAINT "fk_audit_archives_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "audit_retention_policies" ADD CONSTRAINT "fk_audit_retention_policies_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
@@ -0,0 +1,60 @@
+-- Cash management: denomination counts and blind close on shifts, witnessed
+-- safe drops and pickups, bank deposit slips reconciling closed shifts
+
+ALTER TABLE "shifts" ADD COLUMN IF NOT EXISTS "opening_count" JSONB;
+ALTER TABLE "shifts" ADD COLUMN IF NOT EXISTS "closing_count" JSONB;
+ALTER TABLE "shifts" ADD COLUMN IF NOT EXISTS "blind_close" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "shifts" ADD COLUMN IF NOT EXISTS "bank_deposit_id" UUID;
+
+CREATE TABLE IF NOT EXISTS "shift_cash_movements" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_id" UUID NOT NULL,
+    "outlet_id" UUID NOT NULL,
+    "type" VARCHAR(10) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "denominations" JSONB,
+    "reason" VARCHAR(255) NOT NULL,
+    "notes" TEXT,
+    "performed_by" UUID NOT NULL,
+    "witnessed_by" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "shift_cash_movements_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_cash_movements_shift" ON "shift_cash_movements"("shift_id");
+CREATE INDEX IF NOT EXISTS "idx_cash_movements_outlet" ON "shift_cash_movements"("outlet_id", "created_at");
+
+CREATE TABLE IF NOT EXISTS "bank_deposits" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "outlet_id" UUID NOT NULL,
+    "slip_number" VARCHAR(50) NOT NULL,
+    "bank_name" VARCHAR(100) NOT NULL,
+    "account_number" VARCHAR(50),
+    "deposited_at" TIMESTAMPTZ NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "expected_amount" DECIMAL(15,2) NOT NULL,
+    "difference" DECIMAL(15,2) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'submitted',
+    "notes" TEXT,
+    "prepared_by" UUID NOT NULL,
+    "verified_by" UUID,
+    "verified_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "bank_deposits_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_bank_deposits_slip" ON "bank_deposits"("outlet_id", "slip_number");
+CREATE INDEX IF NOT EXISTS "idx_bank_deposits_business" ON "bank_deposits"("business_id", "deposited_at");
+CREATE INDEX IF NOT EXISTS "idx_shifts_bank_deposit" ON "shifts"("bank_deposit_id");
+
+ALTER TABLE "shift_cash_movements" ADD CONSTRAINT "fk_cash_movements_shift" FOREIGN KEY ("shift_id") REFERENCES "shifts"("id");
+ALTER TABLE "shift_cash_movements" ADD CONSTRAINT "fk_cash_movements_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "shift_cash_movements" ADD CONSTRAINT "fk_cash_movements_performer" FOREIGN KEY ("performed_by") REFERENCES "employees"("id");
+ALTER TABLE "shift_cash_movements" ADD CONSTRAINT "fk_cash_movements_witness" FOREIGN KEY ("witnessed_by") REFERENCES "employees"("id");
+ALTER TABLE "bank_deposits" ADD CONSTRAINT "fk_bank_deposits_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "bank_deposits" ADD CONSTRAINT "fk_bank_deposits_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "bank_deposits" ADD CONSTRAINT "fk_bank_deposits_preparer" FOREIGN KEY ("prepared_by") REFERENCES "employees"("id");
+ALTER TABLE "bank_deposits" ADD CONSTRAINT "fk_bank_deposits_verifier" FOREIGN KEY ("verified_by") REFERENCES "employees"("id");
+ALTER TABLE "shifts" ADD CONSTRAINT "fk_shifts_bank_deposit" FOREIGN KEY ("bank_deposit_id") REFERENCES "bank_deposits"("id");
@@ -0,0 +1,74 @@
+-- Device-level cash drawers: drawer sessions that shifts bind to, cashier
+-- hand-off inside a session, and drawer-open events reported by terminals
+
+ALTER TABLE "shifts" ADD COLUMN IF NOT EXISTS "drawer_session_id" UUID;
+ALTER TABLE "shifts" ADD COLUMN IF NOT EXISTS "shared_drawer" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS "cash_drawers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "outlet_id" UUID NOT NULL,
+    "device_id" UUID NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_z_number" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "cash_drawers_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_cash_drawers_device_name" ON "cash_drawers"("device_id", "name");
+CREATE INDEX IF NOT EXISTS "idx_cash_drawers_outlet" ON "cash_drawers"("outlet_id");
+
+CREATE TABLE IF NOT EXISTS "drawer_sessions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "drawer_id" UUID NOT NULL,
+    "outlet_id" UUID NOT NULL,
+    "status" VARCHAR(10) NOT NULL DEFAULT 'open',
+    "opening_cash" DECIMAL(15,2) NOT NULL,
+    "opening_count" JSONB,
+    "closing_cash" DECIMAL(15,2),
+    "closing_count" JSONB,
+    "expected_cash" DECIMAL(15,2),
+    "cash_difference" DECIMAL(15,2),
+    "z_number" INTEGER,
+    "opened_by" UUID NOT NULL,
+    "closed_by" UUID,
+    "opened_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMPTZ,
+    CONSTRAINT "drawer_sessions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_drawer_sessions_drawer" ON "drawer_sessions"("drawer_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_drawer_sessions_outlet" ON "drawer_sessions"("outlet_id", "opened_at");
+CREATE INDEX IF NOT EXISTS "idx_shifts_drawer_session" ON "shifts"("drawer_session_id");
+
+CREATE TABLE IF NOT EXISTS "drawer_events" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "drawer_id" UUID NOT NULL,
+    "session_id" UUID,
+    "shift_id" UUID,
+    "employee_id" UUID NOT NULL,
+    "type" VARCHAR(20) NOT NULL,
+    "reference" VARCHAR(100),
+    "reason" VARCHAR(255),
+    "occurred_at" TIMESTAMPTZ NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "drawer_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_drawer_events_session" ON "drawer_events"("session_id");
+CREATE INDEX IF NOT EXISTS "idx_drawer_events_drawer" ON "drawer_events"("drawer_id", "occurred_at");
+
+ALTER TABLE "cash_drawers" ADD CONSTRAINT "fk_cash_drawers_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "cash_drawers" ADD CONSTRAINT "fk_cash_drawers_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "cash_drawers" ADD CONSTRAINT "fk_cash_drawers_device" FOREIGN KEY ("device_id") REFERENCES "devices"("id");
+ALTER TABLE "drawer_sessions" ADD CONSTRAINT "fk_drawer_sessions_drawer" FOREIGN KEY ("drawer_id") REFERENCES "cash_drawers"("id");
+ALTER TABLE "drawer_sessions" ADD CONSTRAINT "fk_drawer_sessions_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "drawer_sessions" ADD CONSTRAINT "fk_drawer_sessions_opener" FOREIGN KEY ("opened_by") REFERENCES "employees"("id");
+ALTER TABLE "drawer_sessions" ADD CONSTRAINT "fk_drawer_sessions_closer" FOREIGN KEY ("closed_by") REFERENCES "employees"("id");
+ALTER TABLE "shifts" ADD CONSTRAINT "fk_shifts_drawer_session" FOREIGN KEY ("drawer_session_id") REFERENCES "drawer_sessions"("id");
+ALTER TABLE "drawer_events" ADD CONSTRAINT "fk_drawer_events_drawer" FOREIGN KEY ("drawer_id") REFERENCES "cash_drawers"("id");
+ALTER TABLE "drawer_events" ADD CONSTRAINT "fk_drawer_events_session" FOREIGN KEY ("session_id") REFERENCES "drawer_sessions"("id");
+ALTER TABLE "drawer_events" ADD CONSTRAINT "fk_drawer_events_shift" FOREIGN KEY ("shift_id") REFERENCES "shifts"("id");
+ALTER TABLE "drawer_events" ADD CONSTRAINT "fk_drawer_events_employee" FOREIGN KEY ("employee_id") REFERENCES "employees"("id");
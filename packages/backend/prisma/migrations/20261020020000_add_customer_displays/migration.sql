@@ -0,0 +1,22 @@
+-- Customer-facing displays paired to a terminal by a short-lived code
+
+CREATE TABLE IF NOT EXISTS "customer_displays" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "device_id" UUID NOT NULL,
+    "pair_code" VARCHAR(6),
+    "pair_code_expires_at" TIMESTAMPTZ,
+    "token_hash" VARCHAR(64),
+    "paired_at" TIMESTAMPTZ,
+    "last_seen_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "customer_displays_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "customer_displays_device_id_key" ON "customer_displays"("device_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "customer_displays_pair_code_key" ON "customer_displays"("pair_code");
+CREATE INDEX IF NOT EXISTS "idx_customer_displays_business" ON "customer_displays"("business_id");
+
+ALTER TABLE "customer_displays" ADD CONSTRAINT "fk_customer_displays_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "customer_displays" ADD CONSTRAINT "fk_customer_displays_device" FOREIGN KEY ("device_id") REFERENCES "devices"("id");
@@ -0,0 +1,42 @@
+-- Self-checkout kiosks: kiosk devices, their shifts and customer sessions
+
+ALTER TYPE "device_type" ADD VALUE IF NOT EXISTS 'kiosk';
+
+CREATE TYPE "kiosk_session_status" AS ENUM ('active', 'awaiting_payment', 'completed', 'abandoned');
+
+-- Age-restricted products need an attendant at a kiosk
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "minimum_age" INTEGER;
+
+-- Shifts opened for a kiosk device
+ALTER TABLE "shifts" ADD COLUMN IF NOT EXISTS "device_id" UUID;
+CREATE INDEX IF NOT EXISTS "idx_shifts_device" ON "shifts"("device_id");
+ALTER TABLE "shifts" ADD CONSTRAINT "fk_shifts_device" FOREIGN KEY ("device_id") REFERENCES "devices"("id");
+
+CREATE TABLE IF NOT EXISTS "kiosk_sessions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "outlet_id" UUID NOT NULL,
+    "device_id" UUID NOT NULL,
+    "shift_id" UUID NOT NULL,
+    "status" "kiosk_session_status" NOT NULL DEFAULT 'active',
+    "customer_id" UUID,
+    "cart" JSONB,
+    "amount" DECIMAL(15,2),
+    "payment_method" "payment_method",
+    "payment_ref" VARCHAR(255),
+    "assist_reason" VARCHAR(255),
+    "assist_requested_at" TIMESTAMPTZ,
+    "transaction_id" UUID,
+    "started_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ended_at" TIMESTAMPTZ,
+    CONSTRAINT "kiosk_sessions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "kiosk_sessions_transaction_id_key" ON "kiosk_sessions"("transaction_id");
+CREATE INDEX IF NOT EXISTS "idx_kiosk_sessions_outlet" ON "kiosk_sessions"("outlet_id", "started_at");
+CREATE INDEX IF NOT EXISTS "idx_kiosk_sessions_device" ON "kiosk_sessions"("device_id");
+
+ALTER TABLE "kiosk_sessions" ADD CONSTRAINT "fk_kiosk_sessions_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
+ALTER TABLE "kiosk_sessions" ADD CONSTRAINT "fk_kiosk_sessions_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "kiosk_sessions" ADD CONSTRAINT "fk_kiosk_sessions_device" FOREIGN KEY ("device_id") REFERENCES "devices"("id");
+ALTER TABLE "kiosk_sessions" ADD CONSTRAINT "fk_kiosk_sessions_shift" FOREIGN KEY ("shift_id") REFERENCES "shifts"("id");
@@ -0,0 +1,8 @@
+-- Products sold by weight off a scale, in fractional quantities
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "is_weighed" BOOLEAN NOT NULL DEFAULT false;
+
+-- Products already sold in a weight unit were weighed all along
+UPDATE "products"
+SET "is_weighed" = true
+WHERE LOWER(TRIM("sell_unit")) IN ('kg', 'kilo', 'kilogram', 'g', 'gr', 'gram', 'ons', 'lb', 'oz');
@@ -0,0 +1,26 @@
+-- Business-issued API keys for the public API
+
+CREATE TABLE IF NOT EXISTS "api_keys" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "key_prefix" VARCHAR(20) NOT NULL,
+    "key_hash" VARCHAR(64) NOT NULL,
+    "scopes" TEXT[],
+    "outlet_ids" UUID[],
+    "rate_limit" INTEGER NOT NULL DEFAULT 120,
+    "expires_at" TIMESTAMPTZ,
+    "last_used_at" TIMESTAMPTZ,
+    "last_used_ip" VARCHAR(45),
+    "revoked_at" TIMESTAMPTZ,
+    "rotated_to_id" UUID,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "api_keys_key_hash_key" ON "api_keys"("key_hash");
+CREATE INDEX IF NOT EXISTS "idx_api_keys_business" ON "api_keys"("business_id");
+
+ALTER TABLE "api_keys" ADD CONSTRAINT "fk_api_keys_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id") ON DELETE CASCADE;
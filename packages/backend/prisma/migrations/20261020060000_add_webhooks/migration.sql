@@ -0,0 +1,49 @@
+-- Outbound webhooks: business endpoints subscribed to domain events, and one
+-- delivery row per event and endpoint
+-- Signing secrets are stored AES-256-GCM encrypted by the application layer
+
+CREATE TYPE "webhook_delivery_status" AS ENUM ('pending', 'retrying', 'delivered', 'dead');
+
+CREATE TABLE IF NOT EXISTS "webhook_endpoints" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "url" VARCHAR(500) NOT NULL,
+    "description" VARCHAR(255),
+    "events" TEXT[],
+    "secret" VARCHAR(255) NOT NULL,
+    "secret_hint" VARCHAR(10) NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "webhook_endpoints_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_webhook_endpoints_business" ON "webhook_endpoints"("business_id");
+
+ALTER TABLE "webhook_endpoints" ADD CONSTRAINT "fk_webhook_endpoints_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id") ON DELETE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "endpoint_id" UUID NOT NULL,
+    "business_id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "event_type" VARCHAR(50) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "webhook_delivery_status" NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "response_status" INTEGER,
+    "response_body" TEXT,
+    "latency_ms" INTEGER,
+    "error" TEXT,
+    "last_attempt_at" TIMESTAMPTZ,
+    "delivered_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_endpoint_created" ON "webhook_deliveries"("endpoint_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_business_status" ON "webhook_deliveries"("business_id", "status");
+
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "fk_webhook_deliveries_endpoint" FOREIGN KEY ("endpoint_id") REFERENCES "webhook_endpoints"("id") ON DELETE CASCADE;
@@ -0,0 +1,60 @@
+-- Multi-warehouse: non-selling stock locations, with zones and bins that
+-- track where a location's stock sits
+
+CREATE TYPE "outlet_location_type" AS ENUM ('store', 'warehouse');
+
+ALTER TABLE "outlets" ADD COLUMN IF NOT EXISTS "location_type" "outlet_location_type" NOT NULL DEFAULT 'store';
+
+CREATE TABLE IF NOT EXISTS "warehouse_zones" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "outlet_id" UUID NOT NULL,
+    "code" VARCHAR(20) NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "zone_type" VARCHAR(20) NOT NULL DEFAULT 'storage',
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "warehouse_zones_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_warehouse_zones_outlet_code" ON "warehouse_zones"("outlet_id", "code");
+
+ALTER TABLE "warehouse_zones" ADD CONSTRAINT "fk_warehouse_zones_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+
+CREATE TABLE IF NOT EXISTS "warehouse_bins" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "outlet_id" UUID NOT NULL,
+    "zone_id" UUID NOT NULL,
+    "code" VARCHAR(30) NOT NULL,
+    "pick_sequence" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "warehouse_bins_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_warehouse_bins_outlet_code" ON "warehouse_bins"("outlet_id", "code");
+CREATE INDEX IF NOT EXISTS "idx_warehouse_bins_zone" ON "warehouse_bins"("zone_id");
+
+ALTER TABLE "warehouse_bins" ADD CONSTRAINT "fk_warehouse_bins_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "warehouse_bins" ADD CONSTRAINT "fk_warehouse_bins_zone" FOREIGN KEY ("zone_id") REFERENCES "warehouse_zones"("id");
+
+CREATE TABLE IF NOT EXISTS "bin_stocks" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "bin_id" UUID NOT NULL,
+    "outlet_id" UUID NOT NULL,
+    "product_id" UUID NOT NULL,
+    "variant_id" UUID,
+    "quantity" DECIMAL(15,3) NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "bin_stocks_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_bin_stocks_bin_product_variant" ON "bin_stocks"("bin_id", "product_id", "variant_id");
+CREATE INDEX IF NOT EXISTS "idx_bin_stocks_outlet_product" ON "bin_stocks"("outlet_id", "product_id");
+
+ALTER TABLE "bin_stocks" ADD CONSTRAINT "fk_bin_stocks_bin" FOREIGN KEY ("bin_id") REFERENCES "warehouse_bins"("id") ON DELETE CASCADE;
+ALTER TABLE "bin_stocks" ADD CONSTRAINT "fk_bin_stocks_outlet" FOREIGN KEY ("outlet_id") REFERENCES "outlets"("id");
+ALTER TABLE "bin_stocks" ADD CONSTRAINT "fk_bin_stocks_product" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE;
+ALTER TABLE "bin_stocks" ADD CONSTRAINT "fk_bin_stocks_variant" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE CASCADE;
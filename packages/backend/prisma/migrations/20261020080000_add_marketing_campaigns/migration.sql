@@ -0,0 +1,97 @@
+-- Marketing campaigns: segment-targeted WhatsApp, email and SMS sends, one
+-- recipient row per customer and send, per-channel opt-outs, and the sales
+-- attributed to a campaign
+
+ALTER TYPE "notification_type" ADD VALUE IF NOT EXISTS 'marketing';
+
+CREATE TYPE "marketing_campaign_status" AS ENUM ('draft', 'scheduled', 'sending', 'active', 'paused', 'completed', 'cancelled');
+CREATE TYPE "marketing_campaign_trigger" AS ENUM ('birthday', 'lapsed', 'tier_upgraded');
+CREATE TYPE "campaign_recipient_status" AS ENUM ('queued', 'sent', 'failed', 'skipped');
+
+CREATE TABLE IF NOT EXISTS "marketing_campaigns" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "description" TEXT,
+    "templates" JSONB NOT NULL,
+    "audience" JSONB NOT NULL DEFAULT '{}',
+    "trigger" "marketing_campaign_trigger",
+    "lapsed_days" INTEGER,
+    "status" "marketing_campaign_status" NOT NULL DEFAULT 'draft',
+    "scheduled_at" TIMESTAMPTZ,
+    "started_at" TIMESTAMPTZ,
+    "completed_at" TIMESTAMPTZ,
+    "send_rate_per_minute" INTEGER NOT NULL DEFAULT 30,
+    "promotion_id" UUID,
+    "voucher_valid_days" INTEGER,
+    "attribution_window_days" INTEGER NOT NULL DEFAULT 7,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "marketing_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_marketing_campaigns_business_status" ON "marketing_campaigns"("business_id", "status");
+
+ALTER TABLE "marketing_campaigns" ADD CONSTRAINT "fk_marketing_campaigns_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id") ON DELETE CASCADE;
+ALTER TABLE "marketing_campaigns" ADD CONSTRAINT "fk_marketing_campaigns_promotion" FOREIGN KEY ("promotion_id") REFERENCES "promotions"("id");
+
+CREATE TABLE IF NOT EXISTS "campaign_recipients" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "campaign_id" UUID NOT NULL,
+    "business_id" UUID NOT NULL,
+    "customer_id" UUID NOT NULL,
+    "trigger_key" VARCHAR(50) NOT NULL DEFAULT '',
+    "channel" "notification_channel",
+    "status" "campaign_recipient_status" NOT NULL DEFAULT 'queued',
+    "message" TEXT,
+    "error" TEXT,
+    "voucher_id" UUID,
+    "unsubscribe_token" VARCHAR(64) NOT NULL,
+    "sent_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "campaign_recipients_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_campaign_recipients_customer" ON "campaign_recipients"("campaign_id", "customer_id", "trigger_key");
+CREATE UNIQUE INDEX IF NOT EXISTS "campaign_recipients_voucher_id_key" ON "campaign_recipients"("voucher_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "campaign_recipients_unsubscribe_token_key" ON "campaign_recipients"("unsubscribe_token");
+CREATE INDEX IF NOT EXISTS "idx_campaign_recipients_campaign_status" ON "campaign_recipients"("campaign_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_campaign_recipients_customer_sent" ON "campaign_recipients"("customer_id", "sent_at");
+
+ALTER TABLE "campaign_recipients" ADD CONSTRAINT "fk_campaign_recipients_campaign" FOREIGN KEY ("campaign_id") REFERENCES "marketing_campaigns"("id") ON DELETE CASCADE;
+ALTER TABLE "campaign_recipients" ADD CONSTRAINT "fk_campaign_recipients_customer" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE CASCADE;
+ALTER TABLE "campaign_recipients" ADD CONSTRAINT "fk_campaign_recipients_voucher" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id");
+
+CREATE TABLE IF NOT EXISTS "campaign_attributions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "campaign_id" UUID NOT NULL,
+    "recipient_id" UUID NOT NULL,
+    "transaction_id" UUID NOT NULL,
+    "revenue" DECIMAL(15,2) NOT NULL,
+    "voucher_redeemed" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "campaign_attributions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "campaign_attributions_transaction_id_key" ON "campaign_attributions"("transaction_id");
+CREATE INDEX IF NOT EXISTS "idx_campaign_attributions_campaign" ON "campaign_attributions"("campaign_id");
+
+ALTER TABLE "campaign_attributions" ADD CONSTRAINT "fk_campaign_attributions_campaign" FOREIGN KEY ("campaign_id") REFERENCES "marketing_campaigns"("id") ON DELETE CASCADE;
+ALTER TABLE "campaign_attributions" ADD CONSTRAINT "fk_campaign_attributions_recipient" FOREIGN KEY ("recipient_id") REFERENCES "campaign_recipients"("id") ON DELETE CASCADE;
+ALTER TABLE "campaign_attributions" ADD CONSTRAINT "fk_campaign_attributions_transaction" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "marketing_opt_outs" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "customer_id" UUID NOT NULL,
+    "channel" "notification_channel" NOT NULL,
+    "source" VARCHAR(20) NOT NULL DEFAULT 'staff',
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "marketing_opt_outs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_marketing_opt_outs_customer_channel" ON "marketing_opt_outs"("customer_id", "channel");
+CREATE INDEX IF NOT EXISTS "idx_marketing_opt_outs_business" ON "marketing_opt_outs"("business_id");
+
+ALTER TABLE "marketing_opt_outs" ADD CONSTRAINT "fk_marketing_opt_outs_customer" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE CASCADE;
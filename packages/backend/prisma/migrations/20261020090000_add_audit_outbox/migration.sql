@@ -0,0 +1,14 @@
+-- Audit entries written inside business transactions wait here and are
+-- appended to the hash chain after the transaction commits
+
+CREATE TABLE IF NOT EXISTS "audit_outbox" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "business_id" UUID NOT NULL,
+    "entry" JSONB NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "audit_outbox_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_audit_outbox_created" ON "audit_outbox"("created_at");
+
+ALTER TABLE "audit_outbox" ADD CONSTRAINT "fk_audit_outbox_business" FOREIGN KEY ("business_id") REFERENCES "businesses"("id");
@@ -1,7 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
-import { APP_GUARD } from '@nestjs/core';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { ScheduleModule } from '@nestjs/schedule';
 import { DatabaseModule } from './infrastructure/database/database.module';
 import { EventBusModule } from './infrastructure/events/event-bus.module';
@@ -47,8 +47,26 @@ import { SerialNumbersModule } from './modules/serial-numbers/serial-numbers.mod
 import { ItemTrackingModule } from './modules/item-tracking/item-tracking.module';
 import { PricingModule } from './modules/pricing/pricing.module';
 import { CreditModule } from './modules/credit/credit.module';
+import { GiftCardsModule } from './modules/gift-cards/gift-cards.module';
+import { SyncModule } from './modules/sync/sync.module';
+import { PrintingModule } from './modules/printing/printing.module';
+import { TaxInvoicesModule } from './modules/tax-invoices/tax-invoices.module';
+import { ReservationsModule } from './modules/reservations/reservations.module';
+import { NumberingModule } from './modules/numbering/numbering.module';
+import { PermissionsModule } from './modules/permissions/permissions.module';
+import { OverridesModule } from './modules/overrides/overrides.module';
 import { OnboardingModule } from './modules/onboarding/onboarding.module';
+import { IntegrationsModule } from './modules/integrations/integrations.module';
+import { CashManagementModule } from './modules/cash-management/cash-management.module';
+import { CustomerDisplayModule } from './modules/customer-display/customer-display.module';
+import { KioskModule } from './modules/kiosk/kiosk.module';
+import { ScalesModule } from './modules/scales/scales.module';
+import { PublicApiModule } from './modules/public-api/public-api.module';
+import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { WarehousesModule } from './modules/warehouses/warehouses.module';
+import { CampaignsModule } from './modules/campaigns/campaigns.module';
 import { BusinessScopeGuard } from './shared/guards/business-scope.guard';
+import { SubscriptionInterceptor } from './common/interceptors/subscription.interceptor';
 
 @Module({
   imports: [
@@ -101,7 +119,24 @@ import { BusinessScopeGuard } from './shared/guards/business-scope.guard';
     ItemTrackingModule,
     PricingModule,
     CreditModule,
+    GiftCardsModule,
+    SyncModule,
+    PrintingModule,
+    TaxInvoicesModule,
+    ReservationsModule,
+    NumberingModule,
+    PermissionsModule,
+    OverridesModule,
     OnboardingModule,
+    IntegrationsModule,
+    CashManagementModule,
+    CustomerDisplayModule,
+    KioskModule,
+    ScalesModule,
+    PublicApiModule,
+    WebhooksModule,
+    WarehousesModule,
+    CampaignsModule,
   ],
   providers: [
     {
@@ -112,6 +147,10 @@ import { BusinessScopeGuard } from './shared/guards/business-scope.guard';
       provide: APP_GUARD,
       useClass: BusinessScopeGuard,
     },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: SubscriptionInterceptor,
+    },
   ],
 })
 export class AppModule {}
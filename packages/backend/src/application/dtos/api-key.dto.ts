@@ -0,0 +1,89 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { API_KEY_SCOPES, type ApiKeyScope } from '../../modules/public-api/api-key.util';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'Accurate Online' })
+  @IsString()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({ enum: API_KEY_SCOPES, isArray: true, example: ['products:read', 'stock:read'] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes!: ApiKeyScope[];
+
+  @ApiPropertyOptional({ type: [String], description: 'Outlets the key may use; empty for all' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  outletIds?: string[];
+
+  @ApiPropertyOptional({ default: 120, description: 'Requests per minute' })
+  @IsOptional()
+  @IsInt()
+  @Min(10)
+  @Max(1000)
+  rateLimit?: number;
+
+  @ApiPropertyOptional({ description: 'When the key stops working; never when omitted' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class UpdateApiKeyDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ enum: API_KEY_SCOPES, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes?: ApiKeyScope[];
+
+  @ApiPropertyOptional({ type: [String], description: 'Outlets the key may use; empty for all' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  outletIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Requests per minute' })
+  @IsOptional()
+  @IsInt()
+  @Min(10)
+  @Max(1000)
+  rateLimit?: number;
+}
+
+export class RotateApiKeyDto {
+  @ApiPropertyOptional({
+    default: 24,
+    description: 'Hours the old key keeps working so the partner can switch; 0 stops it now',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(168)
+  graceHours?: number;
+}
@@ -1,4 +1,16 @@
-import { IsString, IsOptional, IsEnum, IsArray, IsDateString, IsUUID } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsDateString,
+  IsUUID,
+  IsInt,
+  IsBoolean,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 // ============================================================================
@@ -75,6 +87,38 @@ export class ComplianceExportDto {
   @IsOptional()
   @IsUUID()
   employeeId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by entity type, e.g. transaction or product' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  entityType?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by entity ID' })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+}
+
+// ============================================================================
+// Retention
+// ============================================================================
+
+export class UpdateAuditRetentionDto {
+  @ApiProperty({
+    description: 'Days entries stay in the database before they are archived to storage',
+    minimum: 90,
+    maximum: 3650,
+  })
+  @IsInt()
+  @Min(90)
+  @Max(3650)
+  retentionDays!: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
 }
 
 // ============================================================================
@@ -109,3 +153,38 @@ export interface ComplianceExportResult {
   data: string; // CSV string or JSON string
   generatedAt: Date;
 }
+
+// ============================================================================
+// Chain Verification Result
+// ============================================================================
+
+export type AuditChainIssueType =
+  | 'missing_entries'
+  | 'link_broken'
+  | 'hash_mismatch'
+  | 'head_mismatch'
+  | 'checkpoint_mismatch'
+  | 'checkpoint_signature'
+  | 'unchained_entries';
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  sequence: number | null;
+  entryId: string | null;
+  description: string;
+}
+
+export interface AuditVerificationResult {
+  valid: boolean;
+  checkedEntries: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  headSequence: number;
+  archivedThrough: number | null;
+  checkpointsChecked: number;
+  signaturesVerified: boolean;
+  issueCount: number;
+  /** The first issues found; issueCount has the total */
+  issues: AuditChainIssue[];
+  verifiedAt: Date;
+}
@@ -0,0 +1,256 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  CampaignRecipientStatus,
+  MarketingCampaignStatus,
+  MarketingCampaignTrigger,
+} from '@prisma/client';
+import {
+  CAMPAIGN_CHANNELS,
+  CAMPAIGN_SEGMENTS,
+  type CampaignChannel,
+} from '../../modules/campaigns/campaign-template.util';
+import type { SegmentName } from '../../modules/customers/customers.types';
+
+export class CampaignTemplateDto {
+  @ApiProperty({ enum: CAMPAIGN_CHANNELS })
+  @IsIn(CAMPAIGN_CHANNELS)
+  channel!: CampaignChannel;
+
+  @ApiPropertyOptional({ example: 'A treat for you, {{first_name}}' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  subject?: string;
+
+  @ApiProperty({
+    example: 'Hi {{first_name}}, show {{voucher_code}} at the counter before {{voucher_expiry}}.',
+  })
+  @IsString()
+  @MaxLength(2000)
+  body!: string;
+}
+
+export class CampaignAudienceDto {
+  @ApiPropertyOptional({ enum: CAMPAIGN_SEGMENTS })
+  @IsOptional()
+  @IsIn(CAMPAIGN_SEGMENTS)
+  segment?: SegmentName;
+
+  @ApiPropertyOptional({ example: ['gold', 'platinum'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  loyaltyTiers?: string[];
+
+  @ApiPropertyOptional({ example: 500000 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minTotalSpent?: number;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minVisitCount?: number;
+}
+
+export class CreateCampaignDto {
+  @ApiProperty({ example: 'Birthday treat' })
+  @IsString()
+  @MaxLength(255)
+  name!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    type: [CampaignTemplateDto],
+    description:
+      'In order of preference; each customer gets the first channel they can be reached on',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(CAMPAIGN_CHANNELS.length)
+  @ValidateNested({ each: true })
+  @Type(() => CampaignTemplateDto)
+  templates!: CampaignTemplateDto[];
+
+  @ApiPropertyOptional({ type: CampaignAudienceDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CampaignAudienceDto)
+  audience?: CampaignAudienceDto;
+
+  @ApiPropertyOptional({
+    enum: MarketingCampaignTrigger,
+    description: 'Leave out for a one-off broadcast',
+  })
+  @IsOptional()
+  @IsIn(Object.values(MarketingCampaignTrigger))
+  trigger?: MarketingCampaignTrigger;
+
+  @ApiPropertyOptional({ description: 'Days without a visit for the lapsed trigger', default: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(7)
+  @Max(365)
+  lapsedDays?: number;
+
+  @ApiPropertyOptional({ description: 'Broadcasts only; sent on launch when left out' })
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string;
+
+  @ApiPropertyOptional({ default: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(600)
+  sendRatePerMinute?: number;
+
+  @ApiPropertyOptional({ description: 'Gives every recipient a single-use voucher of it' })
+  @IsOptional()
+  @IsUUID()
+  promotionId?: string;
+
+  @ApiPropertyOptional({ description: 'Voucher expiry in days after sending' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  voucherValidDays?: number;
+
+  @ApiPropertyOptional({ default: 7 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  attributionWindowDays?: number;
+}
+
+export class UpdateCampaignDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ type: [CampaignTemplateDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(CAMPAIGN_CHANNELS.length)
+  @ValidateNested({ each: true })
+  @Type(() => CampaignTemplateDto)
+  templates?: CampaignTemplateDto[];
+
+  @ApiPropertyOptional({ type: CampaignAudienceDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CampaignAudienceDto)
+  audience?: CampaignAudienceDto;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(7)
+  @Max(365)
+  lapsedDays?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(600)
+  sendRatePerMinute?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  voucherValidDays?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  attributionWindowDays?: number;
+}
+
+export class CampaignQueryDto {
+  @ApiPropertyOptional({ enum: MarketingCampaignStatus })
+  @IsOptional()
+  @IsIn(Object.values(MarketingCampaignStatus))
+  status?: MarketingCampaignStatus;
+}
+
+export class CampaignRecipientQueryDto {
+  @ApiPropertyOptional({ enum: CampaignRecipientStatus })
+  @IsOptional()
+  @IsIn(Object.values(CampaignRecipientStatus))
+  status?: CampaignRecipientStatus;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class CreateMarketingOptOutDto {
+  @ApiProperty()
+  @IsUUID()
+  customerId!: string;
+
+  @ApiProperty({ enum: CAMPAIGN_CHANNELS })
+  @IsIn(CAMPAIGN_CHANNELS)
+  channel!: CampaignChannel;
+}
+
+export class MarketingOptOutQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+}
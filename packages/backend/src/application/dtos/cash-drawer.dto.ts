@@ -31,3 +31,17 @@ export class CashOutDto {
   @IsOptional()
   notes?: string;
 }
+
+export class OpenCashDrawerDto {
+  @IsString()
+  @IsNotEmpty()
+  shiftId!: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  @IsString()
+  @IsOptional()
+  approvalToken?: string;
+}
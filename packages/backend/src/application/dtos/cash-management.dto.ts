@@ -0,0 +1,273 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RUPIAH_DENOMINATIONS } from '../../modules/cash-management/cash-count.util';
+
+export const CASH_MOVEMENT_TYPES = ['drop', 'pickup'] as const;
+export type CashMovementType = (typeof CASH_MOVEMENT_TYPES)[number];
+
+export const BANK_DEPOSIT_STATUSES = ['submitted', 'verified'] as const;
+
+export class DenominationCountDto {
+  @ApiProperty({ enum: RUPIAH_DENOMINATIONS, example: 50000 })
+  @IsIn(RUPIAH_DENOMINATIONS)
+  value!: number;
+
+  @ApiProperty({ example: 4 })
+  @IsInt()
+  @Min(0)
+  @Max(100000)
+  count!: number;
+}
+
+export class RecordCashMovementDto {
+  @ApiProperty()
+  @IsUUID()
+  shiftId!: string;
+
+  @ApiProperty({
+    enum: CASH_MOVEMENT_TYPES,
+    description: 'drop: the cashier moves cash to the safe; pickup: a supervisor collects it',
+  })
+  @IsIn(CASH_MOVEMENT_TYPES)
+  type!: CashMovementType;
+
+  @ApiPropertyOptional({ description: 'Required unless denominations are given' })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  amount?: number;
+
+  @ApiPropertyOptional({ type: [DenominationCountDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(RUPIAH_DENOMINATIONS.length)
+  @ValidateNested({ each: true })
+  @Type(() => DenominationCountDto)
+  denominations?: DenominationCountDto[];
+
+  @ApiProperty({ example: 'Drawer above Rp 2.000.000' })
+  @IsString()
+  @MaxLength(255)
+  reason!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @ApiProperty({ description: 'Employee who watched the cash being counted' })
+  @IsUUID()
+  witnessId!: string;
+
+  @ApiProperty({ example: '123456', description: "The witness's 6-digit PIN" })
+  @Matches(/^\d{6}$/, { message: 'PIN must be exactly 6 digits' })
+  witnessPin!: string;
+}
+
+export class CashSettingsDto {
+  @ApiPropertyOptional({ description: 'Hide the expected amount from the cashier at close' })
+  @IsOptional()
+  @IsBoolean()
+  blindClose?: boolean;
+
+  @ApiPropertyOptional({
+    default: 0,
+    description: 'Over or short by no more than this is treated as balanced',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  overShortTolerance?: number;
+}
+
+export class OverShortQueryDto {
+  @ApiProperty({ example: '2026-10-01' })
+  @IsDateString()
+  from!: string;
+
+  @ApiProperty({ example: '2026-10-31' })
+  @IsDateString()
+  to!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  employeeId?: string;
+}
+
+export class CreateBankDepositDto {
+  @ApiProperty()
+  @IsUUID()
+  outletId!: string;
+
+  @ApiProperty({ description: 'Closed shifts whose cash the deposit carries' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID('all', { each: true })
+  shiftIds!: string[];
+
+  @ApiProperty({ example: 'SETOR-000123' })
+  @IsString()
+  @MaxLength(50)
+  slipNumber!: string;
+
+  @ApiProperty({ example: 'BCA' })
+  @IsString()
+  @MaxLength(100)
+  bankName!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  accountNumber?: string;
+
+  @ApiProperty()
+  @IsDateString()
+  depositedAt!: string;
+
+  @ApiProperty({ description: 'Amount on the slip' })
+  @IsNumber()
+  @IsPositive()
+  amount!: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class BankDepositQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiPropertyOptional({ enum: BANK_DEPOSIT_STATUSES })
+  @IsOptional()
+  @IsIn(BANK_DEPOSIT_STATUSES)
+  status?: (typeof BANK_DEPOSIT_STATUSES)[number];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+// ==================== Cash drawers ====================
+
+export const DRAWER_EVENT_TYPES = [
+  'sale',
+  'refund',
+  'no_sale',
+  'cash_in',
+  'cash_out',
+  'drop',
+  'pickup',
+  'count',
+  'test',
+] as const;
+export type DrawerEventType = (typeof DRAWER_EVENT_TYPES)[number];
+
+export class CreateCashDrawerDto {
+  @ApiProperty({ description: 'Terminal the drawer is attached to' })
+  @IsUUID()
+  deviceId!: string;
+
+  @ApiProperty({ example: 'Laci 1' })
+  @IsString()
+  @MaxLength(100)
+  name!: string;
+}
+
+export class UpdateCashDrawerDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class DrawerHandOffDto {
+  @ApiProperty({ description: 'Cashier taking over the drawer' })
+  @IsUUID()
+  toEmployeeId!: string;
+
+  @ApiProperty({ example: '123456', description: "The incoming cashier's 6-digit PIN" })
+  @Matches(/^\d{6}$/, { message: 'PIN must be exactly 6 digits' })
+  toEmployeePin!: string;
+
+  @ApiPropertyOptional({
+    description: 'Sub-count of the drawer; required unless counted by denomination',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  countedCash?: number;
+
+  @ApiPropertyOptional({ type: [DenominationCountDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => DenominationCountDto)
+  count?: DenominationCountDto[];
+}
+
+export class LogDrawerEventDto {
+  @ApiProperty({ enum: DRAWER_EVENT_TYPES })
+  @IsIn(DRAWER_EVENT_TYPES)
+  type!: DrawerEventType;
+
+  @ApiPropertyOptional({ description: 'Transaction or receipt number the drawer opened for' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+
+  @ApiPropertyOptional({ description: 'When the terminal opened the drawer; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  occurredAt?: string;
+}
@@ -0,0 +1,204 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const CUSTOMER_DISPLAY_STAGES = ['idle', 'cart', 'payment', 'thank_you'] as const;
+export type CustomerDisplayStage = (typeof CUSTOMER_DISPLAY_STAGES)[number];
+
+export class CustomerDisplaySettingsDto {
+  @ApiPropertyOptional({ type: [String], description: 'Image URLs rotated while idle' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @MaxLength(500, { each: true })
+  idleImages?: string[];
+
+  @ApiPropertyOptional({ example: 8 })
+  @IsOptional()
+  @IsInt()
+  @Min(3)
+  @Max(120)
+  slideSeconds?: number;
+
+  @ApiPropertyOptional({ example: 8 })
+  @IsOptional()
+  @IsInt()
+  @Min(3)
+  @Max(60)
+  thankYouSeconds?: number;
+
+  @ApiPropertyOptional({ nullable: true, example: 'Selamat datang!' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  welcomeMessage?: string | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Static QRIS payload of the outlet' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  qrisPayload?: string | null;
+}
+
+export class CustomerDisplayLineDto {
+  @ApiProperty({ example: 'Es Kopi Susu' })
+  @IsString()
+  @MaxLength(255)
+  name!: string;
+
+  @ApiPropertyOptional({ example: 'Large' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  variantName?: string;
+
+  @ApiPropertyOptional({ type: [String], example: ['Extra shot'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  modifiers?: string[];
+
+  @ApiProperty({ example: 2 })
+  @IsNumber()
+  @Min(0)
+  quantity!: number;
+
+  @ApiProperty({ example: 25000 })
+  @IsNumber()
+  @Min(0)
+  unitPrice!: number;
+
+  @ApiPropertyOptional({ description: 'Catalog price when the line sells below it' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  originalPrice?: number;
+
+  @ApiProperty({ example: 50000 })
+  @IsNumber()
+  @Min(0)
+  total!: number;
+}
+
+export class CustomerDisplayPromotionDto {
+  @ApiProperty({ example: 'Diskon 10%' })
+  @IsString()
+  @MaxLength(100)
+  label!: string;
+
+  @ApiProperty({ example: 5000 })
+  @IsNumber()
+  @Min(0)
+  amount!: number;
+}
+
+export class CustomerDisplayStateDto {
+  @ApiProperty({ enum: CUSTOMER_DISPLAY_STAGES })
+  @IsIn(CUSTOMER_DISPLAY_STAGES)
+  stage!: CustomerDisplayStage;
+
+  @ApiPropertyOptional({ type: [CustomerDisplayLineDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => CustomerDisplayLineDto)
+  items?: CustomerDisplayLineDto[];
+
+  @ApiPropertyOptional({ type: [CustomerDisplayPromotionDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => CustomerDisplayPromotionDto)
+  promotions?: CustomerDisplayPromotionDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  subtotal?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discountTotal?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  serviceCharge?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  taxAmount?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  total?: number;
+
+  @ApiPropertyOptional({ description: 'Paid so far' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  paid?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  changeDue?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  customerName?: string;
+
+  @ApiPropertyOptional({
+    example: 'qris',
+    description: 'Method being paid with; qris puts the outlet QR with the amount on screen',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  paymentMethod?: string;
+
+  @ApiPropertyOptional({ description: 'Amount being paid with the method; defaults to the rest' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  paymentAmount?: number;
+
+  @ApiPropertyOptional({ description: 'Completed sale, for the thank-you screen' })
+  @IsOptional()
+  @IsUUID()
+  transactionId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  receiptNumber?: string;
+}
@@ -1,5 +1,19 @@
-import { IsString, IsOptional, IsNumber, IsBoolean, IsEmail, Min } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsBoolean,
+  IsEmail,
+  Min,
+  IsArray,
+  IsUUID,
+  ArrayMinSize,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DenominationCountDto } from './cash-management.dto';
 
 export class CreateEmployeeDto {
   @ApiProperty()
@@ -83,15 +97,47 @@ export class StartShiftDto {
   @IsString()
   outletId!: string;
 
-  @ApiProperty()
+  @ApiPropertyOptional({
+    description: 'Cash drawer to work; joins the open session of the drawer if there is one',
+  })
+  @IsOptional()
+  @IsUUID()
+  drawerId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Required unless openingCount is given or the shift joins an open drawer',
+  })
+  @ValidateIf((o: StartShiftDto) => o.openingCash !== undefined || (!o.openingCount && !o.drawerId))
   @IsNumber()
   @Min(0)
-  openingCash!: number;
+  openingCash?: number;
+
+  @ApiPropertyOptional({ type: [DenominationCountDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => DenominationCountDto)
+  openingCount?: DenominationCountDto[];
 }
 
 export class EndShiftDto {
-  @ApiProperty()
+  @ApiPropertyOptional({ description: 'Required unless closingCount is given' })
+  @ValidateIf((o: EndShiftDto) => o.closingCash !== undefined || !o.closingCount)
   @IsNumber()
   @Min(0)
-  closingCash!: number;
+  closingCash?: number;
+
+  @ApiPropertyOptional({ type: [DenominationCountDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => DenominationCountDto)
+  closingCount?: DenominationCountDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
 }
@@ -0,0 +1,137 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsIn,
+  IsBoolean,
+  IsEmail,
+  IsDateString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const GIFT_CARD_TYPES = ['physical', 'digital'] as const;
+export const GIFT_CARD_STATUSES = ['active', 'expired', 'void'] as const;
+
+export class IssueGiftCardDto {
+  @ApiPropertyOptional({
+    description: 'Printed code for physical cards; generated when omitted',
+    example: 'GC-7KQ2-9XMA-41PD',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[A-Za-z0-9-]{6,32}$/, { message: 'code must be 6-32 letters, digits or dashes' })
+  code?: string;
+
+  @ApiProperty({ enum: GIFT_CARD_TYPES })
+  @IsIn(GIFT_CARD_TYPES)
+  cardType!: (typeof GIFT_CARD_TYPES)[number];
+
+  @ApiProperty({ description: 'Initial balance loaded onto the card' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  @Max(999999999)
+  amount!: number;
+
+  @ApiPropertyOptional({ description: 'Overrides the business default validity' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  recipientName?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsEmail()
+  recipientEmail?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class StoredValueTopUpDto {
+  @ApiProperty()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  @Max(999999999)
+  amount!: number;
+
+  @ApiPropertyOptional({ description: 'How the customer paid for the top-up', example: 'cash' })
+  @IsOptional()
+  @IsString()
+  paymentMethod?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class VoidGiftCardDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(500)
+  reason!: string;
+}
+
+export class GiftCardQueryDto {
+  @ApiPropertyOptional({ enum: GIFT_CARD_STATUSES })
+  @IsOptional()
+  @IsIn(GIFT_CARD_STATUSES)
+  status?: (typeof GIFT_CARD_STATUSES)[number];
+
+  @ApiPropertyOptional({ description: 'Code or recipient name' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+}
+
+export class GiftCardSettingsDto {
+  @ApiPropertyOptional({
+    description: 'Days a new card stays valid; 0 means cards never expire',
+    example: 365,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(3650)
+  defaultValidityDays?: number;
+
+  @ApiPropertyOptional({ description: 'Allow loading more value onto an issued card' })
+  @IsOptional()
+  @IsBoolean()
+  allowTopUp?: boolean;
+
+  @ApiPropertyOptional({ description: 'Restart the validity period on every top-up' })
+  @IsOptional()
+  @IsBoolean()
+  extendExpiryOnTopUp?: boolean;
+}
+
+export class StoredValueLiabilityQueryDto {
+  @ApiPropertyOptional({ description: 'Report date, defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  asOf?: string;
+}
@@ -0,0 +1,156 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/** Kiosks take no cash: QRIS through the payment gateway, or the card terminal */
+export const KIOSK_PAYMENT_METHODS = ['qris', 'card'] as const;
+export type KioskPaymentMethod = (typeof KIOSK_PAYMENT_METHODS)[number];
+
+export class KioskDeviceQueryDto {
+  @ApiProperty({ description: 'Kiosk device' })
+  @IsUUID()
+  deviceId!: string;
+}
+
+export class KioskCatalogQueryDto extends KioskDeviceQueryDto {
+  @ApiPropertyOptional({ example: 'kopi' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+}
+
+export class KioskLoyaltyLookupDto extends KioskDeviceQueryDto {
+  @ApiProperty({ example: '081234567890' })
+  @Matches(/^\+?\d{8,15}$/, { message: 'Enter a phone number' })
+  phone!: string;
+}
+
+export class StartKioskSessionDto extends KioskDeviceQueryDto {}
+
+export class KioskCartItemDto {
+  @ApiProperty()
+  @IsUUID()
+  productId!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  variantId?: string;
+
+  @ApiPropertyOptional({ type: [String], description: 'Modifiers picked, e.g. from the upsell' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('4', { each: true })
+  modifierIds?: string[];
+
+  @ApiProperty({ example: 1, description: 'Units, or the weight an attendant keyed in' })
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @Min(0.001)
+  quantity!: number;
+
+  @ApiPropertyOptional({
+    example: '2000123012508',
+    description: 'Scale label the item was scanned off; its weight or price sets the quantity',
+  })
+  @IsOptional()
+  @Matches(/^\d{13}$/, { message: 'label must be an EAN-13' })
+  label?: string;
+}
+
+export class KioskCartDto {
+  @ApiProperty({ type: [KioskCartItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => KioskCartItemDto)
+  items!: KioskCartItemDto[];
+
+  @ApiPropertyOptional({ description: 'Member found by the phone lookup' })
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+}
+
+export class StartKioskPaymentDto extends KioskCartDto {
+  @ApiProperty({ enum: KIOSK_PAYMENT_METHODS })
+  @IsIn(KIOSK_PAYMENT_METHODS)
+  method!: KioskPaymentMethod;
+
+  @ApiPropertyOptional({ description: "Attendant's approval when the cart needs one" })
+  @IsOptional()
+  @IsString()
+  assistApproval?: string;
+}
+
+export class CompleteKioskPaymentDto {
+  @ApiPropertyOptional({ description: "Attendant's approval when the cart needs one" })
+  @IsOptional()
+  @IsString()
+  assistApproval?: string;
+
+  @ApiPropertyOptional({ description: 'Approval code the card terminal returned' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  cardApprovalCode?: string;
+
+  @ApiPropertyOptional({
+    description: "Attendant's approval confirming the card terminal's receipt; needed for card",
+  })
+  @IsOptional()
+  @IsString()
+  cardApproval?: string;
+}
+
+export class RequestKioskAssistDto {
+  @ApiPropertyOptional({ example: 'Age check for Bir Bintang' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
+
+export class ApproveKioskAssistDto {
+  @ApiProperty({ description: 'Attendant approving at the kiosk' })
+  @IsUUID()
+  approverId!: string;
+
+  @ApiPropertyOptional({ example: '123456' })
+  @IsOptional()
+  @Matches(/^\d{6}$/, { message: 'PIN must be exactly 6 digits' })
+  pin?: string;
+
+  @ApiPropertyOptional({ example: '123456' })
+  @IsOptional()
+  @Matches(/^\d{6}$/, { message: 'Authenticator code must be exactly 6 digits' })
+  totpCode?: string;
+
+  @ApiPropertyOptional({
+    description: "Confirm the card payment after checking the card terminal's receipt",
+  })
+  @IsOptional()
+  @IsBoolean()
+  confirmCardPayment?: boolean;
+}
@@ -0,0 +1,109 @@
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const OVERRIDE_ACTIONS = [
+  'void',
+  'refund',
+  'discount',
+  'price_override',
+  'no_sale',
+  'kiosk_assist',
+  'kiosk_card',
+] as const;
+export type OverrideAction = (typeof OVERRIDE_ACTIONS)[number];
+
+export class RequestOverrideDto {
+  @ApiProperty({ enum: OVERRIDE_ACTIONS })
+  @IsIn(OVERRIDE_ACTIONS)
+  action!: OverrideAction;
+
+  @ApiProperty({ description: 'Supervisor authorizing the action' })
+  @IsUUID()
+  approverId!: string;
+
+  @ApiPropertyOptional({ example: '123456', description: "The approver's 6-digit PIN" })
+  @IsOptional()
+  @Matches(/^\d{6}$/, { message: 'PIN must be exactly 6 digits' })
+  pin?: string;
+
+  @ApiPropertyOptional({ example: '123456', description: "Code from the approver's authenticator" })
+  @IsOptional()
+  @Matches(/^\d{6}$/, { message: 'Authenticator code must be exactly 6 digits' })
+  totpCode?: string;
+
+  @ApiPropertyOptional({ description: 'Defaults to the outlet in the token' })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Transaction (or shift, for no sale) the approval is limited to',
+  })
+  @IsOptional()
+  @IsUUID()
+  referenceId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
+
+export class OverrideApproversQueryDto {
+  @ApiProperty({ enum: OVERRIDE_ACTIONS })
+  @IsIn(OVERRIDE_ACTIONS)
+  action!: OverrideAction;
+
+  @ApiPropertyOptional({ description: 'Defaults to the outlet in the token' })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+}
+
+export class ListOverridesQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiPropertyOptional({ enum: OVERRIDE_ACTIONS })
+  @IsOptional()
+  @IsIn(OVERRIDE_ACTIONS)
+  action?: OverrideAction;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  approvedBy?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,72 @@
+import { IsString, IsOptional, IsUUID, IsIn, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const MARKETPLACE_ORDER_STATUSES = [
+  'accepted',
+  'preparing',
+  'ready',
+  'picked_up',
+  'completed',
+  'cancelled',
+] as const;
+
+// ============================================================================
+// Connection Lifecycle
+// ============================================================================
+
+export class MarketplaceOutletQueryDto {
+  @ApiPropertyOptional({ description: 'Outlet ID (defaults to the employee outlet)' })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+}
+
+export class ConnectMarketplaceDto {
+  @ApiPropertyOptional({ description: 'Outlet ID (defaults to the employee outlet)' })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiProperty({ description: 'Merchant / store ID on the platform' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  merchantId!: string;
+
+  @ApiProperty({ description: 'Partner API key / client ID' })
+  @IsString()
+  @IsNotEmpty()
+  apiKey!: string;
+
+  @ApiProperty({ description: 'Partner API secret / client secret' })
+  @IsString()
+  @IsNotEmpty()
+  apiSecret!: string;
+}
+
+// ============================================================================
+// Orders
+// ============================================================================
+
+export class UpdateMarketplaceOrderStatusDto {
+  @ApiPropertyOptional({ description: 'Outlet ID (defaults to the employee outlet)' })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiProperty({ enum: MARKETPLACE_ORDER_STATUSES })
+  @IsIn(MARKETPLACE_ORDER_STATUSES)
+  status!: (typeof MARKETPLACE_ORDER_STATUSES)[number];
+}
+
+export class RejectMarketplaceOrderDto {
+  @ApiPropertyOptional({ description: 'Outlet ID (defaults to the employee outlet)' })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiProperty({ description: 'Rejection reason sent to the platform' })
+  @IsString()
+  @IsNotEmpty()
+  reason!: string;
+}
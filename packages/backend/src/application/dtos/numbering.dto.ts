@@ -0,0 +1,121 @@
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const DOCUMENT_TYPE_VALUES = ['sale', 'refund', 'void', 'credit_note'] as const;
+export const NUMBERING_RESET_PERIODS = ['never', 'daily', 'monthly', 'yearly'] as const;
+export const NUMBER_BLOCK_STATUSES = ['active', 'released', 'expired'] as const;
+
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export class NumberingSeriesQueryDto {
+  @ApiProperty()
+  @IsUUID()
+  outletId!: string;
+}
+
+export class UpdateNumberingSeriesDto {
+  @ApiProperty()
+  @IsUUID()
+  outletId!: string;
+
+  @ApiProperty({ enum: DOCUMENT_TYPE_VALUES })
+  @IsIn(DOCUMENT_TYPE_VALUES)
+  documentType!: (typeof DOCUMENT_TYPE_VALUES)[number];
+
+  @ApiPropertyOptional({ example: 'INV' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  prefix?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Tokens: {prefix} {outlet} {YYYY} {YY} {MM} {DD} {seq}; {prefix}, {outlet}, {seq} and the date parts of the reset period are required',
+    example: '{prefix}/{outlet}/{YYYY}{MM}/{seq}',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  format?: string;
+
+  @ApiPropertyOptional({ description: 'Digits of the zero-padded sequence', default: 5 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  padding?: number;
+
+  @ApiPropertyOptional({ enum: NUMBERING_RESET_PERIODS, default: 'monthly' })
+  @IsOptional()
+  @IsIn(NUMBERING_RESET_PERIODS)
+  resetPeriod?: (typeof NUMBERING_RESET_PERIODS)[number];
+}
+
+export class ReserveNumberBlockDto {
+  @ApiProperty()
+  @IsUUID()
+  outletId!: string;
+
+  @ApiProperty({ description: 'Registered device that will print the numbers offline' })
+  @IsUUID()
+  deviceId!: string;
+
+  @ApiPropertyOptional({ enum: DOCUMENT_TYPE_VALUES, default: 'sale' })
+  @IsOptional()
+  @IsIn(DOCUMENT_TYPE_VALUES)
+  documentType?: (typeof DOCUMENT_TYPE_VALUES)[number];
+
+  @ApiPropertyOptional({ default: 100, minimum: 1, maximum: 500 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  size?: number;
+}
+
+export class NumberBlockQueryDto {
+  @ApiProperty()
+  @IsUUID()
+  outletId!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  deviceId?: string;
+
+  @ApiPropertyOptional({ enum: NUMBER_BLOCK_STATUSES })
+  @IsOptional()
+  @IsIn(NUMBER_BLOCK_STATUSES)
+  status?: (typeof NUMBER_BLOCK_STATUSES)[number];
+}
+
+export class SequenceIntegrityQueryDto {
+  @ApiProperty()
+  @IsUUID()
+  outletId!: string;
+
+  @ApiPropertyOptional({ enum: DOCUMENT_TYPE_VALUES })
+  @IsOptional()
+  @IsIn(DOCUMENT_TYPE_VALUES)
+  documentType?: (typeof DOCUMENT_TYPE_VALUES)[number];
+
+  @ApiPropertyOptional({ description: 'First local date (YYYY-MM-DD) whose period is checked' })
+  @IsOptional()
+  @Matches(LOCAL_DATE, { message: 'from must be YYYY-MM-DD' })
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Last local date (YYYY-MM-DD) whose period is checked' })
+  @IsOptional()
+  @Matches(LOCAL_DATE, { message: 'to must be YYYY-MM-DD' })
+  to?: string;
+}
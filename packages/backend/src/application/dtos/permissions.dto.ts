@@ -0,0 +1,102 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ALL_PERMISSIONS, type Permission } from '../../shared/constants/permissions';
+import { EmployeeRole } from '../../shared/constants/roles';
+
+/** Built-in roles a business can customise; owner and super admin always hold everything */
+export const CUSTOMISABLE_ROLES = [
+  EmployeeRole.MANAGER,
+  EmployeeRole.SUPERVISOR,
+  EmployeeRole.CASHIER,
+  EmployeeRole.KITCHEN,
+  EmployeeRole.INVENTORY,
+] as const;
+
+export class CreateRoleDto {
+  @ApiProperty({ example: 'Head Cashier' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiProperty({ example: ['pos.sale', 'pos.void'] })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(ALL_PERMISSIONS, { each: true })
+  permissions!: Permission[];
+}
+
+export class UpdateRoleDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(ALL_PERMISSIONS, { each: true })
+  permissions?: Permission[];
+}
+
+export class UpdateBuiltInRoleDto {
+  @ApiProperty()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(ALL_PERMISSIONS, { each: true })
+  permissions!: Permission[];
+}
+
+export class RoleAssignmentDto {
+  @ApiProperty()
+  @IsUUID()
+  roleId!: string;
+
+  @ApiPropertyOptional({ description: 'Outlet the role applies at; omit for every outlet' })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+}
+
+export class SetEmployeeRolesDto {
+  @ApiProperty({ type: [RoleAssignmentDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RoleAssignmentDto)
+  assignments!: RoleAssignmentDto[];
+}
+
+export class EffectivePermissionsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Outlet to resolve for; defaults to the outlet in the token',
+  })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+}
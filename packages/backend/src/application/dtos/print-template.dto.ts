@@ -0,0 +1,157 @@
+import {
+  IsString,
+  IsOptional,
+  IsIn,
+  IsBoolean,
+  IsUUID,
+  IsArray,
+  IsObject,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PAPER_WIDTHS } from '../../modules/printing/print-template.types';
+
+export const PRINT_TEMPLATE_KINDS = ['receipt', 'kitchen_ticket'] as const;
+
+export type PrintTemplateKindValue = (typeof PRINT_TEMPLATE_KINDS)[number];
+
+export class CreatePrintTemplateDto {
+  @ApiProperty({ example: 'Struk 58mm dengan QRIS' })
+  @IsString()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({ enum: PRINT_TEMPLATE_KINDS })
+  @IsIn(PRINT_TEMPLATE_KINDS)
+  kind!: PrintTemplateKindValue;
+
+  @ApiPropertyOptional({
+    description: 'Limit the template to one outlet; business-wide when omitted',
+  })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiPropertyOptional({ enum: PAPER_WIDTHS, default: 80 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(PAPER_WIDTHS)
+  paperWidth?: number;
+
+  @ApiPropertyOptional({
+    description: 'Layout blocks; starts from the built-in layout for the kind when omitted',
+    type: [Object],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  blocks?: Record<string, unknown>[];
+
+  @ApiPropertyOptional({
+    description: 'Constants available as {{vars.name}}, e.g. a QRIS payload or feedback link',
+    example: { feedbackUrl: 'https://example.com/feedback' },
+  })
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, unknown>;
+
+  @ApiPropertyOptional({ description: 'Use for its outlet (or the whole business) by default' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdatePrintTemplateDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ enum: PAPER_WIDTHS })
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(PAPER_WIDTHS)
+  paperWidth?: number;
+
+  @ApiPropertyOptional({ type: [Object] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  blocks?: Record<string, unknown>[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, unknown>;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class PrintTemplateQueryDto {
+  @ApiPropertyOptional({ enum: PRINT_TEMPLATE_KINDS })
+  @IsOptional()
+  @IsIn(PRINT_TEMPLATE_KINDS)
+  kind?: PrintTemplateKindValue;
+
+  @ApiPropertyOptional({
+    description: 'Templates usable at this outlet (its own and business-wide)',
+  })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+}
+
+export class PreviewPrintTemplateDto {
+  @ApiProperty({ enum: PRINT_TEMPLATE_KINDS })
+  @IsIn(PRINT_TEMPLATE_KINDS)
+  kind!: PrintTemplateKindValue;
+
+  @ApiPropertyOptional({
+    description: 'Saved template to preview; unsaved blocks win if both are given',
+  })
+  @IsOptional()
+  @IsUUID()
+  templateId?: string;
+
+  @ApiPropertyOptional({ enum: PAPER_WIDTHS })
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(PAPER_WIDTHS)
+  paperWidth?: number;
+
+  @ApiPropertyOptional({ description: 'Unsaved blocks from the designer', type: [Object] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  blocks?: Record<string, unknown>[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description: 'Render against this sale instead of sample data (receipts)',
+  })
+  @IsOptional()
+  @IsUUID()
+  transactionId?: string;
+}
+
+export class RenderPrintJobDto {
+  @ApiPropertyOptional({ description: 'Template to use instead of the outlet default' })
+  @IsOptional()
+  @IsUUID()
+  templateId?: string;
+}
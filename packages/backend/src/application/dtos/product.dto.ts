@@ -4,8 +4,11 @@ import {
   IsOptional,
   IsArray,
   IsBoolean,
+  IsInt,
   ValidateNested,
   Min,
+  Max,
+  MaxLength,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -105,6 +108,32 @@ export class CreateProductDto {
   @IsBoolean()
   trackStock!: boolean;
 
+  @ApiPropertyOptional({
+    nullable: true,
+    example: 21,
+    description: 'Minimum buyer age; self-checkout kiosks call an attendant for it',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(99)
+  minimumAge?: number | null;
+
+  @ApiPropertyOptional({ description: 'Sold by weight off a scale, in fractional quantities' })
+  @IsOptional()
+  @IsBoolean()
+  isWeighed?: boolean;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    example: 'kg',
+    description: 'Unit the price is per; one of the weight units when weighed',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  sellUnit?: string | null;
+
   @ApiPropertyOptional({ type: [VariantDto] })
   @IsOptional()
   @IsArray()
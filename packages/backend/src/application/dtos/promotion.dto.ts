@@ -0,0 +1,359 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsIn,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsObject,
+  IsUUID,
+  ArrayMinSize,
+  ValidateNested,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PROMOTION_REWARD_TYPES } from '../services/promotion-rules.types';
+import type { PromotionRewardType } from '../services/promotion-rules.types';
+
+// ─── Rule language ───────────────────────────────────────────────────
+
+export class PromotionConditionsDto {
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  productIds?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categoryIds?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excludeProductIds?: string[];
+
+  @ApiPropertyOptional({ type: [String], example: ['gold', 'platinum'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  customerTiers?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  outletIds?: string[];
+
+  @ApiPropertyOptional({ type: [Number], description: '0 = Sunday ... 6 = Saturday' })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  daysOfWeek?: number[];
+
+  @ApiPropertyOptional({ example: '14:00' })
+  @IsOptional()
+  @IsString()
+  startTime?: string;
+
+  @ApiPropertyOptional({ example: '17:00' })
+  @IsOptional()
+  @IsString()
+  endTime?: string;
+
+  @ApiPropertyOptional({ type: [String], example: ['qris', 'gopay'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  paymentMethods?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minSubtotal?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minQuantity?: number;
+}
+
+export class BundleComponentDto {
+  @ApiProperty({ type: [String], description: 'Any of these products fills the slot' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  productIds!: string[];
+
+  @ApiProperty()
+  @IsInt()
+  @Min(1)
+  quantity!: number;
+}
+
+export class SpendTierDto {
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  minSubtotal!: number;
+
+  @ApiProperty({ enum: ['percentage', 'fixed_amount'] })
+  @IsIn(['percentage', 'fixed_amount'])
+  discountType!: 'percentage' | 'fixed_amount';
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  value!: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDiscount?: number;
+}
+
+export class PromotionRewardDto {
+  @ApiProperty({ enum: PROMOTION_REWARD_TYPES })
+  @IsIn(PROMOTION_REWARD_TYPES)
+  type!: PromotionRewardType;
+
+  @ApiPropertyOptional({ description: 'percentage / fixed_amount value' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  value?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDiscount?: number;
+
+  @ApiPropertyOptional({ description: 'buy_x_get_y: units to buy' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  buyQuantity?: number;
+
+  @ApiPropertyOptional({ description: 'buy_x_get_y: units discounted' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  getQuantity?: number;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'buy_x_get_y: set the "get" units come from',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  getProductIds?: string[];
+
+  @ApiPropertyOptional({ description: 'buy_x_get_y: discount on "get" units, 100 = free' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  discountPercent?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxApplications?: number;
+
+  @ApiPropertyOptional({ type: [BundleComponentDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BundleComponentDto)
+  components?: BundleComponentDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  bundlePrice?: number;
+
+  @ApiPropertyOptional({ type: [SpendTierDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SpendTierDto)
+  tiers?: SpendTierDto[];
+
+  @ApiPropertyOptional({ description: 'free_item: product given away' })
+  @IsOptional()
+  @IsString()
+  productId?: string;
+
+  @ApiPropertyOptional({ description: 'free_item: units given away' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  quantity?: number;
+}
+
+export class PromotionRulesDto {
+  @ApiProperty({ type: PromotionConditionsDto })
+  @ValidateNested()
+  @Type(() => PromotionConditionsDto)
+  conditions!: PromotionConditionsDto;
+
+  @ApiProperty({ type: PromotionRewardDto })
+  @ValidateNested()
+  @Type(() => PromotionRewardDto)
+  reward!: PromotionRewardDto;
+}
+
+// ─── Promotions ──────────────────────────────────────────────────────
+
+export class CreatePromotionDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(255)
+  name!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: ['percentage', 'fixed', 'bogo'] })
+  @IsIn(['percentage', 'fixed', 'bogo'])
+  discountType!: 'percentage' | 'fixed' | 'bogo';
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  discountValue!: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minPurchase?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDiscount?: number;
+
+  @ApiProperty()
+  @IsDateString()
+  validFrom!: string;
+
+  @ApiProperty()
+  @IsDateString()
+  validUntil!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Legacy product/category/outlet filter' })
+  @IsOptional()
+  @IsObject()
+  applicableTo?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    type: PromotionRulesDto,
+    description: 'Conditions and reward; overrides discountType/applicableTo when set',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromotionRulesDto)
+  rules?: PromotionRulesDto;
+
+  @ApiPropertyOptional({ description: 'Higher priority is applied first when stacking' })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional({ description: 'Can combine with other stackable promotions' })
+  @IsOptional()
+  @IsBoolean()
+  stackable?: boolean;
+
+  @ApiPropertyOptional({ description: 'At most one promotion per group applies' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  exclusivityGroup?: string;
+}
+
+// ─── Rules engine ────────────────────────────────────────────────────
+
+export class ApplyPromotionItemDto {
+  @ApiPropertyOptional({ description: 'Caller line reference echoed in the allocation' })
+  @IsOptional()
+  @IsString()
+  lineId?: string;
+
+  @ApiProperty()
+  @IsString()
+  productId!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  variantId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  quantity!: number;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  price!: number;
+}
+
+export class ApplyPromotionDto {
+  @ApiProperty({ type: [ApplyPromotionItemDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ApplyPromotionItemDto)
+  items!: ApplyPromotionItemDto[];
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  total!: number;
+
+  @ApiPropertyOptional({ description: 'Apply only this promotion' })
+  @IsOptional()
+  @IsString()
+  promotionId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+
+  @ApiPropertyOptional({ example: 'qris' })
+  @IsOptional()
+  @IsString()
+  paymentMethod?: string;
+}
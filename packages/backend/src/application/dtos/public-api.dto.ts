@@ -0,0 +1,204 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const ORDER_TYPES = ['dine_in', 'takeaway', 'delivery'] as const;
+const ORDER_STATUSES = [
+  'pending',
+  'confirmed',
+  'preparing',
+  'ready',
+  'served',
+  'completed',
+  'cancelled',
+] as const;
+
+export class PublicPageQueryDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class PublicCatalogQueryDto extends PublicPageQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only records changed since (ISO 8601), for incremental sync',
+  })
+  @IsOptional()
+  @IsDateString()
+  updatedSince?: string;
+
+  @ApiPropertyOptional({ description: 'Name, SKU or barcode; name or phone for customers' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+}
+
+export class PublicStockQueryDto extends PublicPageQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  productId?: string;
+}
+
+export class PublicTransactionsQueryDto extends PublicPageQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiPropertyOptional({ description: 'Created from (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Created before (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class PublicOrdersQueryDto extends PublicTransactionsQueryDto {
+  @ApiPropertyOptional({ enum: ORDER_STATUSES })
+  @IsOptional()
+  @IsIn(ORDER_STATUSES)
+  status?: (typeof ORDER_STATUSES)[number];
+}
+
+export class PublicSalesSummaryQueryDto {
+  @ApiProperty({ description: 'Created from (ISO 8601)' })
+  @IsDateString()
+  from!: string;
+
+  @ApiProperty({ description: 'Created before (ISO 8601)' })
+  @IsDateString()
+  to!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+}
+
+class PublicCustomerFieldsDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  phone?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  address?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+export class PublicCreateCustomerDto extends PublicCustomerFieldsDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(255)
+  name!: string;
+}
+
+export class PublicUpdateCustomerDto extends PublicCustomerFieldsDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+}
+
+export class PublicOrderItemDto {
+  @ApiProperty()
+  @IsUUID()
+  productId!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  variantId?: string;
+
+  @ApiProperty({ example: 2 })
+  @IsInt()
+  @Min(1)
+  @Max(999)
+  quantity!: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  notes?: string;
+}
+
+export class PublicCreateOrderDto {
+  @ApiProperty()
+  @IsUUID()
+  outletId!: string;
+
+  @ApiProperty({ enum: ORDER_TYPES })
+  @IsIn(ORDER_TYPES)
+  orderType!: (typeof ORDER_TYPES)[number];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+
+  @ApiProperty({ type: [PublicOrderItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => PublicOrderItemDto)
+  items!: PublicOrderItemDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
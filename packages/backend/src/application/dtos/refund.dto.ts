@@ -44,4 +44,9 @@ export class ProcessRefundDto {
   @IsOptional()
   @IsString()
   notes?: string;
+
+  @ApiPropertyOptional({ description: 'Supervisor approval from POST /pos/overrides' })
+  @IsOptional()
+  @IsString()
+  approvalToken?: string;
 }
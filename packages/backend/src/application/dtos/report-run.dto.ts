@@ -0,0 +1,33 @@
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export const REPORT_RUN_STATUSES = [
+  'queued',
+  'running',
+  'retrying',
+  'completed',
+  'failed',
+] as const;
+
+export type ReportRunStatusValue = (typeof REPORT_RUN_STATUSES)[number];
+
+export class ReportRunQueryDto {
+  @ApiPropertyOptional({ enum: REPORT_RUN_STATUSES })
+  @IsOptional()
+  @IsIn(REPORT_RUN_STATUSES)
+  status?: ReportRunStatusValue;
+
+  @ApiPropertyOptional({ description: 'Only runs of this report schedule' })
+  @IsOptional()
+  @IsString()
+  scheduleId?: string;
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
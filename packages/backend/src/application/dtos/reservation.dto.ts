@@ -1,44 +1,304 @@
 import {
-  IsString,
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEmail,
+  IsIn,
+  IsInt,
   IsNumber,
   IsOptional,
+  IsString,
   IsUUID,
-  IsDateString,
-  Min,
+  Matches,
   Max,
   MaxLength,
+  Min,
 } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const RESERVATION_STATUSES = [
+  'pending_deposit',
+  'confirmed',
+  'seated',
+  'completed',
+  'cancelled',
+  'no_show',
+] as const;
+export const RESERVATION_SOURCES = ['staff', 'phone', 'online'] as const;
+export const RESERVATION_DEPOSIT_METHODS = [
+  'qris',
+  'bank_transfer',
+  'gopay',
+  'ovo',
+  'dana',
+  'shopeepay',
+  'credit_card',
+] as const;
+
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export class ReservationAvailabilityQueryDto {
+  @ApiProperty()
+  @IsUUID()
+  outletId!: string;
+
+  @ApiProperty({ description: 'Local date at the outlet (YYYY-MM-DD)', example: '2026-10-24' })
+  @Matches(LOCAL_DATE, { message: 'date must be YYYY-MM-DD' })
+  date!: string;
+
+  @ApiProperty()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  partySize!: number;
+
+  @ApiPropertyOptional({ description: 'Defaults to the outlet reservation duration' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(15)
+  @Max(720)
+  durationMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Only offer tables in this section' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  section?: string;
+}
+
+class ReservationSlotDto {
+  @ApiPropertyOptional({ description: 'Defaults to the outlet reservation duration' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(15)
+  @Max(720)
+  durationMinutes?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  section?: string;
 
-export class CreateReservationDto {
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Tables to book; picked automatically when omitted. Several tables are combined.',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @IsUUID('all', { each: true })
+  tableIds?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class CreateReservationDto extends ReservationSlotDto {
+  @ApiProperty()
   @IsUUID()
-  tableId!: string;
+  outletId!: string;
+
+  @ApiProperty({ minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  partySize!: number;
+
+  @ApiProperty({ description: 'Start of the booking (ISO 8601)' })
+  @IsDateString()
+  startsAt!: string;
 
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+
+  @ApiProperty()
   @IsString()
   @MaxLength(255)
   customerName!: string;
 
+  @ApiProperty()
   @IsString()
   @MaxLength(20)
   customerPhone!: string;
 
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(255)
+  customerEmail?: string;
+
+  @ApiPropertyOptional({ enum: RESERVATION_SOURCES, default: 'staff' })
+  @IsOptional()
+  @IsIn(RESERVATION_SOURCES)
+  source?: (typeof RESERVATION_SOURCES)[number];
+
+  @ApiPropertyOptional({
+    description: 'Overrides the deposit from the outlet settings; 0 books without a deposit',
+  })
+  @IsOptional()
+  @Type(() => Number)
   @IsNumber()
+  @Min(0)
+  depositAmount?: number;
+
+  @ApiPropertyOptional({ enum: RESERVATION_DEPOSIT_METHODS, default: 'qris' })
+  @IsOptional()
+  @IsIn(RESERVATION_DEPOSIT_METHODS)
+  depositMethod?: (typeof RESERVATION_DEPOSIT_METHODS)[number];
+}
+
+export class UpdateReservationDto extends ReservationSlotDto {
+  @ApiPropertyOptional({ minimum: 1, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
   @Min(1)
-  @Max(50)
-  partySize!: number;
+  @Max(100)
+  partySize?: number;
 
+  @ApiPropertyOptional({ description: 'New start of the booking (ISO 8601)' })
+  @IsOptional()
   @IsDateString()
-  reservedAt!: string;
+  startsAt?: string;
+}
+
+export class ReservationQueryDto {
+  @ApiProperty()
+  @IsUUID()
+  outletId!: string;
 
+  @ApiPropertyOptional({ description: 'Local date at the outlet (YYYY-MM-DD); defaults to today' })
+  @IsOptional()
+  @Matches(LOCAL_DATE, { message: 'date must be YYYY-MM-DD' })
+  date?: string;
+
+  @ApiPropertyOptional({ enum: RESERVATION_STATUSES })
+  @IsOptional()
+  @IsIn(RESERVATION_STATUSES)
+  status?: (typeof RESERVATION_STATUSES)[number];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+}
+
+export class CancelReservationDto {
+  @ApiPropertyOptional()
   @IsOptional()
   @IsString()
   @MaxLength(500)
-  notes?: string;
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Refund a paid deposit; defaults to the free cancellation window',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  refundDeposit?: boolean;
 }
 
-export class GetReservationsQueryDto {
-  @IsUUID()
-  outletId!: string;
+export class RequestReservationDepositDto {
+  @ApiPropertyOptional({ description: 'Defaults to the deposit from the outlet settings' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  amount?: number;
 
-  @IsDateString()
-  date!: string;
+  @ApiPropertyOptional({ enum: RESERVATION_DEPOSIT_METHODS, default: 'qris' })
+  @IsOptional()
+  @IsIn(RESERVATION_DEPOSIT_METHODS)
+  method?: (typeof RESERVATION_DEPOSIT_METHODS)[number];
+}
+
+export class ReservationSettingsDto {
+  @ApiPropertyOptional({ default: 90 })
+  @IsOptional()
+  @IsInt()
+  @Min(15)
+  @Max(720)
+  defaultDurationMinutes?: number;
+
+  @ApiPropertyOptional({ default: 15 })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(120)
+  slotIntervalMinutes?: number;
+
+  @ApiPropertyOptional({ default: 15, description: 'Free time kept after each booking' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(120)
+  turnoverBufferMinutes?: number;
+
+  @ApiPropertyOptional({ default: 15 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(120)
+  lateGraceMinutes?: number;
+
+  @ApiPropertyOptional({ default: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(240)
+  noShowAfterMinutes?: number;
+
+  @ApiPropertyOptional({ default: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  holdTablesMinutes?: number;
+
+  @ApiPropertyOptional({ default: 0, description: 'Deposit per guest; 0 turns deposits off' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  depositPerGuest?: number;
+
+  @ApiPropertyOptional({ default: 6 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  depositMinPartySize?: number;
+
+  @ApiPropertyOptional({ default: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(2880)
+  depositExpiryMinutes?: number;
+
+  @ApiPropertyOptional({ default: 24 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  freeCancellationHours?: number;
+
+  @ApiPropertyOptional({ default: 3, description: '0 turns reminders off' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(72)
+  reminderHoursBefore?: number;
 }
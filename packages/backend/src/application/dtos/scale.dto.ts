@@ -0,0 +1,53 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  EMBEDDED_BARCODE_TYPES,
+  type EmbeddedBarcodeType,
+} from '../../modules/scales/embedded-barcode';
+
+export class EmbeddedBarcodeLayoutDto {
+  @ApiProperty({ example: '20', description: 'In-store EAN-13 prefix, 2 to 299' })
+  @Matches(/^2\d{0,2}$/, { message: 'prefix must be an in-store prefix starting with 2' })
+  prefix!: string;
+
+  @ApiProperty({ enum: EMBEDDED_BARCODE_TYPES, example: 'weight' })
+  @IsIn(EMBEDDED_BARCODE_TYPES)
+  type!: EmbeddedBarcodeType;
+
+  @ApiProperty({ example: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(8)
+  itemDigits!: number;
+
+  @ApiProperty({ example: 5, description: 'Weight in kilograms or price' })
+  @IsInt()
+  @Min(1)
+  @Max(8)
+  valueDigits!: number;
+
+  @ApiProperty({ example: 3, description: 'Implied decimals of the value' })
+  @IsInt()
+  @Min(0)
+  @Max(3)
+  decimals!: number;
+}
+
+export class UpdateBarcodeLayoutsDto {
+  @ApiProperty({ type: [EmbeddedBarcodeLayoutDto] })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => EmbeddedBarcodeLayoutDto)
+  layouts!: EmbeddedBarcodeLayoutDto[];
+}
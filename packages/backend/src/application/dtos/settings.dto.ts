@@ -6,6 +6,8 @@ import {
   IsArray,
   IsEnum,
   IsInt,
+  IsIn,
+  IsUUID,
   Min,
   Max,
   Matches,
@@ -275,6 +277,28 @@ export class CreatePrinterConfigDto {
   @ApiProperty()
   @IsString()
   outletId!: string;
+
+  @ApiPropertyOptional({
+    description: 'Print template for this printer; outlet default when unset',
+  })
+  @IsOptional()
+  @IsUUID()
+  templateId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Kitchen stations this printer takes tickets for; all when empty',
+    example: ['grill', 'drinks'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  stations?: string[];
+
+  @ApiPropertyOptional({ enum: [58, 80] })
+  @IsOptional()
+  @IsIn([58, 80])
+  paperWidth?: 58 | 80;
 }
 
 export class UpdatePrinterConfigDto {
@@ -324,12 +348,35 @@ export class UpdatePrinterConfigDto {
   @IsOptional()
   @IsString()
   outletId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Print template for this printer; outlet default when unset',
+  })
+  @IsOptional()
+  @IsUUID()
+  templateId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Kitchen stations this printer takes tickets for; all when empty',
+    example: ['grill', 'drinks'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  stations?: string[];
+
+  @ApiPropertyOptional({ enum: [58, 80] })
+  @IsOptional()
+  @IsIn([58, 80])
+  paperWidth?: 58 | 80;
 }
 
 // ==================== Report Schedule DTOs ====================
 
 export type ReportTypeEnum = 'sales' | 'financial' | 'inventory';
 export type ReportFrequencyEnum = 'daily' | 'weekly' | 'monthly';
+export type ReportFormatEnum = 'pdf' | 'excel';
 
 export class CreateReportScheduleDto {
   @ApiProperty({ enum: ['sales', 'financial', 'inventory'] })
@@ -345,6 +392,16 @@ export class CreateReportScheduleDto {
   @IsString({ each: true })
   recipients!: string[];
 
+  @ApiPropertyOptional({ enum: ['pdf', 'excel'], default: 'pdf' })
+  @IsOptional()
+  @IsEnum(['pdf', 'excel'] as const)
+  format?: ReportFormatEnum;
+
+  @ApiPropertyOptional({ description: 'Limit the report to one outlet; all outlets when omitted' })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
   @ApiPropertyOptional()
   @IsOptional()
   @IsBoolean()
@@ -368,6 +425,16 @@ export class UpdateReportScheduleDto {
   @IsString({ each: true })
   recipients?: string[];
 
+  @ApiPropertyOptional({ enum: ['pdf', 'excel'] })
+  @IsOptional()
+  @IsEnum(['pdf', 'excel'] as const)
+  format?: ReportFormatEnum;
+
+  @ApiPropertyOptional({ description: 'Outlet to report on; null switches back to all outlets' })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string | null;
+
   @ApiPropertyOptional()
   @IsOptional()
   @IsBoolean()
@@ -1,4 +1,18 @@
-import { IsString, IsOptional, IsDateString } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsDateString,
+  IsNumber,
+  IsUUID,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+  Min,
+  Max,
+  IsIn,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class SupplierAnalyticsQueryDto {
@@ -47,3 +61,231 @@ export class RejectPurchaseOrderDto {
   @IsString()
   reason!: string;
 }
+
+export class ReceiveGoodsItemDto {
+  @ApiProperty()
+  @IsUUID()
+  purchaseOrderItemId!: string;
+
+  @ApiProperty({ description: 'Quantity accepted into stock' })
+  @IsNumber()
+  @Min(0)
+  quantityReceived!: number;
+
+  @ApiPropertyOptional({ description: 'Quantity refused at the door and returned to supplier' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  quantityRejected?: number;
+
+  @ApiPropertyOptional({ description: 'Quantity delivered damaged (not stocked)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  quantityDamaged?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class ReceiveGoodsDto {
+  @ApiPropertyOptional({
+    type: [ReceiveGoodsItemDto],
+    description: 'Lines delivered; omit to receive every outstanding quantity in full',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ReceiveGoodsItemDto)
+  items?: ReceiveGoodsItemDto[];
+
+  @ApiPropertyOptional({ description: 'Freight charged for this delivery' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  freightCost?: number;
+
+  @ApiPropertyOptional({ description: 'Other landed costs (duties, handling)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  otherCost?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+// ─── Accounts Payable ────────────────────────────────────────────────
+
+export const SUPPLIER_INVOICE_STATUSES = ['unpaid', 'partially_paid', 'paid', 'void'] as const;
+export const INVOICE_MATCH_STATUSES = ['unmatched', 'matched', 'mismatch'] as const;
+
+export class SupplierInvoiceItemDto {
+  @ApiPropertyOptional({ description: 'PO line this invoice line bills for' })
+  @IsOptional()
+  @IsUUID()
+  purchaseOrderItemId?: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(255)
+  description!: string;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  quantity!: number;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  unitPrice!: number;
+}
+
+export class CreateSupplierInvoiceDto {
+  @ApiProperty()
+  @IsUUID()
+  supplierId!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  purchaseOrderId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Goods receipt the invoice bills for; defaults to the whole PO',
+  })
+  @IsOptional()
+  @IsUUID()
+  goodsReceivedNoteId?: string;
+
+  @ApiProperty({ description: "Supplier's own invoice number" })
+  @IsString()
+  @MaxLength(100)
+  invoiceNumber!: string;
+
+  @ApiProperty()
+  @IsDateString()
+  invoiceDate!: string;
+
+  @ApiProperty()
+  @IsDateString()
+  dueDate!: string;
+
+  @ApiProperty({ type: [SupplierInvoiceItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => SupplierInvoiceItemDto)
+  items!: SupplierInvoiceItemDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  taxAmount?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class SupplierInvoiceQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  supplierId?: string;
+
+  @ApiPropertyOptional({ enum: SUPPLIER_INVOICE_STATUSES })
+  @IsOptional()
+  @IsIn(SUPPLIER_INVOICE_STATUSES)
+  status?: (typeof SUPPLIER_INVOICE_STATUSES)[number];
+
+  @ApiPropertyOptional({ enum: INVOICE_MATCH_STATUSES })
+  @IsOptional()
+  @IsIn(INVOICE_MATCH_STATUSES)
+  matchStatus?: (typeof INVOICE_MATCH_STATUSES)[number];
+}
+
+export class MatchToleranceDto {
+  @ApiPropertyOptional({ description: 'Allowed quantity variance, in percent' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  quantityPercent?: number;
+
+  @ApiPropertyOptional({ description: 'Allowed unit price variance, in percent' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  pricePercent?: number;
+}
+
+export class SupplierPaymentAllocationDto {
+  @ApiProperty()
+  @IsUUID()
+  invoiceId!: string;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0.01)
+  amount!: number;
+}
+
+export class RecordSupplierPaymentDto {
+  @ApiProperty()
+  @IsUUID()
+  supplierId!: string;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0.01)
+  amount!: number;
+
+  @ApiProperty({ example: 'bank_transfer' })
+  @IsString()
+  @MaxLength(30)
+  paymentMethod!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  paidAt?: string;
+
+  @ApiPropertyOptional({
+    type: [SupplierPaymentAllocationDto],
+    description: 'Invoices to settle; omit to settle open invoices oldest due date first',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => SupplierPaymentAllocationDto)
+  allocations?: SupplierPaymentAllocationDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class ApAgingQueryDto {
+  @ApiPropertyOptional({ description: 'Aging reference date, defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  asOf?: string;
+}
@@ -0,0 +1,169 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsIn,
+  IsUUID,
+  IsObject,
+  IsBoolean,
+  IsArray,
+  IsEmail,
+  IsDateString,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CreateTransactionDto } from './transaction.dto';
+
+export const SYNC_ENTITY_TYPES = ['products', 'categories', 'customers', 'transactions'] as const;
+export const SYNC_OPERATIONS = ['create', 'update', 'delete'] as const;
+
+export type SyncEntityType = (typeof SYNC_ENTITY_TYPES)[number];
+export type SyncOperationType = (typeof SYNC_OPERATIONS)[number];
+
+export class SyncPullQueryDto {
+  @ApiProperty({ enum: SYNC_ENTITY_TYPES })
+  @IsIn(SYNC_ENTITY_TYPES)
+  entityType!: SyncEntityType;
+
+  @ApiPropertyOptional({ description: 'nextCursor from the previous pull; omit for a full pull' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 200, maximum: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Outlet for transaction pulls; defaults to the current outlet',
+  })
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiPropertyOptional({ description: 'Registered device, to record its last sync time' })
+  @IsOptional()
+  @IsUUID()
+  deviceId?: string;
+}
+
+export class SyncPushOperationDto {
+  @ApiProperty({
+    description: 'Client-generated key; replaying the same key returns the first result',
+    example: 'dev-7f3a:txn:000184',
+  })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_.:-]{8,100}$/, {
+    message: 'idempotencyKey must be 8-100 letters, digits or _.:-',
+  })
+  idempotencyKey!: string;
+
+  @ApiProperty({ enum: SYNC_ENTITY_TYPES })
+  @IsIn(SYNC_ENTITY_TYPES)
+  entityType!: SyncEntityType;
+
+  @ApiProperty({ enum: SYNC_OPERATIONS })
+  @IsIn(SYNC_OPERATIONS)
+  operation!: SyncOperationType;
+
+  @ApiPropertyOptional({ description: 'Server id, or the local id for records created offline' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  entityId?: string;
+
+  @ApiPropertyOptional({ description: 'Entity payload (shape depends on entityType)' })
+  @IsOptional()
+  @IsObject()
+  data?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description: 'Server version the client last saw; stale versions conflict',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  baseVersion?: number;
+
+  @ApiPropertyOptional({ description: 'Skip the version check (client-wins resolution)' })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+}
+
+export class SyncPushDto {
+  @ApiPropertyOptional({ description: 'Registered device, to record its last sync time' })
+  @IsOptional()
+  @IsUUID()
+  deviceId?: string;
+
+  @ApiProperty({ type: [SyncPushOperationDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => SyncPushOperationDto)
+  operations!: SyncPushOperationDto[];
+}
+
+/** Payload of a pushed `transactions` create */
+export class SyncTransactionDataDto extends CreateTransactionDto {
+  @ApiPropertyOptional({
+    description:
+      'Receipt number printed while offline; kept as the receipt number when it comes from a block reserved for the pushing device',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  receiptNumber?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the sale happened on the device (ISO date or epoch ms)',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'number' ? new Date(value).toISOString() : value))
+  @IsDateString()
+  createdAt?: string;
+}
+
+/** Payload of a pushed `customers` create / update */
+export class SyncCustomerDataDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  phone?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
@@ -0,0 +1,183 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FAKTUR_TRANSACTION_CODES } from '../../modules/tax-invoices/faktur-number.util';
+
+export const TAX_INVOICE_STATUSES = ['issued', 'replaced', 'cancelled'] as const;
+export const TAX_INVOICE_EXPORT_FORMATS = ['csv', 'xml'] as const;
+
+const NSFP_FORMAT = /^\d{3}[-.]?\d{2}[-.]?\d{8}$/;
+const NPWP_FORMAT = /^[\d.\s-]{15,20}$/;
+
+export class CreateFakturRangeDto {
+  @ApiProperty({ description: 'First NSFP of the allocated block', example: '000-26.00000001' })
+  @Matches(NSFP_FORMAT, { message: 'startNsfp must be a 13-digit NSFP (000-26.00000001)' })
+  startNsfp!: string;
+
+  @ApiProperty({ description: 'Last NSFP of the allocated block', example: '000-26.00000500' })
+  @Matches(NSFP_FORMAT, { message: 'endNsfp must be a 13-digit NSFP (000-26.00000500)' })
+  endNsfp!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+class TaxInvoiceBuyerDto {
+  @ApiPropertyOptional({ description: 'Overrides the NPWP stored on the customer' })
+  @IsOptional()
+  @Matches(NPWP_FORMAT, { message: 'buyerNpwp must be 15 or 16 digits' })
+  buyerNpwp?: string;
+
+  @ApiPropertyOptional({ description: 'Registered name; defaults to the customer NPWP name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  buyerName?: string;
+
+  @ApiPropertyOptional({ description: 'Registered address; defaults to the customer NPWP address' })
+  @IsOptional()
+  @IsString()
+  buyerAddress?: string;
+
+  @ApiPropertyOptional({ description: 'Faktur date; defaults to today' })
+  @IsOptional()
+  @IsDateString()
+  invoiceDate?: string;
+
+  @ApiPropertyOptional({ description: 'Free-text reference printed on the faktur' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+}
+
+export class CreateTaxInvoiceDto extends TaxInvoiceBuyerDto {
+  @ApiProperty({ type: [String], description: 'Completed sales covered by this faktur' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  transactionIds!: string[];
+
+  @ApiPropertyOptional({ description: 'Buyer; defaults to the customer on the transactions' })
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+
+  @ApiPropertyOptional({ enum: FAKTUR_TRANSACTION_CODES, default: '01' })
+  @IsOptional()
+  @IsIn(FAKTUR_TRANSACTION_CODES)
+  transactionCode?: (typeof FAKTUR_TRANSACTION_CODES)[number];
+}
+
+export class ReplaceTaxInvoiceDto extends TaxInvoiceBuyerDto {
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'New set of sales; the replaced faktur keeps its transactions when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  transactionIds?: string[];
+}
+
+export class CancelTaxInvoiceDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(500)
+  reason!: string;
+}
+
+export class TaxInvoiceQueryDto {
+  @ApiPropertyOptional({ enum: TAX_INVOICE_STATUSES })
+  @IsOptional()
+  @IsIn(TAX_INVOICE_STATUSES)
+  status?: (typeof TAX_INVOICE_STATUSES)[number];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  customerId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+
+  @ApiPropertyOptional({ description: 'Faktur date from (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'Faktur date to (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({ description: 'NSFP, buyer name or buyer NPWP' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class ExportTaxInvoicesQueryDto {
+  @ApiProperty({
+    enum: TAX_INVOICE_EXPORT_FORMATS,
+    description: 'csv = e-Faktur desktop import, xml = Coretax bulk upload',
+  })
+  @IsIn(TAX_INVOICE_EXPORT_FORMATS)
+  format!: (typeof TAX_INVOICE_EXPORT_FORMATS)[number];
+
+  @ApiPropertyOptional({ description: 'Comma-separated invoice IDs; overrides the date range' })
+  @IsOptional()
+  @IsString()
+  ids?: string;
+
+  @ApiPropertyOptional({ description: 'Faktur date from (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'Faktur date to (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  outletId?: string;
+}
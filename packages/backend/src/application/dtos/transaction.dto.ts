@@ -47,8 +47,42 @@ export class TransactionItemDto {
 }
 
 export class PaymentDto {
-  @ApiProperty({ enum: ['cash', 'card', 'debit_card', 'credit_card', 'gopay', 'ovo', 'dana', 'shopeepay', 'linkaja', 'qris', 'bank_transfer', 'credit_note'] })
-  @IsIn(['cash', 'card', 'debit_card', 'credit_card', 'gopay', 'ovo', 'dana', 'shopeepay', 'linkaja', 'qris', 'bank_transfer', 'credit_note'])
+  @ApiProperty({
+    enum: [
+      'cash',
+      'card',
+      'debit_card',
+      'credit_card',
+      'gopay',
+      'ovo',
+      'dana',
+      'shopeepay',
+      'linkaja',
+      'qris',
+      'bank_transfer',
+      'credit_note',
+      'gift_card',
+      'wallet',
+      'reservation_deposit',
+    ],
+  })
+  @IsIn([
+    'cash',
+    'card',
+    'debit_card',
+    'credit_card',
+    'gopay',
+    'ovo',
+    'dana',
+    'shopeepay',
+    'linkaja',
+    'qris',
+    'bank_transfer',
+    'credit_note',
+    'gift_card',
+    'wallet',
+    'reservation_deposit',
+  ])
   method!: string;
 
   @ApiProperty()
@@ -57,12 +91,37 @@ export class PaymentDto {
   @Max(999999999)
   amount!: number;
 
-  @ApiPropertyOptional()
+  @ApiPropertyOptional({
+    description:
+      'Gift card code when method is gift_card, reservation ID when method is reservation_deposit',
+  })
   @IsOptional()
   @IsString()
   referenceNumber?: string;
 }
 
+export class DiscountDto {
+  @ApiProperty({ enum: ['percentage', 'fixed'] })
+  @IsIn(['percentage', 'fixed'])
+  type!: 'percentage' | 'fixed';
+
+  @ApiProperty({ description: 'Percent of the subtotal, or an amount when fixed' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(999999999)
+  value!: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  promotionId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  voucherCode?: string;
+}
+
 export class CreateTransactionDto {
   @ApiProperty()
   @IsString()
@@ -103,6 +162,23 @@ export class CreateTransactionDto {
   @Type(() => PaymentDto)
   payments!: PaymentDto[];
 
+  @ApiPropertyOptional({ type: [DiscountDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DiscountDto)
+  discounts?: DiscountDto[];
+
+  @ApiPropertyOptional({ description: 'Supervisor approval for a discount above 20%' })
+  @IsOptional()
+  @IsString()
+  discountApprovalToken?: string;
+
+  @ApiPropertyOptional({ description: 'Supervisor approval for selling below catalog price' })
+  @IsOptional()
+  @IsString()
+  priceOverrideApprovalToken?: string;
+
   @ApiPropertyOptional()
   @IsOptional()
   @IsString()
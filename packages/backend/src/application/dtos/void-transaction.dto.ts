@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
 
 export class VoidTransactionDto {
   @IsString()
@@ -8,4 +8,9 @@ export class VoidTransactionDto {
   @IsString()
   @IsNotEmpty()
   reason!: string;
+
+  /** Supervisor approval from POST /pos/overrides, needed without pos.void */
+  @IsString()
+  @IsOptional()
+  approvalToken?: string;
 }
@@ -0,0 +1,160 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OutletLocationType } from '@prisma/client';
+
+export const ZONE_TYPES = ['receiving', 'storage', 'picking', 'staging'] as const;
+export type ZoneType = (typeof ZONE_TYPES)[number];
+
+// Codes go on printed labels and scanners, so keep them to plain characters
+const CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const CODE_MESSAGE = 'code may only contain letters, digits, dots, dashes and underscores';
+
+export class SetLocationTypeDto {
+  @ApiProperty({ enum: OutletLocationType })
+  @IsIn(Object.values(OutletLocationType))
+  locationType!: OutletLocationType;
+}
+
+export class CreateWarehouseZoneDto {
+  @ApiProperty({ example: 'A' })
+  @IsString()
+  @MaxLength(20)
+  @Matches(CODE_PATTERN, { message: CODE_MESSAGE })
+  code!: string;
+
+  @ApiProperty({ example: 'Dry storage' })
+  @IsString()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({ enum: ZONE_TYPES, default: 'storage' })
+  @IsOptional()
+  @IsIn(ZONE_TYPES)
+  zoneType?: ZoneType;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsOptional()
+  @IsInt()
+  sortOrder?: number;
+}
+
+export class UpdateWarehouseZoneDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ enum: ZONE_TYPES })
+  @IsOptional()
+  @IsIn(ZONE_TYPES)
+  zoneType?: ZoneType;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  sortOrder?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class CreateWarehouseBinDto {
+  @ApiProperty({ example: 'A-01-03' })
+  @IsString()
+  @MaxLength(30)
+  @Matches(CODE_PATTERN, { message: CODE_MESSAGE })
+  code!: string;
+
+  @ApiPropertyOptional({ default: 0, description: 'Walking order of pickers' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  pickSequence?: number;
+}
+
+export class UpdateWarehouseBinDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  pickSequence?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class BinStockQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  productId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  zoneId?: string;
+}
+
+export class PutawayDto {
+  @ApiProperty()
+  @IsUUID()
+  productId!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  variantId?: string;
+
+  @ApiProperty({ example: 12 })
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @Min(0.001)
+  quantity!: number;
+
+  @ApiPropertyOptional({ description: 'Suggested from where the item already sits when omitted' })
+  @IsOptional()
+  @IsUUID()
+  binId?: string;
+}
+
+export class MoveBinStockDto {
+  @ApiProperty()
+  @IsUUID()
+  productId!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  variantId?: string;
+
+  @ApiProperty()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @Min(0.001)
+  quantity!: number;
+
+  @ApiProperty()
+  @IsUUID()
+  fromBinId!: string;
+
+  @ApiProperty()
+  @IsUUID()
+  toBinId!: string;
+}
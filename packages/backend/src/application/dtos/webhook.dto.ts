@@ -0,0 +1,104 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from '../../modules/webhooks/webhook.util';
+
+const HTTPS_URL = { protocols: ['https'], require_protocol: true, require_tld: true };
+
+export class CreateWebhookEndpointDto {
+  @ApiProperty({ example: 'https://erp.example.com/hooks/tilopos' })
+  @IsUrl(HTTPS_URL, { message: 'url must be an https URL' })
+  @MaxLength(500)
+  url!: string;
+
+  @ApiPropertyOptional({ example: 'ERP sales sync' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiProperty({ enum: WEBHOOK_EVENT_TYPES, isArray: true, example: ['transaction.created'] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  events!: WebhookEventType[];
+}
+
+export class UpdateWebhookEndpointDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUrl(HTTPS_URL, { message: 'url must be an https URL' })
+  @MaxLength(500)
+  url?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiPropertyOptional({ enum: WEBHOOK_EVENT_TYPES, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  events?: WebhookEventType[];
+
+  @ApiPropertyOptional({ description: 'Paused endpoints receive no new deliveries' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class WebhookDeliveryQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  endpointId?: string;
+
+  @ApiPropertyOptional({ enum: WebhookDeliveryStatus, description: 'dead lists the dead letters' })
+  @IsOptional()
+  @IsIn(Object.values(WebhookDeliveryStatus))
+  status?: WebhookDeliveryStatus;
+
+  @ApiPropertyOptional({ enum: WEBHOOK_EVENT_TYPES })
+  @IsOptional()
+  @IsIn(WEBHOOK_EVENT_TYPES)
+  eventType?: WebhookEventType;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class ReplayWebhookDeliveriesDto {
+  @ApiPropertyOptional({ description: 'Only the dead letters of this endpoint' })
+  @IsOptional()
+  @IsUUID()
+  endpointId?: string;
+}
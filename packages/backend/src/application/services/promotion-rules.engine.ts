@@ -1,10 +1,25 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
 import type { Promotion } from '@prisma/client';
+import type {
+  BundleReward,
+  BuyXGetYReward,
+  FreeItemReward,
+  PromotionConditions,
+  PromotionReward,
+  PromotionRewardType,
+  PromotionRules,
+  TieredSpendReward,
+} from './promotion-rules.types';
+import { PROMOTION_REWARD_TYPES } from './promotion-rules.types';
+import { resolveTimeZone, toWallClock } from '../../modules/reports/scheduled/report-schedule.util';
 
 export interface TransactionItem {
+  /** Caller's line reference, echoed back in the allocation; defaults to the line index */
+  lineId?: string;
   productId: string;
   variantId?: string;
+  categoryId?: string;
   quantity: number;
   price: number;
 }
@@ -16,6 +31,10 @@ export interface ApplicablePromotion {
   discountType: 'percentage' | 'fixed' | 'bogo';
   discountValue: number;
   calculatedDiscount: number;
+  rewardType: PromotionRewardType;
+  priority: number;
+  stackable: boolean;
+  exclusivityGroup: string | null;
 }
 
 export interface PromotionRuleContext {
@@ -24,16 +43,169 @@ export interface PromotionRuleContext {
   items: TransactionItem[];
   total: number;
   customerId?: string;
+  paymentMethod?: string;
+  /** Restrict evaluation to these promotions (e.g. one picked by the cashier) */
+  promotionIds?: string[];
   now?: Date;
 }
 
+export interface LineDiscountAllocation {
+  promotionId: string;
+  amount: number;
+}
+
+export interface PromotionLineResult {
+  lineId: string;
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  discount: number;
+  netTotal: number;
+  allocations: LineDiscountAllocation[];
+}
+
+export interface FreeItemSuggestion {
+  promotionId: string;
+  productId: string;
+  quantity: number;
+}
+
 export interface PromotionResult {
+  /** Every promotion the cart qualifies for, with its standalone discount */
   applicablePromotions: ApplicablePromotion[];
+  /** Promotions actually applied, with the discount each contributed */
+  appliedPromotions: ApplicablePromotion[];
   bestPromotion?: ApplicablePromotion;
   totalDiscount: number;
   finalTotal: number;
+  lines: PromotionLineResult[];
+  freeItems: FreeItemSuggestion[];
+}
+
+interface EngineLine {
+  index: number;
+  lineId: string;
+  productId: string;
+  variantId?: string;
+  categoryId?: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  /** Line value left after promotions applied earlier in the stack */
+  remaining: number;
+}
+
+interface CartFacts {
+  subtotal: number;
+  outletId?: string;
+  customerTier?: string;
+  paymentMethod?: string;
+  /** Outlet's local time in the UTC fields, for day and time-of-day rules */
+  wallClock: Date;
+}
+
+interface CompiledPromotion {
+  promotion: Promotion;
+  rules: PromotionRules;
 }
 
+interface RewardOutcome {
+  allocations: Map<number, number>;
+  freeItems: Array<{ productId: string; quantity: number }>;
+}
+
+interface Unit {
+  key: string;
+  index: number;
+  price: number;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Checks a rules document for values the engine cannot evaluate.
+ * Returns human-readable problems; an empty array means valid.
+ */
+export function validatePromotionRules(rules: PromotionRules): string[] {
+  const errors: string[] = [];
+  const { conditions = {}, reward } = rules ?? ({} as PromotionRules);
+
+  if (conditions.startTime && !TIME_PATTERN.test(conditions.startTime)) {
+    errors.push('conditions.startTime must be HH:mm');
+  }
+  if (conditions.endTime && !TIME_PATTERN.test(conditions.endTime)) {
+    errors.push('conditions.endTime must be HH:mm');
+  }
+  if (conditions.daysOfWeek?.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    errors.push('conditions.daysOfWeek must contain 0 (Sunday) to 6 (Saturday)');
+  }
+
+  if (!reward || !PROMOTION_REWARD_TYPES.includes(reward.type)) {
+    errors.push(`reward.type must be one of ${PROMOTION_REWARD_TYPES.join(', ')}`);
+    return errors;
+  }
+
+  switch (reward.type) {
+    case 'percentage':
+      if (!(reward.value > 0 && reward.value <= 100)) {
+        errors.push('percentage reward value must be between 0 and 100');
+      }
+      break;
+    case 'fixed_amount':
+      if (!(reward.value > 0)) errors.push('fixed_amount reward value must be positive');
+      break;
+    case 'buy_x_get_y':
+      if (!(reward.buyQuantity >= 1) || !(reward.getQuantity >= 1)) {
+        errors.push('buy_x_get_y needs buyQuantity and getQuantity of at least 1');
+      }
+      if (
+        reward.discountPercent !== undefined &&
+        !(reward.discountPercent > 0 && reward.discountPercent <= 100)
+      ) {
+        errors.push('buy_x_get_y discountPercent must be between 0 and 100');
+      }
+      break;
+    case 'bundle':
+      if (!reward.components?.length) errors.push('bundle needs at least one component');
+      if (reward.components?.some((c) => !c.productIds?.length || !(c.quantity >= 1))) {
+        errors.push('bundle components need productIds and a quantity of at least 1');
+      }
+      if (!(reward.bundlePrice >= 0)) errors.push('bundle bundlePrice must not be negative');
+      break;
+    case 'tiered_spend':
+      if (!reward.tiers?.length) errors.push('tiered_spend needs at least one tier');
+      if (
+        reward.tiers?.some(
+          (t) => t.discountType === 'percentage' && !(t.value > 0 && t.value <= 100),
+        )
+      ) {
+        errors.push('tiered_spend percentage tiers must be between 0 and 100');
+      }
+      break;
+    case 'free_item':
+      if (!reward.productId || !(reward.quantity >= 1)) {
+        errors.push('free_item needs productId and a quantity of at least 1');
+      }
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * PromotionRulesEngine - Evaluates promotions against a cart
+ *
+ * Each promotion is a conditions + reward rules document (legacy promotions
+ * are translated on the fly). Stackable promotions are applied in priority
+ * order, each against what is left of the lines after the previous ones, and
+ * at most one per exclusivity group. A non-stackable promotion applies alone;
+ * the engine picks whichever of the two outcomes saves the customer more.
+ *
+ * Discounts are whole currency units and come back allocated per line, so
+ * receipts and refunds can prorate them.
+ */
 @Injectable()
 export class PromotionRulesEngine {
   constructor(private readonly prisma: PrismaService) {}
@@ -48,160 +220,599 @@ export class PromotionRulesEngine {
         validFrom: { lte: now },
         validUntil: { gte: now },
         OR: [{ usageLimit: null }, { usedCount: { lt: this.prisma.promotion.fields.usageLimit } }],
+        ...(context.promotionIds && { id: { in: context.promotionIds } }),
       },
     });
 
-    const applicable: ApplicablePromotion[] = [];
+    const compiled = promotions
+      .filter((p) => !p.usageLimit || p.usedCount < p.usageLimit)
+      .map((p) => ({ promotion: p, rules: this.compileRules(p) }));
 
-    for (const promotion of promotions) {
-      const result = this.evaluatePromotion(promotion, context);
-      if (result) {
-        applicable.push(result);
+    const facts: CartFacts = {
+      subtotal: context.items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+      outletId: context.outletId,
+      paymentMethod: context.paymentMethod,
+      customerTier: await this.findCustomerTier(context, compiled),
+      wallClock: toWallClock(now, await this.findTimeZone(context, compiled)),
+    };
+    const lines = await this.buildLines(context.items, compiled);
+
+    // Standalone evaluation: what each promotion is worth on its own
+    const candidates: Array<{ compiled: CompiledPromotion; discount: number }> = [];
+    for (const entry of compiled) {
+      const outcome = this.evaluate(entry.rules, this.cloneLines(lines), facts);
+      if (!outcome) continue;
+      const discount = this.sum(outcome.allocations);
+      if (discount > 0 || outcome.freeItems.length > 0) {
+        candidates.push({ compiled: entry, discount });
       }
     }
 
-    // Sort by discount amount (highest first)
-    applicable.sort((a, b) => b.calculatedDiscount - a.calculatedDiscount);
+    candidates.sort(
+      (a, b) =>
+        b.discount - a.discount || b.compiled.promotion.priority - a.compiled.promotion.priority,
+    );
+
+    // Option 1: stack every stackable promotion, highest priority first
+    const stacked = this.applyStack(
+      candidates.filter((c) => c.compiled.promotion.stackable),
+      lines,
+      facts,
+    );
+
+    // Option 2: the best exclusive promotion on its own
+    const exclusive = candidates.find((c) => !c.compiled.promotion.stackable);
+    const chosen =
+      exclusive && (exclusive.discount > stacked.total || stacked.applied.length === 0)
+        ? this.applyStack([exclusive], lines, facts)
+        : stacked;
+
+    const lineResults = lines.map((line): PromotionLineResult => {
+      const allocations = chosen.applied
+        .map((applied) => ({
+          promotionId: applied.compiled.promotion.id,
+          amount: applied.allocations.get(line.index) ?? 0,
+        }))
+        .filter((a) => a.amount > 0);
+      const discount = allocations.reduce((sum, a) => sum + a.amount, 0);
+
+      return {
+        lineId: line.lineId,
+        productId: line.productId,
+        ...(line.variantId && { variantId: line.variantId }),
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        lineTotal: line.lineTotal,
+        discount,
+        netTotal: line.lineTotal - discount,
+        allocations,
+      };
+    });
 
-    const bestPromotion = applicable[0];
-    const totalDiscount = bestPromotion?.calculatedDiscount ?? 0;
+    const appliedPromotions = chosen.applied.map((applied) =>
+      this.toApplicable(applied.compiled, applied.discount),
+    );
+    const totalDiscount = chosen.total;
 
     return {
-      applicablePromotions: applicable,
-      bestPromotion,
+      applicablePromotions: candidates.map((c) => this.toApplicable(c.compiled, c.discount)),
+      appliedPromotions,
+      bestPromotion: appliedPromotions[0],
       totalDiscount,
       finalTotal: Math.max(0, context.total - totalDiscount),
+      lines: lineResults,
+      freeItems: chosen.applied.flatMap((applied) =>
+        applied.freeItems.map((item) => ({
+          promotionId: applied.compiled.promotion.id,
+          ...item,
+        })),
+      ),
     };
   }
 
-  private evaluatePromotion(
-    promotion: Promotion,
-    context: PromotionRuleContext,
-  ): ApplicablePromotion | null {
-    const discountValue = promotion.discountValue.toNumber();
-    const minPurchase = promotion.minPurchase?.toNumber();
-    const maxDiscount = promotion.maxDiscount?.toNumber();
-    const applicableTo = promotion.applicableTo as Record<string, unknown>;
-
-    // Check minimum purchase
-    if (minPurchase && context.total < minPurchase) {
-      return null;
-    }
+  async incrementUsageCount(promotionId: string): Promise<void> {
+    await this.prisma.promotion.update({
+      where: { id: promotionId },
+      data: { usedCount: { increment: 1 } },
+    });
+  }
 
-    // Check usage limit
-    if (promotion.usageLimit && promotion.usedCount >= promotion.usageLimit) {
-      return null;
+  // ==========================================================================
+  // Stacking
+  // ==========================================================================
+
+  private applyStack(
+    candidates: Array<{ compiled: CompiledPromotion; discount: number }>,
+    lines: EngineLine[],
+    facts: CartFacts,
+  ) {
+    const working = this.cloneLines(lines);
+    const usedGroups = new Set<string>();
+    const applied: Array<{
+      compiled: CompiledPromotion;
+      discount: number;
+      allocations: Map<number, number>;
+      freeItems: RewardOutcome['freeItems'];
+    }> = [];
+
+    const ordered = [...candidates].sort(
+      (a, b) =>
+        b.compiled.promotion.priority - a.compiled.promotion.priority || b.discount - a.discount,
+    );
+
+    for (const { compiled } of ordered) {
+      const group = compiled.promotion.exclusivityGroup;
+      if (group && usedGroups.has(group)) continue;
+
+      const outcome = this.evaluate(compiled.rules, working, facts);
+      if (!outcome) continue;
+      const discount = this.sum(outcome.allocations);
+      if (discount <= 0 && outcome.freeItems.length === 0) continue;
+
+      for (const [index, amount] of outcome.allocations) {
+        working[index].remaining -= amount;
+      }
+      if (group) usedGroups.add(group);
+      applied.push({ compiled, discount, ...outcome });
     }
 
-    // Check applicable filters
-    if (!this.passesApplicableFilters(applicableTo, context)) {
-      return null;
+    return { applied, total: applied.reduce((sum, a) => sum + a.discount, 0) };
+  }
+
+  // ==========================================================================
+  // Rules
+  // ==========================================================================
+
+  /**
+   * Promotions created before the rule language map their flat discount
+   * fields onto an equivalent rules document.
+   */
+  private compileRules(promotion: Promotion): PromotionRules {
+    if (promotion.rules) {
+      return promotion.rules as unknown as PromotionRules;
     }
 
-    let calculatedDiscount = 0;
+    const applicableTo = (promotion.applicableTo ?? {}) as Record<string, unknown>;
+    const conditions: PromotionConditions = {
+      productIds: applicableTo.productIds as string[] | undefined,
+      categoryIds: applicableTo.categoryIds as string[] | undefined,
+      outletIds: applicableTo.outlets as string[] | undefined,
+      minSubtotal: promotion.minPurchase?.toNumber(),
+    };
+    const value = promotion.discountValue.toNumber();
 
+    let reward: PromotionReward;
     switch (promotion.discountType) {
-      case 'percentage':
-        calculatedDiscount = (context.total * discountValue) / 100;
-        if (maxDiscount) {
-          calculatedDiscount = Math.min(calculatedDiscount, maxDiscount);
-        }
-        break;
-
       case 'fixed':
-        calculatedDiscount = Math.min(discountValue, context.total);
+        reward = { type: 'fixed_amount', value };
         break;
-
       case 'bogo':
-        calculatedDiscount = this.calculateBogoDiscount(discountValue, context, applicableTo);
+        reward = { type: 'buy_x_get_y', buyQuantity: 1, getQuantity: 1, discountPercent: value };
         break;
+      default:
+        reward = {
+          type: 'percentage',
+          value,
+          maxDiscount: promotion.maxDiscount?.toNumber(),
+        };
     }
 
-    if (calculatedDiscount <= 0) {
+    return { conditions, reward };
+  }
+
+  private evaluate(
+    rules: PromotionRules,
+    lines: EngineLine[],
+    facts: CartFacts,
+  ): RewardOutcome | null {
+    const conditions = rules.conditions ?? {};
+    const eligible = this.eligibleLines(lines, conditions);
+
+    if (!this.passesConditions(conditions, facts, eligible)) {
       return null;
     }
 
-    return {
-      id: promotion.id,
-      name: promotion.name,
-      description: promotion.description,
-      discountType: promotion.discountType,
-      discountValue,
-      calculatedDiscount: Math.floor(calculatedDiscount),
-    };
+    const reward = rules.reward;
+    const outcome: RewardOutcome = { allocations: new Map(), freeItems: [] };
+
+    switch (reward.type) {
+      case 'percentage': {
+        const base = this.remainingOf(eligible);
+        let total = Math.floor((base * Math.min(reward.value, 100)) / 100);
+        if (reward.maxDiscount) total = Math.min(total, reward.maxDiscount);
+        outcome.allocations = this.distribute(total, this.weightsOf(eligible));
+        break;
+      }
+      case 'fixed_amount': {
+        const total = Math.min(reward.value, Math.floor(this.remainingOf(eligible)));
+        outcome.allocations = this.distribute(total, this.weightsOf(eligible));
+        break;
+      }
+      case 'buy_x_get_y':
+        outcome.allocations = this.buyXGetY(reward, lines, eligible, conditions);
+        break;
+      case 'bundle':
+        outcome.allocations = this.bundle(reward, lines, conditions);
+        break;
+      case 'tiered_spend':
+        outcome.allocations = this.tieredSpend(reward, eligible);
+        break;
+      case 'free_item':
+        return this.freeItem(reward, lines, conditions);
+    }
+
+    return outcome;
   }
 
-  private passesApplicableFilters(
-    applicableTo: Record<string, unknown>,
-    context: PromotionRuleContext,
+  private eligibleLines(lines: EngineLine[], conditions: PromotionConditions): EngineLine[] {
+    const productIds = conditions.productIds ?? [];
+    const categoryIds = conditions.categoryIds ?? [];
+    const filtered = productIds.length > 0 || categoryIds.length > 0;
+
+    return lines.filter((line) => {
+      if (conditions.excludeProductIds?.includes(line.productId)) return false;
+      if (!filtered) return true;
+      return (
+        productIds.includes(line.productId) ||
+        (!!line.categoryId && categoryIds.includes(line.categoryId))
+      );
+    });
+  }
+
+  private passesConditions(
+    conditions: PromotionConditions,
+    facts: CartFacts,
+    eligible: EngineLine[],
   ): boolean {
-    if (!applicableTo || Object.keys(applicableTo).length === 0) {
-      return true;
+    // Callers without an outlet (e.g. back-office previews) are not filtered, as before rules
+    if (conditions.outletIds?.length && facts.outletId) {
+      if (!conditions.outletIds.includes(facts.outletId)) return false;
     }
-
-    // Check outlet filter
-    const outlets = applicableTo.outlets as string[] | undefined;
-    if (outlets && outlets.length > 0 && context.outletId) {
-      if (!outlets.includes(context.outletId)) {
+    if (conditions.customerTiers?.length) {
+      if (!facts.customerTier || !conditions.customerTiers.includes(facts.customerTier)) {
         return false;
       }
     }
+    if (conditions.paymentMethods?.length) {
+      if (!facts.paymentMethod || !conditions.paymentMethods.includes(facts.paymentMethod)) {
+        return false;
+      }
+    }
+    if (
+      conditions.daysOfWeek?.length &&
+      !conditions.daysOfWeek.includes(facts.wallClock.getUTCDay())
+    ) {
+      return false;
+    }
+    if (!this.withinTimeWindow(conditions, facts.wallClock)) {
+      return false;
+    }
+    if (conditions.minSubtotal && facts.subtotal < conditions.minSubtotal) {
+      return false;
+    }
 
-    // Check customer filter
-    const customerSegments = applicableTo.customerSegments as string[] | undefined;
-    if (customerSegments && customerSegments.length > 0) {
-      // TODO: Implement customer segment checking
+    const filtered = !!(conditions.productIds?.length || conditions.categoryIds?.length);
+    if (filtered && eligible.length === 0) {
+      return false;
+    }
+    if (conditions.minQuantity) {
+      const quantity = eligible.reduce((sum, line) => sum + line.quantity, 0);
+      if (quantity < conditions.minQuantity) return false;
     }
 
-    // Check product filter
-    const productIds = applicableTo.productIds as string[] | undefined;
-    const categoryIds = applicableTo.categoryIds as string[] | undefined;
+    return true;
+  }
 
-    if ((productIds && productIds.length > 0) || (categoryIds && categoryIds.length > 0)) {
-      const hasMatchingItems = context.items.some((item: TransactionItem) => {
-        if (productIds && productIds.includes(item.productId)) {
-          return true;
-        }
-        // TODO: Check category IDs
-        return false;
-      });
+  private withinTimeWindow(conditions: PromotionConditions, wallClock: Date): boolean {
+    if (!conditions.startTime && !conditions.endTime) return true;
 
-      if (!hasMatchingItems) {
-        return false;
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+    const current = wallClock.getUTCHours() * 60 + wallClock.getUTCMinutes();
+    const start = conditions.startTime ? toMinutes(conditions.startTime) : 0;
+    const end = conditions.endTime ? toMinutes(conditions.endTime) : 24 * 60;
+
+    // Windows such as 22:00-02:00 wrap past midnight
+    return start <= end ? current >= start && current < end : current >= start || current < end;
+  }
+
+  // ==========================================================================
+  // Rewards
+  // ==========================================================================
+
+  /**
+   * The cheapest qualifying units are discounted; the most expensive units
+   * count as the "buy" side so the same unit never plays both roles.
+   */
+  private buyXGetY(
+    reward: BuyXGetYReward,
+    lines: EngineLine[],
+    eligible: EngineLine[],
+    conditions: PromotionConditions,
+  ): Map<number, number> {
+    const getPool = reward.getProductIds?.length
+      ? lines.filter(
+          (line) =>
+            reward.getProductIds!.includes(line.productId) &&
+            !conditions.excludeProductIds?.includes(line.productId),
+        )
+      : eligible;
+
+    const buyUnits = this.expandUnits(eligible).sort((a, b) => b.price - a.price);
+    const getUnits = this.expandUnits(getPool).sort((a, b) => a.price - b.price);
+    const percent = Math.min(reward.discountPercent ?? 100, 100);
+
+    const used = new Set<string>();
+    const weights = new Map<number, number>();
+    let applications = 0;
+
+    while (!reward.maxApplications || applications < reward.maxApplications) {
+      const gets = this.takeUnits(getUnits, reward.getQuantity, used);
+      if (!gets) break;
+      const buys = this.takeUnits(
+        buyUnits,
+        reward.buyQuantity,
+        new Set([...used, ...gets.map((u) => u.key)]),
+      );
+      if (!buys) break;
+
+      [...gets, ...buys].forEach((unit) => used.add(unit.key));
+      for (const unit of gets) {
+        weights.set(unit.index, (weights.get(unit.index) ?? 0) + (unit.price * percent) / 100);
       }
+      applications++;
     }
 
-    return true;
+    return this.distribute(Math.floor(this.sum(weights)), weights);
   }
 
-  private calculateBogoDiscount(
-    discountValue: number,
-    context: PromotionRuleContext,
-    applicableTo: Record<string, unknown>,
-  ): number {
-    // BOGO: Buy X Get Y discount (e.g., buy 1 get 1 50% off)
-    const productIds = applicableTo.productIds as string[] | undefined;
-
-    let applicableItems = context.items;
-    if (productIds && productIds.length > 0) {
-      applicableItems = context.items.filter((item: TransactionItem) =>
-        productIds.includes(item.productId),
-      );
+  /**
+   * Each complete set of components is sold at `bundlePrice`; the saving is
+   * spread over the units in the set by their value.
+   */
+  private bundle(
+    reward: BundleReward,
+    lines: EngineLine[],
+    conditions: PromotionConditions,
+  ): Map<number, number> {
+    const available = lines.filter(
+      (line) => !conditions.excludeProductIds?.includes(line.productId),
+    );
+    const used = new Set<string>();
+    const weights = new Map<number, number>();
+    let applications = 0;
+
+    while (!reward.maxApplications || applications < reward.maxApplications) {
+      const taken = new Set(used);
+      const set: Unit[] = [];
+
+      for (const component of reward.components) {
+        const units = this.expandUnits(
+          available.filter((line) => component.productIds.includes(line.productId)),
+        ).sort((a, b) => b.price - a.price);
+        const picked = this.takeUnits(units, component.quantity, taken);
+        if (!picked) break;
+        picked.forEach((unit) => taken.add(unit.key));
+        set.push(...picked);
+      }
+
+      const componentCount = reward.components.reduce((sum, c) => sum + c.quantity, 0);
+      if (set.length < componentCount) break;
+
+      const regular = set.reduce((sum, unit) => sum + unit.price, 0);
+      if (regular <= reward.bundlePrice) break;
+
+      const saving = regular - reward.bundlePrice;
+      for (const unit of set) {
+        used.add(unit.key);
+        weights.set(unit.index, (weights.get(unit.index) ?? 0) + (unit.price * saving) / regular);
+      }
+      applications++;
     }
 
-    if (applicableItems.length === 0) {
-      return 0;
+    return this.distribute(Math.floor(this.sum(weights)), weights);
+  }
+
+  /**
+   * Thresholds are measured on eligible spend before discounts; the highest
+   * tier reached applies.
+   */
+  private tieredSpend(reward: TieredSpendReward, eligible: EngineLine[]): Map<number, number> {
+    const spend = eligible.reduce((sum, line) => sum + line.lineTotal, 0);
+    const tier = [...reward.tiers]
+      .sort((a, b) => b.minSubtotal - a.minSubtotal)
+      .find((t) => spend >= t.minSubtotal);
+    if (!tier) return new Map();
+
+    const base = this.remainingOf(eligible);
+    let total =
+      tier.discountType === 'percentage'
+        ? Math.floor((base * Math.min(tier.value, 100)) / 100)
+        : Math.min(tier.value, Math.floor(base));
+    if (tier.maxDiscount) total = Math.min(total, tier.maxDiscount);
+
+    return this.distribute(total, this.weightsOf(eligible));
+  }
+
+  /**
+   * Discounts the free product if it is already in the cart; any quantity
+   * still owed is returned as a free item for the POS to add.
+   */
+  private freeItem(
+    reward: FreeItemReward,
+    lines: EngineLine[],
+    conditions: PromotionConditions,
+  ): RewardOutcome {
+    const units = this.expandUnits(
+      lines.filter(
+        (line) =>
+          line.productId === reward.productId &&
+          !conditions.excludeProductIds?.includes(line.productId),
+      ),
+    ).sort((a, b) => a.price - b.price);
+
+    const free = units.slice(0, reward.quantity);
+    const weights = new Map<number, number>();
+    for (const unit of free) {
+      weights.set(unit.index, (weights.get(unit.index) ?? 0) + unit.price);
     }
 
-    // For simplicity, give discount on cheapest item
-    const cheapestPrice = Math.min(...applicableItems.map((item: TransactionItem) => item.price));
-    return cheapestPrice * (discountValue / 100);
+    const missing = reward.quantity - free.length;
+    return {
+      allocations: this.distribute(Math.floor(this.sum(weights)), weights),
+      freeItems: missing > 0 ? [{ productId: reward.productId, quantity: missing }] : [],
+    };
   }
 
-  async incrementUsageCount(promotionId: string): Promise<void> {
-    await this.prisma.promotion.update({
-      where: { id: promotionId },
-      data: { usedCount: { increment: 1 } },
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async buildLines(
+    items: TransactionItem[],
+    compiled: CompiledPromotion[],
+  ): Promise<EngineLine[]> {
+    const needsCategories = compiled.some((c) => c.rules.conditions?.categoryIds?.length);
+    const missing = items.filter((item) => !item.categoryId).map((item) => item.productId);
+
+    const categories = new Map<string, string>();
+    if (needsCategories && missing.length > 0) {
+      const products = await this.prisma.product.findMany({
+        where: { id: { in: [...new Set(missing)] } },
+        select: { id: true, categoryId: true },
+      });
+      for (const product of products) {
+        if (product.categoryId) categories.set(product.id, product.categoryId);
+      }
+    }
+
+    return items.map((item, index) => {
+      const lineTotal = item.price * item.quantity;
+      return {
+        index,
+        lineId: item.lineId ?? String(index),
+        productId: item.productId,
+        variantId: item.variantId,
+        categoryId: item.categoryId ?? categories.get(item.productId),
+        quantity: item.quantity,
+        unitPrice: item.price,
+        lineTotal,
+        remaining: lineTotal,
+      };
     });
   }
+
+  private async findCustomerTier(
+    context: PromotionRuleContext,
+    compiled: CompiledPromotion[],
+  ): Promise<string | undefined> {
+    if (!context.customerId || !compiled.some((c) => c.rules.conditions?.customerTiers?.length)) {
+      return undefined;
+    }
+    const customer = await this.prisma.customer.findFirst({
+      where: { id: context.customerId, businessId: context.businessId },
+      select: { loyaltyTier: true },
+    });
+    return customer?.loyaltyTier;
+  }
+
+  /** Day and time rules follow the outlet's clock; without an outlet, the default zone */
+  private async findTimeZone(
+    context: PromotionRuleContext,
+    compiled: CompiledPromotion[],
+  ): Promise<string> {
+    const timed = compiled.some(
+      (c) =>
+        c.rules.conditions?.daysOfWeek?.length ||
+        c.rules.conditions?.startTime ||
+        c.rules.conditions?.endTime,
+    );
+    if (!context.outletId || !timed) return resolveTimeZone(null);
+
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: context.outletId, businessId: context.businessId },
+      select: { timezone: true },
+    });
+    return resolveTimeZone(outlet?.timezone);
+  }
+
+  private toApplicable(compiled: CompiledPromotion, discount: number): ApplicablePromotion {
+    const { promotion, rules } = compiled;
+    return {
+      id: promotion.id,
+      name: promotion.name,
+      description: promotion.description,
+      discountType: promotion.discountType,
+      discountValue: promotion.discountValue.toNumber(),
+      calculatedDiscount: discount,
+      rewardType: rules.reward.type,
+      priority: promotion.priority,
+      stackable: promotion.stackable,
+      exclusivityGroup: promotion.exclusivityGroup,
+    };
+  }
+
+  /** Whole units only; weighed (fractional) quantities contribute their whole part */
+  private expandUnits(lines: EngineLine[]): Unit[] {
+    return lines.flatMap((line) => {
+      const count = Math.floor(line.quantity);
+      if (count <= 0 || line.remaining <= 0) return [];
+      const price = line.remaining / line.quantity;
+      return Array.from({ length: count }, (_, n) => ({
+        key: `${line.index}:${n}`,
+        index: line.index,
+        price,
+      }));
+    });
+  }
+
+  private takeUnits(units: Unit[], count: number, used: Set<string>): Unit[] | null {
+    const picked = units.filter((unit) => !used.has(unit.key)).slice(0, count);
+    return picked.length === count ? picked : null;
+  }
+
+  /**
+   * Splits a whole-unit total over lines in proportion to their weights,
+   * handing leftover units to the largest remainders.
+   */
+  private distribute(total: number, weights: Map<number, number>): Map<number, number> {
+    const result = new Map<number, number>();
+    const weightSum = this.sum(weights);
+    if (total <= 0 || weightSum <= 0) return result;
+
+    const shares = [...weights].map(([index, weight]) => {
+      const exact = (total * weight) / weightSum;
+      return { index, base: Math.floor(exact), fraction: exact - Math.floor(exact) };
+    });
+
+    let leftover = total - shares.reduce((sum, s) => sum + s.base, 0);
+    shares.sort((a, b) => b.fraction - a.fraction);
+    for (const share of shares) {
+      const amount = share.base + (leftover > 0 ? 1 : 0);
+      if (leftover > 0) leftover--;
+      if (amount > 0) result.set(share.index, amount);
+    }
+
+    return result;
+  }
+
+  private weightsOf(lines: EngineLine[]): Map<number, number> {
+    return new Map(lines.filter((l) => l.remaining > 0).map((l) => [l.index, l.remaining]));
+  }
+
+  private remainingOf(lines: EngineLine[]): number {
+    return lines.reduce((sum, line) => sum + Math.max(0, line.remaining), 0);
+  }
+
+  private cloneLines(lines: EngineLine[]): EngineLine[] {
+    return lines.map((line) => ({ ...line }));
+  }
+
+  private sum(values: Map<number, number>): number {
+    let total = 0;
+    for (const value of values.values()) total += value;
+    return total;
+  }
 }
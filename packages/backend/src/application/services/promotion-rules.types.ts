@@ -0,0 +1,104 @@
+/**
+ * Promotion rule language
+ *
+ * A promotion's `rules` column holds one `PromotionRules` document: the
+ * conditions the cart must meet and the reward it earns. Promotions created
+ * before rules existed keep using `discountType` / `applicableTo` and are
+ * translated into the same shape by the rules engine.
+ */
+
+export interface PromotionConditions {
+  /** Eligible lines: product in `productIds` or category in `categoryIds` (empty = all lines) */
+  productIds?: string[];
+  categoryIds?: string[];
+  excludeProductIds?: string[];
+  customerTiers?: string[];
+  outletIds?: string[];
+  /** 0 = Sunday ... 6 = Saturday */
+  daysOfWeek?: number[];
+  /** HH:mm, start inclusive and end exclusive; a window may wrap past midnight */
+  startTime?: string;
+  endTime?: string;
+  paymentMethods?: string[];
+  /** Cart subtotal before any promotion */
+  minSubtotal?: number;
+  /** Total quantity across eligible lines */
+  minQuantity?: number;
+}
+
+export interface PercentageReward {
+  type: 'percentage';
+  value: number;
+  maxDiscount?: number;
+}
+
+export interface FixedAmountReward {
+  type: 'fixed_amount';
+  value: number;
+}
+
+export interface BuyXGetYReward {
+  type: 'buy_x_get_y';
+  buyQuantity: number;
+  getQuantity: number;
+  /** Products the free units are chosen from; defaults to the eligible lines */
+  getProductIds?: string[];
+  /** Discount on the "get" units, 100 = free */
+  discountPercent?: number;
+  maxApplications?: number;
+}
+
+export interface BundleComponent {
+  /** Any of these products fills the slot */
+  productIds: string[];
+  quantity: number;
+}
+
+export interface BundleReward {
+  type: 'bundle';
+  components: BundleComponent[];
+  bundlePrice: number;
+  maxApplications?: number;
+}
+
+export interface SpendTier {
+  minSubtotal: number;
+  discountType: 'percentage' | 'fixed_amount';
+  value: number;
+  maxDiscount?: number;
+}
+
+export interface TieredSpendReward {
+  type: 'tiered_spend';
+  tiers: SpendTier[];
+}
+
+export interface FreeItemReward {
+  type: 'free_item';
+  productId: string;
+  quantity: number;
+}
+
+export type PromotionReward =
+  | PercentageReward
+  | FixedAmountReward
+  | BuyXGetYReward
+  | BundleReward
+  | TieredSpendReward
+  | FreeItemReward;
+
+export type PromotionRewardType = PromotionReward['type'];
+
+export const PROMOTION_REWARD_TYPES: PromotionRewardType[] = [
+  'percentage',
+  'fixed_amount',
+  'buy_x_get_y',
+  'bundle',
+  'tiered_spend',
+  'free_item',
+];
+
+export interface PromotionRules {
+  conditions: PromotionConditions;
+  reward: PromotionReward;
+}
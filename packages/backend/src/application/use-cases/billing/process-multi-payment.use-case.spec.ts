@@ -0,0 +1,174 @@
+import { ProcessMultiPaymentUseCase } from './process-multi-payment.use-case';
+import { BusinessError } from '@shared/errors/business-error';
+import type {
+  ITransactionRepository,
+  TransactionRecord,
+} from '@domain/interfaces/repositories/transaction.repository';
+import type { IPaymentGateway } from '@domain/interfaces/services/payment-gateway';
+import type { PrismaService } from '@infrastructure/database/prisma.service';
+import type { StoredValueService } from '../../../modules/gift-cards/stored-value.service';
+import type { ReservationDepositService } from '../../../modules/reservations/reservation-deposit.service';
+
+describe('ProcessMultiPaymentUseCase', () => {
+  let useCase: ProcessMultiPaymentUseCase;
+  let mockTransactionRepo: jest.Mocked<ITransactionRepository>;
+  let mockGateway: jest.Mocked<IPaymentGateway>;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let paymentCreate: jest.Mock;
+  let paymentUpdateMany: jest.Mock;
+
+  const transaction: TransactionRecord = {
+    id: 'txn-1',
+    businessId: 'biz-1',
+    outletId: 'outlet-1',
+    employeeId: 'emp-1',
+    customerId: null,
+    shiftId: 'shift-1',
+    receiptNumber: 'TXN-001',
+    transactionType: 'sale',
+    orderType: 'dine_in',
+    tableId: null,
+    subtotal: 100000,
+    discountAmount: 0,
+    taxAmount: 0,
+    serviceCharge: 0,
+    grandTotal: 100000,
+    notes: null,
+    status: 'pending',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    let paymentCounter = 0;
+    paymentCreate = jest.fn().mockImplementation(async () => ({ id: `pay-${++paymentCounter}` }));
+    paymentUpdateMany = jest.fn().mockResolvedValue({ count: 1 });
+
+    mockTransactionRepo = {
+      findById: jest.fn().mockResolvedValue(transaction),
+      findByReceiptNumber: jest.fn(),
+      findByOutletAndDateRange: jest.fn(),
+      save: jest.fn(),
+      update: jest.fn(),
+      findItemsByTransactionId: jest.fn(),
+      findPaymentsByTransactionId: jest.fn(),
+    };
+
+    mockGateway = {
+      processPayment: jest.fn(),
+      refundPayment: jest.fn().mockResolvedValue({ success: true, refundRef: 'rf-1' }),
+      checkStatus: jest.fn(),
+    };
+
+    mockPrisma = {
+      payment: { create: paymentCreate, updateMany: paymentUpdateMany },
+      $transaction: jest.fn((fn) => fn(mockPrisma)),
+    } as unknown as jest.Mocked<PrismaService>;
+
+    const storedValue = {
+      redeem: jest.fn().mockResolvedValue([]),
+      reverse: jest.fn().mockResolvedValue(undefined),
+    } as unknown as StoredValueService;
+    const reservationDeposits = {
+      apply: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(0),
+    } as unknown as ReservationDepositService;
+
+    useCase = new ProcessMultiPaymentUseCase(
+      mockTransactionRepo,
+      mockGateway,
+      mockPrisma,
+      storedValue,
+      reservationDeposits,
+    );
+  });
+
+  it('records each tender and completes the transaction', async () => {
+    mockGateway.processPayment.mockResolvedValue({ success: true, transactionRef: 'gw-1' });
+
+    const result = await useCase.execute({
+      transactionId: 'txn-1',
+      payments: [
+        { method: 'qris', amount: 60000 },
+        { method: 'cash', amount: 50000 },
+      ],
+    });
+
+    expect(result.paymentRecords).toHaveLength(2);
+    expect(result.change).toBe(10000);
+    expect(paymentCreate.mock.calls[0][0].data.metadata).toEqual({ gatewayRef: 'gw-1' });
+    expect(mockTransactionRepo.update).toHaveBeenCalledWith('txn-1', { status: 'completed' });
+  });
+
+  it('refunds an earlier gateway tender when a later tender is declined', async () => {
+    mockGateway.processPayment
+      .mockResolvedValueOnce({ success: true, transactionRef: 'gw-1' })
+      .mockResolvedValueOnce({ success: false, transactionRef: '', message: 'Card declined' });
+
+    await expect(
+      useCase.execute({
+        transactionId: 'txn-1',
+        payments: [
+          { method: 'qris', amount: 40000 },
+          { method: 'credit_card', amount: 60000 },
+        ],
+      }),
+    ).rejects.toThrow(BusinessError);
+
+    expect(paymentCreate).toHaveBeenCalledTimes(1);
+    expect(mockGateway.refundPayment).toHaveBeenCalledWith('gw-1', 40000, 'Multi-payment failed');
+    expect(paymentUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['pay-1'] } },
+      data: { status: 'refunded' },
+    });
+    expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps a captured tender completed when the gateway refuses its refund', async () => {
+    mockGateway.processPayment
+      .mockResolvedValueOnce({ success: true, transactionRef: 'gw-1' })
+      .mockRejectedValueOnce(new Error('Gateway timeout'));
+    mockGateway.refundPayment.mockResolvedValue({
+      success: false,
+      refundRef: '',
+      message: 'Refund window closed',
+    });
+
+    await expect(
+      useCase.execute({
+        transactionId: 'txn-1',
+        payments: [
+          { method: 'qris', amount: 40000 },
+          { method: 'credit_card', amount: 60000 },
+        ],
+      }),
+    ).rejects.toThrow('Gateway timeout');
+
+    expect(mockGateway.refundPayment).toHaveBeenCalledTimes(1);
+    expect(paymentUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('marks a cash tender failed when a later gateway tender fails', async () => {
+    mockGateway.processPayment.mockResolvedValue({
+      success: false,
+      transactionRef: '',
+      message: 'Insufficient funds',
+    });
+
+    await expect(
+      useCase.execute({
+        transactionId: 'txn-1',
+        payments: [
+          { method: 'cash', amount: 50000 },
+          { method: 'debit_card', amount: 50000 },
+        ],
+      }),
+    ).rejects.toThrow(BusinessError);
+
+    expect(mockGateway.refundPayment).not.toHaveBeenCalled();
+    expect(paymentUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['pay-1'] } },
+      data: { status: 'failed' },
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { REPOSITORY_TOKENS } from '@infrastructure/repositories/repository.tokens';
 import { SERVICE_TOKENS } from '@infrastructure/services/service.tokens';
 import { TransactionNotFoundException } from '@domain/exceptions/transaction-not-found.exception';
@@ -7,6 +7,15 @@ import { ErrorCode } from '@shared/constants/error-codes';
 import type { ITransactionRepository } from '@domain/interfaces/repositories/transaction.repository';
 import type { IPaymentGateway } from '@domain/interfaces/services/payment-gateway';
 import { PrismaService } from '@infrastructure/database/prisma.service';
+import type { PaymentMethod } from '@prisma/client';
+import {
+  StoredValueService,
+  isStoredValueMethod,
+} from '../../../modules/gift-cards/stored-value.service';
+import {
+  RESERVATION_DEPOSIT_METHOD,
+  ReservationDepositService,
+} from '../../../modules/reservations/reservation-deposit.service';
 
 export interface MultiPaymentInput {
   transactionId: string;
@@ -30,12 +39,16 @@ export interface MultiPaymentOutput {
 
 @Injectable()
 export class ProcessMultiPaymentUseCase {
+  private readonly logger = new Logger(ProcessMultiPaymentUseCase.name);
+
   constructor(
     @Inject(REPOSITORY_TOKENS.TRANSACTION)
     private readonly transactionRepo: ITransactionRepository,
     @Inject(SERVICE_TOKENS.PAYMENT_GATEWAY)
     private readonly paymentGateway: IPaymentGateway,
     private readonly prisma: PrismaService,
+    private readonly storedValue: StoredValueService,
+    private readonly reservationDeposits: ReservationDepositService,
   ) {}
 
   async execute(input: MultiPaymentInput): Promise<MultiPaymentOutput> {
@@ -52,41 +65,98 @@ export class ProcessMultiPaymentUseCase {
       );
     }
 
+    // Gift card and wallet balances and reservation deposits are taken first
+    // so an insufficient balance fails the payment before any card or
+    // e-wallet is charged
+    const redeemed = await this.prisma.$transaction(async (tx) => {
+      const movements = await this.storedValue.redeem(tx, {
+        outletId: transaction.outletId,
+        transactionId: input.transactionId,
+        customerId: transaction.customerId,
+        employeeId: transaction.employeeId,
+        payments: input.payments,
+      });
+      await this.reservationDeposits.apply(tx, {
+        outletId: transaction.outletId,
+        transactionId: input.transactionId,
+        payments: input.payments,
+      });
+      return movements;
+    });
+
     const paymentRecords: { paymentId: string; method: string; amount: number }[] = [];
+    // Tenders the gateway has already charged, kept so they can be refunded
+    // if a later tender fails
+    const captured: { paymentId: string; transactionRef: string; amount: number }[] = [];
+
+    try {
+      for (const payment of input.payments) {
+        let transactionRef: string | null = null;
+        if (
+          payment.method !== 'cash' &&
+          payment.method !== RESERVATION_DEPOSIT_METHOD &&
+          !isStoredValueMethod(payment.method)
+        ) {
+          const result = await this.paymentGateway.processPayment({
+            method: payment.method,
+            amount: payment.amount,
+            referenceNumber: payment.referenceNumber,
+          });
+          if (!result.success) {
+            throw new BusinessError(
+              ErrorCode.INVALID_PAYMENT,
+              `Payment gateway declined the ${payment.method} tender: ${result.message ?? 'unknown error'}`,
+            );
+          }
+          transactionRef = result.transactionRef;
+        }
 
-    for (const payment of input.payments) {
-      if (payment.method !== 'cash') {
-        await this.paymentGateway.processPayment({
+        const record = await this.prisma.payment.create({
+          data: {
+            transactionId: input.transactionId,
+            paymentMethod: payment.method as PaymentMethod,
+            amount: payment.amount,
+            referenceNumber: payment.referenceNumber || null,
+            status: 'completed',
+            ...(transactionRef && { metadata: { gatewayRef: transactionRef } }),
+          },
+        });
+
+        paymentRecords.push({
+          paymentId: record.id,
           method: payment.method,
           amount: payment.amount,
-          referenceNumber: payment.referenceNumber,
         });
+        if (transactionRef) {
+          captured.push({ paymentId: record.id, transactionRef, amount: payment.amount });
+        }
       }
-
-      const record = await this.prisma.payment.create({
-        data: {
-          transactionId: input.transactionId,
-          paymentMethod: payment.method as
-            | 'cash'
-            | 'card'
-            | 'gopay'
-            | 'ovo'
-            | 'dana'
-            | 'shopeepay'
-            | 'qris'
-            | 'bank_transfer'
-            | 'credit_note',
-          amount: payment.amount,
-          referenceNumber: payment.referenceNumber || null,
-          status: 'completed',
-        },
-      });
-
-      paymentRecords.push({
-        paymentId: record.id,
-        method: payment.method,
-        amount: payment.amount,
+    } catch (error) {
+      // Charges taken before the failing tender go back to the customer; a row
+      // whose refund the gateway refuses stays completed so it is not lost
+      const refunded = await this.refundCaptured(captured);
+      const failed = paymentRecords
+        .map((record) => record.paymentId)
+        .filter((id) => !captured.some((tender) => tender.paymentId === id));
+      if (refunded.length > 0) {
+        await this.prisma.payment.updateMany({
+          where: { id: { in: refunded } },
+          data: { status: 'refunded' },
+        });
+      }
+      if (failed.length > 0) {
+        await this.prisma.payment.updateMany({
+          where: { id: { in: failed } },
+          data: { status: 'failed' },
+        });
+      }
+      await this.storedValue.reverse(redeemed, input.transactionId, {
+        outletId: transaction.outletId,
+        employeeId: transaction.employeeId,
+        notes: 'Payment failed',
       });
+      await this.reservationDeposits.release(input.transactionId);
+      throw error;
     }
 
     let cashChange = 0;
@@ -108,4 +178,32 @@ export class ProcessMultiPaymentUseCase {
       paymentRecords,
     };
   }
+
+  /** Refunds each captured tender and returns the payment ids the gateway gave back */
+  private async refundCaptured(
+    captured: { paymentId: string; transactionRef: string; amount: number }[],
+  ): Promise<string[]> {
+    const refunded: string[] = [];
+    for (const tender of captured) {
+      try {
+        const result = await this.paymentGateway.refundPayment(
+          tender.transactionRef,
+          tender.amount,
+          'Multi-payment failed',
+        );
+        if (result.success) {
+          refunded.push(tender.paymentId);
+        } else {
+          this.logger.error(
+            `Refund of ${tender.transactionRef} refused: ${result.message ?? 'unknown error'}`,
+          );
+        }
+      } catch (error) {
+        this.logger.error(
+          `Refund of ${tender.transactionRef} failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return refunded;
+  }
 }
@@ -1,6 +1,7 @@
 import { Inject, Injectable } from '@nestjs/common';
 import { REPOSITORY_TOKENS } from '@infrastructure/repositories/repository.tokens';
 import { PrismaService } from '@infrastructure/database/prisma.service';
+import { assertSellingLocation } from '@infrastructure/database/selling-location';
 import { EventBusService } from '@infrastructure/events/event-bus.service';
 import type { PaymentMethod } from '@prisma/client';
 import { TransactionCreatedEvent } from '@domain/events/transaction-created.event';
@@ -11,6 +12,8 @@ import { ErrorCode } from '@shared/constants/error-codes';
 import type { IShiftRepository } from '@domain/interfaces/repositories/shift.repository';
 import type { IProductRepository } from '@domain/interfaces/repositories/product.repository';
 import type { IInventoryRepository } from '@domain/interfaces/repositories/inventory.repository';
+import { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
+import { BinStockService } from '../../../modules/warehouses/bin-stock.service';
 
 export interface CreateCreditTransactionInput {
   outletId: string;
@@ -57,6 +60,8 @@ export class CreateCreditTransactionUseCase {
     private readonly inventoryRepo: IInventoryRepository,
     private readonly eventBus: EventBusService,
     private readonly prisma: PrismaService,
+    private readonly numbering: DocumentNumberingService,
+    private readonly binStock: BinStockService,
   ) {}
 
   async execute(input: CreateCreditTransactionInput): Promise<CreateCreditTransactionOutput> {
@@ -65,6 +70,7 @@ export class CreateCreditTransactionUseCase {
     if (!shift || shift.status !== 'open') {
       throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'Shift is not open');
     }
+    await assertSellingLocation(this.prisma, input.outletId);
 
     // Customer is required for credit sales
     if (!input.customerId) {
@@ -133,13 +139,18 @@ export class CreateCreditTransactionUseCase {
     const outstandingAmount = grandTotal - downPayment;
     const transactionStatus = downPayment > 0 ? 'partially_paid' : 'credit';
 
-    const receiptNumber = `TXN-${Date.now()}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
     const transactionId = crypto.randomUUID();
     const creditSaleId = crypto.randomUUID();
 
     // ATOMIC TRANSACTION: Create transaction + deduct stock + create credit sale record
-    await this.prisma.$transaction(async (tx) => {
-      // 1. Create transaction record
+    const receiptNumber = await this.prisma.$transaction(async (tx) => {
+      // 1. Take the next receipt number and create the transaction record
+      const number = await this.numbering.allocate(tx, {
+        outletId: input.outletId,
+        documentType: 'sale',
+        documentId: transactionId,
+      });
+
       await tx.transaction.create({
         data: {
           id: transactionId,
@@ -147,7 +158,7 @@ export class CreateCreditTransactionUseCase {
           employeeId: input.employeeId,
           customerId: input.customerId,
           shiftId: input.shiftId,
-          receiptNumber,
+          receiptNumber: number,
           transactionType: 'sale',
           orderType: input.orderType,
           tableId: input.tableId || null,
@@ -223,6 +234,12 @@ export class CreateCreditTransactionUseCase {
           where: { id: stockLevel.id },
           data: { quantity: newQty },
         });
+        await this.binStock.trimToStockLevel(
+          tx,
+          input.outletId,
+          item.productId,
+          item.variantId || null,
+        );
 
         await tx.stockMovement.create({
           data: {
@@ -267,6 +284,8 @@ export class CreateCreditTransactionUseCase {
           lastVisitAt: new Date(),
         },
       });
+
+      return number;
     });
 
     // Publish event for downstream handlers (KDS, notifications, etc.)
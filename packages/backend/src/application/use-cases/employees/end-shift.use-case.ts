@@ -6,18 +6,33 @@ import { BusinessError } from '@shared/errors/business-error';
 import { ErrorCode } from '@shared/constants/error-codes';
 import { PrismaService } from '@infrastructure/database/prisma.service';
 import type { IShiftRepository } from '@domain/interfaces/repositories/shift.repository';
+import { CashManagementService } from '../../../modules/cash-management/cash-management.service';
+import { CashDrawersService } from '../../../modules/cash-management/cash-drawers.service';
+import {
+  normalizeCount,
+  resolveCashSettings,
+  resolveCountedAmount,
+  type DenominationCount,
+} from '../../../modules/cash-management/cash-count.util';
 
 export interface EndShiftInput {
   shiftId: string;
   employeeId: string;
-  closingCash: number;
+  /** Required unless the drawer is counted by denomination */
+  closingCash?: number;
+  closingCount?: DenominationCount[];
 }
 
 export interface EndShiftOutput {
   shiftId: string;
-  expectedCash: number;
-  actualCash: number;
-  difference: number;
+  /** Withheld from the cashier when the outlet closes blind, and null for a shared drawer */
+  expectedCash: number | null;
+  /** Null when the shift left a drawer other cashiers still work without counting it */
+  actualCash: number | null;
+  difference: number | null;
+  blindClose: boolean;
+  /** Z report number when ending the shift closed its drawer session */
+  zNumber: number | null;
   endedAt: Date;
 }
 
@@ -28,6 +43,8 @@ export class EndShiftUseCase {
     private readonly shiftRepo: IShiftRepository,
     private readonly prisma: PrismaService,
     private readonly eventBus: EventBusService,
+    private readonly cashManagement: CashManagementService,
+    private readonly cashDrawers: CashDrawersService,
   ) {}
 
   async execute(input: EndShiftInput): Promise<EndShiftOutput> {
@@ -47,30 +64,44 @@ export class EndShiftUseCase {
       );
     }
 
-    const cashPayments = await this.prisma.payment.aggregate({
-      where: {
-        transaction: { shiftId: input.shiftId, transactionType: 'sale' },
-        paymentMethod: 'cash',
-        status: 'completed',
-      },
-      _sum: { amount: true },
+    const outlet = await this.prisma.outlet.findUnique({
+      where: { id: shift.outletId },
+      select: { settings: true },
     });
-
-    const cashRefunds = await this.prisma.payment.aggregate({
-      where: {
-        transaction: { shiftId: input.shiftId, transactionType: 'refund' },
-        paymentMethod: 'cash',
-        status: 'completed',
-      },
-      _sum: { amount: true },
-    });
-
-    const totalCashIn = cashPayments._sum.amount?.toNumber() || 0;
-    const totalCashOut = Math.abs(cashRefunds._sum.amount?.toNumber() || 0);
-    const expectedCash = shift.openingCash + totalCashIn - totalCashOut;
-    const difference = input.closingCash - expectedCash;
+    const { blindClose } = resolveCashSettings(outlet?.settings);
     const endedAt = new Date();
 
+    let closed: {
+      closingCash: number | null;
+      expectedCash: number | null;
+      difference: number | null;
+      zNumber: number | null;
+    };
+    if (shift.drawerSessionId) {
+      closed = await this.cashDrawers.closeShift(
+        { ...shift, drawerSessionId: shift.drawerSessionId },
+        { closingCash: input.closingCash, closingCount: input.closingCount, blindClose, endedAt },
+        input.employeeId,
+      );
+    } else {
+      const closingCash = resolveCountedAmount(
+        input.closingCash,
+        input.closingCount,
+        'closing cash',
+      );
+      const { expectedCash } = await this.cashManagement.drawerSummary(this.prisma, shift);
+      const difference = closingCash - expectedCash;
+      await this.shiftRepo.close(input.shiftId, {
+        closingCash,
+        closingCount: input.closingCount ? normalizeCount(input.closingCount) : undefined,
+        expectedCash,
+        cashDifference: difference,
+        blindClose,
+        endedAt,
+      });
+      closed = { closingCash, expectedCash, difference, zNumber: null };
+    }
+
     // Calculate total sales for shift summary
     const salesAgg = await this.prisma.transaction.aggregate({
       where: { shiftId: input.shiftId, transactionType: 'sale', status: 'completed' },
@@ -78,13 +109,6 @@ export class EndShiftUseCase {
     });
     const totalSales = salesAgg._sum.grandTotal?.toNumber() || 0;
 
-    await this.shiftRepo.close(input.shiftId, {
-      closingCash: input.closingCash,
-      expectedCash,
-      cashDifference: difference,
-      endedAt,
-    });
-
     // Get employee name for event
     const employee = await this.prisma.employee.findUnique({
       where: { id: input.employeeId },
@@ -99,15 +123,17 @@ export class EndShiftUseCase {
         shift.outletId,
         employee?.businessId ?? '',
         totalSales,
-        input.closingCash,
+        closed.closingCash ?? 0,
       ),
     );
 
     return {
       shiftId: input.shiftId,
-      expectedCash,
-      actualCash: input.closingCash,
-      difference,
+      expectedCash: blindClose ? null : closed.expectedCash,
+      actualCash: closed.closingCash,
+      difference: blindClose ? null : closed.difference,
+      blindClose,
+      zNumber: closed.zNumber,
       endedAt,
     };
   }
@@ -1,22 +1,36 @@
 import { Inject, Injectable } from '@nestjs/common';
 import { REPOSITORY_TOKENS } from '@infrastructure/repositories/repository.tokens';
 import { EventBusService } from '@infrastructure/events/event-bus.service';
+import { PrismaService } from '@infrastructure/database/prisma.service';
+import { assertSellingLocation } from '@infrastructure/database/selling-location';
 import { ShiftStartedEvent } from '@domain/events/shift-started.event';
 import { BusinessError } from '@shared/errors/business-error';
 import { AppError } from '@shared/errors/app-error';
 import { ErrorCode } from '@shared/constants/error-codes';
 import type { IShiftRepository } from '@domain/interfaces/repositories/shift.repository';
 import type { IEmployeeRepository } from '@domain/interfaces/repositories/employee.repository';
+import {
+  normalizeCount,
+  resolveCountedAmount,
+  type DenominationCount,
+} from '../../../modules/cash-management/cash-count.util';
+import { CashDrawersService } from '../../../modules/cash-management/cash-drawers.service';
 
 export interface StartShiftInput {
   outletId: string;
   employeeId: string;
-  openingCash: number;
+  /** Cash drawer the shift works; the float is only given when the drawer is closed */
+  drawerId?: string;
+  /** Required unless the float is counted by denomination */
+  openingCash?: number;
+  openingCount?: DenominationCount[];
 }
 
 export interface StartShiftOutput {
   shiftId: string;
   startedAt: Date;
+  drawerSessionId: string | null;
+  sharedDrawer: boolean;
 }
 
 @Injectable()
@@ -27,6 +41,8 @@ export class StartShiftUseCase {
     @Inject(REPOSITORY_TOKENS.EMPLOYEE)
     private readonly employeeRepo: IEmployeeRepository,
     private readonly eventBus: EventBusService,
+    private readonly cashDrawers: CashDrawersService,
+    private readonly prisma: PrismaService,
   ) {}
 
   async execute(input: StartShiftInput): Promise<StartShiftOutput> {
@@ -39,13 +55,23 @@ export class StartShiftUseCase {
     if (openShift) {
       throw new BusinessError(ErrorCode.SHIFT_ALREADY_OPEN, 'Employee already has an open shift');
     }
+    await assertSellingLocation(this.prisma, input.outletId);
 
-    const shift = await this.shiftRepo.create({
-      outletId: input.outletId,
-      employeeId: input.employeeId,
-      openingCash: input.openingCash,
-      startedAt: new Date(),
-    });
+    const shift = input.drawerId
+      ? await this.cashDrawers.openShift({
+          drawerId: input.drawerId,
+          outletId: input.outletId,
+          employeeId: input.employeeId,
+          openingCash: input.openingCash,
+          openingCount: input.openingCount,
+        })
+      : await this.shiftRepo.create({
+          outletId: input.outletId,
+          employeeId: input.employeeId,
+          openingCash: resolveCountedAmount(input.openingCash, input.openingCount, 'opening cash'),
+          openingCount: input.openingCount ? normalizeCount(input.openingCount) : undefined,
+          startedAt: new Date(),
+        });
 
     this.eventBus.publish(
       new ShiftStartedEvent(shift.id, input.employeeId, employee.name, input.outletId, employee.businessId),
@@ -54,6 +80,8 @@ export class StartShiftUseCase {
     return {
       shiftId: shift.id,
       startedAt: shift.startedAt,
+      drawerSessionId: shift.drawerSessionId ?? null,
+      sharedDrawer: shift.sharedDrawer,
     };
   }
 }
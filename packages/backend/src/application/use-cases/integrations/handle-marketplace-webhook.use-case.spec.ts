@@ -0,0 +1,275 @@
+import { EventEmitter } from 'events';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { HandleMarketplaceWebhookUseCase } from './handle-marketplace-webhook.use-case';
+import { EventBusService } from '@infrastructure/events/event-bus.service';
+import { OrderStatusChangedEvent } from '@domain/events/order-status-changed.event';
+import { CredentialCipherService } from '@infrastructure/security/credential-cipher.service';
+import {
+  GoFoodGateway,
+  GrabFoodGateway,
+  MarketplaceService,
+  ShopeeFoodGateway,
+} from '@infrastructure/services/marketplace';
+import type { PrismaService } from '@infrastructure/database/prisma.service';
+
+describe('HandleMarketplaceWebhookUseCase', () => {
+  let useCase: HandleMarketplaceWebhookUseCase;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockEventBus: jest.Mocked<EventBusService>;
+  let tx: { order: { create: jest.Mock }; onlineOrder: { create: jest.Mock } };
+
+  const productId = '7f1c2d3e-4b5a-4c6d-8e9f-0a1b2c3d4e5f';
+
+  const goFoodCreated = {
+    event_type: 'gofood.order.created',
+    merchant_id: 'M-001',
+    event_time: '2026-10-19T10:00:00.000Z',
+    order: {
+      id: 'GF-1001',
+      status: 'NEW',
+      customer_name: 'Budi Santoso',
+      customer_phone: '081200000001',
+      delivery_address: 'Jl. Sudirman No. 1',
+      items: [
+        { id: productId, name: 'Nasi Goreng', quantity: 2, price: 25000, subtotal: 50000 },
+        { id: 'gofood-bundle-9', name: 'Kerupuk', quantity: 1, price: 3000, subtotal: 3000 },
+      ],
+      subtotal: 53000,
+      delivery_fee: 10000,
+      discount: 0,
+      total: 63000,
+      payment_method: 'GOPAY',
+      created_at: '2026-10-19T10:00:00.000Z',
+    },
+  };
+
+  beforeEach(() => {
+    tx = {
+      order: {
+        create: jest.fn().mockResolvedValue({ id: 'kitchen-1', orderNumber: 'ORD-ABC' }),
+      },
+      onlineOrder: {
+        create: jest.fn().mockResolvedValue({ id: 'online-1' }),
+      },
+    };
+
+    mockPrisma = {
+      $transaction: jest.fn((arg: unknown) =>
+        typeof arg === 'function' ? arg(tx) : Promise.all(arg as Promise<unknown>[]),
+      ),
+      marketplaceConnection: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'conn-1', outletId: 'outlet-1' }),
+      },
+      onlineOrder: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        update: jest.fn(),
+      },
+      product: {
+        findMany: jest.fn().mockResolvedValue([{ id: productId }]),
+      },
+      order: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+      },
+      orderItem: {
+        updateMany: jest.fn(),
+      },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    mockEventBus = {
+      publish: jest.fn(),
+      ofType: jest.fn(),
+      onAll: jest.fn(),
+    } as unknown as jest.Mocked<EventBusService>;
+
+    const config = new ConfigService({ INTEGRATION_ENCRYPTION_KEY: 'test-key' });
+    const marketplaceService = new MarketplaceService(
+      new EventEmitter(),
+      mockPrisma,
+      new CredentialCipherService(config),
+      new GoFoodGateway(config),
+      new GrabFoodGateway(config),
+      new ShopeeFoodGateway(config),
+    );
+
+    useCase = new HandleMarketplaceWebhookUseCase(mockPrisma, marketplaceService, mockEventBus);
+  });
+
+  describe('new orders', () => {
+    it('should store an OnlineOrder and a pending kitchen order', async () => {
+      // Act
+      const result = await useCase.execute({ platform: 'gofood', payload: goFoodCreated });
+
+      // Assert
+      expect(result).toMatchObject({
+        success: true,
+        event: 'order.created',
+        externalId: 'GF-1001',
+        onlineOrderId: 'online-1',
+      });
+      expect(mockPrisma.marketplaceConnection.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { platform: 'gofood', merchantId: 'M-001', isActive: true },
+        }),
+      );
+
+      const kitchenData = tx.order.create.mock.calls[0][0].data;
+      expect(kitchenData).toMatchObject({
+        outletId: 'outlet-1',
+        orderType: 'delivery',
+        status: 'pending',
+      });
+      expect(kitchenData.items.create).toEqual([
+        expect.objectContaining({ productId, productName: 'Nasi Goreng', quantity: 2 }),
+        expect.objectContaining({ productId: null, productName: 'Kerupuk', quantity: 1 }),
+      ]);
+
+      expect(tx.onlineOrder.create.mock.calls[0][0].data).toMatchObject({
+        outletId: 'outlet-1',
+        platform: 'gofood',
+        platformOrderId: 'GF-1001',
+        customerName: 'Budi Santoso',
+        grandTotal: 63000,
+        status: 'received',
+        metadata: { kitchenOrderId: 'kitchen-1', paymentMethod: 'GOPAY' },
+      });
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(OrderStatusChangedEvent));
+    });
+
+    it('should drop a duplicate delivery of the same platform order', async () => {
+      // Arrange
+      (mockPrisma.onlineOrder.findUnique as jest.Mock).mockResolvedValue({ id: 'online-1' });
+
+      // Act
+      const result = await useCase.execute({ platform: 'gofood', payload: goFoodCreated });
+
+      // Assert
+      expect(result).toMatchObject({ duplicate: true, onlineOrderId: 'online-1' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should treat a unique constraint race as a duplicate', async () => {
+      // Arrange
+      tx.onlineOrder.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      // Act
+      const result = await useCase.execute({ platform: 'gofood', payload: goFoodCreated });
+
+      // Assert
+      expect(result.duplicate).toBe(true);
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should acknowledge orders for merchants that are not connected', async () => {
+      // Arrange
+      (mockPrisma.marketplaceConnection.findFirst as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await useCase.execute({ platform: 'gofood', payload: goFoodCreated });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('not connected');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('status callbacks', () => {
+    const storedOrder = {
+      id: 'online-1',
+      status: 'accepted',
+      metadata: { kitchenOrderId: 'kitchen-1' },
+    };
+
+    it('should cancel the online and kitchen order on platform cancellation', async () => {
+      // Arrange
+      (mockPrisma.onlineOrder.findUnique as jest.Mock).mockResolvedValue(storedOrder);
+      (mockPrisma.order.findUnique as jest.Mock).mockResolvedValue({
+        id: 'kitchen-1',
+        outletId: 'outlet-1',
+        status: 'preparing',
+      });
+
+      // Act
+      await useCase.execute({
+        platform: 'shopeefood',
+        payload: {
+          push_type: 'order_status',
+          shop_id: 555,
+          timestamp: 1792400000,
+          data: { order_id: 3001, status: 7, cancel_reason: 'Customer cancelled' },
+        },
+      });
+
+      // Assert
+      expect(mockPrisma.onlineOrder.update).toHaveBeenCalledWith({
+        where: { id: 'online-1' },
+        data: expect.objectContaining({
+          status: 'cancelled',
+          cancelReason: 'Customer cancelled',
+          cancelledAt: new Date(1792400000 * 1000),
+        }),
+      });
+      expect(mockPrisma.order.update).toHaveBeenCalledWith({
+        where: { id: 'kitchen-1' },
+        data: { status: 'cancelled' },
+      });
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: 'kitchen-1', newStatus: 'cancelled' }),
+      );
+    });
+
+    it('should record the driver on driver arrival without changing status', async () => {
+      // Arrange
+      (mockPrisma.onlineOrder.findUnique as jest.Mock).mockResolvedValue(storedOrder);
+
+      // Act
+      await useCase.execute({
+        platform: 'grabfood',
+        payload: {
+          merchantID: 'M-001',
+          orderID: 'GRB-2001',
+          state: 'DRIVER_ARRIVED',
+          updatedAt: '2026-10-19T10:20:00.000Z',
+          driver: { name: 'Joko', phone: '081299999999', licensePlate: 'B 1234 XYZ' },
+        },
+      });
+
+      // Assert
+      const { data } = (mockPrisma.onlineOrder.update as jest.Mock).mock.calls[0][0];
+      expect(data.status).toBeUndefined();
+      expect(data).toMatchObject({ driverName: 'Joko', driverPhone: '081299999999' });
+      expect(data.metadata).toMatchObject({
+        kitchenOrderId: 'kitchen-1',
+        driverPlateNumber: 'B 1234 XYZ',
+        driverArrivedAt: '2026-10-19T10:20:00.000Z',
+      });
+      expect(mockPrisma.order.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore callbacks for orders that are already closed', async () => {
+      // Arrange
+      (mockPrisma.onlineOrder.findUnique as jest.Mock).mockResolvedValue({
+        ...storedOrder,
+        status: 'cancelled',
+      });
+
+      // Act
+      const result = await useCase.execute({
+        platform: 'gofood',
+        payload: { ...goFoodCreated, event_type: 'gofood.order.status_updated' },
+      });
+
+      // Assert
+      expect(result.message).toContain('already cancelled');
+      expect(mockPrisma.onlineOrder.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnlineOrderStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../infrastructure/database/prisma.service';
+import { EventBusService } from '../../../infrastructure/events/event-bus.service';
+import { OrderStatusChangedEvent } from '../../../domain/events/order-status-changed.event';
+import {
+  MarketplaceOrder,
+  MarketplaceOrderStatus,
+  MarketplacePlatform,
+  MarketplaceService,
+  MarketplaceWebhookEvent,
+} from '../../../infrastructure/services/marketplace';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HandleMarketplaceWebhookParams {
+  platform: MarketplacePlatform;
+  payload: Record<string, unknown>;
+}
+
+export interface HandleMarketplaceWebhookResult {
+  success: boolean;
+  event: MarketplaceWebhookEvent['type'];
+  externalId: string;
+  onlineOrderId?: string;
+  duplicate?: boolean;
+  message?: string;
+}
+
+interface OnlineOrderMetadata {
+  kitchenOrderId?: string;
+  paymentMethod?: string;
+  driverPlateNumber?: string;
+  driverArrivedAt?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ONLINE_STATUS_MAP: Record<MarketplaceOrderStatus, OnlineOrderStatus> = {
+  new: 'received',
+  accepted: 'accepted',
+  preparing: 'preparing',
+  ready: 'ready',
+  picked_up: 'picked_up',
+  completed: 'completed',
+  cancelled: 'cancelled',
+};
+
+// ============================================================================
+// Use Case
+// ============================================================================
+
+/**
+ * Turns food delivery webhooks into OnlineOrder records.
+ *
+ * New orders also create a pending kitchen Order so they show up on the KDS
+ * without staff re-entering them. Deliveries are idempotent by platform
+ * order ID; status callbacks update the OnlineOrder and cancel the kitchen
+ * order when the platform cancels.
+ */
+@Injectable()
+export class HandleMarketplaceWebhookUseCase {
+  private readonly logger = new Logger(HandleMarketplaceWebhookUseCase.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly marketplaceService: MarketplaceService,
+    private readonly eventBus: EventBusService,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Main Execute Method
+  // ---------------------------------------------------------------------------
+
+  async execute(params: HandleMarketplaceWebhookParams): Promise<HandleMarketplaceWebhookResult> {
+    const event = this.marketplaceService.parseWebhook(params.platform, params.payload);
+    this.logger.log(
+      `Processing ${params.platform} webhook: event=${event.type}, order=${event.externalId}`,
+    );
+
+    if (event.type === 'order.created') {
+      return this.createOrder(params.platform, event);
+    }
+    return this.updateOrder(params.platform, event);
+  }
+
+  // ---------------------------------------------------------------------------
+  // New Orders
+  // ---------------------------------------------------------------------------
+
+  private async createOrder(
+    platform: MarketplacePlatform,
+    event: MarketplaceWebhookEvent,
+  ): Promise<HandleMarketplaceWebhookResult> {
+    const existing = await this.findOnlineOrder(platform, event.externalId);
+    if (existing) {
+      this.logger.log(`Duplicate ${platform} order ${event.externalId}, skipping`);
+      return this.result(event, { onlineOrderId: existing.id, duplicate: true });
+    }
+
+    const connection = await this.marketplaceService.findActiveConnectionByMerchant(
+      platform,
+      event.merchantId,
+    );
+    if (!connection) {
+      // Acknowledge so the platform stops retrying; nothing here can accept it
+      this.logger.warn(`No active ${platform} connection for merchant ${event.merchantId}`);
+      return this.result(event, { message: 'Merchant not connected, webhook acknowledged' });
+    }
+
+    const order = event.order as MarketplaceOrder;
+    const productIds = await this.findKnownProductIds(connection.outletId, order);
+
+    try {
+      const created = await this.prisma.$transaction(async (tx) => {
+        const kitchenOrder = await tx.order.create({
+          data: {
+            outletId: connection.outletId,
+            orderNumber: `ORD-${Date.now().toString(36).toUpperCase()}`,
+            orderType: 'delivery',
+            status: 'pending',
+            notes: `${platform} order ${order.externalId} - ${order.customer.name ?? 'Customer'}`,
+            items: {
+              create: order.items.map((item) => ({
+                productId: productIds.has(item.id) ? item.id : null,
+                productName: item.name,
+                quantity: Math.max(1, Math.round(item.quantity)),
+                notes: item.notes ?? null,
+                status: 'pending',
+              })),
+            },
+          },
+        });
+
+        const metadata: OnlineOrderMetadata = {
+          kitchenOrderId: kitchenOrder.id,
+          paymentMethod: order.paymentMethod,
+        };
+
+        const onlineOrder = await tx.onlineOrder.create({
+          data: {
+            outletId: connection.outletId,
+            platform,
+            platformOrderId: order.externalId,
+            customerName: order.customer.name ?? null,
+            customerPhone: order.customer.phone?.slice(0, 20) ?? null,
+            deliveryAddress: order.customer.address ?? null,
+            items: order.items as unknown as Prisma.InputJsonValue,
+            subtotal: order.subtotal ?? 0,
+            deliveryFee: order.deliveryFee ?? 0,
+            discountAmount: order.discount ?? 0,
+            grandTotal: order.total ?? 0,
+            status: ONLINE_STATUS_MAP[order.status] ?? 'received',
+            notes: order.customer.notes ?? null,
+            metadata: metadata as Prisma.InputJsonValue,
+          },
+        });
+
+        return { kitchenOrder, onlineOrder };
+      });
+
+      this.eventBus.publish(
+        new OrderStatusChangedEvent(created.kitchenOrder.id, connection.outletId, '', 'pending'),
+      );
+      this.logger.log(
+        `${platform} order ${order.externalId} stored as kitchen order ${created.kitchenOrder.orderNumber}`,
+      );
+
+      return this.result(event, { onlineOrderId: created.onlineOrder.id });
+    } catch (error) {
+      // A concurrent delivery of the same order won the unique constraint
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        this.logger.log(`Duplicate ${platform} order ${event.externalId} (concurrent delivery)`);
+        return this.result(event, { duplicate: true });
+      }
+      throw error;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Status Callbacks
+  // ---------------------------------------------------------------------------
+
+  private async updateOrder(
+    platform: MarketplacePlatform,
+    event: MarketplaceWebhookEvent,
+  ): Promise<HandleMarketplaceWebhookResult> {
+    const onlineOrder = await this.findOnlineOrder(platform, event.externalId);
+    if (!onlineOrder) {
+      this.logger.warn(`${platform} order ${event.externalId} not found for ${event.type}`);
+      return this.result(event, { message: 'Order not found, webhook acknowledged' });
+    }
+
+    if (onlineOrder.status === 'cancelled' || onlineOrder.status === 'completed') {
+      return this.result(event, {
+        onlineOrderId: onlineOrder.id,
+        message: `Order already ${onlineOrder.status}, webhook acknowledged`,
+      });
+    }
+
+    const metadata = (onlineOrder.metadata ?? {}) as OnlineOrderMetadata;
+    const data: Prisma.OnlineOrderUpdateInput = {};
+
+    if (event.driver) {
+      data.driverName = event.driver.name ?? null;
+      data.driverPhone = event.driver.phone?.slice(0, 20) ?? null;
+      metadata.driverPlateNumber = event.driver.plateNumber;
+    }
+
+    const status =
+      event.type === 'order.cancelled'
+        ? 'cancelled'
+        : event.status
+          ? ONLINE_STATUS_MAP[event.status]
+          : undefined;
+
+    if (event.type === 'driver.arrived') {
+      metadata.driverArrivedAt = event.occurredAt.toISOString();
+    } else if (status && status !== onlineOrder.status) {
+      data.status = status;
+      Object.assign(data, this.statusTimestamps(status, event));
+    }
+
+    data.metadata = metadata as Prisma.InputJsonValue;
+    await this.prisma.onlineOrder.update({ where: { id: onlineOrder.id }, data });
+
+    if (data.status === 'cancelled' && metadata.kitchenOrderId) {
+      await this.cancelKitchenOrder(metadata.kitchenOrderId);
+    }
+
+    return this.result(event, { onlineOrderId: onlineOrder.id });
+  }
+
+  private statusTimestamps(
+    status: OnlineOrderStatus,
+    event: MarketplaceWebhookEvent,
+  ): Prisma.OnlineOrderUpdateInput {
+    switch (status) {
+      case 'accepted':
+        return { acceptedAt: event.occurredAt };
+      case 'ready':
+        return { readyAt: event.occurredAt };
+      case 'completed':
+        return { completedAt: event.occurredAt };
+      case 'cancelled':
+        return { cancelledAt: event.occurredAt, cancelReason: event.reason ?? null };
+      default:
+        return {};
+    }
+  }
+
+  private async cancelKitchenOrder(kitchenOrderId: string): Promise<void> {
+    const order = await this.prisma.order.findUnique({ where: { id: kitchenOrderId } });
+    if (!order || order.status === 'cancelled' || order.status === 'completed') {
+      return;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.order.update({ where: { id: order.id }, data: { status: 'cancelled' } }),
+      this.prisma.orderItem.updateMany({
+        where: { orderId: order.id, status: { in: ['pending', 'preparing'] } },
+        data: { status: 'cancelled' },
+      }),
+    ]);
+
+    this.eventBus.publish(
+      new OrderStatusChangedEvent(order.id, order.outletId, order.status, 'cancelled'),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private findOnlineOrder(platform: MarketplacePlatform, platformOrderId: string) {
+    return this.prisma.onlineOrder.findUnique({
+      where: { platform_platformOrderId: { platform, platformOrderId } },
+    });
+  }
+
+  /**
+   * Menu sync sends product IDs as item IDs; only link kitchen items to
+   * products that actually belong to the outlet's business.
+   */
+  private async findKnownProductIds(outletId: string, order: MarketplaceOrder) {
+    const candidateIds = order.items.map((item) => item.id).filter(Boolean);
+    if (candidateIds.length === 0) {
+      return new Set<string>();
+    }
+
+    const products = await this.prisma.product.findMany({
+      where: {
+        id: { in: candidateIds.filter((id) => UUID_PATTERN.test(id)) },
+        business: { outlets: { some: { id: outletId } } },
+      },
+      select: { id: true },
+    });
+    return new Set(products.map((p) => p.id));
+  }
+
+  private result(
+    event: MarketplaceWebhookEvent,
+    extra: Partial<HandleMarketplaceWebhookResult> = {},
+  ): HandleMarketplaceWebhookResult {
+    return { success: true, event: event.type, externalId: event.externalId, ...extra };
+  }
+}
@@ -4,6 +4,7 @@ import { BusinessError } from '@shared/errors/business-error';
 import { ErrorCode } from '@shared/constants/error-codes';
 import { PrismaService } from '@infrastructure/database/prisma.service';
 import type { IProductRepository } from '@domain/interfaces/repositories/product.repository';
+import { toWeightUnit } from '../../../modules/unit-conversion/weight-units';
 
 export interface VariantInput {
   name: string;
@@ -22,6 +23,9 @@ export interface CreateProductInput {
   basePrice: number;
   costPrice?: number;
   trackStock: boolean;
+  minimumAge?: number | null;
+  isWeighed?: boolean;
+  sellUnit?: string | null;
   variants?: VariantInput[];
   modifierGroupIds?: string[];
 }
@@ -49,6 +53,19 @@ export class CreateProductUseCase {
 
     const hasVariants = !!(input.variants && input.variants.length > 0);
 
+    // Weighed products are priced per weight unit, kilograms unless told otherwise
+    let sellUnit = input.sellUnit || null;
+    if (input.isWeighed) {
+      const weightUnit = toWeightUnit(sellUnit ?? 'kg');
+      if (!weightUnit) {
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          `A weighed product is sold in a weight unit, not ${sellUnit}`,
+        );
+      }
+      sellUnit = weightUnit;
+    }
+
     const product = await this.prisma.product.create({
       data: {
         businessId: input.businessId,
@@ -61,6 +78,9 @@ export class CreateProductUseCase {
         costPrice: input.costPrice || null,
         hasVariants,
         trackStock: input.trackStock,
+        minimumAge: input.minimumAge ?? null,
+        isWeighed: input.isWeighed ?? false,
+        sellUnit,
       },
     });
 
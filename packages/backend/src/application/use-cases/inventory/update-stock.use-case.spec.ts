@@ -7,12 +7,14 @@ import type {
   StockLevelRecord,
 } from '@domain/interfaces/repositories/inventory.repository';
 import type { PrismaService } from '@infrastructure/database/prisma.service';
+import type { BinStockService } from '../../../modules/warehouses/bin-stock.service';
 
 describe('UpdateStockUseCase', () => {
   let useCase: UpdateStockUseCase;
   let mockInventoryRepo: jest.Mocked<IInventoryRepository>;
   let mockEventBus: jest.Mocked<EventBusService>;
   let mockPrisma: jest.Mocked<PrismaService>;
+  let mockBinStock: jest.Mocked<BinStockService>;
 
   const existingStockLevel: StockLevelRecord = {
     id: 'stock-1',
@@ -72,7 +74,11 @@ describe('UpdateStockUseCase', () => {
       },
     } as unknown as jest.Mocked<PrismaService>;
 
-    useCase = new UpdateStockUseCase(mockInventoryRepo, mockEventBus, mockPrisma);
+    mockBinStock = {
+      trimToStockLevel: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<BinStockService>;
+
+    useCase = new UpdateStockUseCase(mockInventoryRepo, mockEventBus, mockPrisma, mockBinStock);
   });
 
   afterEach(() => {
@@ -105,6 +111,7 @@ describe('UpdateStockUseCase', () => {
     expect(result.previousQuantity).toBe(50);
     expect(result.newQuantity).toBe(70); // 50 + 20 = 70
     expect(mockInventoryRepo.updateStockLevel).toHaveBeenCalledWith('stock-1', 70);
+    expect(mockBinStock.trimToStockLevel).not.toHaveBeenCalled();
   });
 
   it('should decrease stock successfully with decrement adjustment', async () => {
@@ -132,6 +139,12 @@ describe('UpdateStockUseCase', () => {
     expect(result.previousQuantity).toBe(50);
     expect(result.newQuantity).toBe(40); // 50 - 10 = 40
     expect(mockInventoryRepo.updateStockLevel).toHaveBeenCalledWith('stock-1', 40);
+    expect(mockBinStock.trimToStockLevel).toHaveBeenCalledWith(
+      mockPrisma,
+      'outlet-1',
+      'prod-1',
+      null,
+    );
   });
 
   it('should set stock to exact quantity with set adjustment', async () => {
@@ -5,6 +5,7 @@ import { StockLevelChangedEvent } from '@domain/events/stock-level-changed.event
 import { InsufficientStockException } from '@domain/exceptions/insufficient-stock.exception';
 import { PrismaService } from '@infrastructure/database/prisma.service';
 import type { IInventoryRepository } from '@domain/interfaces/repositories/inventory.repository';
+import { BinStockService } from '../../../modules/warehouses/bin-stock.service';
 
 export interface UpdateStockInput {
   outletId: string;
@@ -29,6 +30,7 @@ export class UpdateStockUseCase {
     private readonly inventoryRepo: IInventoryRepository,
     private readonly eventBus: EventBusService,
     private readonly prisma: PrismaService,
+    private readonly binStock: BinStockService,
   ) {}
 
   async execute(input: UpdateStockInput): Promise<UpdateStockOutput> {
@@ -78,6 +80,14 @@ export class UpdateStockUseCase {
     }
 
     await this.inventoryRepo.updateStockLevel(stockLevel.id, newQuantity);
+    if (newQuantity < previousQuantity) {
+      await this.binStock.trimToStockLevel(
+        this.prisma,
+        input.outletId,
+        input.productId,
+        input.variantId || null,
+      );
+    }
 
     await this.inventoryRepo.createStockMovement({
       id: '',
@@ -3,6 +3,12 @@ import { ConfigService } from '@nestjs/config';
 import { createHash } from 'crypto';
 import { Transaction, Payment } from '@prisma/client';
 import { PrismaService } from '../../../infrastructure/database/prisma.service';
+import { EventBusService } from '../../../infrastructure/events/event-bus.service';
+import {
+  RESERVATION_DEPOSIT_REF_PREFIX,
+  ReservationDepositPaymentEvent,
+} from '../../../domain/events/reservation-deposit-payment.event';
+import type { PaymentStatus } from '../../../domain/interfaces/services/payment-gateway';
 import { AppError } from '../../../shared/errors/app-error';
 import { ErrorCode } from '../../../shared/constants/error-codes';
 
@@ -31,6 +37,7 @@ export class HandleMidtransWebhookUseCase {
   constructor(
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
+    private readonly eventBus: EventBusService,
   ) {
     this.serverKey = this.configService.get<string>('MIDTRANS_SERVER_KEY', '');
   }
@@ -53,6 +60,25 @@ export class HandleMidtransWebhookUseCase {
       }
     }
 
+    // Reservation deposits are not POS payments; the reservations module settles them
+    if (params.orderId.startsWith(RESERVATION_DEPOSIT_REF_PREFIX)) {
+      const fraudulent = params.fraudStatus === 'deny' || params.fraudStatus === 'challenge';
+      const status = this.mapWebhookStatusToPaymentStatus(params.transactionStatus);
+      this.eventBus.publish(
+        new ReservationDepositPaymentEvent(
+          params.orderId,
+          (fraudulent && status === 'completed' ? 'pending' : status) as PaymentStatus,
+          params.transactionId,
+        ),
+      );
+      return {
+        success: true,
+        transactionStatus: params.transactionStatus,
+        transactionId: params.transactionId,
+        orderId: params.orderId,
+      };
+    }
+
     // Find payment by referenceNumber (order_id from Midtrans)
     const payment = await this.prisma.payment.findFirst({
       where: { referenceNumber: params.orderId },
@@ -3,6 +3,12 @@ import { ConfigService } from '@nestjs/config';
 import { createHash } from 'crypto';
 import { Payment, Transaction } from '@prisma/client';
 import { PrismaService } from '../../../infrastructure/database/prisma.service';
+import { EventBusService } from '../../../infrastructure/events/event-bus.service';
+import {
+  RESERVATION_DEPOSIT_REF_PREFIX,
+  ReservationDepositPaymentEvent,
+} from '../../../domain/events/reservation-deposit-payment.event';
+import type { PaymentStatus } from '../../../domain/interfaces/services/payment-gateway';
 
 // ============================================================================
 // Types
@@ -39,6 +45,7 @@ export class HandleXenditWebhookUseCase {
   constructor(
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
+    private readonly eventBus: EventBusService,
   ) {
     this.webhookToken = this.configService.get<string>('XENDIT_WEBHOOK_TOKEN', '');
   }
@@ -53,6 +60,20 @@ export class HandleXenditWebhookUseCase {
     );
 
     try {
+      // Reservation deposits are not POS payments; the reservations module settles them
+      const reference = this.cleanExternalId(params.externalId);
+      if (reference.startsWith(RESERVATION_DEPOSIT_REF_PREFIX)) {
+        const status = this.mapXenditStatusToPaymentStatus(params.status) as PaymentStatus;
+        this.eventBus.publish(new ReservationDepositPaymentEvent(reference, status));
+        return {
+          success: true,
+          event: params.event,
+          externalId: params.externalId,
+          status,
+          message: 'Reservation deposit webhook acknowledged',
+        };
+      }
+
       // Find payment by external_id (which maps to our referenceNumber)
       const payment = await this.findPayment(params.externalId);
 
@@ -38,6 +38,9 @@ describe('CreateTransactionUseCase', () => {
     cashDifference: null,
     cashIn: null,
     cashOut: null,
+    blindClose: false,
+    drawerSessionId: null,
+    sharedDrawer: false,
     notes: null,
     status: 'open',
     createdAt: new Date('2025-01-01T08:00:00Z'),
@@ -2,16 +2,27 @@ import { Inject, Injectable } from '@nestjs/common';
 import { REPOSITORY_TOKENS } from '@infrastructure/repositories/repository.tokens';
 import { EventBusService } from '@infrastructure/events/event-bus.service';
 import { PrismaService } from '@infrastructure/database/prisma.service';
+import { assertSellingLocation } from '@infrastructure/database/selling-location';
 import type { PaymentMethod } from '@prisma/client';
 import { TransactionCreatedEvent } from '@domain/events/transaction-created.event';
 import { StockLevelChangedEvent } from '@domain/events/stock-level-changed.event';
 import { InsufficientStockException } from '@domain/exceptions/insufficient-stock.exception';
+import { Quantity } from '@domain/value-objects/quantity';
 import { AppError } from '@shared/errors/app-error';
 import { BusinessError } from '@shared/errors/business-error';
 import { ErrorCode } from '@shared/constants/error-codes';
 import type { IShiftRepository } from '@domain/interfaces/repositories/shift.repository';
 import type { IProductRepository } from '@domain/interfaces/repositories/product.repository';
 import type { IInventoryRepository } from '@domain/interfaces/repositories/inventory.repository';
+import { PromotionRulesEngine } from '../../services/promotion-rules.engine';
+import { StoredValueService } from '../../../modules/gift-cards/stored-value.service';
+import { ReservationDepositService } from '../../../modules/reservations/reservation-deposit.service';
+import { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
+import {
+  ManagerOverrideService,
+  assertApprovalProvided,
+} from '../../../modules/overrides/manager-override.service';
+import { BinStockService } from '../../../modules/warehouses/bin-stock.service';
 
 export interface TransactionItemInput {
   productId: string;
@@ -45,7 +56,48 @@ export interface CreateTransactionInput {
   items: TransactionItemInput[];
   payments: PaymentInput[];
   discounts?: DiscountInput[];
+  /** Discount (percent of the subtotal) above which a supervisor approval is needed; unset = no limit */
+  maxDiscountPercent?: number;
+  /** Whether selling an item below its catalog price needs a supervisor approval */
+  priceOverrideRequiresApproval?: boolean;
+  /**
+   * Approval tokens from POST /pos/overrides for a large discount or a price
+   * override, or from an attendant for restricted items or a card payment at
+   * a kiosk
+   */
+  approvals?: {
+    discount?: string;
+    priceOverride?: string;
+    kioskAssist?: string;
+    kioskCard?: string;
+  };
   notes?: string;
+  /** Set by offline sync: id derived from the push idempotency key */
+  transactionId?: string;
+  /** Receipt number the device printed while offline */
+  offlineReceiptNumber?: string;
+  /** Device that pushed the sale; its reserved block numbers are kept as the receipt number */
+  deviceId?: string;
+  /** When the sale happened on the device; defaults to now */
+  occurredAt?: Date;
+}
+
+/** PPN charged on every sale */
+export const SALE_TAX_RATE = 0.11;
+
+/**
+ * Line and sale totals, shared with the kiosk's quote so a customer pays
+ * exactly what the sale books: lines are kept to the cent, PPN is charged in
+ * whole Rupiah
+ */
+export function lineSubtotal(unitPrice: number, quantity: number): number {
+  return Math.round(unitPrice * quantity * 100) / 100;
+}
+
+export function saleTotals(subtotal: number, discountAmount = 0) {
+  const taxableAmount = subtotal - discountAmount;
+  const taxAmount = Math.round(taxableAmount * SALE_TAX_RATE);
+  return { taxAmount, total: taxableAmount + taxAmount };
 }
 
 export interface CreateTransactionOutput {
@@ -67,6 +119,12 @@ export class CreateTransactionUseCase {
     private readonly inventoryRepo: IInventoryRepository,
     private readonly eventBus: EventBusService,
     private readonly prisma: PrismaService,
+    private readonly storedValue: StoredValueService,
+    private readonly reservationDeposits: ReservationDepositService,
+    private readonly numbering: DocumentNumberingService,
+    private readonly overrides: ManagerOverrideService,
+    private readonly binStock: BinStockService,
+    private readonly promotionRules: PromotionRulesEngine,
   ) {}
 
   async execute(input: CreateTransactionInput): Promise<CreateTransactionOutput> {
@@ -74,6 +132,7 @@ export class CreateTransactionUseCase {
     if (!shift || shift.status !== 'open') {
       throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'Shift is not open');
     }
+    await assertSellingLocation(this.prisma, input.outletId);
 
     const itemDetails: Array<{
       productId: string;
@@ -83,9 +142,12 @@ export class CreateTransactionUseCase {
       unitPrice: number;
       quantity: number;
       subtotal: number;
+      /** Share of the sale's discounts, kept so a refund gives back what was paid */
+      discountAmount: number;
       notes: string | null;
     }> = [];
 
+    let priceOverridden = false;
     for (const item of input.items) {
       const product = await this.productRepo.findById(item.productId);
       if (!product || !product.isActive) {
@@ -96,7 +158,13 @@ export class CreateTransactionUseCase {
       }
 
       const unitPrice = item.unitPrice ?? product.basePrice;
-      const itemSubtotal = unitPrice * item.quantity;
+      if (input.priceOverrideRequiresApproval && item.unitPrice !== undefined) {
+        const catalogPrice = await this.catalogPrice(product.basePrice, item.variantId);
+        if (item.unitPrice < catalogPrice) priceOverridden = true;
+      }
+      // Weighed items come in fractions of their unit, kept to three decimals
+      const quantity = Quantity.create(item.quantity).value;
+      const itemSubtotal = lineSubtotal(unitPrice, quantity);
 
       itemDetails.push({
         productId: item.productId,
@@ -104,8 +172,9 @@ export class CreateTransactionUseCase {
         productName: product.name,
         variantName: null,
         unitPrice,
-        quantity: item.quantity,
+        quantity,
         subtotal: itemSubtotal,
+        discountAmount: 0,
         notes: item.notes || null,
       });
 
@@ -115,30 +184,38 @@ export class CreateTransactionUseCase {
           item.productId,
           item.variantId || null,
         );
-        if (stockLevel && stockLevel.quantity < item.quantity) {
-          throw new InsufficientStockException(item.productId, stockLevel.quantity, item.quantity);
+        if (stockLevel && stockLevel.quantity < quantity) {
+          throw new InsufficientStockException(item.productId, stockLevel.quantity, quantity);
         }
       }
     }
 
     const subtotal = itemDetails.reduce((sum, item) => sum + item.subtotal, 0);
 
-    let discountAmount = 0;
-    if (input.discounts) {
-      for (const discount of input.discounts) {
-        if (discount.type === 'percentage') {
-          discountAmount += subtotal * (discount.value / 100);
-        } else {
-          discountAmount += discount.value;
-        }
+    // Promotions are priced by the rules engine, which splits each one over
+    // the lines it covers; other discounts are spread over what is left
+    await this.allocatePromotions(input, itemDetails, subtotal);
+    let manualDiscount = 0;
+    for (const discount of input.discounts ?? []) {
+      if (discount.promotionId) continue;
+      if (discount.type === 'percentage') {
+        manualDiscount += subtotal * (discount.value / 100);
+      } else {
+        manualDiscount += discount.value;
       }
     }
+    this.spreadDiscount(manualDiscount, itemDetails);
+    const discountAmount = itemDetails.reduce((sum, item) => sum + item.discountAmount, 0);
+
+    const largeDiscount =
+      input.maxDiscountPercent !== undefined &&
+      discountAmount > subtotal * (input.maxDiscountPercent / 100);
+    assertApprovalProvided('discount', largeDiscount, input.approvals?.discount);
+    assertApprovalProvided('price_override', priceOverridden, input.approvals?.priceOverride);
 
-    const taxRate = 0.11;
-    const taxableAmount = subtotal - discountAmount;
-    const taxAmount = Math.round(taxableAmount * taxRate);
+    const { taxAmount, total } = saleTotals(subtotal, discountAmount);
     const serviceCharge = 0;
-    const grandTotal = taxableAmount + taxAmount + serviceCharge;
+    const grandTotal = total + serviceCharge;
 
     const totalPayments = input.payments.reduce((sum, p) => sum + p.amount, 0);
     if (totalPayments < grandTotal) {
@@ -150,13 +227,40 @@ export class CreateTransactionUseCase {
 
     const change = totalPayments - grandTotal;
 
-    const receiptNumber = `TXN-${Date.now()}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
-    const transactionId = crypto.randomUUID();
+    const transactionId = input.transactionId ?? crypto.randomUUID();
+    const occurredAt = input.occurredAt ?? new Date();
 
     // ATOMIC TRANSACTION: Create transaction + deduct stock + create movements
     // This ensures all-or-nothing execution - prevents race conditions
     const transactionRecord = await this.prisma.$transaction(async (tx) => {
-      // 1. Create transaction record
+      // Supervisor approvals the sale came with are spent with it
+      for (const [action, token] of [
+        ['discount', input.approvals?.discount],
+        ['price_override', input.approvals?.priceOverride],
+        ['kiosk_assist', input.approvals?.kioskAssist],
+        ['kiosk_card', input.approvals?.kioskCard],
+      ] as const) {
+        if (!token) continue;
+        await this.overrides.consume(tx, {
+          token,
+          action,
+          outletId: input.outletId,
+          requestedBy: input.employeeId,
+          referenceId: transactionId,
+        });
+      }
+
+      // 1. Take the next receipt number of the outlet (given back on rollback)
+      //    and create the transaction record
+      const receiptNumber = await this.numbering.allocate(tx, {
+        outletId: input.outletId,
+        documentType: 'sale',
+        documentId: transactionId,
+        issuedAt: occurredAt,
+        deviceId: input.deviceId,
+        reservedNumber: input.offlineReceiptNumber,
+      });
+
       const txn = await tx.transaction.create({
         data: {
           id: transactionId,
@@ -165,6 +269,7 @@ export class CreateTransactionUseCase {
           customerId: input.customerId || null,
           shiftId: input.shiftId,
           receiptNumber,
+          offlineReceiptNumber: input.offlineReceiptNumber || null,
           transactionType: 'sale',
           orderType: input.orderType,
           tableId: input.tableId || null,
@@ -175,7 +280,7 @@ export class CreateTransactionUseCase {
           grandTotal,
           notes: input.notes || null,
           status: 'completed',
-          createdAt: new Date(),
+          createdAt: occurredAt,
           updatedAt: new Date(),
         },
       });
@@ -191,14 +296,28 @@ export class CreateTransactionUseCase {
             variantName: item.variantName,
             quantity: item.quantity,
             unitPrice: item.unitPrice,
-            discountAmount: 0,
+            discountAmount: item.discountAmount,
             subtotal: item.subtotal,
             notes: item.notes,
           },
         });
       }
 
-      // 3. Create payments
+      // 3. Take gift card / wallet tenders off their balances and use reservation
+      //    deposits, then create payments
+      await this.storedValue.redeem(tx, {
+        outletId: input.outletId,
+        transactionId: txn.id,
+        customerId: input.customerId,
+        employeeId: input.employeeId,
+        payments: input.payments,
+      });
+      await this.reservationDeposits.apply(tx, {
+        outletId: input.outletId,
+        transactionId: txn.id,
+        payments: input.payments,
+      });
+
       for (const payment of input.payments) {
         await tx.payment.create({
           data: {
@@ -229,7 +348,12 @@ export class CreateTransactionUseCase {
       }
 
       // 5. Deduct stock levels (CRITICAL - must be atomic with transaction creation)
-      const stockChanges: Array<{ productId: string; variantId: string | null; previousQty: number; newQty: number }> = [];
+      const stockChanges: Array<{
+        productId: string;
+        variantId: string | null;
+        previousQty: number;
+        newQty: number;
+      }> = [];
 
       for (const item of itemDetails) {
         const product = await tx.product.findUnique({
@@ -252,16 +376,22 @@ export class CreateTransactionUseCase {
         }
 
         const currentQty = Number(stockLevel.quantity);
-        const newQty = currentQty - item.quantity;
-        if (newQty < 0) {
+        if (currentQty < item.quantity) {
           throw new InsufficientStockException(item.productId, currentQty, item.quantity);
         }
+        const newQty = Quantity.create(currentQty).subtract(Quantity.create(item.quantity)).value;
 
         // Update stock level atomically
         await tx.stockLevel.update({
           where: { id: stockLevel.id },
           data: { quantity: newQty },
         });
+        await this.binStock.trimToStockLevel(
+          tx,
+          input.outletId,
+          item.productId,
+          item.variantId || null,
+        );
 
         // Create stock movement audit trail
         await tx.stockMovement.create({
@@ -279,7 +409,12 @@ export class CreateTransactionUseCase {
           },
         });
 
-        stockChanges.push({ productId: item.productId, variantId: item.variantId, previousQty: currentQty, newQty });
+        stockChanges.push({
+          productId: item.productId,
+          variantId: item.variantId,
+          previousQty: currentQty,
+          newQty,
+        });
       }
 
       return { txn, stockChanges };
@@ -297,7 +432,13 @@ export class CreateTransactionUseCase {
     // Publish stock change events so inventory displays update in real-time
     for (const sc of transactionRecord.stockChanges) {
       this.eventBus.publish(
-        new StockLevelChangedEvent(input.outletId, sc.productId, sc.variantId, sc.previousQty, sc.newQty),
+        new StockLevelChangedEvent(
+          input.outletId,
+          sc.productId,
+          sc.variantId,
+          sc.previousQty,
+          sc.newQty,
+        ),
       );
     }
 
@@ -307,10 +448,81 @@ export class CreateTransactionUseCase {
 
     return {
       transactionId: transactionRecord.txn.id,
-      receiptNumber,
+      receiptNumber: transactionRecord.txn.receiptNumber,
       grandTotal,
       change,
       loyaltyPointsEarned: 0,
     };
   }
+
+  private async allocatePromotions(
+    input: CreateTransactionInput,
+    items: Array<{
+      productId: string;
+      variantId: string | null;
+      unitPrice: number;
+      quantity: number;
+      discountAmount: number;
+    }>,
+    subtotal: number,
+  ): Promise<void> {
+    const promotionIds = [
+      ...new Set((input.discounts ?? []).flatMap((d) => (d.promotionId ? [d.promotionId] : []))),
+    ];
+    if (promotionIds.length === 0) return;
+
+    const outlet = await this.prisma.outlet.findUnique({
+      where: { id: input.outletId },
+      select: { businessId: true },
+    });
+    if (!outlet) return;
+
+    const result = await this.promotionRules.findApplicablePromotions({
+      businessId: outlet.businessId,
+      outletId: input.outletId,
+      items: items.map((item) => ({
+        productId: item.productId,
+        ...(item.variantId && { variantId: item.variantId }),
+        quantity: item.quantity,
+        price: item.unitPrice,
+      })),
+      total: subtotal,
+      customerId: input.customerId,
+      paymentMethod: input.payments[0]?.method,
+      promotionIds,
+      now: input.occurredAt,
+    });
+    result.lines.forEach((line, index) => {
+      items[index].discountAmount += line.discount;
+    });
+  }
+
+  /** Splits a cart-level discount over the lines by what is left of each, to the cent */
+  private spreadDiscount(
+    amount: number,
+    items: Array<{ subtotal: number; discountAmount: number }>,
+  ): void {
+    const remaining = items.map((item) => Math.max(0, item.subtotal - item.discountAmount));
+    const total = remaining.reduce((sum, value) => sum + value, 0);
+    const cents = Math.round(amount * 100);
+    if (cents <= 0 || total <= 0) return;
+
+    let covered = 0;
+    let allocated = 0;
+    items.forEach((item, index) => {
+      covered += remaining[index];
+      const upTo = Math.round((cents * covered) / total);
+      item.discountAmount = (Math.round(item.discountAmount * 100) + upTo - allocated) / 100;
+      allocated = upTo;
+    });
+  }
+
+  private async catalogPrice(basePrice: number, variantId?: string): Promise<number> {
+    if (!variantId) return basePrice;
+    const variant = await this.prisma.productVariant.findUnique({
+      where: { id: variantId },
+      select: { price: true },
+    });
+    return variant ? variant.price.toNumber() : basePrice;
+  }
 }
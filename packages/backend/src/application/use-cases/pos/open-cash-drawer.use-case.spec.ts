@@ -0,0 +1,104 @@
+import { OpenCashDrawerUseCase, OpenCashDrawerInput } from './open-cash-drawer.use-case';
+import { BusinessError } from '@shared/errors/business-error';
+import type {
+  IShiftRepository,
+  ShiftRecord,
+} from '@domain/interfaces/repositories/shift.repository';
+import type { IAuditLogRepository } from '@domain/interfaces/repositories/audit.repository';
+import type { PrismaService } from '@infrastructure/database/prisma.service';
+import type { ManagerOverrideService } from '../../../modules/overrides/manager-override.service';
+
+describe('OpenCashDrawerUseCase', () => {
+  let useCase: OpenCashDrawerUseCase;
+  let mockShiftRepo: jest.Mocked<IShiftRepository>;
+  let mockAuditRepo: jest.Mocked<IAuditLogRepository>;
+  let mockOverrides: jest.Mocked<ManagerOverrideService>;
+
+  const openShift: ShiftRecord = {
+    id: 'shift-1',
+    outletId: 'outlet-1',
+    employeeId: 'emp-1',
+    startedAt: new Date('2025-01-01T08:00:00Z'),
+    endedAt: null,
+    openingCash: 500000,
+    closingCash: null,
+    expectedCash: null,
+    cashDifference: null,
+    cashIn: null,
+    cashOut: null,
+    blindClose: false,
+    drawerSessionId: null,
+    sharedDrawer: false,
+    notes: null,
+    status: 'open',
+    createdAt: new Date('2025-01-01T08:00:00Z'),
+  };
+
+  const baseInput: OpenCashDrawerInput = {
+    shiftId: 'shift-1',
+    employeeId: 'emp-1',
+    businessId: 'biz-1',
+    outletId: 'outlet-1',
+    reason: 'Change for a customer',
+  };
+
+  beforeEach(() => {
+    mockShiftRepo = {
+      findById: jest.fn().mockResolvedValue(openShift),
+      findOpenShift: jest.fn(),
+      create: jest.fn(),
+      close: jest.fn(),
+      addCashIn: jest.fn(),
+      addCashOut: jest.fn(),
+    };
+    mockAuditRepo = {
+      create: jest.fn(),
+      findByEntity: jest.fn(),
+    } as unknown as jest.Mocked<IAuditLogRepository>;
+    mockOverrides = {
+      consume: jest.fn(),
+    } as unknown as jest.Mocked<ManagerOverrideService>;
+
+    useCase = new OpenCashDrawerUseCase(
+      mockShiftRepo,
+      mockAuditRepo,
+      {} as PrismaService,
+      mockOverrides,
+    );
+  });
+
+  it('should audit a no-sale open by the cashier of the shift', async () => {
+    // Act
+    const result = await useCase.execute(baseInput);
+
+    // Assert
+    expect(result).toEqual({ success: true, approvedBy: null });
+    expect(mockAuditRepo.create).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'no_sale_open', entityId: 'shift-1' }),
+    );
+  });
+
+  it('should refuse to open the drawer of a shift run by another employee', async () => {
+    // Act & Assert
+    await expect(useCase.execute({ ...baseInput, employeeId: 'emp-2' })).rejects.toThrow(
+      BusinessError,
+    );
+    expect(mockAuditRepo.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a shift from another outlet', async () => {
+    // Act & Assert
+    await expect(useCase.execute({ ...baseInput, outletId: 'outlet-2' })).rejects.toThrow(
+      BusinessError,
+    );
+    expect(mockAuditRepo.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a closed shift', async () => {
+    // Arrange
+    mockShiftRepo.findById.mockResolvedValue({ ...openShift, status: 'closed' });
+
+    // Act & Assert
+    await expect(useCase.execute(baseInput)).rejects.toThrow('Shift is not open');
+  });
+});
@@ -0,0 +1,89 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { REPOSITORY_TOKENS } from '@infrastructure/repositories/repository.tokens';
+import { PrismaService } from '@infrastructure/database/prisma.service';
+import { BusinessError } from '@shared/errors/business-error';
+import { ErrorCode } from '@shared/constants/error-codes';
+import type { IShiftRepository } from '@domain/interfaces/repositories/shift.repository';
+import type { IAuditLogRepository } from '@domain/interfaces/repositories/audit.repository';
+import {
+  ManagerOverrideService,
+  assertApprovalProvided,
+} from '../../../modules/overrides/manager-override.service';
+
+export interface OpenCashDrawerInput {
+  shiftId: string;
+  employeeId: string;
+  businessId: string;
+  outletId: string;
+  reason?: string;
+  /** Set when the employee lacks pos.cash_drawer.no_sale and must bring a supervisor's approval */
+  requiresApproval?: boolean;
+  approvalToken?: string;
+}
+
+/**
+ * Opens the cash drawer without a sale. The open is audited as `no_sale_open`,
+ * which the suspicious activity report already watches.
+ */
+@Injectable()
+export class OpenCashDrawerUseCase {
+  constructor(
+    @Inject(REPOSITORY_TOKENS.SHIFT)
+    private readonly shiftRepo: IShiftRepository,
+    @Inject(REPOSITORY_TOKENS.AUDIT)
+    private readonly auditRepo: IAuditLogRepository,
+    private readonly prisma: PrismaService,
+    private readonly overrides: ManagerOverrideService,
+  ) {}
+
+  async execute(
+    input: OpenCashDrawerInput,
+  ): Promise<{ success: boolean; approvedBy: string | null }> {
+    const shift = await this.shiftRepo.findById(input.shiftId);
+    if (!shift || shift.status !== 'open') {
+      throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'Shift is not open');
+    }
+
+    // Only the cashier of the shift, at its own outlet, can pop its drawer
+    if (shift.employeeId !== input.employeeId || shift.outletId !== input.outletId) {
+      throw new BusinessError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        'This shift does not belong to the employee',
+      );
+    }
+
+    assertApprovalProvided('no_sale', input.requiresApproval, input.approvalToken);
+
+    const approvalToken = input.approvalToken;
+    const approval = approvalToken
+      ? await this.prisma.$transaction((tx) =>
+          this.overrides.consume(tx, {
+            token: approvalToken,
+            action: 'no_sale',
+            outletId: input.outletId,
+            requestedBy: input.employeeId,
+            referenceId: input.shiftId,
+          }),
+        )
+      : null;
+    const approvedBy = approval?.approvedBy ?? null;
+
+    await this.auditRepo.create({
+      id: '',
+      businessId: input.businessId,
+      outletId: input.outletId,
+      employeeId: input.employeeId,
+      action: 'no_sale_open',
+      entityType: 'shift',
+      entityId: input.shiftId,
+      oldValue: null,
+      newValue: { reason: input.reason ?? null, approvedBy },
+      ipAddress: null,
+      deviceId: null,
+      metadata: null,
+      createdAt: new Date(),
+    });
+
+    return { success: true, approvedBy };
+  }
+}
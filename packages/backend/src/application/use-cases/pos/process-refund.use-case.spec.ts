@@ -12,6 +12,9 @@ import type {
   StockLevelRecord,
 } from '@domain/interfaces/repositories/inventory.repository';
 import type { IAuditLogRepository } from '@domain/interfaces/repositories/audit.repository';
+import type { StoredValueService } from '../../../modules/gift-cards/stored-value.service';
+import type { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
+import type { ManagerOverrideService } from '../../../modules/overrides/manager-override.service';
 
 describe('ProcessRefundUseCase', () => {
   let useCase: ProcessRefundUseCase;
@@ -20,6 +23,9 @@ describe('ProcessRefundUseCase', () => {
   let mockAuditRepo: jest.Mocked<IAuditLogRepository>;
   let mockPrisma: jest.Mocked<PrismaService>;
   let mockEventBus: jest.Mocked<EventBusService>;
+  let mockStoredValue: jest.Mocked<StoredValueService>;
+  let mockNumbering: jest.Mocked<DocumentNumberingService>;
+  let mockOverrides: jest.Mocked<ManagerOverrideService>;
 
   const originalTransaction: TransactionRecord = {
     id: 'txn-original',
@@ -112,6 +118,10 @@ describe('ProcessRefundUseCase', () => {
       transactionItem: {
         findMany: jest.fn(),
       },
+      transaction: {
+        create: jest.fn().mockImplementation(({ data }) => ({ ...data, id: 'txn-refund' })),
+      },
+      $transaction: jest.fn((fn) => fn(mockPrisma)),
     } as unknown as jest.Mocked<PrismaService>;
 
     mockEventBus = {
@@ -120,22 +130,33 @@ describe('ProcessRefundUseCase', () => {
       onAll: jest.fn(),
     } as unknown as jest.Mocked<EventBusService>;
 
+    mockStoredValue = {
+      reverseForTransaction: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<StoredValueService>;
+
+    mockNumbering = {
+      allocate: jest.fn().mockResolvedValue('RTN/OUT1/202610/00001'),
+    } as unknown as jest.Mocked<DocumentNumberingService>;
+
+    mockOverrides = {
+      consume: jest.fn().mockResolvedValue({ overrideId: 'ovr-1', approvedBy: 'emp-sup' }),
+    } as unknown as jest.Mocked<ManagerOverrideService>;
+
     useCase = new ProcessRefundUseCase(
       mockTransactionRepo,
       mockInventoryRepo,
       mockAuditRepo,
       mockPrisma,
       mockEventBus,
+      mockStoredValue,
+      mockNumbering,
+      mockOverrides,
     );
   });
 
   it('should process full refund successfully', async () => {
     mockTransactionRepo.findById.mockResolvedValue(originalTransaction);
     (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
-    mockTransactionRepo.save.mockImplementation(async (txn) => ({
-      ...txn,
-      id: 'txn-refund',
-    }));
     mockInventoryRepo.findStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.updateStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.createStockMovement.mockResolvedValue({
@@ -196,7 +217,12 @@ describe('ProcessRefundUseCase', () => {
     // refundTax = Math.round(50000 * 0.11) = 5500
     // refundAmount = 50000 + 5500 = 55500
     expect(result.refundAmount).toBe(55500);
-    expect(result.receiptNumber).toContain('REF-');
+    expect(result.receiptNumber).toBe('RTN/OUT1/202610/00001');
+    expect(mockNumbering.allocate).toHaveBeenCalledWith(mockPrisma, {
+      outletId: 'outlet-1',
+      documentType: 'refund',
+      documentId: expect.any(String),
+    });
 
     // Should update original to 'refunded' since full refund
     expect(mockTransactionRepo.update).toHaveBeenCalledWith('txn-original', {
@@ -207,10 +233,6 @@ describe('ProcessRefundUseCase', () => {
   it('should process partial refund successfully', async () => {
     mockTransactionRepo.findById.mockResolvedValue(originalTransaction);
     (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
-    mockTransactionRepo.save.mockImplementation(async (txn) => ({
-      ...txn,
-      id: 'txn-refund',
-    }));
     mockInventoryRepo.findStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.updateStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.createStockMovement.mockResolvedValue({
@@ -288,6 +310,130 @@ describe('ProcessRefundUseCase', () => {
     });
   });
 
+  it('should return the gift card and wallet share when refunding to the original method', async () => {
+    mockTransactionRepo.findById.mockResolvedValue(originalTransaction);
+    (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
+    mockInventoryRepo.findStockLevel.mockResolvedValue(null);
+
+    await useCase.execute({
+      ...baseRefundInput,
+      items: [{ transactionItemId: 'item-1', quantity: 1, reason: 'customer_request' }],
+      refundMethod: 'original_method',
+    });
+
+    // refundAmount = 25000 + round(25000 * 0.11) = 27750, half of the 55500 sale
+    expect(mockStoredValue.reverseForTransaction).toHaveBeenCalledWith(
+      'txn-original',
+      expect.objectContaining({ employeeId: 'emp-2' }),
+      0.5,
+    );
+  });
+
+  it('should number a store credit refund as a credit note', async () => {
+    mockTransactionRepo.findById.mockResolvedValue(originalTransaction);
+    (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
+    mockInventoryRepo.findStockLevel.mockResolvedValue(null);
+    mockNumbering.allocate.mockResolvedValue('CN/OUT1/202610/00001');
+
+    const result = await useCase.execute({ ...baseRefundInput, refundMethod: 'store_credit' });
+
+    expect(mockNumbering.allocate).toHaveBeenCalledWith(
+      mockPrisma,
+      expect.objectContaining({ documentType: 'credit_note' }),
+    );
+    expect(result.creditNoteId).toBe('txn-refund');
+    expect(result.receiptNumber).toBe('CN/OUT1/202610/00001');
+  });
+
+  it('should not touch stored value for cash refunds', async () => {
+    mockTransactionRepo.findById.mockResolvedValue(originalTransaction);
+    (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
+    mockInventoryRepo.findStockLevel.mockResolvedValue(null);
+
+    await useCase.execute(baseRefundInput);
+
+    expect(mockStoredValue.reverseForTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should refund one unit of a buy-one-get-one line at what it cost', async () => {
+    // Arrange: two coffees at 25000, the second free
+    mockTransactionRepo.findById.mockResolvedValue({
+      ...originalTransaction,
+      discountAmount: 25000,
+      taxAmount: 2750,
+      grandTotal: 27750,
+    });
+    (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue([
+      { ...mockTransactionItems[0], discountAmount: 25000 },
+    ]);
+    mockInventoryRepo.findStockLevel.mockResolvedValue(null);
+
+    // Act
+    const result = await useCase.execute({
+      ...baseRefundInput,
+      items: [{ transactionItemId: 'item-1', quantity: 1, reason: 'defect' }],
+    });
+
+    // Assert: half the line's 25000 discount goes with the unit
+    // refundNet = 25000 - 12500 = 12500, refundTax = round(12500 * 2750 / 25000) = 1375
+    expect(result.refundAmount).toBe(13875);
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        subtotal: -25000,
+        discountAmount: -12500,
+        taxAmount: -1375,
+        grandTotal: -13875,
+      }),
+    });
+    expect(mockTransactionRepo.update).toHaveBeenCalledWith('txn-original', {
+      status: 'partially_refunded',
+    });
+  });
+
+  it('should refund a bundle component net of its share of the bundle discount', async () => {
+    // Arrange: burger 30000 + fries 15000 sold as a 36000 bundle
+    mockTransactionRepo.findById.mockResolvedValue({
+      ...originalTransaction,
+      subtotal: 45000,
+      discountAmount: 9000,
+      taxAmount: 3960,
+      grandTotal: 39960,
+    });
+    (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue([
+      {
+        ...mockTransactionItems[0],
+        id: 'item-burger',
+        productId: 'prod-burger',
+        quantity: 1,
+        unitPrice: { toNumber: () => 30000 },
+        discountAmount: 6000,
+        subtotal: 30000,
+      },
+      {
+        ...mockTransactionItems[0],
+        id: 'item-fries',
+        productId: 'prod-fries',
+        quantity: 1,
+        unitPrice: { toNumber: () => 15000 },
+        discountAmount: 3000,
+        subtotal: 15000,
+      },
+    ]);
+    mockInventoryRepo.findStockLevel.mockResolvedValue(null);
+
+    // Act
+    const result = await useCase.execute({
+      ...baseRefundInput,
+      items: [{ transactionItemId: 'item-fries', quantity: 1, reason: 'wrong_order' }],
+    });
+
+    // Assert: refundNet = 15000 - 3000 = 12000, refundTax = round(12000 * 0.11) = 1320
+    expect(result.refundAmount).toBe(13320);
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ subtotal: -15000, discountAmount: -3000, taxAmount: -1320 }),
+    });
+  });
+
   it('should throw TransactionNotFoundException when transaction not found', async () => {
     mockTransactionRepo.findById.mockResolvedValue(null);
 
@@ -320,8 +466,8 @@ describe('ProcessRefundUseCase', () => {
       status: 'partially_refunded',
     });
     (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
-    mockTransactionRepo.save.mockImplementation(async (txn) => ({
-      ...txn,
+    (mockPrisma.transaction.create as jest.Mock).mockImplementation(({ data }) => ({
+      ...data,
       id: 'txn-refund-2',
     }));
     mockInventoryRepo.findStockLevel.mockResolvedValue(baseStockLevel);
@@ -410,10 +556,6 @@ describe('ProcessRefundUseCase', () => {
 
     mockTransactionRepo.findById.mockResolvedValue(zeroSubtotalTransaction);
     (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
-    mockTransactionRepo.save.mockImplementation(async (txn) => ({
-      ...txn,
-      id: 'txn-refund',
-    }));
     mockInventoryRepo.findStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.updateStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.createStockMovement.mockResolvedValue({
@@ -477,10 +619,6 @@ describe('ProcessRefundUseCase', () => {
   it('should return stock after refund', async () => {
     mockTransactionRepo.findById.mockResolvedValue(originalTransaction);
     (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
-    mockTransactionRepo.save.mockImplementation(async (txn) => ({
-      ...txn,
-      id: 'txn-refund',
-    }));
     mockInventoryRepo.findStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.updateStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.createStockMovement.mockResolvedValue({
@@ -549,10 +687,6 @@ describe('ProcessRefundUseCase', () => {
   it('should create audit log after refund', async () => {
     mockTransactionRepo.findById.mockResolvedValue(originalTransaction);
     (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
-    mockTransactionRepo.save.mockImplementation(async (txn) => ({
-      ...txn,
-      id: 'txn-refund',
-    }));
     mockInventoryRepo.findStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.updateStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.createStockMovement.mockResolvedValue({
@@ -622,10 +756,6 @@ describe('ProcessRefundUseCase', () => {
   it('should save refund transaction with negative amounts', async () => {
     mockTransactionRepo.findById.mockResolvedValue(originalTransaction);
     (mockPrisma.transactionItem.findMany as jest.Mock).mockResolvedValue(mockTransactionItems);
-    mockTransactionRepo.save.mockImplementation(async (txn) => ({
-      ...txn,
-      id: 'txn-refund',
-    }));
     mockInventoryRepo.findStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.updateStockLevel.mockResolvedValue(baseStockLevel);
     mockInventoryRepo.createStockMovement.mockResolvedValue({
@@ -680,14 +810,15 @@ describe('ProcessRefundUseCase', () => {
 
     await useCase.execute(baseRefundInput);
 
-    expect(mockTransactionRepo.save).toHaveBeenCalledWith(
-      expect.objectContaining({
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        receiptNumber: 'RTN/OUT1/202610/00001',
         transactionType: 'refund',
         subtotal: -50000,
         taxAmount: -5500,
         grandTotal: -55500,
         status: 'completed',
       }),
-    );
+    });
   });
 });
@@ -8,6 +8,12 @@ import { PrismaService } from '@infrastructure/database/prisma.service';
 import type { ITransactionRepository } from '@domain/interfaces/repositories/transaction.repository';
 import type { IInventoryRepository } from '@domain/interfaces/repositories/inventory.repository';
 import type { IAuditLogRepository } from '@domain/interfaces/repositories/audit.repository';
+import { StoredValueService } from '../../../modules/gift-cards/stored-value.service';
+import { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
+import {
+  ManagerOverrideService,
+  assertApprovalProvided,
+} from '../../../modules/overrides/manager-override.service';
 
 export interface RefundItemInput {
   transactionItemId: string;
@@ -21,6 +27,9 @@ export interface ProcessRefundInput {
   items: RefundItemInput[];
   refundMethod: 'cash' | 'original_method' | 'store_credit';
   notes?: string;
+  /** Set when the employee lacks pos.refund and must bring a supervisor's approval */
+  requiresApproval?: boolean;
+  approvalToken?: string;
 }
 
 export interface ProcessRefundOutput {
@@ -28,6 +37,7 @@ export interface ProcessRefundOutput {
   refundAmount: number;
   creditNoteId?: string;
   receiptNumber: string;
+  approvedBy: string | null;
 }
 
 @Injectable()
@@ -41,6 +51,9 @@ export class ProcessRefundUseCase {
     private readonly auditRepo: IAuditLogRepository,
     private readonly prisma: PrismaService,
     private readonly eventBus: EventBusService,
+    private readonly storedValue: StoredValueService,
+    private readonly numbering: DocumentNumberingService,
+    private readonly overrides: ManagerOverrideService,
   ) {}
 
   async execute(input: ProcessRefundInput): Promise<ProcessRefundOutput> {
@@ -58,11 +71,14 @@ export class ProcessRefundUseCase {
       throw new RefundNotAllowedException(`Transaction status is ${original.status}`);
     }
 
+    assertApprovalProvided('refund', input.requiresApproval, input.approvalToken);
+
     const transactionItems = await this.prisma.transactionItem.findMany({
       where: { transactionId: input.transactionId },
     });
 
     let refundSubtotal = 0;
+    let refundDiscount = 0;
     const refundItems: Array<{
       productId: string | null;
       variantId: string | null;
@@ -81,6 +97,14 @@ export class ProcessRefundUseCase {
       const unitPrice = txItem.unitPrice.toNumber();
       const itemRefund = unitPrice * refundItem.quantity;
       refundSubtotal += itemRefund;
+      // The line's share of the sale's discounts (a bundle, a free BOGO unit)
+      // is spread evenly over its units, so each unit gives back what it cost
+      const lineQuantity = Number(txItem.quantity);
+      const lineDiscount = Number(txItem.discountAmount);
+      if (lineQuantity > 0) {
+        refundDiscount +=
+          Math.round((lineDiscount * refundItem.quantity * 100) / lineQuantity) / 100;
+      }
 
       refundItems.push({
         productId: txItem.productId,
@@ -90,34 +114,57 @@ export class ProcessRefundUseCase {
       });
     }
 
-    const originalSubtotal = original.subtotal || 0;
-    // If subtotal is 0 (fully discounted), tax proportion is 0
-    const taxProportion = originalSubtotal === 0 ? 0 : original.taxAmount / originalSubtotal;
-    const refundTax = Math.round(refundSubtotal * taxProportion);
-    const refundAmount = refundSubtotal + refundTax;
+    // Tax was charged on the discounted amount; if nothing was left to tax, the proportion is 0
+    const originalTaxable = (original.subtotal || 0) - (original.discountAmount || 0);
+    const taxProportion = originalTaxable <= 0 ? 0 : original.taxAmount / originalTaxable;
+    const refundNet = refundSubtotal - refundDiscount;
+    const refundTax = Math.round(refundNet * taxProportion);
+    const refundAmount = refundNet + refundTax;
 
-    const receiptNumber = `REF-${Date.now()}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
+    // Refunds to store credit are documented as credit notes
+    const documentType = input.refundMethod === 'store_credit' ? 'credit_note' : 'refund';
+    const refundTransactionId = crypto.randomUUID();
 
-    const refundTransaction = await this.transactionRepo.save({
-      id: '',
-      outletId: original.outletId,
-      employeeId: input.employeeId,
-      customerId: original.customerId,
-      shiftId: original.shiftId,
-      receiptNumber,
-      transactionType: 'refund',
-      orderType: original.orderType,
-      tableId: null,
-      subtotal: -refundSubtotal,
-      discountAmount: 0,
-      taxAmount: -refundTax,
-      serviceCharge: 0,
-      grandTotal: -refundAmount,
-      notes: input.notes || `Refund for ${original.receiptNumber}`,
-      status: 'completed',
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    const { refundTransaction, approvedBy } = await this.prisma.$transaction(async (tx) => {
+      const approval = input.approvalToken
+        ? await this.overrides.consume(tx, {
+            token: input.approvalToken,
+            action: 'refund',
+            outletId: original.outletId,
+            requestedBy: input.employeeId,
+            referenceId: original.id,
+          })
+        : null;
+
+      const receiptNumber = await this.numbering.allocate(tx, {
+        outletId: original.outletId,
+        documentType,
+        documentId: refundTransactionId,
+      });
+
+      const created = await tx.transaction.create({
+        data: {
+          id: refundTransactionId,
+          outletId: original.outletId,
+          employeeId: input.employeeId,
+          customerId: original.customerId,
+          shiftId: original.shiftId,
+          receiptNumber,
+          transactionType: 'refund',
+          orderType: original.orderType as 'dine_in' | 'takeaway' | 'delivery',
+          tableId: null,
+          subtotal: -refundSubtotal,
+          discountAmount: -refundDiscount,
+          taxAmount: -refundTax,
+          serviceCharge: 0,
+          grandTotal: -refundAmount,
+          notes: input.notes || `Refund for ${original.receiptNumber}`,
+          status: 'completed',
+        },
+      });
+      return { refundTransaction: created, approvedBy: approval?.approvedBy ?? null };
     });
+    const receiptNumber = refundTransaction.receiptNumber;
 
     const stockChanges: Array<{ productId: string; variantId: string | null; previousQty: number; newQty: number }> = [];
 
@@ -150,6 +197,20 @@ export class ProcessRefundUseCase {
       }
     }
 
+    // Refunds to the original method return the gift card / wallet share of
+    // the sale to those balances, in proportion to the amount refunded
+    if (input.refundMethod === 'original_method' && original.grandTotal > 0) {
+      await this.storedValue.reverseForTransaction(
+        original.id,
+        {
+          outletId: original.outletId,
+          employeeId: input.employeeId,
+          notes: `Refund ${receiptNumber}`,
+        },
+        refundAmount / original.grandTotal,
+      );
+    }
+
     const allRefunded = refundSubtotal >= original.subtotal;
     await this.transactionRepo.update(input.transactionId, {
       status: allRefunded ? 'refunded' : 'partially_refunded',
@@ -164,7 +225,11 @@ export class ProcessRefundUseCase {
       entityType: 'transaction',
       entityId: original.id,
       oldValue: { status: original.status, grandTotal: original.grandTotal },
-      newValue: { status: allRefunded ? 'refunded' : 'partially_refunded', refundAmount },
+      newValue: {
+        status: allRefunded ? 'refunded' : 'partially_refunded',
+        refundAmount,
+        approvedBy,
+      },
       ipAddress: null,
       deviceId: null,
       metadata: { refundMethod: input.refundMethod, reason: input.notes },
@@ -174,14 +239,22 @@ export class ProcessRefundUseCase {
     // Publish stock change events so inventory displays update in real-time
     for (const sc of stockChanges) {
       this.eventBus.publish(
-        new StockLevelChangedEvent(original.outletId, sc.productId, sc.variantId, sc.previousQty, sc.newQty),
+        new StockLevelChangedEvent(
+          original.outletId,
+          sc.productId,
+          sc.variantId,
+          sc.previousQty,
+          sc.newQty,
+        ),
       );
     }
 
     return {
       refundTransactionId: refundTransaction.id,
       refundAmount,
+      ...(documentType === 'credit_note' && { creditNoteId: refundTransaction.id }),
       receiptNumber,
+      approvedBy,
     };
   }
 }
@@ -20,6 +20,14 @@ export class ReprintReceiptUseCase {
     const items = await this.transactionRepo.findItemsByTransactionId(transactionId);
     const payments = await this.transactionRepo.findPaymentsByTransactionId(transactionId);
 
+    // Weighed items print their weight and unit instead of a count
+    const productIds = items.map((item) => item.productId).filter((id): id is string => !!id);
+    const weighed = await this.prisma.product.findMany({
+      where: { id: { in: productIds }, isWeighed: true },
+      select: { id: true, sellUnit: true },
+    });
+    const unitOf = new Map(weighed.map((p) => [p.id, p.sellUnit ?? 'kg']));
+
     // Fetch outlet, business, and employee data
     const outlet = await this.prisma.outlet.findUnique({
       where: { id: transaction.outletId },
@@ -61,6 +69,7 @@ export class ReprintReceiptUseCase {
           productName: item.productName,
           variantName: item.variantName,
           quantity: item.quantity,
+          unit: (item.productId && unitOf.get(item.productId)) || null,
           unitPrice: item.unitPrice,
           discountAmount: item.discountAmount,
           subtotal: item.subtotal,
@@ -5,10 +5,14 @@ import type {
   TransactionRecord,
   TransactionItemRecord,
 } from '@domain/interfaces/repositories/transaction.repository';
+import type { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
+import type { PrismaService } from '@infrastructure/database/prisma.service';
 
 describe('SplitBillUseCase', () => {
   let useCase: SplitBillUseCase;
   let mockTransactionRepo: jest.Mocked<ITransactionRepository>;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockNumbering: jest.Mocked<DocumentNumberingService>;
 
   const baseTransaction: TransactionRecord = {
     id: 'txn-1',
@@ -61,10 +65,10 @@ describe('SplitBillUseCase', () => {
     },
   ];
 
-  let childIdCounter: number;
+  let saleCounter: number;
 
   beforeEach(() => {
-    childIdCounter = 0;
+    saleCounter = 0;
 
     mockTransactionRepo = {
       findById: jest.fn(),
@@ -76,12 +80,16 @@ describe('SplitBillUseCase', () => {
       findPaymentsByTransactionId: jest.fn(),
     };
 
-    mockTransactionRepo.save.mockImplementation(async (txn) => ({
-      ...txn,
-      id: `child-${++childIdCounter}`,
-    }));
+    mockPrisma = {
+      transaction: { create: jest.fn().mockResolvedValue({}) },
+      $transaction: jest.fn((fn) => fn(mockPrisma)),
+    } as unknown as jest.Mocked<PrismaService>;
 
-    useCase = new SplitBillUseCase(mockTransactionRepo);
+    mockNumbering = {
+      allocate: jest.fn().mockImplementation(async () => `INV/OUT1/202610/0000${++saleCounter}`),
+    } as unknown as jest.Mocked<DocumentNumberingService>;
+
+    useCase = new SplitBillUseCase(mockTransactionRepo, mockPrisma, mockNumbering);
   });
 
   afterEach(() => {
@@ -116,8 +124,8 @@ describe('SplitBillUseCase', () => {
 
     expect(result.parentTransactionId).toBe('txn-1');
     expect(result.childTransactions).toHaveLength(2);
-    expect(result.childTransactions[0].receiptNumber).toBe('TXN-001-S1');
-    expect(result.childTransactions[1].receiptNumber).toBe('TXN-001-S2');
+    expect(result.childTransactions[0].receiptNumber).toBe('INV/OUT1/202610/00001');
+    expect(result.childTransactions[1].receiptNumber).toBe('INV/OUT1/202610/00002');
 
     // Validate total matches original
     const totalSplit = result.childTransactions.reduce((sum, c) => sum + c.grandTotal, 0);
@@ -336,7 +344,7 @@ describe('SplitBillUseCase', () => {
     await expect(useCase.execute(input)).rejects.toThrow(/insufficient/i);
   });
 
-  it('should generate correct receipt numbers for child transactions', async () => {
+  it('should number each child from the outlet sale series', async () => {
     mockTransactionRepo.findById.mockResolvedValue(baseTransaction);
     mockTransactionRepo.findItemsByTransactionId.mockResolvedValue(baseItems);
 
@@ -354,12 +362,22 @@ describe('SplitBillUseCase', () => {
 
     const result = await useCase.execute(input);
 
-    expect(result.childTransactions[0].receiptNumber).toBe('TXN-001-S1');
-    expect(result.childTransactions[1].receiptNumber).toBe('TXN-001-S2');
-    expect(result.childTransactions[2].receiptNumber).toBe('TXN-001-S3');
+    expect(mockNumbering.allocate).toHaveBeenCalledTimes(3);
+    result.childTransactions.forEach((child) => {
+      expect(mockNumbering.allocate).toHaveBeenCalledWith(mockPrisma, {
+        outletId: 'outlet-1',
+        documentType: 'sale',
+        documentId: child.transactionId,
+      });
+    });
+    expect(result.childTransactions.map((c) => c.receiptNumber)).toEqual([
+      'INV/OUT1/202610/00001',
+      'INV/OUT1/202610/00002',
+      'INV/OUT1/202610/00003',
+    ]);
   });
 
-  it('should save each child transaction via repository', async () => {
+  it('should write the children in the transaction that numbers them', async () => {
     mockTransactionRepo.findById.mockResolvedValue(baseTransaction);
     mockTransactionRepo.findItemsByTransactionId.mockResolvedValue(baseItems);
 
@@ -376,19 +394,35 @@ describe('SplitBillUseCase', () => {
 
     await useCase.execute(input);
 
-    expect(mockTransactionRepo.save).toHaveBeenCalledTimes(2);
-    expect(mockTransactionRepo.save).toHaveBeenCalledWith(
-      expect.objectContaining({
-        receiptNumber: 'TXN-001-S1',
-        status: 'completed',
-      }),
-    );
-    expect(mockTransactionRepo.save).toHaveBeenCalledWith(
-      expect.objectContaining({
-        receiptNumber: 'TXN-001-S2',
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.transaction.create).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        receiptNumber: 'INV/OUT1/202610/00001',
+        transactionType: 'sale',
         status: 'completed',
       }),
-    );
+    });
+    expect(mockTransactionRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('should not number anything when the split is rejected', async () => {
+    mockTransactionRepo.findById.mockResolvedValue(baseTransaction);
+    mockTransactionRepo.findItemsByTransactionId.mockResolvedValue(baseItems);
+
+    const input: SplitEvenlyInput = {
+      splitType: 'evenly',
+      transactionId: 'txn-1',
+      employeeId: 'emp-1',
+      numberOfSplits: 2,
+      payments: [
+        { paymentMethod: 'cash', paymentAmount: 100000 },
+        { paymentMethod: 'cash', paymentAmount: 1 },
+      ],
+    };
+
+    await expect(useCase.execute(input)).rejects.toThrow(/insufficient/i);
+    expect(mockNumbering.allocate).not.toHaveBeenCalled();
   });
 
   it('should validate total of split by items matches original', async () => {
@@ -2,11 +2,13 @@ import { Inject, Injectable } from '@nestjs/common';
 import { REPOSITORY_TOKENS } from '@infrastructure/repositories/repository.tokens';
 import { BusinessError } from '@shared/errors/business-error';
 import { ErrorCode } from '@shared/constants/error-codes';
+import { PrismaService } from '@infrastructure/database/prisma.service';
 import type {
   ITransactionRepository,
   TransactionRecord,
   TransactionItemRecord,
 } from '@domain/interfaces/repositories/transaction.repository';
+import { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
 
 export interface SplitByItemsInput {
   splitType: 'by_items';
@@ -32,6 +34,15 @@ export interface SplitEvenlyInput {
 
 export type SplitBillInput = SplitByItemsInput | SplitEvenlyInput;
 
+/** The amounts of one part of the bill before it is written as a sale */
+interface SplitPart {
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  grandTotal: number;
+  notes: string;
+}
+
 export interface SplitBillOutput {
   parentTransactionId: string;
   childTransactions: Array<{
@@ -46,6 +57,8 @@ export class SplitBillUseCase {
   constructor(
     @Inject(REPOSITORY_TOKENS.TRANSACTION)
     private readonly transactionRepo: ITransactionRepository,
+    private readonly prisma: PrismaService,
+    private readonly numbering: DocumentNumberingService,
   ) {}
 
   async execute(input: SplitBillInput): Promise<SplitBillOutput> {
@@ -96,7 +109,7 @@ export class SplitBillUseCase {
       );
     }
 
-    const childTransactions: SplitBillOutput['childTransactions'] = [];
+    const parts: SplitPart[] = [];
 
     for (let i = 0; i < input.splits.length; i++) {
       const split = input.splits[i];
@@ -114,30 +127,17 @@ export class SplitBillUseCase {
         );
       }
 
-      const receiptNumber = `${transaction.receiptNumber}-S${i + 1}`;
-      const child = await this.transactionRepo.save({
-        ...transaction,
-        id: '',
-        receiptNumber,
+      parts.push({
         subtotal,
         taxAmount,
         grandTotal,
         discountAmount: splitItems.reduce((sum, item) => sum + item.discountAmount, 0),
         notes: `Split from ${transaction.receiptNumber}`,
-        status: 'completed',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
-
-      childTransactions.push({
-        transactionId: child.id,
-        receiptNumber,
-        grandTotal,
       });
     }
 
     // Validate total matches
-    const totalSplit = childTransactions.reduce((sum, c) => sum + c.grandTotal, 0);
+    const totalSplit = parts.reduce((sum, part) => sum + part.grandTotal, 0);
     if (totalSplit !== transaction.grandTotal) {
       throw new BusinessError(
         ErrorCode.INVALID_TRANSACTION,
@@ -147,7 +147,7 @@ export class SplitBillUseCase {
 
     return {
       parentTransactionId: input.transactionId,
-      childTransactions,
+      childTransactions: await this.saveParts(transaction, parts),
     };
   }
 
@@ -170,7 +170,7 @@ export class SplitBillUseCase {
     const splitAmount = Math.floor(transaction.grandTotal / input.numberOfSplits);
     const remainder = transaction.grandTotal - splitAmount * input.numberOfSplits;
 
-    const childTransactions: SplitBillOutput['childTransactions'] = [];
+    const parts: SplitPart[] = [];
 
     for (let i = 0; i < input.numberOfSplits; i++) {
       const grandTotal = i === 0 ? splitAmount + remainder : splitAmount;
@@ -183,30 +183,17 @@ export class SplitBillUseCase {
         );
       }
 
-      const receiptNumber = `${transaction.receiptNumber}-S${i + 1}`;
-      const child = await this.transactionRepo.save({
-        ...transaction,
-        id: '',
-        receiptNumber,
+      parts.push({
         grandTotal,
         subtotal: grandTotal,
         taxAmount: 0,
         discountAmount: 0,
         notes: `Even split ${i + 1} of ${input.numberOfSplits} from ${transaction.receiptNumber}`,
-        status: 'completed',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
-
-      childTransactions.push({
-        transactionId: child.id,
-        receiptNumber,
-        grandTotal,
       });
     }
 
     // Validate total matches
-    const totalSplit = childTransactions.reduce((sum, c) => sum + c.grandTotal, 0);
+    const totalSplit = parts.reduce((sum, part) => sum + part.grandTotal, 0);
     if (totalSplit !== transaction.grandTotal) {
       throw new BusinessError(
         ErrorCode.INVALID_TRANSACTION,
@@ -216,7 +203,49 @@ export class SplitBillUseCase {
 
     return {
       parentTransactionId: input.transactionId,
-      childTransactions,
+      childTransactions: await this.saveParts(transaction, parts),
     };
   }
+
+  // Each part is a new sale and takes the next number of the outlet's sale series
+  private saveParts(
+    transaction: TransactionRecord,
+    parts: SplitPart[],
+  ): Promise<SplitBillOutput['childTransactions']> {
+    return this.prisma.$transaction(async (db) => {
+      const children: SplitBillOutput['childTransactions'] = [];
+      for (const part of parts) {
+        const childId = crypto.randomUUID();
+        const receiptNumber = await this.numbering.allocate(db, {
+          outletId: transaction.outletId,
+          documentType: 'sale',
+          documentId: childId,
+        });
+
+        await db.transaction.create({
+          data: {
+            id: childId,
+            outletId: transaction.outletId,
+            employeeId: transaction.employeeId,
+            customerId: transaction.customerId,
+            shiftId: transaction.shiftId,
+            receiptNumber,
+            transactionType: 'sale',
+            orderType: transaction.orderType as 'dine_in' | 'takeaway' | 'delivery',
+            tableId: transaction.tableId,
+            subtotal: part.subtotal,
+            discountAmount: part.discountAmount,
+            taxAmount: part.taxAmount,
+            serviceCharge: transaction.serviceCharge,
+            grandTotal: part.grandTotal,
+            notes: part.notes,
+            status: 'completed',
+          },
+        });
+
+        children.push({ transactionId: childId, receiptNumber, grandTotal: part.grandTotal });
+      }
+      return children;
+    });
+  }
 }
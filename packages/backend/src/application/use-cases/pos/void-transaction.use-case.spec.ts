@@ -13,6 +13,12 @@ import type {
   StockLevelRecord,
 } from '@domain/interfaces/repositories/inventory.repository';
 import type { IAuditLogRepository } from '@domain/interfaces/repositories/audit.repository';
+import type { StoredValueService } from '../../../modules/gift-cards/stored-value.service';
+import type { ReservationDepositService } from '../../../modules/reservations/reservation-deposit.service';
+import type { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
+import type { PrismaService } from '@infrastructure/database/prisma.service';
+import type { ManagerOverrideService } from '../../../modules/overrides/manager-override.service';
+import { AppError } from '@shared/errors/app-error';
 
 describe('VoidTransactionUseCase', () => {
   let useCase: VoidTransactionUseCase;
@@ -20,6 +26,11 @@ describe('VoidTransactionUseCase', () => {
   let mockInventoryRepo: jest.Mocked<IInventoryRepository>;
   let mockAuditRepo: jest.Mocked<IAuditLogRepository>;
   let mockEventBus: jest.Mocked<EventBusService>;
+  let mockStoredValue: jest.Mocked<StoredValueService>;
+  let mockReservationDeposits: jest.Mocked<ReservationDepositService>;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockNumbering: jest.Mocked<DocumentNumberingService>;
+  let mockOverrides: jest.Mocked<ManagerOverrideService>;
 
   const baseTransaction: TransactionRecord = {
     id: 'txn-1',
@@ -108,11 +119,37 @@ describe('VoidTransactionUseCase', () => {
       onAll: jest.fn(),
     } as unknown as jest.Mocked<EventBusService>;
 
+    mockStoredValue = {
+      reverseForTransaction: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<StoredValueService>;
+
+    mockReservationDeposits = {
+      release: jest.fn().mockResolvedValue(0),
+    } as unknown as jest.Mocked<ReservationDepositService>;
+
+    mockPrisma = {
+      transaction: { update: jest.fn(), updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      $transaction: jest.fn((fn) => fn(mockPrisma)),
+    } as unknown as jest.Mocked<PrismaService>;
+
+    mockNumbering = {
+      allocate: jest.fn().mockResolvedValue('VOID/OUT1/202610/00001'),
+    } as unknown as jest.Mocked<DocumentNumberingService>;
+
+    mockOverrides = {
+      consume: jest.fn().mockResolvedValue({ overrideId: 'ovr-1', approvedBy: 'emp-sup' }),
+    } as unknown as jest.Mocked<ManagerOverrideService>;
+
     useCase = new VoidTransactionUseCase(
       mockTransactionRepo,
       mockInventoryRepo,
       mockAuditRepo,
       mockEventBus,
+      mockStoredValue,
+      mockReservationDeposits,
+      mockPrisma,
+      mockNumbering,
+      mockOverrides,
     );
   });
 
@@ -178,14 +215,29 @@ describe('VoidTransactionUseCase', () => {
 
     expect(result.success).toBe(true);
     expect(result.message).toBe('Transaction voided successfully');
-    expect(mockTransactionRepo.update).toHaveBeenCalledWith(
-      'txn-1',
-      expect.objectContaining({
+    expect(result.voidNumber).toBe('VOID/OUT1/202610/00001');
+    expect(mockNumbering.allocate).toHaveBeenCalledWith(mockPrisma, {
+      outletId: 'outlet-1',
+      documentType: 'void',
+      documentId: 'txn-1',
+    });
+    expect(mockPrisma.transaction.updateMany).toHaveBeenCalledWith({
+      where: { id: 'txn-1', status: { notIn: ['voided', 'refunded'] } },
+      data: expect.objectContaining({
         status: 'voided',
         voidedBy: 'emp-2',
         voidReason: 'Customer changed mind',
       }),
+    });
+    expect(mockPrisma.transaction.update).toHaveBeenCalledWith({
+      where: { id: 'txn-1' },
+      data: { voidNumber: 'VOID/OUT1/202610/00001' },
+    });
+    expect(mockStoredValue.reverseForTransaction).toHaveBeenCalledWith(
+      'txn-1',
+      expect.objectContaining({ employeeId: 'emp-2' }),
     );
+    expect(mockReservationDeposits.release).toHaveBeenCalledWith('txn-1');
   });
 
   it('should throw TransactionNotFoundException when transaction not found', async () => {
@@ -204,6 +256,15 @@ describe('VoidTransactionUseCase', () => {
     await expect(useCase.execute(baseInput)).rejects.toThrow(/already voided/);
   });
 
+  it('should not number a void another request already made', async () => {
+    mockTransactionRepo.findById.mockResolvedValue(baseTransaction);
+    (mockPrisma.transaction.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    await expect(useCase.execute(baseInput)).rejects.toThrow(VoidNotAllowedException);
+    expect(mockNumbering.allocate).not.toHaveBeenCalled();
+    expect(mockStoredValue.reverseForTransaction).not.toHaveBeenCalled();
+  });
+
   it('should throw VoidNotAllowedException when transaction is refunded', async () => {
     mockTransactionRepo.findById.mockResolvedValue({
       ...baseTransaction,
@@ -608,4 +669,39 @@ describe('VoidTransactionUseCase', () => {
     expect(mockInventoryRepo.updateStockLevel).toHaveBeenCalledWith('stock-1', 50);
     expect(mockInventoryRepo.updateStockLevel).toHaveBeenCalledWith('stock-2', 21);
   });
+
+  it('should refuse a void that needs approval when no approval is given', async () => {
+    mockTransactionRepo.findById.mockResolvedValue(baseTransaction);
+
+    await expect(useCase.execute({ ...baseInput, requiresApproval: true })).rejects.toThrow(
+      AppError,
+    );
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should redeem the supervisor approval and record the approver', async () => {
+    mockTransactionRepo.findById.mockResolvedValue(baseTransaction);
+    mockTransactionRepo.findItemsByTransactionId.mockResolvedValue([]);
+
+    const result = await useCase.execute({
+      ...baseInput,
+      requiresApproval: true,
+      approvalToken: 'token-1',
+    });
+
+    expect(mockOverrides.consume).toHaveBeenCalledWith(mockPrisma, {
+      token: 'token-1',
+      action: 'void',
+      outletId: 'outlet-1',
+      requestedBy: 'emp-2',
+      referenceId: 'txn-1',
+    });
+    expect(result.approvedBy).toBe('emp-sup');
+    expect(mockAuditRepo.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'transaction_voided',
+        newValue: expect.objectContaining({ approvedBy: 'emp-sup' }),
+      }),
+    );
+  });
 });
@@ -1,6 +1,7 @@
 import { Inject, Injectable } from '@nestjs/common';
 import { REPOSITORY_TOKENS } from '@infrastructure/repositories/repository.tokens';
 import { EventBusService } from '@infrastructure/events/event-bus.service';
+import { PrismaService } from '@infrastructure/database/prisma.service';
 import { TransactionVoidedEvent } from '@domain/events/transaction-voided.event';
 import { StockLevelChangedEvent } from '@domain/events/stock-level-changed.event';
 import { VoidNotAllowedException } from '@domain/exceptions/void-not-allowed.exception';
@@ -8,6 +9,13 @@ import { TransactionNotFoundException } from '@domain/exceptions/transaction-not
 import type { ITransactionRepository } from '@domain/interfaces/repositories/transaction.repository';
 import type { IInventoryRepository } from '@domain/interfaces/repositories/inventory.repository';
 import type { IAuditLogRepository } from '@domain/interfaces/repositories/audit.repository';
+import { StoredValueService } from '../../../modules/gift-cards/stored-value.service';
+import { ReservationDepositService } from '../../../modules/reservations/reservation-deposit.service';
+import { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
+import {
+  ManagerOverrideService,
+  assertApprovalProvided,
+} from '../../../modules/overrides/manager-override.service';
 
 export interface VoidTransactionInput {
   transactionId: string;
@@ -15,6 +23,9 @@ export interface VoidTransactionInput {
   businessId: string;
   outletId: string;
   reason: string;
+  /** Set when the employee lacks pos.void and must bring a supervisor's approval */
+  requiresApproval?: boolean;
+  approvalToken?: string;
 }
 
 @Injectable()
@@ -27,9 +38,16 @@ export class VoidTransactionUseCase {
     @Inject(REPOSITORY_TOKENS.AUDIT)
     private readonly auditRepo: IAuditLogRepository,
     private readonly eventBus: EventBusService,
+    private readonly storedValue: StoredValueService,
+    private readonly reservationDeposits: ReservationDepositService,
+    private readonly prisma: PrismaService,
+    private readonly numbering: DocumentNumberingService,
+    private readonly overrides: ManagerOverrideService,
   ) {}
 
-  async execute(input: VoidTransactionInput): Promise<{ success: boolean; message: string }> {
+  async execute(
+    input: VoidTransactionInput,
+  ): Promise<{ success: boolean; message: string; voidNumber: string; approvedBy: string | null }> {
     const transaction = await this.transactionRepo.findById(input.transactionId);
     if (!transaction) {
       throw new TransactionNotFoundException(input.transactionId);
@@ -47,13 +65,57 @@ export class VoidTransactionUseCase {
       throw new VoidNotAllowedException('Can only void sale transactions');
     }
 
-    await this.transactionRepo.update(input.transactionId, {
-      status: 'voided',
-      voidedAt: new Date(),
-      voidedBy: input.employeeId,
-      voidReason: input.reason,
+    assertApprovalProvided('void', input.requiresApproval, input.approvalToken);
+
+    // The void slip gets its own number from the outlet's void series
+    const { voidNumber, approvedBy } = await this.prisma.$transaction(async (tx) => {
+      const approval = input.approvalToken
+        ? await this.overrides.consume(tx, {
+            token: input.approvalToken,
+            action: 'void',
+            outletId: input.outletId,
+            requestedBy: input.employeeId,
+            referenceId: input.transactionId,
+          })
+        : null;
+
+      // Claimed before numbering so a concurrent void of the same sale rolls back
+      // instead of taking a second number
+      const claimed = await tx.transaction.updateMany({
+        where: { id: input.transactionId, status: { notIn: ['voided', 'refunded'] } },
+        data: {
+          status: 'voided',
+          voidedAt: new Date(),
+          voidedBy: input.employeeId,
+          voidReason: input.reason,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new VoidNotAllowedException('Transaction is already voided or refunded');
+      }
+
+      const number = await this.numbering.allocate(tx, {
+        outletId: transaction.outletId,
+        documentType: 'void',
+        documentId: input.transactionId,
+      });
+      await tx.transaction.update({
+        where: { id: input.transactionId },
+        data: { voidNumber: number },
+      });
+      return { voidNumber: number, approvedBy: approval?.approvedBy ?? null };
     });
 
+    // Gift card and wallet tenders go back to the balances they came from
+    await this.storedValue.reverseForTransaction(input.transactionId, {
+      outletId: transaction.outletId,
+      employeeId: input.employeeId,
+      notes: `Void: ${input.reason}`,
+    });
+
+    // A reservation deposit used on the bill can be used again on its re-ring
+    await this.reservationDeposits.release(input.transactionId);
+
     const items = await this.transactionRepo.findItemsByTransactionId(input.transactionId);
     const stockChanges: Array<{ productId: string; variantId: string | null; previousQty: number; newQty: number }> = [];
 
@@ -94,7 +156,7 @@ export class VoidTransactionUseCase {
       entityType: 'transaction',
       entityId: input.transactionId,
       oldValue: { status: transaction.status, grandTotal: transaction.grandTotal },
-      newValue: { status: 'voided', reason: input.reason },
+      newValue: { status: 'voided', reason: input.reason, voidNumber, approvedBy },
       ipAddress: null,
       deviceId: null,
       metadata: null,
@@ -118,6 +180,6 @@ export class VoidTransactionUseCase {
       );
     }
 
-    return { success: true, message: 'Transaction voided successfully' };
+    return { success: true, message: 'Transaction voided successfully', voidNumber, approvedBy };
   }
 }
@@ -1,17 +1,20 @@
 import { Injectable } from '@nestjs/common';
 import { PromotionRulesEngine } from '../../services/promotion-rules.engine';
+import type {
+  FreeItemSuggestion,
+  PromotionLineResult,
+  PromotionResult,
+  TransactionItem,
+} from '../../services/promotion-rules.engine';
+import type { PromotionRewardType } from '../../services/promotion-rules.types';
 
 export interface ApplyPromotionParams {
   businessId: string;
   outletId?: string;
-  items: Array<{
-    productId: string;
-    variantId?: string;
-    quantity: number;
-    price: number;
-  }>;
+  items: TransactionItem[];
   total: number;
   customerId?: string;
+  paymentMethod?: string;
   promotionId?: string;
 }
 
@@ -26,12 +29,23 @@ export interface ApplyPromotionResult {
     discountType: 'percentage' | 'fixed' | 'bogo';
     discountValue: number;
   };
+  appliedPromotions: Array<{
+    id: string;
+    name: string;
+    rewardType: PromotionRewardType;
+    discount: number;
+  }>;
   allApplicablePromotions: Array<{
     id: string;
     name: string;
     discountType: 'percentage' | 'fixed' | 'bogo';
+    rewardType: PromotionRewardType;
+    stackable: boolean;
     calculatedDiscount: number;
   }>;
+  /** Per-line discount split, for receipts and prorated refunds */
+  lines: PromotionLineResult[];
+  freeItems: FreeItemSuggestion[];
 }
 
 @Injectable()
@@ -39,57 +53,68 @@ export class ApplyPromotionUseCase {
   constructor(private readonly promotionRules: PromotionRulesEngine) {}
 
   async execute(params: ApplyPromotionParams): Promise<ApplyPromotionResult> {
-    const result = await this.promotionRules.findApplicablePromotions({
+    const context = {
       businessId: params.businessId,
       outletId: params.outletId,
       items: params.items,
       total: params.total,
       customerId: params.customerId,
-    });
+      paymentMethod: params.paymentMethod,
+    };
+
+    const result = await this.promotionRules.findApplicablePromotions(context);
 
-    if (params.promotionId) {
-      const selected = result.applicablePromotions.find((p) => p.id === params.promotionId);
-      if (selected) {
-        return {
-          subtotal: params.total,
-          discount: selected.calculatedDiscount,
-          total: Math.max(0, params.total - selected.calculatedDiscount),
-          appliedPromotion: {
-            id: selected.id,
-            name: selected.name,
-            description: selected.description,
-            discountType: selected.discountType,
-            discountValue: selected.discountValue,
-          },
-          allApplicablePromotions: result.applicablePromotions.map((p) => ({
-            id: p.id,
-            name: p.name,
-            discountType: p.discountType,
-            calculatedDiscount: p.calculatedDiscount,
-          })),
-        };
-      }
+    // A cashier-picked promotion replaces the automatic selection when it qualifies
+    if (
+      params.promotionId &&
+      result.applicablePromotions.some((p) => p.id === params.promotionId)
+    ) {
+      const selected = await this.promotionRules.findApplicablePromotions({
+        ...context,
+        promotionIds: [params.promotionId],
+      });
+      return this.toResult(params, selected, result);
     }
 
+    return this.toResult(params, result, result);
+  }
+
+  private toResult(
+    params: ApplyPromotionParams,
+    applied: PromotionResult,
+    all: PromotionResult,
+  ): ApplyPromotionResult {
+    const best = applied.bestPromotion;
+
     return {
       subtotal: params.total,
-      discount: result.totalDiscount,
-      total: result.finalTotal,
-      ...(result.bestPromotion && {
+      discount: applied.totalDiscount,
+      total: applied.finalTotal,
+      ...(best && {
         appliedPromotion: {
-          id: result.bestPromotion.id,
-          name: result.bestPromotion.name,
-          description: result.bestPromotion.description,
-          discountType: result.bestPromotion.discountType,
-          discountValue: result.bestPromotion.discountValue,
+          id: best.id,
+          name: best.name,
+          description: best.description,
+          discountType: best.discountType,
+          discountValue: best.discountValue,
         },
       }),
-      allApplicablePromotions: result.applicablePromotions.map((p) => ({
+      appliedPromotions: applied.appliedPromotions.map((p) => ({
+        id: p.id,
+        name: p.name,
+        rewardType: p.rewardType,
+        discount: p.calculatedDiscount,
+      })),
+      allApplicablePromotions: all.applicablePromotions.map((p) => ({
         id: p.id,
         name: p.name,
         discountType: p.discountType,
+        rewardType: p.rewardType,
+        stackable: p.stackable,
         calculatedDiscount: p.calculatedDiscount,
       })),
+      lines: applied.lines,
+      freeItems: applied.freeItems,
     };
   }
 }
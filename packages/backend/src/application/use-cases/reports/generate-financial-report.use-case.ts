@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@infrastructure/database/prisma.service';
+import { PdfGeneratorService } from '@infrastructure/export/pdf-generator.service';
+import { ExcelGeneratorService } from '@infrastructure/export/excel-generator.service';
+
+export interface GenerateFinancialReportInput {
+  /** One outlet, or several for business-wide scheduled reports */
+  outletId: string | string[];
+  startDate: string;
+  endDate: string;
+  format: 'pdf' | 'excel';
+  /** Printed period; defaults to the raw start and end dates */
+  periodLabel?: string;
+}
+
+@Injectable()
+export class GenerateFinancialReportUseCase {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pdfGenerator: PdfGeneratorService,
+    private readonly excelGenerator: ExcelGeneratorService,
+  ) {}
+
+  async execute(
+    input: GenerateFinancialReportInput,
+  ): Promise<{ buffer: Buffer; contentType: string; filename: string }> {
+    const whereClause = {
+      outletId: Array.isArray(input.outletId) ? { in: input.outletId } : input.outletId,
+      status: 'completed' as const,
+      createdAt: { gte: new Date(input.startDate), lte: new Date(input.endDate) },
+    };
+
+    const [sales, refunds, payments, items] = await Promise.all([
+      this.prisma.transaction.aggregate({
+        where: { ...whereClause, transactionType: 'sale' },
+        _sum: { grandTotal: true, discountAmount: true, taxAmount: true },
+        _count: true,
+      }),
+      this.prisma.transaction.aggregate({
+        where: { ...whereClause, transactionType: 'refund' },
+        _sum: { grandTotal: true },
+        _count: true,
+      }),
+      this.prisma.payment.groupBy({
+        by: ['paymentMethod'],
+        where: {
+          status: 'completed',
+          transaction: { ...whereClause, transactionType: 'sale' },
+        },
+        _sum: { amount: true },
+        _count: true,
+      }),
+      // Estimate cost from transaction items via product cost price
+      this.prisma.transactionItem.findMany({
+        where: { transaction: { ...whereClause, transactionType: 'sale' } },
+        select: { quantity: true, product: { select: { costPrice: true } } },
+      }),
+    ]);
+
+    const grossSales = sales._sum.grandTotal?.toNumber() || 0;
+    const refundTotal = Math.abs(refunds._sum.grandTotal?.toNumber() || 0);
+    const netRevenue = grossSales - refundTotal;
+    const totalCost = items.reduce(
+      (sum, item) => sum + (item.product?.costPrice?.toNumber() || 0) * item.quantity.toNumber(),
+      0,
+    );
+    const grossProfit = netRevenue - totalCost;
+    const grossMargin = netRevenue > 0 ? (grossProfit / netRevenue) * 100 : 0;
+
+    const columns = ['Payment Method', 'Payments', 'Amount'];
+    const rows = payments
+      .map(
+        (p) =>
+          [p.paymentMethod, p._count, p._sum.amount?.toNumber() || 0] as [string, number, number],
+      )
+      .sort((a, b) => b[2] - a[2]);
+    const summary = [
+      { label: 'Sales transactions', value: sales._count },
+      { label: 'Gross sales', value: grossSales },
+      { label: 'Discounts', value: sales._sum.discountAmount?.toNumber() || 0 },
+      { label: 'Tax', value: sales._sum.taxAmount?.toNumber() || 0 },
+      { label: `Refunds (${refunds._count})`, value: refundTotal },
+      { label: 'Net revenue', value: netRevenue },
+      { label: 'Estimated cost', value: totalCost },
+      { label: 'Gross profit', value: grossProfit },
+      { label: 'Gross margin (%)', value: Math.round(grossMargin * 100) / 100 },
+    ];
+
+    const title = 'Financial Report';
+    const period = input.periodLabel ?? `${input.startDate} - ${input.endDate}`;
+
+    if (input.format === 'pdf') {
+      const docDef = this.pdfGenerator.buildTableReport({ title, period, columns, rows, summary });
+      const buffer = await this.pdfGenerator.generate(docDef);
+      return {
+        buffer,
+        contentType: 'application/pdf',
+        filename: `financial-report-${input.startDate}.pdf`,
+      };
+    }
+
+    const buffer = await this.excelGenerator.generateTableReport({
+      title,
+      period,
+      sheetName: 'Financial Report',
+      columns,
+      rows,
+      summary,
+    });
+    return {
+      buffer,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      filename: `financial-report-${input.startDate}.xlsx`,
+    };
+  }
+}
@@ -1,44 +1,183 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '@infrastructure/database/prisma.service';
+import { PdfGeneratorService } from '@infrastructure/export/pdf-generator.service';
 import { ExcelGeneratorService } from '@infrastructure/export/excel-generator.service';
 
 export interface GenerateInventoryReportInput {
-  outletId: string;
+  /** One outlet, or several for business-wide scheduled reports */
+  outletId: string | string[];
   format: 'pdf' | 'excel';
+  /** `bin` splits each stock level over the bins of its location */
+  groupBy?: 'product' | 'bin';
 }
 
+// A type alias so rows stay assignable to the generators' record rows
+type InventoryRow = {
+  outletName?: string;
+  binCode?: string;
+  productName: string;
+  sku: string;
+  currentStock: number;
+  lowStockAlert: number;
+  status: string;
+};
+
+interface BinLine {
+  binCode: string;
+  binOrder: [number, number];
+  quantity: number;
+}
+
+const UNBINNED = 'Unbinned';
+
 @Injectable()
 export class GenerateInventoryReportUseCase {
   constructor(
     private readonly prisma: PrismaService,
+    private readonly pdfGenerator: PdfGeneratorService,
     private readonly excelGenerator: ExcelGeneratorService,
   ) {}
 
   async execute(
     input: GenerateInventoryReportInput,
   ): Promise<{ buffer: Buffer; contentType: string; filename: string }> {
+    const byBin = input.groupBy === 'bin';
+    // Bin codes only mean something next to the location they belong to
+    const withOutlet = byBin || (Array.isArray(input.outletId) && input.outletId.length > 1);
+    const outletFilter = Array.isArray(input.outletId) ? { in: input.outletId } : input.outletId;
+
     const stockLevels = await this.prisma.stockLevel.findMany({
-      where: { outletId: input.outletId },
-      include: { product: true, variant: true },
+      where: { outletId: outletFilter },
+      include: { product: true, variant: true, outlet: { select: { name: true } } },
     });
+    const binLines = byBin ? await this.loadBinLines(outletFilter) : new Map<string, BinLine[]>();
 
-    const rows = stockLevels.map((sl) => ({
-      productName: sl.product?.name || 'Unknown',
-      sku: sl.product?.sku || '',
-      currentStock: sl.quantity.toNumber(),
-      lowStockAlert: sl.lowStockAlert,
-      status: sl.quantity.toNumber() <= sl.lowStockAlert ? 'LOW' : 'OK',
-    }));
-
-    const buffer = await this.excelGenerator.generateInventoryReport({
-      title: 'Inventory Report',
-      rows,
-    });
+    const rows: InventoryRow[] = [];
+    for (const sl of stockLevels) {
+      const quantity = sl.quantity.toNumber();
+      const base = {
+        ...(withOutlet && { outletName: sl.outlet?.name || '' }),
+        productName: sl.product?.name || 'Unknown',
+        sku: sl.product?.sku || '',
+        lowStockAlert: sl.lowStockAlert,
+        status: quantity <= sl.lowStockAlert ? 'LOW' : 'OK',
+      };
+
+      if (!byBin) {
+        rows.push({ ...base, currentStock: quantity });
+        continue;
+      }
+
+      const bins = binLines.get(this.levelKey(sl.outletId, sl.productId, sl.variantId)) ?? [];
+      for (const bin of bins) {
+        rows.push({ ...base, binCode: bin.binCode, currentStock: bin.quantity });
+      }
+      const unbinned = quantity - bins.reduce((sum, bin) => sum + bin.quantity, 0);
+      if (unbinned > 0 || bins.length === 0) {
+        rows.push({ ...base, binCode: UNBINNED, currentStock: unbinned });
+      }
+    }
+
+    if (byBin) {
+      // Location first, then the pickers' walking order with unbinned stock last
+      const order = this.binOrder(binLines);
+      rows.sort(
+        (a, b) =>
+          (a.outletName ?? '').localeCompare(b.outletName ?? '') ||
+          this.compareBins(order, a.binCode ?? '', b.binCode ?? '') ||
+          a.productName.localeCompare(b.productName),
+      );
+    }
+
+    const title = 'Inventory Report';
+    const date = new Date().toISOString().split('T')[0];
+
+    if (input.format === 'pdf') {
+      const docDef = this.pdfGenerator.buildTableReport({
+        title,
+        period: date,
+        columns: [
+          ...(withOutlet ? ['Outlet'] : []),
+          ...(byBin ? ['Bin'] : []),
+          'Product',
+          'SKU',
+          'Current Stock',
+          'Low Stock Alert',
+          'Status',
+        ],
+        rows: rows.map((row) => [
+          ...(row.outletName !== undefined ? [row.outletName] : []),
+          ...(row.binCode !== undefined ? [row.binCode] : []),
+          row.productName,
+          row.sku,
+          row.currentStock,
+          row.lowStockAlert,
+          row.status,
+        ]),
+        summary: [
+          { label: 'Items', value: rows.length },
+          { label: 'Low stock', value: rows.filter((row) => row.status === 'LOW').length },
+        ],
+      });
+      const buffer = await this.pdfGenerator.generate(docDef);
+      return {
+        buffer,
+        contentType: 'application/pdf',
+        filename: `inventory-report-${date}.pdf`,
+      };
+    }
+
+    const buffer = await this.excelGenerator.generateInventoryReport({ title, rows });
 
     return {
       buffer,
       contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      filename: `inventory-report-${new Date().toISOString().split('T')[0]}.xlsx`,
+      filename: `inventory-report-${date}.xlsx`,
     };
   }
+
+  private async loadBinLines(
+    outletFilter: string | { in: string[] },
+  ): Promise<Map<string, BinLine[]>> {
+    const binStocks = await this.prisma.binStock.findMany({
+      where: { outletId: outletFilter, quantity: { gt: 0 } },
+      include: {
+        bin: { select: { code: true, pickSequence: true, zone: { select: { sortOrder: true } } } },
+      },
+    });
+
+    const lines = new Map<string, BinLine[]>();
+    for (const stock of binStocks) {
+      const key = this.levelKey(stock.outletId, stock.productId, stock.variantId);
+      const list = lines.get(key) ?? [];
+      list.push({
+        binCode: stock.bin.code,
+        binOrder: [stock.bin.zone.sortOrder, stock.bin.pickSequence],
+        quantity: stock.quantity.toNumber(),
+      });
+      lines.set(key, list);
+    }
+    return lines;
+  }
+
+  private binOrder(binLines: Map<string, BinLine[]>): Map<string, [number, number]> {
+    const order = new Map<string, [number, number]>();
+    for (const list of binLines.values()) {
+      for (const line of list) order.set(line.binCode, line.binOrder);
+    }
+    return order;
+  }
+
+  private compareBins(order: Map<string, [number, number]>, a: string, b: string): number {
+    if (a === b) return 0;
+    if (a === UNBINNED) return 1;
+    if (b === UNBINNED) return -1;
+    const [zoneA, seqA] = order.get(a) ?? [0, 0];
+    const [zoneB, seqB] = order.get(b) ?? [0, 0];
+    return zoneA - zoneB || seqA - seqB || a.localeCompare(b);
+  }
+
+  private levelKey(outletId: string, productId: string | null, variantId: string | null): string {
+    return `${outletId}:${productId}:${variantId ?? ''}`;
+  }
 }
@@ -4,10 +4,13 @@ import { PdfGeneratorService } from '@infrastructure/export/pdf-generator.servic
 import { ExcelGeneratorService } from '@infrastructure/export/excel-generator.service';
 
 export interface GenerateSalesReportInput {
-  outletId: string;
+  /** One outlet, or several for business-wide scheduled reports */
+  outletId: string | string[];
   startDate: string;
   endDate: string;
   format: 'pdf' | 'excel';
+  /** Printed period; defaults to the raw start and end dates */
+  periodLabel?: string;
 }
 
 @Injectable()
@@ -27,7 +30,7 @@ export class GenerateSalesReportUseCase {
     const transactions = await this.prisma.transaction.groupBy({
       by: ['createdAt'],
       where: {
-        outletId: input.outletId,
+        outletId: Array.isArray(input.outletId) ? { in: input.outletId } : input.outletId,
         transactionType: 'sale',
         status: 'completed',
         createdAt: { gte: start, lte: end },
@@ -54,7 +57,7 @@ export class GenerateSalesReportUseCase {
     };
 
     const title = 'Sales Report';
-    const period = `${input.startDate} - ${input.endDate}`;
+    const period = input.periodLabel ?? `${input.startDate} - ${input.endDate}`;
 
     if (input.format === 'pdf') {
       const docDef = this.pdfGenerator.buildSalesReport({ title, period, rows, totals });
@@ -2,7 +2,12 @@ import { Inject, Injectable, NotFoundException } from '@nestjs/common';
 import { REPOSITORY_TOKENS } from '@infrastructure/repositories/repository.tokens';
 import { BusinessError } from '@shared/errors/business-error';
 import { ErrorCode } from '@shared/constants/error-codes';
-import type { ITransactionRepository } from '@domain/interfaces/repositories/transaction.repository';
+import { PrismaService } from '@infrastructure/database/prisma.service';
+import type {
+  ITransactionRepository,
+  TransactionRecord,
+} from '@domain/interfaces/repositories/transaction.repository';
+import { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
 
 export interface MergeBillInput {
   transactionIds: string[];
@@ -17,12 +22,14 @@ export class MergeBillUseCase {
   constructor(
     @Inject(REPOSITORY_TOKENS.TRANSACTION)
     private readonly transactionRepo: ITransactionRepository,
+    private readonly prisma: PrismaService,
+    private readonly numbering: DocumentNumberingService,
   ) {}
 
   async execute(
     input: MergeBillInput,
   ): Promise<{ mergedTransactionId: string; grandTotal: number }> {
-    const transactions = [];
+    const transactions: TransactionRecord[] = [];
     for (const id of input.transactionIds) {
       const tx = await this.transactionRepo.findById(id);
       if (!tx) throw new NotFoundException(`Transaction ${id} not found`);
@@ -41,27 +48,35 @@ export class MergeBillUseCase {
     const totalServiceCharge = transactions.reduce((sum, tx) => sum + tx.serviceCharge, 0);
     const grandTotal = totalSubtotal - totalDiscount + totalTax + totalServiceCharge;
 
-    const receiptNumber = `MRG-${Date.now()}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
+    // The merged bill is a new sale and takes the next number of the outlet's sale series
+    const mergedId = crypto.randomUUID();
+    const merged = await this.prisma.$transaction(async (db) => {
+      const receiptNumber = await this.numbering.allocate(db, {
+        outletId: input.outletId,
+        documentType: 'sale',
+        documentId: mergedId,
+      });
 
-    const merged = await this.transactionRepo.save({
-      id: '',
-      outletId: input.outletId,
-      employeeId: input.employeeId,
-      customerId: null,
-      shiftId: transactions[0].shiftId,
-      receiptNumber,
-      transactionType: 'sale',
-      orderType: transactions[0].orderType,
-      tableId: null,
-      subtotal: totalSubtotal,
-      discountAmount: totalDiscount,
-      taxAmount: totalTax,
-      serviceCharge: totalServiceCharge,
-      grandTotal,
-      notes: `Merged from: ${input.transactionIds.join(', ')}`,
-      status: 'completed',
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      return db.transaction.create({
+        data: {
+          id: mergedId,
+          outletId: input.outletId,
+          employeeId: input.employeeId,
+          customerId: null,
+          shiftId: transactions[0].shiftId,
+          receiptNumber,
+          transactionType: 'sale',
+          orderType: transactions[0].orderType as 'dine_in' | 'takeaway' | 'delivery',
+          tableId: null,
+          subtotal: totalSubtotal,
+          discountAmount: totalDiscount,
+          taxAmount: totalTax,
+          serviceCharge: totalServiceCharge,
+          grandTotal,
+          notes: `Merged from: ${input.transactionIds.join(', ')}`,
+          status: 'completed',
+        },
+      });
     });
 
     for (const id of input.transactionIds) {
@@ -0,0 +1,122 @@
+import { SplitBillUseCase, SplitBillInput } from './split-bill.use-case';
+import { BusinessError } from '@shared/errors/business-error';
+import { TransactionNotFoundException } from '@domain/exceptions/transaction-not-found.exception';
+import type {
+  ITransactionRepository,
+  TransactionRecord,
+} from '@domain/interfaces/repositories/transaction.repository';
+import type { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
+import type { PrismaService } from '@infrastructure/database/prisma.service';
+
+describe('SplitBillUseCase (tables)', () => {
+  let useCase: SplitBillUseCase;
+  let mockTransactionRepo: jest.Mocked<ITransactionRepository>;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockNumbering: jest.Mocked<DocumentNumberingService>;
+  let saleCounter: number;
+
+  const baseTransaction: TransactionRecord = {
+    id: 'txn-1',
+    businessId: 'biz-1',
+    outletId: 'outlet-1',
+    employeeId: 'emp-1',
+    customerId: null,
+    shiftId: 'shift-1',
+    receiptNumber: 'INV/OUT1/202610/00001',
+    transactionType: 'sale',
+    orderType: 'dine_in',
+    tableId: 'table-1',
+    subtotal: 100000,
+    discountAmount: 0,
+    taxAmount: 0,
+    serviceCharge: 0,
+    grandTotal: 100000,
+    notes: null,
+    status: 'completed',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const equalInput: SplitBillInput = {
+    transactionId: 'txn-1',
+    splitType: 'equal',
+    splits: [{ paymentMethod: 'cash' }, { paymentMethod: 'qris' }],
+  };
+
+  beforeEach(() => {
+    saleCounter = 1;
+
+    mockTransactionRepo = {
+      findById: jest.fn().mockResolvedValue(baseTransaction),
+      findByReceiptNumber: jest.fn(),
+      findByOutletAndDateRange: jest.fn(),
+      save: jest.fn(),
+      update: jest.fn(),
+      findItemsByTransactionId: jest.fn(),
+      findPaymentsByTransactionId: jest.fn(),
+    };
+
+    mockPrisma = {
+      transaction: { create: jest.fn().mockResolvedValue({}) },
+      $transaction: jest.fn((fn) => fn(mockPrisma)),
+    } as unknown as jest.Mocked<PrismaService>;
+
+    mockNumbering = {
+      allocate: jest.fn().mockImplementation(async () => `INV/OUT1/202610/0000${++saleCounter}`),
+    } as unknown as jest.Mocked<DocumentNumberingService>;
+
+    useCase = new SplitBillUseCase(mockTransactionRepo, mockPrisma, mockNumbering);
+  });
+
+  it('should number each part from the outlet sale series', async () => {
+    const result = await useCase.execute(equalInput);
+
+    expect(result.childTransactions).toEqual([
+      expect.objectContaining({ receiptNumber: 'INV/OUT1/202610/00002', amount: 50000 }),
+      expect.objectContaining({ receiptNumber: 'INV/OUT1/202610/00003', amount: 50000 }),
+    ]);
+    result.childTransactions.forEach((child) => {
+      expect(mockNumbering.allocate).toHaveBeenCalledWith(mockPrisma, {
+        outletId: 'outlet-1',
+        documentType: 'sale',
+        documentId: child.transactionId,
+      });
+    });
+  });
+
+  it('should write the parts in the transaction that numbers them', async () => {
+    await useCase.execute(equalInput);
+
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.transaction.create).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        receiptNumber: 'INV/OUT1/202610/00002',
+        transactionType: 'sale',
+        grandTotal: 50000,
+        notes: 'Split 1 of 2 from INV/OUT1/202610/00001',
+      }),
+    });
+    expect(mockTransactionRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('should not number anything when the amounts do not cover the bill', async () => {
+    await expect(
+      useCase.execute({
+        transactionId: 'txn-1',
+        splitType: 'by_amount',
+        splits: [
+          { amount: 30000, paymentMethod: 'cash' },
+          { amount: 30000, paymentMethod: 'cash' },
+        ],
+      }),
+    ).rejects.toThrow(BusinessError);
+    expect(mockNumbering.allocate).not.toHaveBeenCalled();
+  });
+
+  it('should throw TransactionNotFoundException for an unknown bill', async () => {
+    mockTransactionRepo.findById.mockResolvedValue(null);
+
+    await expect(useCase.execute(equalInput)).rejects.toThrow(TransactionNotFoundException);
+  });
+});
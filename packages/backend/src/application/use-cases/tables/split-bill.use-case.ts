@@ -3,7 +3,9 @@ import { REPOSITORY_TOKENS } from '@infrastructure/repositories/repository.token
 import { TransactionNotFoundException } from '@domain/exceptions/transaction-not-found.exception';
 import { BusinessError } from '@shared/errors/business-error';
 import { ErrorCode } from '@shared/constants/error-codes';
+import { PrismaService } from '@infrastructure/database/prisma.service';
 import type { ITransactionRepository } from '@domain/interfaces/repositories/transaction.repository';
+import { DocumentNumberingService } from '../../../modules/numbering/document-numbering.service';
 
 export interface SplitBillInput {
   transactionId: string;
@@ -30,6 +32,8 @@ export class SplitBillUseCase {
   constructor(
     @Inject(REPOSITORY_TOKENS.TRANSACTION)
     private readonly transactionRepo: ITransactionRepository,
+    private readonly prisma: PrismaService,
+    private readonly numbering: DocumentNumberingService,
   ) {}
 
   async execute(input: SplitBillInput): Promise<SplitBillOutput> {
@@ -38,56 +42,54 @@ export class SplitBillUseCase {
       throw new TransactionNotFoundException(input.transactionId);
     }
 
-    const childTransactions: SplitBillOutput['childTransactions'] = [];
     const splitCount = input.splits.length;
+    const amounts = input.splits.map((split) => {
+      if (input.splitType === 'by_amount' && split.amount !== undefined) return split.amount;
+      return Math.round(transaction.grandTotal / splitCount);
+    });
 
-    for (let i = 0; i < splitCount; i++) {
-      const split = input.splits[i];
-      let amount: number;
-
-      if (input.splitType === 'equal') {
-        amount = Math.round(transaction.grandTotal / splitCount);
-      } else if (input.splitType === 'by_amount' && split.amount !== undefined) {
-        amount = split.amount;
-      } else {
-        amount = Math.round(transaction.grandTotal / splitCount);
-      }
-
-      const receiptNumber = `SPL-${Date.now()}-${i + 1}`;
-
-      const childTx = await this.transactionRepo.save({
-        id: '',
-        outletId: transaction.outletId,
-        employeeId: transaction.employeeId,
-        customerId: null,
-        shiftId: transaction.shiftId,
-        receiptNumber,
-        transactionType: 'sale',
-        orderType: transaction.orderType,
-        tableId: transaction.tableId,
-        subtotal: amount,
-        discountAmount: 0,
-        taxAmount: 0,
-        serviceCharge: 0,
-        grandTotal: amount,
-        notes: `Split ${i + 1} of ${splitCount} from ${transaction.receiptNumber}`,
-        status: 'completed',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
-
-      childTransactions.push({
-        transactionId: childTx.id,
-        receiptNumber,
-        amount,
-      });
-    }
-
-    const totalSplit = childTransactions.reduce((sum, c) => sum + c.amount, 0);
+    const totalSplit = amounts.reduce((sum, amount) => sum + amount, 0);
     if (totalSplit < transaction.grandTotal) {
       throw new BusinessError(ErrorCode.INVALID_PAYMENT, 'Split amounts do not cover the total');
     }
 
+    // Each part is a new sale and takes the next number of the outlet's sale series
+    const childTransactions = await this.prisma.$transaction(async (db) => {
+      const children: SplitBillOutput['childTransactions'] = [];
+      for (let i = 0; i < splitCount; i++) {
+        const childId = crypto.randomUUID();
+        const receiptNumber = await this.numbering.allocate(db, {
+          outletId: transaction.outletId,
+          documentType: 'sale',
+          documentId: childId,
+        });
+
+        await db.transaction.create({
+          data: {
+            id: childId,
+            outletId: transaction.outletId,
+            employeeId: transaction.employeeId,
+            customerId: null,
+            shiftId: transaction.shiftId,
+            receiptNumber,
+            transactionType: 'sale',
+            orderType: transaction.orderType as 'dine_in' | 'takeaway' | 'delivery',
+            tableId: transaction.tableId,
+            subtotal: amounts[i],
+            discountAmount: 0,
+            taxAmount: 0,
+            serviceCharge: 0,
+            grandTotal: amounts[i],
+            notes: `Split ${i + 1} of ${splitCount} from ${transaction.receiptNumber}`,
+            status: 'completed',
+          },
+        });
+
+        children.push({ transactionId: childId, receiptNumber, amount: amounts[i] });
+      }
+      return children;
+    });
+
     return {
       parentTransactionId: input.transactionId,
       childTransactions,
@@ -0,0 +1,81 @@
+import {
+  Injectable,
+  NestInterceptor,
+  CallHandler,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable } from 'rxjs';
+import { SubscriptionService } from '@modules/business/services/subscription.service';
+import type { PlanLimitKey } from '@config/subscription-plans.config';
+
+interface RequestWithBusiness {
+  method: string;
+  user?: { businessId?: string };
+  apiKey?: { businessId: string };
+}
+
+export const PLAN_LIMIT_KEY = 'planLimit';
+
+/**
+ * Decorator to mark a route as adding one unit of a plan limit
+ * @example
+ * @PlanLimit('outlets')
+ * @Post('outlets')
+ * async createOutlet() {}
+ */
+export const PlanLimit = (limit: PlanLimitKey) => SetMetadata(PLAN_LIMIT_KEY, limit);
+
+/**
+ * Decorator to keep a write route open while the subscription is read-only
+ * @example
+ * @AllowWhenReadOnly()
+ * @Put('change-pin')
+ * async changePin() {}
+ */
+export const ALLOW_READ_ONLY_KEY = 'allowWhenReadOnly';
+export const AllowWhenReadOnly = () => SetMetadata(ALLOW_READ_ONLY_KEY, true);
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * SubscriptionInterceptor - Enforces the subscription plan on writes
+ *
+ * Registered globally as an interceptor rather than a guard so it runs after
+ * the controller guards have authenticated the user or API key. Writes are
+ * refused once the grace period after expiry is over, and @PlanLimit routes
+ * are refused when the plan limit is used up. Reads are never blocked.
+ */
+@Injectable()
+export class SubscriptionInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly subscriptionService: SubscriptionService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<RequestWithBusiness>();
+    const businessId = request.user?.businessId ?? request.apiKey?.businessId;
+    if (!businessId || READ_METHODS.includes(request.method)) {
+      return next.handle();
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+
+    if (!this.reflector.getAllAndOverride<boolean>(ALLOW_READ_ONLY_KEY, targets)) {
+      await this.subscriptionService.assertWritable(businessId);
+    }
+
+    const limit = this.reflector.getAllAndOverride<PlanLimitKey>(PLAN_LIMIT_KEY, targets);
+    if (limit) {
+      await this.subscriptionService.assertWithinLimit(businessId, limit);
+    }
+
+    return next.handle();
+  }
+}
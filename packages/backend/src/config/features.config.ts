@@ -321,6 +321,15 @@ export const FEATURE_REGISTRY: FeatureDefinition[] = [
     menuPaths: ['/app/customers/segments'],
     icon: 'Filter',
   },
+  {
+    key: 'marketing_campaigns',
+    label: 'Kampanye Marketing',
+    description: 'Kirim WhatsApp, email dan SMS ke segmen pelanggan',
+    category: 'marketing',
+    dependencies: ['customer_segments'],
+    defaultFor: [],
+    icon: 'Megaphone',
+  },
   {
     key: 'online_store',
     label: 'Toko Online',
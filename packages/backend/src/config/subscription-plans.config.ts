@@ -0,0 +1,127 @@
+/**
+ * Subscription Plans Configuration
+ *
+ * Defines what each subscription plan allows: usage limits and the features
+ * a business on that plan may enable. Each plan includes everything of the
+ * plans below it.
+ */
+
+import { FEATURE_REGISTRY } from './features.config';
+
+export type SubscriptionPlanCode = 'basic' | 'standard' | 'premium' | 'enterprise';
+
+export type PlanLimitKey = 'outlets' | 'devices' | 'employees' | 'monthlyTransactions';
+
+/** `null` means unlimited */
+export type PlanLimits = Record<PlanLimitKey, number | null>;
+
+export interface SubscriptionPlanDefinition {
+  code: SubscriptionPlanCode;
+  label: string;
+  limits: PlanLimits;
+  features: string[];
+}
+
+/** Days after expiry during which the business keeps working normally */
+export const SUBSCRIPTION_GRACE_PERIOD_DAYS = 7;
+
+// Everything a single outlet needs to run day to day
+const BASIC_FEATURES = [
+  'kitchen_display',
+  'table_management',
+  'order_management',
+  'waiting_list',
+  'modifiers',
+  'self_order_qr',
+  'order_types',
+  'pos_price_editing',
+  'decimal_quantities',
+  'barcode_scanning',
+  'stock_management',
+  'product_variants',
+  'ingredient_tracking',
+  'appointments',
+  'staff_assignment',
+  'service_duration',
+  'work_orders',
+  'item_tracking',
+  'customer_loyalty',
+  'promotions',
+  'vouchers',
+  'excel_import',
+  'offline_mode',
+];
+
+const STANDARD_FEATURES = [
+  ...BASIC_FEATURES,
+  'credit_sales',
+  'stock_transfer',
+  'supplier_management',
+  'purchase_orders',
+  'unit_conversion',
+  'serial_number',
+  'batch_tracking',
+  'price_tiers',
+  'customer_segments',
+  'multi_outlet',
+];
+
+const PREMIUM_FEATURES = [
+  ...STANDARD_FEATURES,
+  'online_store',
+  'marketing_campaigns',
+  'multi_warehouse',
+  'reports_advanced',
+  'audit_log',
+];
+
+/**
+ * All subscription plans, from smallest to largest
+ */
+export const SUBSCRIPTION_PLANS: SubscriptionPlanDefinition[] = [
+  {
+    code: 'basic',
+    label: 'Basic',
+    limits: { outlets: 1, devices: 2, employees: 5, monthlyTransactions: 3000 },
+    features: BASIC_FEATURES,
+  },
+  {
+    code: 'standard',
+    label: 'Standard',
+    limits: { outlets: 3, devices: 10, employees: 25, monthlyTransactions: 20000 },
+    features: STANDARD_FEATURES,
+  },
+  {
+    code: 'premium',
+    label: 'Premium',
+    limits: { outlets: 10, devices: 50, employees: 100, monthlyTransactions: 100000 },
+    features: PREMIUM_FEATURES,
+  },
+  {
+    code: 'enterprise',
+    label: 'Enterprise',
+    limits: { outlets: null, devices: null, employees: null, monthlyTransactions: null },
+    features: FEATURE_REGISTRY.map((f) => f.key),
+  },
+];
+
+/**
+ * Get plan definition by code, falling back to the smallest plan
+ */
+export function getPlanDefinition(plan: string): SubscriptionPlanDefinition {
+  return SUBSCRIPTION_PLANS.find((p) => p.code === plan) ?? SUBSCRIPTION_PLANS[0];
+}
+
+/**
+ * Check if a plan unlocks a feature
+ */
+export function isFeatureInPlan(plan: string, featureKey: string): boolean {
+  return getPlanDefinition(plan).features.includes(featureKey);
+}
+
+/**
+ * Get the smallest plan that unlocks a feature
+ */
+export function getRequiredPlanForFeature(featureKey: string): SubscriptionPlanCode | null {
+  return SUBSCRIPTION_PLANS.find((p) => p.features.includes(featureKey))?.code ?? null;
+}
@@ -0,0 +1,23 @@
+import { DomainEvent } from './domain-event';
+
+/**
+ * state: the cart or payment the display should show
+ * settings: idle images and timings changed for the display's outlet
+ * paired / unpaired: a display joined or was removed from the terminal
+ */
+export type CustomerDisplayUpdate = 'state' | 'settings' | 'paired' | 'unpaired';
+
+export class CustomerDisplayUpdatedEvent extends DomainEvent {
+  constructor(
+    public readonly deviceId: string,
+    public readonly outletId: string,
+    public readonly update: CustomerDisplayUpdate,
+    public readonly payload: Record<string, unknown>,
+  ) {
+    super();
+  }
+
+  get eventName(): string {
+    return 'customer_display.updated';
+  }
+}
@@ -3,3 +3,7 @@ export { TransactionCreatedEvent } from './transaction-created.event';
 export { OrderStatusChangedEvent } from './order-status-changed.event';
 export { StockLevelChangedEvent } from './stock-level-changed.event';
 export { StockTransferStatusChangedEvent } from './stock-transfer-status-changed.event';
+export {
+  ReservationDepositPaymentEvent,
+  RESERVATION_DEPOSIT_REF_PREFIX,
+} from './reservation-deposit-payment.event';
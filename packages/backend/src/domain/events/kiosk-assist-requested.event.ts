@@ -0,0 +1,18 @@
+import { DomainEvent } from './domain-event';
+
+/** A self-checkout kiosk needs an attendant, e.g. to check ID or weigh an item */
+export class KioskAssistRequestedEvent extends DomainEvent {
+  constructor(
+    public readonly sessionId: string,
+    public readonly outletId: string,
+    public readonly deviceId: string,
+    public readonly deviceName: string,
+    public readonly reason: string,
+  ) {
+    super();
+  }
+
+  get eventName(): string {
+    return 'kiosk.assist_requested';
+  }
+}
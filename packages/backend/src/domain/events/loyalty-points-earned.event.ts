@@ -0,0 +1,16 @@
+import { DomainEvent } from './domain-event';
+
+export class LoyaltyPointsEarnedEvent extends DomainEvent {
+  constructor(
+    public readonly transactionId: string,
+    public readonly customerId: string,
+    public readonly pointsEarned: number,
+    public readonly balance: number,
+  ) {
+    super();
+  }
+
+  get eventName(): string {
+    return 'loyalty.points_earned';
+  }
+}
@@ -0,0 +1,17 @@
+import { DomainEvent } from './domain-event';
+
+export class LoyaltyTierChangedEvent extends DomainEvent {
+  constructor(
+    public readonly customerId: string,
+    public readonly businessId: string,
+    public readonly previousTier: string,
+    public readonly newTier: string,
+    public readonly isUpgrade: boolean,
+  ) {
+    super();
+  }
+
+  get eventName(): string {
+    return 'loyalty.tier_changed';
+  }
+}
@@ -0,0 +1,19 @@
+import { DomainEvent } from './domain-event';
+import type { PaymentStatus } from '../interfaces/services/payment-gateway';
+
+/** Order ids of reservation deposit payment requests start with this prefix */
+export const RESERVATION_DEPOSIT_REF_PREFIX = 'RSV-';
+
+export class ReservationDepositPaymentEvent extends DomainEvent {
+  constructor(
+    public readonly referenceNumber: string,
+    public readonly status: PaymentStatus,
+    public readonly gatewayRef?: string,
+  ) {
+    super();
+  }
+
+  get eventName(): string {
+    return 'reservation.deposit_payment';
+  }
+}
@@ -13,6 +13,10 @@ export interface CustomerRecord {
   name: string;
   email: string | null;
   phone: string | null;
+  /** Tax ID and registered name/address printed on tax invoices */
+  npwp?: string | null;
+  npwpName?: string | null;
+  npwpAddress?: string | null;
   loyaltyPoints: number;
   loyaltyTier: string;
   totalSpent: number;
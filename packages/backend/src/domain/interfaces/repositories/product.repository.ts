@@ -20,6 +20,11 @@ export interface ProductRecord {
   costPrice: number | null;
   hasVariants: boolean;
   trackStock: boolean;
+  /** Buyer must be at least this old */
+  minimumAge?: number | null;
+  /** Sold by weight in sellUnit */
+  isWeighed?: boolean;
+  sellUnit?: string | null;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -12,6 +12,10 @@ export interface PromotionRecord {
   usageLimit: number | null;
   usedCount: number;
   applicableTo: unknown;
+  rules: unknown;
+  priority: number;
+  stackable: boolean;
+  exclusivityGroup: string | null;
   isActive: boolean;
   createdAt: Date;
 }
@@ -51,4 +55,8 @@ export interface CreatePromotionData {
   validUntil: Date;
   usageLimit: number | null;
   applicableTo?: Record<string, unknown>;
+  rules?: Record<string, unknown> | null;
+  priority?: number;
+  stackable?: boolean;
+  exclusivityGroup?: string | null;
 }
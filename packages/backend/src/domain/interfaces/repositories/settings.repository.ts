@@ -376,6 +376,11 @@ export interface PrinterConfigRecord {
   autoPrint: boolean;
   copies: number;
   outletId: string;
+  /** Print template used for this printer's jobs; outlet default when unset */
+  templateId?: string | null;
+  /** Kitchen stations this printer takes tickets for; all when empty */
+  stations?: string[];
+  paperWidth?: 58 | 80;
 }
 
 export interface CreatePrinterConfigInput {
@@ -387,6 +392,9 @@ export interface CreatePrinterConfigInput {
   autoPrint?: boolean;
   copies?: number;
   outletId: string;
+  templateId?: string | null;
+  stations?: string[];
+  paperWidth?: 58 | 80;
 }
 
 export interface UpdatePrinterConfigInput {
@@ -399,6 +407,9 @@ export interface UpdatePrinterConfigInput {
   autoPrint?: boolean;
   copies?: number;
   outletId?: string;
+  templateId?: string | null;
+  stations?: string[];
+  paperWidth?: 58 | 80;
 }
 
 // ==================== Report Schedules ====================
@@ -408,6 +419,8 @@ export interface ReportScheduleRecord {
   reportType: 'sales' | 'financial' | 'inventory';
   frequency: 'daily' | 'weekly' | 'monthly';
   recipients: string[];
+  format?: 'pdf' | 'excel';
+  outletId?: string | null;
   isActive: boolean;
   nextSendAt: string | null;
   lastSentAt: string | null;
@@ -417,6 +430,8 @@ export interface CreateReportScheduleInput {
   reportType: 'sales' | 'financial' | 'inventory';
   frequency: 'daily' | 'weekly' | 'monthly';
   recipients: string[];
+  format?: 'pdf' | 'excel';
+  outletId?: string | null;
   isActive?: boolean;
 }
 
@@ -424,5 +439,7 @@ export interface UpdateReportScheduleInput {
   reportType?: 'sales' | 'financial' | 'inventory';
   frequency?: 'daily' | 'weekly' | 'monthly';
   recipients?: string[];
+  format?: 'pdf' | 'excel';
+  outletId?: string | null;
   isActive?: boolean;
 }
@@ -19,6 +19,9 @@ export interface ShiftRecord {
   cashDifference: number | null;
   cashIn: number | null;
   cashOut: number | null;
+  blindClose: boolean;
+  drawerSessionId: string | null;
+  sharedDrawer: boolean;
   notes: string | null;
   status: string;
   createdAt: Date;
@@ -28,12 +31,22 @@ export interface CreateShiftData {
   outletId: string;
   employeeId: string;
   openingCash: number;
+  openingCount?: CashCountLine[];
   startedAt: Date;
 }
 
+/** Cash figures are null for a shift that shared its drawer and left before it was counted */
 export interface CloseShiftData {
-  closingCash: number;
-  expectedCash: number;
-  cashDifference: number;
+  closingCash: number | null;
+  closingCount?: CashCountLine[];
+  expectedCash: number | null;
+  cashDifference: number | null;
+  blindClose?: boolean;
   endedAt: Date;
 }
+
+/** Number of notes or coins of one denomination in a drawer count */
+export interface CashCountLine {
+  value: number;
+  count: number;
+}
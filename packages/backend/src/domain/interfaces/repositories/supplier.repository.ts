@@ -35,7 +35,6 @@ export interface ISupplierRepository {
   findPurchaseOrdersByOutlet(outletId: string): Promise<PurchaseOrderRecord[]>;
   findPurchaseOrderById(id: string): Promise<PurchaseOrderRecord | null>;
   createPurchaseOrder(data: CreatePurchaseOrderData): Promise<PurchaseOrderRecord>;
-  receivePurchaseOrder(id: string): Promise<PurchaseOrderRecord>;
 }
 
 export interface CreateSupplierData {
@@ -73,6 +73,14 @@ describe('Quantity Value Object', () => {
 
       expect(result.value).toBeCloseTo(3.8);
     });
+
+    it('should keep weighed quantities to three decimals', () => {
+      const a = Quantity.create(0.1);
+      const b = Quantity.create(0.2);
+
+      expect(a.add(b).value).toBe(0.3);
+      expect(Quantity.create(1.23456).value).toBe(1.235);
+    });
   });
 
   describe('subtraction', () => {
@@ -1,10 +1,16 @@
 import { AppError, ErrorCode } from '../../shared/errors/app-error';
 
+// Stock is kept to three decimals, i.e. down to the gram for items sold by the kilogram
+const SCALE = 1000;
+
 export class Quantity {
-  private constructor(private readonly _value: number) {
-    if (_value < 0) {
+  private readonly _value: number;
+
+  private constructor(value: number) {
+    if (value < 0) {
       throw new AppError(ErrorCode.VALIDATION_ERROR, 'Quantity cannot be negative');
     }
+    this._value = Math.round(value * SCALE) / SCALE;
   }
 
   static create(value: number): Quantity {
@@ -1,6 +1,11 @@
 export { AuthUser } from './auth-user.interface';
 export { JwtStrategy } from './jwt.strategy';
 export { JwtAuthGuard } from './jwt-auth.guard';
-export { RolesGuard } from './roles.guard';
-export { Roles, ROLES_KEY } from './roles.decorator';
+export { PermissionsGuard } from './permissions.guard';
+export {
+  RequirePermission,
+  PermissionOutlet,
+  PERMISSIONS_KEY,
+  PERMISSION_OUTLET_KEY,
+} from './require-permission.decorator';
 export { CurrentUser } from './current-user.decorator';
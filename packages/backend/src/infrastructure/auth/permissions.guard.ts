@@ -0,0 +1,85 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthUser } from './auth-user.interface';
+import {
+  PERMISSIONS_KEY,
+  PERMISSION_OUTLET_KEY,
+  type PermissionOutletTarget,
+} from './require-permission.decorator';
+import type { Permission } from '../../shared/constants/permissions';
+import { PermissionsService } from '../../modules/permissions/permissions.service';
+
+interface PermissionRequest {
+  user: AuthUser;
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  body?: Record<string, unknown>;
+}
+
+/**
+ * PermissionsGuard - Checks @RequirePermission against the caller's roles
+ *
+ * Permissions are resolved for the outlet the request targets. Routes acting
+ * on an outlet-owned record declare it with @PermissionOutlet and are checked
+ * at that record's outlet; an `outletId` the client sends must then match it.
+ * Other routes use an `outletId` route param, query parameter or body field,
+ * falling back to the outlet in the caller's token.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissions: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!required || required.length === 0) {
+      return true;
+    }
+
+    const target = this.reflector.getAllAndOverride<PermissionOutletTarget | undefined>(
+      PERMISSION_OUTLET_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const request = context.switchToHttp().getRequest<PermissionRequest>();
+    const outletId = target
+      ? await this.recordOutletId(request, target)
+      : (this.requestedOutletId(request) ?? request.user.outletId);
+    const granted = await this.permissions.resolve(request.user, outletId);
+
+    const missing = required.filter((permission) => !granted.has(permission));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Missing permission: ${missing.join(', ')}`);
+    }
+    return true;
+  }
+
+  /** Outlet of the record the route acts on; null when there is no such record */
+  private async recordOutletId(
+    request: PermissionRequest,
+    target: PermissionOutletTarget,
+  ): Promise<string | null> {
+    const id = request[target.from]?.[target.key];
+    const outletId =
+      typeof id === 'string' && id ? await this.permissions.outletOf(target.resource, id) : null;
+
+    const requested = this.requestedOutletId(request);
+    if (outletId && requested && requested !== outletId) {
+      throw new ForbiddenException('The outlet does not match the record');
+    }
+    return outletId;
+  }
+
+  private requestedOutletId(request: PermissionRequest): string | null {
+    for (const source of [request.params, request.query, request.body]) {
+      const outletId = source?.outletId;
+      if (typeof outletId === 'string' && outletId) return outletId;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,53 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Permission } from '../../shared/constants/permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+export const WITHOUT_PERMISSION_KEY = 'without_permission';
+export const PERMISSION_OUTLET_KEY = 'permission_outlet';
+
+/** Outlet-owned records whose outlet PermissionsGuard can look up */
+export type OutletResource =
+  | 'transaction'
+  | 'shift'
+  | 'cashDrawer'
+  | 'drawerSession'
+  | 'bankDeposit'
+  | 'purchaseOrder'
+  | 'stockTransferSource'
+  | 'stockTransferDestination'
+  | 'device'
+  | 'paymentSettlement'
+  | 'creditSale'
+  | 'taxInvoice'
+  | 'kioskSession'
+  | 'warehouseZone'
+  | 'warehouseBin';
+
+export interface PermissionOutletTarget {
+  resource: OutletResource;
+  /** Request part and field holding the record id */
+  from: 'params' | 'body';
+  key: string;
+}
+
+/** Requires every listed permission at the outlet the request targets */
+export const RequirePermission = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
+
+/**
+ * Marks a route that deliberately requires no permission: public routes, routes
+ * authenticated some other way (API keys, webhook signatures) and self-service
+ * routes every signed-in employee may use
+ */
+export const WithoutPermission = () => SetMetadata(WITHOUT_PERMISSION_KEY, true);
+
+/**
+ * Resolves @RequirePermission at the outlet of the record the route acts on
+ * instead of an outlet the client names, so a role held at one outlet cannot
+ * act on another outlet's records.
+ */
+export const PermissionOutlet = (
+  resource: OutletResource,
+  key = 'id',
+  from: PermissionOutletTarget['from'] = 'params',
+) => SetMetadata(PERMISSION_OUTLET_KEY, { resource, key, from } satisfies PermissionOutletTarget);
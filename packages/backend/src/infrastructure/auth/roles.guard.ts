@@ -1,30 +0,0 @@
-import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
-import { AuthUser } from './auth-user.interface';
-import { ROLES_KEY } from './roles.decorator';
-
-@Injectable()
-export class RolesGuard implements CanActivate {
-  constructor(private readonly reflector: Reflector) {}
-
-  canActivate(context: ExecutionContext): boolean {
-    const requiredRoles = this.reflector.getAllAndOverride<string[]>(ROLES_KEY, [
-      context.getHandler(),
-      context.getClass(),
-    ]);
-
-    if (!requiredRoles || requiredRoles.length === 0) {
-      return true;
-    }
-
-    const request = context.switchToHttp().getRequest<{ user: AuthUser }>();
-    const user = request.user;
-
-    // Super admin and owner bypass all role checks
-    if (user.role === 'super_admin' || user.role === 'owner') {
-      return true;
-    }
-
-    return requiredRoles.includes(user.role);
-  }
-}
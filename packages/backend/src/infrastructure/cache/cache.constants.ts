@@ -9,6 +9,7 @@ export const CACHE_KEYS = {
   SHIFT: 'shift',
   MENU: 'menu',
   REPORT: 'report',
+  PERMISSIONS: 'permissions',
 } as const;
 
 export const CACHE_DEFAULTS = {
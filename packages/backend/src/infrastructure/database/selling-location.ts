@@ -0,0 +1,18 @@
+import type { Prisma } from '@prisma/client';
+import type { PrismaService } from './prisma.service';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+
+/** Refuses a sale, a shift or an online channel at a warehouse */
+export async function assertSellingLocation(
+  client: PrismaService | Prisma.TransactionClient,
+  outletId: string,
+): Promise<void> {
+  const outlet = await client.outlet.findUnique({
+    where: { id: outletId },
+    select: { locationType: true },
+  });
+  if (outlet?.locationType === 'warehouse') {
+    throw new BusinessError(ErrorCode.WAREHOUSE_NOT_SELLING, 'A warehouse does not sell');
+  }
+}
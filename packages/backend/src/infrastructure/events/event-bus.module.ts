@@ -8,10 +8,11 @@ import { NotificationDispatcherService } from '../notifications/notification-dis
 import { EmailModule } from '../notifications/email/email.module';
 import { WhatsAppModule } from '../notifications/whatsapp/whatsapp.module';
 import { PushModule } from '../notifications/push/push.module';
+import { SmsModule } from '../notifications/sms/sms.module';
 
 @Global()
 @Module({
-  imports: [EmailModule, WhatsAppModule, PushModule],
+  imports: [EmailModule, WhatsAppModule, PushModule, SmsModule],
   providers: [
     EventBusService,
     TransactionEventListener,
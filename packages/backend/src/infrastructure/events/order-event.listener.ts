@@ -2,6 +2,7 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { EventBusService } from './event-bus.service';
 import { OrderStatusChangedEvent } from '../../domain/events/order-status-changed.event';
 import { PrismaService } from '../database/prisma.service';
+import { appendAuditLog } from '../../modules/audit/audit-chain.util';
 
 @Injectable()
 export class OrderEventListener implements OnModuleInit {
@@ -38,16 +39,14 @@ export class OrderEventListener implements OnModuleInit {
 
     if (!order) return;
 
-    await this.prisma.auditLog.create({
-      data: {
-        businessId: order.outlet.businessId,
-        outletId: event.outletId,
-        action: 'order_status_changed',
-        entityType: 'order',
-        entityId: event.orderId,
-        oldValue: { status: event.previousStatus },
-        newValue: { status: event.newStatus },
-      },
+    await appendAuditLog(this.prisma, {
+      businessId: order.outlet.businessId,
+      outletId: event.outletId,
+      action: 'order_status_changed',
+      entityType: 'order',
+      entityId: event.orderId,
+      oldValue: { status: event.previousStatus },
+      newValue: { status: event.newStatus },
     });
   }
 
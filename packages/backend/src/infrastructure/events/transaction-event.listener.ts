@@ -2,7 +2,10 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { EventBusService } from './event-bus.service';
 import { TransactionCreatedEvent } from '../../domain/events/transaction-created.event';
 import { TransactionVoidedEvent } from '../../domain/events/transaction-voided.event';
+import { LoyaltyPointsEarnedEvent } from '../../domain/events/loyalty-points-earned.event';
+import { LoyaltyTierChangedEvent } from '../../domain/events/loyalty-tier-changed.event';
 import { PrismaService } from '../database/prisma.service';
+import { appendAuditLog } from '../../modules/audit/audit-chain.util';
 import { RedisService } from '../cache/redis.service';
 
 @Injectable()
@@ -147,15 +150,33 @@ export class TransactionEventListener implements OnModuleInit {
       },
     });
 
-    for (const tier of [...tiers].reverse()) {
-      if (totalPoints >= tier.minPoints && tier.name !== customer.loyaltyTier) {
-        await this.prisma.customer.update({
-          where: { id: event.customerId },
-          data: { loyaltyTier: tier.name },
-        });
-        this.logger.log(`Customer ${event.customerId} upgraded to tier: ${tier.name}`);
-        break;
-      }
+    this.eventBus.publish(
+      new LoyaltyPointsEarnedEvent(
+        event.transactionId,
+        event.customerId,
+        pointsEarned,
+        totalPoints,
+      ),
+    );
+
+    // The highest tier the points reach; stop there so a customer already on it
+    // is not moved down to a lower tier they also qualify for
+    const reachedTier = [...tiers].reverse().find((tier) => totalPoints >= tier.minPoints);
+    if (reachedTier && reachedTier.name !== customer.loyaltyTier) {
+      await this.prisma.customer.update({
+        where: { id: event.customerId },
+        data: { loyaltyTier: reachedTier.name },
+      });
+      this.logger.log(`Customer ${event.customerId} upgraded to tier: ${reachedTier.name}`);
+      this.eventBus.publish(
+        new LoyaltyTierChangedEvent(
+          event.customerId,
+          customer.businessId,
+          customer.loyaltyTier,
+          reachedTier.name,
+          tiers.indexOf(reachedTier) > tiers.findIndex((t) => t.name === customer.loyaltyTier),
+        ),
+      );
     }
   }
 
@@ -167,19 +188,17 @@ export class TransactionEventListener implements OnModuleInit {
 
     if (!transaction) return;
 
-    await this.prisma.auditLog.create({
-      data: {
-        businessId: transaction.outlet.businessId,
-        outletId: event.outletId,
-        employeeId: transaction.employeeId,
-        action: 'transaction_created',
-        entityType: 'transaction',
-        entityId: event.transactionId,
-        newValue: {
-          grandTotal: event.grandTotal,
-          transactionType: transaction.transactionType,
-          customerId: event.customerId,
-        },
+    await appendAuditLog(this.prisma, {
+      businessId: transaction.outlet.businessId,
+      outletId: event.outletId,
+      employeeId: transaction.employeeId,
+      action: 'transaction_created',
+      entityType: 'transaction',
+      entityId: event.transactionId,
+      newValue: {
+        grandTotal: event.grandTotal,
+        transactionType: transaction.transactionType,
+        customerId: event.customerId,
       },
     });
   }
@@ -85,8 +85,14 @@ export class ExcelGeneratorService {
     sheet.getCell('A1').value = data.title;
     sheet.getCell('A1').font = { size: 16, bold: true };
 
+    // Multi-outlet reports lead with the outlet so rows stay distinguishable
+    const withOutlet = data.rows.some((row) => row.outletName !== undefined);
+    const withBin = data.rows.some((row) => row.binCode !== undefined);
+
     sheet.addRow([]);
     const headerRow = sheet.addRow([
+      ...(withOutlet ? ['Outlet'] : []),
+      ...(withBin ? ['Bin'] : []),
       'Product',
       'SKU',
       'Current Stock',
@@ -101,6 +107,8 @@ export class ExcelGeneratorService {
 
     for (const row of data.rows) {
       sheet.addRow([
+        ...(withOutlet ? [this.sanitizeCellValue(row.outletName)] : []),
+        ...(withBin ? [this.sanitizeCellValue(row.binCode)] : []),
         this.sanitizeCellValue(row.productName),
         this.sanitizeCellValue(row.sku),
         this.sanitizeCellValue(row.currentStock),
@@ -116,4 +124,46 @@ export class ExcelGeneratorService {
     const arrayBuffer = await workbook.xlsx.writeBuffer();
     return Buffer.from(arrayBuffer);
   }
+
+  async generateTableReport(data: {
+    title: string;
+    period?: string;
+    sheetName?: string;
+    columns: string[];
+    rows: Array<Array<string | number>>;
+    summary?: Array<{ label: string; value: string | number }>;
+  }): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet(data.sheetName || 'Report');
+
+    sheet.addRow([data.title]).font = { size: 16, bold: true };
+    if (data.period) {
+      sheet.addRow([`Period: ${data.period}`]);
+    }
+
+    sheet.addRow([]);
+    const headerRow = sheet.addRow(data.columns);
+    headerRow.eachCell((cell) => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF4472C4' } };
+      cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    });
+
+    for (const row of data.rows) {
+      sheet.addRow(row.map((cell) => this.sanitizeCellValue(cell)));
+    }
+
+    if (data.summary && data.summary.length > 0) {
+      sheet.addRow([]);
+      for (const line of data.summary) {
+        sheet.addRow([line.label, this.sanitizeCellValue(line.value)]).font = { bold: true };
+      }
+    }
+
+    sheet.columns.forEach((column) => {
+      column.width = 20;
+    });
+
+    const arrayBuffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(arrayBuffer);
+  }
 }
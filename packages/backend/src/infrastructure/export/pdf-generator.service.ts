@@ -86,4 +86,56 @@ export class PdfGeneratorService {
       },
     };
   }
+
+  /** Generic titled table with an optional summary block underneath */
+  buildTableReport(data: {
+    title: string;
+    period?: string;
+    columns: string[];
+    rows: Array<Array<string | number>>;
+    summary?: Array<{ label: string; value: string | number }>;
+  }): TDocumentDefinitions {
+    const tableBody: Content[][] = [
+      data.columns.map((column) => ({ text: column, bold: true })),
+      ...data.rows.map((row) => row.map((cell) => String(cell ?? ''))),
+    ];
+
+    const content: Content[] = [{ text: data.title, style: 'header' }];
+    if (data.period) {
+      content.push({ text: `Period: ${data.period}`, style: 'subheader' });
+    }
+    content.push({ text: '\n' });
+
+    if (data.rows.length > 0) {
+      content.push({
+        table: {
+          headerRows: 1,
+          widths: data.columns.map((_, index) => (index === 0 ? '*' : 'auto')),
+          body: tableBody,
+        },
+      });
+    } else {
+      content.push({ text: 'No data for this period', italics: true, color: 'grey' });
+    }
+
+    if (data.summary && data.summary.length > 0) {
+      content.push({ text: '\n' });
+      for (const line of data.summary) {
+        content.push({ text: `${line.label}: ${line.value}` });
+      }
+    }
+
+    return {
+      defaultStyle: { font: 'Helvetica' },
+      content,
+      styles: {
+        header: {
+          fontSize: 18,
+          bold: true,
+          margin: [0, 0, 0, 10] as [number, number, number, number],
+        },
+        subheader: { fontSize: 12, color: 'grey' },
+      },
+    };
+  }
 }
@@ -7,10 +7,12 @@ import {
   MemoryHealthIndicator,
 } from '@nestjs/terminus';
 import { ApiTags } from '@nestjs/swagger';
+import { WithoutPermission } from '../auth/require-permission.decorator';
 import { PrismaService } from '../database/prisma.service';
 import { RabbitMqHealthIndicator } from '../messaging/rabbitmq.health';
 
 @ApiTags('Health')
+@WithoutPermission()
 @Controller('health')
 export class HealthController {
   constructor(
@@ -1,9 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import type { INotificationService, NotificationPayload } from '@domain/interfaces/services';
-import type { Prisma } from '@prisma/client';
+import type { NotificationType, Prisma } from '@prisma/client';
 import { EmailService } from './email/email.service';
 import { WhatsAppService } from './whatsapp/whatsapp.service';
 import { PushService } from './push/push.service';
+import { SmsService } from './sms/sms.service';
 import { PrismaService } from '../database/prisma.service';
 
 @Injectable()
@@ -14,75 +15,86 @@ export class NotificationDispatcherService implements INotificationService {
     private readonly emailService: EmailService,
     private readonly whatsAppService: WhatsAppService,
     private readonly pushService: PushService,
+    private readonly smsService: SmsService,
     private readonly prisma: PrismaService,
   ) {}
 
   async send(notification: NotificationPayload): Promise<void> {
     try {
-      switch (notification.channel) {
-        case 'email': {
-          const email = notification.metadata?.email as string;
-          if (email) {
-            await this.emailService.send({
-              to: email,
-              subject: notification.title,
-              html: `<h2>${notification.title}</h2><p>${notification.body}</p>`,
-            });
-          }
-          break;
+      await this.deliver(notification);
+    } catch (error) {
+      this.logger.error(`Failed to dispatch ${notification.channel} notification`, error);
+    }
+  }
+
+  /** Sends like `send` but throws when the provider rejects the message, for callers that retry */
+  async deliver(notification: NotificationPayload): Promise<void> {
+    switch (notification.channel) {
+      case 'email': {
+        const email = notification.metadata?.email as string;
+        if (email) {
+          await this.emailService.send({
+            to: email,
+            subject: notification.title,
+            html: `<h2>${notification.title}</h2><p>${notification.body}</p>`,
+          });
         }
-        case 'whatsapp': {
-          const phone = notification.metadata?.phone as string;
-          if (phone) {
-            await this.whatsAppService.send({
-              to: phone,
-              message: `*${notification.title}*\n${notification.body}`,
-            });
-          }
-          break;
+        break;
+      }
+      case 'whatsapp': {
+        const phone = notification.metadata?.phone as string;
+        if (phone) {
+          const accepted = await this.whatsAppService.send({
+            to: phone,
+            message: `*${notification.title}*\n${notification.body}`,
+          });
+          if (!accepted) throw new Error(`WhatsApp rejected the message to ${phone}`);
         }
-        case 'push': {
-          const token = notification.metadata?.pushToken as string;
-          if (token) {
-            await this.pushService.send({
-              token,
-              title: notification.title,
-              body: notification.body,
-              data: notification.metadata as Record<string, string> | undefined,
-            });
-          }
-          break;
+        break;
+      }
+      case 'push': {
+        const token = notification.metadata?.pushToken as string;
+        if (token) {
+          await this.pushService.send({
+            token,
+            title: notification.title,
+            body: notification.body,
+            data: notification.metadata as Record<string, string> | undefined,
+          });
         }
-        case 'sms':
+        break;
+      }
+      case 'sms': {
+        const phone = notification.metadata?.phone as string;
+        if (phone) {
+          const accepted = await this.smsService.send({
+            to: phone,
+            message: `${notification.title}\n${notification.body}`,
+          });
+          if (!accepted) throw new Error(`SMS provider rejected the message to ${phone}`);
+        } else {
           this.logger.log(
             `[SMS] To: ${notification.recipientId} | ${notification.title}: ${notification.body}`,
           );
-          break;
+        }
+        break;
       }
+    }
 
-      if (notification.metadata?.businessId) {
-        await this.prisma.notificationLog.create({
-          data: {
-            businessId: notification.metadata.businessId as string,
-            outletId: (notification.metadata.outletId as string) || null,
-            recipientId: notification.recipientId || null,
-            notificationType:
-              (notification.metadata.notificationType as
-                | 'low_stock'
-                | 'large_transaction'
-                | 'refund'
-                | 'online_order'
-                | 'shift_reminder'
-                | 'system_error') || 'system_error',
-            channel: notification.channel,
-            title: notification.title,
-            body: notification.body,
-            metadata: (notification.metadata || {}) as Prisma.InputJsonValue,
-          },
-        });
-      }
-    } catch (error) {
-      this.logger.error(`Failed to dispatch ${notification.channel} notification`, error);
+    if (notification.metadata?.businessId) {
+      await this.prisma.notificationLog.create({
+        data: {
+          businessId: notification.metadata.businessId as string,
+          outletId: (notification.metadata.outletId as string) || null,
+          recipientId: notification.recipientId || null,
+          notificationType:
+            (notification.metadata.notificationType as NotificationType) || 'system_error',
+          channel: notification.channel,
+          title: notification.title,
+          body: notification.body,
+          metadata: (notification.metadata || {}) as Prisma.InputJsonValue,
+        },
+      });
     }
   }
 
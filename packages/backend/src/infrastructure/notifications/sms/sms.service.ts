@@ -0,0 +1,42 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+export interface SmsMessage {
+  to: string;
+  message: string;
+}
+
+@Injectable()
+export class SmsService {
+  private readonly logger = new Logger(SmsService.name);
+  private readonly accountSid: string;
+  private readonly authToken: string;
+  private readonly fromNumber: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.accountSid = this.configService.get<string>('TWILIO_ACCOUNT_SID', '');
+    this.authToken = this.configService.get<string>('TWILIO_AUTH_TOKEN', '');
+    this.fromNumber = this.configService.get<string>('TWILIO_FROM_NUMBER', '');
+  }
+
+  async send(message: SmsMessage): Promise<boolean> {
+    if (!this.accountSid || !this.authToken || !this.fromNumber) {
+      this.logger.log(`[Mock SMS] To: ${message.to} | Message: ${message.message}`);
+      return true;
+    }
+
+    try {
+      await axios.post(
+        `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+        new URLSearchParams({ To: message.to, From: this.fromNumber, Body: message.message }),
+        { auth: { username: this.accountSid, password: this.authToken } },
+      );
+      this.logger.log(`SMS sent to ${message.to}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`SMS send failed to ${message.to}`, error);
+      return false;
+    }
+  }
+}
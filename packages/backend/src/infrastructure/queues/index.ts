@@ -3,6 +3,8 @@ export { QueueService } from './queue.service';
 export { QUEUE_NAMES, JOB_NAMES, JOB_OPTIONS } from './queue.constants';
 export type { EmailJobData } from './processors/email.processor';
 export type { NotificationJobData } from './processors/notification.processor';
-export type { ReportJobData } from './processors/report.processor';
+export type { ReportJobData, ScheduledReportJobData } from './processors/report.processor';
 export type { StockAlertJobData } from './processors/stock-alert.processor';
 export type { SettlementJobData } from './processors/settlement.processor';
+export type { WebhookJobData } from './processors/webhook.processor';
+export type { CampaignJobData } from './processors/campaign.processor';
@@ -0,0 +1,31 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { QUEUE_NAMES } from '../queue.constants';
+import { CampaignDeliveryService } from '../../../modules/campaigns/campaign-delivery.service';
+
+export interface CampaignJobData {
+  recipientId: string;
+}
+
+/**
+ * Registered by CampaignsModule rather than QueueModule, since messages are
+ * rendered and recorded by the service that lives there.
+ */
+@Processor(QUEUE_NAMES.CAMPAIGN)
+export class CampaignProcessor extends WorkerHost {
+  constructor(private readonly delivery: CampaignDeliveryService) {
+    super();
+  }
+
+  async process(job: Job<CampaignJobData>): Promise<void> {
+    try {
+      await this.delivery.execute(job.data.recipientId);
+    } catch (error) {
+      const maxAttempts = job.opts.attempts ?? 1;
+      if (job.attemptsMade + 1 >= maxAttempts) {
+        await this.delivery.markFailed(job.data.recipientId, (error as Error).message);
+      }
+      throw error;
+    }
+  }
+}
@@ -1,7 +1,8 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
-import { QUEUE_NAMES } from '../queue.constants';
+import { JOB_NAMES, QUEUE_NAMES } from '../queue.constants';
+import { ReportRunsService } from '../../../modules/reports/scheduled/report-runs.service';
 
 export interface ReportJobData {
   reportType: 'sales' | 'inventory' | 'financial' | 'employee' | 'customer';
@@ -15,13 +16,34 @@ export interface ReportJobData {
   requestedBy: string;
 }
 
+export interface ScheduledReportJobData {
+  runId: string;
+  businessId: string;
+}
+
+/**
+ * Registered by ReportsModule rather than QueueModule, since scheduled runs
+ * need the report use cases that live there.
+ */
 @Processor(QUEUE_NAMES.REPORT)
 export class ReportProcessor extends WorkerHost {
   private readonly logger = new Logger(ReportProcessor.name);
 
-  async process(job: Job<ReportJobData>): Promise<void> {
-    this.logger.log(`Processing report job ${job.id}: ${job.data.reportType} (${job.data.format})`);
+  constructor(private readonly reportRuns: ReportRunsService) {
+    super();
+  }
+
+  async process(job: Job<ReportJobData | ScheduledReportJobData>): Promise<void> {
+    if (job.name === JOB_NAMES.RUN_SCHEDULED_REPORT) {
+      const data = job.data as ScheduledReportJobData;
+      const maxAttempts = job.opts.attempts ?? 1;
+      await this.reportRuns.execute(data.runId, job.attemptsMade + 1 >= maxAttempts);
+      return;
+    }
+
+    const data = job.data as ReportJobData;
+    this.logger.log(`Processing report job ${job.id}: ${data.reportType} (${data.format})`);
     // Will be replaced with real PDF/Excel generation in Phase 3
-    this.logger.log(`[Queue] Report generated: ${job.data.reportType}.${job.data.format}`);
+    this.logger.log(`[Queue] Report generated: ${data.reportType}.${data.format}`);
   }
 }
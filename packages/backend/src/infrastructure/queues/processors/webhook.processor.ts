@@ -0,0 +1,24 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { QUEUE_NAMES } from '../queue.constants';
+import { WebhookDeliveriesService } from '../../../modules/webhooks/webhook-deliveries.service';
+
+export interface WebhookJobData {
+  deliveryId: string;
+}
+
+/**
+ * Registered by WebhooksModule rather than QueueModule, since deliveries are
+ * recorded by the service that lives there.
+ */
+@Processor(QUEUE_NAMES.WEBHOOK)
+export class WebhookProcessor extends WorkerHost {
+  constructor(private readonly deliveries: WebhookDeliveriesService) {
+    super();
+  }
+
+  async process(job: Job<WebhookJobData>): Promise<void> {
+    const maxAttempts = job.opts.attempts ?? 1;
+    await this.deliveries.execute(job.data.deliveryId, job.attemptsMade + 1 >= maxAttempts);
+  }
+}
@@ -4,6 +4,8 @@ export const QUEUE_NAMES = {
   REPORT: 'report',
   STOCK_ALERT: 'stock-alert',
   SETTLEMENT: 'settlement',
+  WEBHOOK: 'webhook',
+  CAMPAIGN: 'campaign',
 } as const;
 
 export const JOB_NAMES = {
@@ -13,9 +15,12 @@ export const JOB_NAMES = {
   SEND_NOTIFICATION: 'send-notification',
   SEND_BULK_NOTIFICATION: 'send-bulk-notification',
   GENERATE_REPORT: 'generate-report',
+  RUN_SCHEDULED_REPORT: 'run-scheduled-report',
   CHECK_LOW_STOCK: 'check-low-stock',
   PROCESS_SETTLEMENT: 'process-settlement',
   DAILY_SETTLEMENT: 'daily-settlement',
+  DELIVER_WEBHOOK: 'deliver-webhook',
+  SEND_CAMPAIGN_MESSAGE: 'send-campaign-message',
 } as const;
 
 export const JOB_OPTIONS = {
@@ -37,4 +42,23 @@ export const JOB_OPTIONS = {
     removeOnComplete: { count: 50 },
     removeOnFail: { count: 100 },
   },
+  SCHEDULED_REPORT: {
+    attempts: 4,
+    backoff: { type: 'exponential' as const, delay: 60000 },
+    removeOnComplete: { count: 100 },
+    removeOnFail: { count: 500 },
+  },
+  // 30s, 1m, 2m, 4m, 8m, 16m, 32m: about an hour before a delivery goes dead
+  WEBHOOK: {
+    attempts: 8,
+    backoff: { type: 'exponential' as const, delay: 30000 },
+    removeOnComplete: { count: 500 },
+    removeOnFail: { count: 1000 },
+  },
+  CAMPAIGN: {
+    attempts: 3,
+    backoff: { type: 'exponential' as const, delay: 60000 },
+    removeOnComplete: { count: 1000 },
+    removeOnFail: { count: 1000 },
+  },
 } as const;
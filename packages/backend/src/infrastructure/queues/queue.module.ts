@@ -4,7 +4,6 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { QUEUE_NAMES } from './queue.constants';
 import { EmailProcessor } from './processors/email.processor';
 import { NotificationProcessor } from './processors/notification.processor';
-import { ReportProcessor } from './processors/report.processor';
 import { StockAlertProcessor } from './processors/stock-alert.processor';
 import { SettlementProcessor } from './processors/settlement.processor';
 import { QueueService } from './queue.service';
@@ -29,12 +28,13 @@ import { QueueService } from './queue.service';
       { name: QUEUE_NAMES.REPORT },
       { name: QUEUE_NAMES.STOCK_ALERT },
       { name: QUEUE_NAMES.SETTLEMENT },
+      { name: QUEUE_NAMES.WEBHOOK },
+      { name: QUEUE_NAMES.CAMPAIGN },
     ),
   ],
   providers: [
     EmailProcessor,
     NotificationProcessor,
-    ReportProcessor,
     StockAlertProcessor,
     SettlementProcessor,
     QueueService,
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
 import { PrismaService } from '../database/prisma.service';
+import { appendAuditLog } from '../../modules/audit/audit-chain.util';
 import type {
   IAuditLogRepository,
   AuditLogRecord,
@@ -10,22 +11,20 @@ import type {
 export class PrismaAuditRepository implements IAuditLogRepository {
   constructor(private readonly prisma: PrismaService) {}
 
+  /** Appends to the business's hash chain; the id and timestamp are assigned on write */
   async create(data: AuditLogRecord): Promise<AuditLogRecord> {
-    const created = await this.prisma.auditLog.create({
-      data: {
-        id: data.id,
-        businessId: data.businessId,
-        outletId: data.outletId,
-        employeeId: data.employeeId,
-        action: data.action,
-        entityType: data.entityType,
-        entityId: data.entityId,
-        oldValue: (data.oldValue as Prisma.InputJsonValue) ?? Prisma.JsonNull,
-        newValue: (data.newValue as Prisma.InputJsonValue) ?? Prisma.JsonNull,
-        ipAddress: data.ipAddress,
-        deviceId: data.deviceId,
-        metadata: (data.metadata as Prisma.InputJsonValue) ?? Prisma.JsonNull,
-      },
+    const created = await appendAuditLog(this.prisma, {
+      businessId: data.businessId,
+      outletId: data.outletId,
+      employeeId: data.employeeId,
+      action: data.action,
+      entityType: data.entityType,
+      entityId: data.entityId,
+      oldValue: data.oldValue as Prisma.InputJsonValue | null,
+      newValue: data.newValue as Prisma.InputJsonValue | null,
+      ipAddress: data.ipAddress,
+      deviceId: data.deviceId,
+      metadata: data.metadata as Prisma.InputJsonValue | undefined,
     });
 
     return this.mapToRecord(created);
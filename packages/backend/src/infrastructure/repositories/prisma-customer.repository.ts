@@ -51,6 +51,9 @@ export class PrismaCustomerRepository implements ICustomerRepository {
         name: customer.name,
         email: customer.email,
         phone: customer.phone,
+        npwp: customer.npwp ?? null,
+        npwpName: customer.npwpName ?? null,
+        npwpAddress: customer.npwpAddress ?? null,
         loyaltyPoints: customer.loyaltyPoints,
         loyaltyTier: customer.loyaltyTier,
         totalSpent: new Decimal(customer.totalSpent),
@@ -74,6 +77,15 @@ export class PrismaCustomerRepository implements ICustomerRepository {
     if (data.phone !== undefined) {
       updateData.phone = data.phone;
     }
+    if (data.npwp !== undefined) {
+      updateData.npwp = data.npwp;
+    }
+    if (data.npwpName !== undefined) {
+      updateData.npwpName = data.npwpName;
+    }
+    if (data.npwpAddress !== undefined) {
+      updateData.npwpAddress = data.npwpAddress;
+    }
     if (data.loyaltyPoints !== undefined) {
       updateData.loyaltyPoints = data.loyaltyPoints;
     }
@@ -111,6 +123,9 @@ export class PrismaCustomerRepository implements ICustomerRepository {
     name: string;
     email: string | null;
     phone: string | null;
+    npwp: string | null;
+    npwpName: string | null;
+    npwpAddress: string | null;
     loyaltyPoints: number;
     loyaltyTier: string;
     totalSpent: Decimal;
@@ -125,6 +140,9 @@ export class PrismaCustomerRepository implements ICustomerRepository {
       name: customer.name,
       email: customer.email,
       phone: customer.phone,
+      npwp: customer.npwp,
+      npwpName: customer.npwpName,
+      npwpAddress: customer.npwpAddress,
       loyaltyPoints: customer.loyaltyPoints,
       loyaltyTier: customer.loyaltyTier,
       totalSpent: customer.totalSpent.toNumber(),
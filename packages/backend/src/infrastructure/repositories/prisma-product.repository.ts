@@ -96,6 +96,9 @@ export class PrismaProductRepository implements IProductRepository {
         ...(data.costPrice !== undefined && { costPrice: data.costPrice }),
         ...(data.hasVariants !== undefined && { hasVariants: data.hasVariants }),
         ...(data.trackStock !== undefined && { trackStock: data.trackStock }),
+        ...(data.minimumAge !== undefined && { minimumAge: data.minimumAge }),
+        ...(data.isWeighed !== undefined && { isWeighed: data.isWeighed }),
+        ...(data.sellUnit !== undefined && { sellUnit: data.sellUnit }),
         ...(data.isActive !== undefined && { isActive: data.isActive }),
       },
       include: { variants: true },
@@ -124,6 +127,9 @@ export class PrismaProductRepository implements IProductRepository {
       costPrice: decimalToNumber(product.costPrice),
       hasVariants: product.hasVariants,
       trackStock: product.trackStock,
+      minimumAge: product.minimumAge,
+      isWeighed: product.isWeighed,
+      sellUnit: product.sellUnit,
       isActive: product.isActive,
       createdAt: product.createdAt,
       updatedAt: product.updatedAt,
@@ -1,5 +1,5 @@
 import { Injectable } from '@nestjs/common';
-import { DiscountType } from '@prisma/client';
+import { DiscountType, Prisma } from '@prisma/client';
 import type {
   IPromotionRepository,
   CreatePromotionData,
@@ -54,6 +54,11 @@ export class PrismaPromotionRepository implements IPromotionRepository {
         validFrom: data.validFrom,
         validUntil: data.validUntil,
         usageLimit: data.usageLimit,
+        applicableTo: (data.applicableTo ?? {}) as Prisma.InputJsonValue,
+        rules: (data.rules ?? Prisma.DbNull) as Prisma.InputJsonValue,
+        priority: data.priority ?? 0,
+        stackable: data.stackable ?? false,
+        exclusivityGroup: data.exclusivityGroup ?? null,
       },
     });
 
@@ -1,4 +1,5 @@
 import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import { PrismaService } from '../database/prisma.service';
 import type {
@@ -43,6 +44,9 @@ export class PrismaShiftRepository implements IShiftRepository {
         employeeId: data.employeeId,
         startedAt: data.startedAt,
         openingCash: new Decimal(data.openingCash),
+        openingCount: data.openingCount
+          ? (data.openingCount as unknown as Prisma.InputJsonValue)
+          : undefined,
         status: 'open',
       },
     });
@@ -54,9 +58,13 @@ export class PrismaShiftRepository implements IShiftRepository {
     const updated = await this.prisma.shift.update({
       where: { id },
       data: {
-        closingCash: new Decimal(data.closingCash),
-        expectedCash: new Decimal(data.expectedCash),
-        cashDifference: new Decimal(data.cashDifference),
+        closingCash: data.closingCash !== null ? new Decimal(data.closingCash) : null,
+        closingCount: data.closingCount
+          ? (data.closingCount as unknown as Prisma.InputJsonValue)
+          : undefined,
+        blindClose: data.blindClose ?? false,
+        expectedCash: data.expectedCash !== null ? new Decimal(data.expectedCash) : null,
+        cashDifference: data.cashDifference !== null ? new Decimal(data.cashDifference) : null,
         endedAt: data.endedAt,
         status: 'closed',
       },
@@ -99,6 +107,9 @@ export class PrismaShiftRepository implements IShiftRepository {
     cashDifference: Decimal | null;
     cashIn?: Decimal | null;
     cashOut?: Decimal | null;
+    blindClose?: boolean;
+    drawerSessionId?: string | null;
+    sharedDrawer?: boolean;
     notes: string | null;
     status: string;
     createdAt: Date;
@@ -116,6 +127,9 @@ export class PrismaShiftRepository implements IShiftRepository {
       cashIn: shift.cashIn !== undefined && shift.cashIn !== null ? shift.cashIn.toNumber() : null,
       cashOut:
         shift.cashOut !== undefined && shift.cashOut !== null ? shift.cashOut.toNumber() : null,
+      blindClose: shift.blindClose ?? false,
+      drawerSessionId: shift.drawerSessionId ?? null,
+      sharedDrawer: shift.sharedDrawer ?? false,
       notes: shift.notes,
       status: shift.status,
       createdAt: shift.createdAt,
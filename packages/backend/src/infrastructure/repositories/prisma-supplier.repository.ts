@@ -95,16 +95,6 @@ export class PrismaSupplierRepository implements ISupplierRepository {
     return this.mapPurchaseOrderToRecord(po);
   }
 
-  async receivePurchaseOrder(id: string): Promise<PurchaseOrderRecord> {
-    const po = await this.prisma.purchaseOrder.update({
-      where: { id },
-      data: { status: 'received', receivedAt: new Date() },
-      include: { supplier: true, items: true },
-    });
-
-    return this.mapPurchaseOrderToRecord(po);
-  }
-
   private mapPurchaseOrderToRecord(po: {
     id: string;
     outletId: string;
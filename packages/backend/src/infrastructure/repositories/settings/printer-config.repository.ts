@@ -13,6 +13,11 @@ export interface PrinterConfigData {
   autoPrint: boolean;
   copies: number;
   outletId: string;
+  /** Print template used for this printer's jobs; outlet default when unset */
+  templateId?: string | null;
+  /** Kitchen stations this printer takes tickets for; all when empty */
+  stations?: string[];
+  paperWidth?: 58 | 80;
 }
 
 export interface CreatePrinterConfigData {
@@ -24,6 +29,9 @@ export interface CreatePrinterConfigData {
   autoPrint?: boolean;
   copies?: number;
   outletId: string;
+  templateId?: string | null;
+  stations?: string[];
+  paperWidth?: 58 | 80;
 }
 
 export interface UpdatePrinterConfigData {
@@ -36,6 +44,9 @@ export interface UpdatePrinterConfigData {
   autoPrint?: boolean;
   copies?: number;
   outletId?: string;
+  templateId?: string | null;
+  stations?: string[];
+  paperWidth?: 58 | 80;
 }
 
 @Injectable()
@@ -82,6 +93,9 @@ export class PrinterConfigRepository {
       autoPrint: data.autoPrint ?? true,
       copies: data.copies ?? 1,
       outletId: data.outletId,
+      templateId: data.templateId ?? null,
+      stations: data.stations ?? [],
+      paperWidth: data.paperWidth ?? 80,
     };
 
     configs.push(newConfig);
@@ -113,6 +127,9 @@ export class PrinterConfigRepository {
       ...(data.autoPrint !== undefined && { autoPrint: data.autoPrint }),
       ...(data.copies !== undefined && { copies: data.copies }),
       ...(data.outletId !== undefined && { outletId: data.outletId }),
+      ...(data.templateId !== undefined && { templateId: data.templateId }),
+      ...(data.stations !== undefined && { stations: data.stations }),
+      ...(data.paperWidth !== undefined && { paperWidth: data.paperWidth }),
     };
 
     configs[index] = updated;
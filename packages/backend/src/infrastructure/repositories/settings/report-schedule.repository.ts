@@ -7,6 +7,10 @@ export interface ReportScheduleData {
   reportType: 'sales' | 'financial' | 'inventory';
   frequency: 'daily' | 'weekly' | 'monthly';
   recipients: string[];
+  /** Attachment format; schedules saved before this field existed send PDF */
+  format?: 'pdf' | 'excel';
+  /** Limit the report to one outlet; null covers every outlet of the business */
+  outletId?: string | null;
   isActive: boolean;
   nextSendAt: string | null;
   lastSentAt: string | null;
@@ -16,6 +20,8 @@ export interface CreateReportScheduleData {
   reportType: 'sales' | 'financial' | 'inventory';
   frequency: 'daily' | 'weekly' | 'monthly';
   recipients: string[];
+  format?: 'pdf' | 'excel';
+  outletId?: string | null;
   isActive?: boolean;
 }
 
@@ -23,6 +29,8 @@ export interface UpdateReportScheduleData {
   reportType?: 'sales' | 'financial' | 'inventory';
   frequency?: 'daily' | 'weekly' | 'monthly';
   recipients?: string[];
+  format?: 'pdf' | 'excel';
+  outletId?: string | null;
   isActive?: boolean;
 }
 
@@ -64,6 +72,8 @@ export class ReportScheduleRepository {
       reportType: data.reportType,
       frequency: data.frequency,
       recipients: data.recipients,
+      format: data.format ?? 'pdf',
+      outletId: data.outletId ?? null,
       isActive: data.isActive ?? true,
       nextSendAt: null,
       lastSentAt: null,
@@ -92,14 +102,60 @@ export class ReportScheduleRepository {
       ...(data.reportType !== undefined && { reportType: data.reportType }),
       ...(data.frequency !== undefined && { frequency: data.frequency }),
       ...(data.recipients !== undefined && { recipients: data.recipients }),
+      ...(data.format !== undefined && { format: data.format }),
+      ...(data.outletId !== undefined && { outletId: data.outletId }),
       ...(data.isActive !== undefined && { isActive: data.isActive }),
     };
 
+    // A new cadence (or re-enabling) restarts the clock; the scheduler fills it in
+    if (
+      (data.frequency !== undefined && data.frequency !== existing.frequency) ||
+      (data.isActive === true && !existing.isActive)
+    ) {
+      updated.nextSendAt = null;
+    }
+
     schedules[index] = updated;
     await this.saveReportSchedules(businessId, schedules);
     return updated;
   }
 
+  /**
+   * Records a scheduler tick without touching the user-editable fields.
+   * The schedule is patched in place by one UPDATE rather than rewriting the
+   * settings read earlier, so settings saved meanwhile are not reverted.
+   */
+  async updateScheduleTimestamps(
+    businessId: string,
+    id: string,
+    timestamps: { nextSendAt?: string | null; lastSentAt?: string | null },
+  ): Promise<void> {
+    const patch: Partial<Pick<ReportScheduleData, 'nextSendAt' | 'lastSentAt'>> = {};
+    if (timestamps.nextSendAt !== undefined) patch.nextSendAt = timestamps.nextSendAt;
+    if (timestamps.lastSentAt !== undefined) patch.lastSentAt = timestamps.lastSentAt;
+    if (Object.keys(patch).length === 0) return;
+
+    await this.prisma.$executeRaw`
+      UPDATE businesses
+      SET settings = jsonb_set(
+        settings,
+        '{reportSchedules}',
+        (
+          SELECT jsonb_agg(
+            CASE WHEN schedule->>'id' = ${id} THEN schedule || ${JSON.stringify(patch)}::jsonb
+            ELSE schedule END
+            ORDER BY position
+          )
+          FROM jsonb_array_elements(settings->'reportSchedules')
+            WITH ORDINALITY AS schedules(schedule, position)
+        )
+      )
+      WHERE id = ${businessId}::uuid
+        AND jsonb_typeof(settings->'reportSchedules') = 'array'
+        AND jsonb_array_length(settings->'reportSchedules') > 0
+    `;
+  }
+
   async deleteReportSchedule(businessId: string, id: string): Promise<void> {
     const schedules = await this.getReportSchedules(businessId);
     const index = schedules.findIndex((s) => s.id === id);
@@ -0,0 +1,85 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { AppError, ErrorCode } from '../../shared/errors/app-error';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const VERSION = 'v1';
+
+/**
+ * CredentialCipherService - Encrypts third-party credentials at rest
+ *
+ * Uses AES-256-GCM with a key derived from INTEGRATION_ENCRYPTION_KEY.
+ * Ciphertext format: `v1:<iv>:<authTag>:<payload>` (base64 segments).
+ *
+ * Fails closed: encryption and decryption both throw when the key is
+ * not configured, so credentials are never persisted in plain text.
+ */
+@Injectable()
+export class CredentialCipherService {
+  private readonly key: Buffer | null;
+
+  constructor(private readonly configService: ConfigService) {
+    const secret = this.configService.get<string>('INTEGRATION_ENCRYPTION_KEY', '');
+    this.key = secret ? createHash('sha256').update(secret).digest() : null;
+  }
+
+  encrypt(plainText: string): string {
+    const key = this.requireKey();
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [
+      VERSION,
+      iv.toString('base64'),
+      authTag.toString('base64'),
+      encrypted.toString('base64'),
+    ].join(':');
+  }
+
+  decrypt(cipherText: string): string {
+    const key = this.requireKey();
+    const [version, iv, authTag, payload] = cipherText.split(':');
+
+    if (version !== VERSION || !iv || !authTag || payload === undefined) {
+      throw new AppError(ErrorCode.CONFIGURATION_ERROR, 'Unsupported credential format');
+    }
+
+    try {
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+      return Buffer.concat([
+        decipher.update(Buffer.from(payload, 'base64')),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch {
+      throw new AppError(
+        ErrorCode.CONFIGURATION_ERROR,
+        'Stored credentials could not be decrypted',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  encryptJson(value: unknown): string {
+    return this.encrypt(JSON.stringify(value));
+  }
+
+  decryptJson<T>(cipherText: string): T {
+    return JSON.parse(this.decrypt(cipherText)) as T;
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new AppError(
+        ErrorCode.CONFIGURATION_ERROR,
+        'INTEGRATION_ENCRYPTION_KEY is not configured',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+    return this.key;
+  }
+}
@@ -22,3 +22,9 @@ export const authThrottleConfig = {
   ttl: 60000,
   limit: 5,
 };
+
+/** Public API window per API key; each key may set its own limit */
+export const apiKeyThrottleConfig = {
+  ttl: 60000,
+  limit: 120,
+};
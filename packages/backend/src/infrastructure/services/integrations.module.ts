@@ -16,6 +16,7 @@ import {
   ShopeeFoodGateway,
   MarketplaceService,
 } from './marketplace';
+import { CredentialCipherService } from '../security/credential-cipher.service';
 
 @Module({
   imports: [ConfigModule],
@@ -26,6 +27,9 @@ import {
       useFactory: () => new EventEmitter(),
     },
 
+    // Encrypts stored marketplace credentials
+    CredentialCipherService,
+
     // Food Delivery Gateways
     GoFoodGateway,
     GrabFoodGateway,
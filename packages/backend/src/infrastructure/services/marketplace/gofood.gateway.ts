@@ -8,6 +8,7 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import {
   IMarketplaceGateway,
   MarketplaceCredentials,
@@ -15,25 +16,37 @@ import {
   MarketplaceOrder,
   MarketplaceOrderStatus,
   MarketplaceSettlement,
+  MarketplaceWebhookEvent,
+  MarketplaceWebhookEventType,
 } from './marketplace.types';
+import { MarketplaceRequestOptions, requestMarketplaceApi } from './marketplace-http';
+import { AppError, ErrorCode } from '../../../shared/errors/app-error';
 
 @Injectable()
 export class GoFoodGateway implements IMarketplaceGateway {
   readonly platform = 'gofood' as const;
   private readonly logger = new Logger(GoFoodGateway.name);
+  readonly webhookSignatureHeader = 'x-go-signature';
+  private readonly baseUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.baseUrl = this.configService.get<string>(
+      'GOFOOD_API_URL',
+      'https://api.gobiz.co.id/integrations/gofood/v1',
+    );
+  }
 
   async authenticate(credentials: MarketplaceCredentials): Promise<MarketplaceCredentials> {
     this.logger.log('Authenticating with GoFood...');
 
-    // In production, call actual GoFood OAuth endpoint
     const response = (await this.request('/auth/token', {
       method: 'POST',
-      body: JSON.stringify({
+      body: {
         merchant_id: credentials.merchantId,
         client_id: credentials.apiKey,
         client_secret: credentials.apiSecret,
         grant_type: 'client_credentials',
-      }),
+      },
     })) as { access_token: string; refresh_token: string; expires_in: number };
 
     return {
@@ -47,10 +60,10 @@ export class GoFoodGateway implements IMarketplaceGateway {
   async refreshToken(credentials: MarketplaceCredentials): Promise<MarketplaceCredentials> {
     const response = (await this.request('/auth/token', {
       method: 'POST',
-      body: JSON.stringify({
+      body: {
         refresh_token: credentials.refreshToken,
         grant_type: 'refresh_token',
-      }),
+      },
     })) as { access_token: string; refresh_token: string; expires_in: number };
 
     return {
@@ -61,7 +74,7 @@ export class GoFoodGateway implements IMarketplaceGateway {
     };
   }
 
-  async syncMenu(items: MarketplaceMenuItem[]): Promise<void> {
+  async syncMenu(credentials: MarketplaceCredentials, items: MarketplaceMenuItem[]): Promise<void> {
     this.logger.log(`Syncing ${items.length} items to GoFood`);
 
     const menuData = items.map((item) => ({
@@ -82,43 +95,63 @@ export class GoFoodGateway implements IMarketplaceGateway {
 
     await this.request('/menu/sync', {
       method: 'POST',
-      body: JSON.stringify({ items: menuData }),
+      body: { items: menuData },
+      credentials,
     });
   }
 
-  async updateItemAvailability(itemId: string, isAvailable: boolean): Promise<void> {
+  async updateItemAvailability(
+    credentials: MarketplaceCredentials,
+    itemId: string,
+    isAvailable: boolean,
+  ): Promise<void> {
     await this.request(`/menu/items/${itemId}/availability`, {
       method: 'PUT',
-      body: JSON.stringify({ is_available: isAvailable }),
+      body: { is_available: isAvailable },
+      credentials,
     });
   }
 
-  async updateItemPrice(itemId: string, price: number): Promise<void> {
+  async updateItemPrice(
+    credentials: MarketplaceCredentials,
+    itemId: string,
+    price: number,
+  ): Promise<void> {
     await this.request(`/menu/items/${itemId}/price`, {
       method: 'PUT',
-      body: JSON.stringify({ price }),
+      body: { price },
+      credentials,
     });
   }
 
-  async fetchNewOrders(): Promise<MarketplaceOrder[]> {
-    const response = (await this.request('/orders?status=new')) as {
-      orders: Array<Record<string, unknown>>;
+  async fetchNewOrders(credentials: MarketplaceCredentials): Promise<MarketplaceOrder[]> {
+    const response = (await this.request('/orders?status=new', { credentials })) as {
+      orders?: Array<Record<string, unknown>>;
     };
     return (response.orders || []).map(this.mapOrder.bind(this));
   }
 
-  async acceptOrder(orderId: string): Promise<void> {
-    await this.request(`/orders/${orderId}/accept`, { method: 'POST' });
+  async acceptOrder(credentials: MarketplaceCredentials, orderId: string): Promise<void> {
+    await this.request(`/orders/${orderId}/accept`, { method: 'POST', credentials });
   }
 
-  async rejectOrder(orderId: string, reason: string): Promise<void> {
+  async rejectOrder(
+    credentials: MarketplaceCredentials,
+    orderId: string,
+    reason: string,
+  ): Promise<void> {
     await this.request(`/orders/${orderId}/reject`, {
       method: 'POST',
-      body: JSON.stringify({ reason }),
+      body: { reason },
+      credentials,
     });
   }
 
-  async updateOrderStatus(orderId: string, status: MarketplaceOrderStatus): Promise<void> {
+  async updateOrderStatus(
+    credentials: MarketplaceCredentials,
+    orderId: string,
+    status: MarketplaceOrderStatus,
+  ): Promise<void> {
     const statusMap: Record<MarketplaceOrderStatus, string> = {
       new: 'NEW',
       accepted: 'ACCEPTED',
@@ -131,14 +164,53 @@ export class GoFoodGateway implements IMarketplaceGateway {
 
     await this.request(`/orders/${orderId}/status`, {
       method: 'PUT',
-      body: JSON.stringify({ status: statusMap[status] }),
+      body: { status: statusMap[status] },
+      credentials,
     });
   }
 
-  async fetchSettlements(startDate: Date, endDate: Date): Promise<MarketplaceSettlement[]> {
+  /**
+   * Normalizes a GoFood webhook. Every event carries the current order
+   * snapshot; driver details are sent once a driver is assigned.
+   */
+  parseWebhook(payload: Record<string, unknown>): MarketplaceWebhookEvent {
+    const eventMap: Record<string, MarketplaceWebhookEventType> = {
+      'gofood.order.created': 'order.created',
+      'gofood.order.status_updated': 'order.status_changed',
+      'gofood.order.cancelled': 'order.cancelled',
+      'gofood.order.driver_arrived': 'driver.arrived',
+    };
+    const type = eventMap[payload.event_type as string];
+    const order = payload.order as Record<string, unknown> | undefined;
+
+    if (!type || !order?.id || !payload.merchant_id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Malformed GoFood webhook payload');
+    }
+
+    const driver = payload.driver as Record<string, string> | undefined;
+    return {
+      type,
+      merchantId: String(payload.merchant_id),
+      externalId: String(order.id),
+      order: type === 'order.created' ? this.mapOrder(order) : undefined,
+      status: this.mapStatus(order.status as string),
+      driver: driver
+        ? { name: driver.name, phone: driver.phone, plateNumber: driver.plate_number }
+        : undefined,
+      reason: payload.cancel_reason as string | undefined,
+      occurredAt: payload.event_time ? new Date(payload.event_time as string) : new Date(),
+    };
+  }
+
+  async fetchSettlements(
+    credentials: MarketplaceCredentials,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<MarketplaceSettlement[]> {
     const response = (await this.request(
       `/settlements?start_date=${startDate.toISOString()}&end_date=${endDate.toISOString()}`,
-    )) as { settlements: Array<Record<string, unknown>> };
+      { credentials },
+    )) as { settlements?: Array<Record<string, unknown>> };
 
     return (response.settlements || []).map((s: Record<string, unknown>) => ({
       id: String(s.id),
@@ -155,16 +227,14 @@ export class GoFoodGateway implements IMarketplaceGateway {
 
   private async request(
     endpoint: string,
-    options: RequestInit = {},
+    options: MarketplaceRequestOptions = {},
   ): Promise<Record<string, unknown>> {
-    // In production, make actual HTTP request
-    // This is a stub implementation
     this.logger.debug(`GoFood API: ${options.method || 'GET'} ${endpoint}`);
-    return { success: true, orders: [], settlements: [] };
+    return requestMarketplaceApi(this.platform, this.baseUrl, endpoint, options);
   }
 
   private mapOrder(order: Record<string, unknown>): MarketplaceOrder {
-    const items = order.items as Array<Record<string, unknown>>;
+    const items = (order.items as Array<Record<string, unknown>>) || [];
     return {
       id: `gofood-${order.id}`,
       externalId: order.id as string,
@@ -8,6 +8,7 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import {
   IMarketplaceGateway,
   MarketplaceCredentials,
@@ -15,24 +16,37 @@ import {
   MarketplaceOrder,
   MarketplaceOrderStatus,
   MarketplaceSettlement,
+  MarketplaceWebhookEvent,
+  MarketplaceWebhookEventType,
 } from './marketplace.types';
+import { MarketplaceRequestOptions, requestMarketplaceApi } from './marketplace-http';
+import { AppError, ErrorCode } from '../../../shared/errors/app-error';
 
 @Injectable()
 export class GrabFoodGateway implements IMarketplaceGateway {
   readonly platform = 'grabfood' as const;
   private readonly logger = new Logger(GrabFoodGateway.name);
+  readonly webhookSignatureHeader = 'x-grab-signature';
+  private readonly baseUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.baseUrl = this.configService.get<string>(
+      'GRABFOOD_API_URL',
+      'https://partner-api.grab.com/grabfood/partner/v1',
+    );
+  }
 
   async authenticate(credentials: MarketplaceCredentials): Promise<MarketplaceCredentials> {
     this.logger.log('Authenticating with GrabFood...');
 
     const response = await this.request('/oauth/token', {
       method: 'POST',
-      body: JSON.stringify({
+      body: {
         client_id: credentials.apiKey,
         client_secret: credentials.apiSecret,
         grant_type: 'client_credentials',
         scope: 'grabfood.merchant',
-      }),
+      },
     });
 
     return {
@@ -46,7 +60,7 @@ export class GrabFoodGateway implements IMarketplaceGateway {
     return this.authenticate(credentials);
   }
 
-  async syncMenu(items: MarketplaceMenuItem[]): Promise<void> {
+  async syncMenu(credentials: MarketplaceCredentials, items: MarketplaceMenuItem[]): Promise<void> {
     this.logger.log(`Syncing ${items.length} items to GrabFood`);
 
     const menuData = {
@@ -55,42 +69,62 @@ export class GrabFoodGateway implements IMarketplaceGateway {
 
     await this.request('/merchant/menu', {
       method: 'PUT',
-      body: JSON.stringify(menuData),
+      body: menuData,
+      credentials,
     });
   }
 
-  async updateItemAvailability(itemId: string, isAvailable: boolean): Promise<void> {
+  async updateItemAvailability(
+    credentials: MarketplaceCredentials,
+    itemId: string,
+    isAvailable: boolean,
+  ): Promise<void> {
     await this.request(`/merchant/menu/items/${itemId}`, {
       method: 'PATCH',
-      body: JSON.stringify({ availableStatus: isAvailable ? 'AVAILABLE' : 'UNAVAILABLE' }),
+      body: { availableStatus: isAvailable ? 'AVAILABLE' : 'UNAVAILABLE' },
+      credentials,
     });
   }
 
-  async updateItemPrice(itemId: string, price: number): Promise<void> {
+  async updateItemPrice(
+    credentials: MarketplaceCredentials,
+    itemId: string,
+    price: number,
+  ): Promise<void> {
     await this.request(`/merchant/menu/items/${itemId}`, {
       method: 'PATCH',
-      body: JSON.stringify({ price: price * 100 }), // GrabFood uses cents
+      body: { price: price * 100 }, // GrabFood uses cents
+      credentials,
     });
   }
 
-  async fetchNewOrders(): Promise<MarketplaceOrder[]> {
-    const response = await this.request('/merchant/orders?status=PENDING');
-    const orders = response.orders as Array<Record<string, unknown>>;
+  async fetchNewOrders(credentials: MarketplaceCredentials): Promise<MarketplaceOrder[]> {
+    const response = await this.request('/merchant/orders?status=PENDING', { credentials });
+    const orders = (response.orders as Array<Record<string, unknown>>) || [];
     return orders.map(this.mapOrder.bind(this));
   }
 
-  async acceptOrder(orderId: string): Promise<void> {
-    await this.request(`/merchant/orders/${orderId}/accept`, { method: 'POST' });
+  async acceptOrder(credentials: MarketplaceCredentials, orderId: string): Promise<void> {
+    await this.request(`/merchant/orders/${orderId}/accept`, { method: 'POST', credentials });
   }
 
-  async rejectOrder(orderId: string, reason: string): Promise<void> {
+  async rejectOrder(
+    credentials: MarketplaceCredentials,
+    orderId: string,
+    reason: string,
+  ): Promise<void> {
     await this.request(`/merchant/orders/${orderId}/reject`, {
       method: 'POST',
-      body: JSON.stringify({ rejectCode: reason }),
+      body: { rejectCode: reason },
+      credentials,
     });
   }
 
-  async updateOrderStatus(orderId: string, status: MarketplaceOrderStatus): Promise<void> {
+  async updateOrderStatus(
+    credentials: MarketplaceCredentials,
+    orderId: string,
+    status: MarketplaceOrderStatus,
+  ): Promise<void> {
     const statusMap: Record<string, string> = {
       preparing: 'PREPARING',
       ready: 'READY',
@@ -100,17 +134,58 @@ export class GrabFoodGateway implements IMarketplaceGateway {
     if (statusMap[status]) {
       await this.request(`/merchant/orders/${orderId}/status`, {
         method: 'PUT',
-        body: JSON.stringify({ status: statusMap[status] }),
+        body: { status: statusMap[status] },
+        credentials,
       });
     }
   }
 
-  async fetchSettlements(startDate: Date, endDate: Date): Promise<MarketplaceSettlement[]> {
+  /**
+   * Normalizes a GrabFood webhook. New orders are pushed as the full order
+   * object; later pushes only carry the order state and driver details.
+   */
+  parseWebhook(payload: Record<string, unknown>): MarketplaceWebhookEvent {
+    if (!payload.orderID || !payload.merchantID) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Malformed GrabFood webhook payload');
+    }
+
+    const state = (payload.state ?? payload.orderState) as string | undefined;
+    const isNewOrder = Array.isArray(payload.items);
+    let type: MarketplaceWebhookEventType = 'order.status_changed';
+    if (isNewOrder) {
+      type = 'order.created';
+    } else if (state === 'CANCELLED') {
+      type = 'order.cancelled';
+    } else if (state === 'DRIVER_ARRIVED') {
+      type = 'driver.arrived';
+    }
+
+    const driver = payload.driver as Record<string, string> | undefined;
+    return {
+      type,
+      merchantId: String(payload.merchantID),
+      externalId: String(payload.orderID),
+      order: isNewOrder ? this.mapOrder(payload) : undefined,
+      status: state && state !== 'DRIVER_ARRIVED' ? this.mapStatus(state) : undefined,
+      driver: driver
+        ? { name: driver.name, phone: driver.phone, plateNumber: driver.licensePlate }
+        : undefined,
+      reason: payload.message as string | undefined,
+      occurredAt: payload.updatedAt ? new Date(payload.updatedAt as string) : new Date(),
+    };
+  }
+
+  async fetchSettlements(
+    credentials: MarketplaceCredentials,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<MarketplaceSettlement[]> {
     const response = await this.request(
       `/merchant/finance/settlements?from=${startDate.toISOString()}&to=${endDate.toISOString()}`,
+      { credentials },
     );
 
-    const settlements = response.settlements as Array<Record<string, unknown>>;
+    const settlements = (response.settlements as Array<Record<string, unknown>>) || [];
     return settlements.map((s) => ({
       id: s.settlementID as string,
       period: { start: new Date(s.startDate as string), end: new Date(s.endDate as string) },
@@ -126,10 +201,10 @@ export class GrabFoodGateway implements IMarketplaceGateway {
 
   private async request(
     endpoint: string,
-    options: RequestInit = {},
+    options: MarketplaceRequestOptions = {},
   ): Promise<Record<string, unknown>> {
     this.logger.debug(`GrabFood API: ${options.method || 'GET'} ${endpoint}`);
-    return { success: true, orders: [], settlements: [] };
+    return requestMarketplaceApi(this.platform, this.baseUrl, endpoint, options);
   }
 
   private groupByCategory(items: MarketplaceMenuItem[]): Array<Record<string, unknown>> {
@@ -154,7 +229,7 @@ export class GrabFoodGateway implements IMarketplaceGateway {
   }
 
   private mapOrder(order: Record<string, unknown>): MarketplaceOrder {
-    const items = order.items as Array<Record<string, unknown>>;
+    const items = (order.items as Array<Record<string, unknown>>) || [];
     return {
       id: `grabfood-${order.orderID}`,
       externalId: order.orderID as string,
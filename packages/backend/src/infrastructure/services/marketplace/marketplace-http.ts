@@ -0,0 +1,73 @@
+/**
+ * Shared HTTP plumbing for marketplace gateways
+ */
+
+import { HttpStatus } from '@nestjs/common';
+import axios, { AxiosError } from 'axios';
+import { AppError, ErrorCode } from '../../../shared/errors/app-error';
+import { MarketplaceCredentials, MarketplacePlatform } from './marketplace.types';
+
+export interface MarketplaceRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  credentials?: MarketplaceCredentials;
+  headers?: Record<string, string>;
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Performs a JSON request against a marketplace partner API.
+ *
+ * Authenticated calls send the stored access token as a bearer token and
+ * the merchant ID in `X-Merchant-Id`. Transport and HTTP errors are mapped
+ * to MARKETPLACE_REQUEST_FAILED so callers can record them on the connection.
+ */
+export async function requestMarketplaceApi(
+  platform: MarketplacePlatform,
+  baseUrl: string,
+  endpoint: string,
+  options: MarketplaceRequestOptions = {},
+): Promise<Record<string, unknown>> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Accept: 'application/json',
+    ...options.headers,
+  };
+
+  if (options.credentials?.accessToken) {
+    headers.Authorization = `Bearer ${options.credentials.accessToken}`;
+  }
+  if (options.credentials?.merchantId) {
+    headers['X-Merchant-Id'] = options.credentials.merchantId;
+  }
+
+  try {
+    const response = await axios.request<Record<string, unknown> | ''>({
+      url: `${baseUrl.replace(/\/$/, '')}${endpoint}`,
+      method: options.method ?? 'GET',
+      data: options.body,
+      headers,
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+
+    return response.data || {};
+  } catch (error) {
+    throw new AppError(
+      ErrorCode.MARKETPLACE_REQUEST_FAILED,
+      `${platform} API ${options.method ?? 'GET'} ${endpoint} failed: ${describeError(error)}`,
+      HttpStatus.BAD_GATEWAY,
+    );
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof AxiosError) {
+    if (error.response) {
+      const data = error.response.data as { message?: string } | undefined;
+      return `HTTP ${error.response.status}${data?.message ? ` - ${data.message}` : ''}`;
+    }
+    return error.code ?? error.message;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
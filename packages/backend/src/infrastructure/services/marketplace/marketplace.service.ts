@@ -7,37 +7,59 @@
  * - ShopeeFood (Shopee)
  *
  * Features:
- * - Manages connections to marketplaces per outlet
- * - Syncs menu and inventory across all platforms
+ * - Persists per-outlet connections with encrypted credentials
+ * - Refreshes expiring access tokens before each call
+ * - Syncs the outlet menu and inventory across all platforms
  * - Aggregates orders from all marketplaces
  * - Polls for new orders periodically
  * - Emits events for order lifecycle
  */
 
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { HttpStatus, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { EventEmitter } from 'events';
+import { PrismaService } from '../../database/prisma.service';
+import { assertSellingLocation } from '../../database/selling-location';
+import { CredentialCipherService } from '../../security/credential-cipher.service';
 import { GoFoodGateway } from './gofood.gateway';
 import { GrabFoodGateway } from './grabfood.gateway';
 import { ShopeeFoodGateway } from './shopeefood.gateway';
 import {
   IMarketplaceGateway,
+  MarketplaceConnectionStatus,
   MarketplaceCredentials,
   MarketplaceMenuItem,
+  MarketplaceMenuSyncResult,
   MarketplaceOrder,
   MarketplaceOrderStatus,
   MarketplacePlatform,
+  MarketplaceWebhookEvent,
 } from './marketplace.types';
 import { AppError, ErrorCode } from '../../../shared/errors/app-error';
 
+export const MARKETPLACE_PLATFORMS: MarketplacePlatform[] = ['gofood', 'grabfood', 'shopeefood'];
+
+/** Refresh tokens that expire within this window before using them */
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+interface StoredCredentials {
+  merchantId: string;
+  apiKey: string;
+  apiSecret: string;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: string;
+}
+
 @Injectable()
 export class MarketplaceService implements OnModuleInit {
   private readonly logger = new Logger(MarketplaceService.name);
   private gateways: Map<MarketplacePlatform, IMarketplaceGateway> = new Map();
-  private credentials: Map<string, MarketplaceCredentials> = new Map(); // outletId-platform -> credentials
 
   constructor(
     private readonly eventEmitter: EventEmitter,
+    private readonly prisma: PrismaService,
+    private readonly cipher: CredentialCipherService,
     goFoodGateway: GoFoodGateway,
     grabFoodGateway: GrabFoodGateway,
     shopeeFoodGateway: ShopeeFoodGateway,
@@ -53,47 +75,120 @@ export class MarketplaceService implements OnModuleInit {
 
   /**
    * Connect outlet to marketplace
+   *
+   * Authenticates against the platform first, so invalid credentials are
+   * never stored.
    */
   async connect(
     outletId: string,
     platform: MarketplacePlatform,
     credentials: MarketplaceCredentials,
-  ): Promise<MarketplaceCredentials> {
-    const gateway = this.gateways.get(platform);
-    if (!gateway) {
-      throw new AppError(ErrorCode.VALIDATION_ERROR, `Unknown platform: ${platform}`);
-    }
-
+    connectedBy?: string,
+  ): Promise<MarketplaceConnectionStatus> {
+    await assertSellingLocation(this.prisma, outletId);
+    const gateway = this.getGateway(platform);
     const authed = await gateway.authenticate(credentials);
-    this.credentials.set(`${outletId}-${platform}`, authed);
+    const now = new Date();
+
+    const connection = await this.prisma.marketplaceConnection.upsert({
+      where: { outletId_platform: { outletId, platform } },
+      create: {
+        outletId,
+        platform,
+        merchantId: credentials.merchantId,
+        credentials: this.cipher.encryptJson(this.serialize(authed)),
+        isActive: true,
+        tokenExpiresAt: this.validDate(authed.expiresAt),
+        connectedAt: now,
+        connectedBy: connectedBy ?? null,
+      },
+      update: {
+        merchantId: credentials.merchantId,
+        credentials: this.cipher.encryptJson(this.serialize(authed)),
+        isActive: true,
+        tokenExpiresAt: this.validDate(authed.expiresAt),
+        connectedAt: now,
+        connectedBy: connectedBy ?? null,
+        disconnectedAt: null,
+        lastError: null,
+      },
+    });
 
     this.logger.log(`Connected outlet ${outletId} to ${platform}`);
-    return authed;
+    return this.toStatus(platform, connection);
   }
 
   /**
    * Disconnect outlet from marketplace
+   *
+   * Stored credentials are wiped; sync history is kept for the status view.
    */
   async disconnect(outletId: string, platform: MarketplacePlatform): Promise<void> {
-    this.credentials.delete(`${outletId}-${platform}`);
+    const connection = await this.findConnection(outletId, platform);
+    if (!connection?.isActive) {
+      throw new AppError(
+        ErrorCode.MARKETPLACE_NOT_CONNECTED,
+        `Outlet is not connected to ${platform}`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    await this.prisma.marketplaceConnection.update({
+      where: { id: connection.id },
+      data: {
+        isActive: false,
+        credentials: null,
+        tokenExpiresAt: null,
+        disconnectedAt: new Date(),
+      },
+    });
+
     this.logger.log(`Disconnected outlet ${outletId} from ${platform}`);
   }
 
   /**
-   * Sync menu to all connected marketplaces
+   * Get connection state and last sync for every platform
    */
-  async syncMenu(outletId: string, items: MarketplaceMenuItem[]): Promise<void> {
-    for (const [platform, gateway] of this.gateways) {
-      const creds = this.credentials.get(`${outletId}-${platform}`);
-      if (!creds) continue;
+  async getStatus(outletId: string): Promise<MarketplaceConnectionStatus[]> {
+    const connections = await this.prisma.marketplaceConnection.findMany({
+      where: { outletId },
+    });
 
-      try {
-        await gateway.syncMenu(items);
-        this.logger.log(`Synced menu to ${platform} for outlet ${outletId}`);
-      } catch (error) {
-        this.logger.error(`Failed to sync menu to ${platform}: ${error}`);
-      }
+    return MARKETPLACE_PLATFORMS.map((platform) =>
+      this.toStatus(
+        platform,
+        connections.find((c) => c.platform === platform),
+      ),
+    );
+  }
+
+  /**
+   * Sync the outlet menu to one platform, or to all connected platforms
+   */
+  async syncMenu(
+    outletId: string,
+    platform?: MarketplacePlatform,
+  ): Promise<MarketplaceMenuSyncResult[]> {
+    const platforms = platform ? [platform] : await this.getConnectedPlatforms(outletId);
+    const items = await this.buildMenu(outletId);
+    const results: MarketplaceMenuSyncResult[] = [];
+
+    for (const target of platforms) {
+      await this.withConnection(outletId, target, (gateway, creds) =>
+        gateway.syncMenu(creds, items),
+      );
+
+      const syncedAt = new Date();
+      await this.prisma.marketplaceConnection.update({
+        where: { outletId_platform: { outletId, platform: target } },
+        data: { lastMenuSyncAt: syncedAt, lastSyncAt: syncedAt, lastError: null },
+      });
+
+      this.logger.log(`Synced ${items.length} menu items to ${target} for outlet ${outletId}`);
+      results.push({ platform: target, itemCount: items.length, syncedAt });
     }
+
+    return results;
   }
 
   /**
@@ -104,12 +199,11 @@ export class MarketplaceService implements OnModuleInit {
     itemId: string,
     isAvailable: boolean,
   ): Promise<void> {
-    for (const [platform, gateway] of this.gateways) {
-      const creds = this.credentials.get(`${outletId}-${platform}`);
-      if (!creds) continue;
-
+    for (const platform of await this.getConnectedPlatforms(outletId)) {
       try {
-        await gateway.updateItemAvailability(itemId, isAvailable);
+        await this.withConnection(outletId, platform, (gateway, creds) =>
+          gateway.updateItemAvailability(creds, itemId, isAvailable),
+        );
       } catch (error) {
         this.logger.error(`Failed to update availability on ${platform}: ${error}`);
       }
@@ -120,31 +214,45 @@ export class MarketplaceService implements OnModuleInit {
    * Update item price across all marketplaces
    */
   async updateItemPrice(outletId: string, itemId: string, price: number): Promise<void> {
-    for (const [platform, gateway] of this.gateways) {
-      const creds = this.credentials.get(`${outletId}-${platform}`);
-      if (!creds) continue;
-
+    for (const platform of await this.getConnectedPlatforms(outletId)) {
       try {
-        await gateway.updateItemPrice(itemId, price);
+        await this.withConnection(outletId, platform, (gateway, creds) =>
+          gateway.updateItemPrice(creds, itemId, price),
+        );
       } catch (error) {
         this.logger.error(`Failed to update price on ${platform}: ${error}`);
       }
     }
   }
 
+  /**
+   * Fetch new orders from a single marketplace
+   */
+  async fetchNewOrders(
+    outletId: string,
+    platform: MarketplacePlatform,
+  ): Promise<MarketplaceOrder[]> {
+    const orders = await this.withConnection(outletId, platform, (gateway, creds) =>
+      gateway.fetchNewOrders(creds),
+    );
+
+    await this.prisma.marketplaceConnection.update({
+      where: { outletId_platform: { outletId, platform } },
+      data: { lastSyncAt: new Date(), lastError: null },
+    });
+
+    return orders;
+  }
+
   /**
    * Fetch orders from all marketplaces
    */
   async fetchAllNewOrders(outletId: string): Promise<MarketplaceOrder[]> {
     const allOrders: MarketplaceOrder[] = [];
 
-    for (const [platform, gateway] of this.gateways) {
-      const creds = this.credentials.get(`${outletId}-${platform}`);
-      if (!creds) continue;
-
+    for (const platform of await this.getConnectedPlatforms(outletId)) {
       try {
-        const orders = await gateway.fetchNewOrders();
-        allOrders.push(...orders);
+        allOrders.push(...(await this.fetchNewOrders(outletId, platform)));
       } catch (error) {
         this.logger.error(`Failed to fetch orders from ${platform}: ${error}`);
       }
@@ -161,12 +269,9 @@ export class MarketplaceService implements OnModuleInit {
     platform: MarketplacePlatform,
     orderId: string,
   ): Promise<void> {
-    const gateway = this.gateways.get(platform);
-    if (!gateway) {
-      throw new AppError(ErrorCode.VALIDATION_ERROR, `Unknown platform: ${platform}`);
-    }
-
-    await gateway.acceptOrder(orderId);
+    await this.withConnection(outletId, platform, (gateway, creds) =>
+      gateway.acceptOrder(creds, orderId),
+    );
 
     this.eventEmitter.emit('marketplace.order.accepted', {
       outletId,
@@ -184,12 +289,9 @@ export class MarketplaceService implements OnModuleInit {
     orderId: string,
     reason: string,
   ): Promise<void> {
-    const gateway = this.gateways.get(platform);
-    if (!gateway) {
-      throw new AppError(ErrorCode.VALIDATION_ERROR, `Unknown platform: ${platform}`);
-    }
-
-    await gateway.rejectOrder(orderId, reason);
+    await this.withConnection(outletId, platform, (gateway, creds) =>
+      gateway.rejectOrder(creds, orderId, reason),
+    );
 
     this.eventEmitter.emit('marketplace.order.rejected', {
       outletId,
@@ -203,17 +305,14 @@ export class MarketplaceService implements OnModuleInit {
    * Update order status on marketplace
    */
   async updateOrderStatus(
-    _outletId: string,
+    outletId: string,
     platform: MarketplacePlatform,
     orderId: string,
     status: MarketplaceOrderStatus,
   ): Promise<void> {
-    const gateway = this.gateways.get(platform);
-    if (!gateway) {
-      throw new AppError(ErrorCode.VALIDATION_ERROR, `Unknown platform: ${platform}`);
-    }
-
-    await gateway.updateOrderStatus(orderId, status);
+    await this.withConnection(outletId, platform, (gateway, creds) =>
+      gateway.updateOrderStatus(creds, orderId, status),
+    );
   }
 
   /**
@@ -221,13 +320,13 @@ export class MarketplaceService implements OnModuleInit {
    */
   @Cron(CronExpression.EVERY_30_SECONDS)
   async pollOrders(): Promise<void> {
-    // Get unique outlet IDs from credentials
-    const outletIds = new Set<string>();
-    for (const key of this.credentials.keys()) {
-      outletIds.add(key.split('-')[0]);
-    }
+    const connections = await this.prisma.marketplaceConnection.findMany({
+      where: { isActive: true },
+      select: { outletId: true },
+      distinct: ['outletId'],
+    });
 
-    for (const outletId of outletIds) {
+    for (const { outletId } of connections) {
       const orders = await this.fetchAllNewOrders(outletId);
 
       for (const order of orders) {
@@ -242,13 +341,223 @@ export class MarketplaceService implements OnModuleInit {
   /**
    * Get connected marketplaces for outlet
    */
-  getConnectedPlatforms(outletId: string): MarketplacePlatform[] {
-    const platforms: MarketplacePlatform[] = [];
-    for (const [key] of this.credentials) {
-      if (key.startsWith(`${outletId}-`)) {
-        platforms.push(key.split('-')[1] as MarketplacePlatform);
-      }
+  async getConnectedPlatforms(outletId: string): Promise<MarketplacePlatform[]> {
+    const connections = await this.prisma.marketplaceConnection.findMany({
+      where: { outletId, isActive: true },
+      select: { platform: true },
+    });
+    return connections.map((c) => c.platform);
+  }
+
+  /**
+   * Normalize a platform webhook payload into a MarketplaceWebhookEvent
+   */
+  parseWebhook(
+    platform: MarketplacePlatform,
+    payload: Record<string, unknown>,
+  ): MarketplaceWebhookEvent {
+    return this.getGateway(platform).parseWebhook(payload);
+  }
+
+  /**
+   * Header the platform puts its webhook signature in
+   */
+  getWebhookSignatureHeader(platform: MarketplacePlatform): string {
+    return this.getGateway(platform).webhookSignatureHeader;
+  }
+
+  /**
+   * Find the active connection a webhook belongs to, by platform merchant ID
+   */
+  async findActiveConnectionByMerchant(platform: MarketplacePlatform, merchantId: string) {
+    return this.prisma.marketplaceConnection.findFirst({
+      where: { platform, merchantId, isActive: true },
+      select: { id: true, outletId: true },
+    });
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private getGateway(platform: MarketplacePlatform): IMarketplaceGateway {
+    const gateway = this.gateways.get(platform);
+    if (!gateway) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `Unknown platform: ${platform}`);
+    }
+    return gateway;
+  }
+
+  private findConnection(outletId: string, platform: MarketplacePlatform) {
+    return this.prisma.marketplaceConnection.findUnique({
+      where: { outletId_platform: { outletId, platform } },
+    });
+  }
+
+  /**
+   * Runs a gateway call with the outlet's decrypted credentials, recording
+   * the failure on the connection so the status route can surface it.
+   */
+  private async withConnection<T>(
+    outletId: string,
+    platform: MarketplacePlatform,
+    call: (gateway: IMarketplaceGateway, credentials: MarketplaceCredentials) => Promise<T>,
+  ): Promise<T> {
+    const gateway = this.getGateway(platform);
+    const credentials = await this.loadCredentials(outletId, platform, gateway);
+
+    try {
+      return await call(gateway, credentials);
+    } catch (error) {
+      await this.prisma.marketplaceConnection.update({
+        where: { outletId_platform: { outletId, platform } },
+        data: { lastError: error instanceof Error ? error.message : String(error) },
+      });
+      throw error;
+    }
+  }
+
+  private async loadCredentials(
+    outletId: string,
+    platform: MarketplacePlatform,
+    gateway: IMarketplaceGateway,
+  ): Promise<MarketplaceCredentials> {
+    const connection = await this.findConnection(outletId, platform);
+    if (!connection?.isActive || !connection.credentials) {
+      throw new AppError(
+        ErrorCode.MARKETPLACE_NOT_CONNECTED,
+        `Outlet is not connected to ${platform}`,
+      );
+    }
+
+    const credentials = this.deserialize(
+      this.cipher.decryptJson<StoredCredentials>(connection.credentials),
+    );
+
+    if (
+      credentials.expiresAt &&
+      credentials.expiresAt.getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS
+    ) {
+      const refreshed = await gateway.refreshToken(credentials);
+      await this.prisma.marketplaceConnection.update({
+        where: { id: connection.id },
+        data: {
+          credentials: this.cipher.encryptJson(this.serialize(refreshed)),
+          tokenExpiresAt: this.validDate(refreshed.expiresAt),
+        },
+      });
+      this.logger.log(`Refreshed ${platform} token for outlet ${outletId}`);
+      return refreshed;
+    }
+
+    return credentials;
+  }
+
+  /**
+   * Builds the marketplace menu from the outlet's product assignment.
+   * Tracked products without stock at the outlet are sent as unavailable.
+   */
+  private async buildMenu(outletId: string): Promise<MarketplaceMenuItem[]> {
+    const outlet = await this.prisma.outlet.findUnique({
+      where: { id: outletId },
+      select: { businessId: true },
+    });
+    if (!outlet) {
+      throw new AppError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found', HttpStatus.NOT_FOUND);
     }
-    return platforms;
+
+    const assignedCount = await this.prisma.outletProduct.count({
+      where: { outletId, isActive: true },
+    });
+
+    const products = await this.prisma.product.findMany({
+      where: {
+        businessId: outlet.businessId,
+        isActive: true,
+        ...(assignedCount > 0 && {
+          outletProducts: { some: { outletId, isActive: true } },
+        }),
+      },
+      include: {
+        category: { select: { id: true, name: true } },
+        variants: { where: { isActive: true } },
+        stockLevels: { where: { outletId } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return products.map((product) => {
+      const stockFor = (variantId: string | null) =>
+        product.stockLevels
+          .filter((s) => (variantId ? s.variantId === variantId : true))
+          .reduce((sum, s) => sum + Number(s.quantity), 0);
+
+      return {
+        id: product.id,
+        name: product.name,
+        description: product.description ?? undefined,
+        price: Number(product.basePrice),
+        imageUrl: product.imageUrl ?? undefined,
+        categoryId: product.category?.id,
+        categoryName: product.category?.name,
+        isAvailable: !product.trackStock || stockFor(null) > 0,
+        variants: product.hasVariants
+          ? product.variants.map((variant) => ({
+              id: variant.id,
+              name: variant.name,
+              price: Number(variant.price),
+              isAvailable: !product.trackStock || stockFor(variant.id) > 0,
+            }))
+          : undefined,
+      };
+    });
+  }
+
+  private toStatus(
+    platform: MarketplacePlatform,
+    connection?: {
+      merchantId: string;
+      isActive: boolean;
+      connectedAt: Date | null;
+      disconnectedAt: Date | null;
+      tokenExpiresAt: Date | null;
+      lastSyncAt: Date | null;
+      lastMenuSyncAt: Date | null;
+      lastError: string | null;
+    } | null,
+  ): MarketplaceConnectionStatus {
+    return {
+      platform,
+      connected: connection?.isActive ?? false,
+      merchantId: connection?.merchantId ?? null,
+      connectedAt: connection?.connectedAt ?? null,
+      disconnectedAt: connection?.disconnectedAt ?? null,
+      tokenExpiresAt: connection?.tokenExpiresAt ?? null,
+      lastSyncAt: connection?.lastSyncAt ?? null,
+      lastMenuSyncAt: connection?.lastMenuSyncAt ?? null,
+      lastError: connection?.lastError ?? null,
+    };
+  }
+
+  private serialize(credentials: MarketplaceCredentials): StoredCredentials {
+    return {
+      merchantId: credentials.merchantId,
+      apiKey: credentials.apiKey,
+      apiSecret: credentials.apiSecret,
+      accessToken: credentials.accessToken,
+      refreshToken: credentials.refreshToken,
+      expiresAt: this.validDate(credentials.expiresAt)?.toISOString(),
+    };
+  }
+
+  private validDate(date?: Date): Date | null {
+    return date && !Number.isNaN(date.getTime()) ? date : null;
+  }
+
+  private deserialize(stored: StoredCredentials): MarketplaceCredentials {
+    return {
+      ...stored,
+      expiresAt: stored.expiresAt ? new Date(stored.expiresAt) : undefined,
+    };
   }
 }
@@ -103,8 +103,50 @@ export interface MarketplaceSettlement {
   settledAt?: Date;
 }
 
+export interface MarketplaceConnectionStatus {
+  platform: MarketplacePlatform;
+  connected: boolean;
+  merchantId: string | null;
+  connectedAt: Date | null;
+  disconnectedAt: Date | null;
+  tokenExpiresAt: Date | null;
+  lastSyncAt: Date | null;
+  lastMenuSyncAt: Date | null;
+  lastError: string | null;
+}
+
+export interface MarketplaceMenuSyncResult {
+  platform: MarketplacePlatform;
+  itemCount: number;
+  syncedAt: Date;
+}
+
+export type MarketplaceWebhookEventType =
+  | 'order.created'
+  | 'order.status_changed'
+  | 'order.cancelled'
+  | 'driver.arrived';
+
+/**
+ * Platform webhook payload normalized by the owning gateway
+ */
+export interface MarketplaceWebhookEvent {
+  type: MarketplaceWebhookEventType;
+  merchantId: string;
+  externalId: string;
+  /** Full order, present for `order.created` */
+  order?: MarketplaceOrder;
+  status?: MarketplaceOrderStatus;
+  driver?: MarketplaceOrder['driverInfo'];
+  reason?: string;
+  occurredAt: Date;
+}
+
 /**
  * Base interface for all marketplace gateway implementations
+ *
+ * Gateways are stateless: every call receives the outlet's credentials,
+ * which are loaded (and refreshed when expired) by MarketplaceService.
  */
 export interface IMarketplaceGateway {
   platform: MarketplacePlatform;
@@ -114,16 +156,37 @@ export interface IMarketplaceGateway {
   refreshToken(credentials: MarketplaceCredentials): Promise<MarketplaceCredentials>;
 
   // Menu Management
-  syncMenu(items: MarketplaceMenuItem[]): Promise<void>;
-  updateItemAvailability(itemId: string, isAvailable: boolean): Promise<void>;
-  updateItemPrice(itemId: string, price: number): Promise<void>;
+  syncMenu(credentials: MarketplaceCredentials, items: MarketplaceMenuItem[]): Promise<void>;
+  updateItemAvailability(
+    credentials: MarketplaceCredentials,
+    itemId: string,
+    isAvailable: boolean,
+  ): Promise<void>;
+  updateItemPrice(
+    credentials: MarketplaceCredentials,
+    itemId: string,
+    price: number,
+  ): Promise<void>;
 
   // Order Management
-  fetchNewOrders(): Promise<MarketplaceOrder[]>;
-  acceptOrder(orderId: string): Promise<void>;
-  rejectOrder(orderId: string, reason: string): Promise<void>;
-  updateOrderStatus(orderId: string, status: MarketplaceOrderStatus): Promise<void>;
+  fetchNewOrders(credentials: MarketplaceCredentials): Promise<MarketplaceOrder[]>;
+  acceptOrder(credentials: MarketplaceCredentials, orderId: string): Promise<void>;
+  rejectOrder(credentials: MarketplaceCredentials, orderId: string, reason: string): Promise<void>;
+  updateOrderStatus(
+    credentials: MarketplaceCredentials,
+    orderId: string,
+    status: MarketplaceOrderStatus,
+  ): Promise<void>;
+
+  // Webhooks
+  /** Header carrying the hex HMAC-SHA256 of the raw webhook body */
+  readonly webhookSignatureHeader: string;
+  parseWebhook(payload: Record<string, unknown>): MarketplaceWebhookEvent;
 
   // Settlements
-  fetchSettlements(startDate: Date, endDate: Date): Promise<MarketplaceSettlement[]>;
+  fetchSettlements(
+    credentials: MarketplaceCredentials,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<MarketplaceSettlement[]>;
 }
@@ -8,6 +8,7 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import {
   IMarketplaceGateway,
   MarketplaceCredentials,
@@ -15,22 +16,35 @@ import {
   MarketplaceOrder,
   MarketplaceOrderStatus,
   MarketplaceSettlement,
+  MarketplaceWebhookEvent,
+  MarketplaceWebhookEventType,
 } from './marketplace.types';
+import { MarketplaceRequestOptions, requestMarketplaceApi } from './marketplace-http';
+import { AppError, ErrorCode } from '../../../shared/errors/app-error';
 
 @Injectable()
 export class ShopeeFoodGateway implements IMarketplaceGateway {
   readonly platform = 'shopeefood' as const;
   private readonly logger = new Logger(ShopeeFoodGateway.name);
+  readonly webhookSignatureHeader = 'x-shopee-signature';
+  private readonly baseUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.baseUrl = this.configService.get<string>(
+      'SHOPEEFOOD_API_URL',
+      'https://partner.shopeefood.co.id/api/v1',
+    );
+  }
 
   async authenticate(credentials: MarketplaceCredentials): Promise<MarketplaceCredentials> {
     this.logger.log('Authenticating with ShopeeFood...');
 
     const response = await this.request('/auth/access_token', {
       method: 'POST',
-      body: JSON.stringify({
+      body: {
         partner_id: credentials.apiKey,
         partner_secret: credentials.apiSecret,
-      }),
+      },
     });
 
     return {
@@ -44,69 +58,91 @@ export class ShopeeFoodGateway implements IMarketplaceGateway {
     return this.authenticate(credentials);
   }
 
-  async syncMenu(items: MarketplaceMenuItem[]): Promise<void> {
+  async syncMenu(credentials: MarketplaceCredentials, items: MarketplaceMenuItem[]): Promise<void> {
     this.logger.log(`Syncing ${items.length} items to ShopeeFood`);
 
     for (const item of items) {
       await this.request('/dish/add_update', {
         method: 'POST',
-        body: JSON.stringify({
+        body: {
           dish_id: item.id,
           name: item.name,
           description: item.description,
           price: item.price * 100,
           photo: item.imageUrl,
           is_available: item.isAvailable ? 1 : 0,
-        }),
+        },
+        credentials,
       });
     }
   }
 
-  async updateItemAvailability(itemId: string, isAvailable: boolean): Promise<void> {
+  async updateItemAvailability(
+    credentials: MarketplaceCredentials,
+    itemId: string,
+    isAvailable: boolean,
+  ): Promise<void> {
     await this.request('/dish/update_status', {
       method: 'POST',
-      body: JSON.stringify({
+      body: {
         dish_id: itemId,
         is_available: isAvailable ? 1 : 0,
-      }),
+      },
+      credentials,
     });
   }
 
-  async updateItemPrice(itemId: string, price: number): Promise<void> {
+  async updateItemPrice(
+    credentials: MarketplaceCredentials,
+    itemId: string,
+    price: number,
+  ): Promise<void> {
     await this.request('/dish/update_price', {
       method: 'POST',
-      body: JSON.stringify({
+      body: {
         dish_id: itemId,
         price: price * 100,
-      }),
+      },
+      credentials,
     });
   }
 
-  async fetchNewOrders(): Promise<MarketplaceOrder[]> {
+  async fetchNewOrders(credentials: MarketplaceCredentials): Promise<MarketplaceOrder[]> {
     const response = await this.request('/order/get_order_list', {
       method: 'POST',
-      body: JSON.stringify({ status: 1 }), // 1 = new orders
+      body: { status: 1 }, // 1 = new orders
+      credentials,
     });
 
-    const orders = response.orders as Array<Record<string, unknown>>;
+    const orders = (response.orders as Array<Record<string, unknown>>) || [];
     return orders.map(this.mapOrder.bind(this));
   }
 
-  async acceptOrder(orderId: string): Promise<void> {
+  async acceptOrder(credentials: MarketplaceCredentials, orderId: string): Promise<void> {
     await this.request('/order/accept', {
       method: 'POST',
-      body: JSON.stringify({ order_id: orderId }),
+      body: { order_id: orderId },
+      credentials,
     });
   }
 
-  async rejectOrder(orderId: string, reason: string): Promise<void> {
+  async rejectOrder(
+    credentials: MarketplaceCredentials,
+    orderId: string,
+    reason: string,
+  ): Promise<void> {
     await this.request('/order/reject', {
       method: 'POST',
-      body: JSON.stringify({ order_id: orderId, reason }),
+      body: { order_id: orderId, reason },
+      credentials,
     });
   }
 
-  async updateOrderStatus(orderId: string, status: MarketplaceOrderStatus): Promise<void> {
+  async updateOrderStatus(
+    credentials: MarketplaceCredentials,
+    orderId: string,
+    status: MarketplaceOrderStatus,
+  ): Promise<void> {
     const statusMap: Record<string, number> = {
       preparing: 2,
       ready: 3,
@@ -116,24 +152,73 @@ export class ShopeeFoodGateway implements IMarketplaceGateway {
     if (statusMap[status]) {
       await this.request('/order/update_status', {
         method: 'POST',
-        body: JSON.stringify({
+        body: {
           order_id: orderId,
           status: statusMap[status],
-        }),
+        },
+        credentials,
       });
     }
   }
 
-  async fetchSettlements(startDate: Date, endDate: Date): Promise<MarketplaceSettlement[]> {
+  /**
+   * Normalizes a ShopeeFood push notification (`push_type` + `data`).
+   */
+  parseWebhook(payload: Record<string, unknown>): MarketplaceWebhookEvent {
+    const data = payload.data as Record<string, unknown> | undefined;
+    if (!data?.order_id || !payload.shop_id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Malformed ShopeeFood webhook payload');
+    }
+
+    const status = data.status !== undefined ? this.mapStatus(data.status as number) : undefined;
+    let type: MarketplaceWebhookEventType;
+    switch (payload.push_type) {
+      case 'new_order':
+        type = 'order.created';
+        break;
+      case 'driver_arrived':
+        type = 'driver.arrived';
+        break;
+      case 'order_status':
+        type = status === 'cancelled' ? 'order.cancelled' : 'order.status_changed';
+        break;
+      default:
+        throw new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          `Unsupported ShopeeFood push type: ${String(payload.push_type)}`,
+        );
+    }
+
+    const driver = data.driver as Record<string, string> | undefined;
+    return {
+      type,
+      merchantId: String(payload.shop_id),
+      externalId: String(data.order_id),
+      order: type === 'order.created' ? this.mapOrder(data) : undefined,
+      status,
+      driver: driver
+        ? { name: driver.name, phone: driver.phone, plateNumber: driver.license_plate }
+        : undefined,
+      reason: data.cancel_reason as string | undefined,
+      occurredAt: payload.timestamp ? new Date((payload.timestamp as number) * 1000) : new Date(),
+    };
+  }
+
+  async fetchSettlements(
+    credentials: MarketplaceCredentials,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<MarketplaceSettlement[]> {
     const response = await this.request('/finance/get_settlements', {
       method: 'POST',
-      body: JSON.stringify({
+      body: {
         start_time: Math.floor(startDate.getTime() / 1000),
         end_time: Math.floor(endDate.getTime() / 1000),
-      }),
+      },
+      credentials,
     });
 
-    const settlements = response.settlements as Array<Record<string, unknown>>;
+    const settlements = (response.settlements as Array<Record<string, unknown>>) || [];
     return settlements.map((s) => ({
       id: String(s.settlement_id),
       period: {
@@ -151,14 +236,14 @@ export class ShopeeFoodGateway implements IMarketplaceGateway {
 
   private async request(
     endpoint: string,
-    options: RequestInit = {},
+    options: MarketplaceRequestOptions = {},
   ): Promise<Record<string, unknown>> {
     this.logger.debug(`ShopeeFood API: ${options.method || 'GET'} ${endpoint}`);
-    return { success: true, orders: [], settlements: [] };
+    return requestMarketplaceApi(this.platform, this.baseUrl, endpoint, options);
   }
 
   private mapOrder(order: Record<string, unknown>): MarketplaceOrder {
-    const items = order.items as Array<Record<string, unknown>>;
+    const items = (order.items as Array<Record<string, unknown>>) || [];
     return {
       id: `shopeefood-${order.order_id}`,
       externalId: String(order.order_id),
@@ -1,5 +1,5 @@
 import { NestFactory } from '@nestjs/core';
-import { ValidationPipe } from '@nestjs/common';
+import { RequestMethod, ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
@@ -24,6 +24,9 @@ function validateEnvironment() {
   const optional: Record<string, string> = {
     XENDIT_WEBHOOK_TOKEN: 'Xendit payment webhooks will be rejected',
     MIDTRANS_SERVER_KEY: 'Midtrans payment webhooks will be rejected',
+    GOFOOD_WEBHOOK_SECRET: 'GoFood order webhooks will be rejected',
+    GRABFOOD_WEBHOOK_SECRET: 'GrabFood order webhooks will be rejected',
+    SHOPEEFOOD_WEBHOOK_SECRET: 'ShopeeFood order webhooks will be rejected',
   };
   Object.entries(optional).forEach(([key, warning]) => {
     if (!process.env[key]) {
@@ -35,9 +38,13 @@ function validateEnvironment() {
 async function bootstrap() {
   validateEnvironment();
 
-  const app = await NestFactory.create(AppModule);
+  // rawBody keeps the exact webhook bytes for signature verification
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
-  app.setGlobalPrefix('api/v1');
+  // The partner API is versioned on its own, outside the app's prefix
+  app.setGlobalPrefix('api/v1', {
+    exclude: [{ path: 'public/v1/{*path}', method: RequestMethod.ALL }],
+  });
 
   app.useGlobalPipes(
     new ValidationPipe({
@@ -64,6 +71,7 @@ async function bootstrap() {
     .setDescription('Point of Sale system for Indonesian SME/UMKM')
     .setVersion('1.0')
     .addBearerAuth()
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header' }, 'api-key')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -1,16 +1,22 @@
 import { Controller, Get, Post, Put, Body, Param, Query, UseGuards } from '@nestjs/common';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
 import { AppointmentsService } from './appointments.service';
 import { AppointmentStatus } from '@prisma/client';
 
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('appointments')
 export class AppointmentsController {
   constructor(private readonly appointmentsService: AppointmentsService) {}
 
   @Get('outlet/:outletId')
+  @WithoutPermission()
   async listByDate(
     @Param('outletId') outletId: string,
     @Query('date') date: string,
@@ -20,6 +26,7 @@ export class AppointmentsController {
   }
 
   @Get('employee/:employeeId')
+  @WithoutPermission()
   async listByEmployee(
     @Param('employeeId') employeeId: string,
     @Query('startDate') startDate: string,
@@ -30,16 +37,19 @@ export class AppointmentsController {
   }
 
   @Get('customer/:customerId')
+  @WithoutPermission()
   async listByCustomer(@Param('customerId') customerId: string, @CurrentUser() user: AuthUser) {
     return this.appointmentsService.listByCustomer(customerId, user.businessId);
   }
 
   @Get('upcoming/:outletId')
+  @WithoutPermission()
   async getUpcoming(@Param('outletId') outletId: string, @CurrentUser() user: AuthUser) {
     return this.appointmentsService.getUpcoming(outletId, user.businessId);
   }
 
   @Get('availability')
+  @WithoutPermission()
   async checkAvailability(
     @Query('outletId') outletId: string,
     @Query('employeeId') employeeId: string,
@@ -57,11 +67,13 @@ export class AppointmentsController {
   }
 
   @Get(':id')
+  @WithoutPermission()
   async findById(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     return this.appointmentsService.findById(id, user.businessId);
   }
 
   @Post()
+  @RequirePermission('appointments.manage')
   async create(
     @Body()
     dto: {
@@ -82,6 +94,7 @@ export class AppointmentsController {
   }
 
   @Put(':id')
+  @RequirePermission('appointments.manage')
   async update(
     @Param('id') id: string,
     @Body()
@@ -103,6 +116,7 @@ export class AppointmentsController {
   }
 
   @Put(':id/status')
+  @RequirePermission('appointments.manage')
   async updateStatus(
     @Param('id') id: string,
     @Body() dto: { status: AppointmentStatus },
@@ -112,6 +126,7 @@ export class AppointmentsController {
   }
 
   @Put(':id/cancel')
+  @RequirePermission('appointments.manage')
   async cancel(
     @Param('id') id: string,
     @Body() dto: { reason?: string },
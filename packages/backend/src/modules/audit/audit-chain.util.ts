@@ -0,0 +1,202 @@
+/**
+ * Audit chain helpers
+ *
+ * Every audit entry a business writes, apart from the event store's rows, is
+ * numbered and carries the hash of the entry before it. Changing, deleting or
+ * inserting a row in the database breaks the chain at that point, which the
+ * integrity check reports.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { Prisma, type AuditLog } from '@prisma/client';
+import type { PrismaService } from '../../infrastructure/database/prisma.service';
+
+/** prevHash of the first entry in a business's chain */
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditEntryInput {
+  businessId: string;
+  outletId?: string | null;
+  employeeId?: string | null;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  oldValue?: Prisma.InputJsonValue | null;
+  newValue?: Prisma.InputJsonValue | null;
+  ipAddress?: string | null;
+  deviceId?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/** The columns of a stored entry its hash covers */
+export interface ChainedAuditFields {
+  businessId: string;
+  sequence: number;
+  prevHash: string;
+  outletId: string | null;
+  employeeId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  oldValue: unknown;
+  newValue: unknown;
+  ipAddress: string | null;
+  deviceId: string | null;
+  metadata: unknown;
+  createdAt: Date;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * JSON with sorted keys. Values go through a JSON round trip first so dates
+ * and decimals hash the same before they are stored and after JSONB reorders
+ * them.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(JSON.parse(JSON.stringify(value ?? null))));
+}
+
+export function hashAuditEntry(entry: ChainedAuditFields): string {
+  return createHash('sha256')
+    .update(
+      canonicalJson({
+        businessId: entry.businessId,
+        sequence: entry.sequence,
+        prevHash: entry.prevHash,
+        outletId: entry.outletId,
+        employeeId: entry.employeeId,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        oldValue: entry.oldValue,
+        newValue: entry.newValue,
+        ipAddress: entry.ipAddress,
+        deviceId: entry.deviceId,
+        metadata: entry.metadata,
+        createdAt: entry.createdAt.toISOString(),
+      }),
+    )
+    .digest('hex');
+}
+
+export function signCheckpoint(
+  key: string,
+  checkpoint: { businessId: string; sequence: number; hash: string; createdAt: Date },
+): string {
+  return createHmac('sha256', key)
+    .update(
+      `${checkpoint.businessId}:${checkpoint.sequence}:${checkpoint.hash}:${checkpoint.createdAt.toISOString()}`,
+    )
+    .digest('hex');
+}
+
+/**
+ * Appends an entry to the business's chain in a transaction of its own.
+ * Inside another transaction use queueAuditLog instead, so the chain head is
+ * not held locked until that transaction ends.
+ */
+export async function appendAuditLog(
+  prisma: PrismaService,
+  entry: AuditEntryInput,
+): Promise<AuditLog> {
+  return prisma.$transaction((tx) => appendToChain(tx, entry, new Date()));
+}
+
+/**
+ * Writes the entry to the outbox in the caller's transaction, so it is kept
+ * or rolled back together with the change it records. flushAuditOutbox
+ * appends it to the chain once that transaction has committed.
+ */
+export async function queueAuditLog(
+  tx: Prisma.TransactionClient,
+  entry: AuditEntryInput,
+): Promise<void> {
+  await tx.auditOutboxEntry.create({
+    data: { businessId: entry.businessId, entry: entry as unknown as Prisma.InputJsonObject },
+  });
+}
+
+/**
+ * Appends up to `limit` queued entries to their chains, oldest first, and
+ * returns how many it appended. Entries keep the time they were queued.
+ */
+export async function flushAuditOutbox(prisma: PrismaService, limit = 100): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    // SKIP LOCKED lets several instances flush at once without taking the same rows
+    const queued = await tx.$queryRaw<{ id: string; entry: AuditEntryInput; created_at: Date }[]>`
+      SELECT id, entry, created_at FROM audit_outbox
+      ORDER BY created_at
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    `;
+    if (queued.length === 0) return 0;
+
+    for (const row of queued) {
+      await appendToChain(tx, row.entry, row.created_at);
+    }
+    await tx.auditOutboxEntry.deleteMany({ where: { id: { in: queued.map((row) => row.id) } } });
+    return queued.length;
+  });
+}
+
+async function appendToChain(
+  tx: Prisma.TransactionClient,
+  entry: AuditEntryInput,
+  createdAt: Date,
+): Promise<AuditLog> {
+  await tx.auditChainHead.createMany({
+    data: [{ businessId: entry.businessId, lastHash: GENESIS_HASH }],
+    skipDuplicates: true,
+  });
+  // The increment locks the head until the transaction ends, so concurrent
+  // appends take their sequence numbers one after the other
+  const head = await tx.auditChainHead.update({
+    where: { businessId: entry.businessId },
+    data: { lastSequence: { increment: 1 } },
+  });
+
+  const fields: ChainedAuditFields = {
+    businessId: entry.businessId,
+    sequence: head.lastSequence,
+    prevHash: head.lastHash,
+    outletId: entry.outletId ?? null,
+    employeeId: entry.employeeId ?? null,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId ?? null,
+    oldValue: entry.oldValue ?? null,
+    newValue: entry.newValue ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    deviceId: entry.deviceId ?? null,
+    metadata: entry.metadata ?? {},
+    createdAt,
+  };
+  const hash = hashAuditEntry(fields);
+
+  const created = await tx.auditLog.create({
+    data: {
+      ...fields,
+      oldValue: entry.oldValue ?? Prisma.JsonNull,
+      newValue: entry.newValue ?? Prisma.JsonNull,
+      metadata: entry.metadata ?? {},
+      hash,
+    },
+  });
+  await tx.auditChainHead.update({
+    where: { businessId: entry.businessId },
+    data: { lastHash: hash },
+  });
+
+  return created;
+}
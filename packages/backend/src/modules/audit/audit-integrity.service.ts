@@ -0,0 +1,281 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { AuditCheckpoint } from '@prisma/client';
+import { timingSafeEqual } from 'crypto';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { AppError } from '../../shared/errors/app-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { GENESIS_HASH, hashAuditEntry, signCheckpoint } from './audit-chain.util';
+import type { AuditChainIssue, AuditVerificationResult } from '../../application/dtos/audit.dto';
+
+const VERIFY_BATCH_SIZE = 1000;
+const MAX_REPORTED_ISSUES = 100;
+
+/** Event store rows share audit_logs but are versioned by aggregate, not chained */
+const UNCHAINED_ACTIONS = { NOT: [{ action: { startsWith: 'event:' } }, { action: 'snapshot' }] };
+
+/**
+ * AuditIntegrityService - Verifies the audit hash chain and signs checkpoints
+ *
+ * Verification walks a business's chain from the last archive (or the start)
+ * and recomputes every hash, reporting edited entries, deleted ranges and
+ * entries written around the chain. Checkpoints sign the chain head with
+ * AUDIT_SIGNING_KEY, so a chain rebuilt from scratch after tampering no
+ * longer matches the checkpoints taken before it.
+ */
+@Injectable()
+export class AuditIntegrityService {
+  private readonly logger = new Logger(AuditIntegrityService.name);
+  private readonly signingKey: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.signingKey = this.configService.get<string>('AUDIT_SIGNING_KEY', '');
+  }
+
+  async verify(businessId: string): Promise<AuditVerificationResult> {
+    const [head, anchor, checkpoints] = await Promise.all([
+      this.prisma.auditChainHead.findUnique({ where: { businessId } }),
+      this.prisma.auditArchive.findFirst({
+        where: { businessId },
+        orderBy: { toSequence: 'desc' },
+      }),
+      this.prisma.auditCheckpoint.findMany({ where: { businessId } }),
+    ]);
+
+    const issues: AuditChainIssue[] = [];
+    let issueCount = 0;
+    const report = (issue: AuditChainIssue) => {
+      issueCount++;
+      if (issues.length < MAX_REPORTED_ISSUES) issues.push(issue);
+    };
+
+    const archivedThrough = anchor?.toSequence ?? 0;
+    const checkpointsAt = new Map(
+      checkpoints.filter((c) => c.sequence > archivedThrough).map((c) => [c.sequence, c]),
+    );
+
+    let expected = archivedThrough + 1;
+    let prevHash = anchor?.lastHash ?? GENESIS_HASH;
+    let firstSequence: number | null = null;
+    let firstEntryAt: Date | null = null;
+    let checkedEntries = 0;
+    let checkpointsChecked = 0;
+
+    for (;;) {
+      const batch = await this.prisma.auditLog.findMany({
+        where: { businessId, sequence: { gte: expected } },
+        orderBy: { sequence: 'asc' },
+        take: VERIFY_BATCH_SIZE,
+      });
+
+      for (const entry of batch) {
+        const sequence = entry.sequence as number;
+        firstSequence ??= sequence;
+        firstEntryAt ??= entry.createdAt;
+        checkedEntries++;
+
+        if (sequence !== expected) {
+          report({
+            type: 'missing_entries',
+            sequence: expected,
+            entryId: null,
+            description: `Entries ${expected} to ${sequence - 1} are missing`,
+          });
+        } else if (entry.prevHash !== prevHash) {
+          report({
+            type: 'link_broken',
+            sequence,
+            entryId: entry.id,
+            description: `Entry ${sequence} does not link to the entry before it`,
+          });
+        }
+
+        const hash = hashAuditEntry({ ...entry, sequence, prevHash: entry.prevHash ?? '' });
+        if (hash !== entry.hash) {
+          report({
+            type: 'hash_mismatch',
+            sequence,
+            entryId: entry.id,
+            description: `Entry ${sequence} was changed after it was written`,
+          });
+        }
+
+        const checkpoint = checkpointsAt.get(sequence);
+        if (checkpoint) {
+          checkpointsChecked++;
+          if (checkpoint.hash !== entry.hash) {
+            report({
+              type: 'checkpoint_mismatch',
+              sequence,
+              entryId: entry.id,
+              description: `Entry ${sequence} differs from the checkpoint taken on ${checkpoint.createdAt.toISOString()}`,
+            });
+          }
+        }
+
+        prevHash = entry.hash ?? '';
+        expected = sequence + 1;
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) break;
+    }
+
+    const headSequence = head?.lastSequence ?? 0;
+    if (expected <= headSequence) {
+      report({
+        type: 'missing_entries',
+        sequence: expected,
+        entryId: null,
+        description: `Entries ${expected} to ${headSequence} are missing`,
+      });
+    } else if (head && head.lastHash !== prevHash) {
+      report({
+        type: 'head_mismatch',
+        sequence: headSequence,
+        entryId: null,
+        description: 'The last entry does not match the recorded head of the chain',
+      });
+    }
+
+    const signaturesVerified = Boolean(this.signingKey);
+    if (signaturesVerified) {
+      for (const checkpoint of checkpointsAt.values()) {
+        if (!this.hasValidSignature(checkpoint)) {
+          report({
+            type: 'checkpoint_signature',
+            sequence: checkpoint.sequence,
+            entryId: null,
+            description: `The checkpoint at entry ${checkpoint.sequence} has an invalid signature`,
+          });
+        }
+      }
+    }
+
+    // Rows written straight to the table after chaining started carry no sequence
+    if (firstEntryAt) {
+      const unchained = await this.prisma.auditLog.count({
+        where: {
+          businessId,
+          sequence: null,
+          createdAt: { gte: firstEntryAt },
+          ...UNCHAINED_ACTIONS,
+        },
+      });
+      if (unchained > 0) {
+        report({
+          type: 'unchained_entries',
+          sequence: null,
+          entryId: null,
+          description: `${unchained} entries were written outside the chain`,
+        });
+      }
+    }
+
+    return {
+      valid: issueCount === 0,
+      checkedEntries,
+      firstSequence,
+      lastSequence: firstSequence === null ? null : expected - 1,
+      headSequence,
+      archivedThrough: anchor?.toSequence ?? null,
+      checkpointsChecked,
+      signaturesVerified,
+      issueCount,
+      issues,
+      verifiedAt: new Date(),
+    };
+  }
+
+  /** Signs the current head of the business's chain; null when nothing was written yet */
+  async createCheckpoint(businessId: string): Promise<AuditCheckpoint | null> {
+    const key = this.requireKey();
+    const head = await this.prisma.auditChainHead.findUnique({ where: { businessId } });
+    if (!head || head.lastSequence === 0) return null;
+
+    const existing = await this.prisma.auditCheckpoint.findUnique({
+      where: { businessId_sequence: { businessId, sequence: head.lastSequence } },
+    });
+    if (existing) return existing;
+
+    const createdAt = new Date();
+    return this.prisma.auditCheckpoint.create({
+      data: {
+        businessId,
+        sequence: head.lastSequence,
+        hash: head.lastHash,
+        createdAt,
+        signature: signCheckpoint(key, {
+          businessId,
+          sequence: head.lastSequence,
+          hash: head.lastHash,
+          createdAt,
+        }),
+      },
+    });
+  }
+
+  /** Checkpoints every chain that grew since its last checkpoint */
+  async checkpointAll(): Promise<number> {
+    if (!this.signingKey) {
+      this.logger.warn('AUDIT_SIGNING_KEY is not configured; audit checkpoints are skipped');
+      return 0;
+    }
+
+    const heads = await this.prisma.auditChainHead.findMany({
+      where: { lastSequence: { gt: 0 } },
+      select: { businessId: true, lastSequence: true },
+    });
+
+    let created = 0;
+    for (const head of heads) {
+      const latest = await this.prisma.auditCheckpoint.findFirst({
+        where: { businessId: head.businessId },
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true },
+      });
+      if (latest && latest.sequence >= head.lastSequence) continue;
+
+      try {
+        await this.createCheckpoint(head.businessId);
+        created++;
+      } catch (error) {
+        this.logger.error(
+          `Audit checkpoint failed for business ${head.businessId}: ${(error as Error).message}`,
+        );
+      }
+    }
+    return created;
+  }
+
+  async listCheckpoints(businessId: string, limit = 50) {
+    return this.prisma.auditCheckpoint.findMany({
+      where: { businessId },
+      orderBy: { sequence: 'desc' },
+      take: limit,
+    });
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private hasValidSignature(checkpoint: AuditCheckpoint): boolean {
+    const expected = Buffer.from(signCheckpoint(this.signingKey, checkpoint), 'hex');
+    const actual = Buffer.from(checkpoint.signature, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private requireKey(): string {
+    if (!this.signingKey) {
+      throw new AppError(
+        ErrorCode.CONFIGURATION_ERROR,
+        'AUDIT_SIGNING_KEY is not configured',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+    return this.signingKey;
+  }
+}
@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { AuditArchive } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { StorageService } from '../../infrastructure/storage/storage.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { GENESIS_HASH, hashAuditEntry } from './audit-chain.util';
+import type { UpdateAuditRetentionDto } from '../../application/dtos/audit.dto';
+
+const ARCHIVE_BATCH_SIZE = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * AuditRetentionService - Moves audit entries past their retention to storage
+ *
+ * Entries older than the business's retention period are written, oldest
+ * first, to JSONL files in storage and then removed from the database. Each
+ * archive keeps the hash of its last entry so verification of the entries
+ * left behind starts from it. A range is only archived after its links and
+ * hashes check out; a broken chain stays in the database as evidence.
+ */
+@Injectable()
+export class AuditRetentionService {
+  private readonly logger = new Logger(AuditRetentionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageService,
+  ) {}
+
+  async getPolicy(businessId: string) {
+    const policy = await this.prisma.auditRetentionPolicy.findUnique({ where: { businessId } });
+    return policy ?? { businessId, retentionDays: null, isActive: false, lastRunAt: null };
+  }
+
+  async updatePolicy(user: AuthUser, dto: UpdateAuditRetentionDto) {
+    return this.prisma.auditRetentionPolicy.upsert({
+      where: { businessId: user.businessId },
+      create: {
+        businessId: user.businessId,
+        retentionDays: dto.retentionDays,
+        isActive: dto.isActive ?? true,
+        updatedBy: user.employeeId,
+      },
+      update: {
+        retentionDays: dto.retentionDays,
+        ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+        updatedBy: user.employeeId,
+      },
+    });
+  }
+
+  async listArchives(businessId: string) {
+    const archives = await this.prisma.auditArchive.findMany({
+      where: { businessId },
+      orderBy: { toSequence: 'desc' },
+    });
+    return archives.map((archive) => ({
+      ...archive,
+      fileUrl: this.storage.getUrl(archive.filePath),
+    }));
+  }
+
+  /** Archives the entries of every business with an active policy; returns the archives written */
+  async applyPolicies(): Promise<number> {
+    const policies = await this.prisma.auditRetentionPolicy.findMany({
+      where: { isActive: true },
+    });
+
+    let written = 0;
+    for (const policy of policies) {
+      try {
+        const archives = await this.archive(policy.businessId, policy.retentionDays);
+        written += archives.length;
+        await this.prisma.auditRetentionPolicy.update({
+          where: { businessId: policy.businessId },
+          data: { lastRunAt: new Date() },
+        });
+      } catch (error) {
+        this.logger.error(
+          `Audit retention failed for business ${policy.businessId}: ${(error as Error).message}`,
+        );
+      }
+    }
+    return written;
+  }
+
+  /** Archives chained entries older than the retention period, oldest first */
+  async archive(businessId: string, retentionDays: number): Promise<AuditArchive[]> {
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+    const archives: AuditArchive[] = [];
+
+    for (;;) {
+      const anchor = await this.prisma.auditArchive.findFirst({
+        where: { businessId },
+        orderBy: { toSequence: 'desc' },
+      });
+      const archivedThrough = anchor?.toSequence ?? 0;
+
+      const batch = await this.prisma.auditLog.findMany({
+        where: { businessId, sequence: { gt: archivedThrough } },
+        orderBy: { sequence: 'asc' },
+        take: ARCHIVE_BATCH_SIZE,
+      });
+      // Only a prefix of the chain can go, so stop at the first entry still retained
+      const cut = batch.findIndex((entry) => entry.createdAt >= cutoff);
+      const entries = cut === -1 ? batch : batch.slice(0, cut);
+      if (entries.length === 0) break;
+
+      let expected = archivedThrough + 1;
+      let prevHash = anchor?.lastHash ?? GENESIS_HASH;
+      for (const entry of entries) {
+        const sequence = entry.sequence as number;
+        const intact =
+          sequence === expected &&
+          entry.prevHash === prevHash &&
+          hashAuditEntry({ ...entry, sequence, prevHash }) === entry.hash;
+        if (!intact) {
+          throw new BusinessError(
+            ErrorCode.AUDIT_CHAIN_BROKEN,
+            `The audit chain is broken at entry ${expected}; entries from there are kept`,
+          );
+        }
+        prevHash = entry.hash as string;
+        expected = sequence + 1;
+      }
+
+      const first = entries[0];
+      const last = entries[entries.length - 1];
+      const fromSequence = first.sequence as number;
+      const toSequence = last.sequence as number;
+      const file = Buffer.from(entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n');
+
+      // Deterministic path: a rerun after a failed delete overwrites the same object
+      const filePath = await this.storage.upload(
+        `audit-archives/${businessId}/${fromSequence}-${toSequence}.jsonl`,
+        file,
+      );
+
+      const [archive] = await this.prisma.$transaction([
+        this.prisma.auditArchive.create({
+          data: {
+            businessId,
+            fromSequence,
+            toSequence,
+            entryCount: entries.length,
+            firstEntryAt: first.createdAt,
+            lastEntryAt: last.createdAt,
+            lastHash: prevHash,
+            filePath,
+            fileHash: createHash('sha256').update(file).digest('hex'),
+          },
+        }),
+        this.prisma.auditLog.deleteMany({
+          where: { businessId, sequence: { gte: fromSequence, lte: toSequence } },
+        }),
+      ]);
+      archives.push(archive);
+      this.logger.log(
+        `Archived audit entries ${fromSequence}-${toSequence} of business ${businessId}`,
+      );
+
+      if (entries.length < ARCHIVE_BATCH_SIZE) break;
+    }
+
+    return archives;
+  }
+}
@@ -1,30 +1,35 @@
-import { Controller, Get, Post, Query, Body, UseGuards, Inject } from '@nestjs/common';
+import { Controller, Get, Post, Put, Query, Body, UseGuards, Inject } from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import type { IAuditLogRepository } from '../../domain/interfaces/repositories/audit.repository';
 import { AuditService } from './audit.service';
+import { AuditIntegrityService } from './audit-integrity.service';
+import { AuditRetentionService } from './audit-retention.service';
 import {
   ComplianceExportDto,
   ExportFormat,
   SuspiciousActivityType,
+  UpdateAuditRetentionDto,
 } from '../../application/dtos/audit.dto';
 
 @ApiTags('Audit')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
-@Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('audit.view')
 @Controller('audit')
 export class AuditController {
   constructor(
     @Inject(REPOSITORY_TOKENS.AUDIT)
     private readonly auditRepo: IAuditLogRepository,
     private readonly auditService: AuditService,
+    private readonly integrityService: AuditIntegrityService,
+    private readonly retentionService: AuditRetentionService,
   ) {}
 
   @Get()
@@ -99,6 +104,8 @@ export class AuditController {
       dto.format,
       dto.actionTypes,
       dto.employeeId,
+      dto.entityType,
+      dto.entityId,
     );
   }
 
@@ -123,13 +130,15 @@ export class AuditController {
   @Get('compliance-export')
   @ApiOperation({
     summary: 'Export compliance report (CSV or JSON) via GET',
-    description: 'Exports audit logs filtered by action type, employee, and date range',
+    description: 'Exports audit logs filtered by action type, employee, entity, and date range',
   })
   @ApiQuery({ name: 'startDate', required: true })
   @ApiQuery({ name: 'endDate', required: true })
   @ApiQuery({ name: 'format', required: true, enum: ExportFormat })
   @ApiQuery({ name: 'actionTypes', required: false, isArray: true })
   @ApiQuery({ name: 'employeeId', required: false })
+  @ApiQuery({ name: 'entityType', required: false })
+  @ApiQuery({ name: 'entityId', required: false })
   async getComplianceExport(
     @CurrentUser() user: AuthUser,
     @Query('startDate') startDate: string,
@@ -137,6 +146,8 @@ export class AuditController {
     @Query('format') format: ExportFormat,
     @Query('actionTypes') actionTypes?: string | string[],
     @Query('employeeId') employeeId?: string,
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
   ) {
     const actionTypesArray = actionTypes
       ? Array.isArray(actionTypes)
@@ -151,6 +162,8 @@ export class AuditController {
       format,
       actionTypesArray,
       employeeId,
+      entityType,
+      entityId,
     );
   }
 
@@ -175,4 +188,58 @@ export class AuditController {
     const end = endDate ? new Date(endDate) : new Date();
     return this.auditService.getAuditSummary(user.businessId, start, end);
   }
+
+  // ======================================================================
+  // CHAIN INTEGRITY
+  // ======================================================================
+
+  @Get('verify')
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Verify the audit hash chain',
+    description:
+      'Recomputes every entry since the last archive and reports edited, missing and unchained entries and checkpoint mismatches',
+  })
+  async verify(@CurrentUser() user: AuthUser) {
+    return this.integrityService.verify(user.businessId);
+  }
+
+  @Get('checkpoints')
+  @ApiOperation({ summary: 'List signed checkpoints of the audit chain' })
+  async listCheckpoints(@CurrentUser() user: AuthUser) {
+    return this.integrityService.listCheckpoints(user.businessId);
+  }
+
+  @Post('checkpoints')
+  @RequirePermission('audit.manage')
+  @ApiOperation({ summary: 'Sign a checkpoint of the current chain head' })
+  async createCheckpoint(@CurrentUser() user: AuthUser) {
+    return this.integrityService.createCheckpoint(user.businessId);
+  }
+
+  // ======================================================================
+  // RETENTION
+  // ======================================================================
+
+  @Get('retention')
+  @ApiOperation({ summary: 'Get the audit log retention policy' })
+  async getRetention(@CurrentUser() user: AuthUser) {
+    return this.retentionService.getPolicy(user.businessId);
+  }
+
+  @Put('retention')
+  @RequirePermission('audit.manage')
+  @ApiOperation({
+    summary: 'Set the audit log retention policy',
+    description: 'Entries older than the retention period are archived to storage every night',
+  })
+  async updateRetention(@CurrentUser() user: AuthUser, @Body() dto: UpdateAuditRetentionDto) {
+    return this.retentionService.updatePolicy(user, dto);
+  }
+
+  @Get('archives')
+  @ApiOperation({ summary: 'List archived ranges of the audit log' })
+  async listArchives(@CurrentUser() user: AuthUser) {
+    return this.retentionService.listArchives(user.businessId);
+  }
 }
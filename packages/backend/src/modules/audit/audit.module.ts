@@ -1,19 +1,27 @@
 import { Module } from '@nestjs/common';
 import { AuditController } from './audit.controller';
 import { AuditService } from './audit.service';
+import { AuditIntegrityService } from './audit-integrity.service';
+import { AuditRetentionService } from './audit-retention.service';
+import { AuditScheduler } from './audit.scheduler';
 import { LogAuditEventUseCase } from '../../application/use-cases/audit/log-audit-event.use-case';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import { PrismaAuditRepository } from '../../infrastructure/repositories/prisma-audit.repository';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { StorageModule } from '../../infrastructure/storage/storage.module';
 
 @Module({
+  imports: [StorageModule],
   controllers: [AuditController],
   providers: [
     AuditService,
+    AuditIntegrityService,
+    AuditRetentionService,
+    AuditScheduler,
     LogAuditEventUseCase,
     PrismaService,
     { provide: REPOSITORY_TOKENS.AUDIT, useClass: PrismaAuditRepository },
   ],
-  exports: [LogAuditEventUseCase, AuditService],
+  exports: [LogAuditEventUseCase, AuditService, AuditIntegrityService],
 })
 export class AuditModule {}
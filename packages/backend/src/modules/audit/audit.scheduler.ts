@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AuditIntegrityService } from './audit-integrity.service';
+import { AuditRetentionService } from './audit-retention.service';
+import { flushAuditOutbox } from './audit-chain.util';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+
+const OUTBOX_BATCH_SIZE = 100;
+
+/**
+ * Audit Scheduler
+ *
+ * Appends audit entries queued inside business transactions to their chains,
+ * signs a checkpoint of every audit chain that grew in the last hour, and
+ * archives entries past their retention period every night.
+ */
+@Injectable()
+export class AuditScheduler {
+  private readonly logger = new Logger(AuditScheduler.name);
+
+  private flushing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly integrityService: AuditIntegrityService,
+    private readonly retentionService: AuditRetentionService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async handleOutbox(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+    try {
+      let flushed: number;
+      do {
+        flushed = await flushAuditOutbox(this.prisma, OUTBOX_BATCH_SIZE);
+      } while (flushed === OUTBOX_BATCH_SIZE);
+    } catch (error) {
+      this.logger.error(`Audit outbox flush failed: ${(error as Error).message}`);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleCheckpoints(): Promise<void> {
+    try {
+      const created = await this.integrityService.checkpointAll();
+      if (created > 0) {
+        this.logger.log(`Signed ${created} audit checkpoint(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Audit checkpoints failed: ${(error as Error).message}`);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async handleRetention(): Promise<void> {
+    try {
+      const written = await this.retentionService.applyPolicies();
+      if (written > 0) {
+        this.logger.log(`Wrote ${written} audit archive(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Audit retention failed: ${(error as Error).message}`);
+    }
+  }
+}
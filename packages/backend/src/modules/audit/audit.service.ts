@@ -241,6 +241,8 @@ export class AuditService {
 
   /**
    * Generate a compliance export of audit logs for tax / regulatory purposes.
+   * Chained entries carry their sequence and hashes so the export itself can
+   * be checked against the chain.
    */
   async generateComplianceExport(
     businessId: string,
@@ -249,6 +251,8 @@ export class AuditService {
     format: ExportFormat,
     actionTypes?: string[],
     employeeId?: string,
+    entityType?: string,
+    entityId?: string,
   ): Promise<ComplianceExportResult> {
     const where: Record<string, unknown> = {
       businessId,
@@ -263,6 +267,14 @@ export class AuditService {
       where['employeeId'] = employeeId;
     }
 
+    if (entityType) {
+      where['entityType'] = entityType;
+    }
+
+    if (entityId) {
+      where['entityId'] = entityId;
+    }
+
     const logs = await this.prisma.auditLog.findMany({
       where,
       orderBy: { createdAt: 'asc' },
@@ -311,6 +323,9 @@ export class AuditService {
         'new_value',
         'ip_address',
         'device_id',
+        'sequence',
+        'prev_hash',
+        'hash',
       ].join(',');
 
       const rows = logs.map((log) => {
@@ -330,6 +345,9 @@ export class AuditService {
           this.csvEscape(JSON.stringify(log.newValue ?? {})),
           log.ipAddress ?? '',
           log.deviceId ?? '',
+          log.sequence ?? '',
+          log.prevHash ?? '',
+          log.hash ?? '',
         ].join(',');
       });
 
@@ -349,6 +367,9 @@ export class AuditService {
         newValue: log.newValue,
         ipAddress: log.ipAddress,
         deviceId: log.deviceId,
+        sequence: log.sequence,
+        prevHash: log.prevHash,
+        hash: log.hash,
       }));
 
       data = JSON.stringify(entries, null, 2);
@@ -469,6 +490,8 @@ export class AuditService {
     format: ExportFormat,
     actionTypes?: string[],
     employeeId?: string,
+    entityType?: string,
+    entityId?: string,
   ): Promise<ComplianceExportResult> {
     return this.generateComplianceExport(
       businessId,
@@ -477,6 +500,8 @@ export class AuditService {
       format,
       actionTypes,
       employeeId,
+      entityType,
+      entityId,
     );
   }
 
@@ -28,8 +28,10 @@ import { AuthService } from './auth.service';
 import { BusinessTypeService } from '../business/services/business-type.service';
 import { GoogleAuthGuard } from './guards/google-auth.guard';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { WithoutPermission } from '@infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '@infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '@infrastructure/auth/auth-user.interface';
+import { AllowWhenReadOnly } from '@common/interceptors/subscription.interceptor';
 import { OAuthGoogleTokenDto, GoogleOAuthProfile } from './dto/oauth-login.dto';
 
 interface GoogleAuthRequest extends Request {
@@ -37,6 +39,7 @@ interface GoogleAuthRequest extends Request {
 }
 
 @ApiTags('Auth')
+@WithoutPermission()
 @Controller('auth')
 export class AuthController {
   constructor(
@@ -159,6 +162,7 @@ export class AuthController {
    */
   @Put('change-pin')
   @UseGuards(JwtAuthGuard)
+  @AllowWhenReadOnly()
   @ApiBearerAuth()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Change user PIN' })
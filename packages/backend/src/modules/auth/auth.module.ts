@@ -49,6 +49,6 @@ import { BusinessModule } from '../business/business.module';
     GoogleStrategy,
     { provide: REPOSITORY_TOKENS.EMPLOYEE, useClass: PrismaEmployeeRepository },
   ],
-  exports: [AuthService, JwtStrategy, PassportModule, JwtModule],
+  exports: [AuthService, MfaService, JwtStrategy, PassportModule, JwtModule],
 })
 export class AuthModule {}
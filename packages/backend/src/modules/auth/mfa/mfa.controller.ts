@@ -1,6 +1,7 @@
 import { Controller, Post, Body, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { WithoutPermission } from '@infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '@infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '@infrastructure/auth/auth-user.interface';
 import { MfaService } from './mfa.service';
@@ -8,6 +9,7 @@ import { EnableMfaDto, VerifyMfaDto, DisableMfaDto } from '../dto/mfa.dto';
 import { AuthService } from '../auth.service';
 
 @ApiTags('MFA')
+@WithoutPermission()
 @Controller('auth/mfa')
 export class MfaController {
   constructor(
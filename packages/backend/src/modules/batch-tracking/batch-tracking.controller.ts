@@ -12,6 +12,11 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '@infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '@infrastructure/auth/require-permission.decorator';
 import {
   BatchTrackingService,
   type CreateBatchLotDto,
@@ -19,41 +24,47 @@ import {
 } from './batch-tracking.service';
 
 @Controller('batch-tracking')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class BatchTrackingController {
   constructor(private readonly service: BatchTrackingService) {}
 
   @Get('product/:productId/outlet/:outletId')
+  @WithoutPermission()
   async listByProduct(@Param('productId') productId: string, @Param('outletId') outletId: string) {
     const batches = await this.service.listByProduct(productId, outletId);
     return { batches };
   }
 
   @Get('active/:productId/:outletId')
+  @WithoutPermission()
   async listActive(@Param('productId') productId: string, @Param('outletId') outletId: string) {
     const batches = await this.service.listActive(productId, outletId);
     return { batches };
   }
 
   @Post()
+  @RequirePermission('inventory.batches')
   async create(@Body() dto: CreateBatchLotDto) {
     const batch = await this.service.create(dto);
     return { batch };
   }
 
   @Put(':id')
+  @RequirePermission('inventory.batches')
   async update(@Param('id') id: string, @Body() dto: UpdateBatchLotDto) {
     const batch = await this.service.update(id, dto);
     return { batch };
   }
 
   @Delete(':id')
+  @RequirePermission('inventory.batches')
   @HttpCode(HttpStatus.NO_CONTENT)
   async delete(@Param('id') id: string) {
     await this.service.delete(id);
   }
 
   @Get('summary/:productId/:outletId')
+  @WithoutPermission()
   async getBatchSummary(
     @Param('productId') productId: string,
     @Param('outletId') outletId: string,
@@ -62,6 +73,7 @@ export class BatchTrackingController {
   }
 
   @Get('expiring/:outletId')
+  @WithoutPermission()
   async getExpiringBatches(@Param('outletId') outletId: string, @Query('days') days?: string) {
     const daysAhead = days ? parseInt(days, 10) : 7;
     const batches = await this.service.getExpiringBatches(outletId, daysAhead);
@@ -69,12 +81,14 @@ export class BatchTrackingController {
   }
 
   @Get('expired/:outletId')
+  @WithoutPermission()
   async getExpiredBatches(@Param('outletId') outletId: string) {
     const batches = await this.service.getExpiredBatches(outletId);
     return { batches };
   }
 
   @Post('deduct')
+  @RequirePermission('inventory.batches')
   async deductFIFO(@Body() body: { productId: string; outletId: string; quantity: number }) {
     return this.service.deductFIFO(body.productId, body.outletId, body.quantity);
   }
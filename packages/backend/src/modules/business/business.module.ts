@@ -3,17 +3,20 @@ import { FeatureService } from './services/feature.service';
 import { BusinessTypeService } from './services/business-type.service';
 import { OutletFeatureService } from './services/outlet-feature.service';
 import { OutletTypeService } from './services/outlet-type.service';
+import { SubscriptionService } from './services/subscription.service';
 import { FeatureController } from './controllers/feature.controller';
 import { OutletFeatureController } from './controllers/outlet-feature.controller';
+import { SubscriptionController } from './controllers/subscription.controller';
 import { FeatureGuard } from '@common/guards/feature.guard';
 
 @Module({
-  controllers: [FeatureController, OutletFeatureController],
+  controllers: [FeatureController, OutletFeatureController, SubscriptionController],
   providers: [
     FeatureService,
     BusinessTypeService,
     OutletFeatureService,
     OutletTypeService,
+    SubscriptionService,
     FeatureGuard,
   ],
   exports: [
@@ -21,6 +24,7 @@ import { FeatureGuard } from '@common/guards/feature.guard';
     BusinessTypeService,
     OutletFeatureService,
     OutletTypeService,
+    SubscriptionService,
     FeatureGuard,
   ],
 })
@@ -2,6 +2,11 @@ import { Controller, Get, Put, Body, Param, UseGuards, HttpCode, HttpStatus } fr
 import { IsBoolean, IsString, IsNotEmpty, IsArray, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '@infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '@infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '@infrastructure/auth/current-user.decorator';
 import { FeatureService, type BusinessFeatureDto } from '../services/feature.service';
 import { BusinessTypeService, type BusinessTypeInfo } from '../services/business-type.service';
@@ -86,7 +91,7 @@ interface FeatureRegistryResponse {
 }
 
 @Controller('business')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class FeatureController {
   constructor(
     private readonly featureService: FeatureService,
@@ -102,6 +107,7 @@ export class FeatureController {
    * Get all features with their current status for the business
    */
   @Get('features')
+  @WithoutPermission()
   async getFeatures(@CurrentUser() user: { businessId: string }): Promise<FeaturesResponse> {
     const features = await this.featureService.getBusinessFeatures(user.businessId);
     return { features };
@@ -112,6 +118,7 @@ export class FeatureController {
    * Get features grouped by category
    */
   @Get('features/by-category')
+  @WithoutPermission()
   async getFeaturesByCategory(
     @CurrentUser() user: { businessId: string },
   ): Promise<FeaturesByCategoryResponse> {
@@ -123,6 +130,7 @@ export class FeatureController {
    * Get only enabled feature keys (lightweight)
    */
   @Get('features/enabled')
+  @WithoutPermission()
   async getEnabledFeatures(
     @CurrentUser() user: { businessId: string },
   ): Promise<{ features: string[] }> {
@@ -135,6 +143,7 @@ export class FeatureController {
    * Toggle a specific feature on/off
    */
   @Put('features/:featureKey')
+  @RequirePermission('settings.manage')
   @HttpCode(HttpStatus.OK)
   async toggleFeature(
     @CurrentUser() user: { businessId: string },
@@ -149,6 +158,7 @@ export class FeatureController {
    * Bulk update multiple features at once
    */
   @Put('features/bulk')
+  @RequirePermission('settings.manage')
   @HttpCode(HttpStatus.OK)
   async bulkUpdateFeatures(
     @CurrentUser() user: { businessId: string },
@@ -162,6 +172,7 @@ export class FeatureController {
    * Get static feature registry (all available features)
    */
   @Get('features/registry')
+  @WithoutPermission()
   getFeatureRegistry(): FeatureRegistryResponse {
     const features = this.featureService.getFeatureRegistry();
     return { features, total: features.length };
@@ -176,6 +187,7 @@ export class FeatureController {
    * Get current business type
    */
   @Get('type')
+  @WithoutPermission()
   async getBusinessType(
     @CurrentUser() user: { businessId: string },
   ): Promise<BusinessTypeResponse> {
@@ -193,6 +205,7 @@ export class FeatureController {
    * Change business type and reset features to preset
    */
   @Put('type')
+  @RequirePermission('settings.manage')
   @HttpCode(HttpStatus.OK)
   async changeBusinessType(
     @CurrentUser() user: { businessId: string },
@@ -206,6 +219,7 @@ export class FeatureController {
    * Get all available business type presets
    */
   @Get('types/presets')
+  @WithoutPermission()
   getTypePresets(): TypePresetsResponse {
     return {
       presets: this.businessTypeService.getAllPresets(),
@@ -218,6 +232,7 @@ export class FeatureController {
    * Validate if a business type code is valid
    */
   @Get('types/validate/:code')
+  @WithoutPermission()
   validateTypeCode(@Param('code') code: string): { valid: boolean } {
     return { valid: this.businessTypeService.isValidType(code) };
   }
@@ -1,6 +1,11 @@
 import { Controller, Get, Put, Body, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
 import { IsBoolean, IsString, IsNotEmpty } from 'class-validator';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '@infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '@infrastructure/auth/require-permission.decorator';
 import { OutletFeatureService, type OutletFeatureDto } from '../services/outlet-feature.service';
 import { OutletTypeService, type OutletTypeInfo } from '../services/outlet-type.service';
 
@@ -41,7 +46,7 @@ interface ToggleOutletFeatureResponse {
 }
 
 @Controller('outlet')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class OutletFeatureController {
   constructor(
     private readonly outletFeatureService: OutletFeatureService,
@@ -57,6 +62,7 @@ export class OutletFeatureController {
    * Get all features with status for a specific outlet
    */
   @Get(':outletId/features')
+  @WithoutPermission()
   async getOutletFeatures(@Param('outletId') outletId: string): Promise<OutletFeaturesResponse> {
     const features = await this.outletFeatureService.getOutletFeatures(outletId);
     return { features };
@@ -67,6 +73,7 @@ export class OutletFeatureController {
    * Get only enabled feature keys for an outlet (lightweight)
    */
   @Get(':outletId/features/enabled')
+  @WithoutPermission()
   async getEnabledFeatures(@Param('outletId') outletId: string): Promise<{ features: string[] }> {
     const features = await this.outletFeatureService.getEnabledFeatureKeys(outletId);
     return { features };
@@ -77,6 +84,7 @@ export class OutletFeatureController {
    * Toggle a specific feature on/off for an outlet
    */
   @Put(':outletId/features/:featureKey')
+  @RequirePermission('settings.manage')
   @HttpCode(HttpStatus.OK)
   async toggleFeature(
     @Param('outletId') outletId: string,
@@ -95,6 +103,7 @@ export class OutletFeatureController {
    * Get current outlet type
    */
   @Get(':outletId/type')
+  @WithoutPermission()
   async getOutletType(@Param('outletId') outletId: string): Promise<OutletTypeResponse> {
     const outletType = await this.outletTypeService.getOutletType(outletId);
     return { outletType };
@@ -105,6 +114,7 @@ export class OutletFeatureController {
    * Change outlet type and reset features to preset
    */
   @Put(':outletId/type')
+  @RequirePermission('settings.manage')
   @HttpCode(HttpStatus.OK)
   async changeOutletType(
     @Param('outletId') outletId: string,
@@ -0,0 +1,51 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { WithoutPermission } from '@infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '@infrastructure/auth/current-user.decorator';
+import {
+  SubscriptionService,
+  type SubscriptionStatus,
+  type SubscriptionUsage,
+} from '../services/subscription.service';
+import { type SubscriptionPlanDefinition } from '@config/subscription-plans.config';
+
+// Response interfaces
+interface PlansResponse {
+  plans: SubscriptionPlanDefinition[];
+}
+
+@Controller('business/subscription')
+@UseGuards(JwtAuthGuard)
+export class SubscriptionController {
+  constructor(private readonly subscriptionService: SubscriptionService) {}
+
+  /**
+   * GET /business/subscription
+   * Get the plan of the business and whether it has expired
+   */
+  @Get()
+  @WithoutPermission()
+  async getStatus(@CurrentUser() user: { businessId: string }): Promise<SubscriptionStatus> {
+    return this.subscriptionService.getStatus(user.businessId);
+  }
+
+  /**
+   * GET /business/subscription/usage
+   * Get consumption against the plan limits for the current month
+   */
+  @Get('usage')
+  @WithoutPermission()
+  async getUsage(@CurrentUser() user: { businessId: string }): Promise<SubscriptionUsage> {
+    return this.subscriptionService.getUsage(user.businessId);
+  }
+
+  /**
+   * GET /business/subscription/plans
+   * Get all plans with their limits and features
+   */
+  @Get('plans')
+  @WithoutPermission()
+  getPlans(): PlansResponse {
+    return { plans: this.subscriptionService.getPlans() };
+  }
+}
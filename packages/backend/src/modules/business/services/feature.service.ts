@@ -8,6 +8,11 @@ import {
   type FeatureCategory,
 } from '@config/features.config';
 import { getBusinessTypePreset, isValidBusinessType } from '@config/business-types.config';
+import {
+  getRequiredPlanForFeature,
+  isFeatureInPlan,
+  type SubscriptionPlanCode,
+} from '@config/subscription-plans.config';
 
 export interface BusinessFeatureDto {
   key: string;
@@ -15,6 +20,8 @@ export interface BusinessFeatureDto {
   description: string;
   category: FeatureCategory;
   isEnabled: boolean;
+  availableInPlan: boolean;
+  requiredPlan: SubscriptionPlanCode | null;
   dependencies?: string[];
   icon?: string;
 }
@@ -34,40 +41,52 @@ export class FeatureService {
   constructor(private readonly prisma: PrismaService) {}
 
   /**
-   * Get all features for a business with their current status
+   * Get all features for a business with their current status.
+   * Features outside the subscription plan count as disabled.
    */
   async getBusinessFeatures(businessId: string): Promise<BusinessFeatureDto[]> {
-    const enabledFeatures = await this.prisma.businessFeature.findMany({
-      where: { businessId, isEnabled: true },
-      select: { featureKey: true },
-    });
+    const [enabledFeatures, plan] = await Promise.all([
+      this.prisma.businessFeature.findMany({
+        where: { businessId, isEnabled: true },
+        select: { featureKey: true },
+      }),
+      this.getPlan(businessId),
+    ]);
 
     const enabledKeys = new Set(enabledFeatures.map((f) => f.featureKey));
 
-    return FEATURE_REGISTRY.map((feature) => ({
-      key: feature.key,
-      label: feature.label,
-      description: feature.description,
-      category: feature.category,
-      isEnabled: enabledKeys.has(feature.key),
-      dependencies: feature.dependencies,
-      icon: feature.icon,
-    }));
+    return FEATURE_REGISTRY.map((feature) => {
+      const availableInPlan = isFeatureInPlan(plan, feature.key);
+      return {
+        key: feature.key,
+        label: feature.label,
+        description: feature.description,
+        category: feature.category,
+        isEnabled: availableInPlan && enabledKeys.has(feature.key),
+        availableInPlan,
+        requiredPlan: getRequiredPlanForFeature(feature.key),
+        dependencies: feature.dependencies,
+        icon: feature.icon,
+      };
+    });
   }
 
   /**
-   * Get only enabled feature keys for a business
+   * Get only enabled feature keys for a business, within its subscription plan
    */
   async getEnabledFeatureKeys(businessId: string): Promise<string[]> {
-    const features = await this.prisma.businessFeature.findMany({
-      where: { businessId, isEnabled: true },
-      select: { featureKey: true },
-    });
-    return features.map((f) => f.featureKey);
+    const [features, plan] = await Promise.all([
+      this.prisma.businessFeature.findMany({
+        where: { businessId, isEnabled: true },
+        select: { featureKey: true },
+      }),
+      this.getPlan(businessId),
+    ]);
+    return features.map((f) => f.featureKey).filter((key) => isFeatureInPlan(plan, key));
   }
 
   /**
-   * Check if a specific feature is enabled for a business
+   * Check if a specific feature is enabled for a business and unlocked by its plan
    */
   async isFeatureEnabled(businessId: string, featureKey: string): Promise<boolean> {
     const feature = await this.prisma.businessFeature.findUnique({
@@ -75,7 +94,8 @@ export class FeatureService {
         businessId_featureKey: { businessId, featureKey },
       },
     });
-    return feature?.isEnabled ?? false;
+    if (!feature?.isEnabled) return false;
+    return isFeatureInPlan(await this.getPlan(businessId), featureKey);
   }
 
   /**
@@ -96,6 +116,16 @@ export class FeatureService {
       };
     }
 
+    // Check the subscription plan if enabling
+    if (enable && !isFeatureInPlan(await this.getPlan(businessId), featureKey)) {
+      return {
+        success: false,
+        featureKey,
+        isEnabled: false,
+        message: `Feature "${featureKey}" requires the ${getRequiredPlanForFeature(featureKey)} plan`,
+      };
+    }
+
     // Check dependencies if enabling
     if (enable && featureDef.dependencies?.length) {
       const enabledKeys = await this.getEnabledFeatureKeys(businessId);
@@ -242,6 +272,17 @@ export class FeatureService {
     );
   }
 
+  /**
+   * Get the subscription plan of a business
+   */
+  private async getPlan(businessId: string): Promise<string> {
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { subscriptionPlan: true },
+    });
+    return business?.subscriptionPlan ?? 'basic';
+  }
+
   /**
    * Get feature registry (static list of all available features)
    */
@@ -7,6 +7,11 @@ import {
   type FeatureCategory,
 } from '@config/features.config';
 import { getBusinessTypePreset, isValidBusinessType } from '@config/business-types.config';
+import {
+  getRequiredPlanForFeature,
+  isFeatureInPlan,
+  type SubscriptionPlanCode,
+} from '@config/subscription-plans.config';
 
 export interface OutletFeatureDto {
   key: string;
@@ -14,6 +19,8 @@ export interface OutletFeatureDto {
   description: string;
   category: FeatureCategory;
   isEnabled: boolean;
+  availableInPlan: boolean;
+  requiredPlan: SubscriptionPlanCode | null;
   dependencies?: string[];
   icon?: string;
 }
@@ -35,23 +42,11 @@ export class OutletFeatureService {
   /**
    * Get all features for an outlet with their current status.
    * Falls back to BusinessFeature if no OutletFeature records exist.
+   * Features outside the business's subscription plan count as disabled.
    */
   async getOutletFeatures(outletId: string): Promise<OutletFeatureDto[]> {
-    const outletFeatureCount = await this.prisma.outletFeature.count({
-      where: { outletId },
-    });
-
-    // Fallback to business-level features if outlet has none
-    if (outletFeatureCount === 0) {
-      return this.getBusinessFeaturesForOutlet(outletId);
-    }
-
-    const enabledFeatures = await this.prisma.outletFeature.findMany({
-      where: { outletId, isEnabled: true },
-      select: { featureKey: true },
-    });
-
-    const enabledKeys = new Set(enabledFeatures.map((f) => f.featureKey));
+    const enabledKeys = new Set(await this.getEnabledFeatureKeys(outletId));
+    const plan = await this.getPlan(outletId);
 
     return FEATURE_REGISTRY.map((feature) => ({
       key: feature.key,
@@ -59,13 +54,15 @@ export class OutletFeatureService {
       description: feature.description,
       category: feature.category,
       isEnabled: enabledKeys.has(feature.key),
+      availableInPlan: isFeatureInPlan(plan, feature.key),
+      requiredPlan: getRequiredPlanForFeature(feature.key),
       dependencies: feature.dependencies,
       icon: feature.icon,
     }));
   }
 
   /**
-   * Get only enabled feature keys for an outlet.
+   * Get only enabled feature keys for an outlet, within the subscription plan.
    * Falls back to BusinessFeature if no OutletFeature records exist.
    */
   async getEnabledFeatureKeys(outletId: string): Promise<string[]> {
@@ -73,15 +70,18 @@ export class OutletFeatureService {
       where: { outletId },
     });
 
-    if (outletFeatureCount === 0) {
-      return this.getEnabledBusinessFeatureKeysForOutlet(outletId);
-    }
-
-    const features = await this.prisma.outletFeature.findMany({
-      where: { outletId, isEnabled: true },
-      select: { featureKey: true },
-    });
-    return features.map((f) => f.featureKey);
+    const keys =
+      outletFeatureCount === 0
+        ? await this.getEnabledBusinessFeatureKeysForOutlet(outletId)
+        : (
+            await this.prisma.outletFeature.findMany({
+              where: { outletId, isEnabled: true },
+              select: { featureKey: true },
+            })
+          ).map((f) => f.featureKey);
+
+    const plan = await this.getPlan(outletId);
+    return keys.filter((key) => isFeatureInPlan(plan, key));
   }
 
   /**
@@ -102,6 +102,16 @@ export class OutletFeatureService {
       };
     }
 
+    // Check the subscription plan if enabling
+    if (enable && !isFeatureInPlan(await this.getPlan(outletId), featureKey)) {
+      return {
+        success: false,
+        featureKey,
+        isEnabled: false,
+        message: `Feature "${featureKey}" requires the ${getRequiredPlanForFeature(featureKey)} plan`,
+      };
+    }
+
     // Check dependencies if enabling
     if (enable && featureDef.dependencies?.length) {
       const enabledKeys = await this.getEnabledFeatureKeys(outletId);
@@ -217,31 +227,14 @@ export class OutletFeatureService {
     );
   }
 
-  // ---- Private fallback methods ----
+  // ---- Private helpers ----
 
-  private async getBusinessFeaturesForOutlet(outletId: string): Promise<OutletFeatureDto[]> {
+  private async getPlan(outletId: string): Promise<string> {
     const outlet = await this.prisma.outlet.findUnique({
       where: { id: outletId },
-      select: { businessId: true },
-    });
-    if (!outlet) return [];
-
-    const enabledFeatures = await this.prisma.businessFeature.findMany({
-      where: { businessId: outlet.businessId, isEnabled: true },
-      select: { featureKey: true },
+      select: { business: { select: { subscriptionPlan: true } } },
     });
-
-    const enabledKeys = new Set(enabledFeatures.map((f) => f.featureKey));
-
-    return FEATURE_REGISTRY.map((feature) => ({
-      key: feature.key,
-      label: feature.label,
-      description: feature.description,
-      category: feature.category,
-      isEnabled: enabledKeys.has(feature.key),
-      dependencies: feature.dependencies,
-      icon: feature.icon,
-    }));
+    return outlet?.business.subscriptionPlan ?? 'basic';
   }
 
   private async getEnabledBusinessFeatureKeysForOutlet(outletId: string): Promise<string[]> {
@@ -0,0 +1,178 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { PrismaService } from '@infrastructure/database/prisma.service';
+import { AppError } from '@shared/errors/app-error';
+import { ErrorCode } from '@shared/constants/error-codes';
+import {
+  SUBSCRIPTION_GRACE_PERIOD_DAYS,
+  SUBSCRIPTION_PLANS,
+  getPlanDefinition,
+  type PlanLimitKey,
+  type SubscriptionPlanCode,
+  type SubscriptionPlanDefinition,
+} from '@config/subscription-plans.config';
+
+/**
+ * active: paid up; grace: expired but still fully usable;
+ * read_only: grace period over, data can be viewed but not changed
+ */
+export type SubscriptionState = 'active' | 'grace' | 'read_only';
+
+export interface SubscriptionStatus {
+  plan: SubscriptionPlanCode;
+  planLabel: string;
+  state: SubscriptionState;
+  expiresAt: Date | null;
+  graceEndsAt: Date | null;
+}
+
+export interface PlanUsageItem {
+  used: number;
+  /** null when the plan has no limit */
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface SubscriptionUsage extends SubscriptionStatus {
+  periodStart: Date;
+  usage: Record<PlanLimitKey, PlanUsageItem>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LIMIT_LABELS: Record<PlanLimitKey, string> = {
+  outlets: 'outlets',
+  devices: 'devices',
+  employees: 'employees',
+  monthlyTransactions: 'transactions this month',
+};
+
+@Injectable()
+export class SubscriptionService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Get the plan and expiry state of a business
+   */
+  async getStatus(businessId: string, now = new Date()): Promise<SubscriptionStatus> {
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { subscriptionPlan: true, subscriptionExpiresAt: true },
+    });
+    const plan = getPlanDefinition(business?.subscriptionPlan ?? 'basic');
+    const expiresAt = business?.subscriptionExpiresAt ?? null;
+
+    // No expiry date means the subscription does not lapse
+    if (!expiresAt) {
+      return {
+        plan: plan.code,
+        planLabel: plan.label,
+        state: 'active',
+        expiresAt,
+        graceEndsAt: null,
+      };
+    }
+
+    const graceEndsAt = new Date(expiresAt.getTime() + SUBSCRIPTION_GRACE_PERIOD_DAYS * DAY_MS);
+    const state: SubscriptionState =
+      now < expiresAt ? 'active' : now < graceEndsAt ? 'grace' : 'read_only';
+
+    return { plan: plan.code, planLabel: plan.label, state, expiresAt, graceEndsAt };
+  }
+
+  /**
+   * Get consumption of every plan limit for the current month
+   */
+  async getUsage(businessId: string, now = new Date()): Promise<SubscriptionUsage> {
+    const status = await this.getStatus(businessId, now);
+    const { limits } = getPlanDefinition(status.plan);
+    const periodStart = this.monthStart(now);
+
+    const keys = Object.keys(limits) as PlanLimitKey[];
+    const counts = await Promise.all(
+      keys.map((key) => this.countUsage(businessId, key, periodStart)),
+    );
+
+    const usage = {} as Record<PlanLimitKey, PlanUsageItem>;
+    keys.forEach((key, index) => {
+      const limit = limits[key];
+      usage[key] = {
+        used: counts[index],
+        limit,
+        remaining: limit === null ? null : Math.max(0, limit - counts[index]),
+      };
+    });
+
+    return { ...status, periodStart, usage };
+  }
+
+  /**
+   * Get all plans with their limits and features
+   */
+  getPlans(): SubscriptionPlanDefinition[] {
+    return SUBSCRIPTION_PLANS;
+  }
+
+  /**
+   * Throw when the business has used up a plan limit, before adding one more
+   */
+  async assertWithinLimit(businessId: string, key: PlanLimitKey): Promise<void> {
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { subscriptionPlan: true },
+    });
+    const plan = getPlanDefinition(business?.subscriptionPlan ?? 'basic');
+    const limit = plan.limits[key];
+    if (limit === null) return;
+
+    const used = await this.countUsage(businessId, key, this.monthStart(new Date()));
+    if (used >= limit) {
+      throw new AppError(
+        ErrorCode.PLAN_LIMIT_REACHED,
+        `The ${plan.label} plan allows ${limit} ${LIMIT_LABELS[key]}; upgrade to add more`,
+        HttpStatus.FORBIDDEN,
+      );
+    }
+  }
+
+  /**
+   * Throw when the grace period after expiry is over and the business is read-only
+   */
+  async assertWritable(businessId: string): Promise<void> {
+    const status = await this.getStatus(businessId);
+    if (status.state === 'read_only') {
+      throw new AppError(
+        ErrorCode.SUBSCRIPTION_READ_ONLY,
+        'The subscription has expired; renew it to make changes again',
+        HttpStatus.PAYMENT_REQUIRED,
+      );
+    }
+  }
+
+  private async countUsage(
+    businessId: string,
+    key: PlanLimitKey,
+    periodStart: Date,
+  ): Promise<number> {
+    switch (key) {
+      case 'outlets':
+        return this.prisma.outlet.count({ where: { businessId, isActive: true } });
+      case 'devices':
+        return this.prisma.device.count({ where: { businessId, isActive: true } });
+      case 'employees':
+        return this.prisma.employee.count({ where: { businessId, isActive: true } });
+      case 'monthlyTransactions':
+        return this.prisma.transaction.count({
+          where: {
+            outlet: { businessId },
+            transactionType: 'sale',
+            createdAt: { gte: periodStart },
+          },
+        });
+    }
+  }
+
+  // Monthly quotas reset on the first of the month, UTC
+  private monthStart(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+}
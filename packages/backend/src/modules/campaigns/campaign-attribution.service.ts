@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { CampaignAttribution, Prisma } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+
+/** Messages older than this are never credited, whatever the campaign window */
+export const MAX_ATTRIBUTION_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The voucher is marked used in the same database transaction as the sale
+const REDEMPTION_MATCH_MS = 5 * 60 * 1000;
+
+/**
+ * CampaignAttributionService - Credits sales to campaigns
+ *
+ * A sale to a customer is credited to one campaign message at most: the
+ * message whose voucher was redeemed, or else the last message the customer
+ * received within that campaign's attribution window.
+ */
+@Injectable()
+export class CampaignAttributionService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async attribute(transactionId: string): Promise<CampaignAttribution | null> {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: transactionId },
+      select: {
+        id: true,
+        customerId: true,
+        grandTotal: true,
+        transactionType: true,
+        createdAt: true,
+      },
+    });
+    if (!transaction?.customerId || transaction.transactionType !== 'sale') return null;
+
+    const soldAt = transaction.createdAt.getTime();
+    const messages = await this.prisma.campaignRecipient.findMany({
+      where: {
+        customerId: transaction.customerId,
+        status: 'sent',
+        sentAt: {
+          gte: new Date(soldAt - MAX_ATTRIBUTION_WINDOW_DAYS * DAY_MS),
+          lte: transaction.createdAt,
+        },
+      },
+      include: {
+        campaign: { select: { attributionWindowDays: true } },
+        voucher: { select: { usedAt: true } },
+        // A voucher is single-use; once credited it cannot claim another sale
+        attributions: { where: { voucherRedeemed: true }, select: { id: true } },
+      },
+      orderBy: { sentAt: 'desc' },
+    });
+
+    const redeemed = messages.find(
+      (message) =>
+        message.voucher?.usedAt &&
+        message.voucher.usedAt.getTime() >= soldAt - REDEMPTION_MATCH_MS &&
+        message.attributions.length === 0,
+    );
+    const credited =
+      redeemed ??
+      messages.find(
+        (message) =>
+          message.sentAt &&
+          message.sentAt.getTime() >= soldAt - message.campaign.attributionWindowDays * DAY_MS,
+      );
+    if (!credited) return null;
+
+    try {
+      return await this.prisma.campaignAttribution.create({
+        data: {
+          campaignId: credited.campaignId,
+          recipientId: credited.id,
+          transactionId: transaction.id,
+          revenue: transaction.grandTotal,
+          voucherRedeemed: credited === redeemed,
+        },
+      });
+    } catch (error) {
+      // Already credited, e.g. the event was delivered twice
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,374 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { randomBytes } from 'crypto';
+import { MarketingCampaign, Prisma } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { NotificationDispatcherService } from '../../infrastructure/notifications/notification-dispatcher.service';
+import { JOB_NAMES, JOB_OPTIONS, QUEUE_NAMES } from '../../infrastructure/queues/queue.constants';
+import type { CampaignJobData } from '../../infrastructure/queues/processors/campaign.processor';
+import { CustomerSegmentsService } from '../customers/customer-segments.service';
+import { formatLocalDate } from '../reports/scheduled/report-schedule.util';
+import {
+  renderCampaignTemplate,
+  type CampaignAudience,
+  type CampaignChannel,
+  type CampaignTemplate,
+} from './campaign-template.util';
+
+const AUDIENCE_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  dateOfBirth: true,
+  lastVisitAt: true,
+  loyaltyTier: true,
+} satisfies Prisma.CustomerSelect;
+
+export type AudienceCustomer = Prisma.CustomerGetPayload<{ select: typeof AUDIENCE_SELECT }>;
+
+export interface AudienceReach {
+  total: number;
+  byChannel: Record<CampaignChannel, number>;
+  unreachable: number;
+}
+
+/** A customer gets at most one campaign message per this many hours, across campaigns */
+export const FREQUENCY_CAP_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** How long a message stays claimed by a send that never finished */
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * CampaignDeliveryService - Turns a campaign into messages
+ *
+ * Resolves the audience, records one recipient per customer and send, and
+ * queues the recipients spread over time to respect the campaign's send
+ * rate. The CampaignProcessor then renders and sends each message, checking
+ * opt-outs and the frequency cap again at send time.
+ */
+@Injectable()
+export class CampaignDeliveryService {
+  private readonly logger = new Logger(CampaignDeliveryService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly segments: CustomerSegmentsService,
+    private readonly dispatcher: NotificationDispatcherService,
+    @InjectQueue(QUEUE_NAMES.CAMPAIGN)
+    private readonly campaignQueue: Queue<CampaignJobData>,
+  ) {}
+
+  // ========================================================================
+  // AUDIENCE
+  // ========================================================================
+
+  /** Active customers of the business matching the segment and every filter */
+  async resolveAudience(
+    campaign: Pick<MarketingCampaign, 'businessId' | 'audience'>,
+  ): Promise<AudienceCustomer[]> {
+    const audience = (campaign.audience ?? {}) as CampaignAudience;
+    const where: Prisma.CustomerWhereInput = { businessId: campaign.businessId, isActive: true };
+
+    if (audience.segment) {
+      const members = await this.segments.getCustomersBySegment(
+        campaign.businessId,
+        audience.segment,
+      );
+      where.id = { in: members.map((member) => member.id) };
+    }
+    if (audience.loyaltyTiers?.length) where.loyaltyTier = { in: audience.loyaltyTiers };
+    if (audience.minTotalSpent !== undefined) where.totalSpent = { gte: audience.minTotalSpent };
+    if (audience.minVisitCount !== undefined) where.visitCount = { gte: audience.minVisitCount };
+
+    return this.prisma.customer.findMany({ where, select: AUDIENCE_SELECT });
+  }
+
+  /** How many customers of the audience each channel would reach */
+  async reach(campaign: MarketingCampaign): Promise<AudienceReach> {
+    const customers = await this.resolveAudience(campaign);
+    const templates = campaign.templates as unknown as CampaignTemplate[];
+    const optedOut = await this.optedOut(customers.map((customer) => customer.id));
+
+    const byChannel = { whatsapp: 0, email: 0, sms: 0 };
+    let unreachable = 0;
+    for (const customer of customers) {
+      const channel = this.pickChannel(customer, templates, optedOut);
+      if (channel) byChannel[channel]++;
+      else unreachable++;
+    }
+    return { total: customers.length, byChannel, unreachable };
+  }
+
+  // ========================================================================
+  // ENQUEUE
+  // ========================================================================
+
+  /**
+   * Records a recipient per customer and queues their messages. Customers
+   * already sent this campaign under the same trigger key are left out, so a
+   * trigger can be re-run safely. Returns the number of messages queued.
+   */
+  async enqueue(
+    campaign: MarketingCampaign,
+    customers: AudienceCustomer[],
+    triggerKey: string | ((customer: AudienceCustomer) => string) = '',
+  ): Promise<number> {
+    const templates = campaign.templates as unknown as CampaignTemplate[];
+    const optedOut = await this.optedOut(customers.map((customer) => customer.id));
+
+    let queued = 0;
+    for (const customer of customers) {
+      const channel = this.pickChannel(customer, templates, optedOut);
+      let recipientId: string;
+      try {
+        const recipient = await this.prisma.campaignRecipient.create({
+          data: {
+            campaignId: campaign.id,
+            businessId: campaign.businessId,
+            customerId: customer.id,
+            triggerKey: typeof triggerKey === 'function' ? triggerKey(customer) : triggerKey,
+            channel,
+            status: channel ? 'queued' : 'skipped',
+            error: channel ? null : 'No reachable channel that the customer has not opted out of',
+            unsubscribeToken: randomBytes(24).toString('hex'),
+          },
+        });
+        recipientId = recipient.id;
+      } catch (error) {
+        if (isUniqueViolation(error)) continue;
+        throw error;
+      }
+
+      if (!channel) continue;
+      await this.addJob(recipientId, this.throttleDelay(campaign, queued));
+      queued++;
+    }
+    return queued;
+  }
+
+  /** Queues the recipients still waiting, e.g. after a campaign is resumed */
+  async requeue(campaign: MarketingCampaign): Promise<number> {
+    const waiting = await this.prisma.campaignRecipient.findMany({
+      where: { campaignId: campaign.id, status: 'queued' },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    for (const [index, recipient] of waiting.entries()) {
+      await this.addJob(recipient.id, this.throttleDelay(campaign, index));
+    }
+    return waiting.length;
+  }
+
+  // sendRatePerMinute messages go out in each minute after the first
+  private throttleDelay(campaign: MarketingCampaign, position: number): number {
+    return Math.floor(position / Math.max(1, campaign.sendRatePerMinute)) * 60000;
+  }
+
+  private async addJob(recipientId: string, delay: number): Promise<void> {
+    try {
+      await this.campaignQueue.add(
+        JOB_NAMES.SEND_CAMPAIGN_MESSAGE,
+        { recipientId },
+        { ...JOB_OPTIONS.CAMPAIGN, delay },
+      );
+    } catch (error) {
+      await this.prisma.campaignRecipient.update({
+        where: { id: recipientId },
+        data: { status: 'failed', error: `Could not queue: ${(error as Error).message}` },
+      });
+      this.logger.error(
+        `Failed to queue campaign message ${recipientId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  // ========================================================================
+  // SEND (called by CampaignProcessor)
+  // ========================================================================
+
+  /**
+   * Renders and sends one queued message. Messages of a paused campaign stay
+   * queued for when it resumes; those of a cancelled campaign, customers who
+   * opted out since and customers messaged too recently are skipped.
+   */
+  async execute(recipientId: string, now = new Date()): Promise<void> {
+    const recipient = await this.prisma.campaignRecipient.findUnique({
+      where: { id: recipientId },
+      include: {
+        campaign: { include: { business: { select: { name: true } } } },
+        customer: true,
+        voucher: true,
+      },
+    });
+    if (!recipient || recipient.status !== 'queued' || !recipient.channel) return;
+
+    const { campaign, customer } = recipient;
+    if (campaign.status === 'paused') return;
+    if (campaign.status === 'cancelled') {
+      return this.skip(recipient.id, 'Campaign cancelled');
+    }
+
+    const channel = recipient.channel as CampaignChannel;
+    const address = channel === 'email' ? customer.email : customer.phone;
+    if (!address || !customer.isActive) {
+      return this.skip(recipient.id, `Customer has no ${channel === 'email' ? 'email' : 'phone'}`);
+    }
+
+    const optOut = await this.prisma.marketingOptOut.findUnique({
+      where: { customerId_channel: { customerId: customer.id, channel } },
+    });
+    if (optOut) return this.skip(recipient.id, `Opted out of ${channel}`);
+
+    const recent = await this.prisma.campaignRecipient.findFirst({
+      where: {
+        customerId: customer.id,
+        status: 'sent',
+        sentAt: { gte: new Date(now.getTime() - FREQUENCY_CAP_HOURS * HOUR_MS) },
+      },
+      select: { id: true },
+    });
+    if (recent) {
+      return this.skip(recipient.id, `Already messaged in the last ${FREQUENCY_CAP_HOURS} hours`);
+    }
+
+    const templates = campaign.templates as unknown as CampaignTemplate[];
+    const template = templates.find((t) => t.channel === channel);
+    if (!template) return this.skip(recipient.id, `Campaign has no ${channel} template`);
+
+    const voucher =
+      recipient.voucher ??
+      (campaign.promotionId ? await this.issueVoucher(recipient.id, campaign, now) : null);
+
+    const values = {
+      name: customer.name,
+      first_name: customer.name.trim().split(/\s+/)[0] ?? '',
+      business_name: campaign.business.name,
+      tier: customer.loyaltyTier,
+      points: String(customer.loyaltyPoints),
+      voucher_code: voucher?.code ?? '',
+      voucher_expiry: voucher?.expiresAt ? formatLocalDate(voucher.expiresAt) : '',
+      unsubscribe_url: this.unsubscribeUrl(recipient.unsubscribeToken),
+    };
+    const title = renderCampaignTemplate(template.subject ?? campaign.name, values);
+    const body = renderCampaignTemplate(template.body, values);
+
+    // Claimed by stamping sentAt just before sending: a resumed campaign may queue a
+    // message whose earlier job is still pending, and only one of them may send it.
+    // A claim left behind by a worker that died mid-send lapses after a while
+    const claimed = await this.prisma.campaignRecipient.updateMany({
+      where: {
+        id: recipient.id,
+        status: 'queued',
+        OR: [{ sentAt: null }, { sentAt: { lt: new Date(now.getTime() - CLAIM_TIMEOUT_MS) } }],
+      },
+      data: { sentAt: now, message: body, error: null },
+    });
+    if (claimed.count === 0) return;
+
+    try {
+      // recipientId refers to employees in the notification log; customers are
+      // addressed by phone and email only
+      await this.dispatcher.deliver({
+        recipientId: '',
+        channel,
+        title,
+        body,
+        metadata: {
+          businessId: campaign.businessId,
+          notificationType: 'marketing',
+          campaignId: campaign.id,
+          customerId: customer.id,
+          [channel === 'email' ? 'email' : 'phone']: address,
+        },
+      });
+    } catch (error) {
+      // Released for BullMQ to retry, and for markFailed once it gives up
+      await this.prisma.campaignRecipient.updateMany({
+        where: { id: recipient.id, status: 'queued', sentAt: now },
+        data: { sentAt: null },
+      });
+      throw error;
+    }
+
+    await this.prisma.campaignRecipient.update({
+      where: { id: recipient.id },
+      data: { status: 'sent' },
+    });
+  }
+
+  /** Marks a message failed once BullMQ has given up retrying it */
+  async markFailed(recipientId: string, error: string): Promise<void> {
+    await this.prisma.campaignRecipient.updateMany({
+      where: { id: recipientId, status: 'queued' },
+      data: { status: 'failed', error },
+    });
+  }
+
+  // One voucher per recipient, created with the link so a retry cannot issue a second
+  private async issueVoucher(recipientId: string, campaign: MarketingCampaign, now: Date) {
+    const updated = await this.prisma.campaignRecipient.update({
+      where: { id: recipientId },
+      data: {
+        voucher: {
+          create: {
+            businessId: campaign.businessId,
+            promotionId: campaign.promotionId,
+            code: `CMP-${randomBytes(4).toString('hex').toUpperCase()}`,
+            expiresAt: campaign.voucherValidDays
+              ? new Date(now.getTime() + campaign.voucherValidDays * DAY_MS)
+              : null,
+          },
+        },
+      },
+      include: { voucher: true },
+    });
+    return updated.voucher;
+  }
+
+  private async skip(recipientId: string, reason: string): Promise<void> {
+    await this.prisma.campaignRecipient.update({
+      where: { id: recipientId },
+      data: { status: 'skipped', error: reason },
+    });
+  }
+
+  // ========================================================================
+  // HELPERS
+  // ========================================================================
+
+  /** First channel of the campaign the customer has an address for and has not opted out of */
+  private pickChannel(
+    customer: Pick<AudienceCustomer, 'id' | 'email' | 'phone'>,
+    templates: CampaignTemplate[],
+    optedOut: Set<string>,
+  ): CampaignChannel | null {
+    for (const { channel } of templates) {
+      const address = channel === 'email' ? customer.email : customer.phone;
+      if (address && !optedOut.has(`${customer.id}:${channel}`)) return channel;
+    }
+    return null;
+  }
+
+  private async optedOut(customerIds: string[]): Promise<Set<string>> {
+    if (customerIds.length === 0) return new Set();
+    const optOuts = await this.prisma.marketingOptOut.findMany({
+      where: { customerId: { in: customerIds } },
+      select: { customerId: true, channel: true },
+    });
+    return new Set(optOuts.map((optOut) => `${optOut.customerId}:${optOut.channel}`));
+  }
+
+  private unsubscribeUrl(token: string): string {
+    const frontendUrl = process.env['FRONTEND_URL'] ?? 'http://localhost:5173';
+    return `${frontendUrl}/unsubscribe/${token}`;
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EventBusService } from '../../infrastructure/events/event-bus.service';
+import { TransactionCreatedEvent } from '../../domain/events/transaction-created.event';
+import { LoyaltyTierChangedEvent } from '../../domain/events/loyalty-tier-changed.event';
+import { CampaignsService } from './campaigns.service';
+import { CampaignAttributionService } from './campaign-attribution.service';
+
+/**
+ * Credits sales to the campaign that brought the customer in, and sends the
+ * tier_upgraded campaigns when a customer reaches a higher loyalty tier.
+ */
+@Injectable()
+export class CampaignEventListener implements OnModuleInit {
+  private readonly logger = new Logger(CampaignEventListener.name);
+
+  constructor(
+    private readonly eventBus: EventBusService,
+    private readonly campaignsService: CampaignsService,
+    private readonly attribution: CampaignAttributionService,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.ofType(TransactionCreatedEvent).subscribe((event) => {
+      if (!event.customerId) return;
+      void this.attribute(event.transactionId);
+    });
+
+    this.eventBus.ofType(LoyaltyTierChangedEvent).subscribe((event) => {
+      if (!event.isUpgrade) return;
+      void this.sendTierCampaigns(event);
+    });
+  }
+
+  private async attribute(transactionId: string): Promise<void> {
+    try {
+      await this.attribution.attribute(transactionId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to attribute transaction ${transactionId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async sendTierCampaigns(event: LoyaltyTierChangedEvent): Promise<void> {
+    try {
+      await this.campaignsService.handleTierUpgrade(
+        event.businessId,
+        event.customerId,
+        event.newTier,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send tier campaigns to customer ${event.customerId}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type { NotificationChannel } from '@prisma/client';
+import type { SegmentName } from '../customers/customers.types';
+
+/** Channels a campaign can send on; push needs a device token customers do not have */
+export const CAMPAIGN_CHANNELS = ['whatsapp', 'email', 'sms'] as const;
+export type CampaignChannel = (typeof CAMPAIGN_CHANNELS)[number] & NotificationChannel;
+
+export const CAMPAIGN_SEGMENTS: SegmentName[] = ['new', 'returning', 'vip', 'at-risk', 'inactive'];
+
+/** One message of a campaign; the subject is the email subject or message heading */
+export interface CampaignTemplate {
+  channel: CampaignChannel;
+  subject?: string;
+  body: string;
+}
+
+/** Which customers a campaign targets; all filters must match */
+export interface CampaignAudience {
+  segment?: SegmentName;
+  loyaltyTiers?: string[];
+  minTotalSpent?: number;
+  minVisitCount?: number;
+}
+
+export const CAMPAIGN_TEMPLATE_VARIABLES = {
+  name: 'Full name of the customer',
+  first_name: 'First word of the customer name',
+  business_name: 'Name of the business',
+  tier: 'Loyalty tier of the customer',
+  points: 'Loyalty points balance',
+  voucher_code: 'Single-use voucher code, when the campaign attaches a promotion',
+  voucher_expiry: 'Expiry date of the voucher',
+  unsubscribe_url: 'Link that opts the customer out of this channel',
+} as const;
+
+export type CampaignTemplateVariable = keyof typeof CAMPAIGN_TEMPLATE_VARIABLES;
+export type CampaignTemplateValues = Record<CampaignTemplateVariable, string>;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/** Variable names used in a template, e.g. "{{ first_name }}" gives "first_name" */
+export function templateVariables(template: string): string[] {
+  return [...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]);
+}
+
+/** Variable names the renderer would not know how to fill */
+export function unknownTemplateVariables(template: string): string[] {
+  return templateVariables(template).filter((name) => !(name in CAMPAIGN_TEMPLATE_VARIABLES));
+}
+
+/** Fills in the {{ variable }} placeholders; unknown ones are left as written */
+export function renderCampaignTemplate(template: string, values: CampaignTemplateValues): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    name in values ? values[name as CampaignTemplateVariable] : placeholder,
+  );
+}
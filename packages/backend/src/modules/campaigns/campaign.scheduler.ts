@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { CampaignsService } from './campaigns.service';
+
+@Injectable()
+export class CampaignScheduler {
+  private readonly logger = new Logger(CampaignScheduler.name);
+
+  constructor(private readonly campaignsService: CampaignsService) {}
+
+  /**
+   * Run every minute to send due broadcasts and complete finished ones
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processBroadcasts() {
+    try {
+      const launched = await this.campaignsService.launchDue();
+      const completed = await this.campaignsService.completeFinished();
+      if (launched > 0 || completed > 0) {
+        this.logger.log(`Launched ${launched} and completed ${completed} campaigns`);
+      }
+    } catch (error) {
+      this.logger.error(`Campaign broadcast job failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Run every morning to message today's birthdays and lapsed customers
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_9AM)
+  async runDailyTriggers() {
+    try {
+      const queued = await this.campaignsService.runDailyTriggers();
+      this.logger.log(`Queued ${queued} triggered campaign messages`);
+    } catch (error) {
+      this.logger.error(`Campaign trigger job failed: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { FeatureGuard, RequireFeature } from '../../common/guards/feature.guard';
+import {
+  CampaignQueryDto,
+  CampaignRecipientQueryDto,
+  CreateCampaignDto,
+  CreateMarketingOptOutDto,
+  MarketingOptOutQueryDto,
+  UpdateCampaignDto,
+} from '../../application/dtos/campaign.dto';
+import { CampaignsService } from './campaigns.service';
+import { MarketingOptOutsService } from './marketing-opt-outs.service';
+import { CAMPAIGN_TEMPLATE_VARIABLES } from './campaign-template.util';
+
+@ApiTags('Marketing')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard, FeatureGuard)
+@RequirePermission('marketing.campaigns')
+@RequireFeature('marketing_campaigns')
+@Controller('marketing')
+export class CampaignsController {
+  constructor(
+    private readonly campaignsService: CampaignsService,
+    private readonly optOutsService: MarketingOptOutsService,
+  ) {}
+
+  @Get('template-variables')
+  @ApiOperation({ summary: 'Variables a campaign template can use, e.g. {{first_name}}' })
+  templateVariables() {
+    return { variables: CAMPAIGN_TEMPLATE_VARIABLES };
+  }
+
+  // ==================== Campaigns ====================
+
+  @Get('campaigns')
+  @ApiOperation({ summary: 'Campaigns of the business' })
+  async list(@Query() query: CampaignQueryDto, @CurrentUser() user: AuthUser) {
+    return this.campaignsService.list(user.businessId, query);
+  }
+
+  @Get('campaigns/:id')
+  @ApiOperation({ summary: 'A campaign' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.campaignsService.findOne(user.businessId, id);
+  }
+
+  @Post('campaigns')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a draft campaign' })
+  async create(@Body() dto: CreateCampaignDto, @CurrentUser() user: AuthUser) {
+    return this.campaignsService.create(user.businessId, user.employeeId, dto);
+  }
+
+  @Patch('campaigns/:id')
+  @ApiOperation({ summary: 'Edit a campaign that is not running' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateCampaignDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.campaignsService.update(user.businessId, id, dto);
+  }
+
+  @Get('campaigns/:id/reach')
+  @ApiOperation({ summary: 'Customers the campaign would reach now, per channel' })
+  async reach(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.campaignsService.reach(user.businessId, id);
+  }
+
+  @Post('campaigns/:id/launch')
+  @ApiOperation({ summary: 'Send or schedule a broadcast, or activate a triggered campaign' })
+  async launch(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.campaignsService.launch(user.businessId, id);
+  }
+
+  @Post('campaigns/:id/pause')
+  @ApiOperation({ summary: 'Hold the messages not yet sent' })
+  async pause(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.campaignsService.pause(user.businessId, id);
+  }
+
+  @Post('campaigns/:id/resume')
+  @ApiOperation({ summary: 'Send the held messages again' })
+  async resume(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.campaignsService.resume(user.businessId, id);
+  }
+
+  @Post('campaigns/:id/cancel')
+  @ApiOperation({ summary: 'Stop a campaign for good; unsent messages are skipped' })
+  async cancel(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.campaignsService.cancel(user.businessId, id);
+  }
+
+  @Get('campaigns/:id/recipients')
+  @ApiOperation({ summary: 'Messages of a campaign with their status' })
+  async recipients(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: CampaignRecipientQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.campaignsService.listRecipients(user.businessId, id, query);
+  }
+
+  @Get('campaigns/:id/stats')
+  @ApiOperation({ summary: 'Delivery, voucher redemption and attributed sales of a campaign' })
+  async stats(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.campaignsService.getStats(user.businessId, id);
+  }
+
+  // ==================== Opt-outs ====================
+
+  @Get('opt-outs')
+  @ApiOperation({ summary: 'Customers who opted out of a channel' })
+  async listOptOuts(@Query() query: MarketingOptOutQueryDto, @CurrentUser() user: AuthUser) {
+    return this.optOutsService.list(user.businessId, query.customerId);
+  }
+
+  @Post('opt-outs')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Record an opt-out the customer asked for in person' })
+  async createOptOut(@Body() dto: CreateMarketingOptOutDto, @CurrentUser() user: AuthUser) {
+    return this.optOutsService.create(user.businessId, dto);
+  }
+
+  @Delete('opt-outs/:id')
+  @ApiOperation({ summary: 'Opt the customer back in to a channel' })
+  async removeOptOut(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.optOutsService.remove(user.businessId, id);
+  }
+}
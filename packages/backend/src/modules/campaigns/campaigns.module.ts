@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { BusinessModule } from '../business/business.module';
+import { CustomersModule } from '../customers/customers.module';
+import { CampaignProcessor } from '../../infrastructure/queues/processors/campaign.processor';
+import { CampaignsController } from './campaigns.controller';
+import { UnsubscribeController } from './unsubscribe.controller';
+import { CampaignsService } from './campaigns.service';
+import { CampaignDeliveryService } from './campaign-delivery.service';
+import { CampaignAttributionService } from './campaign-attribution.service';
+import { MarketingOptOutsService } from './marketing-opt-outs.service';
+import { CampaignScheduler } from './campaign.scheduler';
+import { CampaignEventListener } from './campaign-event.listener';
+
+@Module({
+  imports: [BusinessModule, CustomersModule],
+  controllers: [CampaignsController, UnsubscribeController],
+  providers: [
+    CampaignsService,
+    CampaignDeliveryService,
+    CampaignAttributionService,
+    MarketingOptOutsService,
+    CampaignScheduler,
+    CampaignEventListener,
+    CampaignProcessor,
+  ],
+})
+export class CampaignsModule {}
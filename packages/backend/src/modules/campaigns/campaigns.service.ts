@@ -0,0 +1,437 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { MarketingCampaign, MarketingCampaignStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type {
+  CampaignQueryDto,
+  CampaignRecipientQueryDto,
+  CampaignTemplateDto,
+  CreateCampaignDto,
+  UpdateCampaignDto,
+} from '../../application/dtos/campaign.dto';
+import { formatLocalDate } from '../reports/scheduled/report-schedule.util';
+import { CampaignDeliveryService, type AudienceCustomer } from './campaign-delivery.service';
+import { templateVariables, unknownTemplateVariables } from './campaign-template.util';
+
+const DEFAULT_LAPSED_DAYS = 60;
+const VOUCHER_VARIABLES = ['voucher_code', 'voucher_expiry'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Content can change until the campaign is running */
+const EDITABLE_STATUSES: MarketingCampaignStatus[] = ['draft', 'scheduled', 'paused'];
+
+/**
+ * CampaignsService - Marketing campaigns to customer segments
+ *
+ * A campaign without a trigger is a broadcast: launched, it goes to its
+ * audience once, now or at scheduledAt. A campaign with a trigger stays
+ * active and messages each customer of its audience as they turn a year
+ * older, lapse or reach a new loyalty tier.
+ */
+@Injectable()
+export class CampaignsService {
+  private readonly logger = new Logger(CampaignsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly delivery: CampaignDeliveryService,
+  ) {}
+
+  // ==================== Campaigns ====================
+
+  async list(businessId: string, query: CampaignQueryDto) {
+    return this.prisma.marketingCampaign.findMany({
+      where: { businessId, ...(query.status && { status: query.status }) },
+      include: { _count: { select: { recipients: true, attributions: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(businessId: string, id: string): Promise<MarketingCampaign> {
+    const campaign = await this.prisma.marketingCampaign.findFirst({ where: { id, businessId } });
+    if (!campaign) {
+      throw new AppError(ErrorCode.CAMPAIGN_NOT_FOUND, 'Campaign not found', HttpStatus.NOT_FOUND);
+    }
+    return campaign;
+  }
+
+  async create(businessId: string, employeeId: string, dto: CreateCampaignDto) {
+    this.validateTemplates(dto.templates, !!dto.promotionId);
+    if (dto.trigger && dto.scheduledAt) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'Triggered campaigns run continuously once launched; leave out scheduledAt',
+      );
+    }
+    if (dto.promotionId) await this.assertPromotion(businessId, dto.promotionId);
+
+    return this.prisma.marketingCampaign.create({
+      data: {
+        businessId,
+        name: dto.name,
+        description: dto.description,
+        templates: dto.templates as unknown as Prisma.InputJsonValue,
+        audience: (dto.audience ?? {}) as Prisma.InputJsonValue,
+        trigger: dto.trigger ?? null,
+        lapsedDays: dto.trigger === 'lapsed' ? (dto.lapsedDays ?? DEFAULT_LAPSED_DAYS) : null,
+        scheduledAt: dto.scheduledAt ? new Date(dto.scheduledAt) : null,
+        sendRatePerMinute: dto.sendRatePerMinute,
+        promotionId: dto.promotionId ?? null,
+        voucherValidDays: dto.voucherValidDays ?? null,
+        attributionWindowDays: dto.attributionWindowDays,
+        createdBy: employeeId,
+      },
+    });
+  }
+
+  async update(businessId: string, id: string, dto: UpdateCampaignDto) {
+    const campaign = await this.findOne(businessId, id);
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        `A ${campaign.status} campaign can no longer be edited`,
+      );
+    }
+    if (dto.templates) this.validateTemplates(dto.templates, !!campaign.promotionId);
+    if (dto.scheduledAt && campaign.trigger) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Triggered campaigns are not scheduled');
+    }
+
+    return this.prisma.marketingCampaign.update({
+      where: { id: campaign.id },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        templates: dto.templates as unknown as Prisma.InputJsonValue | undefined,
+        audience: dto.audience as Prisma.InputJsonValue | undefined,
+        lapsedDays: campaign.trigger === 'lapsed' ? dto.lapsedDays : undefined,
+        scheduledAt: dto.scheduledAt ? new Date(dto.scheduledAt) : undefined,
+        sendRatePerMinute: dto.sendRatePerMinute,
+        voucherValidDays: dto.voucherValidDays,
+        attributionWindowDays: dto.attributionWindowDays,
+      },
+    });
+  }
+
+  /** How many customers the campaign would reach right now, per channel */
+  async reach(businessId: string, id: string) {
+    const campaign = await this.findOne(businessId, id);
+    return this.delivery.reach(campaign);
+  }
+
+  // ==================== Lifecycle ====================
+
+  /**
+   * Starts a draft: triggered campaigns become active, broadcasts are sent
+   * now or scheduled for their scheduledAt
+   */
+  async launch(businessId: string, id: string, now = new Date()) {
+    const campaign = await this.findOne(businessId, id);
+    if (campaign.status !== 'draft') {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Only draft campaigns can be launched');
+    }
+
+    if (campaign.trigger) {
+      return this.prisma.marketingCampaign.update({
+        where: { id: campaign.id },
+        data: { status: 'active', startedAt: now },
+      });
+    }
+    if (campaign.scheduledAt && campaign.scheduledAt > now) {
+      return this.prisma.marketingCampaign.update({
+        where: { id: campaign.id },
+        data: { status: 'scheduled' },
+      });
+    }
+
+    await this.startBroadcast(campaign, now);
+    return this.findOne(businessId, id);
+  }
+
+  async pause(businessId: string, id: string) {
+    const campaign = await this.findOne(businessId, id);
+    if (campaign.status !== 'sending' && campaign.status !== 'active') {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'Only sending or active campaigns can be paused',
+      );
+    }
+    return this.prisma.marketingCampaign.update({
+      where: { id: campaign.id },
+      data: { status: 'paused' },
+    });
+  }
+
+  async resume(businessId: string, id: string) {
+    const campaign = await this.findOne(businessId, id);
+    if (campaign.status !== 'paused') {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Only paused campaigns can be resumed');
+    }
+    const resumed = await this.prisma.marketingCampaign.update({
+      where: { id: campaign.id },
+      data: { status: campaign.trigger ? 'active' : 'sending' },
+    });
+    // Jobs that ran while paused left their messages queued
+    await this.delivery.requeue(resumed);
+    return resumed;
+  }
+
+  async cancel(businessId: string, id: string, now = new Date()) {
+    const campaign = await this.findOne(businessId, id);
+    if (campaign.status === 'completed' || campaign.status === 'cancelled') {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        `The campaign is already ${campaign.status}`,
+      );
+    }
+    await this.prisma.campaignRecipient.updateMany({
+      where: { campaignId: campaign.id, status: 'queued' },
+      data: { status: 'skipped', error: 'Campaign cancelled' },
+    });
+    return this.prisma.marketingCampaign.update({
+      where: { id: campaign.id },
+      data: { status: 'cancelled', completedAt: now },
+    });
+  }
+
+  /**
+   * Queues a broadcast to its whole audience. The status change is claimed
+   * first so two schedulers cannot send the same broadcast twice.
+   */
+  async startBroadcast(campaign: MarketingCampaign, now = new Date()): Promise<number> {
+    const claimed = await this.prisma.marketingCampaign.updateMany({
+      where: { id: campaign.id, status: { in: ['draft', 'scheduled'] } },
+      data: { status: 'sending', startedAt: now },
+    });
+    if (claimed.count === 0) return 0;
+
+    const customers = await this.delivery.resolveAudience(campaign);
+    const queued = await this.delivery.enqueue(campaign, customers);
+    if (queued === 0) {
+      await this.prisma.marketingCampaign.update({
+        where: { id: campaign.id },
+        data: { status: 'completed', completedAt: now },
+      });
+    }
+    this.logger.log(`Campaign ${campaign.id}: queued ${queued} of ${customers.length} messages`);
+    return queued;
+  }
+
+  // ==================== Scheduled work ====================
+
+  /** Sends the scheduled broadcasts that are due */
+  async launchDue(now = new Date()): Promise<number> {
+    const due = await this.prisma.marketingCampaign.findMany({
+      where: { status: 'scheduled', trigger: null, scheduledAt: { lte: now } },
+    });
+    for (const campaign of due) {
+      await this.startBroadcast(campaign, now);
+    }
+    return due.length;
+  }
+
+  /** Completes broadcasts whose messages have all been sent or given up on */
+  async completeFinished(now = new Date()): Promise<number> {
+    const result = await this.prisma.marketingCampaign.updateMany({
+      where: { status: 'sending', recipients: { none: { status: 'queued' } } },
+      data: { status: 'completed', completedAt: now },
+    });
+    return result.count;
+  }
+
+  /**
+   * Messages the customers who have a birthday today or have just lapsed.
+   * The trigger key records the birthday year or the last visit, so a
+   * customer is messaged once per birthday and once per lapse.
+   */
+  async runDailyTriggers(now = new Date()): Promise<number> {
+    const campaigns = await this.prisma.marketingCampaign.findMany({
+      where: { status: 'active', trigger: { in: ['birthday', 'lapsed'] } },
+    });
+
+    let queued = 0;
+    for (const campaign of campaigns) {
+      const customers = await this.delivery.resolveAudience(campaign);
+      if (campaign.trigger === 'birthday') {
+        const year = formatLocalDate(now).slice(0, 4);
+        const matches = this.birthdaysToday(customers, now);
+        queued += await this.delivery.enqueue(campaign, matches, `birthday:${year}`);
+      } else {
+        const cutoff = now.getTime() - (campaign.lapsedDays ?? DEFAULT_LAPSED_DAYS) * DAY_MS;
+        const matches = customers.filter(
+          (customer) => customer.lastVisitAt && customer.lastVisitAt.getTime() <= cutoff,
+        );
+        // Keyed by the last visit: a customer who comes back and lapses again is messaged again
+        queued += await this.delivery.enqueue(
+          campaign,
+          matches,
+          (customer) => `lapsed:${customer.lastVisitAt?.toISOString().slice(0, 10)}`,
+        );
+      }
+    }
+    return queued;
+  }
+
+  /** Messages a customer who just reached a new loyalty tier */
+  async handleTierUpgrade(businessId: string, customerId: string, newTier: string) {
+    const campaigns = await this.prisma.marketingCampaign.findMany({
+      where: { businessId, status: 'active', trigger: 'tier_upgraded' },
+    });
+
+    let queued = 0;
+    for (const campaign of campaigns) {
+      const customers = await this.delivery.resolveAudience(campaign);
+      const customer = customers.find((c) => c.id === customerId);
+      if (!customer) continue;
+      queued += await this.delivery.enqueue(campaign, [customer], `tier:${newTier}`);
+    }
+    return queued;
+  }
+
+  // ==================== Reporting ====================
+
+  async listRecipients(businessId: string, id: string, query: CampaignRecipientQueryDto) {
+    const campaign = await this.findOne(businessId, id);
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const where: Prisma.CampaignRecipientWhereInput = {
+      campaignId: campaign.id,
+      ...(query.status && { status: query.status }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.campaignRecipient.findMany({
+        where,
+        select: {
+          id: true,
+          customerId: true,
+          customer: { select: { name: true } },
+          triggerKey: true,
+          channel: true,
+          status: true,
+          error: true,
+          voucher: { select: { code: true, usedAt: true } },
+          sentAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.campaignRecipient.count({ where }),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  /** Delivery, voucher and attributed sales figures of a campaign */
+  async getStats(businessId: string, id: string) {
+    const campaign = await this.findOne(businessId, id);
+    const campaignId = campaign.id;
+
+    const [byStatus, byChannel, vouchersIssued, attributed, vouchersRedeemed, converted] =
+      await Promise.all([
+        this.prisma.campaignRecipient.groupBy({
+          by: ['status'],
+          where: { campaignId },
+          _count: { _all: true },
+        }),
+        this.prisma.campaignRecipient.groupBy({
+          by: ['channel'],
+          where: { campaignId, status: 'sent' },
+          _count: { _all: true },
+        }),
+        this.prisma.campaignRecipient.count({ where: { campaignId, voucherId: { not: null } } }),
+        this.prisma.campaignAttribution.aggregate({
+          where: { campaignId },
+          _count: { _all: true },
+          _sum: { revenue: true },
+        }),
+        this.prisma.campaignAttribution.count({ where: { campaignId, voucherRedeemed: true } }),
+        this.prisma.campaignAttribution.groupBy({ by: ['recipientId'], where: { campaignId } }),
+      ]);
+
+    const recipients = { total: 0, queued: 0, sent: 0, failed: 0, skipped: 0 };
+    for (const row of byStatus) {
+      recipients[row.status] = row._count._all;
+      recipients.total += row._count._all;
+    }
+    const sentByChannel = { whatsapp: 0, email: 0, sms: 0 };
+    for (const row of byChannel) {
+      if (row.channel && row.channel in sentByChannel) {
+        sentByChannel[row.channel as keyof typeof sentByChannel] = row._count._all;
+      }
+    }
+
+    return {
+      campaignId,
+      status: campaign.status,
+      recipients,
+      sentByChannel,
+      vouchersIssued,
+      vouchersRedeemed,
+      transactions: attributed._count._all,
+      revenue: Number(attributed._sum.revenue ?? 0),
+      convertedRecipients: converted.length,
+      conversionRate: recipients.sent > 0 ? converted.length / recipients.sent : 0,
+    };
+  }
+
+  // ==================== Helpers ====================
+
+  private validateTemplates(templates: CampaignTemplateDto[], hasPromotion: boolean): void {
+    const channels = templates.map((t) => t.channel);
+    if (new Set(channels).size !== channels.length) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Each channel can have one template');
+    }
+
+    for (const template of templates) {
+      const text = `${template.subject ?? ''} ${template.body}`;
+      const unknown = unknownTemplateVariables(text);
+      if (unknown.length > 0) {
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          `Unknown variables in the ${template.channel} template: ${unknown.join(', ')}`,
+        );
+      }
+      if (!hasPromotion && templateVariables(text).some((v) => VOUCHER_VARIABLES.includes(v))) {
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          'Voucher variables need a promotion attached to the campaign',
+        );
+      }
+    }
+  }
+
+  private async assertPromotion(businessId: string, promotionId: string): Promise<void> {
+    const promotion = await this.prisma.promotion.findFirst({
+      where: { id: promotionId, businessId },
+      select: { isActive: true },
+    });
+    if (!promotion) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Promotion not found', HttpStatus.NOT_FOUND);
+    }
+    if (!promotion.isActive) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'Vouchers cannot be issued for an inactive promotion',
+      );
+    }
+  }
+
+  // Feb 29 birthdays are celebrated on Feb 28 in other years
+  private birthdaysToday(customers: AudienceCustomer[], now: Date): AudienceCustomer[] {
+    const today = formatLocalDate(now);
+    const isLeapYear = new Date(Date.UTC(Number(today.slice(0, 4)), 1, 29)).getUTCMonth() === 1;
+    return customers.filter((customer) => {
+      if (!customer.dateOfBirth) return false;
+      const birthday = customer.dateOfBirth.toISOString().slice(5, 10);
+      return (
+        birthday === today.slice(5) ||
+        (birthday === '02-29' && !isLeapYear && today.endsWith('02-28'))
+      );
+    });
+  }
+}
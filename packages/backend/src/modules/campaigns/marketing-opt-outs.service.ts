@@ -0,0 +1,97 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { AppError } from '../../shared/errors/app-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type { CreateMarketingOptOutDto } from '../../application/dtos/campaign.dto';
+import type { CampaignChannel } from './campaign-template.util';
+
+/**
+ * MarketingOptOutsService - Which customers must not get campaign messages
+ *
+ * Opt-outs are per channel: a customer who unsubscribes from WhatsApp can
+ * still get email. Customers opt out through the link in a message; staff
+ * can record an opt-out asked for at the counter.
+ */
+@Injectable()
+export class MarketingOptOutsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async list(businessId: string, customerId?: string) {
+    return this.prisma.marketingOptOut.findMany({
+      where: { businessId, ...(customerId && { customerId }) },
+      include: { customer: { select: { id: true, name: true, phone: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async create(businessId: string, dto: CreateMarketingOptOutDto) {
+    const customer = await this.prisma.customer.findFirst({
+      where: { id: dto.customerId, businessId },
+      select: { id: true },
+    });
+    if (!customer) {
+      throw new AppError(ErrorCode.CUSTOMER_NOT_FOUND, 'Customer not found', HttpStatus.NOT_FOUND);
+    }
+    return this.optOut(businessId, customer.id, dto.channel, 'staff');
+  }
+
+  async remove(businessId: string, id: string) {
+    const optOut = await this.prisma.marketingOptOut.findFirst({ where: { id, businessId } });
+    if (!optOut) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Opt-out not found', HttpStatus.NOT_FOUND);
+    }
+    await this.prisma.marketingOptOut.delete({ where: { id: optOut.id } });
+    return { message: 'Customer will receive campaign messages on this channel again' };
+  }
+
+  // ==================== Unsubscribe link ====================
+
+  /** What the unsubscribe page shows before the customer confirms */
+  async describeToken(token: string) {
+    const recipient = await this.findByToken(token);
+    const optOut = await this.prisma.marketingOptOut.findUnique({
+      where: {
+        customerId_channel: { customerId: recipient.customerId, channel: recipient.channel },
+      },
+    });
+    return {
+      businessName: recipient.campaign.business.name,
+      channel: recipient.channel,
+      unsubscribed: optOut !== null,
+    };
+  }
+
+  async unsubscribe(token: string) {
+    const recipient = await this.findByToken(token);
+    await this.optOut(recipient.businessId, recipient.customerId, recipient.channel, 'link');
+    return {
+      businessName: recipient.campaign.business.name,
+      channel: recipient.channel,
+      unsubscribed: true,
+    };
+  }
+
+  private async findByToken(token: string) {
+    const recipient = await this.prisma.campaignRecipient.findUnique({
+      where: { unsubscribeToken: token },
+      include: { campaign: { select: { business: { select: { name: true } } } } },
+    });
+    if (!recipient?.channel) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Unsubscribe link not found', HttpStatus.NOT_FOUND);
+    }
+    return { ...recipient, channel: recipient.channel as CampaignChannel };
+  }
+
+  private async optOut(
+    businessId: string,
+    customerId: string,
+    channel: CampaignChannel,
+    source: 'link' | 'staff',
+  ) {
+    return this.prisma.marketingOptOut.upsert({
+      where: { customerId_channel: { customerId, channel } },
+      create: { businessId, customerId, channel, source },
+      update: {},
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { Controller, Get, Post, Param, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { WithoutPermission } from '../../infrastructure/auth/require-permission.decorator';
+import { MarketingOptOutsService } from './marketing-opt-outs.service';
+
+/**
+ * Public endpoints behind the unsubscribe link of campaign messages. The
+ * token in the link identifies the customer and channel, so no login is
+ * needed.
+ */
+@ApiTags('Marketing')
+@WithoutPermission()
+@Controller('marketing/unsubscribe')
+export class UnsubscribeController {
+  constructor(private readonly optOutsService: MarketingOptOutsService) {}
+
+  @Get(':token')
+  @Throttle({ short: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Business and channel an unsubscribe link is for' })
+  async describe(@Param('token') token: string) {
+    return this.optOutsService.describeToken(token);
+  }
+
+  @Post(':token')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ short: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Stop campaign messages on the channel of the link' })
+  async unsubscribe(@Param('token') token: string) {
+    return this.optOutsService.unsubscribe(token);
+  }
+}
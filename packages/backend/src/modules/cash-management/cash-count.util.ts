@@ -0,0 +1,92 @@
+/**
+ * Cash count helpers
+ *
+ * Rupiah denominations a drawer is counted in, totalling a count, and the
+ * cash handling settings of an outlet.
+ */
+
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+
+/** Notes and coins in circulation; 1000 is both, and is counted together */
+export const RUPIAH_DENOMINATIONS = [
+  100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100,
+] as const;
+
+export interface DenominationCount {
+  value: number;
+  count: number;
+}
+
+export interface CashSettings {
+  /** Hide the expected amount from the cashier when the shift is closed */
+  blindClose: boolean;
+  /** Over or short by no more than this counts as balanced in the ledger */
+  overShortTolerance: number;
+}
+
+export const DEFAULT_CASH_SETTINGS: CashSettings = {
+  blindClose: false,
+  overShortTolerance: 0,
+};
+
+/** Reads `settings.cashManagement` of an outlet, falling back per field to the defaults */
+export function resolveCashSettings(outletSettings: unknown): CashSettings {
+  const raw = ((outletSettings as Record<string, unknown> | null)?.cashManagement ?? {}) as Record<
+    string,
+    unknown
+  >;
+  return {
+    blindClose:
+      typeof raw.blindClose === 'boolean' ? raw.blindClose : DEFAULT_CASH_SETTINGS.blindClose,
+    overShortTolerance:
+      typeof raw.overShortTolerance === 'number' && raw.overShortTolerance >= 0
+        ? raw.overShortTolerance
+        : DEFAULT_CASH_SETTINGS.overShortTolerance,
+  };
+}
+
+export function countTotal(counts: DenominationCount[]): number {
+  return counts.reduce((sum, c) => sum + c.value * c.count, 0);
+}
+
+/** Merges repeated denominations and drops empty ones, largest first */
+export function normalizeCount(counts: DenominationCount[]): DenominationCount[] {
+  const merged = new Map<number, number>();
+  for (const c of counts) {
+    merged.set(c.value, (merged.get(c.value) ?? 0) + c.count);
+  }
+  return [...merged.entries()]
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => b - a)
+    .map(([value, count]) => ({ value, count }));
+}
+
+/**
+ * The amount counted: the total of the denominations when they are given,
+ * which has to agree with a typed amount sent alongside them.
+ */
+export function resolveCountedAmount(
+  amount: number | undefined,
+  counts: DenominationCount[] | undefined,
+  label: string,
+): number {
+  if (!counts) {
+    if (amount === undefined) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        `Provide the ${label} or a count by denomination`,
+      );
+    }
+    return amount;
+  }
+
+  const total = countTotal(counts);
+  if (amount !== undefined && amount !== total) {
+    throw new BusinessError(
+      ErrorCode.VALIDATION_ERROR,
+      `The ${label} (${amount}) does not match the denomination count (${total})`,
+    );
+  }
+  return total;
+}
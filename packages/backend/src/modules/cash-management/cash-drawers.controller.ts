@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+} from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  CreateCashDrawerDto,
+  DrawerHandOffDto,
+  LogDrawerEventDto,
+  UpdateCashDrawerDto,
+} from '../../application/dtos/cash-management.dto';
+import { CashDrawersService } from './cash-drawers.service';
+
+@ApiTags('Cash Drawers')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('cash.manage')
+@Controller('cash-drawers')
+export class CashDrawersController {
+  constructor(private readonly cashDrawersService: CashDrawersService) {}
+
+  // ==================== Sessions and reports (before :id) ====================
+
+  @Post('sessions/:sessionId/hand-off')
+  @PermissionOutlet('drawerSession', 'sessionId')
+  @RequirePermission('pos.cash_drawer')
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'End your shift on a sub-count and start the next cashier on it' })
+  async handOff(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: DrawerHandOffDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashDrawersService.handOff(user, sessionId, dto);
+  }
+
+  @Get('sessions/:sessionId/report')
+  @PermissionOutlet('drawerSession', 'sessionId')
+  @ApiOperation({ summary: 'X report of an open drawer session, Z report of a closed one' })
+  async sessionReport(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashDrawersService.sessionReport(user.businessId, sessionId);
+  }
+
+  @Get('sessions/:sessionId/events')
+  @PermissionOutlet('drawerSession', 'sessionId')
+  @ApiOperation({ summary: 'Drawer openings during a session' })
+  async listEvents(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashDrawersService.listEvents(user.businessId, sessionId);
+  }
+
+  @Get('shifts/:shiftId/report')
+  @PermissionOutlet('shift', 'shiftId')
+  @ApiOperation({ summary: "X or Z report of one cashier's shift" })
+  async shiftReport(
+    @Param('shiftId', ParseUUIDPipe) shiftId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashDrawersService.shiftReport(user.businessId, shiftId);
+  }
+
+  // ==================== Drawers ====================
+
+  @Get()
+  @RequirePermission('pos.cash_drawer')
+  @ApiOperation({ summary: 'Cash drawers, with their open session' })
+  async list(@CurrentUser() user: AuthUser, @Query('outletId') outletId?: string) {
+    return this.cashDrawersService.list(user.businessId, outletId);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Attach a cash drawer to a terminal' })
+  async create(@Body() dto: CreateCashDrawerDto, @CurrentUser() user: AuthUser) {
+    return this.cashDrawersService.create(user.businessId, dto);
+  }
+
+  @Patch(':id')
+  @PermissionOutlet('cashDrawer')
+  @ApiOperation({ summary: 'Rename or deactivate a cash drawer' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateCashDrawerDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashDrawersService.update(user.businessId, id, dto);
+  }
+
+  @Get(':id/session')
+  @PermissionOutlet('cashDrawer')
+  @RequirePermission('pos.cash_drawer')
+  @ApiOperation({ summary: 'Open session of a drawer and the cashiers on it' })
+  async currentSession(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.cashDrawersService.currentSession(user.businessId, id);
+  }
+
+  @Get(':id/sessions')
+  @PermissionOutlet('cashDrawer')
+  @ApiOperation({ summary: 'Sessions of a drawer with their Z numbers' })
+  async listSessions(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.cashDrawersService.listSessions(user.businessId, id);
+  }
+
+  @Get(':id/x-report')
+  @PermissionOutlet('cashDrawer')
+  @ApiOperation({ summary: 'X report of the open session of a drawer' })
+  async xReport(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.cashDrawersService.drawerXReport(user.businessId, id);
+  }
+
+  @Post(':id/events')
+  @PermissionOutlet('cashDrawer')
+  @RequirePermission('pos.cash_drawer')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Log the drawer being opened by a terminal' })
+  async logEvent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: LogDrawerEventDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashDrawersService.logEvent(user, id, dto);
+  }
+}
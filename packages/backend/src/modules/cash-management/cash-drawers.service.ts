@@ -0,0 +1,822 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { EventBusService } from '../../infrastructure/events/event-bus.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  decimalToNumber,
+  decimalToNumberRequired,
+} from '../../infrastructure/repositories/decimal.helper';
+import { ShiftStartedEvent } from '../../domain/events/shift-started.event';
+import { ShiftEndedEvent } from '../../domain/events/shift-ended.event';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { queueAuditLog } from '../audit/audit-chain.util';
+import { CashManagementService } from './cash-management.service';
+import {
+  normalizeCount,
+  resolveCashSettings,
+  resolveCountedAmount,
+  type DenominationCount,
+} from './cash-count.util';
+import type {
+  CreateCashDrawerDto,
+  DrawerHandOffDto,
+  LogDrawerEventDto,
+  UpdateCashDrawerDto,
+} from '../../application/dtos/cash-management.dto';
+
+// Compared against when the incoming cashier has no PIN
+const DUMMY_HASH = '$2b$10$abcdefghijklmnopqrstuuABCDEFGHIJKLMNOPQRSTUVWXYZ012';
+
+export interface DrawerShiftInput {
+  drawerId: string;
+  outletId: string;
+  employeeId: string;
+  openingCash?: number;
+  openingCount?: DenominationCount[];
+}
+
+export interface DrawerShiftClose {
+  closingCash?: number;
+  closingCount?: DenominationCount[];
+  blindClose: boolean;
+  endedAt: Date;
+}
+
+export interface DrawerShiftClosed {
+  closingCash: number | null;
+  expectedCash: number | null;
+  difference: number | null;
+  /** Set when the shift was the last one on the drawer and its count closed the session */
+  zNumber: number | null;
+}
+
+interface ShiftForReport {
+  id: string;
+  employeeId: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  status: string;
+  sharedDrawer: boolean;
+  openingCash: Prisma.Decimal;
+  closingCash: Prisma.Decimal | null;
+  cashIn: Prisma.Decimal;
+  cashOut: Prisma.Decimal;
+  employee: { name: string };
+}
+
+const SHIFT_REPORT_SELECT = {
+  id: true,
+  employeeId: true,
+  startedAt: true,
+  endedAt: true,
+  status: true,
+  sharedDrawer: true,
+  openingCash: true,
+  closingCash: true,
+  cashIn: true,
+  cashOut: true,
+  employee: { select: { name: true } },
+} as const;
+
+/**
+ * CashDrawersService - Drawers of a terminal and the sessions cashiers work them in
+ *
+ * A session runs from the float going into a drawer until its Z report. The
+ * first shift on a closed drawer opens a session with its float; further
+ * shifts join it and share the drawer, and the last shift to end counts the
+ * drawer and closes the session. A hand-off instead ends one cashier's shift
+ * on a sub-count and starts the next cashier on the counted cash.
+ */
+@Injectable()
+export class CashDrawersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cashManagement: CashManagementService,
+    private readonly eventBus: EventBusService,
+  ) {}
+
+  // ==========================================================================
+  // Drawers
+  // ==========================================================================
+
+  async list(businessId: string, outletId?: string) {
+    const drawers = await this.prisma.cashDrawer.findMany({
+      where: { businessId, ...(outletId && { outletId }) },
+      include: {
+        device: { select: { deviceName: true } },
+        sessions: {
+          where: { status: 'open' },
+          select: { id: true, openedAt: true },
+        },
+      },
+      orderBy: [{ outletId: 'asc' }, { name: 'asc' }],
+    });
+    return drawers.map((d) => ({
+      id: d.id,
+      outletId: d.outletId,
+      deviceId: d.deviceId,
+      deviceName: d.device.deviceName,
+      name: d.name,
+      isActive: d.isActive,
+      lastZNumber: d.lastZNumber,
+      openSession: d.sessions[0] ?? null,
+    }));
+  }
+
+  async create(businessId: string, dto: CreateCashDrawerDto) {
+    const device = await this.prisma.device.findFirst({
+      where: { id: dto.deviceId, businessId, isActive: true },
+      select: { id: true, outletId: true },
+    });
+    if (!device || !device.outletId) {
+      throw new BusinessError(
+        ErrorCode.DEVICE_NOT_REGISTERED,
+        'Device not registered to an outlet',
+      );
+    }
+
+    const existing = await this.prisma.cashDrawer.findUnique({
+      where: { deviceId_name: { deviceId: dto.deviceId, name: dto.name } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new BusinessError(
+        ErrorCode.DUPLICATE_RESOURCE,
+        `The device already has a drawer named ${dto.name}`,
+      );
+    }
+
+    return this.prisma.cashDrawer.create({
+      data: { businessId, outletId: device.outletId, deviceId: dto.deviceId, name: dto.name },
+    });
+  }
+
+  async update(businessId: string, id: string, dto: UpdateCashDrawerDto) {
+    const drawer = await this.findDrawer(businessId, id);
+    if (dto.isActive === false) {
+      const open = await this.prisma.drawerSession.count({
+        where: { drawerId: drawer.id, status: 'open' },
+      });
+      if (open > 0) {
+        throw new BusinessError(ErrorCode.CONFLICT, 'Close the drawer session first');
+      }
+    }
+    return this.prisma.cashDrawer.update({ where: { id }, data: dto });
+  }
+
+  /** The open session of a drawer with the shifts working it, or null when the drawer is closed */
+  async currentSession(businessId: string, drawerId: string) {
+    await this.findDrawer(businessId, drawerId);
+    return this.prisma.drawerSession.findFirst({
+      where: { drawerId, status: 'open' },
+      include: {
+        shifts: {
+          where: { status: 'open' },
+          select: {
+            id: true,
+            employeeId: true,
+            startedAt: true,
+            sharedDrawer: true,
+            employee: { select: { name: true } },
+          },
+        },
+      },
+    });
+  }
+
+  async listSessions(businessId: string, drawerId: string) {
+    await this.findDrawer(businessId, drawerId);
+    const sessions = await this.prisma.drawerSession.findMany({
+      where: { drawerId },
+      orderBy: { openedAt: 'desc' },
+      take: 100,
+    });
+    return sessions.map((s) => ({
+      id: s.id,
+      status: s.status,
+      zNumber: s.zNumber,
+      openingCash: decimalToNumberRequired(s.openingCash),
+      closingCash: decimalToNumber(s.closingCash),
+      expectedCash: decimalToNumber(s.expectedCash),
+      cashDifference: decimalToNumber(s.cashDifference),
+      openedAt: s.openedAt,
+      closedAt: s.closedAt,
+    }));
+  }
+
+  // ==========================================================================
+  // Shifts on a drawer
+  // ==========================================================================
+
+  /**
+   * Starts a shift on a drawer. On a closed drawer the shift opens a session
+   * with its float; on an open one it joins the session without a float and
+   * every shift then open on the drawer is marked as sharing it.
+   */
+  async openShift(input: DrawerShiftInput) {
+    const drawer = await this.prisma.cashDrawer.findFirst({
+      where: { id: input.drawerId, outletId: input.outletId, isActive: true },
+      select: { id: true },
+    });
+    if (!drawer) {
+      throw new BusinessError(ErrorCode.CASH_DRAWER_NOT_FOUND, 'Cash drawer not found');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // One session per drawer: serialise shifts opening it
+      await tx.$queryRaw`SELECT id FROM cash_drawers WHERE id = ${drawer.id}::uuid FOR UPDATE`;
+
+      const session = await tx.drawerSession.findFirst({
+        where: { drawerId: drawer.id, status: 'open' },
+        select: { id: true },
+      });
+      const startedAt = new Date();
+
+      if (!session) {
+        const openingCash = resolveCountedAmount(
+          input.openingCash,
+          input.openingCount,
+          'opening cash',
+        );
+        const openingCount = input.openingCount
+          ? (normalizeCount(input.openingCount) as unknown as Prisma.InputJsonValue)
+          : undefined;
+        const created = await tx.drawerSession.create({
+          data: {
+            drawerId: drawer.id,
+            outletId: input.outletId,
+            openingCash,
+            openingCount,
+            openedBy: input.employeeId,
+            openedAt: startedAt,
+          },
+        });
+        return tx.shift.create({
+          data: {
+            outletId: input.outletId,
+            employeeId: input.employeeId,
+            startedAt,
+            openingCash,
+            openingCount,
+            drawerSessionId: created.id,
+            status: 'open',
+          },
+        });
+      }
+
+      if (input.openingCash || input.openingCount) {
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          'The drawer is already open; a cashier joining it brings no float',
+        );
+      }
+      const { count: sharing } = await tx.shift.updateMany({
+        where: { drawerSessionId: session.id, status: 'open' },
+        data: { sharedDrawer: true },
+      });
+      return tx.shift.create({
+        data: {
+          outletId: input.outletId,
+          employeeId: input.employeeId,
+          startedAt,
+          openingCash: 0,
+          drawerSessionId: session.id,
+          sharedDrawer: sharing > 0,
+          status: 'open',
+        },
+      });
+    });
+  }
+
+  /**
+   * Ends a shift bound to a drawer session. The last shift on the drawer has
+   * to count it, which closes the session under the next Z number; a shift
+   * leaving a drawer others still work may go uncounted. A shift that shared
+   * its drawer has no over/short of its own.
+   */
+  async closeShift(
+    shift: {
+      id: string;
+      drawerSessionId: string;
+      sharedDrawer: boolean;
+      openingCash: number;
+      cashIn: number | null;
+      cashOut: number | null;
+    },
+    input: DrawerShiftClose,
+    employeeId: string,
+  ): Promise<DrawerShiftClosed> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM drawer_sessions WHERE id = ${shift.drawerSessionId}::uuid FOR UPDATE`;
+
+      const others = await tx.shift.count({
+        where: { drawerSessionId: shift.drawerSessionId, status: 'open', id: { not: shift.id } },
+      });
+      const last = others === 0;
+      const counted = last || input.closingCash !== undefined || input.closingCount !== undefined;
+      const closingCash = counted
+        ? resolveCountedAmount(input.closingCash, input.closingCount, 'closing cash')
+        : null;
+      const expectedCash = shift.sharedDrawer
+        ? null
+        : (await this.cashManagement.drawerSummary(tx, shift)).expectedCash;
+      const difference =
+        closingCash !== null && expectedCash !== null ? closingCash - expectedCash : null;
+      const closingCount = input.closingCount
+        ? (normalizeCount(input.closingCount) as unknown as Prisma.InputJsonValue)
+        : undefined;
+
+      await tx.shift.update({
+        where: { id: shift.id },
+        data: {
+          closingCash,
+          closingCount,
+          expectedCash,
+          cashDifference: difference,
+          blindClose: input.blindClose,
+          endedAt: input.endedAt,
+          status: 'closed',
+        },
+      });
+
+      let zNumber: number | null = null;
+      if (last && closingCash !== null) {
+        zNumber = await this.closeSession(tx, shift.drawerSessionId, {
+          closingCash,
+          closingCount,
+          employeeId,
+          closedAt: input.endedAt,
+        });
+      }
+
+      return { closingCash, expectedCash, difference, zNumber };
+    });
+  }
+
+  /**
+   * Hands the drawer from the current cashier to the next. The outgoing
+   * shift ends on the sub-count and the incoming cashier, confirming with
+   * their PIN, starts on exactly that cash.
+   */
+  async handOff(user: AuthUser, sessionId: string, dto: DrawerHandOffDto) {
+    const session = await this.prisma.drawerSession.findFirst({
+      where: { id: sessionId, status: 'open', drawer: { businessId: user.businessId } },
+      include: { outlet: { select: { settings: true } } },
+    });
+    if (!session) {
+      throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'The drawer session is not open');
+    }
+
+    const outgoing = await this.prisma.shift.findFirst({
+      where: { drawerSessionId: session.id, employeeId: user.employeeId, status: 'open' },
+    });
+    if (!outgoing) {
+      throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'You have no open shift on this drawer');
+    }
+    if (outgoing.sharedDrawer) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'A shared drawer is not handed off; end the shift instead',
+      );
+    }
+    if (dto.toEmployeeId === user.employeeId) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Hand the drawer to another cashier');
+    }
+
+    const incoming = await this.prisma.employee.findFirst({
+      where: { id: dto.toEmployeeId, businessId: user.businessId, isActive: true },
+      select: { id: true, name: true, pin: true },
+    });
+    const verified = await bcrypt.compare(dto.toEmployeePin, incoming?.pin || DUMMY_HASH);
+    if (!incoming || !verified) {
+      throw new AppError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        'Invalid PIN for the incoming cashier',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+    const busy = await this.prisma.shift.findFirst({
+      where: { employeeId: incoming.id, status: 'open' },
+      select: { id: true },
+    });
+    if (busy) {
+      throw new BusinessError(
+        ErrorCode.SHIFT_ALREADY_OPEN,
+        'The incoming cashier already has an open shift',
+      );
+    }
+
+    const countedCash = resolveCountedAmount(dto.countedCash, dto.count, 'counted cash');
+    const count = dto.count
+      ? (normalizeCount(dto.count) as unknown as Prisma.InputJsonValue)
+      : undefined;
+    const { blindClose } = resolveCashSettings(session.outlet.settings);
+    const at = new Date();
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM drawer_sessions WHERE id = ${session.id}::uuid FOR UPDATE`;
+
+      const { expectedCash } = await this.cashManagement.drawerSummary(tx, {
+        id: outgoing.id,
+        openingCash: decimalToNumberRequired(outgoing.openingCash),
+        cashIn: decimalToNumber(outgoing.cashIn),
+        cashOut: decimalToNumber(outgoing.cashOut),
+      });
+      const difference = countedCash - expectedCash;
+
+      const { count: ended } = await tx.shift.updateMany({
+        where: { id: outgoing.id, status: 'open' },
+        data: {
+          closingCash: countedCash,
+          closingCount: count,
+          expectedCash,
+          cashDifference: difference,
+          blindClose,
+          endedAt: at,
+          status: 'closed',
+        },
+      });
+      if (ended === 0) {
+        throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'Shift is not open');
+      }
+
+      const started = await tx.shift.create({
+        data: {
+          outletId: session.outletId,
+          employeeId: incoming.id,
+          startedAt: at,
+          openingCash: countedCash,
+          openingCount: count,
+          drawerSessionId: session.id,
+          status: 'open',
+        },
+      });
+
+      await queueAuditLog(tx, {
+        businessId: user.businessId,
+        outletId: session.outletId,
+        employeeId: user.employeeId,
+        action: 'drawer_hand_off',
+        entityType: 'drawer_session',
+        entityId: session.id,
+        newValue: {
+          fromShiftId: outgoing.id,
+          toShiftId: started.id,
+          toEmployeeId: incoming.id,
+          countedCash,
+          expectedCash,
+          difference,
+        },
+      });
+
+      return { expectedCash, difference, startedId: started.id };
+    });
+
+    const sales = await this.prisma.transaction.aggregate({
+      where: { shiftId: outgoing.id, transactionType: 'sale', status: 'completed' },
+      _sum: { grandTotal: true },
+    });
+    const outgoingEmployee = await this.prisma.employee.findUnique({
+      where: { id: user.employeeId },
+      select: { name: true },
+    });
+    this.eventBus.publish(
+      new ShiftEndedEvent(
+        outgoing.id,
+        user.employeeId,
+        outgoingEmployee?.name ?? '',
+        session.outletId,
+        user.businessId,
+        decimalToNumberRequired(sales._sum.grandTotal),
+        countedCash,
+      ),
+    );
+    this.eventBus.publish(
+      new ShiftStartedEvent(
+        result.startedId,
+        incoming.id,
+        incoming.name,
+        session.outletId,
+        user.businessId,
+      ),
+    );
+
+    return {
+      endedShift: {
+        shiftId: outgoing.id,
+        expectedCash: blindClose ? null : result.expectedCash,
+        actualCash: countedCash,
+        difference: blindClose ? null : result.difference,
+        blindClose,
+        endedAt: at,
+      },
+      startedShift: {
+        shiftId: result.startedId,
+        employeeId: incoming.id,
+        employeeName: incoming.name,
+        openingCash: countedCash,
+        startedAt: at,
+      },
+    };
+  }
+
+  // ==========================================================================
+  // Drawer-open events
+  // ==========================================================================
+
+  /** Logs a drawer opening against the drawer's open session and the caller's shift on it */
+  async logEvent(user: AuthUser, drawerId: string, dto: LogDrawerEventDto) {
+    const drawer = await this.findDrawer(user.businessId, drawerId);
+    const session = await this.prisma.drawerSession.findFirst({
+      where: { drawerId: drawer.id, status: 'open' },
+      select: { id: true },
+    });
+    const shift = session
+      ? await this.prisma.shift.findFirst({
+          where: { drawerSessionId: session.id, employeeId: user.employeeId, status: 'open' },
+          select: { id: true },
+        })
+      : null;
+
+    return this.prisma.drawerEvent.create({
+      data: {
+        drawerId: drawer.id,
+        sessionId: session?.id ?? null,
+        shiftId: shift?.id ?? null,
+        employeeId: user.employeeId,
+        type: dto.type,
+        reference: dto.reference ?? null,
+        reason: dto.reason ?? null,
+        occurredAt: dto.occurredAt ? new Date(dto.occurredAt) : new Date(),
+      },
+    });
+  }
+
+  async listEvents(businessId: string, sessionId: string) {
+    return this.prisma.drawerEvent.findMany({
+      where: { sessionId, drawer: { businessId } },
+      include: { employee: { select: { id: true, name: true } } },
+      orderBy: { occurredAt: 'asc' },
+    });
+  }
+
+  // ==========================================================================
+  // X and Z reports
+  // ==========================================================================
+
+  /** X report of the drawer's open session */
+  async drawerXReport(businessId: string, drawerId: string) {
+    await this.findDrawer(businessId, drawerId);
+    const session = await this.prisma.drawerSession.findFirst({
+      where: { drawerId, status: 'open' },
+      select: { id: true },
+    });
+    if (!session) {
+      throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'The drawer has no open session');
+    }
+    return this.sessionReport(businessId, session.id);
+  }
+
+  /** Report of a drawer session: an X report while it is open, its Z report once closed */
+  async sessionReport(businessId: string, sessionId: string) {
+    const session = await this.prisma.drawerSession.findFirst({
+      where: { id: sessionId, drawer: { businessId } },
+      include: {
+        drawer: { select: { id: true, name: true, device: { select: { deviceName: true } } } },
+        opener: { select: { id: true, name: true } },
+        closer: { select: { id: true, name: true } },
+        shifts: { select: SHIFT_REPORT_SELECT, orderBy: { startedAt: 'asc' } },
+      },
+    });
+    if (!session) {
+      throw new BusinessError(ErrorCode.NOT_FOUND, 'Drawer session not found');
+    }
+
+    const cashiers = await Promise.all(session.shifts.map((s) => this.buildShiftReport(s)));
+    const opens = await this.prisma.drawerEvent.groupBy({
+      by: ['type'],
+      where: { sessionId: session.id },
+      _count: { _all: true },
+    });
+
+    const totals = cashiers.reduce(
+      (acc, c) => ({
+        cashSales: acc.cashSales + c.cashSales,
+        cashRefunds: acc.cashRefunds + c.cashRefunds,
+        cashIn: acc.cashIn + c.cashIn,
+        cashOut: acc.cashOut + c.cashOut,
+        removed: acc.removed + c.removed,
+        sales: acc.sales + c.transactions.sales,
+        refunds: acc.refunds + c.transactions.refunds,
+        grossSales: acc.grossSales + c.transactions.grossSales,
+      }),
+      {
+        cashSales: 0,
+        cashRefunds: 0,
+        cashIn: 0,
+        cashOut: 0,
+        removed: 0,
+        sales: 0,
+        refunds: 0,
+        grossSales: 0,
+      },
+    );
+    const payments = new Map<string, { method: string; amount: number; count: number }>();
+    for (const line of cashiers.flatMap((c) => c.payments)) {
+      const merged = payments.get(line.method) ?? { method: line.method, amount: 0, count: 0 };
+      merged.amount += line.amount;
+      merged.count += line.count;
+      payments.set(line.method, merged);
+    }
+
+    const openingCash = decimalToNumberRequired(session.openingCash);
+    const closed = session.status === 'closed';
+    return {
+      type: closed ? 'Z' : 'X',
+      zNumber: session.zNumber,
+      drawer: {
+        id: session.drawer.id,
+        name: session.drawer.name,
+        deviceName: session.drawer.device.deviceName,
+      },
+      sessionId: session.id,
+      status: session.status,
+      openedAt: session.openedAt,
+      closedAt: session.closedAt,
+      openedBy: session.opener,
+      closedBy: session.closer,
+      openingCash,
+      cashSales: totals.cashSales,
+      cashRefunds: totals.cashRefunds,
+      cashIn: totals.cashIn,
+      cashOut: totals.cashOut,
+      removed: totals.removed,
+      expectedCash: closed
+        ? decimalToNumberRequired(session.expectedCash)
+        : openingCash +
+          totals.cashSales -
+          totals.cashRefunds +
+          totals.cashIn -
+          totals.cashOut -
+          totals.removed,
+      closingCash: decimalToNumber(session.closingCash),
+      difference: decimalToNumber(session.cashDifference),
+      payments: [...payments.values()],
+      transactions: { sales: totals.sales, refunds: totals.refunds, grossSales: totals.grossSales },
+      drawerOpens: this.countOpens(opens),
+      cashiers,
+    };
+  }
+
+  /** Report of one cashier's shift on a drawer: X while it is open, Z once it has ended */
+  async shiftReport(businessId: string, shiftId: string) {
+    const shift = await this.prisma.shift.findFirst({
+      where: { id: shiftId, outlet: { businessId } },
+      select: SHIFT_REPORT_SELECT,
+    });
+    if (!shift) {
+      throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'Shift not found');
+    }
+    return this.buildShiftReport(shift);
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private async findDrawer(businessId: string, id: string) {
+    const drawer = await this.prisma.cashDrawer.findFirst({ where: { id, businessId } });
+    if (!drawer) {
+      throw new BusinessError(ErrorCode.CASH_DRAWER_NOT_FOUND, 'Cash drawer not found');
+    }
+    return drawer;
+  }
+
+  /** Counts the drawer at the end of its session and numbers the Z report */
+  private async closeSession(
+    tx: Prisma.TransactionClient,
+    sessionId: string,
+    close: {
+      closingCash: number;
+      closingCount?: Prisma.InputJsonValue;
+      employeeId: string;
+      closedAt: Date;
+    },
+  ): Promise<number> {
+    const session = await tx.drawerSession.findUniqueOrThrow({
+      where: { id: sessionId },
+      include: {
+        shifts: { select: { id: true, openingCash: true, cashIn: true, cashOut: true } },
+      },
+    });
+
+    // The float goes in once; what each shift took in or out adds to it
+    let expectedCash = decimalToNumberRequired(session.openingCash);
+    for (const s of session.shifts) {
+      const summary = await this.cashManagement.drawerSummary(tx, {
+        id: s.id,
+        openingCash: 0,
+        cashIn: decimalToNumber(s.cashIn),
+        cashOut: decimalToNumber(s.cashOut),
+      });
+      expectedCash += summary.expectedCash;
+    }
+
+    const drawer = await tx.cashDrawer.update({
+      where: { id: session.drawerId },
+      data: { lastZNumber: { increment: 1 } },
+      select: { lastZNumber: true },
+    });
+    await tx.drawerSession.update({
+      where: { id: sessionId },
+      data: {
+        status: 'closed',
+        closingCash: close.closingCash,
+        closingCount: close.closingCount,
+        expectedCash,
+        cashDifference: close.closingCash - expectedCash,
+        zNumber: drawer.lastZNumber,
+        closedBy: close.employeeId,
+        closedAt: close.closedAt,
+      },
+    });
+    return drawer.lastZNumber;
+  }
+
+  private async buildShiftReport(shift: ShiftForReport) {
+    const [summary, payments, transactions, opens] = await Promise.all([
+      this.cashManagement.drawerSummary(this.prisma, {
+        id: shift.id,
+        openingCash: decimalToNumberRequired(shift.openingCash),
+        cashIn: decimalToNumber(shift.cashIn),
+        cashOut: decimalToNumber(shift.cashOut),
+      }),
+      this.prisma.payment.groupBy({
+        by: ['paymentMethod'],
+        where: {
+          transaction: { shiftId: shift.id, transactionType: 'sale' },
+          status: 'completed',
+        },
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+      this.prisma.transaction.groupBy({
+        by: ['transactionType'],
+        where: { shiftId: shift.id, status: 'completed' },
+        _sum: { grandTotal: true },
+        _count: { _all: true },
+      }),
+      this.prisma.drawerEvent.groupBy({
+        by: ['type'],
+        where: { shiftId: shift.id },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const sales = transactions.find((t) => t.transactionType === 'sale');
+    const refunds = transactions.find((t) => t.transactionType === 'refund');
+    const closingCash = decimalToNumber(shift.closingCash);
+    // Cash of a shared drawer belongs to the session, not to one cashier
+    const expectedCash = shift.sharedDrawer ? null : summary.expectedCash;
+
+    return {
+      type: shift.status === 'open' ? 'X' : 'Z',
+      shiftId: shift.id,
+      employeeId: shift.employeeId,
+      employeeName: shift.employee.name,
+      startedAt: shift.startedAt,
+      endedAt: shift.endedAt,
+      sharedDrawer: shift.sharedDrawer,
+      openingCash: summary.openingCash,
+      cashSales: summary.cashSales,
+      cashRefunds: summary.cashRefunds,
+      cashIn: summary.cashIn,
+      cashOut: summary.cashOut,
+      removed: summary.removed,
+      expectedCash,
+      closingCash,
+      difference: expectedCash !== null && closingCash !== null ? closingCash - expectedCash : null,
+      payments: payments.map((p) => ({
+        method: p.paymentMethod as string,
+        amount: decimalToNumberRequired(p._sum.amount),
+        count: p._count._all,
+      })),
+      transactions: {
+        sales: sales?._count._all ?? 0,
+        refunds: refunds?._count._all ?? 0,
+        grossSales: decimalToNumberRequired(sales?._sum.grandTotal),
+      },
+      drawerOpens: this.countOpens(opens),
+    };
+  }
+
+  private countOpens(groups: Array<{ type: string; _count: { _all: number } }>) {
+    const byType = Object.fromEntries(groups.map((g) => [g.type, g._count._all]));
+    const total = groups.reduce((sum, g) => sum + g._count._all, 0);
+    return { total, byType };
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+} from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  BankDepositQueryDto,
+  CashSettingsDto,
+  CreateBankDepositDto,
+  OverShortQueryDto,
+  RecordCashMovementDto,
+} from '../../application/dtos/cash-management.dto';
+import { CashManagementService } from './cash-management.service';
+
+@ApiTags('Cash Management')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('cash.manage')
+@Controller('cash-management')
+export class CashManagementController {
+  constructor(private readonly cashManagementService: CashManagementService) {}
+
+  // ==================== Settings ====================
+
+  @Get('settings')
+  @ApiOperation({ summary: 'Blind close and over/short tolerance of an outlet' })
+  async getSettings(
+    @Query('outletId', ParseUUIDPipe) outletId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashManagementService.getSettings(user.businessId, outletId);
+  }
+
+  @Put('settings')
+  @ApiOperation({ summary: 'Update the cash handling settings of an outlet' })
+  async updateSettings(
+    @Query('outletId', ParseUUIDPipe) outletId: string,
+    @Body() dto: CashSettingsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashManagementService.updateSettings(user.businessId, outletId, dto);
+  }
+
+  // ==================== Safe drops and pickups ====================
+
+  @Post('movements')
+  @PermissionOutlet('shift', 'shiftId', 'body')
+  @RequirePermission('pos.cash_drawer')
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Record a witnessed safe drop or pickup from an open drawer' })
+  async recordMovement(@Body() dto: RecordCashMovementDto, @CurrentUser() user: AuthUser) {
+    return this.cashManagementService.recordMovement(user, dto);
+  }
+
+  @Get('shifts/:shiftId/movements')
+  @PermissionOutlet('shift', 'shiftId')
+  @RequirePermission('pos.cash_drawer')
+  @ApiOperation({ summary: 'Safe drops and pickups of a shift' })
+  async listMovements(
+    @Param('shiftId', ParseUUIDPipe) shiftId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashManagementService.listMovements(user.businessId, shiftId);
+  }
+
+  // ==================== Over/short ledger ====================
+
+  @Get('over-short')
+  @ApiOperation({ summary: 'Over/short of closed shifts per employee over a period' })
+  async overShort(@Query() query: OverShortQueryDto, @CurrentUser() user: AuthUser) {
+    return this.cashManagementService.overShortLedger(user.businessId, query);
+  }
+
+  // ==================== Bank deposits ====================
+
+  @Get('deposits/pending-shifts')
+  @ApiOperation({ summary: 'Closed shifts of an outlet whose cash is not on a deposit yet' })
+  async depositableShifts(
+    @Query('outletId', ParseUUIDPipe) outletId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashManagementService.depositableShifts(user.businessId, outletId);
+  }
+
+  @Get('deposits')
+  @ApiOperation({ summary: 'Bank deposit slips' })
+  async listDeposits(@Query() query: BankDepositQueryDto, @CurrentUser() user: AuthUser) {
+    return this.cashManagementService.listDeposits(user.businessId, query);
+  }
+
+  @Post('deposits')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Record a deposit slip against the cash of closed shifts' })
+  async createDeposit(@Body() dto: CreateBankDepositDto, @CurrentUser() user: AuthUser) {
+    return this.cashManagementService.createDeposit(user, dto);
+  }
+
+  @Get('deposits/:id')
+  @PermissionOutlet('bankDeposit')
+  @ApiOperation({ summary: 'A deposit slip with the shifts it carries' })
+  async getDeposit(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.cashManagementService.getDeposit(user.businessId, id);
+  }
+
+  @Post('deposits/:id/verify')
+  @PermissionOutlet('bankDeposit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a deposit slip as matched with the bank statement' })
+  async verifyDeposit(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.cashManagementService.verifyDeposit(user, id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CashManagementController } from './cash-management.controller';
+import { CashManagementService } from './cash-management.service';
+import { CashDrawersController } from './cash-drawers.controller';
+import { CashDrawersService } from './cash-drawers.service';
+
+@Module({
+  controllers: [CashManagementController, CashDrawersController],
+  providers: [CashManagementService, CashDrawersService],
+  exports: [CashManagementService, CashDrawersService],
+})
+export class CashManagementModule {}
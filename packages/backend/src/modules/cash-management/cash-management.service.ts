@@ -0,0 +1,630 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  decimalToNumber,
+  decimalToNumberRequired,
+} from '../../infrastructure/repositories/decimal.helper';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { queueAuditLog } from '../audit/audit-chain.util';
+import {
+  normalizeCount,
+  resolveCashSettings,
+  resolveCountedAmount,
+  type CashSettings,
+} from './cash-count.util';
+import type {
+  BankDepositQueryDto,
+  CashSettingsDto,
+  CreateBankDepositDto,
+  OverShortQueryDto,
+  RecordCashMovementDto,
+} from '../../application/dtos/cash-management.dto';
+
+// Compared against when the witness has no PIN, so an unknown witness
+// takes as long to reject as a wrong PIN
+const DUMMY_HASH = '$2b$10$abcdefghijklmnopqrstuuABCDEFGHIJKLMNOPQRSTUVWXYZ012';
+
+export interface DrawerSummary {
+  openingCash: number;
+  cashSales: number;
+  cashRefunds: number;
+  cashIn: number;
+  cashOut: number;
+  /** Safe drops and pickups taken out of the drawer */
+  removed: number;
+  expectedCash: number;
+}
+
+type Db = PrismaService | Prisma.TransactionClient;
+
+/**
+ * CashManagementService - Cash handling around the drawer of a shift
+ *
+ * Works out what should be in a drawer, records witnessed safe drops and
+ * pickups, keeps the per-employee over/short ledger of closed shifts and
+ * reconciles bank deposit slips against the cash the shifts took in.
+ */
+@Injectable()
+export class CashManagementService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==========================================================================
+  // Settings
+  // ==========================================================================
+
+  async getSettings(businessId: string, outletId: string): Promise<CashSettings> {
+    const outlet = await this.findOutlet(businessId, outletId);
+    return resolveCashSettings(outlet.settings);
+  }
+
+  async updateSettings(
+    businessId: string,
+    outletId: string,
+    dto: CashSettingsDto,
+  ): Promise<CashSettings> {
+    const outlet = await this.findOutlet(businessId, outletId);
+    const current = (outlet.settings as Record<string, unknown>) || {};
+    const cashManagement = { ...resolveCashSettings(current), ...dto };
+    await this.prisma.outlet.update({
+      where: { id: outletId },
+      data: { settings: { ...current, cashManagement } as Prisma.InputJsonValue },
+    });
+    return cashManagement;
+  }
+
+  // ==========================================================================
+  // Drawer
+  // ==========================================================================
+
+  /** Opening float plus cash taken, less cash refunded, paid out and removed */
+  async drawerSummary(
+    db: Db,
+    shift: { id: string; openingCash: number; cashIn: number | null; cashOut: number | null },
+  ): Promise<DrawerSummary> {
+    const [sales, refunds, movements] = await Promise.all([
+      db.payment.aggregate({
+        where: {
+          transaction: { shiftId: shift.id, transactionType: 'sale' },
+          paymentMethod: 'cash',
+          status: 'completed',
+        },
+        _sum: { amount: true },
+      }),
+      db.payment.aggregate({
+        where: {
+          transaction: { shiftId: shift.id, transactionType: 'refund' },
+          paymentMethod: 'cash',
+          status: 'completed',
+        },
+        _sum: { amount: true },
+      }),
+      db.shiftCashMovement.aggregate({
+        where: { shiftId: shift.id },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const cashSales = decimalToNumberRequired(sales._sum.amount);
+    const cashRefunds = Math.abs(decimalToNumberRequired(refunds._sum.amount));
+    const cashIn = shift.cashIn ?? 0;
+    const cashOut = shift.cashOut ?? 0;
+    const removed = decimalToNumberRequired(movements._sum.amount);
+
+    return {
+      openingCash: shift.openingCash,
+      cashSales,
+      cashRefunds,
+      cashIn,
+      cashOut,
+      removed,
+      expectedCash: shift.openingCash + cashSales - cashRefunds + cashIn - cashOut - removed,
+    };
+  }
+
+  /** Records a safe drop or pickup counted in front of a witness who confirms with their PIN */
+  async recordMovement(user: AuthUser, dto: RecordCashMovementDto) {
+    const shift = await this.prisma.shift.findFirst({
+      where: { id: dto.shiftId, outlet: { businessId: user.businessId } },
+    });
+    if (!shift || shift.status !== 'open') {
+      throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'Shift is not open');
+    }
+    if (dto.type === 'drop' && shift.employeeId !== user.employeeId) {
+      throw new BusinessError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        'Only the cashier of the shift can drop its cash',
+      );
+    }
+    if (dto.witnessId === user.employeeId) {
+      throw new AppError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        'Another employee has to witness the count',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const amount = resolveCountedAmount(dto.amount, dto.denominations, 'amount');
+    const witness = await this.prisma.employee.findFirst({
+      where: { id: dto.witnessId, businessId: user.businessId, isActive: true },
+      select: { id: true, name: true, pin: true },
+    });
+    const verified = await bcrypt.compare(dto.witnessPin, witness?.pin || DUMMY_HASH);
+    if (!witness || !verified) {
+      throw new AppError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        'Invalid witness PIN',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Serialise movements on the drawer so two drops cannot both spend the same cash
+      await tx.$queryRaw`SELECT id FROM shifts WHERE id = ${shift.id}::uuid FOR UPDATE`;
+
+      const drawer = await this.drawerSummary(tx, {
+        id: shift.id,
+        openingCash: decimalToNumberRequired(shift.openingCash),
+        cashIn: decimalToNumber(shift.cashIn),
+        cashOut: decimalToNumber(shift.cashOut),
+      });
+      if (amount > drawer.expectedCash) {
+        throw new BusinessError(ErrorCode.INSUFFICIENT_CASH, 'Insufficient cash in drawer');
+      }
+
+      const movement = await tx.shiftCashMovement.create({
+        data: {
+          shiftId: shift.id,
+          outletId: shift.outletId,
+          type: dto.type,
+          amount,
+          denominations: dto.denominations
+            ? (normalizeCount(dto.denominations) as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+          reason: dto.reason,
+          notes: dto.notes ?? null,
+          performedBy: user.employeeId,
+          witnessedBy: witness.id,
+        },
+      });
+
+      await queueAuditLog(tx, {
+        businessId: user.businessId,
+        outletId: shift.outletId,
+        employeeId: user.employeeId,
+        action: `cash_${dto.type}`,
+        entityType: 'shift',
+        entityId: shift.id,
+        oldValue: { cashBalance: drawer.expectedCash },
+        newValue: {
+          cashBalance: drawer.expectedCash - amount,
+          amount,
+          reason: dto.reason,
+          witnessedBy: witness.id,
+          movementId: movement.id,
+        },
+      });
+
+      return {
+        id: movement.id,
+        type: movement.type,
+        amount,
+        witnessedBy: { id: witness.id, name: witness.name },
+        createdAt: movement.createdAt,
+      };
+    });
+  }
+
+  async listMovements(businessId: string, shiftId: string) {
+    const movements = await this.prisma.shiftCashMovement.findMany({
+      where: { shiftId, outlet: { businessId } },
+      include: {
+        performer: { select: { id: true, name: true } },
+        witness: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    return movements.map((m) => ({
+      id: m.id,
+      type: m.type,
+      amount: decimalToNumberRequired(m.amount),
+      denominations: m.denominations,
+      reason: m.reason,
+      notes: m.notes,
+      performedBy: m.performer,
+      witnessedBy: m.witness,
+      createdAt: m.createdAt,
+    }));
+  }
+
+  // ==========================================================================
+  // Over/short ledger
+  // ==========================================================================
+
+  /**
+   * Closed shifts in the period with what each cashier was over or short,
+   * in order, with a running balance per employee and totals per employee.
+   */
+  async overShortLedger(businessId: string, query: OverShortQueryDto) {
+    const shifts = await this.prisma.shift.findMany({
+      where: {
+        status: 'closed',
+        // Shifts that shared a drawer have no over/short of their own
+        cashDifference: { not: null },
+        endedAt: { gte: new Date(query.from), lte: new Date(query.to) },
+        outlet: { businessId },
+        ...(query.outletId && { outletId: query.outletId }),
+        ...(query.employeeId && { employeeId: query.employeeId }),
+      },
+      select: {
+        id: true,
+        outletId: true,
+        employeeId: true,
+        endedAt: true,
+        expectedCash: true,
+        closingCash: true,
+        cashDifference: true,
+        blindClose: true,
+        employee: { select: { name: true } },
+        outlet: { select: { name: true, settings: true } },
+      },
+      orderBy: { endedAt: 'asc' },
+    });
+
+    const totals = new Map<
+      string,
+      {
+        employeeId: string;
+        employeeName: string;
+        shifts: number;
+        overCount: number;
+        shortCount: number;
+        totalOver: number;
+        totalShort: number;
+        net: number;
+      }
+    >();
+
+    const entries = shifts.map((s) => {
+      const difference = decimalToNumberRequired(s.cashDifference);
+      const tolerance = resolveCashSettings(s.outlet.settings).overShortTolerance;
+      const result =
+        Math.abs(difference) <= tolerance ? 'balanced' : difference > 0 ? 'over' : 'short';
+
+      const employee = totals.get(s.employeeId) ?? {
+        employeeId: s.employeeId,
+        employeeName: s.employee.name,
+        shifts: 0,
+        overCount: 0,
+        shortCount: 0,
+        totalOver: 0,
+        totalShort: 0,
+        net: 0,
+      };
+      employee.shifts++;
+      if (result === 'over') {
+        employee.overCount++;
+        employee.totalOver += difference;
+      } else if (result === 'short') {
+        employee.shortCount++;
+        employee.totalShort += -difference;
+      }
+      employee.net += difference;
+      totals.set(s.employeeId, employee);
+
+      return {
+        shiftId: s.id,
+        employeeId: s.employeeId,
+        employeeName: s.employee.name,
+        outletId: s.outletId,
+        outletName: s.outlet.name,
+        endedAt: s.endedAt,
+        expectedCash: decimalToNumber(s.expectedCash),
+        closingCash: decimalToNumber(s.closingCash),
+        difference,
+        result,
+        blindClose: s.blindClose,
+        runningNet: employee.net,
+      };
+    });
+
+    return {
+      from: query.from,
+      to: query.to,
+      employees: [...totals.values()].sort((a, b) => b.totalShort - a.totalShort),
+      entries,
+    };
+  }
+
+  // ==========================================================================
+  // Bank deposits
+  // ==========================================================================
+
+  /** Closed shifts at the outlet whose cash has not been put on a deposit slip yet */
+  async depositableShifts(businessId: string, outletId: string) {
+    await this.findOutlet(businessId, outletId);
+    const shifts = await this.prisma.shift.findMany({
+      where: { outletId, status: 'closed', bankDepositId: null },
+      select: {
+        id: true,
+        employeeId: true,
+        startedAt: true,
+        endedAt: true,
+        openingCash: true,
+        closingCash: true,
+        employee: { select: { name: true } },
+      },
+      orderBy: { endedAt: 'asc' },
+    });
+    const takings = await this.shiftTakings(shifts);
+    return shifts.map((s) => ({
+      shiftId: s.id,
+      employeeId: s.employeeId,
+      employeeName: s.employee.name,
+      startedAt: s.startedAt,
+      endedAt: s.endedAt,
+      cashToDeposit: takings.get(s.id) ?? 0,
+    }));
+  }
+
+  async createDeposit(user: AuthUser, dto: CreateBankDepositDto) {
+    await this.findOutlet(user.businessId, dto.outletId);
+    const shiftIds = [...new Set(dto.shiftIds)];
+
+    const shifts = await this.prisma.shift.findMany({
+      where: { id: { in: shiftIds }, outletId: dto.outletId },
+      select: {
+        id: true,
+        status: true,
+        bankDepositId: true,
+        openingCash: true,
+        closingCash: true,
+      },
+    });
+    if (shifts.length !== shiftIds.length) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'Some shifts were not found at the outlet',
+      );
+    }
+    const open = shifts.find((s) => s.status !== 'closed');
+    if (open) {
+      throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, `Shift ${open.id} is still open`);
+    }
+    const deposited = shifts.find((s) => s.bankDepositId);
+    if (deposited) {
+      throw new BusinessError(
+        ErrorCode.CONFLICT,
+        `The cash of shift ${deposited.id} is already on a deposit`,
+      );
+    }
+
+    const existing = await this.prisma.bankDeposit.findUnique({
+      where: { outletId_slipNumber: { outletId: dto.outletId, slipNumber: dto.slipNumber } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new BusinessError(
+        ErrorCode.DUPLICATE_RESOURCE,
+        `Deposit slip ${dto.slipNumber} is already recorded`,
+      );
+    }
+
+    const takings = await this.shiftTakings(shifts);
+    const expectedAmount = [...takings.values()].reduce((sum, v) => sum + v, 0);
+    const difference = dto.amount - expectedAmount;
+
+    return this.prisma.$transaction(async (tx) => {
+      const deposit = await tx.bankDeposit.create({
+        data: {
+          businessId: user.businessId,
+          outletId: dto.outletId,
+          slipNumber: dto.slipNumber,
+          bankName: dto.bankName,
+          accountNumber: dto.accountNumber ?? null,
+          depositedAt: new Date(dto.depositedAt),
+          amount: dto.amount,
+          expectedAmount,
+          difference,
+          notes: dto.notes ?? null,
+          preparedBy: user.employeeId,
+        },
+      });
+
+      // A shift claimed by another deposit in the meantime fails the whole slip
+      const { count } = await tx.shift.updateMany({
+        where: { id: { in: shiftIds }, bankDepositId: null },
+        data: { bankDepositId: deposit.id },
+      });
+      if (count !== shiftIds.length) {
+        throw new BusinessError(
+          ErrorCode.CONFLICT,
+          'Some of the shifts were put on another deposit',
+        );
+      }
+
+      await queueAuditLog(tx, {
+        businessId: user.businessId,
+        outletId: dto.outletId,
+        employeeId: user.employeeId,
+        action: 'bank_deposit_created',
+        entityType: 'bank_deposit',
+        entityId: deposit.id,
+        newValue: {
+          slipNumber: dto.slipNumber,
+          amount: dto.amount,
+          expectedAmount,
+          difference,
+          shiftIds,
+        },
+      });
+
+      return this.toView(deposit);
+    });
+  }
+
+  async listDeposits(businessId: string, query: BankDepositQueryDto) {
+    const deposits = await this.prisma.bankDeposit.findMany({
+      where: {
+        businessId,
+        ...(query.outletId && { outletId: query.outletId }),
+        ...(query.status && { status: query.status }),
+        ...((query.from || query.to) && {
+          depositedAt: {
+            ...(query.from && { gte: new Date(query.from) }),
+            ...(query.to && { lte: new Date(query.to) }),
+          },
+        }),
+      },
+      orderBy: { depositedAt: 'desc' },
+    });
+    return deposits.map((d) => this.toView(d));
+  }
+
+  async getDeposit(businessId: string, id: string) {
+    const deposit = await this.prisma.bankDeposit.findFirst({
+      where: { id, businessId },
+      include: {
+        preparer: { select: { id: true, name: true } },
+        verifier: { select: { id: true, name: true } },
+        shifts: {
+          select: {
+            id: true,
+            employeeId: true,
+            startedAt: true,
+            endedAt: true,
+            openingCash: true,
+            closingCash: true,
+            employee: { select: { name: true } },
+          },
+          orderBy: { endedAt: 'asc' },
+        },
+      },
+    });
+    if (!deposit) {
+      throw new BusinessError(ErrorCode.BANK_DEPOSIT_NOT_FOUND, 'Bank deposit not found');
+    }
+
+    const takings = await this.shiftTakings(deposit.shifts);
+    return {
+      ...this.toView(deposit),
+      preparedBy: deposit.preparer,
+      verifiedBy: deposit.verifier,
+      shifts: deposit.shifts.map((s) => ({
+        shiftId: s.id,
+        employeeId: s.employeeId,
+        employeeName: s.employee.name,
+        startedAt: s.startedAt,
+        endedAt: s.endedAt,
+        cashToDeposit: takings.get(s.id) ?? 0,
+      })),
+    };
+  }
+
+  /** Marks the slip as matched with the bank statement */
+  async verifyDeposit(user: AuthUser, id: string) {
+    const deposit = await this.prisma.bankDeposit.findFirst({
+      where: { id, businessId: user.businessId },
+    });
+    if (!deposit) {
+      throw new BusinessError(ErrorCode.BANK_DEPOSIT_NOT_FOUND, 'Bank deposit not found');
+    }
+    if (deposit.status === 'verified') {
+      throw new BusinessError(ErrorCode.CONFLICT, 'The deposit is already verified');
+    }
+    if (deposit.preparedBy === user.employeeId) {
+      throw new AppError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        'Someone other than who prepared the deposit has to verify it',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const verified = await this.prisma.bankDeposit.update({
+      where: { id },
+      data: { status: 'verified', verifiedBy: user.employeeId, verifiedAt: new Date() },
+    });
+    return this.toView(verified);
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private async findOutlet(businessId: string, outletId: string) {
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: outletId, businessId },
+      select: { id: true, settings: true },
+    });
+    if (!outlet) {
+      throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+    }
+    return outlet;
+  }
+
+  /**
+   * Cash each shift took in: the counted closing cash plus what was dropped
+   * or picked up, less the opening float that stays for the next shift.
+   */
+  private async shiftTakings(
+    shifts: Array<{
+      id: string;
+      openingCash: Prisma.Decimal;
+      closingCash: Prisma.Decimal | null;
+    }>,
+  ): Promise<Map<string, number>> {
+    const removed = await this.prisma.shiftCashMovement.groupBy({
+      by: ['shiftId'],
+      where: { shiftId: { in: shifts.map((s) => s.id) } },
+      _sum: { amount: true },
+    });
+    const removedByShift = new Map(
+      removed.map((r) => [r.shiftId, decimalToNumberRequired(r._sum.amount)]),
+    );
+
+    return new Map(
+      shifts.map((s) => [
+        s.id,
+        decimalToNumberRequired(s.closingCash) +
+          (removedByShift.get(s.id) ?? 0) -
+          decimalToNumberRequired(s.openingCash),
+      ]),
+    );
+  }
+
+  private toView(deposit: {
+    id: string;
+    outletId: string;
+    slipNumber: string;
+    bankName: string;
+    accountNumber: string | null;
+    depositedAt: Date;
+    amount: Prisma.Decimal;
+    expectedAmount: Prisma.Decimal;
+    difference: Prisma.Decimal;
+    status: string;
+    notes: string | null;
+    verifiedAt: Date | null;
+    createdAt: Date;
+  }) {
+    return {
+      id: deposit.id,
+      outletId: deposit.outletId,
+      slipNumber: deposit.slipNumber,
+      bankName: deposit.bankName,
+      accountNumber: deposit.accountNumber,
+      depositedAt: deposit.depositedAt,
+      amount: decimalToNumberRequired(deposit.amount),
+      expectedAmount: decimalToNumberRequired(deposit.expectedAmount),
+      difference: decimalToNumberRequired(deposit.difference),
+      status: deposit.status,
+      notes: deposit.notes,
+      verifiedAt: deposit.verifiedAt,
+      createdAt: deposit.createdAt,
+    };
+  }
+}
@@ -1,11 +1,14 @@
 import { Controller, Get, Post, Body, Param, Query, UseGuards, Inject } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import { PlanLimit } from '../../common/interceptors/subscription.interceptor';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import type { ICreditSaleRepository } from '../../domain/interfaces/repositories/credit-sale.repository';
 import { CreateCreditTransactionUseCase } from '../../application/use-cases/credit/create-credit-transaction.use-case';
@@ -18,7 +21,7 @@ import {
 
 @ApiTags('Credit Sales')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('credit-sales')
 export class CreditController {
   constructor(
@@ -29,7 +32,8 @@ export class CreditController {
   ) {}
 
   @Post()
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('pos.credit')
+  @PlanLimit('monthlyTransactions')
   async createCreditTransaction(
     @Body() dto: CreateCreditTransactionDto,
     @CurrentUser() _user: AuthUser,
@@ -61,7 +65,7 @@ export class CreditController {
   }
 
   @Get()
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('pos.credit')
   async listCreditSales(@Query() filters: CreditSaleFilterDto) {
     return this.creditSaleRepo.findAll({
       outletId: filters.outletId,
@@ -73,13 +77,13 @@ export class CreditController {
   }
 
   @Get('reports/outstanding')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('reports.credit.view')
   async getOutstandingReport(@Query('outletId') outletId: string, @CurrentUser() user: AuthUser) {
     return this.creditSaleRepo.getCustomerOutstanding(user.businessId, outletId);
   }
 
   @Get('customer/:customerId')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('pos.credit')
   async getCustomerCreditSales(
     @Param('customerId') customerId: string,
     @Query('status') status?: string,
@@ -88,13 +92,15 @@ export class CreditController {
   }
 
   @Get(':id')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('creditSale')
+  @RequirePermission('pos.credit')
   async getCreditSaleDetail(@Param('id') id: string) {
     return this.creditSaleRepo.findById(id);
   }
 
   @Post(':id/payments')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('creditSale')
+  @RequirePermission('pos.credit')
   async recordCreditPayment(
     @Param('id') creditSaleId: string,
     @Body() dto: RecordCreditPaymentDto,
@@ -111,7 +117,8 @@ export class CreditController {
   }
 
   @Get(':id/payments')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('creditSale')
+  @RequirePermission('pos.credit')
   async getCreditPayments(@Param('id') creditSaleId: string) {
     return this.creditSaleRepo.getPayments(creditSaleId);
   }
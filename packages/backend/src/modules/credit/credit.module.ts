@@ -6,9 +6,12 @@ import { PrismaInventoryRepository } from '../../infrastructure/repositories/pri
 import { PrismaShiftRepository } from '../../infrastructure/repositories/prisma-shift.repository';
 import { CreateCreditTransactionUseCase } from '../../application/use-cases/credit/create-credit-transaction.use-case';
 import { RecordCreditPaymentUseCase } from '../../application/use-cases/credit/record-credit-payment.use-case';
+import { NumberingModule } from '../numbering/numbering.module';
+import { WarehousesModule } from '../warehouses/warehouses.module';
 import { CreditController } from './credit.controller';
 
 @Module({
+  imports: [NumberingModule, WarehousesModule],
   controllers: [CreditController],
   providers: [
     {
@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+} from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  CustomerDisplaySettingsDto,
+  CustomerDisplayStateDto,
+} from '../../application/dtos/customer-display.dto';
+import { CustomerDisplayService } from './customer-display.service';
+
+@ApiTags('Customer Display')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('pos.sale')
+@Controller('customer-displays')
+export class CustomerDisplayController {
+  constructor(private readonly customerDisplayService: CustomerDisplayService) {}
+
+  // ==================== Settings (before :deviceId) ====================
+
+  @Get('settings')
+  @ApiOperation({ summary: 'Idle images, timings and QRIS of the customer displays of an outlet' })
+  async getSettings(
+    @Query('outletId', ParseUUIDPipe) outletId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.customerDisplayService.getSettings(user.businessId, outletId);
+  }
+
+  @Put('settings')
+  @RequirePermission('customer_display.settings')
+  @ApiOperation({ summary: 'Update the customer display settings of an outlet' })
+  async updateSettings(
+    @Query('outletId', ParseUUIDPipe) outletId: string,
+    @Body() dto: CustomerDisplaySettingsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.customerDisplayService.updateSettings(user.businessId, outletId, dto);
+  }
+
+  // ==================== Terminal ====================
+
+  @Get(':deviceId')
+  @PermissionOutlet('device', 'deviceId')
+  @ApiOperation({ summary: 'Whether a customer display is paired with the terminal' })
+  async status(@Param('deviceId', ParseUUIDPipe) deviceId: string, @CurrentUser() user: AuthUser) {
+    return this.customerDisplayService.status(user.businessId, deviceId);
+  }
+
+  @Post(':deviceId/pairing-code')
+  @PermissionOutlet('device', 'deviceId')
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Issue a code to type into the customer display' })
+  async issuePairingCode(
+    @Param('deviceId', ParseUUIDPipe) deviceId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.customerDisplayService.issuePairingCode(user.businessId, deviceId);
+  }
+
+  @Delete(':deviceId')
+  @PermissionOutlet('device', 'deviceId')
+  @ApiOperation({ summary: 'Unpair the customer display of the terminal' })
+  async unpair(@Param('deviceId', ParseUUIDPipe) deviceId: string, @CurrentUser() user: AuthUser) {
+    return this.customerDisplayService.unpair(user.businessId, deviceId);
+  }
+
+  @Put(':deviceId/state')
+  @PermissionOutlet('device', 'deviceId')
+  @Throttle({ medium: { limit: 60, ttl: 10000 }, long: { limit: 300, ttl: 60000 } })
+  @ApiOperation({ summary: 'Show the cart, payment or thank-you screen on the customer display' })
+  async pushState(
+    @Param('deviceId', ParseUUIDPipe) deviceId: string,
+    @Body() dto: CustomerDisplayStateDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.customerDisplayService.pushState(user.businessId, deviceId, dto);
+  }
+}
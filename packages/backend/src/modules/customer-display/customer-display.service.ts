@@ -0,0 +1,410 @@
+import { HttpStatus, Injectable, OnModuleInit } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { EventBusService } from '../../infrastructure/events/event-bus.service';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { CustomerDisplayUpdatedEvent } from '../../domain/events/customer-display-updated.event';
+import { LoyaltyPointsEarnedEvent } from '../../domain/events/loyalty-points-earned.event';
+import {
+  displaySettings,
+  resolveCustomerDisplaySettings,
+  type CustomerDisplaySettings,
+} from './customer-display.util';
+import { isValidQris, toDynamicQris } from './qris.util';
+import type {
+  CustomerDisplayLineDto,
+  CustomerDisplayPromotionDto,
+  CustomerDisplaySettingsDto,
+  CustomerDisplayStage,
+  CustomerDisplayStateDto,
+} from '../../application/dtos/customer-display.dto';
+
+const PAIR_CODE_TTL_MS = 10 * 60 * 1000;
+
+export interface CustomerDisplayState {
+  stage: CustomerDisplayStage;
+  items: CustomerDisplayLineDto[];
+  promotions: CustomerDisplayPromotionDto[];
+  subtotal: number;
+  discountTotal: number;
+  serviceCharge: number;
+  taxAmount: number;
+  total: number;
+  paid: number;
+  changeDue: number;
+  customerName: string | null;
+  /** Payment in progress; the QRIS payload carries the amount when the outlet has one */
+  payment: { method: string; amount: number; qrisPayload: string | null } | null;
+  transactionId: string | null;
+  receiptNumber: string | null;
+  /** Filled in on the thank-you screen once the points are booked */
+  loyalty: { pointsEarned: number; balance: number } | null;
+  updatedAt: string;
+}
+
+const IDLE_STATE: Omit<CustomerDisplayState, 'updatedAt'> = {
+  stage: 'idle',
+  items: [],
+  promotions: [],
+  subtotal: 0,
+  discountTotal: 0,
+  serviceCharge: 0,
+  taxAmount: 0,
+  total: 0,
+  paid: 0,
+  changeDue: 0,
+  customerName: null,
+  payment: null,
+  transactionId: null,
+  receiptNumber: null,
+  loyalty: null,
+};
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+@Injectable()
+export class CustomerDisplayService implements OnModuleInit {
+  /** Last state pushed by each terminal, replayed to a display when it (re)joins */
+  private readonly states = new Map<string, { outletId: string; state: CustomerDisplayState }>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventBus: EventBusService,
+  ) {}
+
+  onModuleInit() {
+    // Points are booked after the sale, usually after the thank-you screen is up
+    this.eventBus.ofType(LoyaltyPointsEarnedEvent).subscribe((event) => {
+      for (const [deviceId, entry] of this.states) {
+        if (
+          entry.state.stage !== 'thank_you' ||
+          entry.state.transactionId !== event.transactionId
+        ) {
+          continue;
+        }
+        entry.state = {
+          ...entry.state,
+          loyalty: { pointsEarned: event.pointsEarned, balance: event.balance },
+        };
+        this.publish(deviceId, entry.outletId, 'state', entry.state);
+      }
+    });
+  }
+
+  // ==========================================================================
+  // Settings
+  // ==========================================================================
+
+  async getSettings(businessId: string, outletId: string): Promise<CustomerDisplaySettings> {
+    const outlet = await this.findOutlet(businessId, outletId);
+    return resolveCustomerDisplaySettings(outlet.settings);
+  }
+
+  async updateSettings(
+    businessId: string,
+    outletId: string,
+    dto: CustomerDisplaySettingsDto,
+  ): Promise<CustomerDisplaySettings> {
+    if (dto.qrisPayload && !isValidQris(dto.qrisPayload)) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'The QRIS payload is not valid');
+    }
+
+    const outlet = await this.findOutlet(businessId, outletId);
+    const current = (outlet.settings as Record<string, unknown>) || {};
+    const customerDisplay = { ...resolveCustomerDisplaySettings(current), ...dto };
+    await this.prisma.outlet.update({
+      where: { id: outletId },
+      data: { settings: { ...current, customerDisplay } as Prisma.InputJsonValue },
+    });
+
+    const paired = await this.prisma.customerDisplay.findMany({
+      where: { businessId, tokenHash: { not: null }, device: { outletId } },
+      select: { deviceId: true },
+    });
+    for (const { deviceId } of paired) {
+      this.publish(deviceId, outletId, 'settings', displaySettings(customerDisplay));
+    }
+
+    return customerDisplay;
+  }
+
+  // ==========================================================================
+  // Pairing (terminal side)
+  // ==========================================================================
+
+  async status(businessId: string, deviceId: string) {
+    await this.findDevice(businessId, deviceId);
+    const display = await this.prisma.customerDisplay.findUnique({ where: { deviceId } });
+    const now = new Date();
+    return {
+      deviceId,
+      paired: !!display?.tokenHash,
+      pairedAt: display?.pairedAt ?? null,
+      lastSeenAt: display?.lastSeenAt ?? null,
+      pendingCode:
+        display?.pairCode && display.pairCodeExpiresAt && display.pairCodeExpiresAt > now
+          ? { code: display.pairCode, expiresAt: display.pairCodeExpiresAt }
+          : null,
+    };
+  }
+
+  /** Code the cashier types into the customer display; replaces any earlier code */
+  async issuePairingCode(businessId: string, deviceId: string) {
+    await this.findDevice(businessId, deviceId);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + PAIR_CODE_TTL_MS);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+      const holder = await this.prisma.customerDisplay.findUnique({
+        where: { pairCode: code },
+        select: { deviceId: true, pairCodeExpiresAt: true },
+      });
+      if (holder && holder.deviceId !== deviceId) {
+        if (holder.pairCodeExpiresAt && holder.pairCodeExpiresAt > now) continue;
+        await this.prisma.customerDisplay.update({
+          where: { deviceId: holder.deviceId },
+          data: { pairCode: null, pairCodeExpiresAt: null },
+        });
+      }
+
+      await this.prisma.customerDisplay.upsert({
+        where: { deviceId },
+        create: { businessId, deviceId, pairCode: code, pairCodeExpiresAt: expiresAt },
+        update: { pairCode: code, pairCodeExpiresAt: expiresAt },
+      });
+      return { deviceId, code, expiresAt };
+    }
+
+    throw new AppError(
+      ErrorCode.CONFLICT,
+      'Could not issue a pairing code, try again',
+      HttpStatus.CONFLICT,
+    );
+  }
+
+  async unpair(businessId: string, deviceId: string) {
+    const device = await this.findDevice(businessId, deviceId);
+    await this.prisma.customerDisplay.updateMany({
+      where: { deviceId },
+      data: { tokenHash: null, pairedAt: null, pairCode: null, pairCodeExpiresAt: null },
+    });
+    this.states.delete(deviceId);
+    this.publish(deviceId, device.outletId, 'unpaired', { deviceId });
+    return { deviceId, paired: false };
+  }
+
+  // ==========================================================================
+  // Pairing (display side, over the websocket)
+  // ==========================================================================
+
+  /** Claims a pairing code; the token lets the display rejoin after a reload */
+  async pair(code: string) {
+    const now = new Date();
+    const display = await this.prisma.customerDisplay.findUnique({
+      where: { pairCode: code },
+      include: {
+        device: {
+          select: {
+            deviceName: true,
+            outletId: true,
+            isActive: true,
+            outlet: { select: { settings: true } },
+          },
+        },
+      },
+    });
+    if (
+      !display ||
+      !display.pairCodeExpiresAt ||
+      display.pairCodeExpiresAt <= now ||
+      !display.device.isActive ||
+      !display.device.outletId
+    ) {
+      throw new BusinessError(
+        ErrorCode.CUSTOMER_DISPLAY_PAIRING_INVALID,
+        'Pairing code is invalid or has expired',
+      );
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const claimed = await this.prisma.customerDisplay.updateMany({
+      where: { id: display.id, pairCode: code },
+      data: {
+        pairCode: null,
+        pairCodeExpiresAt: null,
+        tokenHash: hashToken(token),
+        pairedAt: now,
+        lastSeenAt: now,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new BusinessError(
+        ErrorCode.CUSTOMER_DISPLAY_PAIRING_INVALID,
+        'Pairing code is invalid or has expired',
+      );
+    }
+
+    const outletId = display.device.outletId;
+    // Only one display per terminal: drop the one paired before
+    if (display.tokenHash) {
+      this.publish(display.deviceId, outletId, 'unpaired', { deviceId: display.deviceId });
+    }
+    this.publish(display.deviceId, outletId, 'paired', {
+      deviceId: display.deviceId,
+      pairedAt: now.toISOString(),
+    });
+
+    return {
+      ...this.session(display.deviceId, display.device.deviceName, display.device.outlet),
+      token,
+    };
+  }
+
+  async resume(deviceId: string, token: string) {
+    const display = await this.prisma.customerDisplay.findUnique({
+      where: { deviceId },
+      include: {
+        device: {
+          select: { deviceName: true, isActive: true, outlet: { select: { settings: true } } },
+        },
+      },
+    });
+    const expected = display?.tokenHash ? Buffer.from(display.tokenHash, 'hex') : null;
+    const given = Buffer.from(hashToken(token), 'hex');
+    if (!display || !expected || !display.device.isActive || !timingSafeEqual(expected, given)) {
+      throw new BusinessError(
+        ErrorCode.CUSTOMER_DISPLAY_PAIRING_INVALID,
+        'The display is no longer paired with this terminal',
+      );
+    }
+
+    await this.prisma.customerDisplay.update({
+      where: { id: display.id },
+      data: { lastSeenAt: new Date() },
+    });
+    return this.session(deviceId, display.device.deviceName, display.device.outlet);
+  }
+
+  // ==========================================================================
+  // Live state
+  // ==========================================================================
+
+  /** Pushes what the terminal shows to its customer display */
+  async pushState(businessId: string, deviceId: string, dto: CustomerDisplayStateDto) {
+    const device = await this.findDevice(businessId, deviceId);
+    const settings = resolveCustomerDisplaySettings(device.outlet?.settings);
+
+    const total = dto.total ?? 0;
+    const paid = dto.paid ?? 0;
+    let payment: CustomerDisplayState['payment'] = null;
+    if (dto.stage === 'payment' && dto.paymentMethod) {
+      const amount = dto.paymentAmount ?? Math.max(0, total - paid);
+      payment = {
+        method: dto.paymentMethod,
+        amount,
+        qrisPayload:
+          dto.paymentMethod === 'qris' && settings.qrisPayload && amount > 0
+            ? toDynamicQris(settings.qrisPayload, amount)
+            : null,
+      };
+    }
+
+    let loyalty: CustomerDisplayState['loyalty'] = null;
+    if (dto.stage === 'thank_you' && dto.transactionId) {
+      const earned = await this.prisma.loyaltyTransaction.findFirst({
+        where: { transactionId: dto.transactionId, type: 'earned', customer: { businessId } },
+        select: { points: true, balanceAfter: true },
+      });
+      if (earned) loyalty = { pointsEarned: earned.points, balance: earned.balanceAfter };
+    }
+
+    const state: CustomerDisplayState = {
+      ...IDLE_STATE,
+      stage: dto.stage,
+      items: dto.stage === 'idle' ? [] : (dto.items ?? []),
+      promotions: dto.stage === 'idle' ? [] : (dto.promotions ?? []),
+      subtotal: dto.subtotal ?? 0,
+      discountTotal: dto.discountTotal ?? 0,
+      serviceCharge: dto.serviceCharge ?? 0,
+      taxAmount: dto.taxAmount ?? 0,
+      total,
+      paid,
+      changeDue: dto.changeDue ?? 0,
+      customerName: dto.customerName ?? null,
+      payment,
+      transactionId: dto.transactionId ?? null,
+      receiptNumber: dto.receiptNumber ?? null,
+      loyalty,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.states.set(deviceId, { outletId: device.outletId, state });
+    this.publish(deviceId, device.outletId, 'state', state);
+
+    return { delivered: !!device.customerDisplay?.tokenHash, stage: state.stage };
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /** What a display gets when it joins: its terminal, the outlet's settings and the last state */
+  private session(deviceId: string, deviceName: string, outlet: { settings: unknown } | null) {
+    return {
+      deviceId,
+      deviceName,
+      settings: displaySettings(resolveCustomerDisplaySettings(outlet?.settings)),
+      state: this.states.get(deviceId)?.state ?? {
+        ...IDLE_STATE,
+        updatedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  private publish(
+    deviceId: string,
+    outletId: string,
+    update: CustomerDisplayUpdatedEvent['update'],
+    payload: object,
+  ) {
+    this.eventBus.publish(
+      new CustomerDisplayUpdatedEvent(deviceId, outletId, update, {
+        ...payload,
+      } as Record<string, unknown>),
+    );
+  }
+
+  private async findDevice(businessId: string, deviceId: string) {
+    const device = await this.prisma.device.findFirst({
+      where: { id: deviceId, businessId, isActive: true },
+      select: {
+        id: true,
+        outletId: true,
+        outlet: { select: { settings: true } },
+        customerDisplay: { select: { tokenHash: true } },
+      },
+    });
+    if (!device || !device.outletId) {
+      throw new BusinessError(
+        ErrorCode.DEVICE_NOT_REGISTERED,
+        'Device not registered to an outlet',
+      );
+    }
+    return { ...device, outletId: device.outletId };
+  }
+
+  private async findOutlet(businessId: string, outletId: string) {
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: outletId, businessId },
+      select: { id: true, settings: true },
+    });
+    if (!outlet) {
+      throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+    }
+    return outlet;
+  }
+}
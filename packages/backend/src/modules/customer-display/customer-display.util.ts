@@ -0,0 +1,48 @@
+export interface CustomerDisplaySettings {
+  /** Promotional images rotated while the terminal has no cart */
+  idleImages: string[];
+  /** Seconds each idle image stays on screen */
+  slideSeconds: number;
+  /** Seconds the thank-you screen stays up before going idle */
+  thankYouSeconds: number;
+  welcomeMessage: string | null;
+  /** Static QRIS payload of the outlet; shown with the amount at payment */
+  qrisPayload: string | null;
+}
+
+export const DEFAULT_CUSTOMER_DISPLAY_SETTINGS: CustomerDisplaySettings = {
+  idleImages: [],
+  slideSeconds: 8,
+  thankYouSeconds: 8,
+  welcomeMessage: null,
+  qrisPayload: null,
+};
+
+const positive = (value: unknown, fallback: number) =>
+  typeof value === 'number' && value > 0 ? value : fallback;
+
+const text = (value: unknown) => (typeof value === 'string' && value ? value : null);
+
+/** Reads `settings.customerDisplay` of an outlet, falling back per field to the defaults */
+export function resolveCustomerDisplaySettings(outletSettings: unknown): CustomerDisplaySettings {
+  const raw = ((outletSettings as Record<string, unknown> | null)?.customerDisplay ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const defaults = DEFAULT_CUSTOMER_DISPLAY_SETTINGS;
+  return {
+    idleImages: Array.isArray(raw.idleImages)
+      ? raw.idleImages.filter((url): url is string => typeof url === 'string')
+      : defaults.idleImages,
+    slideSeconds: positive(raw.slideSeconds, defaults.slideSeconds),
+    thankYouSeconds: positive(raw.thankYouSeconds, defaults.thankYouSeconds),
+    welcomeMessage: text(raw.welcomeMessage),
+    qrisPayload: text(raw.qrisPayload),
+  };
+}
+
+/** What the display itself is told: the QRIS payload stays on the server */
+export function displaySettings(settings: CustomerDisplaySettings) {
+  const { qrisPayload, ...rest } = settings;
+  return { ...rest, qrisEnabled: qrisPayload !== null };
+}
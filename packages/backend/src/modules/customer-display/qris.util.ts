@@ -0,0 +1,82 @@
+/**
+ * QRIS payload helpers
+ *
+ * A QRIS payload is an EMVCo merchant-presented QR: a run of
+ * `<id:2><length:2><value>` fields closed by a CRC-16/CCITT-FALSE in field 63.
+ * Merchants get a static payload from their acquirer; adding the amount in
+ * field 54 and marking it dynamic lets the customer's app prefill the total.
+ */
+
+interface QrisField {
+  id: string;
+  value: string;
+}
+
+const CRC_FIELD = '6304';
+
+/** CRC-16/CCITT-FALSE as four upper-case hex digits */
+export function qrisCrc(data: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/** Splits a payload, CRC excluded, into its top-level fields; null when malformed */
+function parseFields(body: string): QrisField[] | null {
+  const fields: QrisField[] = [];
+  let pos = 0;
+  while (pos < body.length) {
+    const id = body.slice(pos, pos + 2);
+    const length = Number(body.slice(pos + 2, pos + 4));
+    if (!/^\d{2}$/.test(id) || !Number.isInteger(length) || pos + 4 + length > body.length) {
+      return null;
+    }
+    fields.push({ id, value: body.slice(pos + 4, pos + 4 + length) });
+    pos += 4 + length;
+  }
+  return fields;
+}
+
+function field(id: string, value: string): string {
+  return `${id}${String(value.length).padStart(2, '0')}${value}`;
+}
+
+/** Whether the payload is well formed and its CRC matches */
+export function isValidQris(payload: string): boolean {
+  if (!payload.startsWith('000201') || payload.length < 12) return false;
+  const crcAt = payload.length - 8;
+  if (payload.slice(crcAt, crcAt + 4) !== CRC_FIELD) return false;
+  if (qrisCrc(payload.slice(0, crcAt + 4)) !== payload.slice(crcAt + 4)) return false;
+  return parseFields(payload.slice(0, crcAt)) !== null;
+}
+
+/**
+ * Turns a static QRIS payload into a dynamic one for a single payment of
+ * `amount` rupiah. Returns null when the payload is not valid QRIS.
+ */
+export function toDynamicQris(staticPayload: string, amount: number): string | null {
+  if (!isValidQris(staticPayload)) return null;
+
+  const fields = parseFields(staticPayload.slice(0, -8))!.filter((f) => f.id !== '54');
+  const pointOfInitiation = fields.find((f) => f.id === '01');
+  if (pointOfInitiation) {
+    pointOfInitiation.value = '12';
+  } else {
+    fields.splice(1, 0, { id: '01', value: '12' });
+  }
+
+  // Fields are kept in id order; the amount goes before the country code
+  const insertAt = fields.findIndex((f) => f.id > '54');
+  fields.splice(insertAt === -1 ? fields.length : insertAt, 0, {
+    id: '54',
+    value: String(Math.round(amount)),
+  });
+
+  const body = fields.map((f) => field(f.id, f.value)).join('') + CRC_FIELD;
+  return body + qrisCrc(body);
+}
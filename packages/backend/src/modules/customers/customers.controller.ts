@@ -19,11 +19,13 @@ import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiConsumes, ApiBody } from '@nestjs/swagger';
 import { Response } from 'express';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { AddLoyaltyPointsUseCase } from '../../application/use-cases/customers/add-loyalty-points.use-case';
 import { EarnLoyaltyPointsUseCase } from '../../application/use-cases/loyalty/earn-loyalty-points.use-case';
 import { RedeemLoyaltyPointsUseCase } from '../../application/use-cases/loyalty/redeem-loyalty-points.use-case';
@@ -41,6 +43,24 @@ import { PrismaService } from '../../infrastructure/database/prisma.service';
 import { ExcelParserService } from '../../infrastructure/import/excel-parser.service';
 import { CustomersService } from './customers.service';
 import { BusinessScoped } from '../../shared/guards/business-scope.guard';
+import { normalizeNpwp } from '../tax-invoices/faktur-number.util';
+
+interface CustomerTaxFields {
+  npwp?: string | null;
+  npwpName?: string | null;
+  npwpAddress?: string | null;
+}
+
+/** Accepts NPWP with or without punctuation; an empty value clears it */
+function parseNpwp(value: string | null | undefined): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value.trim() === '') return null;
+  const npwp = normalizeNpwp(value);
+  if (!npwp) {
+    throw new BadRequestException('NPWP must be 15 or 16 digits');
+  }
+  return npwp;
+}
 
 @ApiTags('Customers')
 @ApiBearerAuth()
@@ -61,15 +81,17 @@ export class CustomersController {
   ) {}
 
   @Get()
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get all customers for business' })
   async list(@CurrentUser() user: AuthUser) {
     return this.customerRepo.findByBusinessId(user.businessId);
   }
 
   @Post()
+  @WithoutPermission()
   @ApiOperation({ summary: 'Create a new customer' })
   async create(
-    @Body() dto: { name: string; email?: string; phone?: string },
+    @Body() dto: { name: string; email?: string; phone?: string } & CustomerTaxFields,
     @CurrentUser() user: AuthUser,
   ) {
     return this.customerRepo.save({
@@ -78,6 +100,9 @@ export class CustomersController {
       name: dto.name,
       email: dto.email || null,
       phone: dto.phone || null,
+      npwp: parseNpwp(dto.npwp) ?? null,
+      npwpName: dto.npwpName || null,
+      npwpAddress: dto.npwpAddress || null,
       loyaltyPoints: 0,
       loyaltyTier: 'regular',
       totalSpent: 0,
@@ -89,16 +114,16 @@ export class CustomersController {
   }
 
   @Get('segments')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER, EmployeeRole.SUPERVISOR)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('customers.insights.view')
   @ApiOperation({ summary: 'Get customer segments (new, returning, vip, at-risk, inactive)' })
   async getSegments(@CurrentUser() user: AuthUser) {
     return this.customersService.getSegmentsSummary(user.businessId);
   }
 
   @Get('segments/:segment')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER, EmployeeRole.SUPERVISOR)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('customers.insights.view')
   @ApiOperation({ summary: 'Get customers in a specific segment' })
   async getCustomersBySegment(@Param('segment') segment: string, @CurrentUser() user: AuthUser) {
     const validSegments = ['new', 'returning', 'vip', 'at-risk', 'inactive'];
@@ -115,8 +140,8 @@ export class CustomersController {
   }
 
   @Get('export')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('customers.import_export')
   @ApiOperation({ summary: 'Export customers as CSV or JSON' })
   async exportCustomers(
     @Query() query: CustomerExportQueryDto,
@@ -143,8 +168,8 @@ export class CustomersController {
   // ==================== XLSX Import Endpoints ====================
 
   @Post('import-xlsx/preview')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('customers.import_export')
   @UseInterceptors(FileInterceptor('file'))
   @ApiConsumes('multipart/form-data')
   @ApiOperation({ summary: 'Preview XLSX file sheets and headers for customer import' })
@@ -167,8 +192,8 @@ export class CustomersController {
   }
 
   @Post('import-xlsx')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('customers.import_export')
   @UseInterceptors(FileInterceptor('file'))
   @ApiConsumes('multipart/form-data')
   @ApiOperation({ summary: 'Import customers from XLSX file' })
@@ -222,8 +247,8 @@ export class CustomersController {
   }
 
   @Post('import')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('customers.import_export')
   @ApiOperation({ summary: 'Batch import customers from CSV or JSON' })
   async importCustomers(@Body() dto: CustomerImportDto, @CurrentUser() user: AuthUser) {
     let rows;
@@ -248,8 +273,8 @@ export class CustomersController {
   // ==================== Birthday Endpoints ====================
 
   @Get('birthdays')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER, EmployeeRole.SUPERVISOR)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('customers.insights.view')
   @ApiOperation({ summary: 'Get customers with upcoming birthdays' })
   async getUpcomingBirthdays(@Query() query: BirthdayQueryDto, @CurrentUser() user: AuthUser) {
     const daysAhead = query.daysAhead ? parseInt(query.daysAhead, 10) : 7;
@@ -257,8 +282,8 @@ export class CustomersController {
   }
 
   @Post('birthdays/notify')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('customers.notify')
   @ApiOperation({ summary: 'Send birthday notifications to selected customers' })
   async sendBirthdayNotifications(@Body() dto: BirthdayNotifyDto, @CurrentUser() user: AuthUser) {
     return this.customersService.sendBirthdayNotifications(user.businessId, dto.customerIds);
@@ -266,6 +291,7 @@ export class CustomersController {
 
   @Get(':id')
   @BusinessScoped({ resource: 'customer', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get customer by ID' })
   async get(@Param('id') id: string) {
     const c = await this.customerRepo.findById(id);
@@ -275,16 +301,19 @@ export class CustomersController {
 
   @Put(':id')
   @BusinessScoped({ resource: 'customer', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Update customer' })
   async update(
     @Param('id') id: string,
-    @Body() dto: { name?: string; email?: string; phone?: string },
+    @Body() dto: { name?: string; email?: string; phone?: string } & CustomerTaxFields,
   ) {
-    return this.customerRepo.update(id, dto);
+    return this.customerRepo.update(id, { ...dto, npwp: parseNpwp(dto.npwp) });
   }
 
   @Delete(':id')
   @BusinessScoped({ resource: 'customer', param: 'id' })
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('customers.delete')
   @ApiOperation({ summary: 'Soft delete (deactivate) customer' })
   async remove(@Param('id') id: string) {
     await this.customerRepo.delete(id);
@@ -293,6 +322,7 @@ export class CustomersController {
 
   @Get(':id/history')
   @BusinessScoped({ resource: 'customer', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get customer purchase history' })
   async getPurchaseHistory(
     @Param('id') id: string,
@@ -312,6 +342,7 @@ export class CustomersController {
 
   @Post(':id/loyalty/earn')
   @BusinessScoped({ resource: 'customer', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Earn loyalty points from transaction' })
   async earnLoyalty(
     @Param('id') id: string,
@@ -326,6 +357,7 @@ export class CustomersController {
 
   @Post(':id/loyalty/redeem')
   @BusinessScoped({ resource: 'customer', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Redeem loyalty points for discount' })
   async redeemLoyalty(
     @Param('id') id: string,
@@ -340,6 +372,7 @@ export class CustomersController {
 
   @Get(':id/loyalty/balance')
   @BusinessScoped({ resource: 'customer', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get customer loyalty balance' })
   async getLoyaltyBalance(@Param('id') id: string) {
     return this.getLoyaltyBalanceUseCase.execute({ customerId: id });
@@ -347,6 +380,7 @@ export class CustomersController {
 
   @Get(':id/loyalty/history')
   @BusinessScoped({ resource: 'customer', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get customer loyalty transaction history' })
   async getLoyaltyHistory(@Param('id') id: string, @Query('limit') limit?: string) {
     return this.getLoyaltyHistoryUseCase.execute({
@@ -358,6 +392,7 @@ export class CustomersController {
   // Legacy endpoint - kept for backward compatibility
   @Post(':id/loyalty/add')
   @BusinessScoped({ resource: 'customer', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Add loyalty points (legacy)' })
   async addLoyalty(
     @Param('id') id: string,
@@ -13,19 +13,22 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import type { IDeviceRepository } from '../../domain/interfaces/repositories/device.repository';
 import { DevicesService } from './devices.service';
+import { PlanLimit } from '../../common/interceptors/subscription.interceptor';
 import { PublishVersionDto, DeviceUpdateAckDto } from '../../application/dtos/device-features.dto';
 
 @ApiTags('Devices')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('devices')
 export class DevicesController {
   constructor(
@@ -37,18 +40,21 @@ export class DevicesController {
   // ==================== Device CRUD ====================
 
   @Get()
+  @WithoutPermission()
   @ApiOperation({ summary: 'List all devices for business' })
   async list(@CurrentUser() user: AuthUser) {
     return this.deviceRepo.findByBusinessId(user.businessId);
   }
 
   @Post()
+  @WithoutPermission()
+  @PlanLimit('devices')
   @ApiOperation({ summary: 'Register a new device' })
   async register(
     @Body()
     dto: {
       deviceName: string;
-      deviceType: 'tablet' | 'phone' | 'desktop' | 'kds_display';
+      deviceType: 'tablet' | 'phone' | 'desktop' | 'kds_display' | 'kiosk';
       platform?: 'android' | 'ios' | 'windows' | 'web';
       deviceIdentifier?: string;
       outletId?: string;
@@ -66,6 +72,7 @@ export class DevicesController {
   }
 
   @Get(':id')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get device by ID' })
   async get(@Param('id') id: string) {
     const d = await this.deviceRepo.findById(id);
@@ -74,12 +81,14 @@ export class DevicesController {
   }
 
   @Put(':id/sync')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Update device sync timestamp' })
   async sync(@Param('id') id: string) {
     return this.deviceRepo.updateSync(id);
   }
 
   @Delete(':id')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Deactivate a device' })
   async deactivate(@Param('id') id: string) {
     await this.deviceRepo.deactivate(id);
@@ -89,6 +98,7 @@ export class DevicesController {
   // ==================== App Version Management ====================
 
   @Get('versions')
+  @WithoutPermission()
   @ApiOperation({
     summary: 'List all published app versions',
     description: 'Returns all published app versions, optionally filtered by platform.',
@@ -99,7 +109,7 @@ export class DevicesController {
   }
 
   @Post('versions')
-  @Roles(EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('devices.versions.publish')
   @ApiOperation({
     summary: 'Publish a new app version',
     description: 'Publishes a new version and notifies all active devices of the target platform.',
@@ -117,6 +127,7 @@ export class DevicesController {
   // ==================== Device Update Check ====================
 
   @Get(':id/update-check')
+  @WithoutPermission()
   @ApiOperation({
     summary: 'Check for available updates for a device',
     description:
@@ -127,6 +138,7 @@ export class DevicesController {
   }
 
   @Post(':id/update-ack')
+  @WithoutPermission()
   @ApiOperation({
     summary: 'Acknowledge update installed on device',
     description:
@@ -14,11 +14,13 @@ import {
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import * as bcrypt from 'bcrypt';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { StartShiftUseCase } from '../../application/use-cases/employees/start-shift.use-case';
 import { EndShiftUseCase } from '../../application/use-cases/employees/end-shift.use-case';
 import {
@@ -49,10 +51,11 @@ import {
   decimalToNumber,
 } from '../../infrastructure/repositories/decimal.helper';
 import { OutletAccessGuard } from '../../shared/guards/outlet-access.guard';
+import { PlanLimit } from '../../common/interceptors/subscription.interceptor';
 
 @ApiTags('Employees')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('employees')
 export class EmployeesController {
   constructor(
@@ -71,7 +74,7 @@ export class EmployeesController {
   // ==========================================================================
 
   @Get()
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.manage')
   async listEmployees(@CurrentUser() user: AuthUser, @Query('outletId') outletId?: string) {
     // Owner/super_admin can see all outlets, others only their assigned outlet
     const accessibleOutletId = OutletAccessGuard.getAccessibleOutletId(user, outletId);
@@ -103,7 +106,8 @@ export class EmployeesController {
   }
 
   @Post()
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.manage')
+  @PlanLimit('employees')
   async createEmployee(@Body() dto: CreateEmployeeDto, @CurrentUser() user: AuthUser) {
     let hashedPin: string | null = null;
     if (dto.pin) {
@@ -137,6 +141,7 @@ export class EmployeesController {
   }
 
   @Get(':id')
+  @WithoutPermission()
   async getEmployee(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     const e = await this.prisma.employee.findUnique({
       where: { id },
@@ -169,7 +174,7 @@ export class EmployeesController {
   }
 
   @Put(':id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.manage')
   async updateEmployee(
     @Param('id') id: string,
     @Body() dto: UpdateEmployeeDto,
@@ -197,7 +202,7 @@ export class EmployeesController {
   }
 
   @Delete(':id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.manage')
   async deleteEmployee(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     const employee = await this.employeeRepo.findById(id);
     if (!employee) throw new NotFoundException('Employee not found');
@@ -214,15 +219,19 @@ export class EmployeesController {
   // ==========================================================================
 
   @Post('shifts/start')
+  @WithoutPermission()
   async startShift(@Body() dto: StartShiftDto, @CurrentUser() user: AuthUser) {
     return this.startShiftUseCase.execute({
       outletId: dto.outletId,
       employeeId: user.employeeId,
       openingCash: dto.openingCash,
+      openingCount: dto.openingCount,
+      drawerId: dto.drawerId,
     });
   }
 
   @Post('shifts/:shiftId/end')
+  @WithoutPermission()
   async endShift(
     @Param('shiftId') shiftId: string,
     @Body() dto: EndShiftDto,
@@ -232,10 +241,12 @@ export class EmployeesController {
       shiftId,
       employeeId: user.employeeId,
       closingCash: dto.closingCash,
+      closingCount: dto.closingCount,
     });
   }
 
   @Get('shifts/current')
+  @WithoutPermission()
   async getCurrentShift(@CurrentUser() user: AuthUser) {
     const shift = await this.shiftRepo.findOpenShift(user.employeeId);
     return shift ?? null;
@@ -249,6 +260,7 @@ export class EmployeesController {
   // ==========================================================================
 
   @Get(':id/shifts')
+  @WithoutPermission()
   @ApiOperation({ summary: 'List shifts for a specific employee' })
   async listEmployeeShifts(
     @Param('id') id: string,
@@ -286,8 +298,10 @@ export class EmployeesController {
     return shifts.map((s) => {
       const openingCash = decimalToNumberRequired(s.openingCash);
       const closingCash = decimalToNumber(s.closingCash);
-      const expectedCash = decimalToNumber(s.expectedCash);
-      const cashDifference = decimalToNumber(s.cashDifference);
+      // A cashier does not get to see what a blind-closed drawer should have held
+      const hidden = s.blindClose && s.employeeId === user.employeeId;
+      const expectedCash = hidden ? null : decimalToNumber(s.expectedCash);
+      const cashDifference = hidden ? null : decimalToNumber(s.cashDifference);
       const totalSales = s.transactions.reduce(
         (sum, tx) => sum + decimalToNumberRequired(tx.grandTotal),
         0,
@@ -304,6 +318,7 @@ export class EmployeesController {
         closingCash,
         expectedCash,
         cashDifference,
+        blindClose: s.blindClose,
         startedAt: s.startedAt.toISOString(),
         endedAt: s.endedAt ? s.endedAt.toISOString() : null,
         notes: s.notes,
@@ -314,24 +329,22 @@ export class EmployeesController {
   }
 
   @Post(':id/shifts/start')
+  @RequirePermission('employees.manage')
   @ApiOperation({ summary: 'Start a shift for a specific employee' })
-  async startShiftForEmployee(
-    @Param('id') employeeId: string,
-    @Body() dto: { outletId: string; openingCash: number },
-  ) {
+  async startShiftForEmployee(@Param('id') employeeId: string, @Body() dto: StartShiftDto) {
     return this.startShiftUseCase.execute({
       outletId: dto.outletId,
       employeeId,
       openingCash: dto.openingCash,
+      openingCount: dto.openingCount,
+      drawerId: dto.drawerId,
     });
   }
 
   @Post(':id/shifts/end')
+  @RequirePermission('employees.manage')
   @ApiOperation({ summary: 'End the current shift for a specific employee' })
-  async endShiftForEmployee(
-    @Param('id') employeeId: string,
-    @Body() dto: { closingCash: number; notes?: string },
-  ) {
+  async endShiftForEmployee(@Param('id') employeeId: string, @Body() dto: EndShiftDto) {
     // Find the currently open shift for this employee
     const openShift = await this.shiftRepo.findOpenShift(employeeId);
     if (!openShift) throw new NotFoundException('No open shift found for this employee');
@@ -340,6 +353,7 @@ export class EmployeesController {
       shiftId: openShift.id,
       employeeId,
       closingCash: dto.closingCash,
+      closingCount: dto.closingCount,
     });
   }
 
@@ -348,7 +362,7 @@ export class EmployeesController {
   // ==========================================================================
 
   @Get('shifts/summary')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.reports.view')
   async getShiftSummary(@Query() query: ShiftSummaryQueryDto) {
     return this.employeesService.getAllEmployeeShiftSummary(
       query.outletId,
@@ -358,7 +372,7 @@ export class EmployeesController {
   }
 
   @Get(':id/shifts/report')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.reports.view')
   async getEmployeeShiftReport(
     @Param('id') id: string,
     @Query() query: ShiftReportQueryDto,
@@ -385,7 +399,7 @@ export class EmployeesController {
   // ==========================================================================
 
   @Post('schedule')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.schedule.manage')
   async createSchedule(@Body() dto: CreateScheduleDto) {
     return this.employeesService.createSchedule({
       employeeId: dto.employeeId,
@@ -398,13 +412,13 @@ export class EmployeesController {
   }
 
   @Get('schedule')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.schedule.manage')
   async getSchedule(@Query() query: ScheduleQueryDto) {
     return this.employeesService.getWeeklySchedule(query.outletId, new Date(query.weekStart));
   }
 
   @Put('schedule/:id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.schedule.manage')
   async updateSchedule(@Param('id') id: string, @Body() dto: UpdateScheduleDto) {
     return this.employeesService.updateSchedule(id, {
       employeeId: dto.employeeId,
@@ -417,7 +431,7 @@ export class EmployeesController {
   }
 
   @Delete('schedule/:id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.schedule.manage')
   async deleteSchedule(@Param('id') id: string) {
     return this.employeesService.deleteSchedule(id);
   }
@@ -427,7 +441,7 @@ export class EmployeesController {
   // ==========================================================================
 
   @Get('commissions/summary')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.reports.view')
   async getCommissionSummary(@Query() query: CommissionSummaryQueryDto) {
     return this.employeesService.getAllEmployeeCommissionSummary(
       query.outletId,
@@ -437,7 +451,7 @@ export class EmployeesController {
   }
 
   @Get(':id/commissions')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.reports.view')
   async getEmployeeCommissions(
     @Param('id') id: string,
     @Query() query: CommissionQueryDto,
@@ -464,7 +478,7 @@ export class EmployeesController {
   // ==========================================================================
 
   @Get('attendance/summary')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN)
+  @RequirePermission('employees.reports.view')
   async getAttendanceSummary(@Query() query: AttendanceSummaryQueryDto) {
     return this.employeesService.getAttendanceSummary(
       query.outletId,
@@ -474,11 +488,13 @@ export class EmployeesController {
   }
 
   @Post(':id/attendance/clock-in')
+  @WithoutPermission()
   async clockIn(@Param('id') id: string, @Body() dto: ClockInDto) {
     return this.employeesService.clockIn(id, dto.outletId);
   }
 
   @Post(':id/attendance/clock-out')
+  @WithoutPermission()
   async clockOut(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     // Verify employee exists and belongs to business
     const employee = await this.employeeRepo.findById(id);
@@ -493,6 +509,7 @@ export class EmployeesController {
   }
 
   @Get(':id/attendance')
+  @WithoutPermission()
   async getAttendanceRecords(
     @Param('id') id: string,
     @Query() query: AttendanceQueryDto,
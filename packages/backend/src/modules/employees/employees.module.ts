@@ -10,8 +10,10 @@ import { EndShiftUseCase } from '../../application/use-cases/employees/end-shift
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import { PrismaEmployeeRepository } from '../../infrastructure/repositories/prisma-employee.repository';
 import { PrismaShiftRepository } from '../../infrastructure/repositories/prisma-shift.repository';
+import { CashManagementModule } from '../cash-management/cash-management.module';
 
 @Module({
+  imports: [CashManagementModule],
   controllers: [EmployeesController],
   providers: [
     EmployeesService,
@@ -0,0 +1,39 @@
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { StoredValueTopUpDto } from '../../application/dtos/gift-card.dto';
+import { CustomerWalletsService } from './customer-wallets.service';
+
+@ApiTags('Customer Wallets')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('wallets')
+export class CustomerWalletsController {
+  constructor(private readonly walletsService: CustomerWalletsService) {}
+
+  @Get(':customerId')
+  @RequirePermission('stored_value.sell')
+  async getWallet(@Param('customerId') customerId: string, @CurrentUser() user: AuthUser) {
+    return this.walletsService.getWallet(customerId, user.businessId);
+  }
+
+  @Get(':customerId/entries')
+  @RequirePermission('stored_value.view')
+  async listEntries(@Param('customerId') customerId: string, @CurrentUser() user: AuthUser) {
+    return this.walletsService.listEntries(customerId, user.businessId);
+  }
+
+  @Post(':customerId/top-up')
+  @RequirePermission('stored_value.sell')
+  async topUp(
+    @Param('customerId') customerId: string,
+    @Body() dto: StoredValueTopUpDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.walletsService.topUp(customerId, dto, user);
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type { StoredValueTopUpDto } from '../../application/dtos/gift-card.dto';
+import { StoredValueService, topUpNote } from './stored-value.service';
+
+/**
+ * CustomerWalletsService - Prepaid customer balances
+ *
+ * One wallet per customer, created on first top-up. Customers are scoped to
+ * the business, so a balance topped up at one outlet is spendable at all
+ * of them.
+ */
+@Injectable()
+export class CustomerWalletsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storedValue: StoredValueService,
+  ) {}
+
+  async getWallet(customerId: string, businessId: string) {
+    await this.assertCustomer(customerId, businessId);
+
+    const wallet = await this.prisma.customerWallet.findUnique({ where: { customerId } });
+    return {
+      customerId,
+      walletId: wallet?.id ?? null,
+      balance: wallet?.balance.toNumber() ?? 0,
+      isActive: wallet?.isActive ?? true,
+      updatedAt: wallet?.updatedAt ?? null,
+    };
+  }
+
+  async topUp(customerId: string, dto: StoredValueTopUpDto, user: AuthUser) {
+    await this.assertCustomer(customerId, user.businessId);
+
+    return this.prisma.$transaction(async (tx) => {
+      const wallet = await tx.customerWallet.upsert({
+        where: { customerId },
+        create: { businessId: user.businessId, customerId },
+        update: {},
+      });
+      if (!wallet.isActive) {
+        throw new BusinessError(ErrorCode.WALLET_NOT_FOUND, 'Customer wallet is disabled');
+      }
+
+      return this.storedValue.credit(tx, 'wallet', wallet.id, dto.amount, 'top_up', {
+        outletId: user.outletId,
+        employeeId: user.employeeId,
+        notes: topUpNote(dto.paymentMethod, dto.notes),
+      });
+    });
+  }
+
+  async listEntries(customerId: string, businessId: string) {
+    await this.assertCustomer(customerId, businessId);
+
+    return this.prisma.walletLedgerEntry.findMany({
+      where: { wallet: { customerId } },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  private async assertCustomer(customerId: string, businessId: string): Promise<void> {
+    const customer = await this.prisma.customer.findFirst({
+      where: { id: customerId, businessId },
+      select: { id: true },
+    });
+    if (!customer) {
+      throw new BusinessError(ErrorCode.CUSTOMER_NOT_FOUND, 'Customer not found');
+    }
+  }
+}
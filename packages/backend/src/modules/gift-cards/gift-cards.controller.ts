@@ -0,0 +1,106 @@
+import { Controller, Get, Post, Put, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  GiftCardQueryDto,
+  GiftCardSettingsDto,
+  IssueGiftCardDto,
+  StoredValueLiabilityQueryDto,
+  StoredValueTopUpDto,
+  VoidGiftCardDto,
+} from '../../application/dtos/gift-card.dto';
+import { GiftCardsService } from './gift-cards.service';
+import { StoredValueService } from './stored-value.service';
+
+@ApiTags('Gift Cards')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('gift-cards')
+export class GiftCardsController {
+  constructor(
+    private readonly giftCardsService: GiftCardsService,
+    private readonly storedValueService: StoredValueService,
+  ) {}
+
+  // ==================== Static routes (before :id) ====================
+
+  @Get('settings')
+  @RequirePermission('stored_value.manage')
+  @ApiOperation({ summary: 'Get gift card expiry and top-up rules' })
+  async getSettings(@CurrentUser() user: AuthUser) {
+    return this.giftCardsService.getSettings(user.businessId);
+  }
+
+  @Put('settings')
+  @RequirePermission('stored_value.settings')
+  @ApiOperation({ summary: 'Update gift card expiry and top-up rules' })
+  async updateSettings(@Body() dto: GiftCardSettingsDto, @CurrentUser() user: AuthUser) {
+    return this.giftCardsService.updateSettings(user.businessId, dto);
+  }
+
+  @Get('reports/liability')
+  @RequirePermission('stored_value.manage')
+  @ApiOperation({ summary: 'Outstanding gift card and wallet balances' })
+  async getLiabilityReport(
+    @Query() query: StoredValueLiabilityQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.storedValueService.getLiabilityReport(
+      user.businessId,
+      query.asOf ? new Date(query.asOf) : undefined,
+    );
+  }
+
+  @Get('balance/:code')
+  @RequirePermission('stored_value.sell')
+  @ApiOperation({ summary: 'Check a gift card balance by code' })
+  async checkBalance(@Param('code') code: string, @CurrentUser() user: AuthUser) {
+    return this.giftCardsService.checkBalance(code, user.businessId);
+  }
+
+  // ==================== Cards ====================
+
+  @Get()
+  @RequirePermission('stored_value.view')
+  async list(@Query() query: GiftCardQueryDto, @CurrentUser() user: AuthUser) {
+    return this.giftCardsService.list(user.businessId, query);
+  }
+
+  @Post()
+  @RequirePermission('stored_value.sell')
+  @ApiOperation({ summary: 'Issue a physical or digital gift card' })
+  async issue(@Body() dto: IssueGiftCardDto, @CurrentUser() user: AuthUser) {
+    return this.giftCardsService.issue(dto, user);
+  }
+
+  @Get(':id')
+  @RequirePermission('stored_value.view')
+  async get(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.giftCardsService.getCard(id, user.businessId);
+  }
+
+  @Post(':id/top-up')
+  @RequirePermission('stored_value.sell')
+  async topUp(
+    @Param('id') id: string,
+    @Body() dto: StoredValueTopUpDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.giftCardsService.topUp(id, dto, user);
+  }
+
+  @Put(':id/void')
+  @RequirePermission('stored_value.manage')
+  @ApiOperation({ summary: 'Void a gift card, forfeiting its balance' })
+  async voidCard(
+    @Param('id') id: string,
+    @Body() dto: VoidGiftCardDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.giftCardsService.voidCard(id, dto.reason, user);
+  }
+}
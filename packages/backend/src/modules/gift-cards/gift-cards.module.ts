@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { GiftCardsController } from './gift-cards.controller';
+import { CustomerWalletsController } from './customer-wallets.controller';
+import { GiftCardsService } from './gift-cards.service';
+import { CustomerWalletsService } from './customer-wallets.service';
+import { StoredValueService } from './stored-value.service';
+
+@Module({
+  controllers: [GiftCardsController, CustomerWalletsController],
+  providers: [GiftCardsService, CustomerWalletsService, StoredValueService],
+  exports: [StoredValueService],
+})
+export class GiftCardsModule {}
@@ -0,0 +1,356 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type {
+  GiftCardQueryDto,
+  GiftCardSettingsDto,
+  IssueGiftCardDto,
+  StoredValueTopUpDto,
+} from '../../application/dtos/gift-card.dto';
+import { StoredValueService, normalizeGiftCardCode, topUpNote } from './stored-value.service';
+
+export interface GiftCardSettings {
+  /** 0 = cards never expire */
+  defaultValidityDays: number;
+  allowTopUp: boolean;
+  extendExpiryOnTopUp: boolean;
+}
+
+const DEFAULT_SETTINGS: GiftCardSettings = {
+  defaultValidityDays: 365,
+  allowTopUp: true,
+  extendExpiryOnTopUp: false,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unambiguous characters for printed codes (no 0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * GiftCardsService - Issue, top up, look up and expire gift cards
+ *
+ * Cards are business-wide: issued at one outlet, redeemable at any outlet
+ * of the same business (see StoredValueService for redemption).
+ */
+@Injectable()
+export class GiftCardsService {
+  private readonly logger = new Logger(GiftCardsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storedValue: StoredValueService,
+  ) {}
+
+  // ==========================================================================
+  // Cards
+  // ==========================================================================
+
+  async issue(dto: IssueGiftCardDto, user: AuthUser) {
+    const settings = await this.getSettings(user.businessId);
+    const code = dto.code
+      ? normalizeGiftCardCode(dto.code)
+      : await this.generateCode(user.businessId);
+
+    const existing = await this.prisma.giftCard.findFirst({
+      where: { businessId: user.businessId, code },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new AppError(
+        ErrorCode.DUPLICATE_RESOURCE,
+        `Gift card ${code} already exists`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    if (dto.customerId) {
+      await this.assertCustomer(dto.customerId, user.businessId);
+    }
+
+    const expiresAt = dto.expiresAt
+      ? new Date(dto.expiresAt)
+      : this.defaultExpiry(settings, new Date());
+
+    return this.prisma.$transaction(async (tx) => {
+      const card = await tx.giftCard.create({
+        data: {
+          businessId: user.businessId,
+          code,
+          cardType: dto.cardType,
+          initialBalance: dto.amount,
+          balance: 0,
+          expiresAt,
+          customerId: dto.customerId ?? null,
+          recipientName: dto.recipientName ?? null,
+          recipientEmail: dto.recipientEmail ?? null,
+          issuedAtOutletId: user.outletId ?? null,
+          issuedBy: user.employeeId,
+          notes: dto.notes ?? null,
+        },
+      });
+
+      const movement = await this.storedValue.credit(
+        tx,
+        'gift_card',
+        card.id,
+        dto.amount,
+        'issue',
+        {
+          outletId: user.outletId,
+          employeeId: user.employeeId,
+        },
+      );
+
+      return { ...card, balance: new Prisma.Decimal(movement.balanceAfter) };
+    });
+  }
+
+  async list(businessId: string, query: GiftCardQueryDto) {
+    return this.prisma.giftCard.findMany({
+      where: {
+        businessId,
+        ...(query.status && { status: query.status }),
+        ...(query.customerId && { customerId: query.customerId }),
+        ...(query.search && {
+          OR: [
+            { code: { contains: query.search.toUpperCase() } },
+            { recipientName: { contains: query.search, mode: 'insensitive' as const } },
+          ],
+        }),
+      },
+      include: { customer: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  async getCard(id: string, businessId: string) {
+    const card = await this.prisma.giftCard.findFirst({
+      where: { id, businessId },
+      include: {
+        customer: { select: { id: true, name: true } },
+        entries: { orderBy: { createdAt: 'desc' }, take: 100 },
+      },
+    });
+    if (!card) {
+      throw new BusinessError(ErrorCode.GIFT_CARD_NOT_FOUND, 'Gift card not found');
+    }
+    return card;
+  }
+
+  /** Balance check at the counter; reports a past-due card as expired even before the sweep runs */
+  async checkBalance(code: string, businessId: string) {
+    const card = await this.prisma.giftCard.findFirst({
+      where: { businessId, code: normalizeGiftCardCode(code) },
+    });
+    if (!card) {
+      throw new BusinessError(ErrorCode.GIFT_CARD_NOT_FOUND, 'Gift card not found');
+    }
+
+    const expired = !!card.expiresAt && card.expiresAt <= new Date();
+    const status = card.status === 'active' && expired ? 'expired' : card.status;
+
+    return {
+      id: card.id,
+      code: card.code,
+      cardType: card.cardType,
+      balance: card.balance.toNumber(),
+      status,
+      expiresAt: card.expiresAt,
+      redeemable: status === 'active' && card.balance.toNumber() > 0,
+    };
+  }
+
+  async topUp(id: string, dto: StoredValueTopUpDto, user: AuthUser) {
+    const settings = await this.getSettings(user.businessId);
+    if (!settings.allowTopUp) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Gift card top-up is disabled');
+    }
+
+    const card = await this.getCard(id, user.businessId);
+    const now = new Date();
+    if (card.status !== 'active' || (card.expiresAt && card.expiresAt <= now)) {
+      throw new BusinessError(
+        ErrorCode.GIFT_CARD_INACTIVE,
+        'Only active gift cards can be topped up',
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const movement = await this.storedValue.credit(
+        tx,
+        'gift_card',
+        card.id,
+        dto.amount,
+        'top_up',
+        {
+          outletId: user.outletId,
+          employeeId: user.employeeId,
+          notes: topUpNote(dto.paymentMethod, dto.notes),
+        },
+      );
+
+      if (settings.extendExpiryOnTopUp && card.expiresAt) {
+        await tx.giftCard.update({
+          where: { id: card.id },
+          data: { expiresAt: this.defaultExpiry(settings, now) },
+        });
+      }
+
+      return movement;
+    });
+  }
+
+  /** Voiding forfeits the remaining balance; the write-off is kept in the ledger */
+  async voidCard(id: string, reason: string, user: AuthUser) {
+    const card = await this.getCard(id, user.businessId);
+    if (card.status === 'void') {
+      throw new BusinessError(ErrorCode.GIFT_CARD_INACTIVE, 'Gift card is already voided');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.writeOff(tx, card.id, card.balance, 'adjustment', `Void: ${reason}`, user);
+      await tx.giftCard.update({ where: { id: card.id }, data: { status: 'void' } });
+    });
+
+    return { success: true };
+  }
+
+  // ==========================================================================
+  // Expiry
+  // ==========================================================================
+
+  /**
+   * Daily sweep: past-due cards are marked expired and their remaining
+   * balance leaves the liability as an `expiry` ledger entry.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async expireDueCards(now = new Date()): Promise<{ expired: number; amount: number }> {
+    const due = await this.prisma.giftCard.findMany({
+      where: { status: 'active', expiresAt: { lte: now } },
+      select: { id: true, balance: true },
+    });
+
+    let amount = 0;
+    for (const card of due) {
+      await this.prisma.$transaction(async (tx) => {
+        await this.writeOff(tx, card.id, card.balance, 'expiry', 'Card expired');
+        await tx.giftCard.update({ where: { id: card.id }, data: { status: 'expired' } });
+      });
+      amount += card.balance.toNumber();
+    }
+
+    if (due.length > 0) {
+      this.logger.log(`Expired ${due.length} gift cards (${amount} balance forfeited)`);
+    }
+    return { expired: due.length, amount };
+  }
+
+  // ==========================================================================
+  // Settings (stored in business settings)
+  // ==========================================================================
+
+  async getSettings(businessId: string): Promise<GiftCardSettings> {
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { settings: true },
+    });
+    const settings = (business?.settings as Record<string, unknown>) || {};
+    return {
+      ...DEFAULT_SETTINGS,
+      ...((settings['giftCardSettings'] as Partial<GiftCardSettings>) || {}),
+    };
+  }
+
+  async updateSettings(businessId: string, dto: GiftCardSettingsDto): Promise<GiftCardSettings> {
+    const current = await this.getSettings(businessId);
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { settings: true },
+    });
+    const settings = (business?.settings as Record<string, unknown>) || {};
+
+    const giftCardSettings: GiftCardSettings = {
+      defaultValidityDays: dto.defaultValidityDays ?? current.defaultValidityDays,
+      allowTopUp: dto.allowTopUp ?? current.allowTopUp,
+      extendExpiryOnTopUp: dto.extendExpiryOnTopUp ?? current.extendExpiryOnTopUp,
+    };
+
+    await this.prisma.business.update({
+      where: { id: businessId },
+      data: { settings: { ...settings, giftCardSettings } as never },
+    });
+
+    return giftCardSettings;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async writeOff(
+    tx: Prisma.TransactionClient,
+    giftCardId: string,
+    balance: Prisma.Decimal,
+    entryType: 'expiry' | 'adjustment',
+    notes: string,
+    user?: AuthUser,
+  ): Promise<void> {
+    if (balance.lte(0)) return;
+
+    await tx.giftCard.update({ where: { id: giftCardId }, data: { balance: 0 } });
+    await tx.giftCardLedgerEntry.create({
+      data: {
+        giftCardId,
+        entryType,
+        amount: balance.negated(),
+        balanceAfter: 0,
+        outletId: user?.outletId ?? null,
+        employeeId: user?.employeeId ?? null,
+        notes,
+      },
+    });
+  }
+
+  private defaultExpiry(settings: GiftCardSettings, from: Date): Date | null {
+    return settings.defaultValidityDays > 0
+      ? new Date(from.getTime() + settings.defaultValidityDays * DAY_MS)
+      : null;
+  }
+
+  private async assertCustomer(customerId: string, businessId: string): Promise<void> {
+    const customer = await this.prisma.customer.findFirst({
+      where: { id: customerId, businessId },
+      select: { id: true },
+    });
+    if (!customer) {
+      throw new BusinessError(ErrorCode.CUSTOMER_NOT_FOUND, 'Customer not found');
+    }
+  }
+
+  private async generateCode(businessId: string): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const bytes = randomBytes(12);
+      const chars = Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+      const code = `GC-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+
+      const taken = await this.prisma.giftCard.findFirst({
+        where: { businessId, code },
+        select: { id: true },
+      });
+      if (!taken) return code;
+    }
+    throw new AppError(
+      ErrorCode.CONFLICT,
+      'Could not generate a unique gift card code',
+      HttpStatus.CONFLICT,
+    );
+  }
+}
@@ -0,0 +1,421 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type { StoredValueEntryType } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+
+export const STORED_VALUE_METHODS = ['gift_card', 'wallet'] as const;
+
+export type StoredValueMethod = (typeof STORED_VALUE_METHODS)[number];
+
+export function isStoredValueMethod(method: string): method is StoredValueMethod {
+  return (STORED_VALUE_METHODS as readonly string[]).includes(method);
+}
+
+export function normalizeGiftCardCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** Ledger note for a counter top-up, recording how the customer paid */
+export function topUpNote(paymentMethod?: string, notes?: string): string | undefined {
+  return paymentMethod ? [`Paid by ${paymentMethod}`, notes].filter(Boolean).join(' - ') : notes;
+}
+
+export interface StoredValueTender {
+  method: string;
+  amount: number;
+  /** Gift card code for `gift_card` tenders */
+  referenceNumber?: string;
+}
+
+export interface RedeemStoredValueInput {
+  outletId: string;
+  transactionId: string;
+  customerId?: string | null;
+  employeeId?: string | null;
+  /** Tenders that are not gift cards or wallets are ignored */
+  payments: StoredValueTender[];
+}
+
+export interface StoredValueMovement {
+  source: StoredValueMethod;
+  accountId: string;
+  amount: number;
+  balanceAfter: number;
+}
+
+export interface StoredValueReversalContext {
+  outletId?: string | null;
+  employeeId?: string | null;
+  notes?: string;
+}
+
+interface LedgerContext extends StoredValueReversalContext {
+  transactionId?: string | null;
+}
+
+/**
+ * StoredValueService - Gift card and wallet balances used as a tender
+ *
+ * Every balance change is written to the card or wallet ledger together with
+ * the sale it belongs to, so a void or refund can credit back exactly what
+ * that sale took. Redemptions use a conditional decrement and fail rather
+ * than drive a balance negative.
+ */
+@Injectable()
+export class StoredValueService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==========================================================================
+  // Redemption
+  // ==========================================================================
+
+  /**
+   * Takes gift card and wallet tenders off their balances. Runs inside the
+   * caller's database transaction so the sale and the redemption commit
+   * together.
+   */
+  async redeem(
+    tx: Prisma.TransactionClient,
+    input: RedeemStoredValueInput,
+  ): Promise<StoredValueMovement[]> {
+    const tenders = input.payments.filter((p) => isStoredValueMethod(p.method) && p.amount > 0);
+    if (tenders.length === 0) return [];
+
+    const outlet = await tx.outlet.findUnique({
+      where: { id: input.outletId },
+      select: { businessId: true },
+    });
+    if (!outlet) {
+      throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+    }
+
+    const movements: StoredValueMovement[] = [];
+    for (const tender of tenders) {
+      movements.push(
+        tender.method === 'gift_card'
+          ? await this.redeemGiftCard(tx, outlet.businessId, tender, input)
+          : await this.redeemWallet(tx, outlet.businessId, tender, input),
+      );
+    }
+    return movements;
+  }
+
+  /** Credits back redemptions made earlier in the same request, e.g. after a failed card charge */
+  async reverse(
+    movements: StoredValueMovement[],
+    transactionId: string,
+    context: StoredValueReversalContext,
+  ): Promise<StoredValueMovement[]> {
+    if (movements.length === 0) return [];
+
+    return this.prisma.$transaction(async (tx) => {
+      const reversed: StoredValueMovement[] = [];
+      for (const movement of movements) {
+        reversed.push(
+          await this.credit(tx, movement.source, movement.accountId, movement.amount, 'reversal', {
+            ...context,
+            transactionId,
+          }),
+        );
+      }
+      return reversed;
+    });
+  }
+
+  /**
+   * Returns stored value taken by a sale to the cards and wallets it came
+   * from. `portion` is the share of the sale being reversed: 1 for a void,
+   * refund amount / grand total for a partial refund. Amounts already
+   * reversed are never credited twice.
+   */
+  async reverseForTransaction(
+    transactionId: string,
+    context: StoredValueReversalContext,
+    portion = 1,
+  ): Promise<StoredValueMovement[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const [cardEntries, walletEntries] = await Promise.all([
+        tx.giftCardLedgerEntry.findMany({
+          where: { transactionId, entryType: { in: ['redeem', 'reversal'] } },
+          orderBy: { createdAt: 'asc' },
+        }),
+        tx.walletLedgerEntry.findMany({
+          where: { transactionId, entryType: { in: ['redeem', 'reversal'] } },
+          orderBy: { createdAt: 'asc' },
+        }),
+      ]);
+
+      const accounts = [
+        ...this.netByAccount(
+          'gift_card',
+          cardEntries.map((e) => ({
+            accountId: e.giftCardId,
+            type: e.entryType,
+            amount: e.amount,
+          })),
+        ),
+        ...this.netByAccount(
+          'wallet',
+          walletEntries.map((e) => ({
+            accountId: e.walletId,
+            type: e.entryType,
+            amount: e.amount,
+          })),
+        ),
+      ];
+
+      const redeemed = accounts.reduce((sum, a) => sum + a.redeemed, 0);
+      const outstanding = accounts.reduce((sum, a) => sum + a.outstanding, 0);
+      let budget =
+        portion >= 1 ? outstanding : Math.min(outstanding, Math.round(redeemed * portion));
+
+      const credited: StoredValueMovement[] = [];
+      for (const account of accounts) {
+        const amount = Math.min(account.outstanding, budget);
+        if (amount <= 0) continue;
+        credited.push(
+          await this.credit(tx, account.source, account.accountId, amount, 'reversal', {
+            ...context,
+            transactionId,
+          }),
+        );
+        budget -= amount;
+      }
+      return credited;
+    });
+  }
+
+  // ==========================================================================
+  // Liability report
+  // ==========================================================================
+
+  /**
+   * Outstanding gift card and wallet balances are money owed to customers.
+   * Totals are summed from the ledgers so the report can be run for a past date.
+   */
+  async getLiabilityReport(businessId: string, asOf = new Date()) {
+    const expiringBy = new Date(asOf.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+    const [cardLedger, walletLedger, cardsWithBalance, expiringSoon, walletsWithBalance] =
+      await Promise.all([
+        this.prisma.giftCardLedgerEntry.aggregate({
+          where: { createdAt: { lte: asOf }, giftCard: { businessId } },
+          _sum: { amount: true },
+        }),
+        this.prisma.walletLedgerEntry.aggregate({
+          where: { createdAt: { lte: asOf }, wallet: { businessId } },
+          _sum: { amount: true },
+        }),
+        this.prisma.giftCard.count({
+          where: { businessId, status: 'active', balance: { gt: 0 } },
+        }),
+        this.prisma.giftCard.aggregate({
+          where: {
+            businessId,
+            status: 'active',
+            balance: { gt: 0 },
+            expiresAt: { gt: asOf, lte: expiringBy },
+          },
+          _sum: { balance: true },
+          _count: { _all: true },
+        }),
+        this.prisma.customerWallet.count({
+          where: { businessId, isActive: true, balance: { gt: 0 } },
+        }),
+      ]);
+
+    const giftCardOutstanding = cardLedger._sum.amount?.toNumber() ?? 0;
+    const walletOutstanding = walletLedger._sum.amount?.toNumber() ?? 0;
+
+    return {
+      asOf,
+      giftCards: {
+        outstanding: giftCardOutstanding,
+        cardsWithBalance,
+        expiringWithin30Days: {
+          count: expiringSoon._count._all,
+          amount: expiringSoon._sum.balance?.toNumber() ?? 0,
+        },
+      },
+      wallets: {
+        outstanding: walletOutstanding,
+        walletsWithBalance,
+      },
+      totalLiability: giftCardOutstanding + walletOutstanding,
+    };
+  }
+
+  // ==========================================================================
+  // Ledger helpers (shared with GiftCardsService / CustomerWalletsService)
+  // ==========================================================================
+
+  /** Adds value to a card or wallet and records the ledger entry */
+  async credit(
+    tx: Prisma.TransactionClient,
+    source: StoredValueMethod,
+    accountId: string,
+    amount: number,
+    entryType: StoredValueEntryType,
+    context: LedgerContext,
+  ): Promise<StoredValueMovement> {
+    const entry = {
+      entryType,
+      amount,
+      transactionId: context.transactionId ?? null,
+      outletId: context.outletId ?? null,
+      employeeId: context.employeeId ?? null,
+      notes: context.notes ?? null,
+    };
+
+    if (source === 'gift_card') {
+      const card = await tx.giftCard.update({
+        where: { id: accountId },
+        data: { balance: { increment: amount } },
+      });
+      await tx.giftCardLedgerEntry.create({
+        data: { ...entry, giftCardId: accountId, balanceAfter: card.balance },
+      });
+      return { source, accountId, amount, balanceAfter: card.balance.toNumber() };
+    }
+
+    const wallet = await tx.customerWallet.update({
+      where: { id: accountId },
+      data: { balance: { increment: amount } },
+    });
+    await tx.walletLedgerEntry.create({
+      data: { ...entry, walletId: accountId, balanceAfter: wallet.balance },
+    });
+    return { source, accountId, amount, balanceAfter: wallet.balance.toNumber() };
+  }
+
+  private async redeemGiftCard(
+    tx: Prisma.TransactionClient,
+    businessId: string,
+    tender: StoredValueTender,
+    input: RedeemStoredValueInput,
+  ): Promise<StoredValueMovement> {
+    if (!tender.referenceNumber) {
+      throw new BusinessError(ErrorCode.INVALID_PAYMENT, 'Gift card code is required');
+    }
+
+    const card = await tx.giftCard.findFirst({
+      where: { businessId, code: normalizeGiftCardCode(tender.referenceNumber) },
+    });
+    if (!card) {
+      throw new BusinessError(ErrorCode.GIFT_CARD_NOT_FOUND, 'Gift card not found');
+    }
+    if (card.status !== 'active' || (card.expiresAt && card.expiresAt <= new Date())) {
+      throw new BusinessError(
+        ErrorCode.GIFT_CARD_INACTIVE,
+        card.status === 'void' ? 'Gift card has been voided' : 'Gift card has expired',
+      );
+    }
+
+    const { count } = await tx.giftCard.updateMany({
+      where: { id: card.id, status: 'active', balance: { gte: tender.amount } },
+      data: { balance: { decrement: tender.amount } },
+    });
+    if (count === 0) {
+      throw new BusinessError(
+        ErrorCode.INSUFFICIENT_STORED_VALUE,
+        `Gift card balance ${card.balance.toNumber()} is less than ${tender.amount}`,
+      );
+    }
+
+    const updated = await tx.giftCard.findUniqueOrThrow({
+      where: { id: card.id },
+      select: { balance: true },
+    });
+    await tx.giftCardLedgerEntry.create({
+      data: {
+        giftCardId: card.id,
+        entryType: 'redeem',
+        amount: -tender.amount,
+        balanceAfter: updated.balance,
+        transactionId: input.transactionId,
+        outletId: input.outletId,
+        employeeId: input.employeeId ?? null,
+      },
+    });
+
+    return {
+      source: 'gift_card',
+      accountId: card.id,
+      amount: tender.amount,
+      balanceAfter: updated.balance.toNumber(),
+    };
+  }
+
+  private async redeemWallet(
+    tx: Prisma.TransactionClient,
+    businessId: string,
+    tender: StoredValueTender,
+    input: RedeemStoredValueInput,
+  ): Promise<StoredValueMovement> {
+    if (!input.customerId) {
+      throw new BusinessError(ErrorCode.INVALID_PAYMENT, 'Wallet payment requires a customer');
+    }
+
+    // Customers belong to the business, so the wallet is spendable at any of its outlets
+    const wallet = await tx.customerWallet.findUnique({ where: { customerId: input.customerId } });
+    if (!wallet || wallet.businessId !== businessId || !wallet.isActive) {
+      throw new BusinessError(ErrorCode.WALLET_NOT_FOUND, 'Customer has no active wallet');
+    }
+
+    const { count } = await tx.customerWallet.updateMany({
+      where: { id: wallet.id, isActive: true, balance: { gte: tender.amount } },
+      data: { balance: { decrement: tender.amount } },
+    });
+    if (count === 0) {
+      throw new BusinessError(
+        ErrorCode.INSUFFICIENT_STORED_VALUE,
+        `Wallet balance ${wallet.balance.toNumber()} is less than ${tender.amount}`,
+      );
+    }
+
+    const updated = await tx.customerWallet.findUniqueOrThrow({
+      where: { id: wallet.id },
+      select: { balance: true },
+    });
+    await tx.walletLedgerEntry.create({
+      data: {
+        walletId: wallet.id,
+        entryType: 'redeem',
+        amount: -tender.amount,
+        balanceAfter: updated.balance,
+        transactionId: input.transactionId,
+        outletId: input.outletId,
+        employeeId: input.employeeId ?? null,
+      },
+    });
+
+    return {
+      source: 'wallet',
+      accountId: wallet.id,
+      amount: tender.amount,
+      balanceAfter: updated.balance.toNumber(),
+    };
+  }
+
+  private netByAccount(
+    source: StoredValueMethod,
+    entries: Array<{ accountId: string; type: StoredValueEntryType; amount: Prisma.Decimal }>,
+  ) {
+    const byAccount = new Map<string, { redeemed: number; reversed: number }>();
+    for (const entry of entries) {
+      const totals = byAccount.get(entry.accountId) ?? { redeemed: 0, reversed: 0 };
+      if (entry.type === 'redeem') totals.redeemed += -entry.amount.toNumber();
+      else totals.reversed += entry.amount.toNumber();
+      byAccount.set(entry.accountId, totals);
+    }
+
+    return [...byAccount].map(([accountId, totals]) => ({
+      source,
+      accountId,
+      redeemed: totals.redeemed,
+      outstanding: Math.max(0, totals.redeemed - totals.reversed),
+    }));
+  }
+}
@@ -1,11 +1,13 @@
 import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { AppError, ErrorCode } from '../../shared/errors/app-error';
 
 // Use Cases
@@ -40,7 +42,7 @@ import {
 
 @ApiTags('Ingredients')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('ingredients')
 export class IngredientsController {
   constructor(
@@ -60,6 +62,7 @@ export class IngredientsController {
   // ==================== Ingredients ====================
 
   @Get()
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get all ingredients for business' })
   async list(@CurrentUser() user: AuthUser) {
     return this.getIngredientsUseCase.execute({
@@ -69,7 +72,7 @@ export class IngredientsController {
   }
 
   @Post()
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('ingredients.manage')
   @ApiOperation({ summary: 'Create a new ingredient' })
   async create(@Body() dto: CreateIngredientDto, @CurrentUser() user: AuthUser) {
     return this.createIngredientUseCase.execute({
@@ -83,7 +86,7 @@ export class IngredientsController {
   }
 
   @Put(':id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('ingredients.manage')
   @ApiOperation({ summary: 'Update an ingredient' })
   async update(@Param('id') id: string, @Body() dto: UpdateIngredientDto) {
     return this.updateIngredientUseCase.execute({
@@ -98,7 +101,7 @@ export class IngredientsController {
   }
 
   @Delete(':id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('ingredients.delete')
   @ApiOperation({ summary: 'Delete (deactivate) an ingredient' })
   async remove(@Param('id') id: string) {
     return this.deleteIngredientUseCase.execute(id);
@@ -107,6 +110,7 @@ export class IngredientsController {
   // ==================== Stock Levels ====================
 
   @Get('stock/:outletId')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get ingredient stock levels for outlet' })
   async getStock(@Param('outletId') outletId: string, @Query('lowOnly') lowOnly?: string) {
     return this.getIngredientStockUseCase.execute({
@@ -116,7 +120,7 @@ export class IngredientsController {
   }
 
   @Post('stock/adjust')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('inventory.adjust')
   @ApiOperation({ summary: 'Adjust ingredient stock (add/deduct)' })
   async adjustStock(@Body() dto: AdjustIngredientStockDto, @CurrentUser() user: AuthUser) {
     if (!user.outletId) {
@@ -138,6 +142,7 @@ export class IngredientsController {
   // ==================== Recipes ====================
 
   @Get('recipes')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get recipes by product' })
   async listRecipes(@Query() query: RecipeQueryDto) {
     return this.getRecipesUseCase.execute({
@@ -147,7 +152,7 @@ export class IngredientsController {
   }
 
   @Post('recipes')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('recipes.manage')
   @ApiOperation({ summary: 'Create a new recipe' })
   async createRecipe(@Body() dto: CreateRecipeDto) {
     return this.createRecipeUseCase.execute({
@@ -159,7 +164,7 @@ export class IngredientsController {
   }
 
   @Put('recipes/:id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('recipes.manage')
   @ApiOperation({ summary: 'Update a recipe' })
   async updateRecipe(@Param('id') id: string, @Body() dto: UpdateRecipeDto) {
     return this.updateRecipeUseCase.execute({
@@ -170,7 +175,7 @@ export class IngredientsController {
   }
 
   @Delete('recipes/:id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('recipes.manage')
   @ApiOperation({ summary: 'Delete a recipe' })
   async deleteRecipe(@Param('id') id: string) {
     return this.deleteRecipeUseCase.execute(id);
@@ -179,13 +184,14 @@ export class IngredientsController {
   // ==================== Import / Export ====================
 
   @Post('import')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('ingredients.manage')
   @ApiOperation({ summary: 'Import ingredients from CSV/JSON data' })
   async importIngredients(@Body() dto: IngredientImportDto, @CurrentUser() user: AuthUser) {
     return this.ingredientsService.importIngredients(user.businessId, dto.data, dto.format);
   }
 
   @Get('export')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Export all ingredients as CSV or JSON with optional stock levels' })
   async exportIngredients(@Query() query: IngredientExportQueryDto, @CurrentUser() user: AuthUser) {
     return this.ingredientsService.exportIngredients(
@@ -199,6 +205,7 @@ export class IngredientsController {
   // ==================== Low Stock Alerts ====================
 
   @Get('low-stock')
+  @WithoutPermission()
   @ApiOperation({
     summary: 'Get low stock alerts with reorder suggestions',
     description:
@@ -211,6 +218,7 @@ export class IngredientsController {
   // ==================== Stock Alerts (formatted) ====================
 
   @Get('stock-alerts')
+  @WithoutPermission()
   @ApiOperation({
     summary: 'Get formatted stock alerts',
     description:
@@ -250,6 +258,7 @@ export class IngredientsController {
   // ==================== Recipe Cost History ====================
 
   @Get('recipes/:id/cost-history')
+  @WithoutPermission()
   @ApiOperation({
     summary: 'Get recipe cost history over time',
     description:
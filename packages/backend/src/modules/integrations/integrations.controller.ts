@@ -14,99 +14,192 @@ import {
   Put,
   Body,
   Param,
+  Query,
   UseGuards,
   HttpCode,
   HttpStatus,
+  Logger,
+  BadRequestException,
+  NotFoundException,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { OutletAccessGuard } from '../../shared/guards/outlet-access.guard';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { MarketplaceWebhookGuard } from '../../shared/guards/marketplace-webhook.guard';
+import { HandleMarketplaceWebhookUseCase } from '../../application/use-cases/integrations/handle-marketplace-webhook.use-case';
+import {
+  MARKETPLACE_PLATFORMS,
+  MarketplacePlatform,
+  MarketplaceService,
+} from '../../infrastructure/services/marketplace';
+import {
+  ConnectMarketplaceDto,
+  MarketplaceOutletQueryDto,
+  RejectMarketplaceOrderDto,
+  UpdateMarketplaceOrderStatusDto,
+} from '../../application/dtos/marketplace.dto';
 
 @ApiTags('Integrations')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('integrations')
 export class IntegrationsController {
+  constructor(
+    private readonly marketplaceService: MarketplaceService,
+    private readonly prisma: PrismaService,
+  ) {}
+
   // ===========================================================================
   // Food Delivery Endpoints
   // ===========================================================================
 
   @Get('food-delivery/status')
+  @RequirePermission('integrations.food_delivery')
   @ApiOperation({ summary: 'Get food delivery platform connection status' })
-  async getFoodDeliveryStatus() {
+  async getFoodDeliveryStatus(
+    @Query() query: MarketplaceOutletQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const outletId = await this.resolveOutlet(user, query.outletId);
+    const statuses = await this.marketplaceService.getStatus(outletId);
+
     return {
       success: true,
-      data: {
-        gofood: { connected: false },
-        grabfood: { connected: false },
-        shopeefood: { connected: false },
-      },
+      data: Object.fromEntries(statuses.map((status) => [status.platform, status])),
     };
   }
 
   @Post('food-delivery/:platform/connect')
+  @RequirePermission('integrations.connect')
   @ApiOperation({ summary: 'Connect to food delivery platform' })
   async connectFoodDelivery(
-    @Param('platform') platform: 'gofood' | 'grabfood' | 'shopeefood',
-    @Body() _dto: Record<string, unknown>,
+    @Param('platform') platform: string,
+    @Body() dto: ConnectMarketplaceDto,
+    @CurrentUser() user: AuthUser,
   ) {
-    return {
-      success: true,
-      message: `Connected to ${platform} (stub)`,
-    };
+    const outletId = await this.resolveOutlet(user, dto.outletId);
+    const status = await this.marketplaceService.connect(
+      outletId,
+      this.parsePlatform(platform),
+      { merchantId: dto.merchantId, apiKey: dto.apiKey, apiSecret: dto.apiSecret },
+      user.employeeId,
+    );
+
+    return { success: true, data: status };
   }
 
   @Post('food-delivery/:platform/disconnect')
+  @RequirePermission('integrations.connect')
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Disconnect from food delivery platform' })
-  async disconnectFoodDelivery(@Param('platform') platform: 'gofood' | 'grabfood' | 'shopeefood') {
-    return {
-      success: true,
-      message: `Disconnected from ${platform} (stub)`,
-    };
+  async disconnectFoodDelivery(
+    @Param('platform') platform: string,
+    @Body() dto: MarketplaceOutletQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const outletId = await this.resolveOutlet(user, dto.outletId);
+    await this.marketplaceService.disconnect(outletId, this.parsePlatform(platform));
+
+    return { success: true, message: `Disconnected from ${platform}` };
   }
 
   @Post('food-delivery/:platform/sync-menu')
-  @ApiOperation({ summary: 'Sync menu to food delivery platform' })
+  @RequirePermission('integrations.food_delivery')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Sync outlet menu to food delivery platform' })
   async syncMenuToFoodDelivery(
-    @Param('platform') platform: 'gofood' | 'grabfood' | 'shopeefood',
-    @Body() dto: { items: unknown[] },
+    @Param('platform') platform: string,
+    @Body() dto: MarketplaceOutletQueryDto,
+    @CurrentUser() user: AuthUser,
   ) {
-    return {
-      success: true,
-      message: `Synced ${dto.items.length} items to ${platform} (stub)`,
-    };
+    const outletId = await this.resolveOutlet(user, dto.outletId);
+    const [result] = await this.marketplaceService.syncMenu(outletId, this.parsePlatform(platform));
+
+    return { success: true, data: result };
   }
 
   @Get('food-delivery/:platform/orders')
-  @ApiOperation({ summary: 'Get orders from food delivery platform' })
-  async getFoodDeliveryOrders(@Param('platform') _platform: 'gofood' | 'grabfood' | 'shopeefood') {
-    return {
-      success: true,
-      data: [],
-    };
+  @RequirePermission('online_orders.handle')
+  @ApiOperation({ summary: 'Get new orders from food delivery platform' })
+  async getFoodDeliveryOrders(
+    @Param('platform') platform: string,
+    @Query() query: MarketplaceOutletQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const outletId = await this.resolveOutlet(user, query.outletId);
+    const orders = await this.marketplaceService.fetchNewOrders(
+      outletId,
+      this.parsePlatform(platform),
+    );
+
+    return { success: true, data: orders };
   }
 
   @Post('food-delivery/:platform/orders/:orderId/accept')
+  @RequirePermission('online_orders.handle')
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Accept food delivery order' })
   async acceptFoodDeliveryOrder(
-    @Param('platform') platform: 'gofood' | 'grabfood' | 'shopeefood',
+    @Param('platform') platform: string,
     @Param('orderId') orderId: string,
+    @Body() dto: MarketplaceOutletQueryDto,
+    @CurrentUser() user: AuthUser,
   ) {
-    return {
-      success: true,
-      message: `Order ${orderId} accepted on ${platform} (stub)`,
-    };
+    const outletId = await this.resolveOutlet(user, dto.outletId);
+    await this.marketplaceService.acceptOrder(outletId, this.parsePlatform(platform), orderId);
+
+    return { success: true, message: `Order ${orderId} accepted on ${platform}` };
+  }
+
+  @Post('food-delivery/:platform/orders/:orderId/reject')
+  @RequirePermission('online_orders.handle')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject food delivery order' })
+  async rejectFoodDeliveryOrder(
+    @Param('platform') platform: string,
+    @Param('orderId') orderId: string,
+    @Body() dto: RejectMarketplaceOrderDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const outletId = await this.resolveOutlet(user, dto.outletId);
+    await this.marketplaceService.rejectOrder(
+      outletId,
+      this.parsePlatform(platform),
+      orderId,
+      dto.reason,
+    );
+
+    return { success: true, message: `Order ${orderId} rejected on ${platform}` };
   }
 
   @Put('food-delivery/:platform/orders/:orderId/status')
+  @RequirePermission('online_orders.handle')
   @ApiOperation({ summary: 'Update food delivery order status' })
   async updateFoodDeliveryOrderStatus(
-    @Param('platform') platform: 'gofood' | 'grabfood' | 'shopeefood',
+    @Param('platform') platform: string,
     @Param('orderId') orderId: string,
-    @Body() dto: { status: string },
+    @Body() dto: UpdateMarketplaceOrderStatusDto,
+    @CurrentUser() user: AuthUser,
   ) {
+    const outletId = await this.resolveOutlet(user, dto.outletId);
+    await this.marketplaceService.updateOrderStatus(
+      outletId,
+      this.parsePlatform(platform),
+      orderId,
+      dto.status,
+    );
+
     return {
       success: true,
-      message: `Order ${orderId} status updated to ${dto.status} on ${platform} (stub)`,
+      message: `Order ${orderId} status updated to ${dto.status} on ${platform}`,
     };
   }
 
@@ -115,6 +208,7 @@ export class IntegrationsController {
   // ===========================================================================
 
   @Get('ecommerce/status')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get e-commerce platform connection status' })
   async getEcommerceStatus() {
     return {
@@ -127,6 +221,7 @@ export class IntegrationsController {
   }
 
   @Post('ecommerce/:platform/connect')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Connect to e-commerce platform' })
   async connectEcommerce(
     @Param('platform') platform: 'tokopedia' | 'shopee',
@@ -139,6 +234,7 @@ export class IntegrationsController {
   }
 
   @Post('ecommerce/:platform/disconnect')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Disconnect from e-commerce platform' })
   async disconnectEcommerce(@Param('platform') platform: 'tokopedia' | 'shopee') {
     return {
@@ -148,6 +244,7 @@ export class IntegrationsController {
   }
 
   @Post('ecommerce/:platform/sync-products')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Sync products to e-commerce platform' })
   async syncProductsToEcommerce(
     @Param('platform') platform: 'tokopedia' | 'shopee',
@@ -160,6 +257,7 @@ export class IntegrationsController {
   }
 
   @Get('ecommerce/:platform/orders')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get orders from e-commerce platform' })
   async getEcommerceOrders(@Param('platform') _platform: 'tokopedia' | 'shopee') {
     return {
@@ -173,6 +271,7 @@ export class IntegrationsController {
   // ===========================================================================
 
   @Get('social-commerce/status')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get social commerce platform connection status' })
   async getSocialCommerceStatus() {
     return {
@@ -186,6 +285,7 @@ export class IntegrationsController {
   }
 
   @Post('social-commerce/:platform/connect')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Connect to social commerce platform' })
   async connectSocialCommerce(
     @Param('platform') platform: 'whatsapp' | 'instagram' | 'facebook',
@@ -198,6 +298,7 @@ export class IntegrationsController {
   }
 
   @Post('social-commerce/:platform/disconnect')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Disconnect from social commerce platform' })
   async disconnectSocialCommerce(
     @Param('platform') platform: 'whatsapp' | 'instagram' | 'facebook',
@@ -209,6 +310,7 @@ export class IntegrationsController {
   }
 
   @Post('social-commerce/whatsapp/catalog/sync')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Sync catalog to WhatsApp' })
   async syncWhatsAppCatalog(@Body() dto: { products: unknown[] }) {
     return {
@@ -218,6 +320,7 @@ export class IntegrationsController {
   }
 
   @Post('social-commerce/whatsapp/send-message')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Send WhatsApp message' })
   async sendWhatsAppMessage(@Body() dto: { to: string; message: string }) {
     return {
@@ -230,18 +333,8 @@ export class IntegrationsController {
   // Webhooks
   // ===========================================================================
 
-  @Post('webhooks/food-delivery/:platform')
-  @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Food delivery webhook endpoint' })
-  async foodDeliveryWebhook(
-    @Param('platform') platform: 'gofood' | 'grabfood' | 'shopeefood',
-    @Body() payload: Record<string, unknown>,
-  ) {
-    console.log(`[Webhook] ${platform}:`, payload);
-    return { success: true };
-  }
-
   @Post('webhooks/ecommerce/:platform')
+  @WithoutPermission()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'E-commerce webhook endpoint' })
   async ecommerceWebhook(
@@ -253,6 +346,7 @@ export class IntegrationsController {
   }
 
   @Post('webhooks/social-commerce/:platform')
+  @WithoutPermission()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Social commerce webhook endpoint' })
   async socialCommerceWebhook(
@@ -262,4 +356,76 @@ export class IntegrationsController {
     console.log(`[Webhook] ${platform}:`, payload);
     return { success: true };
   }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  private parsePlatform(platform: string): MarketplacePlatform {
+    if (!MARKETPLACE_PLATFORMS.includes(platform as MarketplacePlatform)) {
+      throw new BadRequestException(
+        `Unsupported platform "${platform}". Expected one of: ${MARKETPLACE_PLATFORMS.join(', ')}`,
+      );
+    }
+    return platform as MarketplacePlatform;
+  }
+
+  /**
+   * Resolves the target outlet: non-owners are pinned to their assigned
+   * outlet, owners may pick any outlet of their business.
+   */
+  private async resolveOutlet(user: AuthUser, requestedOutletId?: string): Promise<string> {
+    OutletAccessGuard.enforceOutletAccess(user, requestedOutletId, 'integration');
+    const outletId =
+      OutletAccessGuard.getAccessibleOutletId(user, requestedOutletId) ?? user.outletId;
+
+    if (!outletId) {
+      throw new BadRequestException('outletId is required');
+    }
+
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: outletId, businessId: user.businessId },
+      select: { id: true },
+    });
+    if (!outlet) {
+      throw new NotFoundException('Outlet not found');
+    }
+
+    return outlet.id;
+  }
+}
+
+/**
+ * Food delivery platform webhooks
+ *
+ * Called by GoFood, GrabFood and ShopeeFood, so these routes carry no JWT;
+ * MarketplaceWebhookGuard verifies the platform signature instead.
+ */
+@ApiTags('Integrations')
+@WithoutPermission()
+@Controller('integrations')
+export class FoodDeliveryWebhookController {
+  private readonly logger = new Logger(FoodDeliveryWebhookController.name);
+
+  constructor(private readonly handleMarketplaceWebhook: HandleMarketplaceWebhookUseCase) {}
+
+  @Post('webhooks/food-delivery/:platform')
+  @UseGuards(MarketplaceWebhookGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Food delivery webhook endpoint' })
+  @ApiHeader({
+    name: 'x-go-signature | x-grab-signature | x-shopee-signature',
+    description: 'Hex HMAC-SHA256 of the raw body with the platform webhook secret',
+  })
+  async foodDeliveryWebhook(
+    @Param('platform') platform: MarketplacePlatform,
+    @Body() payload: Record<string, unknown>,
+  ) {
+    const result = await this.handleMarketplaceWebhook.execute({ platform, payload });
+    this.logger.log(
+      `${platform} webhook handled: event=${result.event}, order=${result.externalId}` +
+        (result.duplicate ? ' (duplicate)' : ''),
+    );
+    return result;
+  }
 }
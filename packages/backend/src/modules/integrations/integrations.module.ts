@@ -8,12 +8,15 @@
  */
 
 import { Module } from '@nestjs/common';
-import { IntegrationsController } from './integrations.controller';
+import { FoodDeliveryWebhookController, IntegrationsController } from './integrations.controller';
+import { HandleMarketplaceWebhookUseCase } from '../../application/use-cases/integrations/handle-marketplace-webhook.use-case';
+import { MarketplaceWebhookGuard } from '../../shared/guards/marketplace-webhook.guard';
 import { IntegrationsModule as InfraIntegrationsModule } from '../../infrastructure/services/integrations.module';
 
 @Module({
   imports: [InfraIntegrationsModule],
-  controllers: [IntegrationsController],
+  controllers: [IntegrationsController, FoodDeliveryWebhookController],
+  providers: [HandleMarketplaceWebhookUseCase, MarketplaceWebhookGuard],
   exports: [],
 })
 export class IntegrationsModule {}
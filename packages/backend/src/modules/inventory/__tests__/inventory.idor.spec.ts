@@ -11,6 +11,7 @@ import { PrismaService } from '../../../infrastructure/database/prisma.service';
 import { ExcelParserService } from '../../../infrastructure/import/excel-parser.service';
 import { InventoryService } from '../inventory.service';
 import { OutletProductService } from '../outlet-product.service';
+import { ScalesService } from '../../scales/scales.service';
 import { BusinessScopeGuard } from '../../../shared/guards/business-scope.guard';
 import type { AuthUser } from '../../../infrastructure/auth/auth-user.interface';
 
@@ -132,6 +133,10 @@ describe('Inventory IDOR Prevention', () => {
           provide: OutletProductService,
           useValue: {},
         },
+        {
+          provide: ScalesService,
+          useValue: {},
+        },
       ],
     }).compile();
 
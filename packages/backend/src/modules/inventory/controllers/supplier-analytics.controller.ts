@@ -9,11 +9,10 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../../infrastructure/auth/roles.guard';
-import { Roles } from '../../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../../shared/constants/roles';
 import { PrismaService } from '../../../infrastructure/database/prisma.service';
 import { getDateRange } from '../../reports/utils/date-range.util';
 
@@ -23,8 +22,8 @@ import { getDateRange } from '../../reports/utils/date-range.util';
  */
 @ApiTags('Supplier Analytics')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
-@Roles(EmployeeRole.OWNER, EmployeeRole.SUPER_ADMIN, EmployeeRole.MANAGER, EmployeeRole.INVENTORY)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('suppliers.analytics.view')
 @Controller('suppliers')
 export class SupplierAnalyticsController {
   constructor(private readonly prisma: PrismaService) {}
@@ -19,11 +19,13 @@ import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiConsumes, ApiBody } from '@nestjs/swagger';
 import { Response } from 'express';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { CreateProductUseCase } from '../../application/use-cases/inventory/create-product.use-case';
 import { UpdateStockUseCase } from '../../application/use-cases/inventory/update-stock.use-case';
 import { CreateProductDto, VariantDto, UpdateVariantDto } from '../../application/dtos/product.dto';
@@ -42,12 +44,14 @@ import { PrismaService } from '../../infrastructure/database/prisma.service';
 import { ExcelParserService } from '../../infrastructure/import/excel-parser.service';
 import { InventoryService } from './inventory.service';
 import { OutletProductService } from './outlet-product.service';
+import { ScalesService } from '../scales/scales.service';
+import { toWeightUnit } from '../unit-conversion/weight-units';
 import { OutletAccessGuard } from '../../shared/guards/outlet-access.guard';
 import { BusinessScoped } from '../../shared/guards/business-scope.guard';
 
 @ApiTags('Inventory')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('inventory')
 export class InventoryController {
   constructor(
@@ -61,9 +65,11 @@ export class InventoryController {
     private readonly excelParser: ExcelParserService,
     private readonly inventoryService: InventoryService,
     private readonly outletProductService: OutletProductService,
+    private readonly scalesService: ScalesService,
   ) {}
 
   @Get('products')
+  @WithoutPermission()
   async listProducts(@CurrentUser() user: AuthUser) {
     // Owner/super_admin can see ALL products regardless of their assigned outlet
     if (OutletAccessGuard.canAccessAllOutlets(user)) {
@@ -80,6 +86,7 @@ export class InventoryController {
   }
 
   @Get('products/barcode/:code')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Lookup product by barcode or SKU' })
   async lookupByBarcode(@Param('code') code: string, @CurrentUser() user: AuthUser) {
     // Try barcode first (product level)
@@ -145,11 +152,25 @@ export class InventoryController {
     if (variantBySku)
       return { found: true, type: 'variant', product: variantBySku.product, variant: variantBySku };
 
+    // Try a scale label with the weight or price in it
+    const embedded = await this.scalesService.resolve(user.businessId, code);
+    if (embedded) {
+      product = await this.prisma.product.findUnique({
+        where: { id: embedded.productId },
+        include: {
+          variants: { where: { isActive: true } },
+          category: { select: { name: true } },
+          priceTiers: { where: { isActive: true }, orderBy: { minQuantity: 'asc' } },
+        },
+      });
+      if (product) return { found: true, type: 'product', product, variant: null, embedded };
+    }
+
     throw new NotFoundException(`No product found with barcode/SKU: ${code}`);
   }
 
   @Post('products')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('products.manage')
   async createProduct(@Body() dto: CreateProductDto, @CurrentUser() user: AuthUser) {
     return this.createProductUseCase.execute({
       businessId: user.businessId,
@@ -161,6 +182,9 @@ export class InventoryController {
       basePrice: dto.basePrice,
       costPrice: dto.costPrice,
       trackStock: dto.trackStock,
+      minimumAge: dto.minimumAge,
+      isWeighed: dto.isWeighed,
+      sellUnit: dto.sellUnit,
       variants: dto.variants,
       modifierGroupIds: dto.modifierGroupIds,
     });
@@ -168,6 +192,7 @@ export class InventoryController {
 
   @Get('products/:id')
   @BusinessScoped({ resource: 'product', param: 'id' })
+  @WithoutPermission()
   async getProduct(@Param('id') id: string) {
     const product = await this.productRepo.findById(id);
     if (!product) throw new NotFoundException('Product not found');
@@ -176,22 +201,31 @@ export class InventoryController {
 
   @Put('products/:id')
   @BusinessScoped({ resource: 'product', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('products.manage')
   async updateProduct(@Param('id') id: string, @Body() dto: Partial<CreateProductDto>) {
     const product = await this.productRepo.findById(id);
     if (!product) throw new NotFoundException('Product not found');
+    const isWeighed = dto.isWeighed ?? product.isWeighed;
+    let sellUnit = dto.sellUnit !== undefined ? dto.sellUnit : (product.sellUnit ?? null);
+    if (isWeighed) {
+      sellUnit = toWeightUnit(sellUnit ?? 'kg');
+      if (!sellUnit) throw new BadRequestException('A weighed product is sold in a weight unit');
+    }
     return this.productRepo.update(id, {
       name: dto.name ?? product.name,
       description: dto.description,
       imageUrl: dto.imageUrl,
       basePrice: dto.basePrice ?? product.basePrice,
       costPrice: dto.costPrice,
+      minimumAge: dto.minimumAge,
+      isWeighed: dto.isWeighed,
+      sellUnit,
     });
   }
 
   @Delete('products/:id')
   @BusinessScoped({ resource: 'product', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('products.delete')
   async deleteProduct(@Param('id') id: string) {
     await this.productRepo.delete(id);
     return { message: 'Product deactivated' };
@@ -201,7 +235,7 @@ export class InventoryController {
 
   @Post('products/:id/variants')
   @BusinessScoped({ resource: 'product', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('products.manage')
   @ApiOperation({ summary: 'Add a variant to an existing product' })
   async addVariant(
     @Param('id') productId: string,
@@ -235,7 +269,7 @@ export class InventoryController {
 
   @Put('products/:id/variants/:variantId')
   @BusinessScoped({ resource: 'product', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('products.manage')
   @ApiOperation({ summary: 'Update a product variant' })
   async updateVariant(
     @Param('id') productId: string,
@@ -277,7 +311,7 @@ export class InventoryController {
 
   @Delete('products/:id/variants/:variantId')
   @BusinessScoped({ resource: 'product', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('products.delete')
   @ApiOperation({ summary: 'Soft delete (deactivate) a product variant' })
   async deleteVariant(
     @Param('id') productId: string,
@@ -306,6 +340,7 @@ export class InventoryController {
   }
 
   @Get('categories')
+  @WithoutPermission()
   async listCategories(@CurrentUser() user: AuthUser) {
     return this.prisma.category.findMany({
       where: { businessId: user.businessId, isActive: true },
@@ -314,7 +349,7 @@ export class InventoryController {
   }
 
   @Post('categories')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('categories.manage')
   async createCategory(@Body() dto: CreateCategoryDto, @CurrentUser() user: AuthUser) {
     return this.prisma.category.create({
       data: {
@@ -330,7 +365,7 @@ export class InventoryController {
 
   @Put('categories/:id')
   @BusinessScoped({ resource: 'category', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('categories.manage')
   async updateCategory(@Param('id') id: string, @Body() dto: UpdateCategoryDto) {
     return this.prisma.category.update({
       where: { id },
@@ -346,7 +381,7 @@ export class InventoryController {
 
   @Delete('categories/:id')
   @BusinessScoped({ resource: 'category', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('categories.manage')
   async deleteCategory(@Param('id') id: string) {
     await this.prisma.category.update({ where: { id }, data: { isActive: false } });
     return { message: 'Category deactivated' };
@@ -355,7 +390,7 @@ export class InventoryController {
   // ==================== XLSX Import Endpoints ====================
 
   @Post('products/import-xlsx/preview')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('products.manage')
   @UseInterceptors(FileInterceptor('file'))
   @ApiConsumes('multipart/form-data')
   @ApiOperation({ summary: 'Preview XLSX file sheets and headers for product import' })
@@ -378,7 +413,7 @@ export class InventoryController {
   }
 
   @Post('products/import-xlsx')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('products.manage')
   @UseInterceptors(FileInterceptor('file'))
   @ApiConsumes('multipart/form-data')
   @ApiOperation({ summary: 'Import products from XLSX file' })
@@ -440,7 +475,7 @@ export class InventoryController {
   // These must be defined before parameterized routes like products/:id
 
   @Post('products/import')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('products.manage')
   @ApiOperation({ summary: 'Batch import products from CSV or JSON' })
   async importProducts(@Body() dto: ImportProductsDto, @CurrentUser() user: AuthUser) {
     let rows;
@@ -463,7 +498,7 @@ export class InventoryController {
   }
 
   @Get('products/export')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('products.manage')
   @ApiOperation({ summary: 'Export products as CSV or JSON' })
   async exportProducts(
     @Query() query: ExportProductsQueryDto,
@@ -493,19 +528,21 @@ export class InventoryController {
   // ==================== Outlet Product Assignment Endpoints ====================
 
   @Get('outlets/:outletId/products')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get products assigned to a specific outlet' })
   async getOutletProducts(@Param('outletId') outletId: string) {
     return this.outletProductService.getProductsForOutlet(outletId);
   }
 
   @Get('outlets/:outletId/products/unassigned')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get products NOT assigned to an outlet' })
   async getUnassignedProducts(@Param('outletId') outletId: string, @CurrentUser() user: AuthUser) {
     return this.outletProductService.getUnassignedProducts(outletId, user.businessId);
   }
 
   @Post('outlets/:outletId/products/assign')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('products.assign_outlets')
   @ApiOperation({ summary: 'Assign products to an outlet' })
   async assignProducts(
     @Param('outletId') outletId: string,
@@ -518,7 +555,7 @@ export class InventoryController {
   }
 
   @Delete('outlets/:outletId/products/:productId')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('products.assign_outlets')
   @ApiOperation({ summary: 'Remove a product from an outlet' })
   async removeOutletProduct(
     @Param('outletId') outletId: string,
@@ -532,14 +569,14 @@ export class InventoryController {
   // These must be defined before parameterized routes like stock/:outletId
 
   @Get('stock/discrepancies')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('inventory.adjust')
   @ApiOperation({ summary: 'Get stock discrepancy report' })
   async getStockDiscrepancies(@Query() query: StockDiscrepancyQueryDto) {
     return this.inventoryService.getStockDiscrepancies(query.outletId);
   }
 
   @Post('stock/adjust')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('inventory.adjust')
   async adjustStock(@Body() dto: UpdateStockDto, @CurrentUser() user: AuthUser) {
     return this.updateStockUseCase.execute({
       outletId: dto.outletId,
@@ -553,7 +590,7 @@ export class InventoryController {
   }
 
   @Post('stock/auto-request')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('inventory.transfer')
   @ApiOperation({ summary: 'Auto-create transfer request for low stock items' })
   async autoRequestTransfer(@Body() dto: AutoRequestTransferDto, @CurrentUser() user: AuthUser) {
     return this.inventoryService.autoRequestTransfer(
@@ -564,11 +601,13 @@ export class InventoryController {
   }
 
   @Get('stock/:outletId')
+  @WithoutPermission()
   async getStockLevels(@Param('outletId') outletId: string) {
     return this.inventoryRepo.findStockLevelsByOutlet(outletId);
   }
 
   @Get('stock/:outletId/low')
+  @WithoutPermission()
   async getLowStockItems(@Param('outletId') outletId: string) {
     return this.inventoryRepo.findLowStockItems(outletId);
   }
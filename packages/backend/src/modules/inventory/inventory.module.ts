@@ -9,9 +9,11 @@ import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.
 import { PrismaProductRepository } from '../../infrastructure/repositories/prisma-product.repository';
 import { PrismaInventoryRepository } from '../../infrastructure/repositories/prisma-inventory.repository';
 import { ImportModule } from '../../infrastructure/import/import.module';
+import { ScalesModule } from '../scales/scales.module';
+import { WarehousesModule } from '../warehouses/warehouses.module';
 
 @Module({
-  imports: [ImportModule],
+  imports: [ImportModule, ScalesModule, WarehousesModule],
   controllers: [InventoryController, SupplierAnalyticsController],
   providers: [
     InventoryService,
@@ -11,6 +11,11 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '@infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '@infrastructure/auth/require-permission.decorator';
 import { ItemTrackingService } from './item-tracking.service';
 import { ServiceItemStatus } from '@prisma/client';
 
@@ -45,11 +50,12 @@ interface UpdateBody {
 }
 
 @Controller('item-tracking')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class ItemTrackingController {
   constructor(private readonly itemTrackingService: ItemTrackingService) {}
 
   @Get('outlet/:outletId')
+  @WithoutPermission()
   async listByOutlet(
     @Param('outletId') outletId: string,
     @Query('status') status: ServiceItemStatus | undefined,
@@ -61,18 +67,21 @@ export class ItemTrackingController {
   }
 
   @Get('active/:outletId')
+  @WithoutPermission()
   async getActive(@Param('outletId') outletId: string, @Req() req: AuthenticatedRequest) {
     const businessId = req.user.businessId;
     return this.itemTrackingService.getActive(outletId, businessId);
   }
 
   @Get('customer/:customerId')
+  @WithoutPermission()
   async listByCustomer(@Param('customerId') customerId: string, @Req() req: AuthenticatedRequest) {
     const businessId = req.user.businessId;
     return this.itemTrackingService.listByCustomer(customerId, businessId);
   }
 
   @Get('ticket/:ticketNumber')
+  @WithoutPermission()
   async findByTicket(
     @Param('ticketNumber') ticketNumber: string,
     @Req() req: AuthenticatedRequest,
@@ -82,24 +91,28 @@ export class ItemTrackingController {
   }
 
   @Get(':id')
+  @WithoutPermission()
   async findById(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
     const businessId = req.user.businessId;
     return this.itemTrackingService.findById(id, businessId);
   }
 
   @Post()
+  @RequirePermission('item_tracking.manage')
   async receive(@Body() dto: ReceiveBody, @Req() req: AuthenticatedRequest) {
     const businessId = req.user.businessId;
     return this.itemTrackingService.receive(businessId, dto);
   }
 
   @Put(':id')
+  @RequirePermission('item_tracking.manage')
   async update(@Param('id') id: string, @Body() dto: UpdateBody, @Req() req: AuthenticatedRequest) {
     const businessId = req.user.businessId;
     return this.itemTrackingService.update(id, businessId, dto);
   }
 
   @Put(':id/status')
+  @RequirePermission('item_tracking.manage')
   async updateStatus(
     @Param('id') id: string,
     @Body() dto: { status: ServiceItemStatus },
@@ -110,6 +123,7 @@ export class ItemTrackingController {
   }
 
   @Delete(':id')
+  @RequirePermission('item_tracking.manage')
   async delete(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
     const businessId = req.user.businessId;
     await this.itemTrackingService.delete(id, businessId);
@@ -1,11 +1,13 @@
 import { Controller, Post, Body, UseGuards, Get, Query, Put, Param } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiQuery, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { BumpOrderUseCase } from '../../application/use-cases/kds/bump-order.use-case';
 import { GetStationOrdersUseCase } from '../../application/use-cases/kds/get-station-orders.use-case';
 import { KitchenStation } from './kds.gateway';
@@ -25,6 +27,7 @@ export class KdsController {
   ) {}
 
   @Post('bump')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Bump an order item (mark as completed)' })
   async bumpOrder(
     @Body() dto: { orderItemId: string; station: string },
@@ -38,6 +41,7 @@ export class KdsController {
   }
 
   @Get('orders')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get orders for KDS display, optionally filtered by priority' })
   @ApiQuery({ name: 'outletId', required: true, type: String })
   @ApiQuery({
@@ -91,6 +95,7 @@ export class KdsController {
   }
 
   @Get('stations')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get available stations for an outlet' })
   @ApiQuery({ name: 'outletId', required: true, type: String })
   async getAvailableStations(@Query('outletId') outletId: string) {
@@ -99,6 +104,7 @@ export class KdsController {
 
   // Analytics endpoints
   @Get('analytics')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get kitchen analytics for outlet' })
   @ApiQuery({ name: 'outletId', required: true, type: String })
   @ApiQuery({
@@ -113,6 +119,7 @@ export class KdsController {
   }
 
   @Get('performance')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get kitchen performance report' })
   @ApiQuery({ name: 'outletId', required: true, type: String })
   @ApiQuery({ name: 'startDate', required: true, type: String })
@@ -130,6 +137,7 @@ export class KdsController {
   }
 
   @Put('items/:id/preparing')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Mark order item as preparing' })
   async markItemPreparing(
     @Param('id') orderItemId: string,
@@ -140,12 +148,14 @@ export class KdsController {
   }
 
   @Put('items/:id/ready')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Mark order item as ready' })
   async markItemReady(@Param('id') orderItemId: string, @CurrentUser() user: AuthUser) {
     return this.analyticsService.markItemReady(orderItemId, user.employeeId);
   }
 
   @Put('items/:id/recall')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Recall order item (send back for re-preparation)' })
   async recallItem(@Param('id') orderItemId: string, @Body() dto: { reason?: string }) {
     return this.analyticsService.recallItem(orderItemId, dto.reason);
@@ -156,13 +166,14 @@ export class KdsController {
   // ======================================================================
 
   @Get('timer-settings')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get cooking timer SLA settings per order type' })
   async getTimerSettings(@CurrentUser() user: AuthUser) {
     return this.kdsService.getCookingTimerSettings(user.businessId);
   }
 
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('kds.settings')
   @Put('timer-settings')
   @ApiOperation({ summary: 'Update cooking timer SLA settings (dine-in, takeaway, delivery)' })
   async updateTimerSettings(
@@ -177,6 +188,7 @@ export class KdsController {
   // ======================================================================
 
   @Get('overdue')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get orders exceeding SLA cooking time' })
   @ApiQuery({ name: 'outletId', required: true, type: String })
   async getOverdueOrders(@CurrentUser() user: AuthUser, @Query('outletId') outletId: string) {
@@ -188,6 +200,7 @@ export class KdsController {
   // ======================================================================
 
   @Post('orders/:id/notify-ready')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Notify cashier that an order is ready (WebSocket event)' })
   async notifyOrderReady(@Param('id') orderId: string) {
     return this.kdsService.notifyCashierOrderReady(orderId);
@@ -0,0 +1,161 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+} from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  ApproveKioskAssistDto,
+  CompleteKioskPaymentDto,
+  KioskCartDto,
+  KioskCatalogQueryDto,
+  KioskDeviceQueryDto,
+  KioskLoyaltyLookupDto,
+  RequestKioskAssistDto,
+  StartKioskPaymentDto,
+  StartKioskSessionDto,
+} from '../../application/dtos/kiosk.dto';
+import { KioskService } from './kiosk.service';
+import { PlanLimit } from '../../common/interceptors/subscription.interceptor';
+
+@ApiTags('Kiosk')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('kiosk.checkout')
+@Controller('kiosk')
+export class KioskController {
+  constructor(private readonly kioskService: KioskService) {}
+
+  // ==================== Catalog ====================
+
+  @Get('catalog')
+  @ApiOperation({ summary: 'Categories and products with variants and upsell modifiers' })
+  async catalog(@Query() query: KioskCatalogQueryDto, @CurrentUser() user: AuthUser) {
+    return this.kioskService.catalog(user, query);
+  }
+
+  @Get('scan/:code')
+  @ApiOperation({ summary: 'Product for a scanned barcode or SKU' })
+  async scan(
+    @Param('code') code: string,
+    @Query() query: KioskDeviceQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.kioskService.scan(user, query.deviceId, code);
+  }
+
+  @Get('loyalty')
+  @Throttle({ short: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Look up a member by phone number' })
+  async lookupLoyalty(@Query() query: KioskLoyaltyLookupDto, @CurrentUser() user: AuthUser) {
+    return this.kioskService.lookupLoyalty(user, query.deviceId, query.phone);
+  }
+
+  // ==================== Sessions ====================
+
+  @Post('sessions')
+  @ApiOperation({ summary: "Start a customer's session on the kiosk's shift" })
+  async start(@Body() dto: StartKioskSessionDto, @CurrentUser() user: AuthUser) {
+    return this.kioskService.start(user, dto.deviceId);
+  }
+
+  @Post('sessions/:id/quote')
+  @PermissionOutlet('kioskSession')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Price the cart and list items that need an attendant' })
+  async quote(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: KioskCartDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.kioskService.quote(user, id, dto);
+  }
+
+  @Post('sessions/:id/assist')
+  @PermissionOutlet('kioskSession')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Call an attendant to the kiosk' })
+  async requestAssist(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RequestKioskAssistDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.kioskService.requestAssist(user, id, dto);
+  }
+
+  @Get('sessions/:id/assist/approvers')
+  @PermissionOutlet('kioskSession')
+  @ApiOperation({ summary: 'Attendants who can approve restricted items' })
+  async assistApprovers(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.kioskService.assistApprovers(user, id);
+  }
+
+  @Post('sessions/:id/assist/approve')
+  @PermissionOutlet('kioskSession')
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "Approve restricted items with the attendant's PIN or TOTP" })
+  async approveAssist(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ApproveKioskAssistDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.kioskService.approveAssist(user, id, dto);
+  }
+
+  @Post('sessions/:id/payment')
+  @PermissionOutlet('kioskSession')
+  @PlanLimit('monthlyTransactions')
+  @ApiOperation({ summary: 'Start paying by QRIS or card' })
+  async startPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: StartKioskPaymentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.kioskService.startPayment(user, id, dto);
+  }
+
+  @Post('sessions/:id/complete')
+  @PermissionOutlet('kioskSession')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Book the sale once paid; answers pending while a QRIS is unpaid' })
+  async complete(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CompleteKioskPaymentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.kioskService.complete(user, id, dto);
+  }
+
+  @Delete('sessions/:id')
+  @PermissionOutlet('kioskSession')
+  @ApiOperation({ summary: 'Abandon the session' })
+  async cancel(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.kioskService.cancel(user, id);
+  }
+
+  // ==================== Shift ====================
+
+  @Post('shift/close')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Close the kiosk's shift at the end of the day" })
+  async closeShift(@Body() dto: KioskDeviceQueryDto, @CurrentUser() user: AuthUser) {
+    return this.kioskService.closeShift(user, dto.deviceId);
+  }
+}
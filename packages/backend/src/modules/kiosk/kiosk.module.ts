@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PaymentsModule } from '../payments/payments.module';
+import { PosModule } from '../pos/pos.module';
+import { OverridesModule } from '../overrides/overrides.module';
+import { ScalesModule } from '../scales/scales.module';
+import { KioskController } from './kiosk.controller';
+import { KioskService } from './kiosk.service';
+
+@Module({
+  imports: [PaymentsModule, PosModule, OverridesModule, ScalesModule],
+  controllers: [KioskController],
+  providers: [KioskService],
+})
+export class KioskModule {}
@@ -0,0 +1,648 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import type { KioskSessionStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { assertSellingLocation } from '../../infrastructure/database/selling-location';
+import { EventBusService } from '../../infrastructure/events/event-bus.service';
+import { PaymentGatewayFactory } from '../../infrastructure/services/payment/payment-gateway.factory';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { KioskAssistRequestedEvent } from '../../domain/events/kiosk-assist-requested.event';
+import {
+  CreateTransactionUseCase,
+  lineSubtotal,
+  saleTotals,
+} from '../../application/use-cases/pos/create-transaction.use-case';
+import { Quantity } from '../../domain/value-objects/quantity';
+import {
+  ManagerOverrideService,
+  assertApprovalProvided,
+} from '../overrides/manager-override.service';
+import { ScalesService, type EmbeddedBarcodeMatch } from '../scales/scales.service';
+import { assistReasons } from './kiosk.util';
+import type {
+  ApproveKioskAssistDto,
+  CompleteKioskPaymentDto,
+  KioskCartDto,
+  KioskCatalogQueryDto,
+  RequestKioskAssistDto,
+  StartKioskPaymentDto,
+} from '../../application/dtos/kiosk.dto';
+
+const OPEN_STATUSES: KioskSessionStatus[] = ['active', 'awaiting_payment'];
+
+// QR codes are shown to a customer standing at the kiosk
+const QRIS_EXPIRY_SECONDS = 5 * 60;
+
+const PRODUCT_SELECT = {
+  id: true,
+  categoryId: true,
+  name: true,
+  description: true,
+  imageUrl: true,
+  basePrice: true,
+  sellUnit: true,
+  isWeighed: true,
+  minimumAge: true,
+  variants: {
+    where: { isActive: true },
+    select: { id: true, name: true, price: true },
+    orderBy: { name: 'asc' },
+  },
+  productModifierGroups: {
+    where: { modifierGroup: { isActive: true } },
+    orderBy: { sortOrder: 'asc' },
+    select: {
+      modifierGroup: {
+        select: {
+          id: true,
+          name: true,
+          selectionType: true,
+          minSelection: true,
+          maxSelection: true,
+          isRequired: true,
+          modifiers: {
+            where: { isActive: true },
+            orderBy: { sortOrder: 'asc' },
+            select: { id: true, name: true, price: true },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ProductSelect;
+
+type KioskProductRow = Prisma.ProductGetPayload<{ select: typeof PRODUCT_SELECT }>;
+
+/** A cart line priced on the server, kept on the session until the sale is booked */
+export interface KioskCartLine {
+  productId: string;
+  variantId: string | null;
+  modifierIds: string[];
+  name: string;
+  variantName: string | null;
+  modifierNames: string[];
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  assistReasons: string[];
+}
+
+export interface KioskQuote {
+  lines: KioskCartLine[];
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  /** Non-empty when an attendant has to approve the cart before payment */
+  assistReasons: string[];
+}
+
+function toKioskProduct(product: KioskProductRow, labelled = false) {
+  return {
+    id: product.id,
+    categoryId: product.categoryId,
+    name: product.name,
+    description: product.description,
+    imageUrl: product.imageUrl,
+    price: Number(product.basePrice),
+    isWeighed: product.isWeighed,
+    sellUnit: product.sellUnit,
+    variants: product.variants.map((v) => ({ id: v.id, name: v.name, price: Number(v.price) })),
+    // Offered as the upsell once the customer picks the product
+    modifierGroups: product.productModifierGroups.map(({ modifierGroup: group }) => ({
+      id: group.id,
+      name: group.name,
+      selectionType: group.selectionType,
+      minSelection: group.minSelection,
+      maxSelection: group.maxSelection,
+      isRequired: group.isRequired,
+      modifiers: group.modifiers.map((m) => ({ id: m.id, name: m.name, price: Number(m.price) })),
+    })),
+    assistReasons: assistReasons(product, labelled),
+  };
+}
+
+/**
+ * KioskService - Unattended self-checkout
+ *
+ * A kiosk is a registered device of type kiosk, logged in as an employee
+ * whose role holds kiosk.checkout. Each customer gets a session on the
+ * kiosk's own shift; the cart is priced here, paid by QRIS through the
+ * payment gateway or on the card terminal, and booked as a normal sale.
+ * Age-restricted and weighed items need an attendant, who approves them
+ * at the kiosk with their PIN through the supervisor override flow.
+ */
+@Injectable()
+export class KioskService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventBus: EventBusService,
+    private readonly gatewayFactory: PaymentGatewayFactory,
+    private readonly createTransaction: CreateTransactionUseCase,
+    private readonly overrides: ManagerOverrideService,
+    private readonly scales: ScalesService,
+  ) {}
+
+  // ==================== Catalog ====================
+
+  async catalog(user: AuthUser, query: KioskCatalogQueryDto) {
+    await this.findKiosk(user, query.deviceId);
+    const search = query.search?.trim();
+
+    const [categories, products] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { businessId: user.businessId, isActive: true },
+        select: { id: true, name: true, imageUrl: true },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      }),
+      this.prisma.product.findMany({
+        where: {
+          businessId: user.businessId,
+          isActive: true,
+          ...(query.categoryId && { categoryId: query.categoryId }),
+          ...(search && { name: { contains: search, mode: 'insensitive' as const } }),
+        },
+        select: PRODUCT_SELECT,
+        orderBy: { name: 'asc' },
+        take: 200,
+      }),
+    ]);
+
+    return { categories, products: products.map((p) => toKioskProduct(p)) };
+  }
+
+  /** Product for a scanned barcode or SKU, with the variant it names if any */
+  async scan(user: AuthUser, deviceId: string, code: string) {
+    await this.findKiosk(user, deviceId);
+
+    const product = await this.prisma.product.findFirst({
+      where: {
+        businessId: user.businessId,
+        isActive: true,
+        OR: [{ barcode: code }, { sku: code }],
+      },
+      select: PRODUCT_SELECT,
+    });
+    if (product) return { product: toKioskProduct(product), variantId: null };
+
+    const variant = await this.prisma.productVariant.findFirst({
+      where: {
+        isActive: true,
+        OR: [{ barcode: code }, { sku: code }],
+        product: { businessId: user.businessId, isActive: true },
+      },
+      select: { id: true, product: { select: PRODUCT_SELECT } },
+    });
+    if (variant) return { product: toKioskProduct(variant.product), variantId: variant.id };
+
+    // A label off the deli or bakery scale
+    const label = await this.scales.resolve(user.businessId, code);
+    const labelled = label
+      ? await this.prisma.product.findUnique({
+          where: { id: label.productId },
+          select: PRODUCT_SELECT,
+        })
+      : null;
+    if (!label || !labelled) {
+      throw new AppError(ErrorCode.PRODUCT_NOT_FOUND, `No product with barcode ${code}`);
+    }
+    return {
+      product: toKioskProduct(labelled, true),
+      variantId: null,
+      label: { code, quantity: label.quantity, amount: label.amount },
+    };
+  }
+
+  /** Member by phone number; only the first name goes back to the screen */
+  async lookupLoyalty(user: AuthUser, deviceId: string, phone: string) {
+    await this.findKiosk(user, deviceId);
+
+    const customer = await this.prisma.customer.findFirst({
+      where: { businessId: user.businessId, phone, isActive: true },
+      select: { id: true, name: true, loyaltyPoints: true, loyaltyTier: true },
+    });
+    if (!customer) {
+      throw new AppError(
+        ErrorCode.CUSTOMER_NOT_FOUND,
+        'No member with this phone number',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return {
+      id: customer.id,
+      firstName: customer.name.trim().split(/\s+/)[0],
+      loyaltyPoints: customer.loyaltyPoints,
+      loyaltyTier: customer.loyaltyTier,
+    };
+  }
+
+  // ==================== Sessions ====================
+
+  /** Starts a customer's session, opening the kiosk's shift on first use */
+  async start(user: AuthUser, deviceId: string) {
+    const device = await this.findKiosk(user, deviceId);
+    const shiftId = await this.ensureShift(user, device.id, device.outletId);
+
+    // Whoever walked away from the screen before is not coming back
+    await this.prisma.kioskSession.updateMany({
+      where: { deviceId: device.id, status: { in: OPEN_STATUSES } },
+      data: { status: 'abandoned', endedAt: new Date() },
+    });
+
+    const session = await this.prisma.kioskSession.create({
+      data: {
+        businessId: user.businessId,
+        outletId: device.outletId,
+        deviceId: device.id,
+        shiftId,
+      },
+    });
+    return { id: session.id, outletId: session.outletId, startedAt: session.startedAt };
+  }
+
+  async quote(user: AuthUser, sessionId: string, cart: KioskCartDto): Promise<KioskQuote> {
+    await this.findSession(user, sessionId, OPEN_STATUSES);
+    return this.price(user.businessId, cart);
+  }
+
+  /** Calls an attendant over; staff terminals at the outlet are notified */
+  async requestAssist(user: AuthUser, sessionId: string, dto: RequestKioskAssistDto) {
+    const session = await this.findSession(user, sessionId, OPEN_STATUSES);
+    const reason = dto.reason?.trim() || 'Customer needs help';
+    const requestedAt = new Date();
+
+    await this.prisma.kioskSession.update({
+      where: { id: session.id },
+      data: { assistReason: reason, assistRequestedAt: requestedAt },
+    });
+    this.eventBus.publish(
+      new KioskAssistRequestedEvent(
+        session.id,
+        session.outletId,
+        session.deviceId,
+        session.device.deviceName,
+        reason,
+      ),
+    );
+    return { reason, requestedAt };
+  }
+
+  /** Attendants who can approve restricted items at the kiosk's outlet */
+  async assistApprovers(user: AuthUser, sessionId: string) {
+    const session = await this.findSession(user, sessionId, OPEN_STATUSES);
+    return this.overrides.approvers(user, 'kiosk_assist', session.outletId);
+  }
+
+  /**
+   * The attendant's PIN or authenticator code, traded for a single-use
+   * approval of the restricted items, or of a card payment once they have
+   * seen the card terminal's receipt
+   */
+  async approveAssist(user: AuthUser, sessionId: string, dto: ApproveKioskAssistDto) {
+    const session = await this.findSession(
+      user,
+      sessionId,
+      dto.confirmCardPayment ? ['awaiting_payment'] : OPEN_STATUSES,
+    );
+    if (dto.confirmCardPayment && session.paymentMethod !== 'card') {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'This session is not paying by card');
+    }
+    return this.overrides.approve(user, {
+      action: dto.confirmCardPayment ? 'kiosk_card' : 'kiosk_assist',
+      approverId: dto.approverId,
+      pin: dto.pin,
+      totpCode: dto.totpCode,
+      outletId: session.outletId,
+      referenceId: session.id,
+      reason: session.assistReason ?? undefined,
+    });
+  }
+
+  // ==================== Payment ====================
+
+  /** Prices the cart and asks for the money: a QRIS to scan, or the card terminal */
+  async startPayment(user: AuthUser, sessionId: string, dto: StartKioskPaymentDto) {
+    const session = await this.findSession(user, sessionId, OPEN_STATUSES);
+    const quote = await this.price(user.businessId, dto);
+    assertApprovalProvided('kiosk_assist', quote.assistReasons.length > 0, dto.assistApproval);
+
+    if (dto.customerId) {
+      const customer = await this.prisma.customer.findFirst({
+        where: { id: dto.customerId, businessId: user.businessId, isActive: true },
+        select: { id: true },
+      });
+      if (!customer) {
+        throw new AppError(
+          ErrorCode.CUSTOMER_NOT_FOUND,
+          'Customer not found',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+    }
+
+    let paymentRef: string | null = null;
+    let qrString: string | null = null;
+    if (dto.method === 'qris') {
+      const result = await this.gatewayFactory.getGateway().processPayment({
+        method: 'qris',
+        amount: quote.total,
+        referenceNumber: session.id,
+        description: `Self-checkout at ${session.device.deviceName}`,
+        expirySeconds: QRIS_EXPIRY_SECONDS,
+      });
+      if (!result.success) {
+        throw new BusinessError(
+          ErrorCode.INVALID_PAYMENT,
+          `Payment gateway refused the QRIS request: ${result.message ?? 'unknown error'}`,
+        );
+      }
+      paymentRef = result.transactionRef;
+      qrString = (result.paymentData?.qrString as string | undefined) ?? null;
+    }
+
+    await this.prisma.kioskSession.update({
+      where: { id: session.id },
+      data: {
+        status: 'awaiting_payment',
+        customerId: dto.customerId ?? null,
+        cart: quote.lines as unknown as Prisma.InputJsonValue,
+        amount: quote.total,
+        paymentMethod: dto.method,
+        paymentRef,
+      },
+    });
+    return { method: dto.method, amount: quote.total, qrString, quote };
+  }
+
+  /**
+   * Books the sale once paid. QRIS is checked with the gateway and answers
+   * pending until the customer has paid. The card terminal is not connected,
+   * so a card needs its approval code and an attendant's confirmation that
+   * the terminal approved the payment. The session id doubles as the
+   * transaction id, so a retry after a dropped response cannot book the sale
+   * twice.
+   */
+  async complete(user: AuthUser, sessionId: string, dto: CompleteKioskPaymentDto) {
+    const session = await this.findSession(user, sessionId, ['awaiting_payment']);
+    const lines = (session.cart ?? []) as unknown as KioskCartLine[];
+    assertApprovalProvided(
+      'kiosk_assist',
+      lines.some((line) => line.assistReasons.length > 0),
+      dto.assistApproval,
+    );
+
+    let referenceNumber: string;
+    if (session.paymentMethod === 'qris') {
+      const status = await this.gatewayFactory.getGateway().checkStatus(session.paymentRef ?? '');
+      if (status === 'failed') {
+        throw new BusinessError(ErrorCode.INVALID_PAYMENT, 'The QRIS payment failed or expired');
+      }
+      if (status !== 'completed') return { status: 'pending' as const };
+      referenceNumber = session.paymentRef ?? session.id;
+    } else {
+      if (!dto.cardApprovalCode) {
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          'Enter the approval code from the card terminal',
+        );
+      }
+      if (!dto.cardApproval) {
+        throw new AppError(
+          ErrorCode.APPROVAL_REQUIRED,
+          'An attendant has to confirm the card payment',
+          HttpStatus.FORBIDDEN,
+        );
+      }
+      referenceNumber = dto.cardApprovalCode;
+    }
+
+    // Claim the session so a double tap or a second poll does not book it again
+    const claimed = await this.prisma.kioskSession.updateMany({
+      where: { id: session.id, status: 'awaiting_payment' },
+      data: { status: 'completed', endedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new AppError(
+        ErrorCode.CONFLICT,
+        'This kiosk session is already being completed',
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    try {
+      const result = await this.createTransaction.execute({
+        transactionId: session.id,
+        outletId: session.outletId,
+        employeeId: user.employeeId,
+        customerId: session.customerId ?? undefined,
+        shiftId: session.shiftId,
+        orderType: 'takeaway',
+        items: lines.map((line) => ({
+          productId: line.productId,
+          variantId: line.variantId ?? undefined,
+          modifierIds: line.modifierIds,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          notes: line.modifierNames.length > 0 ? line.modifierNames.join(', ') : undefined,
+        })),
+        payments: [
+          {
+            method: session.paymentMethod ?? 'qris',
+            amount: Number(session.amount),
+            referenceNumber,
+          },
+        ],
+        approvals: { kioskAssist: dto.assistApproval, kioskCard: dto.cardApproval },
+        notes: `Self-checkout at ${session.device.deviceName}`,
+      });
+
+      await this.prisma.kioskSession.update({
+        where: { id: session.id },
+        data: { transactionId: result.transactionId },
+      });
+      return {
+        status: 'completed' as const,
+        transactionId: result.transactionId,
+        receiptNumber: result.receiptNumber,
+        grandTotal: result.grandTotal,
+        loyaltyPointsEarned: result.loyaltyPointsEarned,
+      };
+    } catch (error) {
+      // Paid but not booked: leave the session for the attendant to retry
+      await this.prisma.kioskSession.update({
+        where: { id: session.id },
+        data: { status: 'awaiting_payment', endedAt: null },
+      });
+      throw error;
+    }
+  }
+
+  async cancel(user: AuthUser, sessionId: string) {
+    const session = await this.findSession(user, sessionId, OPEN_STATUSES);
+    await this.prisma.kioskSession.updateMany({
+      where: { id: session.id, status: { in: OPEN_STATUSES } },
+      data: { status: 'abandoned', endedAt: new Date() },
+    });
+    return { cancelled: true };
+  }
+
+  /** Closes the kiosk's shift at the end of the day; the next session opens a new one */
+  async closeShift(user: AuthUser, deviceId: string) {
+    const device = await this.findKiosk(user, deviceId);
+    const shift = await this.prisma.shift.findFirst({
+      where: { deviceId: device.id, status: 'open' },
+      select: { id: true },
+    });
+    if (!shift) {
+      throw new BusinessError(ErrorCode.SHIFT_NOT_OPEN, 'The kiosk has no open shift');
+    }
+
+    const endedAt = new Date();
+    await this.prisma.$transaction([
+      this.prisma.kioskSession.updateMany({
+        where: { shiftId: shift.id, status: { in: OPEN_STATUSES } },
+        data: { status: 'abandoned', endedAt },
+      }),
+      this.prisma.shift.update({
+        where: { id: shift.id },
+        data: { status: 'closed', endedAt, closingCash: 0, expectedCash: 0, cashDifference: 0 },
+      }),
+    ]);
+    return { shiftId: shift.id, endedAt };
+  }
+
+  // ==================== Helpers ====================
+
+  private async findKiosk(user: AuthUser, deviceId: string) {
+    const device = await this.prisma.device.findFirst({
+      where: { id: deviceId, businessId: user.businessId, deviceType: 'kiosk', isActive: true },
+      select: { id: true, outletId: true, deviceName: true },
+    });
+    if (!device || !device.outletId) {
+      throw new BusinessError(
+        ErrorCode.DEVICE_NOT_REGISTERED,
+        'Device is not a kiosk registered to an outlet',
+      );
+    }
+    return { ...device, outletId: device.outletId };
+  }
+
+  private async findSession(user: AuthUser, sessionId: string, statuses: KioskSessionStatus[]) {
+    const session = await this.prisma.kioskSession.findFirst({
+      where: { id: sessionId, businessId: user.businessId, status: { in: statuses } },
+      include: { device: { select: { deviceName: true } } },
+    });
+    if (!session) {
+      throw new AppError(
+        ErrorCode.KIOSK_SESSION_NOT_FOUND,
+        'Kiosk session not found or already ended',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return session;
+  }
+
+  private async ensureShift(user: AuthUser, deviceId: string, outletId: string) {
+    const open = await this.prisma.shift.findFirst({
+      where: { deviceId, status: 'open' },
+      select: { id: true },
+    });
+    if (open) return open.id;
+
+    await assertSellingLocation(this.prisma, outletId);
+    const shift = await this.prisma.shift.create({
+      data: {
+        outletId,
+        employeeId: user.employeeId,
+        deviceId,
+        startedAt: new Date(),
+        openingCash: 0,
+        notes: 'Self-checkout kiosk',
+      },
+    });
+    return shift.id;
+  }
+
+  /** Prices the cart from the catalog; nothing the kiosk sends is taken on trust but the picks */
+  private async price(businessId: string, cart: KioskCartDto): Promise<KioskQuote> {
+    const productIds = [...new Set(cart.items.map((item) => item.productId))];
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds }, businessId, isActive: true },
+      select: PRODUCT_SELECT,
+    });
+    const byId = new Map(products.map((p) => [p.id, p]));
+
+    // Scale labels are read here again; the kiosk only says which one it scanned
+    const labels = new Map<string, EmbeddedBarcodeMatch>();
+    for (const item of cart.items) {
+      if (!item.label || labels.has(item.label)) continue;
+      const label = await this.scales.resolve(businessId, item.label);
+      if (!label || label.productId !== item.productId) {
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          `Scale label ${item.label} is not for this item`,
+        );
+      }
+      labels.set(item.label, label);
+    }
+
+    const lines: KioskCartLine[] = cart.items.map((item) => {
+      const product = byId.get(item.productId);
+      if (!product) {
+        throw new AppError(
+          ErrorCode.PRODUCT_NOT_FOUND,
+          `Product ${item.productId} not found or inactive`,
+        );
+      }
+
+      const variant = item.variantId
+        ? product.variants.find((v) => v.id === item.variantId)
+        : undefined;
+      if (item.variantId && !variant) {
+        throw new AppError(ErrorCode.PRODUCT_NOT_FOUND, `Variant ${item.variantId} not found`);
+      }
+
+      const offered = product.productModifierGroups.flatMap((g) => g.modifierGroup.modifiers);
+      const modifiers = (item.modifierIds ?? []).map((id) => {
+        const modifier = offered.find((m) => m.id === id);
+        if (!modifier) {
+          throw new BusinessError(
+            ErrorCode.VALIDATION_ERROR,
+            `Modifier ${id} is not offered with ${product.name}`,
+          );
+        }
+        return modifier;
+      });
+
+      const unitPrice =
+        Number(variant?.price ?? product.basePrice) +
+        modifiers.reduce((sum, m) => sum + Number(m.price), 0);
+      const label = item.label ? labels.get(item.label) : undefined;
+      // Rounded like the sale rounds it, so the quote matches the booked total
+      const quantity = Quantity.create(label?.quantity ?? item.quantity).value;
+      return {
+        productId: product.id,
+        variantId: variant?.id ?? null,
+        modifierIds: modifiers.map((m) => m.id),
+        name: product.name,
+        variantName: variant?.name ?? null,
+        modifierNames: modifiers.map((m) => m.name),
+        quantity,
+        unitPrice,
+        subtotal: lineSubtotal(unitPrice, quantity),
+        assistReasons: assistReasons(product, !!label),
+      };
+    });
+
+    const subtotal = lines.reduce((sum, line) => sum + line.subtotal, 0);
+    const { taxAmount, total } = saleTotals(subtotal);
+    return {
+      lines,
+      subtotal,
+      taxAmount,
+      total,
+      assistReasons: [...new Set(lines.flatMap((line) => line.assistReasons))],
+    };
+  }
+}
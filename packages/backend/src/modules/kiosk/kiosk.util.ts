@@ -0,0 +1,20 @@
+export interface KioskAssistProduct {
+  name: string;
+  minimumAge: number | null;
+  isWeighed: boolean;
+}
+
+/**
+ * Why an attendant has to come to the kiosk for the product; empty when
+ * nobody has to. A weighed item scanned off a scale label is weighed already.
+ */
+export function assistReasons(product: KioskAssistProduct, labelled = false): string[] {
+  const reasons: string[] = [];
+  if (product.minimumAge) {
+    reasons.push(`Age check (${product.minimumAge}+) for ${product.name}`);
+  }
+  if (product.isWeighed && !labelled) {
+    reasons.push(`Weigh ${product.name}`);
+  }
+  return reasons;
+}
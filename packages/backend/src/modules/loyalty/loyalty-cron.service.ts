@@ -9,6 +9,8 @@
 import { Injectable, Logger, Inject } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { EventBusService } from '../../infrastructure/events/event-bus.service';
+import { LoyaltyTierChangedEvent } from '../../domain/events/loyalty-tier-changed.event';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import type { ILoyaltyRepository } from '../../domain/interfaces/repositories/loyalty.repository';
 
@@ -77,6 +79,7 @@ export class LoyaltyCronService {
     private readonly prisma: PrismaService,
     @Inject(REPOSITORY_TOKENS.LOYALTY)
     private readonly loyaltyRepo: ILoyaltyRepository,
+    private readonly eventBus: EventBusService,
   ) {}
 
   // ========================================================================
@@ -193,6 +196,10 @@ export class LoyaltyCronService {
         description: `Tier ${isUpgrade ? 'upgraded' : 'downgraded'} from ${previousTier} to ${newTierName}`,
       });
 
+      this.eventBus.publish(
+        new LoyaltyTierChangedEvent(customer.id, businessId, previousTier, newTierName, isUpgrade),
+      );
+
       result.details.push({
         customerId: customer.id,
         customerName: customer.name,
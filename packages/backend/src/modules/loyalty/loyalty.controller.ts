@@ -1,11 +1,13 @@
 import { Controller, Get, Post, Put, Body, Param, Query, UseGuards, Inject } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { EarnLoyaltyPointsUseCase } from '../../application/use-cases/loyalty/earn-loyalty-points.use-case';
 import { RedeemLoyaltyPointsUseCase } from '../../application/use-cases/loyalty/redeem-loyalty-points.use-case';
 import { GetLoyaltyBalanceUseCase } from '../../application/use-cases/loyalty/get-loyalty-balance.use-case';
@@ -35,6 +37,7 @@ export class LoyaltyController {
   ) {}
 
   @Post('earn')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Earn loyalty points from a transaction' })
   async earnPoints(
     @Body() dto: { customerId: string; transactionId: string; transactionTotal: number },
@@ -49,6 +52,7 @@ export class LoyaltyController {
   }
 
   @Post('redeem')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Redeem loyalty points for discount' })
   async redeemPoints(
     @Body() dto: { customerId: string; transactionId: string; pointsToRedeem: number },
@@ -63,12 +67,14 @@ export class LoyaltyController {
   }
 
   @Get('customer/:customerId')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get customer loyalty info (points, tier, program status)' })
   async getCustomerLoyalty(@Param('customerId') customerId: string) {
     return this.getLoyaltyBalanceUseCase.execute({ customerId });
   }
 
   @Get('customer/:customerId/history')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get customer loyalty transaction history' })
   async getCustomerHistory(
     @Param('customerId') customerId: string,
@@ -81,8 +87,8 @@ export class LoyaltyController {
   }
 
   @Put('adjust')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('loyalty.manage')
   @ApiOperation({ summary: 'Manual points adjustment (admin only)' })
   async adjustPoints(
     @Body() dto: { customerId: string; points: number; reason: string },
@@ -129,8 +135,8 @@ export class LoyaltyController {
   // ======================================================================
 
   @Get('analytics')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('loyalty.manage')
   @ApiOperation({
     summary: 'Get loyalty program analytics',
     description:
@@ -155,8 +161,8 @@ export class LoyaltyController {
   // ======================================================================
 
   @Post('tiers/evaluate')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('loyalty.manage')
   @ApiOperation({
     summary: 'Manually trigger tier evaluation',
     description:
@@ -167,8 +173,8 @@ export class LoyaltyController {
   }
 
   @Post('check-tiers')
-  @UseGuards(RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(PermissionsGuard)
+  @RequirePermission('loyalty.manage')
   @ApiOperation({
     summary: 'Manually trigger tier check (alias for tiers/evaluate)',
     description: "Checks all customers' total points vs tier thresholds, auto-upgrades/downgrades",
@@ -10,6 +10,8 @@ import { TierRules } from '../business-rules/tier.rules';
 import { LoyaltyConfig, TierConfig, CustomerLoyaltyInfo } from '../types/interfaces';
 import { LoyaltyProgram, LoyaltyTier } from '@prisma/client';
 import { AppError, ErrorCode } from '../../../shared/errors/app-error';
+import { EventBusService } from '../../../infrastructure/events/event-bus.service';
+import { LoyaltyTierChangedEvent } from '../../../domain/events/loyalty-tier-changed.event';
 
 export interface TierEvaluationSummary {
   evaluated: number;
@@ -29,7 +31,10 @@ export interface TierEvaluationSummary {
 export class TierManagementService {
   private readonly logger = new Logger(TierManagementService.name);
 
-  constructor(private readonly repository: LoyaltyRepository) {}
+  constructor(
+    private readonly repository: LoyaltyRepository,
+    private readonly eventBus: EventBusService,
+  ) {}
 
   // ========================================================================
   // PROGRAM MANAGEMENT
@@ -133,6 +138,16 @@ export class TierManagementService {
         description: `Tier ${evaluation.isUpgrade ? 'upgraded' : 'downgraded'}: ${customer.loyaltyTier} -> ${evaluation.tierName}`,
       });
 
+      this.eventBus.publish(
+        new LoyaltyTierChangedEvent(
+          customer.id,
+          businessId,
+          customer.loyaltyTier,
+          evaluation.tierName,
+          evaluation.isUpgrade,
+        ),
+      );
+
       result.changes.push({
         customerId: customer.id,
         name: customer.name,
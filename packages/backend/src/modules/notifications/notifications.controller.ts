@@ -1,6 +1,11 @@
 import { Controller, Get, Post, Put, Body, Param, UseGuards, Inject } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
@@ -8,7 +13,7 @@ import type { INotificationRepository } from '../../domain/interfaces/repositori
 
 @ApiTags('Notifications')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('notifications')
 export class NotificationsController {
   constructor(
@@ -17,11 +22,13 @@ export class NotificationsController {
   ) {}
 
   @Get('settings')
+  @WithoutPermission()
   async getSettings(@CurrentUser() user: AuthUser) {
     return this.notificationRepo.findSettingsByBusinessId(user.businessId);
   }
 
   @Post('settings')
+  @RequirePermission('settings.manage')
   async createSetting(
     @Body()
     dto: {
@@ -51,6 +58,7 @@ export class NotificationsController {
   }
 
   @Put('settings/:id')
+  @RequirePermission('settings.manage')
   async updateSetting(
     @Param('id') id: string,
     @Body() dto: { isEnabled?: boolean; threshold?: Record<string, unknown> },
@@ -62,11 +70,13 @@ export class NotificationsController {
   }
 
   @Get('logs')
+  @WithoutPermission()
   async getLogs(@CurrentUser() user: AuthUser) {
     return this.notificationRepo.findLogsByRecipientId(user.employeeId, 50);
   }
 
   @Put('logs/:id/read')
+  @WithoutPermission()
   async markAsRead(@Param('id') id: string) {
     return this.notificationRepo.markLogAsRead(id);
   }
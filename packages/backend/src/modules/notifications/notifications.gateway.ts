@@ -20,6 +20,10 @@ import { StockTransferStatusChangedEvent } from '../../domain/events/stock-trans
 import { ShiftStartedEvent } from '../../domain/events/shift-started.event';
 import { ShiftEndedEvent } from '../../domain/events/shift-ended.event';
 import { DeviceSyncStatusEvent } from '../../domain/events/device-sync-status.event';
+import { CustomerDisplayUpdatedEvent } from '../../domain/events/customer-display-updated.event';
+import { CustomerDisplayService } from '../customer-display/customer-display.service';
+import { KioskAssistRequestedEvent } from '../../domain/events/kiosk-assist-requested.event';
+import { AppError } from '../../shared/errors/app-error';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -34,6 +38,14 @@ interface JoinRoomData {
   outletId?: string;
 }
 
+// Rooms the server puts sockets in itself; joinRoom cannot build their names
+const RESERVED_ROOM_PREFIXES = new Set(['display']);
+
+// Wrong pairing codes from one address before it has to wait; counted per
+// address so reconnecting does not reset them
+const DISPLAY_PAIR_ATTEMPTS = 5;
+const DISPLAY_PAIR_WINDOW_MS = 60_000;
+
 @WebSocketGateway({
   namespace: '/notifications',
   cors: { origin: '*' },
@@ -46,10 +58,12 @@ export class NotificationsGateway
 
   private readonly logger = new Logger(NotificationsGateway.name);
   private readonly userRooms = new Map<string, Set<string>>();
+  private readonly pairAttempts = new Map<string, { count: number; resetAt: number }>();
 
   constructor(
     private readonly eventBus: EventBusService,
     private readonly prisma: PrismaService,
+    private readonly customerDisplay: CustomerDisplayService,
   ) {}
 
   onModuleInit() {
@@ -189,6 +203,43 @@ export class NotificationsGateway
       this.server.to(`business:${event.businessId}`).emit('device:sync-status', payload);
     });
 
+    // Customer display events — each terminal's display listens in display:<deviceId>
+    this.eventBus.ofType(CustomerDisplayUpdatedEvent).subscribe((event) => {
+      const room = `display:${event.deviceId}`;
+      switch (event.update) {
+        case 'state':
+          this.server.to(room).emit('display:state', event.payload);
+          break;
+        case 'settings':
+          this.server.to(room).emit('display:settings', event.payload);
+          break;
+        case 'paired':
+          // Tells the terminals a display connected. The device id stays out
+          // of the outlet room; terminals read their own status over HTTP.
+          this.server
+            .to(`outlet:${event.outletId}`)
+            .emit('customer_display:paired', { pairedAt: event.payload.pairedAt });
+          break;
+        case 'unpaired':
+          this.server.to(room).emit('display:unpaired', event.payload);
+          this.server.in(room).socketsLeave(room);
+          this.server.to(`outlet:${event.outletId}`).emit('customer_display:unpaired', {});
+          break;
+      }
+    });
+
+    // Self-checkout kiosks calling an attendant over
+    this.eventBus.ofType(KioskAssistRequestedEvent).subscribe((event) => {
+      this.server.to(`outlet:${event.outletId}`).emit('kiosk:assist_requested', {
+        sessionId: event.sessionId,
+        deviceId: event.deviceId,
+        deviceName: event.deviceName,
+        outletId: event.outletId,
+        reason: event.reason,
+        occurredOn: event.occurredOn,
+      });
+    });
+
     this.logger.log('Subscribed to domain events for real-time notifications');
   }
 
@@ -215,6 +266,10 @@ export class NotificationsGateway
   ) {
     const { room, businessId, outletId } = data;
 
+    if (typeof room !== 'string' || RESERVED_ROOM_PREFIXES.has(room.split(':')[0])) {
+      return { event: 'error', data: { message: 'This room cannot be joined' } };
+    }
+
     // Store user context
     if (businessId) client.businessId = businessId;
     if (outletId) client.outletId = outletId;
@@ -265,6 +320,81 @@ export class NotificationsGateway
     return { event: 'left', data: { room: data.room } };
   }
 
+  // --- Customer display ---
+
+  /** A customer display claims the code shown on its terminal */
+  @SubscribeMessage('display:pair')
+  async handleDisplayPair(
+    @MessageBody() data: { code?: string },
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    if (this.isPairRateLimited(client.handshake.address)) {
+      return { event: 'display:error', data: { message: 'Too many attempts. Try again later.' } };
+    }
+    if (typeof data?.code !== 'string' || !/^\d{6}$/.test(data.code)) {
+      return { event: 'display:error', data: { message: 'Enter the 6-digit code' } };
+    }
+
+    try {
+      const session = await this.customerDisplay.pair(data.code);
+      await this.joinDisplayRoom(client, session.deviceId);
+      return { event: 'display:paired', data: session };
+    } catch (error) {
+      this.recordFailedPair(client.handshake.address);
+      return { event: 'display:error', data: { message: this.displayErrorMessage(error) } };
+    }
+  }
+
+  /** A paired display rejoins its terminal after a reload or reconnect */
+  @SubscribeMessage('display:resume')
+  async handleDisplayResume(
+    @MessageBody() data: { deviceId?: string; token?: string },
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    if (typeof data?.deviceId !== 'string' || typeof data.token !== 'string') {
+      return { event: 'display:unpaired', data: {} };
+    }
+
+    try {
+      const session = await this.customerDisplay.resume(data.deviceId, data.token);
+      await this.joinDisplayRoom(client, session.deviceId);
+      return { event: 'display:paired', data: session };
+    } catch (error) {
+      return { event: 'display:unpaired', data: { message: this.displayErrorMessage(error) } };
+    }
+  }
+
+  private async joinDisplayRoom(client: AuthenticatedSocket, deviceId: string) {
+    const room = `display:${deviceId}`;
+    await client.join(room);
+    if (!this.userRooms.has(client.id)) {
+      this.userRooms.set(client.id, new Set());
+    }
+    this.userRooms.get(client.id)!.add(room);
+    this.logger.debug(`Customer display ${client.id} joined room: ${room}`);
+  }
+
+  private displayErrorMessage(error: unknown): string {
+    if (error instanceof AppError) return error.message;
+    this.logger.error('Customer display pairing failed', error);
+    return 'Pairing failed';
+  }
+
+  private isPairRateLimited(address: string): boolean {
+    const entry = this.pairAttempts.get(address);
+    return !!entry && Date.now() <= entry.resetAt && entry.count >= DISPLAY_PAIR_ATTEMPTS;
+  }
+
+  private recordFailedPair(address: string) {
+    const now = Date.now();
+    const entry = this.pairAttempts.get(address);
+    if (!entry || now > entry.resetAt) {
+      this.pairAttempts.set(address, { count: 1, resetAt: now + DISPLAY_PAIR_WINDOW_MS });
+    } else {
+      entry.count++;
+    }
+  }
+
   // --- Queue events for waiting list ---
 
   emitQueueCustomerAdded(
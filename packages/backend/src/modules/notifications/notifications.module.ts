@@ -13,9 +13,10 @@ import { PrismaNotificationRepository } from '../../infrastructure/repositories/
 import { EventBusModule } from '../../infrastructure/events/event-bus.module';
 import { RealtimeMetricsService } from '../../infrastructure/services/realtime-metrics.service';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { CustomerDisplayModule } from '../customer-display/customer-display.module';
 
 @Module({
-  imports: [EventBusModule],
+  imports: [EventBusModule, CustomerDisplayModule],
   controllers: [NotificationsController],
   providers: [
     { provide: REPOSITORY_TOKENS.NOTIFICATION, useClass: PrismaNotificationRepository },
@@ -0,0 +1,171 @@
+/**
+ * Document number helpers
+ *
+ * Pure functions behind the numbering series: the period a number belongs to
+ * for each reset period, rendering a number from a series format, and
+ * collapsing sequences into ranges for the integrity report.
+ */
+
+import type { DocumentType, NumberingResetPeriod } from '@prisma/client';
+import { formatLocalDate, fromWallClock } from '../reports/scheduled/report-schedule.util';
+
+/** Longest number a transaction can store (receipt_number / void_number) */
+export const MAX_DOCUMENT_NUMBER_LENGTH = 50;
+
+export const NUMBERING_FORMAT_TOKENS = [
+  'prefix',
+  'outlet',
+  'YYYY',
+  'YY',
+  'MM',
+  'DD',
+  'seq',
+] as const;
+
+export interface SeriesDefaults {
+  prefix: string;
+  format: string;
+  padding: number;
+  resetPeriod: NumberingResetPeriod;
+}
+
+const DEFAULT_FORMAT = '{prefix}/{outlet}/{YYYY}{MM}/{seq}';
+
+/** Used the first time an outlet issues a document of a type */
+export const DEFAULT_SERIES: Record<DocumentType, SeriesDefaults> = {
+  sale: { prefix: 'INV', format: DEFAULT_FORMAT, padding: 5, resetPeriod: 'monthly' },
+  refund: { prefix: 'RTN', format: DEFAULT_FORMAT, padding: 5, resetPeriod: 'monthly' },
+  void: { prefix: 'VOID', format: DEFAULT_FORMAT, padding: 5, resetPeriod: 'monthly' },
+  credit_note: { prefix: 'CN', format: DEFAULT_FORMAT, padding: 5, resetPeriod: 'monthly' },
+};
+
+/**
+ * Key of the numbering period `at` falls in, in the outlet's time zone:
+ * YYYYMMDD, YYYYMM, YYYY, or '' for a series that never resets. Keys of one
+ * series sort in time order.
+ */
+export function periodKey(resetPeriod: NumberingResetPeriod, at: Date, timeZone: string): string {
+  const compact = formatLocalDate(at, timeZone).replace(/-/g, '');
+  switch (resetPeriod) {
+    case 'daily':
+      return compact;
+    case 'monthly':
+      return compact.slice(0, 6);
+    case 'yearly':
+      return compact.slice(0, 4);
+    default:
+      return '';
+  }
+}
+
+/** First instant of the period after the one `at` falls in; null for a series that never resets */
+export function periodEnd(
+  resetPeriod: NumberingResetPeriod,
+  at: Date,
+  timeZone: string,
+): Date | null {
+  const [year, month, day] = formatLocalDate(at, timeZone).split('-').map(Number);
+  let next: Date;
+  switch (resetPeriod) {
+    case 'daily':
+      next = new Date(Date.UTC(year, month - 1, day + 1));
+      break;
+    case 'monthly':
+      next = new Date(Date.UTC(year, month, 1));
+      break;
+    case 'yearly':
+      next = new Date(Date.UTC(year + 1, 0, 1));
+      break;
+    default:
+      return null;
+  }
+  return fromWallClock(next, timeZone);
+}
+
+export interface DocumentNumberParts {
+  prefix: string;
+  outletCode: string;
+  sequence: number;
+  padding: number;
+  /** Local date of issue, YYYY-MM-DD */
+  localDate: string;
+}
+
+export function formatDocumentNumber(format: string, parts: DocumentNumberParts): string {
+  const [year, month, day] = parts.localDate.split('-');
+  const values: Record<(typeof NUMBERING_FORMAT_TOKENS)[number], string> = {
+    prefix: parts.prefix,
+    outlet: parts.outletCode,
+    YYYY: year,
+    YY: year.slice(2),
+    MM: month,
+    DD: day,
+    seq: String(parts.sequence).padStart(parts.padding, '0'),
+  };
+  return format.replace(/\{(\w+)\}/g, (token, name: string) =>
+    name in values ? values[name as keyof typeof values] : token,
+  );
+}
+
+/**
+ * Checks a series format. Numbers are unique across all outlets and document
+ * types, so the format has to carry the outlet code, the prefix and the
+ * sequence, plus the date parts of the reset period: a monthly series without
+ * {MM} would print the same numbers again every month.
+ */
+export function validateNumberingFormat(
+  format: string,
+  resetPeriod: NumberingResetPeriod,
+): string | null {
+  const tokens = [...format.matchAll(/\{(\w+)\}/g)].map((m) => m[1]);
+  const unknown = tokens.find((t) => !(NUMBERING_FORMAT_TOKENS as readonly string[]).includes(t));
+  if (unknown) return `Unknown token {${unknown}} in the number format`;
+  if (!tokens.includes('seq')) return 'The number format needs a {seq} token';
+  if (!tokens.includes('outlet')) return 'The number format needs an {outlet} token';
+  if (!tokens.includes('prefix')) return 'The number format needs a {prefix} token';
+
+  const required: Record<NumberingResetPeriod, string[]> = {
+    never: [],
+    yearly: ['year'],
+    monthly: ['year', 'MM'],
+    daily: ['year', 'MM', 'DD'],
+  };
+  const hasYear = tokens.includes('YYYY') || tokens.includes('YY');
+  const missing = required[resetPeriod].filter((part) =>
+    part === 'year' ? !hasYear : !tokens.includes(part),
+  );
+  if (missing.length > 0) {
+    const names = missing.map((part) => (part === 'year' ? '{YYYY} or {YY}' : `{${part}}`));
+    return `A ${resetPeriod} series needs ${names.join(', ')} in the number format`;
+  }
+  return null;
+}
+
+/** Collapses ascending sequences into runs, e.g. 3,4,5,9 → 3-5, 9-9 */
+export function toRanges(sequences: number[]): Array<{ from: number; to: number }> {
+  const ranges: Array<{ from: number; to: number }> = [];
+  for (const sequence of sequences) {
+    const last = ranges[ranges.length - 1];
+    if (last && sequence === last.to + 1) {
+      last.to = sequence;
+    } else {
+      ranges.push({ from: sequence, to: sequence });
+    }
+  }
+  return ranges;
+}
+
+/** Sequences from 1 to `upTo` that are not in `present` (ascending, distinct) */
+export function missingRanges(
+  present: number[],
+  upTo: number,
+): Array<{ from: number; to: number }> {
+  const gaps: Array<{ from: number; to: number }> = [];
+  let expected = 1;
+  for (const sequence of present) {
+    if (sequence > expected) gaps.push({ from: expected, to: sequence - 1 });
+    expected = Math.max(expected, sequence + 1);
+  }
+  if (upTo >= expected) gaps.push({ from: expected, to: upTo });
+  return gaps;
+}
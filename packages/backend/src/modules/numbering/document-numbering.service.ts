@@ -0,0 +1,600 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import type {
+  DocumentNumberStatus,
+  DocumentType,
+  NumberBlockStatus,
+  NumberingSeries,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type {
+  NumberBlockQueryDto,
+  ReserveNumberBlockDto,
+  SequenceIntegrityQueryDto,
+  UpdateNumberingSeriesDto,
+} from '../../application/dtos/numbering.dto';
+import {
+  formatLocalDate,
+  fromWallClock,
+  resolveTimeZone,
+} from '../reports/scheduled/report-schedule.util';
+import {
+  DEFAULT_SERIES,
+  MAX_DOCUMENT_NUMBER_LENGTH,
+  formatDocumentNumber,
+  missingRanges,
+  periodEnd,
+  periodKey,
+  toRanges,
+  validateNumberingFormat,
+} from './document-number.util';
+
+export const DOCUMENT_TYPES: DocumentType[] = ['sale', 'refund', 'void', 'credit_note'];
+
+/** Offline blocks lapse after this even when the series does not reset sooner */
+const MAX_BLOCK_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AllocateDocumentNumberInput {
+  outletId: string;
+  documentType: DocumentType;
+  /** Transaction the number is printed on */
+  documentId: string;
+  /** When the document was issued; offline sales pass the time on the device */
+  issuedAt?: Date;
+  /** Offline sale: the device that printed `reservedNumber` from one of its blocks */
+  deviceId?: string;
+  reservedNumber?: string;
+}
+
+interface OutletNumbering {
+  id: string;
+  code: string;
+  timeZone: string;
+}
+
+type NumberRange = { from: number; to: number };
+
+/**
+ * DocumentNumberingService - Gap-free document numbers per outlet
+ *
+ * Every outlet has one series per document type (sale, refund, void, credit
+ * note). A number is taken inside the database transaction that writes the
+ * document: the series row stays locked until that transaction commits, and
+ * a rollback gives the number back, so committed numbers never skip.
+ *
+ * Devices that go offline reserve a block of numbers up front and print
+ * them on offline sales; the sync push hands the printed number back and it
+ * is claimed instead of taking a new one. Block numbers a device never used
+ * are marked unused when the block is released or lapses, so the integrity
+ * report can tell them apart from numbers that went missing.
+ */
+@Injectable()
+export class DocumentNumberingService {
+  private readonly logger = new Logger(DocumentNumberingService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==========================================================================
+  // Allocation
+  // ==========================================================================
+
+  /** Takes the next number of the outlet's series; call inside the document's transaction */
+  async allocate(
+    tx: Prisma.TransactionClient,
+    input: AllocateDocumentNumberInput,
+  ): Promise<string> {
+    const issuedAt = input.issuedAt ?? new Date();
+
+    if (input.deviceId && input.reservedNumber) {
+      const claimed = await this.claimReserved(tx, input, issuedAt);
+      if (claimed) return claimed;
+      this.logger.warn(
+        `Offline number ${input.reservedNumber} is not reserved for device ${input.deviceId}, issuing a new one`,
+      );
+    }
+
+    const outlet = await this.loadOutlet(tx, input.outletId);
+    const series = await this.loadSeries(tx, outlet.id, input.documentType);
+    const now = new Date();
+    const period = periodKey(series.resetPeriod, now, outlet.timeZone);
+    const sequence = await this.advance(tx, series, period, 1);
+    const number = this.render(series, outlet, sequence, now);
+
+    await tx.documentNumber.create({
+      data: {
+        seriesId: series.id,
+        period,
+        sequence,
+        number,
+        status: 'issued',
+        documentId: input.documentId,
+        issuedAt,
+      },
+    });
+    return number;
+  }
+
+  /** Issues a number the device printed from one of its blocks, if it is still open */
+  private async claimReserved(
+    tx: Prisma.TransactionClient,
+    input: AllocateDocumentNumberInput,
+    issuedAt: Date,
+  ): Promise<string | null> {
+    const reserved = await tx.documentNumber.findUnique({
+      where: { number: input.reservedNumber! },
+      include: {
+        block: { select: { deviceId: true } },
+        series: { select: { outletId: true, documentType: true } },
+      },
+    });
+    if (
+      !reserved ||
+      reserved.block?.deviceId !== input.deviceId ||
+      reserved.series.outletId !== input.outletId ||
+      reserved.series.documentType !== input.documentType
+    ) {
+      return null;
+    }
+
+    // Unused numbers of a lapsed block can still be claimed: the sale was
+    // printed while the block was valid and only synced afterwards
+    const claimed = await tx.documentNumber.updateMany({
+      where: { id: reserved.id, status: { in: ['reserved', 'unused'] } },
+      data: { status: 'issued', documentId: input.documentId, issuedAt },
+    });
+    return claimed.count === 1 ? reserved.number : null;
+  }
+
+  // ==========================================================================
+  // Series
+  // ==========================================================================
+
+  /** The outlet's series for every document type, with the number issued next */
+  async listSeries(businessId: string, outletId: string) {
+    const outlet = await this.loadBusinessOutlet(businessId, outletId);
+    const existing = await this.prisma.numberingSeries.findMany({ where: { outletId } });
+    const now = new Date();
+
+    return DOCUMENT_TYPES.map((documentType) => {
+      const series = existing.find((s) => s.documentType === documentType) ?? {
+        id: null,
+        outletId,
+        documentType,
+        ...DEFAULT_SERIES[documentType],
+        currentPeriod: '',
+        lastNumber: 0,
+      };
+      const period = periodKey(series.resetPeriod, now, outlet.timeZone);
+      const next = series.currentPeriod === period ? series.lastNumber + 1 : 1;
+      return {
+        ...series,
+        nextNumber: this.render(series, outlet, next, now),
+      };
+    });
+  }
+
+  /**
+   * Changes the prefix, format or padding of a series; numbers keep counting.
+   * The reset period is fixed once the series has issued a number, since
+   * restarting mid-period would repeat numbers.
+   */
+  async updateSeries(businessId: string, dto: UpdateNumberingSeriesDto) {
+    const outlet = await this.loadBusinessOutlet(businessId, dto.outletId);
+    const current = await this.prisma.numberingSeries.findUnique({
+      where: { outletId_documentType: { outletId: outlet.id, documentType: dto.documentType } },
+    });
+    const next = {
+      ...DEFAULT_SERIES[dto.documentType],
+      ...(current && {
+        prefix: current.prefix,
+        format: current.format,
+        padding: current.padding,
+        resetPeriod: current.resetPeriod,
+      }),
+      ...(dto.prefix !== undefined && { prefix: dto.prefix }),
+      ...(dto.format !== undefined && { format: dto.format }),
+      ...(dto.padding !== undefined && { padding: dto.padding }),
+      ...(dto.resetPeriod !== undefined && { resetPeriod: dto.resetPeriod }),
+    };
+
+    const problem = validateNumberingFormat(next.format, next.resetPeriod);
+    if (problem) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, problem);
+    }
+    // Two document types sharing a prefix would print the same numbers
+    const others = await this.prisma.numberingSeries.findMany({
+      where: { outletId: outlet.id, documentType: { not: dto.documentType } },
+      select: { documentType: true, prefix: true },
+    });
+    const clash = DOCUMENT_TYPES.filter((type) => type !== dto.documentType).find((type) => {
+      const prefix =
+        others.find((s) => s.documentType === type)?.prefix ?? DEFAULT_SERIES[type].prefix;
+      return prefix.toUpperCase() === next.prefix.toUpperCase();
+    });
+    if (clash) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        `Prefix "${next.prefix}" is already used by the ${clash} series of this outlet`,
+      );
+    }
+    const sample = this.render(next, outlet, 10 ** next.padding - 1, new Date());
+    if (sample.length > MAX_DOCUMENT_NUMBER_LENGTH) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        `Numbers would be ${sample.length} characters long, at most ${MAX_DOCUMENT_NUMBER_LENGTH} fit`,
+      );
+    }
+    if (current && current.lastNumber > 0 && next.resetPeriod !== current.resetPeriod) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'The reset period cannot change once the series has issued numbers',
+      );
+    }
+
+    return this.prisma.numberingSeries.upsert({
+      where: { outletId_documentType: { outletId: outlet.id, documentType: dto.documentType } },
+      create: { outletId: outlet.id, documentType: dto.documentType, ...next },
+      update: next,
+    });
+  }
+
+  // ==========================================================================
+  // Offline blocks
+  // ==========================================================================
+
+  /** Reserves the next `size` numbers of a series for a device about to work offline */
+  async reserveBlock(dto: ReserveNumberBlockDto, user: AuthUser) {
+    const outlet = await this.loadBusinessOutlet(user.businessId, dto.outletId);
+    const device = await this.prisma.device.findFirst({
+      where: { id: dto.deviceId, businessId: user.businessId, isActive: true },
+      select: { id: true, outletId: true },
+    });
+    if (!device) {
+      throw new BusinessError(ErrorCode.DEVICE_NOT_REGISTERED, 'Device not registered');
+    }
+    if (device.outletId && device.outletId !== outlet.id) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Device belongs to another outlet');
+    }
+
+    const documentType = dto.documentType ?? 'sale';
+    const size = dto.size ?? 100;
+
+    return this.prisma.$transaction(async (tx) => {
+      const series = await this.loadSeries(tx, outlet.id, documentType);
+      const now = new Date();
+      const period = periodKey(series.resetPeriod, now, outlet.timeZone);
+      const first = await this.advance(tx, series, period, size);
+
+      const lifetimeEnd = new Date(now.getTime() + MAX_BLOCK_LIFETIME_MS);
+      const end = periodEnd(series.resetPeriod, now, outlet.timeZone);
+      const block = await tx.numberBlock.create({
+        data: {
+          seriesId: series.id,
+          deviceId: device.id,
+          period,
+          startSequence: first,
+          endSequence: first + size - 1,
+          expiresAt: end && end < lifetimeEnd ? end : lifetimeEnd,
+          createdBy: user.employeeId,
+        },
+      });
+
+      const numbers = Array.from({ length: size }, (_, i) => ({
+        sequence: first + i,
+        number: this.render(series, outlet, first + i, now),
+      }));
+      await tx.documentNumber.createMany({
+        data: numbers.map((n) => ({
+          seriesId: series.id,
+          period,
+          sequence: n.sequence,
+          number: n.number,
+          status: 'reserved' as const,
+          blockId: block.id,
+        })),
+      });
+
+      return { ...block, documentType, numbers: numbers.map((n) => n.number) };
+    });
+  }
+
+  async listBlocks(businessId: string, query: NumberBlockQueryDto) {
+    await this.loadBusinessOutlet(businessId, query.outletId);
+    const blocks = await this.prisma.numberBlock.findMany({
+      where: {
+        series: { outletId: query.outletId },
+        ...(query.deviceId && { deviceId: query.deviceId }),
+        ...(query.status && { status: query.status }),
+      },
+      include: {
+        series: { select: { documentType: true } },
+        device: { select: { deviceName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    const counts = blocks.length
+      ? await this.prisma.documentNumber.groupBy({
+          by: ['blockId', 'status'],
+          where: { blockId: { in: blocks.map((b) => b.id) } },
+          _count: { _all: true },
+        })
+      : [];
+    const count = (blockId: string, status: DocumentNumberStatus) =>
+      counts.find((c) => c.blockId === blockId && c.status === status)?._count._all ?? 0;
+
+    return blocks.map(({ series, device, ...block }) => ({
+      ...block,
+      documentType: series.documentType,
+      deviceName: device.deviceName,
+      issued: count(block.id, 'issued'),
+      reserved: count(block.id, 'reserved'),
+      unused: count(block.id, 'unused'),
+    }));
+  }
+
+  /** Hands back the numbers of a block the device no longer needs */
+  async releaseBlock(businessId: string, id: string) {
+    const block = await this.prisma.numberBlock.findFirst({
+      where: { id, series: { outlet: { businessId } } },
+    });
+    if (!block) {
+      throw new BusinessError(ErrorCode.NUMBER_BLOCK_NOT_FOUND, 'Number block not found');
+    }
+    if (block.status === 'active') {
+      await this.closeBlock(block.id, 'released');
+    }
+    return this.prisma.numberBlock.findUniqueOrThrow({ where: { id: block.id } });
+  }
+
+  /** Closes active blocks past their expiry; run by the scheduler */
+  async expireBlocks(now: Date = new Date()): Promise<number> {
+    const lapsed = await this.prisma.numberBlock.findMany({
+      where: { status: 'active', expiresAt: { lt: now } },
+      select: { id: true },
+    });
+    for (const block of lapsed) {
+      await this.closeBlock(block.id, 'expired');
+    }
+    return lapsed.length;
+  }
+
+  private async closeBlock(blockId: string, status: NumberBlockStatus): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.numberBlock.updateMany({
+        where: { id: blockId, status: 'active' },
+        data: { status, closedAt: new Date() },
+      }),
+      this.prisma.documentNumber.updateMany({
+        where: { blockId, status: 'reserved' },
+        data: { status: 'unused' },
+      }),
+    ]);
+  }
+
+  // ==========================================================================
+  // Sequence integrity
+  // ==========================================================================
+
+  /**
+   * Checks every period of the outlet's series in the date range for
+   * sequences that were never recorded (missing), numbers a device reserved
+   * but never used (unused), numbers still held by an open block (reserved),
+   * and issued numbers whose document no longer exists.
+   */
+  async integrityReport(businessId: string, query: SequenceIntegrityQueryDto) {
+    const outlet = await this.loadBusinessOutlet(businessId, query.outletId);
+    const seriesList = await this.prisma.numberingSeries.findMany({
+      where: {
+        outletId: outlet.id,
+        ...(query.documentType && { documentType: query.documentType }),
+      },
+      orderBy: { documentType: 'asc' },
+    });
+    const localStart = (date: string) =>
+      fromWallClock(new Date(`${date}T00:00:00.000Z`), outlet.timeZone);
+
+    const series = [];
+    for (const s of seriesList) {
+      const fromKey = query.from
+        ? periodKey(s.resetPeriod, localStart(query.from), outlet.timeZone)
+        : undefined;
+      const toKey = query.to
+        ? periodKey(s.resetPeriod, localStart(query.to), outlet.timeZone)
+        : undefined;
+      const rows = await this.prisma.documentNumber.findMany({
+        where: {
+          seriesId: s.id,
+          ...((fromKey !== undefined || toKey !== undefined) && {
+            period: {
+              ...(fromKey !== undefined && { gte: fromKey }),
+              ...(toKey !== undefined && { lte: toKey }),
+            },
+          }),
+        },
+        select: { period: true, sequence: true, status: true, documentId: true },
+        orderBy: [{ period: 'asc' }, { sequence: 'asc' }],
+      });
+
+      const documentIds = [
+        ...new Set(rows.map((r) => r.documentId).filter((id): id is string => !!id)),
+      ];
+      const existing = new Set(
+        documentIds.length
+          ? (
+              await this.prisma.transaction.findMany({
+                where: { id: { in: documentIds } },
+                select: { id: true },
+              })
+            ).map((t) => t.id)
+          : [],
+      );
+
+      const byPeriod = new Map<string, typeof rows>();
+      for (const row of rows) {
+        byPeriod.set(row.period, [...(byPeriod.get(row.period) ?? []), row]);
+      }
+      // A current period whose rows are all gone still has to show up
+      const currentInRange =
+        (fromKey === undefined || s.currentPeriod >= fromKey) &&
+        (toKey === undefined || s.currentPeriod <= toKey);
+      if (s.lastNumber > 0 && currentInRange && !byPeriod.has(s.currentPeriod)) {
+        byPeriod.set(s.currentPeriod, []);
+      }
+
+      const periods = [...byPeriod.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period, periodRows]) => {
+          const sequences = periodRows.map((r) => r.sequence);
+          // Trailing gaps are only visible against the counter of the current period
+          const last =
+            period === s.currentPeriod ? s.lastNumber : (sequences[sequences.length - 1] ?? 0);
+          const withStatus = (status: DocumentNumberStatus) =>
+            toRanges(periodRows.filter((r) => r.status === status).map((r) => r.sequence));
+          return {
+            period,
+            first: 1,
+            last,
+            issued: periodRows.filter((r) => r.status === 'issued').length,
+            missing: missingRanges(sequences, last),
+            unused: withStatus('unused'),
+            reserved: withStatus('reserved'),
+            documentsMissing: periodRows
+              .filter(
+                (r) => r.status === 'issued' && (!r.documentId || !existing.has(r.documentId)),
+              )
+              .map((r) => r.sequence),
+          };
+        });
+
+      const count = (ranges: NumberRange[]) => ranges.reduce((n, r) => n + r.to - r.from + 1, 0);
+      series.push({
+        documentType: s.documentType,
+        resetPeriod: s.resetPeriod,
+        periods,
+        missingCount: periods.reduce((n, p) => n + count(p.missing), 0),
+        unusedCount: periods.reduce((n, p) => n + count(p.unused), 0),
+        documentsMissingCount: periods.reduce((n, p) => n + p.documentsMissing.length, 0),
+      });
+    }
+
+    return {
+      outletId: outlet.id,
+      from: query.from ?? null,
+      to: query.to ?? null,
+      generatedAt: new Date(),
+      // Unused block numbers are accounted for; anything else is a real gap
+      hasGaps: series.some((s) => s.missingCount > 0 || s.documentsMissingCount > 0),
+      series,
+    };
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private async loadBusinessOutlet(businessId: string, outletId: string): Promise<OutletNumbering> {
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: outletId, businessId },
+      select: { id: true, code: true, timezone: true },
+    });
+    if (!outlet) {
+      throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+    }
+    return this.toOutletNumbering(outlet);
+  }
+
+  private async loadOutlet(
+    tx: Prisma.TransactionClient,
+    outletId: string,
+  ): Promise<OutletNumbering> {
+    const outlet = await tx.outlet.findUnique({
+      where: { id: outletId },
+      select: { id: true, code: true, timezone: true },
+    });
+    if (!outlet) {
+      throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+    }
+    return this.toOutletNumbering(outlet);
+  }
+
+  private toOutletNumbering(outlet: {
+    id: string;
+    code: string | null;
+    timezone: string | null;
+  }): OutletNumbering {
+    return {
+      id: outlet.id,
+      // Outlet codes are unique; the id prefix stands in until one is set
+      code: outlet.code ?? outlet.id.slice(0, 8).toUpperCase(),
+      timeZone: resolveTimeZone(outlet.timezone),
+    };
+  }
+
+  /** The outlet's series for a document type, created with the defaults on first use */
+  private async loadSeries(
+    tx: Prisma.TransactionClient,
+    outletId: string,
+    documentType: DocumentType,
+  ): Promise<NumberingSeries> {
+    await tx.numberingSeries.createMany({
+      data: [{ outletId, documentType, ...DEFAULT_SERIES[documentType] }],
+      skipDuplicates: true,
+    });
+    return tx.numberingSeries.findUniqueOrThrow({
+      where: { outletId_documentType: { outletId, documentType } },
+    });
+  }
+
+  /**
+   * Moves the series counter on by `count` and returns the first sequence
+   * taken. The increment locks the series row until the caller's transaction
+   * ends, which is what keeps concurrent documents in order without gaps.
+   */
+  private async advance(
+    tx: Prisma.TransactionClient,
+    series: NumberingSeries,
+    period: string,
+    count: number,
+  ): Promise<number> {
+    if (series.currentPeriod !== period) {
+      // Compare-and-set: only the first document of a new period resets the counter
+      await tx.numberingSeries.updateMany({
+        where: { id: series.id, currentPeriod: series.currentPeriod },
+        data: { currentPeriod: period, lastNumber: 0 },
+      });
+    }
+    const updated = await tx.numberingSeries.update({
+      where: { id: series.id },
+      data: { lastNumber: { increment: count } },
+    });
+    if (updated.currentPeriod !== period) {
+      throw new AppError(
+        ErrorCode.CONFLICT,
+        'Numbering period changed while issuing, please try again',
+        HttpStatus.CONFLICT,
+      );
+    }
+    return updated.lastNumber - count + 1;
+  }
+
+  private render(
+    series: Pick<NumberingSeries, 'prefix' | 'format' | 'padding'>,
+    outlet: OutletNumbering,
+    sequence: number,
+    at: Date,
+  ): string {
+    return formatDocumentNumber(series.format, {
+      prefix: series.prefix,
+      outletCode: outlet.code,
+      sequence,
+      padding: series.padding,
+      localDate: formatLocalDate(at, outlet.timeZone),
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  NumberBlockQueryDto,
+  NumberingSeriesQueryDto,
+  ReserveNumberBlockDto,
+  SequenceIntegrityQueryDto,
+  UpdateNumberingSeriesDto,
+} from '../../application/dtos/numbering.dto';
+import { DocumentNumberingService } from './document-numbering.service';
+
+@ApiTags('Document Numbering')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('numbering')
+export class NumberingController {
+  constructor(private readonly numberingService: DocumentNumberingService) {}
+
+  // ==================== Series ====================
+
+  @Get('series')
+  @RequirePermission('numbering.view')
+  @ApiOperation({ summary: 'Numbering series of an outlet with the next number of each' })
+  async listSeries(@Query() query: NumberingSeriesQueryDto, @CurrentUser() user: AuthUser) {
+    return this.numberingService.listSeries(user.businessId, query.outletId);
+  }
+
+  @Put('series')
+  @RequirePermission('numbering.manage')
+  @ApiOperation({ summary: 'Set the prefix, format, padding or reset period of a series' })
+  async updateSeries(@Body() dto: UpdateNumberingSeriesDto, @CurrentUser() user: AuthUser) {
+    return this.numberingService.updateSeries(user.businessId, dto);
+  }
+
+  // ==================== Offline blocks ====================
+
+  @Get('blocks')
+  @RequirePermission('numbering.view')
+  async listBlocks(@Query() query: NumberBlockQueryDto, @CurrentUser() user: AuthUser) {
+    return this.numberingService.listBlocks(user.businessId, query);
+  }
+
+  @Post('blocks')
+  @RequirePermission('numbering.blocks.reserve')
+  @ApiOperation({ summary: 'Reserve a block of numbers for a device going offline' })
+  async reserveBlock(@Body() dto: ReserveNumberBlockDto, @CurrentUser() user: AuthUser) {
+    return this.numberingService.reserveBlock(dto, user);
+  }
+
+  @Post('blocks/:id/release')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('numbering.blocks.reserve')
+  @ApiOperation({ summary: 'Hand back the numbers of a block the device did not use' })
+  async releaseBlock(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.numberingService.releaseBlock(user.businessId, id);
+  }
+
+  // ==================== Integrity ====================
+
+  @Get('integrity')
+  @RequirePermission('numbering.integrity.view')
+  @ApiOperation({ summary: 'Sequence-integrity report: missing, unused and reserved numbers' })
+  async integrity(@Query() query: SequenceIntegrityQueryDto, @CurrentUser() user: AuthUser) {
+    return this.numberingService.integrityReport(user.businessId, query);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { NumberingController } from './numbering.controller';
+import { DocumentNumberingService } from './document-numbering.service';
+import { NumberingScheduler } from './numbering.scheduler';
+
+@Module({
+  controllers: [NumberingController],
+  providers: [DocumentNumberingService, NumberingScheduler],
+  exports: [DocumentNumberingService],
+})
+export class NumberingModule {}
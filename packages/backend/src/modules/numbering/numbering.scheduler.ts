@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DocumentNumberingService } from './document-numbering.service';
+
+/**
+ * Numbering Scheduler
+ *
+ * Closes offline number blocks past their expiry every hour, so the numbers
+ * a device never used show up as unused rather than reserved.
+ */
+@Injectable()
+export class NumberingScheduler {
+  private readonly logger = new Logger(NumberingScheduler.name);
+
+  constructor(private readonly numberingService: DocumentNumberingService) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleExpiredBlocks(): Promise<void> {
+    try {
+      const expired = await this.numberingService.expireBlocks();
+      if (expired > 0) {
+        this.logger.log(`Closed ${expired} expired number block(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Number block expiry failed: ${(error as Error).message}`);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Controller, Get, Post, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { WithoutPermission } from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
 import { OnboardingService } from './onboarding.service';
@@ -27,6 +28,7 @@ export class OnboardingController {
    * Also includes overall progress percentage (0-100) and completion timestamp.
    */
   @Get('progress')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get onboarding progress' })
   async getProgress(@CurrentUser() user: AuthUser): Promise<OnboardingProgressResponse> {
     return this.onboardingService.getProgress(user.businessId);
@@ -39,6 +41,7 @@ export class OnboardingController {
    * This allows users to hide the checklist if they prefer not to complete it.
    */
   @Post('dismiss')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Dismiss onboarding checklist' })
   async dismissChecklist(@CurrentUser() user: AuthUser) {
     return this.onboardingService.dismissChecklist(user.businessId);
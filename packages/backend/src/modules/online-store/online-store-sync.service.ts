@@ -1,5 +1,6 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { BinStockService } from '../warehouses/bin-stock.service';
 import { ShippingZone } from '../../application/dtos/online-store.dto';
 
 export interface SyncResult {
@@ -67,7 +68,10 @@ function resolveZone(origin: string, destination: string): ShippingZone {
 export class OnlineStoreSyncService {
   private readonly logger = new Logger(OnlineStoreSyncService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly binStock: BinStockService,
+  ) {}
 
   // ========================================================================
   // CATALOG SYNC
@@ -387,6 +391,12 @@ export class OnlineStoreSyncService {
           },
         },
       });
+      await this.binStock.trimToStockLevel(
+        this.prisma,
+        outletId,
+        item.productId,
+        item.variantId || null,
+      );
     }
 
     return true;
@@ -12,11 +12,13 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import type { IOnlineStoreRepository } from '../../domain/interfaces/repositories/online-store.repository';
 import { OnlineStoreSyncService } from './online-store-sync.service';
@@ -41,6 +43,7 @@ export class OnlineStoreController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Get('stores')
+  @WithoutPermission()
   @ApiOperation({ summary: 'List all online stores for business' })
   async listStores(@CurrentUser() user: AuthUser) {
     return this.onlineStoreRepo.findStoresByBusinessId(user.businessId);
@@ -49,6 +52,7 @@ export class OnlineStoreController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Post('stores')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Create a new online store' })
   async createStore(
     @Body() dto: { storeName: string; slug: string; description?: string },
@@ -63,6 +67,7 @@ export class OnlineStoreController {
   }
 
   @Get('s/:slug')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get public storefront' })
   async getStorefront(@Param('slug') slug: string) {
     const store = await this.onlineStoreRepo.findStoreBySlug(slug);
@@ -72,6 +77,7 @@ export class OnlineStoreController {
   }
 
   @Get('s/:slug/orders')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get store orders' })
   async getStoreOrders(@Param('slug') slug: string, @Query('status') status?: string) {
     const store = await this.onlineStoreRepo.findStoreBySlug(slug);
@@ -80,6 +86,7 @@ export class OnlineStoreController {
   }
 
   @Post('s/:slug/orders')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Create a new store order' })
   async createStoreOrder(
     @Param('slug') slug: string,
@@ -149,6 +156,7 @@ export class OnlineStoreController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Put('orders/:id/status')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Update order status' })
   async updateOrderStatus(@Param('id') id: string, @Body() dto: { status: string }) {
     return this.onlineStoreRepo.updateOrderStatus(id, dto.status);
@@ -161,6 +169,7 @@ export class OnlineStoreController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Post('stores/:id/sync-catalog')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Sync full product catalog from POS to online store' })
   async syncCatalog(@Param('id') storeId: string, @CurrentUser() user: AuthUser) {
     return this.syncService.syncCatalog(user.businessId, storeId);
@@ -169,6 +178,7 @@ export class OnlineStoreController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Post('catalog/sync')
+  @WithoutPermission()
   @ApiOperation({
     summary: 'Selectively sync products to online store with optional price overrides',
   })
@@ -188,6 +198,7 @@ export class OnlineStoreController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Post('stores/:id/sync-inventory')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Sync inventory levels from POS to online store' })
   async syncInventory(@Param('id') storeId: string, @Query('outletId') outletId: string) {
     return this.syncService.syncInventory(outletId, storeId);
@@ -198,6 +209,7 @@ export class OnlineStoreController {
   // ======================================================================
 
   @Get('stock-check')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Check product stock availability' })
   @ApiQuery({ name: 'productId', required: true })
   @ApiQuery({ name: 'variantId', required: false })
@@ -219,6 +231,7 @@ export class OnlineStoreController {
   }
 
   @Post('shipping/calculate')
+  @WithoutPermission()
   @ApiOperation({
     summary: 'Calculate shipping cost based on zone (same-city / inter-city / inter-province)',
   })
@@ -233,6 +246,7 @@ export class OnlineStoreController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Put('orders/:id/fulfill')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Mark order as fulfilled / shipped with tracking number' })
   async fulfillOrder(@Param('id') orderId: string, @Body() dto: OnlineOrderFulfillDto) {
     return this.syncService.fulfillOrder(
@@ -248,8 +262,8 @@ export class OnlineStoreController {
   // ======================================================================
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('online_store.manage')
   @Post('stores/:storeId/sync-catalog')
   @ApiOperation({
     summary: 'Sync catalog from main POS to online store with stock availability check',
@@ -263,8 +277,8 @@ export class OnlineStoreController {
   // ======================================================================
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('online_store.manage')
   @Get('stores/:storeId/analytics')
   @ApiOperation({ summary: 'Get store analytics: orders, revenue, popular products' })
   async getStoreAnalytics(@Param('storeId') storeId: string, @CurrentUser() user: AuthUser) {
@@ -276,8 +290,8 @@ export class OnlineStoreController {
   // ======================================================================
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER, EmployeeRole.INVENTORY)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('online_store.inventory.view')
   @Get('stores/:storeId/inventory')
   @ApiOperation({
     summary: 'Get inventory status for store products (in stock, low stock, out of stock)',
@@ -291,8 +305,8 @@ export class OnlineStoreController {
   // ======================================================================
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('online_store.manage')
   @Put('stores/:storeId/settings')
   @ApiOperation({ summary: 'Update store settings (delivery radius, min order, fees)' })
   async updateStoreSettings(
@@ -308,6 +322,7 @@ export class OnlineStoreController {
   // ======================================================================
 
   @Post('stores/:storeId/shipping/calculate')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Calculate shipping cost for an order' })
   async calculateStoreShipping(
     @Param('storeId') storeId: string,
@@ -317,6 +332,7 @@ export class OnlineStoreController {
   }
 
   @Get('stores/:storeId/delivery-zones')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get delivery zones for a store' })
   async getDeliveryZones(@Param('storeId') storeId: string) {
     return this.onlineStoreService.getDeliveryZones(storeId);
@@ -327,18 +343,21 @@ export class OnlineStoreController {
   // ======================================================================
 
   @Get('s/:slug/storefront')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get public storefront data (no auth)' })
   async getStorefrontData(@Param('slug') slug: string) {
     return this.onlineStoreService.getStorefrontData(slug);
   }
 
   @Get('s/:slug/products/:productId')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get public product detail (no auth)' })
   async getStorefrontProduct(@Param('slug') slug: string, @Param('productId') productId: string) {
     return this.onlineStoreService.getStorefrontProduct(slug, productId);
   }
 
   @Post('s/:slug/checkout')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Public checkout - place an order (no auth)' })
   async storefrontCheckout(@Param('slug') slug: string, @Body() dto: StorefrontOrderInput) {
     return this.onlineStoreService.createStorefrontOrder(slug, dto);
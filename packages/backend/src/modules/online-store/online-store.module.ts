@@ -5,8 +5,10 @@ import { PrismaOnlineStoreRepository } from '../../infrastructure/repositories/p
 import { OnlineStoreSyncService } from './online-store-sync.service';
 import { OnlineStoreService } from './online-store.service';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { WarehousesModule } from '../warehouses/warehouses.module';
 
 @Module({
+  imports: [WarehousesModule],
   controllers: [OnlineStoreController],
   providers: [
     { provide: REPOSITORY_TOKENS.ONLINE_STORE, useClass: PrismaOnlineStoreRepository },
@@ -837,9 +837,9 @@ export class OnlineStoreService {
 
     const subtotal = orderItems.reduce((sum, i) => sum + i.subtotal, 0);
 
-    // Get first outlet for the business as default fulfillment outlet
+    // Get first store of the business as default fulfillment outlet; warehouses do not sell
     const outlet = await this.prisma.outlet.findFirst({
-      where: { businessId: store.businessId, isActive: true },
+      where: { businessId: store.businessId, isActive: true, locationType: 'store' },
       select: { id: true },
     });
 
@@ -12,6 +12,11 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
 import { CreateOrderUseCase } from '../../application/use-cases/orders/create-order.use-case';
@@ -26,7 +31,7 @@ import { BusinessScoped } from '../../shared/guards/business-scope.guard';
 
 @ApiTags('Orders')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('orders')
 export class OrdersController {
   constructor(
@@ -40,6 +45,7 @@ export class OrdersController {
   ) {}
 
   @Post()
+  @RequirePermission('orders.manage')
   @ApiOperation({ summary: 'Create a new order' })
   async createOrder(
     @Body()
@@ -67,6 +73,7 @@ export class OrdersController {
   }
 
   @Get()
+  @WithoutPermission()
   @ApiOperation({ summary: 'List active orders for an outlet' })
   async listOrders(@Query('outletId') outletId: string) {
     return this.orderRepo.findActiveByOutletId(outletId);
@@ -74,6 +81,7 @@ export class OrdersController {
 
   @Get(':id')
   @BusinessScoped({ resource: 'order', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get order by ID' })
   async getOrder(@Param('id') id: string) {
     return this.orderRepo.findById(id);
@@ -81,6 +89,7 @@ export class OrdersController {
 
   @Put(':id/status')
   @BusinessScoped({ resource: 'order', param: 'id' })
+  @RequirePermission('orders.status')
   @ApiOperation({ summary: 'Update order status' })
   async updateStatus(
     @Param('id') id: string,
@@ -96,6 +105,7 @@ export class OrdersController {
 
   @Put(':id/items')
   @BusinessScoped({ resource: 'order', param: 'id' })
+  @RequirePermission('orders.manage')
   @ApiOperation({ summary: 'Modify order items (add/remove/update quantity)' })
   async modifyOrderItems(
     @Param('id') id: string,
@@ -118,6 +128,7 @@ export class OrdersController {
 
   @Put(':id/cancel')
   @BusinessScoped({ resource: 'order', param: 'id' })
+  @RequirePermission('orders.manage')
   @ApiOperation({ summary: 'Cancel an order with reason' })
   async cancelOrder(
     @Param('id') id: string,
@@ -129,6 +140,7 @@ export class OrdersController {
 
   @Put(':id')
   @BusinessScoped({ resource: 'order', param: 'id' })
+  @RequirePermission('orders.manage')
   @ApiOperation({ summary: 'Modify order (add/remove/update items)' })
   async modifyOrder(
     @Param('id') id: string,
@@ -161,6 +173,7 @@ export class OrdersController {
 
   @Put(':id/priority')
   @BusinessScoped({ resource: 'order', param: 'id' })
+  @RequirePermission('orders.manage')
   @ApiOperation({ summary: 'Set order priority (normal, urgent, vip)' })
   async setPriority(@Param('id') id: string, @Body() dto: { priority: OrderPriorityLevel }) {
     return this.ordersService.setPriority(id, dto.priority);
@@ -168,6 +181,7 @@ export class OrdersController {
 
   @Delete(':id')
   @BusinessScoped({ resource: 'order', param: 'id' })
+  @RequirePermission('orders.manage')
   @ApiOperation({ summary: 'Cancel order with reason' })
   async deleteOrder(
     @Param('id') id: string,
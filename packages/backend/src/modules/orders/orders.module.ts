@@ -44,6 +44,7 @@ import {
     OnlineStoreOrderService,
   ],
   exports: [
+    CreateOrderUseCase,
     SelfOrderService,
     OnlineStoreService,
     SelfOrderSessionService,
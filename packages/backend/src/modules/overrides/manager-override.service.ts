@@ -0,0 +1,380 @@
+import { BadRequestException, HttpStatus, Injectable } from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type { Permission } from '../../shared/constants/permissions';
+import { PermissionsService } from '../permissions/permissions.service';
+import { MfaService } from '../auth/mfa/mfa.service';
+import { appendAuditLog, queueAuditLog } from '../audit/audit-chain.util';
+import type {
+  ListOverridesQueryDto,
+  OverrideAction,
+  RequestOverrideDto,
+} from '../../application/dtos/manager-override.dto';
+
+/** Permission an employee needs to do the action without an approval, or to approve it */
+export const OVERRIDE_PERMISSIONS: Record<OverrideAction, Permission> = {
+  void: 'pos.void',
+  refund: 'pos.refund',
+  discount: 'pos.discount.above_20pct',
+  price_override: 'pos.price_override',
+  no_sale: 'pos.cash_drawer.no_sale',
+  kiosk_assist: 'kiosk.assist',
+  kiosk_card: 'kiosk.assist',
+};
+
+const APPROVAL_TTL_MS = 5 * 60 * 1000;
+
+/** Discount cap for employees without pos.discount.above_20pct */
+const UNAPPROVED_DISCOUNT_LIMIT_PERCENT = 20;
+
+// Compared against when the approver has no PIN, so a wrong approver
+// takes as long to reject as a wrong PIN
+const DUMMY_HASH = '$2b$10$abcdefghijklmnopqrstuuABCDEFGHIJKLMNOPQRSTUVWXYZ012';
+
+export interface ConsumeOverrideInput {
+  token: string;
+  action: OverrideAction;
+  outletId: string;
+  requestedBy: string;
+  /** What the approval was spent on: the transaction, or the shift for a no sale */
+  referenceId: string;
+}
+
+/** Fails fast when the action needs an approval the cashier has not brought */
+export function assertApprovalProvided(
+  action: OverrideAction,
+  required: boolean | undefined,
+  token: string | undefined,
+): void {
+  if (required && !token) {
+    throw new AppError(
+      ErrorCode.APPROVAL_REQUIRED,
+      `This ${action.replace('_', ' ')} needs a supervisor's approval`,
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * ManagerOverrideService - Supervisor approvals of restricted POS actions
+ *
+ * A cashier without the permission for a void, refund, large discount, price
+ * override or no-sale drawer open asks a supervisor to authorize it at the
+ * terminal with their PIN or authenticator code. The approval comes back as
+ * a short-lived token the use case redeems once, inside the transaction that
+ * performs the action. Approvals, refusals and redemptions are all written to
+ * the audit log with both employees.
+ */
+@Injectable()
+export class ManagerOverrideService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissions: PermissionsService,
+    private readonly mfa: MfaService,
+  ) {}
+
+  /** Whether the caller has to bring an approval for the action at the outlet */
+  async requiresApproval(user: AuthUser, action: OverrideAction, outletId: string | null) {
+    return !(await this.permissions.has(user, OVERRIDE_PERMISSIONS[action], outletId));
+  }
+
+  /**
+   * Discount cap and price-override rule for a sale the caller rings up at
+   * the outlet, in the shape CreateTransactionUseCase takes them
+   */
+  async saleRestrictions(user: AuthUser, outletId: string) {
+    return {
+      maxDiscountPercent: (await this.requiresApproval(user, 'discount', outletId))
+        ? UNAPPROVED_DISCOUNT_LIMIT_PERCENT
+        : undefined,
+      priceOverrideRequiresApproval: await this.requiresApproval(user, 'price_override', outletId),
+    };
+  }
+
+  /** Employees who can approve the action at the outlet, for the terminal's picker */
+  async approvers(user: AuthUser, action: OverrideAction, outletId?: string) {
+    const targetOutletId = this.targetOutlet(user, outletId);
+    const employees = await this.prisma.employee.findMany({
+      where: {
+        businessId: user.businessId,
+        isActive: true,
+        id: { not: user.employeeId },
+        OR: [{ pin: { not: null } }, { mfaEnabled: true }],
+      },
+      select: { id: true, name: true, role: true, outletId: true, mfaEnabled: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const approvers = [];
+    for (const employee of employees) {
+      if (await this.canApprove(employee, user.businessId, action, targetOutletId)) {
+        approvers.push({
+          id: employee.id,
+          name: employee.name,
+          role: employee.role,
+          hasAuthenticator: employee.mfaEnabled,
+        });
+      }
+    }
+    return approvers;
+  }
+
+  /** Verifies the approver's PIN or TOTP and issues a single-use approval token */
+  async approve(user: AuthUser, dto: RequestOverrideDto) {
+    const outletId = this.targetOutlet(user, dto.outletId);
+    if (!dto.pin === !dto.totpCode) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'Provide either the approver PIN or an authenticator code',
+      );
+    }
+    if (dto.approverId === user.employeeId) {
+      throw new AppError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        'Another employee has to approve your action',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: outletId, businessId: user.businessId },
+      select: { id: true },
+    });
+    if (!outlet) {
+      throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+    }
+
+    const approver = await this.prisma.employee.findFirst({
+      where: { id: dto.approverId, businessId: user.businessId, isActive: true },
+      select: { id: true, name: true, role: true, outletId: true, pin: true, mfaEnabled: true },
+    });
+    const method = dto.pin ? 'pin' : 'totp';
+
+    let verified = false;
+    if (dto.pin) {
+      verified = await bcrypt.compare(dto.pin, approver?.pin || DUMMY_HASH);
+    } else if (dto.totpCode && approver?.mfaEnabled) {
+      verified = await this.mfa.verifyToken(approver.id, dto.totpCode);
+    }
+
+    if (!approver || !verified) {
+      await this.audit(this.prisma, {
+        businessId: user.businessId,
+        outletId,
+        employeeId: user.employeeId,
+        action: 'manager_override_denied',
+        overrideId: null,
+        details: {
+          action: dto.action,
+          requestedBy: user.employeeId,
+          approverId: dto.approverId,
+          method,
+        },
+      });
+      throw new AppError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        'Invalid approver PIN or authenticator code',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    if (!(await this.canApprove(approver, user.businessId, dto.action, outletId))) {
+      throw new AppError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        `${approver.name} cannot approve a ${dto.action.replace('_', ' ')}`,
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + APPROVAL_TTL_MS);
+    const override = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.managerOverride.create({
+        data: {
+          businessId: user.businessId,
+          outletId,
+          action: dto.action,
+          requestedBy: user.employeeId,
+          approvedBy: approver.id,
+          method,
+          tokenHash: hashToken(token),
+          referenceId: dto.referenceId ?? null,
+          reason: dto.reason ?? null,
+          expiresAt,
+        },
+      });
+      await this.audit(tx, {
+        businessId: user.businessId,
+        outletId,
+        employeeId: user.employeeId,
+        action: 'manager_override_approved',
+        overrideId: created.id,
+        details: {
+          action: dto.action,
+          requestedBy: user.employeeId,
+          approvedBy: approver.id,
+          method,
+          referenceId: dto.referenceId ?? null,
+          reason: dto.reason ?? null,
+        },
+      });
+      return created;
+    });
+
+    return {
+      approvalToken: token,
+      overrideId: override.id,
+      action: dto.action,
+      approvedBy: { id: approver.id, name: approver.name },
+      expiresAt,
+    };
+  }
+
+  /**
+   * Redeems an approval token for the action. Call it inside the transaction
+   * that performs the action so a failed action leaves the approval unused.
+   */
+  async consume(
+    tx: Prisma.TransactionClient,
+    input: ConsumeOverrideInput,
+  ): Promise<{ overrideId: string; approvedBy: string }> {
+    const tokenHash = hashToken(input.token);
+    const now = new Date();
+
+    const { count } = await tx.managerOverride.updateMany({
+      where: {
+        tokenHash,
+        action: input.action,
+        outletId: input.outletId,
+        requestedBy: input.requestedBy,
+        usedAt: null,
+        expiresAt: { gt: now },
+        OR: [{ referenceId: null }, { referenceId: input.referenceId }],
+      },
+      data: { usedAt: now, referenceId: input.referenceId },
+    });
+    if (count === 0) {
+      throw new AppError(
+        ErrorCode.APPROVAL_INVALID,
+        'The approval is invalid, expired or already used',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const override = await tx.managerOverride.findUniqueOrThrow({ where: { tokenHash } });
+    await this.audit(tx, {
+      businessId: override.businessId,
+      outletId: input.outletId,
+      employeeId: input.requestedBy,
+      action: 'manager_override',
+      overrideId: override.id,
+      details: {
+        action: input.action,
+        requestedBy: input.requestedBy,
+        approvedBy: override.approvedBy,
+        method: override.method,
+        referenceId: input.referenceId,
+      },
+    });
+
+    return { overrideId: override.id, approvedBy: override.approvedBy };
+  }
+
+  async list(businessId: string, query: ListOverridesQueryDto) {
+    return this.prisma.managerOverride.findMany({
+      where: {
+        businessId,
+        ...(query.outletId && { outletId: query.outletId }),
+        ...(query.action && { action: query.action }),
+        ...(query.approvedBy && { approvedBy: query.approvedBy }),
+        ...((query.from || query.to) && {
+          createdAt: {
+            ...(query.from && { gte: new Date(query.from) }),
+            ...(query.to && { lte: new Date(query.to) }),
+          },
+        }),
+      },
+      select: {
+        id: true,
+        outletId: true,
+        action: true,
+        method: true,
+        referenceId: true,
+        reason: true,
+        expiresAt: true,
+        usedAt: true,
+        createdAt: true,
+        requester: { select: { id: true, name: true } },
+        approver: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? 50,
+    });
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private targetOutlet(user: AuthUser, outletId?: string): string {
+    const target = outletId ?? user.outletId;
+    if (!target) {
+      throw new BadRequestException('Outlet ID is required');
+    }
+    return target;
+  }
+
+  private canApprove(
+    employee: { id: string; role: string; outletId: string | null },
+    businessId: string,
+    action: OverrideAction,
+    outletId: string,
+  ): Promise<boolean> {
+    return this.permissions.has(
+      { employeeId: employee.id, businessId, outletId: employee.outletId, role: employee.role },
+      OVERRIDE_PERMISSIONS[action],
+      outletId,
+    );
+  }
+
+  /**
+   * Audit entries carry the requesting cashier as the actor and the approver
+   * in the details. Inside a transaction they are queued for the chain.
+   */
+  private async audit(
+    db: PrismaService | Prisma.TransactionClient,
+    entry: {
+      businessId: string;
+      outletId: string;
+      employeeId: string;
+      action: string;
+      overrideId: string | null;
+      details: Prisma.InputJsonObject;
+    },
+  ): Promise<void> {
+    const log = {
+      businessId: entry.businessId,
+      outletId: entry.outletId,
+      employeeId: entry.employeeId,
+      action: entry.action,
+      entityType: 'manager_override',
+      entityId: entry.overrideId,
+      newValue: entry.details,
+    };
+    if ('$transaction' in db) {
+      await appendAuditLog(db, log);
+    } else {
+      await queueAuditLog(db, log);
+    }
+  }
+}
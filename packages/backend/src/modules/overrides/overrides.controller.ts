@@ -0,0 +1,44 @@
+import { Controller, Get, Post, Body, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  ListOverridesQueryDto,
+  OverrideApproversQueryDto,
+  RequestOverrideDto,
+} from '../../application/dtos/manager-override.dto';
+import { ManagerOverrideService } from './manager-override.service';
+
+@ApiTags('POS Overrides')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('pos/overrides')
+export class OverridesController {
+  constructor(private readonly overrides: ManagerOverrideService) {}
+
+  @Get('approvers')
+  @RequirePermission('pos.sale')
+  @ApiOperation({ summary: 'Employees who can approve the action at the outlet' })
+  async approvers(@Query() query: OverrideApproversQueryDto, @CurrentUser() user: AuthUser) {
+    return this.overrides.approvers(user, query.action, query.outletId);
+  }
+
+  @Post()
+  @RequirePermission('pos.sale')
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Authorize a restricted action with a supervisor PIN or TOTP' })
+  async approve(@Body() dto: RequestOverrideDto, @CurrentUser() user: AuthUser) {
+    return this.overrides.approve(user, dto);
+  }
+
+  @Get()
+  @RequirePermission('audit.view')
+  @ApiOperation({ summary: 'Override history with the requesting and approving employees' })
+  async list(@Query() query: ListOverridesQueryDto, @CurrentUser() user: AuthUser) {
+    return this.overrides.list(user.businessId, query);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { OverridesController } from './overrides.controller';
+import { ManagerOverrideService } from './manager-override.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [OverridesController],
+  providers: [ManagerOverrideService],
+  exports: [ManagerOverrideService],
+})
+export class OverridesModule {}
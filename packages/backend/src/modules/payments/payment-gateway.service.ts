@@ -529,6 +529,9 @@ export class PaymentGatewayService {
       linkaja: 'linkaja',
       bank_transfer: 'bca', // Default to BCA
       credit_note: 'credit_note',
+      gift_card: 'gift_card',
+      wallet: 'wallet',
+      reservation_deposit: 'reservation_deposit',
     };
     return methodMap[method] || method;
   }
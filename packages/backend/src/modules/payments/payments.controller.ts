@@ -10,6 +10,7 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiHeader } from '@nestjs/swagger';
 import { Request } from 'express';
+import { WithoutPermission } from '../../infrastructure/auth/require-permission.decorator';
 import { HandleMidtransWebhookUseCase } from '../../application/use-cases/payments/handle-midtrans-webhook.use-case';
 import { HandleXenditWebhookUseCase } from '../../application/use-cases/payments/handle-xendit-webhook.use-case';
 import { MidtransWebhookDto } from '../../application/dtos/midtrans-webhook.dto';
@@ -17,6 +18,7 @@ import { XenditWebhookDto } from '../../application/dtos/xendit-webhook.dto';
 import { WebhookGuard } from '../../shared/guards/webhook.guard';
 
 @ApiTags('Payments')
+@WithoutPermission()
 @Controller('payments')
 export class PaymentsWebhookController {
   private readonly logger = new Logger(PaymentsWebhookController.name);
@@ -0,0 +1,127 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  CreateRoleDto,
+  CUSTOMISABLE_ROLES,
+  EffectivePermissionsQueryDto,
+  SetEmployeeRolesDto,
+  UpdateBuiltInRoleDto,
+  UpdateRoleDto,
+} from '../../application/dtos/permissions.dto';
+import { PermissionsService } from './permissions.service';
+
+@ApiTags('Permissions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('permissions')
+export class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  @Get('me')
+  @WithoutPermission()
+  @ApiOperation({ summary: 'Permissions of the current user at an outlet' })
+  async me(@Query() query: EffectivePermissionsQueryDto, @CurrentUser() user: AuthUser) {
+    return this.permissionsService.effective(user, query.outletId);
+  }
+
+  @Get('matrix')
+  @RequirePermission('roles.manage')
+  @ApiOperation({ summary: 'Permission catalog against every built-in and custom role' })
+  async matrix(@CurrentUser() user: AuthUser) {
+    return this.permissionsService.matrix(user.businessId);
+  }
+
+  // ==================== Built-in roles ====================
+
+  @Put('built-in/:role')
+  @RequirePermission('roles.manage')
+  @ApiOperation({ summary: 'Set the permissions of a built-in role for this business' })
+  async updateBuiltInRole(
+    @Param('role', new ParseEnumPipe(CUSTOMISABLE_ROLES)) role: string,
+    @Body() dto: UpdateBuiltInRoleDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.permissionsService.updateBuiltInRole(user, role, dto.permissions);
+  }
+
+  @Delete('built-in/:role')
+  @RequirePermission('roles.manage')
+  @ApiOperation({ summary: 'Restore the default permissions of a built-in role' })
+  async resetBuiltInRole(
+    @Param('role', new ParseEnumPipe(CUSTOMISABLE_ROLES)) role: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.permissionsService.resetBuiltInRole(user, role);
+  }
+
+  // ==================== Custom roles ====================
+
+  @Post('roles')
+  @RequirePermission('roles.manage')
+  async createRole(@Body() dto: CreateRoleDto, @CurrentUser() user: AuthUser) {
+    return this.permissionsService.createRole(user, dto);
+  }
+
+  @Put('roles/:id')
+  @RequirePermission('roles.manage')
+  async updateRole(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateRoleDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.permissionsService.updateRole(user, id, dto);
+  }
+
+  @Delete('roles/:id')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('roles.manage')
+  async deleteRole(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.permissionsService.deleteRole(user, id);
+  }
+
+  // ==================== Assignments ====================
+
+  @Get('employees/:employeeId/roles')
+  @RequirePermission('roles.manage')
+  async getEmployeeRoles(
+    @Param('employeeId', ParseUUIDPipe) employeeId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.permissionsService.getEmployeeRoles(user.businessId, employeeId);
+  }
+
+  @Put('employees/:employeeId/roles')
+  @RequirePermission('roles.manage')
+  @ApiOperation({
+    summary: 'Replace the custom roles of an employee, per outlet or for all outlets',
+  })
+  async setEmployeeRoles(
+    @Param('employeeId', ParseUUIDPipe) employeeId: string,
+    @Body() dto: SetEmployeeRolesDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.permissionsService.setEmployeeRoles(user, employeeId, dto);
+  }
+}
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { PermissionsController } from './permissions.controller';
+import { PermissionsService } from './permissions.service';
+
+// Global so PermissionsGuard can resolve permissions in every module's controllers
+@Global()
+@Module({
+  controllers: [PermissionsController],
+  providers: [PermissionsService],
+  exports: [PermissionsService],
+})
+export class PermissionsModule {}
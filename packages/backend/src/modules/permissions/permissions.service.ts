@@ -0,0 +1,472 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import type { EmployeeRole as PrismaEmployeeRole, Prisma } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { RedisService } from '../../infrastructure/cache/redis.service';
+import {
+  CACHE_DEFAULTS,
+  CACHE_KEYS,
+  buildCacheKey,
+} from '../../infrastructure/cache/cache.constants';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import type { OutletResource } from '../../infrastructure/auth/require-permission.decorator';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { EmployeeRole } from '../../shared/constants/roles';
+import {
+  ALL_PERMISSIONS,
+  PERMISSION_CATALOG,
+  UNRESTRICTED_ROLES,
+  defaultPermissionsFor,
+  isPermission,
+  type Permission,
+} from '../../shared/constants/permissions';
+import {
+  CUSTOMISABLE_ROLES,
+  type CreateRoleDto,
+  type SetEmployeeRolesDto,
+  type UpdateRoleDto,
+} from '../../application/dtos/permissions.dto';
+
+/** What an employee holds before narrowing to an outlet; cached per employee */
+interface EmployeeGrants {
+  base: string[];
+  assignments: Array<{ outletId: string | null; permissions: string[] }>;
+}
+
+const OUTLET_LOOKUPS: Record<
+  OutletResource,
+  (prisma: PrismaService, id: string) => Promise<{ outletId: string | null } | null>
+> = {
+  transaction: (prisma, id) =>
+    prisma.transaction.findUnique({ where: { id }, select: { outletId: true } }),
+  shift: (prisma, id) => prisma.shift.findUnique({ where: { id }, select: { outletId: true } }),
+  cashDrawer: (prisma, id) =>
+    prisma.cashDrawer.findUnique({ where: { id }, select: { outletId: true } }),
+  drawerSession: (prisma, id) =>
+    prisma.drawerSession.findUnique({ where: { id }, select: { outletId: true } }),
+  bankDeposit: (prisma, id) =>
+    prisma.bankDeposit.findUnique({ where: { id }, select: { outletId: true } }),
+  purchaseOrder: (prisma, id) =>
+    prisma.purchaseOrder.findUnique({ where: { id }, select: { outletId: true } }),
+  stockTransferSource: async (prisma, id) => {
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      select: { sourceOutletId: true },
+    });
+    return transfer && { outletId: transfer.sourceOutletId };
+  },
+  stockTransferDestination: async (prisma, id) => {
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      select: { destinationOutletId: true },
+    });
+    return transfer && { outletId: transfer.destinationOutletId };
+  },
+  device: (prisma, id) => prisma.device.findUnique({ where: { id }, select: { outletId: true } }),
+  paymentSettlement: (prisma, id) =>
+    prisma.paymentSettlement.findUnique({ where: { id }, select: { outletId: true } }),
+  creditSale: (prisma, id) =>
+    prisma.creditSale.findUnique({ where: { id }, select: { outletId: true } }),
+  taxInvoice: (prisma, id) =>
+    prisma.taxInvoice.findUnique({ where: { id }, select: { outletId: true } }),
+  kioskSession: (prisma, id) =>
+    prisma.kioskSession.findUnique({ where: { id }, select: { outletId: true } }),
+  warehouseZone: (prisma, id) =>
+    prisma.warehouseZone.findUnique({ where: { id }, select: { outletId: true } }),
+  warehouseBin: (prisma, id) =>
+    prisma.warehouseBin.findUnique({ where: { id }, select: { outletId: true } }),
+};
+
+/**
+ * PermissionsService - Resolves and manages permission-based roles
+ *
+ * An employee holds the permissions of their built-in role (as customised by
+ * the business, or the catalog defaults) plus those of every custom role
+ * assigned to them for all outlets or for the outlet being accessed. Owner
+ * and super admin hold every permission.
+ */
+@Injectable()
+export class PermissionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+  ) {}
+
+  // ==========================================================================
+  // Resolution
+  // ==========================================================================
+
+  async resolve(user: AuthUser, outletId: string | null): Promise<Set<Permission>> {
+    if (UNRESTRICTED_ROLES.includes(user.role)) {
+      return new Set(ALL_PERMISSIONS);
+    }
+
+    const grants = await this.loadGrants(user);
+    const granted = new Set<Permission>();
+    const add = (permissions: string[]) => {
+      for (const permission of permissions) {
+        if (isPermission(permission)) granted.add(permission);
+      }
+    };
+
+    add(grants.base);
+    for (const assignment of grants.assignments) {
+      if (assignment.outletId === null || assignment.outletId === outletId) {
+        add(assignment.permissions);
+      }
+    }
+    return granted;
+  }
+
+  /** Outlet of an outlet-owned record, for @PermissionOutlet; null when it does not exist */
+  async outletOf(resource: OutletResource, id: string): Promise<string | null> {
+    if (!isUUID(id)) return null;
+    const record = await OUTLET_LOOKUPS[resource](this.prisma, id);
+    return record?.outletId ?? null;
+  }
+
+  async has(user: AuthUser, permission: Permission, outletId: string | null): Promise<boolean> {
+    return (await this.resolve(user, outletId)).has(permission);
+  }
+
+  /** The caller's permissions at an outlet, for the UI to hide what they cannot do */
+  async effective(user: AuthUser, outletId?: string) {
+    const targetOutletId = outletId ?? user.outletId;
+    const granted = await this.resolve(user, targetOutletId);
+    return {
+      role: user.role,
+      outletId: targetOutletId,
+      permissions: ALL_PERMISSIONS.filter((p) => granted.has(p)),
+    };
+  }
+
+  private async loadGrants(user: AuthUser): Promise<EmployeeGrants> {
+    const cacheKey = buildCacheKey(
+      CACHE_KEYS.PERMISSIONS,
+      user.businessId,
+      user.employeeId,
+      user.role,
+    );
+    const cached = await this.redis.get<EmployeeGrants>(cacheKey);
+    if (cached) return cached;
+
+    const [baseRole, assignments] = await Promise.all([
+      this.prisma.role.findFirst({
+        where: { businessId: user.businessId, baseRole: user.role as PrismaEmployeeRole },
+        select: { permissions: true },
+      }),
+      this.prisma.employeeRoleAssignment.findMany({
+        where: { employeeId: user.employeeId, role: { businessId: user.businessId } },
+        select: { outletId: true, role: { select: { permissions: true } } },
+      }),
+    ]);
+
+    const grants: EmployeeGrants = {
+      base: baseRole ? this.permissionList(baseRole.permissions) : defaultPermissionsFor(user.role),
+      assignments: assignments.map((a) => ({
+        outletId: a.outletId,
+        permissions: this.permissionList(a.role.permissions),
+      })),
+    };
+    await this.redis.set(cacheKey, grants, CACHE_DEFAULTS.SHORT_TTL);
+    return grants;
+  }
+
+  // ==========================================================================
+  // Permissions matrix
+  // ==========================================================================
+
+  /** Every permission by group against the built-in and custom roles of the business */
+  async matrix(businessId: string) {
+    const roles = await this.prisma.role.findMany({
+      where: { businessId },
+      include: { _count: { select: { assignments: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    const groups = [...new Set(PERMISSION_CATALOG.map((p) => p.group))].map((group) => ({
+      group,
+      permissions: PERMISSION_CATALOG.filter((p) => p.group === group).map((p) => ({
+        key: p.key,
+        description: p.description,
+      })),
+    }));
+
+    const builtIn = [EmployeeRole.OWNER, ...CUSTOMISABLE_ROLES].map((baseRole) => {
+      const stored = roles.find((r) => r.baseRole === baseRole);
+      return {
+        id: stored?.id ?? null,
+        name: baseRole,
+        baseRole,
+        description: null,
+        editable: baseRole !== EmployeeRole.OWNER,
+        customised: !!stored,
+        permissions: stored
+          ? this.permissionList(stored.permissions)
+          : defaultPermissionsFor(baseRole),
+        assignedEmployees: null,
+      };
+    });
+
+    const custom = roles
+      .filter((r) => r.baseRole === null)
+      .map((r) => ({
+        id: r.id,
+        name: r.name,
+        baseRole: null,
+        description: r.description,
+        editable: true,
+        customised: true,
+        permissions: this.permissionList(r.permissions),
+        assignedEmployees: r._count.assignments,
+      }));
+
+    return { groups, roles: [...builtIn, ...custom] };
+  }
+
+  // ==========================================================================
+  // Roles
+  // ==========================================================================
+
+  async createRole(user: AuthUser, dto: CreateRoleDto) {
+    this.assertCustomName(dto.name);
+    await this.assertCanGrant(user, dto.permissions);
+    await this.assertNameFree(user.businessId, dto.name);
+
+    return this.prisma.role.create({
+      data: {
+        businessId: user.businessId,
+        name: dto.name,
+        description: dto.description ?? null,
+        permissions: dto.permissions,
+      },
+    });
+  }
+
+  async updateRole(user: AuthUser, id: string, dto: UpdateRoleDto) {
+    const role = await this.findCustomRole(user.businessId, id);
+    if (dto.name !== undefined && dto.name !== role.name) {
+      this.assertCustomName(dto.name);
+      await this.assertNameFree(user.businessId, dto.name);
+    }
+    if (dto.permissions) {
+      await this.assertCanGrant(user, dto.permissions);
+    }
+
+    const updated = await this.prisma.role.update({
+      where: { id },
+      data: {
+        ...(dto.name !== undefined && { name: dto.name }),
+        ...(dto.description !== undefined && { description: dto.description }),
+        ...(dto.permissions && { permissions: dto.permissions }),
+      },
+    });
+    await this.invalidate(user.businessId);
+    return updated;
+  }
+
+  async deleteRole(user: AuthUser, id: string) {
+    await this.findCustomRole(user.businessId, id);
+    await this.prisma.role.delete({ where: { id } });
+    await this.invalidate(user.businessId);
+    return { success: true };
+  }
+
+  /** Replaces what a built-in role can do for this business */
+  async updateBuiltInRole(user: AuthUser, baseRole: string, permissions: Permission[]) {
+    this.assertCustomisable(baseRole);
+    await this.assertCanGrant(user, permissions);
+
+    const role = await this.prisma.role.upsert({
+      where: {
+        businessId_baseRole: {
+          businessId: user.businessId,
+          baseRole: baseRole as PrismaEmployeeRole,
+        },
+      },
+      create: {
+        businessId: user.businessId,
+        name: baseRole,
+        baseRole: baseRole as PrismaEmployeeRole,
+        permissions,
+      },
+      update: { permissions },
+    });
+    await this.invalidate(user.businessId);
+    return role;
+  }
+
+  /** Drops the business's changes to a built-in role, back to the catalog defaults */
+  async resetBuiltInRole(user: AuthUser, baseRole: string) {
+    this.assertCustomisable(baseRole);
+    await this.prisma.role.deleteMany({
+      where: { businessId: user.businessId, baseRole: baseRole as PrismaEmployeeRole },
+    });
+    await this.invalidate(user.businessId);
+    return { baseRole, permissions: defaultPermissionsFor(baseRole) };
+  }
+
+  // ==========================================================================
+  // Assignments
+  // ==========================================================================
+
+  async getEmployeeRoles(businessId: string, employeeId: string) {
+    await this.findEmployee(businessId, employeeId);
+    return this.prisma.employeeRoleAssignment.findMany({
+      where: { employeeId, role: { businessId } },
+      include: {
+        role: { select: { id: true, name: true, permissions: true } },
+        outlet: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /** Replaces the custom roles of an employee; an assignment without an outlet covers all outlets */
+  async setEmployeeRoles(user: AuthUser, employeeId: string, dto: SetEmployeeRolesDto) {
+    if (employeeId === user.employeeId) {
+      throw new AppError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        'You cannot change your own roles',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+    await this.findEmployee(user.businessId, employeeId);
+
+    const unique = new Map(
+      dto.assignments.map((a) => [`${a.roleId}:${a.outletId ?? '*'}`, a] as const),
+    );
+    const assignments = [...unique.values()];
+
+    const roleIds = [...new Set(assignments.map((a) => a.roleId))];
+    const roles = await this.prisma.role.findMany({
+      where: { id: { in: roleIds }, businessId: user.businessId, baseRole: null },
+      select: { id: true, permissions: true },
+    });
+    if (roles.length !== roleIds.length) {
+      throw new BusinessError(ErrorCode.ROLE_NOT_FOUND, 'Role not found');
+    }
+    // Each role must be grantable where it applies; all outlets needs it everywhere
+    for (const assignment of assignments) {
+      const role = roles.find((r) => r.id === assignment.roleId)!;
+      await this.assertCanGrant(
+        user,
+        this.permissionList(role.permissions).filter(isPermission),
+        assignment.outletId ?? null,
+      );
+    }
+
+    const outletIds = [
+      ...new Set(assignments.map((a) => a.outletId).filter((id): id is string => !!id)),
+    ];
+    if (outletIds.length) {
+      const outletCount = await this.prisma.outlet.count({
+        where: { id: { in: outletIds }, businessId: user.businessId },
+      });
+      if (outletCount !== outletIds.length) {
+        throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+      }
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.employeeRoleAssignment.deleteMany({ where: { employeeId } }),
+      this.prisma.employeeRoleAssignment.createMany({
+        data: assignments.map((a) => ({
+          employeeId,
+          roleId: a.roleId,
+          outletId: a.outletId ?? null,
+          createdBy: user.employeeId,
+        })),
+      }),
+    ]);
+    await this.invalidate(user.businessId);
+    return this.getEmployeeRoles(user.businessId, employeeId);
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  /**
+   * Only owners can hand out permissions they do not hold themselves, at the
+   * outlet the grant applies to. A null outlet means every outlet, so only
+   * what the caller holds everywhere counts; roles are not tied to an outlet
+   * and are checked that way too.
+   */
+  private async assertCanGrant(
+    user: AuthUser,
+    permissions: Permission[],
+    outletId: string | null = null,
+  ): Promise<void> {
+    if (UNRESTRICTED_ROLES.includes(user.role)) return;
+    const own = await this.resolve(user, outletId);
+    const beyond = permissions.filter((p) => !own.has(p));
+    if (beyond.length > 0) {
+      throw new AppError(
+        ErrorCode.UNAUTHORIZED_ACTION,
+        `You cannot grant permissions you do not hold: ${beyond.join(', ')}`,
+        HttpStatus.FORBIDDEN,
+      );
+    }
+  }
+
+  private assertCustomisable(baseRole: string): void {
+    if (!(CUSTOMISABLE_ROLES as readonly string[]).includes(baseRole)) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, `Role ${baseRole} cannot be customised`);
+    }
+  }
+
+  /** Built-in role names stay reserved for the built-in roles */
+  private assertCustomName(name: string): void {
+    const reserved: string[] = [
+      EmployeeRole.OWNER,
+      EmployeeRole.SUPER_ADMIN,
+      ...CUSTOMISABLE_ROLES,
+    ];
+    if (reserved.includes(name.toLowerCase())) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, `${name} is a built-in role`);
+    }
+  }
+
+  private async assertNameFree(businessId: string, name: string): Promise<void> {
+    const existing = await this.prisma.role.findFirst({
+      where: { businessId, name: { equals: name, mode: 'insensitive' } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new AppError(
+        ErrorCode.DUPLICATE_RESOURCE,
+        `A role named ${name} already exists`,
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
+  private async findCustomRole(businessId: string, id: string) {
+    const role = await this.prisma.role.findFirst({ where: { id, businessId, baseRole: null } });
+    if (!role) {
+      throw new BusinessError(ErrorCode.ROLE_NOT_FOUND, 'Role not found');
+    }
+    return role;
+  }
+
+  private async findEmployee(businessId: string, employeeId: string): Promise<void> {
+    const employee = await this.prisma.employee.findFirst({
+      where: { id: employeeId, businessId },
+      select: { id: true },
+    });
+    if (!employee) {
+      throw new BusinessError(ErrorCode.EMPLOYEE_NOT_FOUND, 'Employee not found');
+    }
+  }
+
+  private permissionList(value: Prisma.JsonValue): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  }
+
+  private async invalidate(businessId: string): Promise<void> {
+    await this.redis.invalidatePattern(buildCacheKey(CACHE_KEYS.PERMISSIONS, businessId, '*'));
+  }
+}
@@ -13,8 +13,11 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
 import { EmployeeRole } from '../../shared/constants/roles';
@@ -24,6 +27,7 @@ import { ProcessMultiPaymentUseCase } from '../../application/use-cases/billing/
 import { VoidTransactionUseCase } from '../../application/use-cases/pos/void-transaction.use-case';
 import { CashInUseCase } from '../../application/use-cases/pos/cash-in.use-case';
 import { CashOutUseCase } from '../../application/use-cases/pos/cash-out.use-case';
+import { OpenCashDrawerUseCase } from '../../application/use-cases/pos/open-cash-drawer.use-case';
 import { HoldBillUseCase } from '../../application/use-cases/pos/hold-bill.use-case';
 import { ListHeldBillsUseCase } from '../../application/use-cases/pos/list-held-bills.use-case';
 import { ResumeBillUseCase } from '../../application/use-cases/pos/resume-bill.use-case';
@@ -31,17 +35,19 @@ import { ReprintReceiptUseCase } from '../../application/use-cases/pos/reprint-r
 import { CreateTransactionDto, PaymentDto } from '../../application/dtos/transaction.dto';
 import { ProcessRefundDto } from '../../application/dtos/refund.dto';
 import { VoidTransactionDto } from '../../application/dtos/void-transaction.dto';
-import { CashInDto, CashOutDto } from '../../application/dtos/cash-drawer.dto';
+import { CashInDto, CashOutDto, OpenCashDrawerDto } from '../../application/dtos/cash-drawer.dto';
 import { HoldBillDto } from '../../application/dtos/hold-bill.dto';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import type { ITransactionRepository } from '../../domain/interfaces/repositories/transaction.repository';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
 import { decimalToNumberRequired } from '../../infrastructure/repositories/decimal.helper';
 import { OutletAccessGuard } from '../../shared/guards/outlet-access.guard';
+import { ManagerOverrideService } from '../overrides/manager-override.service';
+import { PlanLimit } from '../../common/interceptors/subscription.interceptor';
 
 @ApiTags('POS')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('pos')
 export class PosController {
   constructor(
@@ -51,6 +57,7 @@ export class PosController {
     private readonly voidTransactionUseCase: VoidTransactionUseCase,
     private readonly cashInUseCase: CashInUseCase,
     private readonly cashOutUseCase: CashOutUseCase,
+    private readonly openCashDrawerUseCase: OpenCashDrawerUseCase,
     private readonly holdBillUseCase: HoldBillUseCase,
     private readonly listHeldBillsUseCase: ListHeldBillsUseCase,
     private readonly resumeBillUseCase: ResumeBillUseCase,
@@ -58,10 +65,12 @@ export class PosController {
     @Inject(REPOSITORY_TOKENS.TRANSACTION)
     private readonly transactionRepo: ITransactionRepository,
     private readonly prisma: PrismaService,
+    private readonly overrides: ManagerOverrideService,
   ) {}
 
   @Post('transactions')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('pos.sale')
+  @PlanLimit('monthlyTransactions')
   async createTransaction(@Body() dto: CreateTransactionDto, @CurrentUser() user: AuthUser) {
     const outletId = user.outletId || dto.outletId;
     if (!outletId) {
@@ -82,12 +91,18 @@ export class PosController {
       tableId: dto.tableId,
       items: dto.items,
       payments: dto.payments,
+      discounts: dto.discounts,
+      ...(await this.overrides.saleRestrictions(user, outletId)),
+      approvals: {
+        discount: dto.discountApprovalToken,
+        priceOverride: dto.priceOverrideApprovalToken,
+      },
       notes: dto.notes,
     });
   }
 
   @Get('transactions')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('pos.transactions.view')
   async listTransactions(
     @Query('page') page?: string,
     @Query('limit') limit?: string,
@@ -197,7 +212,8 @@ export class PosController {
   }
 
   @Get('transactions/:id')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('transaction')
+  @RequirePermission('pos.transactions.view')
   async getTransaction(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     const tx = await this.transactionRepo.findById(id);
     if (!tx) throw new NotFoundException('Transaction not found');
@@ -208,7 +224,8 @@ export class PosController {
   }
 
   @Post('refunds')
-  @Roles(EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('transaction', 'transactionId', 'body')
+  @RequirePermission('pos.sale')
   async processRefund(@Body() dto: ProcessRefundDto, @CurrentUser() user: AuthUser) {
     return this.processRefundUseCase.execute({
       transactionId: dto.transactionId,
@@ -216,11 +233,14 @@ export class PosController {
       items: dto.items,
       refundMethod: dto.refundMethod,
       notes: dto.notes,
+      requiresApproval: await this.overrides.requiresApproval(user, 'refund', user.outletId),
+      approvalToken: dto.approvalToken,
     });
   }
 
   @Post('transactions/:id/payments')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('transaction')
+  @RequirePermission('pos.sale')
   async multiPayment(
     @Param('id') id: string,
     @Body() dto: { payments: PaymentDto[] },
@@ -239,7 +259,8 @@ export class PosController {
   }
 
   @Post('void')
-  @Roles(EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('transaction', 'transactionId', 'body')
+  @RequirePermission('pos.sale')
   async voidTransaction(@Body() dto: VoidTransactionDto, @CurrentUser() user: AuthUser) {
     if (!user.outletId) throw new BadRequestException('Outlet not assigned');
     return this.voidTransactionUseCase.execute({
@@ -248,11 +269,14 @@ export class PosController {
       businessId: user.businessId,
       outletId: user.outletId,
       reason: dto.reason,
+      requiresApproval: await this.overrides.requiresApproval(user, 'void', user.outletId),
+      approvalToken: dto.approvalToken,
     });
   }
 
   @Post('cash-in')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('shift', 'shiftId', 'body')
+  @RequirePermission('pos.cash_drawer')
   async cashIn(@Body() dto: CashInDto, @CurrentUser() user: AuthUser) {
     if (!user.outletId) throw new BadRequestException('Outlet not assigned');
     return this.cashInUseCase.execute({
@@ -266,7 +290,8 @@ export class PosController {
   }
 
   @Post('cash-out')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('shift', 'shiftId', 'body')
+  @RequirePermission('pos.cash_drawer')
   async cashOut(@Body() dto: CashOutDto, @CurrentUser() user: AuthUser) {
     if (!user.outletId) throw new BadRequestException('Outlet not assigned');
     return this.cashOutUseCase.execute({
@@ -280,8 +305,24 @@ export class PosController {
     });
   }
 
+  @Post('cash-drawer/open')
+  @PermissionOutlet('shift', 'shiftId', 'body')
+  @RequirePermission('pos.cash_drawer')
+  async openCashDrawer(@Body() dto: OpenCashDrawerDto, @CurrentUser() user: AuthUser) {
+    if (!user.outletId) throw new BadRequestException('Outlet not assigned');
+    return this.openCashDrawerUseCase.execute({
+      shiftId: dto.shiftId,
+      employeeId: user.employeeId,
+      businessId: user.businessId,
+      outletId: user.outletId,
+      reason: dto.reason,
+      requiresApproval: await this.overrides.requiresApproval(user, 'no_sale', user.outletId),
+      approvalToken: dto.approvalToken,
+    });
+  }
+
   @Post('hold')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('pos.sale')
   async holdBill(@Body() dto: HoldBillDto, @CurrentUser() user: AuthUser) {
     return this.holdBillUseCase.execute({
       outletId: user.outletId || dto.outletId,
@@ -294,7 +335,7 @@ export class PosController {
   }
 
   @Get('held-bills')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('pos.sale')
   async listHeldBills(@Query('outletId') outletId: string, @CurrentUser() user: AuthUser) {
     const resolvedOutletId = outletId || user.outletId;
     if (!resolvedOutletId) throw new BadRequestException('Outlet not assigned');
@@ -302,7 +343,7 @@ export class PosController {
   }
 
   @Post('resume/:billId')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('pos.sale')
   async resumeBill(@Param('billId') billId: string, @CurrentUser() user: AuthUser) {
     if (!user.outletId) throw new BadRequestException('Outlet not assigned');
     return this.resumeBillUseCase.execute({
@@ -312,7 +353,8 @@ export class PosController {
   }
 
   @Get('transactions/:id/reprint')
-  @Roles(EmployeeRole.CASHIER, EmployeeRole.SUPERVISOR, EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('transaction')
+  @RequirePermission('pos.transactions.view')
   async reprintReceipt(@Param('id') id: string) {
     return this.reprintReceiptUseCase.execute(id);
   }
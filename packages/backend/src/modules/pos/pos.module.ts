@@ -6,6 +6,7 @@ import { ProcessMultiPaymentUseCase } from '../../application/use-cases/billing/
 import { VoidTransactionUseCase } from '../../application/use-cases/pos/void-transaction.use-case';
 import { CashInUseCase } from '../../application/use-cases/pos/cash-in.use-case';
 import { CashOutUseCase } from '../../application/use-cases/pos/cash-out.use-case';
+import { OpenCashDrawerUseCase } from '../../application/use-cases/pos/open-cash-drawer.use-case';
 import { HoldBillUseCase } from '../../application/use-cases/pos/hold-bill.use-case';
 import { ListHeldBillsUseCase } from '../../application/use-cases/pos/list-held-bills.use-case';
 import { ResumeBillUseCase } from '../../application/use-cases/pos/resume-bill.use-case';
@@ -20,8 +21,22 @@ import { PrismaShiftRepository } from '../../infrastructure/repositories/prisma-
 import { PrismaCustomerRepository } from '../../infrastructure/repositories/prisma-customer.repository';
 import { PrismaAuditRepository } from '../../infrastructure/repositories/prisma-audit.repository';
 import { MockPaymentGateway } from '../../infrastructure/services/mock-payment-gateway';
+import { GiftCardsModule } from '../gift-cards/gift-cards.module';
+import { ReservationsModule } from '../reservations/reservations.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import { OverridesModule } from '../overrides/overrides.module';
+import { WarehousesModule } from '../warehouses/warehouses.module';
+import { PromotionsModule } from '../promotions/promotions.module';
 
 @Module({
+  imports: [
+    GiftCardsModule,
+    ReservationsModule,
+    NumberingModule,
+    OverridesModule,
+    WarehousesModule,
+    PromotionsModule,
+  ],
   controllers: [PosController],
   providers: [
     CreateTransactionUseCase,
@@ -30,6 +45,7 @@ import { MockPaymentGateway } from '../../infrastructure/services/mock-payment-g
     VoidTransactionUseCase,
     CashInUseCase,
     CashOutUseCase,
+    OpenCashDrawerUseCase,
     HoldBillUseCase,
     ListHeldBillsUseCase,
     ResumeBillUseCase,
@@ -43,5 +59,6 @@ import { MockPaymentGateway } from '../../infrastructure/services/mock-payment-g
     { provide: REPOSITORY_TOKENS.AUDIT, useClass: PrismaAuditRepository },
     { provide: SERVICE_TOKENS.PAYMENT_GATEWAY, useClass: MockPaymentGateway },
   ],
+  exports: [CreateTransactionUseCase],
 })
 export class PosModule {}
@@ -12,6 +12,11 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '@infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '@infrastructure/auth/require-permission.decorator';
 import {
   PriceTiersService,
   type CreatePriceTierDto,
@@ -19,35 +24,40 @@ import {
 } from './price-tiers.service';
 
 @Controller('price-tiers')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class PriceTiersController {
   constructor(private readonly service: PriceTiersService) {}
 
   @Get('product/:productId')
+  @WithoutPermission()
   async listByProduct(@Param('productId') productId: string) {
     const tiers = await this.service.listByProduct(productId);
     return { tiers };
   }
 
   @Post()
+  @RequirePermission('price_tiers.manage')
   async create(@Body() dto: CreatePriceTierDto) {
     const tier = await this.service.create(dto);
     return { tier };
   }
 
   @Put(':id')
+  @RequirePermission('price_tiers.manage')
   async update(@Param('id') id: string, @Body() dto: UpdatePriceTierDto) {
     const tier = await this.service.update(id, dto);
     return { tier };
   }
 
   @Delete(':id')
+  @RequirePermission('price_tiers.manage')
   @HttpCode(HttpStatus.NO_CONTENT)
   async delete(@Param('id') id: string) {
     await this.service.delete(id);
   }
 
   @Post('product/:productId/bulk')
+  @RequirePermission('price_tiers.manage')
   async bulkCreate(
     @Param('productId') productId: string,
     @Body() body: { tiers: Omit<CreatePriceTierDto, 'productId'>[] },
@@ -57,6 +67,7 @@ export class PriceTiersController {
   }
 
   @Get('resolve/:productId')
+  @WithoutPermission()
   async resolvePrice(@Param('productId') productId: string, @Query('quantity') quantity: string) {
     const qty = parseFloat(quantity) || 1;
     return this.service.resolvePrice(productId, qty);
@@ -1,19 +1,19 @@
 import { Controller, Post, Body, UseGuards } from '@nestjs/common';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import { AuthUser } from '../../infrastructure/auth/auth-user.interface';
 import { CalculateDynamicPriceUseCase } from '../../application/use-cases/pricing/calculate-dynamic-price.use-case';
 import { CalculatePriceDto, CalculateBatchPriceDto } from './dto/calculate-price.dto';
 
 @Controller('pricing')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class PricingController {
   constructor(private readonly calculateDynamicPrice: CalculateDynamicPriceUseCase) {}
 
   @Post('calculate')
-  @Roles('owner', 'manager', 'supervisor', 'cashier')
+  @RequirePermission('pos.sale')
   async calculate(@CurrentUser() user: AuthUser, @Body() dto: CalculatePriceDto) {
     const businessId = user.businessId;
     const result = await this.calculateDynamicPrice.execute({
@@ -40,7 +40,7 @@ export class PricingController {
   }
 
   @Post('calculate-batch')
-  @Roles('owner', 'manager', 'supervisor', 'cashier')
+  @RequirePermission('pos.sale')
   async calculateBatch(@CurrentUser() user: AuthUser, @Body() dto: CalculateBatchPriceDto) {
     const businessId = user.businessId;
     const resultsMap = await this.calculateDynamicPrice.executeBatch({
@@ -70,7 +70,7 @@ export class PricingController {
   }
 
   @Post('preview-rules')
-  @Roles('owner', 'manager', 'supervisor', 'cashier')
+  @RequirePermission('pos.sale')
   async previewRules(@CurrentUser() user: AuthUser, @Body() dto: CalculatePriceDto) {
     const businessId = user.businessId;
     const rules = await this.calculateDynamicPrice.previewRules({
@@ -93,7 +93,7 @@ export class PricingController {
   }
 
   @Post('potential-savings')
-  @Roles('owner', 'manager', 'supervisor', 'cashier')
+  @RequirePermission('pos.sale')
   async getPotentialSavings(@CurrentUser() user: AuthUser, @Body() dto: CalculatePriceDto) {
     const businessId = user.businessId;
     const savings = await this.calculateDynamicPrice.getPotentialSavings({
@@ -0,0 +1,158 @@
+import type { PrintBlock } from './print-template.types';
+
+/**
+ * Built-in layouts used when a business has no template of its own. The
+ * receipt mirrors the web client's fixed layout and honours the legacy
+ * outlet receipt settings (logo, address, tax lines, ...) exposed under
+ * `settings`.
+ */
+export const DEFAULT_RECEIPT_BLOCKS: PrintBlock[] = [
+  { type: 'logo', when: 'settings.showLogo' },
+  { type: 'text', content: '{{business.name}}', align: 'center', bold: true, size: 'double' },
+  { type: 'text', content: '{{outlet.name}}', align: 'center' },
+  {
+    type: 'group',
+    when: 'settings.showAddress',
+    blocks: [
+      { type: 'text', content: '{{outlet.address}}', align: 'center', when: 'outlet.address' },
+    ],
+  },
+  {
+    type: 'group',
+    when: 'settings.showPhone',
+    blocks: [
+      { type: 'text', content: 'Telp: {{outlet.phone}}', align: 'center', when: 'outlet.phone' },
+    ],
+  },
+  { type: 'text', content: '{{header}}', align: 'center', when: 'header' },
+  { type: 'text', content: '** CETAK ULANG **', align: 'center', bold: true, when: 'isReprint' },
+  { type: 'feed' },
+  { type: 'separator', char: '=' },
+  { type: 'row', left: 'No.Transaksi', right: '{{transaction.receiptNumber}}' },
+  { type: 'row', left: 'Tanggal', right: '{{transaction.createdAt | date}}' },
+  { type: 'row', left: 'Jam', right: '{{transaction.createdAt | time}}' },
+  { type: 'row', left: 'Kasir', right: '{{employee.name}}' },
+  { type: 'text', content: 'Pelanggan: {{customer.name}}', when: 'customer.name' },
+  { type: 'separator' },
+  {
+    type: 'each',
+    source: 'transaction.items',
+    blocks: [
+      { type: 'text', content: '{{item.quantityLabel}} {{item.productName}}' },
+      { type: 'text', content: '  {{item.variantName}}', when: 'item.variantName' },
+      {
+        type: 'text',
+        content: '  @ {{item.unitPrice | currency}}/{{item.unit}}',
+        when: 'item.unit',
+      },
+      {
+        type: 'each',
+        source: 'item.modifiers',
+        as: 'modifier',
+        blocks: [{ type: 'text', content: '  + {{modifier.name}}' }],
+      },
+      { type: 'row', left: '', right: '{{item.subtotal | currency}}' },
+    ],
+  },
+  { type: 'separator' },
+  { type: 'row', left: 'Subtotal', right: '{{transaction.subtotal | currency}}' },
+  {
+    type: 'row',
+    left: 'Diskon',
+    right: '-{{transaction.discountAmount | currency}}',
+    when: 'transaction.discountAmount > 0',
+  },
+  {
+    type: 'row',
+    left: 'Biaya Layanan',
+    right: '{{transaction.serviceCharge | currency}}',
+    when: 'transaction.serviceCharge > 0',
+  },
+  {
+    type: 'row',
+    left: 'Pajak',
+    right: '{{transaction.taxAmount | currency}}',
+    when: 'settings.showTaxDetails',
+  },
+  { type: 'separator' },
+  { type: 'row', left: 'TOTAL', right: '{{transaction.grandTotal | currency}}', bold: true },
+  { type: 'separator' },
+  {
+    type: 'group',
+    when: 'settings.showPaymentMethod',
+    blocks: [
+      { type: 'text', content: 'Pembayaran:' },
+      {
+        type: 'each',
+        source: 'transaction.payments',
+        as: 'payment',
+        blocks: [
+          {
+            type: 'row',
+            left: '{{payment.method | upper}}',
+            right: '{{payment.amount | currency}}',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    type: 'row',
+    left: 'Kembalian',
+    right: '{{transaction.change | currency}}',
+    bold: true,
+    when: 'transaction.change > 0',
+  },
+  { type: 'separator', char: '=' },
+  { type: 'feed' },
+  { type: 'text', content: 'Terima Kasih!', align: 'center', bold: true },
+  { type: 'text', content: '{{footer}}', align: 'center', when: 'footer' },
+  {
+    type: 'text',
+    content: 'Simpan struk ini sebagai bukti pembayaran',
+    align: 'center',
+    when: '!footer',
+  },
+  { type: 'feed' },
+  { type: 'qrcode', data: '{{transaction.receiptNumber}}', size: 4, when: 'settings.showQRCode' },
+  { type: 'cut' },
+];
+
+/** Kitchen order ticket: large item lines, no prices */
+export const DEFAULT_KITCHEN_TICKET_BLOCKS: PrintBlock[] = [
+  { type: 'text', content: '{{station | upper}}', align: 'center', bold: true, when: 'station' },
+  {
+    type: 'text',
+    content: '#{{order.orderNumber}}',
+    align: 'center',
+    bold: true,
+    size: 'double',
+  },
+  { type: 'text', content: '{{order.orderType | upper}}', align: 'center' },
+  {
+    type: 'text',
+    content: 'Meja: {{order.tableName}}',
+    align: 'center',
+    bold: true,
+    size: 'double-height',
+    when: 'order.tableName',
+  },
+  { type: 'row', left: 'Waktu', right: '{{order.createdAt | datetime}}' },
+  { type: 'separator', char: '=' },
+  {
+    type: 'each',
+    source: 'items',
+    blocks: [
+      {
+        type: 'text',
+        content: '{{item.quantity}}x {{item.productName}}',
+        bold: true,
+        size: 'double-height',
+      },
+      { type: 'text', content: '  * {{item.notes}}', when: 'item.notes' },
+    ],
+  },
+  { type: 'separator', char: '=' },
+  { type: 'text', content: 'Catatan: {{order.notes}}', bold: true, when: 'order.notes' },
+  { type: 'cut' },
+];
@@ -0,0 +1,245 @@
+import type {
+  BarcodeSymbology,
+  PaperWidth,
+  PrintAlign,
+  PrintLogo,
+  PrintTextSize,
+} from './print-template.types';
+import { PAPER_GEOMETRY } from './print-template.types';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN_CODES: Record<PrintAlign, number> = { left: 0, center: 1, right: 2 };
+
+/** GS ! character size, and how many columns one glyph takes */
+const SIZE_CODES: Record<PrintTextSize, { code: number; widthFactor: number }> = {
+  normal: { code: 0x00, widthFactor: 1 },
+  'double-height': { code: 0x01, widthFactor: 1 },
+  'double-width': { code: 0x10, widthFactor: 2 },
+  double: { code: 0x11, widthFactor: 2 },
+};
+
+/** GS k function B symbology numbers */
+const BARCODE_CODES: Record<BarcodeSymbology, number> = {
+  EAN13: 67,
+  CODE39: 69,
+  CODE128: 73,
+};
+
+export interface TextStyle {
+  align?: PrintAlign;
+  bold?: boolean;
+  underline?: boolean;
+  size?: PrintTextSize;
+}
+
+/**
+ * Folds text to printable ASCII. Thermal printers default to code page 437,
+ * so accented letters lose their marks and anything else becomes `?`.
+ */
+export function toPrintable(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\r\t]/g, ' ')
+    .replace(/[^\x20-\x7e\n]/g, '?');
+}
+
+export function isValidBarcode(data: string, symbology: BarcodeSymbology): boolean {
+  switch (symbology) {
+    case 'EAN13':
+      return /^\d{12,13}$/.test(data);
+    case 'CODE39':
+      return /^[0-9A-Z .$/+%-]{1,60}$/.test(data);
+    case 'CODE128':
+      return /^[\x20-\x7e]{1,60}$/.test(data);
+  }
+}
+
+/**
+ * Builds an ESC/POS byte stream and, alongside it, a plain-text preview of
+ * what the printer will produce.
+ */
+export class EscPosEncoder {
+  private readonly bytes: number[] = [];
+  private readonly lines: string[] = [];
+  readonly columns: number;
+  readonly dots: number;
+
+  constructor(paperWidth: PaperWidth) {
+    ({ columns: this.columns, dots: this.dots } = PAPER_GEOMETRY[paperWidth]);
+    this.push(ESC, 0x40);
+  }
+
+  text(content: string, style: TextStyle = {}): this {
+    const size = SIZE_CODES[style.size ?? 'normal'];
+    const width = Math.floor(this.columns / size.widthFactor);
+
+    this.push(ESC, 0x61, ALIGN_CODES[style.align ?? 'left']);
+    if (style.bold) this.push(ESC, 0x45, 1);
+    if (style.underline) this.push(ESC, 0x2d, 1);
+    if (size.code) this.push(GS, 0x21, size.code);
+
+    for (const line of wrap(toPrintable(content), width)) {
+      this.pushText(line);
+      this.push(LF);
+      this.lines.push(this.place(line, style.align, size.widthFactor));
+    }
+
+    if (size.code) this.push(GS, 0x21, 0);
+    if (style.underline) this.push(ESC, 0x2d, 0);
+    if (style.bold) this.push(ESC, 0x45, 0);
+    return this;
+  }
+
+  row(left: string, right: string, bold = false): this {
+    const rightText = toPrintable(right).replace(/\n/g, ' ').slice(0, this.columns);
+    const room = Math.max(this.columns - rightText.length - 1, 0);
+    const leftText = toPrintable(left).replace(/\n/g, ' ').slice(0, room);
+    const line =
+      leftText + ' '.repeat(this.columns - leftText.length - rightText.length) + rightText;
+    return this.text(line, { bold });
+  }
+
+  separator(char = '-'): this {
+    const fill = toPrintable(char).charAt(0) || '-';
+    return this.text(fill.repeat(this.columns));
+  }
+
+  feed(lines = 1): this {
+    const count = Math.min(Math.max(lines, 1), 10);
+    this.push(ESC, 0x64, count);
+    for (let i = 0; i < count; i++) this.lines.push('');
+    return this;
+  }
+
+  qrcode(data: string, size = 6, align: PrintAlign = 'center'): this {
+    const payload = Buffer.from(data, 'utf8');
+    const storeLength = payload.length + 3;
+
+    this.push(ESC, 0x61, ALIGN_CODES[align]);
+    this.push(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00);
+    this.push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, clamp(size, 1, 16));
+    this.push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31);
+    this.push(GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30);
+    this.push(...payload);
+    this.push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30);
+    this.push(LF);
+
+    this.lines.push(this.place(`[QR ${toPrintable(data)}]`.slice(0, this.columns), align, 1));
+    return this;
+  }
+
+  barcode(
+    data: string,
+    symbology: BarcodeSymbology,
+    options: { height?: number; showText?: boolean; align?: PrintAlign } = {},
+  ): this {
+    // CODE128 needs a code set prefix; `{` itself is escaped as `{{`
+    const encoded = symbology === 'CODE128' ? `{B${data.replace(/\{/g, '{{')}` : data;
+    const align = options.align ?? 'center';
+
+    this.push(ESC, 0x61, ALIGN_CODES[align]);
+    this.push(GS, 0x68, clamp(options.height ?? 80, 1, 255));
+    this.push(GS, 0x77, this.columns > 32 ? 3 : 2);
+    this.push(GS, 0x48, options.showText === false ? 0 : 2);
+    this.push(GS, 0x6b, BARCODE_CODES[symbology], encoded.length);
+    this.pushText(encoded);
+    this.push(LF);
+
+    this.lines.push(this.place(`[${symbology} ${data}]`.slice(0, this.columns), align, 1));
+    return this;
+  }
+
+  /** GS v 0 raster image, clipped to the paper's printable width */
+  raster(logo: PrintLogo, align: PrintAlign = 'center'): this {
+    const rowBytes = logo.width / 8;
+    const keepBytes = Math.min(rowBytes, this.dots / 8);
+    const height = Math.min(logo.height, 0xffff);
+
+    this.push(ESC, 0x61, ALIGN_CODES[align]);
+    this.push(GS, 0x76, 0x30, 0x00, keepBytes & 0xff, keepBytes >> 8, height & 0xff, height >> 8);
+    for (let y = 0; y < height; y++) {
+      const start = y * rowBytes;
+      this.push(...logo.bitmap.subarray(start, start + keepBytes));
+    }
+
+    this.lines.push(this.place('[LOGO]', align, 1));
+    return this;
+  }
+
+  cut(partial = false): this {
+    this.push(ESC, 0x64, 3);
+    this.push(GS, 0x56, partial ? 1 : 0);
+    this.lines.push('', '', '', '-'.repeat(this.columns));
+    return this;
+  }
+
+  openDrawer(): this {
+    this.push(ESC, 0x70, 0x00, 0x19, 0xfa);
+    return this;
+  }
+
+  encode(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+
+  preview(): string {
+    return this.lines.map((line) => line.replace(/\s+$/, '')).join('\n');
+  }
+
+  private push(...values: number[]): void {
+    for (const value of values) this.bytes.push(value);
+  }
+
+  private pushText(text: string): void {
+    for (let i = 0; i < text.length; i++) this.bytes.push(text.charCodeAt(i));
+  }
+
+  private place(line: string, align: PrintAlign | undefined, widthFactor: number): string {
+    const shown = widthFactor > 1 ? line.split('').join(' ') : line;
+    const padding = Math.max(this.columns - shown.length, 0);
+    if (align === 'center') return ' '.repeat(Math.floor(padding / 2)) + shown;
+    if (align === 'right') return ' '.repeat(padding) + shown;
+    return shown;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+/** Word-wraps to `width` columns, hard-breaking words longer than a line */
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    if (paragraph.length <= width) {
+      lines.push(paragraph);
+      continue;
+    }
+    let current = '';
+    for (const word of paragraph.split(' ')) {
+      let rest = word;
+      while (rest.length > width) {
+        if (current) {
+          lines.push(current);
+          current = '';
+        }
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+      if (!current) {
+        current = rest;
+      } else if (current.length + 1 + rest.length <= width) {
+        current += ` ${rest}`;
+      } else {
+        lines.push(current);
+        current = rest;
+      }
+    }
+    lines.push(current);
+  }
+  return lines;
+}
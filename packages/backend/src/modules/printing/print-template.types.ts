@@ -0,0 +1,152 @@
+/**
+ * Print template model.
+ *
+ * A template is a list of blocks rendered top to bottom. Text fields may use
+ * `{{path | filter}}` variables resolved against the print context, and any
+ * block can be made conditional with `when`:
+ *   - `path`            truthy (non-empty arrays and strings, non-zero numbers)
+ *   - `!path`           falsy
+ *   - `path > 0`        comparison; operators ==, !=, >, >=, <, <=
+ *   - `path == 'cash'`  string comparison
+ */
+
+export const PAPER_WIDTHS = [58, 80] as const;
+export type PaperWidth = (typeof PAPER_WIDTHS)[number];
+
+/** Characters per line in font A, and printable dots per line */
+export const PAPER_GEOMETRY: Record<PaperWidth, { columns: number; dots: number }> = {
+  58: { columns: 32, dots: 384 },
+  80: { columns: 48, dots: 576 },
+};
+
+export const PRINT_BLOCK_TYPES = [
+  'text',
+  'separator',
+  'row',
+  'each',
+  'group',
+  'logo',
+  'qrcode',
+  'barcode',
+  'feed',
+  'cut',
+  'drawer',
+] as const;
+
+export const BARCODE_SYMBOLOGIES = ['CODE128', 'EAN13', 'CODE39'] as const;
+export type BarcodeSymbology = (typeof BARCODE_SYMBOLOGIES)[number];
+
+export type PrintAlign = 'left' | 'center' | 'right';
+export type PrintTextSize = 'normal' | 'double-width' | 'double-height' | 'double';
+
+interface PrintBlockBase {
+  when?: string;
+}
+
+export interface TextBlock extends PrintBlockBase {
+  type: 'text';
+  content: string;
+  align?: PrintAlign;
+  bold?: boolean;
+  underline?: boolean;
+  size?: PrintTextSize;
+}
+
+export interface SeparatorBlock extends PrintBlockBase {
+  type: 'separator';
+  char?: string;
+}
+
+/** Left text and right text on one line, e.g. a label and an amount */
+export interface RowBlock extends PrintBlockBase {
+  type: 'row';
+  left: string;
+  right: string;
+  bold?: boolean;
+}
+
+/** Repeats its blocks for every element of the array at `source` */
+export interface EachBlock extends PrintBlockBase {
+  type: 'each';
+  source: string;
+  /** Name the current element is exposed under; defaults to `item` */
+  as?: string;
+  blocks: PrintBlock[];
+}
+
+export interface GroupBlock extends PrintBlockBase {
+  type: 'group';
+  blocks: PrintBlock[];
+}
+
+/** Prints the template's uploaded logo bitmap */
+export interface LogoBlock extends PrintBlockBase {
+  type: 'logo';
+  align?: PrintAlign;
+}
+
+export interface QrCodeBlock extends PrintBlockBase {
+  type: 'qrcode';
+  data: string;
+  /** Module size in dots, 1-16 */
+  size?: number;
+  align?: PrintAlign;
+}
+
+export interface BarcodeBlock extends PrintBlockBase {
+  type: 'barcode';
+  data: string;
+  symbology?: BarcodeSymbology;
+  /** Bar height in dots, 1-255 */
+  height?: number;
+  showText?: boolean;
+  align?: PrintAlign;
+}
+
+export interface FeedBlock extends PrintBlockBase {
+  type: 'feed';
+  lines?: number;
+}
+
+export interface CutBlock extends PrintBlockBase {
+  type: 'cut';
+  partial?: boolean;
+}
+
+export interface DrawerBlock extends PrintBlockBase {
+  type: 'drawer';
+}
+
+export type PrintBlock =
+  | TextBlock
+  | SeparatorBlock
+  | RowBlock
+  | EachBlock
+  | GroupBlock
+  | LogoBlock
+  | QrCodeBlock
+  | BarcodeBlock
+  | FeedBlock
+  | CutBlock
+  | DrawerBlock;
+
+/** 1-bit raster, rows packed MSB-first, `width` a multiple of 8 */
+export interface PrintLogo {
+  bitmap: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface RenderableTemplate {
+  paperWidth: PaperWidth;
+  blocks: PrintBlock[];
+  variables?: Record<string, unknown>;
+  logo?: PrintLogo | null;
+}
+
+export interface RenderedPrintJob {
+  /** Raw ESC/POS byte stream */
+  bytes: Buffer;
+  /** Plain-text approximation of the printout */
+  preview: string;
+}
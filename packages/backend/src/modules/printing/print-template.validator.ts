@@ -0,0 +1,139 @@
+import { BadRequestException } from '@nestjs/common';
+import { BARCODE_SYMBOLOGIES, PRINT_BLOCK_TYPES } from './print-template.types';
+import type { PrintBlock } from './print-template.types';
+import { MAX_BLOCK_DEPTH } from './template-renderer';
+
+const ALIGNS = ['left', 'center', 'right'];
+const TEXT_SIZES = ['normal', 'double-width', 'double-height', 'double'];
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * Checks designer input block by block so a bad layout is rejected with the
+ * path of the offending field instead of failing later at print time.
+ */
+export function parsePrintBlocks(raw: unknown, path = 'blocks', depth = 0): PrintBlock[] {
+  if (!Array.isArray(raw)) {
+    throw new BadRequestException(`${path} must be an array`);
+  }
+  if (depth > MAX_BLOCK_DEPTH) {
+    throw new BadRequestException(`${path} is nested more than ${MAX_BLOCK_DEPTH} levels deep`);
+  }
+
+  return raw.map((value: unknown, index) => {
+    const at = `${path}[${index}]`;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new BadRequestException(`${at} must be an object`);
+    }
+    const block = value as Record<string, unknown>;
+
+    if (!(PRINT_BLOCK_TYPES as readonly unknown[]).includes(block.type)) {
+      throw new BadRequestException(`${at}.type must be one of ${PRINT_BLOCK_TYPES.join(', ')}`);
+    }
+    optionalString(block, 'when', at, 200);
+    optionalEnum(block, 'align', at, ALIGNS);
+
+    switch (block.type) {
+      case 'text':
+        requiredString(block, 'content', at);
+        optionalEnum(block, 'size', at, TEXT_SIZES);
+        optionalBoolean(block, 'bold', at);
+        optionalBoolean(block, 'underline', at);
+        break;
+      case 'separator':
+        optionalString(block, 'char', at, 1);
+        break;
+      case 'row':
+        requiredString(block, 'left', at, true);
+        requiredString(block, 'right', at, true);
+        optionalBoolean(block, 'bold', at);
+        break;
+      case 'each':
+        requiredString(block, 'source', at);
+        optionalString(block, 'as', at, 30);
+        if (block.as !== undefined && !/^[A-Za-z]\w*$/.test(block.as as string)) {
+          throw new BadRequestException(`${at}.as must be a simple name`);
+        }
+        block.blocks = parsePrintBlocks(block.blocks, `${at}.blocks`, depth + 1);
+        break;
+      case 'group':
+        block.blocks = parsePrintBlocks(block.blocks, `${at}.blocks`, depth + 1);
+        break;
+      case 'qrcode':
+        requiredString(block, 'data', at);
+        optionalInt(block, 'size', at, 1, 16);
+        break;
+      case 'barcode':
+        requiredString(block, 'data', at);
+        optionalEnum(block, 'symbology', at, BARCODE_SYMBOLOGIES);
+        optionalInt(block, 'height', at, 1, 255);
+        optionalBoolean(block, 'showText', at);
+        break;
+      case 'feed':
+        optionalInt(block, 'lines', at, 1, 10);
+        break;
+      case 'cut':
+        optionalBoolean(block, 'partial', at);
+        break;
+    }
+
+    return block as unknown as PrintBlock;
+  });
+}
+
+function requiredString(
+  block: Record<string, unknown>,
+  key: string,
+  at: string,
+  allowEmpty = false,
+): void {
+  const value = block[key];
+  if (typeof value !== 'string' || (!allowEmpty && value.trim() === '')) {
+    throw new BadRequestException(`${at}.${key} is required`);
+  }
+  optionalString(block, key, at, MAX_TEXT_LENGTH);
+}
+
+function optionalString(
+  block: Record<string, unknown>,
+  key: string,
+  at: string,
+  maxLength: number,
+): void {
+  const value = block[key];
+  if (value === undefined) return;
+  if (typeof value !== 'string' || value.length > maxLength) {
+    throw new BadRequestException(`${at}.${key} must be text of at most ${maxLength} characters`);
+  }
+}
+
+function optionalEnum(
+  block: Record<string, unknown>,
+  key: string,
+  at: string,
+  allowed: readonly string[],
+): void {
+  const value = block[key];
+  if (value !== undefined && !allowed.includes(value as string)) {
+    throw new BadRequestException(`${at}.${key} must be one of ${allowed.join(', ')}`);
+  }
+}
+
+function optionalBoolean(block: Record<string, unknown>, key: string, at: string): void {
+  if (block[key] !== undefined && typeof block[key] !== 'boolean') {
+    throw new BadRequestException(`${at}.${key} must be a boolean`);
+  }
+}
+
+function optionalInt(
+  block: Record<string, unknown>,
+  key: string,
+  at: string,
+  min: number,
+  max: number,
+): void {
+  const value = block[key];
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new BadRequestException(`${at}.${key} must be an integer from ${min} to ${max}`);
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  CreatePrintTemplateDto,
+  PreviewPrintTemplateDto,
+  PrintTemplateQueryDto,
+  PRINT_TEMPLATE_KINDS,
+  RenderPrintJobDto,
+  UpdatePrintTemplateDto,
+} from '../../application/dtos/print-template.dto';
+import type { PrintTemplateKindValue } from '../../application/dtos/print-template.dto';
+import { PrintTemplatesService } from './print-templates.service';
+
+const LOGO_MIMES = ['image/jpeg', 'image/png', 'image/webp'];
+
+@ApiTags('Print Templates')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('print-templates')
+export class PrintTemplatesController {
+  constructor(private readonly printTemplatesService: PrintTemplatesService) {}
+
+  // ==================== Static routes (before :id) ====================
+
+  @Get()
+  @RequirePermission('print_templates.view')
+  @ApiOperation({ summary: 'List receipt and kitchen ticket templates' })
+  async list(@Query() query: PrintTemplateQueryDto, @CurrentUser() user: AuthUser) {
+    return this.printTemplatesService.list(user.businessId, query);
+  }
+
+  @Get('built-in/:kind')
+  @RequirePermission('print_templates.view')
+  @ApiOperation({ summary: 'Built-in layout to start a new template from' })
+  async getBuiltIn(@Param('kind') kind: string) {
+    if (!(PRINT_TEMPLATE_KINDS as readonly string[]).includes(kind)) {
+      throw new BadRequestException(`kind must be one of ${PRINT_TEMPLATE_KINDS.join(', ')}`);
+    }
+    return this.printTemplatesService.getBuiltIn(kind as PrintTemplateKindValue);
+  }
+
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('print_templates.view')
+  @ApiOperation({ summary: 'Render a template to ESC/POS and a text preview' })
+  async preview(@Body() dto: PreviewPrintTemplateDto, @CurrentUser() user: AuthUser) {
+    return this.printTemplatesService.preview(user, dto);
+  }
+
+  @Post('receipts/:transactionId/render')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('receipts.print')
+  @ApiOperation({ summary: 'Render the receipt of a sale as ESC/POS bytes' })
+  async renderReceipt(
+    @Param('transactionId', ParseUUIDPipe) transactionId: string,
+    @Body() dto: RenderPrintJobDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.printTemplatesService.renderReceipt(user, transactionId, dto.templateId);
+  }
+
+  @Post('kitchen-tickets/:orderId/render')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('kitchen_tickets.print')
+  @ApiOperation({ summary: 'Render kitchen tickets of an order, one per station printer' })
+  async renderKitchenTickets(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.printTemplatesService.renderKitchenTickets(user, orderId);
+  }
+
+  @Post()
+  @RequirePermission('print_templates.manage')
+  @ApiOperation({ summary: 'Create a print template' })
+  async create(@Body() dto: CreatePrintTemplateDto, @CurrentUser() user: AuthUser) {
+    return this.printTemplatesService.create(user, dto);
+  }
+
+  // ==================== Single template ====================
+
+  @Get(':id')
+  @RequirePermission('print_templates.view')
+  @ApiOperation({ summary: 'Get a print template' })
+  async get(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.printTemplatesService.get(user.businessId, id);
+  }
+
+  @Put(':id')
+  @RequirePermission('print_templates.manage')
+  @ApiOperation({ summary: 'Update a print template' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdatePrintTemplateDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.printTemplatesService.update(user.businessId, id, dto);
+  }
+
+  @Delete(':id')
+  @RequirePermission('print_templates.manage')
+  @ApiOperation({ summary: 'Delete a print template' })
+  async remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    await this.printTemplatesService.remove(user.businessId, id);
+    return { message: 'Print template deleted' };
+  }
+
+  @Post(':id/logo')
+  @RequirePermission('print_templates.manage')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } },
+  })
+  @ApiOperation({ summary: 'Upload a logo, converted to a 1-bit printer bitmap' })
+  async uploadLogo(
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: AuthUser,
+  ) {
+    if (!file) throw new BadRequestException('No file uploaded');
+    if (!LOGO_MIMES.includes(file.mimetype)) {
+      throw new BadRequestException('Only JPEG, PNG, and WebP images are allowed');
+    }
+    if (file.size > 2 * 1024 * 1024) {
+      throw new BadRequestException('File size must be under 2MB');
+    }
+    return this.printTemplatesService.uploadLogo(user.businessId, id, file.buffer);
+  }
+
+  @Delete(':id/logo')
+  @RequirePermission('print_templates.manage')
+  @ApiOperation({ summary: 'Remove the logo from a template' })
+  async removeLogo(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.printTemplatesService.removeLogo(user.businessId, id);
+  }
+}
@@ -0,0 +1,626 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type { PrintTemplate, PrintTemplateKind } from '@prisma/client';
+import sharp from 'sharp';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { PrinterConfigRepository } from '../../infrastructure/repositories/settings';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import type {
+  CreatePrintTemplateDto,
+  PreviewPrintTemplateDto,
+  PrintTemplateQueryDto,
+  UpdatePrintTemplateDto,
+} from '../../application/dtos/print-template.dto';
+import { DEFAULT_KITCHEN_TICKET_BLOCKS, DEFAULT_RECEIPT_BLOCKS } from './default-templates';
+import { PAPER_GEOMETRY } from './print-template.types';
+import type { PaperWidth, PrintBlock, RenderableTemplate } from './print-template.types';
+import { parsePrintBlocks } from './print-template.validator';
+import { renderTemplate } from './template-renderer';
+
+/** Tallest logo kept after upload, in dots */
+const MAX_LOGO_HEIGHT = 240;
+
+/** "2x" for counted items, "1,25 kg" for weighed ones */
+function quantityLabel(quantity: number, unit: string | null): string {
+  if (!unit) return `${quantity}x`;
+  return `${quantity.toLocaleString('id-ID', { maximumFractionDigits: 3 })} ${unit}`;
+}
+
+const BUILT_IN_BLOCKS: Record<PrintTemplateKind, PrintBlock[]> = {
+  receipt: DEFAULT_RECEIPT_BLOCKS,
+  kitchen_ticket: DEFAULT_KITCHEN_TICKET_BLOCKS,
+};
+
+const templateSelect = {
+  id: true,
+  businessId: true,
+  outletId: true,
+  name: true,
+  kind: true,
+  paperWidth: true,
+  blocks: true,
+  variables: true,
+  logoWidth: true,
+  logoHeight: true,
+  isDefault: true,
+  isActive: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.PrintTemplateSelect;
+
+interface ResolvedTemplate extends RenderableTemplate {
+  /** null for the built-in layout */
+  id: string | null;
+}
+
+export interface RenderedPrintJobResponse {
+  templateId: string | null;
+  paperWidth: PaperWidth;
+  /** ESC/POS bytes, base64 encoded */
+  data: string;
+  preview: string;
+}
+
+@Injectable()
+export class PrintTemplatesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly printerConfigs: PrinterConfigRepository,
+  ) {}
+
+  // ==================== Templates ====================
+
+  async list(businessId: string, query: PrintTemplateQueryDto) {
+    return this.prisma.printTemplate.findMany({
+      where: {
+        businessId,
+        ...(query.kind && { kind: query.kind }),
+        ...(query.outletId && { OR: [{ outletId: query.outletId }, { outletId: null }] }),
+      },
+      select: templateSelect,
+      orderBy: [{ kind: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async get(businessId: string, id: string) {
+    const template = await this.prisma.printTemplate.findFirst({
+      where: { id, businessId },
+      select: templateSelect,
+    });
+    if (!template) {
+      throw new NotFoundException('Print template not found');
+    }
+    return template;
+  }
+
+  getBuiltIn(kind: PrintTemplateKind) {
+    return { kind, paperWidth: 80, blocks: BUILT_IN_BLOCKS[kind], variables: {} };
+  }
+
+  async create(user: AuthUser, dto: CreatePrintTemplateDto) {
+    if (dto.outletId) {
+      await this.assertOutlet(user.businessId, dto.outletId);
+    }
+    const blocks = dto.blocks ? parsePrintBlocks(dto.blocks) : BUILT_IN_BLOCKS[dto.kind];
+
+    return this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await this.clearDefault(tx, user.businessId, dto.kind, dto.outletId ?? null);
+      }
+      return tx.printTemplate.create({
+        data: {
+          businessId: user.businessId,
+          outletId: dto.outletId ?? null,
+          name: dto.name,
+          kind: dto.kind,
+          paperWidth: dto.paperWidth ?? 80,
+          blocks: blocks as unknown as Prisma.InputJsonValue,
+          variables: (dto.variables ?? {}) as Prisma.InputJsonValue,
+          isDefault: dto.isDefault ?? false,
+          createdBy: user.employeeId,
+        },
+        select: templateSelect,
+      });
+    });
+  }
+
+  async update(businessId: string, id: string, dto: UpdatePrintTemplateDto) {
+    const existing = await this.get(businessId, id);
+    const blocks = dto.blocks ? parsePrintBlocks(dto.blocks) : undefined;
+
+    return this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await this.clearDefault(tx, businessId, existing.kind, existing.outletId);
+      }
+      return tx.printTemplate.update({
+        where: { id },
+        data: {
+          ...(dto.name !== undefined && { name: dto.name }),
+          ...(dto.paperWidth !== undefined && { paperWidth: dto.paperWidth }),
+          ...(blocks && { blocks: blocks as unknown as Prisma.InputJsonValue }),
+          ...(dto.variables !== undefined && {
+            variables: dto.variables as Prisma.InputJsonValue,
+          }),
+          ...(dto.isDefault !== undefined && { isDefault: dto.isDefault }),
+          ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+        },
+        select: templateSelect,
+      });
+    });
+  }
+
+  async remove(businessId: string, id: string): Promise<void> {
+    await this.get(businessId, id);
+    await this.prisma.printTemplate.delete({ where: { id } });
+  }
+
+  /**
+   * Converts an uploaded image to the 1-bit raster printers expect: flattened
+   * on white, scaled to fit the paper, thresholded and packed 8 dots a byte.
+   */
+  async uploadLogo(businessId: string, id: string, image: Buffer) {
+    const template = await this.get(businessId, id);
+    const maxWidth = PAPER_GEOMETRY[template.paperWidth as PaperWidth].dots;
+
+    let raster: { data: Buffer; info: sharp.OutputInfo };
+    try {
+      raster = await sharp(image)
+        .flatten({ background: '#ffffff' })
+        .resize({
+          width: maxWidth,
+          height: MAX_LOGO_HEIGHT,
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .toColourspace('b-w')
+        .threshold(128)
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    } catch {
+      throw new BadRequestException('Logo could not be read as an image');
+    }
+
+    const { width, height, channels } = raster.info;
+    const rowBytes = Math.ceil(width / 8);
+    const bitmap = Buffer.alloc(rowBytes * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (raster.data[(y * width + x) * channels] < 128) {
+          bitmap[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+      }
+    }
+
+    return this.prisma.printTemplate.update({
+      where: { id },
+      data: { logoBitmap: bitmap, logoWidth: rowBytes * 8, logoHeight: height },
+      select: templateSelect,
+    });
+  }
+
+  async removeLogo(businessId: string, id: string) {
+    await this.get(businessId, id);
+    return this.prisma.printTemplate.update({
+      where: { id },
+      data: { logoBitmap: null, logoWidth: null, logoHeight: null },
+      select: templateSelect,
+    });
+  }
+
+  // ==================== Rendering ====================
+
+  /** Renders saved or unsaved designer blocks against a sale or sample data */
+  async preview(user: AuthUser, dto: PreviewPrintTemplateDto): Promise<RenderedPrintJobResponse> {
+    const saved = dto.templateId
+      ? await this.resolveTemplate(user.businessId, dto.kind, null, dto.templateId, true)
+      : null;
+    const template: ResolvedTemplate = {
+      id: saved?.id ?? null,
+      paperWidth: (dto.paperWidth ?? saved?.paperWidth ?? 80) as PaperWidth,
+      blocks: dto.blocks
+        ? parsePrintBlocks(dto.blocks)
+        : (saved?.blocks ?? BUILT_IN_BLOCKS[dto.kind]),
+      variables: dto.variables ?? saved?.variables ?? {},
+      logo: saved?.logo ?? null,
+    };
+
+    let context: Record<string, unknown>;
+    let timeZone: string | undefined;
+    if (dto.kind === 'receipt' && dto.transactionId) {
+      ({ context, timeZone } = await this.loadReceiptContext(user.businessId, dto.transactionId));
+    } else {
+      const business = await this.prisma.business.findUnique({
+        where: { id: user.businessId },
+        select: { name: true },
+      });
+      context = sampleContext(dto.kind, business?.name ?? 'Toko Contoh');
+    }
+
+    return this.toResponse(template, context, timeZone);
+  }
+
+  async renderReceipt(
+    user: AuthUser,
+    transactionId: string,
+    templateId?: string,
+  ): Promise<RenderedPrintJobResponse & { transactionId: string }> {
+    const { context, timeZone, outletId, paperWidth } = await this.loadReceiptContext(
+      user.businessId,
+      transactionId,
+    );
+    const template = await this.resolveTemplate(
+      user.businessId,
+      'receipt',
+      outletId,
+      templateId,
+      Boolean(templateId),
+    );
+    if (!template.id) {
+      template.paperWidth = paperWidth;
+    }
+
+    return { transactionId, ...this.toResponse(template, context, timeZone) };
+  }
+
+  /**
+   * One ticket per active kitchen printer of the order's outlet, holding only
+   * the items of the stations that printer serves. Without kitchen printers
+   * the whole order comes back as a single ticket.
+   */
+  async renderKitchenTickets(user: AuthUser, orderId: string) {
+    const order = await this.prisma.order.findFirst({
+      where: { id: orderId, outlet: { businessId: user.businessId } },
+      include: {
+        items: { orderBy: { createdAt: 'asc' } },
+        table: { select: { name: true } },
+        outlet: { select: { id: true, name: true, timezone: true } },
+      },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const items = order.items.map((item) => ({
+      productName: item.productName,
+      quantity: item.quantity,
+      notes: item.notes,
+      station: item.station ?? 'general',
+    }));
+    const base = {
+      outlet: { name: order.outlet.name },
+      order: {
+        orderNumber: order.orderNumber,
+        orderType: order.orderType,
+        tableName: order.table?.name ?? null,
+        notes: order.notes,
+        createdAt: order.createdAt,
+      },
+    };
+
+    const printers = (await this.printerConfigs.getPrinterConfigs(user.businessId)).filter(
+      (printer) =>
+        printer.type === 'kitchen' && printer.isActive && printer.outletId === order.outletId,
+    );
+    const targets = printers.length
+      ? printers
+      : [
+          {
+            id: null,
+            name: null,
+            stations: [],
+            templateId: null,
+            paperWidth: undefined,
+            copies: 1,
+          },
+        ];
+
+    const tickets = [];
+    for (const printer of targets) {
+      const stations = printer.stations ?? [];
+      const ticketItems = stations.length
+        ? items.filter((item) => stations.includes(item.station))
+        : items;
+      if (!ticketItems.length) continue;
+
+      const template = await this.resolveTemplate(
+        user.businessId,
+        'kitchen_ticket',
+        order.outletId,
+        printer.templateId ?? undefined,
+        false,
+      );
+      if (printer.paperWidth) {
+        template.paperWidth = printer.paperWidth;
+      }
+
+      const context = {
+        ...base,
+        items: ticketItems,
+        station: stations.join(' / '),
+        printer: { name: printer.name },
+      };
+      tickets.push({
+        printerId: printer.id,
+        printerName: printer.name,
+        stations,
+        copies: printer.copies,
+        ...this.toResponse(template, context, order.outlet.timezone),
+      });
+    }
+
+    return { orderId, tickets };
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * Explicit template, else the outlet's default, else the business-wide
+   * default, else the built-in layout. A stale id (e.g. on a printer config)
+   * falls back unless `strict` is set.
+   */
+  private async resolveTemplate(
+    businessId: string,
+    kind: PrintTemplateKind,
+    outletId: string | null,
+    templateId: string | undefined,
+    strict: boolean,
+  ): Promise<ResolvedTemplate> {
+    let template: PrintTemplate | null = null;
+
+    if (templateId) {
+      template = await this.prisma.printTemplate.findFirst({
+        where: { id: templateId, businessId, kind, isActive: true },
+      });
+      if (!template && strict) {
+        throw new NotFoundException('Print template not found');
+      }
+    }
+
+    if (!template) {
+      const defaults = await this.prisma.printTemplate.findMany({
+        where: {
+          businessId,
+          kind,
+          isActive: true,
+          isDefault: true,
+          OR: [{ outletId }, { outletId: null }],
+        },
+      });
+      template = defaults.find((t) => t.outletId !== null) ?? defaults[0] ?? null;
+    }
+
+    if (!template) {
+      return { id: null, paperWidth: 80, blocks: BUILT_IN_BLOCKS[kind], variables: {} };
+    }
+
+    return {
+      id: template.id,
+      paperWidth: template.paperWidth as PaperWidth,
+      blocks: template.blocks as unknown as PrintBlock[],
+      variables: (template.variables as Record<string, unknown>) ?? {},
+      logo:
+        template.logoBitmap && template.logoWidth && template.logoHeight
+          ? {
+              bitmap: Buffer.from(template.logoBitmap),
+              width: template.logoWidth,
+              height: template.logoHeight,
+            }
+          : null,
+    };
+  }
+
+  private async loadReceiptContext(businessId: string, transactionId: string) {
+    const transaction = await this.prisma.transaction.findFirst({
+      where: { id: transactionId, outlet: { businessId } },
+      include: {
+        items: {
+          include: { modifiers: true, product: { select: { isWeighed: true, sellUnit: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        payments: { orderBy: { createdAt: 'asc' } },
+        outlet: {
+          include: {
+            business: { select: { name: true, address: true, phone: true, taxId: true } },
+          },
+        },
+        employee: { select: { name: true } },
+        customer: { select: { name: true, phone: true, loyaltyPoints: true } },
+        table: { select: { name: true } },
+      },
+    });
+    if (!transaction) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    const { outlet } = transaction;
+    const outletSettings = (outlet.settings as Record<string, unknown>) || {};
+    const receipt = (outletSettings.receiptTemplate as Record<string, unknown>) || {};
+    const paid = transaction.payments.reduce((sum, p) => sum + Number(p.amount), 0);
+
+    const context = {
+      business: outlet.business,
+      outlet: { name: outlet.name, address: outlet.address, phone: outlet.phone },
+      employee: { name: transaction.employee?.name ?? '-' },
+      customer: transaction.customer,
+      header: outlet.receiptHeader || '',
+      footer: outlet.receiptFooter || (receipt.customMessage as string) || '',
+      settings: {
+        showLogo: Boolean(receipt.showLogo ?? outletSettings.showLogo ?? true),
+        showAddress: Boolean(receipt.showAddress ?? true),
+        showPhone: Boolean(receipt.showPhone ?? true),
+        showTaxDetails: Boolean(receipt.showTaxDetails ?? outletSettings.showTaxDetails ?? true),
+        showPaymentMethod: Boolean(receipt.showPaymentMethod ?? true),
+        showQRCode: Boolean(outletSettings.showQRCode ?? true),
+      },
+      transaction: {
+        receiptNumber: transaction.receiptNumber,
+        offlineReceiptNumber: transaction.offlineReceiptNumber,
+        transactionType: transaction.transactionType,
+        orderType: transaction.orderType,
+        status: transaction.status,
+        tableName: transaction.table?.name ?? null,
+        notes: transaction.notes,
+        createdAt: transaction.createdAt,
+        subtotal: Number(transaction.subtotal),
+        discountAmount: Number(transaction.discountAmount),
+        taxAmount: Number(transaction.taxAmount),
+        serviceCharge: Number(transaction.serviceCharge),
+        grandTotal: Number(transaction.grandTotal),
+        change: Math.max(paid - Number(transaction.grandTotal), 0),
+        items: transaction.items.map((item) => {
+          const unit = item.product?.isWeighed ? (item.product.sellUnit ?? 'kg') : null;
+          return {
+            productName: item.productName,
+            variantName: item.variantName,
+            quantity: Number(item.quantity),
+            quantityLabel: quantityLabel(Number(item.quantity), unit),
+            unit,
+            unitPrice: Number(item.unitPrice),
+            discountAmount: Number(item.discountAmount),
+            subtotal: Number(item.subtotal),
+            notes: item.notes,
+            modifiers: item.modifiers.map((modifier) => ({
+              name: modifier.modifierName,
+              price: Number(modifier.price),
+              quantity: modifier.quantity,
+            })),
+          };
+        }),
+        payments: transaction.payments.map((payment) => ({
+          method: payment.paymentMethod,
+          amount: Number(payment.amount),
+          referenceNumber: payment.referenceNumber,
+        })),
+      },
+    };
+
+    const paperSize = receipt.paperWidth ?? outletSettings.paperSize;
+    return {
+      context,
+      timeZone: outlet.timezone,
+      outletId: outlet.id,
+      paperWidth: (paperSize === '58mm' ? 58 : 80) as PaperWidth,
+    };
+  }
+
+  private toResponse(
+    template: ResolvedTemplate,
+    context: Record<string, unknown>,
+    timeZone?: string,
+  ): RenderedPrintJobResponse {
+    const job = renderTemplate(template, context, { timeZone });
+    return {
+      templateId: template.id,
+      paperWidth: template.paperWidth,
+      data: job.bytes.toString('base64'),
+      preview: job.preview,
+    };
+  }
+
+  private async clearDefault(
+    tx: Prisma.TransactionClient,
+    businessId: string,
+    kind: PrintTemplateKind,
+    outletId: string | null,
+  ): Promise<void> {
+    await tx.printTemplate.updateMany({
+      where: { businessId, kind, outletId, isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+
+  private async assertOutlet(businessId: string, outletId: string): Promise<void> {
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: outletId, businessId },
+      select: { id: true },
+    });
+    if (!outlet) {
+      throw new NotFoundException('Outlet not found');
+    }
+  }
+}
+
+/** Representative data for previewing a layout in the designer */
+function sampleContext(kind: PrintTemplateKind, businessName: string): Record<string, unknown> {
+  const createdAt = new Date();
+
+  if (kind === 'kitchen_ticket') {
+    return {
+      outlet: { name: 'Outlet Utama' },
+      order: {
+        orderNumber: 'A-042',
+        orderType: 'dine_in',
+        tableName: '12',
+        notes: 'Alergi kacang',
+        createdAt,
+      },
+      station: 'grill',
+      printer: { name: 'Dapur' },
+      items: [
+        { productName: 'Ayam Bakar', quantity: 2, notes: 'Pedas', station: 'grill' },
+        { productName: 'Sate Kambing', quantity: 1, notes: null, station: 'grill' },
+      ],
+    };
+  }
+
+  return {
+    business: { name: businessName, address: null, phone: null, taxId: null },
+    outlet: { name: 'Outlet Utama', address: 'Jl. Merdeka No. 1, Jakarta', phone: '021-555-0101' },
+    employee: { name: 'Siti' },
+    customer: { name: 'Budi', phone: '0812-0000-0000', loyaltyPoints: 120 },
+    header: '',
+    footer: '',
+    settings: {
+      showLogo: true,
+      showAddress: true,
+      showPhone: true,
+      showTaxDetails: true,
+      showPaymentMethod: true,
+      showQRCode: true,
+    },
+    transaction: {
+      receiptNumber: 'TXN-0001',
+      offlineReceiptNumber: null,
+      transactionType: 'sale',
+      orderType: 'dine_in',
+      status: 'completed',
+      tableName: '12',
+      notes: null,
+      createdAt,
+      subtotal: 65000,
+      discountAmount: 5000,
+      taxAmount: 6600,
+      serviceCharge: 0,
+      grandTotal: 66600,
+      change: 3400,
+      items: [
+        {
+          productName: 'Nasi Goreng Spesial',
+          variantName: 'Pedas',
+          quantity: 2,
+          quantityLabel: '2x',
+          unit: null,
+          unitPrice: 25000,
+          discountAmount: 0,
+          subtotal: 50000,
+          notes: null,
+          modifiers: [{ name: 'Telur Ceplok', price: 0, quantity: 1 }],
+        },
+        {
+          productName: 'Es Teh Manis',
+          variantName: null,
+          quantity: 1,
+          quantityLabel: '1x',
+          unit: null,
+          unitPrice: 15000,
+          discountAmount: 0,
+          subtotal: 15000,
+          notes: null,
+          modifiers: [],
+        },
+      ],
+      payments: [{ method: 'cash', amount: 70000, referenceNumber: null }],
+    },
+  };
+}
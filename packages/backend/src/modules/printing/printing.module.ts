@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PrintTemplatesController } from './print-templates.controller';
+import { PrintTemplatesService } from './print-templates.service';
+import { PrinterConfigRepository } from '../../infrastructure/repositories/settings';
+
+@Module({
+  controllers: [PrintTemplatesController],
+  providers: [PrintTemplatesService, PrinterConfigRepository],
+  exports: [PrintTemplatesService],
+})
+export class PrintingModule {}
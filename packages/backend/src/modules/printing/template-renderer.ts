@@ -0,0 +1,230 @@
+import { EscPosEncoder, isValidBarcode } from './escpos.encoder';
+import type { PrintBlock, RenderableTemplate, RenderedPrintJob } from './print-template.types';
+
+/** Nesting limit for `each` / `group` blocks */
+export const MAX_BLOCK_DEPTH = 6;
+
+export interface RenderOptions {
+  /** IANA zone for the date and time filters; defaults to Asia/Jakarta */
+  timeZone?: string;
+}
+
+type PrintContext = Record<string, unknown>;
+
+const VARIABLE = /\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+const COMPARISON = /^([\w.]+)\s*(==|!=|>=|<=|>|<)\s*(.+)$/;
+
+export function renderTemplate(
+  template: RenderableTemplate,
+  context: PrintContext,
+  options: RenderOptions = {},
+): RenderedPrintJob {
+  const encoder = new EscPosEncoder(template.paperWidth);
+  const scope: PrintContext = { ...context, vars: template.variables ?? {} };
+
+  renderBlocks(encoder, template, template.blocks, scope, options, 0);
+
+  return { bytes: encoder.encode(), preview: encoder.preview() };
+}
+
+function renderBlocks(
+  encoder: EscPosEncoder,
+  template: RenderableTemplate,
+  blocks: PrintBlock[],
+  scope: PrintContext,
+  options: RenderOptions,
+  depth: number,
+): void {
+  if (depth > MAX_BLOCK_DEPTH) return;
+
+  for (const block of blocks) {
+    if (block.when && !evaluateCondition(block.when, scope)) continue;
+    const fill = (text: string) => interpolate(text, scope, options);
+
+    switch (block.type) {
+      case 'text':
+        encoder.text(fill(block.content), block);
+        break;
+      case 'separator':
+        encoder.separator(block.char);
+        break;
+      case 'row':
+        encoder.row(fill(block.left), fill(block.right), block.bold);
+        break;
+      case 'each': {
+        const items = resolvePath(scope, block.source);
+        if (!Array.isArray(items)) break;
+        const alias = block.as || 'item';
+        items.forEach((item: unknown, index) => {
+          const itemScope = { ...scope, [alias]: item, index: index + 1 };
+          renderBlocks(encoder, template, block.blocks, itemScope, options, depth + 1);
+        });
+        break;
+      }
+      case 'group':
+        renderBlocks(encoder, template, block.blocks, scope, options, depth + 1);
+        break;
+      case 'logo':
+        if (template.logo) encoder.raster(template.logo, block.align);
+        break;
+      case 'qrcode': {
+        const data = fill(block.data);
+        if (data) encoder.qrcode(data, block.size, block.align);
+        break;
+      }
+      case 'barcode': {
+        const data = fill(block.data);
+        const symbology = block.symbology ?? 'CODE128';
+        // A bad value must not stop the receipt; print it as text instead
+        if (isValidBarcode(data, symbology)) {
+          encoder.barcode(data, symbology, block);
+        } else if (data) {
+          encoder.text(data, { align: block.align ?? 'center' });
+        }
+        break;
+      }
+      case 'feed':
+        encoder.feed(block.lines);
+        break;
+      case 'cut':
+        encoder.cut(block.partial);
+        break;
+      case 'drawer':
+        encoder.openDrawer();
+        break;
+    }
+  }
+}
+
+export function resolvePath(scope: PrintContext, path: string): unknown {
+  let value: unknown = scope;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+export function interpolate(
+  text: string,
+  scope: PrintContext,
+  options: RenderOptions = {},
+): string {
+  return text.replace(VARIABLE, (_match, path: string, filter?: string) =>
+    applyFilter(resolvePath(scope, path), filter, options),
+  );
+}
+
+/** Evaluates a block's `when` expression against the print context */
+export function evaluateCondition(expression: string, scope: PrintContext): boolean {
+  const trimmed = expression.trim();
+  if (trimmed.startsWith('!')) return !evaluateCondition(trimmed.slice(1), scope);
+
+  const comparison = COMPARISON.exec(trimmed);
+  if (!comparison) return isTruthy(resolvePath(scope, trimmed));
+
+  const [, path, operator, rawOperand] = comparison;
+  const value = resolvePath(scope, path);
+  const quoted = /^'(.*)'$|^"(.*)"$/.exec(rawOperand.trim());
+
+  if (quoted) {
+    const operand = quoted[1] ?? quoted[2];
+    const text = value === null || value === undefined ? '' : String(value);
+    if (operator === '==') return text === operand;
+    if (operator === '!=') return text !== operand;
+    return false;
+  }
+
+  const left = toNumber(value);
+  const right = Number(rawOperand);
+  if (left === null || Number.isNaN(right)) return operator === '!=';
+
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case '<':
+      return left < right;
+    default:
+      return left <= right;
+  }
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  const number = typeof value === 'object' && value !== null ? toNumber(value) : null;
+  if (number !== null) return number !== 0;
+  return Boolean(value);
+}
+
+/** Numbers, numeric strings and Prisma Decimals */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  if (value && typeof value === 'object' && 'toNumber' in value) {
+    return (value as { toNumber(): number }).toNumber();
+  }
+  return null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function applyFilter(value: unknown, filter: string | undefined, options: RenderOptions): string {
+  if (value === null || value === undefined) return '';
+  const timeZone = options.timeZone || 'Asia/Jakarta';
+
+  switch (filter) {
+    case 'currency': {
+      const amount = toNumber(value);
+      return amount === null ? '' : `Rp${amount.toLocaleString('id-ID')}`;
+    }
+    case 'number': {
+      const amount = toNumber(value);
+      return amount === null ? '' : amount.toLocaleString('id-ID');
+    }
+    case 'date':
+    case 'time':
+    case 'datetime': {
+      const date = toDate(value);
+      if (!date) return '';
+      const day = date.toLocaleDateString('id-ID', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        timeZone,
+      });
+      const time = date.toLocaleTimeString('id-ID', {
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone,
+      });
+      if (filter === 'date') return day;
+      if (filter === 'time') return time;
+      return `${day} ${time}`;
+    }
+    case 'upper':
+      return String(value).toUpperCase();
+    case 'lower':
+      return String(value).toLowerCase();
+    default: {
+      if (value instanceof Date) return value.toISOString();
+      const number = typeof value === 'object' ? toNumber(value) : null;
+      return number !== null ? String(number) : String(value);
+    }
+  }
+}
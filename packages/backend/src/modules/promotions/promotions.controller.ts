@@ -11,15 +11,18 @@ import {
   UseGuards,
   Inject,
   NotFoundException,
+  BadRequestException,
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import type { Response } from 'express';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import type { IPromotionRepository } from '../../domain/interfaces/repositories/promotion.repository';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
@@ -27,12 +30,15 @@ import { ApplyPromotionUseCase } from '../../application/use-cases/promotions/ap
 import { ValidateVoucherUseCase } from '../../application/use-cases/promotions/validate-voucher.use-case';
 import { GenerateVoucherBatchUseCase } from '../../application/use-cases/promotions/generate-voucher-batch.use-case';
 import { GenerateVoucherBatchDto } from '../../application/dtos/voucher-batch.dto';
+import { ApplyPromotionDto, CreatePromotionDto } from '../../application/dtos/promotion.dto';
+import { validatePromotionRules } from '../../application/services/promotion-rules.engine';
+import type { PromotionRules } from '../../application/services/promotion-rules.types';
 import { randomBytes } from 'crypto';
 import { BusinessScoped } from '../../shared/guards/business-scope.guard';
 
 @ApiTags('Promotions')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('promotions')
 export class PromotionsController {
   constructor(
@@ -45,30 +51,18 @@ export class PromotionsController {
   ) {}
 
   @Get()
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get all promotions for business' })
   async list(@CurrentUser() user: AuthUser) {
     return this.promotionRepo.findByBusinessId(user.businessId);
   }
 
   @Post()
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('promotions.manage')
   @ApiOperation({ summary: 'Create a new promotion' })
-  async create(
-    @Body()
-    dto: {
-      name: string;
-      description?: string;
-      discountType: 'percentage' | 'fixed' | 'bogo';
-      discountValue: number;
-      minPurchase?: number;
-      maxDiscount?: number;
-      validFrom: string;
-      validUntil: string;
-      usageLimit?: number;
-      applicableTo?: Record<string, unknown>;
-    },
-    @CurrentUser() user: AuthUser,
-  ) {
+  async create(@Body() dto: CreatePromotionDto, @CurrentUser() user: AuthUser) {
+    if (dto.rules) this.assertValidRules(dto.rules as PromotionRules);
+
     return this.promotionRepo.save({
       businessId: user.businessId,
       name: dto.name,
@@ -81,12 +75,17 @@ export class PromotionsController {
       validUntil: new Date(dto.validUntil),
       usageLimit: dto.usageLimit || null,
       applicableTo: dto.applicableTo || {},
+      rules: (dto.rules as unknown as Record<string, unknown>) ?? null,
+      priority: dto.priority,
+      stackable: dto.stackable,
+      exclusivityGroup: dto.exclusivityGroup || null,
     });
   }
 
   // ==================== Voucher Endpoints (must be BEFORE :id) ====================
 
   @Get('vouchers')
+  @WithoutPermission()
   @ApiOperation({ summary: 'List all vouchers for business' })
   async listVouchers(@Query('search') search: string | undefined, @CurrentUser() user: AuthUser) {
     const where: Record<string, unknown> = { businessId: user.businessId };
@@ -123,7 +122,7 @@ export class PromotionsController {
   }
 
   @Post('vouchers/generate')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('promotions.manage')
   @ApiOperation({ summary: 'Generate vouchers with discount details' })
   async generateVouchers(
     @Body()
@@ -198,6 +197,7 @@ export class PromotionsController {
   }
 
   @Get('vouchers/export')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Export vouchers as CSV' })
   async exportVouchers(@CurrentUser() user: AuthUser, @Res() res: Response) {
     const vouchers = await this.prisma.voucher.findMany({
@@ -228,6 +228,7 @@ export class PromotionsController {
   }
 
   @Post('vouchers/validate')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Validate voucher code' })
   async validateVoucher(
     @Body() dto: { code: string; total: number },
@@ -241,6 +242,7 @@ export class PromotionsController {
   }
 
   @Post('vouchers/:voucherId/use')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Mark voucher as used' })
   async useVoucher(@Param('voucherId') voucherId: string, @Body() dto: { customerId: string }) {
     await this.validateVoucherUseCase.markVoucherAsUsed(voucherId, dto.customerId);
@@ -248,7 +250,7 @@ export class PromotionsController {
   }
 
   @Post('vouchers/batch')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('promotions.manage')
   @ApiOperation({ summary: 'Generate batch of vouchers for a promotion' })
   async generateVoucherBatch(@Body() dto: GenerateVoucherBatchDto, @CurrentUser() user: AuthUser) {
     return this.generateVoucherBatchUseCase.execute({
@@ -263,21 +265,16 @@ export class PromotionsController {
   // ==================== Promotion Rules Engine ====================
 
   @Post('apply')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Apply applicable promotions to transaction' })
-  async applyPromotion(
-    @Body()
-    dto: {
-      items: Array<{ productId: string; variantId?: string; quantity: number; price: number }>;
-      total: number;
-      promotionId?: string;
-    },
-    @CurrentUser() user: AuthUser,
-  ) {
+  async applyPromotion(@Body() dto: ApplyPromotionDto, @CurrentUser() user: AuthUser) {
     return this.applyPromotionUseCase.execute({
       businessId: user.businessId,
       outletId: user.outletId ?? undefined,
       items: dto.items,
       total: dto.total,
+      customerId: dto.customerId,
+      paymentMethod: dto.paymentMethod,
       promotionId: dto.promotionId,
     });
   }
@@ -286,6 +283,7 @@ export class PromotionsController {
 
   @Get(':id')
   @BusinessScoped({ resource: 'promotion', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get promotion by ID' })
   async get(@Param('id') id: string) {
     const p = await this.promotionRepo.findById(id);
@@ -295,18 +293,26 @@ export class PromotionsController {
 
   @Put(':id')
   @BusinessScoped({ resource: 'promotion', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('promotions.manage')
   @ApiOperation({ summary: 'Update promotion' })
   async update(@Param('id') id: string, @Body() dto: Record<string, unknown>) {
+    if (dto.rules) this.assertValidRules(dto.rules as PromotionRules);
     return this.promotionRepo.update(id, dto);
   }
 
   @Delete(':id')
   @BusinessScoped({ resource: 'promotion', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('promotions.manage')
   @ApiOperation({ summary: 'Deactivate promotion' })
   async remove(@Param('id') id: string) {
     await this.promotionRepo.deactivate(id);
     return { message: 'Promotion deactivated' };
   }
+
+  private assertValidRules(rules: PromotionRules): void {
+    const errors = validatePromotionRules(rules);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
 }
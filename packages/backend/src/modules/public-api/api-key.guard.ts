@@ -0,0 +1,112 @@
+import {
+  CanActivate,
+  createParamDecorator,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  InjectThrottlerStorage,
+  ThrottlerException,
+  type ThrottlerStorage,
+} from '@nestjs/throttler';
+import { FeatureService } from '../business/services/feature.service';
+import { apiKeyThrottleConfig } from '../../infrastructure/security/throttle.config';
+import { ApiKeysService, type ApiKeyPrincipal } from './api-keys.service';
+import { extractApiKey, type ApiKeyScope } from './api-key.util';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+const API_INTEGRATION_FEATURE = 'api_integration';
+
+interface ApiKeyRequest {
+  headers: Record<string, string | string[] | undefined>;
+  ip?: string;
+  apiKey?: ApiKeyPrincipal;
+}
+
+interface RateLimitResponse {
+  setHeader(name: string, value: string | number): void;
+}
+
+/** Requires every listed scope on the API key of the request */
+export const RequireScope = (...scopes: ApiKeyScope[]) => SetMetadata(API_KEY_SCOPES_KEY, scopes);
+
+/** The API key the guard authenticated */
+export const CurrentApiKey = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ApiKeyPrincipal => {
+    const request = ctx.switchToHttp().getRequest<ApiKeyRequest>();
+    return request.apiKey!;
+  },
+);
+
+/**
+ * ApiKeyGuard - Authenticates public API requests by business-issued API key
+ *
+ * Takes the key from `X-API-Key` or `Authorization: Bearer tlp_...`, and
+ * rejects it when it is unknown, revoked or expired, when the business has
+ * the api_integration feature off, or when it lacks a @RequireScope scope.
+ * Each key is rate limited on its own, per apiKeyThrottleConfig window.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeysService,
+    private readonly features: FeatureService,
+    @InjectThrottlerStorage() private readonly storage: ThrottlerStorage,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<ApiKeyRequest>();
+    const key = extractApiKey(request.headers);
+    if (!key) {
+      throw new UnauthorizedException('Missing API key');
+    }
+
+    const apiKey = await this.apiKeys.authenticate(key, request.ip ?? null);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    await this.rateLimit(apiKey, context.switchToHttp().getResponse<RateLimitResponse>());
+
+    if (!(await this.features.isFeatureEnabled(apiKey.businessId, API_INTEGRATION_FEATURE))) {
+      throw new ForbiddenException(`Feature "${API_INTEGRATION_FEATURE}" is not enabled`);
+    }
+
+    const required =
+      this.reflector.getAllAndOverride<ApiKeyScope[]>(API_KEY_SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    const missing = required.filter((scope) => !apiKey.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Missing scope: ${missing.join(', ')}`);
+    }
+
+    request.apiKey = apiKey;
+    return true;
+  }
+
+  private async rateLimit(apiKey: ApiKeyPrincipal, response: RateLimitResponse) {
+    const { ttl } = apiKeyThrottleConfig;
+    const { totalHits, timeToExpire, isBlocked } = await this.storage.increment(
+      `api-key:${apiKey.id}`,
+      ttl,
+      apiKey.rateLimit,
+      ttl,
+      'api-key',
+    );
+
+    response.setHeader('X-RateLimit-Limit', apiKey.rateLimit);
+    response.setHeader('X-RateLimit-Remaining', Math.max(0, apiKey.rateLimit - totalHits));
+    response.setHeader('X-RateLimit-Reset', timeToExpire);
+    if (isBlocked) {
+      response.setHeader('Retry-After', timeToExpire);
+      throw new ThrottlerException();
+    }
+  }
+}
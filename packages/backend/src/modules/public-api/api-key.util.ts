@@ -0,0 +1,43 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * What an API key may do on the public API. Read scopes never imply write
+ * scopes; a key holds exactly the scopes it was issued with.
+ */
+export const API_KEY_SCOPES = [
+  'products:read',
+  'stock:read',
+  'customers:read',
+  'customers:write',
+  'transactions:read',
+  'orders:read',
+  'orders:write',
+  'reports:read',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Keys start with this, so that one pasted into a chat or repo is easy to spot */
+export const API_KEY_PREFIX = 'tlp_';
+
+// Characters of the key kept in the clear to tell keys apart
+const VISIBLE_LENGTH = 12;
+
+export const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+/** A new key; only its hash is stored, the key itself is shown once */
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { key, keyPrefix: key.slice(0, VISIBLE_LENGTH), keyHash: hashApiKey(key) };
+}
+
+/** The key of a request, from `Authorization: Bearer tlp_...` or `X-API-Key` */
+export function extractApiKey(headers: Record<string, string | string[] | undefined>) {
+  const header = headers['x-api-key'];
+  if (typeof header === 'string' && header) return header.trim();
+
+  const authorization = headers['authorization'];
+  if (typeof authorization !== 'string') return null;
+  const [type, value] = authorization.split(' ');
+  return type?.toLowerCase() === 'bearer' && value?.startsWith(API_KEY_PREFIX) ? value : null;
+}
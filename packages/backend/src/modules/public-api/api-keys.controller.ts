@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { FeatureGuard, RequireFeature } from '../../common/guards/feature.guard';
+import {
+  CreateApiKeyDto,
+  RotateApiKeyDto,
+  UpdateApiKeyDto,
+} from '../../application/dtos/api-key.dto';
+import { ApiKeysService } from './api-keys.service';
+import { API_KEY_SCOPES } from './api-key.util';
+
+@ApiTags('API Keys')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard, FeatureGuard)
+@RequirePermission('integrations.api_keys')
+@RequireFeature('api_integration')
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'API keys of the business with their scopes and last use' })
+  async list(@CurrentUser() user: AuthUser) {
+    return this.apiKeysService.list(user.businessId);
+  }
+
+  @Get('scopes')
+  @ApiOperation({ summary: 'Scopes a key can be issued with' })
+  scopes() {
+    return { scopes: API_KEY_SCOPES };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Issue an API key; the key is only shown in this response' })
+  async create(@Body() dto: CreateApiKeyDto, @CurrentUser() user: AuthUser) {
+    return this.apiKeysService.create(user.businessId, user.employeeId, dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename a key or change its scopes, outlets or rate limit' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateApiKeyDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.apiKeysService.update(user.businessId, id, dto);
+  }
+
+  @Post(':id/rotate')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Replace a key; the old one keeps working for a grace period' })
+  async rotate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RotateApiKeyDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.apiKeysService.rotate(user.businessId, id, user.employeeId, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke a key at once' })
+  async revoke(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.apiKeysService.revoke(user.businessId, id);
+  }
+}
@@ -0,0 +1,214 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import type { ApiKey } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { apiKeyThrottleConfig } from '../../infrastructure/security/throttle.config';
+import { generateApiKey, hashApiKey, type ApiKeyScope } from './api-key.util';
+import type {
+  CreateApiKeyDto,
+  RotateApiKeyDto,
+  UpdateApiKeyDto,
+} from '../../application/dtos/api-key.dto';
+
+// Last use is written at most this often, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+const DEFAULT_GRACE_HOURS = 24;
+
+/** The caller of a public API request, as the guard resolved it from the key */
+export interface ApiKeyPrincipal {
+  id: string;
+  businessId: string;
+  scopes: ApiKeyScope[];
+  /** Empty for every outlet of the business */
+  outletIds: string[];
+  rateLimit: number;
+}
+
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked';
+
+function statusOf(key: Pick<ApiKey, 'revokedAt' | 'expiresAt'>, now = new Date()): ApiKeyStatus {
+  if (key.revokedAt) return 'revoked';
+  if (key.expiresAt && key.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+/** What the owner sees of a key; never the hash */
+function toSummary(key: ApiKey) {
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    scopes: key.scopes,
+    outletIds: key.outletIds,
+    rateLimit: key.rateLimit,
+    status: statusOf(key),
+    expiresAt: key.expiresAt,
+    lastUsedAt: key.lastUsedAt,
+    lastUsedIp: key.lastUsedIp,
+    revokedAt: key.revokedAt,
+    rotatedToId: key.rotatedToId,
+    createdAt: key.createdAt,
+  };
+}
+
+@Injectable()
+export class ApiKeysService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async list(businessId: string) {
+    const keys = await this.prisma.apiKey.findMany({
+      where: { businessId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return keys.map(toSummary);
+  }
+
+  /** Issues a key; the response is the only time the key itself is shown */
+  async create(businessId: string, employeeId: string, dto: CreateApiKeyDto) {
+    const outletIds = await this.checkOutlets(businessId, dto.outletIds ?? []);
+    if (dto.expiresAt && new Date(dto.expiresAt) <= new Date()) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'expiresAt must be in the future');
+    }
+
+    const { key, keyPrefix, keyHash } = generateApiKey();
+    const created = await this.prisma.apiKey.create({
+      data: {
+        businessId,
+        name: dto.name,
+        keyPrefix,
+        keyHash,
+        scopes: [...new Set(dto.scopes)],
+        outletIds,
+        rateLimit: dto.rateLimit ?? apiKeyThrottleConfig.limit,
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+        createdBy: employeeId,
+      },
+    });
+    return { ...toSummary(created), key };
+  }
+
+  async update(businessId: string, id: string, dto: UpdateApiKeyDto) {
+    const existing = await this.findActive(businessId, id);
+    const outletIds = dto.outletIds
+      ? await this.checkOutlets(businessId, dto.outletIds)
+      : undefined;
+
+    const updated = await this.prisma.apiKey.update({
+      where: { id: existing.id },
+      data: {
+        name: dto.name,
+        scopes: dto.scopes ? [...new Set(dto.scopes)] : undefined,
+        outletIds,
+        rateLimit: dto.rateLimit,
+      },
+    });
+    return toSummary(updated);
+  }
+
+  /**
+   * Issues a replacement with the same name, scopes, outlets and limit. The
+   * old key keeps working for the grace period so the partner can switch over.
+   */
+  async rotate(businessId: string, id: string, employeeId: string, dto: RotateApiKeyDto) {
+    const existing = await this.findActive(businessId, id);
+    const graceHours = dto.graceHours ?? DEFAULT_GRACE_HOURS;
+    const graceEnd = new Date(Date.now() + graceHours * 60 * 60 * 1000);
+    const { key, keyPrefix, keyHash } = generateApiKey();
+
+    const replacement = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.apiKey.create({
+        data: {
+          businessId,
+          name: existing.name,
+          keyPrefix,
+          keyHash,
+          scopes: existing.scopes,
+          outletIds: existing.outletIds,
+          rateLimit: existing.rateLimit,
+          expiresAt: existing.expiresAt,
+          createdBy: employeeId,
+        },
+      });
+      // A key that was going to expire within the grace period keeps its own expiry
+      const expiresAt =
+        existing.expiresAt && existing.expiresAt < graceEnd ? existing.expiresAt : graceEnd;
+      await tx.apiKey.update({
+        where: { id: existing.id },
+        data: {
+          rotatedToId: created.id,
+          ...(graceHours === 0 ? { revokedAt: new Date() } : { expiresAt }),
+        },
+      });
+      return created;
+    });
+
+    return { ...toSummary(replacement), key, previousKeyValidUntil: graceHours ? graceEnd : null };
+  }
+
+  async revoke(businessId: string, id: string) {
+    const existing = await this.findOwned(businessId, id);
+    if (existing.revokedAt) return toSummary(existing);
+
+    const revoked = await this.prisma.apiKey.update({
+      where: { id: existing.id },
+      data: { revokedAt: new Date() },
+    });
+    return toSummary(revoked);
+  }
+
+  /**
+   * The principal of a presented key, or null when the key is unknown,
+   * revoked or expired. Records when and from where the key was last used.
+   */
+  async authenticate(key: string, ip: string | null): Promise<ApiKeyPrincipal | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } });
+    const now = new Date();
+    if (!apiKey || statusOf(apiKey, now) !== 'active') return null;
+
+    const stale =
+      !apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS;
+    if (stale || apiKey.lastUsedIp !== ip) {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now, lastUsedIp: ip },
+      });
+    }
+
+    return {
+      id: apiKey.id,
+      businessId: apiKey.businessId,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      outletIds: apiKey.outletIds,
+      rateLimit: apiKey.rateLimit,
+    };
+  }
+
+  private async findOwned(businessId: string, id: string) {
+    const apiKey = await this.prisma.apiKey.findFirst({ where: { id, businessId } });
+    if (!apiKey) {
+      throw new AppError(ErrorCode.API_KEY_NOT_FOUND, 'API key not found', HttpStatus.NOT_FOUND);
+    }
+    return apiKey;
+  }
+
+  private async findActive(businessId: string, id: string) {
+    const apiKey = await this.findOwned(businessId, id);
+    if (statusOf(apiKey) !== 'active') {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, `API key is ${statusOf(apiKey)}`);
+    }
+    return apiKey;
+  }
+
+  private async checkOutlets(businessId: string, outletIds: string[]) {
+    const unique = [...new Set(outletIds)];
+    if (unique.length === 0) return unique;
+
+    const count = await this.prisma.outlet.count({ where: { id: { in: unique }, businessId } });
+    if (count !== unique.length) {
+      throw new AppError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found', HttpStatus.NOT_FOUND);
+    }
+    return unique;
+  }
+}
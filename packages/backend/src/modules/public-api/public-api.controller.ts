@@ -0,0 +1,184 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiSecurity, ApiOperation } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { WithoutPermission } from '../../infrastructure/auth/require-permission.decorator';
+import {
+  PublicCatalogQueryDto,
+  PublicCreateCustomerDto,
+  PublicCreateOrderDto,
+  PublicOrdersQueryDto,
+  PublicSalesSummaryQueryDto,
+  PublicStockQueryDto,
+  PublicTransactionsQueryDto,
+  PublicUpdateCustomerDto,
+} from '../../application/dtos/public-api.dto';
+import { ApiKeyGuard, CurrentApiKey, RequireScope } from './api-key.guard';
+import type { ApiKeyPrincipal } from './api-keys.service';
+import { PublicApiService } from './public-api.service';
+
+/**
+ * Versioned API for partners such as accounting and ERP systems. Callers
+ * authenticate with a business-issued API key instead of a staff login, and
+ * are rate limited per key rather than per IP.
+ */
+@ApiTags('Public API v1')
+@ApiSecurity('api-key')
+@SkipThrottle()
+@UseGuards(ApiKeyGuard)
+@WithoutPermission()
+@Controller('public/v1')
+export class PublicApiController {
+  constructor(private readonly publicApiService: PublicApiService) {}
+
+  // ==================== Catalog ====================
+
+  @Get('products')
+  @RequireScope('products:read')
+  @ApiOperation({ summary: 'Products with variants, oldest change first' })
+  async listProducts(
+    @Query() query: PublicCatalogQueryDto,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.publicApiService.listProducts(apiKey, query);
+  }
+
+  @Get('products/:id')
+  @RequireScope('products:read')
+  @ApiOperation({ summary: 'A product with its variants' })
+  async getProduct(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.publicApiService.getProduct(apiKey, id);
+  }
+
+  @Get('categories')
+  @RequireScope('products:read')
+  @ApiOperation({ summary: 'Product categories' })
+  async listCategories(@CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.publicApiService.listCategories(apiKey);
+  }
+
+  // ==================== Stock ====================
+
+  @Get('stock')
+  @RequireScope('stock:read')
+  @ApiOperation({ summary: 'Stock levels per outlet' })
+  async listStock(@Query() query: PublicStockQueryDto, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.publicApiService.listStock(apiKey, query);
+  }
+
+  // ==================== Customers ====================
+
+  @Get('customers')
+  @RequireScope('customers:read')
+  @ApiOperation({ summary: 'Customers, oldest change first' })
+  async listCustomers(
+    @Query() query: PublicCatalogQueryDto,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.publicApiService.listCustomers(apiKey, query);
+  }
+
+  @Get('customers/:id')
+  @RequireScope('customers:read')
+  @ApiOperation({ summary: 'A customer' })
+  async getCustomer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.publicApiService.getCustomer(apiKey, id);
+  }
+
+  @Post('customers')
+  @RequireScope('customers:write')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a customer' })
+  async createCustomer(
+    @Body() dto: PublicCreateCustomerDto,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.publicApiService.createCustomer(apiKey, dto);
+  }
+
+  @Patch('customers/:id')
+  @RequireScope('customers:write')
+  @ApiOperation({ summary: 'Update a customer' })
+  async updateCustomer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: PublicUpdateCustomerDto,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.publicApiService.updateCustomer(apiKey, id, dto);
+  }
+
+  // ==================== Transactions ====================
+
+  @Get('transactions')
+  @RequireScope('transactions:read')
+  @ApiOperation({ summary: 'Sales and refunds with items and payments' })
+  async listTransactions(
+    @Query() query: PublicTransactionsQueryDto,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.publicApiService.listTransactions(apiKey, query);
+  }
+
+  @Get('transactions/:id')
+  @RequireScope('transactions:read')
+  @ApiOperation({ summary: 'A transaction with items and payments' })
+  async getTransaction(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.publicApiService.getTransaction(apiKey, id);
+  }
+
+  // ==================== Orders ====================
+
+  @Get('orders')
+  @RequireScope('orders:read')
+  @ApiOperation({ summary: 'Orders with their items' })
+  async listOrders(@Query() query: PublicOrdersQueryDto, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.publicApiService.listOrders(apiKey, query);
+  }
+
+  @Get('orders/:id')
+  @RequireScope('orders:read')
+  @ApiOperation({ summary: 'An order with its items' })
+  async getOrder(@Param('id', ParseUUIDPipe) id: string, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.publicApiService.getOrder(apiKey, id);
+  }
+
+  @Post('orders')
+  @RequireScope('orders:write')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Send an order to an outlet' })
+  async createOrder(@Body() dto: PublicCreateOrderDto, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.publicApiService.createOrder(apiKey, dto);
+  }
+
+  // ==================== Reports ====================
+
+  @Get('reports/sales-summary')
+  @RequireScope('reports:read')
+  @ApiOperation({ summary: 'Sales, refunds and payments per outlet over a period' })
+  async salesSummary(
+    @Query() query: PublicSalesSummaryQueryDto,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.publicApiService.salesSummary(apiKey, query);
+  }
+}
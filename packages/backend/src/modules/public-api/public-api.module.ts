@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { BusinessModule } from '../business/business.module';
+import { OrdersModule } from '../orders/orders.module';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeyGuard } from './api-key.guard';
+import { PublicApiController } from './public-api.controller';
+import { PublicApiService } from './public-api.service';
+
+@Module({
+  imports: [BusinessModule, OrdersModule],
+  controllers: [ApiKeysController, PublicApiController],
+  providers: [ApiKeysService, ApiKeyGuard, PublicApiService],
+  exports: [ApiKeysService],
+})
+export class PublicApiModule {}
@@ -0,0 +1,514 @@
+import { ForbiddenException, HttpStatus, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { assertSellingLocation } from '../../infrastructure/database/selling-location';
+import { CreateOrderUseCase } from '../../application/use-cases/orders/create-order.use-case';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type { ApiKeyPrincipal } from './api-keys.service';
+import type {
+  PublicCatalogQueryDto,
+  PublicCreateCustomerDto,
+  PublicCreateOrderDto,
+  PublicOrdersQueryDto,
+  PublicPageQueryDto,
+  PublicSalesSummaryQueryDto,
+  PublicStockQueryDto,
+  PublicTransactionsQueryDto,
+  PublicUpdateCustomerDto,
+} from '../../application/dtos/public-api.dto';
+
+const DEFAULT_LIMIT = 50;
+
+// Statuses of a sale that counts towards revenue
+const COUNTED_SALE_STATUSES = ['completed', 'credit', 'partially_paid', 'refunded'] as const;
+
+const PRODUCT_INCLUDE = {
+  category: { select: { id: true, name: true } },
+  variants: {
+    where: { isActive: true },
+    select: { id: true, name: true, sku: true, barcode: true, price: true },
+  },
+} satisfies Prisma.ProductInclude;
+
+const CUSTOMER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  address: true,
+  customerType: true,
+  loyaltyPoints: true,
+  loyaltyTier: true,
+  totalSpent: true,
+  visitCount: true,
+  lastVisitAt: true,
+  notes: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.CustomerSelect;
+
+const TRANSACTION_INCLUDE = {
+  items: true,
+  payments: { select: { paymentMethod: true, amount: true, referenceNumber: true, status: true } },
+} satisfies Prisma.TransactionInclude;
+
+const ORDER_INCLUDE = {
+  items: {
+    select: {
+      id: true,
+      productId: true,
+      variantId: true,
+      productName: true,
+      quantity: true,
+      status: true,
+      notes: true,
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+type ProductRow = Prisma.ProductGetPayload<{ include: typeof PRODUCT_INCLUDE }>;
+type CustomerRow = Prisma.CustomerGetPayload<{ select: typeof CUSTOMER_SELECT }>;
+type TransactionRow = Prisma.TransactionGetPayload<{ include: typeof TRANSACTION_INCLUDE }>;
+
+function paging(query: PublicPageQueryDto) {
+  const page = query.page ?? 1;
+  const limit = query.limit ?? DEFAULT_LIMIT;
+  return { page, limit, skip: (page - 1) * limit };
+}
+
+function paginated<T>(data: T[], page: number, limit: number, total: number) {
+  return { data, pagination: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+}
+
+function createdBetween(from?: string, to?: string): Prisma.DateTimeFilter | undefined {
+  if (!from && !to) return undefined;
+  return { gte: from ? new Date(from) : undefined, lt: to ? new Date(to) : undefined };
+}
+
+function toProduct(product: ProductRow) {
+  return {
+    id: product.id,
+    sku: product.sku,
+    barcode: product.barcode,
+    name: product.name,
+    description: product.description,
+    category: product.category,
+    price: product.basePrice.toNumber(),
+    sellUnit: product.sellUnit,
+    isWeighed: product.isWeighed,
+    trackStock: product.trackStock,
+    isActive: product.isActive,
+    variants: product.variants.map((v) => ({ ...v, price: v.price.toNumber() })),
+    updatedAt: product.updatedAt,
+  };
+}
+
+function toCustomer(customer: CustomerRow) {
+  return { ...customer, totalSpent: customer.totalSpent.toNumber() };
+}
+
+function toTransaction(transaction: TransactionRow) {
+  return {
+    id: transaction.id,
+    outletId: transaction.outletId,
+    receiptNumber: transaction.receiptNumber,
+    transactionType: transaction.transactionType,
+    orderType: transaction.orderType,
+    status: transaction.status,
+    customerId: transaction.customerId,
+    subtotal: transaction.subtotal.toNumber(),
+    discountAmount: transaction.discountAmount.toNumber(),
+    taxAmount: transaction.taxAmount.toNumber(),
+    serviceCharge: transaction.serviceCharge.toNumber(),
+    grandTotal: transaction.grandTotal.toNumber(),
+    items: transaction.items.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      productName: item.productName,
+      variantName: item.variantName,
+      quantity: item.quantity.toNumber(),
+      unitPrice: item.unitPrice.toNumber(),
+      discountAmount: item.discountAmount.toNumber(),
+      subtotal: item.subtotal.toNumber(),
+    })),
+    payments: transaction.payments.map((p) => ({ ...p, amount: p.amount.toNumber() })),
+    createdAt: transaction.createdAt,
+  };
+}
+
+/** Reads and writes of the public API, always within the key's business and outlets */
+@Injectable()
+export class PublicApiService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly createOrderUseCase: CreateOrderUseCase,
+  ) {}
+
+  // ==================== Catalog ====================
+
+  async listProducts(apiKey: ApiKeyPrincipal, query: PublicCatalogQueryDto) {
+    const { page, limit, skip } = paging(query);
+    const where: Prisma.ProductWhereInput = {
+      businessId: apiKey.businessId,
+      ...(query.updatedSince && { updatedAt: { gte: new Date(query.updatedSince) } }),
+      ...(query.search && {
+        OR: [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { sku: query.search },
+          { barcode: query.search },
+        ],
+      }),
+    };
+
+    const [products, total] = await Promise.all([
+      this.prisma.product.findMany({
+        where,
+        include: PRODUCT_INCLUDE,
+        orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.product.count({ where }),
+    ]);
+    return paginated(products.map(toProduct), page, limit, total);
+  }
+
+  async getProduct(apiKey: ApiKeyPrincipal, id: string) {
+    const product = await this.prisma.product.findFirst({
+      where: { id, businessId: apiKey.businessId },
+      include: PRODUCT_INCLUDE,
+    });
+    if (!product) {
+      throw new AppError(ErrorCode.PRODUCT_NOT_FOUND, 'Product not found', HttpStatus.NOT_FOUND);
+    }
+    return toProduct(product);
+  }
+
+  async listCategories(apiKey: ApiKeyPrincipal) {
+    const categories = await this.prisma.category.findMany({
+      where: { businessId: apiKey.businessId },
+      select: { id: true, name: true, parentId: true, isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+    return { data: categories };
+  }
+
+  // ==================== Stock ====================
+
+  async listStock(apiKey: ApiKeyPrincipal, query: PublicStockQueryDto) {
+    const { page, limit, skip } = paging(query);
+    const where: Prisma.StockLevelWhereInput = {
+      outlet: this.outletFilter(apiKey, query.outletId),
+      ...(query.productId && { productId: query.productId }),
+    };
+
+    const [levels, total] = await Promise.all([
+      this.prisma.stockLevel.findMany({
+        where,
+        include: {
+          product: { select: { name: true, sku: true, sellUnit: true } },
+          variant: { select: { name: true, sku: true } },
+        },
+        orderBy: [{ outletId: 'asc' }, { productId: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.stockLevel.count({ where }),
+    ]);
+
+    return paginated(
+      levels.map((level) => ({
+        outletId: level.outletId,
+        productId: level.productId,
+        variantId: level.variantId,
+        productName: level.product?.name ?? null,
+        variantName: level.variant?.name ?? null,
+        sku: level.variant?.sku ?? level.product?.sku ?? null,
+        unit: level.product?.sellUnit ?? null,
+        quantity: level.quantity.toNumber(),
+        lowStockAlert: level.lowStockAlert,
+        updatedAt: level.updatedAt,
+      })),
+      page,
+      limit,
+      total,
+    );
+  }
+
+  // ==================== Customers ====================
+
+  async listCustomers(apiKey: ApiKeyPrincipal, query: PublicCatalogQueryDto) {
+    const { page, limit, skip } = paging(query);
+    const where: Prisma.CustomerWhereInput = {
+      businessId: apiKey.businessId,
+      ...(query.updatedSince && { updatedAt: { gte: new Date(query.updatedSince) } }),
+      ...(query.search && {
+        OR: [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { phone: { contains: query.search } },
+        ],
+      }),
+    };
+
+    const [customers, total] = await Promise.all([
+      this.prisma.customer.findMany({
+        where,
+        select: CUSTOMER_SELECT,
+        orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.customer.count({ where }),
+    ]);
+    return paginated(customers.map(toCustomer), page, limit, total);
+  }
+
+  async getCustomer(apiKey: ApiKeyPrincipal, id: string) {
+    return toCustomer(await this.findCustomer(apiKey, id));
+  }
+
+  async createCustomer(apiKey: ApiKeyPrincipal, dto: PublicCreateCustomerDto) {
+    await this.assertPhoneFree(apiKey, dto.phone);
+    const customer = await this.prisma.customer.create({
+      data: { businessId: apiKey.businessId, ...dto },
+      select: CUSTOMER_SELECT,
+    });
+    return toCustomer(customer);
+  }
+
+  async updateCustomer(apiKey: ApiKeyPrincipal, id: string, dto: PublicUpdateCustomerDto) {
+    const existing = await this.findCustomer(apiKey, id);
+    if (dto.phone && dto.phone !== existing.phone) await this.assertPhoneFree(apiKey, dto.phone);
+
+    const customer = await this.prisma.customer.update({
+      where: { id: existing.id },
+      data: dto,
+      select: CUSTOMER_SELECT,
+    });
+    return toCustomer(customer);
+  }
+
+  // ==================== Transactions ====================
+
+  async listTransactions(apiKey: ApiKeyPrincipal, query: PublicTransactionsQueryDto) {
+    const { page, limit, skip } = paging(query);
+    const where: Prisma.TransactionWhereInput = {
+      outlet: this.outletFilter(apiKey, query.outletId),
+      createdAt: createdBetween(query.from, query.to),
+    };
+
+    const [transactions, total] = await Promise.all([
+      this.prisma.transaction.findMany({
+        where,
+        include: TRANSACTION_INCLUDE,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.transaction.count({ where }),
+    ]);
+    return paginated(transactions.map(toTransaction), page, limit, total);
+  }
+
+  async getTransaction(apiKey: ApiKeyPrincipal, id: string) {
+    const transaction = await this.prisma.transaction.findFirst({
+      where: { id, outlet: this.outletFilter(apiKey) },
+      include: TRANSACTION_INCLUDE,
+    });
+    if (!transaction) {
+      throw new AppError(
+        ErrorCode.TRANSACTION_NOT_FOUND,
+        'Transaction not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return toTransaction(transaction);
+  }
+
+  // ==================== Orders ====================
+
+  async listOrders(apiKey: ApiKeyPrincipal, query: PublicOrdersQueryDto) {
+    const { page, limit, skip } = paging(query);
+    const where: Prisma.OrderWhereInput = {
+      outlet: this.outletFilter(apiKey, query.outletId),
+      createdAt: createdBetween(query.from, query.to),
+      ...(query.status && { status: query.status }),
+    };
+
+    const [orders, total] = await Promise.all([
+      this.prisma.order.findMany({
+        where,
+        include: ORDER_INCLUDE,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.order.count({ where }),
+    ]);
+    return paginated(orders, page, limit, total);
+  }
+
+  async getOrder(apiKey: ApiKeyPrincipal, id: string) {
+    const order = await this.prisma.order.findFirst({
+      where: { id, outlet: this.outletFilter(apiKey) },
+      include: ORDER_INCLUDE,
+    });
+    if (!order) {
+      throw new AppError(ErrorCode.ORDER_NOT_FOUND, 'Order not found', HttpStatus.NOT_FOUND);
+    }
+    return order;
+  }
+
+  /** Sends a partner's order to the outlet, e.g. one taken on the partner's own channel */
+  async createOrder(apiKey: ApiKeyPrincipal, dto: PublicCreateOrderDto) {
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { ...this.outletFilter(apiKey, dto.outletId), isActive: true },
+      select: { id: true },
+    });
+    if (!outlet) {
+      throw new AppError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found', HttpStatus.NOT_FOUND);
+    }
+    await assertSellingLocation(this.prisma, outlet.id);
+    if (dto.customerId) await this.findCustomer(apiKey, dto.customerId);
+
+    const productIds = [...new Set(dto.items.map((i) => i.productId))];
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds }, businessId: apiKey.businessId, isActive: true },
+      select: { id: true, variants: { where: { isActive: true }, select: { id: true } } },
+    });
+    for (const item of dto.items) {
+      const product = products.find((p) => p.id === item.productId);
+      if (!product) {
+        throw new BusinessError(ErrorCode.PRODUCT_NOT_FOUND, `Product ${item.productId} not found`);
+      }
+      if (item.variantId && !product.variants.some((v) => v.id === item.variantId)) {
+        throw new BusinessError(
+          ErrorCode.PRODUCT_NOT_FOUND,
+          `Variant ${item.variantId} not found for product ${item.productId}`,
+        );
+      }
+    }
+
+    const created = await this.createOrderUseCase.execute({
+      outletId: outlet.id,
+      orderType: dto.orderType,
+      customerId: dto.customerId,
+      items: dto.items,
+      notes: dto.notes,
+    });
+    return this.getOrder(apiKey, created.orderId);
+  }
+
+  // ==================== Reports ====================
+
+  /** Sales, refunds and payments per outlet over a period, for bookkeeping */
+  async salesSummary(apiKey: ApiKeyPrincipal, query: PublicSalesSummaryQueryDto) {
+    const outlets = await this.prisma.outlet.findMany({
+      where: this.outletFilter(apiKey, query.outletId),
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+    const outletIds = outlets.map((o) => o.id);
+    const createdAt = createdBetween(query.from, query.to);
+    const sales: Prisma.TransactionWhereInput = {
+      outletId: { in: outletIds },
+      createdAt,
+      transactionType: 'sale',
+      status: { in: [...COUNTED_SALE_STATUSES] },
+    };
+
+    const [saleTotals, refundTotals, payments] = await Promise.all([
+      this.prisma.transaction.groupBy({
+        by: ['outletId'],
+        where: sales,
+        _count: true,
+        _sum: {
+          subtotal: true,
+          discountAmount: true,
+          taxAmount: true,
+          serviceCharge: true,
+          grandTotal: true,
+        },
+      }),
+      this.prisma.transaction.groupBy({
+        by: ['outletId'],
+        where: { outletId: { in: outletIds }, createdAt, transactionType: 'refund' },
+        _count: true,
+        _sum: { grandTotal: true },
+      }),
+      this.prisma.payment.groupBy({
+        by: ['paymentMethod'],
+        where: { transaction: sales, status: 'completed' },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return {
+      from: query.from,
+      to: query.to,
+      outlets: outlets.map((outlet) => {
+        const sale = saleTotals.find((t) => t.outletId === outlet.id);
+        const refund = refundTotals.find((t) => t.outletId === outlet.id);
+        return {
+          outletId: outlet.id,
+          outletName: outlet.name,
+          transactionCount: sale?._count ?? 0,
+          subtotal: sale?._sum.subtotal?.toNumber() ?? 0,
+          discountAmount: sale?._sum.discountAmount?.toNumber() ?? 0,
+          taxAmount: sale?._sum.taxAmount?.toNumber() ?? 0,
+          serviceCharge: sale?._sum.serviceCharge?.toNumber() ?? 0,
+          grandTotal: sale?._sum.grandTotal?.toNumber() ?? 0,
+          refundCount: refund?._count ?? 0,
+          refundAmount: refund?._sum.grandTotal?.toNumber() ?? 0,
+        };
+      }),
+      payments: payments.map((p) => ({
+        method: p.paymentMethod,
+        amount: p._sum.amount?.toNumber() ?? 0,
+      })),
+    };
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * Outlets a request may touch: the one asked for, when the key allows it,
+   * otherwise every outlet of the business the key allows
+   */
+  private outletFilter(apiKey: ApiKeyPrincipal, outletId?: string): Prisma.OutletWhereInput {
+    if (outletId) {
+      if (apiKey.outletIds.length > 0 && !apiKey.outletIds.includes(outletId)) {
+        throw new ForbiddenException('API key is not allowed for this outlet');
+      }
+      return { id: outletId, businessId: apiKey.businessId };
+    }
+    return apiKey.outletIds.length > 0
+      ? { id: { in: apiKey.outletIds }, businessId: apiKey.businessId }
+      : { businessId: apiKey.businessId };
+  }
+
+  private async findCustomer(apiKey: ApiKeyPrincipal, id: string) {
+    const customer = await this.prisma.customer.findFirst({
+      where: { id, businessId: apiKey.businessId },
+      select: CUSTOMER_SELECT,
+    });
+    if (!customer) {
+      throw new AppError(ErrorCode.CUSTOMER_NOT_FOUND, 'Customer not found', HttpStatus.NOT_FOUND);
+    }
+    return customer;
+  }
+
+  private async assertPhoneFree(apiKey: ApiKeyPrincipal, phone?: string) {
+    if (!phone) return;
+    const taken = await this.prisma.customer.findFirst({
+      where: { businessId: apiKey.businessId, phone },
+      select: { id: true },
+    });
+    if (taken) {
+      throw new BusinessError(ErrorCode.DUPLICATE_CUSTOMER, 'A customer with this phone exists');
+    }
+  }
+}
@@ -1,17 +1,16 @@
 import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../../infrastructure/auth/roles.guard';
-import { Roles } from '../../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../../shared/constants/roles';
 import { ReportsService, type CustomReportConfig } from '../reports.service';
 
 @ApiTags('Reports')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
-@Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER, EmployeeRole.SUPERVISOR)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('reports.sales.view')
 @Controller('reports')
 export class CustomReportsController {
   constructor(private readonly reportsService: ReportsService) {}
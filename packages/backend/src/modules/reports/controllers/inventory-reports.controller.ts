@@ -2,18 +2,17 @@ import { Controller, Get, Query, UseGuards, Res, ForbiddenException } from '@nes
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { Response } from 'express';
 import { JwtAuthGuard } from '../../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../../infrastructure/auth/roles.guard';
-import { Roles } from '../../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../../shared/constants/roles';
 import { PrismaService } from '../../../infrastructure/database/prisma.service';
 import { GenerateInventoryReportUseCase } from '../../../application/use-cases/reports/generate-inventory-report.use-case';
 
 @ApiTags('Reports')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
-@Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER, EmployeeRole.SUPERVISOR)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('reports.inventory.view')
 @Controller('reports')
 export class InventoryReportsController {
   constructor(
@@ -77,6 +76,7 @@ export class InventoryReportsController {
     @CurrentUser() user: AuthUser,
     @Query('outletId') outletId: string,
     @Query('format') format: 'pdf' | 'excel',
+    @Query('groupBy') groupBy: 'product' | 'bin' | undefined,
     @Res() res: Response,
   ) {
     const outlet = await this.prisma.outlet.findUnique({
@@ -87,7 +87,7 @@ export class InventoryReportsController {
       throw new ForbiddenException('Access denied to this outlet');
     }
 
-    const result = await this.generateInventoryReport.execute({ outletId, format });
+    const result = await this.generateInventoryReport.execute({ outletId, format, groupBy });
     res.set({
       'Content-Type': result.contentType,
       'Content-Disposition': `attachment; filename="${result.filename}"`,
@@ -6,22 +6,28 @@ import {
   BadRequestException,
   ForbiddenException,
   NotFoundException,
+  Res,
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Response } from 'express';
 import { JwtAuthGuard } from '../../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../../infrastructure/auth/roles.guard';
-import { Roles } from '../../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../../shared/constants/roles';
 import { PrismaService } from '../../../infrastructure/database/prisma.service';
 import { RedisService } from '../../../infrastructure/cache/redis.service';
 import { getDateRange } from '../utils/date-range.util';
+import {
+  ExportTaxInvoicesQueryDto,
+  TaxInvoiceQueryDto,
+} from '../../../application/dtos/tax-invoice.dto';
+import { TaxInvoicesService } from '../../tax-invoices/tax-invoices.service';
 
 @ApiTags('Reports - Invoices')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
-@Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER, EmployeeRole.SUPERVISOR)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('reports.financial.view')
 @Controller('reports/invoices')
 export class InvoiceReportsController {
   private readonly CACHE_TTL = 300; // 5 minutes
@@ -29,6 +35,7 @@ export class InvoiceReportsController {
   constructor(
     private readonly prisma: PrismaService,
     private readonly redis: RedisService,
+    private readonly taxInvoices: TaxInvoicesService,
   ) {}
 
   private async validateOutletAccess(outletId: string, user: AuthUser) {
@@ -320,4 +327,34 @@ export class InvoiceReportsController {
     await this.redis.set(cacheKey, result, this.CACHE_TTL);
     return result;
   }
+
+  // Tax invoices are not cached: a cancel or replacement must show up at once
+
+  @Get('tax-invoices')
+  @ApiOperation({ summary: 'Tax invoices (faktur pajak) with DPP/PPN totals' })
+  async taxInvoiceList(@CurrentUser() user: AuthUser, @Query() query: TaxInvoiceQueryDto) {
+    if (query.outletId) {
+      await this.validateOutletAccess(query.outletId, user);
+    }
+    return this.taxInvoices.list(user.businessId, query);
+  }
+
+  @Get('tax-invoices/export')
+  @ApiOperation({ summary: 'Re-export tax invoices as e-Faktur CSV or Coretax XML' })
+  async exportTaxInvoices(
+    @CurrentUser() user: AuthUser,
+    @Query() query: ExportTaxInvoicesQueryDto,
+    @Res() res: Response,
+  ) {
+    if (query.outletId) {
+      await this.validateOutletAccess(query.outletId, user);
+    }
+    const file = await this.taxInvoices.export(user.businessId, query);
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+      'X-Invoice-Count': String(file.count),
+    });
+    res.send(file.content);
+  }
 }
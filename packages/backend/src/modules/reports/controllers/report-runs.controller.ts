@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../../infrastructure/auth/auth-user.interface';
+import { ReportRunQueryDto } from '../../../application/dtos/report-run.dto';
+import { ReportRunsService } from '../scheduled/report-runs.service';
+
+@ApiTags('Reports')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('reports.runs.manage')
+@Controller('reports/runs')
+export class ReportRunsController {
+  constructor(private readonly reportRuns: ReportRunsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List scheduled report runs, newest first' })
+  async list(@CurrentUser() user: AuthUser, @Query() query: ReportRunQueryDto) {
+    return this.reportRuns.list(user.businessId, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a report run with its status and download link' })
+  async findOne(@CurrentUser() user: AuthUser, @Param('id', ParseUUIDPipe) id: string) {
+    return this.reportRuns.findOne(user.businessId, id);
+  }
+
+  @Post(':id/retry')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Queue a failed report run again' })
+  async retry(@CurrentUser() user: AuthUser, @Param('id', ParseUUIDPipe) id: string) {
+    return this.reportRuns.retry(user.businessId, id);
+  }
+}
@@ -1,8 +1,16 @@
 import { Module } from '@nestjs/common';
 import { ReportsService } from './reports.service';
 import { ExportModule } from '../../infrastructure/export/export.module';
+import { EmailModule } from '../../infrastructure/notifications/email/email.module';
+import { StorageModule } from '../../infrastructure/storage/storage.module';
+import { TaxInvoicesModule } from '../tax-invoices/tax-invoices.module';
+import { ReportScheduleRepository } from '../../infrastructure/repositories/settings/report-schedule.repository';
+import { ReportProcessor } from '../../infrastructure/queues/processors/report.processor';
 import { GenerateSalesReportUseCase } from '../../application/use-cases/reports/generate-sales-report.use-case';
 import { GenerateInventoryReportUseCase } from '../../application/use-cases/reports/generate-inventory-report.use-case';
+import { GenerateFinancialReportUseCase } from '../../application/use-cases/reports/generate-financial-report.use-case';
+import { ReportRunsService } from './scheduled/report-runs.service';
+import { ReportSchedulerService } from './scheduled/report-scheduler.service';
 
 // Import all new controllers
 import { SalesReportsController } from './controllers/sales-reports.controller';
@@ -23,9 +31,10 @@ import { FinancialCommandController } from './controllers/financial-command.cont
 import { StaffPerformanceController } from './controllers/staff-performance.controller';
 import { DashboardReportsController } from './controllers/dashboard-reports.controller';
 import { InvoiceReportsController } from './controllers/invoice-reports.controller';
+import { ReportRunsController } from './controllers/report-runs.controller';
 
 @Module({
-  imports: [ExportModule],
+  imports: [ExportModule, EmailModule, StorageModule, TaxInvoicesModule],
   controllers: [
     SalesReportsController,
     DashboardReportsController,
@@ -45,8 +54,19 @@ import { InvoiceReportsController } from './controllers/invoice-reports.controll
     FinancialCommandController,
     StaffPerformanceController,
     InvoiceReportsController,
+    ReportRunsController,
+  ],
+  providers: [
+    GenerateSalesReportUseCase,
+    GenerateInventoryReportUseCase,
+    GenerateFinancialReportUseCase,
+    ReportsService,
+    // Scheduled reports
+    ReportScheduleRepository,
+    ReportRunsService,
+    ReportSchedulerService,
+    ReportProcessor,
   ],
-  providers: [GenerateSalesReportUseCase, GenerateInventoryReportUseCase, ReportsService],
   exports: [ReportsService],
 })
 export class ReportsModule {}
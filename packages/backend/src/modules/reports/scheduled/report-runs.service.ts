@@ -0,0 +1,331 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Prisma, ReportRun, ReportRunStatus } from '@prisma/client';
+import { PrismaService } from '../../../infrastructure/database/prisma.service';
+import { StorageService } from '../../../infrastructure/storage/storage.service';
+import { EmailService } from '../../../infrastructure/notifications/email/email.service';
+import { ReportScheduleRepository } from '../../../infrastructure/repositories/settings/report-schedule.repository';
+import {
+  JOB_NAMES,
+  JOB_OPTIONS,
+  QUEUE_NAMES,
+} from '../../../infrastructure/queues/queue.constants';
+import type { ScheduledReportJobData } from '../../../infrastructure/queues/processors/report.processor';
+import { BusinessError } from '../../../shared/errors/business-error';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { GenerateSalesReportUseCase } from '../../../application/use-cases/reports/generate-sales-report.use-case';
+import { GenerateInventoryReportUseCase } from '../../../application/use-cases/reports/generate-inventory-report.use-case';
+import { GenerateFinancialReportUseCase } from '../../../application/use-cases/reports/generate-financial-report.use-case';
+import {
+  formatLocalDate,
+  formatPeriodLabel,
+  resolveTimeZone,
+  type ReportFrequency,
+} from './report-schedule.util';
+
+export type ScheduledReportType = 'sales' | 'financial' | 'inventory';
+export type ScheduledReportFormat = 'pdf' | 'excel';
+
+export interface EnqueueReportRunInput {
+  businessId: string;
+  scheduleId?: string;
+  reportType: ScheduledReportType;
+  format: ScheduledReportFormat;
+  outletId?: string | null;
+  periodStart: Date;
+  periodEnd: Date;
+  recipients: string[];
+  triggeredBy?: string;
+}
+
+export interface ReportRunQuery {
+  status?: ReportRunStatus;
+  scheduleId?: string;
+  limit?: number;
+}
+
+interface GeneratedReport {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+  outletName: string;
+  periodLabel: string;
+}
+
+const REPORT_TITLES: Record<ScheduledReportType, string> = {
+  sales: 'Sales report',
+  financial: 'Financial report',
+  inventory: 'Inventory report',
+};
+
+const FILE_EXTENSIONS: Record<ScheduledReportFormat, string> = {
+  pdf: 'pdf',
+  excel: 'xlsx',
+};
+
+/** Runs only keep their bounds; the span is enough to pick the period label format */
+function frequencyOf(run: ReportRun): ReportFrequency {
+  const days = (run.periodEnd.getTime() - run.periodStart.getTime()) / (24 * 60 * 60 * 1000);
+  if (days <= 1) return 'daily';
+  if (days <= 7) return 'weekly';
+  return 'monthly';
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+@Injectable()
+export class ReportRunsService {
+  private readonly logger = new Logger(ReportRunsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageService,
+    private readonly email: EmailService,
+    private readonly reportSchedules: ReportScheduleRepository,
+    private readonly salesReport: GenerateSalesReportUseCase,
+    private readonly inventoryReport: GenerateInventoryReportUseCase,
+    private readonly financialReport: GenerateFinancialReportUseCase,
+    @InjectQueue(QUEUE_NAMES.REPORT)
+    private readonly reportQueue: Queue<ScheduledReportJobData>,
+  ) {}
+
+  // ========================================================================
+  // ENQUEUE
+  // ========================================================================
+
+  /**
+   * Records a run and queues it. Returns null when the schedule already has
+   * a run for this period, which makes scheduler ticks safe to repeat.
+   */
+  async enqueue(input: EnqueueReportRunInput): Promise<ReportRun | null> {
+    let run: ReportRun;
+    try {
+      run = await this.prisma.reportRun.create({
+        data: {
+          businessId: input.businessId,
+          scheduleId: input.scheduleId ?? null,
+          reportType: input.reportType,
+          format: input.format,
+          outletId: input.outletId ?? null,
+          periodStart: input.periodStart,
+          periodEnd: input.periodEnd,
+          recipients: input.recipients,
+          triggeredBy: input.triggeredBy ?? null,
+        },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) return null;
+      throw error;
+    }
+
+    await this.addJob(run, run.id);
+    return run;
+  }
+
+  private async addJob(run: ReportRun, jobId: string): Promise<void> {
+    try {
+      await this.reportQueue.add(
+        JOB_NAMES.RUN_SCHEDULED_REPORT,
+        { runId: run.id, businessId: run.businessId },
+        { ...JOB_OPTIONS.SCHEDULED_REPORT, jobId },
+      );
+    } catch (error) {
+      // Leave a visible, retryable record instead of a run stuck in "queued"
+      await this.prisma.reportRun.update({
+        where: { id: run.id },
+        data: { status: 'failed', error: `Could not queue: ${(error as Error).message}` },
+      });
+      this.logger.error(`Failed to queue report run ${run.id}: ${(error as Error).message}`);
+    }
+  }
+
+  // ========================================================================
+  // EXECUTE (called by ReportProcessor)
+  // ========================================================================
+
+  /**
+   * Renders, stores and emails one run. Errors are recorded on the run and
+   * rethrown so BullMQ applies its retry backoff; `finalAttempt` decides
+   * whether the run ends up "retrying" or "failed".
+   */
+  async execute(runId: string, finalAttempt: boolean): Promise<void> {
+    const run = await this.prisma.reportRun.findUnique({ where: { id: runId } });
+    if (!run) {
+      this.logger.warn(`Report run ${runId} no longer exists, skipping`);
+      return;
+    }
+    if (run.status === 'completed') return;
+
+    await this.prisma.reportRun.update({
+      where: { id: run.id },
+      data: { status: 'running', attempts: { increment: 1 }, startedAt: new Date(), error: null },
+    });
+
+    try {
+      const report = await this.generate(run);
+
+      // Deterministic path: a retry overwrites the same object instead of leaving orphans
+      const filePath = await this.storage.upload(
+        `reports/${run.businessId}/${run.id}/${report.fileName}`,
+        report.buffer,
+      );
+      const fileUrl = this.storage.getUrl(filePath);
+      await this.prisma.reportRun.update({
+        where: { id: run.id },
+        data: { filePath, fileUrl, fileName: report.fileName },
+      });
+
+      // A retry after a later failure must not email the same report twice
+      if (!run.emailedAt && run.recipients.length > 0) {
+        await this.sendEmail(run, report, fileUrl);
+        await this.prisma.reportRun.update({
+          where: { id: run.id },
+          data: { emailedAt: new Date() },
+        });
+      }
+
+      await this.prisma.reportRun.update({
+        where: { id: run.id },
+        data: { status: 'completed', completedAt: new Date() },
+      });
+
+      if (run.scheduleId) {
+        await this.reportSchedules.updateScheduleTimestamps(run.businessId, run.scheduleId, {
+          lastSentAt: new Date().toISOString(),
+        });
+      }
+      this.logger.log(`Report run ${run.id} completed (${report.fileName})`);
+    } catch (error) {
+      const message = (error as Error).message;
+      await this.prisma.reportRun.update({
+        where: { id: run.id },
+        data: { status: finalAttempt ? 'failed' : 'retrying', error: message },
+      });
+      this.logger.error(`Report run ${run.id} failed: ${message}`);
+      throw error;
+    }
+  }
+
+  private async generate(run: ReportRun): Promise<GeneratedReport> {
+    const outlets = await this.prisma.outlet.findMany({
+      where: { businessId: run.businessId, ...(run.outletId && { id: run.outletId }) },
+      select: { id: true, name: true, timezone: true },
+    });
+    if (outlets.length === 0) {
+      throw new BusinessError(ErrorCode.RESOURCE_NOT_FOUND, 'No outlets to report on');
+    }
+
+    const outletIds = outlets.map((outlet) => outlet.id);
+    const timeZone = resolveTimeZone(outlets[0]?.timezone);
+    const periodLabel = formatPeriodLabel(
+      frequencyOf(run),
+      { start: run.periodStart, end: run.periodEnd },
+      timeZone,
+    );
+    const format = run.format as ScheduledReportFormat;
+    const reportType = run.reportType as ScheduledReportType;
+    const input = {
+      outletId: outletIds,
+      startDate: run.periodStart.toISOString(),
+      endDate: run.periodEnd.toISOString(),
+      format,
+      periodLabel,
+    };
+
+    let result: { buffer: Buffer; contentType: string };
+    switch (reportType) {
+      case 'sales':
+        result = await this.salesReport.execute(input);
+        break;
+      case 'financial':
+        result = await this.financialReport.execute(input);
+        break;
+      case 'inventory':
+        // Stock is a snapshot; the period only names the file
+        result = await this.inventoryReport.execute({ outletId: outletIds, format });
+        break;
+      default:
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          `Unsupported report type: ${String(run.reportType)}`,
+        );
+    }
+
+    return {
+      buffer: result.buffer,
+      contentType: result.contentType,
+      fileName: `${reportType}-report-${formatLocalDate(run.periodStart, timeZone)}.${FILE_EXTENSIONS[format]}`,
+      outletName: run.outletId ? (outlets[0]?.name ?? '') : 'All outlets',
+      periodLabel,
+    };
+  }
+
+  private async sendEmail(run: ReportRun, report: GeneratedReport, fileUrl: string): Promise<void> {
+    const business = await this.prisma.business.findUnique({
+      where: { id: run.businessId },
+      select: { name: true },
+    });
+    const title = REPORT_TITLES[run.reportType as ScheduledReportType] ?? 'Report';
+
+    await this.email.send({
+      to: run.recipients.join(', '),
+      subject: `${title} ${report.periodLabel} - ${business?.name ?? 'TiloPOS'}`,
+      template: 'scheduled-report',
+      context: {
+        businessName: business?.name ?? '',
+        reportTitle: title,
+        period: report.periodLabel,
+        outletName: report.outletName,
+        fileName: report.fileName,
+        // Local storage yields a relative path that means nothing in an inbox
+        downloadUrl: /^https?:\/\//.test(fileUrl) ? fileUrl : null,
+      },
+      attachments: [
+        { filename: report.fileName, content: report.buffer, contentType: report.contentType },
+      ],
+    });
+  }
+
+  // ========================================================================
+  // QUERIES & RETRY
+  // ========================================================================
+
+  async list(businessId: string, query: ReportRunQuery = {}): Promise<ReportRun[]> {
+    return this.prisma.reportRun.findMany({
+      where: {
+        businessId,
+        ...(query.status && { status: query.status }),
+        ...(query.scheduleId && { scheduleId: query.scheduleId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(query.limit ?? 50, 200),
+    });
+  }
+
+  async findOne(businessId: string, id: string): Promise<ReportRun> {
+    const run = await this.prisma.reportRun.findFirst({ where: { id, businessId } });
+    if (!run) {
+      throw new NotFoundException('Report run not found');
+    }
+    return run;
+  }
+
+  /** Re-queues a run whose automatic retries are exhausted */
+  async retry(businessId: string, id: string): Promise<ReportRun> {
+    const run = await this.findOne(businessId, id);
+    if (run.status !== 'failed') {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Only failed report runs can be retried');
+    }
+
+    const queued = await this.prisma.reportRun.update({
+      where: { id: run.id },
+      data: { status: 'queued', error: null },
+    });
+    // The failed job still holds the original id until BullMQ prunes it
+    await this.addJob(queued, `${run.id}-${run.attempts}`);
+    return this.findOne(businessId, id);
+  }
+}
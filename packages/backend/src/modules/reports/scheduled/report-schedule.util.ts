@@ -0,0 +1,151 @@
+/**
+ * Calendar maths for scheduled reports.
+ *
+ * Schedules fire at SEND_HOUR local time on the first day after the period
+ * closes (daily: every morning, weekly: Monday, monthly: the 1st) and report
+ * on the period that just ended. All arithmetic runs on "wall clock" dates
+ * whose UTC fields hold the outlet's local time, then converts back.
+ */
+
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+
+export const SEND_HOUR = 7;
+export const DEFAULT_TIME_ZONE = 'Asia/Jakarta';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReportPeriod {
+  start: Date;
+  end: Date;
+}
+
+/** Next send time strictly after `after` */
+export function computeNextSendAt(
+  frequency: ReportFrequency,
+  after: Date,
+  timeZone = DEFAULT_TIME_ZONE,
+): Date {
+  const wall = toWallClock(after, timeZone);
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth();
+  const day = wall.getUTCDate();
+
+  let candidate: number;
+  switch (frequency) {
+    case 'daily':
+      candidate = Date.UTC(year, month, day, SEND_HOUR);
+      if (candidate <= wall.getTime()) candidate += DAY_MS;
+      break;
+    case 'weekly': {
+      const daysToMonday = (8 - wall.getUTCDay()) % 7;
+      candidate = Date.UTC(year, month, day + daysToMonday, SEND_HOUR);
+      if (candidate <= wall.getTime()) candidate += 7 * DAY_MS;
+      break;
+    }
+    case 'monthly':
+      candidate = Date.UTC(year, month, 1, SEND_HOUR);
+      if (candidate <= wall.getTime()) candidate = Date.UTC(year, month + 1, 1, SEND_HOUR);
+      break;
+  }
+
+  return fromWallClock(new Date(candidate), timeZone);
+}
+
+/** The period a run firing at `runAt` reports on: the last full day, week or month */
+export function computeReportPeriod(
+  frequency: ReportFrequency,
+  runAt: Date,
+  timeZone = DEFAULT_TIME_ZONE,
+): ReportPeriod {
+  const wall = toWallClock(runAt, timeZone);
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth();
+  const today = Date.UTC(year, month, wall.getUTCDate());
+
+  let start: number;
+  let end: number;
+  switch (frequency) {
+    case 'daily':
+      start = today - DAY_MS;
+      end = today;
+      break;
+    case 'weekly': {
+      const monday = today - ((wall.getUTCDay() + 6) % 7) * DAY_MS;
+      start = monday - 7 * DAY_MS;
+      end = monday;
+      break;
+    }
+    case 'monthly':
+      start = Date.UTC(year, month - 1, 1);
+      end = Date.UTC(year, month, 1);
+      break;
+  }
+
+  return {
+    start: fromWallClock(new Date(start), timeZone),
+    end: new Date(fromWallClock(new Date(end), timeZone).getTime() - 1),
+  };
+}
+
+/** YYYY-MM-DD in the given zone */
+export function formatLocalDate(date: Date, timeZone = DEFAULT_TIME_ZONE): string {
+  return toWallClock(date, timeZone).toISOString().slice(0, 10);
+}
+
+export function formatPeriodLabel(
+  frequency: ReportFrequency,
+  period: ReportPeriod,
+  timeZone = DEFAULT_TIME_ZONE,
+): string {
+  const start = formatLocalDate(period.start, timeZone);
+  if (frequency === 'daily') return start;
+  if (frequency === 'monthly') return start.slice(0, 7);
+  return `${start} - ${formatLocalDate(period.end, timeZone)}`;
+}
+
+/** Falls back to Asia/Jakarta for unknown zone names */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return DEFAULT_TIME_ZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+function offsetMinutes(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+  return Math.round((asUtc - Math.floor(at.getTime() / 1000) * 1000) / 60000);
+}
+
+/** Shifts `at` so its UTC fields read as the local time in `timeZone` */
+export function toWallClock(at: Date, timeZone: string): Date {
+  return new Date(at.getTime() + offsetMinutes(at, timeZone) * 60000);
+}
+
+/** Inverse of toWallClock: UTC fields hold a local time, returns the real instant */
+export function fromWallClock(wall: Date, timeZone: string): Date {
+  const guess = new Date(wall.getTime() - offsetMinutes(wall, timeZone) * 60000);
+  return new Date(wall.getTime() - offsetMinutes(guess, timeZone) * 60000);
+}
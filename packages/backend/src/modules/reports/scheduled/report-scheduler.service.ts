@@ -0,0 +1,123 @@
+/**
+ * Report Scheduler
+ *
+ * Scans the report schedules saved in business settings and queues a
+ * ReportRun for every schedule that has come due. Sending is done by
+ * ReportProcessor on the report queue.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../../infrastructure/database/prisma.service';
+import {
+  ReportScheduleRepository,
+  type ReportScheduleData,
+} from '../../../infrastructure/repositories/settings/report-schedule.repository';
+import { ReportRunsService } from './report-runs.service';
+import { computeNextSendAt, computeReportPeriod, resolveTimeZone } from './report-schedule.util';
+
+export interface ReportSchedulerTickResult {
+  businesses: number;
+  queued: number;
+  initialized: number;
+}
+
+@Injectable()
+export class ReportSchedulerService {
+  private readonly logger = new Logger(ReportSchedulerService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reportSchedules: ReportScheduleRepository,
+    private readonly reportRuns: ReportRunsService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async handleTick(): Promise<void> {
+    try {
+      const result = await this.tick();
+      if (result.queued > 0) {
+        this.logger.log(`Queued ${result.queued} scheduled report(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Report scheduler tick failed: ${(error as Error).message}`);
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<ReportSchedulerTickResult> {
+    const result: ReportSchedulerTickResult = { businesses: 0, queued: 0, initialized: 0 };
+
+    const businesses = await this.prisma.business.findMany({
+      where: { status: 'active' },
+      select: { id: true, settings: true },
+    });
+
+    for (const business of businesses) {
+      const settings = (business.settings as Record<string, unknown>) || {};
+      const schedules = Array.isArray(settings.reportSchedules)
+        ? (settings.reportSchedules as ReportScheduleData[])
+        : [];
+      const active = schedules.filter((s) => s.isActive && s.recipients?.length > 0);
+      if (active.length === 0) continue;
+
+      result.businesses++;
+      try {
+        await this.processBusiness(business.id, active, now, result);
+      } catch (error) {
+        // One broken business must not hold up everyone else's reports
+        this.logger.error(
+          `Report schedules for business ${business.id} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private async processBusiness(
+    businessId: string,
+    schedules: ReportScheduleData[],
+    now: Date,
+    result: ReportSchedulerTickResult,
+  ): Promise<void> {
+    const outlets = await this.prisma.outlet.findMany({
+      where: { businessId },
+      select: { id: true, timezone: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const schedule of schedules) {
+      const outlet = outlets.find((o) => o.id === schedule.outletId) ?? outlets[0];
+      const timeZone = resolveTimeZone(outlet?.timezone);
+      const nextSendAt = computeNextSendAt(schedule.frequency, now, timeZone).toISOString();
+
+      // New or re-timed schedules start at the next boundary rather than backfilling
+      if (!schedule.nextSendAt) {
+        await this.reportSchedules.updateScheduleTimestamps(businessId, schedule.id, {
+          nextSendAt,
+        });
+        result.initialized++;
+        continue;
+      }
+
+      const dueAt = new Date(schedule.nextSendAt);
+      if (dueAt > now) continue;
+
+      // The period follows the due time, so a late tick still reports the right day
+      const period = computeReportPeriod(schedule.frequency, dueAt, timeZone);
+      const run = await this.reportRuns.enqueue({
+        businessId,
+        scheduleId: schedule.id,
+        reportType: schedule.reportType,
+        format: schedule.format ?? 'pdf',
+        outletId: schedule.outletId ?? null,
+        periodStart: period.start,
+        periodEnd: period.end,
+        recipients: schedule.recipients,
+      });
+      if (run) result.queued++;
+
+      await this.reportSchedules.updateScheduleTimestamps(businessId, schedule.id, { nextSendAt });
+    }
+  }
+}
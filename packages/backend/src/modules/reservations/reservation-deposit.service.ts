@@ -0,0 +1,291 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import type { Reservation, ReservationDeposit } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { EventBusService } from '../../infrastructure/events/event-bus.service';
+import { PaymentGatewayFactory } from '../../infrastructure/services/payment/payment-gateway.factory';
+import type { PaymentStatus } from '../../domain/interfaces/services/payment-gateway';
+import {
+  RESERVATION_DEPOSIT_REF_PREFIX,
+  ReservationDepositPaymentEvent,
+} from '../../domain/events/reservation-deposit-payment.event';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+
+export const RESERVATION_DEPOSIT_METHOD = 'reservation_deposit';
+
+export interface ReservationDepositTender {
+  method: string;
+  amount: number;
+  /** Reservation ID for `reservation_deposit` tenders */
+  referenceNumber?: string;
+}
+
+export interface ApplyReservationDepositsInput {
+  outletId: string;
+  transactionId: string;
+  /** Tenders other than reservation deposits are ignored */
+  payments: ReservationDepositTender[];
+}
+
+function depositReference(): string {
+  return `${RESERVATION_DEPOSIT_REF_PREFIX}${Date.now()}-${randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+/**
+ * ReservationDepositService - Deposits collected through the payment gateway
+ *
+ * A deposit is a gateway payment request with an `RSV-` order id. The
+ * gateway webhooks hand those order ids to this service through
+ * ReservationDepositPaymentEvent instead of looking for a POS payment.
+ * Once paid, the deposit is used as a `reservation_deposit` tender on the
+ * guest's bill, refunded on an early cancellation, or forfeited.
+ */
+@Injectable()
+export class ReservationDepositService implements OnModuleInit {
+  private readonly logger = new Logger(ReservationDepositService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly gatewayFactory: PaymentGatewayFactory,
+    private readonly eventBus: EventBusService,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.ofType(ReservationDepositPaymentEvent).subscribe((event) => {
+      void this.settle(event.referenceNumber, event.status, event.gatewayRef).catch((error) =>
+        this.logger.error(
+          `Failed to settle reservation deposit ${event.referenceNumber}: ${(error as Error).message}`,
+        ),
+      );
+    });
+  }
+
+  // ==========================================================================
+  // Payment requests
+  // ==========================================================================
+
+  /**
+   * Asks the gateway for a payment of the deposit and stores the QR string or
+   * checkout URL it returns. Replaces an earlier request that was not paid.
+   */
+  async request(
+    reservation: Reservation,
+    amount: number,
+    method: string,
+    expiryMinutes: number,
+  ): Promise<ReservationDeposit> {
+    const existing = await this.prisma.reservationDeposit.findUnique({
+      where: { reservationId: reservation.id },
+    });
+    if (existing && existing.status !== 'pending' && existing.status !== 'expired') {
+      throw new BusinessError(
+        ErrorCode.RESERVATION_DEPOSIT_UNAVAILABLE,
+        `Deposit is already ${existing.status}`,
+      );
+    }
+
+    const provider = this.configService.get<string>('PAYMENT_GATEWAY', 'xendit');
+    const referenceNumber = depositReference();
+    const result = await this.gatewayFactory.getGateway(provider).processPayment({
+      method,
+      amount,
+      referenceNumber,
+      description: `Reservation deposit for ${reservation.partySize} guests`,
+      expirySeconds: expiryMinutes * 60,
+      customer: {
+        name: reservation.customerName,
+        email: reservation.customerEmail ?? undefined,
+        phone: reservation.customerPhone,
+      },
+    });
+    if (!result.success) {
+      throw new BusinessError(
+        ErrorCode.RESERVATION_DEPOSIT_UNAVAILABLE,
+        `Payment gateway refused the deposit request: ${result.message ?? 'unknown error'}`,
+      );
+    }
+
+    const data = {
+      amount,
+      status: 'pending' as const,
+      provider,
+      method,
+      referenceNumber,
+      gatewayRef: result.transactionRef || null,
+      paymentData: (result.paymentData ?? {}) as Prisma.InputJsonValue,
+      expiresAt: new Date(Date.now() + expiryMinutes * 60 * 1000),
+      paidAt: null,
+    };
+    return this.prisma.reservationDeposit.upsert({
+      where: { reservationId: reservation.id },
+      create: { reservationId: reservation.id, ...data },
+      update: data,
+    });
+  }
+
+  /** Asks the gateway for the status of a pending deposit, for when a webhook went missing */
+  async refresh(deposit: ReservationDeposit): Promise<void> {
+    if (deposit.status !== 'pending' && deposit.status !== 'expired') return;
+    const status = await this.gatewayFactory
+      .getGateway(deposit.provider)
+      .checkStatus(deposit.gatewayRef ?? deposit.referenceNumber);
+    await this.settle(deposit.referenceNumber, status);
+  }
+
+  /** Applies a gateway status to the deposit with this order id */
+  async settle(referenceNumber: string, status: PaymentStatus, gatewayRef?: string): Promise<void> {
+    const deposit = await this.prisma.reservationDeposit.findUnique({
+      where: { referenceNumber },
+      include: { reservation: true },
+    });
+    if (!deposit) {
+      this.logger.warn(`Reservation deposit ${referenceNumber} not found`);
+      return;
+    }
+
+    if (status === 'completed') {
+      const paid = await this.prisma.reservationDeposit.updateMany({
+        where: { id: deposit.id, status: { in: ['pending', 'expired'] } },
+        data: { status: 'paid', paidAt: new Date(), ...(gatewayRef && { gatewayRef }) },
+      });
+      if (paid.count === 0) return;
+
+      const confirmed = await this.prisma.reservation.updateMany({
+        where: { id: deposit.reservationId, status: 'pending_deposit' },
+        data: { status: 'confirmed' },
+      });
+      if (confirmed.count === 0) {
+        // Paid after the booking lapsed or was cancelled: nothing to hold it against
+        this.logger.warn(`Deposit ${referenceNumber} paid for a closed reservation, refunding`);
+        await this.refund({ ...deposit, status: 'paid' }, 'Reservation no longer active');
+      }
+      return;
+    }
+
+    if (status === 'failed') {
+      await this.prisma.reservationDeposit.updateMany({
+        where: { id: deposit.id, status: 'pending' },
+        data: { status: 'expired' },
+      });
+      return;
+    }
+
+    if (status === 'refunded') {
+      await this.prisma.reservationDeposit.updateMany({
+        where: { id: deposit.id, status: { in: ['paid', 'forfeited'] } },
+        data: { status: 'refunded', refundedAt: new Date() },
+      });
+    }
+  }
+
+  // ==========================================================================
+  // Closing a deposit
+  // ==========================================================================
+
+  /** Returns a paid deposit to the guest through the gateway it was paid with */
+  async refund(deposit: ReservationDeposit, reason: string): Promise<void> {
+    if (deposit.status !== 'paid') return;
+
+    const result = await this.gatewayFactory
+      .getGateway(deposit.provider)
+      .refundPayment(deposit.gatewayRef ?? deposit.referenceNumber, Number(deposit.amount), reason);
+    if (!result.success) {
+      throw new BusinessError(
+        ErrorCode.RESERVATION_DEPOSIT_UNAVAILABLE,
+        `Deposit refund failed: ${result.message ?? 'unknown error'}`,
+      );
+    }
+
+    await this.prisma.reservationDeposit.update({
+      where: { id: deposit.id },
+      data: { status: 'refunded', refundedAt: new Date() },
+    });
+  }
+
+  /** Keeps a paid deposit (late cancellation or no-show) and drops an unpaid request */
+  async forfeit(deposit: ReservationDeposit | null): Promise<void> {
+    if (!deposit) return;
+    if (deposit.status === 'paid') {
+      await this.prisma.reservationDeposit.update({
+        where: { id: deposit.id },
+        data: { status: 'forfeited' },
+      });
+    } else if (deposit.status === 'pending') {
+      await this.prisma.reservationDeposit.update({
+        where: { id: deposit.id },
+        data: { status: 'expired' },
+      });
+    }
+  }
+
+  // ==========================================================================
+  // Tender
+  // ==========================================================================
+
+  /**
+   * Uses paid deposits as tenders on a bill. Runs inside the caller's
+   * database transaction so the sale and the deposit commit together; the
+   * reservation is completed with it.
+   */
+  async apply(tx: Prisma.TransactionClient, input: ApplyReservationDepositsInput): Promise<void> {
+    const tenders = input.payments.filter(
+      (p) => p.method === RESERVATION_DEPOSIT_METHOD && p.amount > 0,
+    );
+
+    for (const tender of tenders) {
+      const deposit = tender.referenceNumber
+        ? await tx.reservationDeposit.findUnique({
+            where: { reservationId: tender.referenceNumber },
+            include: { reservation: { select: { outletId: true } } },
+          })
+        : null;
+      if (!deposit || deposit.reservation.outletId !== input.outletId) {
+        throw new BusinessError(
+          ErrorCode.RESERVATION_DEPOSIT_UNAVAILABLE,
+          'No deposit found for this reservation',
+        );
+      }
+      if (tender.amount > Number(deposit.amount)) {
+        throw new BusinessError(
+          ErrorCode.RESERVATION_DEPOSIT_UNAVAILABLE,
+          `Deposit covers at most ${Number(deposit.amount)}`,
+        );
+      }
+
+      // Conditional update so one deposit is never used on two bills
+      const applied = await tx.reservationDeposit.updateMany({
+        where: { id: deposit.id, status: 'paid' },
+        data: {
+          status: 'applied',
+          transactionId: input.transactionId,
+          appliedAmount: tender.amount,
+          appliedAt: new Date(),
+        },
+      });
+      if (applied.count !== 1) {
+        throw new BusinessError(
+          ErrorCode.RESERVATION_DEPOSIT_UNAVAILABLE,
+          `Deposit is ${deposit.status}, not paid`,
+        );
+      }
+
+      await tx.reservation.updateMany({
+        where: { id: deposit.reservationId, status: { in: ['confirmed', 'seated'] } },
+        data: { status: 'completed', completedAt: new Date() },
+      });
+    }
+  }
+
+  /** Makes deposits used on a voided bill available again */
+  async release(transactionId: string): Promise<number> {
+    const released = await this.prisma.reservationDeposit.updateMany({
+      where: { transactionId, status: 'applied' },
+      data: { status: 'paid', transactionId: null, appliedAmount: null, appliedAt: null },
+    });
+    return released.count;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Reservation slot helpers
+ *
+ * Pure functions behind the availability search: reservation settings with
+ * their defaults, the service window of a day from the outlet's operating
+ * hours, and choosing a table (or a set of combinable tables) for a party.
+ */
+
+import type { OutletOperatingHoursEntry } from '../../domain/interfaces/repositories/settings.repository';
+import { fromWallClock } from '../reports/scheduled/report-schedule.util';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface ReservationSettings {
+  defaultDurationMinutes: number;
+  slotIntervalMinutes: number;
+  /** Time kept free after a booking to clear and reset the table */
+  turnoverBufferMinutes: number;
+  /** Arrivals later than this are recorded as late */
+  lateGraceMinutes: number;
+  /** Confirmed bookings nobody showed up for are closed as no-shows after this */
+  noShowAfterMinutes: number;
+  /** Tables are marked reserved on the floor plan this long before the booking */
+  holdTablesMinutes: number;
+  /** Deposit per guest; 0 turns deposits off */
+  depositPerGuest: number;
+  depositMinPartySize: number;
+  /** Unpaid deposit requests lapse, and release the tables, after this */
+  depositExpiryMinutes: number;
+  /** Cancelling at least this long ahead refunds a paid deposit */
+  freeCancellationHours: number;
+  reminderHoursBefore: number;
+}
+
+export const DEFAULT_RESERVATION_SETTINGS: ReservationSettings = {
+  defaultDurationMinutes: 90,
+  slotIntervalMinutes: 15,
+  turnoverBufferMinutes: 15,
+  lateGraceMinutes: 15,
+  noShowAfterMinutes: 30,
+  holdTablesMinutes: 30,
+  depositPerGuest: 0,
+  depositMinPartySize: 6,
+  depositExpiryMinutes: 60,
+  freeCancellationHours: 24,
+  reminderHoursBefore: 3,
+};
+
+/** Reads `settings.reservations` of an outlet, falling back per field to the defaults */
+export function resolveReservationSettings(outletSettings: unknown): ReservationSettings {
+  const raw = ((outletSettings as Record<string, unknown> | null)?.reservations ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const resolved = { ...DEFAULT_RESERVATION_SETTINGS };
+  for (const key of Object.keys(resolved) as Array<keyof ReservationSettings>) {
+    const value = raw[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      resolved[key] = value;
+    }
+  }
+  return resolved;
+}
+
+export interface ServiceWindow {
+  opensAt: Date;
+  closesAt: Date;
+}
+
+/**
+ * Opening and closing instants for a local calendar date (YYYY-MM-DD).
+ * A closing time at or before the opening time runs past midnight.
+ */
+export function serviceWindow(
+  date: string,
+  hours: OutletOperatingHoursEntry[],
+  timeZone: string,
+): ServiceWindow | null {
+  const dayOfWeek = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  const entry = hours.find((h) => h.dayOfWeek === dayOfWeek);
+  if (!entry || entry.isClosed) return null;
+
+  const opensAt = fromWallClock(new Date(`${date}T${entry.openTime}:00.000Z`), timeZone);
+  let closesAt = fromWallClock(new Date(`${date}T${entry.closeTime}:00.000Z`), timeZone);
+  if (closesAt <= opensAt) {
+    closesAt = new Date(closesAt.getTime() + DAY_MS);
+  }
+  return { opensAt, closesAt };
+}
+
+/** The calendar date before a YYYY-MM-DD date */
+export function previousDate(date: string): string {
+  return new Date(new Date(`${date}T00:00:00.000Z`).getTime() - DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Start times from opening until the last start that still ends by closing */
+export function slotStarts(
+  window: ServiceWindow,
+  durationMinutes: number,
+  intervalMinutes: number,
+  notBefore?: Date,
+): Date[] {
+  const starts: Date[] = [];
+  const step = Math.max(5, intervalMinutes) * MINUTE_MS;
+  const lastStart = window.closesAt.getTime() - durationMinutes * MINUTE_MS;
+  for (let at = window.opensAt.getTime(); at <= lastStart; at += step) {
+    if (notBefore && at < notBefore.getTime()) continue;
+    starts.push(new Date(at));
+  }
+  return starts;
+}
+
+export function addMinutes(at: Date, minutes: number): Date {
+  return new Date(at.getTime() + minutes * MINUTE_MS);
+}
+
+/** Whether two bookings collide once the turnover buffer is added after each */
+export function overlaps(
+  a: { startsAt: Date; endsAt: Date },
+  b: { startsAt: Date; endsAt: Date },
+  bufferMinutes: number,
+): boolean {
+  const buffer = bufferMinutes * MINUTE_MS;
+  return (
+    a.startsAt.getTime() < b.endsAt.getTime() + buffer &&
+    b.startsAt.getTime() < a.endsAt.getTime() + buffer
+  );
+}
+
+export interface ReservableTable {
+  id: string;
+  name: string;
+  capacity: number;
+  section: string | null;
+  isCombinable: boolean;
+}
+
+function seats(tables: ReservableTable[]): number {
+  return tables.reduce((sum, table) => sum + table.capacity, 0);
+}
+
+/**
+ * Chooses tables for a party out of the free ones: the smallest single table
+ * that seats everybody, otherwise the fewest combinable tables of one section
+ * (tables are only pushed together within a section).
+ */
+export function pickTables(
+  freeTables: ReservableTable[],
+  partySize: number,
+  section?: string | null,
+): ReservableTable[] | null {
+  const candidates = section ? freeTables.filter((t) => t.section === section) : freeTables;
+
+  const single = candidates
+    .filter((t) => t.capacity >= partySize)
+    .sort((a, b) => a.capacity - b.capacity || a.name.localeCompare(b.name))[0];
+  if (single) return [single];
+
+  const bySection = new Map<string, ReservableTable[]>();
+  for (const table of candidates.filter((t) => t.isCombinable)) {
+    const key = table.section ?? '';
+    bySection.set(key, [...(bySection.get(key) ?? []), table]);
+  }
+
+  let best: ReservableTable[] | null = null;
+  for (const group of bySection.values()) {
+    const largestFirst = [...group].sort((a, b) => b.capacity - a.capacity);
+    const chosen: ReservableTable[] = [];
+    for (const table of largestFirst) {
+      if (seats(chosen) >= partySize) break;
+      chosen.push(table);
+    }
+    if (seats(chosen) < partySize) continue;
+
+    // Swap the last table for the smallest one that still seats everybody
+    const withoutLast = chosen.slice(0, -1);
+    const needed = partySize - seats(withoutLast);
+    const smallest = largestFirst
+      .filter((t) => !withoutLast.includes(t) && t.capacity >= needed)
+      .sort((a, b) => a.capacity - b.capacity)[0];
+    const combination = [...withoutLast, smallest ?? chosen[chosen.length - 1]];
+
+    if (
+      !best ||
+      combination.length < best.length ||
+      (combination.length === best.length && seats(combination) < seats(best))
+    ) {
+      best = combination;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,161 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  CancelReservationDto,
+  CreateReservationDto,
+  RequestReservationDepositDto,
+  ReservationAvailabilityQueryDto,
+  ReservationQueryDto,
+  ReservationSettingsDto,
+  UpdateReservationDto,
+} from '../../application/dtos/reservation.dto';
+import { ReservationsService } from './reservations.service';
+
+@ApiTags('Reservations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('reservations')
+export class ReservationsController {
+  constructor(private readonly reservationsService: ReservationsService) {}
+
+  // ==================== Settings and availability (before :id) ====================
+
+  @Get('settings')
+  @WithoutPermission()
+  @ApiOperation({ summary: 'Reservation durations, deposit and reminder settings of an outlet' })
+  async getSettings(
+    @Query('outletId', ParseUUIDPipe) outletId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reservationsService.getSettings(user.businessId, outletId);
+  }
+
+  @Put('settings')
+  @RequirePermission('reservations.settings')
+  @ApiOperation({ summary: 'Update the reservation settings of an outlet' })
+  async updateSettings(
+    @Query('outletId', ParseUUIDPipe) outletId: string,
+    @Body() dto: ReservationSettingsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reservationsService.updateSettings(user.businessId, outletId, dto);
+  }
+
+  @Get('availability')
+  @WithoutPermission()
+  @ApiOperation({ summary: 'Free start times and tables for a party on a date' })
+  async availability(
+    @Query() query: ReservationAvailabilityQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reservationsService.findAvailability(user.businessId, query);
+  }
+
+  // ==================== Reservations ====================
+
+  @Get()
+  @WithoutPermission()
+  @ApiOperation({ summary: 'Reservations of an outlet for a local date' })
+  async list(@Query() query: ReservationQueryDto, @CurrentUser() user: AuthUser) {
+    return this.reservationsService.list(user.businessId, query);
+  }
+
+  @Post()
+  @WithoutPermission()
+  @ApiOperation({ summary: 'Book a table; tables are picked automatically when none are given' })
+  async create(@Body() dto: CreateReservationDto, @CurrentUser() user: AuthUser) {
+    return this.reservationsService.create(dto, user);
+  }
+
+  @Get(':id')
+  @WithoutPermission()
+  async findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.reservationsService.findOne(user.businessId, id);
+  }
+
+  @Put(':id')
+  @WithoutPermission()
+  @ApiOperation({ summary: 'Move, resize or re-table a reservation' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateReservationDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reservationsService.update(id, dto, user);
+  }
+
+  @Post(':id/deposit')
+  @WithoutPermission()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a new deposit payment request for a reservation' })
+  async requestDeposit(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RequestReservationDepositDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reservationsService.requestDeposit(id, dto, user);
+  }
+
+  @Post(':id/deposit/refresh')
+  @WithoutPermission()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Check the deposit payment status with the gateway' })
+  async refreshDeposit(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.reservationsService.refreshDeposit(id, user);
+  }
+
+  @Post(':id/seat')
+  @WithoutPermission()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Check the party in and occupy the booked tables' })
+  async seat(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.reservationsService.seat(id, user);
+  }
+
+  @Post(':id/complete')
+  @WithoutPermission()
+  @HttpCode(HttpStatus.OK)
+  async complete(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.reservationsService.complete(id, user);
+  }
+
+  @Post(':id/cancel')
+  @WithoutPermission()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a reservation, refunding or keeping its deposit' })
+  async cancel(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CancelReservationDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reservationsService.cancel(id, dto, user);
+  }
+
+  @Post(':id/no-show')
+  @WithoutPermission()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Close a reservation nobody showed up for; a paid deposit is kept' })
+  async noShow(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.reservationsService.markNoShow(id, user);
+  }
+}
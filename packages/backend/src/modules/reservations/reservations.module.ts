@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { PaymentsModule } from '../payments/payments.module';
+import { OperatingHoursRepository } from '../../infrastructure/repositories/settings/operating-hours.repository';
+import { ReservationsController } from './reservations.controller';
+import { ReservationsService } from './reservations.service';
+import { ReservationDepositService } from './reservation-deposit.service';
+import { ReservationsScheduler } from './reservations.scheduler';
+
+@Module({
+  imports: [PaymentsModule],
+  controllers: [ReservationsController],
+  providers: [
+    ReservationsService,
+    ReservationDepositService,
+    ReservationsScheduler,
+    OperatingHoursRepository,
+  ],
+  exports: [ReservationsService, ReservationDepositService],
+})
+export class ReservationsModule {}
@@ -0,0 +1,187 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { NotificationDispatcherService } from '../../infrastructure/notifications/notification-dispatcher.service';
+import { resolveTimeZone } from '../reports/scheduled/report-schedule.util';
+import { addMinutes, resolveReservationSettings } from './reservation-slots.util';
+import { ReservationsService } from './reservations.service';
+
+export interface ReservationsTickResult {
+  expired: number;
+  held: number;
+  noShows: number;
+  reminded: number;
+}
+
+/** Longest reminder lead time the settings allow */
+const MAX_REMINDER_HOURS = 72;
+
+const withOutlet = {
+  outlet: { select: { id: true, name: true, businessId: true, timezone: true, settings: true } },
+  tables: { select: { tableId: true } },
+  deposit: true,
+} as const;
+
+/**
+ * Reservations Scheduler
+ *
+ * Every five minutes: lapses unpaid deposits, marks tables reserved shortly
+ * before a booking, closes bookings nobody showed up for, and sends the
+ * guest reminders. All timings come from each outlet's reservation settings.
+ */
+@Injectable()
+export class ReservationsScheduler {
+  private readonly logger = new Logger(ReservationsScheduler.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reservations: ReservationsService,
+    private readonly notifications: NotificationDispatcherService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async handleTick(): Promise<void> {
+    try {
+      const result = await this.tick();
+      if (result.expired + result.noShows + result.reminded > 0) {
+        this.logger.log(
+          `Reservations: ${result.expired} deposit(s) lapsed, ${result.noShows} no-show(s), ${result.reminded} reminder(s) sent`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Reservations tick failed: ${(error as Error).message}`);
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<ReservationsTickResult> {
+    return {
+      expired: await this.expireUnpaidDeposits(now),
+      held: await this.holdTables(now),
+      noShows: await this.closeNoShows(now),
+      reminded: await this.sendReminders(now),
+    };
+  }
+
+  /** Bookings whose deposit was not paid in time give their tables back */
+  private async expireUnpaidDeposits(now: Date): Promise<number> {
+    await this.prisma.reservationDeposit.updateMany({
+      where: { status: 'pending', expiresAt: { lt: now } },
+      data: { status: 'expired' },
+    });
+
+    const lapsed = await this.prisma.reservation.findMany({
+      where: { status: 'pending_deposit', deposit: { status: 'expired' } },
+      include: withOutlet,
+    });
+    for (const reservation of lapsed) {
+      await this.prisma.reservation.update({
+        where: { id: reservation.id },
+        data: {
+          status: 'cancelled',
+          cancelledAt: now,
+          cancelReason: 'Deposit not paid in time',
+        },
+      });
+      await this.reservations.releaseTables(reservation);
+    }
+    return lapsed.length;
+  }
+
+  private async holdTables(now: Date): Promise<number> {
+    const upcoming = await this.prisma.reservation.findMany({
+      where: {
+        status: 'confirmed',
+        startsAt: { gte: addMinutes(now, -60), lte: addMinutes(now, 4 * 60) },
+      },
+      include: withOutlet,
+    });
+
+    let held = 0;
+    for (const reservation of upcoming) {
+      const settings = resolveReservationSettings(reservation.outlet.settings);
+      if (reservation.startsAt > addMinutes(now, settings.holdTablesMinutes)) continue;
+
+      const result = await this.prisma.table.updateMany({
+        where: { id: { in: reservation.tables.map((t) => t.tableId) }, status: 'available' },
+        data: { status: 'reserved' },
+      });
+      held += result.count;
+    }
+    return held;
+  }
+
+  private async closeNoShows(now: Date): Promise<number> {
+    const overdue = await this.prisma.reservation.findMany({
+      where: { status: { in: ['pending_deposit', 'confirmed'] }, startsAt: { lt: now } },
+      include: withOutlet,
+    });
+
+    let closed = 0;
+    for (const reservation of overdue) {
+      const settings = resolveReservationSettings(reservation.outlet.settings);
+      if (addMinutes(reservation.startsAt, settings.noShowAfterMinutes) > now) continue;
+
+      await this.reservations.closeAsNoShow(reservation);
+      closed++;
+    }
+    return closed;
+  }
+
+  private async sendReminders(now: Date): Promise<number> {
+    const upcoming = await this.prisma.reservation.findMany({
+      where: {
+        status: 'confirmed',
+        reminderSentAt: null,
+        startsAt: { gt: now, lte: addMinutes(now, MAX_REMINDER_HOURS * 60) },
+      },
+      include: withOutlet,
+    });
+
+    let sent = 0;
+    for (const reservation of upcoming) {
+      const settings = resolveReservationSettings(reservation.outlet.settings);
+      if (settings.reminderHoursBefore <= 0) continue;
+      if (reservation.startsAt > addMinutes(now, settings.reminderHoursBefore * 60)) continue;
+
+      const when = new Intl.DateTimeFormat('id-ID', {
+        timeZone: resolveTimeZone(reservation.outlet.timezone),
+        dateStyle: 'full',
+        timeStyle: 'short',
+      }).format(reservation.startsAt);
+      const title = `Reservation at ${reservation.outlet.name}`;
+      const body = `Hi ${reservation.customerName}, this is a reminder of your table for ${reservation.partySize} on ${when}.`;
+      const metadata = {
+        businessId: reservation.outlet.businessId,
+        outletId: reservation.outletId,
+        notificationType: 'reservation_reminder',
+        reservationId: reservation.id,
+      };
+
+      // recipientId refers to employees in the notification log; guests are
+      // addressed by phone and email only
+      await this.notifications.send({
+        recipientId: '',
+        channel: 'whatsapp',
+        title,
+        body,
+        metadata: { ...metadata, phone: reservation.customerPhone },
+      });
+      if (reservation.customerEmail) {
+        await this.notifications.send({
+          recipientId: '',
+          channel: 'email',
+          title,
+          body,
+          metadata: { ...metadata, email: reservation.customerEmail },
+        });
+      }
+
+      await this.prisma.reservation.update({
+        where: { id: reservation.id },
+        data: { reminderSentAt: now },
+      });
+      sent++;
+    }
+    return sent;
+  }
+}
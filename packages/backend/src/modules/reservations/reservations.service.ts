@@ -0,0 +1,688 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type { ReservationDeposit, ReservationStatus } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { OperatingHoursRepository } from '../../infrastructure/repositories/settings/operating-hours.repository';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type {
+  CancelReservationDto,
+  CreateReservationDto,
+  RequestReservationDepositDto,
+  ReservationAvailabilityQueryDto,
+  ReservationQueryDto,
+  ReservationSettingsDto,
+  UpdateReservationDto,
+} from '../../application/dtos/reservation.dto';
+import {
+  formatLocalDate,
+  fromWallClock,
+  resolveTimeZone,
+} from '../reports/scheduled/report-schedule.util';
+import {
+  addMinutes,
+  overlaps,
+  pickTables,
+  previousDate,
+  resolveReservationSettings,
+  serviceWindow,
+  slotStarts,
+  type ReservableTable,
+  type ReservationSettings,
+  type ServiceWindow,
+} from './reservation-slots.util';
+import { ReservationDepositService } from './reservation-deposit.service';
+
+/** Bookings that hold their tables */
+export const ACTIVE_RESERVATION_STATUSES: ReservationStatus[] = [
+  'pending_deposit',
+  'confirmed',
+  'seated',
+];
+
+const reservationInclude = {
+  tables: {
+    include: { table: { select: { id: true, name: true, capacity: true, section: true } } },
+  },
+  deposit: true,
+} satisfies Prisma.ReservationInclude;
+
+type ReservationWithTables = Prisma.ReservationGetPayload<{ include: typeof reservationInclude }>;
+
+interface OutletContext {
+  id: string;
+  timeZone: string;
+  settings: ReservationSettings;
+}
+
+interface Booking {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+/**
+ * ReservationsService - Table bookings
+ *
+ * A reservation books one table, or several combinable tables of the same
+ * section, for a duration. Availability follows the outlet's operating
+ * hours in its time zone; bookings on the same table are kept apart by the
+ * turnover buffer. Parties at or above the deposit threshold are held as
+ * `pending_deposit` until the gateway reports the deposit paid.
+ */
+@Injectable()
+export class ReservationsService {
+  private readonly logger = new Logger(ReservationsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly operatingHours: OperatingHoursRepository,
+    private readonly deposits: ReservationDepositService,
+  ) {}
+
+  // ==========================================================================
+  // Settings
+  // ==========================================================================
+
+  async getSettings(businessId: string, outletId: string): Promise<ReservationSettings> {
+    return (await this.loadOutlet(businessId, outletId)).settings;
+  }
+
+  async updateSettings(
+    businessId: string,
+    outletId: string,
+    dto: ReservationSettingsDto,
+  ): Promise<ReservationSettings> {
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: outletId, businessId },
+      select: { settings: true },
+    });
+    if (!outlet) {
+      throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+    }
+
+    const current = (outlet.settings as Record<string, unknown>) || {};
+    const reservations = { ...resolveReservationSettings(current), ...dto };
+    await this.prisma.outlet.update({
+      where: { id: outletId },
+      data: { settings: { ...current, reservations } as Prisma.InputJsonValue },
+    });
+    return reservations;
+  }
+
+  // ==========================================================================
+  // Availability
+  // ==========================================================================
+
+  /** Start times on a local date that still have a table (or tables) for the party */
+  async findAvailability(businessId: string, query: ReservationAvailabilityQueryDto) {
+    const outlet = await this.loadOutlet(businessId, query.outletId);
+    const durationMinutes = query.durationMinutes ?? outlet.settings.defaultDurationMinutes;
+    const hours = await this.operatingHours.getOutletOperatingHours(outlet.id);
+    const window = serviceWindow(query.date, hours, outlet.timeZone);
+
+    const result = {
+      date: query.date,
+      timeZone: outlet.timeZone,
+      durationMinutes,
+      opensAt: window?.opensAt ?? null,
+      closesAt: window?.closesAt ?? null,
+      slots: [] as Array<{
+        startsAt: Date;
+        endsAt: Date;
+        tables: ReservableTable[];
+        seats: number;
+      }>,
+    };
+    if (!window) return result;
+
+    const buffer = outlet.settings.turnoverBufferMinutes;
+    const [tables, bookings] = await Promise.all([
+      this.loadTables(outlet.id),
+      this.loadBookings(outlet.id, addMinutes(window.opensAt, -24 * 60), window.closesAt),
+    ]);
+
+    for (const startsAt of slotStarts(
+      window,
+      durationMinutes,
+      outlet.settings.slotIntervalMinutes,
+      new Date(),
+    )) {
+      const slot = { startsAt, endsAt: addMinutes(startsAt, durationMinutes) };
+      const busy = this.busyTableIds(bookings, slot, buffer);
+      const chosen = pickTables(
+        tables.filter((t) => !busy.has(t.id)),
+        query.partySize,
+        query.section,
+      );
+      if (chosen) {
+        result.slots.push({
+          ...slot,
+          tables: chosen,
+          seats: chosen.reduce((sum, t) => sum + t.capacity, 0),
+        });
+      }
+    }
+    return result;
+  }
+
+  // ==========================================================================
+  // Queries
+  // ==========================================================================
+
+  async list(businessId: string, query: ReservationQueryDto) {
+    const outlet = await this.loadOutlet(businessId, query.outletId);
+    const date = query.date ?? formatLocalDate(new Date(), outlet.timeZone);
+    const dayStart = fromWallClock(new Date(`${date}T00:00:00.000Z`), outlet.timeZone);
+    const dayEnd = addMinutes(dayStart, 24 * 60);
+
+    const reservations = await this.prisma.reservation.findMany({
+      where: {
+        outletId: outlet.id,
+        startsAt: { gte: dayStart, lt: dayEnd },
+        ...(query.status && { status: query.status }),
+        ...(query.customerId && { customerId: query.customerId }),
+      },
+      include: reservationInclude,
+      orderBy: { startsAt: 'asc' },
+    });
+    return reservations.map((r) => this.toView(r, outlet.settings));
+  }
+
+  async findOne(businessId: string, id: string) {
+    const reservation = await this.loadReservation(businessId, id);
+    const outlet = await this.loadOutlet(businessId, reservation.outletId);
+    return this.toView(reservation, outlet.settings);
+  }
+
+  // ==========================================================================
+  // Booking
+  // ==========================================================================
+
+  async create(dto: CreateReservationDto, user: AuthUser) {
+    const outlet = await this.loadOutlet(user.businessId, dto.outletId);
+    const durationMinutes = dto.durationMinutes ?? outlet.settings.defaultDurationMinutes;
+    const startsAt = new Date(dto.startsAt);
+    const booking = { startsAt, endsAt: addMinutes(startsAt, durationMinutes) };
+    await this.assertWithinOpeningHours(outlet, booking);
+
+    if (dto.customerId) {
+      const customer = await this.prisma.customer.findFirst({
+        where: { id: dto.customerId, businessId: user.businessId },
+        select: { id: true },
+      });
+      if (!customer) {
+        throw new BusinessError(ErrorCode.CUSTOMER_NOT_FOUND, 'Customer not found');
+      }
+    }
+
+    const depositAmount =
+      dto.depositAmount ??
+      (dto.partySize >= outlet.settings.depositMinPartySize
+        ? outlet.settings.depositPerGuest * dto.partySize
+        : 0);
+
+    const reservation = await this.prisma.$transaction(async (tx) => {
+      const tables = await this.assignTables(tx, outlet, booking, dto.partySize, {
+        tableIds: dto.tableIds,
+        section: dto.section,
+      });
+
+      return tx.reservation.create({
+        data: {
+          outletId: outlet.id,
+          customerId: dto.customerId ?? null,
+          customerName: dto.customerName,
+          customerPhone: dto.customerPhone,
+          customerEmail: dto.customerEmail ?? null,
+          partySize: dto.partySize,
+          section: dto.section ?? null,
+          startsAt: booking.startsAt,
+          endsAt: booking.endsAt,
+          durationMinutes,
+          status: depositAmount > 0 ? 'pending_deposit' : 'confirmed',
+          source: dto.source ?? 'staff',
+          notes: dto.notes ?? null,
+          createdBy: user.employeeId,
+          tables: { create: tables.map((table) => ({ tableId: table.id })) },
+        },
+      });
+    });
+
+    if (depositAmount > 0) {
+      try {
+        await this.deposits.request(
+          reservation,
+          depositAmount,
+          dto.depositMethod ?? 'qris',
+          outlet.settings.depositExpiryMinutes,
+        );
+      } catch (error) {
+        // The booking stands; the deposit can be requested again from the reservation
+        this.logger.warn(
+          `Deposit request for reservation ${reservation.id} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return this.findOne(user.businessId, reservation.id);
+  }
+
+  /** Moves, resizes or re-tables a booking that has not started yet */
+  async update(id: string, dto: UpdateReservationDto, user: AuthUser) {
+    const reservation = await this.loadReservation(user.businessId, id);
+    this.assertStatus(reservation, ['pending_deposit', 'confirmed'], 'changed');
+    const outlet = await this.loadOutlet(user.businessId, reservation.outletId);
+
+    const durationMinutes = dto.durationMinutes ?? reservation.durationMinutes;
+    const startsAt = dto.startsAt ? new Date(dto.startsAt) : reservation.startsAt;
+    const booking = { startsAt, endsAt: addMinutes(startsAt, durationMinutes) };
+    const partySize = dto.partySize ?? reservation.partySize;
+    const section = dto.section ?? reservation.section;
+    if (dto.startsAt || dto.durationMinutes) {
+      await this.assertWithinOpeningHours(outlet, booking);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Keep the current tables when they still fit, unless new ones were asked for
+      const tables = await this.assignTables(tx, outlet, booking, partySize, {
+        tableIds: dto.tableIds ?? reservation.tables.map((t) => t.tableId),
+        section,
+        excludeReservationId: reservation.id,
+        fallbackToAny: !dto.tableIds,
+      });
+
+      await tx.reservationTable.deleteMany({ where: { reservationId: reservation.id } });
+      await tx.reservation.update({
+        where: { id: reservation.id },
+        data: {
+          startsAt: booking.startsAt,
+          endsAt: booking.endsAt,
+          durationMinutes,
+          partySize,
+          section,
+          ...(dto.notes !== undefined && { notes: dto.notes }),
+          reminderSentAt: dto.startsAt ? null : reservation.reminderSentAt,
+          tables: { create: tables.map((table) => ({ tableId: table.id })) },
+        },
+      });
+    });
+
+    return this.findOne(user.businessId, reservation.id);
+  }
+
+  async requestDeposit(id: string, dto: RequestReservationDepositDto, user: AuthUser) {
+    const reservation = await this.loadReservation(user.businessId, id);
+    this.assertStatus(reservation, ['pending_deposit', 'confirmed'], 'given a deposit');
+    const outlet = await this.loadOutlet(user.businessId, reservation.outletId);
+
+    const amount =
+      dto.amount ??
+      (reservation.deposit
+        ? Number(reservation.deposit.amount)
+        : outlet.settings.depositPerGuest * reservation.partySize);
+    if (amount <= 0) {
+      throw new BusinessError(
+        ErrorCode.RESERVATION_DEPOSIT_UNAVAILABLE,
+        'No deposit amount configured for this outlet',
+      );
+    }
+
+    await this.deposits.request(
+      reservation,
+      amount,
+      dto.method ?? reservation.deposit?.method ?? 'qris',
+      outlet.settings.depositExpiryMinutes,
+    );
+    await this.prisma.reservation.updateMany({
+      where: { id: reservation.id, status: 'confirmed' },
+      data: { status: 'pending_deposit' },
+    });
+    return this.findOne(user.businessId, reservation.id);
+  }
+
+  async refreshDeposit(id: string, user: AuthUser) {
+    const reservation = await this.loadReservation(user.businessId, id);
+    if (!reservation.deposit) {
+      throw new BusinessError(
+        ErrorCode.RESERVATION_DEPOSIT_UNAVAILABLE,
+        'Reservation has no deposit',
+      );
+    }
+    await this.deposits.refresh(reservation.deposit);
+    return this.findOne(user.businessId, reservation.id);
+  }
+
+  // ==========================================================================
+  // Arrival and closing
+  // ==========================================================================
+
+  /**
+   * Seats the party at the booked tables. Late arrivals keep their original
+   * end time so the next booking on the table is not pushed back.
+   */
+  async seat(id: string, user: AuthUser) {
+    const reservation = await this.loadReservation(user.businessId, id);
+    this.assertStatus(reservation, ['pending_deposit', 'confirmed'], 'seated');
+
+    const now = new Date();
+    const tableIds = reservation.tables.map((t) => t.tableId);
+    const occupied = await this.prisma.table.findFirst({
+      where: { id: { in: tableIds }, status: 'occupied' },
+      select: { name: true },
+    });
+    if (occupied) {
+      throw new AppError(
+        ErrorCode.TABLE_OCCUPIED,
+        `Table ${occupied.name} is still occupied`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const lateMinutes = Math.max(
+      0,
+      Math.floor((now.getTime() - reservation.startsAt.getTime()) / 60000),
+    );
+    await this.prisma.$transaction(async (tx) => {
+      await tx.reservation.update({
+        where: { id: reservation.id },
+        data: { status: 'seated', arrivedAt: now, lateMinutes },
+      });
+      await tx.table.updateMany({
+        where: { id: { in: tableIds } },
+        data: { status: 'occupied', occupiedAt: now },
+      });
+      // Guests who arrive before paying settle everything on the bill
+      if (reservation.deposit?.status === 'pending') {
+        await tx.reservationDeposit.update({
+          where: { id: reservation.deposit.id },
+          data: { status: 'expired' },
+        });
+      }
+    });
+
+    return this.findOne(user.businessId, reservation.id);
+  }
+
+  async complete(id: string, user: AuthUser) {
+    const reservation = await this.loadReservation(user.businessId, id);
+    this.assertStatus(reservation, ['seated'], 'completed');
+
+    await this.prisma.reservation.update({
+      where: { id: reservation.id },
+      data: { status: 'completed', completedAt: new Date() },
+    });
+    return this.findOne(user.businessId, reservation.id);
+  }
+
+  /**
+   * Cancels a booking. A paid deposit is refunded when the cancellation is
+   * inside the free cancellation window (or staff say so) and kept otherwise.
+   */
+  async cancel(id: string, dto: CancelReservationDto, user: AuthUser) {
+    const reservation = await this.loadReservation(user.businessId, id);
+    this.assertStatus(reservation, ['pending_deposit', 'confirmed'], 'cancelled');
+    const outlet = await this.loadOutlet(user.businessId, reservation.outletId);
+
+    const hoursAhead = (reservation.startsAt.getTime() - Date.now()) / (60 * 60 * 1000);
+    const refund = dto.refundDeposit ?? hoursAhead >= outlet.settings.freeCancellationHours;
+
+    await this.prisma.reservation.update({
+      where: { id: reservation.id },
+      data: {
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        cancelReason: dto.reason ?? null,
+      },
+    });
+    await this.releaseTables(reservation);
+
+    if (reservation.deposit) {
+      if (refund && reservation.deposit.status === 'paid') {
+        await this.deposits.refund(reservation.deposit, dto.reason ?? 'Reservation cancelled');
+      } else {
+        await this.deposits.forfeit(reservation.deposit);
+      }
+    }
+    return this.findOne(user.businessId, reservation.id);
+  }
+
+  async markNoShow(id: string, user: AuthUser) {
+    const reservation = await this.loadReservation(user.businessId, id);
+    this.assertStatus(reservation, ['pending_deposit', 'confirmed'], 'marked as a no-show');
+    if (reservation.startsAt > new Date()) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'A reservation can only be a no-show after its start time',
+      );
+    }
+
+    await this.closeAsNoShow(reservation);
+    return this.findOne(user.businessId, reservation.id);
+  }
+
+  /** Shared with the scheduler's no-show sweep */
+  async closeAsNoShow(reservation: {
+    id: string;
+    tables: Array<{ tableId: string }>;
+    deposit: ReservationDeposit | null;
+  }): Promise<void> {
+    const marked = await this.prisma.reservation.updateMany({
+      where: { id: reservation.id, status: { in: ['pending_deposit', 'confirmed'] } },
+      data: { status: 'no_show', noShowAt: new Date() },
+    });
+    if (marked.count === 0) return;
+
+    await this.releaseTables(reservation);
+    await this.deposits.forfeit(reservation.deposit);
+  }
+
+  /** Frees tables that were held for a booking that will not be seated */
+  async releaseTables(reservation: { tables: Array<{ tableId: string }> }): Promise<void> {
+    await this.prisma.table.updateMany({
+      where: { id: { in: reservation.tables.map((t) => t.tableId) }, status: 'reserved' },
+      data: { status: 'available' },
+    });
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private async loadOutlet(businessId: string, outletId: string): Promise<OutletContext> {
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: outletId, businessId },
+      select: { id: true, timezone: true, settings: true },
+    });
+    if (!outlet) {
+      throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+    }
+    return {
+      id: outlet.id,
+      timeZone: resolveTimeZone(outlet.timezone),
+      settings: resolveReservationSettings(outlet.settings),
+    };
+  }
+
+  private async loadReservation(businessId: string, id: string): Promise<ReservationWithTables> {
+    const reservation = await this.prisma.reservation.findFirst({
+      where: { id, outlet: { businessId } },
+      include: reservationInclude,
+    });
+    if (!reservation) {
+      throw new BusinessError(ErrorCode.RESERVATION_NOT_FOUND, 'Reservation not found');
+    }
+    return reservation;
+  }
+
+  private async loadTables(
+    outletId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<ReservableTable[]> {
+    return client.table.findMany({
+      where: { outletId, isActive: true },
+      select: { id: true, name: true, capacity: true, section: true, isCombinable: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /** Active bookings overlapping [from, to), with their table IDs */
+  private async loadBookings(
+    outletId: string,
+    from: Date,
+    to: Date,
+    client: Prisma.TransactionClient = this.prisma,
+    excludeReservationId?: string,
+  ) {
+    return client.reservation.findMany({
+      where: {
+        outletId,
+        status: { in: ACTIVE_RESERVATION_STATUSES },
+        startsAt: { lt: to },
+        endsAt: { gt: from },
+        ...(excludeReservationId && { id: { not: excludeReservationId } }),
+      },
+      select: { startsAt: true, endsAt: true, tables: { select: { tableId: true } } },
+    });
+  }
+
+  private busyTableIds(
+    bookings: Array<Booking & { tables: Array<{ tableId: string }> }>,
+    slot: Booking,
+    bufferMinutes: number,
+  ): Set<string> {
+    const busy = new Set<string>();
+    for (const booking of bookings) {
+      if (overlaps(booking, slot, bufferMinutes)) {
+        booking.tables.forEach((t) => busy.add(t.tableId));
+      }
+    }
+    return busy;
+  }
+
+  /**
+   * Picks or checks the tables for a booking inside the booking transaction.
+   * The outlet's tables are locked first so two bookings cannot take the same
+   * table at once.
+   */
+  private async assignTables(
+    tx: Prisma.TransactionClient,
+    outlet: OutletContext,
+    booking: Booking,
+    partySize: number,
+    options: {
+      tableIds?: string[];
+      section?: string | null;
+      excludeReservationId?: string;
+      fallbackToAny?: boolean;
+    },
+  ): Promise<ReservableTable[]> {
+    await tx.$queryRaw`SELECT id FROM tables WHERE outlet_id = ${outlet.id}::uuid FOR UPDATE`;
+
+    const buffer = outlet.settings.turnoverBufferMinutes;
+    const [tables, bookings] = await Promise.all([
+      this.loadTables(outlet.id, tx),
+      this.loadBookings(
+        outlet.id,
+        addMinutes(booking.startsAt, -buffer),
+        addMinutes(booking.endsAt, buffer),
+        tx,
+        options.excludeReservationId,
+      ),
+    ]);
+    const busy = this.busyTableIds(bookings, booking, buffer);
+    const free = tables.filter((t) => !busy.has(t.id));
+
+    if (options.tableIds?.length) {
+      const requested = options.tableIds.map((id) => tables.find((t) => t.id === id));
+      const problem = this.checkRequestedTables(requested, busy, partySize);
+      if (!problem) return requested as ReservableTable[];
+      if (!options.fallbackToAny) {
+        throw new BusinessError(ErrorCode.NO_TABLE_AVAILABLE, problem);
+      }
+    }
+
+    const chosen = pickTables(free, partySize, options.section);
+    if (!chosen) {
+      throw new BusinessError(
+        ErrorCode.NO_TABLE_AVAILABLE,
+        `No table for ${partySize} guests is free at that time`,
+      );
+    }
+    return chosen;
+  }
+
+  private checkRequestedTables(
+    requested: Array<ReservableTable | undefined>,
+    busy: Set<string>,
+    partySize: number,
+  ): string | null {
+    if (requested.some((t) => !t)) return 'Table not found in this outlet';
+    const tables = requested as ReservableTable[];
+    const taken = tables.find((t) => busy.has(t.id));
+    if (taken) return `Table ${taken.name} is already booked at that time`;
+    if (tables.length > 1) {
+      const fixed = tables.find((t) => !t.isCombinable);
+      if (fixed) return `Table ${fixed.name} cannot be combined with other tables`;
+    }
+    const seats = tables.reduce((sum, t) => sum + t.capacity, 0);
+    if (seats < partySize) return `The selected tables seat ${seats}, not ${partySize}`;
+    return null;
+  }
+
+  /** The booking has to fit in the service of its own day or the night before */
+  private async assertWithinOpeningHours(outlet: OutletContext, booking: Booking): Promise<void> {
+    if (booking.startsAt.getTime() < Date.now() - 5 * 60 * 1000) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Reservation time is in the past');
+    }
+
+    const hours = await this.operatingHours.getOutletOperatingHours(outlet.id);
+    const date = formatLocalDate(booking.startsAt, outlet.timeZone);
+    const fits = [date, previousDate(date)]
+      .map((d) => serviceWindow(d, hours, outlet.timeZone))
+      .some(
+        (window: ServiceWindow | null) =>
+          !!window && booking.startsAt >= window.opensAt && booking.endsAt <= window.closesAt,
+      );
+    if (!fits) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'Reservation falls outside the outlet opening hours',
+      );
+    }
+  }
+
+  private assertStatus(
+    reservation: { status: ReservationStatus },
+    allowed: ReservationStatus[],
+    action: string,
+  ): void {
+    if (!allowed.includes(reservation.status)) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        `A ${reservation.status.replace('_', ' ')} reservation cannot be ${action}`,
+      );
+    }
+  }
+
+  private toView(reservation: ReservationWithTables, settings: ReservationSettings) {
+    const { tables, deposit, ...rest } = reservation;
+    const lateBy = Math.floor((Date.now() - reservation.startsAt.getTime()) / 60000);
+    return {
+      ...rest,
+      tables: tables.map((t) => t.table),
+      deposit: deposit
+        ? {
+            ...deposit,
+            amount: Number(deposit.amount),
+            appliedAmount: deposit.appliedAmount === null ? null : Number(deposit.appliedAmount),
+          }
+        : null,
+      // Not seated yet and past the grace period
+      isLate:
+        (reservation.status === 'confirmed' || reservation.status === 'pending_deposit') &&
+        lateBy > settings.lateGraceMinutes,
+    };
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Price- and weight-embedded EAN-13 barcodes
+ *
+ * Scales at the bakery and deli counter print labels whose EAN-13 starts
+ * with an in-store prefix (20–29), followed by the item code and the
+ * weight or the price of what was weighed, then the check digit. Which
+ * prefix means what, and how many digits each part takes, is set per
+ * business to match its scales.
+ */
+
+export const EMBEDDED_BARCODE_TYPES = ['weight', 'price'] as const;
+export type EmbeddedBarcodeType = (typeof EMBEDDED_BARCODE_TYPES)[number];
+
+export interface EmbeddedBarcodeLayout {
+  /** Leading digits that mark a label of this layout, e.g. "20" */
+  prefix: string;
+  type: EmbeddedBarcodeType;
+  /** Digits of the item code (the product's PLU, SKU or barcode) after the prefix */
+  itemDigits: number;
+  /** Digits of the weight in kilograms or the price, before the check digit */
+  valueDigits: number;
+  /** Implied decimals of the value, e.g. 3 for grams of a kilogram */
+  decimals: number;
+}
+
+export interface EmbeddedBarcode {
+  layout: EmbeddedBarcodeLayout;
+  itemCode: string;
+  /** Kilograms for a weight label, the amount for a price label */
+  value: number;
+}
+
+/** What most scales sold here print out of the box */
+export const DEFAULT_BARCODE_LAYOUTS: EmbeddedBarcodeLayout[] = [
+  { prefix: '20', type: 'weight', itemDigits: 5, valueDigits: 5, decimals: 3 },
+  { prefix: '21', type: 'price', itemDigits: 5, valueDigits: 5, decimals: 0 },
+];
+
+export function isValidEan13(code: string): boolean {
+  if (!/^\d{13}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const sum = digits
+    .slice(0, 12)
+    .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+}
+
+/** Why a layout cannot work, or null when it can */
+export function layoutProblem(layout: EmbeddedBarcodeLayout): string | null {
+  if (!/^2\d{0,2}$/.test(layout.prefix)) {
+    return `Prefix ${layout.prefix} is not an in-store prefix (20–29)`;
+  }
+  if (layout.prefix.length + layout.itemDigits + layout.valueDigits !== 12) {
+    return `Prefix ${layout.prefix}: prefix, item and value digits must add up to 12`;
+  }
+  if (layout.decimals > layout.valueDigits) {
+    return `Prefix ${layout.prefix}: more decimals than value digits`;
+  }
+  return null;
+}
+
+/**
+ * Splits a scale label into item code and value; null when the code is not
+ * an EAN-13 of any of the layouts. The longest matching prefix wins.
+ */
+export function parseEmbeddedBarcode(
+  code: string,
+  layouts: EmbeddedBarcodeLayout[],
+): EmbeddedBarcode | null {
+  if (!isValidEan13(code)) return null;
+
+  const layout = layouts
+    .filter((l) => code.startsWith(l.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (!layout) return null;
+
+  const itemStart = layout.prefix.length;
+  const valueStart = itemStart + layout.itemDigits;
+  const raw = Number(code.slice(valueStart, valueStart + layout.valueDigits));
+  return {
+    layout,
+    itemCode: code.slice(itemStart, valueStart),
+    value: raw / 10 ** layout.decimals,
+  };
+}
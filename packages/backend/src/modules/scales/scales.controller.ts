@@ -0,0 +1,31 @@
+import { Controller, Get, Put, Body, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { UpdateBarcodeLayoutsDto } from '../../application/dtos/scale.dto';
+import { ScalesService } from './scales.service';
+
+@ApiTags('Scales')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('pos.sale')
+@Controller('scales')
+export class ScalesController {
+  constructor(private readonly scalesService: ScalesService) {}
+
+  @Get('barcode-layouts')
+  @ApiOperation({ summary: 'Price- and weight-embedded barcode layouts of the scales' })
+  async getLayouts(@CurrentUser() user: AuthUser) {
+    return { layouts: await this.scalesService.getLayouts(user.businessId) };
+  }
+
+  @Put('barcode-layouts')
+  @RequirePermission('scales.settings')
+  @ApiOperation({ summary: 'Set the embedded barcode layouts printed by the scales' })
+  async updateLayouts(@Body() dto: UpdateBarcodeLayoutsDto, @CurrentUser() user: AuthUser) {
+    return { layouts: await this.scalesService.updateLayouts(user.businessId, dto.layouts) };
+  }
+}
@@ -0,0 +1,134 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { Quantity } from '../../domain/value-objects/quantity';
+import { convertWeight, toWeightUnit } from '../unit-conversion/weight-units';
+import {
+  DEFAULT_BARCODE_LAYOUTS,
+  layoutProblem,
+  parseEmbeddedBarcode,
+  type EmbeddedBarcodeLayout,
+  type EmbeddedBarcodeType,
+} from './embedded-barcode';
+
+/** A scale label matched to its product, with the quantity it stands for */
+export interface EmbeddedBarcodeMatch {
+  productId: string;
+  type: EmbeddedBarcodeType;
+  itemCode: string;
+  /** In the product's sell unit; kilograms unless the product says otherwise */
+  quantity: number;
+  /** What the label charges */
+  amount: number;
+}
+
+/**
+ * ScalesService - Weighing scale labels
+ *
+ * Keeps the business's embedded-barcode layouts in its settings and turns
+ * a scanned label into product and quantity, so that a weighed item sells
+ * by what the scale printed.
+ */
+@Injectable()
+export class ScalesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getLayouts(businessId: string): Promise<EmbeddedBarcodeLayout[]> {
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { settings: true },
+    });
+    if (!business) throw new NotFoundException('Business not found');
+
+    const settings = (business.settings as Record<string, unknown>) || {};
+    return (settings.embeddedBarcodeLayouts as EmbeddedBarcodeLayout[]) ?? DEFAULT_BARCODE_LAYOUTS;
+  }
+
+  async updateLayouts(
+    businessId: string,
+    layouts: EmbeddedBarcodeLayout[],
+  ): Promise<EmbeddedBarcodeLayout[]> {
+    for (const layout of layouts) {
+      const problem = layoutProblem(layout);
+      if (problem) throw new BusinessError(ErrorCode.VALIDATION_ERROR, problem);
+    }
+    const prefixes = layouts.map((l) => l.prefix);
+    const duplicate = prefixes.find((prefix, i) => prefixes.indexOf(prefix) !== i);
+    if (duplicate) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, `Prefix ${duplicate} is used twice`);
+    }
+
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { settings: true },
+    });
+    if (!business) throw new NotFoundException('Business not found');
+
+    const current = (business.settings as Record<string, unknown>) || {};
+    const saved = layouts.map(({ prefix, type, itemDigits, valueDigits, decimals }) => ({
+      prefix,
+      type,
+      itemDigits,
+      valueDigits,
+      decimals,
+    }));
+    await this.prisma.business.update({
+      where: { id: businessId },
+      data: { settings: { ...current, embeddedBarcodeLayouts: saved } as never },
+    });
+    return saved;
+  }
+
+  /**
+   * The product and quantity behind a scale label; null when the code is not
+   * a label at all, so the caller can go on with a plain barcode lookup
+   */
+  async resolve(businessId: string, code: string): Promise<EmbeddedBarcodeMatch | null> {
+    const label = parseEmbeddedBarcode(code, await this.getLayouts(businessId));
+    if (!label) return null;
+
+    // Scales keep the item code zero-padded; the catalog may not
+    const codes = [...new Set([label.itemCode, label.itemCode.replace(/^0+/, '')])].filter(Boolean);
+    const product = await this.prisma.product.findFirst({
+      where: {
+        businessId,
+        isActive: true,
+        OR: [{ sku: { in: codes } }, { barcode: { in: codes } }],
+      },
+      select: { id: true, name: true, basePrice: true, isWeighed: true, sellUnit: true },
+    });
+    if (!product) {
+      throw new AppError(
+        ErrorCode.PRODUCT_NOT_FOUND,
+        `No product with item code ${label.itemCode} for scale label ${code}`,
+      );
+    }
+
+    const unitPrice = Number(product.basePrice);
+    let quantity: number;
+    if (label.layout.type === 'weight') {
+      if (!product.isWeighed) {
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          `${product.name} is not sold by weight`,
+        );
+      }
+      quantity = convertWeight(label.value, 'kg', toWeightUnit(product.sellUnit) ?? 'kg');
+    } else {
+      quantity = unitPrice > 0 ? Quantity.create(label.value / unitPrice).value : 1;
+    }
+    if (quantity <= 0) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, `Scale label ${code} weighs nothing`);
+    }
+
+    return {
+      productId: product.id,
+      type: label.layout.type,
+      itemCode: label.itemCode,
+      quantity,
+      amount: label.layout.type === 'price' ? label.value : Math.round(unitPrice * quantity),
+    };
+  }
+}
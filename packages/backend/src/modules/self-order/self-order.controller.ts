@@ -1,5 +1,6 @@
 import { Controller, Get, Post, Body, Param, Query, Put } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { WithoutPermission } from '../../infrastructure/auth/require-permission.decorator';
 import { CreateSelfOrderSessionUseCase } from '../../application/use-cases/self-order/create-session.use-case';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
 import { EventBusService } from '../../infrastructure/events/event-bus.service';
@@ -11,6 +12,7 @@ import { getTranslations, getSupportedLocales, isSupportedLocale } from './i18n'
 import { AppError, ErrorCode } from '../../shared/errors/app-error';
 
 @ApiTags('Self Order')
+@WithoutPermission()
 @Controller('self-order')
 export class SelfOrderController {
   constructor(
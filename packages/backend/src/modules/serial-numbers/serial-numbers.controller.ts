@@ -12,6 +12,11 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '@infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '@infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '@infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '@infrastructure/auth/auth-user.interface';
 import {
@@ -21,11 +26,12 @@ import {
 } from './serial-numbers.service';
 
 @Controller('serial-numbers')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class SerialNumbersController {
   constructor(private readonly service: SerialNumbersService) {}
 
   @Get('product/:productId/:outletId')
+  @WithoutPermission()
   async listByProduct(
     @Param('productId') productId: string,
     @Param('outletId') outletId: string,
@@ -37,12 +43,14 @@ export class SerialNumbersController {
   }
 
   @Get('customer/:customerId')
+  @WithoutPermission()
   async listByCustomer(@Param('customerId') customerId: string, @CurrentUser() user: AuthUser) {
     const serials = await this.service.listByCustomer(customerId, user.businessId);
     return { serials };
   }
 
   @Get('warranty-expiring')
+  @WithoutPermission()
   async getWarrantyExpiring(
     @Query('days') days: string | undefined,
     @CurrentUser() user: AuthUser,
@@ -53,22 +61,26 @@ export class SerialNumbersController {
   }
 
   @Get('lookup/:serialNumber')
+  @WithoutPermission()
   async lookupBySerial(@Param('serialNumber') serialNumber: string, @CurrentUser() user: AuthUser) {
     return this.service.findBySerial(serialNumber, user.businessId);
   }
 
   @Get(':id')
+  @WithoutPermission()
   async getById(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     return this.service.findById(id, user.businessId);
   }
 
   @Post()
+  @RequirePermission('serial_numbers.manage')
   async register(@Body() dto: RegisterSerialNumberDto, @CurrentUser() user: AuthUser) {
     const serial = await this.service.register(user.businessId, dto);
     return { serial };
   }
 
   @Post('bulk')
+  @RequirePermission('serial_numbers.manage')
   async bulkRegister(
     @Body() body: { items: BulkRegisterItemDto[] },
     @CurrentUser() user: AuthUser,
@@ -78,6 +90,7 @@ export class SerialNumbersController {
   }
 
   @Put(':id')
+  @RequirePermission('serial_numbers.manage')
   async update(
     @Param('id') id: string,
     @Body()
@@ -95,6 +108,7 @@ export class SerialNumbersController {
   }
 
   @Put(':id/sold')
+  @RequirePermission('serial_numbers.manage')
   async markSold(
     @Param('id') id: string,
     @Body() body: { customerId?: string; transactionId?: string },
@@ -110,6 +124,7 @@ export class SerialNumbersController {
   }
 
   @Put(':id/returned')
+  @RequirePermission('serial_numbers.manage')
   async markReturned(
     @Param('id') id: string,
     @Body() body: { notes?: string },
@@ -120,6 +135,7 @@ export class SerialNumbersController {
   }
 
   @Put(':id/warranty')
+  @RequirePermission('serial_numbers.manage')
   async markWarranty(
     @Param('id') id: string,
     @Body() body: { notes?: string },
@@ -130,6 +146,7 @@ export class SerialNumbersController {
   }
 
   @Put(':id/defective')
+  @RequirePermission('serial_numbers.manage')
   async markDefective(
     @Param('id') id: string,
     @Body() body: { notes?: string },
@@ -140,6 +157,7 @@ export class SerialNumbersController {
   }
 
   @Delete(':id')
+  @RequirePermission('serial_numbers.manage')
   @HttpCode(HttpStatus.NO_CONTENT)
   async delete(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     await this.service.delete(id, user.businessId);
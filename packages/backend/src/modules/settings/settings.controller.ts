@@ -14,11 +14,10 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import type { ISettingsRepository } from '../../domain/interfaces/repositories/settings.repository';
 import { UpdateTaxConfigDto } from '../../application/dtos/settings.dto';
@@ -33,11 +32,12 @@ import {
   UpdateReportScheduleDto,
 } from '../../application/dtos/settings.dto';
 import { BusinessScoped } from '../../shared/guards/business-scope.guard';
+import { PlanLimit } from '../../common/interceptors/subscription.interceptor';
 
 @ApiTags('Settings')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
-@Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('settings.manage')
 @Controller('settings')
 export class SettingsController {
   constructor(
@@ -77,6 +77,7 @@ export class SettingsController {
   }
 
   @Post('outlets')
+  @PlanLimit('outlets')
   async createOutlet(
     @Body()
     dto: {
@@ -540,6 +541,9 @@ export class SettingsController {
       autoPrint: dto.autoPrint,
       copies: dto.copies,
       outletId: dto.outletId,
+      templateId: dto.templateId,
+      stations: dto.stations,
+      paperWidth: dto.paperWidth,
     });
   }
 
@@ -560,6 +564,9 @@ export class SettingsController {
       autoPrint: dto.autoPrint,
       copies: dto.copies,
       outletId: dto.outletId,
+      templateId: dto.templateId,
+      stations: dto.stations,
+      paperWidth: dto.paperWidth,
     });
   }
 
@@ -588,6 +595,8 @@ export class SettingsController {
       reportType: dto.reportType,
       frequency: dto.frequency,
       recipients: dto.recipients,
+      format: dto.format,
+      outletId: dto.outletId,
       isActive: dto.isActive,
     });
   }
@@ -603,6 +612,8 @@ export class SettingsController {
       reportType: dto.reportType,
       frequency: dto.frequency,
       recipients: dto.recipients,
+      format: dto.format,
+      outletId: dto.outletId,
       isActive: dto.isActive,
     });
   }
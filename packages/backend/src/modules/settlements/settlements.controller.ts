@@ -12,18 +12,20 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
 import { decimalToNumberRequired } from '../../infrastructure/repositories/decimal.helper';
 
 @ApiTags('Settlements')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
-@Roles(EmployeeRole.OWNER, EmployeeRole.MANAGER)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('settlements.manage')
 @Controller('settlements')
 export class SettlementsController {
   constructor(private readonly prisma: PrismaService) {}
@@ -327,6 +329,7 @@ export class SettlementsController {
   }
 
   @Get(':id')
+  @PermissionOutlet('paymentSettlement')
   @ApiOperation({ summary: 'Get settlement by ID' })
   async get(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     const s = await this.prisma.paymentSettlement.findUnique({
@@ -434,6 +437,7 @@ export class SettlementsController {
 
   // Frontend calls POST /settlements/:id/settle
   @Post(':id/settle')
+  @PermissionOutlet('paymentSettlement')
   @ApiOperation({ summary: 'Confirm settlement (POST)' })
   async settlePost(
     @Param('id') id: string,
@@ -461,6 +465,7 @@ export class SettlementsController {
 
   // Also support PUT for backwards compatibility
   @Put(':id/settle')
+  @PermissionOutlet('paymentSettlement')
   @ApiOperation({ summary: 'Confirm settlement (PUT)' })
   async settlePut(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     const settlement = await this.prisma.paymentSettlement.findUnique({ where: { id } });
@@ -483,6 +488,7 @@ export class SettlementsController {
 
   // Frontend calls POST /settlements/:id/dispute
   @Post(':id/dispute')
+  @PermissionOutlet('paymentSettlement')
   @ApiOperation({ summary: 'Dispute settlement (POST)' })
   async disputePost(@Param('id') id: string, @Body() dto?: { reason?: string }) {
     const settlement = await this.prisma.paymentSettlement.findUnique({ where: { id } });
@@ -504,6 +510,7 @@ export class SettlementsController {
 
   // Also support PUT for backwards compatibility
   @Put(':id/dispute')
+  @PermissionOutlet('paymentSettlement')
   @ApiOperation({ summary: 'Dispute settlement (PUT)' })
   async disputePut(@Param('id') id: string) {
     const settlement = await this.prisma.paymentSettlement.findUnique({ where: { id } });
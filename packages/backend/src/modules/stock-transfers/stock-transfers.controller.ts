@@ -12,14 +12,18 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { RequestTransferUseCase } from '../../application/use-cases/stock-transfers/request-transfer.use-case';
 import { PrismaService } from '../../infrastructure/database/prisma.service';
 import { StockTransfersService } from './stock-transfers.service';
+import { BinStockService, PICKABLE_TRANSFER_STATUSES } from '../warehouses/bin-stock.service';
 import { EventBusService } from '../../infrastructure/events/event-bus.service';
 import { StockTransferStatusChangedEvent } from '../../domain/events/stock-transfer-status-changed.event';
 import type { StockTransferStatus } from '../../domain/events/stock-transfer-status-changed.event';
@@ -30,7 +34,7 @@ import {
 
 @ApiTags('Stock Transfers')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('stock-transfers')
 export class StockTransfersController {
   constructor(
@@ -38,9 +42,11 @@ export class StockTransfersController {
     private readonly prisma: PrismaService,
     private readonly stockTransfersService: StockTransfersService,
     private readonly eventBus: EventBusService,
+    private readonly binStockService: BinStockService,
   ) {}
 
   @Get()
+  @WithoutPermission()
   async list(
     @CurrentUser() user: AuthUser,
     @Query('status') status?: string,
@@ -64,7 +70,7 @@ export class StockTransfersController {
   }
 
   @Post()
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('inventory.transfer')
   async request(
     @Body()
     dto: {
@@ -89,7 +95,8 @@ export class StockTransfersController {
   }
 
   @Put(':id/approve')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('stockTransferSource')
+  @RequirePermission('inventory.transfer.manage')
   async approve(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     // Get current transfer to emit event with correct data
     const currentTransfer = await this.prisma.stockTransfer.findUnique({
@@ -132,7 +139,8 @@ export class StockTransfersController {
   }
 
   @Put(':id/ship')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @PermissionOutlet('stockTransferSource')
+  @RequirePermission('inventory.transfer')
   async ship(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     // Get current transfer to emit event with correct data
     const currentTransfer = await this.prisma.stockTransfer.findUnique({
@@ -149,9 +157,20 @@ export class StockTransfersController {
       throw new BadRequestException('Transfer not found');
     }
 
-    const updatedTransfer = await this.prisma.stockTransfer.update({
-      where: { id },
-      data: { status: 'in_transit', shippedAt: new Date() },
+    // The goods leave the source bins along the pick list. Claiming the
+    // transfer in the same transaction keeps a second ship call from
+    // picking it again.
+    const updatedTransfer = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.stockTransfer.updateMany({
+        where: { id, status: { in: PICKABLE_TRANSFER_STATUSES } },
+        data: { status: 'in_transit', shippedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new BadRequestException(`Transfer cannot be shipped while ${currentTransfer.status}`);
+      }
+
+      await this.binStockService.consumePickList(tx, user.businessId, id);
+      return tx.stockTransfer.findUniqueOrThrow({ where: { id } });
     });
 
     // Emit event for real-time updates
@@ -171,7 +190,8 @@ export class StockTransfersController {
   }
 
   @Put(':id/receive')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @PermissionOutlet('stockTransferDestination')
+  @RequirePermission('inventory.transfer')
   async receive(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     // Get current transfer to emit event with correct data
     const currentTransfer = await this.prisma.stockTransfer.findUnique({
@@ -214,7 +234,7 @@ export class StockTransfersController {
   }
 
   @Post('direct')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('inventory.transfer')
   async directTransfer(
     @Body()
     dto: {
@@ -298,6 +318,14 @@ export class StockTransfersController {
           },
           data: { quantity: { decrement: item.quantity } },
         });
+        if (item.productId) {
+          await this.binStockService.trimToStockLevel(
+            tx,
+            dto.sourceOutletId,
+            item.productId,
+            item.variantId || null,
+          );
+        }
 
         // Increment destination (upsert)
         await tx.stockLevel.upsert({
@@ -371,6 +399,7 @@ export class StockTransfersController {
   }
 
   @Get('discrepancies')
+  @WithoutPermission()
   async getDiscrepancies(@Query() query: DiscrepancyQueryDto, @CurrentUser() user: AuthUser) {
     if (!query.from || !query.to) {
       throw new BadRequestException('from and to query parameters are required');
@@ -384,7 +413,7 @@ export class StockTransfersController {
   }
 
   @Post('auto-request')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('inventory.transfer')
   async autoRequest(@Body() dto: AutoTransferRequestDto, @CurrentUser() user: AuthUser) {
     const result = await this.stockTransfersService.autoCreateTransferRequest(
       user.businessId,
@@ -404,7 +433,14 @@ export class StockTransfersController {
     return result;
   }
 
+  @Get(':id/pick-list')
+  @WithoutPermission()
+  async pickList(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.binStockService.pickList(user.businessId, id);
+  }
+
   @Get(':id')
+  @WithoutPermission()
   async get(@Param('id') id: string) {
     const transfer = await this.prisma.stockTransfer
       .findUnique({
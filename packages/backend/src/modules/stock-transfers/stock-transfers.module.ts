@@ -3,9 +3,11 @@ import { StockTransfersController } from './stock-transfers.controller';
 import { StockTransfersService } from './stock-transfers.service';
 import { TransferTemplatesController } from './transfer-templates.controller';
 import { TransferTemplatesService } from './transfer-templates.service';
+import { WarehousesModule } from '../warehouses/warehouses.module';
 import { RequestTransferUseCase } from '../../application/use-cases/stock-transfers/request-transfer.use-case';
 
 @Module({
+  imports: [WarehousesModule],
   controllers: [StockTransfersController, TransferTemplatesController],
   providers: [RequestTransferUseCase, StockTransfersService, TransferTemplatesService],
   exports: [TransferTemplatesService],
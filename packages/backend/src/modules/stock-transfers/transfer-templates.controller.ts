@@ -10,11 +10,13 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import {
   TransferTemplatesService,
   type CreateTransferTemplateInput,
@@ -23,25 +25,27 @@ import {
 
 @ApiTags('Transfer Templates')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('transfer-templates')
 export class TransferTemplatesController {
   constructor(private readonly templatesService: TransferTemplatesService) {}
 
   @Get()
+  @WithoutPermission()
   @ApiOperation({ summary: 'List all transfer templates' })
   async list(@CurrentUser() user: AuthUser) {
     return this.templatesService.list(user.businessId);
   }
 
   @Get(':id')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get a transfer template by ID' })
   async get(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     return this.templatesService.get(id, user.businessId);
   }
 
   @Post()
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('inventory.transfer')
   @ApiOperation({ summary: 'Create a new transfer template' })
   async create(
     @Body() body: Omit<CreateTransferTemplateInput, 'businessId' | 'createdBy'>,
@@ -56,7 +60,7 @@ export class TransferTemplatesController {
   }
 
   @Put(':id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('inventory.transfer')
   @ApiOperation({ summary: 'Update a transfer template' })
   async update(
     @Param('id') id: string,
@@ -67,7 +71,7 @@ export class TransferTemplatesController {
   }
 
   @Delete(':id')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('inventory.transfer.manage')
   @ApiOperation({ summary: 'Delete a transfer template' })
   async delete(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     await this.templatesService.delete(id, user.businessId);
@@ -0,0 +1,547 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { EventBusService } from '../../infrastructure/events/event-bus.service';
+import { StockLevelChangedEvent } from '../../domain/events/stock-level-changed.event';
+import { BinStockService, type BinPutaway } from '../warehouses/bin-stock.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+
+export interface ReceiveGoodsLineInput {
+  purchaseOrderItemId: string;
+  quantityReceived: number;
+  quantityRejected?: number;
+  quantityDamaged?: number;
+  notes?: string;
+}
+
+export interface ReceiveGoodsInput {
+  items?: ReceiveGoodsLineInput[];
+  freightCost?: number;
+  otherCost?: number;
+  notes?: string;
+}
+
+export interface GoodsReceiptLineResult {
+  purchaseOrderItemId: string;
+  itemName: string;
+  quantityReceived: number;
+  quantityRejected: number;
+  quantityDamaged: number;
+  unitCost: number;
+  landedCost: number;
+  landedUnitCost: number;
+  outstandingQuantity: number;
+  /** Bin the received quantity was put away into, when the location uses bins */
+  putaway: BinPutaway | null;
+}
+
+export interface GoodsReceiptResult {
+  id: string;
+  grnNumber: string;
+  purchaseOrderId: string;
+  poNumber: string;
+  poStatus: 'partial' | 'received';
+  receivedAt: Date;
+  freightCost: number;
+  otherCost: number;
+  lines: GoodsReceiptLineResult[];
+}
+
+interface PreparedLine extends ReceiveGoodsLineInput {
+  itemName: string;
+  productId: string | null;
+  variantId: string | null;
+  ingredientId: string | null;
+  unitCost: number;
+  outstanding: number;
+  quantityRejected: number;
+  quantityDamaged: number;
+  landedCost: number;
+}
+
+interface StockChange {
+  productId: string;
+  variantId: string | null;
+  previousQty: number;
+  newQty: number;
+}
+
+const RECEIVABLE_STATUSES = ['ordered', 'partial'];
+
+/**
+ * GoodsReceiptService - Receives purchase order deliveries via GRNs
+ *
+ * A PO can be received over several deliveries. Each goods-received note
+ * books the accepted quantity into stock (`purchase` movements), records
+ * rejected and damaged quantities for supplier follow-up, spreads freight
+ * and other landed costs over the received lines by value, and rolls the
+ * landed unit cost into the item's moving average cost. Products received
+ * at a location with bins are put away into a suggested bin.
+ */
+@Injectable()
+export class GoodsReceiptService {
+  private readonly logger = new Logger(GoodsReceiptService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventBus: EventBusService,
+    private readonly binStock: BinStockService,
+  ) {}
+
+  async receive(
+    purchaseOrderId: string,
+    input: ReceiveGoodsInput,
+    user: AuthUser,
+  ): Promise<GoodsReceiptResult> {
+    const po = await this.prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: { items: true, outlet: { select: { businessId: true } } },
+    });
+
+    if (!po || po.outlet.businessId !== user.businessId) {
+      throw new NotFoundException('Purchase order not found');
+    }
+    if (!RECEIVABLE_STATUSES.includes(po.status)) {
+      throw new BadRequestException(`Purchase order in status "${po.status}" cannot be received`);
+    }
+
+    const freightCost = input.freightCost ?? 0;
+    const otherCost = input.otherCost ?? 0;
+    // Fail fast on bad input; quantities are checked again under the PO lock
+    this.prepareLines(po.items, input.items);
+
+    const receivedAt = new Date();
+    const stockChanges: StockChange[] = [];
+    const putaways = new Map<string, BinPutaway>();
+
+    const { grn, grnNumber, lines, poStatus } = await this.prisma.$transaction(async (tx) => {
+      // Lock the PO so concurrent receipts cannot both take the same outstanding quantity
+      await tx.$queryRaw`SELECT id FROM purchase_orders WHERE id = ${po.id}::uuid FOR UPDATE`;
+      const current = await tx.purchaseOrder.findUniqueOrThrow({
+        where: { id: po.id },
+        include: { items: true },
+      });
+      if (!RECEIVABLE_STATUSES.includes(current.status)) {
+        throw new BadRequestException(
+          `Purchase order in status "${current.status}" cannot be received`,
+        );
+      }
+
+      const lines = this.prepareLines(current.items, input.items);
+      this.allocateLandedCost(lines, freightCost + otherCost);
+
+      // GRNs are numbered per PO; the lock above keeps the sequence gap- and collision-free
+      const receiptCount = await tx.goodsReceivedNote.count({
+        where: { purchaseOrderId: po.id },
+      });
+      const grnNumber = `GRN-${po.poNumber}-${String(receiptCount + 1).padStart(2, '0')}`;
+
+      const grn = await tx.goodsReceivedNote.create({
+        data: {
+          purchaseOrderId: po.id,
+          outletId: po.outletId,
+          grnNumber,
+          freightCost,
+          otherCost,
+          notes: input.notes ?? null,
+          receivedBy: user.employeeId,
+          receivedAt,
+          items: {
+            create: lines.map((line) => ({
+              purchaseOrderItemId: line.purchaseOrderItemId,
+              quantityReceived: line.quantityReceived,
+              quantityRejected: line.quantityRejected,
+              quantityDamaged: line.quantityDamaged,
+              unitCost: line.unitCost,
+              landedCost: line.landedCost,
+              notes: line.notes ?? null,
+            })),
+          },
+        },
+      });
+
+      for (const line of lines) {
+        if (line.quantityReceived <= 0) continue;
+
+        await tx.purchaseOrderItem.update({
+          where: { id: line.purchaseOrderItemId },
+          data: { quantityReceived: { increment: line.quantityReceived } },
+        });
+
+        const landedUnitCost = this.landedUnitCost(line);
+        const reference = `GRN ${grnNumber} - PO ${po.poNumber}`;
+
+        if (line.productId) {
+          stockChanges.push(
+            await this.receiveProduct(
+              tx,
+              po.outletId,
+              user,
+              grn.id,
+              line,
+              landedUnitCost,
+              reference,
+            ),
+          );
+
+          const putaway = await this.binStock.putawayReceived(
+            tx,
+            po.outletId,
+            line.productId,
+            line.variantId,
+            line.quantityReceived,
+          );
+          if (putaway) putaways.set(line.purchaseOrderItemId, putaway);
+        } else if (line.ingredientId) {
+          await this.receiveIngredient(
+            tx,
+            po.outletId,
+            user,
+            grn.id,
+            line,
+            landedUnitCost,
+            reference,
+          );
+        }
+      }
+
+      const outstanding = current.items.some((item) => {
+        const line = lines.find((l) => l.purchaseOrderItemId === item.id);
+        const received = Number(item.quantityReceived) + (line?.quantityReceived ?? 0);
+        return received < Number(item.quantityOrdered);
+      });
+      const poStatus: 'partial' | 'received' = outstanding ? 'partial' : 'received';
+
+      await tx.purchaseOrder.update({
+        where: { id: po.id },
+        data: { status: poStatus, receivedAt: poStatus === 'received' ? receivedAt : null },
+      });
+
+      return { grn, grnNumber, lines, poStatus };
+    });
+
+    for (const change of stockChanges) {
+      this.eventBus.publish(
+        new StockLevelChangedEvent(
+          po.outletId,
+          change.productId,
+          change.variantId,
+          change.previousQty,
+          change.newQty,
+        ),
+      );
+    }
+
+    this.logger.log(`${grnNumber} posted for ${po.poNumber} (${poStatus})`);
+
+    return {
+      id: grn.id,
+      grnNumber,
+      purchaseOrderId: po.id,
+      poNumber: po.poNumber,
+      poStatus,
+      receivedAt,
+      freightCost,
+      otherCost,
+      lines: lines.map((line) => ({
+        purchaseOrderItemId: line.purchaseOrderItemId,
+        itemName: line.itemName,
+        quantityReceived: line.quantityReceived,
+        quantityRejected: line.quantityRejected,
+        quantityDamaged: line.quantityDamaged,
+        unitCost: line.unitCost,
+        landedCost: line.landedCost,
+        landedUnitCost: this.landedUnitCost(line),
+        outstandingQuantity: Math.max(0, line.outstanding - line.quantityReceived),
+        putaway: putaways.get(line.purchaseOrderItemId) ?? null,
+      })),
+    };
+  }
+
+  async listReceipts(purchaseOrderId: string, businessId: string) {
+    const po = await this.prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      select: { id: true, outlet: { select: { businessId: true } } },
+    });
+    if (!po || po.outlet.businessId !== businessId) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    return this.prisma.goodsReceivedNote.findMany({
+      where: { purchaseOrderId },
+      include: {
+        items: { include: { purchaseOrderItem: { select: { itemName: true } } } },
+        employee: { select: { id: true, name: true } },
+      },
+      orderBy: { receivedAt: 'asc' },
+    });
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  /**
+   * Validates delivered lines against the PO. Without explicit lines, every
+   * outstanding quantity is received in full (the one-step receive flow).
+   */
+  private prepareLines(
+    poItems: Array<{
+      id: string;
+      itemName: string;
+      productId: string | null;
+      variantId: string | null;
+      ingredientId: string | null;
+      quantityOrdered: Prisma.Decimal;
+      quantityReceived: Prisma.Decimal;
+      unitCost: Prisma.Decimal;
+    }>,
+    inputLines?: ReceiveGoodsLineInput[],
+  ): PreparedLine[] {
+    const outstandingOf = (item: (typeof poItems)[number]) =>
+      Math.max(0, Number(item.quantityOrdered) - Number(item.quantityReceived));
+
+    const requested: ReceiveGoodsLineInput[] =
+      inputLines ??
+      poItems
+        .filter((item) => outstandingOf(item) > 0)
+        .map((item) => ({ purchaseOrderItemId: item.id, quantityReceived: outstandingOf(item) }));
+
+    if (requested.length === 0) {
+      throw new BadRequestException('Nothing left to receive on this purchase order');
+    }
+
+    const seen = new Set<string>();
+    return requested.map((line) => {
+      const item = poItems.find((i) => i.id === line.purchaseOrderItemId);
+      if (!item) {
+        throw new BadRequestException(
+          `Item ${line.purchaseOrderItemId} does not belong to this purchase order`,
+        );
+      }
+      if (seen.has(item.id)) {
+        throw new BadRequestException(`Item "${item.itemName}" is listed more than once`);
+      }
+      seen.add(item.id);
+
+      const outstanding = outstandingOf(item);
+      const quantityRejected = line.quantityRejected ?? 0;
+      const quantityDamaged = line.quantityDamaged ?? 0;
+
+      if (line.quantityReceived + quantityRejected + quantityDamaged <= 0) {
+        throw new BadRequestException(`No quantity recorded for "${item.itemName}"`);
+      }
+      if (line.quantityReceived > outstanding) {
+        throw new BadRequestException(
+          `Received quantity for "${item.itemName}" exceeds outstanding ${outstanding}`,
+        );
+      }
+
+      return {
+        ...line,
+        itemName: item.itemName,
+        productId: item.productId,
+        variantId: item.variantId,
+        ingredientId: item.ingredientId,
+        unitCost: Number(item.unitCost),
+        outstanding,
+        quantityRejected,
+        quantityDamaged,
+        landedCost: 0,
+      };
+    });
+  }
+
+  /**
+   * Spreads landed cost over received lines by received value, falling back
+   * to quantity when the lines carry no cost. Rounding drift lands on the
+   * last received line so the allocation always sums to the total.
+   */
+  private allocateLandedCost(lines: PreparedLine[], total: number): void {
+    if (total <= 0) return;
+
+    const received = lines.filter((l) => l.quantityReceived > 0);
+    if (received.length === 0) {
+      throw new BadRequestException('Landed cost requires at least one received line');
+    }
+
+    const byValue = received.some((l) => l.quantityReceived * l.unitCost > 0);
+    const weightOf = (l: PreparedLine) =>
+      byValue ? l.quantityReceived * l.unitCost : l.quantityReceived;
+    const totalWeight = received.reduce((sum, l) => sum + weightOf(l), 0);
+
+    let allocated = 0;
+    received.forEach((line, index) => {
+      line.landedCost =
+        index === received.length - 1
+          ? this.round(total - allocated, 2)
+          : this.round((total * weightOf(line)) / totalWeight, 2);
+      allocated += line.landedCost;
+    });
+  }
+
+  private landedUnitCost(line: PreparedLine): number {
+    if (line.quantityReceived <= 0) return line.unitCost;
+    return this.round(line.unitCost + line.landedCost / line.quantityReceived, 4);
+  }
+
+  private async receiveProduct(
+    tx: Prisma.TransactionClient,
+    outletId: string,
+    user: AuthUser,
+    grnId: string,
+    line: PreparedLine,
+    landedUnitCost: number,
+    reference: string,
+  ): Promise<StockChange> {
+    const productId = line.productId as string;
+    const variantId = line.variantId;
+
+    // Business-wide stock before this receipt drives the moving average
+    const onHand = await tx.stockLevel.aggregate({
+      where: { productId, variantId, outlet: { businessId: user.businessId } },
+      _sum: { quantity: true },
+    });
+
+    const stockLevel = await tx.stockLevel.findFirst({
+      where: { outletId, productId, variantId },
+    });
+    const previousQty = stockLevel ? Number(stockLevel.quantity) : 0;
+
+    if (stockLevel) {
+      await tx.stockLevel.update({
+        where: { id: stockLevel.id },
+        data: { quantity: { increment: line.quantityReceived } },
+      });
+    } else {
+      await tx.stockLevel.create({
+        data: { outletId, productId, variantId, quantity: line.quantityReceived },
+      });
+    }
+
+    await tx.stockMovement.create({
+      data: {
+        outletId,
+        productId,
+        variantId,
+        movementType: 'purchase',
+        quantity: line.quantityReceived,
+        referenceId: grnId,
+        referenceType: 'goods_received_note',
+        notes: reference,
+        createdBy: user.employeeId,
+      },
+    });
+
+    const existingQty = Math.max(0, Number(onHand._sum.quantity ?? 0));
+    if (variantId) {
+      const variant = await tx.productVariant.findUnique({
+        where: { id: variantId },
+        select: { costPrice: true },
+      });
+      await tx.productVariant.update({
+        where: { id: variantId },
+        data: {
+          costPrice: this.movingAverage(
+            existingQty,
+            variant?.costPrice,
+            line.quantityReceived,
+            landedUnitCost,
+            2,
+          ),
+        },
+      });
+    } else {
+      const product = await tx.product.findUnique({
+        where: { id: productId },
+        select: { costPrice: true },
+      });
+      await tx.product.update({
+        where: { id: productId },
+        data: {
+          costPrice: this.movingAverage(
+            existingQty,
+            product?.costPrice,
+            line.quantityReceived,
+            landedUnitCost,
+            2,
+          ),
+        },
+      });
+    }
+
+    return { productId, variantId, previousQty, newQty: previousQty + line.quantityReceived };
+  }
+
+  private async receiveIngredient(
+    tx: Prisma.TransactionClient,
+    outletId: string,
+    user: AuthUser,
+    grnId: string,
+    line: PreparedLine,
+    landedUnitCost: number,
+    reference: string,
+  ): Promise<void> {
+    const ingredientId = line.ingredientId as string;
+
+    const onHand = await tx.ingredientStockLevel.aggregate({
+      where: { ingredientId, outlet: { businessId: user.businessId } },
+      _sum: { quantity: true },
+    });
+
+    await tx.ingredientStockLevel.upsert({
+      where: { outletId_ingredientId: { outletId, ingredientId } },
+      update: { quantity: { increment: line.quantityReceived } },
+      create: { outletId, ingredientId, quantity: line.quantityReceived },
+    });
+
+    await tx.ingredientStockMovement.create({
+      data: {
+        outletId,
+        ingredientId,
+        movementType: 'purchase',
+        quantity: line.quantityReceived,
+        referenceId: grnId,
+        referenceType: 'goods_received_note',
+        notes: reference,
+        createdBy: user.employeeId,
+      },
+    });
+
+    const ingredient = await tx.ingredient.findUnique({
+      where: { id: ingredientId },
+      select: { costPerUnit: true },
+    });
+    await tx.ingredient.update({
+      where: { id: ingredientId },
+      data: {
+        costPerUnit: this.movingAverage(
+          Math.max(0, Number(onHand._sum.quantity ?? 0)),
+          ingredient?.costPerUnit,
+          line.quantityReceived,
+          landedUnitCost,
+          4,
+        ),
+      },
+    });
+  }
+
+  private movingAverage(
+    existingQty: number,
+    existingCost: Prisma.Decimal | null | undefined,
+    receivedQty: number,
+    receivedUnitCost: number,
+    decimals: number,
+  ): number {
+    if (existingCost === null || existingCost === undefined || existingQty <= 0) {
+      return this.round(receivedUnitCost, decimals);
+    }
+    const total = existingQty * Number(existingCost) + receivedQty * receivedUnitCost;
+    return this.round(total / (existingQty + receivedQty), decimals);
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+}
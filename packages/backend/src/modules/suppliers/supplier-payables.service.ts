@@ -0,0 +1,539 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, type SupplierInvoice } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import type {
+  CreateSupplierInvoiceDto,
+  MatchToleranceDto,
+  RecordSupplierPaymentDto,
+  SupplierInvoiceItemDto,
+  SupplierInvoiceQueryDto,
+} from '../../application/dtos/supplier.dto';
+
+export interface MatchTolerance {
+  quantityPercent: number;
+  pricePercent: number;
+}
+
+export type MatchIssue = 'quantity' | 'price' | 'not_received' | 'not_on_po';
+
+export interface MatchLineResult {
+  purchaseOrderItemId: string | null;
+  description: string;
+  invoicedQuantity: number;
+  receivedQuantity: number;
+  quantityVariancePercent: number | null;
+  orderedUnitCost: number | null;
+  invoicedUnitPrice: number;
+  priceVariancePercent: number | null;
+  issues: MatchIssue[];
+}
+
+export interface MatchResult {
+  status: 'unmatched' | 'matched' | 'mismatch';
+  tolerance: MatchTolerance;
+  lines: MatchLineResult[];
+  checkedAt: string;
+}
+
+const DEFAULT_TOLERANCE: MatchTolerance = { quantityPercent: 0, pricePercent: 2 };
+
+const OPEN_INVOICE_STATUSES: Array<'unpaid' | 'partially_paid'> = ['unpaid', 'partially_paid'];
+
+type PurchaseOrderWithItems = Prisma.PurchaseOrderGetPayload<{
+  include: { items: true; outlet: { select: { businessId: true } } };
+}>;
+
+type GoodsReceivedNoteWithItems = Prisma.GoodsReceivedNoteGetPayload<{ include: { items: true } }>;
+
+type OpenInvoice = Pick<SupplierInvoice, 'id' | 'invoiceNumber' | 'totalAmount' | 'paidAmount'>;
+
+/**
+ * SupplierPayablesService - Supplier invoices, three-way match and payments
+ *
+ * Invoice lines are checked against the PO price and the quantity actually
+ * received (per GRN, or across the whole PO), less what earlier invoices
+ * already billed. Variances above the business tolerance flag the invoice
+ * as `mismatch` for review; payments settle invoices fully or partially.
+ */
+@Injectable()
+export class SupplierPayablesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==========================================================================
+  // Invoices
+  // ==========================================================================
+
+  async createInvoice(dto: CreateSupplierInvoiceDto, user: AuthUser) {
+    const supplier = await this.prisma.supplier.findFirst({
+      where: { id: dto.supplierId, businessId: user.businessId },
+    });
+    if (!supplier) throw new NotFoundException('Supplier not found');
+
+    const po = dto.purchaseOrderId
+      ? await this.loadPurchaseOrder(dto.purchaseOrderId, user.businessId)
+      : null;
+    if (po && po.supplierId !== supplier.id) {
+      throw new BadRequestException('Purchase order belongs to a different supplier');
+    }
+
+    let grn: GoodsReceivedNoteWithItems | null = null;
+    if (dto.goodsReceivedNoteId) {
+      if (!po) throw new BadRequestException('goodsReceivedNoteId requires purchaseOrderId');
+      grn = await this.prisma.goodsReceivedNote.findUnique({
+        where: { id: dto.goodsReceivedNoteId },
+        include: { items: true },
+      });
+      if (!grn || grn.purchaseOrderId !== po.id) {
+        throw new BadRequestException('Goods receipt does not belong to this purchase order');
+      }
+    }
+
+    for (const line of dto.items) {
+      if (line.purchaseOrderItemId && !po?.items.some((i) => i.id === line.purchaseOrderItemId)) {
+        throw new BadRequestException(
+          `Item ${line.purchaseOrderItemId} does not belong to the linked purchase order`,
+        );
+      }
+    }
+
+    const duplicate = await this.prisma.supplierInvoice.findFirst({
+      where: { supplierId: supplier.id, invoiceNumber: dto.invoiceNumber },
+      select: { id: true },
+    });
+    if (duplicate) {
+      throw new ConflictException(`Invoice ${dto.invoiceNumber} already recorded for supplier`);
+    }
+
+    const subtotal = this.round(dto.items.reduce((sum, line) => sum + this.lineSubtotal(line), 0));
+    const taxAmount = dto.taxAmount ?? 0;
+    const match = await this.evaluateMatch(user.businessId, dto.items, po, grn, null);
+
+    return this.prisma.supplierInvoice.create({
+      data: {
+        businessId: user.businessId,
+        supplierId: supplier.id,
+        purchaseOrderId: po?.id ?? null,
+        goodsReceivedNoteId: grn?.id ?? null,
+        invoiceNumber: dto.invoiceNumber,
+        invoiceDate: new Date(dto.invoiceDate),
+        dueDate: new Date(dto.dueDate),
+        subtotal,
+        taxAmount,
+        totalAmount: this.round(subtotal + taxAmount),
+        matchStatus: match.status,
+        matchDetails: match as unknown as Prisma.InputJsonValue,
+        notes: dto.notes ?? null,
+        createdBy: user.employeeId,
+        items: {
+          create: dto.items.map((line) => ({
+            purchaseOrderItemId: line.purchaseOrderItemId ?? null,
+            description: line.description,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            subtotal: this.lineSubtotal(line),
+          })),
+        },
+      },
+      include: { items: true },
+    });
+  }
+
+  async listInvoices(businessId: string, query: SupplierInvoiceQueryDto) {
+    return this.prisma.supplierInvoice.findMany({
+      where: {
+        businessId,
+        ...(query.supplierId && { supplierId: query.supplierId }),
+        ...(query.status && { status: query.status }),
+        ...(query.matchStatus && { matchStatus: query.matchStatus }),
+      },
+      include: {
+        supplier: { select: { id: true, name: true } },
+        purchaseOrder: { select: { id: true, poNumber: true } },
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+  }
+
+  async getInvoice(id: string, businessId: string) {
+    const invoice = await this.prisma.supplierInvoice.findFirst({
+      where: { id, businessId },
+      include: {
+        supplier: { select: { id: true, name: true } },
+        purchaseOrder: { select: { id: true, poNumber: true } },
+        goodsReceivedNote: { select: { id: true, grnNumber: true } },
+        items: true,
+        allocations: { include: { payment: true } },
+      },
+    });
+    if (!invoice) throw new NotFoundException('Supplier invoice not found');
+    return invoice;
+  }
+
+  /**
+   * Re-runs the three-way match, e.g. after the remaining goods arrive.
+   */
+  async rematchInvoice(id: string, businessId: string) {
+    const invoice = await this.prisma.supplierInvoice.findFirst({
+      where: { id, businessId },
+      include: { items: true },
+    });
+    if (!invoice) throw new NotFoundException('Supplier invoice not found');
+    if (invoice.status === 'void') {
+      throw new BadRequestException('Cannot match a void invoice');
+    }
+
+    const po = invoice.purchaseOrderId
+      ? await this.loadPurchaseOrder(invoice.purchaseOrderId, businessId)
+      : null;
+    const grn = invoice.goodsReceivedNoteId
+      ? await this.prisma.goodsReceivedNote.findUnique({
+          where: { id: invoice.goodsReceivedNoteId },
+          include: { items: true },
+        })
+      : null;
+
+    const lines = invoice.items.map((item) => ({
+      purchaseOrderItemId: item.purchaseOrderItemId ?? undefined,
+      description: item.description,
+      quantity: Number(item.quantity),
+      unitPrice: Number(item.unitPrice),
+    }));
+    const match = await this.evaluateMatch(businessId, lines, po, grn, invoice.id);
+
+    return this.prisma.supplierInvoice.update({
+      where: { id: invoice.id },
+      data: {
+        matchStatus: match.status,
+        matchDetails: match as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  async voidInvoice(id: string, businessId: string) {
+    const invoice = await this.prisma.supplierInvoice.findFirst({ where: { id, businessId } });
+    if (!invoice) throw new NotFoundException('Supplier invoice not found');
+    if (Number(invoice.paidAmount) > 0) {
+      throw new BadRequestException('Cannot void an invoice that has payments');
+    }
+
+    return this.prisma.supplierInvoice.update({
+      where: { id: invoice.id },
+      data: { status: 'void' },
+    });
+  }
+
+  // ==========================================================================
+  // Match tolerance (stored in business settings)
+  // ==========================================================================
+
+  async getMatchTolerance(businessId: string): Promise<MatchTolerance> {
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { settings: true },
+    });
+    if (!business) throw new NotFoundException('Business not found');
+
+    const settings = (business.settings as Record<string, unknown>) || {};
+    const tolerance = (settings['threeWayMatchTolerance'] as Partial<MatchTolerance>) || {};
+    return {
+      quantityPercent: tolerance.quantityPercent ?? DEFAULT_TOLERANCE.quantityPercent,
+      pricePercent: tolerance.pricePercent ?? DEFAULT_TOLERANCE.pricePercent,
+    };
+  }
+
+  async updateMatchTolerance(businessId: string, dto: MatchToleranceDto): Promise<MatchTolerance> {
+    const current = await this.getMatchTolerance(businessId);
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { settings: true },
+    });
+    const settings = (business?.settings as Record<string, unknown>) || {};
+
+    const tolerance: MatchTolerance = {
+      quantityPercent: dto.quantityPercent ?? current.quantityPercent,
+      pricePercent: dto.pricePercent ?? current.pricePercent,
+    };
+
+    await this.prisma.business.update({
+      where: { id: businessId },
+      data: { settings: { ...settings, threeWayMatchTolerance: tolerance } as never },
+    });
+
+    return tolerance;
+  }
+
+  // ==========================================================================
+  // Payments
+  // ==========================================================================
+
+  async recordPayment(dto: RecordSupplierPaymentDto, user: AuthUser) {
+    const supplier = await this.prisma.supplier.findFirst({
+      where: { id: dto.supplierId, businessId: user.businessId },
+      select: { id: true },
+    });
+    if (!supplier) throw new NotFoundException('Supplier not found');
+
+    return this.prisma.$transaction(async (tx) => {
+      // Lock the supplier's invoices so concurrent payments see each other's allocations
+      await tx.$queryRaw`SELECT id FROM supplier_invoices WHERE supplier_id = ${supplier.id}::uuid FOR UPDATE`;
+      const openInvoices = await tx.supplierInvoice.findMany({
+        where: {
+          businessId: user.businessId,
+          supplierId: supplier.id,
+          status: { in: OPEN_INVOICE_STATUSES },
+          ...(dto.allocations && { id: { in: dto.allocations.map((a) => a.invoiceId) } }),
+        },
+        orderBy: [{ dueDate: 'asc' }, { invoiceDate: 'asc' }],
+      });
+      const allocations = this.allocatePayment(dto, openInvoices);
+
+      const payment = await tx.supplierPayment.create({
+        data: {
+          businessId: user.businessId,
+          supplierId: supplier.id,
+          paymentNumber: `SPAY-${Date.now().toString(36).toUpperCase()}`,
+          amount: dto.amount,
+          paymentMethod: dto.paymentMethod,
+          reference: dto.reference ?? null,
+          paidAt: dto.paidAt ? new Date(dto.paidAt) : new Date(),
+          notes: dto.notes ?? null,
+          createdBy: user.employeeId,
+          allocations: { create: allocations },
+        },
+        include: { allocations: true },
+      });
+
+      for (const allocation of allocations) {
+        const invoice = openInvoices.find((i) => i.id === allocation.invoiceId)!;
+        const paidAmount = this.round(Number(invoice.paidAmount) + allocation.amount);
+        await tx.supplierInvoice.update({
+          where: { id: invoice.id },
+          data: {
+            paidAmount,
+            status: paidAmount >= Number(invoice.totalAmount) ? 'paid' : 'partially_paid',
+          },
+        });
+      }
+
+      return payment;
+    });
+  }
+
+  async listPayments(businessId: string, supplierId?: string) {
+    return this.prisma.supplierPayment.findMany({
+      where: { businessId, ...(supplierId && { supplierId }) },
+      include: {
+        supplier: { select: { id: true, name: true } },
+        allocations: {
+          include: { invoice: { select: { id: true, invoiceNumber: true } } },
+        },
+      },
+      orderBy: { paidAt: 'desc' },
+    });
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  /**
+   * Splits a payment over open invoices: as allocated by the user, or oldest
+   * due first. Never allocates more than an invoice's outstanding balance.
+   */
+  private allocatePayment(
+    dto: RecordSupplierPaymentDto,
+    openInvoices: OpenInvoice[],
+  ): Array<{ invoiceId: string; amount: number }> {
+    const balanceOf = (invoice: OpenInvoice) =>
+      this.round(Number(invoice.totalAmount) - Number(invoice.paidAmount));
+
+    let allocations: Array<{ invoiceId: string; amount: number }>;
+
+    if (dto.allocations) {
+      const seen = new Set<string>();
+      allocations = dto.allocations.map((allocation) => {
+        const invoice = openInvoices.find((i) => i.id === allocation.invoiceId);
+        if (!invoice) {
+          throw new BadRequestException(`Invoice ${allocation.invoiceId} is not open for supplier`);
+        }
+        if (seen.has(invoice.id)) {
+          throw new BadRequestException(`Invoice ${invoice.invoiceNumber} is allocated twice`);
+        }
+        seen.add(invoice.id);
+        if (allocation.amount > balanceOf(invoice)) {
+          throw new BadRequestException(
+            `Allocation exceeds the ${balanceOf(invoice)} balance of invoice ${invoice.invoiceNumber}`,
+          );
+        }
+        return { invoiceId: invoice.id, amount: this.round(allocation.amount) };
+      });
+
+      const allocated = this.round(allocations.reduce((sum, a) => sum + a.amount, 0));
+      if (allocated !== this.round(dto.amount)) {
+        throw new BadRequestException('Allocations must add up to the payment amount');
+      }
+    } else {
+      // Settle the oldest due invoices first
+      let remaining = this.round(dto.amount);
+      allocations = [];
+      for (const invoice of openInvoices) {
+        if (remaining <= 0) break;
+        const amount = Math.min(remaining, balanceOf(invoice));
+        allocations.push({ invoiceId: invoice.id, amount });
+        remaining = this.round(remaining - amount);
+      }
+      if (remaining > 0) {
+        throw new BadRequestException(
+          `Payment exceeds the supplier's open balance by ${remaining}`,
+        );
+      }
+    }
+
+    return allocations;
+  }
+
+  private async loadPurchaseOrder(
+    purchaseOrderId: string,
+    businessId: string,
+  ): Promise<PurchaseOrderWithItems> {
+    const po = await this.prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: { items: true, outlet: { select: { businessId: true } } },
+    });
+    if (!po || po.outlet.businessId !== businessId) {
+      throw new NotFoundException('Purchase order not found');
+    }
+    return po;
+  }
+
+  /**
+   * Three-way match of invoice lines against the PO (price) and goods
+   * receipts (quantity). Only over-billing counts as a quantity variance,
+   * since suppliers often invoice one PO in several parts.
+   */
+  private async evaluateMatch(
+    businessId: string,
+    lines: SupplierInvoiceItemDto[],
+    po: PurchaseOrderWithItems | null,
+    grn: GoodsReceivedNoteWithItems | null,
+    excludeInvoiceId: string | null,
+  ): Promise<MatchResult> {
+    const tolerance = await this.getMatchTolerance(businessId);
+    const checkedAt = new Date().toISOString();
+
+    if (!po) {
+      return {
+        status: 'unmatched',
+        tolerance,
+        checkedAt,
+        lines: lines.map((line) => ({
+          purchaseOrderItemId: null,
+          description: line.description,
+          invoicedQuantity: line.quantity,
+          receivedQuantity: 0,
+          quantityVariancePercent: null,
+          orderedUnitCost: null,
+          invoicedUnitPrice: line.unitPrice,
+          priceVariancePercent: null,
+          issues: [],
+        })),
+      };
+    }
+
+    const poItemIds = lines
+      .map((line) => line.purchaseOrderItemId)
+      .filter((id): id is string => Boolean(id));
+
+    const previouslyInvoiced = await this.prisma.supplierInvoiceItem.findMany({
+      where: {
+        purchaseOrderItemId: { in: poItemIds },
+        invoice: {
+          status: { not: 'void' },
+          ...(excludeInvoiceId && { id: { not: excludeInvoiceId } }),
+          ...(grn && { goodsReceivedNoteId: grn.id }),
+        },
+      },
+      select: { purchaseOrderItemId: true, quantity: true },
+    });
+
+    const results = lines.map((line): MatchLineResult => {
+      const poItem = po.items.find((item) => item.id === line.purchaseOrderItemId);
+      if (!poItem) {
+        return {
+          purchaseOrderItemId: null,
+          description: line.description,
+          invoicedQuantity: line.quantity,
+          receivedQuantity: 0,
+          quantityVariancePercent: null,
+          orderedUnitCost: null,
+          invoicedUnitPrice: line.unitPrice,
+          priceVariancePercent: null,
+          issues: ['not_on_po'],
+        };
+      }
+
+      const received = grn
+        ? grn.items
+            .filter((item) => item.purchaseOrderItemId === poItem.id)
+            .reduce((sum, item) => sum + Number(item.quantityReceived), 0)
+        : Number(poItem.quantityReceived);
+      const alreadyBilled = previouslyInvoiced
+        .filter((item) => item.purchaseOrderItemId === poItem.id)
+        .reduce((sum, item) => sum + Number(item.quantity), 0);
+      const billable = Math.max(0, received - alreadyBilled);
+      const orderedUnitCost = Number(poItem.unitCost);
+
+      const issues: MatchIssue[] = [];
+      let quantityVariancePercent: number | null = null;
+      if (billable <= 0) {
+        if (line.quantity > 0) issues.push('not_received');
+      } else {
+        quantityVariancePercent = this.round(((line.quantity - billable) / billable) * 100);
+        if (quantityVariancePercent > tolerance.quantityPercent) issues.push('quantity');
+      }
+
+      let priceVariancePercent: number | null = null;
+      if (orderedUnitCost > 0) {
+        priceVariancePercent = this.round(
+          ((line.unitPrice - orderedUnitCost) / orderedUnitCost) * 100,
+        );
+        if (Math.abs(priceVariancePercent) > tolerance.pricePercent) issues.push('price');
+      } else if (line.unitPrice > 0) {
+        issues.push('price');
+      }
+
+      return {
+        purchaseOrderItemId: poItem.id,
+        description: line.description,
+        invoicedQuantity: line.quantity,
+        receivedQuantity: billable,
+        quantityVariancePercent,
+        orderedUnitCost,
+        invoicedUnitPrice: line.unitPrice,
+        priceVariancePercent,
+        issues,
+      };
+    });
+
+    return {
+      status: results.some((line) => line.issues.length > 0) ? 'mismatch' : 'matched',
+      tolerance,
+      checkedAt,
+      lines: results,
+    };
+  }
+
+  private lineSubtotal(line: SupplierInvoiceItemDto): number {
+    return this.round(line.quantity * line.unitPrice);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -14,14 +14,19 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
-import { RolesGuard } from '../../infrastructure/auth/roles.guard';
-import { Roles } from '../../infrastructure/auth/roles.decorator';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
-import { EmployeeRole } from '../../shared/constants/roles';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import type { ISupplierRepository } from '../../domain/interfaces/repositories/supplier.repository';
 import { SuppliersService } from './suppliers.service';
+import { GoodsReceiptService } from './goods-receipt.service';
+import { SupplierPayablesService } from './supplier-payables.service';
 import { BusinessScoped } from '../../shared/guards/business-scope.guard';
 import {
   SupplierAnalyticsQueryDto,
@@ -29,26 +34,35 @@ import {
   ReorderSuggestionsQueryDto,
   ApprovePurchaseOrderDto,
   RejectPurchaseOrderDto,
+  ReceiveGoodsDto,
+  ApAgingQueryDto,
+  CreateSupplierInvoiceDto,
+  SupplierInvoiceQueryDto,
+  MatchToleranceDto,
+  RecordSupplierPaymentDto,
 } from '../../application/dtos/supplier.dto';
 
 @ApiTags('Suppliers')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('suppliers')
 export class SuppliersController {
   constructor(
     @Inject(REPOSITORY_TOKENS.SUPPLIER)
     private readonly supplierRepo: ISupplierRepository,
     private readonly suppliersService: SuppliersService,
+    private readonly goodsReceiptService: GoodsReceiptService,
+    private readonly payablesService: SupplierPayablesService,
   ) {}
 
   @Get()
+  @WithoutPermission()
   async list(@CurrentUser() user: AuthUser) {
     return this.supplierRepo.findByBusinessId(user.businessId);
   }
 
   @Post()
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('suppliers.manage')
   async create(
     @Body()
     dto: {
@@ -72,14 +86,14 @@ export class SuppliersController {
 
   @Put(':id')
   @BusinessScoped({ resource: 'supplier', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('suppliers.manage')
   async update(@Param('id') id: string, @Body() dto: Record<string, unknown>) {
     return this.supplierRepo.update(id, dto);
   }
 
   @Delete(':id')
   @BusinessScoped({ resource: 'supplier', param: 'id' })
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @RequirePermission('suppliers.delete')
   async remove(@Param('id') id: string) {
     await this.supplierRepo.deactivate(id);
     return { message: 'Supplier deactivated' };
@@ -88,6 +102,7 @@ export class SuppliersController {
   // ─── Analytics ───────────────────────────────────────────────────────
 
   @Get('analytics')
+  @WithoutPermission()
   async getAnalytics(@Query() query: SupplierAnalyticsQueryDto) {
     return this.suppliersService.getSupplierAnalytics(
       query.businessId,
@@ -96,8 +111,18 @@ export class SuppliersController {
     );
   }
 
+  @Get('analytics/ap-aging')
+  @RequirePermission('purchasing.payables')
+  async getApAging(@Query() query: ApAgingQueryDto, @CurrentUser() user: AuthUser) {
+    return this.suppliersService.getAccountsPayableAging(
+      user.businessId,
+      query.asOf ? new Date(query.asOf) : new Date(),
+    );
+  }
+
   @Get('analytics/:id')
   @BusinessScoped({ resource: 'supplier', param: 'id' })
+  @WithoutPermission()
   async getSupplierAnalytics(
     @Param('id') id: string,
     @Query('from') from: string,
@@ -123,12 +148,13 @@ export class SuppliersController {
   // ─── Auto-Reorder ───────────────────────────────────────────────────
 
   @Get('reorder-suggestions')
+  @WithoutPermission()
   async getReorderSuggestions(@Query() query: ReorderSuggestionsQueryDto) {
     return this.suppliersService.getReorderSuggestions(query.outletId);
   }
 
   @Post('auto-reorder')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('purchasing.orders')
   async autoReorder(@Body() dto: AutoReorderDto, @CurrentUser() user: AuthUser) {
     return this.suppliersService.autoReorder(dto.outletId, user.employeeId);
   }
@@ -136,6 +162,7 @@ export class SuppliersController {
   // ─── Purchase Orders ────────────────────────────────────────────────
 
   @Get('purchase-orders')
+  @WithoutPermission()
   async listPOs(
     @CurrentUser() user: AuthUser,
     @Query('outletId') outletId?: string,
@@ -150,12 +177,13 @@ export class SuppliersController {
   }
 
   @Get('purchase-orders/pending')
+  @WithoutPermission()
   async getPendingPOs(@CurrentUser() user: AuthUser) {
     return this.suppliersService.getPendingPurchaseOrders(user.businessId);
   }
 
   @Post('purchase-orders')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
+  @RequirePermission('purchasing.orders')
   async createPO(
     @Body()
     dto: {
@@ -193,6 +221,7 @@ export class SuppliersController {
   }
 
   @Get('purchase-orders/:id')
+  @WithoutPermission()
   async getPO(@Param('id') id: string) {
     const po = await this.supplierRepo.findPurchaseOrderById(id);
     if (!po) throw new NotFoundException('Purchase order not found');
@@ -200,20 +229,89 @@ export class SuppliersController {
   }
 
   @Put('purchase-orders/:id/approve')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('purchaseOrder')
+  @RequirePermission('purchasing.approve')
   async approvePO(@Param('id') id: string, @Body() dto: ApprovePurchaseOrderDto) {
     return this.suppliersService.approvePurchaseOrder(id, dto.approvedBy, dto.notes);
   }
 
   @Put('purchase-orders/:id/reject')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER)
+  @PermissionOutlet('purchaseOrder')
+  @RequirePermission('purchasing.approve')
   async rejectPO(@Param('id') id: string, @Body() dto: RejectPurchaseOrderDto) {
     return this.suppliersService.rejectPurchaseOrder(id, dto.rejectedBy, dto.reason);
   }
 
   @Put('purchase-orders/:id/receive')
-  @Roles(EmployeeRole.MANAGER, EmployeeRole.OWNER, EmployeeRole.INVENTORY)
-  async receivePO(@Param('id') id: string) {
-    return this.supplierRepo.receivePurchaseOrder(id);
+  @PermissionOutlet('purchaseOrder')
+  @RequirePermission('purchasing.orders')
+  async receivePO(
+    @Param('id') id: string,
+    @Body() dto: ReceiveGoodsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.goodsReceiptService.receive(id, dto, user);
+  }
+
+  @Get('purchase-orders/:id/receipts')
+  @WithoutPermission()
+  async listReceipts(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.goodsReceiptService.listReceipts(id, user.businessId);
+  }
+
+  // ─── Accounts Payable ───────────────────────────────────────────────
+
+  @Get('invoices')
+  @RequirePermission('purchasing.payables')
+  async listInvoices(@Query() query: SupplierInvoiceQueryDto, @CurrentUser() user: AuthUser) {
+    return this.payablesService.listInvoices(user.businessId, query);
+  }
+
+  @Get('invoices/match-tolerance')
+  @RequirePermission('purchasing.payables')
+  async getMatchTolerance(@CurrentUser() user: AuthUser) {
+    return this.payablesService.getMatchTolerance(user.businessId);
+  }
+
+  @Put('invoices/match-tolerance')
+  @RequirePermission('purchasing.settings')
+  async updateMatchTolerance(@Body() dto: MatchToleranceDto, @CurrentUser() user: AuthUser) {
+    return this.payablesService.updateMatchTolerance(user.businessId, dto);
+  }
+
+  @Get('invoices/:id')
+  @RequirePermission('purchasing.payables')
+  async getInvoice(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.payablesService.getInvoice(id, user.businessId);
+  }
+
+  @Post('invoices')
+  @RequirePermission('purchasing.payables')
+  async createInvoice(@Body() dto: CreateSupplierInvoiceDto, @CurrentUser() user: AuthUser) {
+    return this.payablesService.createInvoice(dto, user);
+  }
+
+  @Post('invoices/:id/match')
+  @RequirePermission('purchasing.payables')
+  async rematchInvoice(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.payablesService.rematchInvoice(id, user.businessId);
+  }
+
+  @Put('invoices/:id/void')
+  @RequirePermission('purchasing.payables')
+  async voidInvoice(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.payablesService.voidInvoice(id, user.businessId);
+  }
+
+  @Get('payments')
+  @RequirePermission('purchasing.payables')
+  async listPayments(@CurrentUser() user: AuthUser, @Query('supplierId') supplierId?: string) {
+    return this.payablesService.listPayments(user.businessId, supplierId);
+  }
+
+  @Post('payments')
+  @RequirePermission('purchasing.payables')
+  async recordPayment(@Body() dto: RecordSupplierPaymentDto, @CurrentUser() user: AuthUser) {
+    return this.payablesService.recordPayment(dto, user);
   }
 }
@@ -1,13 +1,19 @@
 import { Module } from '@nestjs/common';
 import { SuppliersController } from './suppliers.controller';
 import { SuppliersService } from './suppliers.service';
+import { GoodsReceiptService } from './goods-receipt.service';
+import { SupplierPayablesService } from './supplier-payables.service';
+import { WarehousesModule } from '../warehouses/warehouses.module';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import { PrismaSupplierRepository } from '../../infrastructure/repositories/prisma-supplier.repository';
 
 @Module({
+  imports: [WarehousesModule],
   controllers: [SuppliersController],
   providers: [
     SuppliersService,
+    GoodsReceiptService,
+    SupplierPayablesService,
     { provide: REPOSITORY_TOKENS.SUPPLIER, useClass: PrismaSupplierRepository },
   ],
 })
@@ -33,6 +33,27 @@ export interface LeadTimeTrendEntry {
   orderCount: number;
 }
 
+export interface ApAgingBuckets {
+  current: number;
+  days1To30: number;
+  days31To60: number;
+  days61To90: number;
+  days90Plus: number;
+  total: number;
+}
+
+export interface ApAgingSupplierEntry extends ApAgingBuckets {
+  supplierId: string;
+  supplierName: string;
+  invoiceCount: number;
+}
+
+export interface ApAgingReport {
+  asOf: Date;
+  suppliers: ApAgingSupplierEntry[];
+  totals: ApAgingBuckets;
+}
+
 export interface ReorderSuggestion {
   productId: string;
   productName: string;
@@ -215,6 +236,82 @@ export class SuppliersService {
     };
   }
 
+  /**
+   * Accounts payable aging: open invoice balances bucketed by days past due.
+   * Invoices not yet due are `current`.
+   */
+  async getAccountsPayableAging(businessId: string, asOf: Date): Promise<ApAgingReport> {
+    const invoices = await this.prisma.supplierInvoice.findMany({
+      where: {
+        businessId,
+        status: { in: ['unpaid', 'partially_paid'] },
+        invoiceDate: { lte: asOf },
+      },
+      include: { supplier: { select: { id: true, name: true } } },
+    });
+
+    const emptyBuckets = (): ApAgingBuckets => ({
+      current: 0,
+      days1To30: 0,
+      days31To60: 0,
+      days61To90: 0,
+      days90Plus: 0,
+      total: 0,
+    });
+
+    const bySupplier = new Map<string, ApAgingSupplierEntry>();
+    const totals = emptyBuckets();
+
+    for (const invoice of invoices) {
+      const balance = Number(invoice.totalAmount) - Number(invoice.paidAmount);
+      if (balance <= 0) continue;
+
+      const daysPastDue = Math.floor(
+        (asOf.getTime() - invoice.dueDate.getTime()) / (1000 * 60 * 60 * 24),
+      );
+      const bucket: keyof ApAgingBuckets =
+        daysPastDue <= 0
+          ? 'current'
+          : daysPastDue <= 30
+            ? 'days1To30'
+            : daysPastDue <= 60
+              ? 'days31To60'
+              : daysPastDue <= 90
+                ? 'days61To90'
+                : 'days90Plus';
+
+      let entry = bySupplier.get(invoice.supplierId);
+      if (!entry) {
+        entry = {
+          supplierId: invoice.supplier.id,
+          supplierName: invoice.supplier.name,
+          invoiceCount: 0,
+          ...emptyBuckets(),
+        };
+        bySupplier.set(invoice.supplierId, entry);
+      }
+
+      entry.invoiceCount += 1;
+      entry[bucket] += balance;
+      entry.total += balance;
+      totals[bucket] += balance;
+      totals.total += balance;
+    }
+
+    const roundBuckets = <T extends ApAgingBuckets>(buckets: T): T => {
+      for (const key of Object.keys(emptyBuckets()) as Array<keyof ApAgingBuckets>) {
+        buckets[key] = Math.round(buckets[key] * 100) / 100;
+      }
+      return buckets;
+    };
+
+    return {
+      asOf,
+      suppliers: [...bySupplier.values()].map(roundBuckets).sort((a, b) => b.total - a.total),
+      totals: roundBuckets(totals),
+    };
+  }
+
   async getReorderSuggestions(outletId: string): Promise<ReorderSuggestion[]> {
     const lowStockItems = await this.prisma.$queryRaw<RawLowStockRow[]>`
       SELECT
@@ -0,0 +1,41 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { SyncPullQueryDto, SyncPushDto } from '../../application/dtos/sync.dto';
+import { SyncService } from './sync.service';
+
+@ApiTags('Sync')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('sync')
+export class SyncController {
+  constructor(private readonly syncService: SyncService) {}
+
+  @Get('pull')
+  @RequirePermission('pos.offline_sync')
+  @ApiOperation({ summary: 'Changes to one entity type since a cursor' })
+  async pull(@Query() query: SyncPullQueryDto, @CurrentUser() user: AuthUser) {
+    return this.syncService.pull(user, query);
+  }
+
+  @Post('push')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('pos.offline_sync')
+  @ApiOperation({ summary: 'Apply queued offline operations; results are per operation' })
+  async push(@Body() dto: SyncPushDto, @CurrentUser() user: AuthUser) {
+    return this.syncService.push(user, dto);
+  }
+}
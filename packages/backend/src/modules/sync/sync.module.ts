@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SyncController } from './sync.controller';
+import { SyncService } from './sync.service';
+import { PosModule } from '../pos/pos.module';
+import { OverridesModule } from '../overrides/overrides.module';
+import { BusinessModule } from '../business/business.module';
+
+@Module({
+  imports: [PosModule, OverridesModule, BusinessModule],
+  controllers: [SyncController],
+  providers: [SyncService],
+})
+export class SyncModule {}
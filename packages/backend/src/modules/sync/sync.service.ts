@@ -0,0 +1,739 @@
+import { BadRequestException, ForbiddenException, HttpException, Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { plainToInstance } from 'class-transformer';
+import { validate, type ValidationError } from 'class-validator';
+import { Prisma } from '@prisma/client';
+import type {
+  Category,
+  Customer,
+  Payment,
+  Product,
+  Transaction,
+  TransactionItem,
+} from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { EmployeeRole } from '../../shared/constants/roles';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import { CreateTransactionUseCase } from '../../application/use-cases/pos/create-transaction.use-case';
+import { ManagerOverrideService } from '../overrides/manager-override.service';
+import { SubscriptionService } from '../business/services/subscription.service';
+import {
+  SyncCustomerDataDto,
+  SyncTransactionDataDto,
+  type SyncEntityType,
+  type SyncOperationType,
+  type SyncPullQueryDto,
+  type SyncPushDto,
+  type SyncPushOperationDto,
+} from '../../application/dtos/sync.dto';
+
+// ==================== Types ====================
+
+/** One entity as the device caches it; `version` is the server updatedAt in ms */
+export interface SyncRecord {
+  id: string;
+  version: number;
+  deleted: boolean;
+  data: Record<string, unknown>;
+}
+
+export interface SyncPullResult {
+  entityType: SyncEntityType;
+  items: SyncRecord[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  serverTime: string;
+}
+
+export type SyncPushStatus = 'applied' | 'duplicate' | 'conflict' | 'rejected';
+
+export interface SyncPushResult {
+  idempotencyKey: string;
+  entityType: SyncEntityType;
+  operation: SyncOperationType;
+  status: SyncPushStatus;
+  /** Id the device used, e.g. `local-…` for records created offline */
+  clientEntityId: string | null;
+  entityId: string | null;
+  record?: SyncRecord;
+  /** Receipt number of a transaction created offline: the block number the device printed, or a new one */
+  receiptNumber?: string;
+  clientReceiptNumber?: string | null;
+  serverVersion?: number;
+  serverData?: Record<string, unknown>;
+  error?: { code: string; message: string };
+}
+
+type TransactionWithLines = Transaction & { items: TransactionItem[]; payments: Payment[] };
+
+// ==================== Constants ====================
+
+const DEFAULT_PULL_LIMIT = 200;
+
+/**
+ * Rows younger than this are held back from pulls: a DB transaction that
+ * stamped updatedAt earlier may still be committing, and a cursor that
+ * moved past it would skip it for good.
+ */
+const SETTLE_MS = 5000;
+
+// ==================== Helpers ====================
+
+export function encodeCursor(version: number, id: string): string {
+  return Buffer.from(JSON.stringify({ v: version, id })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): { updatedAt: Date; id: string } {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as {
+      v?: unknown;
+      id?: unknown;
+    };
+    if (typeof parsed.v === 'number' && typeof parsed.id === 'string') {
+      return { updatedAt: new Date(parsed.v), id: parsed.id };
+    }
+  } catch {
+    // fall through
+  }
+  throw new BadRequestException('Invalid sync cursor');
+}
+
+/**
+ * Stable id for a record created by a push, derived from its idempotency key.
+ * A replay that slips past the operation log (crash between commit and log
+ * write, or two concurrent replays) collides on the primary key instead of
+ * creating a second sale.
+ */
+export function syncEntityId(businessId: string, idempotencyKey: string): string {
+  const hex = createHash('sha256').update(`${businessId}:${idempotencyKey}`).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function describeErrors(errors: ValidationError[], prefix = ''): string[] {
+  return errors.flatMap((error) => {
+    const path = prefix ? `${prefix}.${error.property}` : error.property;
+    return [
+      ...Object.values(error.constraints ?? {}),
+      ...describeErrors(error.children ?? [], path),
+    ];
+  });
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+// ==================== Service ====================
+
+/**
+ * SyncService - Server side of the web SyncEngine
+ *
+ * Pulls are keyset-paged over (updatedAt, id) so a device only downloads
+ * what changed since its cursor; soft-deleted rows come back with
+ * `deleted: true`. Pushes are applied one by one and recorded against their
+ * idempotency key, so a batch replayed after a network drop answers from
+ * the log instead of applying twice.
+ */
+@Injectable()
+export class SyncService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly createTransaction: CreateTransactionUseCase,
+    private readonly overrides: ManagerOverrideService,
+    private readonly subscriptions: SubscriptionService,
+  ) {}
+
+  // ==========================================================================
+  // Pull
+  // ==========================================================================
+
+  async pull(user: AuthUser, query: SyncPullQueryDto): Promise<SyncPullResult> {
+    const limit = query.limit ?? DEFAULT_PULL_LIMIT;
+    const serverTime = new Date();
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+
+    const window = {
+      AND: [
+        { updatedAt: { lte: new Date(serverTime.getTime() - SETTLE_MS) } },
+        ...(after
+          ? [
+              {
+                OR: [
+                  { updatedAt: { gt: after.updatedAt } },
+                  { updatedAt: after.updatedAt, id: { gt: after.id } },
+                ],
+              },
+            ]
+          : []),
+      ],
+    };
+    const page = {
+      orderBy: [{ updatedAt: 'asc' as const }, { id: 'asc' as const }],
+      take: limit + 1,
+    };
+
+    let records: SyncRecord[];
+    switch (query.entityType) {
+      case 'products': {
+        const rows = await this.prisma.product.findMany({
+          where: { businessId: user.businessId, ...window },
+          ...page,
+        });
+        records = rows.map((row) => this.productRecord(row));
+        break;
+      }
+      case 'categories': {
+        const rows = await this.prisma.category.findMany({
+          where: { businessId: user.businessId, ...window },
+          ...page,
+        });
+        records = rows.map((row) => this.categoryRecord(row));
+        break;
+      }
+      case 'customers': {
+        const rows = await this.prisma.customer.findMany({
+          where: { businessId: user.businessId, ...window },
+          ...page,
+        });
+        records = rows.map((row) => this.customerRecord(row));
+        break;
+      }
+      case 'transactions': {
+        const outletId = await this.resolveOutlet(user, query.outletId);
+        const rows = await this.prisma.transaction.findMany({
+          where: { outletId, ...window },
+          include: { items: true, payments: true },
+          ...page,
+        });
+        records = rows.map((row) => this.transactionRecord(row));
+        break;
+      }
+    }
+
+    const hasMore = records.length > limit;
+    const items = records.slice(0, limit);
+    const last = items[items.length - 1];
+
+    if (query.deviceId) {
+      await this.touchDevice(query.deviceId, user.businessId);
+    }
+
+    return {
+      entityType: query.entityType,
+      items,
+      nextCursor: last ? encodeCursor(last.version, last.id) : (query.cursor ?? null),
+      hasMore,
+      serverTime: serverTime.toISOString(),
+    };
+  }
+
+  // ==========================================================================
+  // Push
+  // ==========================================================================
+
+  async push(
+    user: AuthUser,
+    dto: SyncPushDto,
+  ): Promise<{ results: SyncPushResult[]; serverTime: string }> {
+    // Local ids resolved earlier in this batch, so an offline customer can be
+    // pushed and referenced by an offline sale in the same request
+    const localIds = new Map<string, string>();
+    const results: SyncPushResult[] = [];
+
+    for (const op of dto.operations) {
+      const result = await this.applyOperation(user, op, dto.deviceId, localIds);
+      if (result.clientEntityId && result.entityId) {
+        localIds.set(`${op.entityType}:${result.clientEntityId}`, result.entityId);
+      }
+      results.push(result);
+    }
+
+    if (dto.deviceId) {
+      await this.touchDevice(dto.deviceId, user.businessId);
+    }
+
+    return { results, serverTime: new Date().toISOString() };
+  }
+
+  private async applyOperation(
+    user: AuthUser,
+    op: SyncPushOperationDto,
+    deviceId: string | undefined,
+    localIds: Map<string, string>,
+  ): Promise<SyncPushResult> {
+    const logged = await this.prisma.syncOperationLog.findUnique({
+      where: {
+        businessId_idempotencyKey: {
+          businessId: user.businessId,
+          idempotencyKey: op.idempotencyKey,
+        },
+      },
+    });
+    if (logged) {
+      return { ...(logged.result as unknown as SyncPushResult), status: 'duplicate' };
+    }
+
+    let result: SyncPushResult;
+    try {
+      result = await this.dispatch(user, op, deviceId, localIds);
+    } catch (error) {
+      // Business and validation failures are reported per operation; anything
+      // else (database down, ...) fails the request so the device retries.
+      // Operations applied so far are logged and will answer as duplicates.
+      if (!(error instanceof HttpException)) throw error;
+      return this.rejected(op, error);
+    }
+
+    if (result.status === 'applied' || result.status === 'duplicate') {
+      await this.record(user, op, deviceId, result);
+    }
+    return result;
+  }
+
+  private async dispatch(
+    user: AuthUser,
+    op: SyncPushOperationDto,
+    deviceId: string | undefined,
+    localIds: Map<string, string>,
+  ): Promise<SyncPushResult> {
+    switch (op.entityType) {
+      case 'transactions':
+        if (op.operation !== 'create') {
+          throw new BusinessError(
+            ErrorCode.VALIDATION_ERROR,
+            'Transactions can only be created offline; voids and refunds need a connection',
+          );
+        }
+        return this.createOfflineTransaction(user, op, deviceId, localIds);
+      case 'customers':
+        return this.applyCustomer(user, op, localIds);
+      default:
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          `${op.entityType} are managed from the back office and cannot be pushed`,
+        );
+    }
+  }
+
+  private async record(
+    user: AuthUser,
+    op: SyncPushOperationDto,
+    deviceId: string | undefined,
+    result: SyncPushResult,
+  ): Promise<void> {
+    try {
+      await this.prisma.syncOperationLog.create({
+        data: {
+          businessId: user.businessId,
+          idempotencyKey: op.idempotencyKey,
+          deviceId: deviceId ?? null,
+          employeeId: user.employeeId,
+          entityType: op.entityType,
+          operation: op.operation,
+          clientEntityId: op.entityId ?? null,
+          entityId: result.entityId,
+          result: { ...result, status: 'applied' } as unknown as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      // A concurrent replay of the same key logged it first
+      if (!isUniqueViolation(error)) throw error;
+    }
+  }
+
+  // ==========================================================================
+  // Transactions
+  // ==========================================================================
+
+  private async createOfflineTransaction(
+    user: AuthUser,
+    op: SyncPushOperationDto,
+    deviceId: string | undefined,
+    localIds: Map<string, string>,
+  ): Promise<SyncPushResult> {
+    const data = await this.parsePayload(SyncTransactionDataDto, op.data);
+    const outletId = await this.resolveOutlet(user, data.outletId);
+    const transactionId = syncEntityId(user.businessId, op.idempotencyKey);
+
+    const existing = await this.findTransaction(transactionId);
+    if (existing) {
+      return this.transactionResult(op, existing, 'duplicate', data.receiptNumber);
+    }
+    // Checked per sale rather than on the route, so customers still sync
+    await this.subscriptions.assertWithinLimit(user.businessId, 'monthlyTransactions');
+
+    let customerId: string | undefined;
+    if (data.customerId) {
+      const resolved = await this.resolveCustomerId(user, data.customerId, localIds);
+      if (!resolved) {
+        throw new BusinessError(ErrorCode.CUSTOMER_NOT_FOUND, 'Customer has not been synced');
+      }
+      customerId = resolved;
+    }
+
+    const employee = await this.prisma.employee.findFirst({
+      where: { id: data.employeeId, businessId: user.businessId },
+      select: { id: true },
+    });
+    if (!employee) {
+      throw new BusinessError(ErrorCode.EMPLOYEE_NOT_FOUND, 'Employee not found');
+    }
+
+    try {
+      await this.createTransaction.execute({
+        outletId,
+        employeeId: employee.id,
+        customerId,
+        shiftId: data.shiftId,
+        orderType: data.orderType,
+        tableId: data.tableId,
+        items: data.items,
+        payments: data.payments,
+        discounts: data.discounts,
+        ...(await this.overrides.saleRestrictions(user, outletId)),
+        approvals: {
+          discount: data.discountApprovalToken,
+          priceOverride: data.priceOverrideApprovalToken,
+        },
+        notes: data.notes,
+        transactionId,
+        offlineReceiptNumber: data.receiptNumber,
+        deviceId,
+        occurredAt: this.occurredAt(data.createdAt),
+      });
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      // Same key pushed concurrently; the other request created the sale
+      const created = await this.findTransaction(transactionId);
+      if (!created) throw error;
+      return this.transactionResult(op, created, 'duplicate', data.receiptNumber);
+    }
+
+    const created = await this.findTransaction(transactionId);
+    return this.transactionResult(op, created!, 'applied', data.receiptNumber);
+  }
+
+  private findTransaction(id: string): Promise<TransactionWithLines | null> {
+    return this.prisma.transaction.findUnique({
+      where: { id },
+      include: { items: true, payments: true },
+    });
+  }
+
+  private transactionResult(
+    op: SyncPushOperationDto,
+    txn: TransactionWithLines,
+    status: SyncPushStatus,
+    clientReceiptNumber: string | undefined,
+  ): SyncPushResult {
+    return {
+      ...this.baseResult(op, status),
+      entityId: txn.id,
+      record: this.transactionRecord(txn),
+      receiptNumber: txn.receiptNumber,
+      clientReceiptNumber: clientReceiptNumber ?? null,
+    };
+  }
+
+  /** Device clocks drift; a sale can be back-dated but never future-dated */
+  private occurredAt(createdAt: string | undefined): Date | undefined {
+    if (!createdAt) return undefined;
+    const at = new Date(createdAt);
+    const now = new Date();
+    return at > now ? now : at;
+  }
+
+  // ==========================================================================
+  // Customers
+  // ==========================================================================
+
+  private async applyCustomer(
+    user: AuthUser,
+    op: SyncPushOperationDto,
+    localIds: Map<string, string>,
+  ): Promise<SyncPushResult> {
+    if (op.operation === 'create') {
+      const data = await this.parsePayload(SyncCustomerDataDto, op.data);
+      if (!data.name) {
+        throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'name is required');
+      }
+
+      const id = syncEntityId(user.businessId, op.idempotencyKey);
+      const existing = await this.prisma.customer.findUnique({ where: { id } });
+      if (existing) {
+        return this.customerResult(op, existing, 'duplicate');
+      }
+
+      const customer = await this.prisma.customer.create({
+        data: {
+          id,
+          businessId: user.businessId,
+          name: data.name,
+          email: data.email ?? null,
+          phone: data.phone ?? null,
+          address: data.address ?? null,
+          notes: data.notes ?? null,
+        },
+      });
+      return this.customerResult(op, customer, 'applied');
+    }
+
+    const customerId = op.entityId
+      ? await this.resolveCustomerId(user, op.entityId, localIds)
+      : null;
+    if (!customerId) {
+      throw new BusinessError(ErrorCode.CUSTOMER_NOT_FOUND, 'Customer not found');
+    }
+
+    const changes: Prisma.CustomerUpdateManyMutationInput =
+      op.operation === 'delete'
+        ? { isActive: false }
+        : { ...(await this.parsePayload(SyncCustomerDataDto, op.data)) };
+
+    // Optimistic concurrency: the write only lands if nobody changed the
+    // customer after the version the device last saw
+    const versionCheck =
+      op.baseVersion !== undefined && !op.force
+        ? { updatedAt: { lte: new Date(op.baseVersion) } }
+        : {};
+    const { count } = await this.prisma.customer.updateMany({
+      where: { id: customerId, businessId: user.businessId, ...versionCheck },
+      data: changes,
+    });
+
+    const current = await this.prisma.customer.findFirst({
+      where: { id: customerId, businessId: user.businessId },
+    });
+    if (!current) {
+      throw new BusinessError(ErrorCode.CUSTOMER_NOT_FOUND, 'Customer not found');
+    }
+    if (count === 0) {
+      const server = this.customerRecord(current);
+      return {
+        ...this.baseResult(op, 'conflict'),
+        entityId: current.id,
+        serverVersion: server.version,
+        serverData: server.data,
+      };
+    }
+    return this.customerResult(op, current, 'applied');
+  }
+
+  private customerResult(
+    op: SyncPushOperationDto,
+    customer: Customer,
+    status: SyncPushStatus,
+  ): SyncPushResult {
+    return {
+      ...this.baseResult(op, status),
+      entityId: customer.id,
+      record: this.customerRecord(customer),
+    };
+  }
+
+  // ==========================================================================
+  // Records
+  // ==========================================================================
+
+  private productRecord(row: Product): SyncRecord {
+    return {
+      id: row.id,
+      version: row.updatedAt.getTime(),
+      deleted: !row.isActive,
+      data: {
+        id: row.id,
+        categoryId: row.categoryId,
+        sku: row.sku,
+        barcode: row.barcode,
+        name: row.name,
+        imageUrl: row.imageUrl,
+        basePrice: row.basePrice.toNumber(),
+        hasVariants: row.hasVariants,
+        trackStock: row.trackStock,
+        sellUnit: row.sellUnit,
+        isActive: row.isActive,
+        updatedAt: row.updatedAt.toISOString(),
+      },
+    };
+  }
+
+  private categoryRecord(row: Category): SyncRecord {
+    return {
+      id: row.id,
+      version: row.updatedAt.getTime(),
+      deleted: !row.isActive,
+      data: {
+        id: row.id,
+        parentId: row.parentId,
+        name: row.name,
+        imageUrl: row.imageUrl,
+        sortOrder: row.sortOrder,
+        isActive: row.isActive,
+        updatedAt: row.updatedAt.toISOString(),
+      },
+    };
+  }
+
+  private customerRecord(row: Customer): SyncRecord {
+    return {
+      id: row.id,
+      version: row.updatedAt.getTime(),
+      deleted: !row.isActive,
+      data: {
+        id: row.id,
+        name: row.name,
+        email: row.email,
+        phone: row.phone,
+        address: row.address,
+        notes: row.notes,
+        loyaltyPoints: row.loyaltyPoints,
+        loyaltyTier: row.loyaltyTier,
+        isActive: row.isActive,
+        updatedAt: row.updatedAt.toISOString(),
+      },
+    };
+  }
+
+  private transactionRecord(row: TransactionWithLines): SyncRecord {
+    return {
+      id: row.id,
+      version: row.updatedAt.getTime(),
+      deleted: false,
+      data: {
+        id: row.id,
+        outletId: row.outletId,
+        receiptNumber: row.receiptNumber,
+        offlineReceiptNumber: row.offlineReceiptNumber,
+        transactionType: row.transactionType,
+        orderType: row.orderType,
+        status: row.status,
+        customerId: row.customerId,
+        employeeId: row.employeeId,
+        subtotal: row.subtotal.toNumber(),
+        discountAmount: row.discountAmount.toNumber(),
+        taxAmount: row.taxAmount.toNumber(),
+        grandTotal: row.grandTotal.toNumber(),
+        items: row.items.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          productName: item.productName,
+          quantity: item.quantity.toNumber(),
+          unitPrice: item.unitPrice.toNumber(),
+          subtotal: item.subtotal.toNumber(),
+        })),
+        payments: row.payments.map((payment) => ({
+          method: payment.paymentMethod,
+          amount: payment.amount.toNumber(),
+          referenceNumber: payment.referenceNumber,
+        })),
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+      },
+    };
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private baseResult(op: SyncPushOperationDto, status: SyncPushStatus): SyncPushResult {
+    return {
+      idempotencyKey: op.idempotencyKey,
+      entityType: op.entityType,
+      operation: op.operation,
+      status,
+      clientEntityId: op.entityId ?? null,
+      entityId: null,
+    };
+  }
+
+  private rejected(op: SyncPushOperationDto, error: HttpException): SyncPushResult {
+    const response = error.getResponse();
+    const body = typeof response === 'object' ? (response as { message?: unknown }) : {};
+    const message = Array.isArray(body.message)
+      ? body.message.join(', ')
+      : String(body.message ?? error.message);
+
+    return {
+      ...this.baseResult(op, 'rejected'),
+      error: { code: error instanceof AppError ? error.code : ErrorCode.VALIDATION_ERROR, message },
+    };
+  }
+
+  private async parsePayload<T extends object>(
+    cls: new () => T,
+    data: Record<string, unknown> | undefined,
+  ): Promise<T> {
+    const payload = plainToInstance(cls, data ?? {});
+    const errors = await validate(payload, { whitelist: true });
+    if (errors.length > 0) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, describeErrors(errors).join(', '));
+    }
+    return payload;
+  }
+
+  /**
+   * Maps an id the device used to the server id: ids created earlier in the
+   * batch, server UUIDs as-is, then creates logged by earlier pushes.
+   */
+  private async resolveCustomerId(
+    user: AuthUser,
+    clientId: string,
+    localIds: Map<string, string>,
+  ): Promise<string | null> {
+    const inBatch = localIds.get(`customers:${clientId}`);
+    if (inBatch) return inBatch;
+    if (UUID_PATTERN.test(clientId)) {
+      // A server id sent by the device must still belong to this business
+      const customer = await this.prisma.customer.findFirst({
+        where: { id: clientId, businessId: user.businessId },
+        select: { id: true },
+      });
+      return customer?.id ?? null;
+    }
+
+    const logged = await this.prisma.syncOperationLog.findFirst({
+      where: {
+        businessId: user.businessId,
+        entityType: 'customers',
+        clientEntityId: clientId,
+        entityId: { not: null },
+      },
+      select: { entityId: true },
+    });
+    return logged?.entityId ?? null;
+  }
+
+  private async resolveOutlet(user: AuthUser, outletId: string | undefined): Promise<string> {
+    const target = outletId ?? user.outletId;
+    if (!target) {
+      throw new BadRequestException('Outlet ID is required');
+    }
+    if (target === user.outletId) return target;
+
+    if (user.role !== EmployeeRole.OWNER && user.role !== EmployeeRole.SUPER_ADMIN) {
+      throw new ForbiddenException('Cannot sync other outlets');
+    }
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: target, businessId: user.businessId },
+      select: { id: true },
+    });
+    if (!outlet) {
+      throw new BusinessError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found');
+    }
+    return outlet.id;
+  }
+
+  private async touchDevice(deviceId: string, businessId: string): Promise<void> {
+    await this.prisma.device.updateMany({
+      where: { id: deviceId, businessId },
+      data: { lastSyncAt: new Date(), lastActiveAt: new Date() },
+    });
+  }
+}
@@ -12,6 +12,11 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
 import { SplitBillUseCase } from '../../application/use-cases/tables/split-bill.use-case';
@@ -26,7 +31,7 @@ import { BusinessScoped } from '../../shared/guards/business-scope.guard';
 
 @ApiTags('Tables')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('tables')
 export class TablesController {
   constructor(
@@ -42,12 +47,14 @@ export class TablesController {
   // ==================== Table CRUD ====================
 
   @Get('sections')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get unique sections for an outlet' })
   async getSections(@Query('outletId') outletId: string) {
     return this.tablesService.getSections(outletId);
   }
 
   @Get()
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get tables by outlet' })
   async list(
     @Query('outletId') outletId: string,
@@ -65,12 +72,14 @@ export class TablesController {
 
   @Get(':id')
   @BusinessScoped({ resource: 'table', param: 'id' })
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get single table by ID' })
   async getById(@Param('id') id: string) {
     return this.tablesService.findById(id);
   }
 
   @Post()
+  @RequirePermission('tables.manage')
   @ApiOperation({ summary: 'Create a new table' })
   async create(
     @Body()
@@ -88,6 +97,7 @@ export class TablesController {
 
   @Put(':id')
   @BusinessScoped({ resource: 'table', param: 'id' })
+  @RequirePermission('tables.manage')
   @ApiOperation({ summary: 'Update table' })
   async update(
     @Param('id') id: string,
@@ -107,6 +117,7 @@ export class TablesController {
 
   @Delete(':id')
   @BusinessScoped({ resource: 'table', param: 'id' })
+  @RequirePermission('tables.manage')
   @ApiOperation({ summary: 'Delete (deactivate) table' })
   async remove(@Param('id') id: string) {
     await this.deleteTableUseCase.execute(id);
@@ -115,6 +126,7 @@ export class TablesController {
 
   @Put(':id/status')
   @BusinessScoped({ resource: 'table', param: 'id' })
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Update table status' })
   async updateStatus(
     @Param('id') id: string,
@@ -130,6 +142,7 @@ export class TablesController {
   // ==================== Bill Operations ====================
 
   @Post('split-bill')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Split bill into multiple transactions' })
   async splitBill(
     @Body()
@@ -148,6 +161,7 @@ export class TablesController {
   }
 
   @Post('merge-bill')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Merge multiple transactions into one' })
   async mergeBill(@Body() dto: MergeBillDto, @CurrentUser() user: AuthUser) {
     if (!user.outletId) throw new BadRequestException('Outlet not assigned');
@@ -160,58 +174,17 @@ export class TablesController {
     });
   }
 
-  // ==================== Reservations ====================
-
-  @Post('reservations')
-  @ApiOperation({ summary: 'Create a table reservation' })
-  async createReservation(
-    @Body()
-    dto: {
-      tableId: string;
-      customerName: string;
-      customerPhone: string;
-      partySize: number;
-      reservedAt: string;
-      notes?: string;
-    },
-  ) {
-    return this.tablesService.createReservation({
-      tableId: dto.tableId,
-      customerName: dto.customerName,
-      customerPhone: dto.customerPhone,
-      partySize: dto.partySize,
-      reservedAt: new Date(dto.reservedAt),
-      notes: dto.notes,
-    });
-  }
-
-  @Get('reservations')
-  @ApiOperation({ summary: 'List reservations for an outlet on a given date' })
-  async getReservations(@Query('outletId') outletId: string, @Query('date') date: string) {
-    return this.tablesService.getReservations(outletId, new Date(date));
-  }
-
-  @Put('reservations/:id/cancel')
-  @ApiOperation({ summary: 'Cancel a reservation' })
-  async cancelReservation(@Param('id') id: string) {
-    return this.tablesService.cancelReservation(id);
-  }
-
-  @Put('reservations/:id/check-in')
-  @ApiOperation({ summary: 'Check in a reservation (mark table as occupied)' })
-  async checkInReservation(@Param('id') id: string) {
-    return this.tablesService.checkInReservation(id);
-  }
-
   // ==================== Waiting List ====================
 
   @Get('waiting-list')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get waiting list for outlet' })
   async waitingList(@Query('outletId') outletId: string) {
     return this.tablesService.getWaitingList(outletId);
   }
 
   @Post('waiting-list')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Add customer to waiting list' })
   async addToWaitingList(
     @Body()
@@ -233,12 +206,14 @@ export class TablesController {
   }
 
   @Put('waiting-list/:id/notify')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Notify a customer from waiting list' })
   async notifyFromWaitingList(@Param('id') id: string) {
     return this.tablesService.notifyFromWaitingList(id);
   }
 
   @Put('waiting-list/:id/seat')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Seat a customer from waiting list at a table' })
   async seatFromWaitingList(@Param('id') id: string, @Body() dto: { tableId: string }) {
     return this.tablesService.seatFromWaitingList(id, dto.tableId);
@@ -4,6 +4,7 @@ import { TablesService } from './tables.service';
 import { REPOSITORY_TOKENS } from '../../infrastructure/repositories/repository.tokens';
 import { PrismaTableRepository } from '../../infrastructure/repositories/prisma-table.repository';
 import { PrismaTransactionRepository } from '../../infrastructure/repositories/prisma-transaction.repository';
+import { NumberingModule } from '../numbering/numbering.module';
 
 // Use Cases - Table CRUD
 import { CreateTableUseCase } from '../../application/use-cases/tables/create-table.use-case';
@@ -17,6 +18,7 @@ import { SplitBillUseCase } from '../../application/use-cases/tables/split-bill.
 import { MergeBillUseCase } from '../../application/use-cases/tables/merge-bill.use-case';
 
 @Module({
+  imports: [NumberingModule],
   controllers: [TablesController],
   providers: [
     // Services
@@ -34,19 +34,6 @@ export interface UpdateTableDto {
   isActive?: boolean;
 }
 
-export interface ReservationDto {
-  id: string;
-  outletId: string;
-  tableId: string | null;
-  customerName: string;
-  customerPhone: string | null;
-  partySize: number;
-  reservedAt: Date;
-  notes: string | null;
-  status: string;
-  createdAt: Date;
-}
-
 export interface WaitingListDto {
   id: string;
   outletId: string;
@@ -195,152 +182,6 @@ export class TablesService {
     return tables.map((t) => t.section).filter((s): s is string => s !== null);
   }
 
-  // ==================== Reservations ====================
-
-  async createReservation(data: {
-    tableId: string;
-    customerName: string;
-    customerPhone: string;
-    partySize: number;
-    reservedAt: Date;
-    notes?: string;
-  }): Promise<ReservationDto> {
-    const table = await this.prisma.table.findUnique({
-      where: { id: data.tableId },
-    });
-
-    if (!table) {
-      throw new NotFoundException(`Table ${data.tableId} not found`);
-    }
-
-    if (!table.isActive) {
-      throw new BadRequestException('Cannot reserve an inactive table');
-    }
-
-    // Check for conflicting reservations within a 2-hour window
-    const reservedStart = new Date(data.reservedAt);
-    const windowStart = new Date(reservedStart.getTime() - 2 * 60 * 60 * 1000);
-    const windowEnd = new Date(reservedStart.getTime() + 2 * 60 * 60 * 1000);
-
-    const conflict = await this.prisma.waitingList.findFirst({
-      where: {
-        tableId: data.tableId,
-        status: 'waiting',
-        queuedAt: { gte: windowStart, lte: windowEnd },
-        notes: { startsWith: '[RESERVATION]' },
-      },
-    });
-
-    if (conflict) {
-      throw new BadRequestException(
-        'Table already has a reservation within the requested time window',
-      );
-    }
-
-    const reservation = await this.prisma.waitingList.create({
-      data: {
-        outletId: table.outletId,
-        tableId: data.tableId,
-        customerName: data.customerName,
-        customerPhone: data.customerPhone,
-        partySize: data.partySize,
-        queuedAt: data.reservedAt,
-        notes: data.notes ? `[RESERVATION] ${data.notes}` : '[RESERVATION]',
-        status: 'waiting',
-      },
-    });
-
-    return this.toReservationDto(reservation);
-  }
-
-  async getReservations(outletId: string, date: Date): Promise<ReservationDto[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    const reservations = await this.prisma.waitingList.findMany({
-      where: {
-        outletId,
-        notes: { startsWith: '[RESERVATION]' },
-        queuedAt: { gte: startOfDay, lte: endOfDay },
-        status: { in: ['waiting', 'notified', 'seated'] },
-      },
-      orderBy: { queuedAt: 'asc' },
-    });
-
-    return reservations.map((r) => this.toReservationDto(r));
-  }
-
-  async cancelReservation(reservationId: string): Promise<ReservationDto> {
-    const reservation = await this.prisma.waitingList.findUnique({
-      where: { id: reservationId },
-    });
-
-    if (!reservation) {
-      throw new NotFoundException(`Reservation ${reservationId} not found`);
-    }
-
-    if (reservation.status !== 'waiting' && reservation.status !== 'notified') {
-      throw new BadRequestException(`Cannot cancel reservation in status: ${reservation.status}`);
-    }
-
-    const updated = await this.prisma.waitingList.update({
-      where: { id: reservationId },
-      data: { status: 'cancelled' },
-    });
-
-    // If the table was reserved, free it
-    if (reservation.tableId) {
-      const table = await this.prisma.table.findUnique({
-        where: { id: reservation.tableId },
-      });
-      if (table && table.status === 'reserved') {
-        await this.prisma.table.update({
-          where: { id: reservation.tableId },
-          data: { status: 'available' },
-        });
-      }
-    }
-
-    return this.toReservationDto(updated);
-  }
-
-  async checkInReservation(reservationId: string): Promise<ReservationDto> {
-    const reservation = await this.prisma.waitingList.findUnique({
-      where: { id: reservationId },
-    });
-
-    if (!reservation) {
-      throw new NotFoundException(`Reservation ${reservationId} not found`);
-    }
-
-    if (reservation.status !== 'waiting' && reservation.status !== 'notified') {
-      throw new BadRequestException(`Cannot check in reservation in status: ${reservation.status}`);
-    }
-
-    const updated = await this.prisma.waitingList.update({
-      where: { id: reservationId },
-      data: {
-        status: 'seated',
-        seatedAt: new Date(),
-      },
-    });
-
-    // Mark the table as occupied
-    if (reservation.tableId) {
-      await this.prisma.table.update({
-        where: { id: reservation.tableId },
-        data: {
-          status: 'occupied',
-          occupiedAt: new Date(),
-        },
-      });
-    }
-
-    return this.toReservationDto(updated);
-  }
-
   // ==================== Waiting List ====================
 
   async addToWaitingList(data: {
@@ -369,7 +210,6 @@ export class TablesService {
       where: {
         outletId,
         status: { in: ['waiting', 'notified'] },
-        OR: [{ notes: { not: { startsWith: '[RESERVATION]' } } }, { notes: null }],
       },
       orderBy: { queuedAt: 'asc' },
     });
@@ -450,32 +290,6 @@ export class TablesService {
 
   // ==================== Private Helpers ====================
 
-  private toReservationDto(entry: {
-    id: string;
-    outletId: string;
-    tableId: string | null;
-    customerName: string;
-    customerPhone: string | null;
-    partySize: number;
-    queuedAt: Date;
-    notes: string | null;
-    status: string;
-    createdAt: Date;
-  }): ReservationDto {
-    return {
-      id: entry.id,
-      outletId: entry.outletId,
-      tableId: entry.tableId,
-      customerName: entry.customerName,
-      customerPhone: entry.customerPhone,
-      partySize: entry.partySize,
-      reservedAt: entry.queuedAt,
-      notes: entry.notes?.replace('[RESERVATION] ', '').replace('[RESERVATION]', '') || null,
-      status: entry.status,
-      createdAt: entry.createdAt,
-    };
-  }
-
   private toWaitingListDto(entry: {
     id: string;
     outletId: string;
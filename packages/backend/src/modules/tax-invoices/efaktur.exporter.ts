@@ -0,0 +1,221 @@
+/**
+ * e-Faktur export formats
+ *
+ * - CSV: the "Faktur Keluaran" import file of the e-Faktur desktop client.
+ *   Three header rows (FK, LT, OF) followed by one FK row per faktur and
+ *   one OF row per line item.
+ * - XML: the Coretax `TaxInvoiceBulk` upload. Coretax only imports normal
+ *   invoices, so replacements (revision > 0) are left out of the XML and
+ *   have to be exported as CSV or keyed in by hand.
+ */
+
+import type { TaxInvoice, TaxInvoiceItem } from '@prisma/client';
+import { nsfpDigits, toNpwp16 } from './faktur-number.util';
+
+export type ExportableTaxInvoice = TaxInvoice & { items: TaxInvoiceItem[] };
+
+const CSV_HEADERS = [
+  [
+    'FK',
+    'KD_JENIS_TRANSAKSI',
+    'FG_PENGGANTI',
+    'NOMOR_FAKTUR',
+    'MASA_PAJAK',
+    'TAHUN_PAJAK',
+    'TANGGAL_FAKTUR',
+    'NPWP',
+    'NAMA',
+    'ALAMAT_LENGKAP',
+    'JUMLAH_DPP',
+    'JUMLAH_PPN',
+    'JUMLAH_PPNBM',
+    'ID_KETERANGAN_TAMBAHAN',
+    'FG_UANG_MUKA',
+    'UANG_MUKA_DPP',
+    'UANG_MUKA_PPN',
+    'UANG_MUKA_PPNBM',
+    'REFERENSI',
+    'KODE_DOKUMEN_PENDUKUNG',
+  ],
+  [
+    'LT',
+    'NPWP',
+    'NAMA',
+    'JALAN',
+    'BLOK',
+    'NOMOR',
+    'RT',
+    'RW',
+    'KECAMATAN',
+    'KELURAHAN',
+    'KABUPATEN',
+    'PROPINSI',
+    'KODE_POS',
+    'NOMOR_TELEPON',
+  ],
+  [
+    'OF',
+    'KODE_OBJEK',
+    'NAMA',
+    'HARGA_SATUAN',
+    'JUMLAH_BARANG',
+    'HARGA_TOTAL',
+    'DISKON',
+    'DPP',
+    'PPN',
+    'TARIF_PPNBM',
+    'PPNBM',
+  ],
+];
+
+/** PPN is 12% on a DPP of 11/12 of the selling price for non-luxury goods */
+const CORETAX_VAT_RATE = 12;
+const CORETAX_OTHER_BASE_RATIO = 11 / 12;
+
+function csvRow(values: Array<string | number>): string {
+  return values.map((value) => `"${String(value).replace(/"/g, '""')}"`).join(',');
+}
+
+/** e-Faktur rejects decimals on DPP/PPN totals and rounds them down itself */
+function wholeRupiah(value: { toNumber(): number }): number {
+  return Math.floor(value.toNumber());
+}
+
+function plainNumber(value: { toNumber(): number }): string {
+  return String(Math.round(value.toNumber() * 100) / 100);
+}
+
+function ddmmyyyy(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}/${month}/${date.getUTCFullYear()}`;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function singleLine(value: string | null): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim();
+}
+
+export function toEfakturCsv(invoices: ExportableTaxInvoice[]): string {
+  const lines = CSV_HEADERS.map(csvRow);
+
+  for (const invoice of invoices) {
+    // invoiceDate is a DATE column, so the UTC parts are the calendar date
+    lines.push(
+      csvRow([
+        'FK',
+        invoice.transactionCode,
+        invoice.revision > 0 ? 1 : 0,
+        nsfpDigits(invoice.nsfp),
+        invoice.invoiceDate.getUTCMonth() + 1,
+        invoice.invoiceDate.getUTCFullYear(),
+        ddmmyyyy(invoice.invoiceDate),
+        invoice.buyerNpwp,
+        singleLine(invoice.buyerName),
+        singleLine(invoice.buyerAddress),
+        wholeRupiah(invoice.dpp),
+        wholeRupiah(invoice.ppn),
+        wholeRupiah(invoice.ppnbm),
+        '',
+        0,
+        0,
+        0,
+        0,
+        singleLine(invoice.reference),
+        '',
+      ]),
+    );
+
+    for (const item of invoice.items) {
+      lines.push(
+        csvRow([
+          'OF',
+          '',
+          singleLine(item.name),
+          plainNumber(item.unitPrice),
+          plainNumber(item.quantity),
+          plainNumber(item.totalPrice),
+          plainNumber(item.discount),
+          plainNumber(item.dpp),
+          plainNumber(item.ppn),
+          0,
+          0,
+        ]),
+      );
+    }
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function toCoretaxXml(sellerNpwp: string, invoices: ExportableTaxInvoice[]): string {
+  const sellerTin = toNpwp16(sellerNpwp);
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<TaxInvoiceBulk xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="TaxInvoice.xsd">',
+    `  <TIN>${sellerTin}</TIN>`,
+    '  <ListOfTaxInvoice>',
+  ];
+
+  for (const invoice of invoices.filter((i) => i.revision === 0)) {
+    const buyerTin = toNpwp16(invoice.buyerNpwp);
+    lines.push(
+      '    <TaxInvoice>',
+      `      <TaxInvoiceDate>${isoDate(invoice.invoiceDate)}</TaxInvoiceDate>`,
+      '      <TaxInvoiceOpt>Normal</TaxInvoiceOpt>',
+      `      <TrxCode>${invoice.transactionCode}</TrxCode>`,
+      '      <AddInfo></AddInfo>',
+      '      <CustomDoc></CustomDoc>',
+      `      <RefDesc>${xmlEscape(singleLine(invoice.reference) || invoice.nsfp)}</RefDesc>`,
+      '      <FacilityStamp></FacilityStamp>',
+      `      <SellerIDTKU>${sellerTin}000000</SellerIDTKU>`,
+      `      <BuyerTin>${buyerTin}</BuyerTin>`,
+      '      <BuyerDocument>TIN</BuyerDocument>',
+      '      <BuyerCountry>IDN</BuyerCountry>',
+      '      <BuyerDocumentNumber>-</BuyerDocumentNumber>',
+      `      <BuyerName>${xmlEscape(singleLine(invoice.buyerName))}</BuyerName>`,
+      `      <BuyerAdress>${xmlEscape(singleLine(invoice.buyerAddress))}</BuyerAdress>`,
+      '      <BuyerEmail></BuyerEmail>',
+      `      <BuyerIDTKU>${buyerTin}000000</BuyerIDTKU>`,
+      '      <ListOfGoodService>',
+    );
+
+    for (const item of invoice.items) {
+      const otherTaxBase = Math.round(item.dpp.toNumber() * CORETAX_OTHER_BASE_RATIO * 100) / 100;
+      lines.push(
+        '        <GoodService>',
+        '          <Opt>A</Opt>',
+        '          <Code>000000</Code>',
+        `          <Name>${xmlEscape(singleLine(item.name))}</Name>`,
+        '          <Unit>UM.0018</Unit>',
+        `          <Price>${plainNumber(item.unitPrice)}</Price>`,
+        `          <Qty>${plainNumber(item.quantity)}</Qty>`,
+        `          <TotalDiscount>${plainNumber(item.discount)}</TotalDiscount>`,
+        `          <TaxBase>${plainNumber(item.dpp)}</TaxBase>`,
+        `          <OtherTaxBase>${otherTaxBase}</OtherTaxBase>`,
+        `          <VATRate>${CORETAX_VAT_RATE}</VATRate>`,
+        `          <VAT>${plainNumber(item.ppn)}</VAT>`,
+        '          <STLGRate>0</STLGRate>',
+        '          <STLG>0</STLG>',
+        '        </GoodService>',
+      );
+    }
+
+    lines.push('      </ListOfGoodService>', '    </TaxInvoice>');
+  }
+
+  lines.push('  </ListOfTaxInvoice>', '</TaxInvoiceBulk>');
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,61 @@
+/**
+ * NPWP and faktur number helpers.
+ *
+ * An NSFP (nomor seri faktur pajak) is the 13-digit serial the tax office
+ * hands out in blocks: 3-digit branch code, 2-digit year and an 8-digit
+ * running number, written `000-26.00000001`. The full faktur number puts
+ * the 2-digit transaction code and a replacement flag in front of it:
+ * `010.000-26.00000001`.
+ */
+
+export const FAKTUR_TRANSACTION_CODES = [
+  '01',
+  '02',
+  '03',
+  '04',
+  '05',
+  '06',
+  '07',
+  '08',
+  '09',
+] as const;
+
+export type FakturTransactionCode = (typeof FAKTUR_TRANSACTION_CODES)[number];
+
+export const NSFP_PATTERN = /^(\d{3})[-.]?(\d{2})[-.]?(\d{8})$/;
+
+/** Digits only; 15-digit legacy NPWP or the 16-digit NIK-based one */
+export function normalizeNpwp(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const digits = value.replace(/[\s.-]/g, '');
+  return /^\d{15,16}$/.test(digits) ? digits : null;
+}
+
+/** 16-digit form used by Coretax; legacy 15-digit numbers get a leading zero */
+export function toNpwp16(npwp: string): string {
+  return npwp.length === 15 ? `0${npwp}` : npwp;
+}
+
+export function parseNsfp(value: string): { prefix: string; serial: number } | null {
+  const match = NSFP_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, branch, year, serial] = match;
+  return { prefix: `${branch}${year}`, serial: Number(serial) };
+}
+
+export function formatNsfp(prefix: string, serial: number): string {
+  return `${prefix.slice(0, 3)}-${prefix.slice(3, 5)}.${String(serial).padStart(8, '0')}`;
+}
+
+/** `000-26.00000001` -> `0002600000001` as the e-Faktur CSV expects */
+export function nsfpDigits(nsfp: string): string {
+  return nsfp.replace(/\D/g, '');
+}
+
+export function formatFakturNumber(
+  transactionCode: string,
+  revision: number,
+  nsfp: string,
+): string {
+  return `${transactionCode}${revision > 0 ? 1 : 0}.${nsfp}`;
+}
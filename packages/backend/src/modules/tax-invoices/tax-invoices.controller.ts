@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+} from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import {
+  CancelTaxInvoiceDto,
+  CreateFakturRangeDto,
+  CreateTaxInvoiceDto,
+  ReplaceTaxInvoiceDto,
+  TaxInvoiceQueryDto,
+} from '../../application/dtos/tax-invoice.dto';
+import { TaxInvoicesService } from './tax-invoices.service';
+
+@ApiTags('Tax Invoices')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('tax-invoices')
+export class TaxInvoicesController {
+  constructor(private readonly taxInvoicesService: TaxInvoicesService) {}
+
+  // ==================== NSFP ranges (before :id) ====================
+
+  @Get('ranges')
+  @RequirePermission('tax_invoices.manage')
+  @ApiOperation({ summary: 'List NSFP ranges and how many numbers are left' })
+  async listRanges(@CurrentUser() user: AuthUser) {
+    return this.taxInvoicesService.listRanges(user.businessId);
+  }
+
+  @Post('ranges')
+  @RequirePermission('tax_invoices.ranges')
+  @ApiOperation({ summary: 'Register an NSFP block allocated by the tax office' })
+  async createRange(@Body() dto: CreateFakturRangeDto, @CurrentUser() user: AuthUser) {
+    return this.taxInvoicesService.createRange(dto, user);
+  }
+
+  @Delete('ranges/:id')
+  @RequirePermission('tax_invoices.ranges')
+  @ApiOperation({ summary: 'Stop issuing numbers from an NSFP range' })
+  async deactivateRange(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    await this.taxInvoicesService.deactivateRange(user.businessId, id);
+    return { message: 'NSFP range deactivated' };
+  }
+
+  // ==================== Tax invoices ====================
+
+  @Get()
+  @RequirePermission('tax_invoices.issue')
+  async list(@Query() query: TaxInvoiceQueryDto, @CurrentUser() user: AuthUser) {
+    return this.taxInvoicesService.list(user.businessId, query);
+  }
+
+  @Post()
+  @RequirePermission('tax_invoices.issue')
+  @ApiOperation({ summary: 'Issue a tax invoice for one or more sales' })
+  async create(@Body() dto: CreateTaxInvoiceDto, @CurrentUser() user: AuthUser) {
+    return this.taxInvoicesService.create(dto, user);
+  }
+
+  @Get(':id')
+  @PermissionOutlet('taxInvoice')
+  @RequirePermission('tax_invoices.issue')
+  async findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.taxInvoicesService.findOne(user.businessId, id);
+  }
+
+  @Post(':id/replace')
+  @PermissionOutlet('taxInvoice')
+  @RequirePermission('tax_invoices.manage')
+  @ApiOperation({ summary: 'Issue a replacement (faktur pengganti) under the same NSFP' })
+  async replace(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ReplaceTaxInvoiceDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.taxInvoicesService.replace(id, dto, user);
+  }
+
+  @Post(':id/cancel')
+  @PermissionOutlet('taxInvoice')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('tax_invoices.manage')
+  @ApiOperation({ summary: 'Cancel a tax invoice and release its sales' })
+  async cancel(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CancelTaxInvoiceDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.taxInvoicesService.cancel(id, dto.reason, user);
+  }
+}
@@ -0,0 +1,697 @@
+import { BadRequestException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { Prisma, TaxInvoiceStatus } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type {
+  CreateFakturRangeDto,
+  CreateTaxInvoiceDto,
+  ExportTaxInvoicesQueryDto,
+  ReplaceTaxInvoiceDto,
+  TaxInvoiceQueryDto,
+} from '../../application/dtos/tax-invoice.dto';
+import { formatLocalDate, resolveTimeZone } from '../reports/scheduled/report-schedule.util';
+import { formatFakturNumber, formatNsfp, normalizeNpwp, parseNsfp } from './faktur-number.util';
+import { toCoretaxXml, toEfakturCsv, type ExportableTaxInvoice } from './efaktur.exporter';
+
+/** Sales that can be invoiced; credit sales are the usual B2B case */
+const INVOICEABLE_STATUSES = ['completed', 'credit', 'partially_paid'] as const;
+
+const MAX_ALLOCATION_ATTEMPTS = 5;
+
+const invoiceInclude = {
+  items: true,
+  transactions: {
+    include: {
+      transaction: {
+        select: { id: true, receiptNumber: true, createdAt: true, grandTotal: true },
+      },
+    },
+  },
+} satisfies Prisma.TaxInvoiceInclude;
+
+interface BuyerInput {
+  customerId?: string | null;
+  buyerNpwp?: string;
+  buyerName?: string;
+  buyerAddress?: string | null;
+}
+
+interface InvoiceLine {
+  transactionId: string;
+  productId: string | null;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  totalPrice: number;
+  discount: number;
+  dpp: number;
+  ppn: number;
+}
+
+interface InvoiceDraft {
+  outletId: string | null;
+  customerId: string | null;
+  sellerNpwp: string;
+  sellerName: string;
+  sellerAddress: string | null;
+  buyerNpwp: string;
+  buyerName: string;
+  buyerAddress: string | null;
+  transactionIds: string[];
+  lines: InvoiceLine[];
+  dpp: number;
+  ppn: number;
+  timeZone: string;
+}
+
+export interface TaxInvoiceExport {
+  content: string;
+  contentType: string;
+  filename: string;
+  count: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Splits `total` by weight; the last share absorbs the rounding remainder */
+function allocate(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  let remaining = total;
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) return round2(remaining);
+    const share = weightSum > 0 ? round2((total * weight) / weightSum) : 0;
+    remaining -= share;
+    return share;
+  });
+}
+
+/**
+ * TaxInvoicesService - Faktur pajak for B2B sales
+ *
+ * NSFP blocks are registered per business and consumed in order. A
+ * replacement (faktur pengganti) keeps the NSFP of the invoice it replaces
+ * with the next revision; a cancelled faktur keeps its number and frees
+ * its transactions for a new faktur.
+ */
+@Injectable()
+export class TaxInvoicesService {
+  private readonly logger = new Logger(TaxInvoicesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==========================================================================
+  // NSFP ranges
+  // ==========================================================================
+
+  async listRanges(businessId: string) {
+    const ranges = await this.prisma.fakturNumberRange.findMany({
+      where: { businessId },
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }],
+    });
+    return ranges.map((range) => ({
+      ...range,
+      startNsfp: formatNsfp(range.prefix, range.startSerial),
+      endNsfp: formatNsfp(range.prefix, range.endSerial),
+      remaining: Math.max(0, range.endSerial - range.nextSerial + 1),
+    }));
+  }
+
+  async createRange(dto: CreateFakturRangeDto, user: AuthUser) {
+    const start = parseNsfp(dto.startNsfp);
+    const end = parseNsfp(dto.endNsfp);
+    if (!start || !end) {
+      throw new BadRequestException('NSFP must be 13 digits (000-26.00000001)');
+    }
+    if (start.prefix !== end.prefix) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'Start and end NSFP must share the same branch code and year',
+      );
+    }
+    if (end.serial < start.serial) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'End NSFP must not be before start NSFP');
+    }
+
+    const overlapping = await this.prisma.fakturNumberRange.findFirst({
+      where: {
+        businessId: user.businessId,
+        prefix: start.prefix,
+        startSerial: { lte: end.serial },
+        endSerial: { gte: start.serial },
+      },
+    });
+    if (overlapping) {
+      throw new AppError(
+        ErrorCode.DUPLICATE_RESOURCE,
+        `Range overlaps ${formatNsfp(overlapping.prefix, overlapping.startSerial)} - ${formatNsfp(overlapping.prefix, overlapping.endSerial)}`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    return this.prisma.fakturNumberRange.create({
+      data: {
+        businessId: user.businessId,
+        prefix: start.prefix,
+        startSerial: start.serial,
+        endSerial: end.serial,
+        nextSerial: start.serial,
+        notes: dto.notes ?? null,
+        createdBy: user.employeeId,
+      },
+    });
+  }
+
+  async deactivateRange(businessId: string, id: string) {
+    const range = await this.prisma.fakturNumberRange.findFirst({ where: { id, businessId } });
+    if (!range) {
+      throw new BusinessError(ErrorCode.RESOURCE_NOT_FOUND, 'NSFP range not found');
+    }
+    return this.prisma.fakturNumberRange.update({ where: { id }, data: { isActive: false } });
+  }
+
+  /**
+   * Claims the next serial of the oldest active range for the faktur year.
+   * The compare-and-set on nextSerial keeps two concurrent fakturs from
+   * getting the same number; a rolled-back invoice releases its number.
+   */
+  private async allocateNsfp(
+    tx: Prisma.TransactionClient,
+    businessId: string,
+    invoiceDate: string,
+  ): Promise<{ rangeId: string; nsfp: string }> {
+    const year = invoiceDate.slice(2, 4);
+
+    for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+      const ranges = await tx.fakturNumberRange.findMany({
+        where: { businessId, isActive: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      const range = ranges.find((r) => r.prefix.endsWith(year) && r.nextSerial <= r.endSerial);
+      if (!range) {
+        throw new BusinessError(
+          ErrorCode.FAKTUR_NUMBERS_EXHAUSTED,
+          `No NSFP numbers left for 20${year}; register a new range from the tax office`,
+        );
+      }
+
+      const claimed = await tx.fakturNumberRange.updateMany({
+        where: { id: range.id, nextSerial: range.nextSerial },
+        data: { nextSerial: { increment: 1 } },
+      });
+      if (claimed.count === 1) {
+        return { rangeId: range.id, nsfp: formatNsfp(range.prefix, range.nextSerial) };
+      }
+    }
+
+    throw new AppError(
+      ErrorCode.CONFLICT,
+      'Could not allocate an NSFP, please try again',
+      HttpStatus.CONFLICT,
+    );
+  }
+
+  // ==========================================================================
+  // Issue, replace, cancel
+  // ==========================================================================
+
+  async create(dto: CreateTaxInvoiceDto, user: AuthUser) {
+    const draft = await this.buildDraft(user.businessId, dto.transactionIds, dto);
+    const invoiceDate =
+      dto.invoiceDate?.slice(0, 10) ?? formatLocalDate(new Date(), draft.timeZone);
+
+    const invoice = await this.prisma.$transaction(async (tx) => {
+      await this.lockUninvoiced(tx, draft.transactionIds);
+      const { rangeId, nsfp } = await this.allocateNsfp(tx, user.businessId, invoiceDate);
+      return tx.taxInvoice.create({
+        data: {
+          ...this.toCreateData(draft, user),
+          rangeId,
+          nsfp,
+          transactionCode: dto.transactionCode ?? '01',
+          invoiceDate: new Date(`${invoiceDate}T00:00:00.000Z`),
+          reference: dto.reference ?? null,
+        },
+        include: invoiceInclude,
+      });
+    });
+
+    this.logger.log(
+      `Tax invoice ${invoice.nsfp} issued for ${draft.transactionIds.length} sale(s)`,
+    );
+    return this.present(invoice);
+  }
+
+  /** Issues a faktur pengganti: same NSFP, next revision, original marked replaced */
+  async replace(id: string, dto: ReplaceTaxInvoiceDto, user: AuthUser) {
+    const original = await this.findInvoice(user.businessId, id);
+    if (original.status !== 'issued') {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        `Only issued tax invoices can be replaced (this one is ${original.status})`,
+      );
+    }
+
+    const transactionIds =
+      dto.transactionIds ?? original.transactions.map((link) => link.transactionId);
+    const draft = await this.buildDraft(
+      user.businessId,
+      transactionIds,
+      {
+        customerId: original.customerId,
+        buyerNpwp: dto.buyerNpwp ?? original.buyerNpwp,
+        buyerName: dto.buyerName ?? original.buyerName,
+        buyerAddress: dto.buyerAddress ?? original.buyerAddress,
+      },
+      original.id,
+    );
+    const invoiceDate =
+      dto.invoiceDate?.slice(0, 10) ?? original.invoiceDate.toISOString().slice(0, 10);
+
+    const replacement = await this.prisma.$transaction(async (tx) => {
+      // Guards against two replacements racing for the same original
+      const marked = await tx.taxInvoice.updateMany({
+        where: { id: original.id, status: 'issued' },
+        data: { status: 'replaced' },
+      });
+      if (marked.count !== 1) {
+        throw new AppError(
+          ErrorCode.CONFLICT,
+          'Tax invoice was changed by someone else',
+          HttpStatus.CONFLICT,
+        );
+      }
+      await this.lockUninvoiced(tx, draft.transactionIds, original.id);
+
+      return tx.taxInvoice.create({
+        data: {
+          ...this.toCreateData(draft, user),
+          rangeId: original.rangeId,
+          nsfp: original.nsfp,
+          revision: original.revision + 1,
+          transactionCode: original.transactionCode,
+          invoiceDate: new Date(`${invoiceDate}T00:00:00.000Z`),
+          reference: dto.reference ?? original.reference,
+          replacesId: original.id,
+        },
+        include: invoiceInclude,
+      });
+    });
+
+    this.logger.log(`Tax invoice ${original.nsfp} replaced (revision ${replacement.revision})`);
+    return this.present(replacement);
+  }
+
+  async cancel(id: string, reason: string, user: AuthUser) {
+    const invoice = await this.findInvoice(user.businessId, id);
+    if (invoice.status !== 'issued') {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        `Only issued tax invoices can be cancelled (this one is ${invoice.status})`,
+      );
+    }
+
+    const cancelled = await this.prisma.$transaction(async (tx) => {
+      // Guards against a replacement or second cancel landing in between
+      const marked = await tx.taxInvoice.updateMany({
+        where: { id: invoice.id, status: 'issued' },
+        data: { status: 'cancelled', cancelledAt: new Date(), cancelReason: reason },
+      });
+      if (marked.count !== 1) {
+        throw new AppError(
+          ErrorCode.CONFLICT,
+          'Tax invoice was changed by someone else',
+          HttpStatus.CONFLICT,
+        );
+      }
+      return tx.taxInvoice.findUniqueOrThrow({
+        where: { id: invoice.id },
+        include: invoiceInclude,
+      });
+    });
+
+    this.logger.log(`Tax invoice ${invoice.nsfp} cancelled by ${user.employeeId}`);
+    return this.present(cancelled);
+  }
+
+  /**
+   * Locks the sales and repeats the already-invoiced check of buildDraft, which
+   * runs before the transaction: the link table is keyed by invoice and sale,
+   * so nothing else stops two requests putting one sale on two fakturs.
+   */
+  private async lockUninvoiced(
+    tx: Prisma.TransactionClient,
+    transactionIds: string[],
+    replacingId?: string,
+  ): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM transactions WHERE id = ANY(${transactionIds}::uuid[]) ORDER BY id FOR UPDATE`;
+
+    const existing = await tx.taxInvoiceTransaction.findFirst({
+      where: {
+        transactionId: { in: transactionIds },
+        taxInvoice: { status: 'issued', ...(replacingId && { id: { not: replacingId } }) },
+      },
+      select: {
+        transaction: { select: { receiptNumber: true } },
+        taxInvoice: { select: { nsfp: true } },
+      },
+    });
+    if (existing) {
+      throw new BusinessError(
+        ErrorCode.INVALID_TRANSACTION,
+        `${existing.transaction.receiptNumber} is already on tax invoice ${existing.taxInvoice.nsfp}`,
+      );
+    }
+  }
+
+  private toCreateData(draft: InvoiceDraft, user: AuthUser) {
+    return {
+      businessId: user.businessId,
+      outletId: draft.outletId,
+      customerId: draft.customerId,
+      sellerNpwp: draft.sellerNpwp,
+      sellerName: draft.sellerName,
+      sellerAddress: draft.sellerAddress,
+      buyerNpwp: draft.buyerNpwp,
+      buyerName: draft.buyerName,
+      buyerAddress: draft.buyerAddress,
+      dpp: draft.dpp,
+      ppn: draft.ppn,
+      createdBy: user.employeeId,
+      items: { create: draft.lines },
+      transactions: {
+        create: draft.transactionIds.map((transactionId) => ({ transactionId })),
+      },
+    };
+  }
+
+  /**
+   * Validates the sales and works out the faktur lines. The sale-level
+   * discount is spread over the items by subtotal and the recorded tax by
+   * DPP, so the lines always add up to what the receipt charged.
+   */
+  private async buildDraft(
+    businessId: string,
+    transactionIds: string[],
+    buyer: BuyerInput,
+    replacingId?: string,
+  ): Promise<InvoiceDraft> {
+    const ids = [...new Set(transactionIds)];
+
+    const [business, transactions] = await Promise.all([
+      this.prisma.business.findUnique({
+        where: { id: businessId },
+        select: { name: true, legalName: true, taxId: true, address: true },
+      }),
+      this.prisma.transaction.findMany({
+        where: { id: { in: ids }, outlet: { businessId } },
+        include: {
+          items: { orderBy: { createdAt: 'asc' } },
+          outlet: { select: { timezone: true } },
+          taxInvoiceLinks: {
+            where: { taxInvoice: { status: 'issued' } },
+            select: { taxInvoiceId: true, taxInvoice: { select: { nsfp: true } } },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const sellerNpwp = normalizeNpwp(business?.taxId);
+    if (!business || !sellerNpwp) {
+      throw new BusinessError(
+        ErrorCode.CONFIGURATION_ERROR,
+        'Set the business NPWP (tax ID) before issuing tax invoices',
+      );
+    }
+
+    if (transactions.length !== ids.length) {
+      throw new BusinessError(ErrorCode.TRANSACTION_NOT_FOUND, 'One or more sales were not found');
+    }
+
+    for (const transaction of transactions) {
+      if (
+        transaction.transactionType !== 'sale' ||
+        !(INVOICEABLE_STATUSES as readonly string[]).includes(transaction.status)
+      ) {
+        throw new BusinessError(
+          ErrorCode.INVALID_TRANSACTION,
+          `${transaction.receiptNumber} is not a completed sale`,
+        );
+      }
+      const existing = transaction.taxInvoiceLinks.find(
+        (link) => link.taxInvoiceId !== replacingId,
+      );
+      if (existing) {
+        throw new BusinessError(
+          ErrorCode.INVALID_TRANSACTION,
+          `${transaction.receiptNumber} is already on tax invoice ${existing.taxInvoice.nsfp}`,
+        );
+      }
+    }
+
+    // One faktur, one buyer
+    const customerIds = [
+      ...new Set(transactions.map((t) => t.customerId).filter((c): c is string => !!c)),
+    ];
+    if (
+      customerIds.length > 1 ||
+      (buyer.customerId && customerIds.some((c) => c !== buyer.customerId))
+    ) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'All sales on a tax invoice must belong to the same customer',
+      );
+    }
+    const customerId = buyer.customerId ?? customerIds[0] ?? null;
+    const customer = customerId
+      ? await this.prisma.customer.findFirst({ where: { id: customerId, businessId } })
+      : null;
+    if (customerId && !customer) {
+      throw new BusinessError(ErrorCode.CUSTOMER_NOT_FOUND, 'Customer not found');
+    }
+
+    let buyerNpwp = customer?.npwp ?? null;
+    if (buyer.buyerNpwp) {
+      buyerNpwp = normalizeNpwp(buyer.buyerNpwp);
+      if (!buyerNpwp) {
+        throw new BadRequestException('Buyer NPWP must be 15 or 16 digits');
+      }
+    }
+    if (!buyerNpwp) {
+      throw new BusinessError(
+        ErrorCode.VALIDATION_ERROR,
+        'The buyer has no NPWP; add it to the customer or pass buyerNpwp',
+      );
+    }
+    const buyerName = buyer.buyerName ?? customer?.npwpName ?? customer?.name;
+    if (!buyerName) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Buyer name is required');
+    }
+
+    const lines: InvoiceLine[] = [];
+    for (const transaction of transactions) {
+      const subtotals = transaction.items.map((item) => item.subtotal.toNumber());
+      const discounts = allocate(transaction.discountAmount.toNumber(), subtotals);
+      const dpps = subtotals.map((subtotal, i) => round2(subtotal - (discounts[i] ?? 0)));
+      const ppns = allocate(transaction.taxAmount.toNumber(), dpps);
+
+      transaction.items.forEach((item, i) => {
+        const quantity = item.quantity.toNumber();
+        const unitPrice = item.unitPrice.toNumber();
+        const totalPrice = round2(unitPrice * quantity);
+        lines.push({
+          transactionId: transaction.id,
+          productId: item.productId,
+          name: item.variantName ? `${item.productName} - ${item.variantName}` : item.productName,
+          unitPrice,
+          quantity,
+          totalPrice,
+          discount: round2(totalPrice - (dpps[i] ?? 0)),
+          dpp: dpps[i] ?? 0,
+          ppn: ppns[i] ?? 0,
+        });
+      });
+    }
+    if (lines.length === 0) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'The selected sales have no items');
+    }
+
+    const outletIds = [...new Set(transactions.map((t) => t.outletId))];
+    return {
+      outletId: outletIds.length === 1 ? (outletIds[0] ?? null) : null,
+      customerId,
+      sellerNpwp,
+      sellerName: business.legalName || business.name,
+      sellerAddress: business.address,
+      buyerNpwp,
+      buyerName,
+      buyerAddress: buyer.buyerAddress ?? customer?.npwpAddress ?? customer?.address ?? null,
+      transactionIds: ids,
+      lines,
+      dpp: round2(lines.reduce((sum, line) => sum + line.dpp, 0)),
+      ppn: round2(lines.reduce((sum, line) => sum + line.ppn, 0)),
+      timeZone: resolveTimeZone(transactions[0]?.outlet.timezone),
+    };
+  }
+
+  // ==========================================================================
+  // Queries and export
+  // ==========================================================================
+
+  private buildWhere(businessId: string, query: TaxInvoiceQueryDto): Prisma.TaxInvoiceWhereInput {
+    return {
+      businessId,
+      ...(query.status && { status: query.status as TaxInvoiceStatus }),
+      ...(query.customerId && { customerId: query.customerId }),
+      ...(query.outletId && { outletId: query.outletId }),
+      ...((query.startDate || query.endDate) && {
+        invoiceDate: {
+          ...(query.startDate && {
+            gte: new Date(`${query.startDate.slice(0, 10)}T00:00:00.000Z`),
+          }),
+          ...(query.endDate && { lte: new Date(`${query.endDate.slice(0, 10)}T00:00:00.000Z`) }),
+        },
+      }),
+      ...(query.search && {
+        OR: [
+          { nsfp: { contains: query.search } },
+          { buyerName: { contains: query.search, mode: 'insensitive' as const } },
+          { buyerNpwp: { contains: query.search.replace(/\D/g, '') || query.search } },
+        ],
+      }),
+    };
+  }
+
+  async list(businessId: string, query: TaxInvoiceQueryDto = {}) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const where = this.buildWhere(businessId, query);
+
+    const [invoices, total, totals] = await Promise.all([
+      this.prisma.taxInvoice.findMany({
+        where,
+        include: { _count: { select: { transactions: true } } },
+        orderBy: [{ invoiceDate: 'desc' }, { nsfp: 'desc' }, { revision: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.taxInvoice.count({ where }),
+      this.prisma.taxInvoice.aggregate({
+        where: { ...where, status: 'issued' },
+        _sum: { dpp: true, ppn: true },
+        _count: true,
+      }),
+    ]);
+
+    return {
+      invoices: invoices.map(({ _count, ...invoice }) => ({
+        ...invoice,
+        fakturNumber: formatFakturNumber(invoice.transactionCode, invoice.revision, invoice.nsfp),
+        dpp: invoice.dpp.toNumber(),
+        ppn: invoice.ppn.toNumber(),
+        ppnbm: invoice.ppnbm.toNumber(),
+        transactionCount: _count.transactions,
+      })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      summary: {
+        issuedCount: totals._count,
+        totalDpp: totals._sum.dpp?.toNumber() || 0,
+        totalPpn: totals._sum.ppn?.toNumber() || 0,
+      },
+    };
+  }
+
+  async findOne(businessId: string, id: string) {
+    return this.present(await this.findInvoice(businessId, id));
+  }
+
+  private async findInvoice(businessId: string, id: string) {
+    const invoice = await this.prisma.taxInvoice.findFirst({
+      where: { id, businessId },
+      include: invoiceInclude,
+    });
+    if (!invoice) {
+      throw new BusinessError(ErrorCode.TAX_INVOICE_NOT_FOUND, 'Tax invoice not found');
+    }
+    return invoice;
+  }
+
+  private present(invoice: Prisma.TaxInvoiceGetPayload<{ include: typeof invoiceInclude }>) {
+    return {
+      ...invoice,
+      fakturNumber: formatFakturNumber(invoice.transactionCode, invoice.revision, invoice.nsfp),
+      dpp: invoice.dpp.toNumber(),
+      ppn: invoice.ppn.toNumber(),
+      ppnbm: invoice.ppnbm.toNumber(),
+      items: invoice.items.map((item) => ({
+        ...item,
+        unitPrice: item.unitPrice.toNumber(),
+        quantity: item.quantity.toNumber(),
+        totalPrice: item.totalPrice.toNumber(),
+        discount: item.discount.toNumber(),
+        dpp: item.dpp.toNumber(),
+        ppn: item.ppn.toNumber(),
+      })),
+      transactions: invoice.transactions.map((link) => ({
+        ...link.transaction,
+        grandTotal: link.transaction.grandTotal.toNumber(),
+      })),
+    };
+  }
+
+  /**
+   * Builds an e-Faktur import file. Without explicit IDs it takes every
+   * faktur in the date range that is still valid (issued); re-exporting is
+   * allowed and only bumps lastExportedAt.
+   */
+  async export(businessId: string, query: ExportTaxInvoicesQueryDto): Promise<TaxInvoiceExport> {
+    const ids = query.ids
+      ?.split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    const where: Prisma.TaxInvoiceWhereInput = ids?.length
+      ? { businessId, id: { in: ids } }
+      : this.buildWhere(businessId, { ...query, status: 'issued' });
+
+    const invoices: ExportableTaxInvoice[] = await this.prisma.taxInvoice.findMany({
+      where,
+      include: { items: true },
+      orderBy: [{ invoiceDate: 'asc' }, { nsfp: 'asc' }, { revision: 'asc' }],
+    });
+    if (invoices.length === 0) {
+      throw new BusinessError(ErrorCode.TAX_INVOICE_NOT_FOUND, 'No tax invoices to export');
+    }
+
+    const business = await this.prisma.business.findUnique({
+      where: { id: businessId },
+      select: { taxId: true },
+    });
+    const sellerNpwp = normalizeNpwp(business?.taxId) ?? invoices[0]?.sellerNpwp ?? '';
+
+    await this.prisma.taxInvoice.updateMany({
+      where: { id: { in: invoices.map((invoice) => invoice.id) } },
+      data: { lastExportedAt: new Date() },
+    });
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (query.format === 'xml') {
+      return {
+        content: toCoretaxXml(sellerNpwp, invoices),
+        contentType: 'application/xml',
+        filename: `faktur-pajak-${stamp}.xml`,
+        count: invoices.filter((invoice) => invoice.revision === 0).length,
+      };
+    }
+    return {
+      content: toEfakturCsv(invoices),
+      contentType: 'text/csv',
+      filename: `faktur-pajak-${stamp}.csv`,
+      count: invoices.length,
+    };
+  }
+}
@@ -12,42 +12,61 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '@infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '@infrastructure/auth/require-permission.decorator';
 import {
   UnitConversionService,
   type CreateUnitConversionDto,
   type UpdateUnitConversionDto,
 } from './unit-conversion.service';
+import { WEIGHT_UNITS } from './weight-units';
 
 @Controller('unit-conversions')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class UnitConversionController {
   constructor(private readonly service: UnitConversionService) {}
 
+  @Get('weight-units')
+  @WithoutPermission()
+  weightUnits() {
+    return {
+      units: Object.entries(WEIGHT_UNITS).map(([unit, { label }]) => ({ unit, label })),
+    };
+  }
+
   @Get('product/:productId')
+  @WithoutPermission()
   async listByProduct(@Param('productId') productId: string) {
     const conversions = await this.service.listByProduct(productId);
     return { conversions };
   }
 
   @Post()
+  @RequirePermission('unit_conversions.manage')
   async create(@Body() dto: CreateUnitConversionDto) {
     const conversion = await this.service.create(dto);
     return { conversion };
   }
 
   @Put(':id')
+  @RequirePermission('unit_conversions.manage')
   async update(@Param('id') id: string, @Body() dto: UpdateUnitConversionDto) {
     const conversion = await this.service.update(id, dto);
     return { conversion };
   }
 
   @Delete(':id')
+  @RequirePermission('unit_conversions.manage')
   @HttpCode(HttpStatus.NO_CONTENT)
   async delete(@Param('id') id: string) {
     await this.service.delete(id);
   }
 
   @Get('convert/:productId')
+  @WithoutPermission()
   async convert(
     @Param('productId') productId: string,
     @Query('quantity') quantity: string,
@@ -59,6 +78,7 @@ export class UnitConversionController {
   }
 
   @Get('stock/:productId/:outletId')
+  @WithoutPermission()
   async getStockInAllUnits(
     @Param('productId') productId: string,
     @Param('outletId') outletId: string,
@@ -0,0 +1,40 @@
+import { Quantity } from '../../domain/value-objects/quantity';
+
+/**
+ * Units a weighed product can be sold in, with their size in grams.
+ * Scale labels carry kilograms; these convert them to the product's sell unit.
+ */
+export const WEIGHT_UNITS = {
+  kg: { label: 'Kilogram', grams: 1000 },
+  g: { label: 'Gram', grams: 1 },
+  ons: { label: 'Ons', grams: 100 },
+  lb: { label: 'Pound', grams: 453.59237 },
+  oz: { label: 'Ounce', grams: 28.349523125 },
+} as const;
+
+export type WeightUnit = keyof typeof WEIGHT_UNITS;
+
+// Spellings found in imported catalogs
+const ALIASES: Record<string, WeightUnit> = {
+  kilogram: 'kg',
+  kilo: 'kg',
+  gr: 'g',
+  gram: 'g',
+};
+
+/** The weight unit a sell unit stands for; null when it is not a weight */
+export function toWeightUnit(unit: string | null | undefined): WeightUnit | null {
+  if (!unit) return null;
+  const key = unit.trim().toLowerCase();
+  if (key in WEIGHT_UNITS) return key as WeightUnit;
+  return ALIASES[key] ?? null;
+}
+
+export function isWeightUnit(unit: string | null | undefined): boolean {
+  return toWeightUnit(unit) !== null;
+}
+
+/** Converts a weight, rounded to the precision stock is kept in */
+export function convertWeight(quantity: number, from: WeightUnit, to: WeightUnit): number {
+  return Quantity.create((quantity * WEIGHT_UNITS[from].grams) / WEIGHT_UNITS[to].grams).value;
+}
@@ -9,13 +9,15 @@ import {
 import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiBearerAuth, ApiConsumes, ApiBody } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
 import { StorageService } from '../../infrastructure/storage/storage.service';
 import { ImageProcessorService } from '../../infrastructure/storage/image-processor.service';
 import { randomUUID } from 'crypto';
 
 @ApiTags('Uploads')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('uploads')
 export class UploadsController {
   constructor(
@@ -24,6 +26,7 @@ export class UploadsController {
   ) {}
 
   @Post('image')
+  @RequirePermission('uploads.images')
   @UseInterceptors(FileInterceptor('file'))
   @ApiConsumes('multipart/form-data')
   @ApiBody({
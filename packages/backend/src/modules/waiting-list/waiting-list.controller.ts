@@ -1,6 +1,11 @@
 import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
 import { WaitingListService } from './waiting-list.service';
 import { WaitingListStatus } from '@prisma/client';
 
@@ -10,8 +15,9 @@ export class WaitingListController {
   constructor(private readonly waitingListService: WaitingListService) {}
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Post()
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Add customer to waiting list' })
   async create(
     @Body()
@@ -30,6 +36,7 @@ export class WaitingListController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Get()
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get waiting list for outlet' })
   @ApiQuery({ name: 'outletId', required: true, type: String })
   @ApiQuery({
@@ -47,6 +54,7 @@ export class WaitingListController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Get('stats')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get waiting list statistics for outlet' })
   @ApiQuery({ name: 'outletId', required: true, type: String })
   async getStats(@Query('outletId') outletId: string) {
@@ -56,6 +64,7 @@ export class WaitingListController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Get(':id')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get waiting list entry by ID' })
   async findById(@Param('id') id: string) {
     return this.waitingListService.findById(id);
@@ -64,14 +73,16 @@ export class WaitingListController {
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Get(':id/position')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Get queue position for entry' })
   async getQueuePosition(@Param('id') id: string) {
     return this.waitingListService.getQueuePosition(id);
   }
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Put(':id')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Update waiting list entry' })
   async update(
     @Param('id') id: string,
@@ -87,40 +98,45 @@ export class WaitingListController {
   }
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Put(':id/notify')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Notify customer that table is ready' })
   async notify(@Param('id') id: string) {
     return this.waitingListService.notify(id);
   }
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Put(':id/seat')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Seat customer at table' })
   async seat(@Param('id') id: string, @Body() dto: { tableId: string }) {
     return this.waitingListService.seat(id, dto.tableId);
   }
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Put(':id/cancel')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Cancel waiting list entry' })
   async cancel(@Param('id') id: string) {
     return this.waitingListService.cancel(id);
   }
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Put(':id/no-show')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Mark customer as no-show' })
   async markNoShow(@Param('id') id: string) {
     return this.waitingListService.markNoShow(id);
   }
 
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Delete(':id')
+  @RequirePermission('tables.serve')
   @ApiOperation({ summary: 'Delete waiting list entry' })
   async delete(@Param('id') id: string) {
     await this.waitingListService.delete(id);
@@ -129,6 +145,7 @@ export class WaitingListController {
 
   // Public endpoint untuk customer check status
   @Get('public/:id')
+  @WithoutPermission()
   @ApiOperation({ summary: 'Public: Check queue position (no auth required)' })
   async publicGetPosition(@Param('id') id: string) {
     const entry = await this.waitingListService.findById(id);
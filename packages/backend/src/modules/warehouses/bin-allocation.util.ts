@@ -0,0 +1,40 @@
+/** Stock of one item in one bin, in the order pickers walk the location */
+export interface BinQuantity {
+  binId: string;
+  binCode: string;
+  quantity: number;
+}
+
+export interface BinPick {
+  binId: string;
+  binCode: string;
+  quantity: number;
+}
+
+// Quantities are Decimal(15, 3); round away float drift from the subtraction
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Takes `needed` from the bins in the order given, emptying each bin before
+ * moving on so pickers visit as few bins as possible along their route.
+ * Whatever the bins cannot cover is returned as `shortfall`, to be picked
+ * from unbinned stock.
+ */
+export function allocateFromBins(
+  needed: number,
+  bins: BinQuantity[],
+): { picks: BinPick[]; shortfall: number } {
+  const picks: BinPick[] = [];
+  let remaining = needed;
+
+  for (const bin of bins) {
+    if (remaining <= 0) break;
+    if (bin.quantity <= 0) continue;
+
+    const quantity = round3(Math.min(bin.quantity, remaining));
+    picks.push({ binId: bin.binId, binCode: bin.binCode, quantity });
+    remaining = round3(remaining - quantity);
+  }
+
+  return { picks, shortfall: Math.max(0, remaining) };
+}
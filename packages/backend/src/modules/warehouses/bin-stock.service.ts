@@ -0,0 +1,461 @@
+import { HttpStatus, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, type StockTransferStatus } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type {
+  BinStockQueryDto,
+  MoveBinStockDto,
+  PutawayDto,
+} from '../../application/dtos/warehouse.dto';
+import { WarehousesService } from './warehouses.service';
+import { allocateFromBins } from './bin-allocation.util';
+
+type Client = PrismaService | Prisma.TransactionClient;
+
+export interface BinPutaway {
+  binId: string;
+  binCode: string;
+  quantity: number;
+}
+
+export interface PickListLine {
+  binId: string;
+  binCode: string;
+  zoneCode: string;
+  zoneName: string;
+  productId: string;
+  variantId: string | null;
+  itemName: string;
+  quantity: number;
+}
+
+export interface PickList {
+  transferId: string;
+  transferNumber: string;
+  sourceOutletId: string;
+  /** Bin picks in the order pickers walk the location */
+  lines: PickListLine[];
+  /** What the bins cannot cover, picked from unbinned stock */
+  unbinned: Array<{
+    productId: string | null;
+    variantId: string | null;
+    ingredientId: string | null;
+    itemName: string;
+    quantity: number;
+  }>;
+}
+
+/** Transfers whose stock is still in the source bins */
+export const PICKABLE_TRANSFER_STATUSES: StockTransferStatus[] = ['pending', 'approved'];
+
+/** Bins in picking route order: zone, then the bin's walk sequence, then its label */
+const ROUTE_ORDER: Prisma.BinStockOrderByWithRelationInput[] = [
+  { bin: { zone: { sortOrder: 'asc' } } },
+  { bin: { pickSequence: 'asc' } },
+  { bin: { code: 'asc' } },
+];
+
+/**
+ * BinStockService - Where inside a location its stock sits
+ *
+ * Bin stock is a breakdown of the outlet's StockLevel, not a second ledger:
+ * putaway moves unbinned stock into a bin, moves shift it between bins, and
+ * picking for a shipped transfer takes it back out. Goods received on a PO
+ * are put away straight into the bin suggested for them. Anything else that
+ * lowers the stock level (sales, adjustments, counts) trims the bins back
+ * down to it.
+ */
+@Injectable()
+export class BinStockService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly warehouses: WarehousesService,
+  ) {}
+
+  async list(businessId: string, outletId: string, query: BinStockQueryDto) {
+    await this.warehouses.findOutlet(businessId, outletId);
+
+    const stocks = await this.prisma.binStock.findMany({
+      where: {
+        outletId,
+        quantity: { gt: 0 },
+        ...(query.productId && { productId: query.productId }),
+        ...(query.zoneId && { bin: { zoneId: query.zoneId } }),
+      },
+      include: {
+        bin: { select: { code: true, zone: { select: { code: true, name: true } } } },
+        product: { select: { name: true, sku: true } },
+        variant: { select: { name: true } },
+      },
+      orderBy: ROUTE_ORDER,
+    });
+
+    return stocks.map((stock) => ({
+      id: stock.id,
+      binId: stock.binId,
+      binCode: stock.bin.code,
+      zoneCode: stock.bin.zone.code,
+      zoneName: stock.bin.zone.name,
+      productId: stock.productId,
+      variantId: stock.variantId,
+      productName: stock.product.name,
+      variantName: stock.variant?.name ?? null,
+      sku: stock.product.sku,
+      quantity: stock.quantity.toNumber(),
+    }));
+  }
+
+  /** Puts unbinned stock of the location into a bin, the suggested one by default */
+  async putaway(businessId: string, outletId: string, dto: PutawayDto): Promise<BinPutaway> {
+    await this.warehouses.findOutlet(businessId, outletId);
+    const variantId = dto.variantId ?? null;
+
+    return this.prisma.$transaction(async (tx) => {
+      const bin = dto.binId
+        ? await this.activeBin(tx, outletId, dto.binId)
+        : await this.suggestBin(tx, outletId, dto.productId, variantId);
+      if (!bin) {
+        throw new BusinessError(
+          ErrorCode.VALIDATION_ERROR,
+          'No bin to suggest; choose the bin to put the stock in',
+        );
+      }
+
+      const unbinned = await this.unbinnedQuantity(tx, outletId, dto.productId, variantId);
+      if (dto.quantity > unbinned) {
+        throw new BusinessError(
+          ErrorCode.INSUFFICIENT_STOCK,
+          `Only ${unbinned} of this item is not in a bin yet`,
+        );
+      }
+
+      await this.addToBin(tx, bin.id, outletId, dto.productId, variantId, dto.quantity);
+      return { binId: bin.id, binCode: bin.code, quantity: dto.quantity };
+    });
+  }
+
+  async move(businessId: string, outletId: string, dto: MoveBinStockDto) {
+    await this.warehouses.findOutlet(businessId, outletId);
+    if (dto.fromBinId === dto.toBinId) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Source and target bin are the same');
+    }
+    const variantId = dto.variantId ?? null;
+
+    return this.prisma.$transaction(async (tx) => {
+      const from = await this.activeBin(tx, outletId, dto.fromBinId, false);
+      const to = await this.activeBin(tx, outletId, dto.toBinId);
+      await this.takeFromBin(tx, from, dto.productId, variantId, dto.quantity);
+      await this.addToBin(tx, to.id, outletId, dto.productId, variantId, dto.quantity);
+      return { fromBinCode: from.code, toBinCode: to.code, quantity: dto.quantity };
+    });
+  }
+
+  /**
+   * Putaway for goods booked into stock, e.g. on PO receipt. Returns null
+   * when there is no bin to suggest, in which case the stock stays unbinned.
+   */
+  async putawayReceived(
+    client: Prisma.TransactionClient,
+    outletId: string,
+    productId: string,
+    variantId: string | null,
+    quantity: number,
+  ): Promise<BinPutaway | null> {
+    const bin = await this.suggestBin(client, outletId, productId, variantId);
+    if (!bin) return null;
+
+    await this.addToBin(client, bin.id, outletId, productId, variantId, quantity);
+    return { binId: bin.id, binCode: bin.code, quantity };
+  }
+
+  /**
+   * Called after the stock level of an item drops: takes whatever the bins
+   * hold beyond it out of them, in route order as a picker would, so the
+   * bins never show stock that has left the location.
+   */
+  async trimToStockLevel(
+    client: Client,
+    outletId: string,
+    productId: string,
+    variantId: string | null,
+  ): Promise<void> {
+    const [level, stocks] = await Promise.all([
+      client.stockLevel.findFirst({
+        where: { outletId, productId, variantId },
+        select: { quantity: true },
+      }),
+      client.binStock.findMany({
+        where: { outletId, productId, variantId, quantity: { gt: 0 } },
+        include: { bin: { select: { code: true } } },
+        orderBy: ROUTE_ORDER,
+      }),
+    ]);
+    if (stocks.length === 0) return;
+
+    const binned = stocks.reduce((sum, stock) => sum + stock.quantity.toNumber(), 0);
+    const onHand = Math.max(0, level?.quantity.toNumber() ?? 0);
+    // Quantities are Decimal(15, 3); round away float drift from the sum
+    const excess = Math.round((binned - onHand) * 1000) / 1000;
+    if (excess <= 0) return;
+
+    const { picks } = allocateFromBins(
+      excess,
+      stocks.map((stock) => ({
+        binId: stock.binId,
+        binCode: stock.bin.code,
+        quantity: stock.quantity.toNumber(),
+      })),
+    );
+    for (const pick of picks) {
+      await this.takeFromBin(
+        client,
+        { id: pick.binId, code: pick.binCode },
+        productId,
+        variantId,
+        pick.quantity,
+      );
+    }
+  }
+
+  // ==================== Picking ====================
+
+  /** Routes the items of a transfer through the bins of its source location */
+  async pickList(businessId: string, transferId: string): Promise<PickList> {
+    return this.buildPickList(this.prisma, businessId, transferId);
+  }
+
+  /**
+   * Takes the picked quantities out of the source bins when a transfer ships.
+   * Runs in the caller's transaction, after it has moved the transfer out of
+   * a pickable status, so each transfer is picked once.
+   */
+  async consumePickList(
+    tx: Prisma.TransactionClient,
+    businessId: string,
+    transferId: string,
+  ): Promise<PickList> {
+    const pickList = await this.buildPickList(tx, businessId, transferId);
+    for (const line of pickList.lines) {
+      await this.takeFromBin(
+        tx,
+        { id: line.binId, code: line.binCode },
+        line.productId,
+        line.variantId,
+        line.quantity,
+      );
+    }
+    return pickList;
+  }
+
+  private async buildPickList(
+    client: Client,
+    businessId: string,
+    transferId: string,
+  ): Promise<PickList> {
+    const transfer = await client.stockTransfer.findFirst({
+      where: { id: transferId, businessId },
+      include: { items: true },
+    });
+    if (!transfer) {
+      throw new NotFoundException('Transfer not found');
+    }
+
+    const productIds = [
+      ...new Set(transfer.items.flatMap((item) => (item.productId ? [item.productId] : []))),
+    ];
+    const stocks = productIds.length
+      ? await client.binStock.findMany({
+          where: {
+            outletId: transfer.sourceOutletId,
+            productId: { in: productIds },
+            quantity: { gt: 0 },
+            bin: { isActive: true, zone: { isActive: true } },
+          },
+          include: { bin: { include: { zone: { select: { code: true, name: true } } } } },
+          orderBy: ROUTE_ORDER,
+        })
+      : [];
+
+    // Position of each bin along the route, to merge the picks of all items
+    const routeIndex = new Map<string, number>();
+    for (const stock of stocks) {
+      if (!routeIndex.has(stock.binId)) routeIndex.set(stock.binId, routeIndex.size);
+    }
+
+    const lines: PickListLine[] = [];
+    const unbinned: PickList['unbinned'] = [];
+    for (const item of transfer.items) {
+      const needed = item.quantitySent.toNumber();
+      if (!item.productId) {
+        unbinned.push({
+          productId: null,
+          variantId: item.variantId,
+          ingredientId: item.ingredientId,
+          itemName: item.itemName,
+          quantity: needed,
+        });
+        continue;
+      }
+
+      const itemStocks = stocks.filter(
+        (stock) => stock.productId === item.productId && stock.variantId === item.variantId,
+      );
+      const { picks, shortfall } = allocateFromBins(
+        needed,
+        itemStocks.map((stock) => ({
+          binId: stock.binId,
+          binCode: stock.bin.code,
+          quantity: stock.quantity.toNumber(),
+        })),
+      );
+
+      for (const pick of picks) {
+        const stock = itemStocks.find((s) => s.binId === pick.binId)!;
+        lines.push({
+          ...pick,
+          zoneCode: stock.bin.zone.code,
+          zoneName: stock.bin.zone.name,
+          productId: item.productId,
+          variantId: item.variantId,
+          itemName: item.itemName,
+        });
+        // Two transfer lines of one item must not pick the same stock twice
+        stock.quantity = stock.quantity.minus(pick.quantity);
+      }
+      if (shortfall > 0) {
+        unbinned.push({
+          productId: item.productId,
+          variantId: item.variantId,
+          ingredientId: null,
+          itemName: item.itemName,
+          quantity: shortfall,
+        });
+      }
+    }
+
+    lines.sort((a, b) => routeIndex.get(a.binId)! - routeIndex.get(b.binId)!);
+
+    return {
+      transferId: transfer.id,
+      transferNumber: transfer.transferNumber,
+      sourceOutletId: transfer.sourceOutletId,
+      lines,
+      unbinned,
+    };
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * Where new stock of an item goes: the first bin along the route that
+   * already holds it, otherwise the first bin of a receiving zone.
+   */
+  private async suggestBin(
+    client: Client,
+    outletId: string,
+    productId: string,
+    variantId: string | null,
+  ): Promise<{ id: string; code: string } | null> {
+    const holding = await client.binStock.findFirst({
+      where: {
+        outletId,
+        productId,
+        variantId,
+        quantity: { gt: 0 },
+        bin: { isActive: true, zone: { isActive: true } },
+      },
+      include: { bin: { select: { id: true, code: true } } },
+      orderBy: ROUTE_ORDER,
+    });
+    if (holding) return holding.bin;
+
+    return client.warehouseBin.findFirst({
+      where: { outletId, isActive: true, zone: { zoneType: 'receiving', isActive: true } },
+      select: { id: true, code: true },
+      orderBy: [{ zone: { sortOrder: 'asc' } }, { pickSequence: 'asc' }, { code: 'asc' }],
+    });
+  }
+
+  private async activeBin(client: Client, outletId: string, binId: string, mustBeActive = true) {
+    const bin = await client.warehouseBin.findFirst({
+      where: { id: binId, outletId },
+      select: { id: true, code: true, isActive: true },
+    });
+    if (!bin) {
+      throw new AppError(
+        ErrorCode.WAREHOUSE_BIN_NOT_FOUND,
+        'Bin not found at this location',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    if (mustBeActive && !bin.isActive) {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, `Bin ${bin.code} is inactive`);
+    }
+    return bin;
+  }
+
+  /** Stock level of the location that no bin accounts for */
+  private async unbinnedQuantity(
+    client: Client,
+    outletId: string,
+    productId: string,
+    variantId: string | null,
+  ): Promise<number> {
+    const [level, binned] = await Promise.all([
+      client.stockLevel.findFirst({
+        where: { outletId, productId, variantId },
+        select: { quantity: true },
+      }),
+      client.binStock.aggregate({
+        where: { outletId, productId, variantId },
+        _sum: { quantity: true },
+      }),
+    ]);
+    const onHand = level?.quantity.toNumber() ?? 0;
+    return Math.max(0, onHand - (binned._sum.quantity?.toNumber() ?? 0));
+  }
+
+  // The unique key includes the nullable variant, which upsert cannot match on
+  private async addToBin(
+    client: Client,
+    binId: string,
+    outletId: string,
+    productId: string,
+    variantId: string | null,
+    quantity: number,
+  ): Promise<void> {
+    const existing = await client.binStock.findFirst({
+      where: { binId, productId, variantId },
+      select: { id: true },
+    });
+    if (existing) {
+      await client.binStock.update({
+        where: { id: existing.id },
+        data: { quantity: { increment: quantity } },
+      });
+      return;
+    }
+    await client.binStock.create({ data: { binId, outletId, productId, variantId, quantity } });
+  }
+
+  private async takeFromBin(
+    client: Client,
+    bin: { id: string; code: string },
+    productId: string,
+    variantId: string | null,
+    quantity: number,
+  ): Promise<void> {
+    const { count } = await client.binStock.updateMany({
+      where: { binId: bin.id, productId, variantId, quantity: { gte: quantity } },
+      data: { quantity: { decrement: quantity } },
+    });
+    if (count === 0) {
+      throw new BusinessError(
+        ErrorCode.INSUFFICIENT_STOCK,
+        `Bin ${bin.code} does not hold ${quantity} of this item`,
+      );
+    }
+  }
+}
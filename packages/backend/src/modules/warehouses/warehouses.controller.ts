@@ -0,0 +1,181 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  PermissionOutlet,
+  WithoutPermission,
+} from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { FeatureGuard, RequireFeature } from '../../common/guards/feature.guard';
+import {
+  BinStockQueryDto,
+  CreateWarehouseBinDto,
+  CreateWarehouseZoneDto,
+  MoveBinStockDto,
+  PutawayDto,
+  SetLocationTypeDto,
+  UpdateWarehouseBinDto,
+  UpdateWarehouseZoneDto,
+} from '../../application/dtos/warehouse.dto';
+import { WarehousesService } from './warehouses.service';
+import { BinStockService } from './bin-stock.service';
+
+@ApiTags('Warehouses')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard, FeatureGuard)
+@RequireFeature('multi_warehouse')
+@Controller('warehouses')
+export class WarehousesController {
+  constructor(
+    private readonly warehousesService: WarehousesService,
+    private readonly binStockService: BinStockService,
+  ) {}
+
+  // ==================== Locations ====================
+
+  @Get('locations')
+  @WithoutPermission()
+  @ApiOperation({ summary: 'Stores and warehouses of the business with their bin counts' })
+  async listLocations(@CurrentUser() user: AuthUser) {
+    return this.warehousesService.listLocations(user.businessId);
+  }
+
+  @Patch('locations/:outletId')
+  @RequirePermission('inventory.warehouses')
+  @ApiOperation({ summary: 'Turn an outlet into a warehouse or back into a store' })
+  async setLocationType(
+    @Param('outletId', ParseUUIDPipe) outletId: string,
+    @Body() dto: SetLocationTypeDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.warehousesService.setLocationType(user.businessId, outletId, dto);
+  }
+
+  @Get('locations/:outletId/zones')
+  @WithoutPermission()
+  @ApiOperation({ summary: 'Zones and bins of a location in picking order' })
+  async getLayout(
+    @Param('outletId', ParseUUIDPipe) outletId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.warehousesService.getLayout(user.businessId, outletId);
+  }
+
+  // ==================== Zones & bins ====================
+
+  @Post('locations/:outletId/zones')
+  @RequirePermission('inventory.warehouses')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Add a zone to a location' })
+  async createZone(
+    @Param('outletId', ParseUUIDPipe) outletId: string,
+    @Body() dto: CreateWarehouseZoneDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.warehousesService.createZone(user.businessId, outletId, dto);
+  }
+
+  @Patch('zones/:id')
+  @PermissionOutlet('warehouseZone')
+  @RequirePermission('inventory.warehouses')
+  @ApiOperation({ summary: 'Update a zone' })
+  async updateZone(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateWarehouseZoneDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.warehousesService.updateZone(user.businessId, id, dto);
+  }
+
+  @Delete('zones/:id')
+  @PermissionOutlet('warehouseZone')
+  @RequirePermission('inventory.warehouses')
+  @ApiOperation({ summary: 'Delete a zone without bins' })
+  async deleteZone(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.warehousesService.deleteZone(user.businessId, id);
+  }
+
+  @Post('zones/:id/bins')
+  @PermissionOutlet('warehouseZone')
+  @RequirePermission('inventory.warehouses')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Add a bin to a zone' })
+  async createBin(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CreateWarehouseBinDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.warehousesService.createBin(user.businessId, id, dto);
+  }
+
+  @Patch('bins/:id')
+  @PermissionOutlet('warehouseBin')
+  @RequirePermission('inventory.warehouses')
+  @ApiOperation({ summary: 'Change the pick sequence of a bin or deactivate it' })
+  async updateBin(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateWarehouseBinDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.warehousesService.updateBin(user.businessId, id, dto);
+  }
+
+  @Delete('bins/:id')
+  @PermissionOutlet('warehouseBin')
+  @RequirePermission('inventory.warehouses')
+  @ApiOperation({ summary: 'Delete an empty bin' })
+  async deleteBin(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.warehousesService.deleteBin(user.businessId, id);
+  }
+
+  // ==================== Bin stock ====================
+
+  @Get('locations/:outletId/bin-stock')
+  @WithoutPermission()
+  @ApiOperation({ summary: 'Stock per bin of a location' })
+  async listBinStock(
+    @Param('outletId', ParseUUIDPipe) outletId: string,
+    @Query() query: BinStockQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.binStockService.list(user.businessId, outletId, query);
+  }
+
+  @Post('locations/:outletId/putaway')
+  @RequirePermission('inventory.adjust')
+  @ApiOperation({ summary: 'Put unbinned stock into a bin' })
+  async putaway(
+    @Param('outletId', ParseUUIDPipe) outletId: string,
+    @Body() dto: PutawayDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.binStockService.putaway(user.businessId, outletId, dto);
+  }
+
+  @Post('locations/:outletId/moves')
+  @RequirePermission('inventory.adjust')
+  @ApiOperation({ summary: 'Move stock from one bin to another' })
+  async move(
+    @Param('outletId', ParseUUIDPipe) outletId: string,
+    @Body() dto: MoveBinStockDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.binStockService.move(user.businessId, outletId, dto);
+  }
+}
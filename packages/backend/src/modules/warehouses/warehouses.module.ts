@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { BusinessModule } from '../business/business.module';
+import { WarehousesController } from './warehouses.controller';
+import { WarehousesService } from './warehouses.service';
+import { BinStockService } from './bin-stock.service';
+
+@Module({
+  imports: [BusinessModule],
+  controllers: [WarehousesController],
+  providers: [WarehousesService, BinStockService],
+  exports: [BinStockService],
+})
+export class WarehousesModule {}
@@ -0,0 +1,208 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type {
+  CreateWarehouseBinDto,
+  CreateWarehouseZoneDto,
+  SetLocationTypeDto,
+  UpdateWarehouseBinDto,
+  UpdateWarehouseZoneDto,
+} from '../../application/dtos/warehouse.dto';
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * WarehousesService - Stock locations and their zone/bin layout
+ *
+ * A warehouse is an outlet with locationType "warehouse": it keeps stock
+ * levels, receives purchase orders and takes part in transfers like any
+ * outlet, but does not sell: sales, shifts and marketplace connections are
+ * refused there. Zones and bins can be laid out in stores and warehouses
+ * alike.
+ */
+@Injectable()
+export class WarehousesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== Locations ====================
+
+  async listLocations(businessId: string) {
+    const outlets = await this.prisma.outlet.findMany({
+      where: { businessId, isActive: true },
+      select: {
+        id: true,
+        name: true,
+        code: true,
+        locationType: true,
+        _count: { select: { warehouseZones: true, warehouseBins: true } },
+      },
+      orderBy: [{ locationType: 'desc' }, { name: 'asc' }],
+    });
+
+    return outlets.map(({ _count, ...outlet }) => ({
+      ...outlet,
+      zoneCount: _count.warehouseZones,
+      binCount: _count.warehouseBins,
+    }));
+  }
+
+  async setLocationType(businessId: string, outletId: string, dto: SetLocationTypeDto) {
+    await this.findOutlet(businessId, outletId);
+    if (dto.locationType === 'warehouse') {
+      const [openShifts, connections] = await Promise.all([
+        this.prisma.shift.count({ where: { outletId, status: 'open' } }),
+        this.prisma.marketplaceConnection.count({ where: { outletId, isActive: true } }),
+      ]);
+      if (openShifts > 0 || connections > 0) {
+        throw new BusinessError(
+          ErrorCode.CONFLICT,
+          'Close the open shifts and disconnect the marketplaces of this outlet first',
+        );
+      }
+    }
+    return this.prisma.outlet.update({
+      where: { id: outletId },
+      data: { locationType: dto.locationType },
+      select: { id: true, name: true, locationType: true },
+    });
+  }
+
+  /** Zones of a location with their bins, in picking order */
+  async getLayout(businessId: string, outletId: string) {
+    await this.findOutlet(businessId, outletId);
+    return this.prisma.warehouseZone.findMany({
+      where: { outletId },
+      include: { bins: { orderBy: [{ pickSequence: 'asc' }, { code: 'asc' }] } },
+      orderBy: [{ sortOrder: 'asc' }, { code: 'asc' }],
+    });
+  }
+
+  // ==================== Zones ====================
+
+  async createZone(businessId: string, outletId: string, dto: CreateWarehouseZoneDto) {
+    await this.findOutlet(businessId, outletId);
+    try {
+      return await this.prisma.warehouseZone.create({
+        data: {
+          outletId,
+          code: dto.code.toUpperCase(),
+          name: dto.name,
+          zoneType: dto.zoneType ?? 'storage',
+          sortOrder: dto.sortOrder ?? 0,
+        },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new BusinessError(ErrorCode.DUPLICATE_RESOURCE, `Zone ${dto.code} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async updateZone(businessId: string, zoneId: string, dto: UpdateWarehouseZoneDto) {
+    const zone = await this.findZone(businessId, zoneId);
+    return this.prisma.warehouseZone.update({
+      where: { id: zone.id },
+      data: {
+        name: dto.name,
+        zoneType: dto.zoneType,
+        sortOrder: dto.sortOrder,
+        isActive: dto.isActive,
+      },
+    });
+  }
+
+  async deleteZone(businessId: string, zoneId: string) {
+    const zone = await this.findZone(businessId, zoneId);
+    const bins = await this.prisma.warehouseBin.count({ where: { zoneId: zone.id } });
+    if (bins > 0) {
+      throw new BusinessError(ErrorCode.CONFLICT, 'Delete or move the bins of this zone first');
+    }
+    await this.prisma.warehouseZone.delete({ where: { id: zone.id } });
+    return { message: 'Zone deleted' };
+  }
+
+  // ==================== Bins ====================
+
+  async createBin(businessId: string, zoneId: string, dto: CreateWarehouseBinDto) {
+    const zone = await this.findZone(businessId, zoneId);
+    try {
+      return await this.prisma.warehouseBin.create({
+        data: {
+          outletId: zone.outletId,
+          zoneId: zone.id,
+          code: dto.code.toUpperCase(),
+          pickSequence: dto.pickSequence ?? 0,
+        },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new BusinessError(ErrorCode.DUPLICATE_RESOURCE, `Bin ${dto.code} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async updateBin(businessId: string, binId: string, dto: UpdateWarehouseBinDto) {
+    const bin = await this.findBin(businessId, binId);
+    return this.prisma.warehouseBin.update({
+      where: { id: bin.id },
+      data: { pickSequence: dto.pickSequence, isActive: dto.isActive },
+    });
+  }
+
+  /** Only empty bins can go; stock would otherwise silently become unbinned */
+  async deleteBin(businessId: string, binId: string) {
+    const bin = await this.findBin(businessId, binId);
+    const stocked = await this.prisma.binStock.count({
+      where: { binId: bin.id, quantity: { gt: 0 } },
+    });
+    if (stocked > 0) {
+      throw new BusinessError(ErrorCode.CONFLICT, `Bin ${bin.code} still holds stock`);
+    }
+    await this.prisma.warehouseBin.delete({ where: { id: bin.id } });
+    return { message: 'Bin deleted' };
+  }
+
+  // ==================== Lookups ====================
+
+  async findOutlet(businessId: string, outletId: string) {
+    const outlet = await this.prisma.outlet.findFirst({
+      where: { id: outletId, businessId },
+      select: { id: true, name: true, locationType: true },
+    });
+    if (!outlet) {
+      throw new AppError(ErrorCode.OUTLET_NOT_FOUND, 'Outlet not found', HttpStatus.NOT_FOUND);
+    }
+    return outlet;
+  }
+
+  async findBin(businessId: string, binId: string) {
+    const bin = await this.prisma.warehouseBin.findFirst({
+      where: { id: binId, outlet: { businessId } },
+    });
+    if (!bin) {
+      throw new AppError(ErrorCode.WAREHOUSE_BIN_NOT_FOUND, 'Bin not found', HttpStatus.NOT_FOUND);
+    }
+    return bin;
+  }
+
+  private async findZone(businessId: string, zoneId: string) {
+    const zone = await this.prisma.warehouseZone.findFirst({
+      where: { id: zoneId, outlet: { businessId } },
+    });
+    if (!zone) {
+      throw new AppError(
+        ErrorCode.WAREHOUSE_ZONE_NOT_FOUND,
+        'Zone not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return zone;
+  }
+}
@@ -0,0 +1,288 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { Prisma, WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { CredentialCipherService } from '../../infrastructure/security/credential-cipher.service';
+import { JOB_NAMES, JOB_OPTIONS, QUEUE_NAMES } from '../../infrastructure/queues/queue.constants';
+import type { WebhookJobData } from '../../infrastructure/queues/processors/webhook.processor';
+import { AppError } from '../../shared/errors/app-error';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type { WebhookDeliveryQueryDto } from '../../application/dtos/webhook.dto';
+import { resolvePublicAddress, signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from './webhook.util';
+
+/** Body of every webhook request */
+export interface WebhookPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  businessId: string;
+  data: Record<string, unknown>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+// Enough of the reply to troubleshoot a receiver without storing whole pages
+const RESPONSE_BODY_LIMIT = 1000;
+const REPLAY_BATCH_LIMIT = 500;
+
+/** The delivery log hides the payload; it is only returned for a single delivery */
+const LOG_SELECT = {
+  id: true,
+  endpointId: true,
+  eventId: true,
+  eventType: true,
+  status: true,
+  attempts: true,
+  responseStatus: true,
+  latencyMs: true,
+  error: true,
+  lastAttemptAt: true,
+  deliveredAt: true,
+  createdAt: true,
+} satisfies Prisma.WebhookDeliverySelect;
+
+@Injectable()
+export class WebhookDeliveriesService {
+  private readonly logger = new Logger(WebhookDeliveriesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue(QUEUE_NAMES.WEBHOOK)
+    private readonly webhookQueue: Queue<WebhookJobData>,
+    private readonly cipher: CredentialCipherService,
+  ) {}
+
+  // ========================================================================
+  // DISPATCH
+  // ========================================================================
+
+  /**
+   * Queues one delivery per active endpoint of the business subscribed to
+   * the event type. Deliveries of the same event share the payload id, so
+   * receivers can drop duplicates.
+   */
+  async dispatch(
+    businessId: string,
+    eventType: string,
+    data: Record<string, unknown>,
+    occurredOn = new Date(),
+  ): Promise<number> {
+    const endpoints = await this.prisma.webhookEndpoint.findMany({
+      where: { businessId, isActive: true, events: { has: eventType } },
+    });
+    if (endpoints.length === 0) return 0;
+
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      type: eventType,
+      createdAt: occurredOn.toISOString(),
+      businessId,
+      data,
+    };
+    for (const endpoint of endpoints) {
+      await this.enqueue(endpoint, payload);
+    }
+    return endpoints.length;
+  }
+
+  /** Records and queues a delivery of a payload to one endpoint */
+  async enqueue(endpoint: WebhookEndpoint, payload: WebhookPayload): Promise<WebhookDelivery> {
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        endpointId: endpoint.id,
+        businessId: endpoint.businessId,
+        eventId: payload.id,
+        eventType: payload.type,
+        payload: payload as unknown as Prisma.InputJsonValue,
+      },
+    });
+    await this.addJob(delivery, delivery.id);
+    return delivery;
+  }
+
+  private async addJob(delivery: WebhookDelivery, jobId: string): Promise<void> {
+    try {
+      await this.webhookQueue.add(
+        JOB_NAMES.DELIVER_WEBHOOK,
+        { deliveryId: delivery.id },
+        { ...JOB_OPTIONS.WEBHOOK, jobId },
+      );
+    } catch (error) {
+      // Straight to the dead letters, where it can be replayed once the queue is back
+      await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'dead', error: `Could not queue: ${(error as Error).message}` },
+      });
+      this.logger.error(
+        `Failed to queue webhook delivery ${delivery.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  // ========================================================================
+  // EXECUTE (called by WebhookProcessor)
+  // ========================================================================
+
+  /**
+   * Posts the signed payload once and records the response code and latency.
+   * The endpoint's host has to resolve to a public address, or nothing is
+   * sent. Anything but a 2xx is rethrown so BullMQ backs off and retries;
+   * `finalAttempt` decides whether the delivery ends up "retrying" or "dead".
+   */
+  async execute(deliveryId: string, finalAttempt: boolean): Promise<void> {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true },
+    });
+    if (!delivery) {
+      this.logger.warn(`Webhook delivery ${deliveryId} no longer exists, skipping`);
+      return;
+    }
+    if (delivery.status === 'delivered') return;
+
+    if (!delivery.endpoint.isActive) {
+      await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'dead', error: 'Endpoint is paused' },
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      // Checked again on every attempt: the name may point somewhere else by now
+      const target = await resolvePublicAddress(delivery.endpoint.url);
+      const secret = this.cipher.decrypt(delivery.endpoint.secret);
+      const response = await axios.post<string>(delivery.endpoint.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'TiloPOS-Webhooks/1.0',
+          'X-Tilo-Event': delivery.eventType,
+          'X-Tilo-Delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body, timestamp),
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+        // Connect to the address that was checked, not a fresh lookup
+        lookup: async () => ({ address: target.address, family: target.family === 6 ? 6 : 4 }),
+        // A redirect would resend the signed payload to a URL the owner never registered
+        maxRedirects: 0,
+        responseType: 'text',
+        transformResponse: (data: string) => data,
+        validateStatus: () => true,
+      });
+      responseStatus = response.status;
+      responseBody = String(response.data ?? '').slice(0, RESPONSE_BODY_LIMIT) || null;
+      if (response.status < 200 || response.status >= 300) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      // Timeouts, refused connections and TLS failures never reach a status code
+      error = (requestError as Error).message;
+    }
+
+    const latencyMs = Date.now() - startedAt;
+    await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts: { increment: 1 },
+        responseStatus,
+        responseBody,
+        latencyMs,
+        error,
+        lastAttemptAt: new Date(),
+        ...(error
+          ? { status: finalAttempt ? 'dead' : 'retrying' }
+          : { status: 'delivered', deliveredAt: new Date() }),
+      },
+    });
+
+    if (error) {
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} to ${delivery.endpoint.url} failed: ${error}`,
+      );
+      throw new Error(`Webhook delivery failed: ${error}`);
+    }
+  }
+
+  // ========================================================================
+  // LOG & REPLAY
+  // ========================================================================
+
+  async list(businessId: string, query: WebhookDeliveryQueryDto) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      businessId,
+      ...(query.endpointId && { endpointId: query.endpointId }),
+      ...(query.status && { status: query.status }),
+      ...(query.eventType && { eventType: query.eventType }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        select: LOG_SELECT,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return { data, pagination: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+  }
+
+  async findOne(businessId: string, id: string): Promise<WebhookDelivery> {
+    const delivery = await this.prisma.webhookDelivery.findFirst({ where: { id, businessId } });
+    if (!delivery) {
+      throw new AppError(
+        ErrorCode.WEBHOOK_DELIVERY_NOT_FOUND,
+        'Webhook delivery not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return delivery;
+  }
+
+  /** Re-queues a dead delivery with the same payload and signature scheme */
+  async replay(businessId: string, id: string): Promise<WebhookDelivery> {
+    const delivery = await this.findOne(businessId, id);
+    if (delivery.status !== 'dead') {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, 'Only dead deliveries can be replayed');
+    }
+
+    await this.requeue(delivery);
+    return this.findOne(businessId, id);
+  }
+
+  /** Re-queues the dead letters of the business, or of one endpoint */
+  async replayDead(businessId: string, endpointId?: string): Promise<{ replayed: number }> {
+    const dead = await this.prisma.webhookDelivery.findMany({
+      where: { businessId, status: 'dead', ...(endpointId && { endpointId }) },
+      orderBy: { createdAt: 'asc' },
+      take: REPLAY_BATCH_LIMIT,
+    });
+    for (const delivery of dead) {
+      await this.requeue(delivery);
+    }
+    return { replayed: dead.length };
+  }
+
+  private async requeue(delivery: WebhookDelivery): Promise<void> {
+    const queued = await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'pending', error: null },
+    });
+    // The dead job still holds the original id until BullMQ prunes it
+    await this.addJob(queued, `${delivery.id}-${delivery.attempts}`);
+  }
+}
@@ -0,0 +1,128 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type { WebhookEndpoint } from '@prisma/client';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { CredentialCipherService } from '../../infrastructure/security/credential-cipher.service';
+import { AppError } from '../../shared/errors/app-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+import type {
+  CreateWebhookEndpointDto,
+  UpdateWebhookEndpointDto,
+} from '../../application/dtos/webhook.dto';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { generateWebhookSecret, resolvePublicAddress } from './webhook.util';
+
+const TEST_EVENT_TYPE = 'webhook.test';
+
+/** What the owner sees of an endpoint; the secret only on create and rotation */
+function toSummary(endpoint: WebhookEndpoint) {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    events: endpoint.events,
+    isActive: endpoint.isActive,
+    secretHint: `…${endpoint.secretHint}`,
+    createdAt: endpoint.createdAt,
+    updatedAt: endpoint.updatedAt,
+  };
+}
+
+@Injectable()
+export class WebhookEndpointsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deliveries: WebhookDeliveriesService,
+    private readonly cipher: CredentialCipherService,
+  ) {}
+
+  async list(businessId: string) {
+    const endpoints = await this.prisma.webhookEndpoint.findMany({
+      where: { businessId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return endpoints.map(toSummary);
+  }
+
+  async findOne(businessId: string, id: string) {
+    return toSummary(await this.findOwned(businessId, id));
+  }
+
+  async create(businessId: string, employeeId: string, dto: CreateWebhookEndpointDto) {
+    await resolvePublicAddress(dto.url);
+    const secret = generateWebhookSecret();
+    const created = await this.prisma.webhookEndpoint.create({
+      data: {
+        businessId,
+        url: dto.url,
+        description: dto.description ?? null,
+        events: [...new Set(dto.events)],
+        ...this.sealSecret(secret),
+        createdBy: employeeId,
+      },
+    });
+    return { ...toSummary(created), secret };
+  }
+
+  async update(businessId: string, id: string, dto: UpdateWebhookEndpointDto) {
+    const existing = await this.findOwned(businessId, id);
+    if (dto.url) await resolvePublicAddress(dto.url);
+    const updated = await this.prisma.webhookEndpoint.update({
+      where: { id: existing.id },
+      data: {
+        url: dto.url,
+        description: dto.description,
+        events: dto.events ? [...new Set(dto.events)] : undefined,
+        isActive: dto.isActive,
+      },
+    });
+    return toSummary(updated);
+  }
+
+  /** Deletes the endpoint together with its delivery log */
+  async remove(businessId: string, id: string) {
+    const existing = await this.findOwned(businessId, id);
+    await this.prisma.webhookEndpoint.delete({ where: { id: existing.id } });
+    return { message: 'Webhook endpoint deleted' };
+  }
+
+  /** Replaces the signing secret; deliveries still queued are signed with the new one */
+  async rotateSecret(businessId: string, id: string) {
+    const existing = await this.findOwned(businessId, id);
+    const secret = generateWebhookSecret();
+    const updated = await this.prisma.webhookEndpoint.update({
+      where: { id: existing.id },
+      data: this.sealSecret(secret),
+    });
+    return { ...toSummary(updated), secret };
+  }
+
+  /** Queues a webhook.test delivery so the receiver can check its signature handling */
+  async sendTest(businessId: string, id: string) {
+    const endpoint = await this.findOwned(businessId, id);
+    return this.deliveries.enqueue(endpoint, {
+      id: randomUUID(),
+      type: TEST_EVENT_TYPE,
+      createdAt: new Date().toISOString(),
+      businessId,
+      data: { endpointId: endpoint.id, message: 'Test delivery from TiloPOS' },
+    });
+  }
+
+  /** The secret is stored encrypted; only deliveries decrypt it to sign payloads */
+  private sealSecret(secret: string) {
+    return { secret: this.cipher.encrypt(secret), secretHint: secret.slice(-4) };
+  }
+
+  private async findOwned(businessId: string, id: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.prisma.webhookEndpoint.findFirst({ where: { id, businessId } });
+    if (!endpoint) {
+      throw new AppError(
+        ErrorCode.WEBHOOK_ENDPOINT_NOT_FOUND,
+        'Webhook endpoint not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return endpoint;
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { merge } from 'rxjs';
+import { EventBusService } from '../../infrastructure/events/event-bus.service';
+import { PrismaService } from '../../infrastructure/database/prisma.service';
+import { DomainEvent } from '../../domain/events/domain-event';
+import { TransactionCreatedEvent } from '../../domain/events/transaction-created.event';
+import { TransactionVoidedEvent } from '../../domain/events/transaction-voided.event';
+import { OrderStatusChangedEvent } from '../../domain/events/order-status-changed.event';
+import { StockLevelChangedEvent } from '../../domain/events/stock-level-changed.event';
+import { PaymentReceivedEvent } from '../../domain/events/payment-received.event';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+
+/**
+ * Forwards domain events to the webhook endpoints of the business they
+ * belong to. Only events raised in this process are forwarded: events the
+ * EventBridgeService re-emits from RabbitMQ are reconstructions, not these
+ * classes, so a clustered deployment does not deliver them twice.
+ */
+@Injectable()
+export class WebhookEventListener implements OnModuleInit {
+  private readonly logger = new Logger(WebhookEventListener.name);
+
+  constructor(
+    private readonly eventBus: EventBusService,
+    private readonly prisma: PrismaService,
+    private readonly deliveries: WebhookDeliveriesService,
+  ) {}
+
+  onModuleInit() {
+    merge(
+      this.eventBus.ofType(TransactionCreatedEvent),
+      this.eventBus.ofType(TransactionVoidedEvent),
+      this.eventBus.ofType(OrderStatusChangedEvent),
+      this.eventBus.ofType(StockLevelChangedEvent),
+    ).subscribe((event) => {
+      void this.forward(event, event.outletId);
+    });
+
+    this.eventBus.ofType(PaymentReceivedEvent).subscribe((event) => {
+      void this.forward(event, event.outletId, event.businessId);
+    });
+  }
+
+  private async forward(event: DomainEvent, outletId: string, businessId?: string): Promise<void> {
+    try {
+      const ownerId = businessId ?? (await this.businessOf(outletId));
+      if (!ownerId) return;
+
+      await this.deliveries.dispatch(
+        ownerId,
+        event.eventName,
+        this.serialize(event),
+        event.occurredOn,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch webhooks for "${event.eventName}": ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async businessOf(outletId: string): Promise<string | null> {
+    const outlet = await this.prisma.outlet.findUnique({
+      where: { id: outletId },
+      select: { businessId: true },
+    });
+    return outlet?.businessId ?? null;
+  }
+
+  private serialize(event: DomainEvent): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(event)) {
+      if (key === 'occurredOn') continue;
+      data[key] = value instanceof Date ? value.toISOString() : value;
+    }
+    return data;
+  }
+}
@@ -0,0 +1,92 @@
+import { createHmac, randomBytes } from 'crypto';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ErrorCode } from '../../shared/constants/error-codes';
+
+/** Domain events a business can subscribe an endpoint to, by DomainEvent.eventName */
+export const WEBHOOK_EVENT_TYPES = [
+  'transaction.created',
+  'transaction.voided',
+  'order.status_changed',
+  'stock.level_changed',
+  'payment.received',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Tilo-Signature';
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString('hex')}`;
+
+/**
+ * Signature header value for a payload, Stripe style: `t=<unix seconds>,v1=<hex>`
+ * where v1 is HMAC-SHA256 over `<t>.<raw body>` with the endpoint secret. The
+ * timestamp lets receivers reject replayed requests.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Loopback, private networks, link-local (where cloud metadata lives), CGNAT,
+// multicast and other reserved ranges. IPv4-mapped IPv6 addresses match the
+// IPv4 rules.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolves the host of a webhook URL to the address to deliver to. Every
+ * address the name resolves to has to be public, so an endpoint cannot reach
+ * the server's own network. Requests connect to the returned address, so a
+ * name that resolves differently the next time is not followed.
+ */
+export async function resolvePublicAddress(url: string): Promise<LookupAddress> {
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: LookupAddress[];
+  if (isIP(host)) {
+    addresses = [{ address: host, family: isIP(host) }];
+  } else {
+    try {
+      addresses = await lookup(host, { all: true, verbatim: true });
+    } catch {
+      throw new BusinessError(ErrorCode.VALIDATION_ERROR, `${host} could not be resolved`);
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+    throw new BusinessError(
+      ErrorCode.VALIDATION_ERROR,
+      `${host} does not resolve to a public address`,
+    );
+  }
+  return addresses[0];
+}
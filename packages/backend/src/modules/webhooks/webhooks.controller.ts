@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '../../infrastructure/auth/permissions.guard';
+import { RequirePermission } from '../../infrastructure/auth/require-permission.decorator';
+import { CurrentUser } from '../../infrastructure/auth/current-user.decorator';
+import type { AuthUser } from '../../infrastructure/auth/auth-user.interface';
+import { FeatureGuard, RequireFeature } from '../../common/guards/feature.guard';
+import {
+  CreateWebhookEndpointDto,
+  ReplayWebhookDeliveriesDto,
+  UpdateWebhookEndpointDto,
+  WebhookDeliveryQueryDto,
+} from '../../application/dtos/webhook.dto';
+import { WebhookEndpointsService } from './webhook-endpoints.service';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { WEBHOOK_EVENT_TYPES } from './webhook.util';
+
+@ApiTags('Webhooks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard, FeatureGuard)
+@RequirePermission('integrations.webhooks')
+@RequireFeature('api_integration')
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(
+    private readonly endpointsService: WebhookEndpointsService,
+    private readonly deliveriesService: WebhookDeliveriesService,
+  ) {}
+
+  @Get('events')
+  @ApiOperation({ summary: 'Event types an endpoint can subscribe to' })
+  events() {
+    return { events: WEBHOOK_EVENT_TYPES };
+  }
+
+  // ==================== Endpoints ====================
+
+  @Get('endpoints')
+  @ApiOperation({ summary: 'Webhook endpoints of the business' })
+  async listEndpoints(@CurrentUser() user: AuthUser) {
+    return this.endpointsService.list(user.businessId);
+  }
+
+  @Get('endpoints/:id')
+  @ApiOperation({ summary: 'A webhook endpoint' })
+  async getEndpoint(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.endpointsService.findOne(user.businessId, id);
+  }
+
+  @Post('endpoints')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Register an https endpoint; the signing secret is only shown here' })
+  async createEndpoint(@Body() dto: CreateWebhookEndpointDto, @CurrentUser() user: AuthUser) {
+    return this.endpointsService.create(user.businessId, user.employeeId, dto);
+  }
+
+  @Patch('endpoints/:id')
+  @ApiOperation({ summary: 'Change the URL or events of an endpoint, or pause it' })
+  async updateEndpoint(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateWebhookEndpointDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.endpointsService.update(user.businessId, id, dto);
+  }
+
+  @Delete('endpoints/:id')
+  @ApiOperation({ summary: 'Delete an endpoint and its delivery log' })
+  async removeEndpoint(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.endpointsService.remove(user.businessId, id);
+  }
+
+  @Post('endpoints/:id/rotate-secret')
+  @ApiOperation({ summary: 'Replace the signing secret of an endpoint' })
+  async rotateSecret(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.endpointsService.rotateSecret(user.businessId, id);
+  }
+
+  @Post('endpoints/:id/test')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Queue a webhook.test delivery to an endpoint' })
+  async sendTest(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.endpointsService.sendTest(user.businessId, id);
+  }
+
+  @Get('endpoints/:id/deliveries')
+  @ApiOperation({ summary: 'Delivery log of an endpoint with response codes and latency' })
+  async endpointDeliveries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: WebhookDeliveryQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.endpointsService.findOne(user.businessId, id);
+    return this.deliveriesService.list(user.businessId, { ...query, endpointId: id });
+  }
+
+  // ==================== Deliveries ====================
+
+  @Get('deliveries')
+  @ApiOperation({ summary: 'Deliveries of the business; status=dead lists the dead letters' })
+  async listDeliveries(@Query() query: WebhookDeliveryQueryDto, @CurrentUser() user: AuthUser) {
+    return this.deliveriesService.list(user.businessId, query);
+  }
+
+  @Get('deliveries/:id')
+  @ApiOperation({ summary: 'A delivery with its payload and the last response' })
+  async getDelivery(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.deliveriesService.findOne(user.businessId, id);
+  }
+
+  @Post('deliveries/replay')
+  @ApiOperation({ summary: 'Replay the dead letters, optionally of one endpoint' })
+  async replayDead(@Body() dto: ReplayWebhookDeliveriesDto, @CurrentUser() user: AuthUser) {
+    return this.deliveriesService.replayDead(user.businessId, dto.endpointId);
+  }
+
+  @Post('deliveries/:id/replay')
+  @ApiOperation({ summary: 'Replay a dead delivery' })
+  async replay(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.deliveriesService.replay(user.businessId, id);
+  }
+}
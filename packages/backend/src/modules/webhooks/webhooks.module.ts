@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { BusinessModule } from '../business/business.module';
+import { WebhookProcessor } from '../../infrastructure/queues/processors/webhook.processor';
+import { CredentialCipherService } from '../../infrastructure/security/credential-cipher.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookEndpointsService } from './webhook-endpoints.service';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { WebhookEventListener } from './webhook-event.listener';
+
+@Module({
+  imports: [ConfigModule, BusinessModule],
+  controllers: [WebhooksController],
+  providers: [
+    WebhookEndpointsService,
+    WebhookDeliveriesService,
+    WebhookEventListener,
+    WebhookProcessor,
+    // Encrypts endpoint signing secrets
+    CredentialCipherService,
+  ],
+  exports: [WebhookDeliveriesService],
+})
+export class WebhooksModule {}
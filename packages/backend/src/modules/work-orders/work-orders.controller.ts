@@ -1,16 +1,22 @@
 import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
 import { JwtAuthGuard } from '@infrastructure/auth/jwt-auth.guard';
+import { PermissionsGuard } from '@infrastructure/auth/permissions.guard';
+import {
+  RequirePermission,
+  WithoutPermission,
+} from '@infrastructure/auth/require-permission.decorator';
 import { CurrentUser } from '@infrastructure/auth/current-user.decorator';
 import type { AuthUser } from '@infrastructure/auth/auth-user.interface';
 import { WorkOrdersService } from './work-orders.service';
 import type { WorkOrderStatus } from '@prisma/client';
 
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Controller('work-orders')
 export class WorkOrdersController {
   constructor(private readonly workOrdersService: WorkOrdersService) {}
 
   @Get('outlet/:outletId')
+  @WithoutPermission()
   async list(
     @Param('outletId') outletId: string,
     @Query('status') status?: WorkOrderStatus,
@@ -21,11 +27,13 @@ export class WorkOrdersController {
   }
 
   @Get(':id')
+  @WithoutPermission()
   async findById(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     return this.workOrdersService.findById(id, user.businessId);
   }
 
   @Post()
+  @RequirePermission('work_orders.manage')
   async create(
     @Body()
     body: {
@@ -58,6 +66,7 @@ export class WorkOrdersController {
   }
 
   @Put(':id')
+  @RequirePermission('work_orders.manage')
   async update(
     @Param('id') id: string,
     @Body()
@@ -85,6 +94,7 @@ export class WorkOrdersController {
   }
 
   @Put(':id/status')
+  @RequirePermission('work_orders.manage')
   async updateStatus(
     @Param('id') id: string,
     @Body() body: { status: WorkOrderStatus },
@@ -94,6 +104,7 @@ export class WorkOrdersController {
   }
 
   @Post(':id/items')
+  @RequirePermission('work_orders.manage')
   async addItem(
     @Param('id') id: string,
     @Body()
@@ -109,11 +120,13 @@ export class WorkOrdersController {
   }
 
   @Delete('items/:itemId')
+  @RequirePermission('work_orders.manage')
   async removeItem(@Param('itemId') itemId: string, @CurrentUser() user: AuthUser) {
     return this.workOrdersService.removeItem(itemId, user.businessId);
   }
 
   @Get(':id/total')
+  @WithoutPermission()
   async calculateTotal(@Param('id') id: string) {
     return this.workOrdersService.calculateTotal(id);
   }
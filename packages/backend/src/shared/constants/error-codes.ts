@@ -41,4 +41,33 @@ export enum ErrorCode {
   CREDIT_SALE_NOT_FOUND = 'CREDIT_SALE_NOT_FOUND',
   CREDIT_ALREADY_SETTLED = 'CREDIT_ALREADY_SETTLED',
   CREDIT_PAYMENT_EXCEEDS_OUTSTANDING = 'CREDIT_PAYMENT_EXCEEDS_OUTSTANDING',
+  MARKETPLACE_NOT_CONNECTED = 'MARKETPLACE_NOT_CONNECTED',
+  MARKETPLACE_REQUEST_FAILED = 'MARKETPLACE_REQUEST_FAILED',
+  GIFT_CARD_NOT_FOUND = 'GIFT_CARD_NOT_FOUND',
+  GIFT_CARD_INACTIVE = 'GIFT_CARD_INACTIVE',
+  WALLET_NOT_FOUND = 'WALLET_NOT_FOUND',
+  INSUFFICIENT_STORED_VALUE = 'INSUFFICIENT_STORED_VALUE',
+  TAX_INVOICE_NOT_FOUND = 'TAX_INVOICE_NOT_FOUND',
+  FAKTUR_NUMBERS_EXHAUSTED = 'FAKTUR_NUMBERS_EXHAUSTED',
+  RESERVATION_NOT_FOUND = 'RESERVATION_NOT_FOUND',
+  NO_TABLE_AVAILABLE = 'NO_TABLE_AVAILABLE',
+  RESERVATION_DEPOSIT_UNAVAILABLE = 'RESERVATION_DEPOSIT_UNAVAILABLE',
+  NUMBER_BLOCK_NOT_FOUND = 'NUMBER_BLOCK_NOT_FOUND',
+  ROLE_NOT_FOUND = 'ROLE_NOT_FOUND',
+  APPROVAL_REQUIRED = 'APPROVAL_REQUIRED',
+  APPROVAL_INVALID = 'APPROVAL_INVALID',
+  AUDIT_CHAIN_BROKEN = 'AUDIT_CHAIN_BROKEN',
+  BANK_DEPOSIT_NOT_FOUND = 'BANK_DEPOSIT_NOT_FOUND',
+  CASH_DRAWER_NOT_FOUND = 'CASH_DRAWER_NOT_FOUND',
+  CUSTOMER_DISPLAY_PAIRING_INVALID = 'CUSTOMER_DISPLAY_PAIRING_INVALID',
+  KIOSK_SESSION_NOT_FOUND = 'KIOSK_SESSION_NOT_FOUND',
+  API_KEY_NOT_FOUND = 'API_KEY_NOT_FOUND',
+  WEBHOOK_ENDPOINT_NOT_FOUND = 'WEBHOOK_ENDPOINT_NOT_FOUND',
+  WEBHOOK_DELIVERY_NOT_FOUND = 'WEBHOOK_DELIVERY_NOT_FOUND',
+  WAREHOUSE_ZONE_NOT_FOUND = 'WAREHOUSE_ZONE_NOT_FOUND',
+  WAREHOUSE_BIN_NOT_FOUND = 'WAREHOUSE_BIN_NOT_FOUND',
+  WAREHOUSE_NOT_SELLING = 'WAREHOUSE_NOT_SELLING',
+  PLAN_LIMIT_REACHED = 'PLAN_LIMIT_REACHED',
+  SUBSCRIPTION_READ_ONLY = 'SUBSCRIPTION_READ_ONLY',
+  CAMPAIGN_NOT_FOUND = 'CAMPAIGN_NOT_FOUND',
 }
@@ -3,3 +3,4 @@ export * from './order-status';
 export * from './transaction-status';
 export * from './error-codes';
 export * from './roles';
+export * from './permissions';
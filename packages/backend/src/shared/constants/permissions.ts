@@ -0,0 +1,626 @@
+import { EmployeeRole } from './roles';
+
+const { MANAGER, SUPERVISOR, CASHIER, KITCHEN, INVENTORY } = EmployeeRole;
+
+/**
+ * Permission catalog
+ *
+ * Every permission a controller can require, grouped for the permissions
+ * matrix. `defaultRoles` is what the built-in roles get until a business
+ * customises them; owner and super admin always hold every permission.
+ */
+export const PERMISSION_CATALOG = [
+  // POS
+  {
+    key: 'pos.sale',
+    group: 'pos',
+    description: 'Ring up sales, hold and resume bills',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'pos.transactions.view',
+    group: 'pos',
+    description: 'View and reprint transactions',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'pos.cash_drawer',
+    group: 'pos',
+    description: 'Record cash in, cash out, safe drops and pickups; hand off a drawer',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'pos.refund',
+    group: 'pos',
+    description: 'Refund, or approve refunds, without a supervisor',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'pos.void',
+    group: 'pos',
+    description: 'Void, or approve voids, without a supervisor',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'pos.discount.above_20pct',
+    group: 'pos',
+    description: 'Give, or approve, discounts above 20% of the bill',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'pos.price_override',
+    group: 'pos',
+    description: 'Sell, or approve selling, below catalog price',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'pos.cash_drawer.no_sale',
+    group: 'pos',
+    description: 'Open, or approve opening, the drawer without a sale',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'pos.offline_sync',
+    group: 'pos',
+    description: 'Sync an offline POS device',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'pos.credit',
+    group: 'pos',
+    description: 'Sell on credit and take credit payments',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'kiosk.checkout',
+    group: 'pos',
+    description: 'Run a self-checkout kiosk; give this to the kiosk login only',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'kiosk.assist',
+    group: 'pos',
+    description: 'Approve age-restricted and weighed items at a self-checkout kiosk',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'online_orders.handle',
+    group: 'pos',
+    description: 'Accept, reject and update food delivery orders',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'orders.manage',
+    group: 'pos',
+    description: 'Create, modify, prioritise and cancel orders',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'orders.status',
+    group: 'pos',
+    description: 'Move orders through the kitchen statuses',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER, KITCHEN],
+  },
+  {
+    key: 'tables.serve',
+    group: 'pos',
+    description: 'Change table status, split and merge bills, run the waiting list',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'appointments.manage',
+    group: 'pos',
+    description: 'Book, reschedule and cancel appointments',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'work_orders.manage',
+    group: 'pos',
+    description: 'Open, update and close work orders',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'item_tracking.manage',
+    group: 'pos',
+    description: 'Receive, update and hand back customer items left for service',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'serial_numbers.manage',
+    group: 'pos',
+    description: 'Register serial numbers and record sales, returns and warranty claims',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER, INVENTORY],
+  },
+
+  // Documents and printing
+  {
+    key: 'receipts.print',
+    group: 'documents',
+    description: 'Render receipts for printing',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'kitchen_tickets.print',
+    group: 'documents',
+    description: 'Render kitchen tickets for printing',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER, KITCHEN],
+  },
+  {
+    key: 'print_templates.view',
+    group: 'documents',
+    description: 'View print templates',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'print_templates.manage',
+    group: 'documents',
+    description: 'Edit print templates',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'numbering.blocks.reserve',
+    group: 'documents',
+    description: 'Reserve and release offline number blocks',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'numbering.view',
+    group: 'documents',
+    description: 'View numbering series and blocks',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'numbering.integrity.view',
+    group: 'documents',
+    description: 'View the sequence integrity report',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'numbering.manage',
+    group: 'documents',
+    description: 'Change numbering series',
+    defaultRoles: [],
+  },
+  {
+    key: 'tax_invoices.issue',
+    group: 'documents',
+    description: 'View and issue tax invoices',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'tax_invoices.manage',
+    group: 'documents',
+    description: 'Replace and cancel tax invoices, view NSFP ranges',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'tax_invoices.ranges',
+    group: 'documents',
+    description: 'Register and deactivate NSFP ranges',
+    defaultRoles: [],
+  },
+
+  // Stored value
+  {
+    key: 'stored_value.sell',
+    group: 'stored_value',
+    description: 'Issue and top up gift cards and wallets',
+    defaultRoles: [CASHIER, SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'stored_value.view',
+    group: 'stored_value',
+    description: 'View gift cards and wallet history',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'stored_value.manage',
+    group: 'stored_value',
+    description: 'Void gift cards, view liability and settings',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'stored_value.settings',
+    group: 'stored_value',
+    description: 'Change gift card settings',
+    defaultRoles: [],
+  },
+
+  // Customers and marketing
+  {
+    key: 'customers.insights.view',
+    group: 'customers',
+    description: 'View customer segments and birthdays',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'customers.import_export',
+    group: 'customers',
+    description: 'Import and export customers',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'customers.notify',
+    group: 'customers',
+    description: 'Send birthday notifications',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'customers.delete',
+    group: 'customers',
+    description: 'Delete customers',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'loyalty.manage',
+    group: 'customers',
+    description: 'Adjust points and evaluate loyalty tiers',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'promotions.manage',
+    group: 'customers',
+    description: 'Manage promotions and vouchers',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'marketing.campaigns',
+    group: 'customers',
+    description: 'Run marketing campaigns and manage opt-outs',
+    defaultRoles: [MANAGER],
+  },
+
+  // Catalog and inventory
+  {
+    key: 'products.manage',
+    group: 'inventory',
+    description: 'Create, edit, import and export products',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'products.delete',
+    group: 'inventory',
+    description: 'Delete products and variants',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'products.assign_outlets',
+    group: 'inventory',
+    description: 'Assign products to outlets',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'categories.manage',
+    group: 'inventory',
+    description: 'Manage categories',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'ingredients.manage',
+    group: 'inventory',
+    description: 'Create, edit and import ingredients',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'ingredients.delete',
+    group: 'inventory',
+    description: 'Delete ingredients',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'recipes.manage',
+    group: 'inventory',
+    description: 'Manage recipes',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'inventory.adjust',
+    group: 'inventory',
+    description: 'Adjust stock and review discrepancies',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'inventory.transfer',
+    group: 'inventory',
+    description: 'Request, ship and receive stock transfers',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'inventory.transfer.manage',
+    group: 'inventory',
+    description: 'Approve transfers and delete transfer templates',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'inventory.warehouses',
+    group: 'inventory',
+    description: 'Set up warehouse locations, zones and bins',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'suppliers.manage',
+    group: 'inventory',
+    description: 'Create and edit suppliers',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'suppliers.delete',
+    group: 'inventory',
+    description: 'Delete suppliers',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'suppliers.analytics.view',
+    group: 'inventory',
+    description: 'View supplier analytics',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'purchasing.orders',
+    group: 'inventory',
+    description: 'Create and receive purchase orders',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'purchasing.approve',
+    group: 'inventory',
+    description: 'Approve and reject purchase orders',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'purchasing.payables',
+    group: 'inventory',
+    description: 'Supplier invoices, payments and AP aging',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'purchasing.settings',
+    group: 'inventory',
+    description: 'Change the invoice match tolerance',
+    defaultRoles: [],
+  },
+  {
+    key: 'price_tiers.manage',
+    group: 'inventory',
+    description: 'Set quantity price tiers',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'unit_conversions.manage',
+    group: 'inventory',
+    description: 'Set product unit conversions',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'inventory.batches',
+    group: 'inventory',
+    description: 'Record batch lots and deduct them first-expiry-first',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'uploads.images',
+    group: 'inventory',
+    description: 'Upload product and store images',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+
+  // Reports
+  {
+    key: 'reports.sales.view',
+    group: 'reports',
+    description: 'Sales, product, promotion, dashboard and custom reports',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'reports.financial.view',
+    group: 'reports',
+    description: 'Financial, payment and invoice reports',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'reports.inventory.view',
+    group: 'reports',
+    description: 'Inventory reports',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'reports.staff.view',
+    group: 'reports',
+    description: 'Staff and employee reports',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'reports.customers.view',
+    group: 'reports',
+    description: 'Customer reports',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'reports.operations.view',
+    group: 'reports',
+    description: 'Table, kitchen and appointment reports',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'reports.credit.view',
+    group: 'reports',
+    description: 'Outstanding credit report',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'reports.runs.manage',
+    group: 'reports',
+    description: 'View and retry scheduled report runs',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'owner.financial.view',
+    group: 'reports',
+    description: 'Financial command center',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'owner.staff_performance.view',
+    group: 'reports',
+    description: 'Staff performance dashboard',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'owner.analytics.view',
+    group: 'reports',
+    description: 'Owner analytics across outlets',
+    defaultRoles: [],
+  },
+
+  // Administration
+  {
+    key: 'employees.manage',
+    group: 'administration',
+    description: 'Manage employees',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'employees.schedule.manage',
+    group: 'administration',
+    description: 'Manage employee schedules',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'employees.reports.view',
+    group: 'administration',
+    description: 'Shift, commission and attendance summaries',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'roles.manage',
+    group: 'administration',
+    description: 'Edit roles and assign them to employees',
+    defaultRoles: [],
+  },
+  {
+    key: 'audit.view',
+    group: 'administration',
+    description: 'View, verify and export the audit log',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'audit.manage',
+    group: 'administration',
+    description: 'Audit log retention and checkpoints',
+    defaultRoles: [],
+  },
+  {
+    key: 'cash.manage',
+    group: 'administration',
+    description: 'Cash drawers, X/Z reports, over/short ledger, bank deposits and settings',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'settings.manage',
+    group: 'administration',
+    description: 'Business and outlet settings',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'tables.manage',
+    group: 'administration',
+    description: 'Add, edit and remove tables',
+    defaultRoles: [SUPERVISOR, MANAGER],
+  },
+  {
+    key: 'settlements.manage',
+    group: 'administration',
+    description: 'Payment settlements',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'kds.settings',
+    group: 'administration',
+    description: 'Kitchen display timer settings',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'customer_display.settings',
+    group: 'administration',
+    description: 'Customer display idle images, timings and QRIS',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'scales.settings',
+    group: 'administration',
+    description: 'Weighing scale barcode layouts',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'reservations.settings',
+    group: 'administration',
+    description: 'Reservation settings',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'online_store.manage',
+    group: 'administration',
+    description: 'Online store catalog, analytics and settings',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'online_store.inventory.view',
+    group: 'administration',
+    description: 'Online store inventory',
+    defaultRoles: [MANAGER, INVENTORY],
+  },
+  {
+    key: 'integrations.food_delivery',
+    group: 'administration',
+    description: 'Food delivery status and menu sync',
+    defaultRoles: [MANAGER],
+  },
+  {
+    key: 'integrations.connect',
+    group: 'administration',
+    description: 'Connect and disconnect food delivery platforms',
+    defaultRoles: [],
+  },
+  {
+    key: 'integrations.api_keys',
+    group: 'administration',
+    description: 'Issue, rotate and revoke API keys for partners',
+    defaultRoles: [],
+  },
+  {
+    key: 'integrations.webhooks',
+    group: 'administration',
+    description: 'Manage webhook endpoints and replay failed deliveries',
+    defaultRoles: [],
+  },
+  {
+    key: 'devices.versions.publish',
+    group: 'administration',
+    description: 'Publish app versions to devices',
+    defaultRoles: [],
+  },
+] as const satisfies ReadonlyArray<{
+  key: string;
+  group: string;
+  description: string;
+  defaultRoles: readonly EmployeeRole[];
+}>;
+
+export type Permission = (typeof PERMISSION_CATALOG)[number]['key'];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_CATALOG.map((p) => p.key);
+
+/** Roles that hold every permission and cannot be customised */
+export const UNRESTRICTED_ROLES: readonly string[] = [EmployeeRole.SUPER_ADMIN, EmployeeRole.OWNER];
+
+export function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+/** Permissions a built-in role has before the business customises it */
+export function defaultPermissionsFor(role: string): Permission[] {
+  if (UNRESTRICTED_ROLES.includes(role)) return [...ALL_PERMISSIONS];
+  return PERMISSION_CATALOG.filter((p) => (p.defaultRoles as readonly string[]).includes(role)).map(
+    (p) => p.key,
+  );
+}
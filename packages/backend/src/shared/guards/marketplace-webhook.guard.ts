@@ -0,0 +1,80 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+import {
+  MARKETPLACE_PLATFORMS,
+  MarketplacePlatform,
+  MarketplaceService,
+} from '../../infrastructure/services/marketplace';
+
+/**
+ * MarketplaceWebhookGuard - Authenticates food delivery platform webhooks
+ *
+ * Each platform signs the raw request body with HMAC-SHA256 using the
+ * webhook secret configured for it (GOFOOD_WEBHOOK_SECRET,
+ * GRABFOOD_WEBHOOK_SECRET, SHOPEEFOOD_WEBHOOK_SECRET) and sends the hex
+ * digest in its own header. Fails closed when the secret is missing.
+ *
+ * Usage:
+ * ```ts
+ * @Post('webhooks/food-delivery/:platform')
+ * @UseGuards(MarketplaceWebhookGuard)
+ * ```
+ */
+@Injectable()
+export class MarketplaceWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(MarketplaceWebhookGuard.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly marketplaceService: MarketplaceService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request & { rawBody?: Buffer }>();
+    const platform = request.params?.platform as MarketplacePlatform;
+
+    if (!MARKETPLACE_PLATFORMS.includes(platform)) {
+      this.logger.error(`Unknown marketplace webhook platform: ${platform}`);
+      throw new UnauthorizedException('Invalid webhook endpoint');
+    }
+
+    const header = this.marketplaceService.getWebhookSignatureHeader(platform);
+    const signature = request.headers[header];
+    if (typeof signature !== 'string' || !signature) {
+      this.logger.error(`${platform} webhook missing ${header} header`);
+      throw new UnauthorizedException('Missing signature');
+    }
+
+    const secretKey = `${platform.toUpperCase()}_WEBHOOK_SECRET`;
+    const secret = this.configService.get<string>(secretKey);
+    if (!secret) {
+      this.logger.error(`${secretKey} not configured`);
+      throw new UnauthorizedException('Webhook verification not configured');
+    }
+
+    // Prefer the exact bytes the platform signed; re-serializing may reorder keys
+    const body = request.rawBody ?? Buffer.from(JSON.stringify(request.body ?? {}));
+    const expected = createHmac('sha256', secret).update(body).digest('hex');
+
+    if (!this.safeEqual(signature.toLowerCase(), expected)) {
+      this.logger.error(`Invalid ${platform} webhook signature`);
+      throw new UnauthorizedException('Invalid signature');
+    }
+
+    return true;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Fake Marketplace Server
+ *
+ * In-memory stand-in for the GoFood, GrabFood and ShopeeFood partner APIs,
+ * speaking each platform's wire format as consumed by the gateways in
+ * src/infrastructure/services/marketplace. Used by unit tests and for
+ * exercising the integration routes offline:
+ *
+ *   npm run marketplace:fake
+ *   GOFOOD_API_URL=http://localhost:4010/gofood
+ *   GRABFOOD_API_URL=http://localhost:4010/grabfood
+ *   SHOPEEFOOD_API_URL=http://localhost:4010/shopeefood
+ *
+ * Any key/secret pair is accepted except the secret `invalid`.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+
+export type FakePlatform = 'gofood' | 'grabfood' | 'shopeefood';
+
+export interface FakePlatformState {
+  tokens: Set<string>;
+  menu: Array<Record<string, unknown>>;
+  orders: Map<string, Record<string, unknown>>;
+  requests: Array<{ method: string; path: string; body: Record<string, unknown> }>;
+}
+
+export interface FakeMarketplaceServer {
+  baseUrl: string;
+  state: Record<FakePlatform, FakePlatformState>;
+  close(): Promise<void>;
+}
+
+type Json = Record<string, unknown>;
+type Reply = { status: number; body: Json };
+
+const TOKEN_TTL_SECONDS = 3600;
+const REJECTED_SECRET = 'invalid';
+
+function createState(): Record<FakePlatform, FakePlatformState> {
+  const empty = (): FakePlatformState => ({
+    tokens: new Set(),
+    menu: [],
+    orders: new Map(),
+    requests: [],
+  });
+  const state = { gofood: empty(), grabfood: empty(), shopeefood: empty() };
+  const now = new Date();
+
+  state.gofood.orders.set('GF-1001', {
+    id: 'GF-1001',
+    status: 'NEW',
+    customer_name: 'Budi Santoso',
+    customer_phone: '081200000001',
+    delivery_address: 'Jl. Sudirman No. 1, Jakarta',
+    notes: 'Tanpa sambal',
+    items: [{ id: 'menu-1', name: 'Nasi Goreng', quantity: 2, price: 25000, subtotal: 50000 }],
+    subtotal: 50000,
+    delivery_fee: 10000,
+    discount: 0,
+    total: 60000,
+    payment_method: 'GOPAY',
+    created_at: now.toISOString(),
+  });
+
+  state.grabfood.orders.set('GRB-2001', {
+    orderID: 'GRB-2001',
+    orderState: 'PENDING',
+    receiver: { name: 'Siti Aminah', phone: '081200000002', address: 'Jl. Thamrin No. 2' },
+    items: [{ itemID: 'menu-2', name: 'Es Teh', quantity: 3, price: 800000, subtotal: 2400000 }],
+    subtotal: 2400000,
+    deliveryFee: 900000,
+    discount: 0,
+    total: 3300000,
+    paymentMethod: 'CASHLESS',
+    createdAt: now.toISOString(),
+  });
+
+  state.shopeefood.orders.set('3001', {
+    order_id: 3001,
+    status: 1,
+    buyer_name: 'Andi Wijaya',
+    buyer_phone: '081200000003',
+    delivery_address: 'Jl. Gatot Subroto No. 3',
+    items: [{ dish_id: 'menu-3', name: 'Mie Ayam', amount: 1, price: 2000000, subtotal: 2000000 }],
+    subtotal: 2000000,
+    shipping_fee: 1200000,
+    discount: 0,
+    total_amount: 3200000,
+    create_time: Math.floor(now.getTime() / 1000),
+  });
+
+  return state;
+}
+
+function issueToken(state: FakePlatformState): string {
+  const token = `fake-${randomUUID()}`;
+  state.tokens.add(token);
+  return token;
+}
+
+function isAuthorized(req: IncomingMessage, state: FakePlatformState): boolean {
+  const header = req.headers.authorization ?? '';
+  return header.startsWith('Bearer ') && state.tokens.has(header.slice(7));
+}
+
+function handleGoFood(state: FakePlatformState, method: string, path: string, body: Json): Reply {
+  if (method === 'POST' && path === '/auth/token') {
+    if (body.grant_type === 'refresh_token' || body.client_secret !== REJECTED_SECRET) {
+      return {
+        status: 200,
+        body: {
+          access_token: issueToken(state),
+          refresh_token: randomUUID(),
+          expires_in: TOKEN_TTL_SECONDS,
+        },
+      };
+    }
+    return { status: 401, body: { message: 'Invalid client credentials' } };
+  }
+
+  if (method === 'POST' && path === '/menu/sync') {
+    state.menu = (body.items as Json[]) ?? [];
+    return { status: 200, body: { synced: state.menu.length } };
+  }
+
+  if (method === 'GET' && path === '/orders') {
+    const orders = [...state.orders.values()].filter((o) => o.status === 'NEW');
+    return { status: 200, body: { orders } };
+  }
+
+  const match = path.match(/^\/orders\/([^/]+)\/(accept|reject|status)$/);
+  if (match) {
+    const order = state.orders.get(match[1]);
+    if (!order) return { status: 404, body: { message: 'Order not found' } };
+    order.status =
+      match[2] === 'accept' ? 'ACCEPTED' : match[2] === 'reject' ? 'CANCELLED' : body.status;
+    return { status: 200, body: { id: order.id, status: order.status } };
+  }
+
+  return { status: 404, body: { message: `Unknown endpoint ${method} ${path}` } };
+}
+
+function handleGrabFood(state: FakePlatformState, method: string, path: string, body: Json): Reply {
+  if (method === 'POST' && path === '/oauth/token') {
+    if (body.client_secret === REJECTED_SECRET) {
+      return { status: 401, body: { message: 'invalid_client' } };
+    }
+    return {
+      status: 200,
+      body: { access_token: issueToken(state), expires_in: TOKEN_TTL_SECONDS },
+    };
+  }
+
+  if (method === 'PUT' && path === '/merchant/menu') {
+    const categories = (body.categories as Array<{ items?: Json[] }>) ?? [];
+    state.menu = categories.flatMap((c) => c.items ?? []);
+    return { status: 200, body: {} };
+  }
+
+  if (method === 'GET' && path === '/merchant/orders') {
+    const orders = [...state.orders.values()].filter((o) => o.orderState === 'PENDING');
+    return { status: 200, body: { orders } };
+  }
+
+  const match = path.match(/^\/merchant\/orders\/([^/]+)\/(accept|reject|status)$/);
+  if (match) {
+    const order = state.orders.get(match[1]);
+    if (!order) return { status: 404, body: { message: 'Order not found' } };
+    order.orderState =
+      match[2] === 'accept' ? 'ACCEPTED' : match[2] === 'reject' ? 'CANCELLED' : body.status;
+    return { status: 200, body: {} };
+  }
+
+  return { status: 404, body: { message: `Unknown endpoint ${method} ${path}` } };
+}
+
+function handleShopeeFood(
+  state: FakePlatformState,
+  method: string,
+  path: string,
+  body: Json,
+): Reply {
+  if (method === 'POST' && path === '/auth/access_token') {
+    if (body.partner_secret === REJECTED_SECRET) {
+      return { status: 401, body: { message: 'error_auth' } };
+    }
+    return {
+      status: 200,
+      body: { access_token: issueToken(state), expire_in: TOKEN_TTL_SECONDS },
+    };
+  }
+
+  if (method === 'POST' && path === '/dish/add_update') {
+    state.menu = state.menu.filter((d) => d.dish_id !== body.dish_id).concat(body);
+    return { status: 200, body: {} };
+  }
+
+  if (method === 'POST' && path === '/order/get_order_list') {
+    const orders = [...state.orders.values()].filter((o) => o.status === body.status);
+    return { status: 200, body: { orders } };
+  }
+
+  const match = path.match(/^\/order\/(accept|reject|update_status)$/);
+  if (match) {
+    const order = state.orders.get(String(body.order_id));
+    if (!order) return { status: 404, body: { message: 'Order not found' } };
+    order.status = match[1] === 'accept' ? 2 : match[1] === 'reject' ? 7 : body.status;
+    return { status: 200, body: {} };
+  }
+
+  return { status: 404, body: { message: `Unknown endpoint ${method} ${path}` } };
+}
+
+const HANDLERS: Record<
+  FakePlatform,
+  (state: FakePlatformState, method: string, path: string, body: Json) => Reply
+> = {
+  gofood: handleGoFood,
+  grabfood: handleGrabFood,
+  shopeefood: handleShopeeFood,
+};
+
+/** Token endpoints are the only routes callable without a bearer token */
+const PUBLIC_PATHS = new Set(['/auth/token', '/oauth/token', '/auth/access_token']);
+
+function readBody(req: IncomingMessage): Promise<Json> {
+  return new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      try {
+        resolve(raw ? (JSON.parse(raw) as Json) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+/**
+ * Starts the fake server. Pass port 0 to pick a free port (tests).
+ */
+export async function startFakeMarketplaceServer(port = 0): Promise<FakeMarketplaceServer> {
+  const state = createState();
+
+  const server: Server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const [, platform, ...rest] = url.pathname.split('/');
+    const path = `/${rest.join('/')}`;
+    const method = req.method ?? 'GET';
+    const body = await readBody(req);
+
+    let reply: Reply;
+    if (!(platform in HANDLERS)) {
+      reply = { status: 404, body: { message: `Unknown platform ${platform}` } };
+    } else {
+      const platformState = state[platform as FakePlatform];
+      platformState.requests.push({ method, path, body });
+      reply =
+        PUBLIC_PATHS.has(path) || isAuthorized(req, platformState)
+          ? HANDLERS[platform as FakePlatform](platformState, method, path, body)
+          : { status: 401, body: { message: 'Unauthorized' } };
+    }
+
+    res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${boundPort}`,
+    state,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+if (require.main === module) {
+  const port = Number(process.env.FAKE_MARKETPLACE_PORT ?? 4010);
+  void startFakeMarketplaceServer(port).then(({ baseUrl }) => {
+    console.log(`Fake marketplace listening on ${baseUrl} (/gofood, /grabfood, /shopeefood)`);
+  });
+}
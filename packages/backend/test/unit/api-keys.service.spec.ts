@@ -0,0 +1,267 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ThrottlerException, type ThrottlerStorage } from '@nestjs/throttler';
+import {
+  ApiKeysService,
+  type ApiKeyPrincipal,
+} from '../../src/modules/public-api/api-keys.service';
+import { ApiKeyGuard } from '../../src/modules/public-api/api-key.guard';
+import { extractApiKey, hashApiKey } from '../../src/modules/public-api/api-key.util';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import type { FeatureService } from '../../src/modules/business/services/feature.service';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+
+jest.mock('../../src/modules/business/services/feature.service', () => ({
+  FeatureService: class {},
+}));
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+
+  const storedKey = {
+    id: 'key-1',
+    businessId: 'business-1',
+    name: 'Accurate Online',
+    keyPrefix: 'tlp_abcdefgh',
+    keyHash: hashApiKey('tlp_secret'),
+    scopes: ['products:read'],
+    outletIds: [],
+    rateLimit: 120,
+    expiresAt: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    revokedAt: null,
+    rotatedToId: null,
+    createdBy: 'employee-1',
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      apiKey: {
+        findMany: jest.fn().mockResolvedValue([storedKey]),
+        findFirst: jest.fn().mockResolvedValue(storedKey),
+        findUnique: jest.fn().mockResolvedValue(storedKey),
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) =>
+            Promise.resolve({ ...storedKey, ...data, id: 'key-2' }),
+          ),
+        update: jest
+          .fn()
+          .mockImplementation(({ data }) => Promise.resolve({ ...storedKey, ...data })),
+      },
+      outlet: { count: jest.fn().mockResolvedValue(1) },
+      $transaction: jest.fn().mockImplementation((fn) => fn(mockPrisma)),
+    } as unknown as jest.Mocked<PrismaService>;
+
+    service = new ApiKeysService(mockPrisma);
+  });
+
+  describe('create', () => {
+    it('should store only the hash and show the key once', async () => {
+      const result = await service.create('business-1', 'employee-1', {
+        name: 'Accurate Online',
+        scopes: ['products:read', 'products:read', 'stock:read'],
+      });
+
+      expect(result.key).toMatch(/^tlp_/);
+      const { data } = (mockPrisma.apiKey.create as jest.Mock).mock.calls[0][0];
+      expect(data).toMatchObject({
+        keyHash: hashApiKey(result.key),
+        keyPrefix: result.key.slice(0, 12),
+        scopes: ['products:read', 'stock:read'],
+        rateLimit: 120,
+      });
+      expect(data).not.toHaveProperty('key');
+      expect(result).not.toHaveProperty('keyHash');
+    });
+
+    it('should refuse an outlet of another business', async () => {
+      (mockPrisma.outlet.count as jest.Mock).mockResolvedValue(0);
+
+      await expect(
+        service.create('business-1', 'employee-1', {
+          name: 'ERP',
+          scopes: ['stock:read'],
+          outletIds: ['outlet-other'],
+        }),
+      ).rejects.toMatchObject({ code: ErrorCode.OUTLET_NOT_FOUND });
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve the business and scopes of a valid key and note its use', async () => {
+      const principal = await service.authenticate('tlp_secret', '203.0.113.7');
+
+      expect(mockPrisma.apiKey.findUnique).toHaveBeenCalledWith({
+        where: { keyHash: hashApiKey('tlp_secret') },
+      });
+      expect(principal).toEqual({
+        id: 'key-1',
+        businessId: 'business-1',
+        scopes: ['products:read'],
+        outletIds: [],
+        rateLimit: 120,
+      });
+      expect(mockPrisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { lastUsedAt: expect.any(Date), lastUsedIp: '203.0.113.7' },
+      });
+    });
+
+    it('should not write the last use on every request', async () => {
+      (mockPrisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+        ...storedKey,
+        lastUsedAt: new Date(Date.now() - 5000),
+        lastUsedIp: '203.0.113.7',
+      });
+
+      await service.authenticate('tlp_secret', '203.0.113.7');
+
+      expect(mockPrisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked and expired keys', async () => {
+      (mockPrisma.apiKey.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ ...storedKey, revokedAt: new Date() })
+        .mockResolvedValueOnce({ ...storedKey, expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(service.authenticate('tlp_secret', null)).resolves.toBeNull();
+      await expect(service.authenticate('tlp_secret', null)).resolves.toBeNull();
+    });
+  });
+
+  describe('rotate', () => {
+    it('should issue a copy and let the old key run out after the grace period', async () => {
+      const before = Date.now();
+      const result = await service.rotate('business-1', 'key-1', 'employee-2', { graceHours: 2 });
+
+      expect(mockPrisma.apiKey.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'Accurate Online', scopes: ['products:read'] }),
+      });
+      const { data } = (mockPrisma.apiKey.update as jest.Mock).mock.calls[0][0];
+      expect(data.rotatedToId).toBe('key-2');
+      expect(data.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 2 * 60 * 60 * 1000);
+      expect(result.key).toMatch(/^tlp_/);
+    });
+
+    it('should stop the old key at once without a grace period', async () => {
+      await service.rotate('business-1', 'key-1', 'employee-2', { graceHours: 0 });
+
+      expect(mockPrisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { rotatedToId: 'key-2', revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should not rotate a revoked key', async () => {
+      (mockPrisma.apiKey.findFirst as jest.Mock).mockResolvedValue({
+        ...storedKey,
+        revokedAt: new Date(),
+      });
+
+      await expect(service.rotate('business-1', 'key-1', 'employee-2', {})).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+      });
+    });
+  });
+});
+
+describe('ApiKeyGuard', () => {
+  let guard: ApiKeyGuard;
+  let apiKeys: jest.Mocked<Pick<ApiKeysService, 'authenticate'>>;
+  let features: jest.Mocked<Pick<FeatureService, 'isFeatureEnabled'>>;
+  let storage: jest.Mocked<ThrottlerStorage>;
+  let reflector: Reflector;
+  let request: { headers: Record<string, string>; ip: string; apiKey?: ApiKeyPrincipal };
+  let response: { setHeader: jest.Mock };
+
+  const principal: ApiKeyPrincipal = {
+    id: 'key-1',
+    businessId: 'business-1',
+    scopes: ['products:read'],
+    outletIds: [],
+    rateLimit: 2,
+  };
+
+  const context = () =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request, getResponse: () => response }),
+      getHandler: () => undefined,
+      getClass: () => undefined,
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    apiKeys = { authenticate: jest.fn().mockResolvedValue(principal) };
+    features = { isFeatureEnabled: jest.fn().mockResolvedValue(true) };
+    storage = {
+      increment: jest.fn().mockResolvedValue({
+        totalHits: 1,
+        timeToExpire: 60,
+        isBlocked: false,
+        timeToBlockExpire: 0,
+      }),
+    };
+    reflector = new Reflector();
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['products:read']);
+    request = { headers: { 'x-api-key': 'tlp_secret' }, ip: '203.0.113.7' };
+    response = { setHeader: jest.fn() };
+
+    guard = new ApiKeyGuard(
+      reflector,
+      apiKeys as unknown as ApiKeysService,
+      features as unknown as FeatureService,
+      storage,
+    );
+  });
+
+  it('should take the key from either header', () => {
+    expect(extractApiKey({ 'x-api-key': 'tlp_a' })).toBe('tlp_a');
+    expect(extractApiKey({ authorization: 'Bearer tlp_b' })).toBe('tlp_b');
+    expect(extractApiKey({ authorization: 'Bearer eyJhbGciOi.jwt' })).toBeNull();
+  });
+
+  it('should let a key with the scope through and count it against its own limit', async () => {
+    await expect(guard.canActivate(context())).resolves.toBe(true);
+
+    expect(request.apiKey).toBe(principal);
+    expect(storage.increment).toHaveBeenCalledWith('api-key:key-1', 60000, 2, 60000, 'api-key');
+    expect(response.setHeader).toHaveBeenCalledWith('X-RateLimit-Remaining', 1);
+  });
+
+  it('should reject a missing or unknown key', async () => {
+    request.headers = {};
+    await expect(guard.canActivate(context())).rejects.toThrow(UnauthorizedException);
+
+    request.headers = { 'x-api-key': 'tlp_unknown' };
+    apiKeys.authenticate.mockResolvedValue(null);
+    await expect(guard.canActivate(context())).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject a key without the scope of the route', async () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['orders:write']);
+
+    await expect(guard.canActivate(context())).rejects.toThrow('Missing scope: orders:write');
+  });
+
+  it('should reject keys of a business without the api_integration feature', async () => {
+    features.isFeatureEnabled.mockResolvedValue(false);
+
+    await expect(guard.canActivate(context())).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should throttle a key over its limit', async () => {
+    storage.increment.mockResolvedValue({
+      totalHits: 3,
+      timeToExpire: 42,
+      isBlocked: true,
+      timeToBlockExpire: 42,
+    });
+
+    await expect(guard.canActivate(context())).rejects.toThrow(ThrottlerException);
+    expect(response.setHeader).toHaveBeenCalledWith('Retry-After', 42);
+  });
+});
@@ -0,0 +1,354 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  GENESIS_HASH,
+  appendAuditLog,
+  canonicalJson,
+  flushAuditOutbox,
+  hashAuditEntry,
+  signCheckpoint,
+  type ChainedAuditFields,
+} from '../../src/modules/audit/audit-chain.util';
+import { AuditIntegrityService } from '../../src/modules/audit/audit-integrity.service';
+import { AuditRetentionService } from '../../src/modules/audit/audit-retention.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { StorageService } from '../../src/infrastructure/storage/storage.service';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+
+const BUSINESS_ID = 'biz-1';
+const SIGNING_KEY = 'test-signing-key';
+
+/** Builds a valid chain of entries the way appendAuditLog links them */
+function buildChain(count: number, firstCreatedAt = new Date('2026-01-01T00:00:00Z')) {
+  const entries: (ChainedAuditFields & { id: string; hash: string })[] = [];
+  let prevHash = GENESIS_HASH;
+  for (let sequence = 1; sequence <= count; sequence++) {
+    const fields: ChainedAuditFields = {
+      businessId: BUSINESS_ID,
+      sequence,
+      prevHash,
+      outletId: 'outlet-1',
+      employeeId: 'emp-1',
+      action: 'void_transaction',
+      entityType: 'transaction',
+      entityId: `txn-${sequence}`,
+      oldValue: { status: 'completed' },
+      newValue: { status: 'voided', amount: 10000 * sequence },
+      ipAddress: null,
+      deviceId: null,
+      metadata: {},
+      createdAt: new Date(firstCreatedAt.getTime() + sequence * 60_000),
+    };
+    const hash = hashAuditEntry(fields);
+    entries.push({ ...fields, id: `log-${sequence}`, hash });
+    prevHash = hash;
+  }
+  return entries;
+}
+
+describe('Audit chain', () => {
+  // ==========================================================================
+  // Hashing and appending
+  // ==========================================================================
+
+  describe('canonicalJson', () => {
+    it('should not depend on key order', () => {
+      // Act & Assert
+      expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } })).toBe(
+        canonicalJson({ a: { c: null, d: [2, { e: 0, f: 1 }] }, b: 1 }),
+      );
+    });
+  });
+
+  describe('appendAuditLog', () => {
+    it('should link the entry to the head and move the head to its hash', async () => {
+      // Arrange
+      const previous = 'a'.repeat(64);
+      const tx = {
+        auditChainHead: {
+          createMany: jest.fn(),
+          update: jest.fn().mockResolvedValue({ lastSequence: 8, lastHash: previous }),
+        },
+        auditLog: { create: jest.fn().mockImplementation(({ data }) => data) },
+      };
+      const prisma = { $transaction: jest.fn((fn) => fn(tx)) };
+
+      // Act
+      const created = await appendAuditLog(prisma as unknown as PrismaService, {
+        businessId: BUSINESS_ID,
+        action: 'refund_transaction',
+        entityType: 'transaction',
+        entityId: 'txn-1',
+        newValue: { amount: 50000 },
+      });
+
+      // Assert
+      expect(tx.auditChainHead.createMany).toHaveBeenCalledWith({
+        data: [{ businessId: BUSINESS_ID, lastHash: GENESIS_HASH }],
+        skipDuplicates: true,
+      });
+      expect(created).toMatchObject({ sequence: 8, prevHash: previous });
+      expect(created.hash).toBe(
+        hashAuditEntry({
+          ...(created as unknown as ChainedAuditFields),
+          oldValue: null,
+          newValue: { amount: 50000 },
+        }),
+      );
+      expect(tx.auditChainHead.update).toHaveBeenLastCalledWith({
+        where: { businessId: BUSINESS_ID },
+        data: { lastHash: created.hash },
+      });
+    });
+  });
+
+  describe('flushAuditOutbox', () => {
+    it('should chain queued entries in order with the time they were queued', async () => {
+      // Arrange
+      const queuedAt = new Date('2026-10-19T08:00:00Z');
+      let head = { lastSequence: 4, lastHash: 'b'.repeat(64) };
+      const tx = {
+        $queryRaw: jest.fn().mockResolvedValue([
+          {
+            id: 'out-1',
+            entry: { businessId: BUSINESS_ID, action: 'cash_drop', entityType: 'shift' },
+            created_at: queuedAt,
+          },
+          {
+            id: 'out-2',
+            entry: { businessId: BUSINESS_ID, action: 'manager_override', entityType: 'x' },
+            created_at: new Date(queuedAt.getTime() + 1000),
+          },
+        ]),
+        auditChainHead: {
+          createMany: jest.fn(),
+          update: jest.fn().mockImplementation(({ data }) => {
+            head = data.lastHash
+              ? { ...head, lastHash: data.lastHash }
+              : { ...head, lastSequence: head.lastSequence + 1 };
+            return head;
+          }),
+        },
+        auditLog: { create: jest.fn().mockImplementation(({ data }) => data) },
+        auditOutboxEntry: { deleteMany: jest.fn() },
+      };
+      const prisma = { $transaction: jest.fn((fn) => fn(tx)) };
+
+      // Act
+      const flushed = await flushAuditOutbox(prisma as unknown as PrismaService);
+
+      // Assert
+      expect(flushed).toBe(2);
+      const [first, second] = tx.auditLog.create.mock.calls.map(([{ data }]) => data);
+      expect(first).toMatchObject({ sequence: 5, prevHash: 'b'.repeat(64), createdAt: queuedAt });
+      expect(second).toMatchObject({ sequence: 6, prevHash: first.hash });
+      expect(tx.auditOutboxEntry.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['out-1', 'out-2'] } },
+      });
+    });
+  });
+
+  // ==========================================================================
+  // Verification
+  // ==========================================================================
+
+  describe('AuditIntegrityService.verify', () => {
+    let mockPrisma: jest.Mocked<PrismaService>;
+    let service: AuditIntegrityService;
+
+    const givenChain = (
+      entries: ReturnType<typeof buildChain>,
+      headSequence = entries.length,
+      checkpoints: unknown[] = [],
+    ) => {
+      (mockPrisma.auditLog.findMany as jest.Mock).mockResolvedValueOnce(entries);
+      (mockPrisma.auditChainHead.findUnique as jest.Mock).mockResolvedValue({
+        businessId: BUSINESS_ID,
+        lastSequence: headSequence,
+        lastHash: entries.find((e) => e.sequence === headSequence)?.hash ?? 'f'.repeat(64),
+      });
+      (mockPrisma.auditCheckpoint.findMany as jest.Mock).mockResolvedValue(checkpoints);
+    };
+
+    beforeEach(() => {
+      mockPrisma = {
+        auditChainHead: { findUnique: jest.fn() },
+        auditArchive: { findFirst: jest.fn().mockResolvedValue(null) },
+        auditCheckpoint: { findMany: jest.fn() },
+        auditLog: { findMany: jest.fn(), count: jest.fn().mockResolvedValue(0) },
+      } as unknown as jest.Mocked<PrismaService>;
+
+      service = new AuditIntegrityService(
+        mockPrisma,
+        new ConfigService({ AUDIT_SIGNING_KEY: SIGNING_KEY }),
+      );
+    });
+
+    it('should accept an intact chain', async () => {
+      // Arrange
+      givenChain(buildChain(5));
+
+      // Act
+      const result = await service.verify(BUSINESS_ID);
+
+      // Assert
+      expect(result).toMatchObject({
+        valid: true,
+        checkedEntries: 5,
+        firstSequence: 1,
+        lastSequence: 5,
+        issueCount: 0,
+      });
+    });
+
+    it('should find an entry edited in the database', async () => {
+      // Arrange
+      const entries = buildChain(5);
+      entries[2].newValue = { status: 'voided', amount: 1 };
+      givenChain(entries);
+
+      // Act
+      const result = await service.verify(BUSINESS_ID);
+
+      // Assert
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ type: 'hash_mismatch', sequence: 3, entryId: 'log-3' }),
+      ]);
+    });
+
+    it('should find deleted entries in the middle and at the end', async () => {
+      // Arrange
+      const entries = buildChain(6);
+      givenChain([entries[0], entries[3], entries[4]], 6);
+
+      // Act
+      const result = await service.verify(BUSINESS_ID);
+
+      // Assert
+      expect(result.issues.map((issue) => [issue.type, issue.description])).toEqual([
+        ['missing_entries', 'Entries 2 to 3 are missing'],
+        ['missing_entries', 'Entries 6 to 6 are missing'],
+      ]);
+    });
+
+    it('should catch a rebuilt chain through the checkpoints signed before it', async () => {
+      // Arrange - a checkpoint of the original entry 3, then the chain is rebuilt
+      const original = buildChain(4);
+      const createdAt = new Date('2026-01-02T00:00:00Z');
+      const checkpoint = {
+        businessId: BUSINESS_ID,
+        sequence: 3,
+        hash: original[2].hash,
+        createdAt,
+        signature: signCheckpoint(SIGNING_KEY, {
+          businessId: BUSINESS_ID,
+          sequence: 3,
+          hash: original[2].hash,
+          createdAt,
+        }),
+      };
+      const rebuilt = buildChain(4, new Date('2026-01-01T00:00:30Z'));
+      givenChain(rebuilt, 4, [checkpoint, { ...checkpoint, sequence: 4, signature: '00' }]);
+
+      // Act
+      const result = await service.verify(BUSINESS_ID);
+
+      // Assert
+      expect(result.checkpointsChecked).toBe(2);
+      expect(result.issues.map((issue) => [issue.type, issue.sequence])).toEqual([
+        ['checkpoint_mismatch', 3],
+        ['checkpoint_mismatch', 4],
+        ['checkpoint_signature', 4],
+      ]);
+    });
+
+    it('should start from the last archive', async () => {
+      // Arrange
+      const entries = buildChain(6);
+      (mockPrisma.auditArchive.findFirst as jest.Mock).mockResolvedValue({
+        toSequence: 3,
+        lastHash: entries[2].hash,
+      });
+      givenChain(entries.slice(3), 6);
+
+      // Act
+      const result = await service.verify(BUSINESS_ID);
+
+      // Assert
+      expect(result).toMatchObject({ valid: true, archivedThrough: 3, checkedEntries: 3 });
+      expect(mockPrisma.auditLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { businessId: BUSINESS_ID, sequence: { gte: 4 } } }),
+      );
+    });
+  });
+
+  // ==========================================================================
+  // Retention
+  // ==========================================================================
+
+  describe('AuditRetentionService.archive', () => {
+    let mockPrisma: jest.Mocked<PrismaService>;
+    let mockStorage: jest.Mocked<StorageService>;
+    let service: AuditRetentionService;
+
+    beforeEach(() => {
+      mockPrisma = {
+        $transaction: jest.fn((operations) => Promise.all(operations)),
+        auditArchive: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          create: jest.fn().mockImplementation(({ data }) => ({ id: 'archive-1', ...data })),
+        },
+        auditLog: { findMany: jest.fn(), deleteMany: jest.fn() },
+      } as unknown as jest.Mocked<PrismaService>;
+
+      mockStorage = {
+        upload: jest.fn().mockImplementation((path) => path),
+        getUrl: jest.fn(),
+      } as unknown as jest.Mocked<StorageService>;
+
+      service = new AuditRetentionService(mockPrisma, mockStorage);
+    });
+
+    it('should archive the entries past retention and keep the rest', async () => {
+      // Arrange - entries 1-3 are old, 4-5 are recent
+      const old = buildChain(3, new Date('2020-01-01T00:00:00Z'));
+      const entries = [...old, ...buildChain(5).slice(3)];
+      (mockPrisma.auditLog.findMany as jest.Mock).mockResolvedValueOnce(entries);
+
+      // Act
+      const archives = await service.archive(BUSINESS_ID, 365);
+
+      // Assert
+      expect(archives).toHaveLength(1);
+      expect(mockStorage.upload).toHaveBeenCalledWith(
+        `audit-archives/${BUSINESS_ID}/1-3.jsonl`,
+        expect.any(Buffer),
+      );
+      expect(mockPrisma.auditArchive.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromSequence: 1,
+          toSequence: 3,
+          entryCount: 3,
+          lastHash: old[2].hash,
+        }),
+      });
+      expect(mockPrisma.auditLog.deleteMany).toHaveBeenCalledWith({
+        where: { businessId: BUSINESS_ID, sequence: { gte: 1, lte: 3 } },
+      });
+    });
+
+    it('should leave a broken chain in the database', async () => {
+      // Arrange
+      const entries = buildChain(3, new Date('2020-01-01T00:00:00Z'));
+      entries[1].action = 'sale';
+      (mockPrisma.auditLog.findMany as jest.Mock).mockResolvedValueOnce(entries);
+
+      // Act & Assert
+      await expect(service.archive(BUSINESS_ID, 365)).rejects.toMatchObject({
+        code: ErrorCode.AUDIT_CHAIN_BROKEN,
+      });
+      expect(mockStorage.upload).not.toHaveBeenCalled();
+      expect(mockPrisma.auditLog.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { Prisma } from '@prisma/client';
+import { BinStockService } from '../../src/modules/warehouses/bin-stock.service';
+import { WarehousesService } from '../../src/modules/warehouses/warehouses.service';
+import { allocateFromBins } from '../../src/modules/warehouses/bin-allocation.util';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { BusinessError } from '../../src/shared/errors/business-error';
+
+const decimal = (value: number) => new Prisma.Decimal(value);
+
+describe('allocateFromBins', () => {
+  const bins = [
+    { binId: 'b1', binCode: 'A-01', quantity: 3 },
+    { binId: 'b2', binCode: 'A-02', quantity: 0 },
+    { binId: 'b3', binCode: 'B-01', quantity: 10 },
+  ];
+
+  it('should empty bins in route order and skip empty ones', () => {
+    expect(allocateFromBins(5, bins)).toEqual({
+      picks: [
+        { binId: 'b1', binCode: 'A-01', quantity: 3 },
+        { binId: 'b3', binCode: 'B-01', quantity: 2 },
+      ],
+      shortfall: 0,
+    });
+  });
+
+  it('should report what the bins cannot cover', () => {
+    expect(allocateFromBins(14.5, bins).shortfall).toBe(1.5);
+  });
+});
+
+describe('BinStockService', () => {
+  let service: BinStockService;
+  let mockPrisma: Record<string, Record<string, jest.Mock>>;
+  let mockWarehouses: jest.Mocked<WarehousesService>;
+
+  const binStockRow = (binId: string, code: string, zoneCode: string, quantity: number) => ({
+    binId,
+    productId: 'prod-1',
+    variantId: null,
+    quantity: decimal(quantity),
+    bin: { code, zone: { code: zoneCode, name: `Zone ${zoneCode}` } },
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      stockTransfer: { findFirst: jest.fn() },
+      stockLevel: { findFirst: jest.fn() },
+      binStock: {
+        findMany: jest.fn(),
+        findFirst: jest.fn(),
+        aggregate: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      warehouseBin: { findFirst: jest.fn() },
+    };
+    const prisma = {
+      ...mockPrisma,
+      $transaction: jest.fn((fn: (client: unknown) => unknown) => fn(mockPrisma)),
+    };
+    mockWarehouses = {
+      findOutlet: jest.fn().mockResolvedValue({ id: 'wh-1', locationType: 'warehouse' }),
+    } as unknown as jest.Mocked<WarehousesService>;
+
+    service = new BinStockService(prisma as unknown as PrismaService, mockWarehouses);
+  });
+
+  describe('pickList', () => {
+    beforeEach(() => {
+      mockPrisma.stockTransfer.findFirst.mockResolvedValue({
+        id: 'tr-1',
+        transferNumber: 'TRF-001',
+        sourceOutletId: 'wh-1',
+        status: 'approved',
+        items: [
+          {
+            productId: 'prod-1',
+            variantId: null,
+            ingredientId: null,
+            itemName: 'Coffee beans',
+            quantitySent: decimal(8),
+          },
+          {
+            productId: null,
+            variantId: null,
+            ingredientId: 'ing-1',
+            itemName: 'Milk',
+            quantitySent: decimal(2),
+          },
+        ],
+      });
+      mockPrisma.binStock.findMany.mockResolvedValue([
+        binStockRow('bin-a', 'A-01', 'A', 5),
+        binStockRow('bin-b', 'B-01', 'B', 2),
+      ]);
+    });
+
+    it('should route picks through the bins and leave the rest unbinned', async () => {
+      // Act
+      const result = await service.pickList('biz-1', 'tr-1');
+
+      // Assert
+      expect(result.lines).toEqual([
+        expect.objectContaining({ binCode: 'A-01', zoneCode: 'A', quantity: 5 }),
+        expect.objectContaining({ binCode: 'B-01', zoneCode: 'B', quantity: 2 }),
+      ]);
+      expect(result.unbinned).toEqual([
+        expect.objectContaining({ productId: 'prod-1', quantity: 1 }),
+        expect.objectContaining({ ingredientId: 'ing-1', quantity: 2 }),
+      ]);
+    });
+
+    it('should take the picked quantities out of the bins on shipping', async () => {
+      // Act
+      await service.consumePickList(
+        mockPrisma as unknown as Prisma.TransactionClient,
+        'biz-1',
+        'tr-1',
+      );
+
+      // Assert
+      expect(mockPrisma.binStock.updateMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.binStock.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { quantity: { decrement: 5 } } }),
+      );
+    });
+
+    it('should fail the shipment when a bin no longer holds its pick', async () => {
+      // Arrange
+      mockPrisma.binStock.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      // Act & Assert
+      await expect(
+        service.consumePickList(mockPrisma as unknown as Prisma.TransactionClient, 'biz-1', 'tr-1'),
+      ).rejects.toThrow(BusinessError);
+    });
+  });
+
+  describe('putaway', () => {
+    it('should suggest the bin that already holds the item', async () => {
+      // Arrange
+      mockPrisma.binStock.findFirst
+        .mockResolvedValueOnce({ bin: { id: 'bin-a', code: 'A-01' } })
+        .mockResolvedValueOnce({ id: 'bs-1' });
+      mockPrisma.stockLevel.findFirst.mockResolvedValue({ quantity: decimal(10) });
+      mockPrisma.binStock.aggregate.mockResolvedValue({ _sum: { quantity: decimal(6) } });
+
+      // Act
+      const result = await service.putaway('biz-1', 'wh-1', { productId: 'prod-1', quantity: 4 });
+
+      // Assert
+      expect(result).toEqual({ binId: 'bin-a', binCode: 'A-01', quantity: 4 });
+      expect(mockPrisma.binStock.update).toHaveBeenCalledWith({
+        where: { id: 'bs-1' },
+        data: { quantity: { increment: 4 } },
+      });
+    });
+
+    it('should refuse to put away more than is unbinned', async () => {
+      // Arrange
+      mockPrisma.binStock.findFirst.mockResolvedValue({ bin: { id: 'bin-a', code: 'A-01' } });
+      mockPrisma.stockLevel.findFirst.mockResolvedValue({ quantity: decimal(10) });
+      mockPrisma.binStock.aggregate.mockResolvedValue({ _sum: { quantity: decimal(8) } });
+
+      // Act & Assert
+      await expect(
+        service.putaway('biz-1', 'wh-1', { productId: 'prod-1', quantity: 3 }),
+      ).rejects.toThrow(BusinessError);
+      expect(mockPrisma.binStock.update).not.toHaveBeenCalled();
+    });
+
+    it('should put received goods into the first receiving bin', async () => {
+      // Arrange
+      mockPrisma.binStock.findFirst.mockResolvedValue(null);
+      mockPrisma.warehouseBin.findFirst.mockResolvedValue({ id: 'bin-r', code: 'R-01' });
+
+      // Act
+      const result = await service.putawayReceived(
+        mockPrisma as unknown as Prisma.TransactionClient,
+        'wh-1',
+        'prod-1',
+        null,
+        12,
+      );
+
+      // Assert
+      expect(result).toEqual({ binId: 'bin-r', binCode: 'R-01', quantity: 12 });
+      expect(mockPrisma.binStock.create).toHaveBeenCalledWith({
+        data: {
+          binId: 'bin-r',
+          outletId: 'wh-1',
+          productId: 'prod-1',
+          variantId: null,
+          quantity: 12,
+        },
+      });
+    });
+
+    it('should leave received goods unbinned when the location has no bins', async () => {
+      // Arrange
+      mockPrisma.binStock.findFirst.mockResolvedValue(null);
+      mockPrisma.warehouseBin.findFirst.mockResolvedValue(null);
+
+      // Act
+      const result = await service.putawayReceived(
+        mockPrisma as unknown as Prisma.TransactionClient,
+        'wh-1',
+        'prod-1',
+        null,
+        12,
+      );
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockPrisma.binStock.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('selling from a binned location', () => {
+    const client = () => mockPrisma as unknown as Prisma.TransactionClient;
+
+    beforeEach(() => {
+      mockPrisma.binStock.findMany.mockResolvedValue([
+        binStockRow('bin-a', 'A-01', 'A', 4),
+        binStockRow('bin-b', 'B-01', 'B', 6),
+      ]);
+    });
+
+    it('should take sold stock out of the bins in route order', async () => {
+      // Arrange: 10 binned, a sale of 7 left 5 on hand
+      mockPrisma.stockLevel.findFirst.mockResolvedValue({ quantity: decimal(5) });
+
+      // Act
+      await service.trimToStockLevel(client(), 'wh-1', 'prod-1', null);
+
+      // Assert
+      expect(mockPrisma.binStock.updateMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.binStock.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { binId: 'bin-a', productId: 'prod-1', variantId: null, quantity: { gte: 4 } },
+        data: { quantity: { decrement: 4 } },
+      });
+      expect(mockPrisma.binStock.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { binId: 'bin-b', productId: 'prod-1', variantId: null, quantity: { gte: 1 } },
+        data: { quantity: { decrement: 1 } },
+      });
+    });
+
+    it('should leave the bins alone while the sale came out of unbinned stock', async () => {
+      // Arrange: 10 binned, 12 still on hand
+      mockPrisma.stockLevel.findFirst.mockResolvedValue({ quantity: decimal(12) });
+
+      // Act
+      await service.trimToStockLevel(client(), 'wh-1', 'prod-1', null);
+
+      // Assert
+      expect(mockPrisma.binStock.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should empty the bins when the item sold out', async () => {
+      // Arrange
+      mockPrisma.stockLevel.findFirst.mockResolvedValue({ quantity: decimal(0) });
+
+      // Act
+      await service.trimToStockLevel(client(), 'wh-1', 'prod-1', null);
+
+      // Assert
+      expect(mockPrisma.binStock.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { quantity: { decrement: 6 } } }),
+      );
+    });
+  });
+});
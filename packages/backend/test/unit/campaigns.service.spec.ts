@@ -0,0 +1,614 @@
+import type { Queue } from 'bullmq';
+import { Prisma } from '@prisma/client';
+import { CampaignsService } from '../../src/modules/campaigns/campaigns.service';
+import { CampaignDeliveryService } from '../../src/modules/campaigns/campaign-delivery.service';
+import { CampaignAttributionService } from '../../src/modules/campaigns/campaign-attribution.service';
+import { renderCampaignTemplate } from '../../src/modules/campaigns/campaign-template.util';
+import { CustomerSegmentsService } from '../../src/modules/customers/customer-segments.service';
+import { NotificationDispatcherService } from '../../src/infrastructure/notifications/notification-dispatcher.service';
+import type { CampaignJobData } from '../../src/infrastructure/queues/processors/campaign.processor';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { JOB_NAMES, JOB_OPTIONS } from '../../src/infrastructure/queues/queue.constants';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+import type { CreateCampaignDto } from '../../src/application/dtos/campaign.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-19T03:00:00Z');
+
+const campaign = {
+  id: 'campaign-1',
+  businessId: 'business-1',
+  name: 'Come back',
+  description: null,
+  templates: [
+    { channel: 'whatsapp', body: 'Hi {{first_name}}, use {{voucher_code}} by {{voucher_expiry}}' },
+    { channel: 'email', subject: 'A treat from {{business_name}}', body: 'Hi {{name}}' },
+  ],
+  audience: {},
+  trigger: null,
+  lapsedDays: null,
+  status: 'draft',
+  scheduledAt: null,
+  startedAt: null,
+  completedAt: null,
+  sendRatePerMinute: 2,
+  promotionId: null,
+  voucherValidDays: null,
+  attributionWindowDays: 7,
+  createdBy: 'employee-1',
+  createdAt: now,
+  updatedAt: now,
+};
+
+const customer = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  name: `Customer ${id}`,
+  email: `${id}@example.com`,
+  phone: '0812000000',
+  dateOfBirth: null,
+  lastVisitAt: null,
+  loyaltyTier: 'regular',
+  ...extra,
+});
+
+function uniqueViolation() {
+  return new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: '5.22.0',
+  });
+}
+
+describe('renderCampaignTemplate', () => {
+  it('should fill in known variables and leave unknown ones as written', () => {
+    const values = {
+      name: 'Siti Rahma',
+      first_name: 'Siti',
+      business_name: 'Kopi Senja',
+      tier: 'gold',
+      points: '120',
+      voucher_code: 'CMP-1A2B3C4D',
+      voucher_expiry: '2026-10-26',
+      unsubscribe_url: 'https://app.example.com/unsubscribe/abc',
+    };
+
+    expect(
+      renderCampaignTemplate('Hi {{ first_name }}, {{voucher_code}} {{nickname}}', values),
+    ).toBe('Hi Siti, CMP-1A2B3C4D {{nickname}}');
+  });
+});
+
+describe('CampaignDeliveryService', () => {
+  let service: CampaignDeliveryService;
+  let mockPrisma: Record<string, Record<string, jest.Mock>>;
+  let mockQueue: jest.Mocked<Pick<Queue<CampaignJobData>, 'add'>>;
+  let segments: { getCustomersBySegment: jest.Mock };
+  let dispatcher: { deliver: jest.Mock };
+
+  const recipient = {
+    id: 'recipient-1',
+    campaignId: 'campaign-1',
+    businessId: 'business-1',
+    customerId: 'c1',
+    triggerKey: '',
+    channel: 'whatsapp',
+    status: 'queued',
+    unsubscribeToken: 'token-1',
+    voucher: null,
+    campaign: {
+      ...campaign,
+      status: 'sending',
+      promotionId: 'promo-1',
+      voucherValidDays: 7,
+      business: { name: 'Kopi Senja' },
+    },
+    customer: { ...customer('c1'), name: 'Siti Rahma', isActive: true, loyaltyPoints: 120 },
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      customer: { findMany: jest.fn().mockResolvedValue([]) },
+      marketingOptOut: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn().mockResolvedValue(null),
+      },
+      campaignRecipient: {
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) =>
+            Promise.resolve({ ...data, id: `recipient-${data.customerId}` }),
+          ),
+        findUnique: jest.fn().mockResolvedValue(recipient),
+        findFirst: jest.fn().mockResolvedValue(null),
+        update: jest.fn().mockResolvedValue({
+          voucher: { code: 'CMP-1A2B3C4D', expiresAt: new Date(now.getTime() + 7 * DAY_MS) },
+        }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    mockQueue = { add: jest.fn().mockResolvedValue({}) };
+    segments = { getCustomersBySegment: jest.fn() };
+    dispatcher = { deliver: jest.fn().mockResolvedValue(undefined) };
+
+    service = new CampaignDeliveryService(
+      mockPrisma as unknown as PrismaService,
+      segments as unknown as CustomerSegmentsService,
+      dispatcher as unknown as NotificationDispatcherService,
+      mockQueue as unknown as Queue<CampaignJobData>,
+    );
+  });
+
+  describe('resolveAudience', () => {
+    it('should combine the segment with the filters', async () => {
+      // Arrange
+      segments.getCustomersBySegment.mockResolvedValue([{ id: 'c1' }, { id: 'c2' }]);
+
+      // Act
+      await service.resolveAudience({
+        businessId: 'business-1',
+        audience: { segment: 'at-risk', loyaltyTiers: ['gold'], minVisitCount: 3 },
+      });
+
+      // Assert
+      expect(segments.getCustomersBySegment).toHaveBeenCalledWith('business-1', 'at-risk');
+      expect(mockPrisma.customer.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            businessId: 'business-1',
+            isActive: true,
+            id: { in: ['c1', 'c2'] },
+            loyaltyTier: { in: ['gold'] },
+            visitCount: { gte: 3 },
+          },
+        }),
+      );
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should pick the first reachable channel the customer has not opted out of', async () => {
+      // Arrange
+      mockPrisma.marketingOptOut.findMany.mockResolvedValue([
+        { customerId: 'c2', channel: 'whatsapp' },
+      ]);
+
+      // Act
+      const queued = await service.enqueue(campaign as never, [
+        customer('c1'),
+        customer('c2'),
+        customer('c3', { phone: null, email: null }),
+      ]);
+
+      // Assert
+      const created = mockPrisma.campaignRecipient.create.mock.calls.map(([args]) => args.data);
+      expect(created.map((data) => [data.channel, data.status])).toEqual([
+        ['whatsapp', 'queued'],
+        ['email', 'queued'],
+        [null, 'skipped'],
+      ]);
+      expect(queued).toBe(2);
+    });
+
+    it('should spread the messages over time at the send rate', async () => {
+      // Act
+      await service.enqueue(campaign as never, [customer('c1'), customer('c2'), customer('c3')]);
+
+      // Assert
+      const delays = mockQueue.add.mock.calls.map(([, , options]) => options?.delay);
+      expect(delays).toEqual([0, 0, 60000]);
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        JOB_NAMES.SEND_CAMPAIGN_MESSAGE,
+        { recipientId: 'recipient-c1' },
+        { ...JOB_OPTIONS.CAMPAIGN, delay: 0 },
+      );
+    });
+
+    it('should leave out customers already sent this trigger', async () => {
+      // Arrange
+      mockPrisma.campaignRecipient.create.mockRejectedValueOnce(uniqueViolation());
+
+      // Act
+      const queued = await service.enqueue(
+        campaign as never,
+        [customer('c1'), customer('c2')],
+        'birthday:2026',
+      );
+
+      // Assert
+      expect(queued).toBe(1);
+      expect(mockQueue.add).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('execute', () => {
+    it('should issue a voucher and send the rendered message', async () => {
+      // Act
+      await service.execute('recipient-1', now);
+
+      // Assert
+      expect(mockPrisma.campaignRecipient.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            voucher: {
+              create: expect.objectContaining({
+                promotionId: 'promo-1',
+                expiresAt: new Date(now.getTime() + 7 * DAY_MS),
+              }),
+            },
+          },
+        }),
+      );
+      expect(dispatcher.deliver).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'whatsapp',
+          body: 'Hi Siti, use CMP-1A2B3C4D by 2026-10-26',
+          metadata: expect.objectContaining({ phone: '0812000000', notificationType: 'marketing' }),
+        }),
+      );
+      expect(mockPrisma.campaignRecipient.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'recipient-1', status: 'queued' }),
+        data: expect.objectContaining({ sentAt: now }),
+      });
+      expect(mockPrisma.campaignRecipient.update).toHaveBeenLastCalledWith({
+        where: { id: 'recipient-1' },
+        data: { status: 'sent' },
+      });
+    });
+
+    it('should release the message for a retry when the provider rejects it', async () => {
+      // Arrange
+      dispatcher.deliver.mockRejectedValue(new Error('WhatsApp rejected the message'));
+
+      // Act & Assert
+      await expect(service.execute('recipient-1', now)).rejects.toThrow(
+        'WhatsApp rejected the message',
+      );
+      expect(mockPrisma.campaignRecipient.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'recipient-1', status: 'queued', sentAt: now },
+        data: { sentAt: null },
+      });
+      expect(mockPrisma.campaignRecipient.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'sent' } }),
+      );
+    });
+
+    it('should text the customer on the sms channel', async () => {
+      // Arrange
+      mockPrisma.campaignRecipient.findUnique.mockResolvedValue({
+        ...recipient,
+        channel: 'sms',
+        campaign: {
+          ...recipient.campaign,
+          promotionId: null,
+          templates: [{ channel: 'sms', body: 'Hi {{first_name}}, we miss you' }],
+        },
+      });
+
+      // Act
+      await service.execute('recipient-1', now);
+
+      // Assert
+      expect(dispatcher.deliver).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'sms',
+          body: 'Hi Siti, we miss you',
+          metadata: expect.objectContaining({ phone: '0812000000' }),
+        }),
+      );
+      expect(mockPrisma.campaignRecipient.update).toHaveBeenLastCalledWith({
+        where: { id: 'recipient-1' },
+        data: { status: 'sent' },
+      });
+    });
+
+    it('should skip customers who opted out since the message was queued', async () => {
+      // Arrange
+      mockPrisma.marketingOptOut.findUnique.mockResolvedValue({ id: 'opt-out-1' });
+
+      // Act
+      await service.execute('recipient-1', now);
+
+      // Assert
+      expect(dispatcher.deliver).not.toHaveBeenCalled();
+      expect(mockPrisma.campaignRecipient.update).toHaveBeenCalledWith({
+        where: { id: 'recipient-1' },
+        data: { status: 'skipped', error: 'Opted out of whatsapp' },
+      });
+    });
+
+    it('should skip customers messaged within the frequency cap', async () => {
+      // Arrange
+      mockPrisma.campaignRecipient.findFirst.mockResolvedValue({ id: 'recipient-0' });
+
+      // Act
+      await service.execute('recipient-1', now);
+
+      // Assert
+      expect(dispatcher.deliver).not.toHaveBeenCalled();
+      expect(mockPrisma.campaignRecipient.update).toHaveBeenCalledWith({
+        where: { id: 'recipient-1' },
+        data: { status: 'skipped', error: 'Already messaged in the last 24 hours' },
+      });
+    });
+
+    it('should hold the messages of a paused campaign', async () => {
+      // Arrange
+      mockPrisma.campaignRecipient.findUnique.mockResolvedValue({
+        ...recipient,
+        campaign: { ...recipient.campaign, status: 'paused' },
+      });
+
+      // Act
+      await service.execute('recipient-1', now);
+
+      // Assert
+      expect(dispatcher.deliver).not.toHaveBeenCalled();
+      expect(mockPrisma.campaignRecipient.update).not.toHaveBeenCalled();
+    });
+
+    it('should not send a message another job already claimed', async () => {
+      // Arrange
+      mockPrisma.campaignRecipient.updateMany.mockResolvedValue({ count: 0 });
+
+      // Act
+      await service.execute('recipient-1', now);
+
+      // Assert
+      expect(dispatcher.deliver).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('CampaignsService', () => {
+  let service: CampaignsService;
+  let mockPrisma: Record<string, Record<string, jest.Mock>>;
+  let delivery: {
+    resolveAudience: jest.Mock;
+    enqueue: jest.Mock;
+    requeue: jest.Mock;
+    reach: jest.Mock;
+  };
+
+  const dto: CreateCampaignDto = {
+    name: 'Come back',
+    templates: [{ channel: 'whatsapp', body: 'Hi {{first_name}}' }],
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      marketingCampaign: {
+        findFirst: jest.fn().mockResolvedValue(campaign),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve(data)),
+        update: jest
+          .fn()
+          .mockImplementation(({ data }) => Promise.resolve({ ...campaign, ...data })),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      promotion: { findFirst: jest.fn().mockResolvedValue({ isActive: true }) },
+    };
+    delivery = {
+      resolveAudience: jest.fn().mockResolvedValue([customer('c1'), customer('c2')]),
+      enqueue: jest.fn().mockResolvedValue(2),
+      requeue: jest.fn().mockResolvedValue(0),
+      reach: jest.fn(),
+    };
+    service = new CampaignsService(
+      mockPrisma as unknown as PrismaService,
+      delivery as unknown as CampaignDeliveryService,
+    );
+  });
+
+  describe('create', () => {
+    it('should reject variables the renderer does not know', async () => {
+      await expect(
+        service.create('business-1', 'employee-1', {
+          ...dto,
+          templates: [{ channel: 'whatsapp', body: 'Hi {{nickname}}' }],
+        }),
+      ).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: expect.stringContaining('nickname'),
+      });
+    });
+
+    it('should reject voucher variables without a promotion', async () => {
+      await expect(
+        service.create('business-1', 'employee-1', {
+          ...dto,
+          templates: [{ channel: 'whatsapp', body: 'Use {{voucher_code}}' }],
+        }),
+      ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should default the lapsed threshold for lapsed campaigns', async () => {
+      const created = await service.create('business-1', 'employee-1', {
+        ...dto,
+        trigger: 'lapsed',
+      });
+
+      expect(created).toMatchObject({ trigger: 'lapsed', lapsedDays: 60, scheduledAt: null });
+    });
+  });
+
+  describe('launch', () => {
+    it('should activate a triggered campaign without sending', async () => {
+      // Arrange
+      mockPrisma.marketingCampaign.findFirst.mockResolvedValue({
+        ...campaign,
+        trigger: 'birthday',
+      });
+
+      // Act
+      const launched = await service.launch('business-1', 'campaign-1', now);
+
+      // Assert
+      expect(launched.status).toBe('active');
+      expect(delivery.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should schedule a broadcast set for later', async () => {
+      // Arrange
+      mockPrisma.marketingCampaign.findFirst.mockResolvedValue({
+        ...campaign,
+        scheduledAt: new Date(now.getTime() + DAY_MS),
+      });
+
+      // Act
+      const launched = await service.launch('business-1', 'campaign-1', now);
+
+      // Assert
+      expect(launched.status).toBe('scheduled');
+      expect(delivery.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should claim and queue a broadcast to its audience now', async () => {
+      // Act
+      await service.launch('business-1', 'campaign-1', now);
+
+      // Assert
+      expect(mockPrisma.marketingCampaign.updateMany).toHaveBeenCalledWith({
+        where: { id: 'campaign-1', status: { in: ['draft', 'scheduled'] } },
+        data: { status: 'sending', startedAt: now },
+      });
+      expect(delivery.enqueue).toHaveBeenCalledWith(campaign, [customer('c1'), customer('c2')]);
+    });
+
+    it('should refuse to launch a campaign twice', async () => {
+      // Arrange
+      mockPrisma.marketingCampaign.findFirst.mockResolvedValue({ ...campaign, status: 'sending' });
+
+      // Act & Assert
+      await expect(service.launch('business-1', 'campaign-1', now)).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+      });
+    });
+  });
+
+  describe('runDailyTriggers', () => {
+    it("should message today's birthdays once per year", async () => {
+      // Arrange
+      const birthdayCampaign = { ...campaign, status: 'active', trigger: 'birthday' };
+      mockPrisma.marketingCampaign.findMany.mockResolvedValue([birthdayCampaign]);
+      delivery.resolveAudience.mockResolvedValue([
+        customer('c1', { dateOfBirth: new Date('1990-10-19T00:00:00Z') }),
+        customer('c2', { dateOfBirth: new Date('1990-10-20T00:00:00Z') }),
+      ]);
+
+      // Act
+      await service.runDailyTriggers(now);
+
+      // Assert
+      expect(delivery.enqueue).toHaveBeenCalledWith(
+        birthdayCampaign,
+        [expect.objectContaining({ id: 'c1' })],
+        'birthday:2026',
+      );
+    });
+
+    it('should key lapsed customers by their last visit', async () => {
+      // Arrange
+      const lapsedCampaign = { ...campaign, status: 'active', trigger: 'lapsed', lapsedDays: 30 };
+      mockPrisma.marketingCampaign.findMany.mockResolvedValue([lapsedCampaign]);
+      delivery.resolveAudience.mockResolvedValue([
+        customer('c1', { lastVisitAt: new Date('2026-08-01T05:00:00Z') }),
+        customer('c2', { lastVisitAt: new Date('2026-10-10T05:00:00Z') }),
+      ]);
+
+      // Act
+      await service.runDailyTriggers(now);
+
+      // Assert
+      const [, matches, triggerKey] = delivery.enqueue.mock.calls[0];
+      expect(matches.map((c: { id: string }) => c.id)).toEqual(['c1']);
+      expect(triggerKey(matches[0])).toBe('lapsed:2026-08-01');
+    });
+  });
+});
+
+describe('CampaignAttributionService', () => {
+  let service: CampaignAttributionService;
+  let mockPrisma: Record<string, Record<string, jest.Mock>>;
+
+  const soldAt = new Date('2026-10-19T03:00:00Z');
+  const message = (id: string, daysBefore: number, extra: Record<string, unknown> = {}) => ({
+    id,
+    campaignId: `campaign-${id}`,
+    sentAt: new Date(soldAt.getTime() - daysBefore * DAY_MS),
+    campaign: { attributionWindowDays: 7 },
+    voucher: null,
+    attributions: [],
+    ...extra,
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      transaction: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'tx-1',
+          customerId: 'c1',
+          grandTotal: new Prisma.Decimal(85000),
+          transactionType: 'sale',
+          createdAt: soldAt,
+        }),
+      },
+      campaignRecipient: { findMany: jest.fn().mockResolvedValue([]) },
+      campaignAttribution: {
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve(data)),
+      },
+    };
+    service = new CampaignAttributionService(mockPrisma as unknown as PrismaService);
+  });
+
+  it('should credit the last message within its attribution window', async () => {
+    // Arrange
+    mockPrisma.campaignRecipient.findMany.mockResolvedValue([message('r1', 2), message('r2', 5)]);
+
+    // Act
+    const attribution = await service.attribute('tx-1');
+
+    // Assert
+    expect(attribution).toMatchObject({
+      campaignId: 'campaign-r1',
+      recipientId: 'r1',
+      transactionId: 'tx-1',
+      voucherRedeemed: false,
+    });
+  });
+
+  it('should prefer the message whose voucher was redeemed on the sale', async () => {
+    // Arrange
+    mockPrisma.campaignRecipient.findMany.mockResolvedValue([
+      message('r1', 2),
+      message('r2', 20, { voucher: { usedAt: soldAt } }),
+    ]);
+
+    // Act
+    const attribution = await service.attribute('tx-1');
+
+    // Assert
+    expect(attribution).toMatchObject({ recipientId: 'r2', voucherRedeemed: true });
+  });
+
+  it('should not credit messages outside the window', async () => {
+    // Arrange
+    mockPrisma.campaignRecipient.findMany.mockResolvedValue([message('r1', 10)]);
+
+    // Act & Assert
+    await expect(service.attribute('tx-1')).resolves.toBeNull();
+    expect(mockPrisma.campaignAttribution.create).not.toHaveBeenCalled();
+  });
+
+  it('should ignore sales without a customer', async () => {
+    // Arrange
+    mockPrisma.transaction.findUnique.mockResolvedValue({
+      id: 'tx-1',
+      customerId: null,
+      transactionType: 'sale',
+      createdAt: soldAt,
+    });
+
+    // Act & Assert
+    await expect(service.attribute('tx-1')).resolves.toBeNull();
+    expect(mockPrisma.campaignRecipient.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,282 @@
+import * as bcrypt from 'bcrypt';
+import { Prisma } from '@prisma/client';
+import { CashDrawersService } from '../../src/modules/cash-management/cash-drawers.service';
+import { CashManagementService } from '../../src/modules/cash-management/cash-management.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { EventBusService } from '../../src/infrastructure/events/event-bus.service';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+
+const dec = (value: number) => new Prisma.Decimal(value);
+
+describe('CashDrawersService', () => {
+  let service: CashDrawersService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockCash: jest.Mocked<CashManagementService>;
+  let mockEventBus: jest.Mocked<EventBusService>;
+  let tx: Record<string, Record<string, jest.Mock> | jest.Mock>;
+
+  const cashier = {
+    employeeId: 'emp-a',
+    businessId: 'biz-1',
+    outletId: 'outlet-1',
+    role: 'cashier',
+  } as AuthUser;
+
+  const drawerShift = {
+    id: 'shift-a',
+    drawerSessionId: 'session-1',
+    sharedDrawer: false,
+    openingCash: 500000,
+    cashIn: 0,
+    cashOut: 0,
+  };
+
+  /** Drawer summary of a shift whose cash should come to `expected` */
+  const givenExpected = (expected: number) =>
+    mockCash.drawerSummary.mockResolvedValue({
+      openingCash: 0,
+      cashSales: expected,
+      cashRefunds: 0,
+      cashIn: 0,
+      cashOut: 0,
+      removed: 0,
+      expectedCash: expected,
+    });
+
+  beforeEach(() => {
+    tx = {
+      $queryRaw: jest.fn(),
+      drawerSession: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({ id: 'session-1' }),
+        findUniqueOrThrow: jest.fn(),
+        update: jest.fn(),
+      },
+      cashDrawer: { update: jest.fn().mockResolvedValue({ lastZNumber: 42 }) },
+      shift: {
+        create: jest.fn().mockImplementation(({ data }) => ({ id: 'shift-new', ...data })),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        count: jest.fn().mockResolvedValue(0),
+      },
+      auditLog: { create: jest.fn() },
+      auditOutboxEntry: { create: jest.fn() },
+      auditChainHead: {
+        createMany: jest.fn(),
+        update: jest.fn().mockResolvedValue({ lastSequence: 1, lastHash: '0'.repeat(64) }),
+      },
+    };
+
+    mockPrisma = {
+      $transaction: jest.fn((fn) => fn(tx)),
+      cashDrawer: { findFirst: jest.fn().mockResolvedValue({ id: 'drawer-1' }) },
+      drawerSession: { findFirst: jest.fn() },
+      shift: { findFirst: jest.fn() },
+      employee: { findFirst: jest.fn(), findUnique: jest.fn().mockResolvedValue({ name: 'Ani' }) },
+      transaction: { aggregate: jest.fn().mockResolvedValue({ _sum: { grandTotal: null } }) },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    mockCash = { drawerSummary: jest.fn() } as unknown as jest.Mocked<CashManagementService>;
+    mockEventBus = { publish: jest.fn() } as unknown as jest.Mocked<EventBusService>;
+
+    service = new CashDrawersService(mockPrisma, mockCash, mockEventBus);
+  });
+
+  // ==========================================================================
+  // openShift
+  // ==========================================================================
+
+  describe('openShift', () => {
+    const input = { drawerId: 'drawer-1', outletId: 'outlet-1', employeeId: 'emp-a' };
+
+    it('should open a session with the float on a closed drawer', async () => {
+      // Act
+      const shift = await service.openShift({ ...input, openingCash: 500000 });
+
+      // Assert
+      expect((tx.drawerSession as Record<string, jest.Mock>).create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ drawerId: 'drawer-1', openingCash: 500000 }),
+      });
+      expect(shift).toMatchObject({
+        openingCash: 500000,
+        drawerSessionId: 'session-1',
+      });
+      expect(shift).not.toHaveProperty('sharedDrawer');
+    });
+
+    it('should join an open drawer without a float and mark everyone on it as sharing', async () => {
+      // Arrange
+      (tx.drawerSession as Record<string, jest.Mock>).findFirst.mockResolvedValue({
+        id: 'session-1',
+      });
+
+      // Act
+      const shift = await service.openShift(input);
+
+      // Assert
+      expect((tx.shift as Record<string, jest.Mock>).updateMany).toHaveBeenCalledWith({
+        where: { drawerSessionId: 'session-1', status: 'open' },
+        data: { sharedDrawer: true },
+      });
+      expect(shift).toMatchObject({ openingCash: 0, sharedDrawer: true });
+    });
+
+    it('should not take a second float into an open drawer', async () => {
+      // Arrange
+      (tx.drawerSession as Record<string, jest.Mock>).findFirst.mockResolvedValue({
+        id: 'session-1',
+      });
+
+      // Act & Assert
+      await expect(service.openShift({ ...input, openingCash: 200000 })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+      });
+      expect((tx.shift as Record<string, jest.Mock>).create).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // closeShift
+  // ==========================================================================
+
+  describe('closeShift', () => {
+    const close = { blindClose: false, endedAt: new Date('2026-10-20T22:00:00Z') };
+
+    it('should close the session under the next Z number when the last cashier counts', async () => {
+      // Arrange - float 500.000, two shifts that took in 900.000 and 300.000
+      (tx.drawerSession as Record<string, jest.Mock>).findUniqueOrThrow.mockResolvedValue({
+        id: 'session-1',
+        drawerId: 'drawer-1',
+        openingCash: dec(500000),
+        shifts: [
+          { id: 'shift-0', openingCash: dec(500000), cashIn: dec(0), cashOut: dec(0) },
+          { id: 'shift-a', openingCash: dec(0), cashIn: dec(0), cashOut: dec(0) },
+        ],
+      });
+      mockCash.drawerSummary
+        .mockResolvedValueOnce({ expectedCash: 1400000 } as never)
+        .mockResolvedValueOnce({ expectedCash: 900000 } as never)
+        .mockResolvedValueOnce({ expectedCash: 300000 } as never);
+
+      // Act
+      const result = await service.closeShift(
+        drawerShift,
+        { ...close, closingCash: 1690000 },
+        'emp-a',
+      );
+
+      // Assert
+      expect(result).toEqual({
+        closingCash: 1690000,
+        expectedCash: 1400000,
+        difference: 290000,
+        zNumber: 42,
+      });
+      expect((tx.drawerSession as Record<string, jest.Mock>).update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: expect.objectContaining({
+          status: 'closed',
+          expectedCash: 1700000,
+          cashDifference: -10000,
+          zNumber: 42,
+        }),
+      });
+    });
+
+    it('should let a cashier leave a shared drawer uncounted', async () => {
+      // Arrange
+      (tx.shift as Record<string, jest.Mock>).count.mockResolvedValue(1);
+
+      // Act
+      const result = await service.closeShift(
+        { ...drawerShift, sharedDrawer: true },
+        close,
+        'emp-a',
+      );
+
+      // Assert
+      expect(result).toEqual({
+        closingCash: null,
+        expectedCash: null,
+        difference: null,
+        zNumber: null,
+      });
+      expect((tx.drawerSession as Record<string, jest.Mock>).update).not.toHaveBeenCalled();
+    });
+
+    it('should require the last cashier on the drawer to count it', async () => {
+      // Act & Assert
+      await expect(service.closeShift(drawerShift, close, 'emp-a')).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+      });
+    });
+  });
+
+  // ==========================================================================
+  // handOff
+  // ==========================================================================
+
+  describe('handOff', () => {
+    const dto = { toEmployeeId: 'emp-b', toEmployeePin: '135790', countedCash: 1200000 };
+
+    beforeEach(() => {
+      (mockPrisma.drawerSession.findFirst as jest.Mock).mockResolvedValue({
+        id: 'session-1',
+        outletId: 'outlet-1',
+        outlet: { settings: {} },
+      });
+      (mockPrisma.shift.findFirst as jest.Mock)
+        .mockResolvedValueOnce({
+          id: 'shift-a',
+          sharedDrawer: false,
+          openingCash: dec(500000),
+          cashIn: dec(0),
+          cashOut: dec(0),
+        })
+        .mockResolvedValueOnce(null);
+      (mockPrisma.employee.findFirst as jest.Mock).mockResolvedValue({
+        id: 'emp-b',
+        name: 'Budi',
+        pin: bcrypt.hashSync('135790', 4),
+      });
+    });
+
+    it('should end the outgoing shift on the sub-count and start the next on the same cash', async () => {
+      // Arrange
+      givenExpected(1210000);
+
+      // Act
+      const result = await service.handOff(cashier, 'session-1', dto);
+
+      // Assert
+      expect((tx.shift as Record<string, jest.Mock>).updateMany).toHaveBeenCalledWith({
+        where: { id: 'shift-a', status: 'open' },
+        data: expect.objectContaining({
+          closingCash: 1200000,
+          expectedCash: 1210000,
+          cashDifference: -10000,
+          status: 'closed',
+        }),
+      });
+      expect((tx.shift as Record<string, jest.Mock>).create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          employeeId: 'emp-b',
+          openingCash: 1200000,
+          drawerSessionId: 'session-1',
+        }),
+      });
+      expect(result.endedShift).toMatchObject({ difference: -10000 });
+      expect(result.startedShift).toMatchObject({ employeeName: 'Budi', openingCash: 1200000 });
+      expect(mockEventBus.publish).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject a wrong PIN from the incoming cashier', async () => {
+      // Act & Assert
+      await expect(
+        service.handOff(cashier, 'session-1', { ...dto, toEmployeePin: '000000' }),
+      ).rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED_ACTION });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
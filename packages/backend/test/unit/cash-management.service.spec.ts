@@ -0,0 +1,345 @@
+import * as bcrypt from 'bcrypt';
+import { Prisma } from '@prisma/client';
+import { CashManagementService } from '../../src/modules/cash-management/cash-management.service';
+import {
+  normalizeCount,
+  resolveCountedAmount,
+} from '../../src/modules/cash-management/cash-count.util';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+
+const dec = (value: number) => new Prisma.Decimal(value);
+const sum = (amount: number | null) => ({ _sum: { amount: amount === null ? null : dec(amount) } });
+
+describe('CashManagementService', () => {
+  let service: CashManagementService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let tx: Record<string, Record<string, jest.Mock> | jest.Mock>;
+
+  const cashier = {
+    employeeId: 'emp-cashier',
+    businessId: 'biz-1',
+    outletId: 'outlet-1',
+    role: 'cashier',
+  } as AuthUser;
+
+  const manager = { ...cashier, employeeId: 'emp-manager', role: 'manager' } as AuthUser;
+
+  const openShift = {
+    id: 'shift-1',
+    outletId: 'outlet-1',
+    employeeId: 'emp-cashier',
+    status: 'open',
+    openingCash: dec(500000),
+    cashIn: dec(100000),
+    cashOut: dec(50000),
+  };
+
+  // Sales 2.000.000, refunds 150.000, 300.000 already dropped
+  const givenDrawer = (db: Record<string, unknown>) => {
+    (db.payment as { aggregate: jest.Mock }).aggregate
+      .mockResolvedValueOnce(sum(2000000))
+      .mockResolvedValueOnce(sum(-150000));
+    (db.shiftCashMovement as { aggregate: jest.Mock }).aggregate.mockResolvedValueOnce(sum(300000));
+  };
+
+  beforeEach(() => {
+    tx = {
+      $queryRaw: jest.fn(),
+      payment: { aggregate: jest.fn() },
+      shiftCashMovement: {
+        aggregate: jest.fn(),
+        create: jest.fn().mockImplementation(({ data }) => ({
+          id: 'mov-1',
+          createdAt: new Date('2026-10-20T10:00:00Z'),
+          ...data,
+        })),
+      },
+      bankDeposit: {
+        create: jest.fn().mockImplementation(({ data }) => ({
+          id: 'dep-1',
+          status: 'submitted',
+          verifiedAt: null,
+          createdAt: new Date(),
+          ...data,
+          amount: dec(data.amount),
+          expectedAmount: dec(data.expectedAmount),
+          difference: dec(data.difference),
+        })),
+      },
+      shift: { updateMany: jest.fn().mockResolvedValue({ count: 2 }) },
+      auditLog: { create: jest.fn() },
+      auditOutboxEntry: { create: jest.fn() },
+      auditChainHead: {
+        createMany: jest.fn(),
+        update: jest.fn().mockResolvedValue({ lastSequence: 1, lastHash: '0'.repeat(64) }),
+      },
+    };
+
+    mockPrisma = {
+      $transaction: jest.fn((fn) => fn(tx)),
+      outlet: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'outlet-1', settings: {} }),
+        update: jest.fn(),
+      },
+      shift: { findFirst: jest.fn().mockResolvedValue(openShift), findMany: jest.fn() },
+      employee: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'emp-sup',
+          name: 'Sari',
+          pin: bcrypt.hashSync('246810', 4),
+        }),
+      },
+      payment: { aggregate: jest.fn() },
+      shiftCashMovement: { aggregate: jest.fn(), groupBy: jest.fn().mockResolvedValue([]) },
+      bankDeposit: { findUnique: jest.fn().mockResolvedValue(null), findFirst: jest.fn() },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    service = new CashManagementService(mockPrisma);
+  });
+
+  // ==========================================================================
+  // Counting
+  // ==========================================================================
+
+  describe('cash counts', () => {
+    it('should total the denominations and reject a typed amount that disagrees', () => {
+      // Arrange
+      const counts = [
+        { value: 50000, count: 3 },
+        { value: 2000, count: 0 },
+        { value: 100000, count: 2 },
+        { value: 50000, count: 1 },
+      ];
+
+      // Act & Assert
+      expect(resolveCountedAmount(undefined, counts, 'closing cash')).toBe(400000);
+      expect(normalizeCount(counts)).toEqual([
+        { value: 100000, count: 2 },
+        { value: 50000, count: 4 },
+      ]);
+      expect(() => resolveCountedAmount(390000, counts, 'closing cash')).toThrow(
+        'does not match the denomination count',
+      );
+    });
+  });
+
+  describe('drawerSummary', () => {
+    it('should take refunds, cash out and safe drops out of the expected cash', async () => {
+      // Arrange
+      givenDrawer(mockPrisma as unknown as Record<string, unknown>);
+
+      // Act
+      const result = await service.drawerSummary(mockPrisma, {
+        id: 'shift-1',
+        openingCash: 500000,
+        cashIn: 100000,
+        cashOut: 50000,
+      });
+
+      // Assert - 500.000 + 2.000.000 - 150.000 + 100.000 - 50.000 - 300.000
+      expect(result).toMatchObject({ cashRefunds: 150000, removed: 300000 });
+      expect(result.expectedCash).toBe(2100000);
+    });
+  });
+
+  // ==========================================================================
+  // Safe drops
+  // ==========================================================================
+
+  describe('recordMovement', () => {
+    const drop = {
+      shiftId: 'shift-1',
+      type: 'drop' as const,
+      denominations: [{ value: 100000, count: 15 }],
+      reason: 'Drawer above limit',
+      witnessId: 'emp-sup',
+      witnessPin: '246810',
+    };
+
+    it('should record a witnessed drop and chain it into the audit log', async () => {
+      // Arrange
+      givenDrawer(tx);
+
+      // Act
+      const result = await service.recordMovement(cashier, drop);
+
+      // Assert
+      expect(result).toMatchObject({ amount: 1500000, witnessedBy: { id: 'emp-sup' } });
+      expect(tx.$queryRaw).toHaveBeenCalled();
+      expect((tx.shiftCashMovement as Record<string, jest.Mock>).create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'drop',
+          amount: 1500000,
+          performedBy: 'emp-cashier',
+          witnessedBy: 'emp-sup',
+        }),
+      });
+      expect((tx.auditOutboxEntry as Record<string, jest.Mock>).create).toHaveBeenCalledWith({
+        data: {
+          businessId: 'biz-1',
+          entry: expect.objectContaining({
+            action: 'cash_drop',
+            oldValue: { cashBalance: 2100000 },
+          }),
+        },
+      });
+    });
+
+    it('should reject a wrong witness PIN', async () => {
+      // Act & Assert
+      await expect(
+        service.recordMovement(cashier, { ...drop, witnessPin: '111111' }),
+      ).rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED_ACTION });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not let the cashier witness their own drop', async () => {
+      // Act & Assert
+      await expect(
+        service.recordMovement(cashier, { ...drop, witnessId: 'emp-cashier' }),
+      ).rejects.toThrow('Another employee has to witness the count');
+    });
+
+    it('should not drop more than the drawer holds', async () => {
+      // Arrange
+      givenDrawer(tx);
+
+      // Act & Assert
+      await expect(
+        service.recordMovement(cashier, {
+          ...drop,
+          denominations: [{ value: 100000, count: 22 }],
+        }),
+      ).rejects.toMatchObject({ code: ErrorCode.INSUFFICIENT_CASH });
+      expect((tx.shiftCashMovement as Record<string, jest.Mock>).create).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // Over/short ledger
+  // ==========================================================================
+
+  describe('overShortLedger', () => {
+    it('should treat differences within the tolerance as balanced and keep a running net', async () => {
+      // Arrange
+      const outlet = { name: 'Pusat', settings: { cashManagement: { overShortTolerance: 1000 } } };
+      const shift = (id: string, difference: number) => ({
+        id,
+        outletId: 'outlet-1',
+        employeeId: 'emp-cashier',
+        endedAt: new Date(),
+        expectedCash: dec(1000000),
+        closingCash: dec(1000000 + difference),
+        cashDifference: dec(difference),
+        blindClose: true,
+        employee: { name: 'Budi' },
+        outlet,
+      });
+      (mockPrisma.shift.findMany as jest.Mock).mockResolvedValue([
+        shift('s-1', -500),
+        shift('s-2', -20000),
+        shift('s-3', 5000),
+      ]);
+
+      // Act
+      const result = await service.overShortLedger('biz-1', {
+        from: '2026-10-01',
+        to: '2026-10-31',
+      });
+
+      // Assert
+      expect(result.entries.map((e) => [e.result, e.runningNet])).toEqual([
+        ['balanced', -500],
+        ['short', -20500],
+        ['over', -15500],
+      ]);
+      expect(result.employees).toEqual([
+        expect.objectContaining({
+          employeeId: 'emp-cashier',
+          shifts: 3,
+          shortCount: 1,
+          overCount: 1,
+          totalShort: 20000,
+          totalOver: 5000,
+          net: -15500,
+        }),
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // Bank deposits
+  // ==========================================================================
+
+  describe('createDeposit', () => {
+    const dto = {
+      outletId: 'outlet-1',
+      shiftIds: ['shift-1', 'shift-2'],
+      slipNumber: 'SETOR-1',
+      bankName: 'BCA',
+      depositedAt: '2026-10-20T09:00:00Z',
+      amount: 3450000,
+    };
+
+    const closed = (id: string, opening: number, closing: number) => ({
+      id,
+      status: 'closed',
+      bankDepositId: null,
+      openingCash: dec(opening),
+      closingCash: dec(closing),
+    });
+
+    it('should expect the closing cash plus drops, less the float, of every shift', async () => {
+      // Arrange
+      (mockPrisma.shift.findMany as jest.Mock).mockResolvedValue([
+        closed('shift-1', 500000, 1700000),
+        closed('shift-2', 500000, 1250000),
+      ]);
+      (mockPrisma.shiftCashMovement.groupBy as jest.Mock).mockResolvedValue([
+        { shiftId: 'shift-1', _sum: { amount: dec(1500000) } },
+      ]);
+
+      // Act
+      const result = await service.createDeposit(manager, dto);
+
+      // Assert - (1.700.000 + 1.500.000 - 500.000) + (1.250.000 - 500.000)
+      expect(result).toMatchObject({ expectedAmount: 3450000, difference: 0 });
+      expect((tx.shift as Record<string, jest.Mock>).updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['shift-1', 'shift-2'] }, bankDepositId: null },
+        data: { bankDepositId: 'dep-1' },
+      });
+    });
+
+    it('should not put a shift on two deposits', async () => {
+      // Arrange
+      (mockPrisma.shift.findMany as jest.Mock).mockResolvedValue([
+        closed('shift-1', 500000, 1700000),
+        { ...closed('shift-2', 500000, 1250000), bankDepositId: 'dep-0' },
+      ]);
+
+      // Act & Assert
+      await expect(service.createDeposit(manager, dto)).rejects.toMatchObject({
+        code: ErrorCode.CONFLICT,
+      });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyDeposit', () => {
+    it('should not let the employee who prepared a deposit verify it', async () => {
+      // Arrange
+      (mockPrisma.bankDeposit.findFirst as jest.Mock).mockResolvedValue({
+        id: 'dep-1',
+        status: 'submitted',
+        preparedBy: 'emp-manager',
+      });
+
+      // Act & Assert
+      await expect(service.verifyDeposit(manager, 'dep-1')).rejects.toThrow(
+        'Someone other than who prepared the deposit has to verify it',
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { CreateTransactionUseCase } from '../../src/application/use-cases/pos/create-transaction.use-case';
+import type { CreateTransactionInput } from '../../src/application/use-cases/pos/create-transaction.use-case';
+import type {
+  PromotionLineResult,
+  PromotionRulesEngine,
+} from '../../src/application/services/promotion-rules.engine';
+import type { IShiftRepository } from '../../src/domain/interfaces/repositories/shift.repository';
+import type { IProductRepository } from '../../src/domain/interfaces/repositories/product.repository';
+import type { IInventoryRepository } from '../../src/domain/interfaces/repositories/inventory.repository';
+import type { EventBusService } from '../../src/infrastructure/events/event-bus.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import type { StoredValueService } from '../../src/modules/gift-cards/stored-value.service';
+import type { ReservationDepositService } from '../../src/modules/reservations/reservation-deposit.service';
+import type { DocumentNumberingService } from '../../src/modules/numbering/document-numbering.service';
+import type { ManagerOverrideService } from '../../src/modules/overrides/manager-override.service';
+import type { BinStockService } from '../../src/modules/warehouses/bin-stock.service';
+
+describe('CreateTransactionUseCase discounts', () => {
+  let useCase: CreateTransactionUseCase;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let promotionRules: jest.Mocked<Pick<PromotionRulesEngine, 'findApplicablePromotions'>>;
+
+  const products: Record<string, { name: string; basePrice: number }> = {
+    coffee: { name: 'Kopi Susu', basePrice: 20000 },
+    cake: { name: 'Bolu Pandan', basePrice: 10000 },
+  };
+
+  // Two coffees, the second free, and a cake
+  const baseInput: CreateTransactionInput = {
+    outletId: 'outlet-1',
+    employeeId: 'emp-1',
+    shiftId: 'shift-1',
+    orderType: 'takeaway',
+    items: [
+      { productId: 'coffee', quantity: 2 },
+      { productId: 'cake', quantity: 1 },
+    ],
+    payments: [{ method: 'cash', amount: 100000 }],
+  };
+
+  const line = (productId: string, discount: number): PromotionLineResult =>
+    ({ productId, discount, allocations: [] }) as unknown as PromotionLineResult;
+
+  const savedItems = () =>
+    (mockPrisma.transactionItem.create as jest.Mock).mock.calls.map(([{ data }]) => ({
+      productId: data.productId,
+      discountAmount: data.discountAmount,
+    }));
+
+  beforeEach(() => {
+    mockPrisma = {
+      outlet: {
+        findUnique: jest.fn().mockResolvedValue({ locationType: 'store', businessId: 'biz-1' }),
+      },
+      transaction: {
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) =>
+            Promise.resolve({ ...data, receiptNumber: 'TRX/OUT1/202610/00001' }),
+          ),
+      },
+      transactionItem: { create: jest.fn() },
+      payment: { create: jest.fn() },
+      promotion: { update: jest.fn() },
+      product: { findUnique: jest.fn().mockResolvedValue({ trackStock: false }) },
+      $transaction: jest.fn((fn) => fn(mockPrisma)),
+    } as unknown as jest.Mocked<PrismaService>;
+
+    promotionRules = {
+      findApplicablePromotions: jest.fn().mockResolvedValue({
+        lines: [line('coffee', 20000), line('cake', 0)],
+      }),
+    };
+
+    useCase = new CreateTransactionUseCase(
+      {
+        findById: jest.fn().mockResolvedValue({ id: 'shift-1', status: 'open' }),
+      } as unknown as IShiftRepository,
+      {
+        findById: jest
+          .fn()
+          .mockImplementation((id: string) =>
+            Promise.resolve({ id, ...products[id], isActive: true, trackStock: false }),
+          ),
+      } as unknown as IProductRepository,
+      {} as IInventoryRepository,
+      { publish: jest.fn() } as unknown as EventBusService,
+      mockPrisma,
+      { redeem: jest.fn() } as unknown as StoredValueService,
+      { apply: jest.fn() } as unknown as ReservationDepositService,
+      {
+        allocate: jest.fn().mockResolvedValue('TRX/OUT1/202610/00001'),
+      } as unknown as DocumentNumberingService,
+      { consume: jest.fn() } as unknown as ManagerOverrideService,
+      {} as BinStockService,
+      promotionRules as unknown as PromotionRulesEngine,
+    );
+  });
+
+  it('should save each line with the discount the promotion allocated to it', async () => {
+    // Act
+    const result = await useCase.execute({
+      ...baseInput,
+      discounts: [{ type: 'fixed', value: 20000, promotionId: 'bogo-coffee' }],
+    });
+
+    // Assert
+    expect(promotionRules.findApplicablePromotions).toHaveBeenCalledWith(
+      expect.objectContaining({ businessId: 'biz-1', promotionIds: ['bogo-coffee'] }),
+    );
+    expect(savedItems()).toEqual([
+      { productId: 'coffee', discountAmount: 20000 },
+      { productId: 'cake', discountAmount: 0 },
+    ]);
+    // (50000 - 20000) + 11% PPN
+    expect(result.grandTotal).toBe(33300);
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ subtotal: 50000, discountAmount: 20000 }),
+    });
+  });
+
+  it('should spread a cashier discount over the lines by their value', async () => {
+    // Act
+    await useCase.execute({ ...baseInput, discounts: [{ type: 'percentage', value: 10 }] });
+
+    // Assert
+    expect(promotionRules.findApplicablePromotions).not.toHaveBeenCalled();
+    expect(savedItems()).toEqual([
+      { productId: 'coffee', discountAmount: 4000 },
+      { productId: 'cake', discountAmount: 1000 },
+    ]);
+  });
+
+  it('should spread a cashier discount over what the promotion left', async () => {
+    // Act
+    await useCase.execute({
+      ...baseInput,
+      discounts: [
+        { type: 'fixed', value: 20000, promotionId: 'bogo-coffee' },
+        { type: 'fixed', value: 3000 },
+      ],
+    });
+
+    // Assert: 20000 of coffee and 10000 of cake are left to share the 3000
+    expect(savedItems()).toEqual([
+      { productId: 'coffee', discountAmount: 22000 },
+      { productId: 'cake', discountAmount: 1000 },
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+import { createHash } from 'crypto';
+import { CustomerDisplayService } from '../../src/modules/customer-display/customer-display.service';
+import { isValidQris, qrisCrc, toDynamicQris } from '../../src/modules/customer-display/qris.util';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { EventBusService } from '../../src/infrastructure/events/event-bus.service';
+import { CustomerDisplayUpdatedEvent } from '../../src/domain/events/customer-display-updated.event';
+import { LoyaltyPointsEarnedEvent } from '../../src/domain/events/loyalty-points-earned.event';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+
+const field = (id: string, value: string) =>
+  `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+// Static QRIS of a test merchant, closed with its CRC
+const STATIC_QRIS = (() => {
+  const body =
+    field('00', '01') +
+    field('01', '11') +
+    field('26', field('00', 'ID.CO.QRIS.WWW') + field('01', '936008990000012345')) +
+    field('52', '5812') +
+    field('53', '360') +
+    field('58', 'ID') +
+    field('59', 'KOPI TILO') +
+    field('60', 'DENPASAR') +
+    '6304';
+  return body + qrisCrc(body);
+})();
+
+describe('CustomerDisplayService', () => {
+  let service: CustomerDisplayService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let eventBus: EventBusService;
+  let published: CustomerDisplayUpdatedEvent[];
+
+  const device = {
+    id: 'device-1',
+    outletId: 'outlet-1',
+    outlet: { settings: { customerDisplay: { qrisPayload: STATIC_QRIS } } },
+    customerDisplay: { tokenHash: 'a'.repeat(64) },
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      device: { findFirst: jest.fn().mockResolvedValue(device) },
+      outlet: { findFirst: jest.fn(), update: jest.fn() },
+      customerDisplay: {
+        findUnique: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        upsert: jest.fn(),
+      },
+      loyaltyTransaction: { findFirst: jest.fn().mockResolvedValue(null) },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    eventBus = new EventBusService();
+    published = [];
+    eventBus.ofType(CustomerDisplayUpdatedEvent).subscribe((event) => published.push(event));
+
+    service = new CustomerDisplayService(mockPrisma, eventBus);
+    service.onModuleInit();
+  });
+
+  // ==========================================================================
+  // QRIS
+  // ==========================================================================
+
+  describe('QRIS payloads', () => {
+    it('should use CRC-16/CCITT-FALSE', () => {
+      expect(qrisCrc('123456789')).toBe('29B1');
+    });
+
+    it('should make a static payload dynamic with the amount before the country code', () => {
+      // Act
+      const dynamic = toDynamicQris(STATIC_QRIS, 57500);
+
+      // Assert
+      expect(dynamic).not.toBeNull();
+      expect(isValidQris(dynamic!)).toBe(true);
+      expect(dynamic!.startsWith('000201010212')).toBe(true);
+      expect(dynamic).toContain('5405575005802ID');
+    });
+
+    it('should reject a payload whose CRC does not match', () => {
+      const tampered = STATIC_QRIS.replace('KOPI TILO', 'KOPI TILA');
+
+      expect(isValidQris(tampered)).toBe(false);
+      expect(toDynamicQris(tampered, 1000)).toBeNull();
+    });
+  });
+
+  // ==========================================================================
+  // Pairing
+  // ==========================================================================
+
+  describe('pair', () => {
+    const pending = {
+      id: 'display-1',
+      deviceId: 'device-1',
+      pairCode: '482913',
+      pairCodeExpiresAt: new Date(Date.now() + 60_000),
+      tokenHash: null as string | null,
+      device: {
+        deviceName: 'Kasir 1',
+        outletId: 'outlet-1',
+        isActive: true,
+        outlet: { settings: { customerDisplay: { idleImages: ['/promo.jpg'] } } },
+      },
+    };
+
+    it('should claim the code and hand the display a token whose hash is stored', async () => {
+      // Arrange
+      (mockPrisma.customerDisplay.findUnique as jest.Mock).mockResolvedValue(pending);
+
+      // Act
+      const session = await service.pair('482913');
+
+      // Assert
+      const stored = (mockPrisma.customerDisplay.updateMany as jest.Mock).mock.calls[0][0];
+      expect(stored.where).toEqual({ id: 'display-1', pairCode: '482913' });
+      expect(stored.data).toMatchObject({ pairCode: null, pairCodeExpiresAt: null });
+      expect(stored.data.tokenHash).toBe(createHash('sha256').update(session.token).digest('hex'));
+      expect(session).toMatchObject({
+        deviceId: 'device-1',
+        deviceName: 'Kasir 1',
+        settings: { idleImages: ['/promo.jpg'], qrisEnabled: false },
+        state: { stage: 'idle' },
+      });
+      expect(session.settings).not.toHaveProperty('qrisPayload');
+      expect(published.map((e) => e.update)).toEqual(['paired']);
+    });
+
+    it('should drop the display paired before', async () => {
+      // Arrange
+      (mockPrisma.customerDisplay.findUnique as jest.Mock).mockResolvedValue({
+        ...pending,
+        tokenHash: 'b'.repeat(64),
+      });
+
+      // Act
+      await service.pair('482913');
+
+      // Assert
+      expect(published.map((e) => e.update)).toEqual(['unpaired', 'paired']);
+    });
+
+    it('should reject an expired code', async () => {
+      // Arrange
+      (mockPrisma.customerDisplay.findUnique as jest.Mock).mockResolvedValue({
+        ...pending,
+        pairCodeExpiresAt: new Date(Date.now() - 1000),
+      });
+
+      // Act & Assert
+      await expect(service.pair('482913')).rejects.toMatchObject({
+        code: ErrorCode.CUSTOMER_DISPLAY_PAIRING_INVALID,
+      });
+      expect(mockPrisma.customerDisplay.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not let a display resume with the wrong token', async () => {
+      // Arrange
+      (mockPrisma.customerDisplay.findUnique as jest.Mock).mockResolvedValue({
+        ...pending,
+        tokenHash: createHash('sha256').update('right-token').digest('hex'),
+      });
+
+      // Act & Assert
+      await expect(service.resume('device-1', 'wrong-token')).rejects.toMatchObject({
+        code: ErrorCode.CUSTOMER_DISPLAY_PAIRING_INVALID,
+      });
+    });
+  });
+
+  // ==========================================================================
+  // Live state
+  // ==========================================================================
+
+  describe('pushState', () => {
+    it('should show the outlet QRIS with what is left to pay', async () => {
+      // Act
+      const result = await service.pushState('biz-1', 'device-1', {
+        stage: 'payment',
+        total: 87500,
+        paid: 30000,
+        paymentMethod: 'qris',
+      });
+
+      // Assert
+      expect(result).toEqual({ delivered: true, stage: 'payment' });
+      const state = published[0]!.payload;
+      expect(state.payment).toMatchObject({ method: 'qris', amount: 57500 });
+      expect((state.payment as { qrisPayload: string }).qrisPayload).toBe(
+        toDynamicQris(STATIC_QRIS, 57500),
+      );
+    });
+
+    it('should add the points to the thank-you screen once they are booked', async () => {
+      // Arrange
+      const transactionId = '6f1c2a4e-8b0d-4c3e-9f7a-2d5b1e0c9a11';
+      await service.pushState('biz-1', 'device-1', {
+        stage: 'thank_you',
+        total: 87500,
+        transactionId,
+      });
+
+      // Act
+      eventBus.publish(new LoyaltyPointsEarnedEvent(transactionId, 'cust-1', 87, 1287));
+
+      // Assert
+      expect(published).toHaveLength(2);
+      expect(published[0]!.payload.loyalty).toBeNull();
+      expect(published[1]!.payload).toMatchObject({
+        stage: 'thank_you',
+        loyalty: { pointsEarned: 87, balance: 1287 },
+      });
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('should refuse a QRIS payload that does not check out', async () => {
+      // Act & Assert
+      await expect(
+        service.updateSettings('biz-1', 'outlet-1', { qrisPayload: '000201010211' }),
+      ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+      expect(mockPrisma.outlet.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,366 @@
+import { DocumentNumberingService } from '../../src/modules/numbering/document-numbering.service';
+import {
+  formatDocumentNumber,
+  missingRanges,
+  periodEnd,
+  periodKey,
+  validateNumberingFormat,
+} from '../../src/modules/numbering/document-number.util';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { BusinessError } from '../../src/shared/errors/business-error';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+
+describe('DocumentNumberingService', () => {
+  let service: DocumentNumberingService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let tx: Record<string, Record<string, jest.Mock>>;
+
+  const user = { employeeId: 'emp-1', businessId: 'biz-1' } as AuthUser;
+  const currentPeriod = () => periodKey('monthly', new Date(), 'Asia/Jakarta');
+
+  const outlet = { id: 'outlet-1', code: 'JKT1', timezone: 'Asia/Jakarta' };
+
+  const series = (overrides: Record<string, unknown> = {}) => ({
+    id: 'series-1',
+    outletId: 'outlet-1',
+    documentType: 'sale',
+    prefix: 'INV',
+    format: '{prefix}/{outlet}/{YYYY}{MM}/{seq}',
+    padding: 5,
+    resetPeriod: 'monthly',
+    currentPeriod: currentPeriod(),
+    lastNumber: 41,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    tx = {
+      outlet: { findUnique: jest.fn().mockResolvedValue(outlet) },
+      numberingSeries: {
+        createMany: jest.fn().mockResolvedValue({ count: 0 }),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(series()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest
+          .fn()
+          .mockImplementation(({ data }) => series({ lastNumber: 41 + data.lastNumber.increment })),
+      },
+      documentNumber: {
+        findUnique: jest.fn(),
+        create: jest.fn(),
+        createMany: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      numberBlock: {
+        create: jest.fn().mockImplementation(({ data }) => ({ id: 'block-1', ...data })),
+      },
+    };
+
+    mockPrisma = {
+      $transaction: jest.fn((fn) => fn(tx)),
+      outlet: { findFirst: jest.fn().mockResolvedValue(outlet) },
+      device: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'device-1', outletId: 'outlet-1' }),
+      },
+      numberingSeries: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn(),
+      },
+      documentNumber: { findMany: jest.fn().mockResolvedValue([]) },
+      transaction: { findMany: jest.fn().mockResolvedValue([]) },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    service = new DocumentNumberingService(mockPrisma);
+  });
+
+  // ==========================================================================
+  // document-number.util
+  // ==========================================================================
+
+  describe('document-number.util', () => {
+    it('should key periods and find their end in the outlet time zone', () => {
+      // Arrange - 31 Oct 2026 20:00 UTC is already 1 Nov in Jakarta
+      const at = new Date('2026-10-31T20:00:00.000Z');
+
+      // Act & Assert
+      expect(periodKey('monthly', at, 'Asia/Jakarta')).toBe('202611');
+      expect(periodKey('daily', at, 'Asia/Jakarta')).toBe('20261101');
+      expect(periodKey('never', at, 'Asia/Jakarta')).toBe('');
+      expect(periodEnd('monthly', at, 'Asia/Jakarta')?.toISOString()).toBe(
+        '2026-11-30T17:00:00.000Z',
+      );
+      expect(periodEnd('never', at, 'Asia/Jakarta')).toBeNull();
+    });
+
+    it('should render numbers and insist on the outlet and sequence tokens', () => {
+      // Act
+      const number = formatDocumentNumber('{prefix}-{outlet}-{YY}{MM}{DD}-{seq}', {
+        prefix: 'INV',
+        outletCode: 'JKT1',
+        sequence: 42,
+        padding: 4,
+        localDate: '2026-10-19',
+      });
+
+      // Assert
+      expect(number).toBe('INV-JKT1-261019-0042');
+      expect(validateNumberingFormat('{prefix}/{outlet}/{seq}', 'never')).toBeNull();
+      expect(validateNumberingFormat('{prefix}/{seq}', 'never')).toMatch(/\{outlet\}/);
+      expect(validateNumberingFormat('{outlet}/{seq}', 'never')).toMatch(/\{prefix\}/);
+      expect(validateNumberingFormat('{prefix}/{outlet}/{week}/{seq}', 'never')).toMatch(
+        /\{week\}/,
+      );
+    });
+
+    it('should insist on the date tokens of the reset period', () => {
+      // Act & Assert
+      expect(validateNumberingFormat('{prefix}/{outlet}/{seq}', 'monthly')).toBe(
+        'A monthly series needs {YYYY} or {YY}, {MM} in the number format',
+      );
+      expect(validateNumberingFormat('{prefix}/{outlet}/{YY}{MM}/{seq}', 'daily')).toMatch(
+        /\{DD\}/,
+      );
+      expect(validateNumberingFormat('{prefix}/{outlet}/{YY}{MM}/{seq}', 'monthly')).toBeNull();
+      expect(validateNumberingFormat('{prefix}/{outlet}/{YYYY}/{seq}', 'yearly')).toBeNull();
+    });
+
+    it('should report missing sequences including a trailing gap', () => {
+      // Act & Assert
+      expect(missingRanges([1, 2, 5, 6, 9], 11)).toEqual([
+        { from: 3, to: 4 },
+        { from: 7, to: 8 },
+        { from: 10, to: 11 },
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // allocate
+  // ==========================================================================
+
+  describe('allocate', () => {
+    it('should take the next number of the series and record it as issued', async () => {
+      // Act
+      const number = await service.allocate(tx as never, {
+        outletId: 'outlet-1',
+        documentType: 'sale',
+        documentId: 'txn-1',
+      });
+
+      // Assert
+      const period = currentPeriod();
+      expect(number).toBe(`INV/JKT1/${period}/00042`);
+      expect(tx.numberingSeries.updateMany).not.toHaveBeenCalled();
+      expect(tx.documentNumber.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          seriesId: 'series-1',
+          period,
+          sequence: 42,
+          status: 'issued',
+          documentId: 'txn-1',
+        }),
+      });
+    });
+
+    it('should restart the counter on the first document of a new period', async () => {
+      // Arrange
+      tx.numberingSeries.findUniqueOrThrow.mockResolvedValue(
+        series({ currentPeriod: '200001', lastNumber: 812 }),
+      );
+      tx.numberingSeries.update.mockResolvedValue(series({ lastNumber: 1 }));
+
+      // Act
+      const number = await service.allocate(tx as never, {
+        outletId: 'outlet-1',
+        documentType: 'sale',
+        documentId: 'txn-1',
+      });
+
+      // Assert
+      expect(tx.numberingSeries.updateMany).toHaveBeenCalledWith({
+        where: { id: 'series-1', currentPeriod: '200001' },
+        data: { currentPeriod: currentPeriod(), lastNumber: 0 },
+      });
+      expect(number).toMatch(/\/00001$/);
+    });
+
+    it('should claim the number an offline device printed from its block', async () => {
+      // Arrange
+      tx.documentNumber.findUnique.mockResolvedValue({
+        id: 'num-7',
+        number: 'INV/JKT1/202610/00007',
+        block: { deviceId: 'device-1' },
+        series: { outletId: 'outlet-1', documentType: 'sale' },
+      });
+
+      // Act
+      const number = await service.allocate(tx as never, {
+        outletId: 'outlet-1',
+        documentType: 'sale',
+        documentId: 'txn-offline',
+        deviceId: 'device-1',
+        reservedNumber: 'INV/JKT1/202610/00007',
+      });
+
+      // Assert
+      expect(number).toBe('INV/JKT1/202610/00007');
+      expect(tx.documentNumber.updateMany).toHaveBeenCalledWith({
+        where: { id: 'num-7', status: { in: ['reserved', 'unused'] } },
+        data: expect.objectContaining({ status: 'issued', documentId: 'txn-offline' }),
+      });
+      expect(tx.numberingSeries.update).not.toHaveBeenCalled();
+    });
+
+    it('should issue a fresh number when the printed one belongs to another device', async () => {
+      // Arrange
+      tx.documentNumber.findUnique.mockResolvedValue({
+        id: 'num-7',
+        number: 'INV/JKT1/202610/00007',
+        block: { deviceId: 'device-2' },
+        series: { outletId: 'outlet-1', documentType: 'sale' },
+      });
+
+      // Act
+      const number = await service.allocate(tx as never, {
+        outletId: 'outlet-1',
+        documentType: 'sale',
+        documentId: 'txn-offline',
+        deviceId: 'device-1',
+        reservedNumber: 'INV/JKT1/202610/00007',
+      });
+
+      // Assert
+      expect(number).toMatch(/\/00042$/);
+      expect(tx.documentNumber.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // reserveBlock / updateSeries
+  // ==========================================================================
+
+  describe('reserveBlock', () => {
+    it('should advance the series by the block size and hold the numbers as reserved', async () => {
+      // Act
+      const block = await service.reserveBlock(
+        { outletId: 'outlet-1', deviceId: 'device-1', size: 3 },
+        user,
+      );
+
+      // Assert
+      expect(tx.numberingSeries.update).toHaveBeenCalledWith({
+        where: { id: 'series-1' },
+        data: { lastNumber: { increment: 3 } },
+      });
+      expect(block).toMatchObject({ startSequence: 42, endSequence: 44, deviceId: 'device-1' });
+      expect(block.numbers).toHaveLength(3);
+      expect(tx.documentNumber.createMany).toHaveBeenCalledWith({
+        data: [42, 43, 44].map((sequence) =>
+          expect.objectContaining({ sequence, status: 'reserved', blockId: 'block-1' }),
+        ),
+      });
+    });
+
+    it('should refuse a device of another outlet', async () => {
+      // Arrange
+      (mockPrisma.device.findFirst as jest.Mock).mockResolvedValue({
+        id: 'device-1',
+        outletId: 'outlet-2',
+      });
+
+      // Act & Assert
+      await expect(
+        service.reserveBlock({ outletId: 'outlet-1', deviceId: 'device-1' }, user),
+      ).rejects.toThrow(BusinessError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSeries', () => {
+    it("should not reuse another document type's prefix", async () => {
+      // Arrange
+      (mockPrisma.numberingSeries.findMany as jest.Mock).mockResolvedValue([
+        { documentType: 'sale', prefix: 'INV' },
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.updateSeries('biz-1', {
+          outletId: 'outlet-1',
+          documentType: 'refund',
+          prefix: 'inv',
+        }),
+      ).rejects.toThrow('Prefix "inv" is already used by the sale series of this outlet');
+      expect(mockPrisma.numberingSeries.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject a format that repeats numbers after the period resets', async () => {
+      // Act & Assert
+      await expect(
+        service.updateSeries('biz-1', {
+          outletId: 'outlet-1',
+          documentType: 'sale',
+          format: '{prefix}/{outlet}/{seq}',
+        }),
+      ).rejects.toThrow('A monthly series needs');
+    });
+
+    it('should not change the reset period of a series that has issued numbers', async () => {
+      // Arrange
+      (mockPrisma.numberingSeries.findUnique as jest.Mock).mockResolvedValue(series());
+
+      // Act & Assert
+      await expect(
+        service.updateSeries('biz-1', {
+          outletId: 'outlet-1',
+          documentType: 'sale',
+          resetPeriod: 'yearly',
+        }),
+      ).rejects.toThrow('The reset period cannot change once the series has issued numbers');
+      expect(mockPrisma.numberingSeries.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // integrityReport
+  // ==========================================================================
+
+  describe('integrityReport', () => {
+    it('should separate missing numbers from unused block numbers', async () => {
+      // Arrange - 1-2 issued, 3 unused, 4 never recorded, counter at 6
+      const period = currentPeriod();
+      (mockPrisma.numberingSeries.findMany as jest.Mock).mockResolvedValue([
+        series({ lastNumber: 6 }),
+      ]);
+      (mockPrisma.documentNumber.findMany as jest.Mock).mockResolvedValue([
+        { period, sequence: 1, status: 'issued', documentId: 'txn-1' },
+        { period, sequence: 2, status: 'issued', documentId: 'txn-2' },
+        { period, sequence: 3, status: 'unused', documentId: null },
+        { period, sequence: 5, status: 'issued', documentId: 'txn-5' },
+      ]);
+      (mockPrisma.transaction.findMany as jest.Mock).mockResolvedValue([
+        { id: 'txn-1' },
+        { id: 'txn-2' },
+      ]);
+
+      // Act
+      const report = await service.integrityReport('biz-1', { outletId: 'outlet-1' });
+
+      // Assert
+      const [sale] = report.series;
+      expect(sale.periods[0]).toMatchObject({
+        period,
+        last: 6,
+        issued: 3,
+        missing: [
+          { from: 4, to: 4 },
+          { from: 6, to: 6 },
+        ],
+        unused: [{ from: 3, to: 3 }],
+        documentsMissing: [5],
+      });
+      expect(sale.unusedCount).toBe(1);
+      expect(report.hasGaps).toBe(true);
+    });
+  });
+});
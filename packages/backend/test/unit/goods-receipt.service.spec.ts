@@ -0,0 +1,294 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { GoodsReceiptService } from '../../src/modules/suppliers/goods-receipt.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { EventBusService } from '../../src/infrastructure/events/event-bus.service';
+import { BinStockService } from '../../src/modules/warehouses/bin-stock.service';
+import { StockLevelChangedEvent } from '../../src/domain/events/stock-level-changed.event';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+
+describe('GoodsReceiptService', () => {
+  let service: GoodsReceiptService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockEventBus: jest.Mocked<EventBusService>;
+  let mockBinStock: jest.Mocked<BinStockService>;
+  let tx: Record<string, Record<string, jest.Mock>>;
+  let queryRaw: jest.Mock;
+
+  const user: AuthUser = {
+    employeeId: 'emp-1',
+    businessId: 'biz-1',
+    outletId: 'outlet-1',
+    role: 'inventory',
+  } as AuthUser;
+
+  const decimal = (value: number) => new Prisma.Decimal(value);
+
+  const buildPO = (overrides: Record<string, unknown> = {}) => ({
+    id: 'po-1',
+    poNumber: 'PO-001',
+    outletId: 'outlet-1',
+    status: 'ordered',
+    outlet: { businessId: 'biz-1' },
+    items: [
+      {
+        id: 'poi-1',
+        itemName: 'Coffee Beans',
+        productId: 'prod-1',
+        variantId: null,
+        ingredientId: null,
+        quantityOrdered: decimal(10),
+        quantityReceived: decimal(0),
+        unitCost: decimal(100000),
+      },
+      {
+        id: 'poi-2',
+        itemName: 'Milk',
+        productId: null,
+        variantId: null,
+        ingredientId: 'ing-1',
+        quantityOrdered: decimal(20),
+        quantityReceived: decimal(0),
+        unitCost: decimal(25000),
+      },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    queryRaw = jest.fn().mockResolvedValue([]);
+    tx = {
+      goodsReceivedNote: {
+        create: jest.fn().mockResolvedValue({ id: 'grn-1' }),
+        count: jest.fn().mockResolvedValue(0),
+      },
+      purchaseOrderItem: { update: jest.fn() },
+      purchaseOrder: {
+        findUniqueOrThrow: jest.fn().mockImplementation(() => Promise.resolve(buildPO())),
+        update: jest.fn(),
+      },
+      stockLevel: {
+        aggregate: jest.fn().mockResolvedValue({ _sum: { quantity: decimal(10) } }),
+        findFirst: jest.fn().mockResolvedValue({ id: 'sl-1', quantity: decimal(10) }),
+        update: jest.fn(),
+        create: jest.fn(),
+      },
+      stockMovement: { create: jest.fn() },
+      product: {
+        findUnique: jest.fn().mockResolvedValue({ costPrice: decimal(90000) }),
+        update: jest.fn(),
+      },
+      productVariant: { findUnique: jest.fn(), update: jest.fn() },
+      ingredientStockLevel: {
+        aggregate: jest.fn().mockResolvedValue({ _sum: { quantity: null } }),
+        upsert: jest.fn(),
+      },
+      ingredientStockMovement: { create: jest.fn() },
+      ingredient: {
+        findUnique: jest.fn().mockResolvedValue({ costPerUnit: decimal(20000) }),
+        update: jest.fn(),
+      },
+    };
+
+    mockPrisma = {
+      purchaseOrder: { findUnique: jest.fn().mockResolvedValue(buildPO()) },
+      goodsReceivedNote: { findMany: jest.fn() },
+      $transaction: jest.fn((fn: (client: unknown) => unknown) =>
+        fn(Object.assign(tx, { $queryRaw: queryRaw })),
+      ),
+    } as unknown as jest.Mocked<PrismaService>;
+
+    mockEventBus = {
+      publish: jest.fn(),
+    } as unknown as jest.Mocked<EventBusService>;
+
+    mockBinStock = {
+      putawayReceived: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<BinStockService>;
+
+    service = new GoodsReceiptService(mockPrisma, mockEventBus, mockBinStock);
+  });
+
+  describe('receive', () => {
+    it('should mark the PO partial and book only the delivered quantity', async () => {
+      // Act
+      const result = await service.receive(
+        'po-1',
+        {
+          items: [{ purchaseOrderItemId: 'poi-1', quantityReceived: 4, quantityDamaged: 1 }],
+        },
+        user,
+      );
+
+      // Assert
+      expect(result.poStatus).toBe('partial');
+      expect(result.lines[0]).toMatchObject({ quantityReceived: 4, outstandingQuantity: 6 });
+      expect(tx.purchaseOrderItem.update).toHaveBeenCalledWith({
+        where: { id: 'poi-1' },
+        data: { quantityReceived: { increment: 4 } },
+      });
+      expect(tx.stockLevel.update).toHaveBeenCalledWith({
+        where: { id: 'sl-1' },
+        data: { quantity: { increment: 4 } },
+      });
+      expect(tx.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          movementType: 'purchase',
+          quantity: 4,
+          referenceId: 'grn-1',
+          referenceType: 'goods_received_note',
+        }),
+      });
+      expect(tx.purchaseOrder.update).toHaveBeenCalledWith({
+        where: { id: 'po-1' },
+        data: { status: 'partial', receivedAt: null },
+      });
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(StockLevelChangedEvent));
+    });
+
+    it('should put received products away into the suggested bin', async () => {
+      // Arrange
+      const putaway = { binId: 'bin-1', binCode: 'R-01', quantity: 4 };
+      mockBinStock.putawayReceived.mockResolvedValue(putaway);
+
+      // Act
+      const result = await service.receive(
+        'po-1',
+        { items: [{ purchaseOrderItemId: 'poi-1', quantityReceived: 4 }] },
+        user,
+      );
+
+      // Assert
+      expect(mockBinStock.putawayReceived).toHaveBeenCalledWith(tx, 'outlet-1', 'prod-1', null, 4);
+      expect(result.lines[0].putaway).toEqual(putaway);
+    });
+
+    it('should receive every outstanding quantity when no lines are given', async () => {
+      // Arrange
+      const po = buildPO({ status: 'partial' });
+      po.items[0].quantityReceived = decimal(4);
+      (mockPrisma.purchaseOrder.findUnique as jest.Mock).mockResolvedValue(po);
+      tx.purchaseOrder.findUniqueOrThrow.mockResolvedValue(po);
+
+      // Act
+      const result = await service.receive('po-1', {}, user);
+
+      // Assert
+      expect(result.poStatus).toBe('received');
+      expect(result.lines.map((l) => l.quantityReceived)).toEqual([6, 20]);
+      expect(tx.purchaseOrder.update).toHaveBeenCalledWith({
+        where: { id: 'po-1' },
+        data: { status: 'received', receivedAt: expect.any(Date) },
+      });
+      expect(tx.ingredientStockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ ingredientId: 'ing-1', quantity: 20 }),
+      });
+    });
+
+    it('should allocate landed cost by value and roll it into the average cost', async () => {
+      // Act
+      const result = await service.receive(
+        'po-1',
+        {
+          items: [
+            { purchaseOrderItemId: 'poi-1', quantityReceived: 10 },
+            { purchaseOrderItemId: 'poi-2', quantityReceived: 20 },
+          ],
+          freightCost: 100000,
+          otherCost: 50000,
+        },
+        user,
+      );
+
+      // Assert - 1,000,000 and 500,000 of goods split 150,000 two to one
+      expect(result.lines.map((l) => l.landedCost)).toEqual([100000, 50000]);
+      expect(result.lines.map((l) => l.landedUnitCost)).toEqual([110000, 27500]);
+
+      // 10 on hand at 90,000 plus 10 received at 110,000
+      expect(tx.product.update).toHaveBeenCalledWith({
+        where: { id: 'prod-1' },
+        data: { costPrice: 100000 },
+      });
+      // No ingredient stock yet, so the landed cost becomes the cost
+      expect(tx.ingredient.update).toHaveBeenCalledWith({
+        where: { id: 'ing-1' },
+        data: { costPerUnit: 27500 },
+      });
+    });
+
+    it('should reject receiving more than is outstanding', async () => {
+      // Act & Assert
+      await expect(
+        service.receive(
+          'po-1',
+          { items: [{ purchaseOrderItemId: 'poi-1', quantityReceived: 11 }] },
+          user,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should number receipts in sequence per purchase order', async () => {
+      // Arrange
+      tx.goodsReceivedNote.count.mockResolvedValue(2);
+
+      // Act
+      const result = await service.receive('po-1', {}, user);
+
+      // Assert
+      expect(queryRaw).toHaveBeenCalled();
+      expect(result.grnNumber).toBe('GRN-PO-001-03');
+      expect(tx.goodsReceivedNote.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ grnNumber: 'GRN-PO-001-03' }),
+      });
+    });
+
+    it('should recheck outstanding quantities under the PO lock', async () => {
+      // Arrange - another receipt booked 8 of the 10 while this one waited for the lock
+      const received = buildPO();
+      received.items[0].quantityReceived = decimal(8);
+      tx.purchaseOrder.findUniqueOrThrow.mockResolvedValue(received);
+
+      // Act & Assert
+      await expect(
+        service.receive(
+          'po-1',
+          { items: [{ purchaseOrderItemId: 'poi-1', quantityReceived: 4 }] },
+          user,
+        ),
+      ).rejects.toThrow('exceeds outstanding 2');
+      expect(tx.goodsReceivedNote.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject lines that belong to another purchase order', async () => {
+      // Act & Assert
+      await expect(
+        service.receive(
+          'po-1',
+          { items: [{ purchaseOrderItemId: 'other', quantityReceived: 1 }] },
+          user,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse purchase orders that are not ordered yet', async () => {
+      // Arrange
+      (mockPrisma.purchaseOrder.findUnique as jest.Mock).mockResolvedValue(
+        buildPO({ status: 'draft' }),
+      );
+
+      // Act & Assert
+      await expect(service.receive('po-1', {}, user)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should hide purchase orders from other businesses', async () => {
+      // Arrange
+      (mockPrisma.purchaseOrder.findUnique as jest.Mock).mockResolvedValue(
+        buildPO({ outlet: { businessId: 'biz-2' } }),
+      );
+
+      // Act & Assert
+      await expect(service.receive('po-1', {}, user)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
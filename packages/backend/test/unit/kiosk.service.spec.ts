@@ -0,0 +1,432 @@
+import { KioskService } from '../../src/modules/kiosk/kiosk.service';
+import { assistReasons } from '../../src/modules/kiosk/kiosk.util';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { EventBusService } from '../../src/infrastructure/events/event-bus.service';
+import { PaymentGatewayFactory } from '../../src/infrastructure/services/payment/payment-gateway.factory';
+import { CreateTransactionUseCase } from '../../src/application/use-cases/pos/create-transaction.use-case';
+import { ManagerOverrideService } from '../../src/modules/overrides/manager-override.service';
+import { ScalesService } from '../../src/modules/scales/scales.service';
+import { KioskAssistRequestedEvent } from '../../src/domain/events/kiosk-assist-requested.event';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+
+describe('KioskService', () => {
+  let service: KioskService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let eventBus: EventBusService;
+  let gateway: { processPayment: jest.Mock; checkStatus: jest.Mock; refundPayment: jest.Mock };
+  let createTransaction: { execute: jest.Mock };
+  let scales: { resolve: jest.Mock };
+
+  const user = {
+    employeeId: 'kiosk-employee',
+    businessId: 'business-1',
+    outletId: 'outlet-1',
+    role: 'cashier',
+  } as AuthUser;
+
+  const kiosk = { id: 'device-1', outletId: 'outlet-1', deviceName: 'Kiosk 1' };
+
+  const coffee = {
+    id: 'product-1',
+    categoryId: null,
+    name: 'Kopi Susu',
+    description: null,
+    imageUrl: null,
+    basePrice: 20000,
+    sellUnit: 'cup',
+    isWeighed: false,
+    minimumAge: null,
+    variants: [{ id: 'variant-large', name: 'Large', price: 25000 }],
+    productModifierGroups: [
+      {
+        modifierGroup: {
+          id: 'group-1',
+          name: 'Extra',
+          selectionType: 'multiple',
+          minSelection: 0,
+          maxSelection: null,
+          isRequired: false,
+          modifiers: [{ id: 'mod-shot', name: 'Extra shot', price: 5000 }],
+        },
+      },
+    ],
+  };
+  const beer = {
+    ...coffee,
+    id: 'product-2',
+    name: 'Bir',
+    basePrice: 30000,
+    minimumAge: 21,
+    variants: [],
+    productModifierGroups: [],
+  };
+  const bread = {
+    ...coffee,
+    id: 'product-3',
+    name: 'Roti Gandum',
+    basePrice: 40000,
+    sellUnit: 'kg',
+    isWeighed: true,
+    variants: [],
+    productModifierGroups: [],
+  };
+
+  const session = (overrides: Record<string, unknown> = {}) => ({
+    id: 'session-1',
+    businessId: 'business-1',
+    outletId: 'outlet-1',
+    deviceId: 'device-1',
+    shiftId: 'shift-1',
+    status: 'active',
+    customerId: null,
+    cart: null,
+    amount: null,
+    paymentMethod: null,
+    paymentRef: null,
+    assistReason: null,
+    device: { deviceName: 'Kiosk 1' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      device: { findFirst: jest.fn().mockResolvedValue(kiosk) },
+      outlet: { findUnique: jest.fn().mockResolvedValue({ locationType: 'store' }) },
+      shift: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({ id: 'shift-new' }),
+      },
+      product: { findMany: jest.fn().mockResolvedValue([coffee, beer]) },
+      customer: { findFirst: jest.fn() },
+      kioskSession: {
+        findFirst: jest.fn().mockResolvedValue(session()),
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) =>
+            Promise.resolve({ id: 'session-1', startedAt: new Date(), ...data }),
+          ),
+        update: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    eventBus = new EventBusService();
+    gateway = {
+      processPayment: jest.fn().mockResolvedValue({
+        success: true,
+        transactionRef: 'qr-ref-1',
+        paymentData: { qrString: '00020101021226...' },
+      }),
+      checkStatus: jest.fn().mockResolvedValue('pending'),
+      refundPayment: jest.fn(),
+    };
+    createTransaction = {
+      execute: jest.fn().mockResolvedValue({
+        transactionId: 'session-1',
+        receiptNumber: 'R-0001',
+        grandTotal: 33300,
+        change: 0,
+        loyaltyPointsEarned: 3,
+      }),
+    };
+
+    scales = { resolve: jest.fn().mockResolvedValue(null) };
+    service = new KioskService(
+      mockPrisma,
+      eventBus,
+      { getGateway: () => gateway } as unknown as PaymentGatewayFactory,
+      createTransaction as unknown as CreateTransactionUseCase,
+      {} as ManagerOverrideService,
+      scales as unknown as ScalesService,
+    );
+  });
+
+  describe('assistReasons', () => {
+    it('should flag age-restricted and weighed items', () => {
+      expect(assistReasons({ name: 'Bir', minimumAge: 21, isWeighed: false })).toEqual([
+        'Age check (21+) for Bir',
+      ]);
+      expect(assistReasons({ name: 'Apel', minimumAge: null, isWeighed: true })).toEqual([
+        'Weigh Apel',
+      ]);
+      // Scanned off a scale label, so weighed already
+      expect(assistReasons({ name: 'Apel', minimumAge: null, isWeighed: true }, true)).toEqual([]);
+    });
+  });
+
+  describe('start', () => {
+    it("should open the kiosk's shift on first use and abandon the previous session", async () => {
+      const result = await service.start(user, 'device-1');
+
+      expect(mockPrisma.shift.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          outletId: 'outlet-1',
+          employeeId: 'kiosk-employee',
+          deviceId: 'device-1',
+          openingCash: 0,
+        }),
+      });
+      expect(mockPrisma.kioskSession.updateMany).toHaveBeenCalledWith({
+        where: { deviceId: 'device-1', status: { in: ['active', 'awaiting_payment'] } },
+        data: { status: 'abandoned', endedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.kioskSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ shiftId: 'shift-new', deviceId: 'device-1' }),
+      });
+      expect(result.outletId).toBe('outlet-1');
+    });
+
+    it('should refuse to open a kiosk shift at a warehouse', async () => {
+      (mockPrisma.outlet.findUnique as jest.Mock).mockResolvedValue({ locationType: 'warehouse' });
+
+      await expect(service.start(user, 'device-1')).rejects.toThrow('A warehouse does not sell');
+      expect(mockPrisma.shift.create).not.toHaveBeenCalled();
+    });
+
+    it('should reuse the open kiosk shift', async () => {
+      (mockPrisma.shift.findFirst as jest.Mock).mockResolvedValue({ id: 'shift-1' });
+
+      await service.start(user, 'device-1');
+
+      expect(mockPrisma.shift.create).not.toHaveBeenCalled();
+      expect(mockPrisma.kioskSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ shiftId: 'shift-1' }),
+      });
+    });
+
+    it('should refuse a device that is not a kiosk', async () => {
+      (mockPrisma.device.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.start(user, 'device-2')).rejects.toMatchObject({
+        code: ErrorCode.DEVICE_NOT_REGISTERED,
+      });
+    });
+  });
+
+  describe('quote', () => {
+    it('should price variants and upsell modifiers with tax and list assist reasons', async () => {
+      const quote = await service.quote(user, 'session-1', {
+        items: [
+          {
+            productId: 'product-1',
+            variantId: 'variant-large',
+            modifierIds: ['mod-shot'],
+            quantity: 2,
+          },
+          { productId: 'product-2', quantity: 1 },
+        ],
+      });
+
+      expect(quote.lines[0]).toMatchObject({ unitPrice: 30000, subtotal: 60000 });
+      expect(quote.subtotal).toBe(90000);
+      expect(quote.taxAmount).toBe(9900);
+      expect(quote.total).toBe(99900);
+      expect(quote.assistReasons).toEqual(['Age check (21+) for Bir']);
+    });
+
+    it('should take the quantity of a weighed item off its scale label', async () => {
+      (mockPrisma.product.findMany as jest.Mock).mockResolvedValue([bread]);
+      scales.resolve.mockResolvedValue({
+        productId: 'product-3',
+        type: 'weight',
+        itemCode: '00123',
+        quantity: 0.625,
+        amount: 25000,
+      });
+
+      const quote = await service.quote(user, 'session-1', {
+        items: [{ productId: 'product-3', quantity: 1, label: '2000123006250' }],
+      });
+
+      expect(scales.resolve).toHaveBeenCalledWith('business-1', '2000123006250');
+      expect(quote.lines[0]).toMatchObject({ quantity: 0.625, subtotal: 25000 });
+      expect(quote.assistReasons).toEqual([]);
+    });
+
+    it('should round a weighed line to the cent like the sale does', async () => {
+      (mockPrisma.product.findMany as jest.Mock).mockResolvedValue([
+        { ...bread, basePrice: 12345 },
+      ]);
+      scales.resolve.mockResolvedValue({
+        productId: 'product-3',
+        type: 'weight',
+        itemCode: '00123',
+        quantity: 0.333,
+        amount: 4111,
+      });
+
+      const quote = await service.quote(user, 'session-1', {
+        items: [{ productId: 'product-3', quantity: 1, label: '2000123003330' }],
+      });
+
+      expect(quote.lines[0]).toMatchObject({ quantity: 0.333, subtotal: 4110.89 });
+      expect(quote.taxAmount).toBe(452);
+      expect(quote.total).toBe(4562.89);
+    });
+
+    it('should ask an attendant to weigh an unlabelled weighed item', async () => {
+      (mockPrisma.product.findMany as jest.Mock).mockResolvedValue([bread]);
+
+      const quote = await service.quote(user, 'session-1', {
+        items: [{ productId: 'product-3', quantity: 0.5 }],
+      });
+
+      expect(quote.assistReasons).toEqual(['Weigh Roti Gandum']);
+    });
+
+    it('should refuse a modifier the product does not offer', async () => {
+      await expect(
+        service.quote(user, 'session-1', {
+          items: [{ productId: 'product-2', modifierIds: ['mod-shot'], quantity: 1 }],
+        }),
+      ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should refuse an ended session', async () => {
+      (mockPrisma.kioskSession.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        service.quote(user, 'session-1', { items: [{ productId: 'product-1', quantity: 1 }] }),
+      ).rejects.toMatchObject({ code: ErrorCode.KIOSK_SESSION_NOT_FOUND });
+    });
+  });
+
+  describe('requestAssist', () => {
+    it('should notify the outlet', async () => {
+      const published: KioskAssistRequestedEvent[] = [];
+      eventBus.ofType(KioskAssistRequestedEvent).subscribe((event) => published.push(event));
+
+      await service.requestAssist(user, 'session-1', { reason: 'Age check' });
+
+      expect(published).toHaveLength(1);
+      expect(published[0]).toMatchObject({
+        outletId: 'outlet-1',
+        deviceName: 'Kiosk 1',
+        reason: 'Age check',
+      });
+    });
+  });
+
+  describe('startPayment', () => {
+    it('should need an attendant approval for restricted items', async () => {
+      await expect(
+        service.startPayment(user, 'session-1', {
+          method: 'qris',
+          items: [{ productId: 'product-2', quantity: 1 }],
+        }),
+      ).rejects.toMatchObject({ code: ErrorCode.APPROVAL_REQUIRED });
+      expect(gateway.processPayment).not.toHaveBeenCalled();
+    });
+
+    it('should create a QRIS for the total and wait for payment', async () => {
+      const result = await service.startPayment(user, 'session-1', {
+        method: 'qris',
+        items: [{ productId: 'product-1', quantity: 1 }],
+      });
+
+      expect(gateway.processPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'qris', amount: 22200, referenceNumber: 'session-1' }),
+      );
+      expect(result.qrString).toBe('00020101021226...');
+      expect(mockPrisma.kioskSession.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: expect.objectContaining({
+          status: 'awaiting_payment',
+          amount: 22200,
+          paymentMethod: 'qris',
+          paymentRef: 'qr-ref-1',
+        }),
+      });
+    });
+  });
+
+  describe('complete', () => {
+    const paidCart = [
+      {
+        productId: 'product-2',
+        variantId: null,
+        modifierIds: [],
+        name: 'Bir',
+        variantName: null,
+        modifierNames: [],
+        quantity: 1,
+        unitPrice: 30000,
+        subtotal: 30000,
+        assistReasons: ['Age check (21+) for Bir'],
+      },
+    ];
+
+    beforeEach(() => {
+      (mockPrisma.kioskSession.findFirst as jest.Mock).mockResolvedValue(
+        session({
+          status: 'awaiting_payment',
+          cart: paidCart,
+          amount: 33300,
+          paymentMethod: 'qris',
+          paymentRef: 'qr-ref-1',
+        }),
+      );
+    });
+
+    it('should answer pending until the QRIS is paid', async () => {
+      const result = await service.complete(user, 'session-1', { assistApproval: 'token' });
+
+      expect(result).toEqual({ status: 'pending' });
+      expect(mockPrisma.kioskSession.updateMany).not.toHaveBeenCalled();
+      expect(createTransaction.execute).not.toHaveBeenCalled();
+    });
+
+    it('should book the sale on the kiosk shift with the session id', async () => {
+      gateway.checkStatus.mockResolvedValue('completed');
+
+      const result = await service.complete(user, 'session-1', { assistApproval: 'token' });
+
+      expect(createTransaction.execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transactionId: 'session-1',
+          shiftId: 'shift-1',
+          employeeId: 'kiosk-employee',
+          payments: [{ method: 'qris', amount: 33300, referenceNumber: 'qr-ref-1' }],
+          approvals: { kioskAssist: 'token' },
+        }),
+      );
+      expect(result).toMatchObject({ status: 'completed', receiptNumber: 'R-0001' });
+    });
+
+    it("should need an attendant's confirmation for a card payment", async () => {
+      (mockPrisma.kioskSession.findFirst as jest.Mock).mockResolvedValue(
+        session({ status: 'awaiting_payment', cart: [], amount: 22200, paymentMethod: 'card' }),
+      );
+
+      await expect(
+        service.complete(user, 'session-1', { cardApprovalCode: 'ANY123' }),
+      ).rejects.toMatchObject({ code: ErrorCode.APPROVAL_REQUIRED });
+      expect(mockPrisma.kioskSession.updateMany).not.toHaveBeenCalled();
+
+      await service.complete(user, 'session-1', {
+        cardApprovalCode: 'ANY123',
+        cardApproval: 'card-token',
+      });
+      expect(createTransaction.execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payments: [{ method: 'card', amount: 22200, referenceNumber: 'ANY123' }],
+          approvals: { kioskAssist: undefined, kioskCard: 'card-token' },
+        }),
+      );
+    });
+
+    it('should put the session back when the sale cannot be booked', async () => {
+      gateway.checkStatus.mockResolvedValue('completed');
+      createTransaction.execute.mockRejectedValue(new Error('out of stock'));
+
+      await expect(
+        service.complete(user, 'session-1', { assistApproval: 'token' }),
+      ).rejects.toThrow('out of stock');
+      expect(mockPrisma.kioskSession.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { status: 'awaiting_payment', endedAt: null },
+      });
+    });
+  });
+});
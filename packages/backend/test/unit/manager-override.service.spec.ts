@@ -0,0 +1,237 @@
+import * as bcrypt from 'bcrypt';
+import { createHash } from 'crypto';
+import {
+  ManagerOverrideService,
+  assertApprovalProvided,
+} from '../../src/modules/overrides/manager-override.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { PermissionsService } from '../../src/modules/permissions/permissions.service';
+import { MfaService } from '../../src/modules/auth/mfa/mfa.service';
+import { AppError } from '../../src/shared/errors/app-error';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+
+describe('ManagerOverrideService', () => {
+  let service: ManagerOverrideService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockPermissions: jest.Mocked<PermissionsService>;
+  let mockMfa: jest.Mocked<MfaService>;
+  let tx: Record<string, Record<string, jest.Mock>>;
+
+  const cashier = {
+    employeeId: 'emp-cashier',
+    businessId: 'biz-1',
+    outletId: 'outlet-1',
+    role: 'cashier',
+  } as AuthUser;
+
+  const supervisor = {
+    id: 'emp-sup',
+    name: 'Sari',
+    role: 'supervisor',
+    outletId: 'outlet-1',
+    pin: bcrypt.hashSync('246810', 4),
+    mfaEnabled: true,
+  };
+
+  beforeEach(() => {
+    tx = {
+      managerOverride: {
+        create: jest.fn().mockImplementation(({ data }) => ({ id: 'ovr-1', ...data })),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUniqueOrThrow: jest.fn().mockResolvedValue({
+          id: 'ovr-1',
+          businessId: 'biz-1',
+          approvedBy: 'emp-sup',
+          method: 'pin',
+        }),
+      },
+      auditLog: { create: jest.fn() },
+      auditOutboxEntry: { create: jest.fn() },
+      auditChainHead: {
+        createMany: jest.fn(),
+        update: jest.fn().mockResolvedValue({ lastSequence: 1, lastHash: '0'.repeat(64) }),
+      },
+    };
+
+    mockPrisma = {
+      $transaction: jest.fn((fn) => fn(tx)),
+      outlet: { findFirst: jest.fn().mockResolvedValue({ id: 'outlet-1' }) },
+      employee: { findFirst: jest.fn().mockResolvedValue(supervisor) },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    mockPermissions = {
+      has: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<PermissionsService>;
+
+    mockMfa = {
+      verifyToken: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<MfaService>;
+
+    service = new ManagerOverrideService(mockPrisma, mockPermissions, mockMfa);
+  });
+
+  // ==========================================================================
+  // approve
+  // ==========================================================================
+
+  describe('approve', () => {
+    it('should issue a token for a correct supervisor PIN and keep only its hash', async () => {
+      // Act
+      const result = await service.approve(cashier, {
+        action: 'void',
+        approverId: 'emp-sup',
+        pin: '246810',
+        referenceId: 'txn-1',
+      });
+
+      // Assert
+      expect(result.approvedBy).toEqual({ id: 'emp-sup', name: 'Sari' });
+      expect(mockPermissions.has).toHaveBeenCalledWith(
+        expect.objectContaining({ employeeId: 'emp-sup', role: 'supervisor' }),
+        'pos.void',
+        'outlet-1',
+      );
+      expect(tx.managerOverride.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'void',
+          requestedBy: 'emp-cashier',
+          approvedBy: 'emp-sup',
+          method: 'pin',
+          referenceId: 'txn-1',
+          tokenHash: createHash('sha256').update(result.approvalToken).digest('hex'),
+        }),
+      });
+      expect(tx.auditOutboxEntry.create).toHaveBeenCalledWith({
+        data: {
+          businessId: 'biz-1',
+          entry: expect.objectContaining({
+            action: 'manager_override_approved',
+            employeeId: 'emp-cashier',
+            newValue: expect.objectContaining({
+              requestedBy: 'emp-cashier',
+              approvedBy: 'emp-sup',
+            }),
+          }),
+        },
+      });
+    });
+
+    it('should verify an authenticator code through MfaService', async () => {
+      // Act
+      await service.approve(cashier, {
+        action: 'refund',
+        approverId: 'emp-sup',
+        totpCode: '123456',
+      });
+
+      // Assert
+      expect(mockMfa.verifyToken).toHaveBeenCalledWith('emp-sup', '123456');
+      expect(tx.managerOverride.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ method: 'totp' }),
+      });
+    });
+
+    it('should log a wrong PIN with both employees and issue nothing', async () => {
+      // Act & Assert
+      await expect(
+        service.approve(cashier, { action: 'void', approverId: 'emp-sup', pin: '000000' }),
+      ).rejects.toThrow('Invalid approver PIN or authenticator code');
+      expect(tx.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'manager_override_denied',
+          employeeId: 'emp-cashier',
+          newValue: expect.objectContaining({ approverId: 'emp-sup' }),
+        }),
+      });
+      expect(tx.managerOverride.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an approver without the permission for the action', async () => {
+      // Arrange
+      mockPermissions.has.mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        service.approve(cashier, { action: 'discount', approverId: 'emp-sup', pin: '246810' }),
+      ).rejects.toThrow('Sari cannot approve a discount');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not let employees approve their own action', async () => {
+      // Act & Assert
+      await expect(
+        service.approve(cashier, {
+          action: 'no_sale',
+          approverId: 'emp-cashier',
+          pin: '246810',
+        }),
+      ).rejects.toThrow(AppError);
+      expect(mockPrisma.employee.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // consume
+  // ==========================================================================
+
+  describe('consume', () => {
+    const input = {
+      token: 'token-1',
+      action: 'void' as const,
+      outletId: 'outlet-1',
+      requestedBy: 'emp-cashier',
+      referenceId: 'txn-1',
+    };
+
+    it('should spend the approval once and audit both employees', async () => {
+      // Act
+      const result = await service.consume(tx as never, input);
+
+      // Assert
+      expect(result).toEqual({ overrideId: 'ovr-1', approvedBy: 'emp-sup' });
+      expect(tx.managerOverride.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          action: 'void',
+          requestedBy: 'emp-cashier',
+          usedAt: null,
+          OR: [{ referenceId: null }, { referenceId: 'txn-1' }],
+        }),
+        data: expect.objectContaining({ referenceId: 'txn-1' }),
+      });
+      expect(tx.auditOutboxEntry.create).toHaveBeenCalledWith({
+        data: {
+          businessId: 'biz-1',
+          entry: expect.objectContaining({
+            action: 'manager_override',
+            employeeId: 'emp-cashier',
+            newValue: expect.objectContaining({ approvedBy: 'emp-sup', referenceId: 'txn-1' }),
+          }),
+        },
+      });
+      expect(tx.auditChainHead.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a used, expired or mismatched approval', async () => {
+      // Arrange
+      tx.managerOverride.updateMany.mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(service.consume(tx as never, input)).rejects.toMatchObject({
+        code: ErrorCode.APPROVAL_INVALID,
+      });
+      expect(tx.auditOutboxEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertApprovalProvided', () => {
+    it('should only demand a token when the action needs approval', () => {
+      // Act & Assert
+      expect(() => assertApprovalProvided('void', false, undefined)).not.toThrow();
+      expect(() => assertApprovalProvided('void', true, 'token-1')).not.toThrow();
+      expect(() => assertApprovalProvided('price_override', true, undefined)).toThrow(
+        "This price override needs a supervisor's approval",
+      );
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { EventEmitter } from 'events';
+import { ConfigService } from '@nestjs/config';
+import { MarketplaceService } from '../../src/infrastructure/services/marketplace/marketplace.service';
+import { GoFoodGateway } from '../../src/infrastructure/services/marketplace/gofood.gateway';
+import { GrabFoodGateway } from '../../src/infrastructure/services/marketplace/grabfood.gateway';
+import { ShopeeFoodGateway } from '../../src/infrastructure/services/marketplace/shopeefood.gateway';
+import { CredentialCipherService } from '../../src/infrastructure/security/credential-cipher.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { AppError, ErrorCode } from '../../src/shared/errors/app-error';
+import {
+  FakeMarketplaceServer,
+  startFakeMarketplaceServer,
+} from '../fakes/fake-marketplace.server';
+
+type ConnectionRow = Record<string, unknown> & { id: string; outletId: string; platform: string };
+
+/**
+ * Runs MarketplaceService against the fake marketplace server with real
+ * gateways and real credential encryption; only Prisma is in-memory.
+ */
+describe('MarketplaceService', () => {
+  let fake: FakeMarketplaceServer;
+  let service: MarketplaceService;
+  let connections: Map<string, ConnectionRow>;
+  let eventEmitter: EventEmitter;
+
+  const outletId = 'outlet-1';
+  const credentials = { merchantId: 'M-001', apiKey: 'key', apiSecret: 'secret' };
+  const key = (where: { outletId_platform?: { outletId: string; platform: string } }) =>
+    `${where.outletId_platform?.outletId}:${where.outletId_platform?.platform}`;
+  const byWhere = (where: {
+    id?: string;
+    outletId_platform?: { outletId: string; platform: string };
+  }) =>
+    where.id
+      ? [...connections.values()].find((c) => c.id === where.id)
+      : connections.get(key(where));
+
+  beforeAll(async () => {
+    fake = await startFakeMarketplaceServer();
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    connections = new Map();
+    eventEmitter = new EventEmitter();
+
+    const mockPrisma = {
+      marketplaceConnection: {
+        upsert: jest.fn(async ({ where, create, update }) => {
+          const existing = connections.get(key(where));
+          const row = existing
+            ? { ...existing, ...update }
+            : {
+                id: `conn-${connections.size + 1}`,
+                lastSyncAt: null,
+                lastMenuSyncAt: null,
+                lastError: null,
+                disconnectedAt: null,
+                ...create,
+              };
+          connections.set(key(where), row);
+          return row;
+        }),
+        update: jest.fn(async ({ where, data }) => {
+          const row = byWhere(where);
+          if (!row) throw new Error('Record not found');
+          Object.assign(row, data);
+          return row;
+        }),
+        findUnique: jest.fn(async ({ where }) => byWhere(where) ?? null),
+        findMany: jest.fn(async ({ where }) =>
+          [...connections.values()].filter(
+            (c) =>
+              (!where.outletId || c.outletId === where.outletId) &&
+              (where.isActive === undefined || c.isActive === where.isActive),
+          ),
+        ),
+      },
+      outlet: {
+        findUnique: jest.fn().mockResolvedValue({ businessId: 'biz-1' }),
+      },
+      outletProduct: {
+        count: jest.fn().mockResolvedValue(0),
+      },
+      product: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            id: 'prod-1',
+            name: 'Nasi Goreng',
+            description: null,
+            basePrice: 25000,
+            imageUrl: null,
+            trackStock: true,
+            hasVariants: false,
+            category: { id: 'cat-1', name: 'Makanan' },
+            variants: [],
+            stockLevels: [{ variantId: null, quantity: 5 }],
+          },
+          {
+            id: 'prod-2',
+            name: 'Es Teh',
+            description: null,
+            basePrice: 8000,
+            imageUrl: null,
+            trackStock: true,
+            hasVariants: false,
+            category: { id: 'cat-2', name: 'Minuman' },
+            variants: [],
+            stockLevels: [],
+          },
+        ]),
+      },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    const config = new ConfigService({
+      INTEGRATION_ENCRYPTION_KEY: 'test-encryption-key',
+      GOFOOD_API_URL: `${fake.baseUrl}/gofood`,
+      GRABFOOD_API_URL: `${fake.baseUrl}/grabfood`,
+      SHOPEEFOOD_API_URL: `${fake.baseUrl}/shopeefood`,
+    });
+
+    service = new MarketplaceService(
+      eventEmitter,
+      mockPrisma,
+      new CredentialCipherService(config),
+      new GoFoodGateway(config),
+      new GrabFoodGateway(config),
+      new ShopeeFoodGateway(config),
+    );
+  });
+
+  describe('connect', () => {
+    it('should store encrypted credentials and report the platform as connected', async () => {
+      // Act
+      const status = await service.connect(outletId, 'gofood', credentials, 'emp-1');
+
+      // Assert
+      expect(status).toMatchObject({ platform: 'gofood', connected: true, merchantId: 'M-001' });
+      expect(status.tokenExpiresAt).toBeInstanceOf(Date);
+
+      const stored = connections.get(`${outletId}:gofood`);
+      expect(stored?.credentials).toMatch(/^v1:/);
+      expect(stored?.credentials).not.toContain('secret');
+    });
+
+    it('should not persist anything when the platform rejects the credentials', async () => {
+      // Act & Assert
+      await expect(
+        service.connect(outletId, 'grabfood', { ...credentials, apiSecret: 'invalid' }),
+      ).rejects.toMatchObject({ code: ErrorCode.MARKETPLACE_REQUEST_FAILED });
+      expect(connections.size).toBe(0);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report every platform with its connection state', async () => {
+      // Arrange
+      await service.connect(outletId, 'shopeefood', credentials);
+
+      // Act
+      const statuses = await service.getStatus(outletId);
+
+      // Assert
+      expect(statuses.map((s) => [s.platform, s.connected])).toEqual([
+        ['gofood', false],
+        ['grabfood', false],
+        ['shopeefood', true],
+      ]);
+    });
+  });
+
+  describe('full order flow', () => {
+    it.each([
+      ['gofood', 'GF-1001', 'READY_FOR_PICKUP', (o: Record<string, unknown>) => o.status],
+      ['grabfood', 'GRB-2001', 'READY', (o: Record<string, unknown>) => o.orderState],
+      ['shopeefood', '3001', 3, (o: Record<string, unknown>) => o.status],
+    ] as const)(
+      'should sync menu, fetch, accept and update orders on %s',
+      async (platform, externalId, readyStatus, readStatus) => {
+        // Arrange
+        await service.connect(outletId, platform, credentials);
+
+        // Act - menu sync
+        const [syncResult] = await service.syncMenu(outletId, platform);
+
+        // Assert
+        expect(syncResult.itemCount).toBe(2);
+        expect(fake.state[platform].menu).toHaveLength(2);
+
+        // Act - orders
+        const orders = await service.fetchNewOrders(outletId, platform);
+        const accepted = jest.fn();
+        eventEmitter.on('marketplace.order.accepted', accepted);
+        await service.acceptOrder(outletId, platform, orders[0].externalId);
+        await service.updateOrderStatus(outletId, platform, orders[0].externalId, 'ready');
+
+        // Assert
+        expect(orders).toHaveLength(1);
+        expect(orders[0]).toMatchObject({ externalId: externalId, platform, status: 'new' });
+        expect(accepted).toHaveBeenCalledWith({ outletId, platform, orderId: externalId });
+        expect(readStatus(fake.state[platform].orders.get(externalId)!)).toBe(readyStatus);
+
+        const status = connections.get(`${outletId}:${platform}`);
+        expect(status?.lastMenuSyncAt).toBeInstanceOf(Date);
+        expect(status?.lastSyncAt).toBeInstanceOf(Date);
+        expect(status?.lastError).toBeNull();
+      },
+    );
+
+    it('should refresh an expiring token before calling the platform', async () => {
+      // Arrange
+      await service.connect(outletId, 'gofood', credentials);
+      const row = connections.get(`${outletId}:gofood`)!;
+      const cipher = new CredentialCipherService(
+        new ConfigService({ INTEGRATION_ENCRYPTION_KEY: 'test-encryption-key' }),
+      );
+      const stored = cipher.decryptJson<Record<string, unknown>>(row.credentials as string);
+      row.credentials = cipher.encryptJson({ ...stored, expiresAt: new Date().toISOString() });
+
+      // Act
+      await service.fetchNewOrders(outletId, 'gofood');
+
+      // Assert
+      const refreshed = cipher.decryptJson<Record<string, unknown>>(row.credentials as string);
+      expect(refreshed.accessToken).not.toBe(stored.accessToken);
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should wipe credentials and block further calls', async () => {
+      // Arrange
+      await service.connect(outletId, 'gofood', credentials);
+
+      // Act
+      await service.disconnect(outletId, 'gofood');
+
+      // Assert
+      const row = connections.get(`${outletId}:gofood`);
+      expect(row).toMatchObject({ isActive: false, credentials: null });
+      expect(row?.disconnectedAt).toBeInstanceOf(Date);
+      await expect(service.fetchNewOrders(outletId, 'gofood')).rejects.toBeInstanceOf(AppError);
+    });
+
+    it('should throw when the platform is not connected', async () => {
+      // Act & Assert
+      await expect(service.disconnect(outletId, 'grabfood')).rejects.toMatchObject({
+        code: ErrorCode.MARKETPLACE_NOT_CONNECTED,
+      });
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { ForbiddenException, type ExecutionContext } from '@nestjs/common';
+import type { Reflector } from '@nestjs/core';
+import { PermissionsService } from '../../src/modules/permissions/permissions.service';
+import { PermissionsGuard } from '../../src/infrastructure/auth/permissions.guard';
+import {
+  PERMISSIONS_KEY,
+  type PermissionOutletTarget,
+} from '../../src/infrastructure/auth/require-permission.decorator';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { RedisService } from '../../src/infrastructure/cache/redis.service';
+import { ALL_PERMISSIONS, defaultPermissionsFor } from '../../src/shared/constants/permissions';
+import { AppError } from '../../src/shared/errors/app-error';
+import { BusinessError } from '../../src/shared/errors/business-error';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+
+describe('PermissionsService', () => {
+  let service: PermissionsService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockRedis: jest.Mocked<RedisService>;
+
+  const asRole = (role: string, outletId = 'outlet-1') =>
+    ({ employeeId: 'emp-1', businessId: 'biz-1', outletId, role }) as AuthUser;
+
+  beforeEach(() => {
+    mockPrisma = {
+      $transaction: jest.fn().mockResolvedValue([]),
+      role: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+      },
+      employeeRoleAssignment: {
+        findMany: jest.fn().mockResolvedValue([]),
+        deleteMany: jest.fn(),
+        createMany: jest.fn(),
+      },
+      employee: { findFirst: jest.fn().mockResolvedValue({ id: 'emp-2' }) },
+      outlet: { count: jest.fn().mockResolvedValue(0) },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    mockRedis = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn(),
+      invalidatePattern: jest.fn(),
+    } as unknown as jest.Mocked<RedisService>;
+
+    service = new PermissionsService(mockPrisma, mockRedis);
+  });
+
+  // ==========================================================================
+  // resolve
+  // ==========================================================================
+
+  describe('resolve', () => {
+    it('should keep the access the built-in roles had before customisation', async () => {
+      // Act
+      const cashier = await service.resolve(asRole('cashier'), 'outlet-1');
+      const supervisor = await service.resolve(asRole('supervisor'), 'outlet-1');
+
+      // Assert
+      expect(cashier.has('pos.sale')).toBe(true);
+      expect(cashier.has('pos.void')).toBe(false);
+      expect(supervisor.has('pos.void')).toBe(true);
+      expect(supervisor.has('inventory.adjust')).toBe(false);
+    });
+
+    it('should give owners every permission without loading roles', async () => {
+      // Act
+      const granted = await service.resolve(asRole('owner'), 'outlet-1');
+
+      // Assert
+      expect(granted.size).toBe(ALL_PERMISSIONS.length);
+      expect(mockPrisma.role.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should use the business customisation of a built-in role', async () => {
+      // Arrange
+      (mockPrisma.role.findFirst as jest.Mock).mockResolvedValue({
+        permissions: ['pos.sale', 'pos.void'],
+      });
+
+      // Act
+      const granted = await service.resolve(asRole('cashier'), 'outlet-1');
+
+      // Assert
+      expect([...granted]).toEqual(['pos.sale', 'pos.void']);
+    });
+
+    it('should apply an outlet-scoped role only at its outlet', async () => {
+      // Arrange
+      (mockPrisma.employeeRoleAssignment.findMany as jest.Mock).mockResolvedValue([
+        { outletId: 'outlet-2', role: { permissions: ['reports.financial.view'] } },
+        { outletId: null, role: { permissions: ['inventory.adjust'] } },
+      ]);
+
+      // Act
+      const atHome = await service.resolve(asRole('cashier'), 'outlet-1');
+      const atOther = await service.resolve(asRole('cashier'), 'outlet-2');
+
+      // Assert
+      expect(atHome.has('inventory.adjust')).toBe(true);
+      expect(atHome.has('reports.financial.view')).toBe(false);
+      expect(atOther.has('reports.financial.view')).toBe(true);
+    });
+
+    it('should serve cached grants without querying roles', async () => {
+      // Arrange
+      mockRedis.get.mockResolvedValue({ base: ['pos.sale'], assignments: [] });
+
+      // Act
+      const granted = await service.resolve(asRole('cashier'), 'outlet-1');
+
+      // Assert
+      expect([...granted]).toEqual(['pos.sale']);
+      expect(mockPrisma.role.findFirst).not.toHaveBeenCalled();
+      expect(mockRedis.set).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // Roles and assignments
+  // ==========================================================================
+
+  describe('createRole', () => {
+    it('should stop a manager from granting permissions they do not hold', async () => {
+      // Act & Assert
+      await expect(
+        service.createRole(asRole('manager'), {
+          name: 'Closer',
+          permissions: ['pos.void', 'roles.manage'],
+        }),
+      ).rejects.toThrow(AppError);
+      expect(mockPrisma.role.create).not.toHaveBeenCalled();
+    });
+
+    it('should reserve built-in role names', async () => {
+      // Act & Assert
+      await expect(
+        service.createRole(asRole('owner'), { name: 'Cashier', permissions: ['pos.sale'] }),
+      ).rejects.toThrow('Cashier is a built-in role');
+    });
+  });
+
+  describe('setEmployeeRoles', () => {
+    it('should refuse roles that belong to another business', async () => {
+      // Arrange - only one of the two requested roles is found for this business
+      (mockPrisma.role.findMany as jest.Mock).mockResolvedValue([
+        { id: 'role-1', permissions: ['pos.void'] },
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.setEmployeeRoles(asRole('owner'), 'emp-2', {
+          assignments: [{ roleId: 'role-1' }, { roleId: 'role-foreign', outletId: 'outlet-1' }],
+        }),
+      ).rejects.toThrow(BusinessError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should check an all-outlet grant against what the caller holds everywhere', async () => {
+      // Arrange - the supervisor holds inventory.adjust only through a role at outlet-1
+      (mockPrisma.employeeRoleAssignment.findMany as jest.Mock).mockResolvedValue([
+        { outletId: 'outlet-1', role: { permissions: ['inventory.adjust'] } },
+      ]);
+      (mockPrisma.role.findMany as jest.Mock).mockResolvedValue([
+        { id: 'role-1', permissions: ['inventory.adjust'] },
+      ]);
+      (mockPrisma.outlet.count as jest.Mock).mockResolvedValue(1);
+      const supervisor = asRole('supervisor');
+
+      // Act & Assert
+      await expect(
+        service.setEmployeeRoles(supervisor, 'emp-2', { assignments: [{ roleId: 'role-1' }] }),
+      ).rejects.toThrow('You cannot grant permissions you do not hold: inventory.adjust');
+      await expect(
+        service.setEmployeeRoles(supervisor, 'emp-2', {
+          assignments: [{ roleId: 'role-1', outletId: 'outlet-1' }],
+        }),
+      ).resolves.toBeDefined();
+    });
+
+    it('should not let anyone change their own roles', async () => {
+      // Act & Assert
+      await expect(
+        service.setEmployeeRoles(asRole('manager'), 'emp-1', { assignments: [] }),
+      ).rejects.toThrow('You cannot change your own roles');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should replace the assignments and drop cached grants', async () => {
+      // Arrange
+      (mockPrisma.role.findMany as jest.Mock).mockResolvedValue([
+        { id: 'role-1', permissions: ['pos.void'] },
+      ]);
+      (mockPrisma.outlet.count as jest.Mock).mockResolvedValue(1);
+
+      // Act
+      await service.setEmployeeRoles(asRole('owner'), 'emp-2', {
+        assignments: [
+          { roleId: 'role-1', outletId: 'outlet-1' },
+          { roleId: 'role-1', outletId: 'outlet-1' },
+        ],
+      });
+
+      // Assert
+      expect(mockPrisma.employeeRoleAssignment.createMany).toHaveBeenCalledWith({
+        data: [{ employeeId: 'emp-2', roleId: 'role-1', outletId: 'outlet-1', createdBy: 'emp-1' }],
+      });
+      expect(mockRedis.invalidatePattern).toHaveBeenCalledWith('permissions:biz-1:*');
+    });
+  });
+
+  // ==========================================================================
+  // PermissionsGuard
+  // ==========================================================================
+
+  describe('PermissionsGuard', () => {
+    const contextFor = (request: Record<string, unknown>) =>
+      ({
+        getHandler: () => undefined,
+        getClass: () => undefined,
+        switchToHttp: () => ({ getRequest: () => request }),
+      }) as unknown as ExecutionContext;
+
+    const guardFor = (permissions: string[], target?: PermissionOutletTarget) =>
+      new PermissionsGuard(
+        {
+          getAllAndOverride: jest.fn((key: string) =>
+            key === PERMISSIONS_KEY ? permissions : target,
+          ),
+        } as unknown as Reflector,
+        service,
+      );
+    const guardRequiring = (...permissions: string[]) => guardFor(permissions);
+
+    it('should resolve permissions for the outlet the request targets', async () => {
+      // Arrange
+      const resolve = jest.spyOn(service, 'resolve');
+      const user = asRole('inventory');
+
+      // Act
+      const allowed = await guardRequiring('inventory.adjust').canActivate(
+        contextFor({ user, params: {}, query: { outletId: 'outlet-2' } }),
+      );
+
+      // Assert
+      expect(allowed).toBe(true);
+      expect(resolve).toHaveBeenCalledWith(user, 'outlet-2');
+    });
+
+    it('should resolve permissions at the outlet of the record the route acts on', async () => {
+      // Arrange - the token and the request both name outlet-1, the sale is at outlet-2
+      (mockPrisma as unknown as Record<string, unknown>).transaction = {
+        findUnique: jest.fn().mockResolvedValue({ outletId: 'outlet-2' }),
+      };
+      const resolve = jest.spyOn(service, 'resolve');
+      const user = asRole('cashier');
+      const transactionId = '3f1c2a7e-0b5d-4c8e-9a6f-1d2e3f4a5b6c';
+      const guard = guardFor(['pos.sale'], {
+        resource: 'transaction',
+        from: 'body',
+        key: 'transactionId',
+      });
+
+      // Act
+      await guard.canActivate(contextFor({ user, body: { transactionId } }));
+
+      // Assert
+      expect(resolve).toHaveBeenCalledWith(user, 'outlet-2');
+      await expect(
+        guard.canActivate(contextFor({ user, body: { transactionId, outletId: 'outlet-1' } })),
+      ).rejects.toThrow(new ForbiddenException('The outlet does not match the record'));
+    });
+
+    it('should name the missing permission', async () => {
+      // Arrange
+      expect(defaultPermissionsFor('cashier')).not.toContain('pos.void');
+
+      // Act & Assert
+      await expect(
+        guardRequiring('pos.void').canActivate(contextFor({ user: asRole('cashier') })),
+      ).rejects.toThrow(new ForbiddenException('Missing permission: pos.void'));
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  evaluateCondition,
+  interpolate,
+  renderTemplate,
+} from '../../src/modules/printing/template-renderer';
+import { parsePrintBlocks } from '../../src/modules/printing/print-template.validator';
+import { DEFAULT_KITCHEN_TICKET_BLOCKS } from '../../src/modules/printing/default-templates';
+import type { PrintBlock } from '../../src/modules/printing/print-template.types';
+
+describe('Print template renderer', () => {
+  const context = {
+    business: { name: 'Warung Bu Tini' },
+    transaction: {
+      receiptNumber: 'TXN-0042',
+      createdAt: new Date('2026-10-19T05:30:00.000Z'),
+      grandTotal: new Prisma.Decimal(66600),
+      discountAmount: 0,
+      items: [
+        { productName: 'Nasi Goreng', quantity: 2, subtotal: 50000 },
+        { productName: 'Es Teh', quantity: 1, subtotal: 15000 },
+      ],
+      payments: [{ method: 'qris', amount: 66600 }],
+    },
+  };
+
+  const bytesOf = (job: { bytes: Buffer }) => [...job.bytes];
+
+  const containsSequence = (haystack: number[], needle: number[]) =>
+    haystack.some((_, i) => needle.every((value, j) => haystack[i + j] === value));
+
+  // ==========================================================================
+  // Variables and conditions
+  // ==========================================================================
+
+  it('should fill variables through filters in the outlet time zone', () => {
+    // Act
+    const text = interpolate(
+      '{{business.name | upper}} {{transaction.grandTotal | currency}} {{transaction.createdAt | datetime}} [{{missing}}]',
+      context,
+      { timeZone: 'Asia/Jakarta' },
+    );
+
+    // Assert
+    expect(text).toBe('WARUNG BU TINI Rp66.600 19/10/2026 12.30 []');
+  });
+
+  it('should evaluate truthiness, negation and comparisons', () => {
+    expect(evaluateCondition('transaction.items', context)).toBe(true);
+    expect(evaluateCondition('!transaction.discountAmount', context)).toBe(true);
+    expect(evaluateCondition('transaction.grandTotal >= 50000', context)).toBe(true);
+    expect(evaluateCondition("transaction.payments.0.method == 'cash'", context)).toBe(false);
+    expect(evaluateCondition('customer.name', context)).toBe(false);
+  });
+
+  // ==========================================================================
+  // Rendering
+  // ==========================================================================
+
+  it('should repeat each blocks and fit rows to a 58mm line', () => {
+    // Arrange
+    const blocks: PrintBlock[] = [
+      {
+        type: 'each',
+        source: 'transaction.items',
+        blocks: [
+          {
+            type: 'row',
+            left: '{{index}}. {{item.quantity}}x {{item.productName}}',
+            right: '{{item.subtotal | currency}}',
+          },
+        ],
+      },
+      { type: 'text', content: 'Diskon', when: 'transaction.discountAmount > 0' },
+    ];
+
+    // Act
+    const job = renderTemplate({ paperWidth: 58, blocks }, context);
+
+    // Assert
+    expect(job.preview.split('\n')).toEqual([
+      '1. 2x Nasi Goreng       Rp50.000',
+      '2. 1x Es Teh            Rp15.000',
+    ]);
+    expect(job.preview.split('\n')[0]).toHaveLength(32);
+  });
+
+  it('should emit ESC/POS commands for QR codes, cuts and template variables', () => {
+    // Arrange
+    const blocks: PrintBlock[] = [
+      { type: 'qrcode', data: '{{vars.feedbackUrl}}?r={{transaction.receiptNumber}}', size: 5 },
+      { type: 'cut', partial: true },
+    ];
+
+    // Act
+    const job = renderTemplate(
+      { paperWidth: 80, blocks, variables: { feedbackUrl: 'https://fb.example/t' } },
+      context,
+    );
+
+    // Assert
+    const data = 'https://fb.example/t?r=TXN-0042';
+    const bytes = bytesOf(job);
+    expect(bytes.slice(0, 2)).toEqual([0x1b, 0x40]);
+    expect(containsSequence(bytes, [0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 5])).toBe(true);
+    expect(
+      containsSequence(bytes, [0x1d, 0x28, 0x6b, data.length + 3, 0x00, 0x31, 0x50, 0x30]),
+    ).toBe(true);
+    expect(bytes.slice(-3)).toEqual([0x1d, 0x56, 0x01]);
+    expect(job.preview).toContain(`[QR ${data}]`);
+  });
+
+  it('should print an invalid barcode value as text and raster the logo', () => {
+    // Arrange
+    const logo = { bitmap: Buffer.alloc(2 * 3, 0xff), width: 16, height: 3 };
+    const blocks: PrintBlock[] = [
+      { type: 'logo' },
+      { type: 'barcode', data: '899123456789', symbology: 'EAN13' },
+      { type: 'barcode', data: '{{transaction.receiptNumber}}', symbology: 'EAN13' },
+    ];
+
+    // Act
+    const job = renderTemplate({ paperWidth: 58, blocks, logo }, context);
+
+    // Assert
+    const bytes = bytesOf(job);
+    expect(containsSequence(bytes, [0x1d, 0x76, 0x30, 0x00, 2, 0, 3, 0, 0xff])).toBe(true);
+    expect(containsSequence(bytes, [0x1d, 0x6b, 67, 12])).toBe(true);
+    expect(job.preview.split('\n').map((line) => line.trim())).toEqual([
+      '[LOGO]',
+      '[EAN13 899123456789]',
+      'TXN-0042',
+    ]);
+  });
+
+  it('should render the built-in kitchen ticket without prices', () => {
+    // Act
+    const job = renderTemplate(
+      { paperWidth: 80, blocks: DEFAULT_KITCHEN_TICKET_BLOCKS },
+      {
+        station: 'grill',
+        order: {
+          orderNumber: 'A-042',
+          orderType: 'dine_in',
+          tableName: '12',
+          createdAt: new Date(),
+        },
+        items: [{ productName: 'Ayam Bakar', quantity: 2, notes: 'Pedas' }],
+      },
+    );
+
+    // Assert
+    expect(job.preview).toContain('GRILL');
+    expect(job.preview).toContain('2x Ayam Bakar');
+    expect(job.preview).toContain('  * Pedas');
+    expect(job.preview).not.toContain('Rp');
+  });
+
+  // ==========================================================================
+  // Validation
+  // ==========================================================================
+
+  it('should reject malformed designer blocks with the offending path', () => {
+    expect(() =>
+      parsePrintBlocks([
+        { type: 'text', content: 'ok' },
+        { type: 'each', source: 'items', blocks: [{ type: 'qrcode', data: 'x', size: 40 }] },
+      ]),
+    ).toThrow(new BadRequestException('blocks[1].blocks[0].size must be an integer from 1 to 16'));
+    expect(() => parsePrintBlocks([{ type: 'image' }])).toThrow(BadRequestException);
+  });
+});
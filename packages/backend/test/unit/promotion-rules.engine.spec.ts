@@ -0,0 +1,451 @@
+import { Prisma } from '@prisma/client';
+import { PromotionRulesEngine } from '../../src/application/services/promotion-rules.engine';
+import type { TransactionItem } from '../../src/application/services/promotion-rules.engine';
+import type { PromotionRules } from '../../src/application/services/promotion-rules.types';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+
+describe('PromotionRulesEngine', () => {
+  let engine: PromotionRulesEngine;
+  let mockPrisma: jest.Mocked<PrismaService>;
+
+  // Wednesday 2026-10-21 15:00 in Asia/Jakarta (UTC+7), whatever the machine's zone
+  const now = new Date('2026-10-21T08:00:00Z');
+
+  const promotion = (
+    id: string,
+    overrides: Partial<{
+      rules: PromotionRules | null;
+      discountType: 'percentage' | 'fixed' | 'bogo';
+      discountValue: number;
+      priority: number;
+      stackable: boolean;
+      exclusivityGroup: string | null;
+      applicableTo: Record<string, unknown>;
+    }> = {},
+  ) => ({
+    id,
+    businessId: 'biz-1',
+    name: `Promo ${id}`,
+    description: null,
+    discountType: overrides.discountType ?? 'percentage',
+    discountValue: new Prisma.Decimal(overrides.discountValue ?? 0),
+    minPurchase: null,
+    maxDiscount: null,
+    validFrom: new Date('2026-01-01'),
+    validUntil: new Date('2026-12-31'),
+    usageLimit: null,
+    usedCount: 0,
+    applicableTo: overrides.applicableTo ?? {},
+    rules: overrides.rules ?? null,
+    priority: overrides.priority ?? 0,
+    stackable: overrides.stackable ?? false,
+    exclusivityGroup: overrides.exclusivityGroup ?? null,
+    isActive: true,
+    createdAt: new Date('2026-01-01'),
+  });
+
+  const items: TransactionItem[] = [
+    { lineId: 'l1', productId: 'coffee', quantity: 2, price: 30000 },
+    { lineId: 'l2', productId: 'cake', quantity: 1, price: 25000 },
+    { lineId: 'l3', productId: 'water', quantity: 3, price: 5000 },
+  ];
+  const total = 100000;
+
+  const run = (
+    extra: Partial<Parameters<PromotionRulesEngine['findApplicablePromotions']>[0]> = {},
+  ) => engine.findApplicablePromotions({ businessId: 'biz-1', items, total, now, ...extra });
+
+  const givePromotions = (...promotions: ReturnType<typeof promotion>[]) =>
+    (mockPrisma.promotion.findMany as jest.Mock).mockResolvedValue(promotions);
+
+  beforeEach(() => {
+    mockPrisma = {
+      promotion: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        fields: { usageLimit: 'usageLimit' },
+      },
+      product: { findMany: jest.fn().mockResolvedValue([]) },
+      customer: { findFirst: jest.fn() },
+      outlet: { findFirst: jest.fn().mockResolvedValue({ timezone: 'Asia/Jakarta' }) },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    engine = new PromotionRulesEngine(mockPrisma);
+  });
+
+  // ==========================================================================
+  // Stacking
+  // ==========================================================================
+
+  describe('stacking', () => {
+    it('should apply stackable promotions in priority order on the remaining value', async () => {
+      // Arrange
+      givePromotions(
+        promotion('p1', {
+          stackable: true,
+          priority: 10,
+          rules: { conditions: {}, reward: { type: 'percentage', value: 10 } },
+        }),
+        promotion('p2', {
+          stackable: true,
+          priority: 5,
+          rules: { conditions: {}, reward: { type: 'fixed_amount', value: 5000 } },
+        }),
+      );
+
+      // Act
+      const result = await run();
+
+      // Assert
+      expect(result.appliedPromotions.map((p) => [p.id, p.calculatedDiscount])).toEqual([
+        ['p1', 10000],
+        ['p2', 5000],
+      ]);
+      expect(result.totalDiscount).toBe(15000);
+      expect(result.finalTotal).toBe(85000);
+    });
+
+    it('should apply only one promotion per exclusivity group', async () => {
+      // Arrange
+      givePromotions(
+        promotion('p1', {
+          stackable: true,
+          priority: 10,
+          exclusivityGroup: 'happy-hour',
+          rules: { conditions: {}, reward: { type: 'percentage', value: 10 } },
+        }),
+        promotion('p2', {
+          stackable: true,
+          priority: 5,
+          exclusivityGroup: 'happy-hour',
+          rules: { conditions: {}, reward: { type: 'percentage', value: 20 } },
+        }),
+      );
+
+      // Act
+      const result = await run();
+
+      // Assert
+      expect(result.appliedPromotions.map((p) => p.id)).toEqual(['p1']);
+      expect(result.applicablePromotions).toHaveLength(2);
+    });
+
+    it('should prefer an exclusive promotion worth more than the whole stack', async () => {
+      // Arrange
+      givePromotions(
+        promotion('stack', {
+          stackable: true,
+          rules: { conditions: {}, reward: { type: 'fixed_amount', value: 5000 } },
+        }),
+        promotion('solo', {
+          rules: { conditions: {}, reward: { type: 'percentage', value: 25 } },
+        }),
+      );
+
+      // Act
+      const result = await run();
+
+      // Assert
+      expect(result.bestPromotion?.id).toBe('solo');
+      expect(result.totalDiscount).toBe(25000);
+    });
+  });
+
+  // ==========================================================================
+  // Rewards
+  // ==========================================================================
+
+  describe('rewards', () => {
+    it('should discount the cheapest unit from the "get" set for buy X get Y', async () => {
+      // Arrange: buy 2 coffees, get a water free
+      givePromotions(
+        promotion('bxgy', {
+          rules: {
+            conditions: { productIds: ['coffee'] },
+            reward: {
+              type: 'buy_x_get_y',
+              buyQuantity: 2,
+              getQuantity: 1,
+              getProductIds: ['water'],
+            },
+          },
+        }),
+      );
+
+      // Act
+      const result = await run();
+
+      // Assert
+      expect(result.totalDiscount).toBe(5000);
+      expect(result.lines.find((l) => l.lineId === 'l3')?.discount).toBe(5000);
+    });
+
+    it('should price a complete bundle at the bundle price', async () => {
+      // Arrange: coffee + cake for 45000 instead of 55000
+      givePromotions(
+        promotion('bundle', {
+          rules: {
+            conditions: {},
+            reward: {
+              type: 'bundle',
+              components: [
+                { productIds: ['coffee'], quantity: 1 },
+                { productIds: ['cake'], quantity: 1 },
+              ],
+              bundlePrice: 45000,
+            },
+          },
+        }),
+      );
+
+      // Act
+      const result = await run();
+
+      // Assert
+      expect(result.totalDiscount).toBe(10000);
+      const coffee = result.lines.find((l) => l.lineId === 'l1')!;
+      const cake = result.lines.find((l) => l.lineId === 'l2')!;
+      expect(coffee.discount + cake.discount).toBe(10000);
+      expect(coffee.discount).toBeGreaterThan(cake.discount);
+    });
+
+    it('should apply the highest tier reached for tiered spend', async () => {
+      // Arrange
+      givePromotions(
+        promotion('tiers', {
+          rules: {
+            conditions: {},
+            reward: {
+              type: 'tiered_spend',
+              tiers: [
+                { minSubtotal: 50000, discountType: 'fixed_amount', value: 5000 },
+                { minSubtotal: 100000, discountType: 'percentage', value: 15 },
+                { minSubtotal: 200000, discountType: 'percentage', value: 25 },
+              ],
+            },
+          },
+        }),
+      );
+
+      // Act
+      const result = await run();
+
+      // Assert
+      expect(result.totalDiscount).toBe(15000);
+    });
+
+    it('should suggest a free item that is not in the cart', async () => {
+      // Arrange
+      givePromotions(
+        promotion('gift', {
+          rules: {
+            conditions: {},
+            reward: { type: 'free_item', productId: 'cookie', quantity: 1 },
+          },
+        }),
+      );
+
+      // Act
+      const result = await run();
+
+      // Assert
+      expect(result.totalDiscount).toBe(0);
+      expect(result.freeItems).toEqual([{ promotionId: 'gift', productId: 'cookie', quantity: 1 }]);
+    });
+
+    it('should map legacy percentage promotions onto the rule language', async () => {
+      // Arrange
+      givePromotions(
+        promotion('legacy', {
+          discountType: 'percentage',
+          discountValue: 10,
+          applicableTo: { productIds: ['coffee'] },
+        }),
+      );
+
+      // Act
+      const result = await run();
+
+      // Assert
+      expect(result.bestPromotion?.rewardType).toBe('percentage');
+      expect(result.totalDiscount).toBe(6000);
+      expect(result.lines.find((l) => l.lineId === 'l1')?.discount).toBe(6000);
+    });
+  });
+
+  // ==========================================================================
+  // Conditions
+  // ==========================================================================
+
+  describe('conditions', () => {
+    it('should require a matching customer tier', async () => {
+      // Arrange
+      givePromotions(
+        promotion('gold', {
+          rules: {
+            conditions: { customerTiers: ['gold'] },
+            reward: { type: 'percentage', value: 10 },
+          },
+        }),
+      );
+      (mockPrisma.customer.findFirst as jest.Mock).mockResolvedValue({ loyaltyTier: 'silver' });
+
+      // Act
+      const silver = await run({ customerId: 'cust-1' });
+      (mockPrisma.customer.findFirst as jest.Mock).mockResolvedValue({ loyaltyTier: 'gold' });
+      const gold = await run({ customerId: 'cust-1' });
+
+      // Assert
+      expect(silver.totalDiscount).toBe(0);
+      expect(gold.totalDiscount).toBe(10000);
+    });
+
+    it("should look the customer's tier up within the business only", async () => {
+      // Arrange
+      givePromotions(
+        promotion('gold', {
+          rules: {
+            conditions: { customerTiers: ['gold'] },
+            reward: { type: 'percentage', value: 10 },
+          },
+        }),
+      );
+      (mockPrisma.customer.findFirst as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await run({ customerId: 'other-tenant-customer' });
+
+      // Assert
+      expect(mockPrisma.customer.findFirst).toHaveBeenCalledWith({
+        where: { id: 'other-tenant-customer', businessId: 'biz-1' },
+        select: { loyaltyTier: true },
+      });
+      expect(result.totalDiscount).toBe(0);
+    });
+
+    it('should filter by outlet only when the outlet is known', async () => {
+      // Arrange
+      givePromotions(
+        promotion('outlet-a', {
+          rules: {
+            conditions: { outletIds: ['outlet-a'] },
+            reward: { type: 'percentage', value: 10 },
+          },
+        }),
+      );
+
+      // Act
+      const other = await run({ outletId: 'outlet-b' });
+      const unknown = await run();
+
+      // Assert
+      expect(other.totalDiscount).toBe(0);
+      expect(unknown.totalDiscount).toBe(10000);
+    });
+
+    it('should require a matching payment method and time window', async () => {
+      // Arrange
+      givePromotions(
+        promotion('qris-happy-hour', {
+          rules: {
+            conditions: { paymentMethods: ['qris'], startTime: '14:00', endTime: '17:00' },
+            reward: { type: 'fixed_amount', value: 10000 },
+          },
+        }),
+      );
+
+      // Act
+      const cash = await run({ paymentMethod: 'cash' });
+      const qris = await run({ paymentMethod: 'qris' });
+      const evening = await run({ paymentMethod: 'qris', now: new Date('2026-10-21T12:00:00Z') });
+
+      // Assert
+      expect(cash.totalDiscount).toBe(0);
+      expect(qris.totalDiscount).toBe(10000);
+      expect(evening.totalDiscount).toBe(0);
+    });
+
+    it("should read day and time rules on the outlet's clock", async () => {
+      // Arrange
+      givePromotions(
+        promotion('thursday-happy-hour', {
+          rules: {
+            conditions: { daysOfWeek: [4], startTime: '00:00', endTime: '02:00' },
+            reward: { type: 'fixed_amount', value: 10000 },
+          },
+        }),
+      );
+      // Wednesday 18:30 UTC is Thursday 01:30 in Jakarta and 02:30 in Jayapura
+      const lateNight = new Date('2026-10-21T18:30:00Z');
+
+      // Act
+      const jakarta = await run({ outletId: 'outlet-1', now: lateNight });
+      (mockPrisma.outlet.findFirst as jest.Mock).mockResolvedValue({ timezone: 'Asia/Jayapura' });
+      const jayapura = await run({ outletId: 'outlet-2', now: lateNight });
+
+      // Assert
+      expect(jakarta.totalDiscount).toBe(10000);
+      expect(jayapura.totalDiscount).toBe(0);
+      expect(mockPrisma.outlet.findFirst).toHaveBeenCalledWith({
+        where: { id: 'outlet-2', businessId: 'biz-1' },
+        select: { timezone: true },
+      });
+    });
+
+    it('should resolve product categories when rules filter by category', async () => {
+      // Arrange
+      givePromotions(
+        promotion('drinks', {
+          rules: {
+            conditions: { categoryIds: ['cat-drinks'] },
+            reward: { type: 'percentage', value: 50 },
+          },
+        }),
+      );
+      (mockPrisma.product.findMany as jest.Mock).mockResolvedValue([
+        { id: 'coffee', categoryId: 'cat-drinks' },
+        { id: 'water', categoryId: 'cat-drinks' },
+        { id: 'cake', categoryId: 'cat-food' },
+      ]);
+
+      // Act
+      const result = await run();
+
+      // Assert
+      expect(result.totalDiscount).toBe(37500);
+      expect(result.lines.find((l) => l.lineId === 'l2')?.discount).toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // Allocation
+  // ==========================================================================
+
+  describe('line allocation', () => {
+    it('should split a discount over lines so the allocations add up exactly', async () => {
+      // Arrange
+      givePromotions(
+        promotion('p1', {
+          stackable: true,
+          rules: { conditions: {}, reward: { type: 'fixed_amount', value: 10001 } },
+        }),
+        promotion('p2', {
+          stackable: true,
+          rules: { conditions: {}, reward: { type: 'percentage', value: 7 } },
+        }),
+      );
+
+      // Act
+      const result = await run();
+
+      // Assert
+      const lineSum = result.lines.reduce((sum, l) => sum + l.discount, 0);
+      expect(lineSum).toBe(result.totalDiscount);
+      for (const line of result.lines) {
+        expect(line.allocations.reduce((sum, a) => sum + a.amount, 0)).toBe(line.discount);
+        expect(line.netTotal).toBe(line.lineTotal - line.discount);
+        expect(Number.isInteger(line.discount)).toBe(true);
+      }
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { ForbiddenException } from '@nestjs/common';
+import { PublicApiService } from '../../src/modules/public-api/public-api.service';
+import type { ApiKeyPrincipal } from '../../src/modules/public-api/api-keys.service';
+import type { CreateOrderUseCase } from '../../src/application/use-cases/orders/create-order.use-case';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { BusinessError } from '../../src/shared/errors/business-error';
+
+describe('PublicApiService', () => {
+  let service: PublicApiService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let createOrder: jest.Mocked<Pick<CreateOrderUseCase, 'execute'>>;
+
+  const apiKey: ApiKeyPrincipal = {
+    id: 'key-1',
+    businessId: 'business-1',
+    scopes: ['orders:write'],
+    outletIds: [],
+    rateLimit: 120,
+  };
+
+  const dto = {
+    outletId: 'outlet-1',
+    orderType: 'takeaway' as const,
+    items: [{ productId: 'prod-1', quantity: 2 }],
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      outlet: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'outlet-1' }),
+        findUnique: jest.fn().mockResolvedValue({ locationType: 'store' }),
+      },
+      product: {
+        findMany: jest.fn().mockResolvedValue([{ id: 'prod-1', variants: [] }]),
+      },
+    } as unknown as jest.Mocked<PrismaService>;
+    createOrder = { execute: jest.fn().mockResolvedValue({ orderId: 'order-1' }) };
+
+    service = new PublicApiService(mockPrisma, createOrder as unknown as CreateOrderUseCase);
+    jest.spyOn(service, 'getOrder').mockResolvedValue({ id: 'order-1' } as never);
+  });
+
+  describe('createOrder', () => {
+    it('should create the order at a store the key may use', async () => {
+      const result = await service.createOrder(apiKey, dto);
+
+      expect(result).toEqual({ id: 'order-1' });
+      expect(createOrder.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ outletId: 'outlet-1', orderType: 'takeaway' }),
+      );
+    });
+
+    it('should refuse an order at a warehouse', async () => {
+      (mockPrisma.outlet.findUnique as jest.Mock).mockResolvedValue({ locationType: 'warehouse' });
+
+      await expect(service.createOrder(apiKey, dto)).rejects.toThrow(BusinessError);
+      expect(createOrder.execute).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an outlet outside the key', async () => {
+      await expect(
+        service.createOrder({ ...apiKey, outletIds: ['outlet-2'] }, dto),
+      ).rejects.toThrow(ForbiddenException);
+      expect(createOrder.execute).not.toHaveBeenCalled();
+    });
+  });
+});
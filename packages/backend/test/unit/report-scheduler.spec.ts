@@ -0,0 +1,235 @@
+import { Prisma } from '@prisma/client';
+import type { Queue } from 'bullmq';
+import type { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import type { StorageService } from '../../src/infrastructure/storage/storage.service';
+import type { EmailService } from '../../src/infrastructure/notifications/email/email.service';
+import type { ReportScheduleRepository } from '../../src/infrastructure/repositories/settings/report-schedule.repository';
+import type { GenerateSalesReportUseCase } from '../../src/application/use-cases/reports/generate-sales-report.use-case';
+import type { GenerateInventoryReportUseCase } from '../../src/application/use-cases/reports/generate-inventory-report.use-case';
+import type { GenerateFinancialReportUseCase } from '../../src/application/use-cases/reports/generate-financial-report.use-case';
+import type { ScheduledReportJobData } from '../../src/infrastructure/queues/processors/report.processor';
+import { ReportRunsService } from '../../src/modules/reports/scheduled/report-runs.service';
+import { ReportSchedulerService } from '../../src/modules/reports/scheduled/report-scheduler.service';
+import {
+  computeNextSendAt,
+  computeReportPeriod,
+} from '../../src/modules/reports/scheduled/report-schedule.util';
+
+describe('Scheduled reports', () => {
+  // ==========================================================================
+  // Calendar maths (Asia/Jakarta, UTC+7)
+  // ==========================================================================
+
+  describe('schedule calendar', () => {
+    // Monday 19 Oct 2026, 09:00 WIB
+    const mondayMorning = new Date('2026-10-19T02:00:00.000Z');
+
+    it('should fire at 07:00 local on the next day, Monday or 1st of the month', () => {
+      expect(computeNextSendAt('daily', mondayMorning).toISOString()).toBe(
+        '2026-10-20T00:00:00.000Z',
+      );
+      expect(computeNextSendAt('weekly', mondayMorning).toISOString()).toBe(
+        '2026-10-26T00:00:00.000Z',
+      );
+      expect(computeNextSendAt('monthly', mondayMorning).toISOString()).toBe(
+        '2026-11-01T00:00:00.000Z',
+      );
+    });
+
+    it('should report on the last full local day, week and month', () => {
+      const daily = computeReportPeriod('daily', mondayMorning);
+      expect(daily.start.toISOString()).toBe('2026-10-17T17:00:00.000Z');
+      expect(daily.end.toISOString()).toBe('2026-10-18T16:59:59.999Z');
+
+      const weekly = computeReportPeriod('weekly', mondayMorning);
+      expect(weekly.start.toISOString()).toBe('2026-10-11T17:00:00.000Z');
+      expect(weekly.end.toISOString()).toBe('2026-10-18T16:59:59.999Z');
+
+      const monthly = computeReportPeriod('monthly', mondayMorning);
+      expect(monthly.start.toISOString()).toBe('2026-08-31T17:00:00.000Z');
+      expect(monthly.end.toISOString()).toBe('2026-09-30T16:59:59.999Z');
+    });
+  });
+
+  // ==========================================================================
+  // Scheduler and runner
+  // ==========================================================================
+
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockStorage: jest.Mocked<StorageService>;
+  let mockEmail: jest.Mocked<EmailService>;
+  let mockSchedules: jest.Mocked<ReportScheduleRepository>;
+  let mockSales: jest.Mocked<GenerateSalesReportUseCase>;
+  let mockQueue: jest.Mocked<Queue<ScheduledReportJobData>>;
+  let runs: ReportRunsService;
+  let scheduler: ReportSchedulerService;
+
+  const businessId = 'business-1';
+  const schedule = {
+    id: 'schedule-1',
+    reportType: 'sales' as const,
+    frequency: 'daily' as const,
+    recipients: ['owner@example.com', 'finance@example.com'],
+    format: 'excel' as const,
+    outletId: null,
+    isActive: true,
+    nextSendAt: '2026-10-19T00:00:00.000Z',
+    lastSentAt: null,
+  };
+  const run = {
+    id: 'run-1',
+    businessId,
+    scheduleId: schedule.id,
+    reportType: 'sales',
+    format: 'excel',
+    outletId: null,
+    periodStart: new Date('2026-10-17T17:00:00.000Z'),
+    periodEnd: new Date('2026-10-18T16:59:59.999Z'),
+    status: 'queued',
+    attempts: 0,
+    recipients: schedule.recipients,
+    emailedAt: null,
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      business: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ id: businessId, settings: { reportSchedules: [schedule] } }]),
+        findUnique: jest.fn().mockResolvedValue({ name: 'Warung Bu Tini' }),
+      },
+      outlet: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            { id: 'outlet-1', name: 'Pusat', timezone: 'Asia/Jakarta', createdAt: new Date() },
+          ]),
+      },
+      reportRun: {
+        create: jest.fn().mockResolvedValue(run),
+        findUnique: jest.fn().mockResolvedValue(run),
+        update: jest.fn().mockResolvedValue(run),
+      },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    mockStorage = {
+      upload: jest.fn().mockImplementation((path: string) => Promise.resolve(path)),
+      getUrl: jest.fn().mockImplementation((path: string) => `https://cdn.example.com/${path}`),
+    } as unknown as jest.Mocked<StorageService>;
+
+    mockEmail = {
+      send: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<EmailService>;
+
+    mockSchedules = {
+      updateScheduleTimestamps: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<ReportScheduleRepository>;
+
+    mockSales = {
+      execute: jest.fn().mockResolvedValue({
+        buffer: Buffer.from('xlsx'),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        filename: 'sales-report.xlsx',
+      }),
+    } as unknown as jest.Mocked<GenerateSalesReportUseCase>;
+
+    mockQueue = { add: jest.fn().mockResolvedValue({}) } as unknown as jest.Mocked<
+      Queue<ScheduledReportJobData>
+    >;
+
+    runs = new ReportRunsService(
+      mockPrisma,
+      mockStorage,
+      mockEmail,
+      mockSchedules,
+      mockSales,
+      {} as GenerateInventoryReportUseCase,
+      {} as GenerateFinancialReportUseCase,
+      mockQueue,
+    );
+    scheduler = new ReportSchedulerService(mockPrisma, mockSchedules, runs);
+  });
+
+  it('should queue a due schedule for the period that just closed and move it forward', async () => {
+    // Act
+    const result = await scheduler.tick(new Date('2026-10-19T00:05:00.000Z'));
+
+    // Assert
+    expect(result.queued).toBe(1);
+    expect(mockPrisma.reportRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        scheduleId: schedule.id,
+        format: 'excel',
+        periodStart: run.periodStart,
+        periodEnd: run.periodEnd,
+      }),
+    });
+    expect(mockQueue.add).toHaveBeenCalledWith(
+      'run-scheduled-report',
+      { runId: run.id, businessId },
+      expect.objectContaining({ jobId: run.id }),
+    );
+    expect(mockSchedules.updateScheduleTimestamps).toHaveBeenCalledWith(businessId, schedule.id, {
+      nextSendAt: '2026-10-20T00:00:00.000Z',
+    });
+  });
+
+  it('should not queue twice when the period already has a run', async () => {
+    // Arrange
+    (mockPrisma.reportRun.create as jest.Mock).mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: '5.0.0',
+      }),
+    );
+
+    // Act
+    const result = await scheduler.tick(new Date('2026-10-19T00:05:00.000Z'));
+
+    // Assert
+    expect(result.queued).toBe(0);
+    expect(mockQueue.add).not.toHaveBeenCalled();
+    expect(mockSchedules.updateScheduleTimestamps).toHaveBeenCalled();
+  });
+
+  it('should store, email and complete a run', async () => {
+    // Act
+    await runs.execute(run.id, false);
+
+    // Assert
+    expect(mockStorage.upload).toHaveBeenCalledWith(
+      'reports/business-1/run-1/sales-report-2026-10-18.xlsx',
+      expect.any(Buffer),
+    );
+    expect(mockEmail.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'owner@example.com, finance@example.com',
+        template: 'scheduled-report',
+        attachments: [expect.objectContaining({ filename: 'sales-report-2026-10-18.xlsx' })],
+      }),
+    );
+    expect(mockPrisma.reportRun.update).toHaveBeenLastCalledWith({
+      where: { id: run.id },
+      data: { status: 'completed', completedAt: expect.any(Date) },
+    });
+  });
+
+  it('should mark a failing run as retrying, then failed on the last attempt', async () => {
+    // Arrange
+    mockEmail.send.mockRejectedValue(new Error('SMTP timeout'));
+
+    // Act & Assert
+    await expect(runs.execute(run.id, false)).rejects.toThrow('SMTP timeout');
+    expect(mockPrisma.reportRun.update).toHaveBeenLastCalledWith({
+      where: { id: run.id },
+      data: { status: 'retrying', error: 'SMTP timeout' },
+    });
+
+    await expect(runs.execute(run.id, true)).rejects.toThrow('SMTP timeout');
+    expect(mockPrisma.reportRun.update).toHaveBeenLastCalledWith({
+      where: { id: run.id },
+      data: { status: 'failed', error: 'SMTP timeout' },
+    });
+  });
+});
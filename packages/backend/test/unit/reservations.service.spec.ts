@@ -0,0 +1,286 @@
+import { Prisma } from '@prisma/client';
+import { ReservationsService } from '../../src/modules/reservations/reservations.service';
+import { ReservationDepositService } from '../../src/modules/reservations/reservation-deposit.service';
+import {
+  pickTables,
+  type ReservableTable,
+} from '../../src/modules/reservations/reservation-slots.util';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { OperatingHoursRepository } from '../../src/infrastructure/repositories/settings/operating-hours.repository';
+import { BusinessError } from '../../src/shared/errors/business-error';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+
+describe('ReservationsService', () => {
+  let service: ReservationsService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let tx: Record<string, Record<string, jest.Mock> | jest.Mock>;
+  let mockDeposits: jest.Mocked<Pick<ReservationDepositService, 'request' | 'refund' | 'forfeit'>>;
+
+  const user = { employeeId: 'emp-1', businessId: 'biz-1' } as AuthUser;
+
+  // Monday 2030-01-07, open 10:00-22:00 Jakarta time (03:00-15:00 UTC)
+  const DATE = '2030-01-07';
+  const at = (utcTime: string) => new Date(`${DATE}T${utcTime}:00.000Z`);
+
+  const table = (id: string, capacity: number, section = 'indoor', isCombinable = true) => ({
+    id,
+    name: id.toUpperCase(),
+    capacity,
+    section,
+    isCombinable,
+  });
+
+  const tables = [table('t1', 2), table('t2', 4), table('t3', 4), table('t4', 8, 'terrace', false)];
+
+  const outlet = (reservations: Record<string, unknown> = {}) => ({
+    id: 'outlet-1',
+    timezone: 'Asia/Jakarta',
+    settings: { reservations },
+  });
+
+  const storedReservation = (overrides: Record<string, unknown> = {}) => ({
+    id: 'rsv-1',
+    outletId: 'outlet-1',
+    customerName: 'Budi',
+    customerPhone: '0812',
+    partySize: 4,
+    status: 'confirmed',
+    startsAt: new Date(Date.now() + 72 * 60 * 60 * 1000),
+    endsAt: new Date(Date.now() + 73.5 * 60 * 60 * 1000),
+    durationMinutes: 90,
+    tables: [{ tableId: 't2', table: tables[1] }],
+    deposit: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    tx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      table: { findMany: jest.fn().mockResolvedValue(tables) },
+      reservation: {
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn().mockImplementation(({ data }) => ({ id: 'rsv-1', ...data })),
+      },
+    };
+
+    mockPrisma = {
+      $transaction: jest.fn((fn) => fn(tx)),
+      outlet: { findFirst: jest.fn().mockResolvedValue(outlet()) },
+      table: {
+        findMany: jest.fn().mockResolvedValue(tables),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      reservation: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(storedReservation()),
+        update: jest.fn(),
+      },
+      customer: { findFirst: jest.fn() },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    const mockOperatingHours = {
+      getOutletOperatingHours: jest.fn().mockResolvedValue(
+        [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+          dayOfWeek,
+          openTime: '10:00',
+          closeTime: '22:00',
+          isClosed: false,
+        })),
+      ),
+    } as unknown as OperatingHoursRepository;
+
+    mockDeposits = {
+      request: jest.fn().mockResolvedValue({}),
+      refund: jest.fn(),
+      forfeit: jest.fn(),
+    };
+
+    service = new ReservationsService(
+      mockPrisma,
+      mockOperatingHours,
+      mockDeposits as unknown as ReservationDepositService,
+    );
+  });
+
+  // ==========================================================================
+  // pickTables
+  // ==========================================================================
+
+  describe('pickTables', () => {
+    it('should prefer the smallest single table that seats the party', () => {
+      // Act
+      const chosen = pickTables(tables as ReservableTable[], 3);
+
+      // Assert
+      expect(chosen?.map((t) => t.id)).toEqual(['t2']);
+    });
+
+    it('should combine tables of one section and skip tables that cannot be combined', () => {
+      // Act
+      const chosen = pickTables(tables as ReservableTable[], 9);
+      const terrace = pickTables(tables as ReservableTable[], 10, 'terrace');
+
+      // Assert
+      expect(chosen?.map((t) => t.id).sort()).toEqual(['t1', 't2', 't3']);
+      expect(terrace).toBeNull();
+    });
+  });
+
+  // ==========================================================================
+  // findAvailability
+  // ==========================================================================
+
+  describe('findAvailability', () => {
+    it('should only offer slots that keep the turnover buffer after existing bookings', async () => {
+      // Arrange - the only 8-seater is booked 12:00-13:30 local
+      (mockPrisma.reservation.findMany as jest.Mock).mockResolvedValue([
+        { startsAt: at('05:00'), endsAt: at('06:30'), tables: [{ tableId: 't4' }] },
+      ]);
+
+      // Act
+      const result = await service.findAvailability('biz-1', {
+        outletId: 'outlet-1',
+        date: DATE,
+        partySize: 8,
+        durationMinutes: 60,
+      });
+
+      // Assert - t4 is free until 11:00 and again from 13:45; indoor combines 4+4
+      const starts = result.slots.map((s) => s.startsAt.toISOString().slice(11, 16));
+      expect(starts[0]).toBe('03:00');
+      expect(starts).toContain('14:00');
+      const atNoon = result.slots.find((s) => s.startsAt.getTime() === at('05:00').getTime());
+      expect(atNoon?.tables.map((t) => t.id).sort()).toEqual(['t2', 't3']);
+      const at1345 = result.slots.find((s) => s.startsAt.getTime() === at('06:45').getTime());
+      expect(at1345?.tables.map((t) => t.id)).toEqual(['t4']);
+    });
+
+    it('should return no slots on a closed day', async () => {
+      // Arrange
+      const hours = (service as unknown as { operatingHours: OperatingHoursRepository })
+        .operatingHours;
+      (hours.getOutletOperatingHours as jest.Mock).mockResolvedValue([
+        { dayOfWeek: 1, openTime: '10:00', closeTime: '22:00', isClosed: true },
+      ]);
+
+      // Act
+      const result = await service.findAvailability('biz-1', {
+        outletId: 'outlet-1',
+        date: DATE,
+        partySize: 2,
+      });
+
+      // Assert
+      expect(result.slots).toEqual([]);
+      expect(result.opensAt).toBeNull();
+    });
+  });
+
+  // ==========================================================================
+  // create
+  // ==========================================================================
+
+  describe('create', () => {
+    const dto = {
+      outletId: 'outlet-1',
+      partySize: 6,
+      startsAt: at('05:00').toISOString(),
+      customerName: 'Budi',
+      customerPhone: '0812',
+    };
+
+    it('should hold a large party as pending_deposit and request the deposit', async () => {
+      // Arrange
+      (mockPrisma.outlet.findFirst as jest.Mock).mockResolvedValue(
+        outlet({ depositPerGuest: 50000, depositMinPartySize: 6 }),
+      );
+
+      // Act
+      await service.create(dto, user);
+
+      // Assert
+      expect(tx.$queryRaw).toHaveBeenCalled();
+      expect((tx.reservation as Record<string, jest.Mock>).create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: 'pending_deposit',
+          durationMinutes: 90,
+          tables: { create: [{ tableId: 't4' }] },
+        }),
+      });
+      expect(mockDeposits.request).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'rsv-1' }),
+        300000,
+        'qris',
+        60,
+      );
+    });
+
+    it('should throw NO_TABLE_AVAILABLE when the requested table is already booked', async () => {
+      // Arrange
+      (tx.reservation as Record<string, jest.Mock>).findMany.mockResolvedValue([
+        { startsAt: at('04:30'), endsAt: at('06:00'), tables: [{ tableId: 't4' }] },
+      ]);
+
+      // Act & Assert
+      await expect(service.create({ ...dto, tableIds: ['t4'] }, user)).rejects.toMatchObject({
+        code: 'NO_TABLE_AVAILABLE',
+      });
+      expect((tx.reservation as Record<string, jest.Mock>).create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a booking that runs past closing time', async () => {
+      // Act & Assert
+      await expect(
+        service.create({ ...dto, startsAt: at('14:00').toISOString() }, user),
+      ).rejects.toThrow(BusinessError);
+    });
+  });
+
+  // ==========================================================================
+  // cancel
+  // ==========================================================================
+
+  describe('cancel', () => {
+    const paidDeposit = {
+      id: 'dep-1',
+      status: 'paid',
+      amount: new Prisma.Decimal(300000),
+      appliedAmount: null,
+    };
+
+    it('should refund a paid deposit inside the free cancellation window', async () => {
+      // Arrange
+      (mockPrisma.reservation.findFirst as jest.Mock).mockResolvedValue(
+        storedReservation({ deposit: paidDeposit }),
+      );
+
+      // Act
+      await service.cancel('rsv-1', {}, user);
+
+      // Assert
+      expect(mockPrisma.reservation.update).toHaveBeenCalledWith({
+        where: { id: 'rsv-1' },
+        data: expect.objectContaining({ status: 'cancelled' }),
+      });
+      expect(mockDeposits.refund).toHaveBeenCalledWith(paidDeposit, 'Reservation cancelled');
+      expect(mockDeposits.forfeit).not.toHaveBeenCalled();
+    });
+
+    it('should forfeit a paid deposit on a late cancellation', async () => {
+      // Arrange
+      (mockPrisma.reservation.findFirst as jest.Mock).mockResolvedValue(
+        storedReservation({
+          deposit: paidDeposit,
+          startsAt: new Date(Date.now() + 2 * 60 * 60 * 1000),
+        }),
+      );
+
+      // Act
+      await service.cancel('rsv-1', { reason: 'Changed plans' }, user);
+
+      // Assert
+      expect(mockDeposits.refund).not.toHaveBeenCalled();
+      expect(mockDeposits.forfeit).toHaveBeenCalledWith(paidDeposit);
+    });
+  });
+});
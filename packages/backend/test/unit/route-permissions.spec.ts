@@ -0,0 +1,52 @@
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import * as ts from 'typescript';
+
+const SRC_DIR = join(__dirname, '../../src');
+const ROUTE_DECORATORS = new Set(['Get', 'Post', 'Put', 'Patch', 'Delete', 'All']);
+const MARKERS = new Set(['RequirePermission', 'WithoutPermission']);
+
+function controllerFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) return controllerFiles(path);
+    return name.endsWith('.controller.ts') ? [path] : [];
+  });
+}
+
+function decoratorNames(node: ts.Node): string[] {
+  return (ts.canHaveDecorators(node) ? (ts.getDecorators(node) ?? []) : []).map((decorator) => {
+    const target = ts.isCallExpression(decorator.expression)
+      ? decorator.expression.expression
+      : decorator.expression;
+    return ts.isIdentifier(target) ? target.text : '';
+  });
+}
+
+/** Routes of every controller class that neither require a permission nor opt out */
+function unmarkedRoutes(file: string): string[] {
+  const source = ts.createSourceFile(file, readFileSync(file, 'utf8'), ts.ScriptTarget.Latest);
+  const unmarked: string[] = [];
+
+  source.forEachChild((node) => {
+    if (!ts.isClassDeclaration(node) || !decoratorNames(node).includes('Controller')) return;
+    const classMarked = decoratorNames(node).some((name) => MARKERS.has(name));
+
+    for (const member of node.members) {
+      if (!ts.isMethodDeclaration(member)) continue;
+      const names = decoratorNames(member);
+      if (!names.some((name) => ROUTE_DECORATORS.has(name))) continue;
+      if (classMarked || names.some((name) => MARKERS.has(name))) continue;
+      unmarked.push(`${relative(SRC_DIR, file)} ${node.name?.text}.${member.name.getText(source)}`);
+    }
+  });
+  return unmarked;
+}
+
+describe('controller routes', () => {
+  it('should all require a permission or be marked @WithoutPermission', () => {
+    const unmarked = controllerFiles(SRC_DIR).flatMap(unmarkedRoutes);
+
+    expect(unmarked).toEqual([]);
+  });
+});
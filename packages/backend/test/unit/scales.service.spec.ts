@@ -0,0 +1,173 @@
+import { ScalesService } from '../../src/modules/scales/scales.service';
+import {
+  DEFAULT_BARCODE_LAYOUTS,
+  isValidEan13,
+  parseEmbeddedBarcode,
+} from '../../src/modules/scales/embedded-barcode';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+
+describe('ScalesService', () => {
+  let service: ScalesService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+
+  const bread = {
+    id: 'product-bread',
+    name: 'Roti Gandum',
+    basePrice: 40000,
+    isWeighed: true,
+    sellUnit: 'kg',
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      business: {
+        findUnique: jest.fn().mockResolvedValue({ settings: {} }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      product: { findFirst: jest.fn().mockResolvedValue(bread) },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    service = new ScalesService(mockPrisma);
+  });
+
+  describe('parseEmbeddedBarcode', () => {
+    it('should split a weight label into item code and kilograms', () => {
+      expect(parseEmbeddedBarcode('2000123012506', DEFAULT_BARCODE_LAYOUTS)).toMatchObject({
+        itemCode: '00123',
+        value: 1.25,
+        layout: { type: 'weight' },
+      });
+    });
+
+    it('should ignore codes with a wrong check digit or another prefix', () => {
+      expect(isValidEan13('2000123012507')).toBe(false);
+      expect(parseEmbeddedBarcode('2000123012507', DEFAULT_BARCODE_LAYOUTS)).toBeNull();
+      expect(parseEmbeddedBarcode('2900000000001', DEFAULT_BARCODE_LAYOUTS)).toBeNull();
+      expect(parseEmbeddedBarcode('8991234567891', DEFAULT_BARCODE_LAYOUTS)).toBeNull();
+    });
+
+    it('should let the longest prefix win', () => {
+      const layouts = [
+        ...DEFAULT_BARCODE_LAYOUTS,
+        { prefix: '200', type: 'price' as const, itemDigits: 4, valueDigits: 5, decimals: 0 },
+      ];
+
+      expect(parseEmbeddedBarcode('2000123012506', layouts)).toMatchObject({
+        itemCode: '0123',
+        value: 1250,
+        layout: { prefix: '200' },
+      });
+    });
+  });
+
+  describe('resolve', () => {
+    it('should find the product by its unpadded item code and take the weight', async () => {
+      const match = await service.resolve('business-1', '2000123012506');
+
+      expect(mockPrisma.product.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: [{ sku: { in: ['00123', '123'] } }, { barcode: { in: ['00123', '123'] } }],
+          }),
+        }),
+      );
+      expect(match).toEqual({
+        productId: 'product-bread',
+        type: 'weight',
+        itemCode: '00123',
+        quantity: 1.25,
+        amount: 50000,
+      });
+    });
+
+    it('should convert the weight into the sell unit of the product', async () => {
+      (mockPrisma.product.findFirst as jest.Mock).mockResolvedValue({
+        ...bread,
+        basePrice: 4000,
+        sellUnit: 'ons',
+      });
+
+      const match = await service.resolve('business-1', '2000123012506');
+
+      expect(match).toMatchObject({ quantity: 12.5, amount: 50000 });
+    });
+
+    it('should work out the quantity of a price label', async () => {
+      const match = await service.resolve('business-1', '2100123250004');
+
+      expect(match).toMatchObject({ type: 'price', quantity: 0.625, amount: 25000 });
+    });
+
+    it('should use the layouts saved for the business', async () => {
+      (mockPrisma.business.findUnique as jest.Mock).mockResolvedValue({
+        settings: {
+          embeddedBarcodeLayouts: [
+            { prefix: '21', type: 'weight', itemDigits: 5, valueDigits: 5, decimals: 3 },
+          ],
+        },
+      });
+
+      const match = await service.resolve('business-1', '2100123250004');
+
+      expect(match).toMatchObject({ type: 'weight', quantity: 25 });
+    });
+
+    it('should leave plain barcodes to the catalog lookup', async () => {
+      await expect(service.resolve('business-1', '8991234567891')).resolves.toBeNull();
+      expect(mockPrisma.product.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a weight label for an item not sold by weight', async () => {
+      (mockPrisma.product.findFirst as jest.Mock).mockResolvedValue({
+        ...bread,
+        isWeighed: false,
+      });
+
+      await expect(service.resolve('business-1', '2000123012506')).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+      });
+    });
+
+    it('should report an unknown item code', async () => {
+      (mockPrisma.product.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.resolve('business-1', '2000999000003')).rejects.toMatchObject({
+        code: ErrorCode.PRODUCT_NOT_FOUND,
+      });
+    });
+  });
+
+  describe('updateLayouts', () => {
+    it('should refuse a layout whose digits do not add up', async () => {
+      await expect(
+        service.updateLayouts('business-1', [
+          { prefix: '20', type: 'weight', itemDigits: 5, valueDigits: 4, decimals: 3 },
+        ]),
+      ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+      expect(mockPrisma.business.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the same prefix twice', async () => {
+      await expect(
+        service.updateLayouts('business-1', [
+          DEFAULT_BARCODE_LAYOUTS[0],
+          { ...DEFAULT_BARCODE_LAYOUTS[0], type: 'price' },
+        ]),
+      ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should keep the other business settings', async () => {
+      (mockPrisma.business.findUnique as jest.Mock).mockResolvedValue({
+        settings: { taxRate: 11 },
+      });
+
+      await service.updateLayouts('business-1', DEFAULT_BARCODE_LAYOUTS);
+
+      expect(mockPrisma.business.update).toHaveBeenCalledWith({
+        where: { id: 'business-1' },
+        data: { settings: { taxRate: 11, embeddedBarcodeLayouts: DEFAULT_BARCODE_LAYOUTS } },
+      });
+    });
+  });
+});
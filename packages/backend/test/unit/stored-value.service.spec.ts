@@ -0,0 +1,210 @@
+import { Prisma } from '@prisma/client';
+import { StoredValueService } from '../../src/modules/gift-cards/stored-value.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { BusinessError } from '../../src/shared/errors/business-error';
+
+describe('StoredValueService', () => {
+  let service: StoredValueService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let tx: Record<string, Record<string, jest.Mock>>;
+
+  const decimal = (value: number) => new Prisma.Decimal(value);
+
+  const activeCard = {
+    id: 'card-1',
+    businessId: 'biz-1',
+    code: 'GC-AAAA-BBBB-CCCC',
+    status: 'active',
+    balance: decimal(100000),
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  };
+
+  const redeemInput = (
+    payments: Array<{ method: string; amount: number; referenceNumber?: string }>,
+  ) => ({
+    outletId: 'outlet-1',
+    transactionId: 'txn-1',
+    customerId: 'cust-1',
+    employeeId: 'emp-1',
+    payments,
+  });
+
+  beforeEach(() => {
+    tx = {
+      outlet: { findUnique: jest.fn().mockResolvedValue({ businessId: 'biz-1' }) },
+      giftCard: {
+        findFirst: jest.fn().mockResolvedValue(activeCard),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUniqueOrThrow: jest.fn().mockResolvedValue({ balance: decimal(60000) }),
+        update: jest.fn().mockImplementation(({ data }) => ({
+          balance: decimal(60000 + data.balance.increment),
+        })),
+      },
+      giftCardLedgerEntry: { create: jest.fn(), findMany: jest.fn().mockResolvedValue([]) },
+      customerWallet: {
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUniqueOrThrow: jest.fn(),
+        update: jest.fn(),
+      },
+      walletLedgerEntry: { create: jest.fn(), findMany: jest.fn().mockResolvedValue([]) },
+    };
+
+    mockPrisma = {
+      $transaction: jest.fn((fn) => fn(tx)),
+      giftCardLedgerEntry: { aggregate: jest.fn() },
+      walletLedgerEntry: { aggregate: jest.fn() },
+      giftCard: { count: jest.fn(), aggregate: jest.fn() },
+      customerWallet: { count: jest.fn() },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    service = new StoredValueService(mockPrisma);
+  });
+
+  // ==========================================================================
+  // redeem
+  // ==========================================================================
+
+  describe('redeem', () => {
+    it('should decrement the card conditionally and write a redeem entry', async () => {
+      // Act
+      const result = await service.redeem(
+        tx as unknown as Prisma.TransactionClient,
+        redeemInput([
+          { method: 'cash', amount: 20000 },
+          { method: 'gift_card', amount: 40000, referenceNumber: ' gc-aaaa-bbbb-cccc ' },
+        ]),
+      );
+
+      // Assert
+      expect(tx.giftCard.findFirst).toHaveBeenCalledWith({
+        where: { businessId: 'biz-1', code: 'GC-AAAA-BBBB-CCCC' },
+      });
+      expect(tx.giftCard.updateMany).toHaveBeenCalledWith({
+        where: { id: 'card-1', status: 'active', balance: { gte: 40000 } },
+        data: { balance: { decrement: 40000 } },
+      });
+      expect(tx.giftCardLedgerEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entryType: 'redeem',
+          amount: -40000,
+          transactionId: 'txn-1',
+        }),
+      });
+      expect(result).toEqual([
+        { source: 'gift_card', accountId: 'card-1', amount: 40000, balanceAfter: 60000 },
+      ]);
+    });
+
+    it('should reject a tender larger than the card balance', async () => {
+      // Arrange
+      tx.giftCard.updateMany.mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(
+        service.redeem(
+          tx as unknown as Prisma.TransactionClient,
+          redeemInput([{ method: 'gift_card', amount: 150000, referenceNumber: activeCard.code }]),
+        ),
+      ).rejects.toThrow('Gift card balance 100000 is less than 150000');
+      expect(tx.giftCardLedgerEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired card even before the expiry sweep runs', async () => {
+      // Arrange
+      tx.giftCard.findFirst.mockResolvedValue({ ...activeCard, expiresAt: new Date('2020-01-01') });
+
+      // Act & Assert
+      await expect(
+        service.redeem(
+          tx as unknown as Prisma.TransactionClient,
+          redeemInput([{ method: 'gift_card', amount: 1000, referenceNumber: activeCard.code }]),
+        ),
+      ).rejects.toThrow('Gift card has expired');
+    });
+
+    it('should only spend a wallet that belongs to the outlet business', async () => {
+      // Arrange
+      tx.customerWallet.findUnique.mockResolvedValue({
+        id: 'wallet-1',
+        businessId: 'other-biz',
+        isActive: true,
+        balance: decimal(50000),
+      });
+
+      // Act & Assert
+      await expect(
+        service.redeem(
+          tx as unknown as Prisma.TransactionClient,
+          redeemInput([{ method: 'wallet', amount: 10000 }]),
+        ),
+      ).rejects.toBeInstanceOf(BusinessError);
+      expect(tx.customerWallet.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // reverseForTransaction
+  // ==========================================================================
+
+  describe('reverseForTransaction', () => {
+    it('should credit back a proportional share without exceeding what is unreversed', async () => {
+      // Arrange: 40000 redeemed, 30000 already returned by an earlier refund
+      tx.giftCardLedgerEntry.findMany.mockResolvedValue([
+        { giftCardId: 'card-1', entryType: 'redeem', amount: decimal(-40000) },
+        { giftCardId: 'card-1', entryType: 'reversal', amount: decimal(30000) },
+      ]);
+
+      // Act: refund half of the sale
+      const result = await service.reverseForTransaction('txn-1', { employeeId: 'emp-2' }, 0.5);
+
+      // Assert
+      expect(tx.giftCard.update).toHaveBeenCalledWith({
+        where: { id: 'card-1' },
+        data: { balance: { increment: 10000 } },
+      });
+      expect(result).toEqual([
+        { source: 'gift_card', accountId: 'card-1', amount: 10000, balanceAfter: 70000 },
+      ]);
+    });
+
+    it('should do nothing when the sale used no stored value', async () => {
+      // Act
+      const result = await service.reverseForTransaction('txn-1', {});
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(tx.giftCard.update).not.toHaveBeenCalled();
+      expect(tx.customerWallet.update).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // getLiabilityReport
+  // ==========================================================================
+
+  it('should sum outstanding balances from both ledgers', async () => {
+    // Arrange
+    (mockPrisma.giftCardLedgerEntry.aggregate as jest.Mock).mockResolvedValue({
+      _sum: { amount: decimal(250000) },
+    });
+    (mockPrisma.walletLedgerEntry.aggregate as jest.Mock).mockResolvedValue({
+      _sum: { amount: decimal(75000) },
+    });
+    (mockPrisma.giftCard.count as jest.Mock).mockResolvedValue(4);
+    (mockPrisma.giftCard.aggregate as jest.Mock).mockResolvedValue({
+      _sum: { balance: decimal(50000) },
+      _count: { _all: 1 },
+    });
+    (mockPrisma.customerWallet.count as jest.Mock).mockResolvedValue(3);
+
+    // Act
+    const report = await service.getLiabilityReport('biz-1', new Date('2026-10-19'));
+
+    // Assert
+    expect(report.giftCards.outstanding).toBe(250000);
+    expect(report.giftCards.expiringWithin30Days).toEqual({ count: 1, amount: 50000 });
+    expect(report.wallets).toEqual({ outstanding: 75000, walletsWithBalance: 3 });
+    expect(report.totalLiability).toBe(325000);
+  });
+});
@@ -0,0 +1,210 @@
+import { ExecutionContext, CallHandler } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { of } from 'rxjs';
+import { SubscriptionService } from '../../src/modules/business/services/subscription.service';
+import { FeatureService } from '../../src/modules/business/services/feature.service';
+import {
+  SubscriptionInterceptor,
+  PLAN_LIMIT_KEY,
+  ALLOW_READ_ONLY_KEY,
+} from '../../src/common/interceptors/subscription.interceptor';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { AppError } from '../../src/shared/errors/app-error';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SubscriptionService', () => {
+  let service: SubscriptionService;
+  let mockPrisma: Record<string, Record<string, jest.Mock>>;
+
+  const now = new Date('2026-10-19T10:00:00Z');
+
+  beforeEach(() => {
+    mockPrisma = {
+      business: {
+        findUnique: jest.fn().mockResolvedValue({
+          subscriptionPlan: 'basic',
+          subscriptionExpiresAt: null,
+        }),
+      },
+      outlet: { count: jest.fn().mockResolvedValue(1) },
+      device: { count: jest.fn().mockResolvedValue(0) },
+      employee: { count: jest.fn().mockResolvedValue(3) },
+      transaction: { count: jest.fn().mockResolvedValue(1200) },
+    };
+    service = new SubscriptionService(mockPrisma as unknown as PrismaService);
+  });
+
+  describe('getStatus', () => {
+    it('should stay active without an expiry date', async () => {
+      const status = await service.getStatus('biz-1', now);
+
+      expect(status).toMatchObject({ plan: 'basic', state: 'active', graceEndsAt: null });
+    });
+
+    it('should be in grace for a week after expiry, then read-only', async () => {
+      // Arrange
+      mockPrisma.business.findUnique.mockResolvedValue({
+        subscriptionPlan: 'premium',
+        subscriptionExpiresAt: new Date(now.getTime() - 3 * DAY_MS),
+      });
+
+      // Act & Assert
+      expect((await service.getStatus('biz-1', now)).state).toBe('grace');
+      expect((await service.getStatus('biz-1', new Date(now.getTime() + 5 * DAY_MS))).state).toBe(
+        'read_only',
+      );
+    });
+  });
+
+  describe('getUsage', () => {
+    it('should report consumption against the plan limits for this month', async () => {
+      // Act
+      const result = await service.getUsage('biz-1', now);
+
+      // Assert
+      expect(result.periodStart).toEqual(new Date('2026-10-01T00:00:00Z'));
+      expect(result.usage).toEqual({
+        outlets: { used: 1, limit: 1, remaining: 0 },
+        devices: { used: 0, limit: 2, remaining: 2 },
+        employees: { used: 3, limit: 5, remaining: 2 },
+        monthlyTransactions: { used: 1200, limit: 3000, remaining: 1800 },
+      });
+      expect(mockPrisma.transaction.count).toHaveBeenCalledWith({
+        where: {
+          outlet: { businessId: 'biz-1' },
+          transactionType: 'sale',
+          createdAt: { gte: new Date('2026-10-01T00:00:00Z') },
+        },
+      });
+    });
+  });
+
+  describe('assertWithinLimit', () => {
+    it('should refuse to add beyond the plan limit', async () => {
+      await expect(service.assertWithinLimit('biz-1', 'outlets')).rejects.toMatchObject({
+        code: ErrorCode.PLAN_LIMIT_REACHED,
+      });
+    });
+
+    it('should allow adding while under the limit', async () => {
+      await expect(service.assertWithinLimit('biz-1', 'employees')).resolves.toBeUndefined();
+    });
+
+    it('should not count usage on unlimited plans', async () => {
+      // Arrange
+      mockPrisma.business.findUnique.mockResolvedValue({ subscriptionPlan: 'enterprise' });
+
+      // Act
+      await service.assertWithinLimit('biz-1', 'outlets');
+
+      // Assert
+      expect(mockPrisma.outlet.count).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('SubscriptionInterceptor', () => {
+  let interceptor: SubscriptionInterceptor;
+  let reflector: { getAllAndOverride: jest.Mock };
+  let subscriptions: { assertWritable: jest.Mock; assertWithinLimit: jest.Mock };
+  const next: CallHandler = { handle: () => of('ok') };
+
+  const contextFor = (method: string, user?: { businessId: string }) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ method, user }) }),
+    }) as unknown as ExecutionContext;
+
+  const withMetadata = (metadata: Record<string, unknown>) =>
+    reflector.getAllAndOverride.mockImplementation((key: string) => metadata[key]);
+
+  beforeEach(() => {
+    reflector = { getAllAndOverride: jest.fn() };
+    subscriptions = {
+      assertWritable: jest.fn().mockResolvedValue(undefined),
+      assertWithinLimit: jest.fn().mockResolvedValue(undefined),
+    };
+    interceptor = new SubscriptionInterceptor(
+      reflector as unknown as Reflector,
+      subscriptions as unknown as SubscriptionService,
+    );
+  });
+
+  it('should never block reads', async () => {
+    await interceptor.intercept(contextFor('GET', { businessId: 'biz-1' }), next);
+
+    expect(subscriptions.assertWritable).not.toHaveBeenCalled();
+  });
+
+  it('should check writes and the plan limit of the route', async () => {
+    // Arrange
+    withMetadata({ [PLAN_LIMIT_KEY]: 'devices' });
+
+    // Act
+    await interceptor.intercept(contextFor('POST', { businessId: 'biz-1' }), next);
+
+    // Assert
+    expect(subscriptions.assertWritable).toHaveBeenCalledWith('biz-1');
+    expect(subscriptions.assertWithinLimit).toHaveBeenCalledWith('biz-1', 'devices');
+  });
+
+  it('should let routes opt out of read-only mode', async () => {
+    // Arrange
+    withMetadata({ [ALLOW_READ_ONLY_KEY]: true });
+
+    // Act
+    await interceptor.intercept(contextFor('PUT', { businessId: 'biz-1' }), next);
+
+    // Assert
+    expect(subscriptions.assertWritable).not.toHaveBeenCalled();
+  });
+
+  it('should propagate the read-only error', async () => {
+    // Arrange
+    subscriptions.assertWritable.mockRejectedValue(
+      new AppError(ErrorCode.SUBSCRIPTION_READ_ONLY, 'expired'),
+    );
+
+    // Act & Assert
+    await expect(
+      interceptor.intercept(contextFor('POST', { businessId: 'biz-1' }), next),
+    ).rejects.toMatchObject({ code: ErrorCode.SUBSCRIPTION_READ_ONLY });
+  });
+});
+
+describe('FeatureService plan gating', () => {
+  let service: FeatureService;
+  let mockPrisma: Record<string, Record<string, jest.Mock>>;
+
+  beforeEach(() => {
+    mockPrisma = {
+      business: { findUnique: jest.fn().mockResolvedValue({ subscriptionPlan: 'basic' }) },
+      businessFeature: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ featureKey: 'stock_management' }, { featureKey: 'audit_log' }]),
+        findUnique: jest.fn().mockResolvedValue({ isEnabled: true }),
+        upsert: jest.fn(),
+      },
+    };
+    service = new FeatureService(mockPrisma as unknown as PrismaService);
+  });
+
+  it('should leave out enabled features the plan does not unlock', async () => {
+    expect(await service.getEnabledFeatureKeys('biz-1')).toEqual(['stock_management']);
+    expect(await service.isFeatureEnabled('biz-1', 'audit_log')).toBe(false);
+  });
+
+  it('should refuse to enable a feature outside the plan', async () => {
+    // Act
+    const result = await service.toggleFeature('biz-1', 'audit_log', true);
+
+    // Assert
+    expect(result).toMatchObject({ success: false, message: expect.stringContaining('premium') });
+    expect(mockPrisma.businessFeature.upsert).not.toHaveBeenCalled();
+  });
+});
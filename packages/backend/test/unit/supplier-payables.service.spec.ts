@@ -0,0 +1,231 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SupplierPayablesService } from '../../src/modules/suppliers/supplier-payables.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+
+describe('SupplierPayablesService', () => {
+  let service: SupplierPayablesService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let tx: Record<string, Record<string, jest.Mock>>;
+  let queryRaw: jest.Mock;
+
+  const user: AuthUser = {
+    employeeId: 'emp-1',
+    businessId: 'biz-1',
+    outletId: 'outlet-1',
+    role: 'manager',
+  } as AuthUser;
+
+  const decimal = (value: number) => new Prisma.Decimal(value);
+
+  const purchaseOrder = {
+    id: 'po-1',
+    supplierId: 'sup-1',
+    outlet: { businessId: 'biz-1' },
+    items: [
+      {
+        id: 'poi-1',
+        itemName: 'Coffee Beans',
+        quantityOrdered: decimal(10),
+        quantityReceived: decimal(8),
+        unitCost: decimal(100000),
+      },
+    ],
+  };
+
+  const invoiceDto = (quantity: number, unitPrice: number) => ({
+    supplierId: 'sup-1',
+    purchaseOrderId: 'po-1',
+    invoiceNumber: 'INV-001',
+    invoiceDate: '2026-10-01',
+    dueDate: '2026-10-31',
+    items: [{ purchaseOrderItemId: 'poi-1', description: 'Coffee Beans', quantity, unitPrice }],
+  });
+
+  beforeEach(() => {
+    queryRaw = jest.fn().mockResolvedValue([]);
+    tx = {
+      supplierPayment: {
+        create: jest.fn().mockImplementation(({ data }) => ({ id: 'pay-1', ...data })),
+      },
+      supplierInvoice: { findMany: jest.fn(), update: jest.fn() },
+    };
+
+    mockPrisma = {
+      supplier: { findFirst: jest.fn().mockResolvedValue({ id: 'sup-1' }) },
+      purchaseOrder: { findUnique: jest.fn().mockResolvedValue(purchaseOrder) },
+      goodsReceivedNote: { findUnique: jest.fn() },
+      business: { findUnique: jest.fn().mockResolvedValue({ settings: {} }), update: jest.fn() },
+      supplierInvoice: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn(),
+        create: jest.fn().mockImplementation(({ data }) => ({ id: 'inv-1', ...data })),
+      },
+      supplierInvoiceItem: { findMany: jest.fn().mockResolvedValue([]) },
+      $transaction: jest.fn((fn: (client: unknown) => unknown) =>
+        fn(Object.assign(tx, { $queryRaw: queryRaw })),
+      ),
+    } as unknown as jest.Mocked<PrismaService>;
+
+    service = new SupplierPayablesService(mockPrisma);
+  });
+
+  // ==========================================================================
+  // createInvoice
+  // ==========================================================================
+
+  describe('createInvoice', () => {
+    it('should mark an invoice matching receipt and PO price as matched', async () => {
+      // Act
+      const invoice = await service.createInvoice(invoiceDto(8, 101000), user);
+
+      // Assert - 1% price variance is inside the default 2% tolerance
+      const data = (mockPrisma.supplierInvoice.create as jest.Mock).mock.calls[0][0].data;
+      expect(data).toMatchObject({ subtotal: 808000, totalAmount: 808000 });
+      expect(invoice.matchStatus).toBe('matched');
+    });
+
+    it('should flag over-billed quantity and price above tolerance', async () => {
+      // Act
+      await service.createInvoice(invoiceDto(10, 110000), user);
+
+      // Assert
+      const data = (mockPrisma.supplierInvoice.create as jest.Mock).mock.calls[0][0].data;
+      expect(data.matchStatus).toBe('mismatch');
+      expect(data.matchDetails.lines[0]).toMatchObject({
+        receivedQuantity: 8,
+        quantityVariancePercent: 25,
+        priceVariancePercent: 10,
+        issues: ['quantity', 'price'],
+      });
+    });
+
+    it('should net out quantities already billed on earlier invoices', async () => {
+      // Arrange
+      (mockPrisma.supplierInvoiceItem.findMany as jest.Mock).mockResolvedValue([
+        { purchaseOrderItemId: 'poi-1', quantity: decimal(8) },
+      ]);
+
+      // Act
+      await service.createInvoice(invoiceDto(2, 100000), user);
+
+      // Assert
+      const data = (mockPrisma.supplierInvoice.create as jest.Mock).mock.calls[0][0].data;
+      expect(data.matchDetails.lines[0].issues).toEqual(['not_received']);
+    });
+
+    it('should use the tolerance configured for the business', async () => {
+      // Arrange
+      (mockPrisma.business.findUnique as jest.Mock).mockResolvedValue({
+        settings: { threeWayMatchTolerance: { quantityPercent: 30, pricePercent: 15 } },
+      });
+
+      // Act
+      await service.createInvoice(invoiceDto(10, 110000), user);
+
+      // Assert
+      const data = (mockPrisma.supplierInvoice.create as jest.Mock).mock.calls[0][0].data;
+      expect(data.matchStatus).toBe('matched');
+    });
+
+    it('should reject a duplicate supplier invoice number', async () => {
+      // Arrange
+      (mockPrisma.supplierInvoice.findFirst as jest.Mock).mockResolvedValue({ id: 'inv-0' });
+
+      // Act & Assert
+      await expect(service.createInvoice(invoiceDto(8, 100000), user)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  // ==========================================================================
+  // recordPayment
+  // ==========================================================================
+
+  describe('recordPayment', () => {
+    const openInvoices = [
+      {
+        id: 'inv-1',
+        invoiceNumber: 'INV-001',
+        totalAmount: decimal(500000),
+        paidAmount: decimal(200000),
+      },
+      {
+        id: 'inv-2',
+        invoiceNumber: 'INV-002',
+        totalAmount: decimal(400000),
+        paidAmount: decimal(0),
+      },
+    ];
+
+    beforeEach(() => {
+      tx.supplierInvoice.findMany.mockResolvedValue(openInvoices);
+    });
+
+    it('should settle the oldest invoices first and leave the rest partially paid', async () => {
+      // Act
+      const payment = await service.recordPayment(
+        { supplierId: 'sup-1', amount: 450000, paymentMethod: 'bank_transfer' },
+        user,
+      );
+
+      // Assert
+      expect(payment.allocations).toEqual({
+        create: [
+          { invoiceId: 'inv-1', amount: 300000 },
+          { invoiceId: 'inv-2', amount: 150000 },
+        ],
+      });
+      expect(tx.supplierInvoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: { paidAmount: 500000, status: 'paid' },
+      });
+      expect(tx.supplierInvoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-2' },
+        data: { paidAmount: 150000, status: 'partially_paid' },
+      });
+    });
+
+    it('should reject an allocation above the invoice balance', async () => {
+      // Act & Assert
+      await expect(
+        service.recordPayment(
+          {
+            supplierId: 'sup-1',
+            amount: 350000,
+            paymentMethod: 'cash',
+            allocations: [{ invoiceId: 'inv-1', amount: 350000 }],
+          },
+          user,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(tx.supplierPayment.create).not.toHaveBeenCalled();
+    });
+
+    it('should read the open balances under the invoice lock', async () => {
+      // Act
+      await service.recordPayment(
+        { supplierId: 'sup-1', amount: 100000, paymentMethod: 'cash' },
+        user,
+      );
+
+      // Assert
+      expect(queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.supplierInvoice.findMany.mock.invocationCallOrder[0],
+      );
+      expect(mockPrisma.supplierInvoice.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject payments larger than the open balance', async () => {
+      // Act & Assert
+      await expect(
+        service.recordPayment(
+          { supplierId: 'sup-1', amount: 1000000, paymentMethod: 'cash' },
+          user,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
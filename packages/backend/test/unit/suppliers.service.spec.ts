@@ -29,6 +29,9 @@ describe('SuppliersService', () => {
       outlet: {
         findUnique: jest.fn(),
       },
+      supplierInvoice: {
+        findMany: jest.fn(),
+      },
     } as unknown as jest.Mocked<PrismaService>;
 
     service = new SuppliersService(mockPrisma);
@@ -127,6 +130,48 @@ describe('SuppliersService', () => {
     });
   });
 
+  // ==========================================================================
+  // getAccountsPayableAging
+  // ==========================================================================
+
+  describe('getAccountsPayableAging', () => {
+    it('should bucket open balances by days past due', async () => {
+      // Arrange
+      const supplier = { id: 'sup-1', name: 'Supplier One' };
+      const invoice = (dueDate: string, totalAmount: number, paidAmount = 0) => ({
+        supplierId: 'sup-1',
+        supplier,
+        dueDate: new Date(dueDate),
+        totalAmount,
+        paidAmount,
+      });
+      (mockPrisma.supplierInvoice.findMany as jest.Mock).mockResolvedValue([
+        invoice('2026-02-15', 100000),
+        invoice('2026-01-20', 200000, 50000),
+        invoice('2025-12-15', 300000),
+        invoice('2025-10-01', 400000),
+      ]);
+
+      // Act
+      const report = await service.getAccountsPayableAging('biz-1', now);
+
+      // Assert
+      expect(report.suppliers).toEqual([
+        expect.objectContaining({
+          supplierId: 'sup-1',
+          invoiceCount: 4,
+          current: 100000,
+          days1To30: 150000,
+          days31To60: 300000,
+          days61To90: 0,
+          days90Plus: 400000,
+          total: 950000,
+        }),
+      ]);
+      expect(report.totals.total).toBe(950000);
+    });
+  });
+
   // ==========================================================================
   // autoReorder (checkAutoReorder concept)
   // ==========================================================================
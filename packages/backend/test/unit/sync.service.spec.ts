@@ -0,0 +1,383 @@
+import { BadRequestException, HttpStatus } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  SyncService,
+  decodeCursor,
+  encodeCursor,
+  syncEntityId,
+} from '../../src/modules/sync/sync.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { CreateTransactionUseCase } from '../../src/application/use-cases/pos/create-transaction.use-case';
+import { ManagerOverrideService } from '../../src/modules/overrides/manager-override.service';
+import { SubscriptionService } from '../../src/modules/business/services/subscription.service';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+import type { SyncPushOperationDto } from '../../src/application/dtos/sync.dto';
+import { AppError } from '../../src/shared/errors/app-error';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+
+describe('SyncService', () => {
+  let service: SyncService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockCreateTransaction: { execute: jest.Mock };
+  let mockOverrides: { saleRestrictions: jest.Mock };
+  let mockSubscriptions: { assertWithinLimit: jest.Mock };
+
+  const user: AuthUser = {
+    employeeId: 'emp-1',
+    businessId: 'biz-1',
+    outletId: 'outlet-1',
+    role: 'cashier',
+  } as AuthUser;
+
+  const decimal = (value: number) => new Prisma.Decimal(value);
+  const updatedAt = new Date('2026-10-19T08:00:00.000Z');
+
+  const customerRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'cust-1',
+    businessId: 'biz-1',
+    name: 'Budi',
+    email: null,
+    phone: '0812',
+    address: null,
+    notes: null,
+    loyaltyPoints: 0,
+    loyaltyTier: 'regular',
+    isActive: true,
+    updatedAt,
+    ...overrides,
+  });
+
+  const transactionRow = (id: string) => ({
+    id,
+    outletId: 'outlet-1',
+    receiptNumber: 'TXN-1760860800000-ABCD',
+    offlineReceiptNumber: 'OFF-01-0007',
+    transactionType: 'sale',
+    orderType: 'takeaway',
+    status: 'completed',
+    customerId: null,
+    employeeId: 'emp-1',
+    subtotal: decimal(20000),
+    discountAmount: decimal(0),
+    taxAmount: decimal(2200),
+    grandTotal: decimal(22200),
+    createdAt: updatedAt,
+    updatedAt,
+    items: [],
+    payments: [],
+  });
+
+  const op = (overrides: Partial<SyncPushOperationDto>): SyncPushOperationDto => ({
+    idempotencyKey: 'transactions-offline-tx-1-1760860800000',
+    entityType: 'transactions',
+    operation: 'create',
+    ...overrides,
+  });
+
+  const saleData = {
+    outletId: 'outlet-1',
+    employeeId: 'emp-1',
+    shiftId: 'shift-1',
+    orderType: 'takeaway',
+    items: [{ productId: 'prod-1', quantity: 2 }],
+    payments: [{ method: 'cash', amount: 25000 }],
+    receiptNumber: 'OFF-01-0007',
+    createdAt: 1760860800000,
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      product: { findMany: jest.fn() },
+      category: { findMany: jest.fn() },
+      customer: {
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+        findFirst: jest.fn(),
+        create: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      transaction: { findMany: jest.fn(), findUnique: jest.fn() },
+      employee: { findFirst: jest.fn().mockResolvedValue({ id: 'emp-1' }) },
+      syncOperationLog: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+      },
+      device: { updateMany: jest.fn() },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    mockCreateTransaction = { execute: jest.fn() };
+    mockOverrides = {
+      saleRestrictions: jest.fn().mockResolvedValue({
+        maxDiscountPercent: undefined,
+        priceOverrideRequiresApproval: false,
+      }),
+    };
+
+    mockSubscriptions = { assertWithinLimit: jest.fn() };
+
+    service = new SyncService(
+      mockPrisma,
+      mockCreateTransaction as unknown as CreateTransactionUseCase,
+      mockOverrides as unknown as ManagerOverrideService,
+      mockSubscriptions as unknown as SubscriptionService,
+    );
+  });
+
+  // ==========================================================================
+  // Cursor
+  // ==========================================================================
+
+  it('should round-trip a cursor and reject a tampered one', () => {
+    const cursor = encodeCursor(updatedAt.getTime(), 'cust-1');
+
+    expect(decodeCursor(cursor)).toEqual({ updatedAt, id: 'cust-1' });
+    expect(() => decodeCursor('not-a-cursor')).toThrow(BadRequestException);
+  });
+
+  // ==========================================================================
+  // Pull
+  // ==========================================================================
+
+  describe('pull', () => {
+    it('should page after the cursor and flag soft-deleted rows', async () => {
+      // Arrange
+      const after = encodeCursor(updatedAt.getTime() - 1000, 'cust-0');
+      (mockPrisma.customer.findMany as jest.Mock).mockResolvedValue([
+        customerRow(),
+        customerRow({ id: 'cust-2', isActive: false }),
+        customerRow({ id: 'cust-3' }),
+      ]);
+
+      // Act
+      const result = await service.pull(user, { entityType: 'customers', cursor: after, limit: 2 });
+
+      // Assert
+      const query = (mockPrisma.customer.findMany as jest.Mock).mock.calls[0][0];
+      expect(query.take).toBe(3);
+      expect(query.where.AND[1].OR[1]).toEqual({
+        updatedAt: new Date(updatedAt.getTime() - 1000),
+        id: { gt: 'cust-0' },
+      });
+      expect(result.items.map((item) => [item.id, item.deleted])).toEqual([
+        ['cust-1', false],
+        ['cust-2', true],
+      ]);
+      expect(result.hasMore).toBe(true);
+      expect(decodeCursor(result.nextCursor!)).toEqual({ updatedAt, id: 'cust-2' });
+    });
+  });
+
+  // ==========================================================================
+  // Push
+  // ==========================================================================
+
+  describe('push', () => {
+    it('should create an offline sale under a key-derived id and map its receipt number', async () => {
+      // Arrange
+      const expectedId = syncEntityId('biz-1', 'transactions-offline-tx-1-1760860800000');
+      (mockPrisma.transaction.findUnique as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(transactionRow(expectedId));
+
+      // Act
+      const { results } = await service.push(user, {
+        operations: [op({ entityId: 'offline-tx-1', data: saleData })],
+      });
+
+      // Assert
+      expect(mockCreateTransaction.execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transactionId: expectedId,
+          offlineReceiptNumber: 'OFF-01-0007',
+          occurredAt: new Date(1760860800000),
+        }),
+      );
+      expect(results[0]).toMatchObject({
+        status: 'applied',
+        clientEntityId: 'offline-tx-1',
+        entityId: expectedId,
+        receiptNumber: 'TXN-1760860800000-ABCD',
+        clientReceiptNumber: 'OFF-01-0007',
+      });
+      expect(mockPrisma.syncOperationLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          idempotencyKey: 'transactions-offline-tx-1-1760860800000',
+          entityId: expectedId,
+        }),
+      });
+    });
+
+    it("should apply the cashier's discount and price override rules to an offline sale", async () => {
+      // Arrange
+      mockOverrides.saleRestrictions.mockResolvedValue({
+        maxDiscountPercent: 20,
+        priceOverrideRequiresApproval: true,
+      });
+      (mockPrisma.transaction.findUnique as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(transactionRow('txn-1'));
+      const discounts = [{ type: 'percentage', value: 50 }];
+
+      // Act
+      await service.push(user, {
+        operations: [op({ data: { ...saleData, discounts, discountApprovalToken: 'token-1' } })],
+      });
+
+      // Assert
+      expect(mockOverrides.saleRestrictions).toHaveBeenCalledWith(user, 'outlet-1');
+      expect(mockCreateTransaction.execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          discounts,
+          maxDiscountPercent: 20,
+          priceOverrideRequiresApproval: true,
+          approvals: { discount: 'token-1', priceOverride: undefined },
+        }),
+      );
+    });
+
+    it('should reject an offline sale past the monthly transaction limit', async () => {
+      // Arrange
+      mockSubscriptions.assertWithinLimit.mockRejectedValue(
+        new AppError(ErrorCode.PLAN_LIMIT_REACHED, 'Limit reached', HttpStatus.FORBIDDEN),
+      );
+      (mockPrisma.transaction.findUnique as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const { results } = await service.push(user, { operations: [op({ data: saleData })] });
+
+      // Assert
+      expect(mockSubscriptions.assertWithinLimit).toHaveBeenCalledWith(
+        'biz-1',
+        'monthlyTransactions',
+      );
+      expect(results[0]).toMatchObject({
+        status: 'rejected',
+        error: { code: ErrorCode.PLAN_LIMIT_REACHED },
+      });
+      expect(mockCreateTransaction.execute).not.toHaveBeenCalled();
+    });
+
+    it('should answer a replayed key from the log without applying it again', async () => {
+      // Arrange
+      (mockPrisma.syncOperationLog.findUnique as jest.Mock).mockResolvedValue({
+        result: { status: 'applied', entityId: 'txn-9', receiptNumber: 'TXN-9' },
+      });
+
+      // Act
+      const { results } = await service.push(user, { operations: [op({ data: saleData })] });
+
+      // Assert
+      expect(results[0]).toMatchObject({ status: 'duplicate', entityId: 'txn-9' });
+      expect(mockCreateTransaction.execute).not.toHaveBeenCalled();
+      expect(mockPrisma.syncOperationLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a customer created earlier in the same batch', async () => {
+      // Arrange
+      const customerId = syncEntityId('biz-1', 'customers-local-1');
+      (mockPrisma.customer.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.customer.create as jest.Mock).mockResolvedValue(customerRow({ id: customerId }));
+      (mockPrisma.transaction.findUnique as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(transactionRow('txn-1'));
+
+      // Act
+      await service.push(user, {
+        operations: [
+          op({
+            idempotencyKey: 'customers-local-1',
+            entityType: 'customers',
+            entityId: 'local-1',
+            data: { name: 'Budi' },
+          }),
+          op({ data: { ...saleData, customerId: 'local-1' } }),
+        ],
+      });
+
+      // Assert
+      expect(mockCreateTransaction.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ customerId }),
+      );
+    });
+
+    it("should reject a sale for another business's customer", async () => {
+      // Arrange
+      (mockPrisma.customer.findFirst as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const { results } = await service.push(user, {
+        operations: [
+          op({ data: { ...saleData, customerId: '3f1c2a7e-0b5d-4c8e-9a6f-1d2e3f4a5b6c' } }),
+        ],
+      });
+
+      // Assert
+      expect(mockPrisma.customer.findFirst).toHaveBeenCalledWith({
+        where: { id: '3f1c2a7e-0b5d-4c8e-9a6f-1d2e3f4a5b6c', businessId: 'biz-1' },
+        select: { id: true },
+      });
+      expect(results[0]).toMatchObject({
+        status: 'rejected',
+        error: expect.objectContaining({ code: 'CUSTOMER_NOT_FOUND' }),
+      });
+      expect(mockCreateTransaction.execute).not.toHaveBeenCalled();
+    });
+
+    it('should return the server version when the customer changed since baseVersion', async () => {
+      // Arrange
+      (mockPrisma.customer.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (mockPrisma.customer.findFirst as jest.Mock).mockResolvedValue(
+        customerRow({ name: 'Budi Santoso' }),
+      );
+
+      // Act
+      const { results } = await service.push(user, {
+        operations: [
+          op({
+            idempotencyKey: 'customers-cust-1-1760860800000',
+            entityType: 'customers',
+            operation: 'update',
+            entityId: '3f1c2a7e-0b5d-4c8e-9a6f-1d2e3f4a5b6c',
+            data: { name: 'Budi S.' },
+            baseVersion: updatedAt.getTime() - 60000,
+          }),
+        ],
+      });
+
+      // Assert
+      expect(mockPrisma.customer.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            updatedAt: { lte: new Date(updatedAt.getTime() - 60000) },
+          }),
+        }),
+      );
+      expect(results[0]).toMatchObject({
+        status: 'conflict',
+        serverVersion: updatedAt.getTime(),
+        serverData: expect.objectContaining({ name: 'Budi Santoso' }),
+      });
+      expect(mockPrisma.syncOperationLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid payloads per operation', async () => {
+      // Act
+      const { results } = await service.push(user, {
+        operations: [
+          op({ data: { ...saleData, payments: [] } }),
+          op({
+            idempotencyKey: 'products-p1-1760860800000',
+            entityType: 'products',
+            operation: 'update',
+          }),
+        ],
+      });
+
+      // Assert
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+      expect(results[0].error?.code).toBe('VALIDATION_ERROR');
+      expect(mockCreateTransaction.execute).not.toHaveBeenCalled();
+    });
+  });
+});
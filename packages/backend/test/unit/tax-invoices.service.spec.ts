@@ -0,0 +1,419 @@
+import { Prisma } from '@prisma/client';
+import type { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import type { AuthUser } from '../../src/infrastructure/auth/auth-user.interface';
+import { BusinessError } from '../../src/shared/errors/business-error';
+import { TaxInvoicesService } from '../../src/modules/tax-invoices/tax-invoices.service';
+import {
+  toCoretaxXml,
+  toEfakturCsv,
+  type ExportableTaxInvoice,
+} from '../../src/modules/tax-invoices/efaktur.exporter';
+
+const d = (value: number) => new Prisma.Decimal(value);
+
+describe('TaxInvoicesService', () => {
+  let service: TaxInvoicesService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+
+  const user: AuthUser = {
+    employeeId: 'employee-1',
+    businessId: 'business-1',
+    outletId: 'outlet-1',
+    role: 'manager',
+  } as AuthUser;
+
+  const sale = {
+    id: 'tx-1',
+    outletId: 'outlet-1',
+    customerId: 'customer-1',
+    receiptNumber: 'TRX-0001',
+    transactionType: 'sale',
+    status: 'credit',
+    discountAmount: d(10000),
+    taxAmount: d(9900),
+    outlet: { timezone: 'Asia/Jakarta' },
+    taxInvoiceLinks: [] as Array<{ taxInvoiceId: string; taxInvoice: { nsfp: string } }>,
+    items: [
+      {
+        productId: 'product-1',
+        productName: 'Kopi Susu',
+        variantName: 'Large',
+        unitPrice: d(20000),
+        quantity: d(3),
+        subtotal: d(60000),
+      },
+      {
+        productId: 'product-2',
+        productName: 'Roti Bakar',
+        variantName: null,
+        unitPrice: d(20000),
+        quantity: d(2),
+        subtotal: d(40000),
+      },
+    ],
+  };
+
+  const range = {
+    id: 'range-1',
+    businessId: 'business-1',
+    prefix: '00026',
+    startSerial: 1,
+    endSerial: 100,
+    nextSerial: 7,
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      business: {
+        findUnique: jest.fn().mockResolvedValue({
+          name: 'Kopi Senja',
+          legalName: 'PT Kopi Senja Abadi',
+          taxId: '01.234.567.8-901.000',
+          address: 'Jl. Sudirman 1, Jakarta',
+        }),
+      },
+      customer: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'customer-1',
+          name: 'Budi',
+          address: 'Bandung',
+          npwp: '098765432109000',
+          npwpName: 'PT Pembeli Jaya',
+          npwpAddress: 'Jl. Asia Afrika 8, Bandung',
+        }),
+      },
+      transaction: {
+        findMany: jest.fn().mockResolvedValue([sale]),
+      },
+      fakturNumberRange: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([range]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve(data)),
+      },
+      taxInvoice: {
+        create: jest.fn().mockImplementation(({ data }) =>
+          Promise.resolve({
+            id: 'invoice-2',
+            ...data,
+            revision: data.revision ?? 0,
+            dpp: d(data.dpp),
+            ppn: d(data.ppn),
+            ppnbm: d(0),
+            items: [],
+            transactions: [],
+          }),
+        ),
+        findFirst: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      taxInvoiceTransaction: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      $transaction: jest.fn(),
+    } as unknown as jest.Mocked<PrismaService>;
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((cb: (tx: unknown) => unknown) =>
+      cb(mockPrisma),
+    );
+
+    service = new TaxInvoicesService(mockPrisma);
+  });
+
+  // ==========================================================================
+  // NSFP ranges
+  // ==========================================================================
+
+  describe('createRange', () => {
+    it('should store the block as prefix and serials', async () => {
+      // Act
+      await service.createRange({ startNsfp: '000-26.00000001', endNsfp: '000-26.00000500' }, user);
+
+      // Assert
+      expect(mockPrisma.fakturNumberRange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          prefix: '00026',
+          startSerial: 1,
+          endSerial: 500,
+          nextSerial: 1,
+        }),
+      });
+    });
+
+    it('should reject a block spanning two years', async () => {
+      await expect(
+        service.createRange({ startNsfp: '000-25.00000001', endNsfp: '000-26.00000500' }, user),
+      ).rejects.toThrow(BusinessError);
+    });
+  });
+
+  // ==========================================================================
+  // Issue
+  // ==========================================================================
+
+  describe('create', () => {
+    it('should take the next NSFP and spread discount and tax over the lines', async () => {
+      // Act
+      const invoice = await service.create(
+        { transactionIds: ['tx-1'], invoiceDate: '2026-10-19' },
+        user,
+      );
+
+      // Assert
+      expect(mockPrisma.fakturNumberRange.updateMany).toHaveBeenCalledWith({
+        where: { id: 'range-1', nextSerial: 7 },
+        data: { nextSerial: { increment: 1 } },
+      });
+      expect(invoice.nsfp).toBe('000-26.00000007');
+      expect(invoice.fakturNumber).toBe('010.000-26.00000007');
+
+      const data = (mockPrisma.taxInvoice.create as jest.Mock).mock.calls[0][0].data;
+      expect(data).toEqual(
+        expect.objectContaining({
+          sellerNpwp: '012345678901000',
+          sellerName: 'PT Kopi Senja Abadi',
+          buyerNpwp: '098765432109000',
+          buyerName: 'PT Pembeli Jaya',
+          customerId: 'customer-1',
+          dpp: 90000,
+          ppn: 9900,
+        }),
+      );
+      expect(data.items.create).toEqual([
+        expect.objectContaining({
+          name: 'Kopi Susu - Large',
+          totalPrice: 60000,
+          discount: 6000,
+          dpp: 54000,
+          ppn: 5940,
+        }),
+        expect.objectContaining({
+          name: 'Roti Bakar',
+          totalPrice: 40000,
+          discount: 4000,
+          dpp: 36000,
+          ppn: 3960,
+        }),
+      ]);
+    });
+
+    it('should refuse a sale that is already on an issued faktur', async () => {
+      // Arrange
+      (mockPrisma.transaction.findMany as jest.Mock).mockResolvedValue([
+        {
+          ...sale,
+          taxInvoiceLinks: [{ taxInvoiceId: 'invoice-1', taxInvoice: { nsfp: '000-26.00000001' } }],
+        },
+      ]);
+
+      // Act & Assert
+      await expect(service.create({ transactionIds: ['tx-1'] }, user)).rejects.toThrow(
+        'TRX-0001 is already on tax invoice 000-26.00000001',
+      );
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a sale another request put on a faktur in the meantime', async () => {
+      // Arrange
+      (mockPrisma.taxInvoiceTransaction.findFirst as jest.Mock).mockResolvedValue({
+        transaction: { receiptNumber: 'TRX-0001' },
+        taxInvoice: { nsfp: '000-26.00000007' },
+      });
+
+      // Act & Assert
+      await expect(service.create({ transactionIds: ['tx-1'] }, user)).rejects.toThrow(
+        'TRX-0001 is already on tax invoice 000-26.00000007',
+      );
+      expect(mockPrisma.$queryRaw).toHaveBeenCalled();
+      expect(mockPrisma.taxInvoiceTransaction.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { transactionId: { in: ['tx-1'] }, taxInvoice: { status: 'issued' } },
+        }),
+      );
+      expect(mockPrisma.fakturNumberRange.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.taxInvoice.create).not.toHaveBeenCalled();
+    });
+
+    it('should require an NPWP for the buyer', async () => {
+      // Arrange
+      (mockPrisma.customer.findFirst as jest.Mock).mockResolvedValue({
+        id: 'customer-1',
+        name: 'Budi',
+        npwp: null,
+      });
+
+      // Act & Assert
+      await expect(service.create({ transactionIds: ['tx-1'] }, user)).rejects.toThrow(
+        'The buyer has no NPWP',
+      );
+    });
+
+    it('should report when the NSFP block is used up', async () => {
+      // Arrange
+      (mockPrisma.fakturNumberRange.findMany as jest.Mock).mockResolvedValue([
+        { ...range, nextSerial: 101 },
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.create({ transactionIds: ['tx-1'], invoiceDate: '2026-10-19' }, user),
+      ).rejects.toThrow('No NSFP numbers left for 2026');
+    });
+  });
+
+  // ==========================================================================
+  // Replace
+  // ==========================================================================
+
+  describe('replace', () => {
+    it('should reuse the NSFP with the next revision and mark the original replaced', async () => {
+      // Arrange
+      (mockPrisma.taxInvoice.findFirst as jest.Mock).mockResolvedValue({
+        id: 'invoice-1',
+        status: 'issued',
+        nsfp: '000-26.00000003',
+        revision: 0,
+        rangeId: 'range-1',
+        transactionCode: '01',
+        customerId: 'customer-1',
+        buyerNpwp: '098765432109000',
+        buyerName: 'PT Pembeli Jaya',
+        buyerAddress: null,
+        reference: null,
+        invoiceDate: new Date('2026-10-01T00:00:00.000Z'),
+        transactions: [{ transactionId: 'tx-1' }],
+      });
+      (mockPrisma.transaction.findMany as jest.Mock).mockResolvedValue([
+        {
+          ...sale,
+          taxInvoiceLinks: [{ taxInvoiceId: 'invoice-1', taxInvoice: { nsfp: '000-26.00000003' } }],
+        },
+      ]);
+
+      // Act
+      const replacement = await service.replace(
+        'invoice-1',
+        { buyerAddress: 'Jl. Braga 10, Bandung' },
+        user,
+      );
+
+      // Assert
+      expect(mockPrisma.taxInvoice.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invoice-1', status: 'issued' },
+        data: { status: 'replaced' },
+      });
+      expect(mockPrisma.fakturNumberRange.updateMany).not.toHaveBeenCalled();
+      expect(replacement.nsfp).toBe('000-26.00000003');
+      expect(replacement.revision).toBe(1);
+      expect(replacement.replacesId).toBe('invoice-1');
+      expect(replacement.buyerAddress).toBe('Jl. Braga 10, Bandung');
+      expect(replacement.fakturNumber).toBe('011.000-26.00000003');
+    });
+  });
+
+  // ==========================================================================
+  // Cancel
+  // ==========================================================================
+
+  describe('cancel', () => {
+    const issued = {
+      id: 'invoice-1',
+      status: 'issued',
+      nsfp: '000-26.00000003',
+      revision: 0,
+      transactionCode: '01',
+      dpp: d(90000),
+      ppn: d(9900),
+      ppnbm: d(0),
+      items: [],
+      transactions: [],
+    };
+
+    it('should cancel the invoice only while it is still issued', async () => {
+      // Arrange
+      (mockPrisma.taxInvoice.findFirst as jest.Mock).mockResolvedValue(issued);
+      (mockPrisma.taxInvoice.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+        ...issued,
+        status: 'cancelled',
+      });
+
+      // Act
+      const cancelled = await service.cancel('invoice-1', 'Wrong buyer', user);
+
+      // Assert
+      expect(mockPrisma.taxInvoice.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invoice-1', status: 'issued' },
+        data: expect.objectContaining({ status: 'cancelled', cancelReason: 'Wrong buyer' }),
+      });
+      expect(cancelled.status).toBe('cancelled');
+    });
+
+    it('should refuse when the invoice was replaced or cancelled in the meantime', async () => {
+      // Arrange
+      (mockPrisma.taxInvoice.findFirst as jest.Mock).mockResolvedValue(issued);
+      (mockPrisma.taxInvoice.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(service.cancel('invoice-1', 'Wrong buyer', user)).rejects.toThrow(
+        'Tax invoice was changed by someone else',
+      );
+      expect(mockPrisma.taxInvoice.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // Export formats
+  // ==========================================================================
+
+  describe('e-Faktur export', () => {
+    const invoice = {
+      nsfp: '000-26.00000007',
+      revision: 0,
+      transactionCode: '01',
+      invoiceDate: new Date('2026-10-19T00:00:00.000Z'),
+      buyerNpwp: '098765432109000',
+      buyerName: 'PT Pembeli "Jaya"',
+      buyerAddress: 'Jl. Asia Afrika 8,\nBandung',
+      dpp: d(90000),
+      ppn: d(9900),
+      ppnbm: d(0),
+      reference: 'TRX-0001',
+      items: [
+        {
+          name: 'Kopi Susu',
+          unitPrice: d(20000),
+          quantity: d(3),
+          totalPrice: d(60000),
+          discount: d(6000),
+          dpp: d(54000),
+          ppn: d(5940),
+        },
+      ],
+    } as unknown as ExportableTaxInvoice;
+
+    it('should write FK and OF rows after the three header rows', () => {
+      const lines = toEfakturCsv([invoice]).trim().split('\r\n');
+
+      expect(lines).toHaveLength(5);
+      expect(lines[3]).toBe(
+        '"FK","01","0","0002600000007","10","2026","19/10/2026","098765432109000",' +
+          '"PT Pembeli ""Jaya""","Jl. Asia Afrika 8, Bandung","90000","9900","0","","0","0","0","0","TRX-0001",""',
+      );
+      expect(lines[4]).toBe(
+        '"OF","","Kopi Susu","20000","3","60000","6000","54000","5940","0","0"',
+      );
+    });
+
+    it('should leave replacements out of the Coretax XML', () => {
+      const xml = toCoretaxXml('012345678901000', [invoice, { ...invoice, revision: 1 }]);
+
+      expect(xml).toContain('<TIN>0012345678901000</TIN>');
+      expect(xml).toContain('<BuyerTin>0098765432109000</BuyerTin>');
+      expect(xml).toContain('<BuyerName>PT Pembeli &quot;Jaya&quot;</BuyerName>');
+      expect(xml).toContain('<OtherTaxBase>49500</OtherTaxBase>');
+      expect(xml.match(/<TaxInvoice>/g)).toHaveLength(1);
+    });
+  });
+});
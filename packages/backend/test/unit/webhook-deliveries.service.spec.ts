@@ -0,0 +1,312 @@
+import axios from 'axios';
+import { lookup } from 'dns/promises';
+import type { Queue } from 'bullmq';
+import { createHmac } from 'crypto';
+import { WebhookDeliveriesService } from '../../src/modules/webhooks/webhook-deliveries.service';
+import { resolvePublicAddress, signWebhookPayload } from '../../src/modules/webhooks/webhook.util';
+import type { WebhookJobData } from '../../src/infrastructure/queues/processors/webhook.processor';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { CredentialCipherService } from '../../src/infrastructure/security/credential-cipher.service';
+import { JOB_NAMES, JOB_OPTIONS } from '../../src/infrastructure/queues/queue.constants';
+import { ErrorCode } from '../../src/shared/constants/error-codes';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { post: jest.fn() },
+}));
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+describe('WebhookDeliveriesService', () => {
+  let service: WebhookDeliveriesService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  let mockQueue: jest.Mocked<Pick<Queue<WebhookJobData>, 'add'>>;
+  const mockPost = axios.post as jest.Mock;
+  const mockLookup = lookup as jest.Mock;
+  const cipher = new CredentialCipherService(
+    new ConfigService({ INTEGRATION_ENCRYPTION_KEY: 'test-key' }),
+  );
+
+  const endpoint = {
+    id: 'endpoint-1',
+    businessId: 'business-1',
+    url: 'https://erp.example.com/hooks',
+    description: null,
+    events: ['transaction.created'],
+    secret: cipher.encrypt('whsec_test'),
+    secretHint: 'test',
+    isActive: true,
+    createdBy: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+  };
+
+  const payload = {
+    id: 'event-1',
+    type: 'transaction.created',
+    createdAt: '2026-10-19T03:00:00.000Z',
+    businessId: 'business-1',
+    data: { transactionId: 'tx-1', outletId: 'outlet-1', grandTotal: 50000, customerId: null },
+  };
+
+  const delivery = {
+    id: 'delivery-1',
+    endpointId: 'endpoint-1',
+    businessId: 'business-1',
+    eventId: 'event-1',
+    eventType: 'transaction.created',
+    payload,
+    status: 'pending',
+    attempts: 0,
+    responseStatus: null,
+    responseBody: null,
+    latencyMs: null,
+    error: null,
+    lastAttemptAt: null,
+    deliveredAt: null,
+    createdAt: new Date('2026-10-19T03:00:00Z'),
+    updatedAt: new Date('2026-10-19T03:00:00Z'),
+    endpoint,
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      webhookEndpoint: {
+        findMany: jest.fn().mockResolvedValue([endpoint, { ...endpoint, id: 'endpoint-2' }]),
+      },
+      webhookDelivery: {
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) =>
+            Promise.resolve({ ...delivery, ...data, id: `delivery-${data.endpointId}` }),
+          ),
+        findUnique: jest.fn().mockResolvedValue(delivery),
+        findFirst: jest.fn().mockResolvedValue(delivery),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest
+          .fn()
+          .mockImplementation(({ data }) => Promise.resolve({ ...delivery, ...data })),
+      },
+    } as unknown as jest.Mocked<PrismaService>;
+    mockQueue = { add: jest.fn().mockResolvedValue({}) };
+    mockPost.mockReset();
+    mockLookup.mockResolvedValue([{ address: '203.0.113.10', family: 4 }]);
+
+    service = new WebhookDeliveriesService(
+      mockPrisma,
+      mockQueue as unknown as Queue<WebhookJobData>,
+      cipher,
+    );
+  });
+
+  describe('dispatch', () => {
+    it('should queue one delivery per subscribed endpoint with a shared event id', async () => {
+      const count = await service.dispatch('business-1', 'transaction.created', payload.data);
+
+      expect(count).toBe(2);
+      expect(mockPrisma.webhookEndpoint.findMany).toHaveBeenCalledWith({
+        where: { businessId: 'business-1', isActive: true, events: { has: 'transaction.created' } },
+      });
+      const created = (mockPrisma.webhookDelivery.create as jest.Mock).mock.calls.map(
+        ([args]) => args.data,
+      );
+      expect(created[0].eventId).toBe(created[1].eventId);
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        JOB_NAMES.DELIVER_WEBHOOK,
+        { deliveryId: 'delivery-endpoint-1' },
+        { ...JOB_OPTIONS.WEBHOOK, jobId: 'delivery-endpoint-1' },
+      );
+    });
+
+    it('should do nothing without subscribed endpoints', async () => {
+      (mockPrisma.webhookEndpoint.findMany as jest.Mock).mockResolvedValue([]);
+
+      await expect(service.dispatch('business-1', 'stock.level_changed', {})).resolves.toBe(0);
+      expect(mockPrisma.webhookDelivery.create).not.toHaveBeenCalled();
+    });
+
+    it('should put a delivery the queue refused among the dead letters', async () => {
+      mockQueue.add.mockRejectedValue(new Error('Redis down'));
+
+      await service.dispatch('business-1', 'transaction.created', payload.data);
+
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-endpoint-1' },
+        data: { status: 'dead', error: 'Could not queue: Redis down' },
+      });
+    });
+  });
+
+  describe('execute', () => {
+    it('should post a signed payload and record the response code and latency', async () => {
+      mockPost.mockResolvedValue({ status: 200, data: 'ok' });
+
+      await service.execute('delivery-1', false);
+
+      const [url, body, config] = mockPost.mock.calls[0];
+      expect(url).toBe('https://erp.example.com/hooks');
+      expect(JSON.parse(body)).toEqual(payload);
+      expect(config.headers['X-Tilo-Event']).toBe('transaction.created');
+      const [, timestamp, signature] =
+        /^t=(\d+),v1=([0-9a-f]{64})$/.exec(config.headers['X-Tilo-Signature']) ?? [];
+      expect(signature).toBe(
+        createHmac('sha256', 'whsec_test').update(`${timestamp}.${body}`).digest('hex'),
+      );
+
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({
+          status: 'delivered',
+          responseStatus: 200,
+          responseBody: 'ok',
+          latencyMs: expect.any(Number),
+          error: null,
+          deliveredAt: expect.any(Date),
+        }),
+      });
+    });
+
+    it('should mark a failed attempt for retry and rethrow for the backoff', async () => {
+      mockPost.mockResolvedValue({ status: 503, data: '' });
+
+      await expect(service.execute('delivery-1', false)).rejects.toThrow('HTTP 503');
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({ status: 'retrying', responseStatus: 503 }),
+      });
+    });
+
+    it('should move the delivery to the dead letters on the final attempt', async () => {
+      mockPost.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(service.execute('delivery-1', true)).rejects.toThrow('ECONNREFUSED');
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({
+          status: 'dead',
+          responseStatus: null,
+          error: 'connect ECONNREFUSED',
+        }),
+      });
+    });
+
+    it('should send nothing when the stored secret cannot be decrypted', async () => {
+      (mockPrisma.webhookDelivery.findUnique as jest.Mock).mockResolvedValue({
+        ...delivery,
+        endpoint: { ...endpoint, secret: 'whsec_plain' },
+      });
+
+      await expect(service.execute('delivery-1', false)).rejects.toThrow(
+        'Unsupported credential format',
+      );
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({ status: 'retrying' }),
+      });
+    });
+
+    it('should connect to the checked address and send nothing to a private one', async () => {
+      mockPost.mockResolvedValue({ status: 200, data: 'ok' });
+
+      await service.execute('delivery-1', false);
+      const [, , config] = mockPost.mock.calls[0];
+      await expect(config.lookup('erp.example.com', {})).resolves.toEqual({
+        address: '203.0.113.10',
+        family: 4,
+      });
+
+      mockPost.mockClear();
+      mockLookup.mockResolvedValue([{ address: '169.254.169.254', family: 4 }]);
+      await expect(service.execute('delivery-1', false)).rejects.toThrow(
+        'erp.example.com does not resolve to a public address',
+      );
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenLastCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({ status: 'retrying', responseBody: null }),
+      });
+    });
+
+    it('should not post again once delivered', async () => {
+      (mockPrisma.webhookDelivery.findUnique as jest.Mock).mockResolvedValue({
+        ...delivery,
+        status: 'delivered',
+      });
+
+      await service.execute('delivery-1', false);
+
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replay', () => {
+    it('should requeue a dead delivery under a fresh job id', async () => {
+      (mockPrisma.webhookDelivery.findFirst as jest.Mock).mockResolvedValue({
+        ...delivery,
+        status: 'dead',
+        attempts: 8,
+      });
+
+      await service.replay('business-1', 'delivery-1');
+
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: { status: 'pending', error: null },
+      });
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        JOB_NAMES.DELIVER_WEBHOOK,
+        { deliveryId: 'delivery-1' },
+        expect.objectContaining({ jobId: 'delivery-1-8' }),
+      );
+    });
+
+    it('should only replay dead deliveries', async () => {
+      await expect(service.replay('business-1', 'delivery-1')).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+      });
+    });
+
+    it('should reject a delivery of another business', async () => {
+      (mockPrisma.webhookDelivery.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.replay('business-2', 'delivery-1')).rejects.toMatchObject({
+        code: ErrorCode.WEBHOOK_DELIVERY_NOT_FOUND,
+      });
+    });
+  });
+
+  describe('resolvePublicAddress', () => {
+    it.each([
+      'https://127.0.0.1/hooks',
+      'https://[::1]/hooks',
+      'https://10.1.2.3/hooks',
+      'https://192.168.1.5/hooks',
+      'https://[::ffff:172.16.0.1]/hooks',
+      'https://[fd00::1]/hooks',
+    ])('should refuse %s', async (url) => {
+      await expect(resolvePublicAddress(url)).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+      });
+    });
+
+    it('should refuse a name when any of its addresses is private', async () => {
+      mockLookup.mockResolvedValue([
+        { address: '203.0.113.10', family: 4 },
+        { address: '10.0.0.5', family: 4 },
+      ]);
+
+      await expect(resolvePublicAddress('https://erp.example.com/hooks')).rejects.toThrow(
+        'erp.example.com does not resolve to a public address',
+      );
+    });
+  });
+
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body together', () => {
+      expect(signWebhookPayload('whsec_test', '{}', 1760842800)).toBe(
+        `t=1760842800,v1=${createHmac('sha256', 'whsec_test').update('1760842800.{}').digest('hex')}`,
+      );
+    });
+  });
+});
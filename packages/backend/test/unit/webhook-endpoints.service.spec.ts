@@ -0,0 +1,81 @@
+import { ConfigService } from '@nestjs/config';
+import { lookup } from 'dns/promises';
+import { WebhookEndpointsService } from '../../src/modules/webhooks/webhook-endpoints.service';
+import type { WebhookDeliveriesService } from '../../src/modules/webhooks/webhook-deliveries.service';
+import { PrismaService } from '../../src/infrastructure/database/prisma.service';
+import { CredentialCipherService } from '../../src/infrastructure/security/credential-cipher.service';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+describe('WebhookEndpointsService', () => {
+  let service: WebhookEndpointsService;
+  let mockPrisma: jest.Mocked<PrismaService>;
+  const cipher = new CredentialCipherService(
+    new ConfigService({ INTEGRATION_ENCRYPTION_KEY: 'test-key' }),
+  );
+
+  const endpoint = {
+    id: 'endpoint-1',
+    businessId: 'business-1',
+    url: 'https://erp.example.com/hooks',
+    description: null,
+    events: ['transaction.created'],
+    secret: cipher.encrypt('whsec_old0'),
+    secretHint: 'old0',
+    isActive: true,
+    createdBy: 'employee-1',
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    (lookup as jest.Mock).mockResolvedValue([{ address: '203.0.113.10', family: 4 }]);
+    mockPrisma = {
+      webhookEndpoint: {
+        findFirst: jest.fn().mockResolvedValue(endpoint),
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) => Promise.resolve({ ...endpoint, ...data })),
+        update: jest
+          .fn()
+          .mockImplementation(({ data }) => Promise.resolve({ ...endpoint, ...data })),
+      },
+    } as unknown as jest.Mocked<PrismaService>;
+
+    service = new WebhookEndpointsService(mockPrisma, {} as WebhookDeliveriesService, cipher);
+  });
+
+  it('should store the signing secret encrypted and show it once in plain text', async () => {
+    // Act
+    const result = await service.create('business-1', 'employee-1', {
+      url: 'https://erp.example.com/hooks',
+      events: ['transaction.created'],
+    });
+
+    // Assert
+    const { data } = (mockPrisma.webhookEndpoint.create as jest.Mock).mock.calls[0][0];
+    expect(result.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(data.secret).not.toContain(result.secret);
+    expect(cipher.decrypt(data.secret)).toBe(result.secret);
+    expect(result.secretHint).toBe(`…${result.secret.slice(-4)}`);
+  });
+
+  it('should encrypt the replacement secret on rotation', async () => {
+    // Act
+    const result = await service.rotateSecret('business-1', 'endpoint-1');
+
+    // Assert
+    const { data } = (mockPrisma.webhookEndpoint.update as jest.Mock).mock.calls[0][0];
+    expect(cipher.decrypt(data.secret)).toBe(result.secret);
+    expect(data.secretHint).toBe(result.secret.slice(-4));
+  });
+
+  it('should list endpoints with only the hint of their secret', async () => {
+    // Act
+    const result = await service.findOne('business-1', 'endpoint-1');
+
+    // Assert
+    expect(result).not.toHaveProperty('secret');
+    expect(result.secretHint).toBe('…old0');
+  });
+});
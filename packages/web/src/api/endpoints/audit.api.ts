@@ -0,0 +1,29 @@
+import { apiClient } from '../client';
+import type {
+  AuditArchive,
+  AuditCheckpoint,
+  AuditExportParams,
+  AuditExportResult,
+  AuditRetentionPolicy,
+  AuditVerificationResult,
+  UpdateAuditRetentionRequest,
+} from '@/types/audit.types';
+
+export const auditApi = {
+  verify: () => apiClient.get<AuditVerificationResult>('/audit/verify').then((r) => r.data),
+
+  checkpoints: () => apiClient.get<AuditCheckpoint[]>('/audit/checkpoints').then((r) => r.data),
+
+  createCheckpoint: () =>
+    apiClient.post<AuditCheckpoint | null>('/audit/checkpoints').then((r) => r.data),
+
+  retention: () => apiClient.get<AuditRetentionPolicy>('/audit/retention').then((r) => r.data),
+
+  updateRetention: (data: UpdateAuditRetentionRequest) =>
+    apiClient.put<AuditRetentionPolicy>('/audit/retention', data).then((r) => r.data),
+
+  archives: () => apiClient.get<AuditArchive[]>('/audit/archives').then((r) => r.data),
+
+  export: (data: AuditExportParams) =>
+    apiClient.post<AuditExportResult>('/audit/compliance-export', data).then((r) => r.data),
+};
@@ -1,4 +1,5 @@
 import { apiClient } from '../client';
+import type { EmbeddedBarcodeMatch } from '@/types/scale.types';
 
 export interface BarcodeLookupResult {
   found: boolean;
@@ -11,6 +12,8 @@ export interface BarcodeLookupResult {
     basePrice: number;
     costPrice: number | null;
     hasVariants: boolean;
+    isWeighed: boolean;
+    sellUnit: string | null;
     category: { name: string } | null;
     variants: {
       id: string;
@@ -34,6 +37,8 @@ export interface BarcodeLookupResult {
     barcode: string | null;
     price: number;
   } | null;
+  /** Set when the code was a scale label */
+  embedded?: EmbeddedBarcodeMatch;
 }
 
 export const barcodeApi = {
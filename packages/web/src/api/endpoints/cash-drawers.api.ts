@@ -0,0 +1,47 @@
+import { apiClient } from '../client';
+import type {
+  CashDrawer,
+  CashierReport,
+  DrawerHandOffRequest,
+  DrawerHandOffResult,
+  DrawerSession,
+  DrawerSessionReport,
+  DrawerSessionSummary,
+  LogDrawerEventRequest,
+} from '@/types/cash-management.types';
+
+export const cashDrawersApi = {
+  list: (outletId?: string) =>
+    apiClient.get<CashDrawer[]>('/cash-drawers', { params: { outletId } }).then((r) => r.data),
+
+  create: (data: { deviceId: string; name: string }) =>
+    apiClient.post<CashDrawer>('/cash-drawers', data).then((r) => r.data),
+
+  update: (id: string, data: { name?: string; isActive?: boolean }) =>
+    apiClient.patch<CashDrawer>(`/cash-drawers/${id}`, data).then((r) => r.data),
+
+  currentSession: (id: string) =>
+    apiClient.get<DrawerSession | null>(`/cash-drawers/${id}/session`).then((r) => r.data),
+
+  sessions: (id: string) =>
+    apiClient.get<DrawerSessionSummary[]>(`/cash-drawers/${id}/sessions`).then((r) => r.data),
+
+  xReport: (id: string) =>
+    apiClient.get<DrawerSessionReport>(`/cash-drawers/${id}/x-report`).then((r) => r.data),
+
+  sessionReport: (sessionId: string) =>
+    apiClient
+      .get<DrawerSessionReport>(`/cash-drawers/sessions/${sessionId}/report`)
+      .then((r) => r.data),
+
+  shiftReport: (shiftId: string) =>
+    apiClient.get<CashierReport>(`/cash-drawers/shifts/${shiftId}/report`).then((r) => r.data),
+
+  handOff: (sessionId: string, data: DrawerHandOffRequest) =>
+    apiClient
+      .post<DrawerHandOffResult>(`/cash-drawers/sessions/${sessionId}/hand-off`, data)
+      .then((r) => r.data),
+
+  logEvent: (id: string, data: LogDrawerEventRequest) =>
+    apiClient.post(`/cash-drawers/${id}/events`, data).then((r) => r.data),
+};
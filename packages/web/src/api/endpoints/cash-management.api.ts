@@ -0,0 +1,53 @@
+import { apiClient } from '../client';
+import type {
+  BankDeposit,
+  BankDepositDetail,
+  BankDepositParams,
+  CashSettings,
+  CreateBankDepositRequest,
+  DepositableShift,
+  OverShortLedger,
+  OverShortParams,
+  RecordCashMovementRequest,
+  ShiftCashMovement,
+} from '@/types/cash-management.types';
+
+export const cashManagementApi = {
+  getSettings: (outletId: string) =>
+    apiClient
+      .get<CashSettings>('/cash-management/settings', { params: { outletId } })
+      .then((r) => r.data),
+
+  updateSettings: (outletId: string, data: Partial<CashSettings>) =>
+    apiClient
+      .put<CashSettings>('/cash-management/settings', data, { params: { outletId } })
+      .then((r) => r.data),
+
+  recordMovement: (data: RecordCashMovementRequest) =>
+    apiClient.post<ShiftCashMovement>('/cash-management/movements', data).then((r) => r.data),
+
+  movements: (shiftId: string) =>
+    apiClient
+      .get<ShiftCashMovement[]>(`/cash-management/shifts/${shiftId}/movements`)
+      .then((r) => r.data),
+
+  overShort: (params: OverShortParams) =>
+    apiClient.get<OverShortLedger>('/cash-management/over-short', { params }).then((r) => r.data),
+
+  depositableShifts: (outletId: string) =>
+    apiClient
+      .get<DepositableShift[]>('/cash-management/deposits/pending-shifts', { params: { outletId } })
+      .then((r) => r.data),
+
+  deposits: (params?: BankDepositParams) =>
+    apiClient.get<BankDeposit[]>('/cash-management/deposits', { params }).then((r) => r.data),
+
+  getDeposit: (id: string) =>
+    apiClient.get<BankDepositDetail>(`/cash-management/deposits/${id}`).then((r) => r.data),
+
+  createDeposit: (data: CreateBankDepositRequest) =>
+    apiClient.post<BankDeposit>('/cash-management/deposits', data).then((r) => r.data),
+
+  verifyDeposit: (id: string) =>
+    apiClient.post<BankDeposit>(`/cash-management/deposits/${id}/verify`).then((r) => r.data),
+};
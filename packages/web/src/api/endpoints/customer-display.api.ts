@@ -0,0 +1,35 @@
+import { apiClient } from '../client';
+import type {
+  CustomerDisplayPairingCode,
+  CustomerDisplaySettings,
+  CustomerDisplayStatus,
+  PushCustomerDisplayStateRequest,
+} from '@/types/customer-display.types';
+
+export const customerDisplayApi = {
+  getSettings: (outletId: string) =>
+    apiClient
+      .get<CustomerDisplaySettings>('/customer-displays/settings', { params: { outletId } })
+      .then((r) => r.data),
+
+  updateSettings: (outletId: string, data: Partial<CustomerDisplaySettings>) =>
+    apiClient
+      .put<CustomerDisplaySettings>('/customer-displays/settings', data, { params: { outletId } })
+      .then((r) => r.data),
+
+  status: (deviceId: string) =>
+    apiClient.get<CustomerDisplayStatus>(`/customer-displays/${deviceId}`).then((r) => r.data),
+
+  issuePairingCode: (deviceId: string) =>
+    apiClient
+      .post<CustomerDisplayPairingCode>(`/customer-displays/${deviceId}/pairing-code`)
+      .then((r) => r.data),
+
+  unpair: (deviceId: string) =>
+    apiClient.delete(`/customer-displays/${deviceId}`).then((r) => r.data),
+
+  pushState: (deviceId: string, data: PushCustomerDisplayStateRequest) =>
+    apiClient
+      .put<{ delivered: boolean }>(`/customer-displays/${deviceId}/state`, data)
+      .then((r) => r.data),
+};
@@ -1,11 +1,15 @@
 import { apiClient } from '../client';
 
+export type SubscriptionPlanCode = 'basic' | 'standard' | 'premium' | 'enterprise';
+
 export interface BusinessFeatureDto {
   key: string;
   label: string;
   description: string;
   category: 'sales' | 'inventory' | 'marketing' | 'service' | 'advanced';
   isEnabled: boolean;
+  availableInPlan?: boolean;
+  requiredPlan?: SubscriptionPlanCode | null;
   dependencies?: string[];
   icon?: string;
 }
@@ -39,6 +43,22 @@ export interface ToggleFeatureResponse {
   affectedFeatures?: string[];
 }
 
+export interface PlanUsageItem {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface SubscriptionUsage {
+  plan: SubscriptionPlanCode;
+  planLabel: string;
+  state: 'active' | 'grace' | 'read_only';
+  expiresAt: string | null;
+  graceEndsAt: string | null;
+  periodStart: string;
+  usage: Record<'outlets' | 'devices' | 'employees' | 'monthlyTransactions', PlanUsageItem>;
+}
+
 export interface ChangeTypeResponse {
   success: boolean;
   previousType: string;
@@ -74,6 +94,10 @@ export const featuresApi = {
       .get<{ features: BusinessFeatureDto[]; total: number }>('/business/features/registry')
       .then((r) => r.data),
 
+  // Subscription endpoints
+  getSubscriptionUsage: () =>
+    apiClient.get<SubscriptionUsage>('/business/subscription/usage').then((r) => r.data),
+
   // Business type endpoints
   getBusinessType: () =>
     apiClient
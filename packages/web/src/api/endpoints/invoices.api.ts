@@ -1,4 +1,9 @@
 import { apiClient } from '../client';
+import type {
+  TaxInvoiceListParams,
+  TaxInvoiceListResponse,
+  TaxInvoiceExportParams,
+} from '@/types/tax-invoice.types';
 
 export interface InvoiceListParams {
   outletId: string;
@@ -91,4 +96,12 @@ export const invoicesApi = {
 
   itemsSummary: (params: Omit<InvoiceListParams, 'status' | 'page' | 'limit'>) =>
     apiClient.get<ItemsSummaryResponse>('/reports/invoices/items-summary', { params }).then((r) => r.data),
+
+  taxInvoices: (params: TaxInvoiceListParams) =>
+    apiClient.get<TaxInvoiceListResponse>('/reports/invoices/tax-invoices', { params }).then((r) => r.data),
+
+  exportTaxInvoices: (params: TaxInvoiceExportParams) =>
+    apiClient
+      .get<Blob>('/reports/invoices/tax-invoices/export', { params, responseType: 'blob' })
+      .then((r) => r.data),
 };
@@ -0,0 +1,73 @@
+import { apiClient } from '../client';
+import type { OverrideApproval, OverrideApprover } from '@/types/override.types';
+import type {
+  ApproveKioskAssistRequest,
+  KioskCartItem,
+  KioskCatalog,
+  KioskCompleteResult,
+  KioskMember,
+  KioskPayment,
+  KioskQuote,
+  KioskScanResult,
+  KioskSession,
+  StartKioskPaymentRequest,
+} from '@/types/kiosk.types';
+
+export const kioskApi = {
+  catalog: (deviceId: string, params?: { search?: string; categoryId?: string }) =>
+    apiClient
+      .get<KioskCatalog>('/kiosk/catalog', { params: { deviceId, ...params } })
+      .then((r) => r.data),
+
+  scan: (deviceId: string, code: string) =>
+    apiClient
+      .get<KioskScanResult>(`/kiosk/scan/${encodeURIComponent(code)}`, { params: { deviceId } })
+      .then((r) => r.data),
+
+  lookupMember: (deviceId: string, phone: string) =>
+    apiClient
+      .get<KioskMember>('/kiosk/loyalty', { params: { deviceId, phone } })
+      .then((r) => r.data),
+
+  startSession: (deviceId: string) =>
+    apiClient.post<KioskSession>('/kiosk/sessions', { deviceId }).then((r) => r.data),
+
+  quote: (sessionId: string, items: KioskCartItem[]) =>
+    apiClient.post<KioskQuote>(`/kiosk/sessions/${sessionId}/quote`, { items }).then((r) => r.data),
+
+  requestAssist: (sessionId: string, reason?: string) =>
+    apiClient
+      .post<{ reason: string; requestedAt: string }>(`/kiosk/sessions/${sessionId}/assist`, {
+        reason,
+      })
+      .then((r) => r.data),
+
+  assistApprovers: (sessionId: string) =>
+    apiClient
+      .get<OverrideApprover[]>(`/kiosk/sessions/${sessionId}/assist/approvers`)
+      .then((r) => r.data),
+
+  approveAssist: (sessionId: string, data: ApproveKioskAssistRequest) =>
+    apiClient
+      .post<OverrideApproval>(`/kiosk/sessions/${sessionId}/assist/approve`, data)
+      .then((r) => r.data),
+
+  startPayment: (sessionId: string, data: StartKioskPaymentRequest) =>
+    apiClient.post<KioskPayment>(`/kiosk/sessions/${sessionId}/payment`, data).then((r) => r.data),
+
+  complete: (
+    sessionId: string,
+    data: { assistApproval?: string; cardApprovalCode?: string; cardApproval?: string },
+  ) =>
+    apiClient
+      .post<KioskCompleteResult>(`/kiosk/sessions/${sessionId}/complete`, data)
+      .then((r) => r.data),
+
+  cancel: (sessionId: string) =>
+    apiClient.delete(`/kiosk/sessions/${sessionId}`).then((r) => r.data),
+
+  closeShift: (deviceId: string) =>
+    apiClient
+      .post<{ shiftId: string; endedAt: string }>('/kiosk/shift/close', { deviceId })
+      .then((r) => r.data),
+};
@@ -0,0 +1,33 @@
+import { apiClient } from '../client';
+import type {
+  NumberingSeries,
+  UpdateNumberingSeriesRequest,
+  NumberBlock,
+  NumberBlockListParams,
+  ReservedNumberBlock,
+  ReserveNumberBlockRequest,
+  SequenceIntegrityParams,
+  SequenceIntegrityReport,
+} from '@/types/numbering.types';
+
+export const numberingApi = {
+  listSeries: (outletId: string) =>
+    apiClient
+      .get<NumberingSeries[]>('/numbering/series', { params: { outletId } })
+      .then((r) => r.data),
+
+  updateSeries: (data: UpdateNumberingSeriesRequest) =>
+    apiClient.put<NumberingSeries>('/numbering/series', data).then((r) => r.data),
+
+  listBlocks: (params: NumberBlockListParams) =>
+    apiClient.get<NumberBlock[]>('/numbering/blocks', { params }).then((r) => r.data),
+
+  reserveBlock: (data: ReserveNumberBlockRequest) =>
+    apiClient.post<ReservedNumberBlock>('/numbering/blocks', data).then((r) => r.data),
+
+  releaseBlock: (id: string) =>
+    apiClient.post<NumberBlock>(`/numbering/blocks/${id}/release`).then((r) => r.data),
+
+  integrity: (params: SequenceIntegrityParams) =>
+    apiClient.get<SequenceIntegrityReport>('/numbering/integrity', { params }).then((r) => r.data),
+};
@@ -0,0 +1,22 @@
+import { apiClient } from '../client';
+import type {
+  ManagerOverride,
+  ManagerOverrideListParams,
+  OverrideAction,
+  OverrideApproval,
+  OverrideApprover,
+  RequestOverrideRequest,
+} from '@/types/override.types';
+
+export const overridesApi = {
+  approvers: (action: OverrideAction, outletId?: string) =>
+    apiClient
+      .get<OverrideApprover[]>('/pos/overrides/approvers', { params: { action, outletId } })
+      .then((r) => r.data),
+
+  approve: (data: RequestOverrideRequest) =>
+    apiClient.post<OverrideApproval>('/pos/overrides', data).then((r) => r.data),
+
+  list: (params?: ManagerOverrideListParams) =>
+    apiClient.get<ManagerOverride[]>('/pos/overrides', { params }).then((r) => r.data),
+};
@@ -0,0 +1,47 @@
+import { apiClient } from '../client';
+import type {
+  CreateRoleRequest,
+  CustomisableRole,
+  EffectivePermissions,
+  EmployeeRoleAssignment,
+  PermissionsMatrix,
+  Role,
+  RoleAssignmentRequest,
+  UpdateRoleRequest,
+} from '@/types/permission.types';
+
+export const permissionsApi = {
+  me: (outletId?: string) =>
+    apiClient
+      .get<EffectivePermissions>('/permissions/me', { params: { outletId } })
+      .then((r) => r.data),
+
+  matrix: () => apiClient.get<PermissionsMatrix>('/permissions/matrix').then((r) => r.data),
+
+  updateBuiltInRole: (role: CustomisableRole, permissions: string[]) =>
+    apiClient.put<Role>(`/permissions/built-in/${role}`, { permissions }).then((r) => r.data),
+
+  resetBuiltInRole: (role: CustomisableRole) =>
+    apiClient
+      .delete<{ baseRole: string; permissions: string[] }>(`/permissions/built-in/${role}`)
+      .then((r) => r.data),
+
+  createRole: (data: CreateRoleRequest) =>
+    apiClient.post<Role>('/permissions/roles', data).then((r) => r.data),
+
+  updateRole: (id: string, data: UpdateRoleRequest) =>
+    apiClient.put<Role>(`/permissions/roles/${id}`, data).then((r) => r.data),
+
+  deleteRole: (id: string) =>
+    apiClient.delete<{ success: boolean }>(`/permissions/roles/${id}`).then((r) => r.data),
+
+  getEmployeeRoles: (employeeId: string) =>
+    apiClient
+      .get<EmployeeRoleAssignment[]>(`/permissions/employees/${employeeId}/roles`)
+      .then((r) => r.data),
+
+  setEmployeeRoles: (employeeId: string, assignments: RoleAssignmentRequest[]) =>
+    apiClient
+      .put<EmployeeRoleAssignment[]>(`/permissions/employees/${employeeId}/roles`, { assignments })
+      .then((r) => r.data),
+};
@@ -47,6 +47,8 @@ export const posApi = {
                 })),
                 modifierGroups: [], // Will be fetched separately if needed
                 trackStock: product.trackStock,
+                isWeighed: product.isWeighed,
+                sellUnit: product.sellUnit,
             }));
     },
 
@@ -114,9 +116,22 @@ export const posApi = {
         });
     },
 
+    // Opens the drawer without a sale; approvalToken comes from overridesApi.approve
+    openCashDrawer: async (
+        shiftId: string,
+        reason?: string,
+        approvalToken?: string,
+    ): Promise<void> => {
+        await apiClient.post('/pos/cash-drawer/open', { shiftId, reason, approvalToken });
+    },
+
     // Void & Refund
-    voidTransaction: async (transactionId: string, reason: string): Promise<void> => {
-        await apiClient.post('/pos/void', { transactionId, reason });
+    voidTransaction: async (
+        transactionId: string,
+        reason: string,
+        approvalToken?: string,
+    ): Promise<void> => {
+        await apiClient.post('/pos/void', { transactionId, reason, approvalToken });
     },
 
     processRefund: async (
@@ -124,12 +139,14 @@ export const posApi = {
         items: { itemId: string; quantity: number }[],
         refundMethod: string,
         notes?: string,
+        approvalToken?: string,
     ): Promise<void> => {
         await apiClient.post('/pos/refunds', {
             transactionId,
             items,
             refundMethod,
             notes,
+            approvalToken,
         });
     },
 };
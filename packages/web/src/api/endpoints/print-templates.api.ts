@@ -0,0 +1,68 @@
+import { apiClient } from '../client';
+import type {
+  PrintTemplate,
+  PrintTemplateKind,
+  PrintBlock,
+  PaperWidth,
+  CreatePrintTemplateRequest,
+  UpdatePrintTemplateRequest,
+  PreviewPrintTemplateRequest,
+  RenderedPrintJob,
+  KitchenTicket,
+} from '@/types/print-template.types';
+
+export const printTemplatesApi = {
+  list: (params?: { kind?: PrintTemplateKind; outletId?: string }) =>
+    apiClient.get<PrintTemplate[]>('/print-templates', { params }).then((r) => r.data),
+
+  get: (id: string) =>
+    apiClient.get<PrintTemplate>(`/print-templates/${id}`).then((r) => r.data),
+
+  builtIn: (kind: PrintTemplateKind) =>
+    apiClient
+      .get<{ kind: PrintTemplateKind; paperWidth: PaperWidth; blocks: PrintBlock[] }>(
+        `/print-templates/built-in/${kind}`,
+      )
+      .then((r) => r.data),
+
+  create: (data: CreatePrintTemplateRequest) =>
+    apiClient.post<PrintTemplate>('/print-templates', data).then((r) => r.data),
+
+  update: (id: string, data: UpdatePrintTemplateRequest) =>
+    apiClient.put<PrintTemplate>(`/print-templates/${id}`, data).then((r) => r.data),
+
+  delete: (id: string) =>
+    apiClient.delete(`/print-templates/${id}`).then((r) => r.data),
+
+  uploadLogo: (id: string, file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return apiClient
+      .post<PrintTemplate>(`/print-templates/${id}/logo`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      })
+      .then((r) => r.data);
+  },
+
+  removeLogo: (id: string) =>
+    apiClient.delete<PrintTemplate>(`/print-templates/${id}/logo`).then((r) => r.data),
+
+  // Rendering
+  preview: (data: PreviewPrintTemplateRequest) =>
+    apiClient.post<RenderedPrintJob>('/print-templates/preview', data).then((r) => r.data),
+
+  renderReceipt: (transactionId: string, templateId?: string) =>
+    apiClient
+      .post<RenderedPrintJob & { transactionId: string }>(
+        `/print-templates/receipts/${transactionId}/render`,
+        { templateId },
+      )
+      .then((r) => r.data),
+
+  renderKitchenTickets: (orderId: string) =>
+    apiClient
+      .post<{ orderId: string; tickets: KitchenTicket[] }>(
+        `/print-templates/kitchen-tickets/${orderId}/render`,
+      )
+      .then((r) => r.data),
+};
@@ -0,0 +1,57 @@
+import { apiClient } from '../client';
+import type {
+  Reservation,
+  ReservationAvailability,
+  ReservationAvailabilityParams,
+  ReservationListParams,
+  ReservationSettings,
+  CreateReservationRequest,
+  UpdateReservationRequest,
+  CancelReservationRequest,
+  RequestReservationDepositRequest,
+} from '@/types/reservation.types';
+
+export const reservationsApi = {
+  list: (params: ReservationListParams) =>
+    apiClient.get<Reservation[]>('/reservations', { params }).then((r) => r.data),
+
+  get: (id: string) => apiClient.get<Reservation>(`/reservations/${id}`).then((r) => r.data),
+
+  availability: (params: ReservationAvailabilityParams) =>
+    apiClient
+      .get<ReservationAvailability>('/reservations/availability', { params })
+      .then((r) => r.data),
+
+  create: (data: CreateReservationRequest) =>
+    apiClient.post<Reservation>('/reservations', data).then((r) => r.data),
+
+  update: (id: string, data: UpdateReservationRequest) =>
+    apiClient.put<Reservation>(`/reservations/${id}`, data).then((r) => r.data),
+
+  requestDeposit: (id: string, data: RequestReservationDepositRequest = {}) =>
+    apiClient.post<Reservation>(`/reservations/${id}/deposit`, data).then((r) => r.data),
+
+  refreshDeposit: (id: string) =>
+    apiClient.post<Reservation>(`/reservations/${id}/deposit/refresh`).then((r) => r.data),
+
+  seat: (id: string) => apiClient.post<Reservation>(`/reservations/${id}/seat`).then((r) => r.data),
+
+  complete: (id: string) =>
+    apiClient.post<Reservation>(`/reservations/${id}/complete`).then((r) => r.data),
+
+  cancel: (id: string, data: CancelReservationRequest = {}) =>
+    apiClient.post<Reservation>(`/reservations/${id}/cancel`, data).then((r) => r.data),
+
+  markNoShow: (id: string) =>
+    apiClient.post<Reservation>(`/reservations/${id}/no-show`).then((r) => r.data),
+
+  getSettings: (outletId: string) =>
+    apiClient
+      .get<ReservationSettings>('/reservations/settings', { params: { outletId } })
+      .then((r) => r.data),
+
+  updateSettings: (outletId: string, data: Partial<ReservationSettings>) =>
+    apiClient
+      .put<ReservationSettings>('/reservations/settings', data, { params: { outletId } })
+      .then((r) => r.data),
+};
@@ -0,0 +1,14 @@
+import { apiClient } from '../client';
+import type { EmbeddedBarcodeLayout } from '@/types/scale.types';
+
+export const scalesApi = {
+  getLayouts: () =>
+    apiClient
+      .get<{ layouts: EmbeddedBarcodeLayout[] }>('/scales/barcode-layouts')
+      .then((r) => r.data.layouts),
+
+  updateLayouts: (layouts: EmbeddedBarcodeLayout[]) =>
+    apiClient
+      .put<{ layouts: EmbeddedBarcodeLayout[] }>('/scales/barcode-layouts', { layouts })
+      .then((r) => r.data.layouts),
+};
@@ -25,6 +25,8 @@ import type {
   ReportSchedule,
   CreateReportScheduleRequest,
   UpdateReportScheduleRequest,
+  ReportRun,
+  ReportRunStatus,
 } from '@/types/settings.types';
 
 const DAY_DEFAULTS = [
@@ -244,4 +246,10 @@ export const settingsApi = {
     apiClient.put<ReportSchedule>(`/settings/report-schedules/${id}`, data).then((r) => r.data),
   deleteReportSchedule: (id: string) =>
     apiClient.delete(`/settings/report-schedules/${id}`).then((r) => r.data),
+
+  // Report Runs (history of scheduled sends)
+  listReportRuns: (params?: { status?: ReportRunStatus; scheduleId?: string; limit?: number }) =>
+    apiClient.get<ReportRun[]>('/reports/runs', { params }).then((r) => r.data),
+  retryReportRun: (id: string) =>
+    apiClient.post<ReportRun>(`/reports/runs/${id}/retry`).then((r) => r.data),
 };
@@ -1,5 +1,6 @@
 import { apiClient } from '../client';
 import type { Shift } from '@/types/order.types';
+import type { DenominationCount } from '@/types/cash-management.types';
 import { toast } from '@/lib/toast-utils';
 
 export const shiftsApi = {
@@ -25,11 +26,20 @@ export const shiftsApi = {
       return [] as Shift[];
     }),
 
-  start: (_employeeId: string, data: { outletId: string; openingCash: number }) =>
+  start: (_employeeId: string, data: {
+    outletId: string;
+    drawerId?: string;
+    openingCash?: number;
+    openingCount?: DenominationCount[];
+  }) =>
     // Backend endpoint: POST /employees/shifts/start (uses @CurrentUser)
     apiClient.post('/employees/shifts/start', data).then((r) => r.data),
 
-  end: (_employeeId: string, data: { closingCash: number; notes?: string }) =>
+  end: (_employeeId: string, data: {
+    closingCash?: number;
+    closingCount?: DenominationCount[];
+    notes?: string;
+  }) =>
     // Need active shiftId; get current shift first, then end it
     apiClient.get('/employees/shifts/current').then((r) => {
       const shift = r.data as Record<string, unknown>;
@@ -0,0 +1,30 @@
+import { apiClient } from '../client';
+import type {
+  TaxInvoice,
+  FakturNumberRange,
+  CreateTaxInvoiceRequest,
+  ReplaceTaxInvoiceRequest,
+  CreateFakturRangeRequest,
+} from '@/types/tax-invoice.types';
+
+export const taxInvoicesApi = {
+  get: (id: string) => apiClient.get<TaxInvoice>(`/tax-invoices/${id}`).then((r) => r.data),
+
+  create: (data: CreateTaxInvoiceRequest) =>
+    apiClient.post<TaxInvoice>('/tax-invoices', data).then((r) => r.data),
+
+  replace: (id: string, data: ReplaceTaxInvoiceRequest) =>
+    apiClient.post<TaxInvoice>(`/tax-invoices/${id}/replace`, data).then((r) => r.data),
+
+  cancel: (id: string, reason: string) =>
+    apiClient.post<TaxInvoice>(`/tax-invoices/${id}/cancel`, { reason }).then((r) => r.data),
+
+  listRanges: () =>
+    apiClient.get<FakturNumberRange[]>('/tax-invoices/ranges').then((r) => r.data),
+
+  createRange: (data: CreateFakturRangeRequest) =>
+    apiClient.post<FakturNumberRange>('/tax-invoices/ranges', data).then((r) => r.data),
+
+  deactivateRange: (id: string) =>
+    apiClient.delete<{ message: string }>(`/tax-invoices/ranges/${id}`).then((r) => r.data),
+};
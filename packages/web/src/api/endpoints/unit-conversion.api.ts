@@ -33,6 +33,11 @@ export interface StockInUnits {
   }[];
 }
 
+export interface WeightUnit {
+  unit: string;
+  label: string;
+}
+
 export const unitConversionApi = {
   listByProduct: (productId: string) =>
     apiClient.get<{ conversions: UnitConversion[] }>(`/unit-conversions/product/${productId}`).then((r) => r.data.conversions),
@@ -52,4 +57,7 @@ export const unitConversionApi = {
 
   getStockInAllUnits: (productId: string, outletId: string) =>
     apiClient.get<StockInUnits>(`/unit-conversions/stock/${productId}/${outletId}`).then((r) => r.data),
+
+  weightUnits: () =>
+    apiClient.get<{ units: WeightUnit[] }>('/unit-conversions/weight-units').then((r) => r.data.units),
 };
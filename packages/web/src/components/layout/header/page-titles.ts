@@ -44,6 +44,7 @@ const PAGE_TITLES: Record<string, string> = {
   '/app/settings/appearance': 'Tampilan',
   '/app/settings/payments': 'Pengaturan Pembayaran',
   '/app/settings/printers': 'Pengaturan Printer',
+  '/app/settings/customer-display': 'Layar Pelanggan',
   '/app/settings/report-schedule': 'Jadwal Laporan',
   '/app/profile': 'Profil Saya',
   '/app/promotions': 'Promosi',
@@ -2,7 +2,7 @@ import { NavLink, Outlet } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/stores/auth.store';
 import {
-  Settings, Building2, Monitor, Bell, Calculator, Printer,
+  Settings, Building2, Monitor, MonitorSmartphone, Bell, Calculator, Printer,
   Clock, ListPlus, Store, ToggleLeft, Palette, CreditCard, CalendarClock,
   type LucideIcon,
 } from 'lucide-react';
@@ -44,6 +44,7 @@ const settingsGroups: SettingsNavGroup[] = [
     items: [
       { to: '/app/settings/devices', label: 'Perangkat', icon: Monitor },
       { to: '/app/settings/printers', label: 'Printer', icon: Printer },
+      { to: '/app/settings/customer-display', label: 'Layar Pelanggan', icon: MonitorSmartphone },
     ],
   },
   {
@@ -2,7 +2,7 @@ import {
   LayoutDashboard, Package, Users, UserRound, ShoppingCart,
   Receipt, BarChart3, Warehouse, ArrowLeftRight, Truck, ClipboardList,
   UtensilsCrossed, MonitorPlay, Clock, CalendarDays, Tag, Heart,
-  FlaskConical, Globe, QrCode, ScrollText, Settings, Building2, Monitor, Bell,
+  FlaskConical, Globe, QrCode, ScrollText, Settings, Building2, Monitor, MonitorSmartphone, Bell,
   Banknote, Ticket, Filter, Calculator, Printer, ListPlus,
   ToggleLeft, Store, TrendingUp, RefreshCw, Calendar, Wrench, Hash,
   Palette, FileText,
@@ -214,6 +214,7 @@ export const settingsItems: NavItem[] = [
   { to: '/app/settings/receipt', label: 'Struk', icon: Printer },
   { to: '/app/settings/payments', label: 'Pembayaran', icon: Banknote },
   { to: '/app/settings/printers', label: 'Printer', icon: Printer },
+  { to: '/app/settings/customer-display', label: 'Layar Pelanggan', icon: MonitorSmartphone },
   { to: '/app/settings/hours', label: 'Jam Operasional', icon: Clock },
   { to: '/app/settings/modifiers', label: 'Modifier', icon: ListPlus },
   { to: '/app/settings/business-type', label: 'Tipe Bisnis', icon: Store },
@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { CheckCircle2, Star } from 'lucide-react';
+import { formatCurrency } from '@/lib/format';
+import type {
+  CustomerDisplayScreenSettings,
+  CustomerDisplayState,
+} from '@/types/customer-display.types';
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Tunai',
+  qris: 'QRIS',
+  debit_card: 'Kartu Debit',
+  credit_card: 'Kartu Kredit',
+  gopay: 'GoPay',
+  ovo: 'OVO',
+  dana: 'DANA',
+  shopeepay: 'ShopeePay',
+  linkaja: 'LinkAja',
+};
+
+interface IdleScreenProps {
+  settings: CustomerDisplayScreenSettings;
+}
+
+/** Rotates the outlet's promotional images while nobody is being served */
+export function IdleScreen({ settings }: IdleScreenProps) {
+  const [index, setIndex] = useState(0);
+  const images = settings.idleImages;
+
+  useEffect(() => {
+    if (images.length < 2) return;
+    const interval = setInterval(
+      () => setIndex((i) => (i + 1) % images.length),
+      settings.slideSeconds * 1000,
+    );
+    return () => clearInterval(interval);
+  }, [images.length, settings.slideSeconds]);
+
+  const image = images[index % Math.max(images.length, 1)];
+
+  return (
+    <div className="relative h-full w-full flex items-center justify-center bg-black">
+      {image ? (
+        <img key={image} src={image} alt="" className="h-full w-full object-contain" />
+      ) : (
+        <p className="text-4xl font-semibold text-white">
+          {settings.welcomeMessage ?? 'Selamat datang!'}
+        </p>
+      )}
+      {image && settings.welcomeMessage && (
+        <div className="absolute bottom-0 inset-x-0 bg-black/60 py-4 text-center text-2xl text-white">
+          {settings.welcomeMessage}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CartScreenProps {
+  state: CustomerDisplayState;
+}
+
+/** The cart as the cashier rings it up, with promotions and totals */
+export function CartScreen({ state }: CartScreenProps) {
+  return (
+    <div className="h-full flex flex-col lg:flex-row">
+      <div className="flex-1 overflow-y-auto p-6 space-y-3">
+        {state.items.map((item, i) => (
+          <div key={i} className="flex justify-between gap-4 border-b pb-3">
+            <div>
+              <p className="text-xl font-medium">
+                {item.quantity} × {item.name}
+                {item.variantName && (
+                  <span className="text-muted-foreground"> ({item.variantName})</span>
+                )}
+              </p>
+              {item.modifiers && item.modifiers.length > 0 && (
+                <p className="text-sm text-muted-foreground">{item.modifiers.join(', ')}</p>
+              )}
+            </div>
+            <div className="text-right">
+              {item.originalPrice !== undefined && (
+                <p className="text-sm text-muted-foreground line-through">
+                  {formatCurrency(item.originalPrice * item.quantity)}
+                </p>
+              )}
+              <p className="text-xl font-semibold">{formatCurrency(item.total)}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="lg:w-[40%] border-t lg:border-t-0 lg:border-l bg-muted/30 p-6 flex flex-col">
+        {state.promotions.length > 0 && (
+          <div className="mb-6 space-y-2">
+            {state.promotions.map((promo, i) => (
+              <div
+                key={i}
+                className="flex justify-between rounded-lg bg-green-500/10 px-4 py-2 text-green-700"
+              >
+                <span>{promo.label}</span>
+                <span>-{formatCurrency(promo.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <TotalsList state={state} />
+      </div>
+    </div>
+  );
+}
+
+function TotalsList({ state }: CartScreenProps) {
+  const rows = [
+    { label: 'Subtotal', amount: state.subtotal },
+    { label: 'Diskon', amount: -state.discountTotal },
+    { label: 'Service', amount: state.serviceCharge },
+    { label: 'Pajak', amount: state.taxAmount },
+  ].filter((row) => row.amount !== 0);
+
+  return (
+    <div className="mt-auto space-y-2 text-lg">
+      {rows.map((row) => (
+        <div key={row.label} className="flex justify-between">
+          <span className="text-muted-foreground">{row.label}</span>
+          <span>{formatCurrency(row.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between border-t pt-3 text-3xl font-bold">
+        <span>Total</span>
+        <span>{formatCurrency(state.total)}</span>
+      </div>
+      {state.paid > 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Dibayar</span>
+          <span>{formatCurrency(state.paid)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** What is left to pay; a QRIS payment puts the outlet QR with the amount on screen */
+export function PaymentScreen({ state }: CartScreenProps) {
+  const payment = state.payment;
+  const methodLabel = payment ? (PAYMENT_METHOD_LABELS[payment.method] ?? payment.method) : null;
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-6 p-6 text-center">
+      {methodLabel && <p className="text-2xl text-muted-foreground">Pembayaran {methodLabel}</p>}
+      <p className="text-6xl font-bold">{formatCurrency(payment?.amount ?? state.total)}</p>
+      {payment?.qrisPayload ? (
+        <>
+          <div className="rounded-2xl bg-white p-6 shadow-lg">
+            <QRCodeSVG value={payment.qrisPayload} size={320} level="M" />
+          </div>
+          <p className="text-xl text-muted-foreground">
+            Pindai dengan aplikasi pembayaran yang mendukung QRIS
+          </p>
+        </>
+      ) : (
+        <p className="text-xl text-muted-foreground">Silakan lakukan pembayaran di kasir</p>
+      )}
+    </div>
+  );
+}
+
+/** Shown after the sale: change, receipt number and the loyalty points earned */
+export function ThankYouScreen({ state }: CartScreenProps) {
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-6 p-6 text-center">
+      <CheckCircle2 className="h-24 w-24 text-green-500" />
+      <p className="text-5xl font-bold">
+        Terima kasih{state.customerName ? `, ${state.customerName}` : ''}!
+      </p>
+      {state.changeDue > 0 && (
+        <p className="text-3xl">
+          Kembalian <span className="font-bold">{formatCurrency(state.changeDue)}</span>
+        </p>
+      )}
+      {state.receiptNumber && (
+        <p className="text-xl text-muted-foreground">No. struk {state.receiptNumber}</p>
+      )}
+      {state.loyalty && (
+        <div className="flex items-center gap-3 rounded-xl bg-amber-500/10 px-6 py-4 text-amber-700">
+          <Star className="h-8 w-8 fill-current" />
+          <div className="text-left">
+            <p className="text-2xl font-semibold">+{state.loyalty.pointsEarned} poin</p>
+            <p>Total poin Anda {state.loyalty.balance.toLocaleString('id-ID')}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { Monitor, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  CartScreen,
+  IdleScreen,
+  PaymentScreen,
+  ThankYouScreen,
+} from './components/display-screens';
+import { useCustomerDisplaySession } from './hooks/use-customer-display-session';
+import type {
+  CustomerDisplayScreenSettings,
+  CustomerDisplayState,
+} from '@/types/customer-display.types';
+
+/**
+ * Customer-facing display for a second screen at the till.
+ * Pairs with a terminal using the code it shows, then mirrors that terminal:
+ * idle promotions, the live cart, the QRIS to pay and a thank-you screen.
+ */
+export function CustomerDisplayPage() {
+  const { isConnected, isPaired, isPairing, error, settings, state, pair } =
+    useCustomerDisplaySession();
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-background">
+      {!isConnected && (
+        <div className="absolute top-3 right-3 z-10 flex items-center gap-2 rounded-full bg-destructive/90 px-3 py-1 text-sm text-destructive-foreground">
+          <WifiOff className="h-4 w-4" />
+          Terputus
+        </div>
+      )}
+      {isPaired && settings ? (
+        <DisplayContent settings={settings} state={state} />
+      ) : (
+        <PairingForm onPair={pair} isPairing={isPairing} error={error} />
+      )}
+    </div>
+  );
+}
+
+interface DisplayContentProps {
+  settings: CustomerDisplayScreenSettings;
+  state: CustomerDisplayState | null;
+}
+
+function DisplayContent({ settings, state }: DisplayContentProps) {
+  const [thankYouDone, setThankYouDone] = useState(false);
+
+  // The thank-you screen gives way to the idle loop on its own
+  useEffect(() => {
+    setThankYouDone(false);
+    if (state?.stage !== 'thank_you') return;
+    const shownFor = Date.now() - new Date(state.updatedAt).getTime();
+    const timer = setTimeout(
+      () => setThankYouDone(true),
+      Math.max(0, settings.thankYouSeconds * 1000 - shownFor),
+    );
+    return () => clearTimeout(timer);
+  }, [state?.stage, state?.updatedAt, settings.thankYouSeconds]);
+
+  if (!state || state.stage === 'idle' || (state.stage === 'thank_you' && thankYouDone)) {
+    return <IdleScreen settings={settings} />;
+  }
+  switch (state.stage) {
+    case 'cart':
+      return <CartScreen state={state} />;
+    case 'payment':
+      return <PaymentScreen state={state} />;
+    case 'thank_you':
+      return <ThankYouScreen state={state} />;
+  }
+}
+
+interface PairingFormProps {
+  onPair: (code: string) => void;
+  isPairing: boolean;
+  error: string | null;
+}
+
+function PairingForm({ onPair, isPairing, error }: PairingFormProps) {
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length === 6) onPair(code);
+  };
+
+  return (
+    <div className="h-full flex items-center justify-center p-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-4 text-center">
+        <Monitor className="mx-auto h-16 w-16 text-muted-foreground" />
+        <h1 className="text-2xl font-semibold">Layar Pelanggan</h1>
+        <p className="text-muted-foreground">
+          Di terminal POS, buka Menu &rsaquo; Layar Pelanggan dan masukkan kode yang tampil.
+        </p>
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="000000"
+          className="h-14 text-center font-mono text-3xl tracking-[0.3em]"
+          autoFocus
+        />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button type="submit" className="w-full" disabled={code.length !== 6 || isPairing}>
+          {isPairing ? 'Menghubungkan...' : 'Hubungkan'}
+        </Button>
+      </form>
+    </div>
+  );
+}
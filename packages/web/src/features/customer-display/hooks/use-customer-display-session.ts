@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+import { createPublicSocket } from '@/hooks/realtime/socket.util';
+import type {
+  CustomerDisplayScreenSettings,
+  CustomerDisplaySession,
+  CustomerDisplayState,
+} from '@/types/customer-display.types';
+
+const STORAGE_KEY = 'tilo-customer-display';
+
+interface StoredPairing {
+  deviceId: string;
+  token: string;
+}
+
+function loadPairing(): StoredPairing | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredPairing) : null;
+  } catch {
+    return null;
+  }
+}
+
+function savePairing(pairing: StoredPairing | null) {
+  if (pairing) localStorage.setItem(STORAGE_KEY, JSON.stringify(pairing));
+  else localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Connection of a customer display to its terminal.
+ * Pairs with the code shown at the terminal, keeps the token to rejoin after
+ * a reload, and follows the state and settings the terminal pushes.
+ */
+export function useCustomerDisplaySession() {
+  const socketRef = useRef<Socket | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [isPairing, setIsPairing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deviceName, setDeviceName] = useState<string | null>(null);
+  const [settings, setSettings] = useState<CustomerDisplayScreenSettings | null>(null);
+  const [state, setState] = useState<CustomerDisplayState | null>(null);
+
+  useEffect(() => {
+    const socket = createPublicSocket();
+    socketRef.current = socket;
+
+    const onConnect = () => {
+      setIsConnected(true);
+      const pairing = loadPairing();
+      if (pairing) socket.emit('display:resume', pairing);
+    };
+
+    const onPaired = (session: CustomerDisplaySession) => {
+      if (session.token) savePairing({ deviceId: session.deviceId, token: session.token });
+      setIsPairing(false);
+      setError(null);
+      setDeviceName(session.deviceName);
+      setSettings(session.settings);
+      setState(session.state);
+    };
+
+    const onUnpaired = () => {
+      savePairing(null);
+      setDeviceName(null);
+      setSettings(null);
+      setState(null);
+    };
+
+    const onError = (data: { message?: string }) => {
+      setIsPairing(false);
+      setError(data.message ?? 'Pairing gagal');
+    };
+
+    socket.on('connect', onConnect);
+    socket.on('disconnect', () => setIsConnected(false));
+    socket.on('display:paired', onPaired);
+    socket.on('display:unpaired', onUnpaired);
+    socket.on('display:error', onError);
+    socket.on('display:state', (next: CustomerDisplayState) => setState(next));
+    socket.on('display:settings', (next: CustomerDisplayScreenSettings) => setSettings(next));
+
+    return () => {
+      socket.removeAllListeners();
+      socket.disconnect();
+      socketRef.current = null;
+    };
+  }, []);
+
+  const pair = useCallback((code: string) => {
+    if (!socketRef.current) return;
+    setIsPairing(true);
+    setError(null);
+    socketRef.current.emit('display:pair', { code });
+  }, []);
+
+  return {
+    isConnected,
+    isPaired: settings !== null,
+    isPairing,
+    error,
+    deviceName,
+    settings,
+    state,
+    pair,
+  };
+}
@@ -7,7 +7,7 @@
 
 import { useState, useEffect } from 'react';
 
-type DeviceType = 'tablet' | 'phone' | 'desktop' | 'kds_display';
+type DeviceType = 'tablet' | 'phone' | 'desktop' | 'kds_display' | 'kiosk';
 type Platform = 'android' | 'ios' | 'windows' | 'web';
 
 interface Device {
@@ -38,6 +38,7 @@ const DEVICE_ICONS: Record<DeviceType, string> = {
     phone: '📲',
     desktop: '🖥️',
     kds_display: '🖥️',
+    kiosk: '🛒',
 };
 
 const timeSince = (date: Date, now: number): string => {
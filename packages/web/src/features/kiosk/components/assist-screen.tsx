@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { BellRing } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { kioskApi } from '@/api/endpoints/kiosk.api';
+import type { KioskCheckout } from '../hooks/use-kiosk-checkout';
+
+interface AssistScreenProps {
+  checkout: KioskCheckout;
+}
+
+/**
+ * Waiting for the attendant, who checks the customer's ID or weighs the
+ * item, or checks the card terminal's receipt, and then approves here with
+ * their own PIN
+ */
+export function AssistScreen({ checkout }: AssistScreenProps) {
+  const sessionId = checkout.session!.id;
+  const [approverId, setApproverId] = useState('');
+  const [code, setCode] = useState('');
+  const [useAuthenticator, setUseAuthenticator] = useState(false);
+
+  const { data: approvers = [] } = useQuery({
+    queryKey: ['kiosk-assist-approvers', sessionId],
+    queryFn: () => kioskApi.assistApprovers(sessionId),
+  });
+  const approver = approvers.find((a) => a.id === approverId);
+
+  const approve = useMutation({
+    mutationFn: () =>
+      kioskApi.approveAssist(sessionId, {
+        approverId,
+        ...(useAuthenticator ? { totpCode: code } : { pin: code }),
+        confirmCardPayment: checkout.confirmingCard || undefined,
+      }),
+    onSuccess: (approval) => checkout.approveAssist(approval.approvalToken),
+    onError: () => setCode(''),
+  });
+
+  return (
+    <div className="flex h-full items-center justify-center p-6">
+      <div className="w-full max-w-md space-y-6 text-center">
+        <BellRing className="mx-auto h-20 w-20 animate-pulse text-amber-500" />
+        <div className="space-y-2">
+          <h2 className="text-3xl font-bold">Petugas sedang menuju</h2>
+          <p className="text-lg text-muted-foreground">
+            {checkout.confirmingCard
+              ? 'Konfirmasi pembayaran kartu'
+              : checkout.quote?.assistReasons.join(', ')}
+          </p>
+        </div>
+
+        <form
+          className="space-y-4 rounded-2xl border p-5 text-left"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (approverId && code.length === 6) approve.mutate();
+          }}
+        >
+          <p className="font-medium">Khusus petugas</p>
+          <div className="space-y-2">
+            <Label>Petugas</Label>
+            <Select
+              value={approverId}
+              onValueChange={(id) => {
+                setApproverId(id);
+                setUseAuthenticator(false);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Pilih nama" />
+              </SelectTrigger>
+              <SelectContent>
+                {approvers.map((a) => (
+                  <SelectItem key={a.id} value={a.id}>
+                    {a.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assist-code">{useAuthenticator ? 'Kode authenticator' : 'PIN'}</Label>
+            <Input
+              id="assist-code"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              className="text-center font-mono text-2xl tracking-[0.4em]"
+            />
+            {approver?.hasAuthenticator && (
+              <button
+                type="button"
+                className="text-sm text-primary underline"
+                onClick={() => setUseAuthenticator((v) => !v)}
+              >
+                {useAuthenticator ? 'Pakai PIN' : 'Pakai kode authenticator'}
+              </button>
+            )}
+          </div>
+          {approve.isError && <p className="text-sm text-destructive">PIN atau kode salah</p>}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={
+              !approverId || code.length !== 6 || approve.isPending || checkout.isCompleting
+            }
+          >
+            Setujui
+          </Button>
+        </form>
+
+        <Button variant="ghost" onClick={checkout.cancelAssist}>
+          {checkout.confirmingCard ? 'Kembali' : 'Kembali ke keranjang'}
+        </Button>
+      </div>
+    </div>
+  );
+}
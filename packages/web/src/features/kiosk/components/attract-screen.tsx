@@ -0,0 +1,32 @@
+import { ScanBarcode, ShoppingBasket } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface AttractScreenProps {
+  onStart: () => void;
+  isStarting: boolean;
+}
+
+/** Shown while nobody is at the kiosk; a tap or a scan starts a session */
+export function AttractScreen({ onStart, isStarting }: AttractScreenProps) {
+  return (
+    <button
+      type="button"
+      onClick={onStart}
+      disabled={isStarting}
+      className="h-full w-full flex flex-col items-center justify-center gap-8 bg-primary text-primary-foreground"
+    >
+      <ShoppingBasket className="h-32 w-32" />
+      <div className="space-y-3 text-center">
+        <p className="text-6xl font-bold">Bayar Sendiri</p>
+        <p className="text-2xl opacity-90">Sentuh layar atau pindai barang untuk mulai</p>
+      </div>
+      <div className="flex items-center gap-3 text-xl opacity-80">
+        <ScanBarcode className="h-8 w-8" />
+        QRIS atau kartu debit/kredit
+      </div>
+      <Button asChild size="lg" variant="secondary" className="h-16 px-12 text-2xl">
+        <span>{isStarting ? 'Memulai...' : 'Mulai Belanja'}</span>
+      </Button>
+    </button>
+  );
+}
@@ -0,0 +1,168 @@
+import {
+  CreditCard,
+  Loader2,
+  Minus,
+  Plus,
+  QrCode,
+  ShieldAlert,
+  Star,
+  Trash2,
+  UserRound,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatCurrency } from '@/lib/format';
+import { formatLineQuantity } from '@/lib/quantity-format';
+import type { KioskCheckout } from '../hooks/use-kiosk-checkout';
+
+interface KioskCartProps {
+  checkout: KioskCheckout;
+  onMember: () => void;
+}
+
+/** Items, the member, the totals the server quoted and the way to pay */
+export function KioskCart({ checkout, onMember }: KioskCartProps) {
+  const { cart, member, quote, needsAssist } = checkout;
+  const busy = checkout.isQuoting || checkout.isStartingPayment;
+
+  return (
+    <div className="flex h-full flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold">Keranjang</h2>
+        <Button variant="ghost" onClick={checkout.reset}>
+          Batal
+        </Button>
+      </div>
+
+      <div className="flex-1 space-y-3 overflow-y-auto">
+        {cart.length === 0 && (
+          <p className="py-12 text-center text-lg text-muted-foreground">
+            Pindai barcode barang atau pilih dari daftar
+          </p>
+        )}
+        {cart.map((entry) => (
+          <div key={entry.key} className="rounded-xl border p-3">
+            <div className="flex justify-between gap-2">
+              <div>
+                <p className="font-medium">{entry.name}</p>
+                {entry.detail && <p className="text-sm text-muted-foreground">{entry.detail}</p>}
+              </div>
+              <p className="font-semibold">{formatCurrency(entry.unitPrice * entry.quantity)}</p>
+            </div>
+            {entry.label ? (
+              <div className="mt-2 flex items-center justify-between">
+                <span className="text-lg tabular-nums">
+                  {formatLineQuantity(entry.quantity, entry.unit)}
+                </span>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => checkout.setQuantity(entry.key, 0)}
+                  aria-label="Hapus"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="mt-2 flex items-center gap-3">
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => checkout.setQuantity(entry.key, entry.quantity - 1)}
+                  aria-label="Kurangi"
+                >
+                  <Minus className="h-4 w-4" />
+                </Button>
+                <span className="w-8 text-center text-lg">{entry.quantity}</span>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => checkout.setQuantity(entry.key, entry.quantity + 1)}
+                  aria-label="Tambah"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={onMember}
+        className="flex items-center gap-3 rounded-xl border border-dashed p-3 text-left"
+      >
+        {member ? (
+          <>
+            <Star className="h-6 w-6 fill-amber-400 text-amber-500" />
+            <span>
+              Halo, <span className="font-semibold">{member.firstName}</span> ·{' '}
+              {member.loyaltyPoints.toLocaleString('id-ID')} poin
+            </span>
+          </>
+        ) : (
+          <>
+            <UserRound className="h-6 w-6 text-muted-foreground" />
+            <span>Member? Masukkan nomor HP untuk poin</span>
+          </>
+        )}
+      </button>
+
+      {quote && cart.length > 0 && (
+        <div className="space-y-1 border-t pt-3 text-lg">
+          <div className="flex justify-between">
+            <span>Subtotal</span>
+            <span>{formatCurrency(quote.subtotal)}</span>
+          </div>
+          <div className="flex justify-between text-muted-foreground">
+            <span>PPN</span>
+            <span>{formatCurrency(quote.taxAmount)}</span>
+          </div>
+          <div className="flex justify-between text-2xl font-bold">
+            <span>Total</span>
+            <span>{formatCurrency(quote.total)}</span>
+          </div>
+        </div>
+      )}
+
+      {needsAssist ? (
+        <div className="space-y-2">
+          <div className="flex items-start gap-2 rounded-xl bg-amber-500/10 p-3 text-amber-700">
+            <ShieldAlert className="mt-0.5 h-5 w-5 shrink-0" />
+            <p>{quote?.assistReasons.join(', ')}. Petugas akan membantu sebelum pembayaran.</p>
+          </div>
+          <Button
+            size="lg"
+            className="h-16 w-full text-xl"
+            disabled={checkout.isRequestingAssist}
+            onClick={() => checkout.requestAssist(quote?.assistReasons.join('; '))}
+          >
+            Panggil Petugas
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <Button
+            size="lg"
+            className="h-16 gap-2 text-xl"
+            disabled={cart.length === 0 || busy}
+            onClick={() => checkout.pay('qris')}
+          >
+            {busy ? <Loader2 className="h-6 w-6 animate-spin" /> : <QrCode className="h-6 w-6" />}
+            QRIS
+          </Button>
+          <Button
+            size="lg"
+            variant="secondary"
+            className="h-16 gap-2 text-xl"
+            disabled={cart.length === 0 || busy}
+            onClick={() => checkout.pay('card')}
+          >
+            <CreditCard className="h-6 w-6" />
+            Kartu
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
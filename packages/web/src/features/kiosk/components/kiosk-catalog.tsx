@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Search, ShieldAlert, Scale } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { kioskApi } from '@/api/endpoints/kiosk.api';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/format';
+import type { KioskProduct } from '@/types/kiosk.types';
+
+interface KioskCatalogProps {
+  deviceId: string;
+  onPick: (product: KioskProduct) => void;
+}
+
+/** Search and category browsing for customers without a barcode to scan */
+export function KioskCatalog({ deviceId, onPick }: KioskCatalogProps) {
+  const [search, setSearch] = useState('');
+  const [categoryId, setCategoryId] = useState<string | undefined>();
+  const debouncedSearch = useDebouncedValue(search.trim(), 300);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['kiosk-catalog', deviceId, categoryId, debouncedSearch],
+    queryFn: () => kioskApi.catalog(deviceId, { categoryId, search: debouncedSearch || undefined }),
+    placeholderData: (previous) => previous,
+  });
+
+  return (
+    <div className="flex h-full flex-col gap-4">
+      <div className="relative">
+        <Search className="absolute left-4 top-1/2 h-6 w-6 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Cari barang..."
+          className="h-14 pl-14 text-xl"
+        />
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        <CategoryChip label="Semua" active={!categoryId} onClick={() => setCategoryId(undefined)} />
+        {data?.categories.map((category) => (
+          <CategoryChip
+            key={category.id}
+            label={category.name}
+            active={category.id === categoryId}
+            onClick={() => setCategoryId(category.id)}
+          />
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-3 xl:grid-cols-4">
+            {Array.from({ length: 8 }).map((_, i) => (
+              <Skeleton key={i} className="h-56 rounded-2xl" />
+            ))}
+          </div>
+        ) : data?.products.length ? (
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-3 xl:grid-cols-4">
+            {data.products.map((product) => (
+              <ProductTile key={product.id} product={product} onClick={() => onPick(product)} />
+            ))}
+          </div>
+        ) : (
+          <p className="py-16 text-center text-xl text-muted-foreground">Barang tidak ditemukan</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CategoryChipProps {
+  label: string;
+  active: boolean;
+  onClick: () => void;
+}
+
+function CategoryChip({ label, active, onClick }: CategoryChipProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        'shrink-0 rounded-full border px-5 py-2 text-lg transition-colors',
+        active ? 'border-primary bg-primary text-primary-foreground' : 'bg-background',
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+function ProductTile({ product, onClick }: { product: KioskProduct; onClick: () => void }) {
+  const fromPrice = product.variants.length
+    ? Math.min(...product.variants.map((v) => v.price))
+    : product.price;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="flex flex-col overflow-hidden rounded-2xl border bg-card text-left shadow-sm transition-shadow hover:shadow-md"
+    >
+      <div className="flex aspect-[4/3] items-center justify-center bg-muted">
+        {product.imageUrl ? (
+          <img src={product.imageUrl} alt="" className="h-full w-full object-cover" />
+        ) : (
+          <span className="text-4xl font-bold text-muted-foreground">{product.name.charAt(0)}</span>
+        )}
+      </div>
+      <div className="flex flex-1 flex-col gap-1 p-3">
+        <p className="line-clamp-2 text-lg font-medium">{product.name}</p>
+        <p className="text-lg font-semibold text-primary">
+          {product.variants.length > 1 && 'Mulai '}
+          {formatCurrency(fromPrice)}
+        </p>
+        {product.assistReasons.length > 0 && (
+          <p className="flex items-center gap-1 text-sm text-amber-600">
+            {product.assistReasons.some((r) => r.startsWith('Weigh')) ? (
+              <Scale className="h-4 w-4" />
+            ) : (
+              <ShieldAlert className="h-4 w-4" />
+            )}
+            Dibantu petugas
+          </p>
+        )}
+      </div>
+    </button>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Delete } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { kioskApi } from '@/api/endpoints/kiosk.api';
+import type { KioskMember } from '@/types/kiosk.types';
+
+interface MemberDialogProps {
+  deviceId: string;
+  onFound: (member: KioskMember) => void;
+  onClose: () => void;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'del'];
+
+/** Phone number keypad to collect points as a member */
+export function MemberDialog({ deviceId, onFound, onClose }: MemberDialogProps) {
+  const [phone, setPhone] = useState('');
+
+  const lookup = useMutation({
+    mutationFn: () => kioskApi.lookupMember(deviceId, phone),
+    onSuccess: onFound,
+  });
+
+  const press = (key: string) => {
+    lookup.reset();
+    setPhone((p) => (key === 'del' ? p.slice(0, -1) : (p + key).slice(0, 15)));
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Member</DialogTitle>
+          <DialogDescription>Masukkan nomor HP untuk mengumpulkan poin</DialogDescription>
+        </DialogHeader>
+
+        <p className="h-14 rounded-xl border px-4 text-center font-mono text-3xl leading-[3.5rem] tracking-wider">
+          {phone || <span className="text-muted-foreground">08xx</span>}
+        </p>
+        {lookup.isError && (
+          <p className="text-center text-sm text-destructive">
+            Nomor belum terdaftar sebagai member
+          </p>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          {KEYS.map((key) =>
+            key ? (
+              <Button
+                key={key}
+                variant="outline"
+                className="h-16 text-2xl"
+                onClick={() => press(key)}
+                aria-label={key === 'del' ? 'Hapus' : key}
+              >
+                {key === 'del' ? <Delete className="h-6 w-6" /> : key}
+              </Button>
+            ) : (
+              <span key="blank" />
+            ),
+          )}
+        </div>
+
+        <Button
+          size="lg"
+          className="h-14 text-xl"
+          disabled={phone.length < 8 || lookup.isPending}
+          onClick={() => lookup.mutate()}
+        >
+          {lookup.isPending ? 'Mencari...' : 'Cari'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
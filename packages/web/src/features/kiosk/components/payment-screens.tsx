@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { CheckCircle2, CreditCard, Loader2, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatCurrency } from '@/lib/format';
+import type { KioskCheckout } from '../hooks/use-kiosk-checkout';
+
+interface PaymentScreenProps {
+  checkout: KioskCheckout;
+}
+
+/** QRIS to scan, or the card terminal's approval code; the sale is booked once paid */
+export function PaymentScreen({ checkout }: PaymentScreenProps) {
+  const payment = checkout.payment!;
+  const [approvalCode, setApprovalCode] = useState('');
+
+  return (
+    <div className="flex h-full flex-col items-center justify-center gap-6 p-6 text-center">
+      <p className="text-2xl text-muted-foreground">
+        {payment.method === 'qris' ? 'Bayar dengan QRIS' : 'Bayar dengan kartu'}
+      </p>
+      <p className="text-6xl font-bold">{formatCurrency(payment.amount)}</p>
+
+      {payment.method === 'qris' ? (
+        <>
+          {payment.qrString ? (
+            <div className="rounded-2xl bg-white p-6 shadow-lg">
+              <QRCodeSVG value={payment.qrString} size={320} level="M" />
+            </div>
+          ) : (
+            <p className="text-destructive">QRIS tidak tersedia, pilih pembayaran kartu</p>
+          )}
+          <p className="flex items-center gap-2 text-xl text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Menunggu pembayaran...
+          </p>
+        </>
+      ) : (
+        <form
+          className="w-full max-w-sm space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (approvalCode.trim()) checkout.completeCard(approvalCode.trim());
+          }}
+        >
+          <CreditCard className="mx-auto h-20 w-20 text-muted-foreground" />
+          <p className="text-lg">
+            Masukkan atau tempelkan kartu di mesin EDC, lalu ketik kode approval dari struk EDC.
+            Petugas akan mengonfirmasi pembayaran.
+          </p>
+          <Input
+            value={approvalCode}
+            onChange={(e) => setApprovalCode(e.target.value.toUpperCase().slice(0, 50))}
+            placeholder="Kode approval"
+            className="h-14 text-center font-mono text-2xl"
+            autoFocus
+          />
+          <Button
+            type="submit"
+            size="lg"
+            className="h-14 w-full text-xl"
+            disabled={!approvalCode.trim() || checkout.isCompleting}
+          >
+            Selesai
+          </Button>
+        </form>
+      )}
+
+      <Button variant="ghost" onClick={checkout.backToCart}>
+        Ganti metode pembayaran
+      </Button>
+    </div>
+  );
+}
+
+interface ThankYouScreenProps {
+  checkout: KioskCheckout;
+}
+
+export function ThankYouScreen({ checkout }: ThankYouScreenProps) {
+  const receipt = checkout.receipt!;
+  const member = checkout.member;
+
+  return (
+    <div className="flex h-full flex-col items-center justify-center gap-6 p-6 text-center">
+      <CheckCircle2 className="h-24 w-24 text-green-500" />
+      <p className="text-5xl font-bold">Terima kasih{member ? `, ${member.firstName}` : ''}!</p>
+      <p className="text-2xl">{formatCurrency(receipt.grandTotal)} lunas</p>
+      <p className="text-xl text-muted-foreground">No. struk {receipt.receiptNumber}</p>
+      {member && receipt.loyaltyPointsEarned > 0 && (
+        <div className="flex items-center gap-3 rounded-xl bg-amber-500/10 px-6 py-4 text-amber-700">
+          <Star className="h-8 w-8 fill-current" />
+          <p className="text-2xl font-semibold">+{receipt.loyaltyPointsEarned} poin</p>
+        </div>
+      )}
+      <Button size="lg" className="h-14 px-10 text-xl" onClick={checkout.reset}>
+        Selesai
+      </Button>
+    </div>
+  );
+}
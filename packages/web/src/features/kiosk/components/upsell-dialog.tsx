@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/format';
+import type { KioskModifierGroup, KioskProduct } from '@/types/kiosk.types';
+
+interface UpsellDialogProps {
+  product: KioskProduct;
+  initialVariantId?: string;
+  onAdd: (variantId: string | undefined, modifierIds: string[]) => void;
+  onClose: () => void;
+}
+
+function toggleModifier(group: KioskModifierGroup, selected: string[], modifierId: string) {
+  if (selected.includes(modifierId)) return selected.filter((id) => id !== modifierId);
+  const groupIds = group.modifiers.map((m) => m.id);
+  if (group.selectionType === 'single') {
+    return [...selected.filter((id) => !groupIds.includes(id)), modifierId];
+  }
+  const picked = selected.filter((id) => groupIds.includes(id)).length;
+  if (group.maxSelection && picked >= group.maxSelection) return selected;
+  return [...selected, modifierId];
+}
+
+/** Size and add-ons for a product, offered before it goes into the cart */
+export function UpsellDialog({ product, initialVariantId, onAdd, onClose }: UpsellDialogProps) {
+  const [variantId, setVariantId] = useState(initialVariantId ?? product.variants[0]?.id);
+  const [modifierIds, setModifierIds] = useState<string[]>([]);
+
+  const missingGroup = product.modifierGroups.find((group) => {
+    const picked = group.modifiers.filter((m) => modifierIds.includes(m.id)).length;
+    return picked < Math.max(group.minSelection, group.isRequired ? 1 : 0);
+  });
+
+  const price =
+    (product.variants.find((v) => v.id === variantId)?.price ?? product.price) +
+    product.modifierGroups
+      .flatMap((g) => g.modifiers)
+      .filter((m) => modifierIds.includes(m.id))
+      .reduce((sum, m) => sum + m.price, 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">{product.name}</DialogTitle>
+          {product.description && <DialogDescription>{product.description}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {product.variants.length > 0 && (
+            <section className="space-y-3">
+              <h3 className="text-lg font-semibold">Pilih ukuran</h3>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                {product.variants.map((variant) => (
+                  <OptionButton
+                    key={variant.id}
+                    label={variant.name}
+                    price={formatCurrency(variant.price)}
+                    selected={variant.id === variantId}
+                    onClick={() => setVariantId(variant.id)}
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+
+          {product.modifierGroups.map((group) => (
+            <section key={group.id} className="space-y-3">
+              <h3 className="text-lg font-semibold">
+                {group.name}
+                {!group.isRequired && group.minSelection === 0 && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    Tambahan, opsional
+                  </span>
+                )}
+              </h3>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                {group.modifiers.map((modifier) => (
+                  <OptionButton
+                    key={modifier.id}
+                    label={modifier.name}
+                    price={modifier.price > 0 ? `+${formatCurrency(modifier.price)}` : 'Gratis'}
+                    selected={modifierIds.includes(modifier.id)}
+                    onClick={() => setModifierIds((s) => toggleModifier(group, s, modifier.id))}
+                  />
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" size="lg" onClick={onClose}>
+            Batal
+          </Button>
+          <Button size="lg" disabled={!!missingGroup} onClick={() => onAdd(variantId, modifierIds)}>
+            {missingGroup ? `Pilih ${missingGroup.name}` : `Tambah · ${formatCurrency(price)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface OptionButtonProps {
+  label: string;
+  price: string;
+  selected: boolean;
+  onClick: () => void;
+}
+
+function OptionButton({ label, price, selected, onClick }: OptionButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        'relative rounded-xl border-2 p-4 text-left transition-colors',
+        selected ? 'border-primary bg-primary/10' : 'border-border hover:border-primary/50',
+      )}
+    >
+      {selected && <Check className="absolute right-2 top-2 h-5 w-5 text-primary" />}
+      <p className="font-medium">{label}</p>
+      <p className="text-sm text-muted-foreground">{price}</p>
+    </button>
+  );
+}
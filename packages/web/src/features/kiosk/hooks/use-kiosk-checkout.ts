@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { kioskApi } from '@/api/endpoints/kiosk.api';
+import { toast } from '@/lib/toast-utils';
+import type {
+  KioskCartItem,
+  KioskMember,
+  KioskPayment,
+  KioskPaymentMethod,
+  KioskProduct,
+  KioskScanResult,
+  KioskSession,
+} from '@/types/kiosk.types';
+
+export type KioskStage = 'attract' | 'shopping' | 'assist' | 'payment' | 'thank_you';
+
+export interface KioskCartEntry extends KioskCartItem {
+  key: string;
+  name: string;
+  detail: string | null;
+  /** Estimate for the screen; the server prices the cart again for the quote */
+  unitPrice: number;
+  /** Weight unit of a weighed item */
+  unit: string | null;
+}
+
+export interface KioskReceipt {
+  receiptNumber: string;
+  grandTotal: number;
+  loyaltyPointsEarned: number;
+}
+
+// Checking with the gateway whether the customer has paid the QRIS
+const QRIS_POLL_MS = 3000;
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : 'Terjadi kesalahan';
+}
+
+/** State of one customer's checkout at the kiosk, from the attract screen to the receipt */
+export function useKioskCheckout(deviceId: string) {
+  const [stage, setStage] = useState<KioskStage>('attract');
+  const [session, setSession] = useState<KioskSession | null>(null);
+  const [cart, setCart] = useState<KioskCartEntry[]>([]);
+  const [member, setMember] = useState<KioskMember | null>(null);
+  const [approval, setApproval] = useState<string | null>(null);
+  // Card terminal's approval code, waiting for the attendant to confirm it
+  const [cardCode, setCardCode] = useState<string | null>(null);
+  const [payment, setPayment] = useState<KioskPayment | null>(null);
+  const [receipt, setReceipt] = useState<KioskReceipt | null>(null);
+
+  const items = useMemo<KioskCartItem[]>(
+    () =>
+      cart.map(({ productId, variantId, modifierIds, quantity, label }) => ({
+        productId,
+        variantId,
+        modifierIds,
+        quantity,
+        label,
+      })),
+    [cart],
+  );
+
+  const { data: quote, isFetching: isQuoting } = useQuery({
+    queryKey: ['kiosk-quote', session?.id, items],
+    queryFn: () => kioskApi.quote(session!.id, items),
+    enabled: !!session && items.length > 0,
+    placeholderData: (previous) => previous,
+  });
+
+  const needsAssist = !!quote && quote.assistReasons.length > 0 && !approval;
+
+  const startMutation = useMutation({
+    mutationFn: () => kioskApi.startSession(deviceId),
+    onSuccess: (started) => {
+      setSession(started);
+      setStage('shopping');
+    },
+    onError: (error) => {
+      toast.error({ title: 'Kiosk tidak dapat dimulai', description: errorMessage(error) });
+    },
+  });
+
+  const reset = useCallback(() => {
+    if (session && stage !== 'thank_you') {
+      void kioskApi.cancel(session.id).catch(() => undefined);
+    }
+    setStage('attract');
+    setSession(null);
+    setCart([]);
+    setMember(null);
+    setApproval(null);
+    setCardCode(null);
+    setPayment(null);
+    setReceipt(null);
+  }, [session, stage]);
+
+  const addItem = useCallback(
+    (
+      product: KioskProduct,
+      variantId?: string,
+      modifierIds: string[] = [],
+      label?: KioskScanResult['label'],
+    ) => {
+      const variant = product.variants.find((v) => v.id === variantId);
+      const modifiers = product.modifierGroups
+        .flatMap((g) => g.modifiers)
+        .filter((m) => modifierIds.includes(m.id));
+      // Every scale label is its own line, weighed once
+      const key = label
+        ? `label:${label.code}`
+        : [product.id, variantId ?? '', ...[...modifierIds].sort()].join(':');
+      const detail = [variant?.name, ...modifiers.map((m) => m.name)].filter(Boolean).join(', ');
+
+      setCart((current) => {
+        const existing = current.find((entry) => entry.key === key);
+        if (existing && label) return current;
+        if (existing) {
+          return current.map((entry) =>
+            entry.key === key ? { ...entry, quantity: entry.quantity + 1 } : entry,
+          );
+        }
+        return [
+          ...current,
+          {
+            key,
+            productId: product.id,
+            variantId,
+            modifierIds,
+            quantity: label?.quantity ?? 1,
+            label: label?.code,
+            name: product.name,
+            detail: detail || null,
+            unitPrice:
+              (variant?.price ?? product.price) + modifiers.reduce((sum, m) => sum + m.price, 0),
+            unit: product.isWeighed ? (product.sellUnit ?? 'kg') : null,
+          },
+        ];
+      });
+      // A restricted item added after the approval needs a new one
+      if (product.assistReasons.length > 0) setApproval(null);
+    },
+    [],
+  );
+
+  const setQuantity = useCallback((key: string, quantity: number) => {
+    setCart((current) =>
+      quantity <= 0
+        ? current.filter((entry) => entry.key !== key)
+        : current.map((entry) => (entry.key === key ? { ...entry, quantity } : entry)),
+    );
+  }, []);
+
+  const assistMutation = useMutation({
+    mutationFn: (reason?: string) => kioskApi.requestAssist(session!.id, reason),
+    onSuccess: () => setStage('assist'),
+    onError: (error) => {
+      toast.error({ title: 'Gagal memanggil petugas', description: errorMessage(error) });
+    },
+  });
+
+  const finish = useCallback((result: KioskReceipt) => {
+    setReceipt(result);
+    setStage('thank_you');
+  }, []);
+
+  const payMutation = useMutation({
+    mutationFn: (method: KioskPaymentMethod) =>
+      kioskApi.startPayment(session!.id, {
+        method,
+        items,
+        customerId: member?.id,
+        assistApproval: approval ?? undefined,
+      }),
+    onSuccess: (started) => {
+      setPayment(started);
+      setStage('payment');
+    },
+    onError: (error) => {
+      toast.error({ title: 'Pembayaran tidak dapat dimulai', description: errorMessage(error) });
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: (card: { cardApprovalCode: string; cardApproval: string }) =>
+      kioskApi.complete(session!.id, { assistApproval: approval ?? undefined, ...card }),
+    onSuccess: (result) => {
+      if (result.status === 'completed') finish(result);
+    },
+    onError: (error) => {
+      toast.error({ title: 'Pembayaran belum selesai', description: errorMessage(error) });
+    },
+  });
+
+  // The card terminal is not connected, so an attendant checks its receipt
+  const completeCard = useCallback(
+    (approvalCode: string) => {
+      setCardCode(approvalCode);
+      assistMutation.mutate('Konfirmasi pembayaran kartu');
+    },
+    [assistMutation],
+  );
+
+  const approveAssist = useCallback(
+    (approvalToken: string) => {
+      if (cardCode) {
+        completeMutation.mutate({ cardApprovalCode: cardCode, cardApproval: approvalToken });
+        return;
+      }
+      setApproval(approvalToken);
+      setStage('shopping');
+    },
+    [cardCode, completeMutation],
+  );
+
+  const cancelAssist = useCallback(() => {
+    if (cardCode) {
+      setCardCode(null);
+      setStage('payment');
+    } else {
+      setStage('shopping');
+    }
+  }, [cardCode]);
+
+  // QRIS: keep asking until the gateway reports the payment
+  const sessionId = session?.id;
+  useEffect(() => {
+    if (stage !== 'payment' || payment?.method !== 'qris' || !sessionId) return;
+    const interval = setInterval(() => {
+      kioskApi
+        .complete(sessionId, { assistApproval: approval ?? undefined })
+        .then((result) => {
+          if (result.status === 'completed') finish(result);
+        })
+        // Asked again on the next tick; the customer can still cancel
+        .catch(() => undefined);
+    }, QRIS_POLL_MS);
+    return () => clearInterval(interval);
+  }, [stage, payment?.method, sessionId, approval, finish]);
+
+  return {
+    stage,
+    session,
+    cart,
+    member,
+    quote,
+    isQuoting,
+    needsAssist,
+    payment,
+    receipt,
+    start: () => startMutation.mutate(),
+    isStarting: startMutation.isPending,
+    reset,
+    addItem,
+    setQuantity,
+    setMember,
+    requestAssist: (reason?: string) => assistMutation.mutate(reason),
+    isRequestingAssist: assistMutation.isPending,
+    approveAssist,
+    cancelAssist,
+    confirmingCard: cardCode !== null,
+    backToCart: () => setStage('shopping'),
+    pay: (method: KioskPaymentMethod) => payMutation.mutate(method),
+    isStartingPayment: payMutation.isPending,
+    completeCard,
+    isCompleting: completeMutation.isPending || assistMutation.isPending,
+  };
+}
+
+export type KioskCheckout = ReturnType<typeof useKioskCheckout>;
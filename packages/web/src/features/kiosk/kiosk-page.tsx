@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ShoppingBasket } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { settingsApi } from '@/api/endpoints/settings.api';
+import { kioskApi } from '@/api/endpoints/kiosk.api';
+import { BarcodeScanner } from '@/services/hardware.service';
+import { toast } from '@/lib/toast-utils';
+import { useKioskStore } from '@/stores/kiosk.store';
+import { AttractScreen } from './components/attract-screen';
+import { AssistScreen } from './components/assist-screen';
+import { KioskCart } from './components/kiosk-cart';
+import { KioskCatalog } from './components/kiosk-catalog';
+import { MemberDialog } from './components/member-dialog';
+import { PaymentScreen, ThankYouScreen } from './components/payment-screens';
+import { UpsellDialog } from './components/upsell-dialog';
+import { useKioskCheckout } from './hooks/use-kiosk-checkout';
+import type { KioskProduct } from '@/types/kiosk.types';
+
+// A customer who walks away leaves the cart on screen this long
+const IDLE_RESET_MS = 90 * 1000;
+const THANK_YOU_MS = 10 * 1000;
+
+/**
+ * Self-checkout kiosk. Runs logged in as the kiosk's own employee; customers
+ * scan or pick items, add upsells, collect points by phone number and pay by
+ * QRIS or card. Age-restricted and weighed items wait for an attendant.
+ */
+export function KioskPage() {
+  const deviceId = useKioskStore((s) => s.deviceId);
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-background">
+      {deviceId ? <KioskCheckoutView deviceId={deviceId} /> : <KioskSetup />}
+    </div>
+  );
+}
+
+function KioskCheckoutView({ deviceId }: { deviceId: string }) {
+  const checkout = useKioskCheckout(deviceId);
+  const { stage, session, addItem, reset, start } = checkout;
+  const [upsell, setUpsell] = useState<{ product: KioskProduct; variantId?: string } | null>(null);
+  const [showMember, setShowMember] = useState(false);
+  const pendingScan = useRef<string | null>(null);
+
+  const pick = useCallback(
+    (product: KioskProduct, variantId?: string) => {
+      const needsChoice =
+        product.modifierGroups.length > 0 || (product.variants.length > 0 && !variantId);
+      if (needsChoice) setUpsell({ product, variantId });
+      else addItem(product, variantId);
+    },
+    [addItem],
+  );
+
+  const handleScan = useCallback(
+    (code: string) => {
+      kioskApi
+        .scan(deviceId, code)
+        .then((result) =>
+          result.label
+            ? addItem(result.product, undefined, [], result.label)
+            : pick(result.product, result.variantId ?? undefined),
+        )
+        .catch(() => toast.error({ title: 'Barang tidak ditemukan', description: code }));
+    },
+    [deviceId, pick, addItem],
+  );
+
+  // A scan on the attract screen starts the session and adds the item
+  useEffect(() => {
+    const scanner = new BarcodeScanner();
+    scanner.start(({ code }) => {
+      if (stage === 'shopping') handleScan(code);
+      else if (stage === 'attract') {
+        pendingScan.current = code;
+        start();
+      }
+    });
+    return () => scanner.stop();
+  }, [stage, handleScan, start]);
+
+  useEffect(() => {
+    if (stage === 'shopping' && pendingScan.current) {
+      handleScan(pendingScan.current);
+      pendingScan.current = null;
+    }
+  }, [stage, handleScan]);
+
+  // Back to the attract screen when the customer has gone
+  useEffect(() => {
+    if (stage !== 'shopping' && stage !== 'thank_you') return;
+    const timeout = stage === 'thank_you' ? THANK_YOU_MS : IDLE_RESET_MS;
+    let timer = setTimeout(reset, timeout);
+    const onActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(reset, timeout);
+    };
+    window.addEventListener('pointerdown', onActivity);
+    window.addEventListener('keydown', onActivity);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('pointerdown', onActivity);
+      window.removeEventListener('keydown', onActivity);
+    };
+  }, [stage, reset]);
+
+  if (stage === 'attract' || !session) {
+    return <AttractScreen onStart={start} isStarting={checkout.isStarting} />;
+  }
+  if (stage === 'assist') return <AssistScreen checkout={checkout} />;
+  if (stage === 'payment') return <PaymentScreen checkout={checkout} />;
+  if (stage === 'thank_you') return <ThankYouScreen checkout={checkout} />;
+
+  return (
+    <div className="flex h-full">
+      <main className="flex-1 p-6">
+        <KioskCatalog deviceId={deviceId} onPick={(product) => pick(product)} />
+      </main>
+      <aside className="w-[420px] border-l bg-muted/30 p-6">
+        <KioskCart checkout={checkout} onMember={() => setShowMember(true)} />
+      </aside>
+
+      {upsell && (
+        <UpsellDialog
+          product={upsell.product}
+          initialVariantId={upsell.variantId}
+          onAdd={(variantId, modifierIds) => {
+            addItem(upsell.product, variantId, modifierIds);
+            setUpsell(null);
+          }}
+          onClose={() => setUpsell(null)}
+        />
+      )}
+      {showMember && (
+        <MemberDialog
+          deviceId={deviceId}
+          onFound={(member) => {
+            checkout.setMember(member);
+            setShowMember(false);
+          }}
+          onClose={() => setShowMember(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+/** One-time pick of the kiosk device this browser runs as */
+function KioskSetup() {
+  const setDeviceId = useKioskStore((s) => s.setDeviceId);
+  const [selected, setSelected] = useState('');
+
+  const { data: devices = [] } = useQuery({
+    queryKey: ['devices'],
+    queryFn: settingsApi.listDevices,
+  });
+  const kiosks = devices.filter((d) => d.isActive && d.deviceType === 'kiosk' && d.outletId);
+
+  return (
+    <div className="flex h-full items-center justify-center p-6">
+      <div className="w-full max-w-sm space-y-4 text-center">
+        <ShoppingBasket className="mx-auto h-16 w-16 text-muted-foreground" />
+        <h1 className="text-2xl font-semibold">Siapkan Kiosk</h1>
+        <p className="text-muted-foreground">
+          Pilih perangkat kiosk yang terdaftar di Pengaturan &rsaquo; Perangkat.
+        </p>
+        <Select value={selected} onValueChange={setSelected}>
+          <SelectTrigger>
+            <SelectValue placeholder="Pilih perangkat kiosk" />
+          </SelectTrigger>
+          <SelectContent>
+            {kiosks.map((device) => (
+              <SelectItem key={device.id} value={device.id}>
+                {device.deviceName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button className="w-full" disabled={!selected} onClick={() => setDeviceId(selected)}>
+          Gunakan
+        </Button>
+      </div>
+    </div>
+  );
+}
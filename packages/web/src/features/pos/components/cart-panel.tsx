@@ -15,7 +15,7 @@ import { useCartStore } from '@/stores/cart.store';
 import { useUIStore } from '@/stores/ui.store';
 import { useBusinessFeatures } from '@/hooks/use-business-features';
 import { formatCurrency } from '@/lib/format';
-import { formatQuantity } from '@/lib/quantity-format';
+import { formatLineQuantity, formatQuantity } from '@/lib/quantity-format';
 import { cn } from '@/lib/utils';
 import type { CartItem } from '@/types/pos.types';
 
@@ -100,7 +100,7 @@ export function CartPanel({ onCheckout, onHoldBill, onQuickCashCheckout }: CartP
                                 onRemove={() => removeItem(item.id)}
                                 allowPriceEdit={hasPriceEditing}
                                 onPriceChange={(price) => updateItemPrice(item.id, price)}
-                                allowDecimalQty={hasDecimalQuantities}
+                                allowDecimalQty={hasDecimalQuantities || !!item.unit}
                             />
                         ))}
                     </div>
@@ -246,6 +246,11 @@ function CartItemRow({ item, onQuantityChange, onRemove, allowPriceEdit, onPrice
                     {item.variantName && (
                         <span className="text-xs text-muted-foreground">{item.variantName}</span>
                     )}
+                    {item.unit && (
+                        <span className="block text-xs text-muted-foreground tabular-nums">
+                            {formatLineQuantity(item.quantity, item.unit)} @ {formatCurrency(item.price)}/{item.unit}
+                        </span>
+                    )}
                     {item.modifiers.length > 0 && (
                         <div className="flex flex-wrap gap-1 mt-0.5">
                             {item.modifiers.map((mod) => (
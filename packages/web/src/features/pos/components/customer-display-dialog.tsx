@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Monitor, Link2Off, RefreshCw, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { settingsApi } from '@/api/endpoints/settings.api';
+import { customerDisplayApi } from '@/api/endpoints/customer-display.api';
+import { toast } from '@/lib/toast-utils';
+import { useCustomerDisplayStore } from '@/stores/customer-display.store';
+
+interface CustomerDisplayDialogProps {
+    open: boolean;
+    onClose: () => void;
+    outletId: string;
+}
+
+// While a code is on screen, check often whether the display has used it
+const PENDING_POLL_MS = 3000;
+
+function secondsLeft(expiresAt: string, now: number) {
+    return Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 1000));
+}
+
+export function CustomerDisplayDialog({ open, onClose, outletId }: CustomerDisplayDialogProps) {
+    const queryClient = useQueryClient();
+    const deviceId = useCustomerDisplayStore((s) => s.deviceId);
+    const setDeviceId = useCustomerDisplayStore((s) => s.setDeviceId);
+    const [now, setNow] = useState(() => Date.now());
+
+    const { data: devices = [] } = useQuery({
+        queryKey: ['devices'],
+        queryFn: settingsApi.listDevices,
+        enabled: open,
+    });
+    const outletDevices = devices.filter((d) => d.isActive && d.outletId === outletId);
+
+    const { data: status } = useQuery({
+        queryKey: ['customer-display', deviceId],
+        queryFn: () => customerDisplayApi.status(deviceId!),
+        enabled: open && !!deviceId,
+        refetchInterval: (query) => (query.state.data?.pendingCode ? PENDING_POLL_MS : false),
+    });
+
+    const pendingCode = status?.pendingCode ?? null;
+    const remaining = pendingCode ? secondsLeft(pendingCode.expiresAt, now) : 0;
+
+    useEffect(() => {
+        if (!open || !pendingCode) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [open, pendingCode]);
+
+    const refreshStatus = () =>
+        queryClient.invalidateQueries({ queryKey: ['customer-display', deviceId] });
+
+    const issueCode = useMutation({
+        mutationFn: () => customerDisplayApi.issuePairingCode(deviceId!),
+        onSuccess: () => {
+            setNow(Date.now());
+            void refreshStatus();
+        },
+        onError: (error) => {
+            toast.error({
+                title: 'Gagal Membuat Kode',
+                description: error instanceof Error ? error.message : 'Terjadi kesalahan',
+            });
+        },
+    });
+
+    const unpair = useMutation({
+        mutationFn: () => customerDisplayApi.unpair(deviceId!),
+        onSuccess: () => {
+            toast.success({ title: 'Layar pelanggan dilepas' });
+            void refreshStatus();
+        },
+        onError: (error) => {
+            toast.error({
+                title: 'Gagal Melepas Layar',
+                description: error instanceof Error ? error.message : 'Terjadi kesalahan',
+            });
+        },
+    });
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Monitor className="h-5 w-5" />
+                        Layar Pelanggan
+                    </DialogTitle>
+                    <DialogDescription>
+                        Buka <span className="font-mono">/customer-display</span> di layar kedua,
+                        lalu masukkan kode pairing dari terminal ini.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <Label>Perangkat terminal ini</Label>
+                        <Select value={deviceId ?? ''} onValueChange={(id) => setDeviceId(id)}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Pilih perangkat" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {outletDevices.map((device) => (
+                                    <SelectItem key={device.id} value={device.id}>
+                                        {device.deviceName}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {outletDevices.length === 0 && (
+                            <p className="text-xs text-muted-foreground">
+                                Belum ada perangkat aktif di outlet ini. Daftarkan di Pengaturan
+                                &rsaquo; Perangkat.
+                            </p>
+                        )}
+                    </div>
+
+                    {deviceId && status && (
+                        <div className="rounded-lg border p-4 space-y-3">
+                            {status.paired ? (
+                                <div className="flex items-center gap-2 text-sm">
+                                    <CheckCircle2 className="h-4 w-4 text-green-500" />
+                                    <span>Terhubung dengan layar pelanggan</span>
+                                </div>
+                            ) : (
+                                <p className="text-sm text-muted-foreground">
+                                    Belum ada layar pelanggan yang terhubung.
+                                </p>
+                            )}
+
+                            {pendingCode && remaining > 0 && (
+                                <div className="text-center space-y-1">
+                                    <p className="text-xs text-muted-foreground">Kode pairing</p>
+                                    <p className="font-mono text-4xl font-bold tracking-[0.3em]">
+                                        {pendingCode.code}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        Berlaku {Math.floor(remaining / 60)}:
+                                        {String(remaining % 60).padStart(2, '0')} lagi
+                                    </p>
+                                </div>
+                            )}
+
+                            <div className="flex gap-2">
+                                <Button
+                                    className="flex-1 gap-2"
+                                    variant={status.paired ? 'outline' : 'default'}
+                                    onClick={() => issueCode.mutate()}
+                                    disabled={issueCode.isPending}
+                                >
+                                    <RefreshCw className="h-4 w-4" />
+                                    {status.paired ? 'Ganti Layar' : 'Buat Kode'}
+                                </Button>
+                                {status.paired && (
+                                    <Button
+                                        variant="destructive"
+                                        className="gap-2"
+                                        onClick={() => unpair.mutate()}
+                                        disabled={unpair.isPending}
+                                    >
+                                        <Link2Off className="h-4 w-4" />
+                                        Lepas
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -20,3 +20,6 @@ export { CreditCheckoutModal, type CreditCheckoutData } from './credit-checkout-
 export { ShiftStartModal } from './shift-start-modal';
 export { ShiftEndModal } from './shift-end-modal';
 export { ShiftDurationIndicator } from './shift-duration-indicator';
+export { CustomerDisplayDialog } from './customer-display-dialog';
+export { KioskAssistToast } from './kiosk-assist-toast';
+export { WeighDialog } from './weigh-dialog';
@@ -0,0 +1,39 @@
+/**
+ * KioskAssistToast
+ *
+ * Listens for `kiosk:assist_requested` WebSocket events and tells the
+ * cashiers of the outlet that a self-checkout kiosk needs an attendant.
+ */
+
+import { useEffect } from 'react';
+import { useSocket } from '@/hooks/realtime';
+import { useAuthStore } from '@/stores/auth.store';
+import { toast } from '@/hooks/use-toast';
+import type { KioskAssistRequestedEvent } from '@/types/kiosk.types';
+
+export function KioskAssistToast() {
+    const { socket, isConnected, joinRoom } = useSocket();
+    const outletId = useAuthStore((s) => s.user?.outletId);
+
+    useEffect(() => {
+        if (!isConnected || !outletId) return;
+
+        joinRoom('outlet', { outletId });
+
+        const handler = (event: KioskAssistRequestedEvent) => {
+            toast({
+                title: `${event.deviceName} butuh petugas`,
+                description: event.reason,
+            });
+        };
+
+        const currentSocket = socket.current;
+        currentSocket?.on('kiosk:assist_requested', handler);
+        return () => {
+            currentSocket?.off('kiosk:assist_requested', handler);
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps -- socket ref intentionally omitted to prevent re-renders
+    }, [isConnected, outletId, joinRoom]);
+
+    return null;
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
     CreditCard,
     Banknote,
@@ -24,6 +24,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useCartStore } from '@/stores/cart.store';
+import { useCustomerDisplayStore } from '@/stores/customer-display.store';
 import { NumPad } from './numpad';
 import { formatCurrency } from '@/lib/format';
 import { cn } from '@/lib/utils';
@@ -61,12 +62,19 @@ export function PaymentPanel({ onComplete, onCancel, isProcessing = false, mode
     const [showCreditCheckout, setShowCreditCheckout] = useState(false);
 
     const [selectedMethod, setSelectedMethod] = useState<PaymentMethodOption>(paymentMethods[0]!);
+    const setDisplayPaymentMethod = useCustomerDisplayStore((s) => s.setPaymentMethod);
     const [amount, setAmount] = useState(total);
     const [reference, setReference] = useState('');
 
     const remaining = total - totalPayments;
     const isPaid = totalPayments >= total;
 
+    // Let the customer display follow the method, so QRIS brings up the QR
+    useEffect(() => {
+        setDisplayPaymentMethod(selectedMethod.id);
+        return () => setDisplayPaymentMethod(null);
+    }, [selectedMethod.id, setDisplayPaymentMethod]);
+
     const handlePay = () => {
         if (amount <= 0) return;
 
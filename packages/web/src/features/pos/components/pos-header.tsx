@@ -16,6 +16,7 @@ import {
     Keyboard,
     ShoppingCart,
     Receipt,
+    Monitor,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -58,6 +59,7 @@ interface PosHeaderProps {
     onCartClick: () => void;
     onRefreshProducts: () => void;
     onTodayTransactionsClick: () => void;
+    onCustomerDisplayClick?: () => void;
     onEndShift?: (shiftData: CurrentShiftData) => void;
     currentShift?: CurrentShiftData | null;
 }
@@ -78,6 +80,7 @@ export function PosHeader({
     onCartClick,
     onRefreshProducts,
     onTodayTransactionsClick,
+    onCustomerDisplayClick,
     onEndShift,
     currentShift,
 }: PosHeaderProps) {
@@ -263,6 +266,12 @@ export function PosHeader({
                             <Receipt className="h-4 w-4 mr-2" />
                             Transaksi Hari Ini
                         </DropdownMenuItem>
+                        {onCustomerDisplayClick && (
+                            <DropdownMenuItem onClick={onCustomerDisplayClick}>
+                                <Monitor className="h-4 w-4 mr-2" />
+                                Layar Pelanggan
+                            </DropdownMenuItem>
+                        )}
                         <DropdownMenuSeparator />
                         <DropdownMenuItem className="sm:hidden" onClick={onDiscountClick}>
                             <Tag className="h-4 w-4 mr-2" />
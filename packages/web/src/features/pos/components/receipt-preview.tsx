@@ -11,6 +11,7 @@ import {
 } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
 import { formatCurrency } from '@/lib/format';
+import { formatLineQuantity } from '@/lib/quantity-format';
 import { FeatureGate, FEATURES } from '@/components/shared/feature-gate';
 import type { ReceiptData, TransactionItem, Payment, PaymentMethod } from '@/types/pos.types';
 
@@ -182,7 +183,7 @@ function ReceiptItem({ item }: ReceiptItemProps) {
         <div>
             <div className="flex justify-between">
                 <span className="flex-1">
-                    {item.quantity}x {item.productName}
+                    {formatLineQuantity(item.quantity, item.unit)} {item.productName}
                     {item.variantName && ` (${item.variantName})`}
                 </span>
                 <span className="tabular-nums">{formatCurrency(item.subtotal)}</span>
@@ -255,7 +256,7 @@ export function ThermalReceipt({ data }: { data: ReceiptData }) {
                 {transaction.items.map((item) => (
                     <div key={item.id} className="mb-1">
                         <p>
-                            {item.quantity}x {item.productName}
+                            {formatLineQuantity(item.quantity, item.unit)} {item.productName}
                         </p>
                         <p className="text-right">{formatCurrency(item.subtotal)}</p>
                     </div>
@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { Scale, Usb, CheckCircle2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { hardwareService, ScaleService, type ScaleReading } from '@/services/hardware.service';
+import { kilogramsTo } from '@/lib/embedded-barcode';
+import { formatCurrency } from '@/lib/format';
+import { formatLineQuantity } from '@/lib/quantity-format';
+import { useCartStore } from '@/stores/cart.store';
+import type { POSProduct } from '@/types/pos.types';
+
+interface WeighDialogProps {
+    product: POSProduct | null;
+    onClose: () => void;
+}
+
+/** Puts a weighed item on the scale, or takes the weight typed in when there is no scale */
+export function WeighDialog({ product, onClose }: WeighDialogProps) {
+    const scale = hardwareService.scale;
+    const [connected, setConnected] = useState(() => scale.isConnected());
+    const [isConnecting, setIsConnecting] = useState(false);
+    const [reading, setReading] = useState<ScaleReading | null>(() => scale.getReading());
+    const [manualWeight, setManualWeight] = useState('');
+
+    const unit = product?.sellUnit ?? 'kg';
+
+    useEffect(() => {
+        if (!product) return;
+        setManualWeight('');
+        setReading(scale.getReading());
+        return scale.subscribe(setReading);
+    }, [product, scale]);
+
+    const handleConnect = async () => {
+        setIsConnecting(true);
+        setConnected(await scale.connect());
+        setIsConnecting(false);
+    };
+
+    const scaleQuantity =
+        reading?.stable && reading.weight > 0 ? kilogramsTo(reading.weight, unit) : null;
+    const manualQuantity = Math.round(Number(manualWeight.replace(',', '.')) * 1000) / 1000;
+    // A weight typed in takes over from the scale
+    const quantity = manualWeight ? (manualQuantity > 0 ? manualQuantity : null) : scaleQuantity;
+
+    const handleAdd = () => {
+        if (!product || !quantity) return;
+        useCartStore.getState().addItem({
+            productId: product.id,
+            name: product.name,
+            price: product.basePrice,
+            quantity,
+            unit,
+            modifiers: [],
+            imageUrl: product.imageUrl,
+        });
+        onClose();
+    };
+
+    return (
+        <Dialog open={!!product} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-sm">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Scale className="h-5 w-5" />
+                        Timbang {product?.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {product && `${formatCurrency(product.basePrice)} per ${unit}`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    {connected ? (
+                        <div className="rounded-lg border p-4 text-center">
+                            <p className="text-3xl font-bold tabular-nums">
+                                {reading
+                                    ? formatLineQuantity(
+                                          kilogramsTo(reading.weight, unit) ?? 0,
+                                          unit,
+                                      )
+                                    : '-'}
+                            </p>
+                            <p className="mt-1 flex items-center justify-center gap-1 text-xs text-muted-foreground">
+                                {reading?.stable ? (
+                                    <>
+                                        <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+                                        Stabil
+                                    </>
+                                ) : (
+                                    <>
+                                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                        Menunggu timbangan stabil
+                                    </>
+                                )}
+                                {reading &&
+                                    reading.tare > 0 &&
+                                    ` · tara ${formatLineQuantity(reading.tare, 'kg')}`}
+                            </p>
+                            <div className="mt-3 flex justify-center gap-2">
+                                <Button variant="outline" size="sm" onClick={() => scale.tare()}>
+                                    Tara
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => scale.clearTare()}>
+                                    Hapus Tara
+                                </Button>
+                            </div>
+                        </div>
+                    ) : (
+                        ScaleService.isSupported() && (
+                            <Button
+                                variant="outline"
+                                className="w-full"
+                                onClick={() => void handleConnect()}
+                                disabled={isConnecting}
+                            >
+                                <Usb className="mr-2 h-4 w-4" />
+                                {isConnecting ? 'Menghubungkan...' : 'Hubungkan Timbangan'}
+                            </Button>
+                        )
+                    )}
+
+                    <div className="space-y-2">
+                        <Label htmlFor="manual-weight">Berat manual ({unit})</Label>
+                        <Input
+                            id="manual-weight"
+                            inputMode="decimal"
+                            placeholder="0,000"
+                            value={manualWeight}
+                            onChange={(e) => setManualWeight(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                        />
+                    </div>
+
+                    {product && quantity && (
+                        <p className="text-right text-sm">
+                            {formatLineQuantity(quantity, unit)} ={' '}
+                            <span className="font-semibold">
+                                {formatCurrency(Math.round(product.basePrice * quantity))}
+                            </span>
+                        </p>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>
+                        Batal
+                    </Button>
+                    <Button onClick={handleAdd} disabled={!quantity}>
+                        Tambah
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
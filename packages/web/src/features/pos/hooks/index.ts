@@ -3,3 +3,5 @@ export type { ShortcutEntry } from './use-pos-shortcuts';
 export { usePosData } from './use-pos-data';
 export { usePosTransaction } from './use-pos-transaction';
 export { usePosModals } from './use-pos-modals';
+export { useCustomerDisplaySync } from './use-customer-display-sync';
+export { usePosScanner } from './use-pos-scanner';
@@ -0,0 +1,125 @@
+import { useEffect } from 'react';
+import { customerDisplayApi } from '@/api/endpoints/customer-display.api';
+import { useCartStore } from '@/stores/cart.store';
+import { useCustomerDisplayStore } from '@/stores/customer-display.store';
+import type { PushCustomerDisplayStateRequest } from '@/types/customer-display.types';
+
+// Wait for the cashier to stop scanning before sending the cart
+const PUSH_DEBOUNCE_MS = 300;
+
+type CartSnapshot = ReturnType<typeof useCartStore.getState>;
+
+/** Discounts the customer should see: lines sold below catalog price and the bill discount */
+function cartPromotions(cart: CartSnapshot): PushCustomerDisplayStateRequest['promotions'] {
+    const promotions = cart.items
+        .filter((item) => item.originalPrice !== undefined && item.originalPrice > item.price)
+        .map((item) => ({
+            label: `Harga spesial ${item.name}`,
+            amount: (item.originalPrice! - item.price) * item.quantity,
+        }));
+
+    if (cart.discountTotal > 0) {
+        promotions.push({
+            label: cart.discountPercent > 0 ? `Diskon ${cart.discountPercent}%` : 'Diskon',
+            amount: cart.discountTotal,
+        });
+    }
+    return promotions;
+}
+
+function buildState(): PushCustomerDisplayStateRequest {
+    const cart = useCartStore.getState();
+    const { paymentMethod, completedSale } = useCustomerDisplayStore.getState();
+
+    if (completedSale && cart.items.length === 0) {
+        return {
+            stage: 'thank_you',
+            total: completedSale.total,
+            changeDue: completedSale.changeDue,
+            customerName: completedSale.customerName,
+            transactionId: completedSale.transactionId,
+            receiptNumber: completedSale.receiptNumber,
+        };
+    }
+    if (cart.items.length === 0) {
+        return { stage: 'idle' };
+    }
+
+    return {
+        stage: paymentMethod ? 'payment' : 'cart',
+        items: cart.items.map((item) => {
+            const modifiersPrice = item.modifiers.reduce((sum, m) => sum + m.price, 0);
+            return {
+                name: item.name,
+                variantName: item.variantName,
+                modifiers: item.modifiers.map((m) => m.name),
+                quantity: item.quantity,
+                unitPrice: item.price + modifiersPrice,
+                originalPrice:
+                    item.originalPrice !== undefined && item.originalPrice > item.price
+                        ? item.originalPrice + modifiersPrice
+                        : undefined,
+                total: (item.price + modifiersPrice) * item.quantity,
+            };
+        }),
+        promotions: cartPromotions(cart),
+        subtotal: cart.subtotal,
+        discountTotal: cart.discountTotal,
+        serviceCharge: cart.serviceCharge,
+        taxAmount: cart.taxAmount,
+        total: cart.total,
+        paid: cart.totalPayments,
+        changeDue: cart.changeDue,
+        customerName: cart.customerName,
+        paymentMethod: paymentMethod ?? undefined,
+    };
+}
+
+/**
+ * Mirrors the cart, the payment in progress and the completed sale to the
+ * customer display paired with this terminal. Does nothing until the
+ * terminal is bound to a device.
+ */
+export function useCustomerDisplaySync() {
+    const deviceId = useCustomerDisplayStore((s) => s.deviceId);
+
+    useEffect(() => {
+        if (!deviceId) return;
+
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        let lastSent = '';
+
+        const push = () => {
+            const { completedSale, clearCompletedSale } = useCustomerDisplayStore.getState();
+            // The next item starts a new sale
+            if (completedSale && useCartStore.getState().items.length > 0) {
+                clearCompletedSale();
+                return;
+            }
+
+            const state = buildState();
+            const serialized = JSON.stringify(state);
+            if (serialized === lastSent) return;
+            lastSent = serialized;
+            // The display is a nice-to-have; never get in the way of the sale
+            customerDisplayApi.pushState(deviceId, state).catch(() => {
+                lastSent = '';
+            });
+        };
+
+        const schedule = () => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(push, PUSH_DEBOUNCE_MS);
+        };
+
+        const unsubscribeCart = useCartStore.subscribe(schedule);
+        const unsubscribeDisplay = useCustomerDisplayStore.subscribe(schedule);
+        schedule();
+
+        return () => {
+            if (timer) clearTimeout(timer);
+            unsubscribeCart();
+            unsubscribeDisplay();
+        };
+    }, [deviceId]);
+}
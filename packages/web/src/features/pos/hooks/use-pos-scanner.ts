@@ -0,0 +1,124 @@
+import { useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { barcodeApi } from '@/api/endpoints/barcode.api';
+import { scalesApi } from '@/api/endpoints/scales.api';
+import { hardwareService, type BarcodeResult } from '@/services/hardware.service';
+import { kilogramsTo } from '@/lib/embedded-barcode';
+import { toast } from '@/lib/toast-utils';
+import { useCartStore } from '@/stores/cart.store';
+import type { POSProduct } from '@/types/pos.types';
+import type { EmbeddedBarcode } from '@/types/scale.types';
+
+interface UsePosScannerProps {
+    products: POSProduct[];
+    /** Weighed item scanned without a scale label */
+    onWeighProduct: (product: POSProduct) => void;
+}
+
+/** Quantity a scale label stands for, in the sell unit of the product */
+function labelQuantity(product: POSProduct, embedded: EmbeddedBarcode): number | null {
+    if (embedded.layout.type === 'price') {
+        return product.basePrice > 0
+            ? Math.round((embedded.value / product.basePrice) * 1000) / 1000
+            : null;
+    }
+    if (!product.isWeighed) return null;
+    return kilogramsTo(embedded.value, product.sellUnit ?? 'kg');
+}
+
+/** The catalog entry of a scale label, matched by SKU on the padded or unpadded item code */
+function findLabelProduct(
+    products: POSProduct[],
+    embedded: EmbeddedBarcode,
+): POSProduct | undefined {
+    const codes = [embedded.itemCode, embedded.itemCode.replace(/^0+(?=\d)/, '')];
+    return products.find((p) => codes.includes(p.sku));
+}
+
+function addToCart(product: POSProduct, quantity: number) {
+    useCartStore.getState().addItem({
+        productId: product.id,
+        name: product.name,
+        price: product.basePrice,
+        quantity,
+        modifiers: [],
+        imageUrl: product.imageUrl,
+        ...(product.isWeighed && { unit: product.sellUnit ?? 'kg' }),
+    });
+}
+
+/**
+ * Rings up barcode scans: plain barcodes, weight and price labels printed by
+ * the scale, and weighed items that still have to go on the scale
+ */
+export function usePosScanner({ products, onWeighProduct }: UsePosScannerProps) {
+    const { data: layouts } = useQuery({
+        queryKey: ['scales', 'barcode-layouts'],
+        queryFn: scalesApi.getLayouts,
+        staleTime: 5 * 60 * 1000,
+    });
+
+    // Scans should always see the latest catalog without restarting the scanner
+    const latest = useRef({ products, onWeighProduct });
+    latest.current = { products, onWeighProduct };
+
+    useEffect(() => {
+        if (layouts) hardwareService.scanner.hid.setEmbeddedLayouts(layouts);
+    }, [layouts]);
+
+    useEffect(() => {
+        const handleScan = async ({ code, embedded }: BarcodeResult) => {
+            const { products: catalog, onWeighProduct: weigh } = latest.current;
+
+            if (embedded) {
+                const product = findLabelProduct(catalog, embedded);
+                const quantity = product ? labelQuantity(product, embedded) : null;
+                if (product && quantity) {
+                    addToCart(product, quantity);
+                    return;
+                }
+            } else {
+                const product = catalog.find((p) => p.sku === code);
+                if (
+                    product &&
+                    product.variants.length === 0 &&
+                    product.modifierGroups.length === 0
+                ) {
+                    if (product.isWeighed) weigh(product);
+                    else addToCart(product, 1);
+                    return;
+                }
+            }
+
+            try {
+                const result = await barcodeApi.lookup(code);
+                const product = catalog.find((p) => p.id === result.product.id);
+                if (!result.found || !product) throw new Error('not found');
+
+                if (result.embedded) {
+                    addToCart(product, result.embedded.quantity);
+                } else if (result.variant) {
+                    useCartStore.getState().addItem({
+                        productId: product.id,
+                        variantId: result.variant.id,
+                        name: product.name,
+                        variantName: result.variant.name,
+                        price: result.variant.price,
+                        quantity: 1,
+                        modifiers: [],
+                        imageUrl: product.imageUrl,
+                    });
+                } else if (product.isWeighed) {
+                    weigh(product);
+                } else {
+                    addToCart(product, 1);
+                }
+            } catch {
+                toast.error({ title: 'Produk tidak ditemukan', description: code });
+            }
+        };
+
+        hardwareService.scanner.hid.start((result) => void handleScan(result));
+        return () => hardwareService.scanner.hid.stop();
+    }, []);
+}
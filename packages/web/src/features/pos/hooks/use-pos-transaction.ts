@@ -6,6 +6,7 @@ import { apiClient } from '@/api/client';
 import { toast } from '@/lib/toast-utils';
 import { useCartStore } from '@/stores/cart.store';
 import { useAuthStore } from '@/stores/auth.store';
+import { useCustomerDisplayStore } from '@/stores/customer-display.store';
 import type { CreateTransactionResponse, Transaction, ReceiptData } from '@/types/pos.types';
 
 interface CreditCheckoutParams {
@@ -57,6 +58,13 @@ export function usePosTransaction({
 
             onSuccess?.(null, receiptData);
 
+            useCustomerDisplayStore.getState().showCompletedSale({
+                transactionId: response.transactionId,
+                receiptNumber: response.receiptNumber,
+                total: response.grandTotal,
+                changeDue: response.change,
+                customerName: useCartStore.getState().customerName,
+            });
             clearCart();
             clearPayments();
         },
@@ -131,6 +139,10 @@ export function usePosTransaction({
                     title: 'Transaksi Disimpan Offline',
                     description: 'Akan otomatis disinkronkan saat koneksi pulih.',
                 });
+                const { total, changeDue, customerName } = useCartStore.getState();
+                useCustomerDisplayStore
+                    .getState()
+                    .showCompletedSale({ total, changeDue, customerName });
                 clearCart();
                 clearPayments();
                 onSuccess?.(null, null);
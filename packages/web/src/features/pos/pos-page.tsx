@@ -12,9 +12,12 @@ import {
     ProductGrid, CartPanel, PaymentPanel, ReceiptPreview, HeldBillsPanel,
     ProductModal, CustomerSelector, TableSelector, DiscountModal, ShortcutsDialog,
     OrderReadyToast, PosHeader, OfflineBanner, MobileCartBar, TodayTransactionsSheet,
-    ShiftStartModal, ShiftEndModal,
+    ShiftStartModal, ShiftEndModal, CustomerDisplayDialog, KioskAssistToast, WeighDialog,
 } from './components';
-import { usePOSShortcuts, usePosData, usePosTransaction, usePosModals } from './hooks';
+import {
+    usePOSShortcuts, usePosData, usePosTransaction, usePosModals, useCustomerDisplaySync,
+    usePosScanner,
+} from './hooks';
 import { useShiftStatus } from '@/hooks/use-shift-status';
 import type { POSProduct, HeldBill } from '@/types/pos.types';
 
@@ -32,11 +35,15 @@ export function POSPage() {
     const [showShiftStart, setShowShiftStart] = useState(false);
     const [showShiftEnd, setShowShiftEnd] = useState(false);
     const [shiftCheckDone, setShiftCheckDone] = useState(false);
+    const [showCustomerDisplay, setShowCustomerDisplay] = useState(false);
+    const [weighProduct, setWeighProduct] = useState<POSProduct | null>(null);
     const searchInputRef = useRef<HTMLInputElement>(null);
     const { isOffline, pendingCount, syncStatus, manualSync, queueTransaction } = useOfflinePOS();
     const { products, categories, isLoading, refetchProducts } = usePosData({ outletId });
     const modals = usePosModals();
     const { currentShift, refetchShift, isLoading: isShiftLoading } = useShiftStatus();
+    useCustomerDisplaySync();
+    usePosScanner({ products, onWeighProduct: setWeighProduct });
 
     // Derive shift modal state from the hook instead of a duplicate API call
     useEffect(() => {
@@ -74,7 +81,9 @@ export function POSPage() {
     };
 
     const handleProductClick = (product: POSProduct) => {
-        if (product.variants.length > 0 || product.modifierGroups.length > 0) {
+        if (product.isWeighed) {
+            setWeighProduct(product);
+        } else if (product.variants.length > 0 || product.modifierGroups.length > 0) {
             modals.openProductModal(product);
         } else {
             useCartStore.getState().addItem({
@@ -116,6 +125,7 @@ export function POSPage() {
                 onHeldBillsClick={modals.openHeldBills} onShortcutHelpClick={modals.openShortcutHelp}
                 onCartClick={modals.openCartSheet} onRefreshProducts={() => void refetchProducts()}
                 onTodayTransactionsClick={modals.openTodayTransactions}
+                onCustomerDisplayClick={() => setShowCustomerDisplay(true)}
                 currentShift={currentShift ? {
                     id: currentShift.shiftId,
                     startedAt: currentShift.startedAt,
@@ -208,6 +218,8 @@ export function POSPage() {
             <ProductModal product={modals.selectedProduct} open={!!modals.selectedProduct}
                 onClose={modals.closeProductModal} />
 
+            <WeighDialog product={weighProduct} onClose={() => setWeighProduct(null)} />
+
             <CustomerSelector open={modals.showCustomerSelector}
                 onClose={modals.closeCustomerSelector}
                 onSelect={(customer) => {
@@ -237,6 +249,12 @@ export function POSPage() {
                 onPrintReceipt={() => {}}
             />
 
+            <CustomerDisplayDialog
+                open={showCustomerDisplay}
+                onClose={() => setShowCustomerDisplay(false)}
+                outletId={outletId}
+            />
+
             <ShiftStartModal
                 open={showShiftStart && shiftCheckDone}
                 onClose={() => setShowShiftStart(false)}
@@ -265,6 +283,7 @@ export function POSPage() {
             />
 
             <OrderReadyToast />
+            <KioskAssistToast />
         </div>
     );
 }
@@ -4,6 +4,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { z } from 'zod';
 import { productsApi } from '@/api/endpoints/products.api';
 import { categoriesApi } from '@/api/endpoints/categories.api';
+import { unitConversionApi } from '@/api/endpoints/unit-conversion.api';
 import { PageHeader } from '@/components/shared/page-header';
 import { ImageUpload } from '@/components/shared/image-upload';
 import { FeatureGate, FEATURES } from '@/components/shared/feature-gate';
@@ -68,6 +69,9 @@ export function ProductFormPage() {
   const [basePrice, setBasePrice] = useState('');
   const [costPrice, setCostPrice] = useState('');
   const [trackStock, setTrackStock] = useState(true);
+  const [minimumAge, setMinimumAge] = useState('');
+  const [isWeighed, setIsWeighed] = useState(false);
+  const [sellUnit, setSellUnit] = useState('kg');
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [variants, setVariants] = useState<CreateVariantRequest[]>([]);
 
@@ -216,6 +220,12 @@ export function ProductFormPage() {
     queryFn: categoriesApi.list,
   });
 
+  const { data: weightUnits = [] } = useQuery({
+    queryKey: ['weight-units'],
+    queryFn: unitConversionApi.weightUnits,
+    staleTime: Infinity,
+  });
+
   const { data: product } = useQuery({
     queryKey: ['products', id],
     queryFn: () => productsApi.get(id!),
@@ -231,6 +241,9 @@ export function ProductFormPage() {
       setBasePrice(String(product.basePrice));
       setCostPrice(String(product.costPrice));
       setTrackStock(product.trackStock);
+      setMinimumAge(product.minimumAge ? String(product.minimumAge) : '');
+      setIsWeighed(!!product.isWeighed);
+      if (product.isWeighed && product.sellUnit) setSellUnit(product.sellUnit);
       setImageUrl(product.imageUrl);
       setVariants(
         product.variants.map((v) => ({
@@ -367,6 +380,9 @@ export function ProductFormPage() {
       basePrice: Number(basePrice),
       costPrice: Number(costPrice),
       trackStock,
+      minimumAge: minimumAge ? Number(minimumAge) : null,
+      isWeighed,
+      ...(isWeighed && { sellUnit }),
       imageUrl: imageUrl ?? undefined,
       variants: variants.length > 0 ? variants : undefined,
     };
@@ -523,6 +539,49 @@ export function ProductFormPage() {
               </div>
             </FeatureGate>
 
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <Switch id="isWeighed" checked={isWeighed} onCheckedChange={setIsWeighed} />
+                <Label htmlFor="isWeighed">Dijual per berat</Label>
+              </div>
+              {isWeighed && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Harga jual per</span>
+                  <Select value={sellUnit} onValueChange={setSellUnit}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {weightUnits.map((u) => (
+                        <SelectItem key={u.unit} value={u.unit}>
+                          {u.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Jumlah diambil dari timbangan atau label timbangan, boleh pecahan
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="minimumAge">Usia minimum pembeli</Label>
+              <Input
+                id="minimumAge"
+                type="number"
+                min="1"
+                max="99"
+                value={minimumAge}
+                onChange={(e) => setMinimumAge(e.target.value)}
+                placeholder="Kosongkan jika tanpa batas usia"
+              />
+              <p className="text-xs text-muted-foreground">
+                Di kiosk bayar sendiri, petugas akan memeriksa identitas pembeli
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label>Gambar Produk</Label>
               <ImageUpload value={imageUrl} onChange={setImageUrl} />
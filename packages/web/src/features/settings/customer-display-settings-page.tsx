@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { settingsApi } from '@/api/endpoints/settings.api';
+import { customerDisplayApi } from '@/api/endpoints/customer-display.api';
+import { PageHeader } from '@/components/shared/page-header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useUIStore } from '@/stores/ui.store';
+import { Loader2, Save } from 'lucide-react';
+import type { CustomerDisplaySettings } from '@/types/customer-display.types';
+import type { AxiosError } from 'axios';
+import type { ApiErrorResponse } from '@/types/api.types';
+
+export function CustomerDisplaySettingsPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const selectedOutletId = useUIStore((s) => s.selectedOutletId);
+  const [outletId, setOutletId] = useState(selectedOutletId ?? '');
+
+  const [idleImages, setIdleImages] = useState('');
+  const [slideSeconds, setSlideSeconds] = useState(8);
+  const [thankYouSeconds, setThankYouSeconds] = useState(8);
+  const [welcomeMessage, setWelcomeMessage] = useState('');
+  const [qrisPayload, setQrisPayload] = useState('');
+
+  const { data: outlets } = useQuery({
+    queryKey: ['outlets'],
+    queryFn: settingsApi.getOutlets,
+  });
+
+  useEffect(() => {
+    if (!outletId && outlets?.[0]) setOutletId(outlets[0].id);
+  }, [outletId, outlets]);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['customer-display-settings', outletId],
+    queryFn: () => customerDisplayApi.getSettings(outletId),
+    enabled: !!outletId,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setIdleImages(settings.idleImages.join('\n'));
+      setSlideSeconds(settings.slideSeconds);
+      setThankYouSeconds(settings.thankYouSeconds);
+      setWelcomeMessage(settings.welcomeMessage ?? '');
+      setQrisPayload(settings.qrisPayload ?? '');
+    }
+  }, [settings]);
+
+  const updateMutation = useMutation({
+    mutationFn: (data: Partial<CustomerDisplaySettings>) =>
+      customerDisplayApi.updateSettings(outletId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customer-display-settings', outletId] });
+      toast({ title: 'Pengaturan layar pelanggan disimpan' });
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast({
+        variant: 'destructive',
+        title: 'Gagal menyimpan',
+        description: error.response?.data?.message || 'Terjadi kesalahan',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateMutation.mutate({
+      idleImages: idleImages
+        .split('\n')
+        .map((url) => url.trim())
+        .filter(Boolean),
+      slideSeconds,
+      thankYouSeconds,
+      welcomeMessage: welcomeMessage.trim() || null,
+      qrisPayload: qrisPayload.trim() || null,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Layar Pelanggan"
+        description="Promosi saat idle, durasi tampilan, dan QRIS untuk layar kedua di kasir"
+      >
+        <Select value={outletId} onValueChange={setOutletId}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Pilih outlet" />
+          </SelectTrigger>
+          <SelectContent>
+            {outlets?.map((outlet) => (
+              <SelectItem key={outlet.id} value={outlet.id}>
+                {outlet.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </PageHeader>
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Tampilan Idle</CardTitle>
+              <CardDescription>
+                Gambar promosi yang berganti saat tidak ada transaksi
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="idleImages">URL gambar (satu per baris, maks. 10)</Label>
+                <Textarea
+                  id="idleImages"
+                  rows={4}
+                  value={idleImages}
+                  onChange={(e) => setIdleImages(e.target.value)}
+                  placeholder="https://..."
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="welcomeMessage">Pesan sambutan</Label>
+                <Input
+                  id="welcomeMessage"
+                  maxLength={120}
+                  value={welcomeMessage}
+                  onChange={(e) => setWelcomeMessage(e.target.value)}
+                  placeholder="Selamat datang!"
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="slideSeconds">Durasi per gambar (detik)</Label>
+                  <Input
+                    id="slideSeconds"
+                    type="number"
+                    min={3}
+                    max={120}
+                    value={slideSeconds}
+                    onChange={(e) => setSlideSeconds(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="thankYouSeconds">Durasi layar terima kasih (detik)</Label>
+                  <Input
+                    id="thankYouSeconds"
+                    type="number"
+                    min={3}
+                    max={60}
+                    value={thankYouSeconds}
+                    onChange={(e) => setThankYouSeconds(Number(e.target.value))}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>QRIS</CardTitle>
+              <CardDescription>
+                Isi QRIS statis outlet. Saat pembayaran QRIS, layar menampilkan QR dengan nominal
+                tagihan.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Textarea
+                rows={3}
+                className="font-mono text-xs"
+                value={qrisPayload}
+                onChange={(e) => setQrisPayload(e.target.value)}
+                placeholder="000201010211..."
+              />
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!outletId || updateMutation.isPending}>
+              {updateMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Simpan
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
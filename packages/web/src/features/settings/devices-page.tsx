@@ -27,6 +27,7 @@ const DEVICE_TYPE_LABELS: Record<string, string> = {
   mobile: 'Mobile',
   desktop: 'Desktop',
   tablet: 'Tablet',
+  kiosk: 'Kiosk',
 };
 
 const DEVICE_TYPE_VARIANTS: Record<string, 'default' | 'secondary' | 'outline'> = {
@@ -35,6 +36,7 @@ const DEVICE_TYPE_VARIANTS: Record<string, 'default' | 'secondary' | 'outline'>
   mobile: 'outline',
   desktop: 'secondary',
   tablet: 'outline',
+  kiosk: 'default',
 };
 
 function resolveDeviceSyncStatus(
@@ -1,13 +1,19 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { featuresApi, type BusinessFeatureDto } from '@/api/endpoints/features.api';
+import {
+  featuresApi,
+  type BusinessFeatureDto,
+  type SubscriptionUsage,
+} from '@/api/endpoints/features.api';
 import { useFeatureStore } from '@/stores/feature.store';
 import { PageHeader } from '@/components/shared/page-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { formatDate } from '@/lib/format';
 import { AlertCircle } from 'lucide-react';
 
 const CATEGORY_LABELS: Record<string, string> = {
@@ -18,6 +24,62 @@ const CATEGORY_LABELS: Record<string, string> = {
   advanced: 'Lanjutan',
 };
 
+const USAGE_LABELS: Record<keyof SubscriptionUsage['usage'], string> = {
+  outlets: 'Outlet',
+  devices: 'Perangkat',
+  employees: 'Karyawan',
+  monthlyTransactions: 'Transaksi bulan ini',
+};
+
+const PLAN_LABELS: Record<string, string> = {
+  basic: 'Basic',
+  standard: 'Standard',
+  premium: 'Premium',
+  enterprise: 'Enterprise',
+};
+
+function SubscriptionCard({ subscription }: { subscription: SubscriptionUsage }) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CardTitle className="text-base">Paket {subscription.planLabel}</CardTitle>
+          {subscription.state === 'grace' && <Badge variant="secondary">Masa tenggang</Badge>}
+          {subscription.state === 'read_only' && <Badge variant="destructive">Hanya baca</Badge>}
+        </div>
+        <CardDescription>
+          {subscription.state === 'read_only'
+            ? 'Langganan telah berakhir. Data masih bisa dilihat, tetapi tidak bisa diubah sampai langganan diperpanjang.'
+            : subscription.state === 'grace'
+              ? `Langganan telah berakhir. Perpanjang sebelum ${formatDate(subscription.graceEndsAt)} agar tetap bisa mengubah data.`
+              : subscription.expiresAt
+                ? `Aktif hingga ${formatDate(subscription.expiresAt)}`
+                : 'Aktif'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2">
+        {(Object.keys(USAGE_LABELS) as (keyof SubscriptionUsage['usage'])[]).map((key) => {
+          const { used, limit } = subscription.usage[key];
+          return (
+            <div key={key} className="space-y-1.5">
+              <div className="flex justify-between text-sm">
+                <span>{USAGE_LABELS[key]}</span>
+                <span className="text-muted-foreground">
+                  {used.toLocaleString('id-ID')} / {limit === null ? 'Tanpa batas' : limit.toLocaleString('id-ID')}
+                </span>
+              </div>
+              <Progress
+                value={limit === null ? 0 : Math.min(100, (used / limit) * 100)}
+                className="h-2"
+              />
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
 function FeatureToggleCard({
   feature,
   onToggle,
@@ -32,6 +94,11 @@ function FeatureToggleCard({
       <div className="flex-1 space-y-1">
         <div className="flex items-center gap-2">
           <span className="font-medium text-sm">{feature.label}</span>
+          {feature.availableInPlan === false && feature.requiredPlan && (
+            <Badge variant="secondary" className="text-[10px]">
+              Paket {PLAN_LABELS[feature.requiredPlan] ?? feature.requiredPlan}
+            </Badge>
+          )}
           {feature.dependencies && feature.dependencies.length > 0 && (
             <Badge variant="outline" className="text-[10px]">
               Butuh: {feature.dependencies.join(', ')}
@@ -43,7 +110,7 @@ function FeatureToggleCard({
       <Switch
         checked={feature.isEnabled}
         onCheckedChange={(checked) => onToggle(feature.key, checked)}
-        disabled={isToggling}
+        disabled={isToggling || feature.availableInPlan === false}
       />
     </div>
   );
@@ -60,10 +127,21 @@ export function FeaturesPage() {
     queryFn: featuresApi.getFeaturesByCategory,
   });
 
+  const { data: subscription } = useQuery({
+    queryKey: ['business-subscription-usage'],
+    queryFn: featuresApi.getSubscriptionUsage,
+  });
+
   const toggleMutation = useMutation({
     mutationFn: ({ key, enabled }: { key: string; enabled: boolean }) =>
       featuresApi.toggleFeature(key, enabled),
     onSuccess: (result) => {
+      if (!result.success) {
+        toast({ variant: 'destructive', title: 'Gagal memperbarui fitur', description: result.message });
+        setTogglingKey(null);
+        return;
+      }
+
       queryClient.invalidateQueries({ queryKey: ['business-features-by-category'] });
       // Refresh enabled features for sidebar
       featuresApi.getEnabledFeatures().then(setEnabledFeatures);
@@ -128,6 +206,8 @@ export function FeaturesPage() {
         </CardContent>
       </Card>
 
+      {subscription && <SubscriptionCard subscription={subscription} />}
+
       {categories.map(([category, features]) => (
         <Card key={category}>
           <CardHeader>
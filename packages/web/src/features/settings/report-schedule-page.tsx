@@ -1,7 +1,13 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { settingsApi } from '@/api/endpoints/settings.api';
-import type { ReportSchedule, ReportType, ReportFrequency } from '@/types/settings.types';
+import type {
+  ReportSchedule,
+  ReportType,
+  ReportFrequency,
+  ReportFormat,
+  CreateReportScheduleRequest,
+} from '@/types/settings.types';
 import { PageHeader } from '@/components/shared/page-header';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -49,11 +55,17 @@ const FREQUENCY_CONFIG: Record<ReportFrequency, string> = {
   monthly: 'Bulanan',
 };
 
+const FORMAT_CONFIG: Record<ReportFormat, string> = {
+  pdf: 'PDF',
+  excel: 'Excel',
+};
+
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 interface ScheduleForm {
   reportType: ReportType;
   frequency: ReportFrequency;
+  format: ReportFormat;
   recipients: string;
   isActive: boolean;
 }
@@ -61,6 +73,7 @@ interface ScheduleForm {
 const EMPTY_FORM: ScheduleForm = {
   reportType: 'sales',
   frequency: 'weekly',
+  format: 'pdf',
   recipients: '',
   isActive: true,
 };
@@ -83,7 +96,7 @@ export function ReportSchedulePage() {
   });
 
   const createMutation = useMutation({
-    mutationFn: (data: { reportType: ReportType; frequency: ReportFrequency; recipients: string[]; isActive: boolean }) =>
+    mutationFn: (data: CreateReportScheduleRequest) =>
       settingsApi.createReportSchedule(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['report-schedules'] });
@@ -97,7 +110,7 @@ export function ReportSchedulePage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: { reportType: ReportType; frequency: ReportFrequency; recipients: string[]; isActive: boolean } }) =>
+    mutationFn: ({ id, data }: { id: string; data: CreateReportScheduleRequest }) =>
       settingsApi.updateReportSchedule(id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['report-schedules'] });
@@ -148,6 +161,7 @@ export function ReportSchedulePage() {
     setForm({
       reportType: schedule.reportType,
       frequency: schedule.frequency,
+      format: schedule.format ?? 'pdf',
       recipients: schedule.recipients.join(', '),
       isActive: schedule.isActive,
     });
@@ -174,6 +188,7 @@ export function ReportSchedulePage() {
     const payload = {
       reportType: form.reportType,
       frequency: form.frequency,
+      format: form.format,
       recipients,
       isActive: form.isActive,
     };
@@ -230,6 +245,9 @@ export function ReportSchedulePage() {
                       <Badge variant="secondary" className="ml-2 text-xs">
                         {FREQUENCY_CONFIG[schedule.frequency]}
                       </Badge>
+                      <Badge variant="outline" className="ml-1 text-xs">
+                        {FORMAT_CONFIG[schedule.format ?? 'pdf']}
+                      </Badge>
                     </div>
                   </div>
                   <Switch
@@ -244,6 +262,14 @@ export function ReportSchedulePage() {
                     <Mail className="h-3.5 w-3.5" />
                     <span className="truncate">{schedule.recipients.join(', ')}</span>
                   </div>
+                  {schedule.lastSentAt && (
+                    <div className="flex items-center gap-1.5">
+                      <CalendarClock className="h-3.5 w-3.5" />
+                      <span>
+                        Terakhir dikirim {new Date(schedule.lastSentAt).toLocaleString('id-ID')}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="mt-3 flex gap-2">
@@ -306,6 +332,21 @@ export function ReportSchedulePage() {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label>Format Lampiran</Label>
+              <Select
+                value={form.format}
+                onValueChange={(v) => setForm({ ...form, format: v as ReportFormat })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FORMAT_CONFIG).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label>Penerima Email</Label>
               <Input
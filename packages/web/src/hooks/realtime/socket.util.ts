@@ -77,6 +77,22 @@ export function releaseSharedSocket(): void {
   }
 }
 
+/**
+ * Open a dedicated, unauthenticated Socket.io connection.
+ * For public screens such as the customer display, which prove themselves
+ * with their own pairing token instead of a user session.
+ */
+export function createPublicSocket(): Socket {
+  return io(`${SOCKET_URL}${SOCKET_NAMESPACE}`, {
+    transports: ['websocket', 'polling'],
+    autoConnect: true,
+    reconnection: true,
+    reconnectionAttempts: Infinity,
+    reconnectionDelay: 1000,
+    reconnectionDelayMax: 10000,
+  });
+}
+
 /**
  * Get current connection state (for debugging).
  */
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { isValidEan13, kilogramsTo, parseEmbeddedBarcode } from '../embedded-barcode';
+import type { EmbeddedBarcodeLayout } from '@/types/scale.types';
+
+// The server's default layouts; the labels below are the ones its scale tests use
+const layouts: EmbeddedBarcodeLayout[] = [
+  { prefix: '20', type: 'weight', itemDigits: 5, valueDigits: 5, decimals: 3 },
+  { prefix: '21', type: 'price', itemDigits: 5, valueDigits: 5, decimals: 0 },
+];
+
+describe('isValidEan13', () => {
+  it('accepts a code with the right check digit', () => {
+    expect(isValidEan13('2000123012506')).toBe(true);
+    expect(isValidEan13('8991234567891')).toBe(true);
+  });
+
+  it('rejects a wrong check digit or length', () => {
+    expect(isValidEan13('2000123012507')).toBe(false);
+    expect(isValidEan13('200012301250')).toBe(false);
+  });
+});
+
+describe('parseEmbeddedBarcode', () => {
+  it('splits a weight label into item code and kilograms', () => {
+    expect(parseEmbeddedBarcode('2000123012506', layouts)).toMatchObject({
+      itemCode: '00123',
+      value: 1.25,
+      layout: { type: 'weight' },
+    });
+  });
+
+  it('reads the amount of a price label', () => {
+    expect(parseEmbeddedBarcode('2100123250004', layouts)).toMatchObject({
+      itemCode: '00123',
+      value: 25000,
+      layout: { type: 'price' },
+    });
+  });
+
+  it('ignores codes with a wrong check digit or another prefix', () => {
+    expect(parseEmbeddedBarcode('2000123012507', layouts)).toBeNull();
+    expect(parseEmbeddedBarcode('2900000000001', layouts)).toBeNull();
+    expect(parseEmbeddedBarcode('8991234567891', layouts)).toBeNull();
+  });
+
+  it('lets the longest prefix win', () => {
+    const withLonger: EmbeddedBarcodeLayout[] = [
+      ...layouts,
+      { prefix: '200', type: 'price', itemDigits: 4, valueDigits: 5, decimals: 0 },
+    ];
+
+    expect(parseEmbeddedBarcode('2000123012506', withLonger)).toMatchObject({
+      itemCode: '0123',
+      value: 1250,
+      layout: { prefix: '200' },
+    });
+  });
+});
+
+describe('kilogramsTo', () => {
+  it('converts kilograms into the sell unit', () => {
+    expect(kilogramsTo(1.25, 'kg')).toBe(1.25);
+    expect(kilogramsTo(1.25, 'ons')).toBe(12.5);
+    expect(kilogramsTo(1.25, ' G ')).toBe(1250);
+  });
+
+  it('returns null for a unit that is not a weight', () => {
+    expect(kilogramsTo(1.25, 'pcs')).toBeNull();
+  });
+});
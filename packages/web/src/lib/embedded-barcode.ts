@@ -0,0 +1,53 @@
+import type { EmbeddedBarcode, EmbeddedBarcodeLayout } from '@/types/scale.types';
+
+/**
+ * Price- and weight-embedded EAN-13 labels, read the same way as on the
+ * server so that a label scanned offline still rings up the right weight.
+ */
+
+/** Grams per weight unit a product can be sold in */
+const WEIGHT_UNIT_GRAMS: Record<string, number> = {
+  kg: 1000,
+  g: 1,
+  ons: 100,
+  lb: 453.59237,
+  oz: 28.349523125,
+};
+
+export function isValidEan13(code: string): boolean {
+  if (!/^\d{13}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const sum = digits
+    .slice(0, 12)
+    .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+}
+
+/** Item code and value of a scale label; null when the code is not one. The longest prefix wins. */
+export function parseEmbeddedBarcode(
+  code: string,
+  layouts: EmbeddedBarcodeLayout[],
+): EmbeddedBarcode | null {
+  if (!isValidEan13(code)) return null;
+
+  const layout = layouts
+    .filter((l) => code.startsWith(l.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (!layout) return null;
+
+  const itemStart = layout.prefix.length;
+  const valueStart = itemStart + layout.itemDigits;
+  const raw = Number(code.slice(valueStart, valueStart + layout.valueDigits));
+  return {
+    layout,
+    itemCode: code.slice(itemStart, valueStart),
+    value: raw / 10 ** layout.decimals,
+  };
+}
+
+/** Kilograms in the given sell unit, to three decimals; null for a unit that is not a weight */
+export function kilogramsTo(kilograms: number, unit: string): number | null {
+  const grams = WEIGHT_UNIT_GRAMS[unit.trim().toLowerCase()];
+  if (!grams) return null;
+  return Math.round(((kilograms * 1000) / grams) * 1000) / 1000;
+}
@@ -41,6 +41,7 @@ export const FEATURES = {
     PROMOTIONS: 'promotions',
     VOUCHERS: 'vouchers',
     CUSTOMER_SEGMENTS: 'customer_segments',
+    MARKETING_CAMPAIGNS: 'marketing_campaigns',
     ONLINE_STORE: 'online_store',
 
     // Advanced
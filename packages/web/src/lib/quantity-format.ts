@@ -7,3 +7,11 @@ export function formatQuantity(qty: number, allowDecimal: boolean): string {
     if (qty % 1 === 0) return String(qty);
     return qty.toFixed(3).replace(/0+$/, '');
 }
+
+/**
+ * Quantity of a sale line: "2x" for counted items, "1.25 kg" for weighed ones.
+ */
+export function formatLineQuantity(qty: number, unit?: string | null): string {
+    if (!unit) return `${qty}x`;
+    return `${formatQuantity(qty, true)} ${unit}`;
+}
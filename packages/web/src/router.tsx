@@ -5,7 +5,7 @@ import { AppLayout } from '@/components/layout/app-layout';
 import { RouteErrorPage } from './routes/route-error';
 import { LazyRoute } from './routes/shared';
 import { appRoutes } from './routes/app-routes';
-import { POSPage, KDSPage, RegisterPage } from './routes/lazy-imports';
+import { POSPage, KDSPage, RegisterPage, CustomerDisplayPage, KioskPage } from './routes/lazy-imports';
 
 // Public pages (eager loading for fast initial load)
 import { LoginPage } from '@/features/auth/login-page';
@@ -17,8 +17,9 @@ export const router = createBrowserRouter([
   { path: '/login', element: <LoginPage /> },
   { path: '/register', element: <LazyRoute><RegisterPage /></LazyRoute> },
   { path: '/order/:sessionCode', element: <CustomerSelfOrderPage /> },
+  { path: '/customer-display', element: <LazyRoute><CustomerDisplayPage /></LazyRoute> },
 
-  // POS & KDS (fullscreen, no sidebar)
+  // POS, KDS & kiosk (fullscreen, no sidebar)
   {
     path: '/pos',
     errorElement: <RouteErrorPage />,
@@ -29,6 +30,11 @@ export const router = createBrowserRouter([
     errorElement: <RouteErrorPage />,
     element: <AuthGuard><FeatureGuard path="/kds"><LazyRoute><KDSPage /></LazyRoute></FeatureGuard></AuthGuard>,
   },
+  {
+    path: '/kiosk',
+    errorElement: <RouteErrorPage />,
+    element: <AuthGuard><LazyRoute><KioskPage /></LazyRoute></AuthGuard>,
+  },
 
   // Backoffice (with sidebar layout)
   {
@@ -84,6 +84,7 @@ export const BusinessTypePage = lazy(() => import('@/features/settings/business-
 export const AppearanceSettingsPage = lazy(() => import('@/features/settings/appearance-settings-page').then(m => ({ default: m.AppearanceSettingsPage })));
 export const PaymentSettingsPage = lazy(() => import('@/features/settings/payment-settings-page').then(m => ({ default: m.PaymentSettingsPage })));
 export const PrinterSettingsPage = lazy(() => import('@/features/settings/printer-settings-page').then(m => ({ default: m.PrinterSettingsPage })));
+export const CustomerDisplaySettingsPage = lazy(() => import('@/features/settings/customer-display-settings-page').then(m => ({ default: m.CustomerDisplaySettingsPage })));
 export const ReportSchedulePage = lazy(() => import('@/features/settings/report-schedule-page').then(m => ({ default: m.ReportSchedulePage })));
 
 // ── Registration ─────────────────────────────────────────────────────────────
@@ -100,6 +101,8 @@ export const AuditPage = lazy(() => import('@/features/audit/audit-page').then(m
 export const IngredientsPage = lazy(() => import('@/features/ingredients/ingredients-page').then(m => ({ default: m.IngredientsPage })));
 export const OnlineStorePage = lazy(() => import('@/features/online-store/online-store-page').then(m => ({ default: m.OnlineStorePage })));
 export const SelfOrderPage = lazy(() => import('@/features/self-order/self-order-page').then(m => ({ default: m.SelfOrderPage })));
+export const CustomerDisplayPage = lazy(() => import('@/features/customer-display/customer-display-page').then(m => ({ default: m.CustomerDisplayPage })));
+export const KioskPage = lazy(() => import('@/features/kiosk/kiosk-page').then(m => ({ default: m.KioskPage })));
 export const AppointmentsPage = lazy(() => import('@/features/appointments/appointments-page').then(m => ({ default: m.AppointmentsPage })));
 export const WorkOrdersPage = lazy(() => import('@/features/work-orders/work-orders-page').then(m => ({ default: m.WorkOrdersPage })));
 export const ItemTrackingPage = lazy(() => import('@/features/item-tracking/item-tracking-page').then(m => ({ default: m.ItemTrackingPage })));
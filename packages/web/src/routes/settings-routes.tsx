@@ -5,7 +5,7 @@ import {
   BusinessSettingsPage, OutletsPage, DevicesPage, NotificationsPage,
   TaxSettingsPage, ReceiptTemplatePage, OperatingHoursPage,
   ModifierGroupsPage, FeaturesPage, BusinessTypePage, AppearanceSettingsPage,
-  PaymentSettingsPage, PrinterSettingsPage, ReportSchedulePage,
+  PaymentSettingsPage, PrinterSettingsPage, ReportSchedulePage, CustomerDisplaySettingsPage,
 } from './lazy-imports';
 
 export const settingsRoutes: RouteObject[] = [
@@ -22,5 +22,6 @@ export const settingsRoutes: RouteObject[] = [
   { path: 'appearance', element: <LazyRoute><AppearanceSettingsPage /></LazyRoute> },
   { path: 'payments', element: <LazyRoute><RoleGuard allowedRoles={['owner', 'super_admin']}><PaymentSettingsPage /></RoleGuard></LazyRoute> },
   { path: 'printers', element: <LazyRoute><PrinterSettingsPage /></LazyRoute> },
+  { path: 'customer-display', element: <LazyRoute><CustomerDisplaySettingsPage /></LazyRoute> },
   { path: 'report-schedule', element: <LazyRoute><RoleGuard allowedRoles={['owner', 'super_admin']}><ReportSchedulePage /></RoleGuard></LazyRoute> },
 ];
@@ -4,17 +4,24 @@
  * Manages all hardware integrations:
  * - Thermal Printer (ESC/POS)
  * - Barcode Scanner (USB HID or Camera)
+ * - Weighing Scale (Web Serial)
  * - Cash Drawer (via printer or direct)
  * - Customer Display (VFD/LCD)
  */
 
 import { printerService } from './printer.service';
+import { cashDrawersApi } from '@/api/endpoints/cash-drawers.api';
+import type { DrawerEventType } from '@/types/cash-management.types';
+import type { EmbeddedBarcode, EmbeddedBarcodeLayout } from '@/types/scale.types';
+import { parseEmbeddedBarcode } from '@/lib/embedded-barcode';
 
 // Barcode Scanner using HID
 export interface BarcodeResult {
     code: string;
     format: string;
     timestamp: Date;
+    /** Weight or price read off a scale label */
+    embedded?: EmbeddedBarcode;
 }
 
 type BarcodeScanCallback = (result: BarcodeResult) => void;
@@ -23,12 +30,21 @@ class BarcodeScanner {
     private buffer = '';
     private lastKeyTime = 0;
     private callback: BarcodeScanCallback | null = null;
+    private layouts: EmbeddedBarcodeLayout[] = [];
     private readonly SCAN_TIMEOUT = 50; // ms between keystrokes for a scan
 
     constructor() {
         this.handleKeydown = this.handleKeydown.bind(this);
     }
 
+    /**
+     * Scale label layouts of the business, so that scans of weight and
+     * price labels come with what the label says
+     */
+    setEmbeddedLayouts(layouts: EmbeddedBarcodeLayout[]): void {
+        this.layouts = layouts;
+    }
+
     /**
      * Start listening for barcode scans
      */
@@ -62,10 +78,12 @@ class BarcodeScanner {
             // End of barcode
             if (this.buffer.length >= 4) { // Minimum barcode length
                 event.preventDefault();
+                const embedded = parseEmbeddedBarcode(this.buffer, this.layouts) ?? undefined;
                 this.callback?.({
                     code: this.buffer,
-                    format: this.detectFormat(this.buffer),
+                    format: embedded ? `EAN-13 (${embedded.layout.type})` : this.detectFormat(this.buffer),
                     timestamp: new Date(),
+                    embedded,
                 });
             }
             this.buffer = '';
@@ -176,18 +194,35 @@ class CameraBarcodeScanner {
     }
 }
 
+// Why the drawer was opened, logged against its drawer session
+export interface DrawerOpenContext {
+    type: DrawerEventType;
+    reference?: string;
+    reason?: string;
+}
+
 // Cash Drawer Service
 class CashDrawerService {
     private isOpen = false;
+    private drawerId: string | null = null;
+
+    /**
+     * Bind the cash drawer this terminal drives, so that its openings are
+     * logged against the drawer session
+     */
+    bind(drawerId: string | null): void {
+        this.drawerId = drawerId;
+    }
 
     /**
      * Open cash drawer via printer
      */
-    async open(): Promise<boolean> {
+    async open(context: DrawerOpenContext): Promise<boolean> {
         try {
             const result = await printerService.openCashDrawer();
             if (result) {
                 this.isOpen = true;
+                this.logOpen(context);
                 // Auto-reset status after a delay
                 setTimeout(() => {
                     this.isOpen = false;
@@ -199,6 +234,14 @@ class CashDrawerService {
         }
     }
 
+    private logOpen(context: DrawerOpenContext): void {
+        if (!this.drawerId) return;
+        // The drawer is already open; a failed log must not surface as a failed open
+        cashDrawersApi
+            .logEvent(this.drawerId, { ...context, occurredAt: new Date().toISOString() })
+            .catch(() => undefined);
+    }
+
     /**
      * Get drawer status (simulated)
      */
@@ -207,6 +250,168 @@ class CashDrawerService {
     }
 }
 
+// Weighing scale reading, in kilograms
+export interface ScaleReading {
+    /** Net of the tare */
+    weight: number;
+    gross: number;
+    tare: number;
+    /** Settled for long enough to sell by */
+    stable: boolean;
+}
+
+type ScaleReadingCallback = (reading: ScaleReading) => void;
+
+const SCALE_UNIT_KG: Record<string, number> = { kg: 1, g: 0.001, lb: 0.45359237, oz: 0.028349523125 };
+
+// Weighing Scale over Web Serial (USB or RS-232 adapter) that streams its weight
+class ScaleService {
+    private port: SerialPort | null = null;
+    private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    private listeners = new Set<ScaleReadingCallback>();
+    private samples: number[] = [];
+    private tareWeight = 0;
+    private latest: ScaleReading | null = null;
+    private readonly STABLE_SAMPLES = 5; // readings in a row that have to agree
+    private readonly STABLE_TOLERANCE = 0.002; // kg
+
+    static isSupported(): boolean {
+        return 'serial' in navigator;
+    }
+
+    /**
+     * Ask for the scale's serial port and start reading
+     */
+    async connect(baudRate = 9600): Promise<boolean> {
+        try {
+            if (!ScaleService.isSupported()) {
+                console.warn('Web Serial API not supported');
+                return false;
+            }
+
+            this.port = await (navigator as Navigator & { serial: Serial }).serial.requestPort();
+            await this.port.open({ baudRate });
+            this.reader = this.port.readable?.getReader() ?? null;
+            void this.readLoop();
+            return true;
+        } catch (error) {
+            console.error('Failed to connect to scale:', error);
+            return false;
+        }
+    }
+
+    async disconnect(): Promise<void> {
+        try {
+            if (this.reader) {
+                await this.reader.cancel();
+                this.reader.releaseLock();
+                this.reader = null;
+            }
+            if (this.port) {
+                await this.port.close();
+                this.port = null;
+            }
+        } catch (error) {
+            console.error('Error disconnecting scale:', error);
+        }
+        this.samples = [];
+        this.latest = null;
+    }
+
+    isConnected(): boolean {
+        return this.port !== null && this.reader !== null;
+    }
+
+    /**
+     * Zero the scale on what is on it now, e.g. the empty container
+     */
+    tare(): void {
+        this.tareWeight = this.latest?.gross ?? 0;
+        this.samples = [];
+    }
+
+    clearTare(): void {
+        this.tareWeight = 0;
+        this.samples = [];
+    }
+
+    getReading(): ScaleReading | null {
+        return this.latest;
+    }
+
+    /**
+     * Listen to every reading; returns the unsubscribe
+     */
+    subscribe(callback: ScaleReadingCallback): () => void {
+        this.listeners.add(callback);
+        return () => this.listeners.delete(callback);
+    }
+
+    /**
+     * First stable weight above zero, or null when nothing settles in time
+     */
+    waitForStable(timeoutMs = 10000): Promise<ScaleReading | null> {
+        if (this.latest?.stable && this.latest.weight > 0) return Promise.resolve(this.latest);
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                unsubscribe();
+                resolve(null);
+            }, timeoutMs);
+            const unsubscribe = this.subscribe((reading) => {
+                if (!reading.stable || reading.weight <= 0) return;
+                clearTimeout(timer);
+                unsubscribe();
+                resolve(reading);
+            });
+        });
+    }
+
+    private async readLoop(): Promise<void> {
+        const decoder = new TextDecoder();
+        let pending = '';
+        try {
+            while (this.reader) {
+                const { value, done } = await this.reader.read();
+                if (done) break;
+                pending += decoder.decode(value, { stream: true });
+                const lines = pending.split(/[\r\n]+/);
+                pending = lines.pop() ?? '';
+                lines.forEach((line) => this.handleLine(line));
+            }
+        } catch (error) {
+            console.error('Scale read failed:', error);
+        }
+    }
+
+    /**
+     * Lines such as "ST,GS,+  1.250kg", "US,GS,+  0.980kg" or "  1250 g";
+     * ST/US is the scale's own stable flag when it sends one
+     */
+    private handleLine(line: string): void {
+        if (/\bOL\b/i.test(line)) return; // overload
+        const match = line.match(/([-+]?\s*\d+(?:[.,]\d+)?)\s*(kg|g|lb|oz)?\b/i);
+        if (!match) return;
+
+        const [, value = '', unit = 'kg'] = match;
+        const factor = SCALE_UNIT_KG[unit.toLowerCase()];
+        const gross = Number(value.replace(/\s/g, '').replace(',', '.')) * (factor ?? NaN);
+        if (!Number.isFinite(gross)) return;
+
+        this.samples = [...this.samples, gross].slice(-this.STABLE_SAMPLES);
+        const settled =
+            this.samples.length === this.STABLE_SAMPLES &&
+            Math.max(...this.samples) - Math.min(...this.samples) <= this.STABLE_TOLERANCE;
+        const reading: ScaleReading = {
+            weight: Math.round((gross - this.tareWeight) * 1000) / 1000,
+            gross,
+            tare: this.tareWeight,
+            stable: settled && !/\bUS\b/i.test(line),
+        };
+        this.latest = reading;
+        this.listeners.forEach((listener) => listener(reading));
+    }
+}
+
 // Hardware Status
 export interface HardwareStatus {
     printer: {
@@ -222,6 +427,10 @@ export interface HardwareStatus {
         connected: boolean;
         status: 'open' | 'closed' | 'unknown';
     };
+    scale: {
+        supported: boolean;
+        connected: boolean;
+    };
 }
 
 // Main Hardware Service
@@ -229,11 +438,13 @@ class HardwareService {
     private barcodeScanner: BarcodeScanner;
     private cameraScanner: CameraBarcodeScanner;
     private cashDrawer: CashDrawerService;
+    private weighingScale: ScaleService;
 
     constructor() {
         this.barcodeScanner = new BarcodeScanner();
         this.cameraScanner = new CameraBarcodeScanner();
         this.cashDrawer = new CashDrawerService();
+        this.weighingScale = new ScaleService();
     }
 
     // Printer
@@ -254,6 +465,11 @@ class HardwareService {
         return this.cashDrawer;
     }
 
+    // Weighing Scale
+    get scale() {
+        return this.weighingScale;
+    }
+
     /**
      * Get overall hardware status
      */
@@ -271,6 +487,10 @@ class HardwareService {
                 connected: printerService.getInstance().isConnected(),
                 status: this.cashDrawer.getStatus(),
             },
+            scale: {
+                supported: ScaleService.isSupported(),
+                connected: this.weighingScale.isConnected(),
+            },
         };
     }
 
@@ -289,7 +509,7 @@ class HardwareService {
 
         // Test cash drawer
         try {
-            results.cashDrawer = await this.cashDrawer.open();
+            results.cashDrawer = await this.cashDrawer.open({ type: 'test' });
         } catch {
             results.cashDrawer = false;
         }
@@ -302,7 +522,7 @@ class HardwareService {
 export const hardwareService = new HardwareService();
 
 // Re-export for convenience
-export { printerService, BarcodeScanner, CameraBarcodeScanner, CashDrawerService };
+export { printerService, BarcodeScanner, CameraBarcodeScanner, CashDrawerService, ScaleService };
 
 // Type declarations for BarcodeDetector (not in standard lib)
 declare global {
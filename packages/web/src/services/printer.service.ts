@@ -249,6 +249,14 @@ class EscPosPrinter {
         return this;
     }
 
+    /**
+     * Append a pre-built ESC/POS stream (e.g. rendered by the server)
+     */
+    raw(data: Uint8Array): this {
+        this.addToBuffer(data);
+        return this;
+    }
+
     /**
      * Build and send the print job
      */
@@ -419,6 +427,31 @@ export const printerService = {
         }
     },
 
+    /**
+     * Print a job rendered by the backend from a print template
+     * (base64-encoded ESC/POS bytes)
+     */
+    async printRendered(data: string, copies = 1): Promise<boolean> {
+        const printer = this.getInstance();
+
+        if (!printer.isConnected()) {
+            const connected = await printer.connect();
+            if (!connected) return false;
+        }
+
+        try {
+            const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+            for (let i = 0; i < copies; i++) {
+                printer.raw(bytes);
+            }
+            await printer.print();
+            return true;
+        } catch (error) {
+            console.error('Failed to print rendered job:', error);
+            return false;
+        }
+    },
+
     /**
      * Open cash drawer
      */
@@ -11,7 +11,7 @@ export const DEFAULT_SYNC_CONFIG: SyncEngineConfig = {
   syncInterval: 30000, // 30 seconds
   maxRetries: 3,
   conflictStrategy: 'server-wins',
-  apiBaseUrl: '/api',
+  apiBaseUrl: '/api/v1',
 };
 
 // Retry Configuration
@@ -252,37 +252,46 @@ class SyncEngine {
   }
 
   /**
-   * Pull changes from server
+   * Pull changes from server, page by page from the stored cursor
    */
   async pullChanges(entityType: EntityType, outletId?: string): Promise<void> {
     if (!this.db || !this.isOnline) return;
 
     const metadata = await this.db.get('metadata', entityType);
-    const since = metadata?.lastSyncAt || 0;
+    let cursor = metadata?.lastSyncCursor;
+    let count = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const page = await this.executorService.pullChangesFromServer(
+        entityType,
+        cursor,
+        outletId
+      );
 
-    const items = await this.executorService.pullChangesFromServer(
-      entityType,
-      since,
-      outletId
-    );
+      // Update local cache
+      const validStores = VALID_STORE_NAMES;
+      if (validStores.includes(entityType as typeof validStores[number])) {
+        await this.executorService.batchUpdateLocalCache(
+          entityType as 'products' | 'categories' | 'transactions' | 'customers',
+          page.items
+        );
+      }
 
-    // Update local cache
-    const validStores = VALID_STORE_NAMES;
-    if (validStores.includes(entityType as typeof validStores[number])) {
-      await this.executorService.batchUpdateLocalCache(
-        entityType as 'products' | 'categories' | 'transactions' | 'customers',
-        items
-      );
+      cursor = page.nextCursor ?? undefined;
+      count += page.items.length;
+      hasMore = page.hasMore;
+
+      // Update metadata after every page so an interrupted pull resumes
+      await this.db.put('metadata', {
+        entityType,
+        lastSyncAt: Date.now(),
+        lastSyncCursor: cursor,
+        syncInProgress: hasMore,
+      } as SyncMetadata);
     }
 
-    // Update metadata
-    await this.db.put('metadata', {
-      entityType,
-      lastSyncAt: Date.now(),
-      syncInProgress: false,
-    } as SyncMetadata);
-
-    this.emit(SYNC_EVENTS.PULLED, { entityType, count: items.length });
+    this.emit(SYNC_EVENTS.PULLED, { entityType, count });
   }
 
   /**
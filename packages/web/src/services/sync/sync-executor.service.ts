@@ -11,8 +11,12 @@ import {
   SyncQueueItem,
   CachedEntity,
   EntityType,
+  SyncRecord,
+  SyncPullResponse,
+  SyncPushResult,
 } from './types/sync.types';
-import { HTTP_STATUS, VALID_STORE_NAMES } from './constants/sync.constants';
+import { VALID_STORE_NAMES } from './constants/sync.constants';
+import { useAuthStore } from '@/stores/auth.store';
 
 export interface SyncExecutorConfig {
   apiBaseUrl: string;
@@ -26,117 +30,140 @@ export class SyncExecutorService {
 
   /**
    * Execute sync operation for a queue item
+   *
+   * The queue item id doubles as the idempotency key, so a push replayed
+   * after a dropped response is answered from the server log, not re-applied.
    */
   async executeSyncOperation(item: SyncQueueItem): Promise<void> {
-    const endpoint = `${this.config.apiBaseUrl}/${item.entityType}`;
+    const result = await this.pushOperation(item, false);
 
-    const options: RequestInit = {
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    };
-
-    switch (item.operation) {
-      case 'create':
-        options.method = 'POST';
-        options.body = JSON.stringify(item.data);
-        break;
-      case 'update':
-        options.method = 'PUT';
-        options.body = JSON.stringify(item.data);
-        break;
-      case 'delete':
-        options.method = 'DELETE';
-        break;
+    if (result.status === 'conflict') {
+      throw new ConflictError('Sync conflict detected', result.serverData);
     }
-
-    const url =
-      item.operation === 'create'
-        ? endpoint
-        : `${endpoint}/${item.entityId}`;
-
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      // Check for conflict (409)
-      if (response.status === HTTP_STATUS.CONFLICT) {
-        const serverData = await response.json();
-        throw new ConflictError('Sync conflict detected', serverData);
-      }
-
-      throw new Error(`Sync failed: ${response.statusText}`);
+    if (result.status === 'rejected') {
+      throw new Error(`Sync rejected: ${result.error?.message ?? 'unknown error'}`);
     }
 
-    // Update local cache with server response if available
-    if (response.status !== HTTP_STATUS.NO_CONTENT) {
-      try {
-        const serverData = await response.json();
-        await this.updateLocalCache(item.entityType, item.entityId, serverData);
-      } catch {
-        // Response might not have JSON body, ignore
-      }
-    }
+    await this.applyPushResult(item, result);
   }
 
   /**
    * Force push local version to server (for client-wins strategy)
    */
   async forcePushToServer(item: SyncQueueItem): Promise<void> {
-    const endpoint = `${this.config.apiBaseUrl}/${item.entityType}/${item.entityId}`;
-
-    const response = await fetch(endpoint, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Force-Update': 'true',
-      },
-      body: JSON.stringify(item.data),
-    });
+    const result = await this.pushOperation(item, true);
 
-    if (!response.ok) {
-      throw new Error(`Force push failed: ${response.statusText}`);
+    if (result.status === 'rejected' || result.status === 'conflict') {
+      throw new Error(`Force push failed: ${result.error?.message ?? result.status}`);
     }
+
+    await this.applyPushResult(item, result);
   }
 
   /**
-   * Pull changes from server
+   * Pull one page of changes from server
    */
   async pullChangesFromServer(
     entityType: EntityType,
-    since: number,
+    cursor?: string,
     outletId?: string
-  ): Promise<unknown[]> {
+  ): Promise<SyncPullResponse> {
     const params = new URLSearchParams();
-    params.set('since', new Date(since).toISOString());
+    params.set('entityType', entityType);
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
     if (outletId) {
       params.set('outletId', outletId);
     }
 
-    const response = await fetch(
-      `${this.config.apiBaseUrl}/${entityType}?${params}`,
-      {
-        headers: { 'Content-Type': 'application/json' },
-      }
-    );
+    const response = await fetch(`${this.config.apiBaseUrl}/sync/pull?${params}`, {
+      headers: this.headers(),
+    });
 
     if (!response.ok) {
-      throw new Error(`Failed to pull ${entityType}: ${response.statusText}`);
+      throw new Error(`Failed to pull ${entityType}: ${response.status} ${response.statusText}`);
     }
 
     return response.json();
   }
 
+  private async pushOperation(item: SyncQueueItem, force: boolean): Promise<SyncPushResult> {
+    const updatedAt = (item.data as { updatedAt?: string } | null)?.updatedAt;
+    const baseVersion = updatedAt ? Date.parse(updatedAt) : NaN;
+
+    const response = await fetch(`${this.config.apiBaseUrl}/sync/push`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        operations: [
+          {
+            idempotencyKey: item.id,
+            entityType: item.entityType,
+            operation: item.operation,
+            entityId: item.entityId,
+            data: item.data ?? undefined,
+            baseVersion: Number.isNaN(baseVersion) ? undefined : baseVersion,
+            force: force || undefined,
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Sync failed: ${response.status} ${response.statusText}`);
+    }
+
+    const { results } = (await response.json()) as { results: SyncPushResult[] };
+    const [result] = results;
+    if (!result) {
+      throw new Error('Sync failed: empty push response');
+    }
+    return result;
+  }
+
+  /**
+   * Store the server copy; a record created offline moves from its local id
+   * to the server id
+   */
+  private async applyPushResult(item: SyncQueueItem, result: SyncPushResult): Promise<void> {
+    if (!result.record || !result.entityId) return;
+
+    await this.updateLocalCache(
+      item.entityType,
+      result.entityId,
+      result.record.data,
+      result.record.version
+    );
+
+    if (result.entityId !== item.entityId && this.isCacheStore(item.entityType)) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await this.db.delete(item.entityType as any, item.entityId);
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${useAuthStore.getState().token ?? ''}`,
+    };
+  }
+
+  private isCacheStore(entityType: EntityType): boolean {
+    return VALID_STORE_NAMES.includes(entityType as (typeof VALID_STORE_NAMES)[number]);
+  }
+
   /**
    * Update local cache with server data
    */
   async updateLocalCache(
     entityType: EntityType,
     entityId: string,
-    data: unknown
+    data: unknown,
+    version = Date.now()
   ): Promise<void> {
     // Only update cache for valid entity stores
-    const validStores = VALID_STORE_NAMES;
-    if (!validStores.includes(entityType as typeof validStores[number])) {
+    if (!this.isCacheStore(entityType)) {
       return;
     }
 
@@ -146,7 +173,7 @@ export class SyncExecutorService {
       syncedAt: Date.now(),
       isDirty: false,
       isDeleted: false,
-      version: Date.now(),
+      version,
     };
 
     // Put operation with type assertion for dynamic entity type
@@ -159,19 +186,18 @@ export class SyncExecutorService {
    */
   async batchUpdateLocalCache(
     entityType: 'products' | 'categories' | 'transactions' | 'customers',
-    items: unknown[]
+    items: SyncRecord[]
   ): Promise<void> {
     const tx = this.db.transaction(entityType, 'readwrite');
 
     for (const item of items) {
-      const itemWithId = item as { id: string };
       const cached: CachedEntity<unknown> = {
-        id: itemWithId.id,
-        data: item,
+        id: item.id,
+        data: item.data,
         syncedAt: Date.now(),
         isDirty: false,
-        isDeleted: false,
-        version: Date.now(),
+        isDeleted: item.deleted,
+        version: item.version,
       };
       // Put operation with type assertion for dynamic entity type
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -149,6 +149,35 @@ export interface TiloPOSDB extends DBSchema {
   };
 }
 
+// Server Sync Protocol (/sync/pull, /sync/push)
+export interface SyncRecord {
+  id: string;
+  version: number; // server updatedAt (ms)
+  deleted: boolean;
+  data: Record<string, unknown>;
+}
+
+export interface SyncPullResponse {
+  entityType: EntityType;
+  items: SyncRecord[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  serverTime: string;
+}
+
+export interface SyncPushResult {
+  idempotencyKey: string;
+  status: 'applied' | 'duplicate' | 'conflict' | 'rejected';
+  clientEntityId: string | null;
+  entityId: string | null;
+  record?: SyncRecord;
+  receiptNumber?: string;
+  clientReceiptNumber?: string | null;
+  serverVersion?: number;
+  serverData?: Record<string, unknown>;
+  error?: { code: string; message: string };
+}
+
 // Sync Engine Configuration
 export interface SyncEngineConfig {
   dbName: string;
@@ -122,6 +122,7 @@ export const useCartStore = create<CartState>()(
                             variantName: item.variantName,
                             price: item.price,
                             quantity: item.quantity,
+                            unit: item.unit,
                             modifiers: item.modifiers,
                             notes: item.notes,
                             imageUrl: item.imageUrl,
@@ -0,0 +1,44 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { PaymentMethod } from '@/types/pos.types';
+
+export interface CompletedSale {
+  transactionId?: string;
+  receiptNumber?: string;
+  total: number;
+  changeDue: number;
+  customerName?: string;
+}
+
+interface CustomerDisplayState {
+  /** Device this terminal runs as; its paired display mirrors the cart */
+  deviceId: string | null;
+  /** Method picked in the payment panel while it is open */
+  paymentMethod: PaymentMethod | null;
+  /** Sale just rung up, shown as the thank-you screen until the next item */
+  completedSale: CompletedSale | null;
+
+  setDeviceId: (deviceId: string | null) => void;
+  setPaymentMethod: (method: PaymentMethod | null) => void;
+  showCompletedSale: (sale: CompletedSale) => void;
+  clearCompletedSale: () => void;
+}
+
+export const useCustomerDisplayStore = create<CustomerDisplayState>()(
+  persist(
+    (set) => ({
+      deviceId: null,
+      paymentMethod: null,
+      completedSale: null,
+
+      setDeviceId: (deviceId) => set({ deviceId }),
+      setPaymentMethod: (paymentMethod) => set({ paymentMethod }),
+      showCompletedSale: (completedSale) => set({ completedSale, paymentMethod: null }),
+      clearCompletedSale: () => set({ completedSale: null }),
+    }),
+    {
+      name: 'tilo-pos-customer-display',
+      partialize: (state) => ({ deviceId: state.deviceId }),
+    },
+  ),
+);
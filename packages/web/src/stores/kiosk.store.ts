@@ -0,0 +1,18 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface KioskState {
+  /** Kiosk device this browser runs as, picked once by a manager */
+  deviceId: string | null;
+  setDeviceId: (deviceId: string | null) => void;
+}
+
+export const useKioskStore = create<KioskState>()(
+  persist(
+    (set) => ({
+      deviceId: null,
+      setDeviceId: (deviceId) => set({ deviceId }),
+    }),
+    { name: 'tilo-kiosk' },
+  ),
+);
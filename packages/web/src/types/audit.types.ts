@@ -0,0 +1,85 @@
+export type AuditChainIssueType =
+  | 'missing_entries'
+  | 'link_broken'
+  | 'hash_mismatch'
+  | 'head_mismatch'
+  | 'checkpoint_mismatch'
+  | 'checkpoint_signature'
+  | 'unchained_entries';
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  sequence: number | null;
+  entryId: string | null;
+  description: string;
+}
+
+export interface AuditVerificationResult {
+  valid: boolean;
+  checkedEntries: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  headSequence: number;
+  archivedThrough: number | null;
+  checkpointsChecked: number;
+  /** False when the server has no signing key to check checkpoints with */
+  signaturesVerified: boolean;
+  issueCount: number;
+  /** The first 100 issues; issueCount has the total */
+  issues: AuditChainIssue[];
+  verifiedAt: string;
+}
+
+export interface AuditCheckpoint {
+  id: string;
+  sequence: number;
+  hash: string;
+  signature: string;
+  createdAt: string;
+}
+
+export interface AuditRetentionPolicy {
+  businessId: string;
+  /** Null until a policy is set */
+  retentionDays: number | null;
+  isActive: boolean;
+  lastRunAt: string | null;
+}
+
+export interface UpdateAuditRetentionRequest {
+  /** 90 to 3650 days */
+  retentionDays: number;
+  isActive?: boolean;
+}
+
+export interface AuditArchive {
+  id: string;
+  fromSequence: number;
+  toSequence: number;
+  entryCount: number;
+  firstEntryAt: string;
+  lastEntryAt: string;
+  lastHash: string;
+  filePath: string;
+  fileHash: string;
+  fileUrl: string;
+  createdAt: string;
+}
+
+export interface AuditExportParams {
+  startDate: string;
+  endDate: string;
+  format: 'csv' | 'json';
+  actionTypes?: string[];
+  employeeId?: string;
+  entityType?: string;
+  entityId?: string;
+}
+
+export interface AuditExportResult {
+  format: 'csv' | 'json';
+  recordCount: number;
+  /** CSV text or a JSON array string */
+  data: string;
+  generatedAt: string;
+}
@@ -0,0 +1,253 @@
+export interface DenominationCount {
+  value: number;
+  count: number;
+}
+
+export interface CashSettings {
+  blindClose: boolean;
+  overShortTolerance: number;
+}
+
+export type CashMovementType = 'drop' | 'pickup';
+
+export interface RecordCashMovementRequest {
+  shiftId: string;
+  type: CashMovementType;
+  amount?: number;
+  denominations?: DenominationCount[];
+  reason: string;
+  notes?: string;
+  witnessId: string;
+  witnessPin: string;
+}
+
+export interface ShiftCashMovement {
+  id: string;
+  type: CashMovementType;
+  amount: number;
+  denominations: DenominationCount[] | null;
+  reason: string;
+  notes: string | null;
+  performedBy: { id: string; name: string };
+  witnessedBy: { id: string; name: string };
+  createdAt: string;
+}
+
+export interface OverShortEntry {
+  shiftId: string;
+  employeeId: string;
+  employeeName: string;
+  outletId: string;
+  outletName: string;
+  endedAt: string;
+  expectedCash: number | null;
+  closingCash: number | null;
+  difference: number;
+  result: 'balanced' | 'over' | 'short';
+  blindClose: boolean;
+  runningNet: number;
+}
+
+export interface OverShortEmployeeTotal {
+  employeeId: string;
+  employeeName: string;
+  shifts: number;
+  overCount: number;
+  shortCount: number;
+  totalOver: number;
+  totalShort: number;
+  net: number;
+}
+
+export interface OverShortLedger {
+  from: string;
+  to: string;
+  employees: OverShortEmployeeTotal[];
+  entries: OverShortEntry[];
+}
+
+export interface OverShortParams {
+  from: string;
+  to: string;
+  outletId?: string;
+  employeeId?: string;
+}
+
+export interface DepositableShift {
+  shiftId: string;
+  employeeId: string;
+  employeeName: string;
+  startedAt: string;
+  endedAt: string;
+  cashToDeposit: number;
+}
+
+export type BankDepositStatus = 'submitted' | 'verified';
+
+export interface BankDeposit {
+  id: string;
+  outletId: string;
+  slipNumber: string;
+  bankName: string;
+  accountNumber: string | null;
+  depositedAt: string;
+  amount: number;
+  expectedAmount: number;
+  difference: number;
+  status: BankDepositStatus;
+  notes: string | null;
+  verifiedAt: string | null;
+  createdAt: string;
+}
+
+export interface BankDepositDetail extends BankDeposit {
+  preparedBy: { id: string; name: string };
+  verifiedBy: { id: string; name: string } | null;
+  shifts: DepositableShift[];
+}
+
+export interface CreateBankDepositRequest {
+  outletId: string;
+  shiftIds: string[];
+  slipNumber: string;
+  bankName: string;
+  accountNumber?: string;
+  depositedAt: string;
+  amount: number;
+  notes?: string;
+}
+
+export interface BankDepositParams {
+  outletId?: string;
+  status?: BankDepositStatus;
+  from?: string;
+  to?: string;
+}
+
+// ==================== Cash drawers ====================
+
+export type DrawerEventType =
+  | 'sale'
+  | 'refund'
+  | 'no_sale'
+  | 'cash_in'
+  | 'cash_out'
+  | 'drop'
+  | 'pickup'
+  | 'count'
+  | 'test';
+
+export interface CashDrawer {
+  id: string;
+  outletId: string;
+  deviceId: string;
+  deviceName: string;
+  name: string;
+  isActive: boolean;
+  lastZNumber: number;
+  openSession: { id: string; openedAt: string } | null;
+}
+
+export interface DrawerSessionShift {
+  id: string;
+  employeeId: string;
+  startedAt: string;
+  sharedDrawer: boolean;
+  employee: { name: string };
+}
+
+export interface DrawerSession {
+  id: string;
+  drawerId: string;
+  status: 'open' | 'closed';
+  openingCash: number;
+  openedAt: string;
+  shifts: DrawerSessionShift[];
+}
+
+export interface DrawerSessionSummary {
+  id: string;
+  status: 'open' | 'closed';
+  zNumber: number | null;
+  openingCash: number;
+  closingCash: number | null;
+  expectedCash: number | null;
+  cashDifference: number | null;
+  openedAt: string;
+  closedAt: string | null;
+}
+
+export interface DrawerHandOffRequest {
+  toEmployeeId: string;
+  toEmployeePin: string;
+  countedCash?: number;
+  count?: DenominationCount[];
+}
+
+export interface DrawerHandOffResult {
+  endedShift: {
+    shiftId: string;
+    expectedCash: number | null;
+    actualCash: number;
+    difference: number | null;
+    blindClose: boolean;
+    endedAt: string;
+  };
+  startedShift: {
+    shiftId: string;
+    employeeId: string;
+    employeeName: string;
+    openingCash: number;
+    startedAt: string;
+  };
+}
+
+export interface LogDrawerEventRequest {
+  type: DrawerEventType;
+  reference?: string;
+  reason?: string;
+  occurredAt?: string;
+}
+
+export interface DrawerOpens {
+  total: number;
+  byType: Partial<Record<DrawerEventType, number>>;
+}
+
+export interface DrawerReportTotals {
+  openingCash: number;
+  cashSales: number;
+  cashRefunds: number;
+  cashIn: number;
+  cashOut: number;
+  removed: number;
+  expectedCash: number | null;
+  closingCash: number | null;
+  difference: number | null;
+  payments: { method: string; amount: number; count: number }[];
+  transactions: { sales: number; refunds: number; grossSales: number };
+  drawerOpens: DrawerOpens;
+}
+
+export interface CashierReport extends DrawerReportTotals {
+  type: 'X' | 'Z';
+  shiftId: string;
+  employeeId: string;
+  employeeName: string;
+  startedAt: string;
+  endedAt: string | null;
+  sharedDrawer: boolean;
+}
+
+export interface DrawerSessionReport extends DrawerReportTotals {
+  type: 'X' | 'Z';
+  zNumber: number | null;
+  drawer: { id: string; name: string; deviceName: string };
+  sessionId: string;
+  status: 'open' | 'closed';
+  openedAt: string;
+  closedAt: string | null;
+  openedBy: { id: string; name: string };
+  closedBy: { id: string; name: string } | null;
+  cashiers: CashierReport[];
+}
@@ -0,0 +1,94 @@
+export type CustomerDisplayStage = 'idle' | 'cart' | 'payment' | 'thank_you';
+
+export interface CustomerDisplaySettings {
+  idleImages: string[];
+  slideSeconds: number;
+  thankYouSeconds: number;
+  welcomeMessage: string | null;
+  qrisPayload: string | null;
+}
+
+/** Settings as the display receives them; the QRIS payload stays on the server */
+export interface CustomerDisplayScreenSettings {
+  idleImages: string[];
+  slideSeconds: number;
+  thankYouSeconds: number;
+  welcomeMessage: string | null;
+  qrisEnabled: boolean;
+}
+
+export interface CustomerDisplayLine {
+  name: string;
+  variantName?: string;
+  modifiers?: string[];
+  quantity: number;
+  unitPrice: number;
+  originalPrice?: number;
+  total: number;
+}
+
+export interface CustomerDisplayPromotion {
+  label: string;
+  amount: number;
+}
+
+export interface PushCustomerDisplayStateRequest {
+  stage: CustomerDisplayStage;
+  items?: CustomerDisplayLine[];
+  promotions?: CustomerDisplayPromotion[];
+  subtotal?: number;
+  discountTotal?: number;
+  serviceCharge?: number;
+  taxAmount?: number;
+  total?: number;
+  paid?: number;
+  changeDue?: number;
+  customerName?: string;
+  paymentMethod?: string;
+  paymentAmount?: number;
+  transactionId?: string;
+  receiptNumber?: string;
+}
+
+export interface CustomerDisplayState {
+  stage: CustomerDisplayStage;
+  items: CustomerDisplayLine[];
+  promotions: CustomerDisplayPromotion[];
+  subtotal: number;
+  discountTotal: number;
+  serviceCharge: number;
+  taxAmount: number;
+  total: number;
+  paid: number;
+  changeDue: number;
+  customerName: string | null;
+  payment: { method: string; amount: number; qrisPayload: string | null } | null;
+  transactionId: string | null;
+  receiptNumber: string | null;
+  loyalty: { pointsEarned: number; balance: number } | null;
+  updatedAt: string;
+}
+
+/** What a display gets when it pairs or rejoins its terminal */
+export interface CustomerDisplaySession {
+  deviceId: string;
+  deviceName: string;
+  settings: CustomerDisplayScreenSettings;
+  state: CustomerDisplayState;
+  /** Only sent when pairing; kept to rejoin after a reload */
+  token?: string;
+}
+
+export interface CustomerDisplayStatus {
+  deviceId: string;
+  paired: boolean;
+  pairedAt: string | null;
+  lastSeenAt: string | null;
+  pendingCode: { code: string; expiresAt: string } | null;
+}
+
+export interface CustomerDisplayPairingCode {
+  deviceId: string;
+  code: string;
+  expiresAt: string;
+}
@@ -6,6 +6,9 @@ export interface Customer {
   address: string | null;
   dateOfBirth: string | null;
   notes: string | null;
+  npwp?: string | null;
+  npwpName?: string | null;
+  npwpAddress?: string | null;
   loyaltyPoints: number;
   totalSpent: number;
   visitCount: number;
@@ -22,6 +25,9 @@ export interface CreateCustomerRequest {
   address?: string;
   dateOfBirth?: string;
   notes?: string;
+  npwp?: string;
+  npwpName?: string;
+  npwpAddress?: string;
 }
 
 export interface UpdateCustomerRequest extends Partial<CreateCustomerRequest> {
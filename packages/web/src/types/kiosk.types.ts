@@ -0,0 +1,131 @@
+export type KioskPaymentMethod = 'qris' | 'card';
+
+export interface KioskModifier {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface KioskModifierGroup {
+  id: string;
+  name: string;
+  selectionType: 'single' | 'multiple';
+  minSelection: number;
+  maxSelection: number | null;
+  isRequired: boolean;
+  modifiers: KioskModifier[];
+}
+
+export interface KioskProduct {
+  id: string;
+  categoryId: string | null;
+  name: string;
+  description: string | null;
+  imageUrl: string | null;
+  price: number;
+  variants: { id: string; name: string; price: number }[];
+  modifierGroups: KioskModifierGroup[];
+  /** Why an attendant has to come over for this product; empty when nobody has to */
+  assistReasons: string[];
+  /** Sold by weight in sellUnit */
+  isWeighed: boolean;
+  sellUnit: string | null;
+}
+
+export interface KioskCatalog {
+  categories: { id: string; name: string; imageUrl: string | null }[];
+  products: KioskProduct[];
+}
+
+export interface KioskScanResult {
+  product: KioskProduct;
+  variantId: string | null;
+  /** Set when a scale label was scanned */
+  label?: { code: string; quantity: number; amount: number };
+}
+
+export interface KioskMember {
+  id: string;
+  firstName: string;
+  loyaltyPoints: number;
+  loyaltyTier: string;
+}
+
+export interface KioskSession {
+  id: string;
+  outletId: string;
+  startedAt: string;
+}
+
+export interface KioskCartItem {
+  productId: string;
+  variantId?: string;
+  modifierIds?: string[];
+  quantity: number;
+  /** Scale label the weight or price was read from */
+  label?: string;
+}
+
+export interface KioskCartLine {
+  productId: string;
+  variantId: string | null;
+  modifierIds: string[];
+  name: string;
+  variantName: string | null;
+  modifierNames: string[];
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  assistReasons: string[];
+}
+
+export interface KioskQuote {
+  lines: KioskCartLine[];
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  assistReasons: string[];
+}
+
+export interface StartKioskPaymentRequest {
+  method: KioskPaymentMethod;
+  items: KioskCartItem[];
+  customerId?: string;
+  assistApproval?: string;
+}
+
+export interface KioskPayment {
+  method: KioskPaymentMethod;
+  amount: number;
+  /** QRIS to show the customer; null for card */
+  qrString: string | null;
+  quote: KioskQuote;
+}
+
+export type KioskCompleteResult =
+  | { status: 'pending' }
+  | {
+      status: 'completed';
+      transactionId: string;
+      receiptNumber: string;
+      grandTotal: number;
+      loyaltyPointsEarned: number;
+    };
+
+export interface ApproveKioskAssistRequest {
+  approverId: string;
+  pin?: string;
+  totpCode?: string;
+  /** The attendant confirms a card payment instead of restricted items */
+  confirmCardPayment?: boolean;
+}
+
+/** Sent to the outlet's terminals when a kiosk calls an attendant */
+export interface KioskAssistRequestedEvent {
+  sessionId: string;
+  deviceId: string;
+  deviceName: string;
+  outletId: string;
+  reason: string;
+  occurredOn: string;
+}
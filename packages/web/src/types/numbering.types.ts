@@ -0,0 +1,109 @@
+export type DocumentType = 'sale' | 'refund' | 'void' | 'credit_note';
+export type NumberingResetPeriod = 'never' | 'daily' | 'monthly' | 'yearly';
+export type NumberBlockStatus = 'active' | 'released' | 'expired';
+
+export interface NumberingSeries {
+  /** null until the outlet issues its first document of this type */
+  id: string | null;
+  outletId: string;
+  documentType: DocumentType;
+  prefix: string;
+  /** Tokens: {prefix} {outlet} {YYYY} {YY} {MM} {DD} {seq} */
+  format: string;
+  padding: number;
+  resetPeriod: NumberingResetPeriod;
+  currentPeriod: string;
+  lastNumber: number;
+  nextNumber: string;
+}
+
+export interface UpdateNumberingSeriesRequest {
+  outletId: string;
+  documentType: DocumentType;
+  prefix?: string;
+  format?: string;
+  padding?: number;
+  resetPeriod?: NumberingResetPeriod;
+}
+
+export interface NumberBlock {
+  id: string;
+  seriesId: string;
+  deviceId: string;
+  deviceName: string;
+  documentType: DocumentType;
+  period: string;
+  startSequence: number;
+  endSequence: number;
+  status: NumberBlockStatus;
+  expiresAt: string;
+  closedAt: string | null;
+  createdAt: string;
+  issued: number;
+  reserved: number;
+  unused: number;
+}
+
+export interface ReserveNumberBlockRequest {
+  outletId: string;
+  deviceId: string;
+  documentType?: DocumentType;
+  size?: number;
+}
+
+/** A fresh block carries the numbers the device prints while offline */
+export interface ReservedNumberBlock extends Omit<
+  NumberBlock,
+  'deviceName' | 'issued' | 'reserved' | 'unused'
+> {
+  numbers: string[];
+}
+
+export interface NumberBlockListParams {
+  outletId: string;
+  deviceId?: string;
+  status?: NumberBlockStatus;
+}
+
+export interface SequenceRange {
+  from: number;
+  to: number;
+}
+
+export interface SequencePeriodIntegrity {
+  period: string;
+  first: number;
+  last: number;
+  issued: number;
+  missing: SequenceRange[];
+  unused: SequenceRange[];
+  reserved: SequenceRange[];
+  /** Issued sequences whose transaction no longer exists */
+  documentsMissing: number[];
+}
+
+export interface SeriesIntegrity {
+  documentType: DocumentType;
+  resetPeriod: NumberingResetPeriod;
+  periods: SequencePeriodIntegrity[];
+  missingCount: number;
+  unusedCount: number;
+  documentsMissingCount: number;
+}
+
+export interface SequenceIntegrityReport {
+  outletId: string;
+  from: string | null;
+  to: string | null;
+  generatedAt: string;
+  hasGaps: boolean;
+  series: SeriesIntegrity[];
+}
+
+export interface SequenceIntegrityParams {
+  outletId: string;
+  documentType?: DocumentType;
+  /** YYYY-MM-DD */
+  from?: string;
+  to?: string;
+}
@@ -35,6 +35,8 @@ export interface Shift {
   closingCash: number | null;
   expectedCash: number | null;
   cashDifference: number | null;
+  /** Expected cash and difference are withheld from the cashier of a blind-closed shift */
+  blindClose?: boolean;
   startedAt: string;
   endedAt: string | null;
   notes: string | null;
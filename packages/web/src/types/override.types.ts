@@ -0,0 +1,60 @@
+export type OverrideAction =
+  | 'void'
+  | 'refund'
+  | 'discount'
+  | 'price_override'
+  | 'no_sale'
+  | 'kiosk_assist'
+  | 'kiosk_card';
+
+export interface OverrideApprover {
+  id: string;
+  name: string;
+  role: string;
+  /** Whether the approver can use an authenticator code instead of a PIN */
+  hasAuthenticator: boolean;
+}
+
+export interface RequestOverrideRequest {
+  action: OverrideAction;
+  approverId: string;
+  /** Either pin or totpCode */
+  pin?: string;
+  totpCode?: string;
+  outletId?: string;
+  /** Transaction (or shift, for no sale) the approval is limited to */
+  referenceId?: string;
+  reason?: string;
+}
+
+export interface OverrideApproval {
+  /** Pass to the void, refund, sale or drawer call; valid once, for 5 minutes */
+  approvalToken: string;
+  overrideId: string;
+  action: OverrideAction;
+  approvedBy: { id: string; name: string };
+  expiresAt: string;
+}
+
+export interface ManagerOverride {
+  id: string;
+  outletId: string;
+  action: OverrideAction;
+  method: 'pin' | 'totp';
+  referenceId: string | null;
+  reason: string | null;
+  expiresAt: string;
+  usedAt: string | null;
+  createdAt: string;
+  requester: { id: string; name: string };
+  approver: { id: string; name: string };
+}
+
+export interface ManagerOverrideListParams {
+  outletId?: string;
+  action?: OverrideAction;
+  approvedBy?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
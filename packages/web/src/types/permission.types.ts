@@ -0,0 +1,66 @@
+export type CustomisableRole = 'manager' | 'supervisor' | 'cashier' | 'kitchen' | 'inventory';
+
+export interface EffectivePermissions {
+  role: string;
+  outletId: string | null;
+  permissions: string[];
+}
+
+export interface PermissionGroup {
+  group: string;
+  permissions: Array<{ key: string; description: string }>;
+}
+
+export interface MatrixRole {
+  /** null for a built-in role the business has not customised */
+  id: string | null;
+  name: string;
+  /** null for custom roles */
+  baseRole: string | null;
+  description: string | null;
+  editable: boolean;
+  customised: boolean;
+  permissions: string[];
+  /** null for built-in roles */
+  assignedEmployees: number | null;
+}
+
+export interface PermissionsMatrix {
+  groups: PermissionGroup[];
+  roles: MatrixRole[];
+}
+
+export interface Role {
+  id: string;
+  businessId: string;
+  name: string;
+  description: string | null;
+  baseRole: string | null;
+  permissions: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRoleRequest {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export type UpdateRoleRequest = Partial<CreateRoleRequest>;
+
+export interface RoleAssignmentRequest {
+  roleId: string;
+  /** Omit to apply the role at every outlet */
+  outletId?: string;
+}
+
+export interface EmployeeRoleAssignment {
+  id: string;
+  employeeId: string;
+  roleId: string;
+  outletId: string | null;
+  createdAt: string;
+  role: { id: string; name: string; permissions: string[] };
+  outlet: { id: string; name: string } | null;
+}
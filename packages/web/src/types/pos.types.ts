@@ -22,6 +22,8 @@ export interface CartItem {
     price: number;
     originalPrice?: number; // Original price before editing
     quantity: number;
+    /** Weight unit of a weighed item; its quantity is a weight */
+    unit?: string;
     modifiers: CartModifier[];
     notes?: string;
     imageUrl?: string;
@@ -73,9 +75,21 @@ export interface CreateTransactionRequest {
     tableId?: string;
     items: TransactionItemRequest[];
     payments: PaymentRequest[];
+    discounts?: DiscountRequest[];
+    /** Supervisor approval for a discount above 20% */
+    discountApprovalToken?: string;
+    /** Supervisor approval for selling below catalog price */
+    priceOverrideApprovalToken?: string;
     notes?: string;
 }
 
+export interface DiscountRequest {
+    type: 'percentage' | 'fixed';
+    value: number;
+    promotionId?: string;
+    voucherCode?: string;
+}
+
 export interface TransactionItemRequest {
     productId: string;
     variantId?: string;
@@ -127,6 +141,8 @@ export interface TransactionItem {
     variantId?: string;
     variantName?: string;
     quantity: number;
+    /** Weight unit of a weighed item */
+    unit?: string | null;
     unitPrice: number;
     subtotal: number;
     discountAmount: number;
@@ -212,6 +228,9 @@ export interface POSProduct {
     modifierGroups: POSModifierGroup[];
     trackStock: boolean;
     stockLevel?: number;
+    /** Sold by weight in sellUnit */
+    isWeighed?: boolean;
+    sellUnit?: string | null;
 }
 
 export interface POSProductVariant {
@@ -0,0 +1,95 @@
+export type PrintTemplateKind = 'receipt' | 'kitchen_ticket';
+export type PaperWidth = 58 | 80;
+export type PrintAlign = 'left' | 'center' | 'right';
+export type PrintTextSize = 'normal' | 'double-width' | 'double-height' | 'double';
+export type BarcodeSymbology = 'CODE128' | 'EAN13' | 'CODE39';
+
+interface PrintBlockBase {
+  /** `path`, `!path` or `path > 0` / `path == 'cash'` */
+  when?: string;
+}
+
+export type PrintBlock = PrintBlockBase &
+  (
+    | {
+        type: 'text';
+        content: string;
+        align?: PrintAlign;
+        bold?: boolean;
+        underline?: boolean;
+        size?: PrintTextSize;
+      }
+    | { type: 'separator'; char?: string }
+    | { type: 'row'; left: string; right: string; bold?: boolean }
+    | { type: 'each'; source: string; as?: string; blocks: PrintBlock[] }
+    | { type: 'group'; blocks: PrintBlock[] }
+    | { type: 'logo'; align?: PrintAlign }
+    | { type: 'qrcode'; data: string; size?: number; align?: PrintAlign }
+    | {
+        type: 'barcode';
+        data: string;
+        symbology?: BarcodeSymbology;
+        height?: number;
+        showText?: boolean;
+        align?: PrintAlign;
+      }
+    | { type: 'feed'; lines?: number }
+    | { type: 'cut'; partial?: boolean }
+    | { type: 'drawer' }
+  );
+
+export interface PrintTemplate {
+  id: string;
+  businessId: string;
+  outletId: string | null;
+  name: string;
+  kind: PrintTemplateKind;
+  paperWidth: PaperWidth;
+  blocks: PrintBlock[];
+  variables: Record<string, unknown>;
+  logoWidth: number | null;
+  logoHeight: number | null;
+  isDefault: boolean;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatePrintTemplateRequest {
+  name: string;
+  kind: PrintTemplateKind;
+  outletId?: string;
+  paperWidth?: PaperWidth;
+  blocks?: PrintBlock[];
+  variables?: Record<string, unknown>;
+  isDefault?: boolean;
+}
+
+export type UpdatePrintTemplateRequest = Partial<
+  Omit<CreatePrintTemplateRequest, 'kind' | 'outletId'>
+> & { isActive?: boolean };
+
+export interface PreviewPrintTemplateRequest {
+  kind: PrintTemplateKind;
+  templateId?: string;
+  paperWidth?: PaperWidth;
+  blocks?: PrintBlock[];
+  variables?: Record<string, unknown>;
+  transactionId?: string;
+}
+
+export interface RenderedPrintJob {
+  templateId: string | null;
+  paperWidth: PaperWidth;
+  /** ESC/POS bytes, base64 encoded */
+  data: string;
+  preview: string;
+}
+
+export interface KitchenTicket extends RenderedPrintJob {
+  printerId: string | null;
+  printerName: string | null;
+  stations: string[];
+  copies: number;
+}
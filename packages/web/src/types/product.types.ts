@@ -8,6 +8,11 @@ export interface Product {
   basePrice: number;
   costPrice: number;
   trackStock: boolean;
+  /** Buyer must be at least this old */
+  minimumAge?: number | null;
+  /** Sold by weight in sellUnit */
+  isWeighed?: boolean;
+  sellUnit?: string | null;
   imageUrl: string | null;
   isActive: boolean;
   variants: ProductVariant[];
@@ -45,6 +50,9 @@ export interface CreateProductRequest {
   basePrice: number;
   costPrice: number;
   trackStock: boolean;
+  minimumAge?: number | null;
+  isWeighed?: boolean;
+  sellUnit?: string | null;
   imageUrl?: string;
   variants?: CreateVariantRequest[];
 }
@@ -0,0 +1,157 @@
+export type ReservationStatus =
+  | 'pending_deposit'
+  | 'confirmed'
+  | 'seated'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show';
+export type ReservationSource = 'staff' | 'phone' | 'online';
+export type ReservationDepositStatus =
+  | 'pending'
+  | 'paid'
+  | 'applied'
+  | 'refunded'
+  | 'forfeited'
+  | 'expired';
+export type ReservationDepositMethod =
+  | 'qris'
+  | 'bank_transfer'
+  | 'gopay'
+  | 'ovo'
+  | 'dana'
+  | 'shopeepay'
+  | 'credit_card';
+
+export interface ReservationTable {
+  id: string;
+  name: string;
+  capacity: number;
+  section: string | null;
+}
+
+export interface ReservationDeposit {
+  id: string;
+  amount: number;
+  status: ReservationDepositStatus;
+  provider: string;
+  method: ReservationDepositMethod;
+  referenceNumber: string;
+  /** QR string, checkout URL or virtual account returned by the gateway */
+  paymentData: Record<string, unknown>;
+  expiresAt: string | null;
+  paidAt: string | null;
+  transactionId: string | null;
+  appliedAmount: number | null;
+  appliedAt: string | null;
+  refundedAt: string | null;
+}
+
+export interface Reservation {
+  id: string;
+  outletId: string;
+  customerId: string | null;
+  customerName: string;
+  customerPhone: string;
+  customerEmail: string | null;
+  partySize: number;
+  section: string | null;
+  startsAt: string;
+  endsAt: string;
+  durationMinutes: number;
+  status: ReservationStatus;
+  source: ReservationSource;
+  notes: string | null;
+  arrivedAt: string | null;
+  lateMinutes: number | null;
+  completedAt: string | null;
+  noShowAt: string | null;
+  cancelledAt: string | null;
+  cancelReason: string | null;
+  reminderSentAt: string | null;
+  createdAt: string;
+  tables: ReservationTable[];
+  deposit: ReservationDeposit | null;
+  /** Not seated yet and past the late grace period */
+  isLate: boolean;
+}
+
+export interface ReservationSlot {
+  startsAt: string;
+  endsAt: string;
+  tables: ReservationTable[];
+  seats: number;
+}
+
+export interface ReservationAvailability {
+  date: string;
+  timeZone: string;
+  durationMinutes: number;
+  opensAt: string | null;
+  closesAt: string | null;
+  slots: ReservationSlot[];
+}
+
+export interface ReservationSettings {
+  defaultDurationMinutes: number;
+  slotIntervalMinutes: number;
+  turnoverBufferMinutes: number;
+  lateGraceMinutes: number;
+  noShowAfterMinutes: number;
+  holdTablesMinutes: number;
+  depositPerGuest: number;
+  depositMinPartySize: number;
+  depositExpiryMinutes: number;
+  freeCancellationHours: number;
+  reminderHoursBefore: number;
+}
+
+export interface ReservationAvailabilityParams {
+  outletId: string;
+  date: string;
+  partySize: number;
+  durationMinutes?: number;
+  section?: string;
+}
+
+export interface ReservationListParams {
+  outletId: string;
+  date?: string;
+  status?: ReservationStatus;
+  customerId?: string;
+}
+
+export interface CreateReservationRequest {
+  outletId: string;
+  partySize: number;
+  startsAt: string;
+  durationMinutes?: number;
+  section?: string;
+  tableIds?: string[];
+  notes?: string;
+  customerId?: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  source?: ReservationSource;
+  depositAmount?: number;
+  depositMethod?: ReservationDepositMethod;
+}
+
+export interface UpdateReservationRequest {
+  partySize?: number;
+  startsAt?: string;
+  durationMinutes?: number;
+  section?: string;
+  tableIds?: string[];
+  notes?: string;
+}
+
+export interface CancelReservationRequest {
+  reason?: string;
+  refundDeposit?: boolean;
+}
+
+export interface RequestReservationDepositRequest {
+  amount?: number;
+  method?: ReservationDepositMethod;
+}
@@ -0,0 +1,30 @@
+export type EmbeddedBarcodeType = 'weight' | 'price';
+
+/** How a scale lays out its EAN-13 labels; mirrors the server's layouts */
+export interface EmbeddedBarcodeLayout {
+  /** In-store prefix, e.g. "20" */
+  prefix: string;
+  type: EmbeddedBarcodeType;
+  itemDigits: number;
+  valueDigits: number;
+  /** Implied decimals of the value, e.g. 3 for grams of a kilogram */
+  decimals: number;
+}
+
+/** A scale label split into its parts */
+export interface EmbeddedBarcode {
+  layout: EmbeddedBarcodeLayout;
+  itemCode: string;
+  /** Kilograms for a weight label, the amount for a price label */
+  value: number;
+}
+
+/** A scale label the server matched to a product */
+export interface EmbeddedBarcodeMatch {
+  productId: string;
+  type: EmbeddedBarcodeType;
+  itemCode: string;
+  /** In the product's sell unit */
+  quantity: number;
+  amount: number;
+}
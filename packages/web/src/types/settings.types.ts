@@ -212,6 +212,9 @@ export interface PrinterConfig {
   autoPrint: boolean;
   copies: number;
   outletId: string;
+  templateId?: string | null;
+  stations?: string[];
+  paperWidth?: 58 | 80;
 }
 
 export interface CreatePrinterConfigRequest {
@@ -223,6 +226,9 @@ export interface CreatePrinterConfigRequest {
   autoPrint?: boolean;
   copies?: number;
   outletId: string;
+  templateId?: string;
+  stations?: string[];
+  paperWidth?: 58 | 80;
 }
 
 export type UpdatePrinterConfigRequest = Partial<CreatePrinterConfigRequest> & { isActive?: boolean };
@@ -230,12 +236,17 @@ export type UpdatePrinterConfigRequest = Partial<CreatePrinterConfigRequest> & {
 // Report Schedule
 export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
 export type ReportType = 'sales' | 'financial' | 'inventory';
+export type ReportFormat = 'pdf' | 'excel';
 
 export interface ReportSchedule {
   id: string;
   reportType: ReportType;
   frequency: ReportFrequency;
   recipients: string[];
+  /** Missing on schedules saved before formats existed; those send PDF */
+  format?: ReportFormat;
+  /** null = all outlets */
+  outletId?: string | null;
   isActive: boolean;
   nextSendAt: string | null;
   lastSentAt: string | null;
@@ -245,8 +256,36 @@ export interface CreateReportScheduleRequest {
   reportType: ReportType;
   frequency: ReportFrequency;
   recipients: string[];
+  format?: ReportFormat;
+  outletId?: string;
   isActive?: boolean;
 }
 
-export type UpdateReportScheduleRequest = Partial<CreateReportScheduleRequest>;
+export type UpdateReportScheduleRequest = Partial<Omit<CreateReportScheduleRequest, 'outletId'>> & {
+  outletId?: string | null;
+};
+
+export type ReportRunStatus = 'queued' | 'running' | 'retrying' | 'completed' | 'failed';
+
+export interface ReportRun {
+  id: string;
+  businessId: string;
+  scheduleId: string | null;
+  reportType: ReportType;
+  format: ReportFormat;
+  outletId: string | null;
+  periodStart: string;
+  periodEnd: string;
+  status: ReportRunStatus;
+  attempts: number;
+  recipients: string[];
+  filePath: string | null;
+  fileUrl: string | null;
+  fileName: string | null;
+  emailedAt: string | null;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
 
@@ -0,0 +1,119 @@
+export type TaxInvoiceStatus = 'issued' | 'replaced' | 'cancelled';
+export type TaxInvoiceExportFormat = 'csv' | 'xml';
+
+export interface FakturNumberRange {
+  id: string;
+  prefix: string;
+  startSerial: number;
+  endSerial: number;
+  nextSerial: number;
+  startNsfp: string;
+  endNsfp: string;
+  remaining: number;
+  isActive: boolean;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface TaxInvoiceItem {
+  id: string;
+  transactionId: string | null;
+  productId: string | null;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  totalPrice: number;
+  discount: number;
+  dpp: number;
+  ppn: number;
+}
+
+export interface TaxInvoiceSummary {
+  id: string;
+  outletId: string | null;
+  customerId: string | null;
+  nsfp: string;
+  fakturNumber: string;
+  transactionCode: string;
+  revision: number;
+  invoiceDate: string;
+  status: TaxInvoiceStatus;
+  buyerNpwp: string;
+  buyerName: string;
+  buyerAddress: string | null;
+  dpp: number;
+  ppn: number;
+  ppnbm: number;
+  reference: string | null;
+  replacesId: string | null;
+  cancelledAt: string | null;
+  cancelReason: string | null;
+  lastExportedAt: string | null;
+  createdAt: string;
+}
+
+export interface TaxInvoice extends TaxInvoiceSummary {
+  sellerNpwp: string;
+  sellerName: string;
+  sellerAddress: string | null;
+  items: TaxInvoiceItem[];
+  transactions: { id: string; receiptNumber: string; createdAt: string; grandTotal: number }[];
+}
+
+export interface TaxInvoiceListParams {
+  status?: TaxInvoiceStatus;
+  customerId?: string;
+  outletId?: string;
+  startDate?: string;
+  endDate?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface TaxInvoiceListResponse {
+  invoices: (TaxInvoiceSummary & { transactionCount: number })[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  summary: {
+    issuedCount: number;
+    totalDpp: number;
+    totalPpn: number;
+  };
+}
+
+export interface TaxInvoiceExportParams {
+  format: TaxInvoiceExportFormat;
+  ids?: string;
+  startDate?: string;
+  endDate?: string;
+  outletId?: string;
+}
+
+interface TaxInvoiceBuyerRequest {
+  buyerNpwp?: string;
+  buyerName?: string;
+  buyerAddress?: string;
+  invoiceDate?: string;
+  reference?: string;
+}
+
+export interface CreateTaxInvoiceRequest extends TaxInvoiceBuyerRequest {
+  transactionIds: string[];
+  customerId?: string;
+  transactionCode?: string;
+}
+
+export interface ReplaceTaxInvoiceRequest extends TaxInvoiceBuyerRequest {
+  transactionIds?: string[];
+}
+
+export interface CreateFakturRangeRequest {
+  startNsfp: string;
+  endNsfp: string;
+  notes?: string;
+}